@@ -3,7 +3,7 @@
  * Phase 10.5: Server Action Tests
  * 
  * Tests for all server-side actions including translation,
- * catalog management, broadcast, and network logs.
+ * catalog management, broadcast, network logs and admin-only actions.
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
@@ -11,7 +11,9 @@ import {
   translateVoiceAction,
   saveCatalogAction,
   broadcastCatalogAction,
-  getNetworkLogsAction
+  getNetworkLogsAction,
+  createFpoAction,
+  setFaultProfileAction
 } from './actions';
 import { SAMPLE_ONION_CATALOG } from '@/tests/fixtures/beckn-catalog';
 import {
@@ -20,6 +22,9 @@ import {
   MOCK_CATALOG_BROADCASTED,
   MOCK_BUYER_BID
 } from '@/tests/fixtures/database';
+import { prisma } from '@/lib/db';
+import { authorizeAdmin, authorizeFarmer } from '@/lib/farmer-session';
+import { getActiveFaultProfile, setActiveFaultProfile } from '@/lib/fault-profiles';
 
 // Mock dependencies
 vi.mock('@/lib/db', () => ({
@@ -30,7 +35,9 @@ vi.mock('@/lib/db', () => ({
     catalog: {
       create: vi.fn(),
       findUnique: vi.fn(),
+      findMany: vi.fn(),
       update: vi.fn(),
+      updateMany: vi.fn(),
     },
     networkLog: {
       create: vi.fn(),
@@ -48,6 +55,21 @@ vi.mock('@/lib/network-simulator', () => ({
   simulateBroadcast: vi.fn(),
 }));
 
+vi.mock('@/lib/catalog-rules', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/catalog-rules')>(),
+  validateFarmerListing: vi.fn(async () => ({ valid: true, errors: [], warnings: [] })),
+}));
+
+vi.mock('@/lib/farmer-session', () => ({
+  NOT_LOGGED_IN: 'Please log in with your mobile number',
+  ADMIN_ONLY: 'Admin access required',
+  authorizeFarmer: vi.fn(async () => ({ error: 'Please log in with your mobile number' })),
+  authorizeAdmin: vi.fn(async () => ({ error: 'Admin access required' })),
+  getSessionFarmer: vi.fn(async () => null),
+  setSessionCookie: vi.fn(),
+  clearSession: vi.fn(),
+}));
+
 describe('Server Actions Tests', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -68,10 +90,10 @@ describe('Server Actions Tests', () => {
   });
 
   describe('saveCatalogAction', () => {
-    it('should validate empty farmer ID', async () => {
-      const result = await saveCatalogAction('', SAMPLE_ONION_CATALOG);
+    it('should require a logged-in farmer', async () => {
+      const result = await saveCatalogAction(SAMPLE_ONION_CATALOG);
       expect(result.success).toBe(false);
-      expect(result.error).toBeDefined();
+      expect(result.error).toBe('Please log in with your mobile number');
     });
   });
 
@@ -81,12 +103,66 @@ describe('Server Actions Tests', () => {
       expect(result.success).toBe(false);
       expect(result.error).toBeDefined();
     });
+
+    it('should not broadcast a listing that is no longer a draft', async () => {
+      vi.mocked(authorizeFarmer).mockResolvedValueOnce({ farmerId: MOCK_FARMER.id });
+      vi.mocked(prisma.catalog.findUnique).mockResolvedValueOnce(MOCK_CATALOG_BROADCASTED);
+      vi.mocked(prisma.catalog.updateMany).mockResolvedValueOnce({ count: 0 });
+
+      const result = await broadcastCatalogAction(MOCK_CATALOG_BROADCASTED.id);
+
+      expect(result).toEqual({ success: false, error: 'Only a draft listing can be broadcast' });
+      expect(prisma.catalog.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: MOCK_CATALOG_BROADCASTED.id, status: 'DRAFT' }
+      }));
+      expect(prisma.networkLog.create).not.toHaveBeenCalled();
+    });
   });
 
   describe('getNetworkLogsAction', () => {
-    it('should fetch logs successfully', async () => {
+    it('should require a logged-in farmer', async () => {
       const result = await getNetworkLogsAction('ALL', 1, 10);
-      expect(result.success).toBeDefined();
+      expect(result).toEqual({ success: false, error: 'Please log in with your mobile number' });
+      expect(prisma.networkLog.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should fetch only the farmer's own logs", async () => {
+      vi.mocked(authorizeFarmer).mockResolvedValueOnce({ farmerId: MOCK_FARMER.id });
+      vi.mocked(prisma.catalog.findMany).mockResolvedValueOnce([{ id: MOCK_CATALOG_DRAFT.id }] as any);
+      vi.mocked(prisma.networkLog.findMany).mockResolvedValueOnce([]);
+      vi.mocked(prisma.networkLog.count).mockResolvedValueOnce(0);
+
+      const result = await getNetworkLogsAction('INCOMING_BID', 1, 10);
+
+      expect(result.success).toBe(true);
+      expect(prisma.catalog.findMany).toHaveBeenCalledWith({
+        where: { farmerId: MOCK_FARMER.id },
+        select: { id: true }
+      });
+      expect(prisma.networkLog.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { type: 'INCOMING_BID', catalogId: { in: [MOCK_CATALOG_DRAFT.id] } }
+      }));
+    });
+  });
+
+  describe('admin actions', () => {
+    it('should refuse anyone but an admin', async () => {
+      const fpo = await createFpoAction({ name: 'Nashik Onion FPO', providerId: 'nashik-onion-fpo', state: 'Maharashtra' });
+      const profile = await setFaultProfileAction('flaky-gateway');
+
+      expect(fpo).toEqual({ success: false, error: 'Admin access required' });
+      expect(profile).toEqual({ success: false, error: 'Admin access required' });
+      expect(getActiveFaultProfile().id).not.toBe('flaky-gateway');
+    });
+
+    it('should let an admin change the fault profile', async () => {
+      vi.mocked(authorizeAdmin).mockResolvedValueOnce({ farmerId: MOCK_FARMER.id });
+
+      const result = await setFaultProfileAction('flaky-gateway');
+
+      expect(result.success).toBe(true);
+      expect(getActiveFaultProfile().id).toBe('flaky-gateway');
+      setActiveFaultProfile('production');
     });
   });
 });
\ No newline at end of file
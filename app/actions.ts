@@ -6,18 +6,109 @@
  * This file contains all server-side actions for the Setu Voice-to-ONDC Gateway.
  * All functions are Server Actions that can be called from client components.
  * 
+ * Actions act for the farmer logged in on the request (phone OTP login,
+ * session cookie); records belonging to other farmers are not found.
+ * 
  * Actions include:
+ * - Farmer login (phone OTP) and logout
+ * - Farmer profile (land, crops, mandis, payout details and KYC)
  * - Voice translation
  * - Catalog management (save, fetch)
  * - Broadcast operations
+ * - Bid responses (accept, reject, counter-offer)
+ * - Order tracking
+ * - Cancellation (listing or sale)
+ * - Listing expiry (re-listing, expiry sweep)
+ * - Issue & grievance management (IGM)
+ * - Simulated network fault profiles
+ * - Bid learning statistics
+ * - Buyer registry administration
+ * - FPO pooled listings
  * - Network log retrieval
  */
 
 import { translateVoiceToJsonWithFallback } from "@/lib/translation-agent";
+import { requestOtp, verifyOtp, type OtpRequestResult } from "@/lib/farmer-auth";
+import { authorizeAdmin, authorizeFarmer, clearSession, getSessionFarmer, setSessionCookie, NOT_LOGGED_IN } from "@/lib/farmer-session";
+import {
+  getFarmerProfile,
+  listPendingKyc,
+  setFarmerKycStatus,
+  updateFarmerProfile,
+  type FarmerProfileInput,
+  type FarmerProfileResult,
+  type PendingKycResult
+} from "@/lib/farmer-profile";
 import { prisma, handleDatabaseError } from "@/lib/db";
-import { simulateBroadcast, type BuyerBid } from "@/lib/network-simulator";
+import { startBroadcast, getBroadcastStatus, type BroadcastStatus } from "@/lib/ondc-broadcast";
+import { acceptBid, rejectBid, counterBid, type BidResponseResult } from "@/lib/negotiation";
+import { getOrderTracking, type OrderTracking } from "@/lib/fulfillment-tracker";
+import { cancelListing, cancelSale, type CancellationResult } from "@/lib/cancellation";
+import {
+  getIssues,
+  getIssueOrders,
+  raiseIssue,
+  simulateBuyerComplaint,
+  respondToIssue,
+  escalateIssue,
+  closeIssue,
+  checkIssueStatus,
+  type IssueResponse,
+  type IssueResult,
+  type IssueWithActions
+} from "@/lib/igm";
+import { ONDC_ISSUE_KINDS, type ONDCIssueKind } from "@/lib/ondc-protocol";
+import {
+  getActiveFaultProfile,
+  getFaultProfiles,
+  setActiveFaultProfile,
+  type FaultProfile,
+  type FaultProfileResult
+} from "@/lib/fault-profiles";
+import {
+  getBidLearningStats,
+  resetBidLearning,
+  type LearningResetResult,
+  type LearningStatsResult
+} from "@/lib/bid-learning";
+import {
+  createBuyer,
+  listBuyers,
+  setBuyerSuspended,
+  setBuyerVerified,
+  updateBuyer,
+  type BuyerInput,
+  type BuyerResult,
+  type RegisteredBuyer
+} from "@/lib/buyer-registry";
+import {
+  contributeToPool,
+  createFpo,
+  listFarmerPools,
+  listFpos,
+  setFarmerFpo,
+  type FpoInput,
+  type FpoResult,
+  type PoolContributionResult,
+  type PoolShare
+} from "@/lib/fpo-pool";
 import type { BecknCatalogItem } from "@/lib/beckn-schema";
-import type { Catalog, NetworkLog, NetworkLogType, Prisma } from "@/lib/generated-client/client";
+import { describeRuleErrors, validateCatalogRules, validateFarmerListing, type CatalogRuleReport } from "@/lib/catalog-rules";
+import {
+  firstRevision,
+  listCatalogRevisions,
+  updateCatalog,
+  type CatalogRevisionsResult,
+  type CatalogUpdateResult
+} from "@/lib/catalog-revisions";
+import {
+  getListingExpiry,
+  relistListing,
+  runExpirySweep,
+  type ExpirySweepResult,
+  type RelistResult
+} from "@/lib/listing-expiry";
+import { NetworkLogType, type Catalog, type Farmer, type Fpo, type NetworkLog, type Order, type Prisma } from "@/lib/generated-client/client";
 
 // ============================================================================
 // Phase 4.1: Translation Action
@@ -81,6 +172,241 @@ export async function translateVoiceAction(voiceText: string): Promise<Translate
   }
 }
 
+// ============================================================================
+// Farmer Login Actions
+// ============================================================================
+
+/**
+ * requestOtpAction
+ * 
+ * Sends a one-time login code by SMS to a mobile number.
+ * 
+ * @param phone - The farmer's mobile number
+ * @returns Promise resolving to OtpRequestResult
+ */
+export async function requestOtpAction(phone: string): Promise<OtpRequestResult> {
+  if (!phone || phone.trim().length === 0) {
+    return {
+      success: false,
+      error: "Mobile number is required"
+    };
+  }
+
+  return requestOtp(phone);
+}
+
+/**
+ * FarmerLoginResult
+ * 
+ * Result type for verifyOtpAction and getCurrentFarmerAction
+ */
+export interface FarmerLoginResult {
+  success: boolean;
+  farmer?: Farmer;
+  /** True when the account was created by this login */
+  isNewFarmer?: boolean;
+  error?: string;
+}
+
+/**
+ * verifyOtpAction
+ * 
+ * Checks a login code and sets the session cookie. A number logging in
+ * for the first time gets a new farmer account.
+ * 
+ * @param phone - The mobile number the code was sent to
+ * @param code - The code the farmer entered
+ * @param name - Optional name for a new account
+ * @returns Promise resolving to FarmerLoginResult
+ */
+export async function verifyOtpAction(
+  phone: string,
+  code: string,
+  name?: string
+): Promise<FarmerLoginResult> {
+  if (!code || code.trim().length === 0) {
+    return {
+      success: false,
+      error: "Code is required"
+    };
+  }
+
+  const result = await verifyOtp(phone, code, { name });
+
+  if (!result.success || !result.session) {
+    console.error(`[X] Login failed: ${result.error}`);
+    return {
+      success: false,
+      error: result.error
+    };
+  }
+
+  await setSessionCookie(result.session);
+  console.log(`[OK] Farmer ${result.farmer?.id} logged in`);
+
+  return {
+    success: true,
+    farmer: result.farmer,
+    isNewFarmer: result.isNewFarmer
+  };
+}
+
+/**
+ * getCurrentFarmerAction
+ * 
+ * Gets the farmer logged in on this browser.
+ * 
+ * @returns Promise resolving to FarmerLoginResult (success false when logged out)
+ */
+export async function getCurrentFarmerAction(): Promise<FarmerLoginResult> {
+  try {
+    const farmer = await getSessionFarmer();
+
+    return farmer
+      ? { success: true, farmer }
+      : { success: false, error: NOT_LOGGED_IN };
+
+  } catch (error) {
+    console.error("[X] Session lookup failed:", error);
+    return {
+      success: false,
+      error: handleDatabaseError(error)
+    };
+  }
+}
+
+/**
+ * logoutAction
+ * 
+ * Ends the session on this browser.
+ */
+export async function logoutAction(): Promise<{ success: boolean }> {
+  await clearSession();
+  return { success: true };
+}
+
+// ============================================================================
+// Farmer Profile Actions
+// ============================================================================
+
+/**
+ * getFarmerProfileAction
+ * 
+ * Fetches the logged-in farmer's profile: where they farm, their crops
+ * and mandis, payout details (account number masked) and KYC status.
+ * 
+ * @returns Promise resolving to FarmerProfileResult
+ */
+export async function getFarmerProfileAction(): Promise<FarmerProfileResult> {
+  const auth = await authorizeFarmer();
+  if (auth.error) {
+    return {
+      success: false,
+      error: auth.error
+    };
+  }
+
+  return getFarmerProfile(auth.farmerId);
+}
+
+/**
+ * updateFarmerProfileAction
+ * 
+ * Changes the logged-in farmer's profile. New or changed payout details
+ * put KYC back to PENDING until they are checked.
+ * 
+ * @param input - The fields to change
+ * @returns Promise resolving to FarmerProfileResult
+ */
+export async function updateFarmerProfileAction(
+  input: Partial<FarmerProfileInput>
+): Promise<FarmerProfileResult> {
+  const auth = await authorizeFarmer();
+  if (auth.error) {
+    return {
+      success: false,
+      error: auth.error
+    };
+  }
+
+  const result = await updateFarmerProfile(auth.farmerId, input);
+
+  if (result.success) {
+    console.log(`[OK] Profile updated: ${auth.farmerId}`);
+  } else {
+    console.error(`[X] Updating profile failed: ${result.error}`);
+  }
+
+  return result;
+}
+
+/**
+ * getPendingKycAction
+ * 
+ * Lists the farmers whose payout details are waiting to be checked.
+ * Admins only.
+ * 
+ * @returns Promise resolving to PendingKycResult
+ */
+export async function getPendingKycAction(): Promise<PendingKycResult> {
+  const auth = await authorizeAdmin();
+  if (auth.error) {
+    return {
+      success: false,
+      error: auth.error
+    };
+  }
+
+  return listPendingKyc();
+}
+
+/**
+ * setFarmerKycStatusAction
+ * 
+ * Records the outcome of checking a farmer's payout details. Admins only,
+ * and never for their own details.
+ * 
+ * @param farmerId - The ID of the farmer
+ * @param status - VERIFIED or REJECTED
+ * @returns Promise resolving to FarmerProfileResult
+ */
+export async function setFarmerKycStatusAction(
+  farmerId: string,
+  status: "VERIFIED" | "REJECTED"
+): Promise<FarmerProfileResult> {
+  if (!farmerId || farmerId.trim().length === 0) {
+    return {
+      success: false,
+      error: "Farmer ID is required"
+    };
+  }
+
+  const auth = await authorizeAdmin();
+  if (auth.error) {
+    return {
+      success: false,
+      error: auth.error
+    };
+  }
+
+  if (auth.farmerId === farmerId) {
+    return {
+      success: false,
+      error: "Another admin must check your own payout details"
+    };
+  }
+
+  const result = await setFarmerKycStatus(farmerId, status);
+
+  if (result.success) {
+    console.log(`[OK] KYC of farmer ${farmerId} ${status.toLowerCase()}`);
+  } else {
+    console.error(`[X] KYC update failed: ${result.error}`);
+  }
+
+  return result;
+}
+
 // ============================================================================
 // Phase 4.2: Catalog Management Actions
 // ============================================================================
@@ -99,36 +425,25 @@ export interface SaveCatalogResult {
 /**
  * saveCatalogAction
  * 
- * Persists a catalog to the database with DRAFT status.
+ * Persists a catalog for the logged-in farmer with DRAFT status, as
+ * revision 1.
  * 
- * @param farmerId - The ID of the farmer creating the catalog
  * @param catalog - The Beckn Protocol catalog item
  * @returns Promise resolving to SaveCatalogResult
  */
 export async function saveCatalogAction(
-  farmerId: string,
   catalog: BecknCatalogItem
 ): Promise<SaveCatalogResult> {
   try {
-    // Farmer ID validation
-    if (!farmerId || farmerId.trim().length === 0) {
+    const auth = await authorizeFarmer();
+    if (auth.error) {
       return {
         success: false,
-        error: "Farmer ID is required"
+        error: auth.error
       };
     }
 
-    // Verify farmer exists
-    const farmer = await prisma.farmer.findUnique({
-      where: { id: farmerId }
-    });
-
-    if (!farmer) {
-      return {
-        success: false,
-        error: "Farmer not found"
-      };
-    }
+    const { farmerId } = auth;
 
     console.log(` Saving catalog for farmer ${farmerId}`);
 
@@ -137,7 +452,8 @@ export async function saveCatalogAction(
       data: {
         farmerId,
         becknJson: catalog as Prisma.InputJsonValue, // Prisma Json type
-        status: "DRAFT"
+        status: "DRAFT",
+        revisions: firstRevision(catalog, farmerId)
       }
     });
 
@@ -189,6 +505,14 @@ export async function getCatalogAction(catalogId: string): Promise<GetCatalogRes
       };
     }
 
+    const auth = await authorizeFarmer({ kind: "catalog", id: catalogId });
+    if (auth.error) {
+      return {
+        success: false,
+        error: auth.error
+      };
+    }
+
     console.log(` Fetching catalog ${catalogId}`);
 
     const catalog = await prisma.catalog.findUnique({
@@ -233,22 +557,22 @@ export interface GetCatalogsByFarmerResult {
 /**
  * getCatalogsByFarmerAction
  * 
- * Fetches all catalogs for a specific farmer.
+ * Fetches all catalogs of the logged-in farmer.
  * 
- * @param farmerId - The ID of the farmer
  * @returns Promise resolving to GetCatalogsByFarmerResult
  */
-export async function getCatalogsByFarmerAction(
-  farmerId: string
-): Promise<GetCatalogsByFarmerResult> {
+export async function getCatalogsByFarmerAction(): Promise<GetCatalogsByFarmerResult> {
   try {
-    if (!farmerId || farmerId.trim().length === 0) {
+    const auth = await authorizeFarmer();
+    if (auth.error) {
       return {
         success: false,
-        error: "Farmer ID is required"
+        error: auth.error
       };
     }
 
+    const { farmerId } = auth;
+
     console.log(` Fetching catalogs for farmer ${farmerId}`);
 
     const catalogs = await prisma.catalog.findMany({
@@ -273,6 +597,120 @@ export async function getCatalogsByFarmerAction(
   }
 }
 
+/**
+ * updateCatalogAction
+ * 
+ * Edits a saved catalog, recording a new revision with what changed.
+ * A catalog that has been broadcast is re-broadcast to buyers as an ONDC
+ * update. Sold and cancelled catalogs cannot be edited. The revision is
+ * recorded as made by the logged-in farmer.
+ * 
+ * @param catalogId - The ID of the catalog to edit
+ * @param catalog - The edited Beckn Protocol catalog item
+ * @param note - Optional reason for the edit
+ * @returns Promise resolving to CatalogUpdateResult
+ */
+export async function updateCatalogAction(
+  catalogId: string,
+  catalog: BecknCatalogItem,
+  note?: string
+): Promise<CatalogUpdateResult> {
+  if (!catalogId || catalogId.trim().length === 0) {
+    return {
+      success: false,
+      error: "Catalog ID is required"
+    };
+  }
+
+  const auth = await authorizeFarmer({ kind: "catalog", id: catalogId });
+  if (auth.error) {
+    return {
+      success: false,
+      error: auth.error
+    };
+  }
+
+  const result = await updateCatalog(catalogId, catalog, { changedBy: auth.farmerId, note });
+
+  if (result.success) {
+    console.log(`[OK] Catalog ${catalogId} updated to v${result.revision?.version}`);
+  } else {
+    console.error(`[X] Catalog update failed: ${result.error}`);
+  }
+
+  return result;
+}
+
+/**
+ * getCatalogRevisionsAction
+ * 
+ * Lists the revisions of a catalog, oldest first, each with the fields
+ * it changed.
+ * 
+ * @param catalogId - The ID of the catalog
+ * @returns Promise resolving to CatalogRevisionsResult
+ */
+export async function getCatalogRevisionsAction(catalogId: string): Promise<CatalogRevisionsResult> {
+  if (!catalogId || catalogId.trim().length === 0) {
+    return {
+      success: false,
+      error: "Catalog ID is required"
+    };
+  }
+
+  const auth = await authorizeFarmer({ kind: "catalog", id: catalogId });
+  if (auth.error) {
+    return {
+      success: false,
+      error: auth.error
+    };
+  }
+
+  return listCatalogRevisions(catalogId);
+}
+
+/**
+ * CheckCatalogRulesResult
+ * 
+ * Result type for checkCatalogRulesAction
+ */
+export interface CheckCatalogRulesResult {
+  success: boolean;
+  report?: CatalogRuleReport;
+  error?: string;
+}
+
+/**
+ * checkCatalogRulesAction
+ * 
+ * Checks a listing against the ONDC AGR10 rules before it is broadcast:
+ * mandatory attributes and units for its category, price against the
+ * current mandi modal price, perishability and image.
+ * 
+ * @param catalog - The listing to check
+ * @param state - Optional farmer state, for local mandi prices
+ * @returns Promise resolving to CheckCatalogRulesResult
+ */
+export async function checkCatalogRulesAction(
+  catalog: BecknCatalogItem,
+  state?: string
+): Promise<CheckCatalogRulesResult> {
+  try {
+    const report = await validateCatalogRules(catalog, { state: state?.trim() || undefined });
+
+    return {
+      success: true,
+      report
+    };
+  } catch (error) {
+    console.error("[X] Checking catalog rules failed:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to check catalog"
+    };
+  }
+}
+
 // ============================================================================
 // Phase 4.3: Broadcast Action
 // ============================================================================
@@ -284,20 +722,24 @@ export async function getCatalogsByFarmerAction(
  */
 export interface BroadcastCatalogResult {
   success: boolean;
-  bid?: BuyerBid;
+  /** ONDC transaction ID to poll with getBroadcastStatusAction */
+  transactionId?: string;
+  /** The AGR10 rule check, when the catalog broke the rules */
+  ruleReport?: CatalogRuleReport;
   error?: string;
 }
 
 /**
  * broadcastCatalogAction
  * 
- * Broadcasts a catalog to the network and triggers simulation.
+ * Broadcasts a catalog to the network.
  * 
  * Flow:
- * 1. Update catalog status to BROADCASTED
- * 2. Log OUTGOING_CATALOG event to NetworkLog
- * 3. Trigger network simulator
- * 4. Return broadcast result with bid data
+ * 1. Check the catalog against the AGR10 rules; errors stop the broadcast
+ * 2. Update catalog status to BROADCASTED, only from DRAFT
+ * 3. Log OUTGOING_CATALOG event to NetworkLog
+ * 4. Send the ONDC search (simulated or over HTTP)
+ * 5. Return the transaction ID; bids arrive asynchronously
  * 
  * @param catalogId - The ID of the catalog to broadcast
  * @returns Promise resolving to BroadcastCatalogResult
@@ -313,6 +755,14 @@ export async function broadcastCatalogAction(
       };
     }
 
+    const auth = await authorizeFarmer({ kind: "catalog", id: catalogId });
+    if (auth.error) {
+      return {
+        success: false,
+        error: auth.error
+      };
+    }
+
     console.log(` Broadcasting catalog ${catalogId}`);
 
     // Fetch the catalog
@@ -327,18 +777,40 @@ export async function broadcastCatalogAction(
       };
     }
 
-    // Update catalog status to BROADCASTED
-    await prisma.catalog.update({
-      where: { id: catalogId },
-      data: { status: "BROADCASTED" }
+    const ruleReport = await validateFarmerListing(catalog.becknJson as unknown as BecknCatalogItem, catalog.farmerId);
+    if (!ruleReport.valid) {
+      return {
+        success: false,
+        error: describeRuleErrors(ruleReport),
+        ruleReport
+      };
+    }
+
+    // Update catalog status to BROADCASTED; it expires by its perishability.
+    // Only a draft goes out: a sold or cancelled lot stays off the network,
+    // and an expired one is relisted with relistCatalogAction
+    const { count } = await prisma.catalog.updateMany({
+      where: { id: catalogId, status: "DRAFT" },
+      data: {
+        status: "BROADCASTED",
+        expiresAt: getListingExpiry(catalog.becknJson as unknown as BecknCatalogItem)
+      }
     });
 
+    if (count === 0) {
+      return {
+        success: false,
+        error: "Only a draft listing can be broadcast"
+      };
+    }
+
     console.log("[OK] Catalog status updated to BROADCASTED");
 
     // Log OUTGOING_CATALOG event to NetworkLog
     await prisma.networkLog.create({
       data: {
         type: "OUTGOING_CATALOG",
+        catalogId: catalog.id,
         payload: {
           catalogId: catalog.id,
           farmerId: catalog.farmerId,
@@ -351,14 +823,22 @@ export async function broadcastCatalogAction(
 
     console.log("[OK] OUTGOING_CATALOG event logged");
 
-    // Trigger network simulator
-    const bid = await simulateBroadcast(catalogId);
+    // Send the search; bids arrive later through the ONDC callbacks
+    const broadcast = await startBroadcast(catalogId);
+
+    if (!broadcast.success) {
+      return {
+        success: false,
+        transactionId: broadcast.transactionId,
+        error: broadcast.error
+      };
+    }
 
-    console.log("[OK] Broadcast completed successfully");
+    console.log(`[OK] Broadcast started: ${broadcast.transactionId}`);
 
     return {
       success: true,
-      bid
+      transactionId: broadcast.transactionId
     };
 
   } catch (error) {
@@ -371,51 +851,1120 @@ export async function broadcastCatalogAction(
   }
 }
 
-// ============================================================================
-// Phase 4.4: Network Log Actions
-// ============================================================================
-
 /**
- * GetNetworkLogsResult
+ * GetBroadcastStatusResult
  * 
- * Result type for getNetworkLogsAction
+ * Result type for getBroadcastStatusAction
  */
-export interface GetNetworkLogsResult {
+export interface GetBroadcastStatusResult {
   success: boolean;
-  logs?: NetworkLog[];
-  totalPages?: number;
-  currentPage?: number;
+  status?: BroadcastStatus["status"];
+  bids?: BroadcastStatus["bids"];
+  auctionOpen?: boolean;
+  auctionClosesAt?: Date;
+  /** Why each buyer did or didn't receive the broadcast */
+  buyerMatches?: BroadcastStatus["buyerMatches"];
   error?: string;
 }
 
 /**
- * getNetworkLogsAction
+ * getBroadcastStatusAction
  * 
- * Fetches network logs with pagination and filtering.
+ * Reads the bids received so far for a broadcast, best first. Poll this
+ * after broadcastCatalogAction until the status is FAILED or the auction
+ * window has closed (auctionOpen is false).
  * 
- * @param filter - Optional filter for log type ("ALL", "OUTGOING_CATALOG", "INCOMING_BID")
- * @param page - Page number (1-indexed, defaults to 1)
- * @param pageSize - Number of logs per page (defaults to 10)
- * @returns Promise resolving to GetNetworkLogsResult
+ * @param catalogId - The ID of the broadcast catalog
+ * @param transactionId - Optional transaction ID of a single broadcast
+ * @returns Promise resolving to GetBroadcastStatusResult
  */
-export async function getNetworkLogsAction(
-  filter?: string,
-  page: number = 1,
-  pageSize: number = 10
-): Promise<GetNetworkLogsResult> {
+export async function getBroadcastStatusAction(
+  catalogId: string,
+  transactionId?: string
+): Promise<GetBroadcastStatusResult> {
   try {
-    console.log(` Fetching network logs (filter: ${filter || "ALL"}, page: ${page})`);
+    if (!catalogId || catalogId.trim().length === 0) {
+      return {
+        success: false,
+        error: "Catalog ID is required"
+      };
+    }
 
-    // Validate page number
-    if (page < 1) {
-      page = 1;
+    const auth = await authorizeFarmer({ kind: "catalog", id: catalogId });
+    if (auth.error) {
+      return {
+        success: false,
+        error: auth.error
+      };
     }
 
-    // Build where clause based on filter
-    const where: { type?: NetworkLogType } = {};
+    const broadcast = await getBroadcastStatus(catalogId, transactionId);
+
+    return {
+      success: true,
+      status: broadcast.status,
+      bids: broadcast.bids,
+      auctionOpen: broadcast.auctionOpen,
+      auctionClosesAt: broadcast.auctionClosesAt,
+      buyerMatches: broadcast.buyerMatches,
+      error: broadcast.error?.message
+    };
+
+  } catch (error) {
+    console.error("[X] Get broadcast status action failed:", error);
+
+    return {
+      success: false,
+      error: handleDatabaseError(error)
+    };
+  }
+}
+
+// ============================================================================
+// Bid Response Actions
+// ============================================================================
+
+/**
+ * RespondToBidResult
+ * 
+ * Result type for acceptBidAction, rejectBidAction and counterOfferAction
+ */
+export interface RespondToBidResult {
+  success: boolean;
+  outcome?: BidResponseResult["outcome"];
+  /** The bid now on the table (the sold bid once an order is placed) */
+  bid?: BidResponseResult["bid"];
+  /** The order created when the produce is sold */
+  order?: BidResponseResult["order"];
+  error?: string;
+}
+
+/**
+ * acceptBidAction
+ * 
+ * Accepts a buyer's bid: confirms the order with the buyer, creates the
+ * order record and marks the catalog SOLD.
+ * 
+ * @param bidId - The ID of the bid to accept
+ * @returns Promise resolving to RespondToBidResult
+ */
+export async function acceptBidAction(bidId: string): Promise<RespondToBidResult> {
+  const auth = await authorizeFarmer({ kind: "bid", id: bidId });
+  if (auth.error) {
+    return {
+      success: false,
+      error: auth.error
+    };
+  }
+
+  console.log(` Accepting bid ${bidId}`);
+
+  const result = await acceptBid(bidId);
+
+  if (result.success) {
+    console.log(`[OK] Order ${result.order?.id} created`);
+  }
+
+  return result;
+}
+
+/**
+ * rejectBidAction
+ * 
+ * Rejects a buyer's bid. The remaining bids stay open.
+ * 
+ * @param bidId - The ID of the bid to reject
+ * @param reason - Optional reason for the rejection
+ * @returns Promise resolving to RespondToBidResult
+ */
+export async function rejectBidAction(
+  bidId: string,
+  reason?: string
+): Promise<RespondToBidResult> {
+  const auth = await authorizeFarmer({ kind: "bid", id: bidId });
+  if (auth.error) {
+    return {
+      success: false,
+      error: auth.error
+    };
+  }
+
+  console.log(` Rejecting bid ${bidId}`);
+
+  return rejectBid(bidId, reason);
+}
+
+/**
+ * counterOfferAction
+ * 
+ * Asks the buyer for a higher price per unit. The buyer accepts (the
+ * produce is sold at that price), raises its bid, or declines.
+ * 
+ * @param bidId - The ID of the bid to counter
+ * @param counterPrice - The asking price per unit
+ * @returns Promise resolving to RespondToBidResult
+ */
+export async function counterOfferAction(
+  bidId: string,
+  counterPrice: number
+): Promise<RespondToBidResult> {
+  const auth = await authorizeFarmer({ kind: "bid", id: bidId });
+  if (auth.error) {
+    return {
+      success: false,
+      error: auth.error
+    };
+  }
+
+  console.log(` Countering bid ${bidId} at Rs ${counterPrice}`);
+
+  const result = await counterBid(bidId, counterPrice);
+
+  if (result.success) {
+    console.log(`[OK] Counter-offer outcome: ${result.outcome}`);
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Order Tracking Actions
+// ============================================================================
+
+/**
+ * GetOrderTrackingResult
+ * 
+ * Result type for getOrderTrackingAction
+ */
+export interface GetOrderTrackingResult {
+  success: boolean;
+  tracking?: OrderTracking;
+  error?: string;
+}
+
+/**
+ * getOrderTrackingAction
+ * 
+ * Gets an order's status and the fulfillment stages reached so far
+ * (packed, picked up, in transit, delivered).
+ * 
+ * @param orderId - The ID of the order to track
+ * @returns Promise resolving to GetOrderTrackingResult
+ */
+export async function getOrderTrackingAction(orderId: string): Promise<GetOrderTrackingResult> {
+  try {
+    if (!orderId || orderId.trim().length === 0) {
+      return {
+        success: false,
+        error: "Order ID is required"
+      };
+    }
+
+    const auth = await authorizeFarmer({ kind: "order", id: orderId });
+    if (auth.error) {
+      return {
+        success: false,
+        error: auth.error
+      };
+    }
+
+    const tracking = await getOrderTracking(orderId);
+
+    if (!tracking) {
+      return {
+        success: false,
+        error: "Order not found"
+      };
+    }
+
+    console.log(`[OK] Order ${orderId}: ${tracking.currentState || tracking.order.status}`);
+
+    return {
+      success: true,
+      tracking
+    };
+
+  } catch (error) {
+    console.error("[X] Order tracking failed:", error);
+    return {
+      success: false,
+      error: handleDatabaseError(error)
+    };
+  }
+}
+
+// ============================================================================
+// Cancellation Actions
+// ============================================================================
+
+/**
+ * cancelListingAction
+ * 
+ * Withdraws a listing that has not been sold. Bids still open on it expire.
+ * 
+ * @param catalogId - The ID of the catalog to withdraw
+ * @returns Promise resolving to CancellationResult
+ */
+export async function cancelListingAction(catalogId: string): Promise<CancellationResult> {
+  if (!catalogId || catalogId.trim().length === 0) {
+    return {
+      success: false,
+      error: "Catalog ID is required"
+    };
+  }
+
+  const auth = await authorizeFarmer({ kind: "catalog", id: catalogId });
+  if (auth.error) {
+    return {
+      success: false,
+      error: auth.error
+    };
+  }
+
+  console.log(` Cancelling listing ${catalogId}`);
+
+  const result = await cancelListing(catalogId);
+
+  if (result.success) {
+    console.log(`[OK] Listing ${catalogId} cancelled`);
+  } else {
+    console.error(`[X] Listing cancellation failed: ${result.error}`);
+  }
+
+  return result;
+}
+
+/**
+ * cancelOrderAction
+ * 
+ * Cancels a sale before the produce is picked up. The buyer is told with
+ * an ONDC cancel carrying the reason code.
+ * 
+ * @param orderId - The ID of the order to cancel
+ * @param reasonCode - ONDC cancellation reason code (defaults to items not available)
+ * @returns Promise resolving to CancellationResult
+ */
+export async function cancelOrderAction(orderId: string, reasonCode?: string): Promise<CancellationResult> {
+  if (!orderId || orderId.trim().length === 0) {
+    return {
+      success: false,
+      error: "Order ID is required"
+    };
+  }
+
+  const auth = await authorizeFarmer({ kind: "order", id: orderId });
+  if (auth.error) {
+    return {
+      success: false,
+      error: auth.error
+    };
+  }
+
+  console.log(` Cancelling order ${orderId}${reasonCode ? ` (reason ${reasonCode})` : ""}`);
+
+  const result = await cancelSale(orderId, reasonCode);
+
+  if (result.success) {
+    console.log(`[OK] Order ${orderId} cancelled`);
+  } else {
+    console.error(`[X] Order cancellation failed: ${result.error}`);
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Listing Expiry Actions
+// ============================================================================
+
+/**
+ * relistCatalogAction
+ * 
+ * Broadcasts an expired listing again, optionally at a new price. The
+ * listing gets a fresh expiry from its perishability.
+ * 
+ * @param catalogId - The ID of the expired catalog
+ * @param pricePerUnit - New asking price (omit to keep the old one)
+ * @returns Promise resolving to RelistResult
+ */
+export async function relistCatalogAction(catalogId: string, pricePerUnit?: number): Promise<RelistResult> {
+  if (!catalogId || catalogId.trim().length === 0) {
+    return {
+      success: false,
+      error: "Catalog ID is required"
+    };
+  }
+
+  const auth = await authorizeFarmer({ kind: "catalog", id: catalogId });
+  if (auth.error) {
+    return {
+      success: false,
+      error: auth.error
+    };
+  }
+
+  if (pricePerUnit !== undefined && (!Number.isFinite(pricePerUnit) || pricePerUnit < 0)) {
+    return {
+      success: false,
+      error: "Price must be a non-negative number"
+    };
+  }
+
+  console.log(` Re-listing catalog ${catalogId}${pricePerUnit !== undefined ? ` at ${pricePerUnit}` : ""}`);
+
+  const result = await relistListing(catalogId, pricePerUnit);
+
+  if (result.success) {
+    console.log(`[OK] Catalog ${catalogId} re-listed: ${result.transactionId}`);
+  } else {
+    console.error(`[X] Re-listing failed: ${result.error}`);
+  }
+
+  return result;
+}
+
+/**
+ * runExpirySweepAction
+ * 
+ * Expires stale listings and lapsed bids now, without waiting for the
+ * scheduled sweep. Admins only.
+ * 
+ * @returns Promise resolving to ExpirySweepResult
+ */
+export async function runExpirySweepAction(): Promise<ExpirySweepResult> {
+  const auth = await authorizeAdmin();
+  if (auth.error) {
+    return {
+      success: false,
+      expiredCatalogIds: [],
+      lapsedBids: 0,
+      error: auth.error
+    };
+  }
+
+  console.log(" Running listing expiry sweep");
+
+  return runExpirySweep();
+}
+
+// ============================================================================
+// Issue & Grievance Actions
+// ============================================================================
+
+/**
+ * GetIssuesResult
+ * 
+ * Result type for getIssuesAction
+ */
+export interface GetIssuesResult {
+  success: boolean;
+  issues?: IssueWithActions[];
+  /** Orders an issue can be raised on */
+  orders?: Order[];
+  error?: string;
+}
+
+/**
+ * getIssuesAction
+ * 
+ * Fetches the issues on the logged-in farmer's orders with their history,
+ * and the orders new issues can be raised on.
+ * 
+ * @returns Promise resolving to GetIssuesResult
+ */
+export async function getIssuesAction(): Promise<GetIssuesResult> {
+  try {
+    const auth = await authorizeFarmer();
+    if (auth.error) {
+      return {
+        success: false,
+        error: auth.error
+      };
+    }
+
+    const { farmerId } = auth;
+
+    const [issues, orders] = await Promise.all([getIssues(farmerId), getIssueOrders(farmerId)]);
+
+    console.log(`[OK] Found ${issues.length} issues for farmer ${farmerId}`);
+
+    return {
+      success: true,
+      issues,
+      orders
+    };
+
+  } catch (error) {
+    console.error("[X] Get issues action failed:", error);
+    return {
+      success: false,
+      error: handleDatabaseError(error)
+    };
+  }
+}
+
+/**
+ * raiseIssueAction
+ * 
+ * Raises an issue with the buyer of an order on the farmer's behalf
+ * (e.g. payment not received). Simulated buyer complaints (quality, short
+ * weight) are raised by the buyer's side instead.
+ * 
+ * @param orderId - The ID of the order
+ * @param kind - The IGM issue kind
+ * @param description - What went wrong
+ * @returns Promise resolving to IssueResult
+ */
+export async function raiseIssueAction(
+  orderId: string,
+  kind: string,
+  description?: string
+): Promise<IssueResult> {
+  if (!orderId || orderId.trim().length === 0) {
+    return {
+      success: false,
+      error: "Order ID is required"
+    };
+  }
+
+  const auth = await authorizeFarmer({ kind: "order", id: orderId });
+  if (auth.error) {
+    return {
+      success: false,
+      error: auth.error
+    };
+  }
+
+  if (!(kind in ONDC_ISSUE_KINDS)) {
+    return {
+      success: false,
+      error: `Unknown issue kind: ${kind}`
+    };
+  }
+
+  console.log(` Raising ${kind} issue on order ${orderId}`);
+
+  const result = ONDC_ISSUE_KINDS[kind as ONDCIssueKind].raisedBy === "BUYER"
+    ? await simulateBuyerComplaint(orderId, kind as ONDCIssueKind)
+    : await raiseIssue(orderId, kind as ONDCIssueKind, description);
+
+  if (result.success) {
+    console.log(`[OK] Issue ${result.issue?.id} raised`);
+  } else {
+    console.error(`[X] Raising issue failed: ${result.error}`);
+  }
+
+  return result;
+}
+
+/**
+ * issueStepAction
+ * 
+ * Takes the next step on an issue on the farmer's behalf and sends it to
+ * the buyer:
+ * - respond: start processing, or resolve, a buyer's complaint
+ * - escalate / close: a grievance the farmer raised
+ * - status: ask the buyer where the farmer's issue stands
+ * 
+ * @param issueId - The ID of the issue
+ * @param step - The step to take
+ * @returns Promise resolving to IssueResult
+ */
+export async function issueStepAction(
+  issueId: string,
+  step:
+    | { type: "respond"; response: IssueResponse }
+    | { type: "escalate"; reason?: string }
+    | { type: "close" }
+    | { type: "status" }
+): Promise<IssueResult> {
+  if (!issueId || issueId.trim().length === 0) {
+    return {
+      success: false,
+      error: "Issue ID is required"
+    };
+  }
+
+  const auth = await authorizeFarmer({ kind: "issue", id: issueId });
+  if (auth.error) {
+    return {
+      success: false,
+      error: auth.error
+    };
+  }
+
+  console.log(` Issue ${issueId}: ${step.type}`);
+
+  const result =
+    step.type === "respond" ? await respondToIssue(issueId, step.response) :
+      step.type === "escalate" ? await escalateIssue(issueId, step.reason) :
+        step.type === "close" ? await closeIssue(issueId) :
+          await checkIssueStatus(issueId);
+
+  if (result.success) {
+    console.log(`[OK] Issue ${issueId} is ${result.issue?.status} (${result.issue?.level})`);
+  } else {
+    console.error(`[X] Issue ${step.type} failed: ${result.error}`);
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Fault Profile Actions
+// ============================================================================
+
+/**
+ * GetFaultProfilesResult
+ * 
+ * Result type for getFaultProfilesAction
+ */
+export interface GetFaultProfilesResult {
+  success: boolean;
+  profiles?: FaultProfile[];
+  /** The profile simulated broadcasts run with */
+  activeId?: string;
+  error?: string;
+}
+
+/**
+ * getFaultProfilesAction
+ * 
+ * Lists the failure scenarios the simulated ONDC network can run with
+ * (built-in and from ONDC_FAULT_PROFILES_FILE) and the active one.
+ * 
+ * @returns Promise resolving to GetFaultProfilesResult
+ */
+export async function getFaultProfilesAction(): Promise<GetFaultProfilesResult> {
+  const { profiles, error } = getFaultProfiles();
+
+  return {
+    success: true,
+    profiles,
+    activeId: getActiveFaultProfile().id,
+    error
+  };
+}
+
+/**
+ * setFaultProfileAction
+ * 
+ * Switches the failure scenario simulated broadcasts run with, until the
+ * server restarts. Admins only.
+ * 
+ * @param profileId - The ID of the fault profile
+ * @returns Promise resolving to FaultProfileResult
+ */
+export async function setFaultProfileAction(profileId: string): Promise<FaultProfileResult> {
+  if (!profileId || profileId.trim().length === 0) {
+    return {
+      success: false,
+      error: "Profile ID is required"
+    };
+  }
+
+  const auth = await authorizeAdmin();
+  if (auth.error) {
+    return {
+      success: false,
+      error: auth.error
+    };
+  }
+
+  const result = setActiveFaultProfile(profileId);
+
+  if (result.success) {
+    console.log(`[OK] Fault profile set to ${profileId}`);
+  } else {
+    console.error(`[X] Setting fault profile failed: ${result.error}`);
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Bid Learning Actions
+// ============================================================================
+
+/**
+ * getBidLearningStatsAction
+ * 
+ * Lists what the simulated buyers have learned from past bids: the
+ * average bid ratio of each commodity, broken down by state and month.
+ * Admins only, as the ratios are learned from every farmer's bids.
+ * 
+ * @returns Promise resolving to LearningStatsResult
+ */
+export async function getBidLearningStatsAction(): Promise<LearningStatsResult> {
+  const auth = await authorizeAdmin();
+  if (auth.error) {
+    return {
+      success: false,
+      error: auth.error
+    };
+  }
+
+  const result = await getBidLearningStats();
+
+  if (!result.success) {
+    console.error(`[X] Reading bid learning failed: ${result.error}`);
+  }
+
+  return result;
+}
+
+/**
+ * resetBidLearningAction
+ * 
+ * Forgets the learned bid ratios of one commodity, or of all commodities,
+ * so simulated buyers fall back to base prices and the seasonal table.
+ * Admins only.
+ * 
+ * @param commodity - Optional commodity to reset (all when omitted)
+ * @returns Promise resolving to LearningResetResult
+ */
+export async function resetBidLearningAction(commodity?: string): Promise<LearningResetResult> {
+  const auth = await authorizeAdmin();
+  if (auth.error) {
+    return {
+      success: false,
+      error: auth.error
+    };
+  }
+
+  const result = await resetBidLearning(commodity?.trim() || undefined);
+
+  if (result.success) {
+    console.log(`[OK] Bid learning reset for ${commodity || "all commodities"} (${result.removed} rows)`);
+  } else {
+    console.error(`[X] Resetting bid learning failed: ${result.error}`);
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Buyer Registry Actions
+// ============================================================================
+
+/**
+ * GetBuyersResult
+ * 
+ * Result type for getBuyersAction
+ */
+export interface GetBuyersResult {
+  success: boolean;
+  buyers?: RegisteredBuyer[];
+  error?: string;
+}
+
+/**
+ * getBuyersAction
+ * 
+ * Lists the buyer platforms in the registry, suspended ones included.
+ * 
+ * @returns Promise resolving to GetBuyersResult
+ */
+export async function getBuyersAction(): Promise<GetBuyersResult> {
+  try {
+    const buyers = await listBuyers();
+
+    return {
+      success: true,
+      buyers
+    };
+  } catch (error) {
+    console.error("[X] Fetching buyers failed:", error);
+
+    return {
+      success: false,
+      error: handleDatabaseError(error)
+    };
+  }
+}
+
+/**
+ * createBuyerAction
+ * 
+ * Registers a new buyer platform. It takes part in auctions once verified.
+ * Admins only.
+ * 
+ * @param input - The buyer's details
+ * @returns Promise resolving to BuyerResult
+ */
+export async function createBuyerAction(input: BuyerInput): Promise<BuyerResult> {
+  const auth = await authorizeAdmin();
+  if (auth.error) {
+    return {
+      success: false,
+      error: auth.error
+    };
+  }
+
+  const result = await createBuyer(input);
+
+  if (result.success) {
+    console.log(`[OK] Buyer registered: ${result.buyer?.subscriberId}`);
+  } else {
+    console.error(`[X] Registering buyer failed: ${result.error}`);
+  }
+
+  return result;
+}
+
+/**
+ * updateBuyerAction
+ * 
+ * Edits a buyer's details: operating states, daily capacity, commodity
+ * preferences, success rate, logo and so on. Admins only.
+ * 
+ * @param buyerId - The ID of the buyer
+ * @param input - The fields to change
+ * @returns Promise resolving to BuyerResult
+ */
+export async function updateBuyerAction(
+  buyerId: string,
+  input: Partial<Omit<BuyerInput, "subscriberId">>
+): Promise<BuyerResult> {
+  if (!buyerId || buyerId.trim().length === 0) {
+    return {
+      success: false,
+      error: "Buyer ID is required"
+    };
+  }
+
+  const auth = await authorizeAdmin();
+  if (auth.error) {
+    return {
+      success: false,
+      error: auth.error
+    };
+  }
+
+  const result = await updateBuyer(buyerId, input);
+
+  if (result.success) {
+    console.log(`[OK] Buyer updated: ${buyerId}`);
+  } else {
+    console.error(`[X] Updating buyer failed: ${result.error}`);
+  }
+
+  return result;
+}
+
+/**
+ * setBuyerSuspendedAction
+ * 
+ * Suspends a buyer from auctions, or lifts the suspension. Admins only.
+ * 
+ * @param buyerId - The ID of the buyer
+ * @param suspended - Whether the buyer is suspended
+ * @returns Promise resolving to BuyerResult
+ */
+export async function setBuyerSuspendedAction(buyerId: string, suspended: boolean): Promise<BuyerResult> {
+  if (!buyerId || buyerId.trim().length === 0) {
+    return {
+      success: false,
+      error: "Buyer ID is required"
+    };
+  }
+
+  const auth = await authorizeAdmin();
+  if (auth.error) {
+    return {
+      success: false,
+      error: auth.error
+    };
+  }
+
+  const result = await setBuyerSuspended(buyerId, suspended);
+
+  if (result.success) {
+    console.log(`[OK] Buyer ${buyerId} ${suspended ? "suspended" : "reinstated"}`);
+  } else {
+    console.error(`[X] Suspending buyer failed: ${result.error}`);
+  }
+
+  return result;
+}
+
+/**
+ * setBuyerVerifiedAction
+ * 
+ * Marks a buyer verified, so it can take part in auctions, or withdraws
+ * the verification. Admins only.
+ * 
+ * @param buyerId - The ID of the buyer
+ * @param verified - Whether the buyer is verified
+ * @returns Promise resolving to BuyerResult
+ */
+export async function setBuyerVerifiedAction(buyerId: string, verified: boolean): Promise<BuyerResult> {
+  if (!buyerId || buyerId.trim().length === 0) {
+    return {
+      success: false,
+      error: "Buyer ID is required"
+    };
+  }
+
+  const auth = await authorizeAdmin();
+  if (auth.error) {
+    return {
+      success: false,
+      error: auth.error
+    };
+  }
+
+  const result = await setBuyerVerified(buyerId, verified);
+
+  if (result.success) {
+    console.log(`[OK] Buyer ${buyerId} ${verified ? "verified" : "unverified"}`);
+  } else {
+    console.error(`[X] Verifying buyer failed: ${result.error}`);
+  }
+
+  return result;
+}
+
+// ============================================================================
+// FPO Pool Actions
+// ============================================================================
+
+/**
+ * GetFposResult
+ * 
+ * Result type for getFposAction
+ */
+export interface GetFposResult {
+  success: boolean;
+  fpos?: Fpo[];
+  error?: string;
+}
+
+/**
+ * getFposAction
+ * 
+ * Lists the registered FPOs.
+ * 
+ * @returns Promise resolving to GetFposResult
+ */
+export async function getFposAction(): Promise<GetFposResult> {
+  try {
+    const fpos = await listFpos();
+
+    return {
+      success: true,
+      fpos
+    };
+  } catch (error) {
+    console.error("[X] Fetching FPOs failed:", error);
+
+    return {
+      success: false,
+      error: handleDatabaseError(error)
+    };
+  }
+}
+
+/**
+ * createFpoAction
+ * 
+ * Registers an FPO with the ONDC provider ID its pooled listings are
+ * broadcast under. Admins only.
+ * 
+ * @param input - The FPO's details
+ * @returns Promise resolving to FpoResult
+ */
+export async function createFpoAction(input: FpoInput): Promise<FpoResult> {
+  const auth = await authorizeAdmin();
+  if (auth.error) {
+    return {
+      success: false,
+      error: auth.error
+    };
+  }
+
+  const result = await createFpo(input);
+
+  if (result.success) {
+    console.log(`[OK] FPO registered: ${result.fpo?.providerId}`);
+  } else {
+    console.error(`[X] Registering FPO failed: ${result.error}`);
+  }
+
+  return result;
+}
+
+/**
+ * setFarmerFpoAction
+ * 
+ * Makes a farmer a member of an FPO, or takes them out of theirs. Admins
+ * only.
+ * 
+ * @param farmerId - The ID of the farmer
+ * @param fpoId - The ID of the FPO, or null to leave
+ * @returns Promise resolving to FpoResult
+ */
+export async function setFarmerFpoAction(farmerId: string, fpoId: string | null): Promise<FpoResult> {
+  if (!farmerId || farmerId.trim().length === 0) {
+    return {
+      success: false,
+      error: "Farmer ID is required"
+    };
+  }
+
+  const auth = await authorizeAdmin();
+  if (auth.error) {
+    return {
+      success: false,
+      error: auth.error
+    };
+  }
+
+  return setFarmerFpo(farmerId, fpoId);
+}
+
+/**
+ * contributeToPoolAction
+ * 
+ * Puts the logged-in farmer's lot into their FPO's pool of the same
+ * commodity and grade, opening one if there is none.
+ * 
+ * @param item - The farmer's lot
+ * @returns Promise resolving to PoolContributionResult
+ */
+export async function contributeToPoolAction(item: BecknCatalogItem): Promise<PoolContributionResult> {
+  const auth = await authorizeFarmer();
+  if (auth.error) {
+    return {
+      success: false,
+      error: auth.error
+    };
+  }
+
+  const result = await contributeToPool(auth.farmerId, item);
+
+  if (result.success) {
+    console.log(`[OK] Farmer ${auth.farmerId} contributed to pool ${result.catalog?.id}`);
+  } else {
+    console.error(`[X] Pool contribution failed: ${result.error}`);
+  }
+
+  return result;
+}
+
+/**
+ * GetMyPoolsResult
+ * 
+ * Result type for getMyPoolsAction
+ */
+export interface GetMyPoolsResult {
+  success: boolean;
+  /** The farmer's FPO (null when not a member) */
+  fpo?: Fpo | null;
+  pools?: PoolShare[];
+  error?: string;
+}
+
+/**
+ * getMyPoolsAction
+ * 
+ * Fetches the logged-in farmer's FPO and the pools they put produce into,
+ * with their share of each sold pool.
+ * 
+ * @returns Promise resolving to GetMyPoolsResult
+ */
+export async function getMyPoolsAction(): Promise<GetMyPoolsResult> {
+  try {
+    const auth = await authorizeFarmer();
+    if (auth.error) {
+      return {
+        success: false,
+        error: auth.error
+      };
+    }
+
+    const [farmer, pools] = await Promise.all([
+      prisma.farmer.findUnique({ where: { id: auth.farmerId }, include: { fpo: true } }),
+      listFarmerPools(auth.farmerId)
+    ]);
+
+    return {
+      success: true,
+      fpo: farmer?.fpo ?? null,
+      pools
+    };
+  } catch (error) {
+    console.error("[X] Fetching pools failed:", error);
+
+    return {
+      success: false,
+      error: handleDatabaseError(error)
+    };
+  }
+}
+
+// ============================================================================
+// Phase 4.4: Network Log Actions
+// ============================================================================
+
+/**
+ * GetNetworkLogsResult
+ * 
+ * Result type for getNetworkLogsAction
+ */
+export interface GetNetworkLogsResult {
+  success: boolean;
+  logs?: NetworkLog[];
+  totalPages?: number;
+  currentPage?: number;
+  error?: string;
+}
+
+/**
+ * getNetworkLogsAction
+ * 
+ * Fetches the logged-in farmer's network logs (those of their catalogs)
+ * with pagination and filtering.
+ * 
+ * @param filter - Optional filter for log type ("ALL" or any NetworkLogType)
+ * @param page - Page number (1-indexed, defaults to 1)
+ * @param pageSize - Number of logs per page (defaults to 10)
+ * @returns Promise resolving to GetNetworkLogsResult
+ */
+export async function getNetworkLogsAction(
+  filter?: string,
+  page: number = 1,
+  pageSize: number = 10
+): Promise<GetNetworkLogsResult> {
+  try {
+    const auth = await authorizeFarmer();
+    if (auth.error) {
+      return {
+        success: false,
+        error: auth.error
+      };
+    }
+
+    console.log(` Fetching network logs (filter: ${filter || "ALL"}, page: ${page})`);
+
+    // Validate page number
+    if (page < 1) {
+      page = 1;
+    }
+
+    // Only the farmer's own catalogs, their bids and the messages about them
+    const catalogs = await prisma.catalog.findMany({
+      where: { farmerId: auth.farmerId },
+      select: { id: true }
+    });
+
+    // Build where clause based on filter
+    const where: { type?: NetworkLogType; catalogId: { in: string[] } } = {
+      catalogId: { in: catalogs.map(catalog => catalog.id) }
+    };
 
     if (filter && filter !== "ALL") {
-      if (filter === "OUTGOING_CATALOG" || filter === "INCOMING_BID") {
+      if ((Object.values(NetworkLogType) as string[]).includes(filter)) {
         where.type = filter as NetworkLogType;
       }
     }
@@ -0,0 +1,44 @@
+"use client";
+
+/**
+ * Buyer Administration Page
+ *
+ * Admin interface for the buyer registry: add, edit, verify and suspend
+ * the buyer platforms simulated broadcasts reach.
+ */
+
+import Link from "next/link";
+import { Database, Store } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { BuyerRegistry } from "@/components/BuyerRegistry";
+
+export default function BuyerAdminPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-gray-900 text-white border-b border-gray-700">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Store className="w-8 h-8" />
+            <div>
+              <h1 className="text-2xl font-bold">Buyer Administration</h1>
+              <p className="text-sm text-gray-400">Buyer platforms on the network</p>
+            </div>
+          </div>
+
+          <Link href="/debug">
+            <Button variant="outline" size="sm" className="gap-2">
+              <Database className="h-4 w-4" />
+              Debug Console
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8">
+        <BuyerRegistry />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+
+/**
+ * KYC Administration Page
+ *
+ * Admin interface for checking the payout details farmers have given and
+ * marking their KYC verified or rejected.
+ */
+
+import Link from "next/link";
+import { Database, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { KycReview } from "@/components/KycReview";
+
+export default function KycAdminPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-gray-900 text-white border-b border-gray-700">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <ShieldCheck className="w-8 h-8" />
+            <div>
+              <h1 className="text-2xl font-bold">KYC Administration</h1>
+              <p className="text-sm text-gray-400">Farmers&apos; payout details</p>
+            </div>
+          </div>
+
+          <Link href="/debug">
+            <Button variant="outline" size="sm" className="gap-2">
+              <Database className="h-4 w-4" />
+              Debug Console
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8">
+        <KycReview />
+      </main>
+    </div>
+  );
+}
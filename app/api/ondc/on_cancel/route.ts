@@ -0,0 +1,19 @@
+/**
+ * ONDC on_cancel callback
+ *
+ * Cancellation of a placed order, whether we or the buyer cancelled it.
+ * Answers with an ONDC ACK/NACK; see lib/ondc-callbacks for validation,
+ * signature checks and transaction correlation.
+ */
+
+import { handleOndcCallback } from "@/lib/ondc-callbacks";
+
+export async function POST(request: Request) {
+  const { status, body } = await handleOndcCallback(
+    "on_cancel",
+    await request.text(),
+    request.headers.get("authorization")
+  );
+
+  return Response.json(body, { status });
+}
@@ -0,0 +1,19 @@
+/**
+ * ONDC on_confirm callback
+ *
+ * Buyer acceptance of a confirmed order.
+ * Answers with an ONDC ACK/NACK; see lib/ondc-callbacks for validation,
+ * signature checks and transaction correlation.
+ */
+
+import { handleOndcCallback } from "@/lib/ondc-callbacks";
+
+export async function POST(request: Request) {
+  const { status, body } = await handleOndcCallback(
+    "on_confirm",
+    await request.text(),
+    request.headers.get("authorization")
+  );
+
+  return Response.json(body, { status });
+}
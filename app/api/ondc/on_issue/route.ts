@@ -0,0 +1,20 @@
+/**
+ * ONDC on_issue callback
+ *
+ * Issue and grievance (IGM) updates: a buyer raising, escalating or closing
+ * an issue, or answering one we raised.
+ * Answers with an ONDC ACK/NACK; see lib/ondc-callbacks for validation,
+ * signature checks and transaction correlation.
+ */
+
+import { handleOndcCallback } from "@/lib/ondc-callbacks";
+
+export async function POST(request: Request) {
+  const { status, body } = await handleOndcCallback(
+    "on_issue",
+    await request.text(),
+    request.headers.get("authorization")
+  );
+
+  return Response.json(body, { status });
+}
@@ -4,20 +4,27 @@
  * Debug/Admin Page
  * 
  * Developer-focused debug interface for viewing network logs,
- * catalog listings, and farmer profiles.
+ * catalog listings and their revisions, farmer profiles, FPO pools,
+ * issues & grievances, and the simulated network's fault profile and bid
+ * learning.
  */
 
 import { useState, useEffect } from "react";
 import dynamic from "next/dynamic";
-import { getCatalogsByFarmerAction } from "@/app/actions";
+import { useRouter } from "next/navigation";
+import { getCatalogsByFarmerAction, getCurrentFarmerAction, logoutAction, relistCatalogAction } from "@/app/actions";
 import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
 import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+import { FaultProfileSelector } from "@/components/FaultProfileSelector";
+import { BidLearningPanel } from "@/components/BidLearningPanel";
+import { FpoPools } from "@/components/FpoPools";
+import { CatalogHistory } from "@/components/CatalogHistory";
 import { motion } from "framer-motion";
 import Link from "next/link";
-import { Home, Database, FileJson, User } from "lucide-react";
+import { Home, Database, FileJson, History, LogOut, RotateCcw, ShieldCheck, Store, User } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import type { Catalog } from "@/lib/generated-client/client";
+import type { Catalog, Farmer } from "@/lib/generated-client/client";
 import type { BecknCatalogItem } from "@/lib/beckn-schema";
 
 // Code splitting: Lazy load NetworkLogViewer (heavy component with JSON rendering)
@@ -35,22 +42,41 @@ const NetworkLogViewer = dynamic(
   }
 );
 
+const IssueTracker = dynamic(
+  () => import("@/components/IssueTracker").then(mod => ({ default: mod.IssueTracker })),
+  {
+    loading: () => (
+      <Card className="p-6 bg-white">
+        <div className="py-8">
+          <LoadingSpinner size="lg" text="Loading issues..." />
+        </div>
+      </Card>
+    ),
+    ssr: false
+  }
+);
+
 export default function DebugPage() {
+  const router = useRouter();
+  const [farmer, setFarmer] = useState<Farmer | null>(null);
   const [catalogs, setCatalogs] = useState<Catalog[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-
-  // Default farmer ID (from seed data)
-  const FARMER_ID = "farmer-1";
+  const [historyCatalogId, setHistoryCatalogId] = useState<string | null>(null);
+  const [relistError, setRelistError] = useState<string | null>(null);
 
   /**
-   * Fetch catalogs on mount
+   * Fetch the logged-in farmer and their catalogs on mount
    */
   useEffect(() => {
     const fetchCatalogs = async () => {
       try {
         setIsLoading(true);
-        const result = await getCatalogsByFarmerAction(FARMER_ID);
+        const [farmerResult, result] = await Promise.all([
+          getCurrentFarmerAction(),
+          getCatalogsByFarmerAction()
+        ]);
 
+        setFarmer(farmerResult.farmer ?? null);
         if (result.success && result.catalogs) {
           setCatalogs(result.catalogs);
         }
@@ -64,6 +90,27 @@ export default function DebugPage() {
     fetchCatalogs();
   }, []);
 
+  /**
+   * Broadcast an expired listing again at its old price
+   */
+  const handleRelist = async (catalogId: string) => {
+    const result = await relistCatalogAction(catalogId);
+    const relisted = result.catalog;
+
+    if (relisted) {
+      setCatalogs(current => current.map(catalog => catalog.id === catalogId ? relisted : catalog));
+    }
+    setRelistError(result.error || null);
+  };
+
+  /**
+   * End the session and go back to the login page
+   */
+  const handleLogout = async () => {
+    await logoutAction();
+    router.replace("/login");
+  };
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -77,12 +124,36 @@ export default function DebugPage() {
             </div>
           </div>
 
-          <Link href="/">
-            <Button variant="outline" size="sm" className="gap-2">
-              <Home className="h-4 w-4" />
-              Back to Home
+          <div className="flex gap-2">
+            <Link href="/profile">
+              <Button variant="outline" size="sm" className="gap-2">
+                <User className="h-4 w-4" />
+                Profile
+              </Button>
+            </Link>
+            <Link href="/admin/buyers">
+              <Button variant="outline" size="sm" className="gap-2">
+                <Store className="h-4 w-4" />
+                Buyers
+              </Button>
+            </Link>
+            <Link href="/admin/kyc">
+              <Button variant="outline" size="sm" className="gap-2">
+                <ShieldCheck className="h-4 w-4" />
+                KYC
+              </Button>
+            </Link>
+            <Link href="/">
+              <Button variant="outline" size="sm" className="gap-2">
+                <Home className="h-4 w-4" />
+                Back to Home
+              </Button>
+            </Link>
+            <Button variant="outline" size="sm" className="gap-2" onClick={handleLogout}>
+              <LogOut className="h-4 w-4" />
+              Log out
             </Button>
-          </Link>
+          </div>
         </div>
       </header>
 
@@ -98,20 +169,25 @@ export default function DebugPage() {
             <div className="flex items-center gap-3 mb-4">
               <User className="w-6 h-6 text-blue-600" />
               <h2 className="text-xl font-bold text-gray-900">Farmer Profile</h2>
+              {farmer && <Badge variant="outline">KYC: {farmer.kycStatus}</Badge>}
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
               <div>
                 <p className="text-sm text-gray-600 font-semibold">Farmer ID</p>
-                <p className="text-base text-gray-900 font-mono">{FARMER_ID}</p>
+                <p className="text-base text-gray-900 font-mono">{farmer?.id || "-"}</p>
               </div>
               <div>
                 <p className="text-sm text-gray-600 font-semibold">Name</p>
-                <p className="text-base text-gray-900">Ramesh Kumar</p>
+                <p className="text-base text-gray-900">{farmer?.name || "-"}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600 font-semibold">Mobile</p>
+                <p className="text-base text-gray-900">{farmer?.phone || "-"}</p>
               </div>
               <div>
-                <p className="text-sm text-gray-600 font-semibold">Location</p>
-                <p className="text-base text-gray-900">Nasik, Maharashtra</p>
+                <p className="text-sm text-gray-600 font-semibold">State</p>
+                <p className="text-base text-gray-900">{farmer?.state || "-"}</p>
               </div>
             </div>
           </Card>
@@ -140,12 +216,17 @@ export default function DebugPage() {
               </div>
             ) : (
               <div className="space-y-4">
+                {relistError && (
+                  <p className="text-sm text-red-700 bg-red-50 rounded-md px-3 py-2 mb-4">{relistError}</p>
+                )}
                 {catalogs.map((catalog) => {
                   const becknData = catalog.becknJson as unknown as BecknCatalogItem;
                   const statusColor =
                     catalog.status === "BROADCASTED" ? "bg-green-500" :
                       catalog.status === "SOLD" ? "bg-blue-500" :
-                        "bg-gray-500";
+                        catalog.status === "CANCELLED" ? "bg-red-500" :
+                          catalog.status === "EXPIRED" ? "bg-orange-500" :
+                            "bg-gray-500";
 
                   return (
                     <div
@@ -162,9 +243,33 @@ export default function DebugPage() {
                           </p>
                         </div>
 
-                        <Badge className={`${statusColor} text-white`}>
-                          {catalog.status}
-                        </Badge>
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline">v{catalog.version}</Badge>
+                          {catalog.fpoId && <Badge variant="outline">Pooled</Badge>}
+                          <Badge className={`${statusColor} text-white`}>
+                            {catalog.status}
+                          </Badge>
+                          {catalog.status === "EXPIRED" && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="gap-1"
+                              onClick={() => handleRelist(catalog.id)}
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                              Re-list
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="gap-1"
+                            onClick={() => setHistoryCatalogId(historyCatalogId === catalog.id ? null : catalog.id)}
+                          >
+                            <History className="h-4 w-4" />
+                            History
+                          </Button>
+                        </div>
                       </div>
 
                       <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
@@ -193,6 +298,19 @@ export default function DebugPage() {
                           </p>
                         </div>
                       </div>
+
+                      {catalog.expiresAt && (
+                        <p className="text-sm text-gray-600 mt-3">
+                          {catalog.status === "EXPIRED" ? "Expired" : "Open until"}{" "}
+                          {new Date(catalog.expiresAt).toLocaleString()}
+                        </p>
+                      )}
+
+                      {historyCatalogId === catalog.id && (
+                        <div className="mt-4 pt-4 border-t border-gray-200">
+                          <CatalogHistory catalogId={catalog.id} />
+                        </div>
+                      )}
                     </div>
                   );
                 })}
@@ -201,6 +319,42 @@ export default function DebugPage() {
           </Card>
         </motion.div>
 
+        {/* Issues & Grievances Section */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.15 }}
+        >
+          <IssueTracker />
+        </motion.div>
+
+        {/* Fault Profile Section */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.18 }}
+        >
+          <FaultProfileSelector />
+        </motion.div>
+
+        {/* Bid Learning Section */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.19 }}
+        >
+          <BidLearningPanel />
+        </motion.div>
+
+        {/* FPO Pools Section */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.195 }}
+        >
+          <FpoPools />
+        </motion.div>
+
         {/* Network Log Viewer Section */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -208,7 +362,6 @@ export default function DebugPage() {
           transition={{ duration: 0.5, delay: 0.2 }}
         >
           <NetworkLogViewer
-            farmerId={FARMER_ID}
             limit={10}
             autoRefresh={true}
             refreshInterval={10000}
@@ -0,0 +1,128 @@
+"use client";
+
+/**
+ * Login Page
+ *
+ * Farmers log in with their mobile number: a one-time code is sent by
+ * SMS and entering it opens a session. A number seen for the first time
+ * gets a new account, named from the optional name field.
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Phone } from "lucide-react";
+import { requestOtpAction, verifyOtpAction } from "@/app/actions";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+
+export default function LoginPage() {
+  const router = useRouter();
+  const [phone, setPhone] = useState("");
+  const [code, setCode] = useState("");
+  const [name, setName] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Send a login code to the number entered
+   */
+  const handleSendCode = async () => {
+    setBusy(true);
+    const result = await requestOtpAction(phone);
+    setBusy(false);
+
+    if (result.success && result.phone) {
+      setPhone(result.phone);
+      setCodeSent(true);
+    }
+    setError(result.error || null);
+  };
+
+  /**
+   * Check the code and go to the voice screen
+   */
+  const handleVerify = async () => {
+    setBusy(true);
+    const result = await verifyOtpAction(phone, code, name.trim() || undefined);
+    setBusy(false);
+
+    if (result.success) {
+      router.replace("/");
+      return;
+    }
+    setError(result.error || null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <Card className="w-full max-w-sm p-6 bg-white space-y-4">
+        <div className="flex items-center gap-3">
+          <Phone className="w-6 h-6 text-green-600" />
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">सेतु - Setu</h1>
+            <p className="text-sm text-gray-600">Log in with your mobile number</p>
+          </div>
+        </div>
+
+        <label className="block space-y-1 text-sm">
+          <span className="text-gray-600 font-semibold">Mobile number</span>
+          <input
+            type="tel"
+            inputMode="tel"
+            autoComplete="tel"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            placeholder="98765 43210"
+            disabled={codeSent}
+            className="w-full border rounded-md px-2 py-1 disabled:bg-gray-100"
+          />
+        </label>
+
+        {codeSent && (
+          <>
+            <label className="block space-y-1 text-sm">
+              <span className="text-gray-600 font-semibold">Code from SMS</span>
+              <input
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456"
+                className="w-full border rounded-md px-2 py-1"
+              />
+            </label>
+            <label className="block space-y-1 text-sm">
+              <span className="text-gray-600 font-semibold">Your name (first login only)</span>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Ramesh Kumar"
+                className="w-full border rounded-md px-2 py-1"
+              />
+            </label>
+          </>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-700 bg-red-50 rounded-md px-3 py-2">{error}</p>
+        )}
+
+        {codeSent ? (
+          <div className="flex gap-2">
+            <Button className="flex-1" disabled={busy || !code.trim()} onClick={handleVerify}>
+              Log in
+            </Button>
+            <Button variant="outline" disabled={busy} onClick={handleSendCode}>
+              Resend
+            </Button>
+          </div>
+        ) : (
+          <Button className="w-full" disabled={busy || !phone.trim()} onClick={handleSendCode}>
+            Send code
+          </Button>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+"use client";
+
+/**
+ * Farmer Profile Page
+ *
+ * The logged-in farmer's land, crops, usual mandis and payout details.
+ * The voice screen pre-fills the commodity and price location from here,
+ * and payout details are checked by support (KYC) before the first payout.
+ */
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Home, User } from "lucide-react";
+import { getFarmerProfileAction, updateFarmerProfileAction } from "@/app/actions";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+import type { FarmerProfile, FarmerProfileInput } from "@/lib/farmer-profile";
+import type { KycStatus } from "@/lib/generated-client/client";
+
+const KYC_BADGES: Record<KycStatus, { label: string; className: string }> = {
+  NOT_STARTED: { label: "No payout details", className: "bg-gray-500 text-white" },
+  PENDING: { label: "KYC pending", className: "bg-yellow-500 text-white" },
+  VERIFIED: { label: "KYC verified", className: "bg-green-500 text-white" },
+  REJECTED: { label: "KYC rejected", className: "bg-red-600 text-white" }
+};
+
+/**
+ * Form values; numbers and lists are edited as text
+ */
+interface ProfileFormValues {
+  name: string;
+  village: string;
+  district: string;
+  state: string;
+  landholdingAcres: string;
+  crops: string;
+  preferredMandis: string;
+  upiId: string;
+  bankAccountName: string;
+  bankAccountNumber: string;
+  bankIfsc: string;
+}
+
+const TEXT_FIELDS: { key: keyof ProfileFormValues; label: string; placeholder?: string }[] = [
+  { key: "name", label: "Name" },
+  { key: "village", label: "Village", placeholder: "Niphad" },
+  { key: "district", label: "District", placeholder: "Nashik" },
+  { key: "state", label: "State", placeholder: "Maharashtra" },
+  { key: "landholdingAcres", label: "Land (acres)", placeholder: "5" },
+  { key: "crops", label: "Crops", placeholder: "onion, wheat" },
+  { key: "preferredMandis", label: "Mandis (usual first)", placeholder: "Lasalgaon, Nashik" },
+  { key: "upiId", label: "UPI ID", placeholder: "ramesh@okaxis" },
+  { key: "bankAccountName", label: "Account holder" },
+  { key: "bankAccountNumber", label: "Account number (leave blank to keep)" },
+  { key: "bankIfsc", label: "IFSC", placeholder: "SBIN0001234" }
+];
+
+/**
+ * Split a comma-separated list
+ */
+function splitList(value: string): string[] {
+  return value.split(",").map((item) => item.trim()).filter(Boolean);
+}
+
+function toFormValues(profile: FarmerProfile): ProfileFormValues {
+  return {
+    name: profile.name,
+    village: profile.village ?? "",
+    district: profile.district ?? "",
+    state: profile.state ?? "",
+    landholdingAcres: profile.landholdingAcres === null ? "" : String(profile.landholdingAcres),
+    crops: profile.crops.join(", "),
+    preferredMandis: profile.preferredMandis.join(", "),
+    upiId: profile.upiId ?? "",
+    bankAccountName: profile.bankAccountName ?? "",
+    bankAccountNumber: "",
+    bankIfsc: profile.bankIfsc ?? ""
+  };
+}
+
+function toProfileInput(values: ProfileFormValues): Partial<FarmerProfileInput> {
+  return {
+    name: values.name,
+    village: values.village,
+    district: values.district,
+    state: values.state,
+    landholdingAcres: values.landholdingAcres.trim() ? Number(values.landholdingAcres) : null,
+    crops: splitList(values.crops),
+    preferredMandis: splitList(values.preferredMandis),
+    upiId: values.upiId,
+    bankAccountName: values.bankAccountName,
+    // The stored number is never sent to the browser; only a new one is saved
+    ...(values.bankAccountNumber.trim() ? { bankAccountNumber: values.bankAccountNumber } : {}),
+    bankIfsc: values.bankIfsc
+  };
+}
+
+export default function ProfilePage() {
+  const [profile, setProfile] = useState<FarmerProfile | null>(null);
+  const [values, setValues] = useState<ProfileFormValues | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fetch the logged-in farmer's profile on mount
+   */
+  useEffect(() => {
+    getFarmerProfileAction().then((result) => {
+      if (result.profile) {
+        setProfile(result.profile);
+        setValues(toFormValues(result.profile));
+      }
+      setError(result.error || null);
+    });
+  }, []);
+
+  /**
+   * Save the form
+   */
+  const handleSave = async () => {
+    if (!values) return;
+
+    setBusy(true);
+    const result = await updateFarmerProfileAction(toProfileInput(values));
+    setBusy(false);
+
+    if (result.profile) {
+      setProfile(result.profile);
+      setValues(toFormValues(result.profile));
+    }
+    setSaved(result.success);
+    setError(result.error || null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-gray-900 text-white border-b border-gray-700">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <User className="w-8 h-8" />
+            <div>
+              <h1 className="text-2xl font-bold">My Profile</h1>
+              <p className="text-sm text-gray-400">Land, crops, mandis and payouts</p>
+            </div>
+          </div>
+
+          <Link href="/">
+            <Button variant="outline" size="sm" className="gap-2">
+              <Home className="h-4 w-4" />
+              Back to Home
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8">
+        <Card className="p-6 bg-white space-y-4">
+          {!profile || !values ? (
+            error ? (
+              <p className="text-sm text-red-700 bg-red-50 rounded-md px-3 py-2">{error}</p>
+            ) : (
+              <div className="py-8">
+                <LoadingSpinner size="lg" text="Loading profile..." />
+              </div>
+            )
+          ) : (
+            <>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h2 className="text-xl font-bold text-gray-900">{profile.name}</h2>
+                  <p className="text-sm text-gray-600">{profile.phone || "-"}</p>
+                </div>
+                <Badge className={KYC_BADGES[profile.kycStatus].className}>
+                  {KYC_BADGES[profile.kycStatus].label}
+                </Badge>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+                {TEXT_FIELDS.map(({ key, label, placeholder }) => (
+                  <label key={key} className="space-y-1">
+                    <span className="text-gray-600 font-semibold">{label}</span>
+                    <input
+                      value={values[key]}
+                      onChange={(e) => {
+                        setValues({ ...values, [key]: e.target.value });
+                        setSaved(false);
+                      }}
+                      placeholder={key === "bankAccountNumber" ? profile.bankAccountMasked ?? undefined : placeholder}
+                      className="w-full border rounded-md px-2 py-1"
+                    />
+                  </label>
+                ))}
+              </div>
+
+              <p className="text-xs text-gray-500">
+                Changing your UPI ID or bank account sends it for checking again. Aadhaar is never needed.
+              </p>
+
+              {error && (
+                <p className="text-sm text-red-700 bg-red-50 rounded-md px-3 py-2">{error}</p>
+              )}
+              {saved && (
+                <p className="text-sm text-green-700 bg-green-50 rounded-md px-3 py-2">Profile saved</p>
+              )}
+
+              <Button disabled={busy || !values.name.trim()} onClick={handleSave}>
+                Save changes
+              </Button>
+            </>
+          )}
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -4,23 +4,74 @@
  * Voice Conversation Server Actions
  * 
  * Server-side actions for the voice-first conversational UI.
- * Handles speech processing, conversation state, and broadcasting.
+ * Handles speech processing, conversation state, broadcasting,
+ * answering buyer bids by voice, "where is my order", "did anyone
+ * bid" and "when will I be paid" questions, price enquiries,
+ * cancelling a listing or sale by voice, re-listing produce whose
+ * listing expired, updating the farmer's profile by voice, telling
+ * FPO members their share of sold pools, and saving every turn so an
+ * unfinished listing can be picked up again after a refresh or a
+ * dropped connection.
+ *
+ * Every action works for the farmer logged in on the request and only
+ * touches their own listings, bids and orders.
  */
 
 import {
     processVoiceInput,
     getSuccessMessage,
+    getAuctionSummaryMessage,
+    getBidOutcomeResponse,
+    getOrderStatusResponse,
+    getListingStatusResponse,
+    getNoBidToReviewResponse,
+    getPaymentStatusResponse,
+    getCancellationOutcomeResponse,
+    getRelistOutcomeResponse,
+    getRelistPromptText,
+    getProfileChangeOutcomeResponse,
+    getUsualCropQuestion,
+    getPoolShareText,
+    getResumePromptText,
+    getResumeOutcomeResponse,
+    startBidReview,
+    startCancellation,
     initConversation,
     getLanguageByCode,
     type ConversationState,
     type VoiceResponse,
     type LanguageConfig,
+    type BidDecisionIntent,
+    type BidReviewOutcome,
+    type ReviewedBid,
+    type OrderStatusSummary,
+    type ListingStatusSummary,
+    type PaymentStatusSummary,
+    type CancellationTarget,
+    type CancellationOutcome,
+    type RelistTarget,
+    type RelistOutcome,
+    type PoolShareNotice,
+    type ResumeTarget,
+    type ResumedConversation,
     SUPPORTED_LANGUAGES
 } from "@/lib/voice-conversation-agent";
 import { getPriceSuggestion, type PriceSuggestion } from "@/lib/mandi-price-service";
-import { translateVoiceToJsonWithFallback, validateCatalog } from "@/lib/translation-agent";
+import { translateVoiceToJsonWithFallback, validateCatalog, mapCommodityName } from "@/lib/translation-agent";
 import { prisma, handleDatabaseError } from "@/lib/db";
-import { simulateBroadcast, type BuyerBid } from "@/lib/network-simulator";
+import { startBroadcast, getBroadcastStatus } from "@/lib/ondc-broadcast";
+import { acceptBid, rejectBid, counterBid } from "@/lib/negotiation";
+import { getLatestOrderTracking, getOrderTracking, type OrderTracking } from "@/lib/fulfillment-tracker";
+import { cancelListing, cancelSale, findCancellableCatalog, type CancellationCandidate } from "@/lib/cancellation";
+import { firstRevision } from "@/lib/catalog-revisions";
+import { describeRuleErrors, validateFarmerListing, type CatalogRuleReport } from "@/lib/catalog-rules";
+import { findRelistPrompt, getListingExpiry, relistListing } from "@/lib/listing-expiry";
+import { farmerOwns } from "@/lib/farmer-auth";
+import { authorizeFarmer } from "@/lib/farmer-session";
+import { applyProfileChange, getFarmerProfile, getProfileHints, type ProfileHints } from "@/lib/farmer-profile";
+import { takeUnannouncedShares } from "@/lib/fpo-pool";
+import { endConversation, findResumableConversation, getSavedConversation, saveConversationTurn } from "@/lib/voice-sessions";
+import type { BuyerBid } from "@/lib/network-simulator";
 import type { BecknCatalogItem } from "@/lib/beckn-schema";
 import type { Prisma } from "@/lib/generated-client/client";
 
@@ -32,6 +83,16 @@ export interface StartConversationResult {
     sessionId: string;
     greeting: string;
     language: LanguageConfig;
+    /** Expired listing asked about in the greeting; start in confirming_relist */
+    relist?: RelistTarget;
+    /** Unfinished listing from an earlier session asked about in the greeting; start in confirming_resume */
+    resume?: ResumeTarget;
+    /** Usual location and crops from the farmer's profile */
+    profile?: ProfileHints;
+    /** Question to ask after the greeting; offers the usual crop when known */
+    firstQuestion?: string;
+    /** Shares of sold FPO pools, to speak in the farmer's own language */
+    poolShares?: { text: string; language: LanguageConfig };
     error?: string;
 }
 
@@ -51,16 +112,50 @@ export async function startConversationAction(
             };
         }
 
+        const auth = await authorizeFarmer();
+        if (auth.error) {
+            return {
+                success: false,
+                sessionId: "",
+                greeting: "",
+                language,
+                error: auth.error
+            };
+        }
+
         // Generate unique session ID
         const sessionId = `session-${Date.now()}-${Math.random().toString(36).substring(7)}`;
 
         console.log(` Starting conversation in ${language.englishName}`);
 
+        // A listing that expired since the last session is asked about first,
+        // otherwise a listing left half-way within the resume window
+        const relist = await findRelistTarget(auth.farmerId);
+        const resume = relist ? null : await findResumeTarget(auth.farmerId);
+        const prompt = relist
+            ? getRelistPromptText(language, relist)
+            : resume && getResumePromptText(language, resume);
+
+        // The profile pre-fills the price location and the usual crop
+        const { profile } = await getFarmerProfile(auth.farmerId);
+        const hints = profile ? getProfileHints(profile) : undefined;
+
+        // Shares of sold FPO pools are told in the farmer's own language
+        const shares = await findPoolShareNotices(auth.farmerId);
+        const shareLanguage = (profile && getLanguageByCode(profile.languagePref)) || language;
+
         return {
             success: true,
             sessionId,
-            greeting: language.greeting,
-            language
+            greeting: prompt ? `${language.greeting} ${prompt}` : language.greeting,
+            language,
+            relist: relist ?? undefined,
+            resume: resume ?? undefined,
+            profile: hints,
+            firstQuestion: hints?.crops.length ? getUsualCropQuestion(language, hints.crops[0]) : undefined,
+            poolShares: shares.length > 0
+                ? { text: getPoolShareText(shareLanguage, shares), language: shareLanguage }
+                : undefined
         };
 
     } catch (error) {
@@ -90,9 +185,98 @@ export async function processVoiceAction(
     voiceText: string
 ): Promise<ProcessVoiceResult> {
     try {
+        const auth = await authorizeFarmer();
+        if (auth.error) {
+            return { success: false, error: auth.error };
+        }
+        const { farmerId } = auth;
+
         console.log(` Processing voice: "${voiceText.substring(0, 50)}..."`);
 
-        const result = await processVoiceInput(state, voiceText);
+        let result = await processVoiceInput(state, voiceText);
+
+        // A spoken answer to a bid is carried out before replying
+        if (result.response.bidDecision && result.newState.bidReview) {
+            result = getBidOutcomeResponse(
+                result.newState,
+                await carryOutBidDecision(farmerId, result.newState.bidReview, result.response.bidDecision)
+            );
+        }
+
+        // "Where is my order?" is answered from the latest order
+        if (result.response.orderStatusQuery) {
+            result = getOrderStatusResponse(result.newState, await summarizeOrderStatus(farmerId));
+        }
+
+        // "Did anyone bid on my tomatoes?" is answered from the farmer's latest listing
+        if (result.response.listingStatusQuery) {
+            const { commodity } = result.response.listingStatusQuery;
+            result = getListingStatusResponse(result.newState, await summarizeListingStatus(farmerId, commodity));
+        }
+
+        // "Let me answer the bids" reads out the best bid once bidding has closed
+        if (result.response.bidReviewRequest) {
+            const found = await findBidToReview(farmerId, result.response.bidReviewRequest.commodity);
+            result = found.review
+                ? startBidReview(result.newState, found.review.catalogId, undefined, found.review.bid)
+                : getNoBidToReviewResponse(result.newState, found.openCommodity);
+        }
+
+        // "When will I be paid?" is answered from the latest order
+        if (result.response.paymentStatusQuery) {
+            result = getPaymentStatusResponse(result.newState, await summarizePaymentStatus(farmerId));
+        }
+
+        // "Cancel my onion listing" is resolved to the farmer's listing or sale
+        if (result.response.cancelRequest) {
+            const { commodity } = result.response.cancelRequest;
+            result = startCancellation(result.newState, await findCancellationTarget(farmerId, commodity), commodity);
+        }
+
+        // A confirmed cancellation is carried out before replying
+        if (result.response.cancelConfirmed) {
+            result = getCancellationOutcomeResponse(
+                result.newState,
+                await carryOutCancellation(farmerId, result.response.cancelConfirmed)
+            );
+        }
+
+        // A confirmed re-listing of an expired listing is carried out before replying
+        if (result.response.relistConfirmed) {
+            const { catalogId, pricePerUnit } = result.response.relistConfirmed;
+            result = getRelistOutcomeResponse(
+                result.newState,
+                await carryOutRelist(farmerId, catalogId, pricePerUnit),
+                pricePerUnit
+            );
+        }
+
+        // A confirmed profile change is saved before replying
+        if (result.response.profileChangeConfirmed) {
+            const { profile } = await applyProfileChange(farmerId, result.response.profileChangeConfirmed);
+            result = getProfileChangeOutcomeResponse(result.newState, profile ? getProfileHints(profile) : null);
+        }
+
+        // "Haan" to continuing an earlier session picks up its saved state
+        if (result.response.resumeConfirmed) {
+            result = getResumeOutcomeResponse(
+                result.newState,
+                await loadResumedConversation(farmerId, result.response.resumeConfirmed)
+            );
+        }
+
+        // An earlier session the farmer chose not to continue is not offered again
+        if (result.response.resumeDeclined) {
+            await closeConversation(farmerId, result.response.resumeDeclined);
+        }
+
+        // The listing read back for confirmation is checked against the AGR10 rules
+        if (result.newState.stage === "confirming_listing" && result.newState.catalogItem) {
+            result.response.ruleReport = await validateFarmerListing(result.newState.catalogItem, farmerId);
+        }
+
+        // Saved after every turn so a refresh or dropped connection can pick up from here
+        await recordTurn(farmerId, result.newState, voiceText, result.response.text);
 
         console.log(`[OK] Response stage: ${result.response.stage}`);
 
@@ -111,6 +295,440 @@ export async function processVoiceAction(
     }
 }
 
+/**
+ * Keep only what the conversation needs to know about a bid
+ */
+function toReviewedBid(bid: BuyerBid): ReviewedBid {
+    return { bidId: bid.bidId, buyerName: bid.buyerName, bidAmount: bid.bidAmount };
+}
+
+/**
+ * Carry out a spoken decision on the bid under review
+ */
+async function carryOutBidDecision(
+    farmerId: string,
+    review: NonNullable<ConversationState["bidReview"]>,
+    intent: BidDecisionIntent
+): Promise<BidReviewOutcome> {
+    const { bidId } = review.bid;
+
+    // The review comes back from the browser, so check whose bid it is
+    if (!(await farmerOwns(farmerId, "bid", bidId))) {
+        console.warn(`[X] Bid ${bidId} is not on this farmer's listings`);
+        return { outcome: "FAILED" };
+    }
+
+    const result = intent.decision === "accept"
+        ? await acceptBid(bidId)
+        : intent.decision === "reject"
+            ? await rejectBid(bidId, "Rejected by voice")
+            : await counterBid(bidId, intent.counterPrice ?? 0);
+
+    if (!result.success || !result.outcome) {
+        console.warn(`[X] Bid ${intent.decision} failed: ${result.error}`);
+        return { outcome: "FAILED" };
+    }
+
+    if (result.outcome === "REJECTED") {
+        // Move on to the best bid still open
+        const broadcast = await getBroadcastStatus(review.catalogId, review.transactionId);
+        const [nextBid] = broadcast.bids;
+        return { outcome: "REJECTED", bid: nextBid && toReviewedBid(nextBid) };
+    }
+
+    return {
+        outcome: result.outcome,
+        bid: result.bid && toReviewedBid(result.bid),
+        orderId: result.order?.id
+    };
+}
+
+/**
+ * Sum up an order's progress for the conversation
+ */
+function toOrderStatusSummary(tracking: OrderTracking | null): OrderStatusSummary {
+    if (!tracking) {
+        return { status: "NONE" };
+    }
+
+    const { order, currentState, logisticsProvider, expectedDeliveryAt } = tracking;
+    const status = order.status === "CANCELLED"
+        ? "CANCELLED"
+        : order.status === "FULFILLED"
+            ? "DELIVERED"
+            : currentState ?? order.status;
+
+    return { status, buyerName: order.buyerName, logisticsProvider, expectedDeliveryAt };
+}
+
+/**
+ * Look up an order (the farmer's latest by default) for a spoken answer
+ */
+async function summarizeOrderStatus(farmerId: string, orderId?: string): Promise<OrderStatusSummary> {
+    try {
+        const tracking = orderId
+            ? await getOrderTracking(orderId)
+            : await getLatestOrderTracking(farmerId);
+        return toOrderStatusSummary(tracking);
+    } catch (error) {
+        console.error("[X] Order status lookup failed:", error);
+        return { status: "FAILED" };
+    }
+}
+
+/**
+ * English name of a listing's produce, as the conversation uses it
+ */
+function commodityOf(catalog: { becknJson: Prisma.JsonValue }): string {
+    const name = (catalog.becknJson as unknown as BecknCatalogItem).descriptor?.name || "produce";
+    return mapCommodityName(name) || name;
+}
+
+/**
+ * Sum up how the farmer's latest listing (of a commodity, if named) is doing
+ */
+async function summarizeListingStatus(farmerId: string, commodity?: string): Promise<ListingStatusSummary> {
+    try {
+        const catalogs = await prisma.catalog.findMany({
+            where: { farmerId },
+            include: {
+                orders: {
+                    where: { status: { not: "CANCELLED" } },
+                    orderBy: { createdAt: "desc" },
+                    take: 1
+                }
+            },
+            orderBy: { updatedAt: "desc" }
+        });
+        const catalog = catalogs.find(c => !commodity || commodityOf(c) === commodity);
+
+        if (!catalog) {
+            return { status: "NONE" };
+        }
+
+        const summary: ListingStatusSummary = {
+            status: catalog.status,
+            commodity: commodityOf(catalog),
+            buyerName: catalog.orders[0]?.buyerName
+        };
+
+        if (catalog.status !== "BROADCASTED") {
+            return summary;
+        }
+
+        const broadcast = await getBroadcastStatus(catalog.id);
+        const [bestBid] = broadcast.bids;
+        return {
+            ...summary,
+            bidCount: broadcast.bids.length,
+            bestBid: bestBid && toReviewedBid(bestBid),
+            auctionOpen: broadcast.auctionOpen
+        };
+    } catch (error) {
+        console.error("[X] Listing status lookup failed:", error);
+        return { status: "FAILED" };
+    }
+}
+
+/**
+ * Find the best bid to answer on the farmer's listings (of a commodity,
+ * if named) whose bidding has closed
+ *
+ * @returns The bid, or the listing still taking bids when there is none
+ */
+async function findBidToReview(
+    farmerId: string,
+    commodity?: string
+): Promise<{ review?: { catalogId: string; bid: ReviewedBid }; openCommodity?: string }> {
+    try {
+        const catalogs = await prisma.catalog.findMany({
+            where: { farmerId, status: "BROADCASTED" },
+            orderBy: { updatedAt: "desc" }
+        });
+
+        let openCommodity: string | undefined;
+        for (const catalog of catalogs) {
+            if (commodity && commodityOf(catalog) !== commodity) {
+                continue;
+            }
+
+            const broadcast = await getBroadcastStatus(catalog.id);
+            const [bid] = broadcast.bids;
+            if (broadcast.auctionOpen) {
+                openCommodity ??= commodityOf(catalog);
+            } else if (bid) {
+                return { review: { catalogId: catalog.id, bid: toReviewedBid(bid) } };
+            }
+        }
+
+        return { openCommodity };
+    } catch (error) {
+        console.error("[X] Bid review lookup failed:", error);
+        return {};
+    }
+}
+
+/**
+ * Sum up when the farmer gets paid for their latest sale
+ */
+async function summarizePaymentStatus(farmerId: string): Promise<PaymentStatusSummary> {
+    try {
+        const tracking = await getLatestOrderTracking(farmerId);
+        const { profile } = await getFarmerProfile(farmerId);
+        const payoutVerified = profile?.kycStatus === "VERIFIED";
+
+        if (!tracking) {
+            return { status: "NONE", payoutVerified };
+        }
+
+        const { order, expectedDeliveryAt } = tracking;
+        const summary = { buyerName: order.buyerName, amount: order.totalAmount, payoutVerified };
+
+        if (order.status === "CANCELLED") {
+            return { status: "CANCELLED", ...summary };
+        }
+        if (/advance/i.test(order.paymentTerms || "")) {
+            return { status: "ADVANCE", ...summary };
+        }
+        return order.status === "FULFILLED"
+            ? { status: "DUE", ...summary }
+            : { status: "ON_DELIVERY", ...summary, expectedAt: expectedDeliveryAt };
+    } catch (error) {
+        console.error("[X] Payment status lookup failed:", error);
+        return { status: "FAILED" };
+    }
+}
+
+/**
+ * Keep only what the conversation needs to know about a listing or sale
+ */
+function toCancellationTarget({ catalog, order }: CancellationCandidate): CancellationTarget {
+    const becknData = catalog.becknJson as unknown as BecknCatalogItem;
+
+    return {
+        catalogId: catalog.id,
+        commodity: commodityOf(catalog),
+        quantityKg: order?.quantity ?? becknData.quantity?.available.count,
+        orderId: order?.id,
+        buyerName: order?.buyerName
+    };
+}
+
+/**
+ * Find the listing or sale a spoken cancellation refers to
+ */
+async function findCancellationTarget(farmerId: string, commodity?: string): Promise<CancellationTarget | null> {
+    try {
+        const candidate = await findCancellableCatalog(farmerId, commodity);
+        return candidate && toCancellationTarget(candidate);
+    } catch (error) {
+        console.error("[X] Cancellation lookup failed:", error);
+        return null;
+    }
+}
+
+/**
+ * Carry out a spoken cancellation: the sale if the listing was sold,
+ * otherwise the listing
+ */
+async function carryOutCancellation(farmerId: string, target: CancellationTarget): Promise<CancellationOutcome> {
+    if (!(await farmerOwns(farmerId, "catalog", target.catalogId))) {
+        console.warn(`[X] Catalog ${target.catalogId} is not this farmer's`);
+        return "FAILED";
+    }
+
+    const result = target.orderId
+        ? await cancelSale(target.orderId)
+        : await cancelListing(target.catalogId);
+
+    if (!result.success) {
+        console.warn(`[X] Cancellation of ${target.catalogId} failed: ${result.error}`);
+        return "FAILED";
+    }
+
+    return target.orderId ? "SALE_CANCELLED" : "LISTING_CANCELLED";
+}
+
+/**
+ * Find the farmer's expired listing to ask about, if any
+ */
+async function findRelistTarget(farmerId: string): Promise<RelistTarget | null> {
+    try {
+        const prompt = await findRelistPrompt(farmerId);
+        return prompt && {
+            catalogId: prompt.catalogId,
+            commodity: prompt.commodity,
+            quantity: prompt.quantity,
+            unit: prompt.unit,
+            price: prompt.price,
+            suggestedPrice: prompt.suggestedPrice
+        };
+    } catch (error) {
+        console.error("[X] Re-list lookup failed:", error);
+        return null;
+    }
+}
+
+/**
+ * Shares of sold FPO pools the farmer has not heard yet
+ */
+async function findPoolShareNotices(farmerId: string): Promise<PoolShareNotice[]> {
+    try {
+        const shares = await takeUnannouncedShares(farmerId);
+        return shares.map(share => ({
+            fpoName: share.fpoName,
+            commodity: share.commodity,
+            quantity: share.quantity,
+            unit: share.unit,
+            amount: share.shareAmount ?? 0
+        }));
+    } catch (error) {
+        console.error("[X] Pool share lookup failed:", error);
+        return [];
+    }
+}
+
+/**
+ * Find the farmer's unfinished listing to offer back, if any
+ */
+async function findResumeTarget(farmerId: string): Promise<ResumeTarget | null> {
+    try {
+        const saved = await findResumableConversation(farmerId);
+        return saved && {
+            sessionId: saved.sessionId,
+            stage: saved.stage,
+            commodity: saved.collectedData.commodity || "produce"
+        };
+    } catch (error) {
+        console.error("[X] Resumable session lookup failed:", error);
+        return null;
+    }
+}
+
+/**
+ * Load the earlier session the farmer chose to continue
+ */
+async function loadResumedConversation(farmerId: string, sessionId: string): Promise<ResumedConversation | null> {
+    try {
+        const saved = await getSavedConversation(farmerId, sessionId);
+        return saved && {
+            sessionId: saved.sessionId,
+            stage: saved.stage,
+            collectedData: saved.collectedData,
+            priceSuggestion: saved.priceSuggestion,
+            catalogItem: saved.catalogItem
+        };
+    } catch (error) {
+        console.error("[X] Resuming session failed:", error);
+        return null;
+    }
+}
+
+/**
+ * Stop offering an earlier session back
+ */
+async function closeConversation(farmerId: string, sessionId: string): Promise<void> {
+    try {
+        await endConversation(farmerId, sessionId);
+    } catch (error) {
+        console.error("[X] Ending session failed:", error);
+    }
+}
+
+/**
+ * Save the conversation after a turn; the conversation goes on if saving fails
+ */
+async function recordTurn(farmerId: string, state: ConversationState, farmerText: string, agentText: string): Promise<void> {
+    try {
+        await saveConversationTurn(farmerId, state, farmerText, agentText);
+    } catch (error) {
+        console.error("[X] Saving session failed:", error);
+    }
+}
+
+/**
+ * Carry out a spoken re-listing
+ */
+async function carryOutRelist(farmerId: string, catalogId: string, pricePerUnit: number): Promise<RelistOutcome> {
+    if (!(await farmerOwns(farmerId, "catalog", catalogId))) {
+        console.warn(`[X] Catalog ${catalogId} is not this farmer's`);
+        return "FAILED";
+    }
+
+    const result = await relistListing(catalogId, pricePerUnit);
+
+    if (!result.success) {
+        console.warn(`[X] Re-listing of ${catalogId} failed: ${result.error}`);
+        return "FAILED";
+    }
+
+    return "RELISTED";
+}
+
+/**
+ * Say where an order is, e.g. from a "where is my order" button
+ *
+ * Uses the farmer's latest order when no order is given.
+ */
+export async function trackOrderAction(
+    state: ConversationState,
+    orderId?: string
+): Promise<ProcessVoiceResult> {
+    const auth = await authorizeFarmer(orderId ? { kind: "order", id: orderId } : undefined);
+    if (auth.error) {
+        return { success: false, error: auth.error };
+    }
+
+    const result = getOrderStatusResponse(state, await summarizeOrderStatus(auth.farmerId, orderId));
+
+    return {
+        success: true,
+        response: result.response,
+        newState: result.newState
+    };
+}
+
+/**
+ * Start answering the best bid by voice once the auction has closed
+ */
+export async function startBidReviewAction(
+    state: ConversationState,
+    catalogId: string,
+    transactionId: string
+): Promise<ProcessVoiceResult> {
+    try {
+        const auth = await authorizeFarmer({ kind: "catalog", id: catalogId });
+        if (auth.error) {
+            return { success: false, error: auth.error };
+        }
+
+        const broadcast = await getBroadcastStatus(catalogId, transactionId);
+        const [bid] = broadcast.bids;
+
+        if (broadcast.auctionOpen || !bid) {
+            return {
+                success: false,
+                error: broadcast.auctionOpen ? "Auction is still open" : "No open bids to review"
+            };
+        }
+
+        const result = startBidReview(state, catalogId, transactionId, toReviewedBid(bid));
+
+        return {
+            success: true,
+            response: result.response,
+            newState: result.newState
+        };
+
+    } catch (error) {
+        console.error("[X] Start bid review failed:", error);
+        return {
+            success: false,
+            error: handleDatabaseError(error)
+        };
+    }
+}
+
 /**
  * Get market prices for a commodity
  */
@@ -150,21 +768,19 @@ export async function getLivePricesAction(
  * - Validates catalog against Beckn Protocol schema
  * - Saves to database with proper status tracking
  * - Broadcasts to ONDC network (simulated with production characteristics)
- * - Handles network failures, timeouts, and denials gracefully
- * - Returns detailed transaction information
+ * - Returns the ONDC transaction ID right away; bids arrive asynchronously
+ *   and are read with getVoiceBroadcastStatusAction
  */
 export interface VoiceBroadcastResult {
     success: boolean;
     catalogId?: string;
-    bid?: BuyerBid;
-    successMessage?: string;
     error?: string;
     /** ONDC Transaction ID for tracking */
     transactionId?: string;
-    /** Processing time in milliseconds */
-    processingTimeMs?: number;
     /** Error type for UI handling */
     errorType?: 'TIMEOUT' | 'DENIED' | 'NETWORK_ERROR' | 'VALIDATION_ERROR' | 'RATE_LIMITED';
+    /** The AGR10 rule check, when the listing broke the rules */
+    ruleReport?: CatalogRuleReport;
 }
 
 export async function broadcastFromVoiceAction(
@@ -178,37 +794,44 @@ export async function broadcastFromVoiceAction(
         // Validate catalog
         const validatedCatalog = validateCatalog(catalogItem);
 
-        // Save to database with default farmer
-        const FARMER_ID = "farmer-1";
-
-        // Verify farmer exists
-        const farmer = await prisma.farmer.findUnique({
-            where: { id: FARMER_ID }
-        });
-
-        if (!farmer) {
+        // The listing belongs to the logged-in farmer
+        const auth = await authorizeFarmer();
+        if (auth.error) {
             return {
                 success: false,
-                error: "Farmer not found",
+                error: auth.error,
                 errorType: 'VALIDATION_ERROR'
             };
         }
+        const { farmerId } = auth;
+
+        // Listings that break the AGR10 rules are not saved or sent
+        const ruleReport = await validateFarmerListing(validatedCatalog, farmerId);
+        if (!ruleReport.valid) {
+            return {
+                success: false,
+                error: describeRuleErrors(ruleReport),
+                errorType: 'VALIDATION_ERROR',
+                ruleReport
+            };
+        }
 
         // Create catalog
         const savedCatalog = await prisma.catalog.create({
             data: {
-                farmerId: FARMER_ID,
+                farmerId,
                 becknJson: validatedCatalog as Prisma.InputJsonValue,
-                status: "DRAFT"
+                status: "DRAFT",
+                revisions: firstRevision(validatedCatalog, farmerId)
             }
         });
 
         console.log(`[OK] Catalog saved: ${savedCatalog.id}`);
 
-        // Update to BROADCASTED
+        // Update to BROADCASTED; the listing stays open as long as the produce keeps
         await prisma.catalog.update({
             where: { id: savedCatalog.id },
-            data: { status: "BROADCASTED" }
+            data: { status: "BROADCASTED", expiresAt: getListingExpiry(validatedCatalog) }
         });
 
         // Log outgoing catalog
@@ -217,73 +840,129 @@ export async function broadcastFromVoiceAction(
                 type: "OUTGOING_CATALOG",
                 payload: {
                     catalogId: savedCatalog.id,
-                    farmerId: FARMER_ID,
+                    farmerId,
                     becknJson: validatedCatalog,
                     timestamp: new Date().toISOString(),
                     source: "voice_conversation",
                     protocolVersion: "1.2.0",
                     domain: "ONDC:AGR10"
                 },
+                catalogId: savedCatalog.id,
                 timestamp: new Date()
             }
         });
 
-        // Simulate broadcast with production-grade ONDC network behavior
-        // This may throw an error if network simulation encounters failure scenarios
-        try {
-            const bid = await simulateBroadcast(savedCatalog.id);
-
-            // Generate success message in user's language
-            const successMessage = getSuccessMessage(language, bid.buyerName, bid.bidAmount);
-
-            console.log(`[OK] Broadcast successful: ${bid.buyerName} bid Rs ${bid.bidAmount}`);
-            console.log(`[OK] Transaction ID: ${bid.transactionId || 'N/A'}`);
-            console.log(`[OK] Processing Time: ${bid.processingTimeMs || 0}ms`);
+        // Send the ONDC search; bids arrive later through the callbacks.
+        // Failed sends revert the catalog to DRAFT so the user can retry.
+        const broadcast = await startBroadcast(savedCatalog.id);
 
+        if (!broadcast.success) {
+            console.warn(`[!] ONDC Network Event: ${broadcast.error}`);
             return {
-                success: true,
+                success: false,
                 catalogId: savedCatalog.id,
-                bid,
-                successMessage,
-                transactionId: bid.transactionId,
-                processingTimeMs: bid.processingTimeMs
+                transactionId: broadcast.transactionId,
+                error: broadcast.error || "Network broadcast failed",
+                errorType: 'NETWORK_ERROR'
             };
+        }
 
-        } catch (networkError) {
-            // Handle ONDC network errors (timeouts, denials, etc.)
-            const errorMessage = networkError instanceof Error ? networkError.message : "Network broadcast failed";
-            console.warn(`[!] ONDC Network Event: ${errorMessage}`);
-
-            // Parse error type from message
-            let errorType: VoiceBroadcastResult['errorType'] = 'NETWORK_ERROR';
-            if (errorMessage.includes('timeout') || errorMessage.includes('Timeout')) {
-                errorType = 'TIMEOUT';
-            } else if (errorMessage.includes('denied') || errorMessage.includes('No buyers')) {
-                errorType = 'DENIED';
-            } else if (errorMessage.includes('rate') || errorMessage.includes('Rate')) {
-                errorType = 'RATE_LIMITED';
-            }
+        console.log(`[OK] Broadcast started: ${broadcast.transactionId}`);
+
+        return {
+            success: true,
+            catalogId: savedCatalog.id,
+            transactionId: broadcast.transactionId
+        };
+
+    } catch (error) {
+        console.error("[X] Voice broadcast failed:", error);
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : "Broadcast failed",
+            errorType: 'VALIDATION_ERROR'
+        };
+    }
+}
 
-            // Update catalog status to reflect the failed broadcast
-            await prisma.catalog.update({
-                where: { id: savedCatalog.id },
-                data: { status: "DRAFT" } // Revert to draft so user can retry
-            });
+/**
+ * Poll a voice broadcast's auction
+ * 
+ * Returns PENDING until a buyer's on_search arrives, then the ranked bids.
+ * Keep polling while auctionOpen is true; once the window closes the
+ * summary of the bids is returned as a message in the user's language.
+ * Network failures (timeouts, denials, rate limits) come back as FAILED
+ * with their error type.
+ */
+export interface VoiceBroadcastStatusResult {
+    success: boolean;
+    status?: 'PENDING' | 'BID_RECEIVED' | 'FAILED';
+    /** Best bid so far */
+    bid?: BuyerBid;
+    /** All bids so far, best first */
+    bids?: BuyerBid[];
+    /** True while buyers may still bid */
+    auctionOpen?: boolean;
+    /** When the bid collection window closes */
+    auctionClosesAt?: Date;
+    /** Spoken once the auction has closed */
+    successMessage?: string;
+    error?: string;
+    /** Error type for UI handling */
+    errorType?: VoiceBroadcastResult['errorType'];
+}
 
+export async function getVoiceBroadcastStatusAction(
+    catalogId: string,
+    transactionId: string,
+    language: LanguageConfig
+): Promise<VoiceBroadcastStatusResult> {
+    try {
+        const auth = await authorizeFarmer({ kind: 'catalog', id: catalogId });
+        if (auth.error) {
+            return { success: false, error: auth.error };
+        }
+
+        const broadcast = await getBroadcastStatus(catalogId, transactionId);
+
+        if (broadcast.status === 'FAILED') {
             return {
-                success: false,
-                catalogId: savedCatalog.id,
-                error: errorMessage,
-                errorType
+                success: true,
+                status: 'FAILED',
+                error: broadcast.error?.message,
+                errorType: broadcast.error?.type
             };
         }
 
+        const { bids, auctionOpen, auctionClosesAt } = broadcast;
+        const [bid] = bids;
+        if (!bid) {
+            return { success: true, status: 'PENDING', auctionOpen, auctionClosesAt };
+        }
+
+        if (!auctionOpen) {
+            console.log(`[OK] Auction closed: ${bids.length} bids, best ${bid.buyerName} at Rs ${bid.bidAmount}`);
+        }
+
+        return {
+            success: true,
+            status: 'BID_RECEIVED',
+            bid,
+            bids,
+            auctionOpen,
+            auctionClosesAt,
+            successMessage: auctionOpen
+                ? undefined
+                : bids.length > 1
+                    ? getAuctionSummaryMessage(language, bids.length, bid.buyerName, bid.bidAmount)
+                    : getSuccessMessage(language, bid.buyerName, bid.bidAmount)
+        };
+
     } catch (error) {
-        console.error("[X] Voice broadcast failed:", error);
+        console.error("[X] Broadcast status check failed:", error);
         return {
             success: false,
-            error: error instanceof Error ? error.message : "Broadcast failed",
-            errorType: 'VALIDATION_ERROR'
+            error: handleDatabaseError(error)
         };
     }
 }
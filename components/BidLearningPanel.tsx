@@ -0,0 +1,153 @@
+"use client";
+
+/**
+ * BidLearningPanel Component
+ *
+ * Shows what the simulated buyers have learned from past bids: the
+ * average bid ratio of each commodity with its regional and seasonal
+ * factors. Learning can be reset for one commodity or for all.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { Brain, Loader2, RotateCcw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { getBidLearningStatsAction, resetBidLearningAction } from "@/app/actions";
+import type { CommodityLearningStats, LearningGroupStats } from "@/lib/bid-learning";
+
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/**
+ * Format a bid ratio as a percentage of the asking price
+ */
+function percent(ratio: number): string {
+  return `${Math.round(ratio * 100)}%`;
+}
+
+/**
+ * Badge for a state's or month's learned factor
+ */
+function FactorBadge({ label, group }: { label: string; group: LearningGroupStats }) {
+  const color = group.factor === undefined ? "bg-gray-400" :
+    group.factor >= 1 ? "bg-green-500" : "bg-orange-500";
+
+  return (
+    <Badge className={`${color} text-white`}>
+      {label}: {group.factor === undefined ? `${group.bidCount} bids` : `x${group.factor.toFixed(2)}`}
+    </Badge>
+  );
+}
+
+/**
+ * BidLearningPanel Component
+ */
+export function BidLearningPanel() {
+  const [stats, setStats] = useState<CommodityLearningStats[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStats = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const result = await getBidLearningStatsAction();
+
+      if (result.success) {
+        setStats(result.stats || []);
+      }
+      setError(result.error || null);
+    } catch (err) {
+      console.error("Failed to fetch bid learning:", err);
+      setError("Failed to fetch bid learning");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStats();
+  }, [fetchStats]);
+
+  /**
+   * Forget one commodity, or everything when none is given
+   */
+  const reset = async (commodity?: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await resetBidLearningAction(commodity);
+      if (!result.success) {
+        setError(result.error || "Could not reset bid learning");
+      }
+    } finally {
+      await fetchStats();
+    }
+  };
+
+  return (
+    <Card className="p-6 bg-white">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Brain className="w-6 h-6 text-indigo-600" />
+          <h2 className="text-xl font-bold text-gray-900">Bid Learning</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => reset()}
+            disabled={isLoading || stats.length === 0}
+          >
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Reset all
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-700 bg-red-50 rounded-md px-3 py-2 mb-4">{error}</p>
+      )}
+
+      {stats.length === 0 ? !isLoading && (
+        <p className="text-sm text-gray-500">Nothing learned yet. Bids are recorded as they arrive.</p>
+      ) : (
+        <div className="space-y-4">
+          {stats.map((commodity) => (
+            <div key={commodity.commodity} className="border-2 border-gray-200 rounded-lg p-4">
+              <div className="flex items-start justify-between mb-3">
+                <div>
+                  <h3 className="text-lg font-bold text-gray-900 capitalize">{commodity.commodity}</h3>
+                  <p className="text-sm text-gray-600">
+                    {commodity.bidCount} bids, averaging {percent(commodity.avgBidRatio)} of asking price
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => reset(commodity.commodity)}
+                  disabled={isLoading}
+                >
+                  Reset
+                </Button>
+              </div>
+
+              <div className="space-y-2 text-sm">
+                <div className="flex flex-wrap gap-2">
+                  {commodity.regions.map((region) => (
+                    <FactorBadge key={region.state} label={region.state || "Unknown state"} group={region} />
+                  ))}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {commodity.months.map((month) => (
+                    <FactorBadge key={month.month} label={MONTH_NAMES[month.month - 1]} group={month} />
+                  ))}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,367 @@
+"use client";
+
+/**
+ * BuyerRegistry Component
+ *
+ * Admin console for the buyer platforms the simulator auctions listings
+ * to. Lists the registered buyers and lets an admin add or edit them
+ * (operating states, daily capacity, commodity preferences, success rate,
+ * logo), verify them and suspend them from auctions.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { Ban, CheckCircle, Loader2, Pencil, Plus, RefreshCw, ShieldCheck, Store } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import {
+  getBuyersAction,
+  createBuyerAction,
+  updateBuyerAction,
+  setBuyerSuspendedAction,
+  setBuyerVerifiedAction
+} from "@/app/actions";
+import type { BuyerInput, BuyerResult, RegisteredBuyer } from "@/lib/buyer-registry";
+import type { BuyerCategory } from "@/lib/buyer-pool";
+
+const CATEGORY_LABELS: Record<BuyerCategory, string> = {
+  RETAILER: "Retailer",
+  WHOLESALER: "Wholesaler",
+  FPO: "FPO",
+  LOCAL_TRADER: "Local trader"
+};
+
+/**
+ * Form values; numbers and lists are edited as text
+ */
+interface BuyerFormValues {
+  name: string;
+  subscriberId: string;
+  category: BuyerCategory;
+  logo: string;
+  rating: string;
+  location: string;
+  gstin: string;
+  operatingStates: string;
+  commodityPreferences: string;
+  dailyCapacity: string;
+  avgResponseTime: string;
+  successRate: string;
+}
+
+const EMPTY_FORM: BuyerFormValues = {
+  name: "",
+  subscriberId: "",
+  category: "LOCAL_TRADER",
+  logo: "",
+  rating: "4",
+  location: "",
+  gstin: "",
+  operatingStates: "",
+  commodityPreferences: "",
+  dailyCapacity: "1000",
+  avgResponseTime: "10",
+  successRate: "90"
+};
+
+const TEXT_FIELDS: { key: keyof BuyerFormValues; label: string; placeholder?: string }[] = [
+  { key: "name", label: "Name" },
+  { key: "subscriberId", label: "ONDC subscriber ID", placeholder: "ondc.example.bap" },
+  { key: "location", label: "Location", placeholder: "Nashik, Maharashtra" },
+  { key: "gstin", label: "GSTIN" },
+  { key: "logo", label: "Logo", placeholder: "/logos/example.png" },
+  { key: "operatingStates", label: "Operating states", placeholder: "Maharashtra, Gujarat" },
+  { key: "commodityPreferences", label: "Commodities (blank for all)", placeholder: "onion, tomato" },
+  { key: "dailyCapacity", label: "Daily capacity" },
+  { key: "successRate", label: "Success rate (%)" },
+  { key: "rating", label: "Rating (0-5)" },
+  { key: "avgResponseTime", label: "Avg. response time (s)" }
+];
+
+/**
+ * Split a comma-separated list
+ */
+function splitList(value: string): string[] {
+  return value.split(",").map((item) => item.trim()).filter(Boolean);
+}
+
+function toFormValues(buyer: RegisteredBuyer): BuyerFormValues {
+  return {
+    name: buyer.name,
+    subscriberId: buyer.subscriberId,
+    category: buyer.category,
+    logo: buyer.logo,
+    rating: String(buyer.rating),
+    location: buyer.location,
+    gstin: buyer.gstin,
+    operatingStates: buyer.operatingStates.join(", "),
+    commodityPreferences: buyer.commodityPreferences.join(", "),
+    dailyCapacity: String(buyer.dailyCapacity),
+    avgResponseTime: String(buyer.avgResponseTime),
+    successRate: String(buyer.successRate)
+  };
+}
+
+function toBuyerInput(values: BuyerFormValues): BuyerInput {
+  return {
+    name: values.name,
+    subscriberId: values.subscriberId,
+    category: values.category,
+    logo: values.logo,
+    rating: Number(values.rating),
+    location: values.location,
+    gstin: values.gstin.toUpperCase(),
+    operatingStates: splitList(values.operatingStates),
+    commodityPreferences: splitList(values.commodityPreferences),
+    dailyCapacity: Number(values.dailyCapacity),
+    avgResponseTime: Number(values.avgResponseTime),
+    successRate: Number(values.successRate)
+  };
+}
+
+/**
+ * Form to add a buyer, or edit one when `buyer` is given
+ */
+function BuyerForm({ buyer, busy, onSubmit, onCancel }: {
+  buyer?: RegisteredBuyer;
+  busy: boolean;
+  onSubmit: (input: BuyerInput) => void;
+  onCancel: () => void;
+}) {
+  const [values, setValues] = useState<BuyerFormValues>(buyer ? toFormValues(buyer) : EMPTY_FORM);
+
+  return (
+    <div className="border-2 border-blue-200 rounded-lg p-4 space-y-3">
+      <h3 className="font-bold text-gray-900">{buyer ? `Edit ${buyer.name}` : "Add buyer"}</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+        <label className="space-y-1">
+          <span className="text-gray-600 font-semibold">Category</span>
+          <Select value={values.category} onValueChange={(value) => setValues({ ...values, category: value as BuyerCategory })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(CATEGORY_LABELS) as BuyerCategory[]).map((category) => (
+                <SelectItem key={category} value={category}>{CATEGORY_LABELS[category]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </label>
+        {TEXT_FIELDS.map(({ key, label, placeholder }) => (
+          <label key={key} className="space-y-1">
+            <span className="text-gray-600 font-semibold">{label}</span>
+            <input
+              value={values[key]}
+              onChange={(e) => setValues({ ...values, [key]: e.target.value })}
+              placeholder={placeholder}
+              disabled={key === "subscriberId" && !!buyer}
+              className="w-full border rounded-md px-2 py-1 disabled:bg-gray-100"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <Button size="sm" disabled={busy || !values.name.trim()} onClick={() => onSubmit(toBuyerInput(values))}>
+          {buyer ? "Save changes" : "Add buyer"}
+        </Button>
+        <Button size="sm" variant="outline" disabled={busy} onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * One registered buyer with its admin controls
+ */
+function BuyerRow({ buyer, busy, onEdit, onVerify, onSuspend }: {
+  buyer: RegisteredBuyer;
+  busy: boolean;
+  onEdit: () => void;
+  onVerify: () => void;
+  onSuspend: () => void;
+}) {
+  return (
+    <div className={`border-2 rounded-lg p-4 ${buyer.suspended ? "border-red-200 bg-red-50" : "border-gray-200"}`}>
+      <div className="flex items-start justify-between gap-4 mb-3">
+        <div>
+          <h3 className="text-lg font-bold text-gray-900">{buyer.name}</h3>
+          <p className="text-sm text-gray-600 font-mono">{buyer.subscriberId}</p>
+        </div>
+        <div className="flex flex-wrap justify-end gap-2">
+          <Badge className="bg-gray-600 text-white">{CATEGORY_LABELS[buyer.category]}</Badge>
+          {buyer.verified ? (
+            <Badge className="bg-green-500 text-white">Verified</Badge>
+          ) : (
+            <Badge className="bg-yellow-500 text-white">Unverified</Badge>
+          )}
+          {buyer.suspended && <Badge className="bg-red-600 text-white">Suspended</Badge>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-3">
+        <div>
+          <p className="text-gray-600 font-semibold">Operating states</p>
+          <p className="text-gray-900">{buyer.operatingStates.join(", ")}</p>
+        </div>
+        <div>
+          <p className="text-gray-600 font-semibold">Commodities</p>
+          <p className="text-gray-900">
+            {buyer.commodityPreferences.length > 0 ? buyer.commodityPreferences.join(", ") : "All"}
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-600 font-semibold">Daily capacity</p>
+          <p className="text-gray-900">{buyer.dailyCapacity.toLocaleString()}</p>
+        </div>
+        <div>
+          <p className="text-gray-600 font-semibold">Success rate</p>
+          <p className="text-gray-900">{buyer.successRate}% ({buyer.rating} rating)</p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" className="gap-1" disabled={busy} onClick={onEdit}>
+          <Pencil className="h-4 w-4" />
+          Edit
+        </Button>
+        <Button size="sm" variant="outline" className="gap-1" disabled={busy} onClick={onVerify}>
+          <ShieldCheck className="h-4 w-4" />
+          {buyer.verified ? "Withdraw verification" : "Verify"}
+        </Button>
+        <Button size="sm" variant="outline" className="gap-1" disabled={busy} onClick={onSuspend}>
+          {buyer.suspended ? <CheckCircle className="h-4 w-4" /> : <Ban className="h-4 w-4" />}
+          {buyer.suspended ? "Reinstate" : "Suspend"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * BuyerRegistry Component
+ */
+export function BuyerRegistry() {
+  const [buyers, setBuyers] = useState<RegisteredBuyer[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Buyer being edited; "new" while adding one
+  const [editing, setEditing] = useState<RegisteredBuyer | "new" | null>(null);
+
+  const fetchBuyers = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const result = await getBuyersAction();
+
+      if (result.success) {
+        setBuyers(result.buyers || []);
+        setError(null);
+      } else {
+        setError(result.error || "Failed to fetch buyers");
+      }
+    } catch (err) {
+      console.error("Failed to fetch buyers:", err);
+      setError("Failed to fetch buyers");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchBuyers();
+  }, [fetchBuyers]);
+
+  /**
+   * Run a registry change and refresh the list
+   */
+  const runChange = async (change: () => Promise<BuyerResult>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await change();
+      if (!result.success) {
+        setError(result.error || "Could not save buyer");
+        return;
+      }
+      setEditing(null);
+      await fetchBuyers();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 bg-white">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Store className="w-6 h-6 text-blue-600" />
+          <h2 className="text-xl font-bold text-gray-900">Buyer Registry</h2>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={fetchBuyers} disabled={isLoading} className="gap-2">
+            <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+          <Button size="sm" onClick={() => setEditing("new")} disabled={busy || editing !== null} className="gap-2">
+            <Plus className="h-4 w-4" />
+            Add buyer
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-700 bg-red-50 rounded-md px-3 py-2 mb-4">{error}</p>
+      )}
+
+      <div className="space-y-4">
+        {editing && (
+          <BuyerForm
+            key={editing === "new" ? "new" : editing.id}
+            buyer={editing === "new" ? undefined : editing}
+            busy={busy}
+            onCancel={() => setEditing(null)}
+            onSubmit={(input) => {
+              if (editing === "new") {
+                runChange(() => createBuyerAction(input));
+              } else {
+                const { subscriberId: _subscriberId, ...changes } = input;
+                runChange(() => updateBuyerAction(editing.id, changes));
+              }
+            }}
+          />
+        )}
+
+        {isLoading && buyers.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+          </div>
+        ) : buyers.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>No buyers registered</p>
+            <p className="text-sm mt-2">Run the seed script or add a buyer; until then the built-in buyer pool is used</p>
+          </div>
+        ) : buyers.map((buyer) => (
+          <BuyerRow
+            key={buyer.id}
+            buyer={buyer}
+            busy={busy}
+            onEdit={() => setEditing(buyer)}
+            onVerify={() => runChange(() => setBuyerVerifiedAction(buyer.id, !buyer.verified))}
+            onSuspend={() => runChange(() => setBuyerSuspendedAction(buyer.id, !buyer.suspended))}
+          />
+        ))}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+/**
+ * CatalogHistory Component
+ *
+ * Shows the revisions of one catalog listing: who changed what and when,
+ * and a diff between any two revisions.
+ */
+
+import { useState, useEffect } from "react";
+import { ArrowRight, History, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { getCatalogRevisionsAction } from "@/app/actions";
+import { diffCatalogItems, type CatalogChange } from "@/lib/beckn-schema";
+import type { CatalogRevisionEntry } from "@/lib/catalog-revisions";
+
+export interface CatalogHistoryProps {
+  catalogId: string;
+}
+
+/**
+ * Format a field value for display
+ */
+function formatValue(value: unknown): string {
+  return value === undefined ? "-" : typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Table of changed fields
+ */
+function ChangeTable({ changes }: { changes: CatalogChange[] }) {
+  if (changes.length === 0) {
+    return <p className="text-sm text-gray-500">No differences.</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-gray-600">
+          <th className="py-1 pr-4 font-semibold">Field</th>
+          <th className="py-1 pr-4 font-semibold">Before</th>
+          <th className="py-1 font-semibold">After</th>
+        </tr>
+      </thead>
+      <tbody>
+        {changes.map((change) => (
+          <tr key={change.field} className="border-t border-gray-100">
+            <td className="py-1 pr-4 font-mono text-gray-700">{change.field}</td>
+            <td className="py-1 pr-4 text-red-700 line-through">{formatValue(change.before)}</td>
+            <td className="py-1 text-green-700">{formatValue(change.after)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * CatalogHistory Component
+ */
+export function CatalogHistory({ catalogId }: CatalogHistoryProps) {
+  const [revisions, setRevisions] = useState<CatalogRevisionEntry[]>([]);
+  const [fromVersion, setFromVersion] = useState<number>();
+  const [toVersion, setToVersion] = useState<number>();
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchRevisions = async () => {
+      try {
+        setIsLoading(true);
+        const result = await getCatalogRevisionsAction(catalogId);
+
+        if (result.success && result.revisions) {
+          const versions = result.revisions.map(revision => revision.version);
+          setRevisions(result.revisions);
+          setToVersion(versions[versions.length - 1]);
+          setFromVersion(versions[Math.max(0, versions.length - 2)]);
+        }
+        setError(result.error || null);
+      } catch (err) {
+        console.error("Failed to fetch catalog revisions:", err);
+        setError("Failed to fetch catalog revisions");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchRevisions();
+  }, [catalogId]);
+
+  const from = revisions.find(revision => revision.version === fromVersion);
+  const to = revisions.find(revision => revision.version === toVersion);
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-gray-500" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <History className="w-5 h-5 text-purple-600" />
+        <h4 className="font-bold text-gray-900">Revision History</h4>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-700 bg-red-50 rounded-md px-3 py-2 mb-4">{error}</p>
+      )}
+
+      {revisions.length === 0 ? !error && (
+        <p className="text-sm text-gray-500">No revisions recorded. History starts with the first edit.</p>
+      ) : (
+        <>
+          {/* Diff between two revisions */}
+          <div className="flex items-center gap-2">
+            <Select value={String(fromVersion)} onValueChange={(value) => setFromVersion(Number(value))}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {revisions.map((revision) => (
+                  <SelectItem key={revision.version} value={String(revision.version)}>v{revision.version}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ArrowRight className="w-4 h-4 text-gray-500" />
+            <Select value={String(toVersion)} onValueChange={(value) => setToVersion(Number(value))}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {revisions.map((revision) => (
+                  <SelectItem key={revision.version} value={String(revision.version)}>v{revision.version}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {from && to && <ChangeTable changes={diffCatalogItems(from.item, to.item)} />}
+
+          {/* Who changed what, newest first */}
+          <ol className="space-y-2">
+            {[...revisions].reverse().map((revision) => (
+              <li key={revision.id} className="text-sm border-l-2 border-purple-200 pl-3">
+                <div className="flex items-center gap-2">
+                  <Badge className="bg-purple-500 text-white">v{revision.version}</Badge>
+                  <span className="text-gray-900">{revision.changedBy}</span>
+                  <span className="text-gray-500">{new Date(revision.createdAt).toLocaleString()}</span>
+                </div>
+                <p className="text-gray-600 mt-1">
+                  {revision.changes.length === 0
+                    ? "Listed"
+                    : `Changed ${revision.changes.map(change => change.field).join(", ")}`}
+                  {revision.note && ` - ${revision.note}`}
+                </p>
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+}
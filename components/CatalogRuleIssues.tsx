@@ -0,0 +1,36 @@
+"use client";
+
+/**
+ * CatalogRuleIssues Component
+ *
+ * Lists the AGR10 rule errors and warnings found in a listing, errors
+ * first. Renders nothing for a listing without issues.
+ */
+
+import { AlertTriangle } from "lucide-react";
+import type { CatalogRuleReport } from "@/lib/catalog-rules";
+import { cn } from "@/lib/utils";
+
+export function CatalogRuleIssues({ report, className }: { report?: CatalogRuleReport; className?: string }) {
+  const issues = report ? [...report.errors, ...report.warnings] : [];
+  if (issues.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className={cn("space-y-2", className)} aria-label="Listing checks">
+      {issues.map(issue => (
+        <li
+          key={`${issue.code}-${issue.field}`}
+          className={cn(
+            "flex items-start gap-2 rounded-xl px-3 py-2 text-sm font-medium",
+            issue.severity === "error" ? "bg-red-50 text-red-800" : "bg-yellow-50 text-yellow-800"
+          )}
+        >
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          {issue.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,175 @@
+"use client";
+
+/**
+ * FaultProfileSelector Component
+ *
+ * QA control for the simulated ONDC network. Shows the active fault
+ * profile (phase latencies and failure chances, buyer response) and
+ * switches between profiles, so each broadcast error path can be
+ * reproduced from the UI.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { FlaskConical, Loader2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { getFaultProfilesAction, setFaultProfileAction } from "@/app/actions";
+import type { FaultProfile, SimulatedFailure, SimulatedPhase } from "@/lib/fault-profiles";
+
+const PHASE_LABELS: Record<SimulatedPhase, string> = {
+  gateway: "Gateway authentication",
+  validation: "Schema validation",
+  broadcast: "BAP network broadcast",
+  matching: "Buyer matching"
+};
+
+/**
+ * Format a chance as a percentage
+ */
+function percent(rate: number): string {
+  return `${Math.round(rate * 1000) / 10}%`;
+}
+
+/**
+ * Timings and failure chances of a profile
+ */
+function ProfileDetails({ profile }: { profile: FaultProfile }) {
+  const failures = (Object.keys(profile.failures) as SimulatedFailure[])
+    .filter((type) => profile.failures[type] > 0);
+
+  return (
+    <div className="space-y-3 text-sm">
+      <p className="text-gray-700">{profile.description}</p>
+
+      <table className="w-full text-left">
+        <thead>
+          <tr className="text-gray-600">
+            <th className="font-semibold py-1">Phase</th>
+            <th className="font-semibold py-1">Latency</th>
+            <th className="font-semibold py-1">Fails</th>
+          </tr>
+        </thead>
+        <tbody>
+          {(Object.keys(PHASE_LABELS) as SimulatedPhase[]).map((phase) => (
+            <tr key={phase} className="border-t border-gray-100">
+              <td className="py-1 text-gray-900">{PHASE_LABELS[phase]}</td>
+              <td className="py-1 text-gray-900 font-mono">
+                {profile.phases[phase].minMs}-{profile.phases[phase].maxMs} ms
+              </td>
+              <td className="py-1 text-gray-900">{percent(profile.phases[phase].failureRate)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex flex-wrap gap-2">
+        {failures.length === 0 ? (
+          <Badge className="bg-green-500 text-white">No network failures</Badge>
+        ) : failures.map((type) => (
+          <Badge key={type} className="bg-red-500 text-white">
+            {type} {percent(profile.failures[type])}
+          </Badge>
+        ))}
+        <Badge className="bg-blue-500 text-white">
+          {percent(profile.buyerAvailability)} of buyers respond
+        </Badge>
+        <Badge className="bg-purple-500 text-white">
+          Bids at {percent(profile.bidResponse.minShare)}-{percent(profile.bidResponse.maxShare)} of window
+        </Badge>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * FaultProfileSelector Component
+ */
+export function FaultProfileSelector() {
+  const [profiles, setProfiles] = useState<FaultProfile[]>([]);
+  const [activeId, setActiveId] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProfiles = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const result = await getFaultProfilesAction();
+
+      if (result.success) {
+        setProfiles(result.profiles || []);
+        setActiveId(result.activeId || "");
+      }
+      setError(result.error || null);
+    } catch (err) {
+      console.error("Failed to fetch fault profiles:", err);
+      setError("Failed to fetch fault profiles");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, [fetchProfiles]);
+
+  /**
+   * Switch the active profile
+   */
+  const selectProfile = async (profileId: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await setFaultProfileAction(profileId);
+      if (result.success) {
+        setActiveId(profileId);
+      } else {
+        setError(result.error || "Could not switch profile");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const activeProfile = profiles.find((profile) => profile.id === activeId);
+
+  return (
+    <Card className="p-6 bg-white">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <FlaskConical className="w-6 h-6 text-purple-600" />
+          <h2 className="text-xl font-bold text-gray-900">Network Fault Profile</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+          <Select value={activeId} onValueChange={selectProfile} disabled={isLoading}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Select profile" />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map((profile) => (
+                <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-700 bg-red-50 rounded-md px-3 py-2 mb-4">{error}</p>
+      )}
+
+      {activeProfile ? (
+        <ProfileDetails profile={activeProfile} />
+      ) : !isLoading && (
+        <p className="text-sm text-gray-500">No fault profile active</p>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+/**
+ * FpoPools Component
+ *
+ * The logged-in farmer's FPO and the pooled listings they put produce
+ * into: how much of each pool is theirs and, once it is sold, their share
+ * of the sale. Members add a lot to the FPO's pool of the same commodity
+ * and grade from here.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { Loader2, Plus, Users } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { contributeToPoolAction, getMyPoolsAction } from "@/app/actions";
+import { getCommodityIconFromProduct } from "@/lib/icon-mapper";
+import type { PoolShare } from "@/lib/fpo-pool";
+import type { Fpo } from "@/lib/generated-client/client";
+
+/**
+ * Form values; numbers are edited as text
+ */
+interface LotFormValues {
+  name: string;
+  grade: string;
+  quantity: string;
+  unit: string;
+  price: string;
+}
+
+const EMPTY_LOT: LotFormValues = { name: "", grade: "", quantity: "", unit: "kg", price: "" };
+
+const LOT_FIELDS: { key: keyof LotFormValues; label: string; placeholder?: string }[] = [
+  { key: "name", label: "Commodity", placeholder: "Onion" },
+  { key: "grade", label: "Grade", placeholder: "A" },
+  { key: "quantity", label: "Quantity", placeholder: "200" },
+  { key: "unit", label: "Unit" },
+  { key: "price", label: "Asking price per unit", placeholder: "25" }
+];
+
+/**
+ * FpoPools Component
+ */
+export function FpoPools() {
+  const [fpo, setFpo] = useState<Fpo | null>(null);
+  const [pools, setPools] = useState<PoolShare[]>([]);
+  const [lot, setLot] = useState<LotFormValues>(EMPTY_LOT);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPools = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const result = await getMyPoolsAction();
+
+      if (result.success) {
+        setFpo(result.fpo ?? null);
+        setPools(result.pools || []);
+      }
+      setError(result.error || null);
+    } catch (err) {
+      console.error("Failed to fetch pools:", err);
+      setError("Failed to fetch pools");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPools();
+  }, [fetchPools]);
+
+  /**
+   * Put the lot in the form into the FPO's pool
+   */
+  const contribute = async () => {
+    setIsLoading(true);
+    const result = await contributeToPoolAction({
+      descriptor: { name: lot.name.trim(), symbol: getCommodityIconFromProduct(lot.name) },
+      price: { value: Number(lot.price), currency: "INR" },
+      quantity: { available: { count: Number(lot.quantity) }, unit: lot.unit.trim() },
+      tags: lot.grade.trim() ? { grade: lot.grade.trim() } : {}
+    });
+
+    if (result.success) {
+      setLot(EMPTY_LOT);
+      await fetchPools();
+    } else {
+      setIsLoading(false);
+    }
+    setError(result.error || null);
+  };
+
+  return (
+    <Card className="p-6 bg-white">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Users className="w-6 h-6 text-teal-600" />
+          <h2 className="text-xl font-bold text-gray-900">FPO Pools</h2>
+          {fpo && <Badge variant="outline">{fpo.name} ({fpo.providerId})</Badge>}
+        </div>
+        {isLoading && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-700 bg-red-50 rounded-md px-3 py-2 mb-4">{error}</p>
+      )}
+
+      {!fpo ? !isLoading && (
+        <p className="text-sm text-gray-500">Not a member of an FPO. Ask your FPO to add your number.</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="border-2 border-teal-200 rounded-lg p-4 space-y-3">
+            <h3 className="font-bold text-gray-900">Add produce to a pool</h3>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+              {LOT_FIELDS.map(({ key, label, placeholder }) => (
+                <label key={key} className="space-y-1">
+                  <span className="text-gray-600 font-semibold">{label}</span>
+                  <input
+                    value={lot[key]}
+                    onChange={(e) => setLot({ ...lot, [key]: e.target.value })}
+                    placeholder={placeholder}
+                    className="w-full border rounded-md px-2 py-1"
+                  />
+                </label>
+              ))}
+            </div>
+            <Button size="sm" disabled={isLoading || !lot.name.trim() || !lot.quantity.trim()} onClick={contribute}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add to pool
+            </Button>
+          </div>
+
+          {pools.length === 0 ? (
+            <p className="text-sm text-gray-500">No pooled produce yet.</p>
+          ) : (
+            pools.map((pool) => (
+              <div key={pool.catalogId} className="border-2 border-gray-200 rounded-lg p-4">
+                <div className="flex items-start justify-between gap-4 mb-3">
+                  <div>
+                    <h3 className="text-lg font-bold text-gray-900 capitalize">{pool.commodity}</h3>
+                    <p className="text-sm text-gray-600 font-mono">{pool.catalogId}</p>
+                  </div>
+                  <Badge className="bg-gray-600 text-white">{pool.status}</Badge>
+                </div>
+
+                <div className="grid grid-cols-3 gap-4 text-sm">
+                  <div>
+                    <p className="text-gray-600 font-semibold">Your produce</p>
+                    <p className="text-gray-900">{pool.quantity} {pool.unit}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-600 font-semibold">Whole pool</p>
+                    <p className="text-gray-900">{pool.totalQuantity} {pool.unit}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-600 font-semibold">Your share</p>
+                    <p className="text-gray-900">
+                      {pool.shareAmount === null ? "-" : `${pool.currency} ${pool.shareAmount.toLocaleString()}`}
+                    </p>
+                  </div>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,339 @@
+"use client";
+
+/**
+ * IssueTracker Component
+ *
+ * Support console for ONDC Issue & Grievance Management (IGM).
+ * Lists the issues on the logged-in farmer's orders with their escalation
+ * level, status and history, and lets the support team walk each one to closure:
+ * answering buyer complaints, or checking, escalating and closing the
+ * farmer's own grievances. New issues can be raised from either side.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { AlertTriangle, ArrowUpCircle, CheckCircle, Loader2, RefreshCw, Search } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { getIssuesAction, raiseIssueAction, issueStepAction } from "@/app/actions";
+import type { IssueResponse, IssueResult, IssueWithActions } from "@/lib/igm";
+import { ONDC_ISSUE_KINDS, type ONDCIssueKind, type ONDCResolutionAction } from "@/lib/ondc-protocol";
+import type { Order } from "@/lib/generated-client/client";
+
+const LEVEL_COLORS: Record<string, string> = {
+  ISSUE: "bg-yellow-500",
+  GRIEVANCE: "bg-orange-500",
+  DISPUTE: "bg-red-600"
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  OPEN: "bg-blue-500",
+  PROCESSING: "bg-purple-500",
+  RESOLVED: "bg-green-500",
+  CLOSED: "bg-gray-500"
+};
+
+const RESOLUTIONS: ONDCResolutionAction[] = ["REFUND", "REPLACEMENT", "CANCEL", "NO-ACTION"];
+
+/**
+ * Resolution form for a buyer's complaint
+ */
+function ResolutionForm({ order, disabled, onSubmit }: {
+  order: Order;
+  disabled: boolean;
+  onSubmit: (response: IssueResponse) => void;
+}) {
+  const [resolution, setResolution] = useState<ONDCResolutionAction>("REFUND");
+  const [note, setNote] = useState("");
+  const [refundAmount, setRefundAmount] = useState("");
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={resolution} onValueChange={(value) => setResolution(value as ONDCResolutionAction)}>
+        <SelectTrigger className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {RESOLUTIONS.map((action) => (
+            <SelectItem key={action} value={action}>{action}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {resolution === "REFUND" && (
+        <input
+          type="number"
+          min={0}
+          max={order.quantity * order.pricePerUnit}
+          value={refundAmount}
+          onChange={(e) => setRefundAmount(e.target.value)}
+          placeholder="Amount (INR)"
+          className="w-32 border rounded-md px-2 py-1 text-sm"
+        />
+      )}
+      <input
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Resolution note"
+        className="flex-1 min-w-40 border rounded-md px-2 py-1 text-sm"
+      />
+      <Button
+        size="sm"
+        disabled={disabled || !note.trim()}
+        onClick={() => onSubmit({
+          action: "RESOLVED",
+          resolution,
+          note,
+          refundAmount: resolution === "REFUND" ? Number(refundAmount) : undefined
+        })}
+      >
+        Propose resolution
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * One issue with its history and the steps open to the support team
+ */
+function IssueCard({ issue, busy, onStep }: {
+  issue: IssueWithActions;
+  busy: boolean;
+  onStep: (step: Parameters<typeof issueStepAction>[1]) => void;
+}) {
+  const raisedByFarmer = issue.complainant === "FARMER";
+  const closed = issue.status === "CLOSED";
+
+  return (
+    <div className="border-2 border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-gray-900">
+            {ONDC_ISSUE_KINDS[issue.kind].shortDesc}
+          </h3>
+          <p className="text-sm text-gray-600">
+            Raised by {raisedByFarmer ? "the farmer" : issue.order.buyerName} on order{" "}
+            <span className="font-mono">{issue.orderId}</span>
+          </p>
+          <p className="text-sm text-gray-900 mt-1">{issue.description}</p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <Badge className={`${LEVEL_COLORS[issue.level]} text-white`}>{issue.level}</Badge>
+          <Badge className={`${STATUS_COLORS[issue.status]} text-white`}>{issue.status}</Badge>
+        </div>
+      </div>
+
+      {issue.resolution && (
+        <p className="text-sm text-green-800 bg-green-50 rounded-md px-3 py-2">
+          Resolution: {issue.resolution}
+          {issue.refundAmount ? ` of ${issue.refundAmount.toLocaleString("en-IN")} INR` : ""}
+          {issue.resolutionNote ? ` - ${issue.resolutionNote}` : ""}
+        </p>
+      )}
+
+      <ol className="border-l-2 border-gray-200 pl-4 space-y-1 text-sm">
+        {issue.actions.map((action) => (
+          <li key={action.id} className="text-gray-700">
+            <span className="font-semibold">{action.action}</span>
+            {" by "}{action.party === "FARMER" ? "farmer" : "buyer"}
+            {" at "}{action.level.toLowerCase()} level
+            {action.shortDesc ? `: ${action.shortDesc}` : ""}
+            <span className="text-gray-400">
+              {" "}({new Date(action.createdAt).toLocaleString()}, {action.source})
+            </span>
+          </li>
+        ))}
+      </ol>
+
+      {!closed && (raisedByFarmer ? (
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" variant="outline" className="gap-2" disabled={busy} onClick={() => onStep({ type: "status" })}>
+            <Search className="h-4 w-4" />
+            Check status
+          </Button>
+          {issue.level !== "DISPUTE" && (
+            <Button size="sm" variant="outline" className="gap-2" disabled={busy} onClick={() => onStep({ type: "escalate" })}>
+              <ArrowUpCircle className="h-4 w-4" />
+              Escalate
+            </Button>
+          )}
+          <Button size="sm" className="gap-2" disabled={busy} onClick={() => onStep({ type: "close" })}>
+            <CheckCircle className="h-4 w-4" />
+            Close
+          </Button>
+        </div>
+      ) : issue.status !== "RESOLVED" && (
+        <div className="space-y-2">
+          {issue.status === "OPEN" && (
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={busy}
+              onClick={() => onStep({ type: "respond", response: { action: "PROCESSING" } })}
+            >
+              Start processing
+            </Button>
+          )}
+          <ResolutionForm
+            order={issue.order}
+            disabled={busy}
+            onSubmit={(response) => onStep({ type: "respond", response })}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * IssueTracker Component
+ */
+export function IssueTracker() {
+  const [issues, setIssues] = useState<IssueWithActions[]>([]);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [orderId, setOrderId] = useState("");
+  const [kind, setKind] = useState<ONDCIssueKind>("QUALITY");
+  const [description, setDescription] = useState("");
+
+  const fetchIssues = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const result = await getIssuesAction();
+
+      if (result.success) {
+        setIssues(result.issues || []);
+        setOrders(result.orders || []);
+      } else {
+        setError(result.error || "Failed to fetch issues");
+      }
+    } catch (err) {
+      console.error("Failed to fetch issues:", err);
+      setError("Failed to fetch issues");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchIssues();
+  }, [fetchIssues]);
+
+  /**
+   * Run an issue action, then refresh the list
+   */
+  const run = async (id: string, action: () => Promise<IssueResult>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      const result = await action();
+      if (!result.success) {
+        setError(result.error || "Issue update failed");
+      }
+      await fetchIssues();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const raisedByFarmer = ONDC_ISSUE_KINDS[kind].raisedBy === "SELLER";
+
+  return (
+    <Card className="p-6 bg-white">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <AlertTriangle className="w-6 h-6 text-orange-600" />
+          <h2 className="text-xl font-bold text-gray-900">Issues & Grievances</h2>
+        </div>
+        <Button variant="outline" size="sm" className="gap-2" onClick={fetchIssues} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Raise an issue */}
+      <div className="flex flex-wrap items-center gap-2 mb-6 p-4 bg-gray-50 rounded-lg">
+        <Select value={orderId} onValueChange={setOrderId}>
+          <SelectTrigger className="w-64">
+            <SelectValue placeholder={orders.length ? "Select order" : "No confirmed orders"} />
+          </SelectTrigger>
+          <SelectContent>
+            {orders.map((order) => (
+              <SelectItem key={order.id} value={order.id}>
+                {order.buyerName} - {order.quantity} {order.unit}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={kind} onValueChange={(value) => setKind(value as ONDCIssueKind)}>
+          <SelectTrigger className="w-72">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(ONDC_ISSUE_KINDS) as ONDCIssueKind[]).map((key) => (
+              <SelectItem key={key} value={key}>
+                {ONDC_ISSUE_KINDS[key].raisedBy === "SELLER" ? "Farmer" : "Buyer"}: {ONDC_ISSUE_KINDS[key].shortDesc}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {raisedByFarmer && (
+          <input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Details (optional)"
+            className="flex-1 min-w-40 border rounded-md px-2 py-1 text-sm"
+          />
+        )}
+        <Button
+          size="sm"
+          disabled={!orderId || busyId !== null}
+          onClick={() => run("new", async () => {
+            const result = await raiseIssueAction(orderId, kind, description);
+            if (result.success) {
+              setDescription("");
+            }
+            return result;
+          })}
+        >
+          {busyId === "new" && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+          {raisedByFarmer ? "Raise issue" : "Simulate buyer complaint"}
+        </Button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-700 bg-red-50 rounded-md px-3 py-2 mb-4">{error}</p>
+      )}
+
+      {isLoading && issues.length === 0 ? (
+        <div className="flex items-center justify-center py-8 text-gray-500 gap-2">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          Loading issues...
+        </div>
+      ) : issues.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <p>No issues raised</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {issues.map((issue) => (
+            <IssueCard
+              key={issue.id}
+              issue={issue}
+              busy={busyId !== null}
+              onStep={(step) => run(issue.id, () => issueStepAction(issue.id, step))}
+            />
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,156 @@
+"use client";
+
+/**
+ * KycReview Component
+ *
+ * Admin console for checking farmers' payout details. Lists the farmers
+ * whose KYC is pending and lets an admin verify or reject their UPI ID or
+ * bank account.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { Loader2, RefreshCw, ShieldCheck, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { getPendingKycAction, setFarmerKycStatusAction } from "@/app/actions";
+import type { FarmerProfile } from "@/lib/farmer-profile";
+
+/**
+ * One farmer's payout details with the check's outcome buttons
+ */
+function KycRow({ profile, busy, onDecide }: {
+  profile: FarmerProfile;
+  busy: boolean;
+  onDecide: (status: "VERIFIED" | "REJECTED") => void;
+}) {
+  return (
+    <div className="border-2 border-gray-200 rounded-lg p-4">
+      <div className="flex items-start justify-between gap-4 mb-3">
+        <div>
+          <h3 className="text-lg font-bold text-gray-900">{profile.name}</h3>
+          <p className="text-sm text-gray-600 font-mono">{profile.phone || profile.id}</p>
+        </div>
+        <p className="text-xs text-gray-500">Changed {new Date(profile.updatedAt).toLocaleString()}</p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-3">
+        <div>
+          <p className="text-gray-600 font-semibold">UPI ID</p>
+          <p className="text-gray-900 font-mono">{profile.upiId || "-"}</p>
+        </div>
+        <div>
+          <p className="text-gray-600 font-semibold">Account holder</p>
+          <p className="text-gray-900">{profile.bankAccountName || "-"}</p>
+        </div>
+        <div>
+          <p className="text-gray-600 font-semibold">Account</p>
+          <p className="text-gray-900 font-mono">{profile.bankAccountMasked || "-"}</p>
+        </div>
+        <div>
+          <p className="text-gray-600 font-semibold">IFSC</p>
+          <p className="text-gray-900 font-mono">{profile.bankIfsc || "-"}</p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" className="gap-1" disabled={busy} onClick={() => onDecide("VERIFIED")}>
+          <ShieldCheck className="h-4 w-4" />
+          Verify payout
+        </Button>
+        <Button size="sm" variant="outline" className="gap-1" disabled={busy} onClick={() => onDecide("REJECTED")}>
+          <XCircle className="h-4 w-4" />
+          Reject
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * KycReview Component
+ */
+export function KycReview() {
+  const [profiles, setProfiles] = useState<FarmerProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPending = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const result = await getPendingKycAction();
+
+      if (result.success) {
+        setProfiles(result.profiles || []);
+        setError(null);
+      } else {
+        setError(result.error || "Failed to fetch pending KYC");
+      }
+    } catch (err) {
+      console.error("Failed to fetch pending KYC:", err);
+      setError("Failed to fetch pending KYC");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPending();
+  }, [fetchPending]);
+
+  /**
+   * Record the outcome of a check and refresh the list
+   */
+  const decide = async (farmerId: string, status: "VERIFIED" | "REJECTED") => {
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await setFarmerKycStatusAction(farmerId, status);
+      if (!result.success) {
+        setError(result.error || "Could not record the check");
+        return;
+      }
+      await fetchPending();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 bg-white">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <ShieldCheck className="w-6 h-6 text-blue-600" />
+          <h2 className="text-xl font-bold text-gray-900">Pending KYC</h2>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchPending} disabled={isLoading} className="gap-2">
+          <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-700 bg-red-50 rounded-md px-3 py-2 mb-4">{error}</p>
+      )}
+
+      <div className="space-y-4">
+        {isLoading && profiles.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+          </div>
+        ) : profiles.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>No payout details waiting to be checked</p>
+          </div>
+        ) : profiles.map((profile) => (
+          <KycRow
+            key={profile.id}
+            profile={profile}
+            busy={busy}
+            onDecide={(status) => decide(profile.id, status)}
+          />
+        ))}
+      </div>
+    </Card>
+  );
+}
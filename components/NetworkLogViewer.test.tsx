@@ -25,6 +25,8 @@ describe("NetworkLogViewer Component", () => {
         farmerId: "farmer1",
         becknJson: { descriptor: { name: "Onions" } },
       },
+      transactionId: null,
+      catalogId: "cat1",
       timestamp: new Date("2024-01-15T10:00:00Z"),
     },
     {
@@ -35,6 +37,8 @@ describe("NetworkLogViewer Component", () => {
         bidAmount: 42,
         catalogId: "cat1",
       },
+      transactionId: null,
+      catalogId: "cat1",
       timestamp: new Date("2024-01-15T10:00:08Z"),
     },
   ];
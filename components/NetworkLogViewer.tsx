@@ -56,6 +56,17 @@ function JsonDisplay({ data }: { data: Prisma.InputJsonValue | unknown }) {
   );
 }
 
+/**
+ * Extract the ONDC action from a logged envelope, if any
+ */
+function getOndcAction(payload: Prisma.JsonValue): string | null {
+  if (payload && typeof payload === "object" && !Array.isArray(payload)) {
+    const context = (payload as Record<string, unknown>).context as { action?: string } | undefined;
+    return context?.action || null;
+  }
+  return null;
+}
+
 /**
  * Log Entry Component
  */
@@ -64,7 +75,8 @@ function LogEntry({ log, isExpanded, onToggle }: {
   isExpanded: boolean;
   onToggle: () => void;
 }) {
-  const isOutgoing = log.type === "OUTGOING_CATALOG";
+  const isOutgoing = log.type === "OUTGOING_CATALOG" || log.type === "ONDC_REQUEST" || log.type === "BID_RESPONSE";
+  const ondcAction = getOndcAction(log.payload);
   const timestamp = new Date(log.timestamp).toLocaleString();
 
   return (
@@ -100,9 +112,17 @@ function LogEntry({ log, isExpanded, onToggle }: {
                 } text-white`}>
                 {log.type}
               </Badge>
+              {ondcAction && (
+                <Badge variant="outline" className="font-mono">
+                  {ondcAction}
+                </Badge>
+              )}
               <span className="text-sm text-gray-600">{timestamp}</span>
             </div>
             <p className="text-xs text-gray-500 mt-1">ID: {log.id}</p>
+            {log.transactionId && (
+              <p className="text-xs text-gray-500 font-mono">Txn: {log.transactionId}</p>
+            )}
           </div>
         </div>
 
@@ -244,6 +264,9 @@ export function NetworkLogViewer({
                 <SelectItem value="ALL">All Events</SelectItem>
                 <SelectItem value="OUTGOING_CATALOG">Outgoing Catalogs</SelectItem>
                 <SelectItem value="INCOMING_BID">Incoming Bids</SelectItem>
+                <SelectItem value="ONDC_REQUEST">ONDC Requests</SelectItem>
+                <SelectItem value="ONDC_CALLBACK">ONDC Callbacks</SelectItem>
+                <SelectItem value="BID_RESPONSE">Bid Responses</SelectItem>
               </SelectContent>
             </Select>
           </div>
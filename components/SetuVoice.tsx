@@ -18,6 +18,9 @@ import {
   startConversationAction,
   processVoiceAction,
   broadcastFromVoiceAction,
+  getVoiceBroadcastStatusAction,
+  startBidReviewAction,
+  trackOrderAction,
 } from "@/app/voice-actions";
 import {
   type ConversationState,
@@ -25,6 +28,7 @@ import {
   type VoiceResponse,
   SUPPORTED_LANGUAGES
 } from "@/lib/voice-conversation-agent";
+import { CatalogRuleIssues } from "@/components/CatalogRuleIssues";
 
 // ============================================================================
 // Web Speech API Type Declarations
@@ -90,6 +94,21 @@ type AppStage =
   | "success"           // Broadcast success
   | "error";            // Error state
 
+/** How often to check for bids after broadcasting */
+const BID_POLL_INTERVAL_MS = 2000;
+
+/** Give up waiting for a bid after this long (or once the auction closes, if later) */
+const BID_WAIT_TIMEOUT_MS = 90000;
+
+/** A buyer's offer as shown in the ranked list */
+interface OfferSummary {
+  bidId: string;
+  buyerName: string;
+  bidAmount: number;
+  buyerRating: number;
+  paymentTerms?: string;
+  deliveryDays?: number;
+}
 
 // ============================================================================
 // Component
@@ -108,9 +127,17 @@ export function SetuVoice() {
   // Broadcast result for summary screen
   const [broadcastResult, setBroadcastResult] = useState<{
     catalogId: string;
+    transactionId?: string;
     catalogItem: any;
     buyerName: string;
     bidAmount: number;
+    /** Every bid from the auction, best first */
+    offers: OfferSummary[];
+    /** Set once the farmer accepts a bid */
+    orderId?: string;
+    soldTo?: string;
+    /** Latest "where is my order" answer */
+    trackingMessage?: string;
     timestamp: string;
   } | null>(null);
 
@@ -156,6 +183,14 @@ export function SetuVoice() {
       catalogItem: scenario.catalogItem,
       buyerName: scenario.buyerName,
       bidAmount: scenario.bidAmount,
+      offers: [{
+        bidId: `test_bid_${scenarioIndex}`,
+        buyerName: scenario.buyerName,
+        bidAmount: scenario.bidAmount,
+        buyerRating: 4.5,
+        paymentTerms: "Payment on Delivery",
+        deliveryDays: 3
+      }],
       timestamp: new Date().toISOString()
     });
 
@@ -167,6 +202,7 @@ export function SetuVoice() {
   const synthRef = useRef<SpeechSynthesis | null>(null);
   const autoListenTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const conversationStateRef = useRef<ConversationState | null>(null);
+  const broadcastResultRef = useRef<typeof broadcastResult>(null);
   const selectedLanguageRef = useRef<LanguageConfig | null>(null);
   const retryCountRef = useRef(0);
 
@@ -179,6 +215,10 @@ export function SetuVoice() {
     selectedLanguageRef.current = selectedLanguage;
   }, [selectedLanguage]);
 
+  useEffect(() => {
+    broadcastResultRef.current = broadcastResult;
+  }, [broadcastResult]);
+
   // UI Strings for all languages
   const ui = {
     broadcast_msg: {
@@ -214,6 +254,13 @@ export function SetuVoice() {
     quality: { hi: "गुणवत्ता", mr: "दर्जा", en: "Quality", ta: "தரம்", te: "నాణ్యత", kn: "ગુણવત્તા", bn: "ગુણવત્તા", gu: "ગુણવત્તા", pa: "ਗੁਣਵੱਤਾ", or: "ଗୁଣବତ୍ତା", as: "গুণমান", ml: "ഗുണനിലവാരം" },
     your_price: { hi: "आपका मूल्य", mr: "तुमचा भाव", en: "Your Price", ta: "உங்கள் விலை", te: "మీ ధర", kn: "ನಿಮ್ಮ ಬೆಲೆ", bn: "আপনার দাম", gu: "તમારી કિંમત", pa: "ਤੁਹਾਡੀ ਕੀਮਤ", or: "ଆପଣଙ୍କ ମୂଲ୍ୟ", as: "আপোনাৰ দাম", ml: "നിങ്ങളുടെ വില" },
     buyer_offer: { hi: "खरीदार का प्रस्ताव", mr: "खरेदीदाराची ऑफर", en: "Buyer's Offer", ta: "வாங்குபவரின் சலுகை", te: "కొనుగోలుదారు ఆఫర్", kn: "ಖರೀದಿದಾರರ ಆಫರ್", bn: "ক্রেতার অফার", gu: "ખરીદનારની ઓફર", pa: "ਖਰੀਦਦਾਰ ਦੀ ਪੇਸ਼ਕਸ਼", or: "କ୍ରେତାଙ୍କ ଅଫର୍", as: "ক্ৰেতাৰ অফাৰ", ml: "വാങ്ങുന്നയാളുടെ ഓഫർ" },
+    all_offers: { hi: "सभी प्रस्ताव", mr: "सर्व ऑफर", en: "All Offers", ta: "அனைத்து சலுகைகள்", te: "అన్ని ఆఫర్లు", kn: "ಎಲ್ಲಾ ಆಫರ್‌ಗಳು", bn: "সব অফার", gu: "બધી ઓફર", pa: "ਸਾਰੀਆਂ ਪੇਸ਼ਕਸ਼ਾਂ", or: "ସମସ୍ତ ଅଫର୍", as: "সকলো অফাৰ", ml: "എല്ലാ ഓഫറുകളും" },
+    best_offer: { hi: "सबसे अच्छा", mr: "सर्वोत्तम", en: "Best", ta: "சிறந்தது", te: "ఉత్తమం", kn: "ಉತ್ತಮ", bn: "সেরা", gu: "શ્રેષ્ઠ", pa: "ਸਭ ਤੋਂ ਵਧੀਆ", or: "ସର୍ବୋତ୍ତମ", as: "শ্ৰেষ্ঠ", ml: "മികച്ചത്" },
+    delivery_days: { hi: "दिन में डिलीवरी", mr: "दिवसांत डिलिव्हरी", en: "day delivery", ta: "நாளில் டெலிவரி", te: "రోజుల్లో డెలివరీ", kn: "ದಿನಗಳಲ್ಲಿ ವಿತರಣೆ", bn: "দিনে ডেলিভারি", gu: "દિવસમાં ડિલિવરી", pa: "ਦਿਨਾਂ ਵਿੱਚ ਡਿਲੀਵਰੀ", or: "ଦିନରେ ଡେଲିଭରି", as: "দিনত ডেলিভাৰী", ml: "ദിവസത്തിൽ ഡെലിവറി" },
+    respond_by_voice: { hi: "बोलकर जवाब दें", mr: "बोलून उत्तर द्या", en: "Respond by Voice", ta: "குரலில் பதில் சொல்லுங்கள்", te: "వాయిస్‌తో సమాధానం ఇవ్వండి", kn: "ಧ್ವನಿಯಲ್ಲಿ ಉತ್ತರಿಸಿ", bn: "কথা বলে উত্তর দিন", gu: "બોલીને જવાબ આપો", pa: "ਬੋਲ ਕੇ ਜਵਾਬ ਦਿਓ", or: "କହି ଉତ୍ତର ଦିଅନ୍ତୁ", as: "কৈ উত্তৰ দিয়ক", ml: "ശബ്ദത്തിൽ മറുപടി നൽകുക" },
+    sold_to: { hi: "बिक गया", mr: "विकले गेले", en: "Sold to", ta: "விற்கப்பட்டது", te: "అమ్ముడైంది", kn: "ಮಾರಾಟವಾಗಿದೆ", bn: "বিক্রি হয়েছে", gu: "વેચાયું", pa: "ਵਿਕ ਗਿਆ", or: "ବିକ୍ରି ହୋଇଗଲା", as: "বিক্ৰী হ'ল", ml: "വിറ്റു" },
+    where_is_my_order: { hi: "मेरा ऑर्डर कहां है?", mr: "माझी ऑर्डर कुठे आहे?", en: "Where is my order?", ta: "என் ஆர்டர் எங்கே?", te: "నా ఆర్డర్ ఎక్కడ ఉంది?", kn: "ನನ್ನ ಆರ್ಡರ್ ಎಲ್ಲಿದೆ?", bn: "আমার অর্ডার কোথায়?", gu: "મારો ઓર્ડર ક્યાં છે?", pa: "ਮੇਰਾ ਆਰਡਰ ਕਿੱਥੇ ਹੈ?", or: "ମୋ ଅର୍ଡର କେଉଁଠି ଅଛି?", as: "মোৰ অৰ্ডাৰ ক'ত আছে?", ml: "എന്റെ ഓർഡർ എവിടെ?" },
+    order_id: { hi: "ऑर्डर नंबर", mr: "ऑर्डर क्रमांक", en: "Order ID", ta: "ஆர்டர் எண்", te: "ఆర్డర్ నంబర్", kn: "ಆರ್ಡರ್ ಸಂಖ್ಯೆ", bn: "অর্ডার নম্বর", gu: "ઓર્ડર નંબર", pa: "ਆਰਡਰ ਨੰਬਰ", or: "ଅର୍ଡର ନମ୍ବର", as: "অৰ্ডাৰ নম্বৰ", ml: "ഓർഡർ നമ്പർ" },
     sell_another: { hi: "नई फसल बेचें", mr: "दुसरे पीक विका", en: "Sell Another Crop", ta: "மற்றொரு பயிரை விற்கவும்", te: "మరొక పంటను అమ్మండి", kn: "ಮತ್ತೊಂದು ಬೆಳೆ ಮಾರಾಟ ಮಾಡಿ", bn: "অন্য ফসল বিক্রি করুন", gu: "બીજો પાક વેચો", pa: "ਇੱਕ ਹੋਰ ਫਸਲ ਵੇਚੋ", or: "ଅନ୍ୟ ଫସଲ ବିକ୍ରି କରନ୍ତୁ", as: "অন্য শস্য বিক্ৰী কৰক", ml: "മറ്റൊരു വിള വിൽക്കുക" },
   };
 
@@ -354,22 +401,57 @@ export function SetuVoice() {
     try {
       const result = await broadcastFromVoiceAction(catalogItem, currentLanguage);
 
-      if (!result.success) {
+      if (!result.success || !result.catalogId || !result.transactionId) {
         throw new Error(result.error || "Broadcast failed");
       }
 
+      // Bids arrive asynchronously - poll until the auction window closes
+      let deadline = Date.now() + BID_WAIT_TIMEOUT_MS;
+      let status = await getVoiceBroadcastStatusAction(result.catalogId, result.transactionId, currentLanguage);
+      while (status.success && status.status !== "FAILED" && status.auctionOpen !== false && Date.now() < deadline) {
+        if (status.auctionClosesAt) {
+          deadline = Math.max(deadline, new Date(status.auctionClosesAt).getTime() + BID_POLL_INTERVAL_MS * 2);
+        }
+        await new Promise(resolve => setTimeout(resolve, BID_POLL_INTERVAL_MS));
+        status = await getVoiceBroadcastStatusAction(result.catalogId, result.transactionId, currentLanguage);
+      }
+
+      if (!status.success || status.status !== "BID_RECEIVED" || !status.bid) {
+        throw new Error(status.error || "No buyer responded in time");
+      }
+
       // Store broadcast result for summary screen
       setBroadcastResult({
-        catalogId: result.catalogId || '',
+        catalogId: result.catalogId,
+        transactionId: result.transactionId,
         catalogItem: catalogItem,
-        buyerName: result.bid?.buyerName || 'Buyer',
-        bidAmount: result.bid?.bidAmount || 0,
+        buyerName: status.bid.buyerName,
+        bidAmount: status.bid.bidAmount,
+        offers: (status.bids || [status.bid]).map(bid => ({
+          bidId: bid.bidId,
+          buyerName: bid.buyerName,
+          bidAmount: bid.bidAmount,
+          buyerRating: bid.buyerRating,
+          paymentTerms: bid.paymentTerms,
+          deliveryDays: bid.deliveryDays
+        })),
         timestamp: new Date().toISOString()
       });
 
       // Speak success message
-      if (result.successMessage) {
-        await speak(result.successMessage, currentLanguage.speechCode);
+      if (status.successMessage) {
+        await speak(status.successMessage, currentLanguage.speechCode);
+      }
+
+      // Offer to answer the best bid by voice (accept, reject or counter)
+      const currentState = conversationStateRef.current;
+      if (currentState) {
+        const review = await startBidReviewAction(currentState, result.catalogId, result.transactionId);
+        if (review.success && review.response && review.newState) {
+          setLastResponse(review.response);
+          setConversationState(review.newState);
+          await speak(review.response.text, currentLanguage.speechCode);
+        }
       }
 
       setStage("success");
@@ -383,6 +465,51 @@ export function SetuVoice() {
   }, [speak]);
 
 
+  // ============================================================================
+  // Bid Response Handler
+  // ============================================================================
+
+  /** Re-read the offers after the farmer answered a bid */
+  const refreshOffers = useCallback(async (response: VoiceResponse) => {
+    const currentLanguage = selectedLanguageRef.current;
+    const current = broadcastResultRef.current;
+    if (!current || !currentLanguage) return;
+
+    const status = current.transactionId
+      ? await getVoiceBroadcastStatusAction(current.catalogId, current.transactionId, currentLanguage)
+      : null;
+
+    setBroadcastResult({
+      ...current,
+      offers: status?.bids
+        ? status.bids.map(bid => ({
+          bidId: bid.bidId,
+          buyerName: bid.buyerName,
+          bidAmount: bid.bidAmount,
+          buyerRating: bid.buyerRating,
+          paymentTerms: bid.paymentTerms,
+          deliveryDays: bid.deliveryDays
+        }))
+        : current.offers,
+      orderId: response.orderId || current.orderId,
+      soldTo: response.bidOutcome === "SOLD" ? response.reviewedBid?.buyerName : current.soldTo
+    });
+  }, []);
+
+  /** Say where the sold order is */
+  const checkOrderStatus = useCallback(async () => {
+    const currentState = conversationStateRef.current;
+    const currentLanguage = selectedLanguageRef.current;
+    const current = broadcastResultRef.current;
+    if (!currentState || !currentLanguage || !current?.orderId) return;
+
+    const result = await trackOrderAction(currentState, current.orderId);
+    if (!result.success || !result.response) return;
+
+    setBroadcastResult({ ...current, trackingMessage: result.response.text });
+    await speak(result.response.text, currentLanguage.speechCode);
+  }, [speak]);
+
   // ============================================================================
   // Voice Input Handler
   // ============================================================================
@@ -518,7 +645,25 @@ export function SetuVoice() {
           processTranscript(transcript).then((response) => {
             if (response) {
               // Handle next stage
-              if (response.stage === "broadcasting" && response.catalogItem) {
+              if (response.bidOutcome) {
+                // Answered a bid - show the updated offers, keep listening while bids remain
+                refreshOffers(response).then(() => {
+                  if (response.expectsResponse) {
+                    autoListenTimeoutRef.current = setTimeout(() => {
+                      startListening();
+                    }, 800);
+                  } else {
+                    // A review started by voice has no listing on screen to show
+                    setStage(broadcastResultRef.current ? "success" : "idle");
+                  }
+                });
+              } else if (response.cancelledCatalogId) {
+                // The listing on screen is gone once it is cancelled
+                if (broadcastResultRef.current?.catalogId === response.cancelledCatalogId) {
+                  setBroadcastResult(null);
+                }
+                setStage("idle");
+              } else if (response.stage === "broadcasting" && response.catalogItem) {
                 handleBroadcast(response.catalogItem);
               } else if (response.expectsResponse) {
                 // Auto-listen after a short delay
@@ -612,7 +757,7 @@ export function SetuVoice() {
       setError("Could not start voice recognition. Please try again.");
       setStage("error");
     }
-  }, [selectedLanguage, processTranscript, handleBroadcast]);
+  }, [selectedLanguage, processTranscript, handleBroadcast, refreshOffers]);
 
   // Legacy handler for compatibility
   const handleVoiceInput = processTranscript;
@@ -639,11 +784,22 @@ export function SetuVoice() {
         throw new Error(result.error || "Failed to start conversation");
       }
 
-      // Initialize conversation state
+      // Initialize conversation state; an expired listing or an unfinished one
+      // from an earlier session is asked about first
       const initialState: ConversationState = {
-        stage: "asking_commodity", // Start directly at asking commodity
+        stage: result.relist
+          ? "confirming_relist"
+          : result.resume
+            ? "confirming_resume"
+            : "asking_commodity", // Otherwise start directly at asking commodity
         language,
-        collectedData: {}
+        // Every turn is saved server-side under this ID
+        sessionId: result.sessionId,
+        // Mandi prices are looked up for the farmer's usual place
+        collectedData: { location: result.profile?.location },
+        relist: result.relist,
+        resume: result.resume,
+        profile: result.profile
       };
 
       // Set state AND refs immediately
@@ -655,14 +811,21 @@ export function SetuVoice() {
       // Speak greeting
       await speak(result.greeting, language.speechCode);
 
-      // Ask first question
-      const firstQuestion = language.code === "hi"
-        ? "आप कौन सी फसल बेचना चाहते हैं?"
-        : language.code === "mr"
-          ? "तुम्हाला कोणते पीक विकायचे आहे?"
-          : "What crop do you want to sell?";
+      // Shares of sold FPO pools, in the farmer's own language
+      if (result.poolShares) {
+        await speak(result.poolShares.text, result.poolShares.language.speechCode);
+      }
 
-      await speak(firstQuestion, language.speechCode);
+      // Ask first question (the greeting already asked about the expired or unfinished listing)
+      if (!result.relist && !result.resume) {
+        const firstQuestion = result.firstQuestion ?? (language.code === "hi"
+          ? "आप कौन सी फसल बेचना चाहते हैं?"
+          : language.code === "mr"
+            ? "तुम्हाला कोणते पीक विकायचे आहे?"
+            : "What crop do you want to sell?");
+
+        await speak(firstQuestion, language.speechCode);
+      }
 
       // Small delay to ensure state is set before listening starts
       await new Promise(resolve => setTimeout(resolve, 100));
@@ -896,6 +1059,9 @@ export function SetuVoice() {
               </div>
             </div>
             <p className="listening-text" role="status" aria-live="polite">{currentMessage}</p>
+            {conversationState?.stage === "confirming_listing" && (
+              <CatalogRuleIssues report={lastResponse?.ruleReport} className="mt-4 max-w-md" />
+            )}
             <span className="sr-only">Microphone is active. Speak now to enter your crop details.</span>
           </motion.div>
         )}
@@ -942,6 +1108,9 @@ export function SetuVoice() {
               </div>
             </div>
             <p className="speaking-text" role="alert" aria-live="assertive">{currentMessage}</p>
+            {conversationState?.stage === "confirming_listing" && (
+              <CatalogRuleIssues report={lastResponse?.ruleReport} className="mt-4 max-w-md" />
+            )}
             <span className="sr-only">System is speaking. Listen to the response.</span>
           </motion.div>
         )}
@@ -990,7 +1159,7 @@ export function SetuVoice() {
                 {getText("success_title")}
               </h2>
               <p id="success-description" className="sr-only">
-                Your crop has been successfully listed on the ONDC network. A buyer has made an offer.
+                Your crop has been successfully listed on the ONDC network. Buyers have made offers.
               </p>
             </div>
 
@@ -1025,20 +1194,44 @@ export function SetuVoice() {
                 </dl>
               </section>
 
-              {/* Buyer Response Section */}
-              <div className="buyer-section">
-                <h3 className="section-title">🏪 {getText("buyer_offer")}</h3>
-                <div className="buyer-card">
-                  <div className="buyer-info">
-                    <span className="buyer-name">{broadcastResult.buyerName}</span>
-                    <span className="buyer-type">Verified ONDC Buyer</span>
-                  </div>
-                  <div className="buyer-bid-amount">
-                    <span className="currency">₹</span>
-                    <span className="amount">{broadcastResult.bidAmount}</span>
-                    <span className="unit">/kg</span>
-                  </div>
+              {/* Sale confirmation once a bid is accepted */}
+              {broadcastResult.orderId && (
+                <div className="sold-banner" role="status">
+                  <span>✅ {getText("sold_to")} {broadcastResult.soldTo}</span>
+                  <span className="sold-order-id">{getText("order_id")}: <code>{broadcastResult.orderId}</code></span>
+                  {broadcastResult.trackingMessage && (
+                    <span className="sold-tracking">📦 {broadcastResult.trackingMessage}</span>
+                  )}
                 </div>
+              )}
+
+              {/* Buyer Response Section - offers ranked best first */}
+              <div className="buyer-section">
+                <h3 className="section-title">🏪 {broadcastResult.offers.length > 1 ? getText("all_offers") : getText("buyer_offer")}</h3>
+                <ol className="offer-list" aria-label={getText("all_offers")}>
+                  {broadcastResult.offers.map((offer, index) => (
+                    <li key={offer.bidId} className={`buyer-card${index === 0 ? "" : " secondary"}`}>
+                      <div className="buyer-info">
+                        <span className="buyer-name">
+                          {index === 0 && broadcastResult.offers.length > 1 && (
+                            <span className="best-offer-badge">{getText("best_offer")}</span>
+                          )}
+                          {offer.buyerName}
+                        </span>
+                        <span className="buyer-type">
+                          ⭐ {offer.buyerRating}
+                          {offer.paymentTerms && ` · ${offer.paymentTerms}`}
+                          {offer.deliveryDays !== undefined && ` · ${offer.deliveryDays} ${getText("delivery_days")}`}
+                        </span>
+                      </div>
+                      <div className="buyer-bid-amount">
+                        <span className="currency">₹</span>
+                        <span className="amount">{offer.bidAmount}</span>
+                        <span className="unit">/kg</span>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
               </div>
 
               {/* Protocol Details Section - Always Visible */}
@@ -1063,7 +1256,7 @@ export function SetuVoice() {
                   </div>
                   <div className="protocol-item">
                     <span className="protocol-label">Action</span>
-                    <code className="protocol-value">on_search → on_select → on_init</code>
+                    <code className="protocol-value">search → on_search ×{broadcastResult.offers.length}</code>
                   </div>
                   <div className="protocol-item">
                     <span className="protocol-label">Status</span>
@@ -1131,6 +1324,30 @@ export function SetuVoice() {
               </div>
             </article>
 
+            {/* Answer the bid under review by voice */}
+            {conversationState?.stage === "reviewing_bids" && !broadcastResult.orderId && (
+              <button
+                onClick={() => startListening()}
+                className="success-button respond-button"
+                type="button"
+                aria-label="Respond to the buyer's offer by voice"
+              >
+                🎤 {getText("respond_by_voice")}
+              </button>
+            )}
+
+            {/* Hear where the sold order is */}
+            {broadcastResult.orderId && (
+              <button
+                onClick={() => checkOrderStatus()}
+                className="success-button respond-button"
+                type="button"
+                aria-label="Hear where your order is"
+              >
+                📦 {getText("where_is_my_order")}
+              </button>
+            )}
+
             {/* Action Button */}
             <button
               onClick={() => {
@@ -1994,11 +2211,57 @@ export function SetuVoice() {
           border-radius: 8px;
         }
 
+        .offer-list {
+          display: flex;
+          flex-direction: column;
+          gap: 0.5rem;
+          margin: 0;
+          padding: 0;
+          list-style: none;
+        }
+
+        .buyer-card.secondary {
+          background: #FFFFFF;
+          border: 1px solid #D1D5DB;
+        }
+
+        .best-offer-badge {
+          margin-right: 0.5rem;
+          padding: 0.1rem 0.5rem;
+          background: #138808;
+          color: #FFFFFF;
+          font-size: 0.7rem;
+          border-radius: 999px;
+          vertical-align: middle;
+        }
+
         .buyer-info {
           display: flex;
           flex-direction: column;
         }
 
+        .sold-banner {
+          display: flex;
+          flex-direction: column;
+          gap: 0.25rem;
+          margin-bottom: 1rem;
+          padding: 1rem 1.25rem;
+          background: #138808;
+          color: #FFFFFF;
+          font-weight: 600;
+          border-radius: 6px;
+        }
+
+        .sold-order-id {
+          font-size: 0.85rem;
+          font-weight: 400;
+        }
+
+        .sold-tracking {
+          margin-top: 0.25rem;
+          font-weight: 400;
+        }
+
         .buyer-name {
           color: #1F2937;
           font-size: 1.1rem;
@@ -2152,6 +2415,17 @@ export function SetuVoice() {
         .success-button:active {
           transform: scale(0.98);
         }
+
+        .respond-button {
+          margin-right: 1rem;
+          background: #138808;
+          box-shadow: 0 2px 8px rgba(19, 136, 8, 0.3);
+        }
+
+        .respond-button:hover {
+          background: #0F6B06;
+          box-shadow: 0 4px 16px rgba(19, 136, 8, 0.4);
+        }
         
         /* ============== ERROR (Official Style) ============== */
         .error-container {
@@ -8,7 +8,9 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import type { BecknCatalogItem } from "@/lib/beckn-schema";
+import type { CatalogRuleReport } from "@/lib/catalog-rules";
 import { getCommodityIconFromProduct, getLogisticsLogo } from "@/lib/icon-mapper";
+import { CatalogRuleIssues } from "@/components/CatalogRuleIssues";
 import { cn } from "@/lib/utils";
 
 export interface VisualVerifierProps {
@@ -16,9 +18,11 @@ export interface VisualVerifierProps {
   onBroadcast: () => Promise<void>;
   onRetry: () => void;
   isBroadcasting: boolean;
+  /** AGR10 rule check results; errors block the broadcast */
+  ruleReport?: CatalogRuleReport;
 }
 
-export function VisualVerifier({ catalog, onBroadcast, onRetry, isBroadcasting }: VisualVerifierProps) {
+export function VisualVerifier({ catalog, onBroadcast, onRetry, isBroadcasting, ruleReport }: VisualVerifierProps) {
   const [broadcastSuccess, setBroadcastSuccess] = useState(false);
   const [isHovering, setIsHovering] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -31,6 +35,7 @@ export function VisualVerifier({ catalog, onBroadcast, onRetry, isBroadcasting }
   // Allow missing price/qty for "Get Quote" flow
   const isCriticalMissing = isNameUnknown;
   const isQuoteRequest = isPriceMissing || isQtyMissing;
+  const isBlocked = isCriticalMissing || (ruleReport !== undefined && !ruleReport.valid);
 
   // Speak summary on mount
   useEffect(() => {
@@ -57,7 +62,7 @@ export function VisualVerifier({ catalog, onBroadcast, onRetry, isBroadcasting }
   }, [catalog, isNameUnknown, isQtyMissing, isPriceMissing]);
 
   const handleBroadcast = async () => {
-    if (isCriticalMissing) return;
+    if (isBlocked) return;
     await onBroadcast();
     setBroadcastSuccess(true);
     setTimeout(() => setBroadcastSuccess(false), 3000);
@@ -134,6 +139,9 @@ export function VisualVerifier({ catalog, onBroadcast, onRetry, isBroadcasting }
             </div>
           </div>
 
+          {/* AGR10 Checks */}
+          <CatalogRuleIssues report={ruleReport} />
+
           {/* Error Message */}
           {isCriticalMissing && (
             <div className="bg-red-100 text-red-800 p-4 rounded-xl text-center font-medium animate-pulse flex items-center justify-center gap-2">
@@ -157,10 +165,10 @@ export function VisualVerifier({ catalog, onBroadcast, onRetry, isBroadcasting }
             {/* Confirm/Broadcast Button */}
             <Button
               onClick={handleBroadcast}
-              disabled={isBroadcasting || broadcastSuccess || isCriticalMissing}
+              disabled={isBroadcasting || broadcastSuccess || isBlocked}
               className={cn(
                 "h-24 rounded-2xl flex flex-col gap-2 shadow-lg transition-all",
-                isCriticalMissing
+                isBlocked
                   ? "bg-gray-200 text-gray-400 cursor-not-allowed"
                   : "bg-green-600 hover:bg-green-700 text-white"
               )}
@@ -0,0 +1,12 @@
+/**
+ * Next.js Instrumentation
+ *
+ * Runs once when the server starts. Starts the sweep that expires stale
+ * listings and lapsed bids (see lib/listing-expiry.ts).
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startExpiryScheduler } = await import("./lib/listing-expiry");
+    startExpiryScheduler();
+  }
+}
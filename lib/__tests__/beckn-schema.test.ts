@@ -12,6 +12,9 @@ import {
   BecknQuantitySchema,
   BecknTagsSchema,
   BecknCatalogItemSchema,
+  BecknProviderCatalogSchema,
+  fromProviderCatalog,
+  toProviderCatalog,
   type BecknCatalogItem
 } from '../beckn-schema';
 
@@ -453,4 +456,99 @@ describe('Beckn Schema Validation', () => {
       expect(catalog.tags.grade).toBe('A');
     });
   });
+
+  describe('Provider Catalog', () => {
+    const onions: BecknCatalogItem = {
+      descriptor: { name: 'Nasik Onions', symbol: '/icons/onion.png' },
+      price: { value: 40, currency: 'INR' },
+      quantity: { available: { count: 500 }, unit: 'kg' },
+      tags: { grade: 'A', perishability: 'medium' }
+    };
+    const tomatoes: BecknCatalogItem = {
+      descriptor: { name: 'Tomatoes', symbol: '/icons/tomato.png' },
+      price: { value: 25, currency: 'INR' },
+      quantity: { available: { count: 10 }, unit: 'quintal' },
+      tags: { perishability: 'high' }
+    };
+    const fpo = {
+      id: 'fpo-lasalgaon',
+      name: 'Lasalgaon Farmers Producer Company',
+      location: { state: 'Maharashtra', city: 'Lasalgaon', areaCode: '422306' },
+      deliveryDays: 2
+    };
+
+    test('publishes several lots under one provider', () => {
+      const catalog = toProviderCatalog(fpo, [
+        { id: 'lot-1', item: onions, category: 'Vegetables' },
+        { id: 'lot-2', item: tomatoes, category: 'Vegetables' }
+      ]);
+
+      const provider = catalog['bpp/providers'][0];
+      expect(provider.items.map(item => item.id)).toEqual(['lot-1', 'lot-2']);
+      expect(provider.categories).toEqual([{ id: 'C1', descriptor: { name: 'Vegetables' } }]);
+      expect(provider.locations[0].address).toMatchObject({ state: 'Maharashtra', area_code: '422306' });
+      expect(provider.fulfillments).toEqual([{ id: 'F1', type: 'Delivery', '@ondc/org/TAT': 'P2D' }]);
+      expect(provider.items[1]).toMatchObject({ category_id: 'C1', location_id: 'L1', fulfillment_id: 'F1' });
+    });
+
+    test('reads lots back in the single-item shape', () => {
+      const catalog = toProviderCatalog(fpo, [
+        { id: 'lot-1', item: onions, category: 'Vegetables' },
+        { id: 'lot-2', item: tomatoes }
+      ]);
+
+      const lots = fromProviderCatalog(catalog);
+
+      expect(lots).toEqual([
+        { id: 'lot-1', item: onions, providerId: 'fpo-lasalgaon', category: 'Vegetables', state: 'Maharashtra' },
+        { id: 'lot-2', item: tomatoes, providerId: 'fpo-lasalgaon', state: 'Maharashtra' }
+      ]);
+      expect(BecknCatalogItemSchema.safeParse(lots[1].item).success).toBe(true);
+    });
+
+    test('omits the location when the provider has none', () => {
+      const catalog = toProviderCatalog({ id: 'farmer-1', name: 'Ramesh' }, [{ id: 'lot-1', item: onions }]);
+
+      expect(catalog['bpp/providers'][0].locations).toEqual([]);
+      expect(catalog['bpp/providers'][0].items[0].location_id).toBeUndefined();
+      expect(fromProviderCatalog(catalog)[0].state).toBeUndefined();
+    });
+
+    test('rejects a provider with no items', () => {
+      expect(() => toProviderCatalog(fpo, [])).toThrow('Provider must list at least one item');
+    });
+
+    test('rejects duplicate item ids', () => {
+      expect(() => toProviderCatalog(fpo, [
+        { id: 'lot-1', item: onions },
+        { id: 'lot-1', item: tomatoes }
+      ])).toThrow('Duplicate items id lot-1');
+    });
+
+    test('rejects items that refer to undeclared locations, fulfillments or categories', () => {
+      const result = BecknProviderCatalogSchema.safeParse({
+        'bpp/descriptor': { name: 'Setu' },
+        'bpp/providers': [{
+          id: 'farmer-1',
+          descriptor: { name: 'Ramesh' },
+          items: [{ ...onions, id: 'lot-1', location_id: 'L9', fulfillment_id: 'F9', category_id: 'C9' }]
+        }]
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues.map(issue => issue.message)).toEqual([
+          'Unknown location_id L9',
+          'Unknown fulfillment_id F9',
+          'Unknown category_id C9'
+        ]);
+      }
+    });
+
+    test('rejects an invalid PIN code', () => {
+      expect(() => toProviderCatalog({ ...fpo, location: { state: 'Maharashtra', areaCode: '4223' } }, [
+        { id: 'lot-1', item: onions }
+      ])).toThrow('Area code must be a 6-digit PIN code');
+    });
+  });
 });
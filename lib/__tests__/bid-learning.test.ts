@@ -0,0 +1,186 @@
+/**
+ * Bid Learning Tests
+ *
+ * Tests for the persisted bid-learning store and the ratios learned from
+ * it per commodity, state and month.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  getBidLearningStats,
+  getLearnedRatio,
+  getSeasonalFactor,
+  recordBidRatio,
+  resetBidLearning
+} from '../bid-learning';
+import { prisma } from '../db';
+
+vi.mock('../db', () => ({
+  prisma: {
+    bidLearningStat: {
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      deleteMany: vi.fn()
+    }
+  }
+}));
+
+const UPDATED_AT = new Date('2026-10-01T00:00:00.000Z');
+const OCTOBER = new Date(2026, 9, 15);
+const JUNE = new Date(2026, 5, 15);
+
+function stat(commodity: string, state: string, month: number, bidCount: number, avgBidRatio: number) {
+  return {
+    id: `${commodity}-${state}-${month}`,
+    commodity,
+    state,
+    month,
+    bidCount,
+    ratioSum: bidCount * avgBidRatio,
+    createdAt: UPDATED_AT,
+    updatedAt: UPDATED_AT
+  };
+}
+
+/**
+ * Load the given statistics as the learned model
+ */
+async function learn(rows: ReturnType<typeof stat>[]) {
+  vi.mocked(prisma.bidLearningStat.findMany).mockResolvedValue(rows);
+  await getBidLearningStats();
+}
+
+describe('Bid Learning', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await learn([]);
+  });
+
+  describe('recordBidRatio', () => {
+    it('should add the bid to its commodity, state and month', async () => {
+      vi.mocked(prisma.bidLearningStat.upsert).mockResolvedValue(stat('onion', 'Maharashtra', 10, 1, 0.95));
+
+      await recordBidRatio({ commodity: 'Onion', bidRatio: 0.95, state: ' Maharashtra ', at: OCTOBER });
+
+      expect(prisma.bidLearningStat.upsert).toHaveBeenCalledWith({
+        where: { commodity_state_month: { commodity: 'onion', state: 'Maharashtra', month: 10 } },
+        create: { commodity: 'onion', state: 'Maharashtra', month: 10, bidCount: 1, ratioSum: 0.95 },
+        update: { bidCount: { increment: 1 }, ratioSum: { increment: 0.95 } }
+      });
+    });
+
+    it('should keep bids from farmers without a state apart', async () => {
+      vi.mocked(prisma.bidLearningStat.upsert).mockResolvedValue(stat('onion', '', 10, 1, 1));
+
+      await recordBidRatio({ commodity: 'onion', bidRatio: 1, at: OCTOBER });
+
+      expect(prisma.bidLearningStat.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { commodity_state_month: { commodity: 'onion', state: '', month: 10 } }
+      }));
+    });
+
+    it('should not fail the bid when the store is unavailable', async () => {
+      vi.mocked(prisma.bidLearningStat.upsert).mockRejectedValue(new Error('database is locked'));
+
+      await expect(recordBidRatio({ commodity: 'onion', bidRatio: 1, at: OCTOBER })).resolves.toBeUndefined();
+    });
+
+    it('should make the recorded bid part of the learned model', async () => {
+      vi.mocked(prisma.bidLearningStat.upsert).mockResolvedValue(stat('wheat', 'Punjab', 10, 6, 0.9));
+
+      await recordBidRatio({ commodity: 'wheat', bidRatio: 0.9, state: 'Punjab', at: OCTOBER });
+
+      expect(getLearnedRatio('wheat', 'Punjab', OCTOBER)?.avgBidRatio).toBeCloseTo(0.9);
+    });
+  });
+
+  describe('getLearnedRatio', () => {
+    it('should learn nothing until the commodity has enough bids', async () => {
+      await learn([stat('onion', 'Maharashtra', 10, 4, 1.0)]);
+
+      expect(getLearnedRatio('onion', 'Maharashtra', OCTOBER)).toBeNull();
+    });
+
+    it('should adjust the average for the farmer\'s state', async () => {
+      await learn([
+        stat('onion', 'Maharashtra', 10, 10, 1.1),
+        stat('onion', 'Karnataka', 10, 10, 0.9)
+      ]);
+
+      const maharashtra = getLearnedRatio('onion', 'Maharashtra', OCTOBER)!;
+      const karnataka = getLearnedRatio('onion', 'Karnataka', OCTOBER)!;
+
+      expect(maharashtra.avgBidRatio).toBeCloseTo(1.0);
+      expect(maharashtra.regionalFactor).toBeCloseTo(1.1);
+      expect(karnataka.regionalFactor).toBeCloseTo(0.9);
+      expect(maharashtra.ratio).toBeGreaterThan(karnataka.ratio);
+    });
+
+    it('should not adjust for a state with too few bids', async () => {
+      await learn([
+        stat('onion', 'Maharashtra', 10, 10, 1.0),
+        stat('onion', 'Gujarat', 10, 2, 1.5)
+      ]);
+
+      expect(getLearnedRatio('onion', 'Gujarat', OCTOBER)?.regionalFactor).toBe(1);
+    });
+
+    it('should learn the season once the month has enough bids', async () => {
+      await learn([
+        stat('onion', 'Maharashtra', 10, 10, 1.2),
+        stat('onion', 'Maharashtra', 6, 10, 0.8)
+      ]);
+
+      expect(getSeasonalFactor('onion', OCTOBER)).toBeCloseTo(1.2);
+      expect(getSeasonalFactor('onion', JUNE)).toBeCloseTo(0.8);
+    });
+  });
+
+  describe('getSeasonalFactor', () => {
+    it('should use the seasonal table until the month is learned', () => {
+      expect(getSeasonalFactor('onion', JUNE)).toBe(0.8);
+      expect(getSeasonalFactor('okra', JUNE)).toBe(1);
+    });
+  });
+
+  describe('getBidLearningStats', () => {
+    it('should break each commodity down by state and month', async () => {
+      vi.mocked(prisma.bidLearningStat.findMany).mockResolvedValue([
+        stat('onion', 'Maharashtra', 10, 6, 1.1),
+        stat('onion', 'Karnataka', 10, 2, 0.8),
+        stat('potato', 'Punjab', 3, 1, 0.9)
+      ]);
+
+      const result = await getBidLearningStats();
+      const [onion] = result.stats!;
+
+      expect(result.success).toBe(true);
+      expect(result.stats?.map(stats => stats.commodity)).toEqual(['onion', 'potato']);
+      expect(onion.bidCount).toBe(8);
+      expect(onion.regions.map(region => region.state)).toEqual(['Maharashtra', 'Karnataka']);
+      expect(onion.regions[1].factor).toBeUndefined();
+      expect(onion.months).toEqual([expect.objectContaining({ month: 10, bidCount: 8 })]);
+    });
+  });
+
+  describe('resetBidLearning', () => {
+    it('should forget a commodity', async () => {
+      await learn([stat('onion', 'Maharashtra', 10, 10, 1.0)]);
+      vi.mocked(prisma.bidLearningStat.deleteMany).mockResolvedValue({ count: 1 });
+
+      const result = await resetBidLearning('Onion');
+
+      expect(result).toEqual({ success: true, removed: 1 });
+      expect(prisma.bidLearningStat.deleteMany).toHaveBeenCalledWith({ where: { commodity: 'onion' } });
+      expect(getLearnedRatio('onion', 'Maharashtra', OCTOBER)).toBeNull();
+    });
+
+    it('should forget everything without a commodity', async () => {
+      vi.mocked(prisma.bidLearningStat.deleteMany).mockResolvedValue({ count: 3 });
+
+      await resetBidLearning();
+
+      expect(prisma.bidLearningStat.deleteMany).toHaveBeenCalledWith({ where: {} });
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Buyer Matching Tests
+ *
+ * Tests for choosing the buyers a listing is broadcast to, and the
+ * explanation given for every buyer.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { getCommittedToday, matchBuyers, toKilograms, type MatchListing } from '../buyer-matching';
+import type { Buyer } from '../buyer-pool';
+import { prisma } from '../db';
+
+vi.mock('../db', () => ({
+  prisma: {
+    order: {
+      findMany: vi.fn()
+    }
+  }
+}));
+
+function buyer(subscriberId: string, overrides: Partial<Buyer> = {}): Buyer {
+  return {
+    name: subscriberId,
+    logo: '',
+    rating: 4,
+    location: 'Pune, Maharashtra',
+    verified: true,
+    subscriberId,
+    gstin: '27AAACR5055K1ZK',
+    operatingStates: ['Maharashtra'],
+    dailyCapacity: 1000,
+    avgResponseTime: 8,
+    successRate: 90,
+    ...overrides
+  };
+}
+
+const ONIONS: MatchListing = {
+  commodity: 'onion',
+  state: 'Maharashtra',
+  quantity: { count: 500, unit: 'kg' }
+};
+
+const NOTHING_COMMITTED = new Map<string, number>();
+
+/**
+ * Match with a random source that always draws the first candidate
+ */
+function match(buyers: Buyer[], listing = ONIONS, committed = NOTHING_COMMITTED, maxBidders = 5) {
+  return matchBuyers(buyers, listing, committed, maxBidders, () => 0);
+}
+
+describe('Buyer Matching', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('toKilograms', () => {
+    it('should convert weight units', () => {
+      expect(toKilograms(5, 'Quintal')).toBe(500);
+      expect(toKilograms(2, 'tonne')).toBe(2000);
+      expect(toKilograms(500, 'g')).toBe(0.5);
+    });
+
+    it('should not convert other units', () => {
+      expect(toKilograms(20, 'crate')).toBeNull();
+    });
+  });
+
+  describe('matchBuyers', () => {
+    it('should select buyers in the state that buy the commodity and have capacity', () => {
+      const { selected, matches } = match([buyer('local.trader', { commodityPreferences: ['Onion'] })]);
+
+      expect(selected.map(b => b.subscriberId)).toEqual(['local.trader']);
+      expect(matches[0]).toMatchObject({
+        outcome: 'SELECTED',
+        explanation: 'Operates in Maharashtra, buys onion, 1000 kg capacity left today',
+        weight: 360
+      });
+    });
+
+    it('should explain why each other buyer was left out', () => {
+      const { selected, matches } = match([
+        buyer('unverified', { verified: false }),
+        buyer('suspended', { suspended: true }),
+        buyer('out.of.state', { operatingStates: ['Punjab'] }),
+        buyer('potato.only', { commodityPreferences: ['potato'] })
+      ]);
+
+      expect(selected).toEqual([]);
+      expect(matches.map(m => [m.outcome, m.explanation])).toEqual([
+        ['UNVERIFIED', 'Not verified on the network'],
+        ['SUSPENDED', 'Suspended from auctions'],
+        ['OUT_OF_STATE', 'Does not operate in Maharashtra'],
+        ['COMMODITY', 'Does not buy onion (buys potato)']
+      ]);
+    });
+
+    it('should leave out buyers whose orders today leave too little capacity', () => {
+      const committed = new Map([['busy', 700]]);
+
+      const { matches } = match([buyer('busy'), buyer('free')], ONIONS, committed);
+
+      expect(matches[0]).toMatchObject({
+        outcome: 'NO_CAPACITY',
+        explanation: 'Only 300 kg of daily capacity left for 500 kg',
+        remainingCapacity: 300
+      });
+      expect(matches[1].outcome).toBe('SELECTED');
+    });
+
+    it('should compare capacity in kilograms', () => {
+      const { matches } = match([buyer('small')], { ...ONIONS, quantity: { count: 20, unit: 'quintal' } });
+
+      expect(matches[0].outcome).toBe('NO_CAPACITY');
+    });
+
+    it('should not check capacity for listings in other units', () => {
+      const mangoes: MatchListing = { commodity: 'mango', state: 'Maharashtra', quantity: { count: 5000, unit: 'crate' } };
+
+      const { matches } = match([buyer('small')], mangoes);
+
+      expect(matches[0].outcome).toBe('SELECTED');
+      expect(matches[0].explanation).toContain('capacity not checked for crate');
+    });
+
+    it('should match buyers in any state when the farmer\'s state is unknown', () => {
+      const { matches } = match([buyer('punjab', { operatingStates: ['Punjab'] })], { ...ONIONS, state: null });
+
+      expect(matches[0].outcome).toBe('SELECTED');
+    });
+
+    it('should draw up to maxBidders, favouring rating and success rate', () => {
+      const buyers = [
+        buyer('weak', { rating: 1, successRate: 10 }),
+        buyer('strong', { rating: 5, successRate: 100 }),
+        buyer('middling', { rating: 4, successRate: 80 })
+      ];
+
+      const { selected, matches } = matchBuyers(buyers, ONIONS, NOTHING_COMMITTED, 1, () => 0.5);
+
+      expect(selected.map(b => b.subscriberId)).toEqual(['strong']);
+      expect(matches[0].outcome).toBe('NOT_DRAWN');
+      expect(matches[0].explanation).toContain('not drawn, the auction takes 1 buyers');
+    });
+  });
+
+  describe('getCommittedToday', () => {
+    it('should add up today\'s orders per buyer in kilograms', async () => {
+      vi.mocked(prisma.order.findMany).mockResolvedValue([
+        { buyerSubscriberId: 'busy', quantity: 200, unit: 'kg' },
+        { buyerSubscriberId: 'busy', quantity: 3, unit: 'quintal' },
+        { buyerSubscriberId: 'busy', quantity: 10, unit: 'crate' }
+      ] as any);
+
+      const committed = await getCommittedToday(new Date(2026, 9, 19, 15, 0));
+
+      expect(committed.get('busy')).toBe(500);
+      expect(prisma.order.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({
+          createdAt: { gte: new Date(2026, 9, 19) },
+          status: { not: 'CANCELLED' }
+        })
+      }));
+    });
+
+    it('should assume full capacity when orders cannot be read', async () => {
+      vi.mocked(prisma.order.findMany).mockRejectedValue(new Error('database is locked'));
+
+      expect((await getCommittedToday(new Date())).size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Buyer Registry Tests
+ *
+ * Tests for the buyer platforms kept in the database, their
+ * administration, and the buyers simulated auctions reach.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  buysCommodity,
+  createBuyer,
+  findBuyer,
+  getAuctionBuyers,
+  getBuyers,
+  loadBuyerRegistry,
+  setBuyerSuspended,
+  updateBuyer,
+  type BuyerInput
+} from '../buyer-registry';
+import { BUYER_POOL } from '../buyer-pool';
+import { createNetworkSimulator } from '../network-simulator';
+import { BUILT_IN_FAULT_PROFILES } from '../fault-profiles';
+import { createVirtualClock } from '../simulation-environment';
+import { prisma } from '../db';
+
+vi.mock('../db', () => ({
+  prisma: {
+    buyer: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn()
+    },
+    catalog: {
+      findUnique: vi.fn()
+    },
+    bid: {
+      create: vi.fn()
+    },
+    networkLog: {
+      create: vi.fn()
+    },
+    bidLearningStat: {
+      findMany: vi.fn()
+    },
+    order: {
+      findMany: vi.fn()
+    }
+  },
+  handleDatabaseError: () => 'A database error occurred'
+}));
+
+const CREATED_AT = new Date('2026-10-01T00:00:00.000Z');
+
+const TRADER: BuyerInput = {
+  name: 'Lasalgaon Onion Traders',
+  subscriberId: 'ondc.lasalgaon.traders.bap',
+  category: 'LOCAL_TRADER',
+  logo: '/logos/lasalgaon.png',
+  rating: 4.2,
+  location: 'Lasalgaon, Maharashtra',
+  gstin: '27AABCL1234M1Z5',
+  operatingStates: ['Maharashtra'],
+  commodityPreferences: ['onion'],
+  dailyCapacity: 5000,
+  avgResponseTime: 9,
+  successRate: 88
+};
+
+function record(input: BuyerInput, overrides: { id?: string; verified?: boolean; suspended?: boolean } = {}) {
+  return {
+    id: overrides.id ?? `buyer-${input.subscriberId}`,
+    ...input,
+    verified: overrides.verified ?? true,
+    suspended: overrides.suspended ?? false,
+    createdAt: CREATED_AT,
+    updatedAt: CREATED_AT
+  };
+}
+
+/**
+ * Make the given records the registry
+ */
+async function register(records: ReturnType<typeof record>[]) {
+  vi.mocked(prisma.buyer.findMany).mockResolvedValue(records);
+  await loadBuyerRegistry();
+}
+
+describe('Buyer Registry', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await register([]);
+  });
+
+  describe('loadBuyerRegistry', () => {
+    it('should use the registered buyers', async () => {
+      await register([record(TRADER)]);
+
+      expect(getBuyers().map(buyer => buyer.subscriberId)).toEqual([TRADER.subscriberId]);
+      expect(findBuyer(TRADER.subscriberId)?.commodityPreferences).toEqual(['onion']);
+    });
+
+    it('should use the built-in pool until buyers are registered', () => {
+      expect(getBuyers()).toEqual(BUYER_POOL);
+    });
+
+    it('should keep the last known buyers when the database is unavailable', async () => {
+      await register([record(TRADER)]);
+      vi.mocked(prisma.buyer.findMany).mockRejectedValue(new Error('database is locked'));
+
+      const buyers = await loadBuyerRegistry();
+
+      expect(buyers.map(buyer => buyer.subscriberId)).toEqual([TRADER.subscriberId]);
+    });
+  });
+
+  describe('auction buyers', () => {
+    it('should leave out suspended and unverified buyers', async () => {
+      await register([
+        record(TRADER),
+        record({ ...TRADER, subscriberId: 'ondc.suspended.bap' }, { suspended: true }),
+        record({ ...TRADER, subscriberId: 'ondc.unverified.bap' }, { verified: false })
+      ]);
+
+      expect(getAuctionBuyers().map(buyer => buyer.subscriberId)).toEqual([TRADER.subscriberId]);
+      expect(findBuyer('ondc.suspended.bap')).toBeDefined();
+    });
+
+    it('should match commodities case-insensitively, any commodity without preferences', () => {
+      expect(buysCommodity({ ...BUYER_POOL[0], commodityPreferences: ['Onion'] }, 'onion')).toBe(true);
+      expect(buysCommodity({ ...BUYER_POOL[0], commodityPreferences: ['Onion'] }, 'tomato')).toBe(false);
+      expect(buysCommodity(BUYER_POOL[0], 'tomato')).toBe(true);
+    });
+
+    it('should deny a broadcast no registered buyer bids on', async () => {
+      await register([record({ ...TRADER, commodityPreferences: ['potato'] })]);
+      vi.mocked(prisma.catalog.findUnique).mockResolvedValue({
+        id: 'catalog-1',
+        farmerId: 'farmer-1',
+        farmer: { id: 'farmer-1', state: 'Maharashtra' },
+        becknJson: {
+          descriptor: { name: 'Nasik Onion' },
+          price: { value: 40, currency: 'INR' },
+          quantity: { available: { count: 500 }, unit: 'kg' }
+        }
+      } as any);
+      vi.mocked(prisma.networkLog.create).mockResolvedValue({} as any);
+      vi.mocked(prisma.bidLearningStat.findMany).mockResolvedValue([]);
+      vi.mocked(prisma.order.findMany).mockResolvedValue([]);
+
+      const simulator = createNetworkSimulator({
+        seed: 1,
+        clock: createVirtualClock(0),
+        faultProfile: BUILT_IN_FAULT_PROFILES.find(profile => profile.id === 'happy-path')
+      });
+      const response = await simulator.simulateBroadcastProduction('catalog-1', { deliverCallback: async () => {} });
+
+      expect(response.error?.type).toBe('DENIED');
+      expect(response.buyerMatches).toEqual([
+        expect.objectContaining({ subscriberId: TRADER.subscriberId, outcome: 'COMMODITY' })
+      ]);
+    });
+  });
+
+  describe('createBuyer', () => {
+    it('should register a new buyer', async () => {
+      vi.mocked(prisma.buyer.findUnique).mockResolvedValue(null);
+      vi.mocked(prisma.buyer.create).mockResolvedValue(record(TRADER, { verified: false }));
+
+      const result = await createBuyer(TRADER);
+
+      expect(result.success).toBe(true);
+      expect(result.buyer?.verified).toBe(false);
+      expect(prisma.buyer.create).toHaveBeenCalledWith({ data: TRADER });
+    });
+
+    it('should reject invalid details', async () => {
+      const result = await createBuyer({ ...TRADER, gstin: 'not-a-gstin' });
+
+      expect(result).toEqual({ success: false, error: 'gstin: GSTIN must be 15 letters and digits' });
+      expect(prisma.buyer.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a subscriber ID that is already registered', async () => {
+      vi.mocked(prisma.buyer.findUnique).mockResolvedValue(record(TRADER));
+
+      const result = await createBuyer(TRADER);
+
+      expect(result.error).toBe(`Subscriber ID ${TRADER.subscriberId} is already registered`);
+    });
+  });
+
+  describe('changes', () => {
+    it('should apply an edit to the buyer', async () => {
+      const edited = record({ ...TRADER, dailyCapacity: 8000, operatingStates: ['Maharashtra', 'Gujarat'] });
+      vi.mocked(prisma.buyer.update).mockResolvedValue(edited);
+
+      const result = await updateBuyer(edited.id, { dailyCapacity: 8000, operatingStates: ['Maharashtra', 'Gujarat'] });
+
+      expect(result.buyer?.operatingStates).toEqual(['Maharashtra', 'Gujarat']);
+      expect(prisma.buyer.update).toHaveBeenCalledWith({
+        where: { id: edited.id },
+        data: { dailyCapacity: 8000, operatingStates: ['Maharashtra', 'Gujarat'] }
+      });
+    });
+
+    it('should take a suspended buyer out of auctions', async () => {
+      await register([record(TRADER)]);
+      const suspended = record(TRADER, { suspended: true });
+      vi.mocked(prisma.buyer.update).mockResolvedValue(suspended);
+      vi.mocked(prisma.buyer.findMany).mockResolvedValue([suspended]);
+
+      const result = await setBuyerSuspended(suspended.id, true);
+
+      expect(result.success).toBe(true);
+      expect(prisma.buyer.update).toHaveBeenCalledWith({ where: { id: suspended.id }, data: { suspended: true } });
+      expect(getAuctionBuyers()).toEqual([]);
+    });
+
+    it('should report a buyer that does not exist', async () => {
+      vi.mocked(prisma.buyer.update).mockRejectedValue(Object.assign(new Error('not found'), { code: 'P2025' }));
+
+      const result = await setBuyerSuspended('missing', true);
+
+      expect(result.success).toBe(false);
+    });
+  });
+});
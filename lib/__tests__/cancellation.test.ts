@@ -0,0 +1,181 @@
+/**
+ * Cancellation Tests
+ *
+ * Tests for cancelling listings and sales and finding what to cancel.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { cancelListing, cancelSale, findCancellableCatalog } from '../cancellation';
+import { simulateOrderCancellation } from '../network-simulator';
+import { prisma } from '../db';
+import { SAMPLE_MANGO_CATALOG, SAMPLE_ONION_CATALOG } from '@/tests/fixtures/beckn-catalog';
+
+vi.mock('../db', () => ({
+  prisma: {
+    catalog: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn()
+    },
+    bid: {
+      updateMany: vi.fn()
+    },
+    order: {
+      findUnique: vi.fn(),
+      updateMany: vi.fn()
+    }
+  }
+}));
+
+vi.mock('../network-simulator', () => ({
+  simulateOrderCancellation: vi.fn()
+}));
+
+vi.mock('../ondc-callbacks', () => ({
+  deliverSimulatedCallback: vi.fn()
+}));
+
+const CATALOG = {
+  id: 'catalog-1',
+  farmerId: 'farmer-1',
+  status: 'BROADCASTED',
+  becknJson: SAMPLE_ONION_CATALOG
+};
+
+const ORDER = {
+  id: 'order-1',
+  catalogId: 'catalog-1',
+  farmerId: 'farmer-1',
+  transactionId: 'txn-1',
+  buyerName: 'BigBasket (Tata Digital)',
+  quantity: 500,
+  status: 'ORDER_CONFIRMED'
+};
+
+function mockOrder(overrides: Record<string, unknown> = {}, fulfillmentEvents: unknown[] = []) {
+  vi.mocked(prisma.order.findUnique).mockResolvedValue({
+    ...ORDER,
+    ...overrides,
+    catalog: { ...CATALOG, status: 'SOLD' },
+    fulfillmentEvents
+  } as any);
+}
+
+describe('Cancellation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.catalog.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.bid.updateMany).mockResolvedValue({ count: 2 });
+    vi.mocked(prisma.order.updateMany).mockResolvedValue({ count: 1 });
+  });
+
+  describe('cancelListing', () => {
+    it('should withdraw the listing and expire its open bids', async () => {
+      vi.mocked(prisma.catalog.findUnique).mockResolvedValue(CATALOG as any);
+
+      const result = await cancelListing('catalog-1');
+
+      expect(result.success).toBe(true);
+      expect(result.catalog?.status).toBe('CANCELLED');
+      expect(prisma.catalog.updateMany).toHaveBeenCalledWith({
+        where: { id: 'catalog-1', status: 'BROADCASTED' },
+        data: { status: 'CANCELLED' }
+      });
+      expect(prisma.bid.updateMany).toHaveBeenCalledWith({
+        where: { catalogId: 'catalog-1', status: 'RECEIVED' },
+        data: { status: 'EXPIRED' }
+      });
+    });
+
+    it('should send a sold listing to sale cancellation', async () => {
+      vi.mocked(prisma.catalog.findUnique).mockResolvedValue({ ...CATALOG, status: 'SOLD' } as any);
+
+      const result = await cancelListing('catalog-1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('cancel the sale');
+      expect(prisma.catalog.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelSale', () => {
+    it('should tell the buyer and cancel the order with the reason code', async () => {
+      mockOrder({}, [{ state: 'PACKED' }]);
+
+      const result = await cancelSale('order-1');
+
+      expect(result.success).toBe(true);
+      expect(simulateOrderCancellation).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'order-1' }),
+        '002',
+        expect.any(Object)
+      );
+      expect(prisma.order.updateMany).toHaveBeenCalledWith({
+        where: { id: 'order-1', status: 'ORDER_CONFIRMED' },
+        data: expect.objectContaining({ status: 'CANCELLED', cancellationReasonCode: '002', cancelledBy: 'FARMER' })
+      });
+      expect(prisma.catalog.update).toHaveBeenCalledWith({
+        where: { id: 'catalog-1' },
+        data: { status: 'CANCELLED' }
+      });
+    });
+
+    it('should not cancel once the produce is picked up', async () => {
+      mockOrder({}, [{ state: 'PACKED' }, { state: 'PICKED_UP' }]);
+
+      const result = await cancelSale('order-1');
+
+      expect(result).toEqual({ success: false, error: 'The produce has already been picked up' });
+      expect(simulateOrderCancellation).not.toHaveBeenCalled();
+    });
+
+    it('should only accept reason codes a seller may give', async () => {
+      const result = await cancelSale('order-1', '012');
+
+      expect(result.success).toBe(false);
+      expect(prisma.order.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should not cancel a fulfilled order', async () => {
+      mockOrder({ status: 'FULFILLED' });
+
+      const result = await cancelSale('order-1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('cannot be cancelled');
+    });
+  });
+
+  describe('findCancellableCatalog', () => {
+    it('should match the spoken commodity', async () => {
+      vi.mocked(prisma.catalog.findMany).mockResolvedValue([
+        { ...CATALOG, id: 'catalog-2', becknJson: SAMPLE_MANGO_CATALOG, orders: [] },
+        { ...CATALOG, orders: [] }
+      ] as any);
+
+      const candidate = await findCancellableCatalog('farmer-1', 'Onions');
+
+      expect(candidate?.catalog.id).toBe('catalog-1');
+      expect(candidate?.order).toBeUndefined();
+    });
+
+    it('should return the open order of a sold listing', async () => {
+      vi.mocked(prisma.catalog.findMany).mockResolvedValue([
+        { ...CATALOG, id: 'catalog-0', status: 'SOLD', orders: [] },
+        { ...CATALOG, status: 'SOLD', orders: [ORDER] }
+      ] as any);
+
+      const candidate = await findCancellableCatalog('farmer-1');
+
+      expect(candidate?.catalog.id).toBe('catalog-1');
+      expect(candidate?.order?.id).toBe('order-1');
+    });
+
+    it('should return null when nothing matches', async () => {
+      vi.mocked(prisma.catalog.findMany).mockResolvedValue([{ ...CATALOG, orders: [] }] as any);
+
+      expect(await findCancellableCatalog('farmer-1', 'Mangoes')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Catalog Revisions Tests
+ *
+ * Tests for editing listings: revision history, the ONDC update sent to
+ * buyers, and diffs between revisions.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { listCatalogRevisions, updateCatalog } from '../catalog-revisions';
+import { diffCatalogItems, type BecknCatalogItem } from '../beckn-schema';
+import { validateFarmerListing, type CatalogRuleIssue, type CatalogRuleReport } from '../catalog-rules';
+import { prisma } from '../db';
+
+vi.mock('../db', () => ({
+  prisma: {
+    catalog: {
+      findUnique: vi.fn(),
+      updateMany: vi.fn()
+    },
+    catalogRevision: {
+      count: vi.fn(),
+      create: vi.fn(),
+      findMany: vi.fn()
+    },
+    networkLog: {
+      findFirst: vi.fn(),
+      create: vi.fn()
+    }
+  },
+  handleDatabaseError: () => 'A database error occurred'
+}));
+
+vi.mock('../catalog-rules', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../catalog-rules')>()),
+  validateFarmerListing: vi.fn()
+}));
+
+const PASSED_RULES: CatalogRuleReport = { valid: true, errors: [], warnings: [], commodity: 'onion', category: 'VEGETABLES' };
+
+const ONIONS: BecknCatalogItem = {
+  descriptor: { name: 'Nasik Onions', symbol: '/icons/onion.png' },
+  price: { value: 40, currency: 'INR' },
+  quantity: { available: { count: 500 }, unit: 'kg' },
+  tags: { grade: 'A', perishability: 'medium' }
+};
+
+const CHEAPER_ONIONS: BecknCatalogItem = {
+  ...ONIONS,
+  price: { value: 35, currency: 'INR' },
+  quantity: { available: { count: 400 }, unit: 'kg' }
+};
+
+function catalog(status = 'BROADCASTED', version = 1) {
+  return {
+    id: 'catalog-1',
+    farmerId: 'farmer-1',
+    becknJson: ONIONS,
+    status,
+    version,
+    createdAt: new Date('2026-10-01T00:00:00.000Z'),
+    updatedAt: new Date('2026-10-01T00:00:00.000Z')
+  } as any;
+}
+
+describe('Catalog Revisions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.catalogRevision.count).mockResolvedValue(1);
+    vi.mocked(prisma.catalog.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(validateFarmerListing).mockResolvedValue({ ...PASSED_RULES });
+    vi.mocked(prisma.catalogRevision.create).mockImplementation((async ({ data }: any) => ({
+      id: `revision-${data.version}`,
+      note: null,
+      createdAt: new Date(),
+      ...data
+    })) as any);
+    vi.mocked(prisma.networkLog.findFirst).mockResolvedValue({ transactionId: 'txn-search' } as any);
+    vi.mocked(prisma.networkLog.create).mockResolvedValue({} as any);
+  });
+
+  describe('diffCatalogItems', () => {
+    it('should list each changed field with its old and new value', () => {
+      expect(diffCatalogItems(ONIONS, { ...CHEAPER_ONIONS, tags: { grade: 'A' } })).toEqual([
+        { field: 'price.value', before: 40, after: 35 },
+        { field: 'quantity.available.count', before: 500, after: 400 },
+        { field: 'tags.perishability', before: 'medium', after: undefined }
+      ]);
+    });
+
+    it('should find no changes between equal listings', () => {
+      expect(diffCatalogItems(ONIONS, structuredClone(ONIONS))).toEqual([]);
+    });
+  });
+
+  describe('updateCatalog', () => {
+    it('should bump the version and record who changed what', async () => {
+      vi.mocked(prisma.catalog.findUnique).mockResolvedValue(catalog('DRAFT', 2));
+
+      const result = await updateCatalog('catalog-1', CHEAPER_ONIONS, { changedBy: 'admin', note: 'Mandi price fell' });
+
+      expect(result.success).toBe(true);
+      expect(result.catalog?.version).toBe(3);
+      expect(prisma.catalog.updateMany).toHaveBeenCalledWith({
+        where: { id: 'catalog-1', version: 2, status: { notIn: ['SOLD', 'CANCELLED'] } },
+        data: { becknJson: CHEAPER_ONIONS, version: 3 }
+      });
+      expect(result.revision).toMatchObject({
+        version: 3,
+        changedBy: 'admin',
+        note: 'Mandi price fell',
+        changes: [
+          { field: 'price.value', before: 40, after: 35 },
+          { field: 'quantity.available.count', before: 500, after: 400 }
+        ]
+      });
+      expect(result.update).toBeUndefined();
+    });
+
+    it('should send buyers an update for a broadcast listing', async () => {
+      vi.mocked(prisma.catalog.findUnique).mockResolvedValue(catalog());
+
+      const result = await updateCatalog('catalog-1', CHEAPER_ONIONS);
+
+      expect(result.revision?.changedBy).toBe('farmer-1');
+      expect(result.update).toEqual({ success: true, transactionId: 'txn-search' });
+
+      const logged = vi.mocked(prisma.networkLog.create).mock.calls[0][0].data as any;
+      expect(logged.payload.context).toMatchObject({ action: 'update', transaction_id: 'txn-search' });
+      expect(logged.payload.message.catalog.item.price).toEqual({ currency: 'INR', value: '35.00' });
+      expect(logged.payload.message.catalog.item.tags).toContainEqual({
+        code: 'revision',
+        list: [
+          { code: 'version', value: '2' },
+          { code: 'changed', value: 'price.value,quantity.available.count' }
+        ]
+      });
+    });
+
+    it('should record the listing as it was before its first edit', async () => {
+      vi.mocked(prisma.catalog.findUnique).mockResolvedValue(catalog('DRAFT'));
+      vi.mocked(prisma.catalogRevision.count).mockResolvedValue(0);
+
+      await updateCatalog('catalog-1', CHEAPER_ONIONS);
+
+      expect(prisma.catalogRevision.create).toHaveBeenNthCalledWith(1, {
+        data: { catalogId: 'catalog-1', version: 1, becknJson: ONIONS, changes: [], changedBy: 'farmer-1' }
+      });
+      expect(vi.mocked(prisma.catalogRevision.create).mock.calls[1][0].data.version).toBe(2);
+    });
+
+    it('should not edit a sold listing', async () => {
+      vi.mocked(prisma.catalog.findUnique).mockResolvedValue(catalog('SOLD'));
+
+      const result = await updateCatalog('catalog-1', CHEAPER_ONIONS);
+
+      expect(result).toEqual({ success: false, error: 'This listing is sold and cannot be edited' });
+      expect(prisma.catalog.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should not let anyone change the quantity of a pooled listing', async () => {
+      vi.mocked(prisma.catalog.findUnique).mockResolvedValue({ ...catalog(), fpoId: 'fpo-1' });
+
+      const result = await updateCatalog('catalog-1', CHEAPER_ONIONS, { changedBy: 'farmer-1' });
+
+      expect(result).toEqual({ success: false, error: 'The quantity of a pooled listing changes only with its members\' lots' });
+      expect(prisma.catalog.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should still let a pooled listing\'s price change', async () => {
+      vi.mocked(prisma.catalog.findUnique).mockResolvedValue({ ...catalog('DRAFT'), fpoId: 'fpo-1' });
+
+      const result = await updateCatalog('catalog-1', { ...ONIONS, price: { value: 35, currency: 'INR' } });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should refuse an edit that breaks the AGR10 rules', async () => {
+      vi.mocked(prisma.catalog.findUnique).mockResolvedValue(catalog());
+      const unitIssue: CatalogRuleIssue = {
+        code: 'UNIT_NOT_ALLOWED', severity: 'error', field: 'quantity.unit',
+        message: 'Vegetables are listed in kg, quintal, tonne, crate, bag, not litre'
+      };
+      vi.mocked(validateFarmerListing).mockResolvedValue({ ...PASSED_RULES, valid: false, errors: [unitIssue] });
+
+      const result = await updateCatalog('catalog-1', { ...ONIONS, quantity: { available: { count: 500 }, unit: 'litre' } });
+
+      expect(result.error).toBe('This listing breaks the AGR10 rules: Vegetables are listed in kg, quintal, tonne, crate, bag, not litre');
+      expect(result.ruleReport?.errors).toEqual([unitIssue]);
+      expect(validateFarmerListing).toHaveBeenCalledWith(expect.objectContaining({ quantity: { available: { count: 500 }, unit: 'litre' } }), 'farmer-1');
+      expect(prisma.catalog.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should not record an edit that changes nothing', async () => {
+      vi.mocked(prisma.catalog.findUnique).mockResolvedValue(catalog());
+
+      const result = await updateCatalog('catalog-1', ONIONS);
+
+      expect(result.error).toBe('Nothing has changed');
+      expect(prisma.catalogRevision.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid listing', async () => {
+      const result = await updateCatalog('catalog-1', { ...ONIONS, price: { value: -5, currency: 'INR' } });
+
+      expect(result).toEqual({ success: false, error: 'price.value: Price must be non-negative' });
+      expect(prisma.catalog.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an edit that raced another', async () => {
+      vi.mocked(prisma.catalog.findUnique).mockResolvedValue(catalog());
+      vi.mocked(prisma.catalog.updateMany).mockResolvedValue({ count: 0 });
+
+      const result = await updateCatalog('catalog-1', CHEAPER_ONIONS);
+
+      expect(result.error).toBe('This listing changed while editing; please try again');
+      expect(prisma.networkLog.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listCatalogRevisions', () => {
+    it('should list revisions oldest first', async () => {
+      vi.mocked(prisma.catalogRevision.findMany).mockResolvedValue([
+        { id: 'r1', catalogId: 'catalog-1', version: 1, becknJson: ONIONS, changes: [], changedBy: 'farmer-1', note: null, createdAt: new Date() }
+      ] as any);
+
+      const result = await listCatalogRevisions('catalog-1');
+
+      expect(result.revisions?.[0]).toMatchObject({ version: 1, item: ONIONS, changes: [] });
+      expect(prisma.catalogRevision.findMany).toHaveBeenCalledWith({ where: { catalogId: 'catalog-1' }, orderBy: { version: 'asc' } });
+    });
+  });
+});
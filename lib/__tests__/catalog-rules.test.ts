@@ -0,0 +1,183 @@
+/**
+ * Catalog Rules Tests
+ *
+ * Tests for the AGR10 checks run on a listing before it is broadcast.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { checkCatalogRules, describeRuleErrors, identifyCommodity, validateCatalogRules, validateFarmerListing } from '../catalog-rules';
+import { prisma } from '../db';
+import { getMandiPrices } from '../mandi-price-service';
+import type { BecknCatalogItem } from '../beckn-schema';
+
+vi.mock('../db', () => ({
+  prisma: {
+    farmer: { findUnique: vi.fn() }
+  }
+}));
+
+vi.mock('../mandi-price-service', () => ({
+  getMandiPrices: vi.fn()
+}));
+
+const ONIONS: BecknCatalogItem = {
+  descriptor: { name: 'Nasik Onions', symbol: '/icons/onion.png' },
+  price: { value: 20, currency: 'INR' },
+  quantity: { available: { count: 500 }, unit: 'kg' },
+  tags: { grade: 'A', perishability: 'medium' }
+};
+
+/** Rs 20/kg */
+const ONION_MODAL = { modalPricePerQuintal: 2000 };
+
+function codes(item: BecknCatalogItem, context = {}) {
+  const report = checkCatalogRules(item, context);
+  return [...report.errors, ...report.warnings].map(issue => issue.code);
+}
+
+describe('Catalog Rules', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should pass a complete listing at the mandi price', () => {
+    const report = checkCatalogRules(ONIONS, ONION_MODAL);
+
+    expect(report).toMatchObject({ valid: true, errors: [], warnings: [], commodity: 'onion', category: 'VEGETABLES' });
+  });
+
+  it('should recognise vernacular commodity names', () => {
+    expect(identifyCommodity('Kanda')).toMatchObject({ name: 'onion', category: 'VEGETABLES' });
+    expect(identifyCommodity('Sharbati Gehun')).toMatchObject({ name: 'wheat', category: 'FOODGRAINS' });
+    expect(identifyCommodity('Saffron')).toBeNull();
+  });
+
+  describe('attributes and units', () => {
+    it('should require the attributes of the commodity category', () => {
+      const report = checkCatalogRules({ ...ONIONS, tags: {} }, ONION_MODAL);
+      const wheat = checkCatalogRules({
+        ...ONIONS,
+        descriptor: { name: 'Wheat', symbol: '/icons/wheat.png' },
+        tags: {}
+      });
+
+      expect(report.valid).toBe(false);
+      expect(report.errors).toEqual([{
+        code: 'MISSING_ATTRIBUTE',
+        severity: 'error',
+        field: 'tags.perishability',
+        message: 'Vegetables listings must state perishability'
+      }]);
+      expect(wheat.errors.map(issue => issue.field)).toEqual(['tags.grade']);
+    });
+
+    it('should only allow units the category is traded in', () => {
+      expect(codes({ ...ONIONS, price: { value: 2000, currency: 'INR' }, quantity: { available: { count: 5 }, unit: 'Quintals' } }, ONION_MODAL))
+        .toEqual([]);
+      expect(codes({ ...ONIONS, quantity: { available: { count: 5 }, unit: 'dozen' } })).toContain('UNIT_NOT_ALLOWED');
+    });
+
+    it('should warn and skip category checks for unknown commodities', () => {
+      const report = checkCatalogRules({ ...ONIONS, descriptor: { name: 'Saffron', symbol: '/icons/wheat.png' }, tags: {} });
+
+      expect(report.valid).toBe(true);
+      expect(report.warnings.map(issue => issue.code)).toEqual(['UNKNOWN_COMMODITY', 'PRICE_NOT_CHECKED']);
+    });
+  });
+
+  describe('price band', () => {
+    it('should reject prices far from the mandi modal price', () => {
+      const report = checkCatalogRules({ ...ONIONS, price: { value: 50, currency: 'INR' } }, ONION_MODAL);
+
+      expect(report.errors[0]).toMatchObject({
+        code: 'PRICE_OUT_OF_BAND',
+        message: 'Price is outside the allowed band: Rs 50.00/kg against a mandi modal price of Rs 20.00/kg'
+      });
+    });
+
+    it('should warn about prices somewhat off the modal price', () => {
+      expect(codes({ ...ONIONS, price: { value: 14, currency: 'INR' } }, ONION_MODAL)).toEqual(['PRICE_OFF_MODAL']);
+    });
+
+    it('should compare per-quintal prices per kilogram', () => {
+      const perQuintal = { ...ONIONS, price: { value: 2100, currency: 'INR' }, quantity: { available: { count: 5 }, unit: 'quintal' } };
+
+      expect(checkCatalogRules(perQuintal, ONION_MODAL).valid).toBe(true);
+    });
+
+    it('should skip the band for quote requests', () => {
+      expect(codes({ ...ONIONS, price: { value: 0, currency: 'INR' } })).toEqual([]);
+    });
+  });
+
+  describe('perishability', () => {
+    it('should reject listings open longer than their perishability allows', () => {
+      const tomatoes = {
+        ...ONIONS,
+        descriptor: { name: 'Tomatoes', symbol: '/icons/tomato.png' },
+        tags: { perishability: 'high' as const }
+      };
+
+      expect(codes(tomatoes, { validityHours: 48 })).toEqual(['PRICE_NOT_CHECKED']);
+      expect(codes(tomatoes, { validityHours: 72 })).toContain('VALIDITY_TOO_LONG');
+    });
+
+    it('should warn when tagged less perishable than the commodity is', () => {
+      const tomatoes = { ...ONIONS, descriptor: { name: 'Tomatoes', symbol: '/icons/tomato.png' }, tags: { perishability: 'low' as const } };
+
+      expect(checkCatalogRules(tomatoes).warnings[1].message).toBe('tomato is usually high perishability, not low');
+    });
+  });
+
+  describe('symbol', () => {
+    it('should reject images the app does not ship', () => {
+      expect(codes({ ...ONIONS, descriptor: { name: 'Nasik Onions', symbol: '/icons/onion-v2.png' } }, ONION_MODAL))
+        .toEqual(['UNKNOWN_SYMBOL']);
+    });
+
+    it('should warn about external or mismatched images', () => {
+      expect(codes({ ...ONIONS, descriptor: { name: 'Nasik Onions', symbol: 'https://cdn.example.com/onion.png' } }, ONION_MODAL))
+        .toEqual(['EXTERNAL_SYMBOL']);
+      expect(codes({ ...ONIONS, descriptor: { name: 'Nasik Onions', symbol: '/icons/mango.png' } }, ONION_MODAL))
+        .toEqual(['SYMBOL_MISMATCH']);
+    });
+  });
+
+  describe('validateCatalogRules', () => {
+    it('should check the price against the average modal price', async () => {
+      vi.mocked(getMandiPrices).mockResolvedValue([
+        { modalPrice: 1800 },
+        { modalPrice: 2200 }
+      ] as any);
+
+      const report = await validateCatalogRules(ONIONS, { state: 'Maharashtra' });
+
+      expect(report.modalPricePerKg).toBe(20);
+      expect(report.valid).toBe(true);
+      expect(getMandiPrices).toHaveBeenCalledWith('onion', 'Maharashtra');
+    });
+
+    it('should warn instead of failing when mandi prices are unavailable', async () => {
+      vi.mocked(getMandiPrices).mockRejectedValue(new Error('data.gov.in is down'));
+
+      const report = await validateCatalogRules(ONIONS);
+
+      expect(report.warnings.map(issue => issue.code)).toEqual(['PRICE_NOT_CHECKED']);
+    });
+  });
+
+  describe('validateFarmerListing', () => {
+    it('should use the mandi prices of the farmer\'s state', async () => {
+      vi.mocked(prisma.farmer.findUnique).mockResolvedValue({ state: 'Maharashtra' } as any);
+      vi.mocked(getMandiPrices).mockResolvedValue([{ modalPrice: 8000 }] as any);
+
+      const report = await validateFarmerListing(ONIONS, 'farmer-1');
+
+      expect(getMandiPrices).toHaveBeenCalledWith('onion', 'Maharashtra');
+      expect(report.valid).toBe(false);
+      expect(describeRuleErrors(report)).toBe(
+        'This listing breaks the AGR10 rules: Price is outside the allowed band: Rs 20.00/kg against a mandi modal price of Rs 80.00/kg'
+      );
+    });
+  });
+});
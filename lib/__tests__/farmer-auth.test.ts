@@ -0,0 +1,236 @@
+/**
+ * Farmer Auth Tests
+ *
+ * Tests for phone number login: sending and checking one-time codes,
+ * sessions, which records a farmer may act on, and who is an administrator.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { farmerOwns, isAdminPhone, normalizePhone, requestOtp, resolveSession, verifyOtp } from '../farmer-auth';
+import { setSmsProvider, type SmsProvider } from '../sms-provider';
+import { prisma } from '../db';
+
+vi.mock('../db', () => ({
+  prisma: {
+    otpChallenge: {
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      delete: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn()
+    },
+    farmer: {
+      findUnique: vi.fn(),
+      create: vi.fn()
+    },
+    farmerSession: {
+      create: vi.fn(),
+      findUnique: vi.fn()
+    },
+    catalog: { count: vi.fn() },
+    issue: { count: vi.fn() }
+  },
+  handleDatabaseError: () => 'A database error occurred'
+}));
+
+const PHONE = '+919876543210';
+
+const FARMER = { id: 'farmer-1', name: 'Ramesh Kumar', phone: PHONE } as any;
+
+function challenge(code: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'otp-1',
+    phone: PHONE,
+    codeHash: createHash('sha256').update(`${PHONE}:${code}`).digest('hex'),
+    attempts: 0,
+    expiresAt: new Date(Date.now() + 60000),
+    consumedAt: null,
+    createdAt: new Date(),
+    ...overrides
+  } as any;
+}
+
+describe('Farmer Auth', () => {
+  const sms = { name: 'test', send: vi.fn() } satisfies SmsProvider;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setSmsProvider(sms);
+    sms.send.mockResolvedValue(undefined);
+    vi.mocked(prisma.otpChallenge.findFirst).mockResolvedValue(null);
+    vi.mocked(prisma.otpChallenge.create).mockImplementation((async ({ data }: any) => ({ id: 'otp-1', ...data })) as any);
+    vi.mocked(prisma.otpChallenge.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.farmerSession.create).mockResolvedValue({} as any);
+  });
+
+  afterEach(() => {
+    setSmsProvider(null);
+  });
+
+  describe('normalizePhone', () => {
+    it('should accept the ways farmers write their number', () => {
+      expect(normalizePhone('98765 43210')).toBe(PHONE);
+      expect(normalizePhone('098765-43210')).toBe(PHONE);
+      expect(normalizePhone('+91 98765 43210')).toBe(PHONE);
+    });
+
+    it('should reject numbers that are not Indian mobiles', () => {
+      expect(normalizePhone('12345 67890')).toBeNull();
+      expect(normalizePhone('98765')).toBeNull();
+    });
+  });
+
+  describe('requestOtp', () => {
+    it('should text a 6-digit code and store only its hash', async () => {
+      const result = await requestOtp('98765 43210');
+
+      expect(result).toMatchObject({ success: true, phone: PHONE });
+      const [to, message] = sms.send.mock.calls[0];
+      const code = message.match(/\d{6}/)![0];
+      expect(to).toBe(PHONE);
+      expect(prisma.otpChallenge.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          phone: PHONE,
+          codeHash: createHash('sha256').update(`${PHONE}:${code}`).digest('hex')
+        })
+      });
+    });
+
+    it('should not send codes back to back', async () => {
+      vi.mocked(prisma.otpChallenge.findFirst).mockResolvedValue(challenge('123456'));
+
+      const result = await requestOtp(PHONE);
+
+      expect(result).toEqual({ success: false, error: 'Please wait a moment before asking for another code' });
+      expect(sms.send).not.toHaveBeenCalled();
+    });
+
+    it('should drop a code that could not be sent', async () => {
+      sms.send.mockRejectedValue(new Error('gateway down'));
+
+      const result = await requestOtp(PHONE);
+
+      expect(result).toEqual({ success: false, error: 'The code could not be sent; please try again' });
+      expect(prisma.otpChallenge.delete).toHaveBeenCalledWith({ where: { id: 'otp-1' } });
+    });
+
+    it('should not print codes when the SMS gateway is not configured', async () => {
+      setSmsProvider(null);
+      process.env.SMS_PROVIDER = 'http';
+      const log = vi.spyOn(console, 'log');
+
+      try {
+        const result = await requestOtp(PHONE);
+
+        expect(result).toEqual({ success: false, error: 'The code could not be sent; please try again' });
+        expect(log).not.toHaveBeenCalledWith(expect.stringContaining('login code is'));
+      } finally {
+        delete process.env.SMS_PROVIDER;
+        log.mockRestore();
+      }
+    });
+  });
+
+  describe('verifyOtp', () => {
+    it('should log in a known farmer', async () => {
+      vi.mocked(prisma.otpChallenge.findFirst).mockResolvedValue(challenge('123456'));
+      vi.mocked(prisma.farmer.findUnique).mockResolvedValue(FARMER);
+
+      const result = await verifyOtp(PHONE, '123456');
+
+      expect(result).toMatchObject({ success: true, farmer: FARMER, isNewFarmer: false });
+      expect(result.session?.token).toBeTruthy();
+      expect(prisma.farmer.create).not.toHaveBeenCalled();
+      expect(prisma.farmerSession.create).toHaveBeenCalledWith({
+        data: {
+          farmerId: 'farmer-1',
+          tokenHash: createHash('sha256').update(result.session!.token).digest('hex'),
+          expiresAt: result.session!.expiresAt
+        }
+      });
+    });
+
+    it('should create an account for a new number', async () => {
+      vi.mocked(prisma.otpChallenge.findFirst).mockResolvedValue(challenge('123456'));
+      vi.mocked(prisma.farmer.findUnique).mockResolvedValue(null);
+      vi.mocked(prisma.farmer.create).mockResolvedValue({ ...FARMER, id: 'farmer-new', name: 'Sunita' });
+
+      const result = await verifyOtp(PHONE, '123456', { name: ' Sunita ' });
+
+      expect(result).toMatchObject({ success: true, isNewFarmer: true });
+      expect(prisma.farmer.create).toHaveBeenCalledWith({ data: { name: 'Sunita', phone: PHONE } });
+    });
+
+    it('should count wrong codes', async () => {
+      vi.mocked(prisma.otpChallenge.findFirst).mockResolvedValue(challenge('123456'));
+
+      const result = await verifyOtp(PHONE, '654321');
+
+      expect(result).toEqual({ success: false, error: 'Wrong code' });
+      expect(prisma.otpChallenge.updateMany).toHaveBeenCalledWith({
+        where: { id: 'otp-1', attempts: { lt: 5 } },
+        data: { attempts: { increment: 1 } }
+      });
+    });
+
+    it('should refuse expired and overused codes', async () => {
+      vi.mocked(prisma.otpChallenge.findFirst).mockResolvedValueOnce(challenge('123456', { expiresAt: new Date(Date.now() - 1000) }));
+      expect((await verifyOtp(PHONE, '123456')).error).toBe('This code has expired; ask for a new one');
+
+      // The last try was taken by a guess sent at the same time
+      vi.mocked(prisma.otpChallenge.findFirst).mockResolvedValueOnce(challenge('123456', { attempts: 4 }));
+      vi.mocked(prisma.otpChallenge.updateMany).mockResolvedValueOnce({ count: 0 });
+      expect((await verifyOtp(PHONE, '123456')).error).toBe('Too many wrong codes; ask for a new one');
+
+      expect(prisma.farmerSession.create).not.toHaveBeenCalled();
+    });
+
+    it('should use a code only once', async () => {
+      vi.mocked(prisma.otpChallenge.findFirst).mockResolvedValue(challenge('123456'));
+      vi.mocked(prisma.otpChallenge.updateMany)
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      const result = await verifyOtp(PHONE, '123456');
+
+      expect(result).toEqual({ success: false, error: 'This code has already been used' });
+    });
+  });
+
+  describe('sessions', () => {
+    it('should resolve a token to its farmer until it expires', async () => {
+      vi.mocked(prisma.farmerSession.findUnique).mockResolvedValueOnce({ expiresAt: new Date(Date.now() + 60000), farmer: FARMER } as any);
+      expect(await resolveSession('token')).toBe(FARMER);
+
+      vi.mocked(prisma.farmerSession.findUnique).mockResolvedValueOnce({ expiresAt: new Date(Date.now() - 1000), farmer: FARMER } as any);
+      expect(await resolveSession('token')).toBeNull();
+    });
+  });
+
+  describe('farmerOwns', () => {
+    it('should check records against the farmer', async () => {
+      vi.mocked(prisma.catalog.count).mockResolvedValue(0);
+      vi.mocked(prisma.issue.count).mockResolvedValue(1);
+
+      expect(await farmerOwns('farmer-1', 'catalog', 'catalog-2')).toBe(false);
+      expect(await farmerOwns('farmer-1', 'issue', 'issue-1')).toBe(true);
+      expect(prisma.catalog.count).toHaveBeenCalledWith({ where: { id: 'catalog-2', farmerId: 'farmer-1' } });
+      expect(prisma.issue.count).toHaveBeenCalledWith({ where: { id: 'issue-1', order: { farmerId: 'farmer-1' } } });
+    });
+  });
+
+  describe('isAdminPhone', () => {
+    afterEach(() => {
+      delete process.env.ADMIN_PHONES;
+    });
+
+    it('should only accept the numbers listed in ADMIN_PHONES', () => {
+      expect(isAdminPhone(PHONE)).toBe(false);
+
+      process.env.ADMIN_PHONES = '91234 56789, +91 98765 43210';
+      expect(isAdminPhone(PHONE)).toBe(true);
+      expect(isAdminPhone('+919000000000')).toBe(false);
+    });
+  });
+});
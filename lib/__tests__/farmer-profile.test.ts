@@ -0,0 +1,180 @@
+/**
+ * Farmer Profile Tests
+ *
+ * Tests for reading and changing a farmer's profile, spoken profile
+ * changes, KYC status and what the voice agent pre-fills.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  applyProfileChange,
+  getFarmerProfile,
+  getProfileHints,
+  listPendingKyc,
+  setFarmerKycStatus,
+  updateFarmerProfile
+} from '../farmer-profile';
+import { prisma } from '../db';
+
+vi.mock('../db', () => ({
+  prisma: {
+    farmer: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn()
+    }
+  },
+  handleDatabaseError: () => 'A database error occurred'
+}));
+
+const FARMER = {
+  id: 'farmer-1',
+  name: 'Ramesh Kumar',
+  phone: '+919876543210',
+  locationLatLong: null,
+  village: 'Niphad',
+  district: 'Nashik',
+  state: 'Maharashtra',
+  landholdingAcres: 5,
+  crops: ['Onion', 'Wheat'],
+  preferredMandis: ['Lasalgaon'],
+  languagePref: 'hi',
+  upiId: null,
+  bankAccountName: null,
+  bankAccountNumber: null,
+  bankIfsc: null,
+  kycStatus: 'NOT_STARTED',
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z')
+} as any;
+
+describe('Farmer Profile', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.farmer.findUnique).mockResolvedValue(FARMER);
+    vi.mocked(prisma.farmer.update).mockImplementation((async ({ data }: any) => ({ ...FARMER, ...data })) as any);
+  });
+
+  describe('getFarmerProfile', () => {
+    it('should show only the last four digits of the bank account', async () => {
+      vi.mocked(prisma.farmer.findUnique).mockResolvedValue({ ...FARMER, bankAccountNumber: '123456784321' });
+
+      const { profile } = await getFarmerProfile('farmer-1');
+
+      expect(profile?.bankAccountMasked).toBe('XXXXXXXX4321');
+      expect(profile).not.toHaveProperty('bankAccountNumber');
+    });
+
+    it('should report a missing farmer', async () => {
+      vi.mocked(prisma.farmer.findUnique).mockResolvedValue(null);
+
+      expect(await getFarmerProfile('farmer-9')).toEqual({ success: false, error: 'Farmer not found' });
+    });
+  });
+
+  describe('updateFarmerProfile', () => {
+    it('should reject malformed payout details', async () => {
+      expect((await updateFarmerProfile('farmer-1', { upiId: 'ramesh' })).error)
+        .toBe('upiId: UPI ID must look like name@bank');
+      expect((await updateFarmerProfile('farmer-1', { bankAccountNumber: '1234' })).error)
+        .toBe('bankAccountNumber: Bank account number must be 9 to 18 digits');
+      expect((await updateFarmerProfile('farmer-1', { bankIfsc: 'SBIN1234' })).error)
+        .toBe('bankIfsc: IFSC must be 11 characters like SBIN0001234');
+      expect(prisma.farmer.update).not.toHaveBeenCalled();
+    });
+
+    it('should send new payout details for KYC', async () => {
+      const result = await updateFarmerProfile('farmer-1', { upiId: 'ramesh@okaxis', bankIfsc: 'sbin0001234' });
+
+      expect(result.profile?.kycStatus).toBe('PENDING');
+      expect(prisma.farmer.update).toHaveBeenCalledWith({
+        where: { id: 'farmer-1' },
+        data: { upiId: 'ramesh@okaxis', bankIfsc: 'SBIN0001234', kycStatus: 'PENDING' }
+      });
+    });
+
+    it('should leave KYC alone when payout details are unchanged', async () => {
+      vi.mocked(prisma.farmer.findUnique).mockResolvedValue({ ...FARMER, upiId: 'ramesh@okaxis', kycStatus: 'VERIFIED' });
+
+      await updateFarmerProfile('farmer-1', { upiId: 'ramesh@okaxis', landholdingAcres: 6 });
+
+      expect(prisma.farmer.update).toHaveBeenCalledWith({
+        where: { id: 'farmer-1' },
+        data: { upiId: 'ramesh@okaxis', landholdingAcres: 6 }
+      });
+    });
+
+    it('should reset KYC when all payout details are removed', async () => {
+      vi.mocked(prisma.farmer.findUnique).mockResolvedValue({ ...FARMER, upiId: 'ramesh@okaxis', kycStatus: 'VERIFIED' });
+
+      const result = await updateFarmerProfile('farmer-1', { upiId: '' });
+
+      expect(result.profile?.kycStatus).toBe('NOT_STARTED');
+    });
+
+    it('should drop blank and repeated crops', async () => {
+      await updateFarmerProfile('farmer-1', { crops: ['Onion', ' onion ', '', 'Wheat'] });
+
+      expect(prisma.farmer.update).toHaveBeenCalledWith({
+        where: { id: 'farmer-1' },
+        data: { crops: ['Onion', 'Wheat'] }
+      });
+    });
+  });
+
+  describe('applyProfileChange', () => {
+    it('should merge spoken crops and put the new mandi first', async () => {
+      await applyProfileChange('farmer-1', {
+        addCrops: ['Tomato', 'onion'],
+        removeCrops: ['wheat'],
+        preferredMandi: 'Pimpalgaon'
+      });
+
+      expect(prisma.farmer.update).toHaveBeenCalledWith({
+        where: { id: 'farmer-1' },
+        data: { crops: ['Onion', 'Tomato'], preferredMandis: ['Pimpalgaon', 'Lasalgaon'] }
+      });
+    });
+  });
+
+  describe('setFarmerKycStatus', () => {
+    it('should need payout details to check', async () => {
+      vi.mocked(prisma.farmer.updateMany).mockResolvedValue({ count: 0 });
+
+      const result = await setFarmerKycStatus('farmer-1', 'VERIFIED');
+
+      expect(result).toEqual({ success: false, error: 'Farmer has no payout details to check' });
+      expect(prisma.farmer.updateMany).toHaveBeenCalledWith({
+        where: { id: 'farmer-1', kycStatus: { not: 'NOT_STARTED' } },
+        data: { kycStatus: 'VERIFIED' }
+      });
+    });
+  });
+
+  describe('listPendingKyc', () => {
+    it('should list pending payout details with the account number masked', async () => {
+      vi.mocked(prisma.farmer.findMany).mockResolvedValue([
+        { ...FARMER, bankAccountNumber: '123456784321', kycStatus: 'PENDING' }
+      ]);
+
+      const result = await listPendingKyc();
+
+      expect(result.profiles?.map(profile => profile.bankAccountMasked)).toEqual(['XXXXXXXX4321']);
+      expect(prisma.farmer.findMany).toHaveBeenCalledWith({
+        where: { kycStatus: 'PENDING' },
+        orderBy: { updatedAt: 'asc' }
+      });
+    });
+  });
+
+  describe('getProfileHints', () => {
+    it('should prefer the usual mandi, then the district, then the state', async () => {
+      const { profile } = await getFarmerProfile('farmer-1');
+
+      expect(getProfileHints(profile!)).toEqual({ location: 'Lasalgaon', crops: ['Onion', 'Wheat'] });
+      expect(getProfileHints({ ...profile!, preferredMandis: [] }).location).toBe('Nashik');
+      expect(getProfileHints({ ...profile!, preferredMandis: [], district: null }).location).toBe('Maharashtra');
+    });
+  });
+});
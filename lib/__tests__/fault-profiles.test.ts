@@ -0,0 +1,196 @@
+/**
+ * Fault Profiles Tests
+ *
+ * Tests for loading and switching fault profiles, and for the error paths
+ * they drive in simulated broadcasts.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  BUILT_IN_FAULT_PROFILES,
+  getActiveFaultProfile,
+  getFaultProfiles,
+  setActiveFaultProfile,
+  type FaultProfile
+} from '../fault-profiles';
+import { createNetworkSimulator } from '../network-simulator';
+import { createVirtualClock } from '../simulation-environment';
+import { prisma } from '../db';
+
+vi.mock('../db', () => ({
+  prisma: {
+    catalog: {
+      findUnique: vi.fn()
+    },
+    bid: {
+      create: vi.fn()
+    },
+    networkLog: {
+      create: vi.fn()
+    },
+    bidLearningStat: {
+      findMany: vi.fn()
+    },
+    order: {
+      findMany: vi.fn()
+    }
+  }
+}));
+
+const CATALOG = {
+  id: 'catalog-1',
+  farmerId: 'farmer-1',
+  farmer: { id: 'farmer-1', state: 'Maharashtra' },
+  becknJson: {
+    descriptor: { name: 'Nasik Onion' },
+    price: { value: 40, currency: 'INR' },
+    quantity: { available: { count: 500 }, unit: 'kg' }
+  }
+};
+
+function builtIn(id: string): FaultProfile {
+  return BUILT_IN_FAULT_PROFILES.find(profile => profile.id === id)!;
+}
+
+function writeProfilesFile(content: unknown): string {
+  const path = join(mkdtempSync(join(tmpdir(), 'fault-profiles-')), 'profiles.json');
+  writeFileSync(path, JSON.stringify(content));
+  return path;
+}
+
+/**
+ * Broadcast once on a seeded simulator with the given profile
+ */
+function broadcastWith(faultProfile: FaultProfile, seed = 1) {
+  const simulator = createNetworkSimulator({ seed, clock: createVirtualClock(0), faultProfile });
+  return simulator.simulateBroadcastProduction('catalog-1', { deliverCallback: async () => {} });
+}
+
+describe('Fault Profiles', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.catalog.findUnique).mockResolvedValue(CATALOG as any);
+    vi.mocked(prisma.networkLog.create).mockResolvedValue({} as any);
+    vi.mocked(prisma.bidLearningStat.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.order.findMany).mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('getFaultProfiles', () => {
+    it('should offer the built-in scenarios', () => {
+      const ids = getFaultProfiles().profiles.map(profile => profile.id);
+
+      expect(ids).toEqual([
+        'production',
+        'happy-path',
+        'flaky-gateway',
+        'no-buyers-in-region',
+        'rate-limit-storm',
+        'slow-baps'
+      ]);
+    });
+
+    it('should add profiles from the profiles file over the one they extend', () => {
+      vi.stubEnv('ONDC_FAULT_PROFILES_FILE', writeProfilesFile([
+        { id: 'gateway-outage', phases: { gateway: { failureRate: 1 } } },
+        { id: 'slow-storm', extends: 'slow-baps', failures: { RATE_LIMITED: 0.5 } }
+      ]));
+
+      const { profiles, error } = getFaultProfiles();
+      const outage = profiles.find(profile => profile.id === 'gateway-outage');
+      const storm = profiles.find(profile => profile.id === 'slow-storm');
+
+      expect(error).toBeUndefined();
+      expect(outage?.phases.gateway).toEqual({ minMs: 2000, maxMs: 4000, failureRate: 1 });
+      expect(outage?.failures).toEqual(builtIn('production').failures);
+      expect(storm?.bidResponse).toEqual(builtIn('slow-baps').bidResponse);
+      expect(storm?.failures.RATE_LIMITED).toBe(0.5);
+    });
+
+    it('should fall back to the built-in profiles when the file is invalid', () => {
+      vi.stubEnv('ONDC_FAULT_PROFILES_FILE', writeProfilesFile([
+        { id: 'broken', failures: { TIMEOUT: 2 } }
+      ]));
+
+      const { profiles, error } = getFaultProfiles();
+
+      expect(profiles).toHaveLength(BUILT_IN_FAULT_PROFILES.length);
+      expect(error).toContain('Could not load');
+    });
+  });
+
+  describe('active profile', () => {
+    it('should start from ONDC_FAULT_PROFILE', () => {
+      vi.stubEnv('ONDC_FAULT_PROFILE', 'slow-baps');
+
+      expect(getActiveFaultProfile().id).toBe('slow-baps');
+    });
+
+    it('should switch to a known profile and reject unknown ones', () => {
+      expect(setActiveFaultProfile('missing')).toEqual({ success: false, error: 'Unknown fault profile: missing' });
+
+      expect(setActiveFaultProfile('rate-limit-storm').success).toBe(true);
+      expect(getActiveFaultProfile().id).toBe('rate-limit-storm');
+
+      setActiveFaultProfile('production');
+    });
+  });
+
+  describe('simulated broadcasts', () => {
+    it('should collect bids on the happy path', async () => {
+      const response = await broadcastWith(builtIn('happy-path'));
+
+      expect(response.success).toBe(true);
+      expect(response.bids?.length).toBeGreaterThan(0);
+    });
+
+    it('should deny the broadcast when no buyer in the region responds', async () => {
+      const response = await broadcastWith(builtIn('no-buyers-in-region'));
+
+      expect(response.success).toBe(false);
+      expect(response.error?.type).toBe('DENIED');
+    });
+
+    it('should end with a network error when the gateway phase fails', async () => {
+      const outage: FaultProfile = {
+        ...builtIn('happy-path'),
+        phases: { ...builtIn('happy-path').phases, gateway: { minMs: 100, maxMs: 200, failureRate: 1 } }
+      };
+
+      const response = await broadcastWith(outage);
+
+      expect(response.error?.type).toBe('NETWORK_ERROR');
+      expect(response.networkPhases).toHaveLength(1);
+      expect(response.networkPhases?.[0].status).toBe('failed');
+    });
+
+    it('should rate limit when the profile always throttles', async () => {
+      const storm: FaultProfile = {
+        ...builtIn('rate-limit-storm'),
+        failures: { ...builtIn('rate-limit-storm').failures, RATE_LIMITED: 1 }
+      };
+
+      const response = await broadcastWith(storm);
+
+      expect(response.error).toMatchObject({ type: 'RATE_LIMITED', code: 429 });
+    });
+
+    it('should time out when every buyer answers after the window', async () => {
+      const late: FaultProfile = {
+        ...builtIn('happy-path'),
+        bidResponse: { minShare: 1.1, maxShare: 1.5 }
+      };
+
+      const response = await broadcastWith(late);
+
+      expect(response.error?.type).toBe('TIMEOUT');
+      expect(prisma.bid.create).not.toHaveBeenCalled();
+    });
+  });
+});
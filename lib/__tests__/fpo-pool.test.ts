@@ -0,0 +1,185 @@
+/**
+ * FPO Pool Tests
+ *
+ * Tests for pooling members' produce into one listing, splitting a sale
+ * pro-rata and telling members their share.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { contributeToPool, recordPoolShares, splitProceeds, takeUnannouncedShares } from '../fpo-pool';
+import { updateCatalog } from '../catalog-revisions';
+import { prisma } from '../db';
+import { SAMPLE_ONION_CATALOG } from '@/tests/fixtures/beckn-catalog';
+
+vi.mock('../db', () => ({
+  prisma: {
+    farmer: { findUnique: vi.fn() },
+    catalog: {
+      findMany: vi.fn(),
+      create: vi.fn()
+    },
+    poolContribution: {
+      upsert: vi.fn(),
+      aggregate: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn()
+    }
+  },
+  handleDatabaseError: () => 'A database error occurred'
+}));
+
+vi.mock('../catalog-revisions', () => ({
+  firstRevision: vi.fn(() => ({ create: {} })),
+  updateCatalog: vi.fn()
+}));
+
+const MEMBER = { id: 'farmer-2', fpoId: 'fpo-1' } as any;
+
+const POOL = {
+  id: 'catalog-pool',
+  farmerId: 'farmer-1',
+  fpoId: 'fpo-1',
+  status: 'DRAFT',
+  becknJson: SAMPLE_ONION_CATALOG
+} as any;
+
+describe('FPO Pool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.farmer.findUnique).mockResolvedValue(MEMBER);
+    vi.mocked(prisma.catalog.findMany).mockResolvedValue([]);
+  });
+
+  describe('contributeToPool', () => {
+    it('should need an FPO membership', async () => {
+      vi.mocked(prisma.farmer.findUnique).mockResolvedValue({ ...MEMBER, fpoId: null });
+
+      const result = await contributeToPool('farmer-2', SAMPLE_ONION_CATALOG);
+
+      expect(result).toEqual({ success: false, error: 'Farmer is not a member of an FPO' });
+    });
+
+    it('should open a pool when none takes the same produce', async () => {
+      const grapes = { ...SAMPLE_ONION_CATALOG, descriptor: { name: 'Grapes', symbol: '/icons/grapes.png' } };
+      vi.mocked(prisma.catalog.findMany).mockResolvedValue([{ ...POOL, becknJson: grapes }]);
+      vi.mocked(prisma.catalog.create).mockResolvedValue({ id: 'catalog-new', contributions: [{ quantity: 500 }] } as any);
+
+      const result = await contributeToPool('farmer-2', SAMPLE_ONION_CATALOG);
+
+      expect(result).toMatchObject({ success: true, openedPool: true, catalog: { id: 'catalog-new' } });
+      expect(prisma.catalog.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          farmerId: 'farmer-2',
+          fpoId: 'fpo-1',
+          contributions: { create: { farmerId: 'farmer-2', quantity: 500 } }
+        })
+      }));
+    });
+
+    it('should add to the open pool of the same commodity and grade', async () => {
+      vi.mocked(prisma.catalog.findMany).mockResolvedValue([POOL]);
+      vi.mocked(prisma.poolContribution.upsert).mockResolvedValue({ quantity: 200 } as any);
+      vi.mocked(prisma.poolContribution.aggregate).mockResolvedValue({ _sum: { quantity: 700 } } as any);
+      vi.mocked(updateCatalog).mockResolvedValue({ success: true, catalog: POOL });
+
+      const lot = { ...SAMPLE_ONION_CATALOG, descriptor: { ...SAMPLE_ONION_CATALOG.descriptor, name: 'onion' }, quantity: { available: { count: 200 }, unit: 'kg' } };
+      const result = await contributeToPool('farmer-2', lot);
+
+      expect(result).toMatchObject({ success: true, openedPool: false });
+      expect(prisma.poolContribution.upsert).toHaveBeenCalledWith({
+        where: { catalogId_farmerId: { catalogId: 'catalog-pool', farmerId: 'farmer-2' } },
+        create: { catalogId: 'catalog-pool', farmerId: 'farmer-2', quantity: 200 },
+        update: { quantity: { increment: 200 } }
+      });
+      expect(updateCatalog).toHaveBeenCalledWith('catalog-pool', expect.objectContaining({
+        quantity: { available: { count: 700 }, unit: 'kg' }
+      }), { changedBy: 'farmer-2', note: 'Pool contribution', poolTotal: true });
+    });
+
+    it('should keep other grades apart', async () => {
+      vi.mocked(prisma.catalog.findMany).mockResolvedValue([POOL]);
+      vi.mocked(prisma.catalog.create).mockResolvedValue({ id: 'catalog-new', contributions: [{}] } as any);
+
+      const result = await contributeToPool('farmer-2', { ...SAMPLE_ONION_CATALOG, tags: { ...SAMPLE_ONION_CATALOG.tags, grade: 'C' } });
+
+      expect(result.openedPool).toBe(true);
+      expect(prisma.poolContribution.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('splitProceeds', () => {
+    it('should split by what each member put in', () => {
+      const shares = splitProceeds(10000, [
+        { farmerId: 'farmer-1', quantity: 300 },
+        { farmerId: 'farmer-2', quantity: 200 }
+      ]);
+
+      expect(shares).toEqual(new Map([['farmer-1', 6000], ['farmer-2', 4000]]));
+    });
+
+    it('should give the rounding difference to the largest contributor', () => {
+      const shares = splitProceeds(100, [
+        { farmerId: 'farmer-1', quantity: 10 },
+        { farmerId: 'farmer-2', quantity: 10 },
+        { farmerId: 'farmer-3', quantity: 5 }
+      ]);
+
+      expect(shares).toEqual(new Map([['farmer-1', 40], ['farmer-2', 40], ['farmer-3', 20]]));
+
+      const thirds = splitProceeds(100, [
+        { farmerId: 'farmer-1', quantity: 10 },
+        { farmerId: 'farmer-2', quantity: 10 },
+        { farmerId: 'farmer-3', quantity: 10 }
+      ]);
+
+      expect(thirds).toEqual(new Map([['farmer-1', 33.34], ['farmer-2', 33.33], ['farmer-3', 33.33]]));
+    });
+  });
+
+  describe('recordPoolShares', () => {
+    it('should record each member share of the sale', async () => {
+      vi.mocked(prisma.poolContribution.findMany).mockResolvedValue([
+        { farmerId: 'farmer-1', quantity: 300 },
+        { farmerId: 'farmer-2', quantity: 200 }
+      ] as any);
+
+      await recordPoolShares('catalog-pool', 20000);
+
+      expect(prisma.poolContribution.update).toHaveBeenCalledWith({
+        where: { catalogId_farmerId: { catalogId: 'catalog-pool', farmerId: 'farmer-2' } },
+        data: { shareAmount: 8000, shareAnnouncedAt: null }
+      });
+    });
+  });
+
+  describe('takeUnannouncedShares', () => {
+    it('should tell each share once', async () => {
+      vi.mocked(prisma.poolContribution.findMany).mockResolvedValue([{
+        id: 'contribution-2',
+        quantity: 200,
+        shareAmount: 8000,
+        catalog: {
+          ...POOL,
+          status: 'SOLD',
+          fpo: { name: 'Nashik Kisan Producer Company' },
+          contributions: [{ quantity: 300 }, { quantity: 200 }]
+        }
+      }] as any);
+      vi.mocked(prisma.poolContribution.updateMany).mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+      expect(await takeUnannouncedShares('farmer-2')).toEqual([{
+        catalogId: 'catalog-pool',
+        fpoName: 'Nashik Kisan Producer Company',
+        commodity: 'onion',
+        status: 'SOLD',
+        quantity: 200,
+        totalQuantity: 500,
+        unit: 'kg',
+        shareAmount: 8000,
+        currency: 'INR'
+      }]);
+      expect(await takeUnannouncedShares('farmer-2')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Fulfillment Tracker Tests
+ *
+ * Tests for the fulfillment schedule and order tracking.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { getFulfillmentSchedule, getOrderTracking, getLatestOrderTracking } from '../fulfillment-tracker';
+import { simulateBuyerCancellation, simulateFulfillmentUpdate } from '../network-simulator';
+import { prisma } from '../db';
+
+vi.mock('../db', () => ({
+  prisma: {
+    order: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn()
+    }
+  }
+}));
+
+vi.mock('../network-simulator', () => ({
+  simulateFulfillmentUpdate: vi.fn(),
+  simulateBuyerCancellation: vi.fn(),
+  getBuyerCancelRate: () => Number(process.env.ONDC_BUYER_CANCEL_RATE || 0)
+}));
+
+vi.mock('../ondc-broadcast', () => ({
+  getTransport: () => process.env.ONDC_TRANSPORT === 'http' ? 'http' : 'simulated'
+}));
+
+vi.mock('../ondc-callbacks', () => ({
+  deliverSimulatedCallback: vi.fn()
+}));
+
+const HOUR = 3600000;
+const CONFIRMED_AT = new Date('2026-01-10T00:00:00.000Z');
+
+const ORDER = {
+  id: 'order-1',
+  catalogId: 'catalog-1',
+  farmerId: 'farmer-1',
+  buyerName: 'BigBasket (Tata Digital)',
+  status: 'ORDER_CONFIRMED',
+  deliveryDays: 2,
+  confirmedAt: CONFIRMED_AT,
+  createdAt: CONFIRMED_AT
+};
+
+function event(state: string, occurredAt: Date, logisticsProvider: string | null = 'Delhivery') {
+  return { id: `event-${state}`, orderId: 'order-1', state, occurredAt, logisticsProvider };
+}
+
+function mockOrder(overrides: Record<string, unknown> = {}, events: unknown[] = []) {
+  vi.mocked(prisma.order.findUnique).mockResolvedValue({ ...ORDER, ...overrides, fulfillmentEvents: events } as any);
+}
+
+describe('Fulfillment Tracker', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    delete process.env.ONDC_FULFILLMENT_DURATION_MS;
+    delete process.env.ONDC_TRANSPORT;
+    delete process.env.ONDC_BUYER_CANCEL_RATE;
+  });
+
+  describe('getFulfillmentSchedule', () => {
+    it('should spread the stages over the delivery days', () => {
+      const schedule = getFulfillmentSchedule(ORDER);
+
+      expect(schedule.map(stage => stage.state)).toEqual(['PACKED', 'PICKED_UP', 'IN_TRANSIT', 'DELIVERED']);
+      expect(schedule[0].dueAt.getTime() - CONFIRMED_AT.getTime()).toBe(4.8 * HOUR);
+      expect(schedule[3].dueAt.getTime() - CONFIRMED_AT.getTime()).toBe(48 * HOUR);
+    });
+
+    it('should use the configured delivery duration', () => {
+      process.env.ONDC_FULFILLMENT_DURATION_MS = '600000';
+
+      const schedule = getFulfillmentSchedule(ORDER);
+
+      expect(schedule[3].dueAt.getTime() - CONFIRMED_AT.getTime()).toBe(600000);
+    });
+  });
+
+  describe('getOrderTracking', () => {
+    it('should report the stages that have fallen due', async () => {
+      mockOrder();
+      const now = new Date(CONFIRMED_AT.getTime() + 13 * HOUR);
+
+      await getOrderTracking('order-1', now);
+
+      expect(vi.mocked(simulateFulfillmentUpdate).mock.calls.map(([, stage]) => stage)).toEqual(['PACKED', 'PICKED_UP']);
+      expect(prisma.order.findUnique).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not report stages again', async () => {
+      mockOrder({}, [event('PACKED', new Date(CONFIRMED_AT.getTime() + 4.8 * HOUR))]);
+
+      const tracking = await getOrderTracking('order-1', new Date(CONFIRMED_AT.getTime() + 6 * HOUR));
+
+      expect(simulateFulfillmentUpdate).not.toHaveBeenCalled();
+      expect(tracking).toMatchObject({
+        currentState: 'PACKED',
+        nextState: 'PICKED_UP',
+        logisticsProvider: 'Delhivery',
+        expectedDeliveryAt: new Date(CONFIRMED_AT.getTime() + 48 * HOUR)
+      });
+    });
+
+    it('should let the buyer cancel instead of packing', async () => {
+      process.env.ONDC_BUYER_CANCEL_RATE = '1';
+      mockOrder();
+
+      await getOrderTracking('order-1', new Date(CONFIRMED_AT.getTime() + 13 * HOUR));
+
+      expect(simulateBuyerCancellation).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'order-1' }),
+        new Date(CONFIRMED_AT.getTime() + 4.8 * HOUR),
+        expect.any(Object)
+      );
+      expect(simulateFulfillmentUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should leave fulfillment to the buyer over HTTP', async () => {
+      process.env.ONDC_TRANSPORT = 'http';
+      mockOrder();
+
+      await getOrderTracking('order-1', new Date(CONFIRMED_AT.getTime() + 72 * HOUR));
+
+      expect(simulateFulfillmentUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should describe a delivered order', async () => {
+      const deliveredAt = new Date(CONFIRMED_AT.getTime() + 40 * HOUR);
+      mockOrder({ status: 'FULFILLED' }, [
+        event('PACKED', CONFIRMED_AT),
+        event('DELIVERED', deliveredAt)
+      ]);
+
+      const tracking = await getOrderTracking('order-1');
+
+      expect(simulateFulfillmentUpdate).not.toHaveBeenCalled();
+      expect(tracking?.currentState).toBe('DELIVERED');
+      expect(tracking?.nextState).toBeUndefined();
+      expect(tracking?.expectedDeliveryAt).toEqual(deliveredAt);
+    });
+
+    it('should return null for an unknown order', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue(null);
+
+      expect(await getOrderTracking('missing')).toBeNull();
+    });
+  });
+
+  describe('getLatestOrderTracking', () => {
+    it('should return null when the farmer has no orders', async () => {
+      vi.mocked(prisma.order.findFirst).mockResolvedValue(null);
+
+      expect(await getLatestOrderTracking('farmer-1')).toBeNull();
+      expect(prisma.order.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { farmerId: 'farmer-1' },
+        orderBy: { createdAt: 'desc' }
+      }));
+    });
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * IGM Tests
+ *
+ * Tests for the issue state machine and for raising and working issues.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { canApplyIssueStep, getNextIssueLevel } from '../issue-lifecycle';
+import { InvalidTransitionError } from '../order-lifecycle';
+import { closeIssue, escalateIssue, raiseIssue, respondToIssue, simulateBuyerComplaint } from '../igm';
+import { simulateBuyerIssue, simulateIssueExchange } from '../network-simulator';
+import { prisma } from '../db';
+
+vi.mock('../db', () => ({
+  prisma: {
+    order: {
+      findUnique: vi.fn()
+    },
+    issue: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      updateMany: vi.fn()
+    },
+    issueAction: {
+      create: vi.fn()
+    }
+  }
+}));
+
+vi.mock('../network-simulator', () => ({
+  simulateIssueExchange: vi.fn(),
+  simulateIssueStatus: vi.fn(),
+  simulateBuyerIssue: vi.fn()
+}));
+
+vi.mock('../ondc-callbacks', () => ({
+  deliverSimulatedCallback: vi.fn()
+}));
+
+const ORDER = {
+  id: 'order-1',
+  catalogId: 'catalog-1',
+  farmerId: 'farmer-1',
+  transactionId: 'txn-1',
+  buyerName: 'BigBasket (Tata Digital)',
+  quantity: 500,
+  pricePerUnit: 38.5,
+  status: 'FULFILLED'
+};
+
+const ISSUE = {
+  id: 'issue-1',
+  orderId: 'order-1',
+  kind: 'PAYMENT_NOT_RECEIVED',
+  complainant: 'FARMER',
+  description: 'Payment for the order not received',
+  level: 'ISSUE',
+  status: 'PROCESSING'
+};
+
+function mockIssue(overrides: Record<string, unknown> = {}) {
+  vi.mocked(prisma.issue.findUnique).mockResolvedValue({ ...ISSUE, ...overrides, order: ORDER } as any);
+}
+
+describe('IGM', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.issue.updateMany).mockResolvedValue({ count: 1 });
+  });
+
+  describe('issue lifecycle', () => {
+    it('should escalate through the levels up to a dispute', () => {
+      expect(getNextIssueLevel('ISSUE')).toBe('GRIEVANCE');
+      expect(getNextIssueLevel('GRIEVANCE')).toBe('DISPUTE');
+      expect(getNextIssueLevel('DISPUTE')).toBeNull();
+    });
+
+    it('should leave each step to the right party', () => {
+      const issue = { complainant: 'FARMER', status: 'OPEN', level: 'ISSUE' } as const;
+
+      expect(canApplyIssueStep(issue, 'BUYER', 'PROCESSING')).toBe(true);
+      expect(canApplyIssueStep(issue, 'FARMER', 'PROCESSING')).toBe(false);
+      expect(canApplyIssueStep(issue, 'FARMER', 'ESCALATE')).toBe(true);
+      expect(canApplyIssueStep(issue, 'BUYER', 'CLOSE')).toBe(false);
+    });
+
+    it('should not escalate a dispute or act on a closed issue', () => {
+      expect(canApplyIssueStep({ complainant: 'FARMER', status: 'RESOLVED', level: 'DISPUTE' }, 'FARMER', 'ESCALATE')).toBe(false);
+      expect(canApplyIssueStep({ complainant: 'FARMER', status: 'RESOLVED', level: 'DISPUTE' }, 'FARMER', 'CLOSE')).toBe(true);
+      expect(canApplyIssueStep({ complainant: 'BUYER', status: 'CLOSED', level: 'ISSUE' }, 'FARMER', 'RESOLVED')).toBe(false);
+    });
+  });
+
+  describe('raiseIssue', () => {
+    it('should open the issue and send it to the buyer', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({ ...ORDER, issues: [] } as any);
+      vi.mocked(prisma.issue.create).mockResolvedValue({ ...ISSUE, status: 'OPEN' } as any);
+
+      const result = await raiseIssue('order-1', 'PAYMENT_NOT_RECEIVED', 'Paid 3 days late');
+
+      expect(result.success).toBe(true);
+      expect(prisma.issue.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          orderId: 'order-1',
+          transactionId: 'txn-1',
+          complainant: 'FARMER',
+          description: 'Paid 3 days late',
+          actions: { create: expect.objectContaining({ party: 'FARMER', action: 'OPEN', source: 'issue' }) }
+        })
+      });
+      expect(simulateIssueExchange).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'order-1' }),
+        expect.objectContaining({ id: 'issue-1' }),
+        'OPEN',
+        'Paid 3 days late',
+        expect.any(Object)
+      );
+    });
+
+    it('should leave produce complaints to the buyer', async () => {
+      const result = await raiseIssue('order-1', 'QUALITY');
+
+      expect(result.success).toBe(false);
+      expect(prisma.order.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should not raise the same issue twice', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({ ...ORDER, issues: [ISSUE] } as any);
+
+      const result = await raiseIssue('order-1', 'PAYMENT_NOT_RECEIVED');
+
+      expect(result).toEqual({ success: false, error: 'Issue issue-1 about this is still open' });
+    });
+
+    it('should not raise issues on an order that is not confirmed', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({ ...ORDER, status: 'CANCELLED', issues: [] } as any);
+
+      const result = await raiseIssue('order-1', 'PAYMENT_NOT_RECEIVED');
+
+      expect(result.success).toBe(false);
+      expect(simulateIssueExchange).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('simulateBuyerComplaint', () => {
+    it('should return the issue the buyer raised', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({ ...ORDER, issues: [] } as any);
+      vi.mocked(simulateBuyerIssue).mockResolvedValue('issue-2');
+      vi.mocked(prisma.issue.findUnique).mockResolvedValue({ ...ISSUE, id: 'issue-2', kind: 'QUALITY', complainant: 'BUYER' } as any);
+
+      const result = await simulateBuyerComplaint('order-1', 'QUALITY');
+
+      expect(result.success).toBe(true);
+      expect(result.issue?.id).toBe('issue-2');
+    });
+  });
+
+  describe('working issues', () => {
+    it('should record a resolution to the buyer\'s complaint', async () => {
+      mockIssue({ complainant: 'BUYER', kind: 'QUALITY', status: 'PROCESSING' });
+
+      const result = await respondToIssue('issue-1', {
+        action: 'RESOLVED',
+        resolution: 'REFUND',
+        note: 'Refund for the damaged share',
+        refundAmount: 1000
+      });
+
+      expect(result.success).toBe(true);
+      expect(prisma.issue.updateMany).toHaveBeenCalledWith({
+        where: { id: 'issue-1', status: 'PROCESSING', level: 'ISSUE' },
+        data: { status: 'RESOLVED', resolution: 'REFUND', resolutionNote: 'Refund for the damaged share', refundAmount: 1000 }
+      });
+      expect(prisma.issueAction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ party: 'FARMER', action: 'RESOLVED', source: 'issue' })
+      });
+      expect(simulateIssueExchange).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'order-1' }),
+        expect.objectContaining({ status: 'RESOLVED', resolution: 'REFUND' }),
+        'RESOLVED',
+        'Refund for the damaged share',
+        expect.any(Object)
+      );
+    });
+
+    it('should require an amount for a refund', async () => {
+      const result = await respondToIssue('issue-1', { action: 'RESOLVED', resolution: 'REFUND', note: 'Refund' });
+
+      expect(result).toEqual({ success: false, error: 'A refund needs an amount' });
+    });
+
+    it('should escalate to the next level and clear the rejected resolution', async () => {
+      mockIssue({ status: 'RESOLVED', resolution: 'NO-ACTION' });
+
+      const result = await escalateIssue('issue-1');
+
+      expect(result.success).toBe(true);
+      expect(prisma.issue.updateMany).toHaveBeenCalledWith({
+        where: { id: 'issue-1', status: 'RESOLVED', level: 'ISSUE' },
+        data: { status: 'OPEN', level: 'GRIEVANCE', resolution: null, resolutionNote: null, refundAmount: null }
+      });
+    });
+
+    it('should not let the farmer close a complaint made against them', async () => {
+      mockIssue({ complainant: 'BUYER', kind: 'QUALITY' });
+
+      const result = await closeIssue('issue-1');
+
+      expect(result.success).toBe(false);
+      expect(prisma.issue.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should fail when the issue changed meanwhile', async () => {
+      mockIssue();
+      vi.mocked(prisma.issue.updateMany).mockResolvedValue({ count: 0 });
+
+      const result = await closeIssue('issue-1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(new InvalidTransitionError('Issue', 'issue-1', 'PROCESSING (ISSUE)', 'CLOSE by FARMER').message);
+      expect(simulateIssueExchange).not.toHaveBeenCalled();
+    });
+  });
+});
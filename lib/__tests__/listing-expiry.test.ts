@@ -0,0 +1,231 @@
+/**
+ * Listing Expiry Tests
+ *
+ * Tests for listing time-to-live, the sweep that expires stale listings
+ * and lapsed bids, and re-listing an expired listing.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  findRelistPrompt,
+  getListingExpiry,
+  getListingPerishability,
+  getListingTtlHours,
+  relistListing,
+  runExpirySweep
+} from '../listing-expiry';
+import { updateCatalog } from '../catalog-revisions';
+import { startBroadcast } from '../ondc-broadcast';
+import { prisma } from '../db';
+import type { BecknCatalogItem } from '../beckn-schema';
+
+vi.mock('../db', () => ({
+  prisma: {
+    catalog: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      updateMany: vi.fn()
+    },
+    bid: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      updateMany: vi.fn()
+    },
+    networkLog: {
+      create: vi.fn()
+    }
+  },
+  handleDatabaseError: () => 'A database error occurred'
+}));
+
+vi.mock('../catalog-revisions', () => ({
+  updateCatalog: vi.fn()
+}));
+
+vi.mock('../ondc-broadcast', () => ({
+  startBroadcast: vi.fn()
+}));
+
+const ONIONS: BecknCatalogItem = {
+  descriptor: { name: 'Nasik Onions', symbol: '/icons/onion.png' },
+  price: { value: 40, currency: 'INR' },
+  quantity: { available: { count: 500 }, unit: 'kg' },
+  tags: { grade: 'A', perishability: 'medium' }
+};
+
+const NOW = new Date('2026-10-10T12:00:00.000Z');
+
+function catalog(status = 'EXPIRED', item: BecknCatalogItem = ONIONS) {
+  return {
+    id: 'catalog-1',
+    farmerId: 'farmer-1',
+    becknJson: item,
+    status,
+    version: 1,
+    expiresAt: new Date('2026-10-09T12:00:00.000Z'),
+    relistPromptedAt: null,
+    createdAt: new Date('2026-10-06T12:00:00.000Z'),
+    updatedAt: new Date('2026-10-09T12:00:00.000Z')
+  } as any;
+}
+
+describe('Listing Expiry', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.catalog.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.bid.updateMany).mockResolvedValue({ count: 2 });
+    vi.mocked(prisma.bid.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.networkLog.create).mockResolvedValue({} as any);
+    vi.mocked(startBroadcast).mockResolvedValue({ success: true, transactionId: 'txn-relist' });
+  });
+
+  describe('time to live', () => {
+    it('should keep listings open for as long as the produce keeps', () => {
+      expect(getListingTtlHours({ ...ONIONS, tags: { perishability: 'high' } })).toBe(24);
+      expect(getListingTtlHours(ONIONS)).toBe(72);
+      expect(getListingTtlHours({ ...ONIONS, descriptor: { name: 'Wheat', symbol: '/icons/wheat.png' }, tags: { perishability: 'low' } }))
+        .toBe(168);
+      expect(getListingExpiry(ONIONS, NOW)).toEqual(new Date('2026-10-13T12:00:00.000Z'));
+    });
+
+    it('should use the commodity when it is more perishable than tagged', () => {
+      const tomatoes = { ...ONIONS, descriptor: { name: 'Tomatoes', symbol: '/icons/tomato.png' }, tags: { perishability: 'low' as const } };
+
+      expect(getListingPerishability(tomatoes)).toBe('high');
+      expect(getListingPerishability({ ...ONIONS, tags: {} })).toBe('medium');
+      expect(getListingPerishability({ ...ONIONS, descriptor: { name: 'Saffron', symbol: '/icons/wheat.png' }, tags: {} })).toBe('medium');
+    });
+  });
+
+  describe('runExpirySweep', () => {
+    it('should expire stale listings and the bids open on them', async () => {
+      vi.mocked(prisma.catalog.findMany).mockResolvedValue([{ id: 'catalog-1' }] as any);
+
+      const result = await runExpirySweep(NOW);
+
+      expect(result).toEqual({ success: true, expiredCatalogIds: ['catalog-1'], lapsedBids: 2 });
+      expect(prisma.catalog.findMany).toHaveBeenCalledWith({
+        where: { status: 'BROADCASTED', expiresAt: { lte: NOW } },
+        select: { id: true }
+      });
+      expect(prisma.catalog.updateMany).toHaveBeenCalledWith({
+        where: { id: 'catalog-1', status: 'BROADCASTED' },
+        data: { status: 'EXPIRED' }
+      });
+      expect(prisma.bid.updateMany).toHaveBeenCalledWith({
+        where: { catalogId: 'catalog-1', status: 'RECEIVED' },
+        data: { status: 'EXPIRED' }
+      });
+    });
+
+    it('should leave a listing that sold since it was found', async () => {
+      vi.mocked(prisma.catalog.findMany).mockResolvedValue([{ id: 'catalog-1' }] as any);
+      vi.mocked(prisma.catalog.updateMany).mockResolvedValue({ count: 0 });
+
+      const result = await runExpirySweep(NOW);
+
+      expect(result.expiredCatalogIds).toEqual([]);
+      expect(prisma.bid.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should lapse bids whose validity has run out', async () => {
+      vi.mocked(prisma.catalog.findMany).mockResolvedValue([]);
+      vi.mocked(prisma.bid.findMany).mockResolvedValue([
+        { id: 'bid-old', receivedAt: new Date('2026-10-09T11:00:00.000Z'), validityHours: 24 },
+        { id: 'bid-new', receivedAt: new Date('2026-10-10T11:00:00.000Z'), validityHours: 24 }
+      ] as any);
+      vi.mocked(prisma.bid.updateMany).mockResolvedValue({ count: 1 });
+
+      const result = await runExpirySweep(NOW);
+
+      expect(result.lapsedBids).toBe(1);
+      expect(prisma.bid.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['bid-old'] }, status: 'RECEIVED' },
+        data: { status: 'EXPIRED' }
+      });
+    });
+
+    it('should report a failed sweep', async () => {
+      vi.mocked(prisma.catalog.findMany).mockRejectedValue(new Error('database is locked'));
+
+      const result = await runExpirySweep(NOW);
+
+      expect(result).toEqual({ success: false, expiredCatalogIds: [], lapsedBids: 0, error: 'A database error occurred' });
+    });
+  });
+
+  describe('findRelistPrompt', () => {
+    it('should suggest the best bid when it was below the asking price', async () => {
+      vi.mocked(prisma.catalog.findFirst).mockResolvedValue(catalog());
+      vi.mocked(prisma.bid.findFirst).mockResolvedValue({ pricePerUnit: 35 } as any);
+
+      const prompt = await findRelistPrompt('farmer-1');
+
+      expect(prompt).toEqual({
+        catalogId: 'catalog-1',
+        commodity: 'Onions',
+        quantity: 500,
+        unit: 'kg',
+        price: 40,
+        suggestedPrice: 35,
+        expiredAt: new Date('2026-10-09T12:00:00.000Z')
+      });
+      expect(prisma.catalog.updateMany).toHaveBeenCalledWith({
+        where: { id: 'catalog-1', relistPromptedAt: null },
+        data: { relistPromptedAt: expect.any(Date) }
+      });
+    });
+
+    it('should suggest 10% off when no bid came in lower', async () => {
+      vi.mocked(prisma.catalog.findFirst).mockResolvedValue(catalog());
+      vi.mocked(prisma.bid.findFirst).mockResolvedValue(null);
+
+      expect((await findRelistPrompt('farmer-1'))?.suggestedPrice).toBe(36);
+    });
+
+    it('should only ask about a listing once', async () => {
+      vi.mocked(prisma.catalog.findFirst).mockResolvedValue(catalog());
+      vi.mocked(prisma.catalog.updateMany).mockResolvedValue({ count: 0 });
+
+      expect(await findRelistPrompt('farmer-1')).toBeNull();
+      expect(prisma.bid.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('relistListing', () => {
+    it('should broadcast an expired listing again with a fresh expiry', async () => {
+      vi.mocked(prisma.catalog.findUnique).mockResolvedValue(catalog());
+
+      const result = await relistListing('catalog-1');
+
+      expect(result).toMatchObject({ success: true, transactionId: 'txn-relist', catalog: { status: 'BROADCASTED' } });
+      expect(updateCatalog).not.toHaveBeenCalled();
+      expect(prisma.catalog.updateMany).toHaveBeenCalledWith({
+        where: { id: 'catalog-1', status: 'EXPIRED' },
+        data: { status: 'BROADCASTED', expiresAt: expect.any(Date) }
+      });
+      expect(startBroadcast).toHaveBeenCalledWith('catalog-1');
+    });
+
+    it('should record a lower price as a revision', async () => {
+      const cheaper = { ...ONIONS, price: { value: 35, currency: 'INR' } };
+      vi.mocked(prisma.catalog.findUnique).mockResolvedValue(catalog());
+      vi.mocked(updateCatalog).mockResolvedValue({ success: true, catalog: { ...catalog(), becknJson: cheaper, version: 2 } });
+
+      const result = await relistListing('catalog-1', 35);
+
+      expect(updateCatalog).toHaveBeenCalledWith('catalog-1', cheaper, { note: 'Re-listed after expiry' });
+      expect(result.catalog).toMatchObject({ version: 2, becknJson: cheaper });
+    });
+
+    it('should only re-list expired listings', async () => {
+      vi.mocked(prisma.catalog.findUnique).mockResolvedValue(catalog('BROADCASTED'));
+
+      const result = await relistListing('catalog-1');
+
+      expect(result).toEqual({ success: false, error: 'Only an expired listing can be listed again' });
+      expect(startBroadcast).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,350 @@
+/**
+ * Negotiation Tests
+ *
+ * Tests for accepting, rejecting and countering buyer bids.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { acceptBid, rejectBid, counterBid } from '../negotiation';
+import { simulateCounterOffer, simulateOrderConfirmation } from '../network-simulator';
+import { prisma } from '../db';
+import { SAMPLE_ONION_CATALOG } from '@/tests/fixtures/beckn-catalog';
+
+vi.mock('../db', () => ({
+  prisma: {
+    catalog: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn()
+    },
+    networkLog: {
+      create: vi.fn()
+    },
+    bid: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      updateMany: vi.fn()
+    },
+    order: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      updateMany: vi.fn()
+    }
+  }
+}));
+
+vi.mock('../network-simulator', async importOriginal => ({
+  ...await importOriginal<typeof import('../network-simulator')>(),
+  simulateOrderConfirmation: vi.fn(),
+  simulateCounterOffer: vi.fn(),
+  updateLearningData: vi.fn()
+}));
+
+vi.mock('../ondc-callbacks', () => ({
+  deliverSimulatedCallback: vi.fn()
+}));
+
+const TRANSACTION_ID = '7f3b1c2a-9d4e-4f6a-8b1c-2d3e4f5a6b7c';
+
+const CATALOG = {
+  id: 'catalog-1',
+  farmerId: 'farmer-1',
+  status: 'BROADCASTED',
+  becknJson: SAMPLE_ONION_CATALOG
+};
+
+const BID_RECORD = {
+  id: 'bid-1',
+  catalogId: 'catalog-1',
+  farmerId: 'farmer-1',
+  transactionId: TRANSACTION_ID,
+  messageId: 'msg-1',
+  buyerName: 'BigBasket (Tata Digital)',
+  buyerSubscriberId: 'ondc.bigbasket.tata.bap',
+  pricePerUnit: 36,
+  catalogPrice: 40,
+  currency: 'INR',
+  paymentTerms: 'Payment on Delivery',
+  deliveryDays: 3,
+  validityHours: 48,
+  status: 'RECEIVED',
+  revisesBidId: null,
+  receivedAt: new Date(),
+  updatedAt: new Date()
+};
+
+function mockBid(overrides: Record<string, unknown> = {}, catalog: Record<string, unknown> = CATALOG) {
+  const record = { ...BID_RECORD, ...overrides };
+  vi.mocked(prisma.bid.findUnique).mockImplementation((async (args: any) =>
+    args.include?.catalog ? { ...record, catalog } : record
+  ) as any);
+}
+
+function bidTransitions() {
+  return vi.mocked(prisma.bid.updateMany).mock.calls.map(([args]) => [args?.where?.id, args?.data.status]);
+}
+
+function orderTransitions() {
+  return vi.mocked(prisma.order.updateMany).mock.calls.map(([args]) => args?.data.status);
+}
+
+function loggedResponses() {
+  return vi.mocked(prisma.networkLog.create).mock.calls
+    .map(([args]) => args.data)
+    .filter(data => data.type === 'BID_RESPONSE')
+    .map(data => data.payload as Record<string, unknown>);
+}
+
+describe('Negotiation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockBid();
+    vi.mocked(prisma.bid.create).mockImplementation((async (args: any) => ({
+      ...BID_RECORD,
+      ...args.data
+    })) as any);
+    vi.mocked(prisma.bid.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.bid.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.catalog.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.networkLog.create).mockImplementation((async (args: any) => ({
+      id: 'log-2',
+      ...args.data
+    })) as any);
+    vi.mocked(prisma.order.create).mockImplementation((async (args: any) => ({
+      status: 'BID_ACCEPTED',
+      ...args.data
+    })) as any);
+    vi.mocked(prisma.order.findUnique).mockImplementation((async () => ({
+      ...vi.mocked(prisma.order.create).mock.calls.at(-1)?.[0].data,
+      status: orderTransitions().includes('ORDER_CONFIRMED') ? 'ORDER_CONFIRMED' : 'BID_ACCEPTED'
+    })) as any);
+    vi.mocked(prisma.order.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(simulateOrderConfirmation).mockImplementation((async (_catalogId: string, _bid: unknown, options: any) => ({
+      orderId: options.orderId,
+      transactionId: TRANSACTION_ID
+    })) as any);
+  });
+
+  describe('acceptBid', () => {
+    it('should create an order and mark the catalog sold', async () => {
+      const result = await acceptBid('bid-1');
+
+      expect(result.success).toBe(true);
+      expect(result.outcome).toBe('SOLD');
+      expect(result.order?.status).toBe('ORDER_CONFIRMED');
+      expect(prisma.order.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          catalogId: 'catalog-1',
+          farmerId: 'farmer-1',
+          bidId: 'bid-1',
+          pricePerUnit: 36,
+          quantity: 500,
+          totalAmount: 18000
+        })
+      });
+      expect(prisma.catalog.updateMany).toHaveBeenCalledWith({
+        where: { id: 'catalog-1', status: 'BROADCASTED' },
+        data: { status: 'SOLD' }
+      });
+      expect(orderTransitions()).toEqual(['ORDER_CONFIRMED']);
+      expect(bidTransitions()).toEqual([['bid-1', 'ACCEPTED']]);
+      expect(loggedResponses()).toEqual([
+        expect.objectContaining({ bidId: 'bid-1', decision: 'ACCEPT', orderId: result.order?.id })
+      ]);
+    });
+
+    it("should expire the lot's other open bids", async () => {
+      vi.mocked(prisma.bid.findMany).mockResolvedValue([{ id: 'bid-2' }, { id: 'bid-3' }] as any);
+
+      const result = await acceptBid('bid-1');
+
+      expect(result.outcome).toBe('SOLD');
+      expect(prisma.bid.findMany).toHaveBeenCalledWith({
+        where: { catalogId: 'catalog-1', status: 'RECEIVED', id: { not: 'bid-1' } },
+        select: { id: true }
+      });
+      expect(bidTransitions()).toEqual([
+        ['bid-1', 'ACCEPTED'],
+        [{ in: ['bid-2', 'bid-3'] }, 'EXPIRED']
+      ]);
+    });
+
+    it('should reopen the other bids when the buyer does not confirm the order', async () => {
+      vi.mocked(prisma.bid.findMany).mockResolvedValue([{ id: 'bid-2' }] as any);
+      vi.mocked(simulateOrderConfirmation).mockRejectedValue(new Error('Buyer did not respond'));
+
+      await acceptBid('bid-1');
+
+      expect(prisma.bid.updateMany).toHaveBeenLastCalledWith({
+        where: { id: { in: ['bid-2'] }, status: 'EXPIRED' },
+        data: { status: 'RECEIVED' }
+      });
+    });
+
+    it('should cancel the order and release the listing when the buyer does not confirm it', async () => {
+      vi.mocked(simulateOrderConfirmation).mockRejectedValue(new Error('Buyer did not respond'));
+
+      const result = await acceptBid('bid-1');
+
+      expect(result.success).toBe(false);
+      expect(orderTransitions()).toEqual(['CANCELLED']);
+      expect(prisma.catalog.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'catalog-1', status: 'SOLD' },
+        data: { status: 'BROADCASTED' }
+      });
+    });
+
+    it('should put the bids and the listing back when the order cannot be created', async () => {
+      vi.mocked(prisma.bid.findMany).mockResolvedValue([{ id: 'bid-2' }] as any);
+      vi.mocked(prisma.order.create).mockRejectedValueOnce(new Error('database is locked'));
+
+      const result = await acceptBid('bid-1');
+
+      expect(result).toEqual({ success: false, error: 'database is locked' });
+      expect(bidTransitions()).toEqual([
+        ['bid-1', 'ACCEPTED'],
+        [{ in: ['bid-2'] }, 'EXPIRED'],
+        ['bid-1', 'RECEIVED'],
+        [{ in: ['bid-2'] }, 'RECEIVED']
+      ]);
+      expect(prisma.catalog.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'catalog-1', status: 'SOLD' },
+        data: { status: 'BROADCASTED' }
+      });
+      expect(simulateOrderConfirmation).not.toHaveBeenCalled();
+    });
+
+    it('should sell the lot once when it is accepted twice at the same time', async () => {
+      vi.mocked(prisma.catalog.updateMany).mockResolvedValueOnce({ count: 0 });
+
+      const result = await acceptBid('bid-1');
+
+      expect(result).toEqual({ success: false, error: 'This produce has already been sold' });
+      expect(bidTransitions()).toEqual([]);
+      expect(prisma.order.create).not.toHaveBeenCalled();
+      expect(simulateOrderConfirmation).not.toHaveBeenCalled();
+    });
+
+    it('should release the listing when the bid was answered in the meantime', async () => {
+      vi.mocked(prisma.bid.updateMany).mockResolvedValueOnce({ count: 0 });
+
+      const result = await acceptBid('bid-1');
+
+      expect(result).toEqual({ success: false, error: 'This bid has already been answered' });
+      expect(prisma.catalog.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'catalog-1', status: 'SOLD' },
+        data: { status: 'BROADCASTED' }
+      });
+      expect(prisma.order.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a bid on produce that is already sold', async () => {
+      mockBid({}, { ...CATALOG, status: 'SOLD' });
+
+      const result = await acceptBid('bid-1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('This produce has already been sold');
+      expect(simulateOrderConfirmation).not.toHaveBeenCalled();
+    });
+
+    it('should expire a bid past its validity', async () => {
+      mockBid({ receivedAt: new Date(Date.now() - 49 * 3600000) });
+
+      const result = await acceptBid('bid-1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('This bid has expired');
+      expect(bidTransitions()).toEqual([['bid-1', 'EXPIRED']]);
+      expect(prisma.order.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rejectBid', () => {
+    it('should record the rejection', async () => {
+      const result = await rejectBid('bid-1', 'Price too low');
+
+      expect(result).toMatchObject({ success: true, outcome: 'REJECTED' });
+      expect(bidTransitions()).toEqual([['bid-1', 'REJECTED']]);
+      expect(loggedResponses()).toEqual([
+        expect.objectContaining({ bidId: 'bid-1', decision: 'REJECT', reason: 'Price too low' })
+      ]);
+      expect(prisma.catalog.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a bid that was already rejected', async () => {
+      mockBid({ status: 'REJECTED' });
+
+      const result = await rejectBid('bid-1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('This bid has already been answered');
+    });
+  });
+
+  describe('counterBid', () => {
+    it('should require a price above the current bid', async () => {
+      const result = await counterBid('bid-1', 35);
+
+      expect(result.success).toBe(false);
+      expect(simulateCounterOffer).not.toHaveBeenCalled();
+    });
+
+    it('should keep the original bid when the buyer declines', async () => {
+      vi.mocked(simulateCounterOffer).mockResolvedValue({
+        outcome: 'DECLINED', pricePerUnit: 36, messageId: 'msg-2', transactionId: TRANSACTION_ID
+      });
+
+      const result = await counterBid('bid-1', 50);
+
+      expect(result).toMatchObject({ success: true, outcome: 'COUNTER_DECLINED', bid: { bidId: 'bid-1' } });
+      expect(loggedResponses()).toEqual([
+        expect.objectContaining({ decision: 'COUNTER', counterPrice: 50, outcome: 'DECLINED' })
+      ]);
+      expect(bidTransitions()).toEqual([]);
+    });
+
+    it('should record the revised bid when the buyer raises its price', async () => {
+      vi.mocked(simulateCounterOffer).mockResolvedValue({
+        outcome: 'COUNTERED', pricePerUnit: 39, messageId: 'msg-2', transactionId: TRANSACTION_ID
+      });
+
+      const result = await counterBid('bid-1', 42);
+
+      expect(result.outcome).toBe('COUNTER_RAISED');
+      expect(result.bid?.bidAmount).toBe(39);
+      expect(prisma.bid.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ pricePerUnit: 39, revisesBidId: 'bid-1', farmerId: 'farmer-1' })
+      });
+      expect(bidTransitions()).toEqual([['bid-1', 'COUNTERED']]);
+      expect(prisma.networkLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'INCOMING_BID',
+          payload: expect.objectContaining({ bidAmount: 39, revisesBidId: 'bid-1', source: 'on_select' })
+        })
+      });
+      expect(loggedResponses()).toEqual([
+        expect.objectContaining({ decision: 'COUNTER', outcome: 'COUNTERED', revisedBidId: result.bid?.bidId })
+      ]);
+      expect(prisma.order.create).not.toHaveBeenCalled();
+    });
+
+    it('should sell at the asking price when the buyer accepts', async () => {
+      vi.mocked(simulateCounterOffer).mockResolvedValue({
+        outcome: 'ACCEPTED', pricePerUnit: 40, messageId: 'msg-2', transactionId: TRANSACTION_ID
+      });
+
+      const result = await counterBid('bid-1', 40);
+
+      expect(result.outcome).toBe('SOLD');
+      expect(prisma.order.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ pricePerUnit: 40, totalAmount: 20000 })
+      });
+      expect(prisma.catalog.updateMany).toHaveBeenCalledWith({
+        where: { id: 'catalog-1', status: 'BROADCASTED' },
+        data: { status: 'SOLD' }
+      });
+    });
+  });
+});
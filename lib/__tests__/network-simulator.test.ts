@@ -5,7 +5,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { simulateBroadcast, getBuyerPool, validateCatalogForBroadcast } from '../network-simulator';
+import { simulateBroadcast, getBuyerPool, validateCatalogForBroadcast, rankBids, getAuctionWindowMs, evaluateCounterOffer, type BuyerBid } from '../network-simulator';
 import { prisma } from '../db';
 
 // Mock the prisma client
@@ -14,6 +14,9 @@ vi.mock('../db', () => ({
     catalog: {
       findUnique: vi.fn()
     },
+    bid: {
+      create: vi.fn()
+    },
     networkLog: {
       create: vi.fn()
     }
@@ -219,6 +222,74 @@ describe('Network Simulator', () => {
     });
   });
 
+  describe('rankBids', () => {
+    const bid = (overrides: Partial<BuyerBid>): BuyerBid => ({
+      buyerName: 'Buyer',
+      bidAmount: 40,
+      timestamp: new Date(),
+      buyerLogo: '',
+      buyerRating: 4.5,
+      buyerLocation: 'Mumbai, Maharashtra',
+      buyerVerified: true,
+      bidId: 'bid',
+      ...overrides
+    });
+
+    it('should put the highest price first', () => {
+      const ranked = rankBids([
+        bid({ bidId: 'low', bidAmount: 38 }),
+        bid({ bidId: 'high', bidAmount: 42 }),
+        bid({ bidId: 'mid', bidAmount: 40 })
+      ]);
+
+      expect(ranked.map(b => b.bidId)).toEqual(['high', 'mid', 'low']);
+    });
+
+    it('should break price ties on payment, delivery and rating', () => {
+      const ranked = rankBids([
+        bid({ bidId: 'on-delivery', paymentTerms: 'Payment on Delivery', deliveryDays: 2 }),
+        bid({ bidId: 'advance-slow', paymentTerms: 'Advance Payment', deliveryDays: 5 }),
+        bid({ bidId: 'advance-fast', paymentTerms: 'Advance Payment', deliveryDays: 2, buyerRating: 4.1 }),
+        bid({ bidId: 'advance-fast-rated', paymentTerms: 'Advance Payment', deliveryDays: 2, buyerRating: 4.8 })
+      ]);
+
+      expect(ranked.map(b => b.bidId)).toEqual(['advance-fast-rated', 'advance-fast', 'advance-slow', 'on-delivery']);
+    });
+  });
+
+  describe('getAuctionWindowMs', () => {
+    afterEach(() => {
+      delete process.env.ONDC_AUCTION_WINDOW_MS;
+    });
+
+    it('should default to 30 seconds', () => {
+      expect(getAuctionWindowMs()).toBe(30000);
+    });
+
+    it('should read the window from the environment', () => {
+      process.env.ONDC_AUCTION_WINDOW_MS = '5000';
+      expect(getAuctionWindowMs()).toBe(5000);
+
+      process.env.ONDC_AUCTION_WINDOW_MS = 'soon';
+      expect(getAuctionWindowMs()).toBe(30000);
+    });
+  });
+
+  describe('evaluateCounterOffer', () => {
+    it('should accept an asking price within the buyer ceiling', () => {
+      expect(evaluateCounterOffer(40, 36, 41)).toEqual({ outcome: 'ACCEPTED', pricePerUnit: 40 });
+    });
+
+    it('should raise the bid to the ceiling when the ask is slightly above it', () => {
+      expect(evaluateCounterOffer(44, 36, 41.234)).toEqual({ outcome: 'COUNTERED', pricePerUnit: 41.23 });
+    });
+
+    it('should decline an asking price far above the ceiling', () => {
+      expect(evaluateCounterOffer(60, 36, 41)).toEqual({ outcome: 'DECLINED', pricePerUnit: 36 });
+      expect(evaluateCounterOffer(38, 36, 36)).toEqual({ outcome: 'DECLINED', pricePerUnit: 36 });
+    });
+  });
+
   describe('validateCatalogForBroadcast', () => {
     it('should return true for valid catalog', () => {
       const validCatalog = {
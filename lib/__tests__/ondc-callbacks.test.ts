@@ -0,0 +1,497 @@
+/**
+ * ONDC Callbacks Tests
+ *
+ * Tests for validation, correlation and persistence of on_* callbacks.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { handleOndcCallback, processOndcCallback } from '../ondc-callbacks';
+import {
+  createOndcContext,
+  createCallbackContext,
+  createEnvelope,
+  buildOnSearchMessage,
+  buildOnStatusMessage,
+  buildOnCancelMessage,
+  buildOnIssueMessage,
+  type ONDCFulfillmentStage,
+  type ONDCIssueAction,
+  type ONDCIssueResolution,
+  type ONDCIssueTerms,
+  type ONDCOrderTerms
+} from '../ondc-protocol';
+import { prisma } from '../db';
+import { SAMPLE_ONION_CATALOG } from '@/tests/fixtures/beckn-catalog';
+
+vi.mock('../db', () => ({
+  prisma: {
+    catalog: {
+      findUnique: vi.fn(),
+      update: vi.fn()
+    },
+    bid: {
+      findFirst: vi.fn(),
+      create: vi.fn()
+    },
+    order: {
+      findUnique: vi.fn(),
+      updateMany: vi.fn()
+    },
+    fulfillmentEvent: {
+      upsert: vi.fn()
+    },
+    issue: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      updateMany: vi.fn()
+    },
+    issueAction: {
+      create: vi.fn()
+    },
+    networkLog: {
+      create: vi.fn(),
+      findFirst: vi.fn()
+    }
+  }
+}));
+
+const TRANSACTION_ID = '7f3b1c2a-9d4e-4f6a-8b1c-2d3e4f5a6b7c';
+
+const TERMS: ONDCOrderTerms = {
+  itemId: 'catalog-1',
+  itemName: 'Nasik Onions',
+  quantity: 500,
+  unit: 'kg',
+  pricePerUnit: 38.5,
+  currency: 'INR',
+  providerId: 'ondc.bigbasket.tata.bap',
+  providerName: 'BigBasket (Tata Digital)',
+  paymentTerms: 'Payment on Delivery',
+  deliveryDays: 3,
+  validityHours: 48
+};
+
+function createSearchRequest(timestamp: Date = new Date()) {
+  return createOndcContext('search', { transactionId: TRANSACTION_ID, messageId: 'msg-1', timestamp });
+}
+
+function createOnSearchEnvelope() {
+  const request = createSearchRequest();
+  const context = createCallbackContext(request, 'on_search', {
+    subscriberId: TERMS.providerId,
+    subscriberUri: 'https://ondc.bigbasket.tata.bap/protocol/v1'
+  });
+  return createEnvelope(context, buildOnSearchMessage(TERMS));
+}
+
+function createOnStatusEnvelope(stage: ONDCFulfillmentStage, updatedAt: Date = new Date()) {
+  const context = createOndcContext('on_status', {
+    transactionId: TRANSACTION_ID,
+    messageId: 'msg-9',
+    timestamp: updatedAt,
+    bppId: TERMS.providerId
+  });
+  return createEnvelope(context, buildOnStatusMessage({ ...TERMS, orderId: 'order-1', logisticsProvider: 'Delhivery' }, stage, updatedAt));
+}
+
+function createOnCancelEnvelope(cancelledBy: string) {
+  const context = createOndcContext('on_cancel', {
+    transactionId: TRANSACTION_ID,
+    messageId: 'msg-10',
+    bppId: TERMS.providerId
+  });
+  return createEnvelope(context, buildOnCancelMessage({ ...TERMS, orderId: 'order-1' }, '012', cancelledBy));
+}
+
+const ISSUE_TERMS: ONDCIssueTerms = {
+  issueId: 'issue-1',
+  orderId: 'order-1',
+  kind: 'QUALITY',
+  description: 'Part of the lot was damaged',
+  complainantId: TERMS.providerId,
+  complainantName: TERMS.providerName,
+  level: 'ISSUE',
+  createdAt: new Date('2026-01-12T10:00:00.000Z')
+};
+
+function createOnIssueEnvelope(
+  action: Pick<ONDCIssueAction, 'role' | 'code' | 'updatedBy'>,
+  terms: ONDCIssueTerms = ISSUE_TERMS,
+  resolution?: ONDCIssueResolution
+) {
+  const context = createOndcContext('on_issue', {
+    transactionId: TRANSACTION_ID,
+    messageId: 'msg-11',
+    bppId: TERMS.providerId
+  });
+  return createEnvelope(context, buildOnIssueMessage(
+    terms,
+    { ...action, shortDesc: action.code, updatedAt: new Date() },
+    resolution
+  ));
+}
+
+describe('ONDC Callbacks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.networkLog.findFirst).mockResolvedValue({
+      catalogId: 'catalog-1',
+      payload: createEnvelope(createSearchRequest(), {})
+    } as any);
+    vi.mocked(prisma.catalog.findUnique).mockResolvedValue({
+      id: 'catalog-1',
+      farmerId: 'farmer-1',
+      becknJson: SAMPLE_ONION_CATALOG
+    } as any);
+    vi.mocked(prisma.bid.create).mockImplementation((async (args: any) => args.data) as any);
+  });
+
+  afterEach(() => {
+    delete process.env.ONDC_VERIFY_SIGNATURES;
+  });
+
+  describe('processOndcCallback', () => {
+    it('should ACK on_search and record the offer as a bid', async () => {
+      const result = await processOndcCallback('on_search', createOnSearchEnvelope());
+
+      expect(result.status).toBe(200);
+      expect(result.body.message.ack.status).toBe('ACK');
+      expect(result.catalogId).toBe('catalog-1');
+      expect(result.bidsRecorded).toBe(1);
+
+      expect(prisma.networkLog.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ transactionId: TRANSACTION_ID, type: 'ONDC_REQUEST' })
+      }));
+      expect(prisma.networkLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'ONDC_CALLBACK', transactionId: TRANSACTION_ID, catalogId: 'catalog-1' })
+      });
+      expect(prisma.networkLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'INCOMING_BID',
+          catalogId: 'catalog-1',
+          payload: expect.objectContaining({
+            buyerName: TERMS.providerName,
+            buyerSubscriberId: TERMS.providerId,
+            bidAmount: 38.5,
+            deliveryDays: 3,
+            validityHours: 48
+          })
+        })
+      });
+      expect(prisma.bid.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          catalogId: 'catalog-1',
+          farmerId: 'farmer-1',
+          transactionId: TRANSACTION_ID,
+          buyerSubscriberId: TERMS.providerId,
+          pricePerUnit: 38.5,
+          catalogPrice: 40
+        })
+      });
+    });
+
+    it('should not record offers that arrive after the auction window', async () => {
+      vi.mocked(prisma.networkLog.findFirst).mockResolvedValue({
+        catalogId: 'catalog-1',
+        payload: createEnvelope(createSearchRequest(new Date(Date.now() - 60000)), {})
+      } as any);
+
+      const result = await processOndcCallback('on_search', createOnSearchEnvelope());
+
+      expect(result.status).toBe(200);
+      expect(result.bidsRecorded).toBe(0);
+      expect(prisma.networkLog.create).toHaveBeenCalledTimes(1);
+      expect(prisma.bid.create).not.toHaveBeenCalled();
+      expect(prisma.networkLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'ONDC_CALLBACK' })
+      });
+    });
+
+    it('should not record offers made for another buyer', async () => {
+      const envelope = createOnSearchEnvelope();
+      envelope.context.bpp_id = 'ondc.reliance.fresh.bap';
+
+      const result = await processOndcCallback('on_search', envelope);
+
+      expect(result.status).toBe(200);
+      expect(result.bidsRecorded).toBe(0);
+      expect(prisma.bid.create).not.toHaveBeenCalled();
+    });
+
+    it('should not record a repeated on_search as another bid', async () => {
+      vi.mocked(prisma.bid.findFirst).mockResolvedValue({ id: 'bid-1' } as any);
+
+      const result = await processOndcCallback('on_search', createOnSearchEnvelope());
+
+      expect(result.bidsRecorded).toBe(0);
+      expect(prisma.bid.findFirst).toHaveBeenCalledWith({
+        where: { catalogId: 'catalog-1', transactionId: TRANSACTION_ID, buyerSubscriberId: TERMS.providerId }
+      });
+      expect(prisma.bid.create).not.toHaveBeenCalled();
+    });
+
+    it('should take a bid recorded by a retry arriving at the same time as already recorded', async () => {
+      vi.mocked(prisma.bid.create).mockRejectedValueOnce(Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }));
+
+      const result = await processOndcCallback('on_search', createOnSearchEnvelope());
+
+      expect(result.status).toBe(200);
+      expect(result.bidsRecorded).toBe(0);
+      expect(prisma.networkLog.create).not.toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'INCOMING_BID' })
+      });
+    });
+
+    it('should log other callbacks without recording bids', async () => {
+      const envelope = createOnSearchEnvelope();
+      envelope.context.action = 'on_status';
+
+      const result = await processOndcCallback('on_status', envelope);
+
+      expect(result.status).toBe(200);
+      expect(result.bidsRecorded).toBe(0);
+      expect(prisma.networkLog.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should record a fulfillment stage from on_status', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({
+        id: 'order-1', catalogId: 'catalog-1', status: 'ORDER_CONFIRMED', buyerSubscriberId: TERMS.providerId
+      } as any);
+      const pickedUpAt = new Date('2026-01-10T08:00:00.000Z');
+
+      const result = await processOndcCallback('on_status', createOnStatusEnvelope('PICKED_UP', pickedUpAt));
+
+      expect(result.status).toBe(200);
+      expect(result.fulfillmentRecorded).toBe(true);
+      expect(prisma.fulfillmentEvent.upsert).toHaveBeenCalledWith({
+        where: { orderId_state: { orderId: 'order-1', state: 'PICKED_UP' } },
+        create: expect.objectContaining({
+          orderId: 'order-1',
+          state: 'PICKED_UP',
+          logisticsProvider: 'Delhivery',
+          source: 'on_status',
+          occurredAt: pickedUpAt
+        }),
+        update: {}
+      });
+      expect(prisma.order.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should fulfil the order when delivery is reported', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({
+        id: 'order-1', catalogId: 'catalog-1', status: 'ORDER_CONFIRMED', buyerSubscriberId: TERMS.providerId
+      } as any);
+      vi.mocked(prisma.order.updateMany).mockResolvedValue({ count: 1 });
+
+      await processOndcCallback('on_status', createOnStatusEnvelope('DELIVERED'));
+
+      expect(prisma.order.updateMany).toHaveBeenCalledWith({
+        where: { id: 'order-1', status: 'ORDER_CONFIRMED' },
+        data: expect.objectContaining({ status: 'FULFILLED' })
+      });
+    });
+
+    it("should ignore fulfillment updates for another buyer's order", async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({
+        id: 'order-1', catalogId: 'catalog-1', status: 'ORDER_CONFIRMED', buyerSubscriberId: 'ondc.reliance.fresh.bap'
+      } as any);
+
+      const result = await processOndcCallback('on_status', createOnStatusEnvelope('DELIVERED'));
+
+      expect(result.status).toBe(200);
+      expect(result.fulfillmentRecorded).toBe(false);
+      expect(prisma.fulfillmentEvent.upsert).not.toHaveBeenCalled();
+      expect(prisma.order.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should ignore fulfillment updates for a cancelled order', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({
+        id: 'order-1', catalogId: 'catalog-1', status: 'CANCELLED', buyerSubscriberId: TERMS.providerId
+      } as any);
+
+      const result = await processOndcCallback('on_status', createOnStatusEnvelope('PACKED'));
+
+      expect(result.status).toBe(200);
+      expect(result.fulfillmentRecorded).toBe(false);
+      expect(prisma.fulfillmentEvent.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should cancel the order when the buyer cancels', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({
+        id: 'order-1', catalogId: 'catalog-1', status: 'ORDER_CONFIRMED', buyerSubscriberId: TERMS.providerId
+      } as any);
+      vi.mocked(prisma.order.updateMany).mockResolvedValue({ count: 1 });
+
+      const result = await processOndcCallback('on_cancel', createOnCancelEnvelope(TERMS.providerId));
+
+      expect(result.status).toBe(200);
+      expect(result.cancellationRecorded).toBe(true);
+      expect(prisma.order.updateMany).toHaveBeenCalledWith({
+        where: { id: 'order-1', status: 'ORDER_CONFIRMED' },
+        data: expect.objectContaining({ status: 'CANCELLED', cancellationReasonCode: '012', cancelledBy: 'BUYER' })
+      });
+      expect(prisma.catalog.update).toHaveBeenCalledWith({
+        where: { id: 'catalog-1' },
+        data: { status: 'DRAFT' }
+      });
+    });
+
+    it('should not let another buyer on the transaction cancel the order', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({
+        id: 'order-1', catalogId: 'catalog-1', status: 'ORDER_CONFIRMED', buyerSubscriberId: 'ondc.reliance.fresh.bap'
+      } as any);
+
+      const result = await processOndcCallback('on_cancel', createOnCancelEnvelope(TERMS.providerId));
+
+      expect(result.status).toBe(200);
+      expect(result.cancellationRecorded).toBe(false);
+      expect(prisma.order.updateMany).not.toHaveBeenCalled();
+      expect(prisma.catalog.update).not.toHaveBeenCalled();
+    });
+
+    it('should only log the answer to our own cancel', async () => {
+      const result = await processOndcCallback('on_cancel', createOnCancelEnvelope('setu.voice.gateway'));
+
+      expect(result.status).toBe(200);
+      expect(result.cancellationRecorded).toBe(false);
+      expect(prisma.order.findUnique).not.toHaveBeenCalled();
+      expect(prisma.networkLog.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should open an issue the buyer raises', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({
+        id: 'order-1', catalogId: 'catalog-1', buyerSubscriberId: TERMS.providerId
+      } as any);
+      vi.mocked(prisma.issue.findUnique).mockResolvedValue(null);
+      vi.mocked(prisma.issue.create).mockResolvedValue({ id: 'issue-1' } as any);
+
+      const result = await processOndcCallback('on_issue', createOnIssueEnvelope({
+        role: 'COMPLAINANT', code: 'OPEN', updatedBy: TERMS.providerId
+      }));
+
+      expect(result.issueRecorded).toBe(true);
+      expect(prisma.issue.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          id: 'issue-1',
+          orderId: 'order-1',
+          kind: 'QUALITY',
+          complainant: 'BUYER',
+          actions: { create: expect.objectContaining({ party: 'BUYER', action: 'OPEN', source: 'on_issue' }) }
+        })
+      });
+    });
+
+    it('should record the buyer resolving the farmer\'s issue', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({
+        id: 'order-1', catalogId: 'catalog-1', buyerSubscriberId: TERMS.providerId
+      } as any);
+      vi.mocked(prisma.issue.findUnique).mockResolvedValue({
+        id: 'issue-2', complainant: 'FARMER', status: 'PROCESSING', level: 'ISSUE'
+      } as any);
+      vi.mocked(prisma.issue.updateMany).mockResolvedValue({ count: 1 });
+
+      const result = await processOndcCallback('on_issue', createOnIssueEnvelope(
+        { role: 'RESPONDENT', code: 'RESOLVED', updatedBy: TERMS.providerId },
+        { ...ISSUE_TERMS, issueId: 'issue-2', kind: 'PAYMENT_NOT_RECEIVED', complainantId: 'setu.voice.gateway' },
+        { action: 'NO-ACTION', shortDesc: 'Payment released to the farmer' }
+      ));
+
+      expect(result.issueRecorded).toBe(true);
+      expect(prisma.issue.updateMany).toHaveBeenCalledWith({
+        where: { id: 'issue-2', status: 'PROCESSING', level: 'ISSUE' },
+        data: expect.objectContaining({ status: 'RESOLVED', resolution: 'NO-ACTION', resolutionNote: 'Payment released to the farmer' })
+      });
+    });
+
+    it('should ignore issue steps the buyer may not take', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({
+        id: 'order-1', catalogId: 'catalog-1', buyerSubscriberId: TERMS.providerId
+      } as any);
+      vi.mocked(prisma.issue.findUnique).mockResolvedValue({
+        id: 'issue-1', complainant: 'BUYER', status: 'CLOSED', level: 'ISSUE'
+      } as any);
+
+      const result = await processOndcCallback('on_issue', createOnIssueEnvelope({
+        role: 'COMPLAINANT', code: 'ESCALATE', updatedBy: TERMS.providerId
+      }));
+
+      expect(result.status).toBe(200);
+      expect(result.issueRecorded).toBe(false);
+      expect(prisma.issue.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should ignore issues raised on another buyer's order", async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({
+        id: 'order-1', catalogId: 'catalog-1', buyerSubscriberId: 'ondc.reliance.fresh.bap'
+      } as any);
+      vi.mocked(prisma.issue.findUnique).mockResolvedValue(null);
+
+      const result = await processOndcCallback('on_issue', createOnIssueEnvelope({
+        role: 'COMPLAINANT', code: 'OPEN', updatedBy: TERMS.providerId
+      }));
+
+      expect(result.status).toBe(200);
+      expect(result.issueRecorded).toBe(false);
+      expect(prisma.issue.create).not.toHaveBeenCalled();
+    });
+
+    it('should only log our own issue steps echoed back', async () => {
+      const result = await processOndcCallback('on_issue', createOnIssueEnvelope({
+        role: 'RESPONDENT', code: 'PROCESSING', updatedBy: 'setu.voice.gateway'
+      }));
+
+      expect(result.issueRecorded).toBe(false);
+      expect(prisma.issue.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should NACK a callback on the wrong route', async () => {
+      const result = await processOndcCallback('on_select', createOnSearchEnvelope());
+
+      expect(result.status).toBe(400);
+      expect(result.body.message.ack.status).toBe('NACK');
+      expect(result.body.error?.type).toBe('CONTEXT-ERROR');
+      expect(prisma.networkLog.create).not.toHaveBeenCalled();
+    });
+
+    it('should NACK an unknown transaction', async () => {
+      vi.mocked(prisma.networkLog.findFirst).mockResolvedValue(null);
+
+      const result = await processOndcCallback('on_search', createOnSearchEnvelope());
+
+      expect(result.status).toBe(400);
+      expect(result.body.error?.message).toContain('Unknown transaction');
+    });
+
+    it('should NACK an envelope without a context', async () => {
+      const result = await processOndcCallback('on_search', { message: {} });
+
+      expect(result.status).toBe(400);
+      expect(result.body.error?.type).toBe('JSON-SCHEMA-ERROR');
+    });
+  });
+
+  describe('handleOndcCallback', () => {
+    it('should NACK a body that is not JSON', async () => {
+      const result = await handleOndcCallback('on_search', 'not json');
+
+      expect(result.status).toBe(400);
+      expect(result.body.error?.type).toBe('JSON-SCHEMA-ERROR');
+    });
+
+    it('should NACK unsigned callbacks by default', async () => {
+      const result = await handleOndcCallback('on_search', JSON.stringify(createOnSearchEnvelope()), null);
+
+      expect(result.status).toBe(401);
+      expect(result.body.error?.type).toBe('POLICY-ERROR');
+      expect(prisma.networkLog.create).not.toHaveBeenCalled();
+    });
+
+    it('should accept unsigned callbacks when verification is turned off', async () => {
+      process.env.ONDC_VERIFY_SIGNATURES = 'false';
+
+      const result = await handleOndcCallback('on_search', JSON.stringify(createOnSearchEnvelope()), null);
+
+      expect(result.status).toBe(200);
+    });
+  });
+});
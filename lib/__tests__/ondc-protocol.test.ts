@@ -0,0 +1,360 @@
+/**
+ * ONDC Protocol Tests
+ *
+ * Tests for the ONDC v1.2 context and envelope builders.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  ONDC_DOMAIN,
+  ONDC_VERSION,
+  ONDCContextSchema,
+  ONDCEnvelopeSchema,
+  createOndcContext,
+  createCallbackContext,
+  createEnvelope,
+  durationToMs,
+  getResponseDeadline,
+  toTtlDuration,
+  buildSearchMessage,
+  buildOnSelectMessage,
+  buildSelectMessage,
+  buildConfirmMessage,
+  buildOnSearchMessage,
+  buildOnStatusMessage,
+  buildCancelMessage,
+  buildOnCancelMessage,
+  buildIssueMessage,
+  buildOnIssueMessage,
+  getCancellationReasonCodes,
+  readIssueUpdate,
+  readOnSearchOffers,
+  readOrderCancellation,
+  readOrderFulfillment,
+  toOndcTags,
+  type ONDCIssueTerms,
+  type ONDCOrderTerms
+} from '../ondc-protocol';
+import { SAMPLE_ONION_CATALOG } from '@/tests/fixtures/beckn-catalog';
+
+const TRANSACTION_ID = '7f3b1c2a-9d4e-4f6a-8b1c-2d3e4f5a6b7c';
+const MESSAGE_ID = 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d';
+const FIXED_TIME = new Date('2026-03-01T10:00:00.000Z');
+
+const TERMS: ONDCOrderTerms = {
+  itemId: 'catalog-1',
+  itemName: 'Nasik Onions',
+  quantity: 500,
+  unit: 'kg',
+  pricePerUnit: 38.5,
+  currency: 'INR',
+  providerId: 'ondc.bigbasket.tata.bap',
+  providerName: 'BigBasket (Tata Digital)',
+  paymentTerms: 'Advance Payment',
+  deliveryDays: 3,
+  validityHours: 48,
+  orderId: 'order-1'
+};
+
+describe('ONDC Protocol', () => {
+  afterEach(() => {
+    delete process.env.ONDC_SUBSCRIBER_ID;
+  });
+
+  describe('createOndcContext', () => {
+    it('should build a valid AGR10 context block', () => {
+      const context = createOndcContext('search', {
+        transactionId: TRANSACTION_ID,
+        messageId: MESSAGE_ID,
+        timestamp: FIXED_TIME
+      });
+
+      expect(ONDCContextSchema.safeParse(context).success).toBe(true);
+      expect(context.domain).toBe(ONDC_DOMAIN);
+      expect(context.core_version).toBe(ONDC_VERSION);
+      expect(context.country).toBe('IND');
+      expect(context.action).toBe('search');
+      expect(context.transaction_id).toBe(TRANSACTION_ID);
+      expect(context.message_id).toBe(MESSAGE_ID);
+      expect(context.timestamp).toBe('2026-03-01T10:00:00.000Z');
+      expect(context.ttl).toBe('PT30S');
+    });
+
+    it('should omit bpp fields for gateway broadcasts', () => {
+      const context = createOndcContext('search', {
+        transactionId: TRANSACTION_ID,
+        messageId: MESSAGE_ID
+      });
+
+      expect(context.bpp_id).toBeUndefined();
+      expect(context.bpp_uri).toBeUndefined();
+    });
+
+    it('should read the subscriber ID from the environment', () => {
+      process.env.ONDC_SUBSCRIBER_ID = 'test.setu.gateway';
+
+      const context = createOndcContext('select', {
+        transactionId: TRANSACTION_ID,
+        messageId: MESSAGE_ID,
+        bppId: TERMS.providerId,
+        bppUri: 'https://ondc.bigbasket.tata.bap/protocol/v1'
+      });
+
+      expect(context.bap_id).toBe('test.setu.gateway');
+      expect(context.bpp_id).toBe(TERMS.providerId);
+    });
+  });
+
+  describe('createCallbackContext', () => {
+    it('should reuse transaction and message IDs of the request', () => {
+      const request = createOndcContext('select', {
+        transactionId: TRANSACTION_ID,
+        messageId: MESSAGE_ID,
+        timestamp: FIXED_TIME
+      });
+
+      const callback = createCallbackContext(request, 'on_select', {
+        subscriberId: TERMS.providerId,
+        subscriberUri: 'https://ondc.bigbasket.tata.bap/protocol/v1'
+      });
+
+      expect(callback.action).toBe('on_select');
+      expect(callback.transaction_id).toBe(TRANSACTION_ID);
+      expect(callback.message_id).toBe(MESSAGE_ID);
+      expect(callback.bpp_id).toBe(TERMS.providerId);
+    });
+  });
+
+  describe('message builders', () => {
+    it('should build a search intent from a Beckn catalog item', () => {
+      const message = buildSearchMessage('catalog-1', SAMPLE_ONION_CATALOG);
+
+      expect(message.intent.item.id).toBe('catalog-1');
+      expect(message.intent.item.descriptor.name).toBe(SAMPLE_ONION_CATALOG.descriptor.name);
+      expect(message.intent.item.price.value).toBe(SAMPLE_ONION_CATALOG.price.value.toFixed(2));
+      expect(message.intent.item.quantity.available.count).toBe(SAMPLE_ONION_CATALOG.quantity.available.count);
+    });
+
+    it('should carry the seller state in the search fulfillment', () => {
+      const message = buildSearchMessage('catalog-1', SAMPLE_ONION_CATALOG, 'Maharashtra');
+
+      expect(message.intent.fulfillment.start?.location.address.state).toBe('Maharashtra');
+      expect(buildSearchMessage('catalog-1', SAMPLE_ONION_CATALOG).intent.fulfillment.start).toBeUndefined();
+    });
+
+    it('should name the FPO as provider of a pooled listing', () => {
+      const message = buildSearchMessage('catalog-1', SAMPLE_ONION_CATALOG, 'Maharashtra', {
+        id: 'nashik-kisan-fpo',
+        name: 'Nashik Kisan Producer Company'
+      });
+
+      expect(message.intent.provider).toEqual({
+        id: 'nashik-kisan-fpo',
+        descriptor: { name: 'Nashik Kisan Producer Company' }
+      });
+      expect(buildSearchMessage('catalog-1', SAMPLE_ONION_CATALOG).intent).not.toHaveProperty('provider');
+    });
+
+    it('should quote the total order value in on_select', () => {
+      const message = buildOnSelectMessage(TERMS);
+
+      expect(message.order.quote.price.value).toBe('19250.00');
+      expect(message.order.quote.breakup[0].item.price.value).toBe('38.50');
+      expect(message.order.quote.ttl).toBe('PT48H');
+      expect(message.order.fulfillments[0]['@ondc/org/TAT']).toBe('P3D');
+    });
+
+    it('should quote the asking price in a counter-offer select', () => {
+      const message = buildSelectMessage(TERMS, 42);
+
+      expect(message.order.quote?.breakup[0].item.price.value).toBe('42.00');
+      expect(buildSelectMessage(TERMS).order.quote).toBeUndefined();
+    });
+
+    it('should map advance payment to PRE-FULFILLMENT on confirm', () => {
+      const message = buildConfirmMessage(TERMS);
+
+      expect(message.order.id).toBe('order-1');
+      expect(message.order.state).toBe('Created');
+      expect(message.order.payment.type).toBe('PRE-FULFILLMENT');
+    });
+
+    it('should convert flat tags into an ONDC tag group', () => {
+      const tags = toOndcTags({ grade: 'A', perishability: 'high' });
+
+      expect(tags).toEqual([
+        { code: 'attributes', list: [{ code: 'grade', value: 'A' }, { code: 'perishability', value: 'high' }] }
+      ]);
+      expect(toOndcTags({})).toEqual([]);
+    });
+  });
+
+  describe('readOnSearchOffers', () => {
+    it('should read back the terms built by buildOnSearchMessage', () => {
+      const [offer] = readOnSearchOffers(buildOnSearchMessage(TERMS), 'catalog-1')!;
+
+      expect(offer).toMatchObject({
+        itemId: 'catalog-1',
+        quantity: 500,
+        unit: 'kg',
+        pricePerUnit: 38.5,
+        providerId: TERMS.providerId,
+        providerName: TERMS.providerName,
+        paymentTerms: 'Advance Payment',
+        deliveryDays: 3,
+        validityHours: 48
+      });
+    });
+
+    it('should ignore offers for other items and reject malformed catalogs', () => {
+      expect(readOnSearchOffers(buildOnSearchMessage(TERMS), 'catalog-2')).toEqual([]);
+      expect(readOnSearchOffers({ catalog: { 'bpp/providers': [] } }, 'catalog-1')).toBeNull();
+    });
+  });
+
+  describe('readOrderFulfillment', () => {
+    it('should read back the stage built by buildOnStatusMessage', () => {
+      const message = buildOnStatusMessage({ ...TERMS, logisticsProvider: 'Delhivery' }, 'IN_TRANSIT', FIXED_TIME);
+
+      expect(message.order.state).toBe('In-progress');
+      expect(message.order.fulfillments[0].state.descriptor.code).toBe('In-transit');
+      expect(readOrderFulfillment(message)).toEqual({
+        orderId: 'order-1',
+        stage: 'IN_TRANSIT',
+        logisticsProvider: 'Delhivery',
+        updatedAt: FIXED_TIME
+      });
+    });
+
+    it('should complete the order on delivery', () => {
+      const message = buildOnStatusMessage(TERMS, 'DELIVERED', FIXED_TIME);
+
+      expect(message.order.state).toBe('Completed');
+      expect(message.order.payment.status).toBe('PAID');
+      expect(readOrderFulfillment(message)?.logisticsProvider).toBe(TERMS.providerName);
+    });
+
+    it('should leave unknown fulfillment states unset and reject malformed orders', () => {
+      const pending = { order: { id: 'order-1', fulfillments: [{ state: { descriptor: { code: 'Pending' } } }] } };
+
+      expect(readOrderFulfillment(pending)?.stage).toBeUndefined();
+      expect(readOrderFulfillment({ order: {} })).toBeNull();
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should read back the cancellation built by buildOnCancelMessage', () => {
+      const message = buildOnCancelMessage(TERMS, '006', TERMS.providerId);
+
+      expect(message.order.state).toBe('Cancelled');
+      expect(message.order.fulfillments[0].state.descriptor.code).toBe('Cancelled');
+      expect(readOrderCancellation(message)).toEqual({
+        orderId: 'order-1',
+        cancelledBy: TERMS.providerId,
+        reasonCode: '006'
+      });
+    });
+
+    it('should carry the reason code on cancel', () => {
+      expect(buildCancelMessage('order-1', '002')).toEqual({
+        order_id: 'order-1',
+        cancellation_reason_id: '002',
+        descriptor: { short_desc: 'One or more items in the Order not available' }
+      });
+    });
+
+    it('should split reason codes by who may give them', () => {
+      expect(getCancellationReasonCodes('SELLER')).toEqual(['002', '005']);
+      expect(getCancellationReasonCodes('BUYER')).toContain('012');
+      expect(getCancellationReasonCodes('BUYER')).not.toContain('002');
+    });
+
+    it('should reject orders that are not cancelled', () => {
+      expect(readOrderCancellation(buildOnStatusMessage(TERMS, 'PACKED', FIXED_TIME))).toBeNull();
+    });
+  });
+
+  describe('issues', () => {
+    const ISSUE: ONDCIssueTerms = {
+      issueId: 'issue-1',
+      orderId: 'order-1',
+      kind: 'SHORT_WEIGHT',
+      description: 'Received 475 kg of the 500 kg ordered',
+      complainantId: TERMS.providerId,
+      complainantName: TERMS.providerName,
+      level: 'GRIEVANCE',
+      createdAt: FIXED_TIME
+    };
+
+    it('should read back the issue built by buildOnIssueMessage', () => {
+      const action = {
+        role: 'RESPONDENT' as const,
+        code: 'RESOLVED' as const,
+        shortDesc: 'Refund issued',
+        updatedAt: FIXED_TIME,
+        updatedBy: 'setu.voice.gateway'
+      };
+      const resolution = { action: 'REFUND' as const, shortDesc: 'Refund issued', refundAmount: 962.5 };
+      const message = buildOnIssueMessage(ISSUE, action, resolution);
+
+      expect(message.issue.category).toBe('ITEM');
+      expect(message.issue.sub_category).toBe('ITM02');
+      expect(message.issue.resolution?.refund_amount).toBe('962.50');
+      expect(readIssueUpdate(message)).toEqual({ terms: ISSUE, action, resolution });
+    });
+
+    it('should close the issue with the complainant\'s CLOSE', () => {
+      const message = buildIssueMessage(ISSUE, {
+        role: 'COMPLAINANT',
+        code: 'CLOSE',
+        shortDesc: 'Resolution accepted',
+        updatedAt: FIXED_TIME,
+        updatedBy: TERMS.providerId
+      });
+
+      expect(message.issue.status).toBe('CLOSED');
+      expect(message.issue.issue_actions.complainant_actions).toHaveLength(1);
+      expect(message.issue.issue_actions.respondent_actions).toHaveLength(0);
+    });
+
+    it('should read an issue without a new action', () => {
+      expect(readIssueUpdate(buildOnIssueMessage(ISSUE))?.action).toBeUndefined();
+      expect(readIssueUpdate({ issue: { id: 'issue-1' } })).toBeNull();
+    });
+  });
+
+  describe('response window', () => {
+    it('should convert between milliseconds and ISO 8601 durations', () => {
+      expect(toTtlDuration(45000)).toBe('PT45S');
+      expect(durationToMs('PT30S')).toBe(30000);
+      expect(durationToMs('PT2M')).toBe(120000);
+      expect(durationToMs('P1DT6H')).toBe(30 * 60 * 60 * 1000);
+      expect(durationToMs('PT')).toBeNull();
+      expect(durationToMs('30 seconds')).toBeNull();
+    });
+
+    it('should close a request after its ttl', () => {
+      const context = createOndcContext('search', {
+        transactionId: TRANSACTION_ID,
+        messageId: MESSAGE_ID,
+        timestamp: FIXED_TIME,
+        ttl: toTtlDuration(45000)
+      });
+
+      expect(getResponseDeadline(context).toISOString()).toBe('2026-03-01T10:00:45.000Z');
+    });
+  });
+
+  describe('createEnvelope', () => {
+    it('should produce an envelope that passes schema validation', () => {
+      const context = createOndcContext('confirm', {
+        transactionId: TRANSACTION_ID,
+        messageId: MESSAGE_ID
+      });
+
+      const envelope = createEnvelope(context, buildConfirmMessage(TERMS));
+
+      expect(ONDCEnvelopeSchema.safeParse(envelope).success).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * ONDC Signing Tests
+ *
+ * Tests for Ed25519 Authorization header signing and verification.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import {
+  generateSigningKeyPair,
+  getSigningKeys,
+  createDigest,
+  createAuthorizationHeader,
+  parseAuthorizationHeader,
+  verifyAuthorizationHeader,
+  createStaticKeyResolver,
+  type ONDCSigningKeys
+} from '../ondc-signing';
+
+const BODY = JSON.stringify({ context: { action: 'on_select', transaction_id: 'txn-1' }, message: {} });
+const CREATED = 1772359200;
+
+function createKeys(uniqueKeyId = 'UK-TEST'): ONDCSigningKeys {
+  return { uniqueKeyId, ...generateSigningKeyPair() };
+}
+
+describe('ONDC Signing', () => {
+  afterEach(() => {
+    delete process.env.ONDC_SIGNING_PRIVATE_KEY;
+    delete process.env.ONDC_SIGNING_PUBLIC_KEY;
+    delete process.env.ONDC_UNIQUE_KEY_ID;
+  });
+
+  describe('createAuthorizationHeader', () => {
+    it('should build a header with keyId, timestamps and signature', () => {
+      const keys = createKeys();
+      const header = createAuthorizationHeader(BODY, { keys, subscriberId: 'buyer.test', created: CREATED, ttlSeconds: 60 });
+      const parsed = parseAuthorizationHeader(header);
+
+      expect(header.startsWith('Signature keyId="buyer.test|UK-TEST|ed25519"')).toBe(true);
+      expect(parsed).toMatchObject({
+        subscriberId: 'buyer.test',
+        uniqueKeyId: 'UK-TEST',
+        algorithm: 'ed25519',
+        created: CREATED,
+        expires: CREATED + 60,
+        headers: '(created) (expires) digest'
+      });
+    });
+
+    it('should throw when no keys are configured', () => {
+      expect(getSigningKeys()).toBeNull();
+      expect(() => createAuthorizationHeader(BODY)).toThrow('not configured');
+    });
+
+    it('should compute a 64-byte BLAKE-512 digest', () => {
+      expect(Buffer.from(createDigest(BODY), 'base64')).toHaveLength(64);
+    });
+  });
+
+  describe('verifyAuthorizationHeader', () => {
+    it('should accept a valid signature', async () => {
+      const keys = createKeys();
+      const header = createAuthorizationHeader(BODY, { keys, subscriberId: 'buyer.test', created: CREATED });
+
+      const result = await verifyAuthorizationHeader(header, BODY, () => keys.publicKey, CREATED + 10);
+
+      expect(result).toEqual({ valid: true, subscriberId: 'buyer.test' });
+    });
+
+    it('should reject a tampered body', async () => {
+      const keys = createKeys();
+      const header = createAuthorizationHeader(BODY, { keys, subscriberId: 'buyer.test', created: CREATED });
+
+      const result = await verifyAuthorizationHeader(header, BODY.replace('txn-1', 'txn-2'), () => keys.publicKey, CREATED);
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe('Signature verification failed');
+    });
+
+    it('should reject a signature from a different key', async () => {
+      const header = createAuthorizationHeader(BODY, { keys: createKeys(), subscriberId: 'buyer.test', created: CREATED });
+      const other = createKeys();
+
+      const result = await verifyAuthorizationHeader(header, BODY, () => other.publicKey, CREATED);
+
+      expect(result.valid).toBe(false);
+    });
+
+    it('should reject an expired signature', async () => {
+      const keys = createKeys();
+      const header = createAuthorizationHeader(BODY, { keys, subscriberId: 'buyer.test', created: CREATED, ttlSeconds: 30 });
+
+      const result = await verifyAuthorizationHeader(header, BODY, () => keys.publicKey, CREATED + 31);
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('expired');
+    });
+
+    it('should reject missing headers and unknown subscribers', async () => {
+      const keys = createKeys();
+      const header = createAuthorizationHeader(BODY, { keys, subscriberId: 'unknown.buyer', created: CREATED });
+
+      expect((await verifyAuthorizationHeader(null, BODY, () => keys.publicKey)).valid).toBe(false);
+      expect((await verifyAuthorizationHeader('Bearer abc', BODY, () => keys.publicKey)).valid).toBe(false);
+
+      const result = await verifyAuthorizationHeader(header, BODY, createStaticKeyResolver(), CREATED);
+      expect(result.error).toBe('Unknown subscriber or key ID');
+    });
+
+    it('should accept 64-byte libsodium private keys', async () => {
+      const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+      const seed = privateKey.export({ format: 'der', type: 'pkcs8' }).subarray(16);
+      const raw = publicKey.export({ format: 'der', type: 'spki' }).subarray(12);
+      const keys: ONDCSigningKeys = {
+        uniqueKeyId: 'UK-SODIUM',
+        privateKey: Buffer.concat([seed, raw]).toString('base64'),
+        publicKey: raw.toString('base64')
+      };
+
+      const header = createAuthorizationHeader(BODY, { keys, subscriberId: 'buyer.test', created: CREATED });
+      const result = await verifyAuthorizationHeader(header, BODY, () => keys.publicKey, CREATED);
+
+      expect(result.valid).toBe(true);
+    });
+  });
+
+  describe('createStaticKeyResolver', () => {
+    it('should verify messages signed with the configured gateway keys', async () => {
+      const keys = generateSigningKeyPair();
+      process.env.ONDC_SIGNING_PRIVATE_KEY = keys.privateKey;
+      process.env.ONDC_SIGNING_PUBLIC_KEY = keys.publicKey;
+      process.env.ONDC_UNIQUE_KEY_ID = 'UK-LOCAL';
+
+      const header = createAuthorizationHeader(BODY);
+      const result = await verifyAuthorizationHeader(header, BODY, createStaticKeyResolver());
+
+      expect(result.valid).toBe(true);
+      expect(result.subscriberId).toBe('setu.voice.gateway');
+    });
+  });
+});
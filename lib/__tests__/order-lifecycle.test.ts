@@ -0,0 +1,153 @@
+/**
+ * Order Lifecycle Tests
+ *
+ * Tests for the bid and order state machines.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  InvalidTransitionError,
+  canTransitionBid,
+  canTransitionOrder,
+  cancelOrder,
+  transitionBid,
+  transitionOrder
+} from '../order-lifecycle';
+import { prisma } from '../db';
+
+vi.mock('../db', () => ({
+  prisma: {
+    bid: {
+      findUnique: vi.fn(),
+      updateMany: vi.fn()
+    },
+    order: {
+      findUnique: vi.fn(),
+      updateMany: vi.fn()
+    },
+    catalog: {
+      update: vi.fn()
+    }
+  }
+}));
+
+describe('Order Lifecycle', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.bid.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.order.updateMany).mockResolvedValue({ count: 1 });
+  });
+
+  describe('canTransitionBid', () => {
+    it('should allow every answer to an open bid', () => {
+      expect(canTransitionBid('RECEIVED', 'ACCEPTED')).toBe(true);
+      expect(canTransitionBid('RECEIVED', 'REJECTED')).toBe(true);
+      expect(canTransitionBid('RECEIVED', 'COUNTERED')).toBe(true);
+      expect(canTransitionBid('RECEIVED', 'EXPIRED')).toBe(true);
+    });
+
+    it('should treat answered bids as final', () => {
+      expect(canTransitionBid('REJECTED', 'ACCEPTED')).toBe(false);
+      expect(canTransitionBid('EXPIRED', 'ACCEPTED')).toBe(false);
+      expect(canTransitionBid('ACCEPTED', 'REJECTED')).toBe(false);
+    });
+  });
+
+  describe('canTransitionOrder', () => {
+    it('should follow confirm then fulfil', () => {
+      expect(canTransitionOrder('BID_ACCEPTED', 'ORDER_CONFIRMED')).toBe(true);
+      expect(canTransitionOrder('ORDER_CONFIRMED', 'FULFILLED')).toBe(true);
+      expect(canTransitionOrder('BID_ACCEPTED', 'FULFILLED')).toBe(false);
+    });
+
+    it('should allow cancelling until fulfilment', () => {
+      expect(canTransitionOrder('BID_ACCEPTED', 'CANCELLED')).toBe(true);
+      expect(canTransitionOrder('ORDER_CONFIRMED', 'CANCELLED')).toBe(true);
+      expect(canTransitionOrder('FULFILLED', 'CANCELLED')).toBe(false);
+      expect(canTransitionOrder('CANCELLED', 'ORDER_CONFIRMED')).toBe(false);
+    });
+  });
+
+  describe('transitionBid', () => {
+    it('should update the status only if it has not changed', async () => {
+      vi.mocked(prisma.bid.findUnique).mockResolvedValue({ id: 'bid-1', status: 'RECEIVED' } as any);
+
+      const bid = await transitionBid('bid-1', 'ACCEPTED');
+
+      expect(bid.status).toBe('ACCEPTED');
+      expect(prisma.bid.updateMany).toHaveBeenCalledWith({
+        where: { id: 'bid-1', status: 'RECEIVED' },
+        data: { status: 'ACCEPTED' }
+      });
+    });
+
+    it('should reject an illegal transition', async () => {
+      vi.mocked(prisma.bid.findUnique).mockResolvedValue({ id: 'bid-1', status: 'REJECTED' } as any);
+
+      await expect(transitionBid('bid-1', 'ACCEPTED')).rejects.toBeInstanceOf(InvalidTransitionError);
+      expect(prisma.bid.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject a transition that lost a race', async () => {
+      vi.mocked(prisma.bid.findUnique).mockResolvedValue({ id: 'bid-1', status: 'RECEIVED' } as any);
+      vi.mocked(prisma.bid.updateMany).mockResolvedValue({ count: 0 });
+
+      await expect(transitionBid('bid-1', 'ACCEPTED')).rejects.toThrow('cannot move from RECEIVED to ACCEPTED');
+    });
+
+    it('should fail for an unknown bid', async () => {
+      vi.mocked(prisma.bid.findUnique).mockResolvedValue(null);
+
+      await expect(transitionBid('missing', 'ACCEPTED')).rejects.toThrow('Bid missing not found');
+    });
+  });
+
+  describe('transitionOrder', () => {
+    it('should record when the order was confirmed', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({ id: 'order-1', status: 'BID_ACCEPTED' } as any);
+
+      const order = await transitionOrder('order-1', 'ORDER_CONFIRMED');
+
+      expect(order.status).toBe('ORDER_CONFIRMED');
+      expect(order.confirmedAt).toBeInstanceOf(Date);
+      expect(prisma.order.updateMany).toHaveBeenCalledWith({
+        where: { id: 'order-1', status: 'BID_ACCEPTED' },
+        data: { status: 'ORDER_CONFIRMED', confirmedAt: expect.any(Date) }
+      });
+    });
+
+    it('should not fulfil an unconfirmed order', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({ id: 'order-1', status: 'BID_ACCEPTED' } as any);
+
+      const error = await transitionOrder('order-1', 'FULFILLED').catch(e => e);
+
+      expect(error).toBeInstanceOf(InvalidTransitionError);
+      expect(error).toMatchObject({ entity: 'Order', from: 'BID_ACCEPTED', to: 'FULFILLED' });
+    });
+  });
+
+  describe('cancelOrder', () => {
+    it('should record the reason and withdraw the listing when the farmer cancels', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({ id: 'order-1', catalogId: 'catalog-1', status: 'ORDER_CONFIRMED' } as any);
+
+      const order = await cancelOrder('order-1', { reasonCode: '002', cancelledBy: 'FARMER' });
+
+      expect(order).toMatchObject({ status: 'CANCELLED', cancellationReasonCode: '002', cancelledBy: 'FARMER' });
+      expect(prisma.catalog.update).toHaveBeenCalledWith({
+        where: { id: 'catalog-1' },
+        data: { status: 'CANCELLED' }
+      });
+    });
+
+    it('should release the listing when the buyer cancels', async () => {
+      vi.mocked(prisma.order.findUnique).mockResolvedValue({ id: 'order-1', catalogId: 'catalog-1', status: 'BID_ACCEPTED' } as any);
+
+      await cancelOrder('order-1', { reasonCode: '012', cancelledBy: 'BUYER' });
+
+      expect(prisma.catalog.update).toHaveBeenCalledWith({
+        where: { id: 'catalog-1' },
+        data: { status: 'DRAFT' }
+      });
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Simulation Environment Tests
+ *
+ * Tests for seeded randomness, the virtual clock, and reproducible
+ * network simulator runs.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createSeededRandom, createVirtualClock } from '../simulation-environment';
+import { createNetworkSimulator, type BroadcastResponse } from '../network-simulator';
+import type { ONDCEnvelope } from '../ondc-protocol';
+import { prisma } from '../db';
+
+vi.mock('../db', () => ({
+  prisma: {
+    catalog: {
+      findUnique: vi.fn()
+    },
+    bid: {
+      create: vi.fn()
+    },
+    networkLog: {
+      create: vi.fn()
+    },
+    bidLearningStat: {
+      findMany: vi.fn()
+    },
+    order: {
+      findMany: vi.fn()
+    }
+  }
+}));
+
+const CATALOG = {
+  id: 'catalog-1',
+  farmerId: 'farmer-1',
+  farmer: { id: 'farmer-1', state: 'Maharashtra' },
+  becknJson: {
+    descriptor: { name: 'Nasik Onion' },
+    price: { value: 40, currency: 'INR' },
+    quantity: { available: { count: 500 }, unit: 'kg' },
+    tags: { grade: 'A' }
+  }
+};
+
+/**
+ * Run one broadcast on a fresh simulator, collecting the callbacks sent
+ */
+async function runBroadcast(seed: number): Promise<{ response: BroadcastResponse; callbacks: ONDCEnvelope<unknown>[] }> {
+  const callbacks: ONDCEnvelope<unknown>[] = [];
+  const simulator = createNetworkSimulator({ seed, clock: createVirtualClock(Date.UTC(2026, 9, 1)) });
+
+  const response = await simulator.simulateBroadcastProduction('catalog-1', {
+    deliverCallback: async envelope => {
+      callbacks.push(envelope);
+    }
+  });
+
+  return { response, callbacks };
+}
+
+describe('Simulation Environment', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.catalog.findUnique).mockResolvedValue(CATALOG as any);
+    vi.mocked(prisma.networkLog.create).mockResolvedValue({} as any);
+    vi.mocked(prisma.bidLearningStat.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.order.findMany).mockResolvedValue([]);
+  });
+
+  describe('createSeededRandom', () => {
+    it('should repeat the sequence for the same seed', () => {
+      const a = createSeededRandom(42);
+      const b = createSeededRandom(42);
+
+      expect(Array.from({ length: 5 }, a)).toEqual(Array.from({ length: 5 }, b));
+    });
+
+    it('should give different sequences for different seeds', () => {
+      expect(createSeededRandom('setu-a')()).not.toBe(createSeededRandom('setu-b')());
+    });
+
+    it('should stay within [0, 1)', () => {
+      const random = createSeededRandom(7);
+      const values = Array.from({ length: 1000 }, random);
+
+      expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+    });
+  });
+
+  describe('createVirtualClock', () => {
+    it('should complete waits in simulated time', async () => {
+      const clock = createVirtualClock(0);
+      const startedAt = Date.now();
+
+      await clock.sleep(60_000);
+
+      expect(clock.now()).toBe(60_000);
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+    });
+
+    it('should release concurrent waits in the order they fall due', async () => {
+      const clock = createVirtualClock(0);
+      const woken: string[] = [];
+
+      await Promise.all([
+        clock.sleep(300).then(() => woken.push(`late@${clock.now()}`)),
+        clock.sleep(100).then(() => woken.push(`early@${clock.now()}`)),
+        clock.sleep(200).then(() => woken.push(`middle@${clock.now()}`))
+      ]);
+
+      expect(woken).toEqual(['early@100', 'middle@200', 'late@300']);
+    });
+
+    it('should move time forward when advanced', () => {
+      const clock = createVirtualClock(1000);
+
+      clock.advance(500);
+
+      expect(clock.now()).toBe(1500);
+    });
+  });
+
+  describe('createNetworkSimulator', () => {
+    it('should yield the same auction for the same seed', async () => {
+      const first = await runBroadcast(2026);
+      const second = await runBroadcast(2026);
+
+      expect(first.response.bids?.length).toBeGreaterThan(0);
+      expect(second.response).toEqual(first.response);
+      expect(second.callbacks).toEqual(first.callbacks);
+    });
+
+    it('should run the auction window in simulated time', async () => {
+      const startedAt = Date.now();
+
+      const { response } = await runBroadcast(11);
+
+      expect(Date.now() - startedAt).toBeLessThan(5000);
+      expect(response.processingTimeMs).toBeGreaterThan(0);
+    });
+
+    it('should timestamp messages with the simulated clock', async () => {
+      const { callbacks } = await runBroadcast(2026);
+
+      for (const envelope of callbacks) {
+        expect(new Date(envelope.context.timestamp).getUTCFullYear()).toBe(2026);
+        expect(new Date(envelope.context.timestamp).getUTCMonth()).toBe(9);
+      }
+    });
+
+    it('should vary the auction with the seed', async () => {
+      const runs = await Promise.all([1, 2, 3].map(runBroadcast));
+      const transactionIds = new Set(runs.map(run => run.response.transactionId));
+
+      expect(transactionIds.size).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * Voice Conversation Agent Tests
+ *
+ * Tests for correcting an earlier answer and going back a question while
+ * a listing is being built, and for routing what the farmer asks between
+ * listings. The model is mocked; see
+ * tests/integration/voice-conversation.test.ts for the live flow.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { generateObject } from 'ai';
+import {
+  classifyIntent,
+  classifyIntentOffline,
+  getLanguageByCode,
+  getPaymentStatusResponse,
+  isGoBackRequest,
+  mightBeCorrection,
+  processVoiceInput,
+  type ConversationState
+} from '../voice-conversation-agent';
+import { getPriceSuggestion } from '../mandi-price-service';
+
+vi.mock('ai', () => ({
+  generateObject: vi.fn(),
+  generateText: vi.fn()
+}));
+
+vi.mock('@ai-sdk/google', () => ({
+  google: vi.fn()
+}));
+
+vi.mock('../mandi-price-service', async importOriginal => ({
+  ...await importOriginal<typeof import('../mandi-price-service')>(),
+  getPriceSuggestion: vi.fn()
+}));
+
+const ENGLISH = getLanguageByCode('en')!;
+
+const ASKING_QUALITY: ConversationState = {
+  stage: 'asking_quality',
+  language: ENGLISH,
+  collectedData: { commodity: 'onion', quantityKg: 50 }
+};
+
+const CONFIRMING_LISTING: ConversationState = {
+  stage: 'confirming_listing',
+  language: ENGLISH,
+  collectedData: { commodity: 'onion', quantityKg: 500, quality: 'A', preferredPrice: 25 },
+  catalogItem: {
+    descriptor: { name: 'onion', symbol: '/icons/default.png' },
+    price: { value: 25, currency: 'INR' },
+    quantity: { available: { count: 500 }, unit: 'kg' },
+    tags: { grade: 'A', perishability: 'medium', logistics_provider: 'India Post' }
+  }
+};
+
+const ASKING_COMMODITY: ConversationState = {
+  stage: 'asking_commodity',
+  language: ENGLISH,
+  collectedData: {}
+};
+
+/**
+ * Have the model pick out a correction
+ */
+function mockCorrection(object: Record<string, unknown>) {
+  vi.mocked(generateObject).mockResolvedValueOnce({ object } as any);
+}
+
+describe('Voice Conversation Agent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('isGoBackRequest / mightBeCorrection', () => {
+    it('should recognise going back in the supported languages', () => {
+      expect(isGoBackRequest('go back')).toBe(true);
+      expect(isGoBackRequest('पीछे जाओ')).toBe(true);
+      expect(isGoBackRequest('मागे जा')).toBe(true);
+      expect(isGoBackRequest('500 kilo')).toBe(false);
+    });
+
+    it('should only take cue words as a possible correction', () => {
+      expect(mightBeCorrection('no, not 50 kilo, 500 kilo')).toBe(true);
+      expect(mightBeCorrection('50 नहीं 500 किलो')).toBe(true);
+      expect(mightBeCorrection('actually 500 kilo')).toBe(true);
+      expect(mightBeCorrection('good quality')).toBe(false);
+    });
+
+    it('should take a bare no as an answer, not a correction', async () => {
+      expect(mightBeCorrection('no')).toBe(false);
+      expect(mightBeCorrection('नहीं')).toBe(false);
+      expect(mightBeCorrection('nahi, abhi')).toBe(false);
+
+      await processVoiceInput(CONFIRMING_LISTING, 'no');
+
+      expect(generateObject).not.toHaveBeenCalledWith(expect.objectContaining({
+        prompt: expect.stringContaining('changing one of their EARLIER answers')
+      }));
+    });
+  });
+
+  describe('correcting an earlier answer', () => {
+    it('should change the quantity and ask the current question again', async () => {
+      mockCorrection({ slot: 'quantity', quantityKg: 500 });
+
+      const { response, newState } = await processVoiceInput(ASKING_QUALITY, 'no, not 50 kilo, 500 kilo');
+
+      expect(newState.stage).toBe('asking_quality');
+      expect(newState.collectedData).toEqual({ commodity: 'onion', quantityKg: 500 });
+      expect(response).toMatchObject({
+        text: 'Okay, 500 kg. What is the quality of onion? Good, medium, or mixed?',
+        correctedSlot: 'quantityKg',
+        expectsResponse: true
+      });
+    });
+
+    it('should rebuild the listing awaiting the go-ahead and read back only the change', async () => {
+      mockCorrection({ slot: 'price', pricePerKg: 30 });
+
+      const { response, newState } = await processVoiceInput(CONFIRMING_LISTING, 'no, make it 30 rupees');
+
+      expect(newState.stage).toBe('confirming_listing');
+      expect(newState.catalogItem?.price.value).toBe(30);
+      expect(newState.catalogItem?.quantity.available.count).toBe(500);
+      expect(response.text).toBe('Okay, 30 rupees per kg. Should I send to buyers?');
+    });
+
+    it('should look up market prices again for a different commodity', async () => {
+      mockCorrection({ slot: 'commodity', commodityEnglish: 'Tomato' });
+
+      const { newState } = await processVoiceInput(
+        { ...ASKING_QUALITY, stage: 'showing_market_prices', priceSuggestion: {} as any },
+        'sorry, tomato not onion'
+      );
+
+      expect(newState.stage).toBe('asking_price_preference');
+      expect(newState.collectedData.commodity).toBe('tomato');
+      expect(newState.priceSuggestion).toBeUndefined();
+    });
+
+    it('should ask the price again when the commodity changes at the listing confirmation', async () => {
+      mockCorrection({ slot: 'commodity', commodityEnglish: 'Tomato' });
+
+      const { response, newState } = await processVoiceInput(
+        { ...CONFIRMING_LISTING, priceSuggestion: {} as any },
+        'sorry, tomato not onion'
+      );
+
+      expect(newState.stage).toBe('asking_price_preference');
+      expect(newState.collectedData).toMatchObject({ commodity: 'tomato', quality: 'A', preferredPrice: undefined });
+      expect(newState.priceSuggestion).toBeUndefined();
+      expect(newState.catalogItem).toBeUndefined();
+      expect(response.catalogItem).toBeUndefined();
+    });
+
+    it('should leave the answer to the current question to its stage', async () => {
+      mockCorrection({ slot: 'quality', quality: 'B' });
+      vi.mocked(generateObject).mockRejectedValueOnce(new Error('offline'));
+
+      const { response, newState } = await processVoiceInput(ASKING_QUALITY, 'not so good, B grade');
+
+      expect(response.correctedSlot).toBeUndefined();
+      expect(newState.collectedData.quality).toBeUndefined();
+    });
+  });
+
+  describe('going back', () => {
+    it('should take back the previous answer and ask it again', async () => {
+      const { response, newState } = await processVoiceInput(ASKING_QUALITY, 'go back');
+
+      expect(generateObject).not.toHaveBeenCalled();
+      expect(newState.stage).toBe('asking_quantity');
+      expect(newState.collectedData.quantityKg).toBeUndefined();
+      expect(response.text).toBe("Okay, let's go back to the previous question. How much onion do you want to sell? Tell in kg or quintal.");
+    });
+
+    it('should ask the price again from the listing confirmation', async () => {
+      const { newState } = await processVoiceInput(CONFIRMING_LISTING, 'पीछे जाओ');
+
+      expect(newState.stage).toBe('asking_price_preference');
+      expect(newState.collectedData).toMatchObject({ quality: 'A', preferredPrice: undefined });
+      expect(newState.catalogItem).toBeUndefined();
+    });
+  });
+
+  describe('classifyIntentOffline', () => {
+    it('should tell the flows apart by keywords', () => {
+      expect(classifyIntentOffline('what is the onion price in Lasalgaon today')).toMatchObject({
+        intent: 'price_enquiry',
+        commodity: 'Onions',
+        location: 'Lasalgaon',
+        source: 'keywords'
+      });
+      expect(classifyIntentOffline('did anyone bid on my tomatoes')).toMatchObject({ intent: 'listing_status', commodity: 'Tomatoes' });
+      expect(classifyIntentOffline('बोली सुनाओ')).toMatchObject({ intent: 'bid_review' });
+      expect(classifyIntentOffline('paisa kab milega')).toMatchObject({ intent: 'payment_status' });
+      expect(classifyIntentOffline('mera order kahan hai')).toMatchObject({ intent: 'order_status' });
+      expect(classifyIntentOffline('cancel my onion listing')).toMatchObject({ intent: 'cancel' });
+      expect(classifyIntentOffline('मदद')).toMatchObject({ intent: 'help' });
+    });
+
+    it('should take anything else, or a price to sell at, as a listing', () => {
+      expect(classifyIntentOffline('200 kilo pyaaz')).toMatchObject({ intent: 'sell', commodity: 'Onions' });
+      expect(classifyIntentOffline('pyaaz 25 rupaye bhav mein bechna hai')).toMatchObject({ intent: 'sell' });
+      expect(classifyIntentOffline("200 kilo onion, I'll pay for transport")).toMatchObject({ intent: 'sell' });
+    });
+  });
+
+  describe('classifyIntent', () => {
+    afterEach(() => {
+      delete process.env.GOOGLE_GENERATIVE_AI_API_KEY;
+    });
+
+    it('should use keywords without an API key', async () => {
+      const match = await classifyIntent('paisa kab milega', ENGLISH);
+
+      expect(generateObject).not.toHaveBeenCalled();
+      expect(match).toMatchObject({ intent: 'payment_status', source: 'keywords' });
+    });
+
+    it('should fall back to keywords when Gemini fails', async () => {
+      process.env.GOOGLE_GENERATIVE_AI_API_KEY = 'test-key';
+      vi.mocked(generateObject).mockRejectedValueOnce(new Error('offline'));
+
+      const match = await classifyIntent('did anyone bid on my tomatoes', ENGLISH);
+
+      expect(match).toMatchObject({ intent: 'listing_status', source: 'keywords' });
+    });
+
+    it("should take the model's answer when it is available", async () => {
+      process.env.GOOGLE_GENERATIVE_AI_API_KEY = 'test-key';
+      vi.mocked(generateObject).mockResolvedValueOnce({
+        object: { intent: 'price_enquiry', commodityEnglish: 'onion', location: 'Lasalgaon' }
+      } as any);
+
+      const match = await classifyIntent('Lasalgaon mein kanda kya chal raha hai', ENGLISH);
+
+      expect(match).toEqual({ intent: 'price_enquiry', commodity: 'onion', location: 'Lasalgaon', source: 'model' });
+    });
+  });
+
+  describe('routing between listings', () => {
+    afterEach(() => {
+      delete process.env.GOOGLE_GENERATIVE_AI_API_KEY;
+    });
+
+    it('should ask Gemini only when the keywords find nothing', async () => {
+      process.env.GOOGLE_GENERATIVE_AI_API_KEY = 'test-key';
+
+      const intentPrompt = expect.objectContaining({ prompt: expect.stringContaining('What do they want?') });
+
+      const listing = await processVoiceInput(ASKING_COMMODITY, 'did anyone bid on my tomatoes');
+      await processVoiceInput(ASKING_COMMODITY, '200 kilo pyaaz');
+
+      expect(generateObject).not.toHaveBeenCalledWith(intentPrompt);
+      expect(listing.response.listingStatusQuery).toEqual({ commodity: 'Tomatoes' });
+
+      vi.mocked(generateObject).mockResolvedValueOnce({ object: { intent: 'help' } } as any);
+
+      const unclear = await processVoiceInput(ASKING_COMMODITY, 'kya kar sakte ho');
+
+      expect(generateObject).toHaveBeenCalledWith(intentPrompt);
+      expect(unclear.newState).toBe(ASKING_COMMODITY);
+      expect(unclear.response).toMatchObject({ stage: 'asking_commodity', expectsResponse: true });
+    });
+
+    it('should answer a price enquiry without starting a listing', async () => {
+      vi.mocked(getPriceSuggestion).mockResolvedValue({
+        commodity: 'Onions',
+        market: 'Lasalgaon',
+        pricePerKg: { min: 18, max: 26, average: 22 },
+        marketTrend: 'stable'
+      } as any);
+
+      const { response, newState } = await processVoiceInput(ASKING_COMMODITY, 'what is the onion price in Lasalgaon today');
+
+      expect(getPriceSuggestion).toHaveBeenCalledWith('Onions', 'Lasalgaon');
+      expect(newState).toBe(ASKING_COMMODITY);
+      expect(response).toMatchObject({
+        text: 'Lasalgaon market: Onions. Minimum 18 rupees, maximum 26 rupees per kg. Average 22 rupees.',
+        stage: 'asking_commodity',
+        expectsResponse: true
+      });
+    });
+
+    it('should leave lookups to the caller', async () => {
+      const listing = await processVoiceInput(ASKING_COMMODITY, 'did anyone bid on my tomatoes');
+      const payment = await processVoiceInput({ ...ASKING_COMMODITY, stage: 'success' }, 'when will I be paid');
+
+      expect(listing.response.listingStatusQuery).toEqual({ commodity: 'Tomatoes' });
+      expect(payment.response).toMatchObject({ paymentStatusQuery: true, stage: 'success', expectsResponse: false });
+    });
+
+    it('should answer with the error reply when routing fails', async () => {
+      process.env.GOOGLE_GENERATIVE_AI_API_KEY = 'test-key';
+      vi.mocked(generateObject).mockResolvedValueOnce({ object: { intent: 'listing_status', commodityEnglish: 42 } } as any);
+
+      const { response, newState } = await processVoiceInput(ASKING_COMMODITY, 'kya kar sakte ho');
+
+      expect(response).toMatchObject({ stage: 'error', expectsResponse: false });
+      expect(newState.stage).toBe('error');
+    });
+
+    it('should let a plain yes take up the usual crop', async () => {
+      const { newState } = await processVoiceInput(
+        { ...ASKING_COMMODITY, profile: { crops: ['Onion'] } },
+        'yes'
+      );
+
+      expect(newState.collectedData.commodity).toBe('Onion');
+      expect(newState.stage).toBe('asking_quantity');
+    });
+  });
+
+  describe('getPaymentStatusResponse', () => {
+    it('should remind the farmer to verify their payout details', () => {
+      const { response } = getPaymentStatusResponse(ASKING_COMMODITY, {
+        status: 'ON_DELIVERY',
+        buyerName: 'Reliance Fresh',
+        amount: 12500,
+        expectedAt: new Date('2024-01-20T10:00:00Z'),
+        payoutVerified: false
+      });
+
+      expect(response.text).toBe(
+        'Reliance Fresh pays 12500 rupees when your produce is delivered. It should arrive by 20 January. ' +
+        'Your payout details are not verified yet. Please check your profile.'
+      );
+    });
+  });
+});
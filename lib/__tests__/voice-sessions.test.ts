@@ -0,0 +1,155 @@
+/**
+ * Voice Sessions Tests
+ *
+ * Tests for saving a voice conversation after every turn and offering an
+ * unfinished listing back when the farmer returns.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  endConversation,
+  findResumableConversation,
+  getResumeWindowMs,
+  saveConversationTurn,
+  MAX_TRANSCRIPT_TURNS,
+  RESUMABLE_STAGES
+} from '../voice-sessions';
+import { prisma } from '../db';
+import type { ConversationState } from '../voice-conversation-agent';
+
+vi.mock('../db', () => ({
+  prisma: {
+    voiceConversation: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      upsert: vi.fn(),
+      updateMany: vi.fn()
+    }
+  }
+}));
+
+const STATE: ConversationState = {
+  stage: 'asking_quality',
+  language: { code: 'hi', name: 'हिंदी', englishName: 'Hindi', speechCode: 'hi-IN', greeting: 'नमस्ते' } as any,
+  sessionId: 'session-1',
+  collectedData: { commodity: 'onion', quantityKg: 500 }
+};
+
+const SAVED = {
+  id: 'session-1',
+  farmerId: 'farmer-1',
+  languageCode: 'hi',
+  stage: 'asking_quality',
+  collectedData: { commodity: 'onion', quantityKg: 500 },
+  priceSuggestion: null,
+  catalogItem: null,
+  transcript: [],
+  endedAt: null,
+  createdAt: new Date('2024-01-15T10:00:00Z'),
+  updatedAt: new Date('2024-01-15T10:05:00Z')
+} as any;
+
+describe('Voice Sessions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.voiceConversation.findUnique).mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    delete process.env.VOICE_SESSION_RESUME_WINDOW_MS;
+  });
+
+  describe('saveConversationTurn', () => {
+    it('should create the conversation on its first turn', async () => {
+      expect(await saveConversationTurn('farmer-1', STATE, '500 kilo', 'क्वालिटी कैसी है?')).toBe(true);
+
+      expect(prisma.voiceConversation.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'session-1' },
+        create: expect.objectContaining({
+          id: 'session-1',
+          farmerId: 'farmer-1',
+          languageCode: 'hi',
+          stage: 'asking_quality',
+          collectedData: { commodity: 'onion', quantityKg: 500 },
+          transcript: [
+            expect.objectContaining({ speaker: 'FARMER', text: '500 kilo', stage: 'asking_quality' }),
+            expect.objectContaining({ speaker: 'AGENT', text: 'क्वालिटी कैसी है?', stage: 'asking_quality' })
+          ]
+        })
+      }));
+    });
+
+    it('should add to the transcript and keep only the latest turns', async () => {
+      const earlier = Array.from({ length: MAX_TRANSCRIPT_TURNS }, (_, i) => ({
+        speaker: 'FARMER', text: `turn ${i}`, stage: 'asking_quantity', at: '2024-01-15T10:00:00Z'
+      }));
+      vi.mocked(prisma.voiceConversation.findUnique).mockResolvedValue({ ...SAVED, transcript: earlier });
+
+      await saveConversationTurn('farmer-1', STATE, 'achhi', 'कितने रुपये?');
+
+      const { update } = vi.mocked(prisma.voiceConversation.upsert).mock.calls[0][0] as any;
+      expect(update.transcript).toHaveLength(MAX_TRANSCRIPT_TURNS);
+      expect(update.transcript[0].text).toBe('turn 2');
+      expect(update.transcript.at(-1).text).toBe('कितने रुपये?');
+    });
+
+    it("should not touch another farmer's session", async () => {
+      vi.mocked(prisma.voiceConversation.findUnique).mockResolvedValue({ ...SAVED, farmerId: 'farmer-2' });
+
+      expect(await saveConversationTurn('farmer-1', STATE, 'achhi', 'कितने रुपये?')).toBe(false);
+      expect(prisma.voiceConversation.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should skip a conversation without a session ID', async () => {
+      expect(await saveConversationTurn('farmer-1', { ...STATE, sessionId: undefined }, 'achhi', '')).toBe(false);
+      expect(prisma.voiceConversation.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findResumableConversation', () => {
+    it('should look for a listing still being built within the window', async () => {
+      vi.mocked(prisma.voiceConversation.findFirst).mockResolvedValue(SAVED);
+      const now = new Date('2024-01-15T10:20:00Z');
+
+      const saved = await findResumableConversation('farmer-1', now);
+
+      expect(saved).toMatchObject({
+        sessionId: 'session-1',
+        stage: 'asking_quality',
+        collectedData: { commodity: 'onion', quantityKg: 500 },
+        priceSuggestion: undefined,
+        catalogItem: undefined
+      });
+      expect(prisma.voiceConversation.findFirst).toHaveBeenCalledWith({
+        where: {
+          farmerId: 'farmer-1',
+          endedAt: null,
+          stage: { in: RESUMABLE_STAGES },
+          updatedAt: { gte: new Date('2024-01-15T09:50:00Z') }
+        },
+        orderBy: { updatedAt: 'desc' }
+      });
+    });
+
+    it('should offer nothing when the window is turned off', async () => {
+      process.env.VOICE_SESSION_RESUME_WINDOW_MS = '0';
+
+      expect(getResumeWindowMs()).toBe(0);
+      expect(await findResumableConversation('farmer-1')).toBeNull();
+      expect(prisma.voiceConversation.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('endConversation', () => {
+    it("should end only the farmer's open session", async () => {
+      vi.mocked(prisma.voiceConversation.updateMany).mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+      expect(await endConversation('farmer-1', 'session-1')).toBe(true);
+      expect(await endConversation('farmer-1', 'session-1')).toBe(false);
+      expect(prisma.voiceConversation.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-1', farmerId: 'farmer-1', endedAt: null },
+        data: { endedAt: expect.any(Date) }
+      });
+    });
+  });
+});
@@ -115,3 +115,363 @@ export type BecknQuantity = z.infer<typeof BecknQuantitySchema>;
  * TypeScript type inferred from BecknTagsSchema
  */
 export type BecknTags = z.infer<typeof BecknTagsSchema>;
+
+/**
+ * BecknLocationSchema
+ * 
+ * Represents a provider location in a Beckn catalog, such as the farm or
+ * FPO collection centre a lot is picked up from.
+ * 
+ * @property id - Location ID, unique within the provider (required)
+ * @property gps - Coordinates as "latitude,longitude" (optional)
+ * @property address - Postal address; the state is required, the rest optional
+ */
+export const BecknLocationSchema = z.object({
+  id: z.string().min(1, "Location id is required"),
+  gps: z.string().regex(/^-?\d+(\.\d+)?,\s*-?\d+(\.\d+)?$/, "GPS must be \"latitude,longitude\"").optional(),
+  address: z.object({
+    locality: z.string().optional(),
+    city: z.string().optional(),
+    state: z.string().min(1, "State is required"),
+    area_code: z.string().regex(/^\d{6}$/, "Area code must be a 6-digit PIN code").optional()
+  })
+});
+
+/**
+ * BecknFulfillmentSchema
+ * 
+ * Represents a way the provider's items can be fulfilled.
+ * 
+ * @property id - Fulfillment ID, unique within the provider (required)
+ * @property type - "Delivery" or "Self-Pickup" (defaults to "Delivery")
+ * @property @ondc/org/TAT - Turnaround time as an ISO 8601 duration (optional, e.g., "P2D")
+ */
+export const BecknFulfillmentSchema = z.object({
+  id: z.string().min(1, "Fulfillment id is required"),
+  type: z.enum(["Delivery", "Self-Pickup"]).default("Delivery"),
+  "@ondc/org/TAT": z.string().regex(/^P(\d+D|T\d+H)$/, "TAT must be a duration such as P2D or PT48H").optional()
+});
+
+/**
+ * BecknCategorySchema
+ * 
+ * Represents a category the provider's items are grouped under.
+ * 
+ * @property id - Category ID, unique within the provider (required)
+ * @property descriptor.name - Category name (required, e.g., "Vegetables")
+ */
+export const BecknCategorySchema = z.object({
+  id: z.string().min(1, "Category id is required"),
+  descriptor: z.object({
+    name: z.string().min(1, "Category name is required")
+  })
+});
+
+/**
+ * BecknProviderItemSchema
+ * 
+ * A catalog item as listed by a provider: the single-item fields plus an
+ * ID and references to the provider's categories, locations and
+ * fulfillments.
+ * 
+ * @property id - Item ID, unique within the provider (required)
+ * @property category_id - ID of one of the provider's categories (optional)
+ * @property location_id - ID of one of the provider's locations (optional)
+ * @property fulfillment_id - ID of one of the provider's fulfillments (optional)
+ */
+export const BecknProviderItemSchema = BecknCatalogItemSchema.extend({
+  id: z.string().min(1, "Item id is required"),
+  category_id: z.string().optional(),
+  location_id: z.string().optional(),
+  fulfillment_id: z.string().optional()
+});
+
+/**
+ * Report IDs that appear more than once in a provider's list
+ */
+function checkUniqueIds(entries: { id: string }[], path: string, ctx: z.RefinementCtx) {
+  const seen = new Set<string>();
+  entries.forEach((entry, index) => {
+    if (seen.has(entry.id)) {
+      ctx.addIssue({ code: "custom", message: `Duplicate ${path} id ${entry.id}`, path: [path, index, "id"] });
+    }
+    seen.add(entry.id);
+  });
+}
+
+/**
+ * BecknProviderSchema
+ * 
+ * Represents one seller in a catalog (a farmer or an FPO) with the items
+ * it lists and the locations, fulfillments and categories they refer to.
+ * IDs must be unique within each list, and every item reference must
+ * name an entry the provider declares.
+ * 
+ * @property id - Provider ID (required)
+ * @property descriptor - Provider name and optional image
+ * @property locations - Where the items are (defaults to none)
+ * @property fulfillments - How the items can be fulfilled (defaults to none)
+ * @property categories - How the items are grouped (defaults to none)
+ * @property items - The lots on offer (at least one)
+ */
+export const BecknProviderSchema = z.object({
+  id: z.string().min(1, "Provider id is required"),
+  descriptor: z.object({
+    name: z.string().min(1, "Provider name is required"),
+    symbol: z.string().optional()
+  }),
+  locations: z.array(BecknLocationSchema).default([]),
+  fulfillments: z.array(BecknFulfillmentSchema).default([]),
+  categories: z.array(BecknCategorySchema).default([]),
+  items: z.array(BecknProviderItemSchema).min(1, "Provider must list at least one item")
+}).superRefine((provider, ctx) => {
+  checkUniqueIds(provider.locations, "locations", ctx);
+  checkUniqueIds(provider.fulfillments, "fulfillments", ctx);
+  checkUniqueIds(provider.categories, "categories", ctx);
+  checkUniqueIds(provider.items, "items", ctx);
+
+  const references = [
+    { field: "location_id", ids: provider.locations.map(l => l.id) },
+    { field: "fulfillment_id", ids: provider.fulfillments.map(f => f.id) },
+    { field: "category_id", ids: provider.categories.map(c => c.id) }
+  ] as const;
+
+  provider.items.forEach((item, index) => {
+    for (const { field, ids } of references) {
+      const id = item[field];
+      if (id !== undefined && !ids.includes(id)) {
+        ctx.addIssue({ code: "custom", message: `Unknown ${field} ${id}`, path: ["items", index, field] });
+      }
+    }
+  });
+});
+
+/**
+ * BecknProviderCatalogSchema
+ * 
+ * Complete provider-level catalog, as carried in the catalog of an
+ * on_search response.
+ * 
+ * @property bpp/descriptor - Name of the platform publishing the catalog
+ * @property bpp/providers - The sellers and their items (at least one)
+ */
+export const BecknProviderCatalogSchema = z.object({
+  "bpp/descriptor": z.object({
+    name: z.string().min(1, "Catalog name is required")
+  }),
+  "bpp/providers": z.array(BecknProviderSchema).min(1, "Catalog must include at least one provider")
+});
+
+/**
+ * TypeScript type inferred from BecknLocationSchema
+ */
+export type BecknLocation = z.infer<typeof BecknLocationSchema>;
+
+/**
+ * TypeScript type inferred from BecknFulfillmentSchema
+ */
+export type BecknFulfillment = z.infer<typeof BecknFulfillmentSchema>;
+
+/**
+ * TypeScript type inferred from BecknCategorySchema
+ */
+export type BecknCategory = z.infer<typeof BecknCategorySchema>;
+
+/**
+ * TypeScript type inferred from BecknProviderItemSchema
+ */
+export type BecknProviderItem = z.infer<typeof BecknProviderItemSchema>;
+
+/**
+ * TypeScript type inferred from BecknProviderSchema
+ */
+export type BecknProvider = z.infer<typeof BecknProviderSchema>;
+
+/**
+ * TypeScript type inferred from BecknProviderCatalogSchema
+ */
+export type BecknProviderCatalog = z.infer<typeof BecknProviderCatalogSchema>;
+
+/**
+ * One lot to publish in a provider catalog
+ * 
+ * @property id - Item ID for the lot (our catalog ID)
+ * @property item - The lot in the single-item shape
+ * @property category - Category name to group the lot under (optional)
+ */
+export interface CatalogLot {
+  id: string;
+  item: BecknCatalogItem;
+  category?: string;
+}
+
+/**
+ * The seller publishing a provider catalog
+ * 
+ * @property id - Provider ID
+ * @property name - Display name (farmer or FPO)
+ * @property location - Where the lots are; becomes the provider's only location (optional)
+ * @property deliveryDays - Turnaround time for delivery (optional)
+ */
+export interface CatalogProvider {
+  id: string;
+  name: string;
+  location?: {
+    state: string;
+    city?: string;
+    areaCode?: string;
+  };
+  deliveryDays?: number;
+}
+
+/**
+ * A lot read back from a provider catalog
+ * 
+ * @property providerId - The provider listing the lot
+ * @property state - State of the lot's location, if it has one
+ */
+export interface ProviderCatalogLot extends CatalogLot {
+  providerId: string;
+  state?: string;
+}
+
+/**
+ * Build a provider catalog from lots in the single-item shape
+ * 
+ * The provider gets one location (when given) and one delivery
+ * fulfillment, and every lot refers to both. Lots with the same category
+ * name share a category.
+ * 
+ * @param provider - The farmer or FPO publishing the lots
+ * @param lots - The lots to list (at least one)
+ * @param platformName - Name for the catalog's bpp/descriptor
+ * @returns The validated catalog
+ * @throws z.ZodError if the lots do not form a valid catalog
+ */
+export function toProviderCatalog(
+  provider: CatalogProvider,
+  lots: CatalogLot[],
+  platformName = "Setu Voice-to-ONDC Gateway"
+): BecknProviderCatalog {
+  const location = provider.location && {
+    id: "L1",
+    address: {
+      city: provider.location.city,
+      state: provider.location.state,
+      area_code: provider.location.areaCode
+    }
+  };
+
+  const categoryIds = new Map<string, string>();
+  for (const lot of lots) {
+    if (lot.category && !categoryIds.has(lot.category)) {
+      categoryIds.set(lot.category, `C${categoryIds.size + 1}`);
+    }
+  }
+
+  return BecknProviderCatalogSchema.parse({
+    "bpp/descriptor": { name: platformName },
+    "bpp/providers": [
+      {
+        id: provider.id,
+        descriptor: { name: provider.name },
+        locations: location ? [location] : [],
+        fulfillments: [{
+          id: "F1",
+          type: "Delivery",
+          ...(provider.deliveryDays !== undefined && { "@ondc/org/TAT": `P${provider.deliveryDays}D` })
+        }],
+        categories: [...categoryIds].map(([name, id]) => ({ id, descriptor: { name } })),
+        items: lots.map(lot => ({
+          ...lot.item,
+          id: lot.id,
+          ...(lot.category && { category_id: categoryIds.get(lot.category) }),
+          ...(location && { location_id: location.id }),
+          fulfillment_id: "F1"
+        }))
+      }
+    ]
+  });
+}
+
+/**
+ * Convert a provider item back to the single-item shape
+ */
+export function toCatalogItem(item: BecknProviderItem): BecknCatalogItem {
+  return {
+    descriptor: item.descriptor,
+    price: item.price,
+    quantity: item.quantity,
+    tags: item.tags
+  };
+}
+
+/**
+ * Read every lot in a provider catalog in the single-item shape
+ * 
+ * Inverse of toProviderCatalog: category references are resolved to
+ * names and location references to states.
+ * 
+ * @param catalog - A catalog that has passed BecknProviderCatalogSchema
+ * @returns The lots of every provider, in catalog order
+ */
+export function fromProviderCatalog(catalog: BecknProviderCatalog): ProviderCatalogLot[] {
+  return catalog["bpp/providers"].flatMap(provider =>
+    provider.items.map(item => {
+      const category = provider.categories.find(c => c.id === item.category_id);
+      const location = provider.locations.find(l => l.id === item.location_id);
+
+      return {
+        id: item.id,
+        item: toCatalogItem(item),
+        providerId: provider.id,
+        ...(category && { category: category.descriptor.name }),
+        ...(location && { state: location.address.state })
+      };
+    })
+  );
+}
+
+/**
+ * One field that differs between two versions of a catalog item
+ * 
+ * @property field - Dotted path of the field, e.g., "price.value"
+ * @property before - Previous value (undefined if the field was added)
+ * @property after - New value (undefined if the field was removed)
+ */
+export interface CatalogChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Flatten an object to its leaf values by dotted path
+ */
+function flattenFields(value: unknown, prefix: string, fields: Map<string, unknown>): Map<string, unknown> {
+  if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      flattenFields(child, prefix ? `${prefix}.${key}` : key, fields);
+    }
+  } else if (value !== undefined) {
+    fields.set(prefix, value);
+  }
+  return fields;
+}
+
+/**
+ * List the fields that differ between two versions of a catalog item
+ * 
+ * @param before - The earlier version
+ * @param after - The later version
+ * @returns One change per differing field, in field order
+ */
+export function diffCatalogItems(before: BecknCatalogItem, after: BecknCatalogItem): CatalogChange[] {
+  const beforeFields = flattenFields(before, "", new Map());
+  const afterFields = flattenFields(after, "", new Map());
+  const fields = [...new Set([...beforeFields.keys(), ...afterFields.keys()])];
+
+  return fields
+    .filter(field => JSON.stringify(beforeFields.get(field)) !== JSON.stringify(afterFields.get(field)))
+    .map(field => ({ field, before: beforeFields.get(field), after: afterFields.get(field) }));
+}
@@ -0,0 +1,375 @@
+/**
+ * Bid Learning Module - What Buyers Pay, by Commodity, Region and Season
+ *
+ * Every bid teaches the simulator something: its price relative to the
+ * farmer's asking price (the bid ratio). Ratios are kept per commodity,
+ * farmer's state and month in BidLearningStat rows, updated incrementally
+ * as bids arrive, so the model survives restarts.
+ *
+ * From these rows the simulator learns, per commodity:
+ * - the average bid ratio, once MIN_LEARNING_BIDS bids are known
+ * - a regional factor: how a state's average compares to it
+ * - a seasonal factor: how a month's average compares to it, falling back
+ *   to a hand-made seasonal table until the month has enough bids
+ *
+ * The rows are cached in memory after the first load; the cache follows
+ * every update made by this process.
+ *
+ * @module bid-learning
+ */
+
+import { prisma } from './db';
+import type { BidLearningStat } from './generated-client/client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * One bid to learn from
+ */
+export interface BidObservation {
+  commodity: string;
+  /** Bid price / asking price */
+  bidRatio: number;
+  /** The farmer's home state, if known */
+  state?: string | null;
+  /** When the bid was received */
+  at: Date;
+}
+
+/**
+ * What buyers are expected to bid for a commodity in a state and month
+ */
+export interface LearnedBidRatio {
+  /** Expected bid price / asking price */
+  ratio: number;
+  /** Average ratio over every state and month */
+  avgBidRatio: number;
+  /** Bids the average was learned from */
+  bidCount: number;
+  /** The state's deviation from the average (1 until it has enough bids) */
+  regionalFactor: number;
+  /** The month's deviation from the average (the seasonal table until it has enough bids) */
+  seasonalFactor: number;
+}
+
+/**
+ * Learned ratios of one group of bids (a state or a month)
+ */
+export interface LearningGroupStats {
+  bidCount: number;
+  avgBidRatio: number;
+  /** Group average / commodity average, once the group has enough bids */
+  factor?: number;
+}
+
+/**
+ * Everything learned about one commodity
+ */
+export interface CommodityLearningStats {
+  commodity: string;
+  bidCount: number;
+  avgBidRatio: number;
+  regions: (LearningGroupStats & { state: string })[];
+  months: (LearningGroupStats & { month: number })[];
+  lastUpdated: Date;
+}
+
+/**
+ * Result of inspecting the learning store
+ */
+export interface LearningStatsResult {
+  success: boolean;
+  stats?: CommodityLearningStats[];
+  error?: string;
+}
+
+/**
+ * Result of resetting the learning store
+ */
+export interface LearningResetResult {
+  success: boolean;
+  /** Statistic rows removed */
+  removed?: number;
+  error?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Bids needed before a commodity, state or month is trusted
+ */
+export const MIN_LEARNING_BIDS = 5;
+
+/**
+ * Prior seasonal factors per month (January first), used until a month
+ * has enough bids of its own
+ */
+const SEASONAL_PATTERNS: Record<string, number[]> = {
+  'onion': [1.2, 1.1, 1.0, 0.9, 0.85, 0.8, 0.85, 0.9, 1.0, 1.1, 1.15, 1.2],
+  'potato': [1.0, 0.95, 0.9, 0.85, 0.9, 0.95, 1.0, 1.05, 1.1, 1.05, 1.0, 1.0],
+  'tomato': [0.9, 0.85, 0.8, 0.9, 1.1, 1.3, 1.2, 1.0, 0.9, 0.85, 0.85, 0.9],
+  'wheat': [1.0, 1.0, 0.95, 0.9, 0.9, 0.95, 1.0, 1.05, 1.1, 1.1, 1.05, 1.0],
+  'rice': [1.0, 1.0, 1.0, 0.95, 0.95, 0.9, 0.9, 0.95, 1.0, 1.1, 1.1, 1.05],
+  'mango': [0.5, 0.6, 0.8, 1.0, 1.2, 1.3, 1.2, 0.9, 0.6, 0.5, 0.5, 0.5],
+};
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+/**
+ * Statistic rows by commodity, state and month; undefined until loaded
+ */
+let statsCache: Map<string, BidLearningStat> | undefined;
+let loadingStats: Promise<void> | undefined;
+
+function statKey(commodity: string, state: string, month: number): string {
+  return `${commodity}|${state}|${month}`;
+}
+
+function normalizeCommodity(commodity: string): string {
+  return commodity.trim().toLowerCase();
+}
+
+function normalizeState(state: string | null | undefined): string {
+  return state?.trim() ?? '';
+}
+
+/**
+ * Replace the cache with the rows in the store
+ */
+async function refreshCache(): Promise<BidLearningStat[]> {
+  const rows = await prisma.bidLearningStat.findMany();
+  statsCache = new Map(rows.map(row => [statKey(row.commodity, row.state, row.month), row]));
+  return rows;
+}
+
+/**
+ * Load the learning store into memory, once
+ *
+ * A failed load is logged and retried on the next call; until then
+ * nothing is learned.
+ */
+export async function loadBidLearning(): Promise<void> {
+  if (statsCache) {
+    return;
+  }
+
+  loadingStats ??= refreshCache()
+    .then(rows => {
+      console.log(`[ONDC-LEARN] Loaded ${rows.length} bid statistics`);
+    })
+    .catch(error => {
+      console.warn("[ONDC-LEARN] Could not load bid statistics:", error);
+    })
+    .finally(() => {
+      loadingStats = undefined;
+    });
+
+  await loadingStats;
+}
+
+/**
+ * Learn from a bid
+ *
+ * Adds the bid to its commodity, state and month statistics. Failures are
+ * logged; a bid is never rejected because it could not be learned from.
+ */
+export async function recordBidRatio(observation: BidObservation): Promise<void> {
+  try {
+    const commodity = normalizeCommodity(observation.commodity);
+    const state = normalizeState(observation.state);
+    const month = observation.at.getMonth() + 1;
+
+    if (!commodity || !Number.isFinite(observation.bidRatio) || observation.bidRatio <= 0) {
+      return;
+    }
+
+    const row = await prisma.bidLearningStat.upsert({
+      where: { commodity_state_month: { commodity, state, month } },
+      create: { commodity, state, month, bidCount: 1, ratioSum: observation.bidRatio },
+      update: { bidCount: { increment: 1 }, ratioSum: { increment: observation.bidRatio } }
+    });
+
+    statsCache?.set(statKey(commodity, state, month), row);
+  } catch (error) {
+    console.warn("[ONDC-LEARN] Could not update learning data:", error);
+  }
+}
+
+// ============================================================================
+// LEARNED RATIOS
+// ============================================================================
+
+/**
+ * Total the rows of a commodity that match a filter
+ */
+function sumRows(commodity: string, matches: (row: BidLearningStat) => boolean = () => true) {
+  let bidCount = 0;
+  let ratioSum = 0;
+
+  for (const row of statsCache?.values() ?? []) {
+    if (row.commodity === commodity && matches(row)) {
+      bidCount += row.bidCount;
+      ratioSum += row.ratioSum;
+    }
+  }
+
+  return { bidCount, avgBidRatio: bidCount > 0 ? ratioSum / bidCount : 0 };
+}
+
+/**
+ * A group's deviation from the commodity average, once trusted
+ */
+function groupFactor(group: { bidCount: number; avgBidRatio: number }, avgBidRatio: number): number | undefined {
+  return group.bidCount >= MIN_LEARNING_BIDS && avgBidRatio > 0
+    ? group.avgBidRatio / avgBidRatio
+    : undefined;
+}
+
+/**
+ * Get the seasonal factor for a commodity in the month of a date
+ *
+ * Learned from the month's bids once there are enough, otherwise taken
+ * from the seasonal table (1 for commodities without one).
+ */
+export function getSeasonalFactor(commodity: string, at: Date): number {
+  const key = normalizeCommodity(commodity);
+  const month = at.getMonth() + 1;
+  const overall = sumRows(key);
+
+  if (overall.bidCount >= MIN_LEARNING_BIDS) {
+    const learned = groupFactor(sumRows(key, row => row.month === month), overall.avgBidRatio);
+    if (learned !== undefined) {
+      return learned;
+    }
+  }
+
+  return SEASONAL_PATTERNS[key]?.[month - 1] ?? 1.0;
+}
+
+/**
+ * Get what buyers are expected to bid for a commodity
+ *
+ * @param commodity - The commodity
+ * @param state - The farmer's home state
+ * @param at - When the bid is made
+ * @returns The learned ratio, or null until the commodity has enough bids
+ */
+export function getLearnedRatio(commodity: string, state: string | null | undefined, at: Date): LearnedBidRatio | null {
+  const key = normalizeCommodity(commodity);
+  const overall = sumRows(key);
+
+  if (overall.bidCount < MIN_LEARNING_BIDS) {
+    return null;
+  }
+
+  const region = normalizeState(state);
+  const regionalFactor = groupFactor(sumRows(key, row => row.state === region), overall.avgBidRatio) ?? 1.0;
+  const seasonalFactor = getSeasonalFactor(key, at);
+
+  return {
+    ratio: overall.avgBidRatio * regionalFactor * seasonalFactor,
+    avgBidRatio: overall.avgBidRatio,
+    bidCount: overall.bidCount,
+    regionalFactor,
+    seasonalFactor
+  };
+}
+
+/**
+ * Summarise what is learned per commodity from the given rows
+ */
+function summarise(rows: Iterable<BidLearningStat>): CommodityLearningStats[] {
+  const byCommodity = new Map<string, BidLearningStat[]>();
+  for (const row of rows) {
+    byCommodity.set(row.commodity, [...(byCommodity.get(row.commodity) ?? []), row]);
+  }
+
+  const group = <K extends string | number>(commodityRows: BidLearningStat[], keyOf: (row: BidLearningStat) => K) => {
+    const groups = new Map<K, { bidCount: number; ratioSum: number }>();
+    for (const row of commodityRows) {
+      const totals = groups.get(keyOf(row)) ?? { bidCount: 0, ratioSum: 0 };
+      totals.bidCount += row.bidCount;
+      totals.ratioSum += row.ratioSum;
+      groups.set(keyOf(row), totals);
+    }
+    return groups;
+  };
+
+  return Array.from(byCommodity, ([commodity, commodityRows]) => {
+    const bidCount = commodityRows.reduce((sum, row) => sum + row.bidCount, 0);
+    const avgBidRatio = commodityRows.reduce((sum, row) => sum + row.ratioSum, 0) / bidCount;
+    const stats = (totals: { bidCount: number; ratioSum: number }): LearningGroupStats => {
+      const groupStats = { bidCount: totals.bidCount, avgBidRatio: totals.ratioSum / totals.bidCount };
+      return { ...groupStats, factor: groupFactor(groupStats, avgBidRatio) };
+    };
+
+    return {
+      commodity,
+      bidCount,
+      avgBidRatio,
+      regions: Array.from(group(commodityRows, row => row.state), ([state, totals]) => ({ state, ...stats(totals) }))
+        .sort((a, b) => b.bidCount - a.bidCount),
+      months: Array.from(group(commodityRows, row => row.month), ([month, totals]) => ({ month, ...stats(totals) }))
+        .sort((a, b) => a.month - b.month),
+      lastUpdated: new Date(Math.max(...commodityRows.map(row => row.updatedAt.getTime())))
+    };
+  }).sort((a, b) => b.bidCount - a.bidCount);
+}
+
+/**
+ * Get what is learned per commodity from the loaded statistics
+ */
+export function getCachedLearningStats(): CommodityLearningStats[] {
+  return summarise(statsCache?.values() ?? []);
+}
+
+// ============================================================================
+// INSPECTION AND RESET
+// ============================================================================
+
+/**
+ * Read what is learned per commodity from the store, busiest first
+ *
+ * Also refreshes the in-memory cache.
+ */
+export async function getBidLearningStats(): Promise<LearningStatsResult> {
+  try {
+    return { success: true, stats: summarise(await refreshCache()) };
+  } catch (error) {
+    console.error('[ONDC-LEARN] Reading bid statistics failed:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Could not read bid statistics' };
+  }
+}
+
+/**
+ * Forget what was learned, for one commodity or all
+ *
+ * @param commodity - Commodity to forget (every commodity when omitted)
+ */
+export async function resetBidLearning(commodity?: string): Promise<LearningResetResult> {
+  try {
+    const key = commodity ? normalizeCommodity(commodity) : undefined;
+    const { count } = await prisma.bidLearningStat.deleteMany({
+      where: key ? { commodity: key } : {}
+    });
+
+    for (const [cacheKey, row] of statsCache ?? []) {
+      if (!key || row.commodity === key) {
+        statsCache?.delete(cacheKey);
+      }
+    }
+
+    console.log(`[ONDC-LEARN] Reset ${count} bid statistics${key ? ` for ${key}` : ''}`);
+
+    return { success: true, removed: count };
+  } catch (error) {
+    console.error('[ONDC-LEARN] Resetting bid statistics failed:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Could not reset bid statistics' };
+  }
+}
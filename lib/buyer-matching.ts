@@ -0,0 +1,268 @@
+/**
+ * Buyer Matching Module - Which Buyers a Listing Is Broadcast To
+ *
+ * Decides which registered buyers receive a listing's broadcast, and
+ * explains the decision for every buyer. A buyer is eligible when it:
+ * - is verified and not suspended
+ * - operates in the farmer's state (any state when it is unknown)
+ * - buys the commodity (any, when it has no commodity preferences)
+ * - has enough daily capacity left for the listed quantity, after the
+ *   orders it has taken today
+ *
+ * Up to maxBidders eligible buyers are then drawn, weighted by rating and
+ * success rate. Capacity is in kilograms; listings in other units (crates,
+ * dozens) are not checked against it.
+ *
+ * @module buyer-matching
+ */
+
+import { prisma } from './db';
+import type { Buyer } from './buyer-pool';
+import { buysCommodity, getBuyers } from './buyer-registry';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Why a buyer did or didn't receive a broadcast
+ */
+export type MatchOutcome =
+  | 'SELECTED'      // Received the broadcast
+  | 'NOT_DRAWN'     // Eligible, but the auction was full
+  | 'UNVERIFIED'
+  | 'SUSPENDED'
+  | 'OUT_OF_STATE'
+  | 'COMMODITY'     // Does not buy the commodity
+  | 'NO_CAPACITY';  // Not enough daily capacity left
+
+/**
+ * The listing buyers are matched to
+ */
+export interface MatchListing {
+  commodity: string;
+  /** The farmer's home state, if known */
+  state?: string | null;
+  quantity: { count: number; unit: string };
+}
+
+/**
+ * One buyer's matching decision
+ */
+export interface BuyerMatch {
+  buyerName: string;
+  subscriberId: string;
+  outcome: MatchOutcome;
+  /** Human-readable reason for the outcome */
+  explanation: string;
+  /** Capacity (kg) left today before this listing */
+  remainingCapacity: number;
+  /** Draw weight (rating x success rate), for eligible buyers */
+  weight?: number;
+}
+
+/**
+ * Result of matching a listing
+ */
+export interface MatchResult {
+  /** Buyers that receive the broadcast, in the order drawn */
+  selected: Buyer[];
+  /** A decision for every known buyer */
+  matches: BuyerMatch[];
+}
+
+// ============================================================================
+// CAPACITY
+// ============================================================================
+
+/**
+ * Kilograms per unit for the weight units farmers list in
+ */
+const KG_PER_UNIT: Record<string, number> = {
+  kg: 1,
+  kgs: 1,
+  kilo: 1,
+  kilogram: 1,
+  kilograms: 1,
+  g: 0.001,
+  gram: 0.001,
+  grams: 0.001,
+  quintal: 100,
+  quintals: 100,
+  qtl: 100,
+  ton: 1000,
+  tons: 1000,
+  tonne: 1000,
+  tonnes: 1000
+};
+
+/**
+ * Convert a quantity to kilograms
+ *
+ * @returns The weight, or null for units that are not weights
+ */
+export function toKilograms(count: number, unit: string): number | null {
+  const perUnit = KG_PER_UNIT[unit.trim().toLowerCase()];
+  return perUnit === undefined ? null : count * perUnit;
+}
+
+/**
+ * Start of the day a time falls in (local time)
+ */
+function startOfDay(at: Date): Date {
+  const day = new Date(at);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+/**
+ * Kilograms each buyer has ordered today, by subscriber ID
+ *
+ * Cancelled orders and orders in other units are not counted. If the
+ * orders cannot be read, nothing is counted.
+ *
+ * @param now - The current time
+ */
+export async function getCommittedToday(now: Date): Promise<Map<string, number>> {
+  const committed = new Map<string, number>();
+
+  try {
+    const orders = await prisma.order.findMany({
+      where: {
+        createdAt: { gte: startOfDay(now) },
+        status: { not: 'CANCELLED' },
+        buyerSubscriberId: { not: null }
+      },
+      select: { buyerSubscriberId: true, quantity: true, unit: true }
+    });
+
+    for (const order of orders) {
+      const kg = toKilograms(order.quantity, order.unit);
+      if (kg !== null && order.buyerSubscriberId) {
+        committed.set(order.buyerSubscriberId, (committed.get(order.buyerSubscriberId) ?? 0) + kg);
+      }
+    }
+  } catch (error) {
+    console.warn('[BUYER-MATCHING] Could not read today\'s orders, assuming full capacity:', error);
+  }
+
+  return committed;
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * Decide whether one buyer is eligible for a listing
+ */
+function evaluateBuyer(buyer: Buyer, listing: MatchListing, remainingCapacity: number): BuyerMatch {
+  const decision = (outcome: MatchOutcome, explanation: string, weight?: number): BuyerMatch => ({
+    buyerName: buyer.name,
+    subscriberId: buyer.subscriberId,
+    outcome,
+    explanation,
+    remainingCapacity,
+    weight
+  });
+
+  if (!buyer.verified) {
+    return decision('UNVERIFIED', 'Not verified on the network');
+  }
+
+  if (buyer.suspended) {
+    return decision('SUSPENDED', 'Suspended from auctions');
+  }
+
+  const state = listing.state?.trim();
+  if (state && !buyer.operatingStates.some(s => s.toLowerCase() === state.toLowerCase())) {
+    return decision('OUT_OF_STATE', `Does not operate in ${state}`);
+  }
+
+  if (!buysCommodity(buyer, listing.commodity)) {
+    return decision('COMMODITY', `Does not buy ${listing.commodity} (buys ${buyer.commodityPreferences!.join(', ')})`);
+  }
+
+  const { count, unit } = listing.quantity;
+  const listedKg = toKilograms(count, unit);
+  if (listedKg !== null && listedKg > remainingCapacity) {
+    return decision('NO_CAPACITY', `Only ${Math.round(remainingCapacity)} kg of daily capacity left for ${listedKg} kg`);
+  }
+
+  const capacity = listedKg === null
+    ? `capacity not checked for ${unit || 'this unit'}`
+    : `${Math.round(remainingCapacity)} kg capacity left today`;
+  const region = state ? `Operates in ${state}` : 'Farmer\'s state unknown';
+  return decision('NOT_DRAWN', `${region}, buys ${listing.commodity}, ${capacity}`, buyer.rating * buyer.successRate);
+}
+
+/**
+ * Match buyers to a listing
+ *
+ * Every buyer gets a decision. Eligible buyers are drawn, without
+ * replacement and weighted by rating x success rate, until maxBidders are
+ * selected; the rest are NOT_DRAWN.
+ *
+ * @param buyers - Buyers to consider
+ * @param listing - The listing being broadcast
+ * @param committed - Kilograms each buyer has ordered today
+ * @param maxBidders - Most buyers to select
+ * @param random - Random source for the draw
+ */
+export function matchBuyers(
+  buyers: Buyer[],
+  listing: MatchListing,
+  committed: Map<string, number>,
+  maxBidders: number,
+  random: () => number
+): MatchResult {
+  const matches = buyers.map(buyer =>
+    evaluateBuyer(buyer, listing, Math.max(0, buyer.dailyCapacity - (committed.get(buyer.subscriberId) ?? 0)))
+  );
+
+  const selected: Buyer[] = [];
+  const candidates = matches
+    .map((match, index) => ({ match, buyer: buyers[index] }))
+    .filter(({ match }) => match.outcome === 'NOT_DRAWN');
+
+  while (candidates.length > 0 && selected.length < maxBidders) {
+    const totalWeight = candidates.reduce((sum, c) => sum + c.match.weight!, 0);
+    let remaining = random() * totalWeight;
+    let index = candidates.findIndex(c => {
+      remaining -= c.match.weight!;
+      return remaining <= 0;
+    });
+    if (index === -1) {
+      index = candidates.length - 1;
+    }
+
+    const [drawn] = candidates.splice(index, 1);
+    drawn.match.outcome = 'SELECTED';
+    selected.push(drawn.buyer);
+  }
+
+  for (const { match } of candidates) {
+    match.explanation += `; not drawn, the auction takes ${maxBidders} buyers`;
+  }
+
+  return { selected, matches };
+}
+
+/**
+ * Match the registered buyers to a listing
+ *
+ * @param listing - The listing being broadcast
+ * @param options - Most buyers to select, random source and current time
+ */
+export async function matchBuyersForListing(
+  listing: MatchListing,
+  options: { maxBidders: number; random: () => number; now: Date }
+): Promise<MatchResult> {
+  const committed = await getCommittedToday(options.now);
+  const result = matchBuyers(getBuyers(), listing, committed, options.maxBidders, options.random);
+
+  console.log(`[BUYER-MATCHING] ${listing.commodity} in ${listing.state || 'any state'}: ` +
+    `${result.selected.length} of ${result.matches.length} buyers selected`);
+
+  return result;
+}
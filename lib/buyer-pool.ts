@@ -0,0 +1,183 @@
+/**
+ * Buyer Pool Module - ONDC Buyer Platforms
+ *
+ * Built-in list of buyer platforms. It seeds the Buyer table, which the
+ * app reads through lib/buyer-registry.ts, and is served as-is by the
+ * local mock ONDC network. Kept free of database and server-only imports
+ * so it can be loaded from standalone scripts.
+ *
+ * @module buyer-pool
+ */
+
+/**
+ * Kind of buyer
+ */
+export type BuyerCategory = 'RETAILER' | 'WHOLESALER' | 'FPO' | 'LOCAL_TRADER';
+
+/**
+ * Extended buyer information including ONDC-specific fields
+ */
+export interface Buyer {
+  name: string;
+  logo: string;
+  rating: number;
+  location: string;
+  verified: boolean;
+  /** ONDC BAP Subscriber ID */
+  subscriberId: string;
+  /** GSTIN for GST compliance */
+  gstin: string;
+  /** Operational states */
+  operatingStates: string[];
+  /** Maximum order capacity per day, in kilograms */
+  dailyCapacity: number;
+  /** Average response time in seconds */
+  avgResponseTime: number;
+  /** Success rate in percentage */
+  successRate: number;
+  /** Kind of buyer (RETAILER when unset) */
+  category?: BuyerCategory;
+  /** Commodities bought (all when empty or unset) */
+  commodityPreferences?: string[];
+  /** Suspended buyers take no part in auctions */
+  suspended?: boolean;
+}
+
+/**
+ * Pool of ONDC-registered buyer platforms
+ * These represent major ONDC-compliant buyer platforms in India
+ * Data based on actual ONDC network participants
+ */
+export const BUYER_POOL: Buyer[] = [
+  {
+    name: "Reliance Retail (JioMart)",
+    logo: "/logos/jiomart.png",
+    rating: 4.6,
+    location: "Mumbai, Maharashtra",
+    verified: true,
+    subscriberId: "ondc.reliance.retail.bap",
+    gstin: "27AAACR5055K1ZK",
+    operatingStates: ["Maharashtra", "Gujarat", "Karnataka", "Tamil Nadu", "Delhi", "Uttar Pradesh"],
+    dailyCapacity: 50000,
+    avgResponseTime: 8.5,
+    successRate: 94
+  },
+  {
+    name: "BigBasket (Tata Digital)",
+    logo: "/logos/bigbasket.png",
+    rating: 4.7,
+    location: "Bengaluru, Karnataka",
+    verified: true,
+    subscriberId: "ondc.bigbasket.tata.bap",
+    gstin: "29AAACT2638R1ZH",
+    operatingStates: ["Karnataka", "Maharashtra", "Tamil Nadu", "Telangana", "Delhi", "West Bengal"],
+    dailyCapacity: 40000,
+    avgResponseTime: 7.2,
+    successRate: 96
+  },
+  {
+    name: "Paytm Mall",
+    logo: "/logos/paytm.png",
+    rating: 4.2,
+    location: "Noida, Uttar Pradesh",
+    verified: true,
+    subscriberId: "ondc.paytm.mall.bap",
+    gstin: "09AADCP8872M1ZW",
+    operatingStates: ["Uttar Pradesh", "Delhi", "Rajasthan", "Madhya Pradesh", "Bihar"],
+    dailyCapacity: 25000,
+    avgResponseTime: 9.8,
+    successRate: 89
+  },
+  {
+    name: "Flipkart Supermart",
+    logo: "/logos/flipkart.png",
+    rating: 4.5,
+    location: "Bengaluru, Karnataka",
+    verified: true,
+    subscriberId: "ondc.flipkart.supermart.bap",
+    gstin: "29AABCF8078M1ZB",
+    operatingStates: ["Karnataka", "Maharashtra", "Tamil Nadu", "Telangana", "Delhi", "Gujarat"],
+    dailyCapacity: 45000,
+    avgResponseTime: 7.8,
+    successRate: 93
+  },
+  {
+    name: "Amazon Fresh India",
+    logo: "/logos/amazon.png",
+    rating: 4.8,
+    location: "Hyderabad, Telangana",
+    verified: true,
+    subscriberId: "ondc.amazon.fresh.bap",
+    gstin: "36AABCU9603R1ZM",
+    operatingStates: ["Telangana", "Karnataka", "Tamil Nadu", "Maharashtra", "Delhi"],
+    dailyCapacity: 35000,
+    avgResponseTime: 6.5,
+    successRate: 97
+  },
+  {
+    name: "Spencers Retail",
+    logo: "/logos/spencers.png",
+    rating: 4.1,
+    location: "Kolkata, West Bengal",
+    verified: true,
+    subscriberId: "ondc.spencers.retail.bap",
+    gstin: "19AAACS9107N1ZF",
+    operatingStates: ["West Bengal", "Jharkhand", "Odisha", "Bihar", "Assam"],
+    dailyCapacity: 15000,
+    avgResponseTime: 11.2,
+    successRate: 87
+  },
+  {
+    name: "Blinkit (Zomato)",
+    logo: "/logos/blinkit.png",
+    rating: 4.4,
+    location: "Gurugram, Haryana",
+    verified: true,
+    subscriberId: "ondc.blinkit.zomato.bap",
+    gstin: "06AADCZ4886M1ZT",
+    operatingStates: ["Haryana", "Delhi", "Uttar Pradesh", "Maharashtra", "Karnataka"],
+    dailyCapacity: 30000,
+    avgResponseTime: 5.8,
+    successRate: 91
+  },
+  {
+    name: "Nature's Basket (Godrej)",
+    logo: "/logos/natures-basket.png",
+    rating: 4.3,
+    location: "Mumbai, Maharashtra",
+    verified: true,
+    subscriberId: "ondc.naturesbasket.godrej.bap",
+    gstin: "27AAACG0681D1ZN",
+    operatingStates: ["Maharashtra", "Gujarat", "Karnataka"],
+    dailyCapacity: 8000,
+    avgResponseTime: 12.5,
+    successRate: 92
+  },
+  {
+    name: "Star Bazaar (Trent)",
+    logo: "/logos/star-bazaar.png",
+    rating: 4.0,
+    location: "Mumbai, Maharashtra",
+    verified: true,
+    subscriberId: "ondc.starbazaar.trent.bap",
+    gstin: "27AAACT2103M1ZD",
+    operatingStates: ["Maharashtra", "Gujarat", "Madhya Pradesh", "Rajasthan"],
+    dailyCapacity: 12000,
+    avgResponseTime: 13.0,
+    successRate: 85
+  },
+  {
+    name: "Udaan B2B",
+    logo: "/logos/udaan.png",
+    rating: 4.4,
+    location: "Bengaluru, Karnataka",
+    verified: true,
+    subscriberId: "ondc.udaan.b2b.bap",
+    gstin: "29AADCU5789K1Z5",
+    category: "WHOLESALER",
+    operatingStates: ["Karnataka", "Tamil Nadu", "Maharashtra", "Delhi", "Gujarat", "Rajasthan"],
+    dailyCapacity: 60000,
+    avgResponseTime: 8.0,
+    successRate: 90
+  }
+];
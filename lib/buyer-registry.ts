@@ -0,0 +1,283 @@
+/**
+ * Buyer Registry Module - Buyer Platforms Kept in the Database
+ *
+ * The buyers the simulator auctions listings to live in the Buyer table,
+ * seeded from the built-in pool (lib/buyer-pool) and managed from the
+ * admin screens: buyers can be added, edited, suspended and verified
+ * without code changes. Only verified buyers that are not suspended take
+ * part in auctions.
+ *
+ * The registry is read from the database at the start of each broadcast
+ * and kept in memory for lookups by subscriber ID. Until it has been read,
+ * or while the Buyer table is empty or unreachable, the built-in pool is
+ * used.
+ *
+ * @module buyer-registry
+ */
+
+import { z } from 'zod';
+import { prisma, handleDatabaseError } from './db';
+import { BUYER_POOL, type Buyer, type BuyerCategory } from './buyer-pool';
+import type { Buyer as BuyerRecord } from './generated-client/client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A buyer as stored in the registry
+ */
+export interface RegisteredBuyer extends Buyer {
+  id: string;
+  category: BuyerCategory;
+  commodityPreferences: string[];
+  suspended: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Fields an admin sets when adding or editing a buyer
+ */
+export interface BuyerInput {
+  name: string;
+  /** ONDC subscriber ID; fixed once the buyer is registered */
+  subscriberId: string;
+  category: BuyerCategory;
+  logo: string;
+  rating: number;
+  location: string;
+  gstin: string;
+  operatingStates: string[];
+  /** Commodities bought (all when empty) */
+  commodityPreferences: string[];
+  dailyCapacity: number;
+  avgResponseTime: number;
+  successRate: number;
+}
+
+/**
+ * Result of a registry change
+ */
+export interface BuyerResult {
+  success: boolean;
+  /** The buyer after the change */
+  buyer?: RegisteredBuyer;
+  error?: string;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const BUYER_CATEGORIES = ['RETAILER', 'WHOLESALER', 'FPO', 'LOCAL_TRADER'] as const;
+
+const nameListSchema = z.array(z.string().trim().min(1));
+
+const buyerInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  subscriberId: z.string().trim().min(1, 'Subscriber ID is required'),
+  category: z.enum(BUYER_CATEGORIES),
+  logo: z.string().trim(),
+  rating: z.number().min(0).max(5),
+  location: z.string().trim(),
+  gstin: z.string().trim().regex(/^[0-9A-Z]{15}$/, 'GSTIN must be 15 letters and digits'),
+  operatingStates: nameListSchema.min(1, 'At least one operating state is required'),
+  commodityPreferences: nameListSchema,
+  dailyCapacity: z.number().int().positive(),
+  avgResponseTime: z.number().positive(),
+  successRate: z.number().min(0).max(100)
+});
+
+/**
+ * First validation problem, as a readable message
+ */
+function describeIssue(error: z.ZodError): string {
+  const [issue] = error.issues;
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+}
+
+// ============================================================================
+// REGISTRY CACHE
+// ============================================================================
+
+/**
+ * Buyers last read from the database (undefined until the first read)
+ */
+let registryCache: Buyer[] | undefined;
+
+let loadingRegistry: Promise<Buyer[]> | undefined;
+
+/**
+ * Convert a Buyer record to a registry entry
+ */
+function toRegisteredBuyer(record: BuyerRecord): RegisteredBuyer {
+  return {
+    ...record,
+    operatingStates: record.operatingStates as string[],
+    commodityPreferences: record.commodityPreferences as string[]
+  };
+}
+
+/**
+ * Read the registry from the database
+ *
+ * Falls back to the built-in pool when the Buyer table is empty (not
+ * seeded yet) or cannot be read.
+ *
+ * @returns The buyers now in use
+ */
+export async function loadBuyerRegistry(): Promise<Buyer[]> {
+  loadingRegistry ??= listBuyers()
+    .then(buyers => {
+      if (buyers.length === 0) {
+        console.warn('[BUYER-REGISTRY] No buyers registered, using the built-in buyer pool');
+        registryCache = [...BUYER_POOL];
+      } else {
+        registryCache = buyers;
+      }
+      return registryCache;
+    })
+    .catch(error => {
+      console.warn('[BUYER-REGISTRY] Could not read buyers, using the last known list:', error);
+      return registryCache ?? [...BUYER_POOL];
+    })
+    .finally(() => {
+      loadingRegistry = undefined;
+    });
+
+  return loadingRegistry;
+}
+
+/**
+ * Get every known buyer, suspended ones included
+ *
+ * Reads nothing: returns what the last load found.
+ */
+export function getBuyers(): Buyer[] {
+  return [...(registryCache ?? BUYER_POOL)];
+}
+
+/**
+ * Get the buyers that take part in auctions: verified and not suspended
+ */
+export function getAuctionBuyers(): Buyer[] {
+  return getBuyers().filter(b => b.verified && !b.suspended);
+}
+
+/**
+ * Find a buyer by ONDC subscriber ID, or by name for older bids without one
+ */
+export function findBuyer(subscriberId?: string | null, name?: string): Buyer | undefined {
+  const buyers = registryCache ?? BUYER_POOL;
+  return buyers.find(b => b.subscriberId === subscriberId)
+    ?? (name ? buyers.find(b => b.name === name) : undefined);
+}
+
+/**
+ * Find a buyer, reading the registry again if it is not known yet
+ *
+ * For callbacks and exchanges that may name a buyer registered since the
+ * last load.
+ */
+export async function lookupBuyer(subscriberId?: string | null, name?: string): Promise<Buyer | undefined> {
+  const buyer = findBuyer(subscriberId, name);
+  if (buyer) {
+    return buyer;
+  }
+
+  await loadBuyerRegistry();
+  return findBuyer(subscriberId, name);
+}
+
+/**
+ * Whether a buyer buys a commodity
+ */
+export function buysCommodity(buyer: Buyer, commodity: string): boolean {
+  const preferences = buyer.commodityPreferences ?? [];
+  return preferences.length === 0
+    || preferences.some(p => p.toLowerCase() === commodity.toLowerCase());
+}
+
+// ============================================================================
+// ADMINISTRATION
+// ============================================================================
+
+/**
+ * List the registered buyers, oldest first
+ */
+export async function listBuyers(): Promise<RegisteredBuyer[]> {
+  const records = await prisma.buyer.findMany({ orderBy: { createdAt: 'asc' } });
+  return records.map(toRegisteredBuyer);
+}
+
+/**
+ * Save a change to a buyer and make it live
+ */
+async function saveBuyer(action: string, change: () => Promise<BuyerRecord>): Promise<BuyerResult> {
+  try {
+    const buyer = toRegisteredBuyer(await change());
+    await loadBuyerRegistry();
+    console.log(`[BUYER-REGISTRY] ${action} ${buyer.name} (${buyer.subscriberId})`);
+    return { success: true, buyer };
+  } catch (error) {
+    console.error(`[BUYER-REGISTRY] ${action} failed:`, error);
+    return { success: false, error: handleDatabaseError(error) };
+  }
+}
+
+/**
+ * Register a new buyer
+ *
+ * New buyers start unverified, so they take no part in auctions until an
+ * admin verifies them.
+ */
+export async function createBuyer(input: BuyerInput): Promise<BuyerResult> {
+  const parsed = buyerInputSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: describeIssue(parsed.error) };
+  }
+
+  const existing = await prisma.buyer.findUnique({ where: { subscriberId: parsed.data.subscriberId } });
+  if (existing) {
+    return { success: false, error: `Subscriber ID ${parsed.data.subscriberId} is already registered` };
+  }
+
+  return saveBuyer('Registered', () => prisma.buyer.create({ data: parsed.data }));
+}
+
+/**
+ * Edit a buyer's details
+ *
+ * @param id - The buyer's registry ID
+ * @param input - Fields to change; the subscriber ID cannot change
+ */
+export async function updateBuyer(
+  id: string,
+  input: Partial<Omit<BuyerInput, 'subscriberId'>>
+): Promise<BuyerResult> {
+  const parsed = buyerInputSchema.omit({ subscriberId: true }).partial().safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: describeIssue(parsed.error) };
+  }
+
+  return saveBuyer('Updated', () => prisma.buyer.update({ where: { id }, data: parsed.data }));
+}
+
+/**
+ * Suspend a buyer from auctions, or lift the suspension
+ */
+export async function setBuyerSuspended(id: string, suspended: boolean): Promise<BuyerResult> {
+  return saveBuyer(suspended ? 'Suspended' : 'Reinstated', () =>
+    prisma.buyer.update({ where: { id }, data: { suspended } })
+  );
+}
+
+/**
+ * Mark a buyer verified (it can then take part in auctions) or not
+ */
+export async function setBuyerVerified(id: string, verified: boolean): Promise<BuyerResult> {
+  return saveBuyer(verified ? 'Verified' : 'Unverified', () =>
+    prisma.buyer.update({ where: { id }, data: { verified } })
+  );
+}
@@ -0,0 +1,212 @@
+/**
+ * Cancellation Module - Withdrawing Listings and Sales
+ *
+ * A farmer can cancel:
+ * - a listing that has not sold (DRAFT or BROADCASTED): the catalog is
+ *   marked CANCELLED and bids still open on it expire
+ * - a sale whose produce has not been picked up yet: cancel/on_cancel is
+ *   exchanged with the buyer using an ONDC cancellation reason code, the
+ *   order is CANCELLED and the catalog withdrawn
+ *
+ * Buyers cancel through on_cancel callbacks (see lib/ondc-callbacks); the
+ * order is cancelled and the catalog goes back to DRAFT so the produce can
+ * be listed again.
+ *
+ * @module cancellation
+ */
+
+import { prisma } from './db';
+import type { Catalog, Order } from './generated-client/client';
+import type { BecknCatalogItem } from './beckn-schema';
+import {
+  ONDC_CANCELLATION_REASONS,
+  isCancellationReasonCode,
+  type ONDCCancellationReasonCode
+} from './ondc-protocol';
+import { deliverSimulatedCallback } from './ondc-callbacks';
+import { cancelOrder } from './order-lifecycle';
+import { simulateOrderCancellation } from './network-simulator';
+import { mapCommodityName } from './translation-agent';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Result of cancelling a listing or sale
+ */
+export interface CancellationResult {
+  success: boolean;
+  /** The withdrawn catalog */
+  catalog?: Catalog;
+  /** The cancelled order, when a sale was cancelled */
+  order?: Order;
+  error?: string;
+}
+
+/**
+ * A listing or sale the farmer can still cancel
+ */
+export interface CancellationCandidate {
+  catalog: Catalog;
+  /** The open order when the listing has been sold */
+  order?: Order;
+}
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+/**
+ * Order statuses that can still be cancelled
+ */
+const OPEN_ORDER_STATUSES = ['BID_ACCEPTED', 'ORDER_CONFIRMED'] as const;
+
+/**
+ * Reason code used when the farmer does not give one
+ */
+const DEFAULT_FARMER_REASON: ONDCCancellationReasonCode = '002';
+
+/**
+ * Find the farmer's most recent listing or sale that can be cancelled
+ *
+ * @param farmerId - The farmer cancelling
+ * @param commodity - Standardized commodity name (e.g. "Onions") to match,
+ *   or undefined for the latest of any commodity
+ * @returns The listing and its open order, or null if nothing matches
+ */
+export async function findCancellableCatalog(
+  farmerId: string,
+  commodity?: string
+): Promise<CancellationCandidate | null> {
+  const catalogs = await prisma.catalog.findMany({
+    where: { farmerId, status: { in: ['DRAFT', 'BROADCASTED', 'SOLD'] } },
+    include: {
+      orders: {
+        where: { status: { in: [...OPEN_ORDER_STATUSES] } },
+        orderBy: { createdAt: 'desc' },
+        take: 1
+      }
+    },
+    orderBy: { updatedAt: 'desc' }
+  });
+
+  for (const { orders, ...catalog } of catalogs) {
+    if (catalog.status === 'SOLD' && orders.length === 0) {
+      continue;
+    }
+
+    const name = (catalog.becknJson as unknown as BecknCatalogItem).descriptor?.name || '';
+    if (commodity && mapCommodityName(name) !== commodity) {
+      continue;
+    }
+
+    return { catalog, order: orders[0] };
+  }
+
+  return null;
+}
+
+// ============================================================================
+// CANCELLATION
+// ============================================================================
+
+/**
+ * Cancel a listing that has not been sold
+ *
+ * @param catalogId - The catalog to withdraw
+ */
+export async function cancelListing(catalogId: string): Promise<CancellationResult> {
+  try {
+    const catalog = await prisma.catalog.findUnique({
+      where: { id: catalogId }
+    });
+
+    if (!catalog) {
+      return { success: false, error: `Catalog ${catalogId} not found` };
+    }
+
+    if (catalog.status === 'SOLD') {
+      return { success: false, error: 'This produce has been sold; cancel the sale instead' };
+    }
+
+    if (catalog.status === 'CANCELLED') {
+      return { success: false, error: 'This listing is already cancelled' };
+    }
+
+    const { count } = await prisma.catalog.updateMany({
+      where: { id: catalogId, status: catalog.status },
+      data: { status: 'CANCELLED' }
+    });
+
+    if (count === 0) {
+      return { success: false, error: 'This listing changed while cancelling; please try again' };
+    }
+
+    const expired = await prisma.bid.updateMany({
+      where: { catalogId, status: 'RECEIVED' },
+      data: { status: 'EXPIRED' }
+    });
+
+    console.log(`[CANCELLATION] Listing ${catalogId} cancelled, ${expired.count} open bids expired`);
+
+    return { success: true, catalog: { ...catalog, status: 'CANCELLED' } };
+
+  } catch (error) {
+    console.error('[CANCELLATION] Listing cancellation failed:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Could not cancel listing' };
+  }
+}
+
+/**
+ * Cancel a sale before the produce is picked up
+ *
+ * The buyer is sent cancel and answers on_cancel; the order and its
+ * catalog are then cancelled.
+ *
+ * @param orderId - The order to cancel
+ * @param reasonCode - ONDC reason code; must be one a seller may give
+ */
+export async function cancelSale(
+  orderId: string,
+  reasonCode: string = DEFAULT_FARMER_REASON
+): Promise<CancellationResult> {
+  try {
+    if (!isCancellationReasonCode(reasonCode) || ONDC_CANCELLATION_REASONS[reasonCode].initiatedBy !== 'SELLER') {
+      return { success: false, error: `Reason code ${reasonCode} cannot be given by a farmer` };
+    }
+
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: { catalog: true, fulfillmentEvents: true }
+    });
+
+    if (!order) {
+      return { success: false, error: `Order ${orderId} not found` };
+    }
+
+    const { catalog, fulfillmentEvents, ...orderRecord } = order;
+
+    if (!(OPEN_ORDER_STATUSES as readonly string[]).includes(orderRecord.status)) {
+      return { success: false, error: `This order is ${orderRecord.status.toLowerCase().replace('_', ' ')} and cannot be cancelled` };
+    }
+
+    if (fulfillmentEvents.some(event => event.state !== 'PACKED')) {
+      return { success: false, error: 'The produce has already been picked up' };
+    }
+
+    await simulateOrderCancellation(orderRecord, reasonCode, {
+      deliverCallback: deliverSimulatedCallback
+    });
+
+    const cancelled = await cancelOrder(orderId, { reasonCode, cancelledBy: 'FARMER' });
+
+    console.log(`[CANCELLATION] Sale ${orderId} to ${orderRecord.buyerName} cancelled (reason ${reasonCode})`);
+
+    return { success: true, order: cancelled, catalog: { ...catalog, status: 'CANCELLED' } };
+
+  } catch (error) {
+    console.error('[CANCELLATION] Sale cancellation failed:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Could not cancel sale' };
+  }
+}
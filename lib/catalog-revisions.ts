@@ -0,0 +1,237 @@
+/**
+ * Catalog Revisions Module - Edit History of Listings
+ *
+ * Every saved listing keeps its revisions: version 1 when it is created,
+ * and one more each time it is edited, recording the whole listing, the
+ * fields that changed, who changed them and when.
+ *
+ * Editing a listing that has been broadcast sends buyers an ONDC update
+ * (see ondc-broadcast) so they can re-price. Sold and cancelled listings
+ * cannot be edited.
+ *
+ * @module catalog-revisions
+ */
+
+import { prisma, handleDatabaseError } from './db';
+import type { Catalog, CatalogRevision, Prisma } from './generated-client/client';
+import {
+  BecknCatalogItemSchema,
+  diffCatalogItems,
+  type BecknCatalogItem,
+  type CatalogChange
+} from './beckn-schema';
+import { describeRuleErrors, validateFarmerListing, type CatalogRuleReport } from './catalog-rules';
+import { broadcastCatalogUpdate, type StartBroadcastResult } from './ondc-broadcast';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A revision with its listing and changes typed
+ */
+export interface CatalogRevisionEntry {
+  id: string;
+  catalogId: string;
+  version: number;
+  item: BecknCatalogItem;
+  /** Fields changed from the previous revision (empty for the first) */
+  changes: CatalogChange[];
+  changedBy: string;
+  note: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Result of editing a listing
+ */
+export interface CatalogUpdateResult {
+  success: boolean;
+  /** The listing after the edit */
+  catalog?: Catalog;
+  revision?: CatalogRevisionEntry;
+  /** The ONDC update sent to buyers, when the listing had been broadcast */
+  update?: StartBroadcastResult;
+  /** The AGR10 rule check of the edited listing, when it broke the rules */
+  ruleReport?: CatalogRuleReport;
+  error?: string;
+}
+
+/**
+ * Result of reading a listing's history
+ */
+export interface CatalogRevisionsResult {
+  success: boolean;
+  /** Oldest first */
+  revisions?: CatalogRevisionEntry[];
+  error?: string;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Nested create for a new listing's first revision
+ *
+ * @param item - The listing as saved
+ * @param changedBy - Who created it (usually the farmer ID)
+ */
+export function firstRevision(item: BecknCatalogItem, changedBy: string) {
+  return {
+    create: {
+      version: 1,
+      becknJson: item as Prisma.InputJsonValue,
+      changes: [],
+      changedBy
+    }
+  };
+}
+
+function toRevisionEntry(revision: CatalogRevision): CatalogRevisionEntry {
+  return {
+    id: revision.id,
+    catalogId: revision.catalogId,
+    version: revision.version,
+    item: revision.becknJson as unknown as BecknCatalogItem,
+    changes: revision.changes as unknown as CatalogChange[],
+    changedBy: revision.changedBy,
+    note: revision.note,
+    createdAt: revision.createdAt
+  };
+}
+
+// ============================================================================
+// REVISIONS
+// ============================================================================
+
+/**
+ * Edit a listing, recording a new revision
+ *
+ * Listings saved before revisions were kept get their current state
+ * recorded first, so the history starts from it. A pooled listing's
+ * quantity is the sum of its members' lots and only changes with them
+ * (see fpo-pool). Edits that break the AGR10 rules are refused.
+ *
+ * @param catalogId - The listing to edit
+ * @param item - The listing as edited
+ * @param options - Who made the edit (defaults to the listing's farmer), an optional note,
+ *   and whether the edit is a pool's new total
+ */
+export async function updateCatalog(
+  catalogId: string,
+  item: BecknCatalogItem,
+  options: { changedBy?: string; note?: string; poolTotal?: boolean } = {}
+): Promise<CatalogUpdateResult> {
+  const parsed = BecknCatalogItemSchema.safeParse(item);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return { success: false, error: `${issue.path.join('.')}: ${issue.message}` };
+  }
+
+  try {
+    const catalog = await prisma.catalog.findUnique({
+      where: { id: catalogId }
+    });
+
+    if (!catalog) {
+      return { success: false, error: `Catalog ${catalogId} not found` };
+    }
+
+    if (catalog.status === 'SOLD' || catalog.status === 'CANCELLED') {
+      return { success: false, error: `This listing is ${catalog.status.toLowerCase()} and cannot be edited` };
+    }
+
+    const changes = diffCatalogItems(catalog.becknJson as unknown as BecknCatalogItem, parsed.data);
+    if (changes.length === 0) {
+      return { success: false, error: 'Nothing has changed' };
+    }
+
+    if (catalog.fpoId && !options.poolTotal && changes.some(change => change.field.startsWith('quantity.'))) {
+      return { success: false, error: 'The quantity of a pooled listing changes only with its members\' lots' };
+    }
+
+    const ruleReport = await validateFarmerListing(parsed.data, catalog.farmerId);
+    if (!ruleReport.valid) {
+      return { success: false, error: describeRuleErrors(ruleReport), ruleReport };
+    }
+
+    const changedBy = options.changedBy?.trim() || catalog.farmerId;
+
+    const recorded = await prisma.catalogRevision.count({ where: { catalogId } });
+    if (recorded === 0) {
+      await prisma.catalogRevision.create({
+        data: {
+          catalogId,
+          version: catalog.version,
+          becknJson: catalog.becknJson as Prisma.InputJsonValue,
+          changes: [],
+          changedBy: catalog.farmerId
+        }
+      });
+    }
+
+    // Also refuses a listing sold or cancelled since it was read
+    const version = catalog.version + 1;
+    const { count } = await prisma.catalog.updateMany({
+      where: { id: catalogId, version: catalog.version, status: { notIn: ['SOLD', 'CANCELLED'] } },
+      data: { becknJson: parsed.data as Prisma.InputJsonValue, version }
+    });
+
+    if (count === 0) {
+      return { success: false, error: 'This listing changed while editing; please try again' };
+    }
+
+    const revision = await prisma.catalogRevision.create({
+      data: {
+        catalogId,
+        version,
+        becknJson: parsed.data as Prisma.InputJsonValue,
+        changes: changes as unknown as Prisma.InputJsonValue,
+        changedBy,
+        note: options.note?.trim() || null
+      }
+    });
+
+    console.log(`[CATALOG-REVISIONS] Catalog ${catalogId} v${version} by ${changedBy}: ${changes.map(c => c.field).join(', ')}`);
+
+    const update = catalog.status === 'BROADCASTED'
+      ? await broadcastCatalogUpdate(catalogId, parsed.data, version, changes.map(c => c.field))
+      : undefined;
+
+    if (update && !update.success) {
+      console.warn(`[CATALOG-REVISIONS] Update for catalog ${catalogId} v${version} not sent: ${update.error}`);
+    }
+
+    return {
+      success: true,
+      catalog: { ...catalog, becknJson: parsed.data as Prisma.JsonValue, version },
+      revision: toRevisionEntry(revision),
+      update
+    };
+
+  } catch (error) {
+    console.error('[CATALOG-REVISIONS] Catalog update failed:', error);
+    return { success: false, error: handleDatabaseError(error) };
+  }
+}
+
+/**
+ * List a listing's revisions, oldest first
+ *
+ * @param catalogId - The listing
+ */
+export async function listCatalogRevisions(catalogId: string): Promise<CatalogRevisionsResult> {
+  try {
+    const revisions = await prisma.catalogRevision.findMany({
+      where: { catalogId },
+      orderBy: { version: 'asc' }
+    });
+
+    return { success: true, revisions: revisions.map(toRevisionEntry) };
+
+  } catch (error) {
+    console.error('[CATALOG-REVISIONS] Reading revisions failed:', error);
+    return { success: false, error: handleDatabaseError(error) };
+  }
+}
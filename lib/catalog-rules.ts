@@ -0,0 +1,342 @@
+/**
+ * Catalog Rules Module - ONDC AGR10 Checks Before Broadcast
+ *
+ * The Zod schemas only check a listing's shape. These rules check it makes
+ * sense as an agricultural (AGR10) listing:
+ * - mandatory attributes for the commodity's category (perishability for
+ *   fruits and vegetables, grade for foodgrains and pulses)
+ * - units the category is traded in
+ * - price within a band around the current mandi modal price
+ * - how long the listing stays open, against its perishability
+ * - the symbol is one of the app's commodity images
+ *
+ * Every problem is an error (the listing is not broadcast or saved) or a
+ * warning (the farmer should check it). Free listings (price 0) are quote
+ * requests and skip the price band. The rules run again on the server
+ * whenever a listing is broadcast or edited.
+ *
+ * @module catalog-rules
+ */
+
+import type { BecknCatalogItem, BecknTags } from './beckn-schema';
+import { toKilograms } from './buyer-matching';
+import { prisma } from './db';
+import { COMMODITY_ICON_MAP, DEFAULT_COMMODITY_ICON, getCommodityIconFromProduct } from './icon-mapper';
+import { getMandiPrices } from './mandi-price-service';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * AGR10 commodity categories the rules know
+ */
+export type Agr10Category = 'VEGETABLES' | 'FRUITS' | 'FOODGRAINS' | 'PULSES';
+
+export type Perishability = NonNullable<BecknTags['perishability']>;
+
+export type CatalogRuleCode =
+  | 'UNKNOWN_COMMODITY'
+  | 'MISSING_ATTRIBUTE'
+  | 'UNIT_NOT_ALLOWED'
+  | 'PRICE_OUT_OF_BAND'
+  | 'PRICE_OFF_MODAL'
+  | 'PRICE_NOT_CHECKED'
+  | 'VALIDITY_TOO_LONG'
+  | 'PERISHABILITY_MISMATCH'
+  | 'UNKNOWN_SYMBOL'
+  | 'EXTERNAL_SYMBOL'
+  | 'SYMBOL_MISMATCH';
+
+/**
+ * One problem found in a listing
+ */
+export interface CatalogRuleIssue {
+  code: CatalogRuleCode;
+  severity: 'error' | 'warning';
+  /** Path of the field the problem is in, e.g. "price.value" */
+  field: string;
+  message: string;
+}
+
+/**
+ * Everything the rules found in a listing
+ */
+export interface CatalogRuleReport {
+  /** True when there are no errors (warnings allowed) */
+  valid: boolean;
+  errors: CatalogRuleIssue[];
+  warnings: CatalogRuleIssue[];
+  /** The commodity the listing was recognised as, if any */
+  commodity: string | null;
+  category: Agr10Category | null;
+  /** Modal price the band was checked against (INR per kg) */
+  modalPricePerKg?: number;
+}
+
+/**
+ * Facts the rules need beyond the listing itself
+ */
+export interface CatalogRuleContext {
+  /** Current mandi modal price (INR per quintal); null or absent skips the band */
+  modalPricePerQuintal?: number | null;
+  /** How long the listing stays open; absent skips the perishability check */
+  validityHours?: number;
+}
+
+// ============================================================================
+// RULE TABLES
+// ============================================================================
+
+/**
+ * Commodities the rules recognise, with the names farmers use for them
+ */
+const COMMODITIES: { name: string; category: Agr10Category; perishability: Perishability; aliases: string[] }[] = [
+  { name: 'onion', category: 'VEGETABLES', perishability: 'medium', aliases: ['onion', 'pyaaz', 'pyaz', 'kanda'] },
+  { name: 'tomato', category: 'VEGETABLES', perishability: 'high', aliases: ['tomato', 'tamatar'] },
+  { name: 'potato', category: 'VEGETABLES', perishability: 'low', aliases: ['potato', 'aloo'] },
+  { name: 'cucumber', category: 'VEGETABLES', perishability: 'high', aliases: ['cucumber', 'kheera', 'kakdi'] },
+  { name: 'mango', category: 'FRUITS', perishability: 'high', aliases: ['mango', 'aam', 'alphonso'] },
+  { name: 'banana', category: 'FRUITS', perishability: 'high', aliases: ['banana', 'kela'] },
+  { name: 'wheat', category: 'FOODGRAINS', perishability: 'low', aliases: ['wheat', 'gehun', 'gehu'] },
+  { name: 'rice', category: 'FOODGRAINS', perishability: 'low', aliases: ['rice', 'chawal', 'basmati'] },
+  { name: 'lentils', category: 'PULSES', perishability: 'low', aliases: ['lentil', 'dal', 'daal'] }
+];
+
+/**
+ * Units and mandatory attributes per category
+ */
+const CATEGORY_RULES: Record<Agr10Category, { label: string; units: string[]; requiredTags: (keyof BecknTags)[] }> = {
+  VEGETABLES: { label: 'Vegetables', units: ['kg', 'quintal', 'tonne', 'crate', 'bag'], requiredTags: ['perishability'] },
+  FRUITS: { label: 'Fruits', units: ['kg', 'quintal', 'tonne', 'crate', 'box', 'dozen'], requiredTags: ['perishability'] },
+  FOODGRAINS: { label: 'Foodgrains', units: ['kg', 'quintal', 'tonne', 'bag'], requiredTags: ['grade'] },
+  PULSES: { label: 'Pulses', units: ['kg', 'quintal', 'tonne', 'bag'], requiredTags: ['grade'] }
+};
+
+/**
+ * Spellings of the units in CATEGORY_RULES
+ */
+const UNIT_ALIASES: Record<string, string> = {
+  kgs: 'kg',
+  kilo: 'kg',
+  kilogram: 'kg',
+  kilograms: 'kg',
+  quintals: 'quintal',
+  qtl: 'quintal',
+  ton: 'tonne',
+  tons: 'tonne',
+  tonnes: 'tonne',
+  crates: 'crate',
+  bags: 'bag',
+  boxes: 'box',
+  dozens: 'dozen'
+};
+
+/**
+ * Longest a listing may stay open for each perishability
+ */
+const MAX_VALIDITY_HOURS: Record<Perishability, number> = {
+  high: 48,
+  medium: 7 * 24,
+  low: 30 * 24
+};
+
+const PERISHABILITY_ORDER: Perishability[] = ['low', 'medium', 'high'];
+
+/**
+ * Price bands, as a ratio of the listed price to the modal price. Outside
+ * the outer band is an error; outside the inner band a warning.
+ */
+const PRICE_BAND = { min: 0.5, max: 2 };
+const PRICE_WARNING_BAND = { min: 0.8, max: 1.3 };
+
+/**
+ * Images the app ships for commodities
+ */
+const KNOWN_SYMBOLS = new Set([...Object.values(COMMODITY_ICON_MAP), DEFAULT_COMMODITY_ICON]);
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+/**
+ * Recognise the commodity in a product name
+ *
+ * @returns The commodity and its category, or null if not recognised
+ */
+export function identifyCommodity(productName: string): { name: string; category: Agr10Category; perishability: Perishability } | null {
+  const normalizedName = productName.toLowerCase();
+  const commodity = COMMODITIES.find(c => c.aliases.some(alias => normalizedName.includes(alias)));
+  return commodity ? { name: commodity.name, category: commodity.category, perishability: commodity.perishability } : null;
+}
+
+/**
+ * Longest a listing with the given perishability may stay open
+ */
+export function getMaxValidityHours(perishability: Perishability): number {
+  return MAX_VALIDITY_HOURS[perishability];
+}
+
+function normalizeUnit(unit: string): string {
+  const lower = unit.trim().toLowerCase();
+  return UNIT_ALIASES[lower] ?? lower;
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+/**
+ * Check a listing against the AGR10 rules
+ *
+ * @param item - The listing
+ * @param context - Modal price and listing validity, where known
+ * @returns Errors and warnings, in rule order
+ */
+export function checkCatalogRules(item: BecknCatalogItem, context: CatalogRuleContext = {}): CatalogRuleReport {
+  const issues: CatalogRuleIssue[] = [];
+  const report = (code: CatalogRuleCode, severity: CatalogRuleIssue['severity'], field: string, message: string) => {
+    issues.push({ code, severity, field, message });
+  };
+
+  const commodity = identifyCommodity(item.descriptor.name);
+  const rules = commodity && CATEGORY_RULES[commodity.category];
+  let modalPricePerKg: number | undefined;
+
+  // Mandatory attributes and units
+  if (!commodity || !rules) {
+    report('UNKNOWN_COMMODITY', 'warning', 'descriptor.name',
+      `"${item.descriptor.name}" is not a commodity the AGR10 rules know; category checks were skipped`);
+  } else {
+    for (const tag of rules.requiredTags) {
+      if (!item.tags[tag]) {
+        report('MISSING_ATTRIBUTE', 'error', `tags.${tag}`, `${rules.label} listings must state ${tag.replace('_', ' ')}`);
+      }
+    }
+
+    const unit = normalizeUnit(item.quantity.unit);
+    if (!rules.units.includes(unit)) {
+      report('UNIT_NOT_ALLOWED', 'error', 'quantity.unit',
+        `${rules.label} are listed in ${rules.units.join(', ')}, not ${item.quantity.unit || 'no unit'}`);
+    }
+  }
+
+  // Price band around the mandi modal price
+  if (item.price.value > 0) {
+    const kgPerUnit = toKilograms(1, item.quantity.unit);
+
+    if (!context.modalPricePerQuintal) {
+      report('PRICE_NOT_CHECKED', 'warning', 'price.value', 'No mandi price available; the price was not checked');
+    } else if (kgPerUnit === null) {
+      report('PRICE_NOT_CHECKED', 'warning', 'price.value',
+        `Mandi prices are per kg; the price per ${item.quantity.unit} was not checked`);
+    } else {
+      modalPricePerKg = context.modalPricePerQuintal / 100;
+      const pricePerKg = item.price.value / kgPerUnit;
+      const ratio = pricePerKg / modalPricePerKg;
+      const comparison = `Rs ${pricePerKg.toFixed(2)}/kg against a mandi modal price of Rs ${modalPricePerKg.toFixed(2)}/kg`;
+
+      if (ratio < PRICE_BAND.min || ratio > PRICE_BAND.max) {
+        report('PRICE_OUT_OF_BAND', 'error', 'price.value', `Price is outside the allowed band: ${comparison}`);
+      } else if (ratio < PRICE_WARNING_BAND.min || ratio > PRICE_WARNING_BAND.max) {
+        report('PRICE_OFF_MODAL', 'warning', 'price.value',
+          `Price is ${ratio < 1 ? 'well below' : 'well above'} the mandi price: ${comparison}`);
+      }
+    }
+  }
+
+  // Perishability against how long the listing stays open
+  const perishability = item.tags.perishability;
+  if (perishability && context.validityHours !== undefined && context.validityHours > MAX_VALIDITY_HOURS[perishability]) {
+    report('VALIDITY_TOO_LONG', 'error', 'tags.perishability',
+      `A ${perishability} perishability listing can stay open at most ${MAX_VALIDITY_HOURS[perishability]} hours, not ${context.validityHours}`);
+  }
+  if (perishability && commodity &&
+    PERISHABILITY_ORDER.indexOf(perishability) < PERISHABILITY_ORDER.indexOf(commodity.perishability)) {
+    report('PERISHABILITY_MISMATCH', 'warning', 'tags.perishability',
+      `${commodity.name} is usually ${commodity.perishability} perishability, not ${perishability}`);
+  }
+
+  // Symbol
+  const symbol = item.descriptor.symbol;
+  if (symbol.startsWith('http://') || symbol.startsWith('https://')) {
+    report('EXTERNAL_SYMBOL', 'warning', 'descriptor.symbol', 'The image is hosted elsewhere and could not be checked');
+  } else if (!KNOWN_SYMBOLS.has(symbol)) {
+    report('UNKNOWN_SYMBOL', 'error', 'descriptor.symbol', `${symbol} is not one of the app's commodity images`);
+  } else if (commodity && symbol !== getCommodityIconFromProduct(item.descriptor.name)) {
+    report('SYMBOL_MISMATCH', 'warning', 'descriptor.symbol', `${symbol} is not the image for ${commodity.name}`);
+  }
+
+  const errors = issues.filter(issue => issue.severity === 'error');
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings: issues.filter(issue => issue.severity === 'warning'),
+    commodity: commodity?.name ?? null,
+    category: commodity?.category ?? null,
+    modalPricePerKg
+  };
+}
+
+/**
+ * Average modal price of a commodity across mandis (INR per quintal)
+ *
+ * @returns The price, or null if no mandi prices could be fetched
+ */
+async function getModalPrice(commodity: string, state?: string): Promise<number | null> {
+  try {
+    const prices = (await getMandiPrices(commodity, state)).filter(price => price.modalPrice > 0);
+    if (prices.length === 0) {
+      return null;
+    }
+    return prices.reduce((sum, price) => sum + price.modalPrice, 0) / prices.length;
+  } catch (error) {
+    console.warn(`[CATALOG-RULES] Could not fetch mandi prices for ${commodity}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Check a listing against the AGR10 rules, using current mandi prices
+ *
+ * @param item - The listing
+ * @param options - The farmer's state (for local mandi prices) and listing validity
+ */
+export async function validateCatalogRules(
+  item: BecknCatalogItem,
+  options: { state?: string; validityHours?: number } = {}
+): Promise<CatalogRuleReport> {
+  const commodity = identifyCommodity(item.descriptor.name);
+  const modalPricePerQuintal = commodity && item.price.value > 0
+    ? await getModalPrice(commodity.name, options.state)
+    : null;
+
+  const result = checkCatalogRules(item, { modalPricePerQuintal, validityHours: options.validityHours });
+
+  console.log(`[CATALOG-RULES] ${item.descriptor.name}: ${result.errors.length} errors, ${result.warnings.length} warnings`);
+
+  return result;
+}
+
+/**
+ * Check a farmer's listing against the AGR10 rules, using the mandi prices
+ * of the farmer's state
+ *
+ * @param item - The listing
+ * @param farmerId - The farmer it belongs to
+ */
+export async function validateFarmerListing(item: BecknCatalogItem, farmerId: string): Promise<CatalogRuleReport> {
+  const farmer = await prisma.farmer.findUnique({
+    where: { id: farmerId },
+    select: { state: true }
+  });
+
+  return validateCatalogRules(item, { state: farmer?.state || undefined });
+}
+
+/**
+ * The error a listing that breaks the rules is refused with
+ */
+export function describeRuleErrors(report: CatalogRuleReport): string {
+  return `This listing breaks the AGR10 rules: ${report.errors.map(issue => issue.message).join('; ')}`;
+}
@@ -0,0 +1,314 @@
+/**
+ * Farmer Auth Module - Phone Login and Sessions
+ *
+ * Farmers log in with their mobile number:
+ * 1. requestOtp sends a 6-digit code by SMS (see sms-provider)
+ * 2. verifyOtp checks it and opens a session; a farmer seen for the first
+ *    time gets an account for that number
+ *
+ * A code is valid for 5 minutes and allows 5 tries. Only hashes of
+ * codes and session tokens are stored; the token itself lives in the
+ * browser's session cookie (see farmer-session).
+ *
+ * Administrators are farmers whose numbers are listed in ADMIN_PHONES;
+ * only they may use the admin actions (see farmer-session).
+ *
+ * @module farmer-auth
+ */
+
+import { createHash, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { prisma, handleDatabaseError } from './db';
+import type { Farmer } from './generated-client/client';
+import { getSmsProvider } from './sms-provider';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Result of asking for a login code
+ */
+export interface OtpRequestResult {
+  success: boolean;
+  /** The number the code was sent to, normalized */
+  phone?: string;
+  /** When the code stops working */
+  expiresAt?: Date;
+  error?: string;
+}
+
+/**
+ * An open session; the token goes into the cookie
+ */
+export interface FarmerSessionToken {
+  token: string;
+  expiresAt: Date;
+}
+
+/**
+ * Result of entering a login code
+ */
+export interface LoginResult {
+  success: boolean;
+  farmer?: Farmer;
+  session?: FarmerSessionToken;
+  /** True when the account was created by this login */
+  isNewFarmer?: boolean;
+  error?: string;
+}
+
+/**
+ * Records a farmer owns, checked before acting on them by ID
+ */
+export type OwnedRecord = 'catalog' | 'bid' | 'order' | 'issue';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const OTP_LENGTH = 6;
+
+const OTP_TTL_MS = 5 * 60 * 1000;
+
+const MAX_OTP_ATTEMPTS = 5;
+
+/**
+ * Shortest time between two codes for the same number
+ */
+const OTP_RESEND_INTERVAL_MS = 30 * 1000;
+
+const SESSION_TTL_MS = 30 * 24 * 3600000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Normalize an Indian mobile number to E.164
+ *
+ * Accepts "98765 43210", "098765-43210" and "+91 98765 43210".
+ *
+ * @returns "+919876543210", or null if it is not a mobile number
+ */
+export function normalizePhone(input: string): string | null {
+  const digits = input.replace(/[\s\-()]/g, '').replace(/^(\+91|0091|0)/, '');
+  return /^[6-9]\d{9}$/.test(digits) ? `+91${digits}` : null;
+}
+
+function hashSecret(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function sameHash(a: string, b: string): boolean {
+  return a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+// ============================================================================
+// LOGIN
+// ============================================================================
+
+/**
+ * Send a login code to a mobile number
+ *
+ * @param phoneInput - The number as the farmer typed it
+ */
+export async function requestOtp(phoneInput: string): Promise<OtpRequestResult> {
+  const phone = normalizePhone(phoneInput);
+  if (!phone) {
+    return { success: false, error: 'Enter a 10-digit mobile number' };
+  }
+
+  try {
+    const now = Date.now();
+
+    const recent = await prisma.otpChallenge.findFirst({
+      where: { phone, createdAt: { gt: new Date(now - OTP_RESEND_INTERVAL_MS) } }
+    });
+
+    if (recent) {
+      return { success: false, error: 'Please wait a moment before asking for another code' };
+    }
+
+    const code = randomInt(0, 10 ** OTP_LENGTH).toString().padStart(OTP_LENGTH, '0');
+    const expiresAt = new Date(now + OTP_TTL_MS);
+
+    const challenge = await prisma.otpChallenge.create({
+      data: { phone, codeHash: hashSecret(`${phone}:${code}`), expiresAt }
+    });
+
+    try {
+      await getSmsProvider().send(phone, `Your Setu login code is ${code}. It expires in 5 minutes.`);
+    } catch (error) {
+      // An undelivered code must not block the next request
+      await prisma.otpChallenge.delete({ where: { id: challenge.id } });
+      console.error('[FARMER-AUTH] Login code not sent:', error);
+      return { success: false, error: 'The code could not be sent; please try again' };
+    }
+
+    console.log(`[FARMER-AUTH] Login code sent to ${phone}`);
+
+    return { success: true, phone, expiresAt };
+
+  } catch (error) {
+    console.error('[FARMER-AUTH] Login code request failed:', error);
+    return { success: false, error: handleDatabaseError(error) };
+  }
+}
+
+/**
+ * Check a login code and open a session
+ *
+ * @param phoneInput - The number the code was sent to
+ * @param code - The code the farmer entered
+ * @param profile - Name and language for a farmer logging in for the first time
+ */
+export async function verifyOtp(
+  phoneInput: string,
+  code: string,
+  profile: { name?: string; languagePref?: string } = {}
+): Promise<LoginResult> {
+  const phone = normalizePhone(phoneInput);
+  if (!phone) {
+    return { success: false, error: 'Enter a 10-digit mobile number' };
+  }
+
+  try {
+    const challenge = await prisma.otpChallenge.findFirst({
+      where: { phone, consumedAt: null },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    if (!challenge || challenge.expiresAt.getTime() < Date.now()) {
+      return { success: false, error: 'This code has expired; ask for a new one' };
+    }
+
+    // Take a try before comparing, so guesses sent in parallel cannot
+    // get past the limit
+    const { count: tries } = await prisma.otpChallenge.updateMany({
+      where: { id: challenge.id, attempts: { lt: MAX_OTP_ATTEMPTS } },
+      data: { attempts: { increment: 1 } }
+    });
+
+    if (tries === 0) {
+      return { success: false, error: 'Too many wrong codes; ask for a new one' };
+    }
+
+    if (!sameHash(challenge.codeHash, hashSecret(`${phone}:${code.trim()}`))) {
+      return { success: false, error: 'Wrong code' };
+    }
+
+    // Two tabs entering the same code: only one logs in
+    const { count } = await prisma.otpChallenge.updateMany({
+      where: { id: challenge.id, consumedAt: null },
+      data: { consumedAt: new Date() }
+    });
+
+    if (count === 0) {
+      return { success: false, error: 'This code has already been used' };
+    }
+
+    let farmer = await prisma.farmer.findUnique({ where: { phone } });
+    const isNewFarmer = !farmer;
+
+    if (!farmer) {
+      farmer = await prisma.farmer.create({
+        data: {
+          name: profile.name?.trim() || 'Farmer',
+          phone,
+          ...(profile.languagePref ? { languagePref: profile.languagePref } : {})
+        }
+      });
+    }
+
+    const session = await openSession(farmer.id);
+
+    console.log(`[FARMER-AUTH] Farmer ${farmer.id} logged in${isNewFarmer ? ' (new account)' : ''}`);
+
+    return { success: true, farmer, session, isNewFarmer };
+
+  } catch (error) {
+    console.error('[FARMER-AUTH] Login failed:', error);
+    return { success: false, error: handleDatabaseError(error) };
+  }
+}
+
+// ============================================================================
+// SESSIONS
+// ============================================================================
+
+/**
+ * Open a session for a farmer
+ */
+async function openSession(farmerId: string): Promise<FarmerSessionToken> {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  await prisma.farmerSession.create({
+    data: { farmerId, tokenHash: hashSecret(token), expiresAt }
+  });
+
+  return { token, expiresAt };
+}
+
+/**
+ * Find the farmer a session token belongs to
+ *
+ * @returns The farmer, or null if the token is unknown or expired
+ */
+export async function resolveSession(token: string): Promise<Farmer | null> {
+  const session = await prisma.farmerSession.findUnique({
+    where: { tokenHash: hashSecret(token) },
+    include: { farmer: true }
+  });
+
+  if (!session || session.expiresAt.getTime() < Date.now()) {
+    return null;
+  }
+
+  return session.farmer;
+}
+
+/**
+ * End a session (log out)
+ */
+export async function endSession(token: string): Promise<void> {
+  await prisma.farmerSession.deleteMany({
+    where: { tokenHash: hashSecret(token) }
+  });
+}
+
+// ============================================================================
+// OWNERSHIP
+// ============================================================================
+
+/**
+ * Whether a catalog, bid, order or issue belongs to a farmer
+ *
+ * @param farmerId - The logged-in farmer
+ * @param kind - What the ID refers to
+ * @param id - The record's ID
+ */
+export async function farmerOwns(farmerId: string, kind: OwnedRecord, id: string): Promise<boolean> {
+  switch (kind) {
+    case 'catalog':
+      return await prisma.catalog.count({ where: { id, farmerId } }) > 0;
+    case 'bid':
+      return await prisma.bid.count({ where: { id, farmerId } }) > 0;
+    case 'order':
+      return await prisma.order.count({ where: { id, farmerId } }) > 0;
+    case 'issue':
+      return await prisma.issue.count({ where: { id, order: { farmerId } } }) > 0;
+  }
+}
+
+/**
+ * Whether a farmer's number is one of the administrators' (ADMIN_PHONES,
+ * comma-separated)
+ *
+ * @param phone - The farmer's normalized number
+ */
+export function isAdminPhone(phone: string): boolean {
+  return (process.env.ADMIN_PHONES || '')
+    .split(',')
+    .some(entry => normalizePhone(entry) === phone);
+}
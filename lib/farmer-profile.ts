@@ -0,0 +1,347 @@
+/**
+ * Farmer Profile Module - Land, Crops, Mandis and Payouts
+ *
+ * A farmer's profile records where they farm (village, district, state and
+ * landholding), the crops they grow, the mandis they sell at, and where
+ * they are paid (UPI ID or bank account). Farmers edit it on the profile
+ * page or by voice, and the voice agent pre-fills the commodity and the
+ * price location from it.
+ *
+ * KYC needs no Aadhaar. Giving or changing payout details sets the status
+ * to PENDING, and an admin marks it VERIFIED or REJECTED after checking the
+ * account.
+ *
+ * @module farmer-profile
+ */
+
+import { z } from 'zod';
+import { prisma, handleDatabaseError } from './db';
+import type { Farmer, KycStatus } from './generated-client/client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A farmer's profile as shown to them
+ *
+ * The bank account number is masked to its last four digits.
+ */
+export interface FarmerProfile {
+  id: string;
+  name: string;
+  phone: string | null;
+  languagePref: string;
+  village: string | null;
+  district: string | null;
+  state: string | null;
+  /** Land farmed, in acres */
+  landholdingAcres: number | null;
+  crops: string[];
+  /** Usual mandi first */
+  preferredMandis: string[];
+  upiId: string | null;
+  bankAccountName: string | null;
+  /** e.g. "XXXXXX4321" */
+  bankAccountMasked: string | null;
+  bankIfsc: string | null;
+  kycStatus: KycStatus;
+  updatedAt: Date;
+}
+
+/**
+ * Fields a farmer can change; null clears an optional field
+ */
+export interface FarmerProfileInput {
+  name: string;
+  languagePref: string;
+  village: string | null;
+  district: string | null;
+  state: string | null;
+  landholdingAcres: number | null;
+  crops: string[];
+  preferredMandis: string[];
+  upiId: string | null;
+  bankAccountName: string | null;
+  bankAccountNumber: string | null;
+  bankIfsc: string | null;
+}
+
+/**
+ * A change spoken by the farmer, e.g. "add wheat to my crops" or "I farm
+ * 5 acres in Niphad"
+ */
+export interface ProfileChange {
+  village?: string;
+  district?: string;
+  state?: string;
+  landholdingAcres?: number;
+  addCrops?: string[];
+  removeCrops?: string[];
+  /** Becomes the usual mandi */
+  preferredMandi?: string;
+  upiId?: string;
+}
+
+/**
+ * What the voice agent pre-fills from the profile
+ */
+export interface ProfileHints {
+  /** Where to look up mandi prices: usual mandi, else district, else state */
+  location?: string;
+  crops: string[];
+}
+
+/**
+ * Result of reading or changing a profile
+ */
+export interface FarmerProfileResult {
+  success: boolean;
+  profile?: FarmerProfile;
+  error?: string;
+}
+
+/**
+ * Result of listing the payout details waiting to be checked
+ */
+export interface PendingKycResult {
+  success: boolean;
+  /** Oldest change first */
+  profiles?: FarmerProfile[];
+  error?: string;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const optionalText = z.string().trim().transform(value => value || null).nullable();
+
+/**
+ * Trimmed names without blanks or case-insensitive repeats
+ */
+const nameListSchema = z.array(z.string().trim()).transform(names => uniqueNames(names));
+
+const profileInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  languagePref: z.string().regex(/^[a-z]{2}$/, 'Language must be a 2-letter code'),
+  village: optionalText,
+  district: optionalText,
+  state: optionalText,
+  landholdingAcres: z.number().min(0, 'Landholding cannot be negative').max(10000).nullable(),
+  crops: nameListSchema,
+  preferredMandis: nameListSchema,
+  upiId: optionalText.refine(
+    value => value === null || /^[\w.-]{2,}@[a-zA-Z]{2,}$/.test(value),
+    'UPI ID must look like name@bank'
+  ),
+  bankAccountName: optionalText,
+  bankAccountNumber: optionalText.transform(value => value && value.replace(/\s/g, '')).refine(
+    value => value === null || /^\d{9,18}$/.test(value),
+    'Bank account number must be 9 to 18 digits'
+  ),
+  bankIfsc: optionalText.transform(value => value && value.toUpperCase()).refine(
+    value => value === null || /^[A-Z]{4}0[A-Z0-9]{6}$/.test(value),
+    'IFSC must be 11 characters like SBIN0001234'
+  )
+});
+
+/**
+ * First validation problem, as a readable message
+ */
+function describeIssue(error: z.ZodError): string {
+  const [issue] = error.issues;
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+}
+
+function uniqueNames(names: string[]): string[] {
+  const seen = new Set<string>();
+  return names.filter(name => {
+    const key = name.toLowerCase();
+    if (!name || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+// ============================================================================
+// PROFILE
+// ============================================================================
+
+const PAYOUT_FIELDS = ['upiId', 'bankAccountName', 'bankAccountNumber', 'bankIfsc'] as const;
+
+/**
+ * Convert a Farmer record to the profile shown to the farmer
+ */
+export function toFarmerProfile(farmer: Farmer): FarmerProfile {
+  return {
+    id: farmer.id,
+    name: farmer.name,
+    phone: farmer.phone,
+    languagePref: farmer.languagePref,
+    village: farmer.village,
+    district: farmer.district,
+    state: farmer.state,
+    landholdingAcres: farmer.landholdingAcres,
+    crops: farmer.crops as string[],
+    preferredMandis: farmer.preferredMandis as string[],
+    upiId: farmer.upiId,
+    bankAccountName: farmer.bankAccountName,
+    bankAccountMasked: farmer.bankAccountNumber
+      ? farmer.bankAccountNumber.slice(-4).padStart(farmer.bankAccountNumber.length, 'X')
+      : null,
+    bankIfsc: farmer.bankIfsc,
+    kycStatus: farmer.kycStatus,
+    updatedAt: farmer.updatedAt
+  };
+}
+
+/**
+ * Read a farmer's profile
+ */
+export async function getFarmerProfile(farmerId: string): Promise<FarmerProfileResult> {
+  try {
+    const farmer = await prisma.farmer.findUnique({ where: { id: farmerId } });
+    if (!farmer) {
+      return { success: false, error: 'Farmer not found' };
+    }
+
+    return { success: true, profile: toFarmerProfile(farmer) };
+
+  } catch (error) {
+    console.error('[FARMER-PROFILE] Profile lookup failed:', error);
+    return { success: false, error: handleDatabaseError(error) };
+  }
+}
+
+/**
+ * Change a farmer's profile
+ *
+ * New or changed payout details send KYC (back) to PENDING; removing them
+ * all resets it to NOT_STARTED.
+ *
+ * @param farmerId - The logged-in farmer
+ * @param input - Fields to change
+ */
+export async function updateFarmerProfile(
+  farmerId: string,
+  input: Partial<FarmerProfileInput>
+): Promise<FarmerProfileResult> {
+  const parsed = profileInputSchema.partial().safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: describeIssue(parsed.error) };
+  }
+
+  try {
+    const farmer = await prisma.farmer.findUnique({ where: { id: farmerId } });
+    if (!farmer) {
+      return { success: false, error: 'Farmer not found' };
+    }
+
+    const changes = parsed.data;
+    const payoutChanged = PAYOUT_FIELDS.some(field => changes[field] !== undefined && changes[field] !== farmer[field]);
+    const hasPayout = PAYOUT_FIELDS.some(field => (changes[field] !== undefined ? changes[field] : farmer[field]) !== null);
+
+    const updated = await prisma.farmer.update({
+      where: { id: farmerId },
+      data: {
+        ...changes,
+        ...(payoutChanged ? { kycStatus: hasPayout ? 'PENDING' as const : 'NOT_STARTED' as const } : {})
+      }
+    });
+
+    const changedFields = Object.entries(changes).filter(([, value]) => value !== undefined).map(([field]) => field);
+    console.log(`[FARMER-PROFILE] Farmer ${farmerId} updated ${changedFields.join(', ') || 'nothing'}`);
+
+    return { success: true, profile: toFarmerProfile(updated) };
+
+  } catch (error) {
+    console.error('[FARMER-PROFILE] Profile update failed:', error);
+    return { success: false, error: handleDatabaseError(error) };
+  }
+}
+
+/**
+ * Apply a spoken change to a farmer's profile
+ */
+export async function applyProfileChange(farmerId: string, change: ProfileChange): Promise<FarmerProfileResult> {
+  const current = await getFarmerProfile(farmerId);
+  if (!current.profile) {
+    return current;
+  }
+
+  const { crops, preferredMandis } = current.profile;
+  const removed = new Set((change.removeCrops ?? []).map(crop => crop.toLowerCase()));
+
+  return updateFarmerProfile(farmerId, {
+    village: change.village,
+    district: change.district,
+    state: change.state,
+    landholdingAcres: change.landholdingAcres,
+    upiId: change.upiId,
+    crops: change.addCrops || change.removeCrops
+      ? [...crops, ...(change.addCrops ?? [])].filter(crop => !removed.has(crop.toLowerCase()))
+      : undefined,
+    preferredMandis: change.preferredMandi ? [change.preferredMandi, ...preferredMandis] : undefined
+  });
+}
+
+/**
+ * Mark a farmer's payout details as checked, or as failing the check
+ *
+ * @param farmerId - The farmer whose KYC was checked
+ * @param status - The outcome of the check
+ */
+export async function setFarmerKycStatus(
+  farmerId: string,
+  status: 'VERIFIED' | 'REJECTED'
+): Promise<FarmerProfileResult> {
+  try {
+    const { count } = await prisma.farmer.updateMany({
+      where: { id: farmerId, kycStatus: { not: 'NOT_STARTED' } },
+      data: { kycStatus: status }
+    });
+
+    if (count === 0) {
+      return { success: false, error: 'Farmer has no payout details to check' };
+    }
+
+    console.log(`[FARMER-PROFILE] KYC of farmer ${farmerId} ${status.toLowerCase()}`);
+
+    return getFarmerProfile(farmerId);
+
+  } catch (error) {
+    console.error('[FARMER-PROFILE] KYC update failed:', error);
+    return { success: false, error: handleDatabaseError(error) };
+  }
+}
+
+/**
+ * The farmers whose payout details are waiting to be checked
+ */
+export async function listPendingKyc(): Promise<PendingKycResult> {
+  try {
+    const farmers = await prisma.farmer.findMany({
+      where: { kycStatus: 'PENDING' },
+      orderBy: { updatedAt: 'asc' }
+    });
+
+    return { success: true, profiles: farmers.map(toFarmerProfile) };
+
+  } catch (error) {
+    console.error('[FARMER-PROFILE] Pending KYC lookup failed:', error);
+    return { success: false, error: handleDatabaseError(error) };
+  }
+}
+
+/**
+ * What the voice agent pre-fills for a farmer
+ */
+export function getProfileHints(profile: FarmerProfile): ProfileHints {
+  return {
+    location: profile.preferredMandis[0] || profile.district || profile.state || undefined,
+    crops: profile.crops
+  };
+}
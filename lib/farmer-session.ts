@@ -0,0 +1,128 @@
+/**
+ * Farmer Session Module - Who Is Making This Request
+ *
+ * Reads and writes the session cookie for server actions, and resolves it
+ * to the logged-in farmer (see farmer-auth). Every action that reads or
+ * saves a farmer's data gets the farmer from here rather than from its
+ * arguments.
+ *
+ * @module farmer-session
+ */
+
+import 'server-only';
+import { cookies } from 'next/headers';
+import type { Farmer } from './generated-client/client';
+import { endSession, farmerOwns, isAdminPhone, resolveSession, type FarmerSessionToken, type OwnedRecord } from './farmer-auth';
+
+/**
+ * Name of the session cookie (also checked by proxy.ts)
+ */
+export const SESSION_COOKIE = 'setu_session';
+
+/**
+ * Error returned by actions called without a session
+ */
+export const NOT_LOGGED_IN = 'Please log in with your mobile number';
+
+/**
+ * Error returned by admin actions called by a farmer who is not an admin
+ */
+export const ADMIN_ONLY = 'Admin access required';
+
+/**
+ * What a record is called in "not found" errors; another farmer's records
+ * are reported as not found
+ */
+const RECORD_LABELS: Record<OwnedRecord, string> = {
+  catalog: 'Catalog',
+  bid: 'Bid',
+  order: 'Order',
+  issue: 'Issue'
+};
+
+/**
+ * The logged-in farmer's ID, or the error an action should return
+ *
+ * The errors are never empty, so `if (auth.error)` narrows to the farmer.
+ */
+export type FarmerAuthorization =
+  | { farmerId: string; error?: undefined }
+  | { farmerId?: undefined; error: typeof NOT_LOGGED_IN | `${string} not found` };
+
+/**
+ * The logged-in administrator's farmer ID, or the error an admin action
+ * should return
+ */
+export type AdminAuthorization =
+  | { farmerId: string; error?: undefined }
+  | { farmerId?: undefined; error: typeof NOT_LOGGED_IN | typeof ADMIN_ONLY };
+
+/**
+ * The farmer logged in on this request
+ *
+ * @returns The farmer, or null when there is no valid session
+ */
+export async function getSessionFarmer(): Promise<Farmer | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  return token ? resolveSession(token) : null;
+}
+
+/**
+ * Resolve the logged-in farmer and check they own the record acted on
+ *
+ * @param record - The catalog, bid, order or issue the action is about, if any
+ */
+export async function authorizeFarmer(record?: { kind: OwnedRecord; id: string }): Promise<FarmerAuthorization> {
+  const farmer = await getSessionFarmer();
+  if (!farmer) {
+    return { error: NOT_LOGGED_IN };
+  }
+
+  if (record && !(await farmerOwns(farmer.id, record.kind, record.id))) {
+    return { error: `${RECORD_LABELS[record.kind]} not found` };
+  }
+
+  return { farmerId: farmer.id };
+}
+
+/**
+ * Resolve the logged-in farmer and check they are an administrator
+ */
+export async function authorizeAdmin(): Promise<AdminAuthorization> {
+  const farmer = await getSessionFarmer();
+  if (!farmer) {
+    return { error: NOT_LOGGED_IN };
+  }
+
+  if (!farmer.phone || !isAdminPhone(farmer.phone)) {
+    return { error: ADMIN_ONLY };
+  }
+
+  return { farmerId: farmer.id };
+}
+
+/**
+ * Remember a new session in the browser
+ */
+export async function setSessionCookie(session: FarmerSessionToken): Promise<void> {
+  (await cookies()).set(SESSION_COOKIE, session.token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: session.expiresAt
+  });
+}
+
+/**
+ * End this request's session and forget it in the browser
+ */
+export async function clearSession(): Promise<void> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE)?.value;
+
+  if (token) {
+    await endSession(token);
+  }
+  cookieStore.delete(SESSION_COOKIE);
+}
@@ -0,0 +1,341 @@
+/**
+ * Fault Profiles Module - Failure Scenarios for the Simulated Network
+ *
+ * A fault profile sets how the simulated ONDC network misbehaves during a
+ * broadcast, so QA can reproduce every error path the app handles:
+ *
+ * - per phase (gateway, validation, broadcast, matching): a latency range
+ *   and a chance the phase fails
+ * - after the search is out: the chance of each network failure
+ * - how many matched buyers respond, and when in the auction window their
+ *   offers arrive (offers after the window closes are ignored)
+ *
+ * Built-in profiles cover the common scenarios. More can be defined in a
+ * JSON file named by ONDC_FAULT_PROFILES_FILE; each entry starts from the
+ * profile named in `extends` (default "production") and overrides the
+ * fields it sets. The active profile is ONDC_FAULT_PROFILE until switched
+ * from the debug page.
+ *
+ * @module fault-profiles
+ */
+
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Failures a simulated broadcast can end in
+ */
+export type SimulatedFailure = 'TIMEOUT' | 'DENIED' | 'NETWORK_ERROR' | 'RATE_LIMITED';
+
+/**
+ * Phases of a simulated broadcast before the auction window opens
+ */
+export type SimulatedPhase = 'gateway' | 'validation' | 'broadcast' | 'matching';
+
+/**
+ * Latency and failure chance of one phase
+ */
+export interface PhaseFaults {
+  minMs: number;
+  maxMs: number;
+  /** Chance (0-1) the phase fails, ending the broadcast */
+  failureRate: number;
+}
+
+/**
+ * How the simulated network behaves during a broadcast
+ */
+export interface FaultProfile {
+  id: string;
+  name: string;
+  description: string;
+  phases: Record<SimulatedPhase, PhaseFaults>;
+  /** Chance (0-1) of each failure once the search is out */
+  failures: Record<SimulatedFailure, number>;
+  /** Share (0-1) of matched buyers that respond */
+  buyerAvailability: number;
+  /** When buyers answer, as shares of the auction window (above 1 is too late) */
+  bidResponse: { minShare: number; maxShare: number };
+}
+
+/**
+ * Result of switching the active profile
+ */
+export interface FaultProfileResult {
+  success: boolean;
+  profile?: FaultProfile;
+  error?: string;
+}
+
+// ============================================================================
+// BUILT-IN PROFILES
+// ============================================================================
+
+/**
+ * How a failed phase ends the broadcast
+ */
+export const PHASE_FAILURES: Record<SimulatedPhase, SimulatedFailure> = {
+  gateway: 'NETWORK_ERROR',
+  validation: 'NETWORK_ERROR',
+  broadcast: 'TIMEOUT',
+  matching: 'DENIED'
+};
+
+const DEFAULT_PROFILE_ID = 'production';
+
+const NO_FAILURES: Record<SimulatedFailure, number> = {
+  TIMEOUT: 0,
+  DENIED: 0,
+  NETWORK_ERROR: 0,
+  RATE_LIMITED: 0
+};
+
+const PRODUCTION: FaultProfile = {
+  id: DEFAULT_PROFILE_ID,
+  name: 'Production',
+  description: 'Realistic timings with the occasional failure (about 7% of broadcasts)',
+  phases: {
+    gateway: { minMs: 2000, maxMs: 4000, failureRate: 0.02 },
+    validation: { minMs: 1000, maxMs: 2000, failureRate: 0 },
+    broadcast: { minMs: 3000, maxMs: 5000, failureRate: 0 },
+    matching: { minMs: 2000, maxMs: 4000, failureRate: 0 }
+  },
+  failures: { TIMEOUT: 0.03, DENIED: 0.02, NETWORK_ERROR: 0.01, RATE_LIMITED: 0.01 },
+  buyerAvailability: 1,
+  bidResponse: { minShare: 0, maxShare: 0.9 }
+};
+
+/**
+ * Profiles available without a profiles file
+ */
+export const BUILT_IN_FAULT_PROFILES: readonly FaultProfile[] = [
+  PRODUCTION,
+  {
+    ...PRODUCTION,
+    id: 'happy-path',
+    name: 'Happy path',
+    description: 'Every broadcast succeeds and every matched buyer bids',
+    phases: {
+      gateway: { ...PRODUCTION.phases.gateway, failureRate: 0 },
+      validation: PRODUCTION.phases.validation,
+      broadcast: PRODUCTION.phases.broadcast,
+      matching: PRODUCTION.phases.matching
+    },
+    failures: NO_FAILURES
+  },
+  {
+    ...PRODUCTION,
+    id: 'flaky-gateway',
+    name: 'Flaky gateway',
+    description: 'Slow, unreliable gateway: authentication and broadcast often fail or time out',
+    phases: {
+      gateway: { minMs: 2000, maxMs: 9000, failureRate: 0.25 },
+      validation: PRODUCTION.phases.validation,
+      broadcast: { minMs: 3000, maxMs: 10000, failureRate: 0.15 },
+      matching: PRODUCTION.phases.matching
+    },
+    failures: { TIMEOUT: 0.1, DENIED: 0, NETWORK_ERROR: 0.15, RATE_LIMITED: 0 }
+  },
+  {
+    ...PRODUCTION,
+    id: 'no-buyers-in-region',
+    name: 'No buyers in region',
+    description: 'No buyer responds, so every broadcast is denied',
+    failures: NO_FAILURES,
+    buyerAvailability: 0
+  },
+  {
+    ...PRODUCTION,
+    id: 'rate-limit-storm',
+    name: 'Rate-limit storm',
+    description: 'The gateway throttles most searches',
+    failures: { ...NO_FAILURES, RATE_LIMITED: 0.8 }
+  },
+  {
+    ...PRODUCTION,
+    id: 'slow-baps',
+    name: 'Slow BAPs',
+    description: 'Buyer apps answer late: many offers miss the auction window, some broadcasts get none',
+    phases: {
+      gateway: PRODUCTION.phases.gateway,
+      validation: PRODUCTION.phases.validation,
+      broadcast: { minMs: 6000, maxMs: 12000, failureRate: 0 },
+      matching: { minMs: 4000, maxMs: 8000, failureRate: 0 }
+    },
+    failures: { ...NO_FAILURES, TIMEOUT: 0.05 },
+    bidResponse: { minShare: 0.5, maxShare: 1.6 }
+  }
+];
+
+// ============================================================================
+// PROFILES FILE
+// ============================================================================
+
+const rateSchema = z.number().min(0).max(1);
+
+const phaseSchema = z.object({
+  minMs: z.number().min(0),
+  maxMs: z.number().min(0),
+  failureRate: rateSchema
+}).partial();
+
+const profileFileSchema = z.array(z.object({
+  id: z.string().min(1),
+  name: z.string().min(1).optional(),
+  description: z.string().optional(),
+  extends: z.string().optional(),
+  phases: z.object({
+    gateway: phaseSchema,
+    validation: phaseSchema,
+    broadcast: phaseSchema,
+    matching: phaseSchema
+  }).partial().optional(),
+  failures: z.object({
+    TIMEOUT: rateSchema,
+    DENIED: rateSchema,
+    NETWORK_ERROR: rateSchema,
+    RATE_LIMITED: rateSchema
+  }).partial().optional(),
+  buyerAvailability: rateSchema.optional(),
+  bidResponse: z.object({
+    minShare: z.number().min(0),
+    maxShare: z.number().min(0)
+  }).optional()
+}));
+
+type ProfileFileEntry = z.infer<typeof profileFileSchema>[number];
+
+/**
+ * Build a profile from a file entry over the profile it extends
+ */
+function resolveProfileEntry(entry: ProfileFileEntry, known: FaultProfile[]): FaultProfile {
+  const baseId = entry.extends ?? DEFAULT_PROFILE_ID;
+  const base = known.find(profile => profile.id === baseId);
+
+  if (!base) {
+    throw new Error(`Profile ${entry.id} extends unknown profile ${baseId}`);
+  }
+
+  const phases = { ...base.phases };
+  for (const phase of Object.keys(PHASE_FAILURES) as SimulatedPhase[]) {
+    phases[phase] = { ...base.phases[phase], ...entry.phases?.[phase] };
+    if (phases[phase].minMs > phases[phase].maxMs) {
+      throw new Error(`Profile ${entry.id}: ${phase} minMs is above maxMs`);
+    }
+  }
+
+  const bidResponse = entry.bidResponse ?? base.bidResponse;
+  if (bidResponse.minShare > bidResponse.maxShare) {
+    throw new Error(`Profile ${entry.id}: bidResponse minShare is above maxShare`);
+  }
+
+  return {
+    id: entry.id,
+    name: entry.name ?? entry.id,
+    description: entry.description ?? `Based on ${base.name}`,
+    phases,
+    failures: { ...base.failures, ...entry.failures },
+    buyerAvailability: entry.buyerAvailability ?? base.buyerAvailability,
+    bidResponse
+  };
+}
+
+/**
+ * Load the profiles in a profiles file over the built-in ones
+ *
+ * The file holds a JSON array of profiles. A profile may extend a built-in
+ * one or one defined earlier in the file; one with an existing id
+ * replaces it.
+ *
+ * @throws Error if the file cannot be read or a profile is invalid
+ */
+function loadProfilesFile(path: string): FaultProfile[] {
+  const entries = profileFileSchema.parse(JSON.parse(readFileSync(path, 'utf8')));
+  const profiles = [...BUILT_IN_FAULT_PROFILES];
+
+  for (const entry of entries) {
+    const profile = resolveProfileEntry(entry, profiles);
+    const index = profiles.findIndex(p => p.id === profile.id);
+    if (index >= 0) {
+      profiles[index] = profile;
+    } else {
+      profiles.push(profile);
+    }
+  }
+
+  return profiles;
+}
+
+// ============================================================================
+// ACTIVE PROFILE
+// ============================================================================
+
+/**
+ * Profile chosen on the debug page (overrides ONDC_FAULT_PROFILE)
+ */
+let selectedProfileId: string | undefined;
+
+/**
+ * Get every available profile, built-in ones first
+ *
+ * The profiles file is read on each call so edits apply without a restart.
+ *
+ * @returns The profiles, and why the profiles file was skipped if it was
+ */
+export function getFaultProfiles(): { profiles: FaultProfile[]; error?: string } {
+  const path = process.env.ONDC_FAULT_PROFILES_FILE;
+  if (!path) {
+    return { profiles: [...BUILT_IN_FAULT_PROFILES] };
+  }
+
+  try {
+    return { profiles: loadProfilesFile(path) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[FAULT-PROFILES] Ignoring ${path}: ${message}`);
+    return { profiles: [...BUILT_IN_FAULT_PROFILES], error: `Could not load ${path}: ${message}` };
+  }
+}
+
+/**
+ * Get the profile simulated broadcasts run with
+ *
+ * The one chosen on the debug page, else ONDC_FAULT_PROFILE, else
+ * "production". An unknown id falls back to "production".
+ */
+export function getActiveFaultProfile(): FaultProfile {
+  const id = selectedProfileId ?? process.env.ONDC_FAULT_PROFILE ?? DEFAULT_PROFILE_ID;
+  const { profiles } = getFaultProfiles();
+  const profile = profiles.find(p => p.id === id);
+
+  if (!profile) {
+    console.warn(`[FAULT-PROFILES] Unknown profile ${id}, using ${DEFAULT_PROFILE_ID}`);
+    return profiles.find(p => p.id === DEFAULT_PROFILE_ID) ?? PRODUCTION;
+  }
+
+  return profile;
+}
+
+/**
+ * Switch the profile simulated broadcasts run with
+ *
+ * Lasts until the server restarts.
+ *
+ * @param id - The profile's id
+ */
+export function setActiveFaultProfile(id: string): FaultProfileResult {
+  const profile = getFaultProfiles().profiles.find(p => p.id === id);
+
+  if (!profile) {
+    return { success: false, error: `Unknown fault profile: ${id}` };
+  }
+
+  selectedProfileId = id;
+  console.log(`[FAULT-PROFILES] Simulated network now runs "${profile.name}"`);
+
+  return { success: true, profile };
+}
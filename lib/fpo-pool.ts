@@ -0,0 +1,367 @@
+/**
+ * FPO Pool Module - Pooled Listings of Farmer Producer Organisations
+ *
+ * A small farmer rarely has a lorry-load alone. Members of an FPO put
+ * their produce of the same commodity, grade and unit into one pooled
+ * listing, which is broadcast with the FPO as the ONDC provider. The
+ * member who opened the pool broadcasts it and answers its bids; its asking
+ * price is theirs.
+ *
+ * When the pool is sold, the order's total is split between the members
+ * in proportion to what each put in. Each member hears their share, in
+ * their own language, at the start of their next voice session.
+ *
+ * @module fpo-pool
+ */
+
+import { z } from 'zod';
+import { prisma, handleDatabaseError } from './db';
+import type { Catalog, Fpo, PoolContribution, Prisma } from './generated-client/client';
+import { BecknCatalogItemSchema, type BecknCatalogItem } from './beckn-schema';
+import { identifyCommodity } from './catalog-rules';
+import { firstRevision, updateCatalog } from './catalog-revisions';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Fields an admin sets when registering an FPO
+ */
+export interface FpoInput {
+  name: string;
+  /** ONDC provider ID its pooled listings are broadcast under */
+  providerId: string;
+  state: string | null;
+}
+
+/**
+ * Result of an FPO change
+ */
+export interface FpoResult {
+  success: boolean;
+  fpo?: Fpo;
+  error?: string;
+}
+
+/**
+ * Result of putting produce into a pool
+ */
+export interface PoolContributionResult {
+  success: boolean;
+  /** The pooled listing after the contribution */
+  catalog?: Catalog;
+  contribution?: PoolContribution;
+  /** Whether the contribution opened a new pool */
+  openedPool?: boolean;
+  error?: string;
+}
+
+/**
+ * A member's part of a pooled listing
+ */
+export interface PoolShare {
+  catalogId: string;
+  fpoName: string;
+  commodity: string;
+  status: Catalog['status'];
+  quantity: number;
+  /** All members' produce in the pool */
+  totalQuantity: number;
+  unit: string;
+  /** Set while the pool is sold */
+  shareAmount: number | null;
+  currency: string;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const fpoInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  providerId: z.string().trim().min(1, 'Provider ID is required'),
+  state: z.string().trim().transform(value => value || null).nullable()
+});
+
+/**
+ * First validation problem, as a readable message
+ */
+function describeIssue(error: z.ZodError): string {
+  const [issue] = error.issues;
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+}
+
+// ============================================================================
+// FPOS
+// ============================================================================
+
+/**
+ * List the registered FPOs by name
+ */
+export async function listFpos(): Promise<Fpo[]> {
+  return prisma.fpo.findMany({ orderBy: { name: 'asc' } });
+}
+
+/**
+ * Register an FPO
+ */
+export async function createFpo(input: FpoInput): Promise<FpoResult> {
+  const parsed = fpoInputSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: describeIssue(parsed.error) };
+  }
+
+  try {
+    const existing = await prisma.fpo.findUnique({ where: { providerId: parsed.data.providerId } });
+    if (existing) {
+      return { success: false, error: `Provider ID ${parsed.data.providerId} is already registered` };
+    }
+
+    const fpo = await prisma.fpo.create({ data: parsed.data });
+    console.log(`[FPO-POOL] Registered ${fpo.name} (${fpo.providerId})`);
+    return { success: true, fpo };
+
+  } catch (error) {
+    console.error('[FPO-POOL] Registering FPO failed:', error);
+    return { success: false, error: handleDatabaseError(error) };
+  }
+}
+
+/**
+ * Make a farmer a member of an FPO, or take them out of theirs
+ *
+ * @param farmerId - The farmer
+ * @param fpoId - The FPO to join, or null to leave
+ */
+export async function setFarmerFpo(farmerId: string, fpoId: string | null): Promise<FpoResult> {
+  try {
+    const farmer = await prisma.farmer.update({
+      where: { id: farmerId },
+      data: { fpoId },
+      include: { fpo: true }
+    });
+
+    console.log(`[FPO-POOL] Farmer ${farmerId} ${farmer.fpo ? `joined ${farmer.fpo.name}` : 'left their FPO'}`);
+    return { success: true, fpo: farmer.fpo ?? undefined };
+
+  } catch (error) {
+    console.error('[FPO-POOL] Membership change failed:', error);
+    return { success: false, error: handleDatabaseError(error) };
+  }
+}
+
+// ============================================================================
+// POOLS
+// ============================================================================
+
+/**
+ * What produce must share to go into the same pool: commodity, grade and unit
+ */
+function getPoolKey(item: BecknCatalogItem): string {
+  const name = item.descriptor.name.trim().toLowerCase();
+  const commodity = identifyCommodity(name)?.name ?? name;
+  return [commodity, item.tags.grade?.trim().toLowerCase() ?? '', item.quantity.unit.trim().toLowerCase()].join('|');
+}
+
+/**
+ * Put a member's produce into their FPO's pool
+ *
+ * Joins the FPO's open (DRAFT) pool of the same commodity, grade and unit,
+ * or opens one with this lot. Putting in more of the same produce adds to
+ * the member's contribution. The pooled listing's quantity is the sum of
+ * the contributions, recorded as a new revision.
+ *
+ * @param farmerId - The contributing member
+ * @param item - The member's lot
+ */
+export async function contributeToPool(farmerId: string, item: BecknCatalogItem): Promise<PoolContributionResult> {
+  const parsed = BecknCatalogItemSchema.safeParse(item);
+  if (!parsed.success) {
+    return { success: false, error: describeIssue(parsed.error) };
+  }
+
+  const lot = parsed.data;
+  const quantity = lot.quantity.available.count;
+  if (quantity <= 0) {
+    return { success: false, error: 'Quantity must be more than zero' };
+  }
+
+  try {
+    const farmer = await prisma.farmer.findUnique({ where: { id: farmerId } });
+    if (!farmer) {
+      return { success: false, error: 'Farmer not found' };
+    }
+    if (!farmer.fpoId) {
+      return { success: false, error: 'Farmer is not a member of an FPO' };
+    }
+
+    const openPools = await prisma.catalog.findMany({
+      where: { fpoId: farmer.fpoId, status: 'DRAFT' },
+      orderBy: { createdAt: 'asc' }
+    });
+    const pool = openPools.find(catalog => getPoolKey(catalog.becknJson as unknown as BecknCatalogItem) === getPoolKey(lot));
+
+    if (!pool) {
+      const catalog = await prisma.catalog.create({
+        data: {
+          farmerId,
+          fpoId: farmer.fpoId,
+          becknJson: lot as Prisma.InputJsonValue,
+          status: 'DRAFT',
+          revisions: firstRevision(lot, farmerId),
+          contributions: { create: { farmerId, quantity } }
+        },
+        include: { contributions: true }
+      });
+
+      const { contributions, ...pooled } = catalog;
+      console.log(`[FPO-POOL] Farmer ${farmerId} opened pool ${catalog.id} with ${quantity} ${lot.quantity.unit}`);
+      return { success: true, catalog: pooled, contribution: contributions[0], openedPool: true };
+    }
+
+    const contribution = await prisma.poolContribution.upsert({
+      where: { catalogId_farmerId: { catalogId: pool.id, farmerId } },
+      create: { catalogId: pool.id, farmerId, quantity },
+      update: { quantity: { increment: quantity } }
+    });
+
+    const { _sum } = await prisma.poolContribution.aggregate({
+      where: { catalogId: pool.id },
+      _sum: { quantity: true }
+    });
+    const pooledItem = pool.becknJson as unknown as BecknCatalogItem;
+    const update = await updateCatalog(pool.id, {
+      ...pooledItem,
+      quantity: { ...pooledItem.quantity, available: { count: _sum.quantity ?? quantity } }
+    }, { changedBy: farmerId, note: 'Pool contribution', poolTotal: true });
+
+    if (!update.catalog) {
+      return { success: false, error: update.error };
+    }
+
+    console.log(`[FPO-POOL] Farmer ${farmerId} put ${quantity} ${lot.quantity.unit} into pool ${pool.id}`);
+    return { success: true, catalog: update.catalog, contribution, openedPool: false };
+
+  } catch (error) {
+    console.error('[FPO-POOL] Contribution failed:', error);
+    return { success: false, error: handleDatabaseError(error) };
+  }
+}
+
+/**
+ * Split a sale between the pool's members in proportion to what they put in
+ *
+ * Shares are rounded to the paisa; the rounding difference goes to the
+ * largest contributor so the shares add up to the total.
+ *
+ * @param totalAmount - What the buyer pays for the whole pool
+ * @param contributions - Each member's quantity
+ * @returns Each member's share, by farmer ID
+ */
+export function splitProceeds(
+  totalAmount: number,
+  contributions: { farmerId: string; quantity: number }[]
+): Map<string, number> {
+  const shares = new Map<string, number>();
+  const totalQuantity = contributions.reduce((sum, c) => sum + c.quantity, 0);
+  if (contributions.length === 0 || totalQuantity <= 0) {
+    return shares;
+  }
+
+  for (const { farmerId, quantity } of contributions) {
+    shares.set(farmerId, Math.round(totalAmount * quantity / totalQuantity * 100) / 100);
+  }
+
+  const largest = contributions.reduce((max, c) => (c.quantity > max.quantity ? c : max));
+  const allotted = [...shares.values()].reduce((sum, share) => sum + share, 0);
+  shares.set(largest.farmerId, Math.round((shares.get(largest.farmerId)! + totalAmount - allotted) * 100) / 100);
+
+  return shares;
+}
+
+/**
+ * Record each member's share of a sold pool
+ *
+ * @param catalogId - The pooled listing
+ * @param totalAmount - The order's total
+ */
+export async function recordPoolShares(catalogId: string, totalAmount: number): Promise<Map<string, number>> {
+  const contributions = await prisma.poolContribution.findMany({ where: { catalogId } });
+  const shares = splitProceeds(totalAmount, contributions);
+
+  for (const [farmerId, shareAmount] of shares) {
+    await prisma.poolContribution.update({
+      where: { catalogId_farmerId: { catalogId, farmerId } },
+      data: { shareAmount, shareAnnouncedAt: null }
+    });
+  }
+
+  console.log(`[FPO-POOL] Pool ${catalogId} sold for ${totalAmount}, split between ${shares.size} members`);
+  return shares;
+}
+
+/**
+ * Convert a contribution and its pool to the member's view of it
+ */
+function toPoolShare(
+  contribution: PoolContribution & { catalog: Catalog & { fpo: Fpo | null; contributions: { quantity: number }[] } }
+): PoolShare {
+  const { catalog } = contribution;
+  const item = catalog.becknJson as unknown as BecknCatalogItem;
+  const name = item.descriptor?.name || 'produce';
+
+  return {
+    catalogId: catalog.id,
+    fpoName: catalog.fpo?.name ?? 'FPO',
+    commodity: identifyCommodity(name)?.name ?? name,
+    status: catalog.status,
+    quantity: contribution.quantity,
+    totalQuantity: catalog.contributions.reduce((sum, c) => sum + c.quantity, 0),
+    unit: item.quantity?.unit || 'kg',
+    // A sale the buyer cancelled puts the pool back on offer
+    shareAmount: catalog.status === 'SOLD' ? contribution.shareAmount : null,
+    currency: item.price?.currency || 'INR'
+  };
+}
+
+const POOL_SHARE_INCLUDE = {
+  catalog: { include: { fpo: true, contributions: { select: { quantity: true } } } }
+} as const;
+
+/**
+ * A member's pools, newest first
+ */
+export async function listFarmerPools(farmerId: string): Promise<PoolShare[]> {
+  const contributions = await prisma.poolContribution.findMany({
+    where: { farmerId },
+    include: POOL_SHARE_INCLUDE,
+    orderBy: { createdAt: 'desc' }
+  });
+
+  return contributions.map(toPoolShare);
+}
+
+/**
+ * Shares of sold pools the member has not been told about yet
+ *
+ * Each share is returned once: it is marked told as it is returned.
+ */
+export async function takeUnannouncedShares(farmerId: string): Promise<PoolShare[]> {
+  const contributions = await prisma.poolContribution.findMany({
+    where: { farmerId, shareAmount: { not: null }, shareAnnouncedAt: null, catalog: { status: 'SOLD' } },
+    include: POOL_SHARE_INCLUDE
+  });
+
+  if (contributions.length === 0) {
+    return [];
+  }
+
+  // Another session may have told them in the meantime
+  const { count } = await prisma.poolContribution.updateMany({
+    where: { id: { in: contributions.map(c => c.id) }, shareAnnouncedAt: null },
+    data: { shareAnnouncedAt: new Date() }
+  });
+
+  return count === 0 ? [] : contributions.map(toPoolShare);
+}
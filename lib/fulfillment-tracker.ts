@@ -0,0 +1,206 @@
+/**
+ * Fulfillment Tracker Module - What Happens After a Sale
+ *
+ * Once an order is confirmed the produce goes through four fulfillment
+ * stages: packed, picked up by the logistics provider, in transit and
+ * delivered. The buyer reports each stage with an on_status callback,
+ * which lib/ondc-callbacks records as a FulfillmentEvent; delivery moves
+ * the order to FULFILLED.
+ *
+ * With the simulated transport the stages are spread over the order's
+ * delivery time (see getFulfillmentSchedule). Stages that have fallen due
+ * are reported when the order is tracked, so no background job is needed.
+ * Over HTTP the live buyer sends its own updates.
+ *
+ * A simulated buyer may cancel the order instead of packing it, at the
+ * rate set by ONDC_BUYER_CANCEL_RATE.
+ *
+ * @module fulfillment-tracker
+ */
+
+import { prisma } from './db';
+import type { FulfillmentEvent, FulfillmentState, Order } from './generated-client/client';
+import { getTransport } from './ondc-broadcast';
+import { deliverSimulatedCallback } from './ondc-callbacks';
+import { getBuyerCancelRate, simulateBuyerCancellation, simulateFulfillmentUpdate } from './network-simulator';
+import { getDefaultSimulationEnvironment } from './simulation-environment';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Where an order is on its way to the buyer
+ */
+export interface OrderTracking {
+  order: Order;
+  /** Stages reached so far, oldest first */
+  events: FulfillmentEvent[];
+  /** Latest stage reached, if any */
+  currentState?: FulfillmentState;
+  /** Stage expected next while the order is on its way */
+  nextState?: FulfillmentState;
+  /** Who is moving the produce, once known */
+  logisticsProvider?: string;
+  /** When the produce should reach the buyer */
+  expectedDeliveryAt?: Date;
+}
+
+// ============================================================================
+// SCHEDULE
+// ============================================================================
+
+/**
+ * Fulfillment stages in the order they are reached
+ */
+export const FULFILLMENT_STAGES: readonly FulfillmentState[] = ['PACKED', 'PICKED_UP', 'IN_TRANSIT', 'DELIVERED'];
+
+/**
+ * Share of the delivery time after which each stage is reached
+ */
+const STAGE_PROGRESS: Record<FulfillmentState, number> = {
+  PACKED: 0.1,
+  PICKED_UP: 0.25,
+  IN_TRANSIT: 0.4,
+  DELIVERED: 1
+};
+
+/**
+ * Delivery time used when the order does not state one
+ */
+const DEFAULT_DELIVERY_DAYS = 3;
+
+/**
+ * Read how long a simulated delivery takes
+ *
+ * Set ONDC_FULFILLMENT_DURATION_MS to run every delivery in a fixed time
+ * (e.g. a few minutes for demos) instead of the order's delivery days.
+ */
+export function getDeliveryDurationMs(deliveryDays: number | null | undefined): number {
+  const configured = Number(process.env.ONDC_FULFILLMENT_DURATION_MS);
+  if (Number.isFinite(configured) && configured > 0) {
+    return configured;
+  }
+
+  return (deliveryDays || DEFAULT_DELIVERY_DAYS) * 24 * 3600000;
+}
+
+/**
+ * When each fulfillment stage of an order falls due
+ *
+ * Counted from confirmation (or creation for orders confirmed before
+ * confirmation times were recorded).
+ */
+export function getFulfillmentSchedule(
+  order: Pick<Order, 'confirmedAt' | 'createdAt' | 'deliveryDays'>
+): { state: FulfillmentState; dueAt: Date }[] {
+  const start = (order.confirmedAt || order.createdAt).getTime();
+  const duration = getDeliveryDurationMs(order.deliveryDays);
+
+  return FULFILLMENT_STAGES.map(state => ({
+    state,
+    dueAt: new Date(start + Math.round(duration * STAGE_PROGRESS[state]))
+  }));
+}
+
+// ============================================================================
+// TRACKING
+// ============================================================================
+
+/**
+ * Load an order with its fulfillment events
+ */
+async function loadOrder(orderId: string) {
+  return prisma.order.findUnique({
+    where: { id: orderId },
+    include: { fulfillmentEvents: { orderBy: { occurredAt: 'asc' } } }
+  });
+}
+
+/**
+ * Report the simulated stages that have fallen due and are not yet recorded
+ *
+ * When packing falls due the buyer may cancel instead, in which case no
+ * stage is reported.
+ *
+ * @returns Whether any stage or cancellation was reported
+ */
+async function reportDueStages(order: Order, recorded: FulfillmentEvent[], now: Date): Promise<boolean> {
+  const reached = new Set(recorded.map(event => event.state));
+  const due = getFulfillmentSchedule(order)
+    .filter(stage => stage.dueAt <= now && !reached.has(stage.state));
+
+  if (due[0]?.state === 'PACKED' && getDefaultSimulationEnvironment().random() < getBuyerCancelRate()) {
+    await simulateBuyerCancellation(order, due[0].dueAt, {
+      deliverCallback: deliverSimulatedCallback
+    });
+    return true;
+  }
+
+  for (const stage of due) {
+    await simulateFulfillmentUpdate(order, stage.state, stage.dueAt, {
+      deliverCallback: deliverSimulatedCallback
+    });
+  }
+
+  return due.length > 0;
+}
+
+/**
+ * Get where an order is on its way to the buyer
+ *
+ * With the simulated transport, stages that have fallen due for a
+ * confirmed order are reported first.
+ *
+ * @param orderId - The order to track
+ * @param now - Current time (for tests)
+ * @returns The tracking details, or null if the order does not exist
+ */
+export async function getOrderTracking(orderId: string, now: Date = new Date()): Promise<OrderTracking | null> {
+  let order = await loadOrder(orderId);
+  if (!order) {
+    return null;
+  }
+
+  if (order.status === 'ORDER_CONFIRMED' && getTransport() === 'simulated') {
+    const { fulfillmentEvents, ...orderRecord } = order;
+    if (await reportDueStages(orderRecord, fulfillmentEvents, now)) {
+      order = (await loadOrder(orderId))!;
+    }
+  }
+
+  const { fulfillmentEvents: events, ...orderRecord } = order;
+  const latest = events[events.length - 1];
+  const inProgress = orderRecord.status === 'BID_ACCEPTED' || orderRecord.status === 'ORDER_CONFIRMED';
+  const schedule = getFulfillmentSchedule(orderRecord);
+  const delivered = events.find(event => event.state === 'DELIVERED');
+
+  return {
+    order: orderRecord,
+    events,
+    currentState: latest?.state,
+    nextState: inProgress
+      ? FULFILLMENT_STAGES.find(state => !events.some(event => event.state === state))
+      : undefined,
+    logisticsProvider: [...events].reverse().find(event => event.logisticsProvider)?.logisticsProvider ?? undefined,
+    expectedDeliveryAt: delivered?.occurredAt
+      ?? (inProgress ? schedule[schedule.length - 1].dueAt : undefined)
+  };
+}
+
+/**
+ * Track a farmer's most recent order
+ *
+ * @param farmerId - The farmer who sold the produce
+ * @param now - Current time (for tests)
+ * @returns The tracking details, or null if the farmer has no orders
+ */
+export async function getLatestOrderTracking(farmerId: string, now: Date = new Date()): Promise<OrderTracking | null> {
+  const latest = await prisma.order.findFirst({
+    where: { farmerId },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true }
+  });
+
+  return latest ? getOrderTracking(latest.id, now) : null;
+}
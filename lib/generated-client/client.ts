@@ -44,11 +44,76 @@ export { Prisma }
  * 
  */
 export type Farmer = Prisma.FarmerModel
+/**
+ * Model Fpo
+ * 
+ */
+export type Fpo = Prisma.FpoModel
+/**
+ * Model OtpChallenge
+ * 
+ */
+export type OtpChallenge = Prisma.OtpChallengeModel
+/**
+ * Model FarmerSession
+ * 
+ */
+export type FarmerSession = Prisma.FarmerSessionModel
+/**
+ * Model VoiceConversation
+ * 
+ */
+export type VoiceConversation = Prisma.VoiceConversationModel
 /**
  * Model Catalog
  * 
  */
 export type Catalog = Prisma.CatalogModel
+/**
+ * Model CatalogRevision
+ * 
+ */
+export type CatalogRevision = Prisma.CatalogRevisionModel
+/**
+ * Model PoolContribution
+ * 
+ */
+export type PoolContribution = Prisma.PoolContributionModel
+/**
+ * Model Bid
+ * 
+ */
+export type Bid = Prisma.BidModel
+/**
+ * Model Order
+ * 
+ */
+export type Order = Prisma.OrderModel
+/**
+ * Model FulfillmentEvent
+ * 
+ */
+export type FulfillmentEvent = Prisma.FulfillmentEventModel
+/**
+ * Model Issue
+ * 
+ */
+export type Issue = Prisma.IssueModel
+/**
+ * Model IssueAction
+ * 
+ */
+export type IssueAction = Prisma.IssueActionModel
+/**
+ * Model Buyer
+ * 
+ */
+export type Buyer = Prisma.BuyerModel
+/**
+ * Model BidLearningStat
+ * 
+ */
+export type BidLearningStat = Prisma.BidLearningStatModel
 /**
  * Model NetworkLog
  * 
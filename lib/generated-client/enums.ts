@@ -9,18 +9,129 @@
 * 🟢 You can import this file directly.
 */
 
+export const KycStatus = {
+  NOT_STARTED: 'NOT_STARTED',
+  PENDING: 'PENDING',
+  VERIFIED: 'VERIFIED',
+  REJECTED: 'REJECTED'
+} as const
+
+export type KycStatus = (typeof KycStatus)[keyof typeof KycStatus]
+
+
+export const BuyerCategory = {
+  RETAILER: 'RETAILER',
+  WHOLESALER: 'WHOLESALER',
+  FPO: 'FPO',
+  LOCAL_TRADER: 'LOCAL_TRADER'
+} as const
+
+export type BuyerCategory = (typeof BuyerCategory)[keyof typeof BuyerCategory]
+
+
 export const CatalogStatus = {
   DRAFT: 'DRAFT',
   BROADCASTED: 'BROADCASTED',
-  SOLD: 'SOLD'
+  SOLD: 'SOLD',
+  CANCELLED: 'CANCELLED',
+  EXPIRED: 'EXPIRED'
 } as const
 
 export type CatalogStatus = (typeof CatalogStatus)[keyof typeof CatalogStatus]
 
 
+export const BidStatus = {
+  RECEIVED: 'RECEIVED',
+  ACCEPTED: 'ACCEPTED',
+  REJECTED: 'REJECTED',
+  COUNTERED: 'COUNTERED',
+  EXPIRED: 'EXPIRED'
+} as const
+
+export type BidStatus = (typeof BidStatus)[keyof typeof BidStatus]
+
+
+export const OrderStatus = {
+  BID_ACCEPTED: 'BID_ACCEPTED',
+  ORDER_CONFIRMED: 'ORDER_CONFIRMED',
+  FULFILLED: 'FULFILLED',
+  CANCELLED: 'CANCELLED'
+} as const
+
+export type OrderStatus = (typeof OrderStatus)[keyof typeof OrderStatus]
+
+
+export const CancellationInitiator = {
+  FARMER: 'FARMER',
+  BUYER: 'BUYER'
+} as const
+
+export type CancellationInitiator = (typeof CancellationInitiator)[keyof typeof CancellationInitiator]
+
+
+export const FulfillmentState = {
+  PACKED: 'PACKED',
+  PICKED_UP: 'PICKED_UP',
+  IN_TRANSIT: 'IN_TRANSIT',
+  DELIVERED: 'DELIVERED'
+} as const
+
+export type FulfillmentState = (typeof FulfillmentState)[keyof typeof FulfillmentState]
+
+
+export const IssueKind = {
+  QUALITY: 'QUALITY',
+  SHORT_WEIGHT: 'SHORT_WEIGHT',
+  PAYMENT_NOT_RECEIVED: 'PAYMENT_NOT_RECEIVED'
+} as const
+
+export type IssueKind = (typeof IssueKind)[keyof typeof IssueKind]
+
+
+export const IssueParty = {
+  FARMER: 'FARMER',
+  BUYER: 'BUYER'
+} as const
+
+export type IssueParty = (typeof IssueParty)[keyof typeof IssueParty]
+
+
+export const IssueLevel = {
+  ISSUE: 'ISSUE',
+  GRIEVANCE: 'GRIEVANCE',
+  DISPUTE: 'DISPUTE'
+} as const
+
+export type IssueLevel = (typeof IssueLevel)[keyof typeof IssueLevel]
+
+
+export const IssueStatus = {
+  OPEN: 'OPEN',
+  PROCESSING: 'PROCESSING',
+  RESOLVED: 'RESOLVED',
+  CLOSED: 'CLOSED'
+} as const
+
+export type IssueStatus = (typeof IssueStatus)[keyof typeof IssueStatus]
+
+
+export const IssueActionCode = {
+  OPEN: 'OPEN',
+  ESCALATE: 'ESCALATE',
+  CLOSE: 'CLOSE',
+  PROCESSING: 'PROCESSING',
+  RESOLVED: 'RESOLVED'
+} as const
+
+export type IssueActionCode = (typeof IssueActionCode)[keyof typeof IssueActionCode]
+
+
 export const NetworkLogType = {
   OUTGOING_CATALOG: 'OUTGOING_CATALOG',
-  INCOMING_BID: 'INCOMING_BID'
+  INCOMING_BID: 'INCOMING_BID',
+  ONDC_REQUEST: 'ONDC_REQUEST',
+  ONDC_CALLBACK: 'ONDC_CALLBACK',
+  BID_RESPONSE: 'BID_RESPONSE'
 } as const
 
 export type NetworkLogType = (typeof NetworkLogType)[keyof typeof NetworkLogType]
@@ -20,7 +20,7 @@ const config: runtime.GetPrismaClientConfig = {
   "clientVersion": "7.3.0",
   "engineVersion": "9d6ad21cbbceab97458517b147a6a09ff43aa735",
   "activeProvider": "sqlite",
-  "inlineSchema": "generator client {\n  provider = \"prisma-client\"\n  output   = \"../lib/generated-client\"\n}\n\ndatasource db {\n  provider = \"sqlite\"\n}\n\nmodel Farmer {\n  id              String   @id @default(cuid())\n  name            String\n  locationLatLong String? // Format: \"lat,long\"\n  languagePref    String   @default(\"hi\") // ISO 639-1 code\n  upiId           String?\n  createdAt       DateTime @default(now())\n  updatedAt       DateTime @updatedAt\n\n  catalogs Catalog[]\n\n  @@map(\"farmers\")\n}\n\nmodel Catalog {\n  id        String        @id @default(cuid())\n  farmerId  String\n  becknJson Json // Stores BecknCatalogItem\n  status    CatalogStatus @default(DRAFT)\n  createdAt DateTime      @default(now())\n  updatedAt DateTime      @updatedAt\n\n  farmer Farmer @relation(fields: [farmerId], references: [id], onDelete: Cascade)\n\n  @@index([farmerId])\n  @@index([status])\n  @@map(\"catalogs\")\n}\n\nenum CatalogStatus {\n  DRAFT\n  BROADCASTED\n  SOLD\n}\n\nmodel NetworkLog {\n  id        String         @id @default(cuid())\n  type      NetworkLogType\n  payload   Json\n  timestamp DateTime       @default(now())\n\n  @@index([type])\n  @@index([timestamp])\n  @@map(\"network_logs\")\n}\n\nenum NetworkLogType {\n  OUTGOING_CATALOG\n  INCOMING_BID\n}\n",
+  "inlineSchema": "generator client {\n  provider = \"prisma-client\"\n  output   = \"../lib/generated-client\"\n}\n\ndatasource db {\n  provider = \"sqlite\"\n}\n\nmodel Farmer {\n  id                String    @id @default(cuid())\n  name              String\n  phone             String?   @unique // E.164, e.g. \"+919876543210\"; used to log in\n  locationLatLong   String? // Format: \"lat,long\"\n  village           String?\n  district          String?\n  state             String? // Home state, used to match regional buyers\n  landholdingAcres  Float? // Land farmed, in acres\n  crops             Json      @default(\"[]\") // Commodity names the farmer grows\n  preferredMandis   Json      @default(\"[]\") // Mandis the farmer sells at, usual one first\n  languagePref      String    @default(\"hi\") // ISO 639-1 code\n  upiId             String?\n  bankAccountName   String?\n  bankAccountNumber String?\n  bankIfsc          String?\n  kycStatus         KycStatus @default(NOT_STARTED)\n  fpoId             String? // FPO the farmer pools produce with\n  createdAt         DateTime  @default(now())\n  updatedAt         DateTime  @updatedAt\n\n  fpo               Fpo?                @relation(fields: [fpoId], references: [id], onDelete: SetNull)\n  catalogs          Catalog[]\n  bids              Bid[]\n  orders            Order[]\n  sessions          FarmerSession[]\n  poolContributions PoolContribution[]\n  conversations     VoiceConversation[]\n\n  @@index([fpoId])\n  @@map(\"farmers\")\n}\n\nmodel Fpo {\n  id         String   @id @default(cuid())\n  name       String\n  providerId String   @unique // ONDC provider ID pooled listings are broadcast under\n  state      String? // Where the members farm, used to match regional buyers\n  createdAt  DateTime @default(now())\n  updatedAt  DateTime @updatedAt\n\n  members  Farmer[]\n  catalogs Catalog[]\n\n  @@map(\"fpos\")\n}\n\n// One-time code sent by SMS to log in; only a hash of the code is kept\nmodel OtpChallenge {\n  id         String    @id @default(cuid())\n  phone      String\n  codeHash   String\n  attempts   Int       @default(0) // Wrong codes entered\n  expiresAt  DateTime\n  consumedAt DateTime? // Set once the code has logged someone in\n  createdAt  DateTime  @default(now())\n\n  @@index([phone])\n  @@map(\"otp_challenges\")\n}\n\n// Logged-in browser; the cookie holds the token, the database its hash\nmodel FarmerSession {\n  id        String   @id @default(cuid())\n  farmerId  String\n  tokenHash String   @unique\n  expiresAt DateTime\n  createdAt DateTime @default(now())\n\n  farmer Farmer @relation(fields: [farmerId], references: [id], onDelete: Cascade)\n\n  @@index([farmerId])\n  @@map(\"farmer_sessions\")\n}\n\n// A voice conversation, saved after every turn so it survives a refresh\n// or a dropped connection; id is the session ID from startConversationAction\nmodel VoiceConversation {\n  id              String    @id\n  farmerId        String\n  languageCode    String\n  stage           String // ConversationStage after the last turn\n  collectedData   Json      @default(\"{}\")\n  priceSuggestion Json?\n  catalogItem     Json? // Listing awaiting the farmer's go-ahead\n  transcript      Json      @default(\"[]\") // TranscriptTurn[], oldest first\n  endedAt         DateTime? // Finished, or the farmer chose not to resume it\n  createdAt       DateTime  @default(now())\n  updatedAt       DateTime  @updatedAt\n\n  farmer Farmer @relation(fields: [farmerId], references: [id], onDelete: Cascade)\n\n  @@index([farmerId, updatedAt])\n  @@map(\"voice_conversations\")\n}\n\nmodel Catalog {\n  id               String        @id @default(cuid())\n  farmerId         String\n  becknJson        Json // Stores BecknCatalogItem\n  status           CatalogStatus @default(DRAFT)\n  version          Int           @default(1) // Latest revision number\n  expiresAt        DateTime? // When a broadcast listing stops taking bids\n  relistPromptedAt DateTime? // When the farmer was asked to re-list it after expiry\n  fpoId            String? // Set for a pooled listing; farmerId is the member who opened the pool\n  createdAt        DateTime      @default(now())\n  updatedAt        DateTime      @updatedAt\n\n  farmer        Farmer             @relation(fields: [farmerId], references: [id], onDelete: Cascade)\n  fpo           Fpo?               @relation(fields: [fpoId], references: [id], onDelete: SetNull)\n  bids          Bid[]\n  orders        Order[]\n  revisions     CatalogRevision[]\n  contributions PoolContribution[]\n\n  @@index([farmerId])\n  @@index([fpoId])\n  @@index([status])\n  @@map(\"catalogs\")\n}\n\nmodel CatalogRevision {\n  id        String   @id @default(cuid())\n  catalogId String\n  version   Int\n  becknJson Json // The listing as of this revision\n  changes   Json // CatalogChange[] from the previous revision (empty for the first)\n  changedBy String // Farmer ID, or who else made the change\n  note      String?\n  createdAt DateTime @default(now())\n\n  catalog Catalog @relation(fields: [catalogId], references: [id], onDelete: Cascade)\n\n  @@unique([catalogId, version])\n  @@map(\"catalog_revisions\")\n}\n\nmodel PoolContribution {\n  id               String    @id @default(cuid())\n  catalogId        String\n  farmerId         String\n  quantity         Float // In the pooled listing's unit\n  shareAmount      Float? // The farmer's part of the sale, set when the pool is sold\n  shareAnnouncedAt DateTime? // When the farmer was told their share\n  createdAt        DateTime  @default(now())\n  updatedAt        DateTime  @updatedAt\n\n  catalog Catalog @relation(fields: [catalogId], references: [id], onDelete: Cascade)\n  farmer  Farmer  @relation(fields: [farmerId], references: [id], onDelete: Cascade)\n\n  @@unique([catalogId, farmerId])\n  @@index([farmerId])\n  @@map(\"pool_contributions\")\n}\n\nmodel Bid {\n  id                String    @id @default(cuid()) // Bid ID carried in INCOMING_BID logs\n  catalogId         String\n  farmerId          String\n  transactionId     String? // ONDC transaction_id of the broadcast\n  messageId         String? // message_id of the on_search / on_select that carried it\n  buyerName         String\n  buyerSubscriberId String?\n  pricePerUnit      Float\n  catalogPrice      Float? // Farmer's asking price when the bid arrived\n  currency          String    @default(\"INR\")\n  paymentTerms      String?\n  deliveryDays      Int?\n  validityHours     Int?\n  status            BidStatus @default(RECEIVED)\n  revisesBidId      String? // Bid replaced by this one after a counter-offer\n  receivedAt        DateTime  @default(now())\n  updatedAt         DateTime  @updatedAt\n\n  catalog   Catalog @relation(fields: [catalogId], references: [id], onDelete: Cascade)\n  farmer    Farmer  @relation(fields: [farmerId], references: [id], onDelete: Cascade)\n  revises   Bid?    @relation(\"BidRevisions\", fields: [revisesBidId], references: [id], onDelete: SetNull)\n  revisions Bid[]   @relation(\"BidRevisions\")\n  orders    Order[] // One placed order, plus any that were cancelled\n\n  // One bid per buyer per on_search (it shares the search's message_id);\n  // revised bids carry the message_id of their on_select\n  @@unique([catalogId, transactionId, buyerSubscriberId, messageId])\n  @@index([catalogId])\n  @@index([farmerId])\n  @@index([transactionId])\n  @@index([status])\n  @@map(\"bids\")\n}\n\nmodel Order {\n  id                     String                 @id @default(cuid()) // Also the ONDC order ID sent on confirm\n  catalogId              String\n  farmerId               String\n  bidId                  String\n  transactionId          String? // ONDC transaction_id of the accepted bid\n  buyerName              String\n  buyerSubscriberId      String?\n  pricePerUnit           Float\n  quantity               Float\n  unit                   String\n  totalAmount            Float\n  currency               String                 @default(\"INR\")\n  paymentTerms           String?\n  deliveryDays           Int?\n  status                 OrderStatus            @default(BID_ACCEPTED)\n  confirmedAt            DateTime?\n  fulfilledAt            DateTime?\n  cancelledAt            DateTime?\n  cancellationReasonCode String? // ONDC cancellation reason code (see ondc-protocol)\n  cancelledBy            CancellationInitiator?\n  createdAt              DateTime               @default(now())\n  updatedAt              DateTime               @updatedAt\n\n  catalog           Catalog            @relation(fields: [catalogId], references: [id], onDelete: Cascade)\n  farmer            Farmer             @relation(fields: [farmerId], references: [id], onDelete: Cascade)\n  bid               Bid                @relation(fields: [bidId], references: [id], onDelete: Cascade)\n  fulfillmentEvents FulfillmentEvent[]\n  issues            Issue[]\n\n  @@index([catalogId])\n  @@index([farmerId])\n  @@index([bidId])\n  @@index([status])\n  @@map(\"orders\")\n}\n\nmodel FulfillmentEvent {\n  id                String           @id @default(cuid())\n  orderId           String\n  state             FulfillmentState\n  logisticsProvider String? // Who is moving the produce (@ondc/org/provider_name)\n  transactionId     String?\n  messageId         String? // message_id of the callback that reported it\n  source            String // on_status or on_update\n  occurredAt        DateTime // When the stage was reached (callback timestamp)\n  createdAt         DateTime         @default(now())\n\n  order Order @relation(fields: [orderId], references: [id], onDelete: Cascade)\n\n  @@unique([orderId, state])\n  @@index([orderId])\n  @@map(\"fulfillment_events\")\n}\n\n// ONDC Issue & Grievance Management (IGM): a complaint raised on an order\nmodel Issue {\n  id             String      @id @default(cuid()) // Also the ONDC issue id\n  orderId        String\n  transactionId  String? // ONDC transaction_id of the order\n  kind           IssueKind\n  complainant    IssueParty // Who raised it; the other party responds\n  description    String\n  level          IssueLevel  @default(ISSUE)\n  status         IssueStatus @default(OPEN)\n  resolution     String? // ONDC action_triggered (REFUND, REPLACEMENT, CANCEL, NO-ACTION)\n  resolutionNote String?\n  refundAmount   Float?\n  closedAt       DateTime?\n  createdAt      DateTime    @default(now())\n  updatedAt      DateTime    @updatedAt\n\n  order   Order         @relation(fields: [orderId], references: [id], onDelete: Cascade)\n  actions IssueAction[]\n\n  @@index([orderId])\n  @@index([status])\n  @@map(\"issues\")\n}\n\n// One step taken on an issue by either party\nmodel IssueAction {\n  id        String          @id @default(cuid())\n  issueId   String\n  party     IssueParty\n  action    IssueActionCode\n  level     IssueLevel // Level the issue was at when the step was taken\n  shortDesc String?\n  source    String // ONDC message that carried it (issue, on_issue, on_issue_status)\n  createdAt DateTime        @default(now())\n\n  issue Issue @relation(fields: [issueId], references: [id], onDelete: Cascade)\n\n  @@index([issueId])\n  @@map(\"issue_actions\")\n}\n\n// Buyer platform on the ONDC network; seeded from lib/buyer-pool.ts and\n// managed from the admin screens, see lib/buyer-registry.ts\nmodel Buyer {\n  id                   String        @id @default(cuid())\n  subscriberId         String        @unique // ONDC subscriber ID\n  name                 String\n  category             BuyerCategory @default(RETAILER)\n  logo                 String\n  rating               Float // 0-5\n  location             String\n  gstin                String\n  operatingStates      Json // State names the buyer sources from\n  commodityPreferences Json // Commodity names it buys (all when empty)\n  dailyCapacity        Int // Maximum order capacity per day\n  avgResponseTime      Float // Seconds\n  successRate          Float // Percentage\n  verified             Boolean       @default(false)\n  suspended            Boolean       @default(false) // Takes no part in auctions\n  createdAt            DateTime      @default(now())\n  updatedAt            DateTime      @updatedAt\n\n  @@map(\"buyers\")\n}\n\n// What buyers bid relative to the asking price, per commodity, farmer's\n// state and month; updated with every bid, see lib/bid-learning.ts\nmodel BidLearningStat {\n  id        String   @id @default(cuid())\n  commodity String\n  state     String // Farmer's home state (\"\" when unknown)\n  month     Int // 1-12, when the bids were received\n  bidCount  Int      @default(0)\n  ratioSum  Float    @default(0) // Sum of bid price / asking price\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@unique([commodity, state, month])\n  @@map(\"bid_learning_stats\")\n}\n\n// KYC is checked against the farmer's bank account or UPI ID; no Aadhaar\n// number is asked for or stored\nenum KycStatus {\n  NOT_STARTED // No payout details yet\n  PENDING // Payout details given (or changed), awaiting checks\n  VERIFIED\n  REJECTED\n}\n\nenum BuyerCategory {\n  RETAILER\n  WHOLESALER\n  FPO // Farmer producer organisation\n  LOCAL_TRADER\n}\n\nenum CatalogStatus {\n  DRAFT\n  BROADCASTED\n  SOLD\n  CANCELLED // Withdrawn by the farmer (listing or sale)\n  EXPIRED // Broadcast but unsold when its time ran out\n}\n\n// RECEIVED is the only open state; see lib/order-lifecycle.ts for legal transitions\nenum BidStatus {\n  RECEIVED\n  ACCEPTED // Farmer accepted, order placed\n  REJECTED // Farmer rejected\n  COUNTERED // Replaced by the buyer's revised bid after a counter-offer\n  EXPIRED // Validity ran out before the farmer answered\n}\n\n// Follows the ONDC order lifecycle; see lib/order-lifecycle.ts for legal transitions\nenum OrderStatus {\n  BID_ACCEPTED // Order created, confirm not yet acknowledged\n  ORDER_CONFIRMED // Buyer accepted the order (on_confirm)\n  FULFILLED // Delivered\n  CANCELLED\n}\n\n// Who cancelled an order\nenum CancellationInitiator {\n  FARMER\n  BUYER\n}\n\n// Stages reported after confirmation, in order; see lib/fulfillment-tracker.ts\nenum FulfillmentState {\n  PACKED\n  PICKED_UP // Collected by the logistics provider\n  IN_TRANSIT\n  DELIVERED // Moves the order to FULFILLED\n}\n\n// Complaints the gateway handles, with their ONDC category in lib/ondc-protocol.ts\nenum IssueKind {\n  QUALITY // Buyer: produce not of the agreed quality\n  SHORT_WEIGHT // Buyer: less produce delivered than ordered\n  PAYMENT_NOT_RECEIVED // Farmer: buyer has not paid\n}\n\nenum IssueParty {\n  FARMER\n  BUYER\n}\n\n// Escalation levels: the counterparty, its grievance officer, then online dispute resolution\nenum IssueLevel {\n  ISSUE\n  GRIEVANCE\n  DISPUTE\n}\n\n// See lib/issue-lifecycle.ts for legal transitions\nenum IssueStatus {\n  OPEN // Raised or escalated, awaiting the respondent\n  PROCESSING // Respondent is looking into it\n  RESOLVED // Respondent proposed a resolution\n  CLOSED // Complainant accepted or withdrew\n}\n\n// ONDC complainant actions (OPEN, ESCALATE, CLOSE) and respondent actions (PROCESSING, RESOLVED)\nenum IssueActionCode {\n  OPEN\n  ESCALATE\n  CLOSE\n  PROCESSING\n  RESOLVED\n}\n\nmodel NetworkLog {\n  id            String         @id @default(cuid())\n  type          NetworkLogType\n  payload       Json\n  transactionId String? // ONDC transaction_id for correlation\n  catalogId     String? // Originating catalog, if any\n  timestamp     DateTime       @default(now())\n\n  @@index([type])\n  @@index([timestamp])\n  @@index([transactionId])\n  @@index([catalogId])\n  @@map(\"network_logs\")\n}\n\nenum NetworkLogType {\n  OUTGOING_CATALOG\n  INCOMING_BID\n  ONDC_REQUEST // Full ONDC envelope sent by the gateway (search, select, ...)\n  ONDC_CALLBACK // Full ONDC envelope received from the network (on_search, ...)\n  BID_RESPONSE // Farmer's accept, reject or counter-offer on a bid\n}\n",
   "runtimeDataModel": {
     "models": {},
     "enums": {},
@@ -28,7 +28,7 @@ const config: runtime.GetPrismaClientConfig = {
   }
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"Farmer\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"locationLatLong\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"languagePref\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"upiId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"catalogs\",\"kind\":\"object\",\"type\":\"Catalog\",\"relationName\":\"CatalogToFarmer\"}],\"dbName\":\"farmers\"},\"Catalog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"farmerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"becknJson\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"CatalogStatus\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"farmer\",\"kind\":\"object\",\"type\":\"Farmer\",\"relationName\":\"CatalogToFarmer\"}],\"dbName\":\"catalogs\"},\"NetworkLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"NetworkLogType\"},{\"name\":\"payload\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"timestamp\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"network_logs\"}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"Farmer\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"phone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"locationLatLong\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"village\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"district\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"state\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"landholdingAcres\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"crops\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"preferredMandis\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"languagePref\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"upiId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bankAccountName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bankAccountNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bankIfsc\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"kycStatus\",\"kind\":\"enum\",\"type\":\"KycStatus\"},{\"name\":\"fpoId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"fpo\",\"kind\":\"object\",\"type\":\"Fpo\",\"relationName\":\"FarmerToFpo\"},{\"name\":\"catalogs\",\"kind\":\"object\",\"type\":\"Catalog\",\"relationName\":\"CatalogToFarmer\"},{\"name\":\"bids\",\"kind\":\"object\",\"type\":\"Bid\",\"relationName\":\"BidToFarmer\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"FarmerToOrder\"},{\"name\":\"sessions\",\"kind\":\"object\",\"type\":\"FarmerSession\",\"relationName\":\"FarmerToFarmerSession\"},{\"name\":\"poolContributions\",\"kind\":\"object\",\"type\":\"PoolContribution\",\"relationName\":\"FarmerToPoolContribution\"},{\"name\":\"conversations\",\"kind\":\"object\",\"type\":\"VoiceConversation\",\"relationName\":\"FarmerToVoiceConversation\"}],\"dbName\":\"farmers\"},\"Fpo\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"providerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"state\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"members\",\"kind\":\"object\",\"type\":\"Farmer\",\"relationName\":\"FarmerToFpo\"},{\"name\":\"catalogs\",\"kind\":\"object\",\"type\":\"Catalog\",\"relationName\":\"CatalogToFpo\"}],\"dbName\":\"fpos\"},\"OtpChallenge\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"phone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"codeHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"attempts\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"consumedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"otp_challenges\"},\"FarmerSession\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"farmerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokenHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"farmer\",\"kind\":\"object\",\"type\":\"Farmer\",\"relationName\":\"FarmerToFarmerSession\"}],\"dbName\":\"farmer_sessions\"},\"VoiceConversation\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"farmerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"languageCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stage\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"collectedData\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"priceSuggestion\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"catalogItem\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"transcript\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"endedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"farmer\",\"kind\":\"object\",\"type\":\"Farmer\",\"relationName\":\"FarmerToVoiceConversation\"}],\"dbName\":\"voice_conversations\"},\"Catalog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"farmerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"becknJson\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"CatalogStatus\"},{\"name\":\"version\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"relistPromptedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"fpoId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"farmer\",\"kind\":\"object\",\"type\":\"Farmer\",\"relationName\":\"CatalogToFarmer\"},{\"name\":\"fpo\",\"kind\":\"object\",\"type\":\"Fpo\",\"relationName\":\"CatalogToFpo\"},{\"name\":\"bids\",\"kind\":\"object\",\"type\":\"Bid\",\"relationName\":\"BidToCatalog\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"CatalogToOrder\"},{\"name\":\"revisions\",\"kind\":\"object\",\"type\":\"CatalogRevision\",\"relationName\":\"CatalogToCatalogRevision\"},{\"name\":\"contributions\",\"kind\":\"object\",\"type\":\"PoolContribution\",\"relationName\":\"CatalogToPoolContribution\"}],\"dbName\":\"catalogs\"},\"CatalogRevision\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"catalogId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"version\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"becknJson\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"changes\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"changedBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"note\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"catalog\",\"kind\":\"object\",\"type\":\"Catalog\",\"relationName\":\"CatalogToCatalogRevision\"}],\"dbName\":\"catalog_revisions\"},\"PoolContribution\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"catalogId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"farmerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"shareAmount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"shareAnnouncedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"catalog\",\"kind\":\"object\",\"type\":\"Catalog\",\"relationName\":\"CatalogToPoolContribution\"},{\"name\":\"farmer\",\"kind\":\"object\",\"type\":\"Farmer\",\"relationName\":\"FarmerToPoolContribution\"}],\"dbName\":\"pool_contributions\"},\"Bid\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"catalogId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"farmerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"transactionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"messageId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"buyerName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"buyerSubscriberId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"pricePerUnit\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"catalogPrice\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"paymentTerms\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"deliveryDays\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"validityHours\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"BidStatus\"},{\"name\":\"revisesBidId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"receivedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"catalog\",\"kind\":\"object\",\"type\":\"Catalog\",\"relationName\":\"BidToCatalog\"},{\"name\":\"farmer\",\"kind\":\"object\",\"type\":\"Farmer\",\"relationName\":\"BidToFarmer\"},{\"name\":\"revises\",\"kind\":\"object\",\"type\":\"Bid\",\"relationName\":\"BidRevisions\"},{\"name\":\"revisions\",\"kind\":\"object\",\"type\":\"Bid\",\"relationName\":\"BidRevisions\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"BidToOrder\"}],\"dbName\":\"bids\"},\"Order\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"catalogId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"farmerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bidId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"transactionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"buyerName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"buyerSubscriberId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"pricePerUnit\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"unit\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"totalAmount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"paymentTerms\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"deliveryDays\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"OrderStatus\"},{\"name\":\"confirmedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"fulfilledAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"cancelledAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"cancellationReasonCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cancelledBy\",\"kind\":\"enum\",\"type\":\"CancellationInitiator\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"catalog\",\"kind\":\"object\",\"type\":\"Catalog\",\"relationName\":\"CatalogToOrder\"},{\"name\":\"farmer\",\"kind\":\"object\",\"type\":\"Farmer\",\"relationName\":\"FarmerToOrder\"},{\"name\":\"bid\",\"kind\":\"object\",\"type\":\"Bid\",\"relationName\":\"BidToOrder\"},{\"name\":\"fulfillmentEvents\",\"kind\":\"object\",\"type\":\"FulfillmentEvent\",\"relationName\":\"FulfillmentEventToOrder\"},{\"name\":\"issues\",\"kind\":\"object\",\"type\":\"Issue\",\"relationName\":\"IssueToOrder\"}],\"dbName\":\"orders\"},\"FulfillmentEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"state\",\"kind\":\"enum\",\"type\":\"FulfillmentState\"},{\"name\":\"logisticsProvider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"transactionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"messageId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"source\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"occurredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"FulfillmentEventToOrder\"}],\"dbName\":\"fulfillment_events\"},\"Issue\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"transactionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"kind\",\"kind\":\"enum\",\"type\":\"IssueKind\"},{\"name\":\"complainant\",\"kind\":\"enum\",\"type\":\"IssueParty\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"level\",\"kind\":\"enum\",\"type\":\"IssueLevel\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"IssueStatus\"},{\"name\":\"resolution\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resolutionNote\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"refundAmount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"closedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"IssueToOrder\"},{\"name\":\"actions\",\"kind\":\"object\",\"type\":\"IssueAction\",\"relationName\":\"IssueToIssueAction\"}],\"dbName\":\"issues\"},\"IssueAction\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"issueId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"party\",\"kind\":\"enum\",\"type\":\"IssueParty\"},{\"name\":\"action\",\"kind\":\"enum\",\"type\":\"IssueActionCode\"},{\"name\":\"level\",\"kind\":\"enum\",\"type\":\"IssueLevel\"},{\"name\":\"shortDesc\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"source\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"issue\",\"kind\":\"object\",\"type\":\"Issue\",\"relationName\":\"IssueToIssueAction\"}],\"dbName\":\"issue_actions\"},\"Buyer\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subscriberId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"enum\",\"type\":\"BuyerCategory\"},{\"name\":\"logo\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rating\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"location\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"gstin\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"operatingStates\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"commodityPreferences\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"dailyCapacity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"avgResponseTime\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"successRate\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"verified\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"suspended\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"buyers\"},\"BidLearningStat\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"commodity\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"state\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"month\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"bidCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"ratioSum\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"bid_learning_stats\"},\"NetworkLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"NetworkLogType\"},{\"name\":\"payload\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"transactionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"catalogId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"timestamp\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"network_logs\"}},\"enums\":{},\"types\":{}}")
 
 async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
   const { Buffer } = await import('node:buffer')
@@ -186,6 +186,46 @@ export interface PrismaClient<
     */
   get farmer(): Prisma.FarmerDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.fpo`: Exposes CRUD operations for the **Fpo** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Fpos
+    * const fpos = await prisma.fpo.findMany()
+    * ```
+    */
+  get fpo(): Prisma.FpoDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.otpChallenge`: Exposes CRUD operations for the **OtpChallenge** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more OtpChallenges
+    * const otpChallenges = await prisma.otpChallenge.findMany()
+    * ```
+    */
+  get otpChallenge(): Prisma.OtpChallengeDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.farmerSession`: Exposes CRUD operations for the **FarmerSession** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more FarmerSessions
+    * const farmerSessions = await prisma.farmerSession.findMany()
+    * ```
+    */
+  get farmerSession(): Prisma.FarmerSessionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.voiceConversation`: Exposes CRUD operations for the **VoiceConversation** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more VoiceConversations
+    * const voiceConversations = await prisma.voiceConversation.findMany()
+    * ```
+    */
+  get voiceConversation(): Prisma.VoiceConversationDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.catalog`: Exposes CRUD operations for the **Catalog** model.
     * Example usage:
@@ -196,6 +236,96 @@ export interface PrismaClient<
     */
   get catalog(): Prisma.CatalogDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.catalogRevision`: Exposes CRUD operations for the **CatalogRevision** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more CatalogRevisions
+    * const catalogRevisions = await prisma.catalogRevision.findMany()
+    * ```
+    */
+  get catalogRevision(): Prisma.CatalogRevisionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.poolContribution`: Exposes CRUD operations for the **PoolContribution** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more PoolContributions
+    * const poolContributions = await prisma.poolContribution.findMany()
+    * ```
+    */
+  get poolContribution(): Prisma.PoolContributionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.bid`: Exposes CRUD operations for the **Bid** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Bids
+    * const bids = await prisma.bid.findMany()
+    * ```
+    */
+  get bid(): Prisma.BidDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.order`: Exposes CRUD operations for the **Order** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Orders
+    * const orders = await prisma.order.findMany()
+    * ```
+    */
+  get order(): Prisma.OrderDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.fulfillmentEvent`: Exposes CRUD operations for the **FulfillmentEvent** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more FulfillmentEvents
+    * const fulfillmentEvents = await prisma.fulfillmentEvent.findMany()
+    * ```
+    */
+  get fulfillmentEvent(): Prisma.FulfillmentEventDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.issue`: Exposes CRUD operations for the **Issue** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Issues
+    * const issues = await prisma.issue.findMany()
+    * ```
+    */
+  get issue(): Prisma.IssueDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.issueAction`: Exposes CRUD operations for the **IssueAction** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more IssueActions
+    * const issueActions = await prisma.issueAction.findMany()
+    * ```
+    */
+  get issueAction(): Prisma.IssueActionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.buyer`: Exposes CRUD operations for the **Buyer** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Buyers
+    * const buyers = await prisma.buyer.findMany()
+    * ```
+    */
+  get buyer(): Prisma.BuyerDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.bidLearningStat`: Exposes CRUD operations for the **BidLearningStat** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more BidLearningStats
+    * const bidLearningStats = await prisma.bidLearningStat.findMany()
+    * ```
+    */
+  get bidLearningStat(): Prisma.BidLearningStatDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.networkLog`: Exposes CRUD operations for the **NetworkLog** model.
     * Example usage:
@@ -385,7 +385,20 @@ type FieldRefInputType<Model, FieldType> = Model extends never ? never : FieldRe
 
 export const ModelName = {
   Farmer: 'Farmer',
+  Fpo: 'Fpo',
+  OtpChallenge: 'OtpChallenge',
+  FarmerSession: 'FarmerSession',
+  VoiceConversation: 'VoiceConversation',
   Catalog: 'Catalog',
+  CatalogRevision: 'CatalogRevision',
+  PoolContribution: 'PoolContribution',
+  Bid: 'Bid',
+  Order: 'Order',
+  FulfillmentEvent: 'FulfillmentEvent',
+  Issue: 'Issue',
+  IssueAction: 'IssueAction',
+  Buyer: 'Buyer',
+  BidLearningStat: 'BidLearningStat',
   NetworkLog: 'NetworkLog'
 } as const
 
@@ -402,7 +415,7 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
     omit: GlobalOmitOptions
   }
   meta: {
-    modelProps: "farmer" | "catalog" | "networkLog"
+    modelProps: "farmer" | "fpo" | "otpChallenge" | "farmerSession" | "voiceConversation" | "catalog" | "catalogRevision" | "poolContribution" | "bid" | "order" | "fulfillmentEvent" | "issue" | "issueAction" | "buyer" | "bidLearningStat" | "networkLog"
     txIsolationLevel: TransactionIsolationLevel
   }
   model: {
@@ -480,77 +493,1039 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    Fpo: {
+      payload: Prisma.$FpoPayload<ExtArgs>
+      fields: Prisma.FpoFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.FpoFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FpoPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.FpoFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FpoPayload>
+        }
+        findFirst: {
+          args: Prisma.FpoFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FpoPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.FpoFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FpoPayload>
+        }
+        findMany: {
+          args: Prisma.FpoFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FpoPayload>[]
+        }
+        create: {
+          args: Prisma.FpoCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FpoPayload>
+        }
+        createMany: {
+          args: Prisma.FpoCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.FpoCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FpoPayload>[]
+        }
+        delete: {
+          args: Prisma.FpoDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FpoPayload>
+        }
+        update: {
+          args: Prisma.FpoUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FpoPayload>
+        }
+        deleteMany: {
+          args: Prisma.FpoDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.FpoUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.FpoUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FpoPayload>[]
+        }
+        upsert: {
+          args: Prisma.FpoUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FpoPayload>
+        }
+        aggregate: {
+          args: Prisma.FpoAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateFpo>
+        }
+        groupBy: {
+          args: Prisma.FpoGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.FpoGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.FpoCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.FpoCountAggregateOutputType> | number
+        }
+      }
+    }
+    OtpChallenge: {
+      payload: Prisma.$OtpChallengePayload<ExtArgs>
+      fields: Prisma.OtpChallengeFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.OtpChallengeFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpChallengePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.OtpChallengeFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpChallengePayload>
+        }
+        findFirst: {
+          args: Prisma.OtpChallengeFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpChallengePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.OtpChallengeFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpChallengePayload>
+        }
+        findMany: {
+          args: Prisma.OtpChallengeFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpChallengePayload>[]
+        }
+        create: {
+          args: Prisma.OtpChallengeCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpChallengePayload>
+        }
+        createMany: {
+          args: Prisma.OtpChallengeCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.OtpChallengeCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpChallengePayload>[]
+        }
+        delete: {
+          args: Prisma.OtpChallengeDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpChallengePayload>
+        }
+        update: {
+          args: Prisma.OtpChallengeUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpChallengePayload>
+        }
+        deleteMany: {
+          args: Prisma.OtpChallengeDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.OtpChallengeUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.OtpChallengeUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpChallengePayload>[]
+        }
+        upsert: {
+          args: Prisma.OtpChallengeUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpChallengePayload>
+        }
+        aggregate: {
+          args: Prisma.OtpChallengeAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateOtpChallenge>
+        }
+        groupBy: {
+          args: Prisma.OtpChallengeGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.OtpChallengeGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.OtpChallengeCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.OtpChallengeCountAggregateOutputType> | number
+        }
+      }
+    }
+    FarmerSession: {
+      payload: Prisma.$FarmerSessionPayload<ExtArgs>
+      fields: Prisma.FarmerSessionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.FarmerSessionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FarmerSessionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.FarmerSessionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FarmerSessionPayload>
+        }
+        findFirst: {
+          args: Prisma.FarmerSessionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FarmerSessionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.FarmerSessionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FarmerSessionPayload>
+        }
+        findMany: {
+          args: Prisma.FarmerSessionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FarmerSessionPayload>[]
+        }
+        create: {
+          args: Prisma.FarmerSessionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FarmerSessionPayload>
+        }
+        createMany: {
+          args: Prisma.FarmerSessionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.FarmerSessionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FarmerSessionPayload>[]
+        }
+        delete: {
+          args: Prisma.FarmerSessionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FarmerSessionPayload>
+        }
+        update: {
+          args: Prisma.FarmerSessionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FarmerSessionPayload>
+        }
+        deleteMany: {
+          args: Prisma.FarmerSessionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.FarmerSessionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.FarmerSessionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FarmerSessionPayload>[]
+        }
+        upsert: {
+          args: Prisma.FarmerSessionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FarmerSessionPayload>
+        }
+        aggregate: {
+          args: Prisma.FarmerSessionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateFarmerSession>
+        }
+        groupBy: {
+          args: Prisma.FarmerSessionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.FarmerSessionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.FarmerSessionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.FarmerSessionCountAggregateOutputType> | number
+        }
+      }
+    }
+    VoiceConversation: {
+      payload: Prisma.$VoiceConversationPayload<ExtArgs>
+      fields: Prisma.VoiceConversationFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.VoiceConversationFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VoiceConversationPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.VoiceConversationFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VoiceConversationPayload>
+        }
+        findFirst: {
+          args: Prisma.VoiceConversationFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VoiceConversationPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.VoiceConversationFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VoiceConversationPayload>
+        }
+        findMany: {
+          args: Prisma.VoiceConversationFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VoiceConversationPayload>[]
+        }
+        create: {
+          args: Prisma.VoiceConversationCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VoiceConversationPayload>
+        }
+        createMany: {
+          args: Prisma.VoiceConversationCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.VoiceConversationCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VoiceConversationPayload>[]
+        }
+        delete: {
+          args: Prisma.VoiceConversationDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VoiceConversationPayload>
+        }
+        update: {
+          args: Prisma.VoiceConversationUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VoiceConversationPayload>
+        }
+        deleteMany: {
+          args: Prisma.VoiceConversationDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.VoiceConversationUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.VoiceConversationUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VoiceConversationPayload>[]
+        }
+        upsert: {
+          args: Prisma.VoiceConversationUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VoiceConversationPayload>
+        }
+        aggregate: {
+          args: Prisma.VoiceConversationAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateVoiceConversation>
+        }
+        groupBy: {
+          args: Prisma.VoiceConversationGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.VoiceConversationGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.VoiceConversationCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.VoiceConversationCountAggregateOutputType> | number
+        }
+      }
+    }
     Catalog: {
       payload: Prisma.$CatalogPayload<ExtArgs>
       fields: Prisma.CatalogFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.CatalogFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogPayload> | null
+          args: Prisma.CatalogFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.CatalogFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogPayload>
+        }
+        findFirst: {
+          args: Prisma.CatalogFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.CatalogFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogPayload>
+        }
+        findMany: {
+          args: Prisma.CatalogFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogPayload>[]
+        }
+        create: {
+          args: Prisma.CatalogCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogPayload>
+        }
+        createMany: {
+          args: Prisma.CatalogCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.CatalogCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogPayload>[]
+        }
+        delete: {
+          args: Prisma.CatalogDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogPayload>
+        }
+        update: {
+          args: Prisma.CatalogUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogPayload>
+        }
+        deleteMany: {
+          args: Prisma.CatalogDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.CatalogUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.CatalogUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogPayload>[]
+        }
+        upsert: {
+          args: Prisma.CatalogUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogPayload>
+        }
+        aggregate: {
+          args: Prisma.CatalogAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateCatalog>
+        }
+        groupBy: {
+          args: Prisma.CatalogGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CatalogGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.CatalogCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CatalogCountAggregateOutputType> | number
+        }
+      }
+    }
+    CatalogRevision: {
+      payload: Prisma.$CatalogRevisionPayload<ExtArgs>
+      fields: Prisma.CatalogRevisionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.CatalogRevisionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogRevisionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.CatalogRevisionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogRevisionPayload>
+        }
+        findFirst: {
+          args: Prisma.CatalogRevisionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogRevisionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.CatalogRevisionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogRevisionPayload>
+        }
+        findMany: {
+          args: Prisma.CatalogRevisionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogRevisionPayload>[]
+        }
+        create: {
+          args: Prisma.CatalogRevisionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogRevisionPayload>
+        }
+        createMany: {
+          args: Prisma.CatalogRevisionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.CatalogRevisionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogRevisionPayload>[]
+        }
+        delete: {
+          args: Prisma.CatalogRevisionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogRevisionPayload>
+        }
+        update: {
+          args: Prisma.CatalogRevisionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogRevisionPayload>
+        }
+        deleteMany: {
+          args: Prisma.CatalogRevisionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.CatalogRevisionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.CatalogRevisionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogRevisionPayload>[]
+        }
+        upsert: {
+          args: Prisma.CatalogRevisionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogRevisionPayload>
+        }
+        aggregate: {
+          args: Prisma.CatalogRevisionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateCatalogRevision>
+        }
+        groupBy: {
+          args: Prisma.CatalogRevisionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CatalogRevisionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.CatalogRevisionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CatalogRevisionCountAggregateOutputType> | number
+        }
+      }
+    }
+    PoolContribution: {
+      payload: Prisma.$PoolContributionPayload<ExtArgs>
+      fields: Prisma.PoolContributionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.PoolContributionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PoolContributionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.PoolContributionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PoolContributionPayload>
+        }
+        findFirst: {
+          args: Prisma.PoolContributionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PoolContributionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.PoolContributionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PoolContributionPayload>
+        }
+        findMany: {
+          args: Prisma.PoolContributionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PoolContributionPayload>[]
+        }
+        create: {
+          args: Prisma.PoolContributionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PoolContributionPayload>
+        }
+        createMany: {
+          args: Prisma.PoolContributionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.PoolContributionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PoolContributionPayload>[]
+        }
+        delete: {
+          args: Prisma.PoolContributionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PoolContributionPayload>
+        }
+        update: {
+          args: Prisma.PoolContributionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PoolContributionPayload>
+        }
+        deleteMany: {
+          args: Prisma.PoolContributionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.PoolContributionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.PoolContributionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PoolContributionPayload>[]
+        }
+        upsert: {
+          args: Prisma.PoolContributionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PoolContributionPayload>
+        }
+        aggregate: {
+          args: Prisma.PoolContributionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregatePoolContribution>
+        }
+        groupBy: {
+          args: Prisma.PoolContributionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PoolContributionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.PoolContributionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PoolContributionCountAggregateOutputType> | number
+        }
+      }
+    }
+    Bid: {
+      payload: Prisma.$BidPayload<ExtArgs>
+      fields: Prisma.BidFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.BidFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BidPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.BidFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BidPayload>
+        }
+        findFirst: {
+          args: Prisma.BidFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BidPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.BidFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BidPayload>
+        }
+        findMany: {
+          args: Prisma.BidFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BidPayload>[]
+        }
+        create: {
+          args: Prisma.BidCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BidPayload>
+        }
+        createMany: {
+          args: Prisma.BidCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.BidCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BidPayload>[]
+        }
+        delete: {
+          args: Prisma.BidDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BidPayload>
+        }
+        update: {
+          args: Prisma.BidUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BidPayload>
+        }
+        deleteMany: {
+          args: Prisma.BidDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.BidUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.BidUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BidPayload>[]
+        }
+        upsert: {
+          args: Prisma.BidUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BidPayload>
+        }
+        aggregate: {
+          args: Prisma.BidAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateBid>
+        }
+        groupBy: {
+          args: Prisma.BidGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BidGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.BidCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BidCountAggregateOutputType> | number
+        }
+      }
+    }
+    Order: {
+      payload: Prisma.$OrderPayload<ExtArgs>
+      fields: Prisma.OrderFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.OrderFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.OrderFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderPayload>
+        }
+        findFirst: {
+          args: Prisma.OrderFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.OrderFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderPayload>
+        }
+        findMany: {
+          args: Prisma.OrderFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderPayload>[]
+        }
+        create: {
+          args: Prisma.OrderCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderPayload>
+        }
+        createMany: {
+          args: Prisma.OrderCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.OrderCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderPayload>[]
+        }
+        delete: {
+          args: Prisma.OrderDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderPayload>
+        }
+        update: {
+          args: Prisma.OrderUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderPayload>
+        }
+        deleteMany: {
+          args: Prisma.OrderDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.OrderUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.OrderUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderPayload>[]
+        }
+        upsert: {
+          args: Prisma.OrderUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OrderPayload>
+        }
+        aggregate: {
+          args: Prisma.OrderAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateOrder>
+        }
+        groupBy: {
+          args: Prisma.OrderGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.OrderGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.OrderCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.OrderCountAggregateOutputType> | number
+        }
+      }
+    }
+    FulfillmentEvent: {
+      payload: Prisma.$FulfillmentEventPayload<ExtArgs>
+      fields: Prisma.FulfillmentEventFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.FulfillmentEventFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FulfillmentEventPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.FulfillmentEventFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FulfillmentEventPayload>
+        }
+        findFirst: {
+          args: Prisma.FulfillmentEventFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FulfillmentEventPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.FulfillmentEventFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FulfillmentEventPayload>
+        }
+        findMany: {
+          args: Prisma.FulfillmentEventFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FulfillmentEventPayload>[]
+        }
+        create: {
+          args: Prisma.FulfillmentEventCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FulfillmentEventPayload>
+        }
+        createMany: {
+          args: Prisma.FulfillmentEventCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.FulfillmentEventCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FulfillmentEventPayload>[]
+        }
+        delete: {
+          args: Prisma.FulfillmentEventDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FulfillmentEventPayload>
+        }
+        update: {
+          args: Prisma.FulfillmentEventUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FulfillmentEventPayload>
+        }
+        deleteMany: {
+          args: Prisma.FulfillmentEventDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.FulfillmentEventUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.FulfillmentEventUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FulfillmentEventPayload>[]
+        }
+        upsert: {
+          args: Prisma.FulfillmentEventUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FulfillmentEventPayload>
+        }
+        aggregate: {
+          args: Prisma.FulfillmentEventAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateFulfillmentEvent>
+        }
+        groupBy: {
+          args: Prisma.FulfillmentEventGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.FulfillmentEventGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.FulfillmentEventCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.FulfillmentEventCountAggregateOutputType> | number
+        }
+      }
+    }
+    Issue: {
+      payload: Prisma.$IssuePayload<ExtArgs>
+      fields: Prisma.IssueFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.IssueFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IssuePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.IssueFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IssuePayload>
+        }
+        findFirst: {
+          args: Prisma.IssueFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IssuePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.IssueFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IssuePayload>
+        }
+        findMany: {
+          args: Prisma.IssueFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IssuePayload>[]
+        }
+        create: {
+          args: Prisma.IssueCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IssuePayload>
+        }
+        createMany: {
+          args: Prisma.IssueCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.IssueCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IssuePayload>[]
+        }
+        delete: {
+          args: Prisma.IssueDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IssuePayload>
+        }
+        update: {
+          args: Prisma.IssueUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IssuePayload>
+        }
+        deleteMany: {
+          args: Prisma.IssueDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.IssueUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.IssueUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IssuePayload>[]
+        }
+        upsert: {
+          args: Prisma.IssueUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IssuePayload>
+        }
+        aggregate: {
+          args: Prisma.IssueAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateIssue>
+        }
+        groupBy: {
+          args: Prisma.IssueGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.IssueGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.IssueCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.IssueCountAggregateOutputType> | number
+        }
+      }
+    }
+    IssueAction: {
+      payload: Prisma.$IssueActionPayload<ExtArgs>
+      fields: Prisma.IssueActionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.IssueActionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IssueActionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.IssueActionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IssueActionPayload>
+        }
+        findFirst: {
+          args: Prisma.IssueActionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IssueActionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.IssueActionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IssueActionPayload>
+        }
+        findMany: {
+          args: Prisma.IssueActionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IssueActionPayload>[]
+        }
+        create: {
+          args: Prisma.IssueActionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IssueActionPayload>
+        }
+        createMany: {
+          args: Prisma.IssueActionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.IssueActionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IssueActionPayload>[]
+        }
+        delete: {
+          args: Prisma.IssueActionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IssueActionPayload>
+        }
+        update: {
+          args: Prisma.IssueActionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IssueActionPayload>
+        }
+        deleteMany: {
+          args: Prisma.IssueActionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.IssueActionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.IssueActionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IssueActionPayload>[]
+        }
+        upsert: {
+          args: Prisma.IssueActionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IssueActionPayload>
+        }
+        aggregate: {
+          args: Prisma.IssueActionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateIssueAction>
+        }
+        groupBy: {
+          args: Prisma.IssueActionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.IssueActionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.IssueActionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.IssueActionCountAggregateOutputType> | number
+        }
+      }
+    }
+    Buyer: {
+      payload: Prisma.$BuyerPayload<ExtArgs>
+      fields: Prisma.BuyerFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.BuyerFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BuyerPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.CatalogFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogPayload>
+          args: Prisma.BuyerFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BuyerPayload>
         }
         findFirst: {
-          args: Prisma.CatalogFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogPayload> | null
+          args: Prisma.BuyerFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BuyerPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.CatalogFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogPayload>
+          args: Prisma.BuyerFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BuyerPayload>
         }
         findMany: {
-          args: Prisma.CatalogFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogPayload>[]
+          args: Prisma.BuyerFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BuyerPayload>[]
         }
         create: {
-          args: Prisma.CatalogCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogPayload>
+          args: Prisma.BuyerCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BuyerPayload>
         }
         createMany: {
-          args: Prisma.CatalogCreateManyArgs<ExtArgs>
+          args: Prisma.BuyerCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.CatalogCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogPayload>[]
+          args: Prisma.BuyerCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BuyerPayload>[]
         }
         delete: {
-          args: Prisma.CatalogDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogPayload>
+          args: Prisma.BuyerDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BuyerPayload>
         }
         update: {
-          args: Prisma.CatalogUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogPayload>
+          args: Prisma.BuyerUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BuyerPayload>
         }
         deleteMany: {
-          args: Prisma.CatalogDeleteManyArgs<ExtArgs>
+          args: Prisma.BuyerDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.CatalogUpdateManyArgs<ExtArgs>
+          args: Prisma.BuyerUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.CatalogUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogPayload>[]
+          args: Prisma.BuyerUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BuyerPayload>[]
         }
         upsert: {
-          args: Prisma.CatalogUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CatalogPayload>
+          args: Prisma.BuyerUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BuyerPayload>
         }
         aggregate: {
-          args: Prisma.CatalogAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateCatalog>
+          args: Prisma.BuyerAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateBuyer>
         }
         groupBy: {
-          args: Prisma.CatalogGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.CatalogGroupByOutputType>[]
+          args: Prisma.BuyerGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BuyerGroupByOutputType>[]
         }
         count: {
-          args: Prisma.CatalogCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.CatalogCountAggregateOutputType> | number
+          args: Prisma.BuyerCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BuyerCountAggregateOutputType> | number
+        }
+      }
+    }
+    BidLearningStat: {
+      payload: Prisma.$BidLearningStatPayload<ExtArgs>
+      fields: Prisma.BidLearningStatFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.BidLearningStatFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BidLearningStatPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.BidLearningStatFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BidLearningStatPayload>
+        }
+        findFirst: {
+          args: Prisma.BidLearningStatFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BidLearningStatPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.BidLearningStatFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BidLearningStatPayload>
+        }
+        findMany: {
+          args: Prisma.BidLearningStatFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BidLearningStatPayload>[]
+        }
+        create: {
+          args: Prisma.BidLearningStatCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BidLearningStatPayload>
+        }
+        createMany: {
+          args: Prisma.BidLearningStatCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.BidLearningStatCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BidLearningStatPayload>[]
+        }
+        delete: {
+          args: Prisma.BidLearningStatDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BidLearningStatPayload>
+        }
+        update: {
+          args: Prisma.BidLearningStatUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BidLearningStatPayload>
+        }
+        deleteMany: {
+          args: Prisma.BidLearningStatDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.BidLearningStatUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.BidLearningStatUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BidLearningStatPayload>[]
+        }
+        upsert: {
+          args: Prisma.BidLearningStatUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BidLearningStatPayload>
+        }
+        aggregate: {
+          args: Prisma.BidLearningStatAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateBidLearningStat>
+        }
+        groupBy: {
+          args: Prisma.BidLearningStatGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BidLearningStatGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.BidLearningStatCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BidLearningStatCountAggregateOutputType> | number
         }
       }
     }
@@ -667,9 +1642,21 @@ export type TransactionIsolationLevel = (typeof TransactionIsolationLevel)[keyof
 export const FarmerScalarFieldEnum = {
   id: 'id',
   name: 'name',
+  phone: 'phone',
   locationLatLong: 'locationLatLong',
+  village: 'village',
+  district: 'district',
+  state: 'state',
+  landholdingAcres: 'landholdingAcres',
+  crops: 'crops',
+  preferredMandis: 'preferredMandis',
   languagePref: 'languagePref',
   upiId: 'upiId',
+  bankAccountName: 'bankAccountName',
+  bankAccountNumber: 'bankAccountNumber',
+  bankIfsc: 'bankIfsc',
+  kycStatus: 'kycStatus',
+  fpoId: 'fpoId',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -677,11 +1664,68 @@ export const FarmerScalarFieldEnum = {
 export type FarmerScalarFieldEnum = (typeof FarmerScalarFieldEnum)[keyof typeof FarmerScalarFieldEnum]
 
 
+export const FpoScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  providerId: 'providerId',
+  state: 'state',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type FpoScalarFieldEnum = (typeof FpoScalarFieldEnum)[keyof typeof FpoScalarFieldEnum]
+
+
+export const OtpChallengeScalarFieldEnum = {
+  id: 'id',
+  phone: 'phone',
+  codeHash: 'codeHash',
+  attempts: 'attempts',
+  expiresAt: 'expiresAt',
+  consumedAt: 'consumedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type OtpChallengeScalarFieldEnum = (typeof OtpChallengeScalarFieldEnum)[keyof typeof OtpChallengeScalarFieldEnum]
+
+
+export const FarmerSessionScalarFieldEnum = {
+  id: 'id',
+  farmerId: 'farmerId',
+  tokenHash: 'tokenHash',
+  expiresAt: 'expiresAt',
+  createdAt: 'createdAt'
+} as const
+
+export type FarmerSessionScalarFieldEnum = (typeof FarmerSessionScalarFieldEnum)[keyof typeof FarmerSessionScalarFieldEnum]
+
+
+export const VoiceConversationScalarFieldEnum = {
+  id: 'id',
+  farmerId: 'farmerId',
+  languageCode: 'languageCode',
+  stage: 'stage',
+  collectedData: 'collectedData',
+  priceSuggestion: 'priceSuggestion',
+  catalogItem: 'catalogItem',
+  transcript: 'transcript',
+  endedAt: 'endedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type VoiceConversationScalarFieldEnum = (typeof VoiceConversationScalarFieldEnum)[keyof typeof VoiceConversationScalarFieldEnum]
+
+
 export const CatalogScalarFieldEnum = {
   id: 'id',
   farmerId: 'farmerId',
   becknJson: 'becknJson',
   status: 'status',
+  version: 'version',
+  expiresAt: 'expiresAt',
+  relistPromptedAt: 'relistPromptedAt',
+  fpoId: 'fpoId',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -689,10 +1733,177 @@ export const CatalogScalarFieldEnum = {
 export type CatalogScalarFieldEnum = (typeof CatalogScalarFieldEnum)[keyof typeof CatalogScalarFieldEnum]
 
 
+export const CatalogRevisionScalarFieldEnum = {
+  id: 'id',
+  catalogId: 'catalogId',
+  version: 'version',
+  becknJson: 'becknJson',
+  changes: 'changes',
+  changedBy: 'changedBy',
+  note: 'note',
+  createdAt: 'createdAt'
+} as const
+
+export type CatalogRevisionScalarFieldEnum = (typeof CatalogRevisionScalarFieldEnum)[keyof typeof CatalogRevisionScalarFieldEnum]
+
+
+export const PoolContributionScalarFieldEnum = {
+  id: 'id',
+  catalogId: 'catalogId',
+  farmerId: 'farmerId',
+  quantity: 'quantity',
+  shareAmount: 'shareAmount',
+  shareAnnouncedAt: 'shareAnnouncedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type PoolContributionScalarFieldEnum = (typeof PoolContributionScalarFieldEnum)[keyof typeof PoolContributionScalarFieldEnum]
+
+
+export const BidScalarFieldEnum = {
+  id: 'id',
+  catalogId: 'catalogId',
+  farmerId: 'farmerId',
+  transactionId: 'transactionId',
+  messageId: 'messageId',
+  buyerName: 'buyerName',
+  buyerSubscriberId: 'buyerSubscriberId',
+  pricePerUnit: 'pricePerUnit',
+  catalogPrice: 'catalogPrice',
+  currency: 'currency',
+  paymentTerms: 'paymentTerms',
+  deliveryDays: 'deliveryDays',
+  validityHours: 'validityHours',
+  status: 'status',
+  revisesBidId: 'revisesBidId',
+  receivedAt: 'receivedAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type BidScalarFieldEnum = (typeof BidScalarFieldEnum)[keyof typeof BidScalarFieldEnum]
+
+
+export const OrderScalarFieldEnum = {
+  id: 'id',
+  catalogId: 'catalogId',
+  farmerId: 'farmerId',
+  bidId: 'bidId',
+  transactionId: 'transactionId',
+  buyerName: 'buyerName',
+  buyerSubscriberId: 'buyerSubscriberId',
+  pricePerUnit: 'pricePerUnit',
+  quantity: 'quantity',
+  unit: 'unit',
+  totalAmount: 'totalAmount',
+  currency: 'currency',
+  paymentTerms: 'paymentTerms',
+  deliveryDays: 'deliveryDays',
+  status: 'status',
+  confirmedAt: 'confirmedAt',
+  fulfilledAt: 'fulfilledAt',
+  cancelledAt: 'cancelledAt',
+  cancellationReasonCode: 'cancellationReasonCode',
+  cancelledBy: 'cancelledBy',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type OrderScalarFieldEnum = (typeof OrderScalarFieldEnum)[keyof typeof OrderScalarFieldEnum]
+
+
+export const FulfillmentEventScalarFieldEnum = {
+  id: 'id',
+  orderId: 'orderId',
+  state: 'state',
+  logisticsProvider: 'logisticsProvider',
+  transactionId: 'transactionId',
+  messageId: 'messageId',
+  source: 'source',
+  occurredAt: 'occurredAt',
+  createdAt: 'createdAt'
+} as const
+
+export type FulfillmentEventScalarFieldEnum = (typeof FulfillmentEventScalarFieldEnum)[keyof typeof FulfillmentEventScalarFieldEnum]
+
+
+export const IssueScalarFieldEnum = {
+  id: 'id',
+  orderId: 'orderId',
+  transactionId: 'transactionId',
+  kind: 'kind',
+  complainant: 'complainant',
+  description: 'description',
+  level: 'level',
+  status: 'status',
+  resolution: 'resolution',
+  resolutionNote: 'resolutionNote',
+  refundAmount: 'refundAmount',
+  closedAt: 'closedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type IssueScalarFieldEnum = (typeof IssueScalarFieldEnum)[keyof typeof IssueScalarFieldEnum]
+
+
+export const IssueActionScalarFieldEnum = {
+  id: 'id',
+  issueId: 'issueId',
+  party: 'party',
+  action: 'action',
+  level: 'level',
+  shortDesc: 'shortDesc',
+  source: 'source',
+  createdAt: 'createdAt'
+} as const
+
+export type IssueActionScalarFieldEnum = (typeof IssueActionScalarFieldEnum)[keyof typeof IssueActionScalarFieldEnum]
+
+
+export const BuyerScalarFieldEnum = {
+  id: 'id',
+  subscriberId: 'subscriberId',
+  name: 'name',
+  category: 'category',
+  logo: 'logo',
+  rating: 'rating',
+  location: 'location',
+  gstin: 'gstin',
+  operatingStates: 'operatingStates',
+  commodityPreferences: 'commodityPreferences',
+  dailyCapacity: 'dailyCapacity',
+  avgResponseTime: 'avgResponseTime',
+  successRate: 'successRate',
+  verified: 'verified',
+  suspended: 'suspended',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type BuyerScalarFieldEnum = (typeof BuyerScalarFieldEnum)[keyof typeof BuyerScalarFieldEnum]
+
+
+export const BidLearningStatScalarFieldEnum = {
+  id: 'id',
+  commodity: 'commodity',
+  state: 'state',
+  month: 'month',
+  bidCount: 'bidCount',
+  ratioSum: 'ratioSum',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type BidLearningStatScalarFieldEnum = (typeof BidLearningStatScalarFieldEnum)[keyof typeof BidLearningStatScalarFieldEnum]
+
+
 export const NetworkLogScalarFieldEnum = {
   id: 'id',
   type: 'type',
   payload: 'payload',
+  transactionId: 'transactionId',
+  catalogId: 'catalogId',
   timestamp: 'timestamp'
 } as const
 
@@ -714,12 +1925,12 @@ export const JsonNullValueInput = {
 export type JsonNullValueInput = (typeof JsonNullValueInput)[keyof typeof JsonNullValueInput]
 
 
-export const NullsOrder = {
-  first: 'first',
-  last: 'last'
+export const NullableJsonNullValueInput = {
+  DbNull: DbNull,
+  JsonNull: JsonNull
 } as const
 
-export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder]
+export type NullableJsonNullValueInput = (typeof NullableJsonNullValueInput)[keyof typeof NullableJsonNullValueInput]
 
 
 export const JsonNullValueFilter = {
@@ -739,6 +1950,14 @@ export const QueryMode = {
 export type QueryMode = (typeof QueryMode)[keyof typeof QueryMode]
 
 
+export const NullsOrder = {
+  first: 'first',
+  last: 'last'
+} as const
+
+export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder]
+
+
 
 /**
  * Field references
@@ -753,9 +1972,9 @@ export type StringFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel,
 
 
 /**
- * Reference to a field of type 'DateTime'
+ * Reference to a field of type 'Float'
  */
-export type DateTimeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DateTime'>
+export type FloatFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Float'>
     
 
 
@@ -774,16 +1993,16 @@ export type EnumQueryModeFieldRefInput<$PrismaModel> = FieldRefInputType<$Prisma
 
 
 /**
- * Reference to a field of type 'CatalogStatus'
+ * Reference to a field of type 'KycStatus'
  */
-export type EnumCatalogStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'CatalogStatus'>
+export type EnumKycStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'KycStatus'>
     
 
 
 /**
- * Reference to a field of type 'NetworkLogType'
+ * Reference to a field of type 'DateTime'
  */
-export type EnumNetworkLogTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'NetworkLogType'>
+export type DateTimeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DateTime'>
     
 
 
@@ -793,6 +2012,97 @@ export type EnumNetworkLogTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$P
 export type IntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int'>
     
 
+
+/**
+ * Reference to a field of type 'CatalogStatus'
+ */
+export type EnumCatalogStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'CatalogStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'BidStatus'
+ */
+export type EnumBidStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'BidStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'OrderStatus'
+ */
+export type EnumOrderStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'OrderStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'CancellationInitiator'
+ */
+export type EnumCancellationInitiatorFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'CancellationInitiator'>
+    
+
+
+/**
+ * Reference to a field of type 'FulfillmentState'
+ */
+export type EnumFulfillmentStateFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'FulfillmentState'>
+    
+
+
+/**
+ * Reference to a field of type 'IssueKind'
+ */
+export type EnumIssueKindFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'IssueKind'>
+    
+
+
+/**
+ * Reference to a field of type 'IssueParty'
+ */
+export type EnumIssuePartyFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'IssueParty'>
+    
+
+
+/**
+ * Reference to a field of type 'IssueLevel'
+ */
+export type EnumIssueLevelFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'IssueLevel'>
+    
+
+
+/**
+ * Reference to a field of type 'IssueStatus'
+ */
+export type EnumIssueStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'IssueStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'IssueActionCode'
+ */
+export type EnumIssueActionCodeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'IssueActionCode'>
+    
+
+
+/**
+ * Reference to a field of type 'BuyerCategory'
+ */
+export type EnumBuyerCategoryFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'BuyerCategory'>
+    
+
+
+/**
+ * Reference to a field of type 'Boolean'
+ */
+export type BooleanFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Boolean'>
+    
+
+
+/**
+ * Reference to a field of type 'NetworkLogType'
+ */
+export type EnumNetworkLogTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'NetworkLogType'>
+    
+
 /**
  * Batch Payload for updateMany & deleteMany & createMany
  */
@@ -889,7 +2199,20 @@ export type PrismaClientOptions = ({
 }
 export type GlobalOmitConfig = {
   farmer?: Prisma.FarmerOmit
+  fpo?: Prisma.FpoOmit
+  otpChallenge?: Prisma.OtpChallengeOmit
+  farmerSession?: Prisma.FarmerSessionOmit
+  voiceConversation?: Prisma.VoiceConversationOmit
   catalog?: Prisma.CatalogOmit
+  catalogRevision?: Prisma.CatalogRevisionOmit
+  poolContribution?: Prisma.PoolContributionOmit
+  bid?: Prisma.BidOmit
+  order?: Prisma.OrderOmit
+  fulfillmentEvent?: Prisma.FulfillmentEventOmit
+  issue?: Prisma.IssueOmit
+  issueAction?: Prisma.IssueActionOmit
+  buyer?: Prisma.BuyerOmit
+  bidLearningStat?: Prisma.BidLearningStatOmit
   networkLog?: Prisma.NetworkLogOmit
 }
 
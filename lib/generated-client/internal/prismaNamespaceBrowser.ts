@@ -52,7 +52,20 @@ export const AnyNull = runtime.AnyNull
 
 export const ModelName = {
   Farmer: 'Farmer',
+  Fpo: 'Fpo',
+  OtpChallenge: 'OtpChallenge',
+  FarmerSession: 'FarmerSession',
+  VoiceConversation: 'VoiceConversation',
   Catalog: 'Catalog',
+  CatalogRevision: 'CatalogRevision',
+  PoolContribution: 'PoolContribution',
+  Bid: 'Bid',
+  Order: 'Order',
+  FulfillmentEvent: 'FulfillmentEvent',
+  Issue: 'Issue',
+  IssueAction: 'IssueAction',
+  Buyer: 'Buyer',
+  BidLearningStat: 'BidLearningStat',
   NetworkLog: 'NetworkLog'
 } as const
 
@@ -72,9 +85,21 @@ export type TransactionIsolationLevel = (typeof TransactionIsolationLevel)[keyof
 export const FarmerScalarFieldEnum = {
   id: 'id',
   name: 'name',
+  phone: 'phone',
   locationLatLong: 'locationLatLong',
+  village: 'village',
+  district: 'district',
+  state: 'state',
+  landholdingAcres: 'landholdingAcres',
+  crops: 'crops',
+  preferredMandis: 'preferredMandis',
   languagePref: 'languagePref',
   upiId: 'upiId',
+  bankAccountName: 'bankAccountName',
+  bankAccountNumber: 'bankAccountNumber',
+  bankIfsc: 'bankIfsc',
+  kycStatus: 'kycStatus',
+  fpoId: 'fpoId',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -82,11 +107,68 @@ export const FarmerScalarFieldEnum = {
 export type FarmerScalarFieldEnum = (typeof FarmerScalarFieldEnum)[keyof typeof FarmerScalarFieldEnum]
 
 
+export const FpoScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  providerId: 'providerId',
+  state: 'state',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type FpoScalarFieldEnum = (typeof FpoScalarFieldEnum)[keyof typeof FpoScalarFieldEnum]
+
+
+export const OtpChallengeScalarFieldEnum = {
+  id: 'id',
+  phone: 'phone',
+  codeHash: 'codeHash',
+  attempts: 'attempts',
+  expiresAt: 'expiresAt',
+  consumedAt: 'consumedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type OtpChallengeScalarFieldEnum = (typeof OtpChallengeScalarFieldEnum)[keyof typeof OtpChallengeScalarFieldEnum]
+
+
+export const FarmerSessionScalarFieldEnum = {
+  id: 'id',
+  farmerId: 'farmerId',
+  tokenHash: 'tokenHash',
+  expiresAt: 'expiresAt',
+  createdAt: 'createdAt'
+} as const
+
+export type FarmerSessionScalarFieldEnum = (typeof FarmerSessionScalarFieldEnum)[keyof typeof FarmerSessionScalarFieldEnum]
+
+
+export const VoiceConversationScalarFieldEnum = {
+  id: 'id',
+  farmerId: 'farmerId',
+  languageCode: 'languageCode',
+  stage: 'stage',
+  collectedData: 'collectedData',
+  priceSuggestion: 'priceSuggestion',
+  catalogItem: 'catalogItem',
+  transcript: 'transcript',
+  endedAt: 'endedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type VoiceConversationScalarFieldEnum = (typeof VoiceConversationScalarFieldEnum)[keyof typeof VoiceConversationScalarFieldEnum]
+
+
 export const CatalogScalarFieldEnum = {
   id: 'id',
   farmerId: 'farmerId',
   becknJson: 'becknJson',
   status: 'status',
+  version: 'version',
+  expiresAt: 'expiresAt',
+  relistPromptedAt: 'relistPromptedAt',
+  fpoId: 'fpoId',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -94,10 +176,177 @@ export const CatalogScalarFieldEnum = {
 export type CatalogScalarFieldEnum = (typeof CatalogScalarFieldEnum)[keyof typeof CatalogScalarFieldEnum]
 
 
+export const CatalogRevisionScalarFieldEnum = {
+  id: 'id',
+  catalogId: 'catalogId',
+  version: 'version',
+  becknJson: 'becknJson',
+  changes: 'changes',
+  changedBy: 'changedBy',
+  note: 'note',
+  createdAt: 'createdAt'
+} as const
+
+export type CatalogRevisionScalarFieldEnum = (typeof CatalogRevisionScalarFieldEnum)[keyof typeof CatalogRevisionScalarFieldEnum]
+
+
+export const PoolContributionScalarFieldEnum = {
+  id: 'id',
+  catalogId: 'catalogId',
+  farmerId: 'farmerId',
+  quantity: 'quantity',
+  shareAmount: 'shareAmount',
+  shareAnnouncedAt: 'shareAnnouncedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type PoolContributionScalarFieldEnum = (typeof PoolContributionScalarFieldEnum)[keyof typeof PoolContributionScalarFieldEnum]
+
+
+export const BidScalarFieldEnum = {
+  id: 'id',
+  catalogId: 'catalogId',
+  farmerId: 'farmerId',
+  transactionId: 'transactionId',
+  messageId: 'messageId',
+  buyerName: 'buyerName',
+  buyerSubscriberId: 'buyerSubscriberId',
+  pricePerUnit: 'pricePerUnit',
+  catalogPrice: 'catalogPrice',
+  currency: 'currency',
+  paymentTerms: 'paymentTerms',
+  deliveryDays: 'deliveryDays',
+  validityHours: 'validityHours',
+  status: 'status',
+  revisesBidId: 'revisesBidId',
+  receivedAt: 'receivedAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type BidScalarFieldEnum = (typeof BidScalarFieldEnum)[keyof typeof BidScalarFieldEnum]
+
+
+export const OrderScalarFieldEnum = {
+  id: 'id',
+  catalogId: 'catalogId',
+  farmerId: 'farmerId',
+  bidId: 'bidId',
+  transactionId: 'transactionId',
+  buyerName: 'buyerName',
+  buyerSubscriberId: 'buyerSubscriberId',
+  pricePerUnit: 'pricePerUnit',
+  quantity: 'quantity',
+  unit: 'unit',
+  totalAmount: 'totalAmount',
+  currency: 'currency',
+  paymentTerms: 'paymentTerms',
+  deliveryDays: 'deliveryDays',
+  status: 'status',
+  confirmedAt: 'confirmedAt',
+  fulfilledAt: 'fulfilledAt',
+  cancelledAt: 'cancelledAt',
+  cancellationReasonCode: 'cancellationReasonCode',
+  cancelledBy: 'cancelledBy',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type OrderScalarFieldEnum = (typeof OrderScalarFieldEnum)[keyof typeof OrderScalarFieldEnum]
+
+
+export const FulfillmentEventScalarFieldEnum = {
+  id: 'id',
+  orderId: 'orderId',
+  state: 'state',
+  logisticsProvider: 'logisticsProvider',
+  transactionId: 'transactionId',
+  messageId: 'messageId',
+  source: 'source',
+  occurredAt: 'occurredAt',
+  createdAt: 'createdAt'
+} as const
+
+export type FulfillmentEventScalarFieldEnum = (typeof FulfillmentEventScalarFieldEnum)[keyof typeof FulfillmentEventScalarFieldEnum]
+
+
+export const IssueScalarFieldEnum = {
+  id: 'id',
+  orderId: 'orderId',
+  transactionId: 'transactionId',
+  kind: 'kind',
+  complainant: 'complainant',
+  description: 'description',
+  level: 'level',
+  status: 'status',
+  resolution: 'resolution',
+  resolutionNote: 'resolutionNote',
+  refundAmount: 'refundAmount',
+  closedAt: 'closedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type IssueScalarFieldEnum = (typeof IssueScalarFieldEnum)[keyof typeof IssueScalarFieldEnum]
+
+
+export const IssueActionScalarFieldEnum = {
+  id: 'id',
+  issueId: 'issueId',
+  party: 'party',
+  action: 'action',
+  level: 'level',
+  shortDesc: 'shortDesc',
+  source: 'source',
+  createdAt: 'createdAt'
+} as const
+
+export type IssueActionScalarFieldEnum = (typeof IssueActionScalarFieldEnum)[keyof typeof IssueActionScalarFieldEnum]
+
+
+export const BuyerScalarFieldEnum = {
+  id: 'id',
+  subscriberId: 'subscriberId',
+  name: 'name',
+  category: 'category',
+  logo: 'logo',
+  rating: 'rating',
+  location: 'location',
+  gstin: 'gstin',
+  operatingStates: 'operatingStates',
+  commodityPreferences: 'commodityPreferences',
+  dailyCapacity: 'dailyCapacity',
+  avgResponseTime: 'avgResponseTime',
+  successRate: 'successRate',
+  verified: 'verified',
+  suspended: 'suspended',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type BuyerScalarFieldEnum = (typeof BuyerScalarFieldEnum)[keyof typeof BuyerScalarFieldEnum]
+
+
+export const BidLearningStatScalarFieldEnum = {
+  id: 'id',
+  commodity: 'commodity',
+  state: 'state',
+  month: 'month',
+  bidCount: 'bidCount',
+  ratioSum: 'ratioSum',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type BidLearningStatScalarFieldEnum = (typeof BidLearningStatScalarFieldEnum)[keyof typeof BidLearningStatScalarFieldEnum]
+
+
 export const NetworkLogScalarFieldEnum = {
   id: 'id',
   type: 'type',
   payload: 'payload',
+  transactionId: 'transactionId',
+  catalogId: 'catalogId',
   timestamp: 'timestamp'
 } as const
 
@@ -119,12 +368,12 @@ export const JsonNullValueInput = {
 export type JsonNullValueInput = (typeof JsonNullValueInput)[keyof typeof JsonNullValueInput]
 
 
-export const NullsOrder = {
-  first: 'first',
-  last: 'last'
+export const NullableJsonNullValueInput = {
+  DbNull: DbNull,
+  JsonNull: JsonNull
 } as const
 
-export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder]
+export type NullableJsonNullValueInput = (typeof NullableJsonNullValueInput)[keyof typeof NullableJsonNullValueInput]
 
 
 export const JsonNullValueFilter = {
@@ -143,3 +392,11 @@ export const QueryMode = {
 
 export type QueryMode = (typeof QueryMode)[keyof typeof QueryMode]
 
+
+export const NullsOrder = {
+  first: 'first',
+  last: 'last'
+} as const
+
+export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder]
+
@@ -9,6 +9,19 @@
  * 🟢 You can import this file directly.
  */
 export type * from './models/Farmer'
+export type * from './models/Fpo'
+export type * from './models/OtpChallenge'
+export type * from './models/FarmerSession'
+export type * from './models/VoiceConversation'
 export type * from './models/Catalog'
+export type * from './models/CatalogRevision'
+export type * from './models/PoolContribution'
+export type * from './models/Bid'
+export type * from './models/Order'
+export type * from './models/FulfillmentEvent'
+export type * from './models/Issue'
+export type * from './models/IssueAction'
+export type * from './models/Buyer'
+export type * from './models/BidLearningStat'
 export type * from './models/NetworkLog'
 export type * from './commonInputTypes'
\ No newline at end of file
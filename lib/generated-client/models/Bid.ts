@@ -0,0 +1,2614 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `Bid` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model Bid
+ * 
+ */
+export type BidModel = runtime.Types.Result.DefaultSelection<Prisma.$BidPayload>
+
+export type AggregateBid = {
+  _count: BidCountAggregateOutputType | null
+  _avg: BidAvgAggregateOutputType | null
+  _sum: BidSumAggregateOutputType | null
+  _min: BidMinAggregateOutputType | null
+  _max: BidMaxAggregateOutputType | null
+}
+
+export type BidAvgAggregateOutputType = {
+  pricePerUnit: number | null
+  catalogPrice: number | null
+  deliveryDays: number | null
+  validityHours: number | null
+}
+
+export type BidSumAggregateOutputType = {
+  pricePerUnit: number | null
+  catalogPrice: number | null
+  deliveryDays: number | null
+  validityHours: number | null
+}
+
+export type BidMinAggregateOutputType = {
+  id: string | null
+  catalogId: string | null
+  farmerId: string | null
+  transactionId: string | null
+  messageId: string | null
+  buyerName: string | null
+  buyerSubscriberId: string | null
+  pricePerUnit: number | null
+  catalogPrice: number | null
+  currency: string | null
+  paymentTerms: string | null
+  deliveryDays: number | null
+  validityHours: number | null
+  status: $Enums.BidStatus | null
+  revisesBidId: string | null
+  receivedAt: Date | null
+  updatedAt: Date | null
+}
+
+export type BidMaxAggregateOutputType = {
+  id: string | null
+  catalogId: string | null
+  farmerId: string | null
+  transactionId: string | null
+  messageId: string | null
+  buyerName: string | null
+  buyerSubscriberId: string | null
+  pricePerUnit: number | null
+  catalogPrice: number | null
+  currency: string | null
+  paymentTerms: string | null
+  deliveryDays: number | null
+  validityHours: number | null
+  status: $Enums.BidStatus | null
+  revisesBidId: string | null
+  receivedAt: Date | null
+  updatedAt: Date | null
+}
+
+export type BidCountAggregateOutputType = {
+  id: number
+  catalogId: number
+  farmerId: number
+  transactionId: number
+  messageId: number
+  buyerName: number
+  buyerSubscriberId: number
+  pricePerUnit: number
+  catalogPrice: number
+  currency: number
+  paymentTerms: number
+  deliveryDays: number
+  validityHours: number
+  status: number
+  revisesBidId: number
+  receivedAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type BidAvgAggregateInputType = {
+  pricePerUnit?: true
+  catalogPrice?: true
+  deliveryDays?: true
+  validityHours?: true
+}
+
+export type BidSumAggregateInputType = {
+  pricePerUnit?: true
+  catalogPrice?: true
+  deliveryDays?: true
+  validityHours?: true
+}
+
+export type BidMinAggregateInputType = {
+  id?: true
+  catalogId?: true
+  farmerId?: true
+  transactionId?: true
+  messageId?: true
+  buyerName?: true
+  buyerSubscriberId?: true
+  pricePerUnit?: true
+  catalogPrice?: true
+  currency?: true
+  paymentTerms?: true
+  deliveryDays?: true
+  validityHours?: true
+  status?: true
+  revisesBidId?: true
+  receivedAt?: true
+  updatedAt?: true
+}
+
+export type BidMaxAggregateInputType = {
+  id?: true
+  catalogId?: true
+  farmerId?: true
+  transactionId?: true
+  messageId?: true
+  buyerName?: true
+  buyerSubscriberId?: true
+  pricePerUnit?: true
+  catalogPrice?: true
+  currency?: true
+  paymentTerms?: true
+  deliveryDays?: true
+  validityHours?: true
+  status?: true
+  revisesBidId?: true
+  receivedAt?: true
+  updatedAt?: true
+}
+
+export type BidCountAggregateInputType = {
+  id?: true
+  catalogId?: true
+  farmerId?: true
+  transactionId?: true
+  messageId?: true
+  buyerName?: true
+  buyerSubscriberId?: true
+  pricePerUnit?: true
+  catalogPrice?: true
+  currency?: true
+  paymentTerms?: true
+  deliveryDays?: true
+  validityHours?: true
+  status?: true
+  revisesBidId?: true
+  receivedAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type BidAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Bid to aggregate.
+   */
+  where?: Prisma.BidWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Bids to fetch.
+   */
+  orderBy?: Prisma.BidOrderByWithRelationInput | Prisma.BidOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.BidWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Bids from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Bids.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Bids
+  **/
+  _count?: true | BidCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: BidAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: BidSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: BidMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: BidMaxAggregateInputType
+}
+
+export type GetBidAggregateType<T extends BidAggregateArgs> = {
+      [P in keyof T & keyof AggregateBid]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateBid[P]>
+    : Prisma.GetScalarType<T[P], AggregateBid[P]>
+}
+
+
+
+
+export type BidGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BidWhereInput
+  orderBy?: Prisma.BidOrderByWithAggregationInput | Prisma.BidOrderByWithAggregationInput[]
+  by: Prisma.BidScalarFieldEnum[] | Prisma.BidScalarFieldEnum
+  having?: Prisma.BidScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: BidCountAggregateInputType | true
+  _avg?: BidAvgAggregateInputType
+  _sum?: BidSumAggregateInputType
+  _min?: BidMinAggregateInputType
+  _max?: BidMaxAggregateInputType
+}
+
+export type BidGroupByOutputType = {
+  id: string
+  catalogId: string
+  farmerId: string
+  transactionId: string | null
+  messageId: string | null
+  buyerName: string
+  buyerSubscriberId: string | null
+  pricePerUnit: number
+  catalogPrice: number | null
+  currency: string
+  paymentTerms: string | null
+  deliveryDays: number | null
+  validityHours: number | null
+  status: $Enums.BidStatus
+  revisesBidId: string | null
+  receivedAt: Date
+  updatedAt: Date
+  _count: BidCountAggregateOutputType | null
+  _avg: BidAvgAggregateOutputType | null
+  _sum: BidSumAggregateOutputType | null
+  _min: BidMinAggregateOutputType | null
+  _max: BidMaxAggregateOutputType | null
+}
+
+type GetBidGroupByPayload<T extends BidGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<BidGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof BidGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], BidGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], BidGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type BidWhereInput = {
+  AND?: Prisma.BidWhereInput | Prisma.BidWhereInput[]
+  OR?: Prisma.BidWhereInput[]
+  NOT?: Prisma.BidWhereInput | Prisma.BidWhereInput[]
+  id?: Prisma.StringFilter<"Bid"> | string
+  catalogId?: Prisma.StringFilter<"Bid"> | string
+  farmerId?: Prisma.StringFilter<"Bid"> | string
+  transactionId?: Prisma.StringNullableFilter<"Bid"> | string | null
+  messageId?: Prisma.StringNullableFilter<"Bid"> | string | null
+  buyerName?: Prisma.StringFilter<"Bid"> | string
+  buyerSubscriberId?: Prisma.StringNullableFilter<"Bid"> | string | null
+  pricePerUnit?: Prisma.FloatFilter<"Bid"> | number
+  catalogPrice?: Prisma.FloatNullableFilter<"Bid"> | number | null
+  currency?: Prisma.StringFilter<"Bid"> | string
+  paymentTerms?: Prisma.StringNullableFilter<"Bid"> | string | null
+  deliveryDays?: Prisma.IntNullableFilter<"Bid"> | number | null
+  validityHours?: Prisma.IntNullableFilter<"Bid"> | number | null
+  status?: Prisma.EnumBidStatusFilter<"Bid"> | $Enums.BidStatus
+  revisesBidId?: Prisma.StringNullableFilter<"Bid"> | string | null
+  receivedAt?: Prisma.DateTimeFilter<"Bid"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Bid"> | Date | string
+  catalog?: Prisma.XOR<Prisma.CatalogScalarRelationFilter, Prisma.CatalogWhereInput>
+  farmer?: Prisma.XOR<Prisma.FarmerScalarRelationFilter, Prisma.FarmerWhereInput>
+  revises?: Prisma.XOR<Prisma.BidNullableScalarRelationFilter, Prisma.BidWhereInput> | null
+  revisions?: Prisma.BidListRelationFilter
+  orders?: Prisma.OrderListRelationFilter
+}
+
+export type BidOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  catalogId?: Prisma.SortOrder
+  farmerId?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrderInput | Prisma.SortOrder
+  messageId?: Prisma.SortOrderInput | Prisma.SortOrder
+  buyerName?: Prisma.SortOrder
+  buyerSubscriberId?: Prisma.SortOrderInput | Prisma.SortOrder
+  pricePerUnit?: Prisma.SortOrder
+  catalogPrice?: Prisma.SortOrderInput | Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  paymentTerms?: Prisma.SortOrderInput | Prisma.SortOrder
+  deliveryDays?: Prisma.SortOrderInput | Prisma.SortOrder
+  validityHours?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  revisesBidId?: Prisma.SortOrderInput | Prisma.SortOrder
+  receivedAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  catalog?: Prisma.CatalogOrderByWithRelationInput
+  farmer?: Prisma.FarmerOrderByWithRelationInput
+  revises?: Prisma.BidOrderByWithRelationInput
+  revisions?: Prisma.BidOrderByRelationAggregateInput
+  orders?: Prisma.OrderOrderByRelationAggregateInput
+}
+
+export type BidWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  catalogId_transactionId_buyerSubscriberId_messageId?: Prisma.BidCatalogIdTransactionIdBuyerSubscriberIdMessageIdCompoundUniqueInput
+  AND?: Prisma.BidWhereInput | Prisma.BidWhereInput[]
+  OR?: Prisma.BidWhereInput[]
+  NOT?: Prisma.BidWhereInput | Prisma.BidWhereInput[]
+  catalogId?: Prisma.StringFilter<"Bid"> | string
+  farmerId?: Prisma.StringFilter<"Bid"> | string
+  transactionId?: Prisma.StringNullableFilter<"Bid"> | string | null
+  messageId?: Prisma.StringNullableFilter<"Bid"> | string | null
+  buyerName?: Prisma.StringFilter<"Bid"> | string
+  buyerSubscriberId?: Prisma.StringNullableFilter<"Bid"> | string | null
+  pricePerUnit?: Prisma.FloatFilter<"Bid"> | number
+  catalogPrice?: Prisma.FloatNullableFilter<"Bid"> | number | null
+  currency?: Prisma.StringFilter<"Bid"> | string
+  paymentTerms?: Prisma.StringNullableFilter<"Bid"> | string | null
+  deliveryDays?: Prisma.IntNullableFilter<"Bid"> | number | null
+  validityHours?: Prisma.IntNullableFilter<"Bid"> | number | null
+  status?: Prisma.EnumBidStatusFilter<"Bid"> | $Enums.BidStatus
+  revisesBidId?: Prisma.StringNullableFilter<"Bid"> | string | null
+  receivedAt?: Prisma.DateTimeFilter<"Bid"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Bid"> | Date | string
+  catalog?: Prisma.XOR<Prisma.CatalogScalarRelationFilter, Prisma.CatalogWhereInput>
+  farmer?: Prisma.XOR<Prisma.FarmerScalarRelationFilter, Prisma.FarmerWhereInput>
+  revises?: Prisma.XOR<Prisma.BidNullableScalarRelationFilter, Prisma.BidWhereInput> | null
+  revisions?: Prisma.BidListRelationFilter
+  orders?: Prisma.OrderListRelationFilter
+}, "id" | "catalogId_transactionId_buyerSubscriberId_messageId">
+
+export type BidOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  catalogId?: Prisma.SortOrder
+  farmerId?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrderInput | Prisma.SortOrder
+  messageId?: Prisma.SortOrderInput | Prisma.SortOrder
+  buyerName?: Prisma.SortOrder
+  buyerSubscriberId?: Prisma.SortOrderInput | Prisma.SortOrder
+  pricePerUnit?: Prisma.SortOrder
+  catalogPrice?: Prisma.SortOrderInput | Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  paymentTerms?: Prisma.SortOrderInput | Prisma.SortOrder
+  deliveryDays?: Prisma.SortOrderInput | Prisma.SortOrder
+  validityHours?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  revisesBidId?: Prisma.SortOrderInput | Prisma.SortOrder
+  receivedAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.BidCountOrderByAggregateInput
+  _avg?: Prisma.BidAvgOrderByAggregateInput
+  _max?: Prisma.BidMaxOrderByAggregateInput
+  _min?: Prisma.BidMinOrderByAggregateInput
+  _sum?: Prisma.BidSumOrderByAggregateInput
+}
+
+export type BidScalarWhereWithAggregatesInput = {
+  AND?: Prisma.BidScalarWhereWithAggregatesInput | Prisma.BidScalarWhereWithAggregatesInput[]
+  OR?: Prisma.BidScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.BidScalarWhereWithAggregatesInput | Prisma.BidScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"Bid"> | string
+  catalogId?: Prisma.StringWithAggregatesFilter<"Bid"> | string
+  farmerId?: Prisma.StringWithAggregatesFilter<"Bid"> | string
+  transactionId?: Prisma.StringNullableWithAggregatesFilter<"Bid"> | string | null
+  messageId?: Prisma.StringNullableWithAggregatesFilter<"Bid"> | string | null
+  buyerName?: Prisma.StringWithAggregatesFilter<"Bid"> | string
+  buyerSubscriberId?: Prisma.StringNullableWithAggregatesFilter<"Bid"> | string | null
+  pricePerUnit?: Prisma.FloatWithAggregatesFilter<"Bid"> | number
+  catalogPrice?: Prisma.FloatNullableWithAggregatesFilter<"Bid"> | number | null
+  currency?: Prisma.StringWithAggregatesFilter<"Bid"> | string
+  paymentTerms?: Prisma.StringNullableWithAggregatesFilter<"Bid"> | string | null
+  deliveryDays?: Prisma.IntNullableWithAggregatesFilter<"Bid"> | number | null
+  validityHours?: Prisma.IntNullableWithAggregatesFilter<"Bid"> | number | null
+  status?: Prisma.EnumBidStatusWithAggregatesFilter<"Bid"> | $Enums.BidStatus
+  revisesBidId?: Prisma.StringNullableWithAggregatesFilter<"Bid"> | string | null
+  receivedAt?: Prisma.DateTimeWithAggregatesFilter<"Bid"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Bid"> | Date | string
+}
+
+export type BidCreateInput = {
+  id?: string
+  transactionId?: string | null
+  messageId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  catalogPrice?: number | null
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  validityHours?: number | null
+  status?: $Enums.BidStatus
+  receivedAt?: Date | string
+  updatedAt?: Date | string
+  catalog: Prisma.CatalogCreateNestedOneWithoutBidsInput
+  farmer: Prisma.FarmerCreateNestedOneWithoutBidsInput
+  revises?: Prisma.BidCreateNestedOneWithoutRevisionsInput
+  revisions?: Prisma.BidCreateNestedManyWithoutRevisesInput
+  orders?: Prisma.OrderCreateNestedManyWithoutBidInput
+}
+
+export type BidUncheckedCreateInput = {
+  id?: string
+  catalogId: string
+  farmerId: string
+  transactionId?: string | null
+  messageId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  catalogPrice?: number | null
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  validityHours?: number | null
+  status?: $Enums.BidStatus
+  revisesBidId?: string | null
+  receivedAt?: Date | string
+  updatedAt?: Date | string
+  revisions?: Prisma.BidUncheckedCreateNestedManyWithoutRevisesInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutBidInput
+}
+
+export type BidUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  catalogPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validityHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumBidStatusFieldUpdateOperationsInput | $Enums.BidStatus
+  receivedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  catalog?: Prisma.CatalogUpdateOneRequiredWithoutBidsNestedInput
+  farmer?: Prisma.FarmerUpdateOneRequiredWithoutBidsNestedInput
+  revises?: Prisma.BidUpdateOneWithoutRevisionsNestedInput
+  revisions?: Prisma.BidUpdateManyWithoutRevisesNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutBidNestedInput
+}
+
+export type BidUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  catalogId?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  catalogPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validityHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumBidStatusFieldUpdateOperationsInput | $Enums.BidStatus
+  revisesBidId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  receivedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revisions?: Prisma.BidUncheckedUpdateManyWithoutRevisesNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutBidNestedInput
+}
+
+export type BidCreateManyInput = {
+  id?: string
+  catalogId: string
+  farmerId: string
+  transactionId?: string | null
+  messageId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  catalogPrice?: number | null
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  validityHours?: number | null
+  status?: $Enums.BidStatus
+  revisesBidId?: string | null
+  receivedAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BidUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  catalogPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validityHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumBidStatusFieldUpdateOperationsInput | $Enums.BidStatus
+  receivedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BidUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  catalogId?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  catalogPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validityHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumBidStatusFieldUpdateOperationsInput | $Enums.BidStatus
+  revisesBidId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  receivedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BidListRelationFilter = {
+  every?: Prisma.BidWhereInput
+  some?: Prisma.BidWhereInput
+  none?: Prisma.BidWhereInput
+}
+
+export type BidOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type BidNullableScalarRelationFilter = {
+  is?: Prisma.BidWhereInput | null
+  isNot?: Prisma.BidWhereInput | null
+}
+
+export type BidCatalogIdTransactionIdBuyerSubscriberIdMessageIdCompoundUniqueInput = {
+  catalogId: string
+  transactionId: string
+  buyerSubscriberId: string
+  messageId: string
+}
+
+export type BidCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  catalogId?: Prisma.SortOrder
+  farmerId?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  messageId?: Prisma.SortOrder
+  buyerName?: Prisma.SortOrder
+  buyerSubscriberId?: Prisma.SortOrder
+  pricePerUnit?: Prisma.SortOrder
+  catalogPrice?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  paymentTerms?: Prisma.SortOrder
+  deliveryDays?: Prisma.SortOrder
+  validityHours?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  revisesBidId?: Prisma.SortOrder
+  receivedAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BidAvgOrderByAggregateInput = {
+  pricePerUnit?: Prisma.SortOrder
+  catalogPrice?: Prisma.SortOrder
+  deliveryDays?: Prisma.SortOrder
+  validityHours?: Prisma.SortOrder
+}
+
+export type BidMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  catalogId?: Prisma.SortOrder
+  farmerId?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  messageId?: Prisma.SortOrder
+  buyerName?: Prisma.SortOrder
+  buyerSubscriberId?: Prisma.SortOrder
+  pricePerUnit?: Prisma.SortOrder
+  catalogPrice?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  paymentTerms?: Prisma.SortOrder
+  deliveryDays?: Prisma.SortOrder
+  validityHours?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  revisesBidId?: Prisma.SortOrder
+  receivedAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BidMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  catalogId?: Prisma.SortOrder
+  farmerId?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  messageId?: Prisma.SortOrder
+  buyerName?: Prisma.SortOrder
+  buyerSubscriberId?: Prisma.SortOrder
+  pricePerUnit?: Prisma.SortOrder
+  catalogPrice?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  paymentTerms?: Prisma.SortOrder
+  deliveryDays?: Prisma.SortOrder
+  validityHours?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  revisesBidId?: Prisma.SortOrder
+  receivedAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BidSumOrderByAggregateInput = {
+  pricePerUnit?: Prisma.SortOrder
+  catalogPrice?: Prisma.SortOrder
+  deliveryDays?: Prisma.SortOrder
+  validityHours?: Prisma.SortOrder
+}
+
+export type BidScalarRelationFilter = {
+  is?: Prisma.BidWhereInput
+  isNot?: Prisma.BidWhereInput
+}
+
+export type BidCreateNestedManyWithoutFarmerInput = {
+  create?: Prisma.XOR<Prisma.BidCreateWithoutFarmerInput, Prisma.BidUncheckedCreateWithoutFarmerInput> | Prisma.BidCreateWithoutFarmerInput[] | Prisma.BidUncheckedCreateWithoutFarmerInput[]
+  connectOrCreate?: Prisma.BidCreateOrConnectWithoutFarmerInput | Prisma.BidCreateOrConnectWithoutFarmerInput[]
+  createMany?: Prisma.BidCreateManyFarmerInputEnvelope
+  connect?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+}
+
+export type BidUncheckedCreateNestedManyWithoutFarmerInput = {
+  create?: Prisma.XOR<Prisma.BidCreateWithoutFarmerInput, Prisma.BidUncheckedCreateWithoutFarmerInput> | Prisma.BidCreateWithoutFarmerInput[] | Prisma.BidUncheckedCreateWithoutFarmerInput[]
+  connectOrCreate?: Prisma.BidCreateOrConnectWithoutFarmerInput | Prisma.BidCreateOrConnectWithoutFarmerInput[]
+  createMany?: Prisma.BidCreateManyFarmerInputEnvelope
+  connect?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+}
+
+export type BidUpdateManyWithoutFarmerNestedInput = {
+  create?: Prisma.XOR<Prisma.BidCreateWithoutFarmerInput, Prisma.BidUncheckedCreateWithoutFarmerInput> | Prisma.BidCreateWithoutFarmerInput[] | Prisma.BidUncheckedCreateWithoutFarmerInput[]
+  connectOrCreate?: Prisma.BidCreateOrConnectWithoutFarmerInput | Prisma.BidCreateOrConnectWithoutFarmerInput[]
+  upsert?: Prisma.BidUpsertWithWhereUniqueWithoutFarmerInput | Prisma.BidUpsertWithWhereUniqueWithoutFarmerInput[]
+  createMany?: Prisma.BidCreateManyFarmerInputEnvelope
+  set?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+  disconnect?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+  delete?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+  connect?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+  update?: Prisma.BidUpdateWithWhereUniqueWithoutFarmerInput | Prisma.BidUpdateWithWhereUniqueWithoutFarmerInput[]
+  updateMany?: Prisma.BidUpdateManyWithWhereWithoutFarmerInput | Prisma.BidUpdateManyWithWhereWithoutFarmerInput[]
+  deleteMany?: Prisma.BidScalarWhereInput | Prisma.BidScalarWhereInput[]
+}
+
+export type BidUncheckedUpdateManyWithoutFarmerNestedInput = {
+  create?: Prisma.XOR<Prisma.BidCreateWithoutFarmerInput, Prisma.BidUncheckedCreateWithoutFarmerInput> | Prisma.BidCreateWithoutFarmerInput[] | Prisma.BidUncheckedCreateWithoutFarmerInput[]
+  connectOrCreate?: Prisma.BidCreateOrConnectWithoutFarmerInput | Prisma.BidCreateOrConnectWithoutFarmerInput[]
+  upsert?: Prisma.BidUpsertWithWhereUniqueWithoutFarmerInput | Prisma.BidUpsertWithWhereUniqueWithoutFarmerInput[]
+  createMany?: Prisma.BidCreateManyFarmerInputEnvelope
+  set?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+  disconnect?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+  delete?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+  connect?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+  update?: Prisma.BidUpdateWithWhereUniqueWithoutFarmerInput | Prisma.BidUpdateWithWhereUniqueWithoutFarmerInput[]
+  updateMany?: Prisma.BidUpdateManyWithWhereWithoutFarmerInput | Prisma.BidUpdateManyWithWhereWithoutFarmerInput[]
+  deleteMany?: Prisma.BidScalarWhereInput | Prisma.BidScalarWhereInput[]
+}
+
+export type BidCreateNestedManyWithoutCatalogInput = {
+  create?: Prisma.XOR<Prisma.BidCreateWithoutCatalogInput, Prisma.BidUncheckedCreateWithoutCatalogInput> | Prisma.BidCreateWithoutCatalogInput[] | Prisma.BidUncheckedCreateWithoutCatalogInput[]
+  connectOrCreate?: Prisma.BidCreateOrConnectWithoutCatalogInput | Prisma.BidCreateOrConnectWithoutCatalogInput[]
+  createMany?: Prisma.BidCreateManyCatalogInputEnvelope
+  connect?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+}
+
+export type BidUncheckedCreateNestedManyWithoutCatalogInput = {
+  create?: Prisma.XOR<Prisma.BidCreateWithoutCatalogInput, Prisma.BidUncheckedCreateWithoutCatalogInput> | Prisma.BidCreateWithoutCatalogInput[] | Prisma.BidUncheckedCreateWithoutCatalogInput[]
+  connectOrCreate?: Prisma.BidCreateOrConnectWithoutCatalogInput | Prisma.BidCreateOrConnectWithoutCatalogInput[]
+  createMany?: Prisma.BidCreateManyCatalogInputEnvelope
+  connect?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+}
+
+export type BidUpdateManyWithoutCatalogNestedInput = {
+  create?: Prisma.XOR<Prisma.BidCreateWithoutCatalogInput, Prisma.BidUncheckedCreateWithoutCatalogInput> | Prisma.BidCreateWithoutCatalogInput[] | Prisma.BidUncheckedCreateWithoutCatalogInput[]
+  connectOrCreate?: Prisma.BidCreateOrConnectWithoutCatalogInput | Prisma.BidCreateOrConnectWithoutCatalogInput[]
+  upsert?: Prisma.BidUpsertWithWhereUniqueWithoutCatalogInput | Prisma.BidUpsertWithWhereUniqueWithoutCatalogInput[]
+  createMany?: Prisma.BidCreateManyCatalogInputEnvelope
+  set?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+  disconnect?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+  delete?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+  connect?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+  update?: Prisma.BidUpdateWithWhereUniqueWithoutCatalogInput | Prisma.BidUpdateWithWhereUniqueWithoutCatalogInput[]
+  updateMany?: Prisma.BidUpdateManyWithWhereWithoutCatalogInput | Prisma.BidUpdateManyWithWhereWithoutCatalogInput[]
+  deleteMany?: Prisma.BidScalarWhereInput | Prisma.BidScalarWhereInput[]
+}
+
+export type BidUncheckedUpdateManyWithoutCatalogNestedInput = {
+  create?: Prisma.XOR<Prisma.BidCreateWithoutCatalogInput, Prisma.BidUncheckedCreateWithoutCatalogInput> | Prisma.BidCreateWithoutCatalogInput[] | Prisma.BidUncheckedCreateWithoutCatalogInput[]
+  connectOrCreate?: Prisma.BidCreateOrConnectWithoutCatalogInput | Prisma.BidCreateOrConnectWithoutCatalogInput[]
+  upsert?: Prisma.BidUpsertWithWhereUniqueWithoutCatalogInput | Prisma.BidUpsertWithWhereUniqueWithoutCatalogInput[]
+  createMany?: Prisma.BidCreateManyCatalogInputEnvelope
+  set?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+  disconnect?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+  delete?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+  connect?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+  update?: Prisma.BidUpdateWithWhereUniqueWithoutCatalogInput | Prisma.BidUpdateWithWhereUniqueWithoutCatalogInput[]
+  updateMany?: Prisma.BidUpdateManyWithWhereWithoutCatalogInput | Prisma.BidUpdateManyWithWhereWithoutCatalogInput[]
+  deleteMany?: Prisma.BidScalarWhereInput | Prisma.BidScalarWhereInput[]
+}
+
+export type BidCreateNestedOneWithoutRevisionsInput = {
+  create?: Prisma.XOR<Prisma.BidCreateWithoutRevisionsInput, Prisma.BidUncheckedCreateWithoutRevisionsInput>
+  connectOrCreate?: Prisma.BidCreateOrConnectWithoutRevisionsInput
+  connect?: Prisma.BidWhereUniqueInput
+}
+
+export type BidCreateNestedManyWithoutRevisesInput = {
+  create?: Prisma.XOR<Prisma.BidCreateWithoutRevisesInput, Prisma.BidUncheckedCreateWithoutRevisesInput> | Prisma.BidCreateWithoutRevisesInput[] | Prisma.BidUncheckedCreateWithoutRevisesInput[]
+  connectOrCreate?: Prisma.BidCreateOrConnectWithoutRevisesInput | Prisma.BidCreateOrConnectWithoutRevisesInput[]
+  createMany?: Prisma.BidCreateManyRevisesInputEnvelope
+  connect?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+}
+
+export type BidUncheckedCreateNestedManyWithoutRevisesInput = {
+  create?: Prisma.XOR<Prisma.BidCreateWithoutRevisesInput, Prisma.BidUncheckedCreateWithoutRevisesInput> | Prisma.BidCreateWithoutRevisesInput[] | Prisma.BidUncheckedCreateWithoutRevisesInput[]
+  connectOrCreate?: Prisma.BidCreateOrConnectWithoutRevisesInput | Prisma.BidCreateOrConnectWithoutRevisesInput[]
+  createMany?: Prisma.BidCreateManyRevisesInputEnvelope
+  connect?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+}
+
+export type NullableIntFieldUpdateOperationsInput = {
+  set?: number | null
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
+export type EnumBidStatusFieldUpdateOperationsInput = {
+  set?: $Enums.BidStatus
+}
+
+export type BidUpdateOneWithoutRevisionsNestedInput = {
+  create?: Prisma.XOR<Prisma.BidCreateWithoutRevisionsInput, Prisma.BidUncheckedCreateWithoutRevisionsInput>
+  connectOrCreate?: Prisma.BidCreateOrConnectWithoutRevisionsInput
+  upsert?: Prisma.BidUpsertWithoutRevisionsInput
+  disconnect?: Prisma.BidWhereInput | boolean
+  delete?: Prisma.BidWhereInput | boolean
+  connect?: Prisma.BidWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.BidUpdateToOneWithWhereWithoutRevisionsInput, Prisma.BidUpdateWithoutRevisionsInput>, Prisma.BidUncheckedUpdateWithoutRevisionsInput>
+}
+
+export type BidUpdateManyWithoutRevisesNestedInput = {
+  create?: Prisma.XOR<Prisma.BidCreateWithoutRevisesInput, Prisma.BidUncheckedCreateWithoutRevisesInput> | Prisma.BidCreateWithoutRevisesInput[] | Prisma.BidUncheckedCreateWithoutRevisesInput[]
+  connectOrCreate?: Prisma.BidCreateOrConnectWithoutRevisesInput | Prisma.BidCreateOrConnectWithoutRevisesInput[]
+  upsert?: Prisma.BidUpsertWithWhereUniqueWithoutRevisesInput | Prisma.BidUpsertWithWhereUniqueWithoutRevisesInput[]
+  createMany?: Prisma.BidCreateManyRevisesInputEnvelope
+  set?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+  disconnect?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+  delete?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+  connect?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+  update?: Prisma.BidUpdateWithWhereUniqueWithoutRevisesInput | Prisma.BidUpdateWithWhereUniqueWithoutRevisesInput[]
+  updateMany?: Prisma.BidUpdateManyWithWhereWithoutRevisesInput | Prisma.BidUpdateManyWithWhereWithoutRevisesInput[]
+  deleteMany?: Prisma.BidScalarWhereInput | Prisma.BidScalarWhereInput[]
+}
+
+export type BidUncheckedUpdateManyWithoutRevisesNestedInput = {
+  create?: Prisma.XOR<Prisma.BidCreateWithoutRevisesInput, Prisma.BidUncheckedCreateWithoutRevisesInput> | Prisma.BidCreateWithoutRevisesInput[] | Prisma.BidUncheckedCreateWithoutRevisesInput[]
+  connectOrCreate?: Prisma.BidCreateOrConnectWithoutRevisesInput | Prisma.BidCreateOrConnectWithoutRevisesInput[]
+  upsert?: Prisma.BidUpsertWithWhereUniqueWithoutRevisesInput | Prisma.BidUpsertWithWhereUniqueWithoutRevisesInput[]
+  createMany?: Prisma.BidCreateManyRevisesInputEnvelope
+  set?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+  disconnect?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+  delete?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+  connect?: Prisma.BidWhereUniqueInput | Prisma.BidWhereUniqueInput[]
+  update?: Prisma.BidUpdateWithWhereUniqueWithoutRevisesInput | Prisma.BidUpdateWithWhereUniqueWithoutRevisesInput[]
+  updateMany?: Prisma.BidUpdateManyWithWhereWithoutRevisesInput | Prisma.BidUpdateManyWithWhereWithoutRevisesInput[]
+  deleteMany?: Prisma.BidScalarWhereInput | Prisma.BidScalarWhereInput[]
+}
+
+export type BidCreateNestedOneWithoutOrdersInput = {
+  create?: Prisma.XOR<Prisma.BidCreateWithoutOrdersInput, Prisma.BidUncheckedCreateWithoutOrdersInput>
+  connectOrCreate?: Prisma.BidCreateOrConnectWithoutOrdersInput
+  connect?: Prisma.BidWhereUniqueInput
+}
+
+export type BidUpdateOneRequiredWithoutOrdersNestedInput = {
+  create?: Prisma.XOR<Prisma.BidCreateWithoutOrdersInput, Prisma.BidUncheckedCreateWithoutOrdersInput>
+  connectOrCreate?: Prisma.BidCreateOrConnectWithoutOrdersInput
+  upsert?: Prisma.BidUpsertWithoutOrdersInput
+  connect?: Prisma.BidWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.BidUpdateToOneWithWhereWithoutOrdersInput, Prisma.BidUpdateWithoutOrdersInput>, Prisma.BidUncheckedUpdateWithoutOrdersInput>
+}
+
+export type BidCreateWithoutFarmerInput = {
+  id?: string
+  transactionId?: string | null
+  messageId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  catalogPrice?: number | null
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  validityHours?: number | null
+  status?: $Enums.BidStatus
+  receivedAt?: Date | string
+  updatedAt?: Date | string
+  catalog: Prisma.CatalogCreateNestedOneWithoutBidsInput
+  revises?: Prisma.BidCreateNestedOneWithoutRevisionsInput
+  revisions?: Prisma.BidCreateNestedManyWithoutRevisesInput
+  orders?: Prisma.OrderCreateNestedManyWithoutBidInput
+}
+
+export type BidUncheckedCreateWithoutFarmerInput = {
+  id?: string
+  catalogId: string
+  transactionId?: string | null
+  messageId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  catalogPrice?: number | null
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  validityHours?: number | null
+  status?: $Enums.BidStatus
+  revisesBidId?: string | null
+  receivedAt?: Date | string
+  updatedAt?: Date | string
+  revisions?: Prisma.BidUncheckedCreateNestedManyWithoutRevisesInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutBidInput
+}
+
+export type BidCreateOrConnectWithoutFarmerInput = {
+  where: Prisma.BidWhereUniqueInput
+  create: Prisma.XOR<Prisma.BidCreateWithoutFarmerInput, Prisma.BidUncheckedCreateWithoutFarmerInput>
+}
+
+export type BidCreateManyFarmerInputEnvelope = {
+  data: Prisma.BidCreateManyFarmerInput | Prisma.BidCreateManyFarmerInput[]
+}
+
+export type BidUpsertWithWhereUniqueWithoutFarmerInput = {
+  where: Prisma.BidWhereUniqueInput
+  update: Prisma.XOR<Prisma.BidUpdateWithoutFarmerInput, Prisma.BidUncheckedUpdateWithoutFarmerInput>
+  create: Prisma.XOR<Prisma.BidCreateWithoutFarmerInput, Prisma.BidUncheckedCreateWithoutFarmerInput>
+}
+
+export type BidUpdateWithWhereUniqueWithoutFarmerInput = {
+  where: Prisma.BidWhereUniqueInput
+  data: Prisma.XOR<Prisma.BidUpdateWithoutFarmerInput, Prisma.BidUncheckedUpdateWithoutFarmerInput>
+}
+
+export type BidUpdateManyWithWhereWithoutFarmerInput = {
+  where: Prisma.BidScalarWhereInput
+  data: Prisma.XOR<Prisma.BidUpdateManyMutationInput, Prisma.BidUncheckedUpdateManyWithoutFarmerInput>
+}
+
+export type BidScalarWhereInput = {
+  AND?: Prisma.BidScalarWhereInput | Prisma.BidScalarWhereInput[]
+  OR?: Prisma.BidScalarWhereInput[]
+  NOT?: Prisma.BidScalarWhereInput | Prisma.BidScalarWhereInput[]
+  id?: Prisma.StringFilter<"Bid"> | string
+  catalogId?: Prisma.StringFilter<"Bid"> | string
+  farmerId?: Prisma.StringFilter<"Bid"> | string
+  transactionId?: Prisma.StringNullableFilter<"Bid"> | string | null
+  messageId?: Prisma.StringNullableFilter<"Bid"> | string | null
+  buyerName?: Prisma.StringFilter<"Bid"> | string
+  buyerSubscriberId?: Prisma.StringNullableFilter<"Bid"> | string | null
+  pricePerUnit?: Prisma.FloatFilter<"Bid"> | number
+  catalogPrice?: Prisma.FloatNullableFilter<"Bid"> | number | null
+  currency?: Prisma.StringFilter<"Bid"> | string
+  paymentTerms?: Prisma.StringNullableFilter<"Bid"> | string | null
+  deliveryDays?: Prisma.IntNullableFilter<"Bid"> | number | null
+  validityHours?: Prisma.IntNullableFilter<"Bid"> | number | null
+  status?: Prisma.EnumBidStatusFilter<"Bid"> | $Enums.BidStatus
+  revisesBidId?: Prisma.StringNullableFilter<"Bid"> | string | null
+  receivedAt?: Prisma.DateTimeFilter<"Bid"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Bid"> | Date | string
+}
+
+export type BidCreateWithoutCatalogInput = {
+  id?: string
+  transactionId?: string | null
+  messageId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  catalogPrice?: number | null
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  validityHours?: number | null
+  status?: $Enums.BidStatus
+  receivedAt?: Date | string
+  updatedAt?: Date | string
+  farmer: Prisma.FarmerCreateNestedOneWithoutBidsInput
+  revises?: Prisma.BidCreateNestedOneWithoutRevisionsInput
+  revisions?: Prisma.BidCreateNestedManyWithoutRevisesInput
+  orders?: Prisma.OrderCreateNestedManyWithoutBidInput
+}
+
+export type BidUncheckedCreateWithoutCatalogInput = {
+  id?: string
+  farmerId: string
+  transactionId?: string | null
+  messageId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  catalogPrice?: number | null
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  validityHours?: number | null
+  status?: $Enums.BidStatus
+  revisesBidId?: string | null
+  receivedAt?: Date | string
+  updatedAt?: Date | string
+  revisions?: Prisma.BidUncheckedCreateNestedManyWithoutRevisesInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutBidInput
+}
+
+export type BidCreateOrConnectWithoutCatalogInput = {
+  where: Prisma.BidWhereUniqueInput
+  create: Prisma.XOR<Prisma.BidCreateWithoutCatalogInput, Prisma.BidUncheckedCreateWithoutCatalogInput>
+}
+
+export type BidCreateManyCatalogInputEnvelope = {
+  data: Prisma.BidCreateManyCatalogInput | Prisma.BidCreateManyCatalogInput[]
+}
+
+export type BidUpsertWithWhereUniqueWithoutCatalogInput = {
+  where: Prisma.BidWhereUniqueInput
+  update: Prisma.XOR<Prisma.BidUpdateWithoutCatalogInput, Prisma.BidUncheckedUpdateWithoutCatalogInput>
+  create: Prisma.XOR<Prisma.BidCreateWithoutCatalogInput, Prisma.BidUncheckedCreateWithoutCatalogInput>
+}
+
+export type BidUpdateWithWhereUniqueWithoutCatalogInput = {
+  where: Prisma.BidWhereUniqueInput
+  data: Prisma.XOR<Prisma.BidUpdateWithoutCatalogInput, Prisma.BidUncheckedUpdateWithoutCatalogInput>
+}
+
+export type BidUpdateManyWithWhereWithoutCatalogInput = {
+  where: Prisma.BidScalarWhereInput
+  data: Prisma.XOR<Prisma.BidUpdateManyMutationInput, Prisma.BidUncheckedUpdateManyWithoutCatalogInput>
+}
+
+export type BidCreateWithoutRevisionsInput = {
+  id?: string
+  transactionId?: string | null
+  messageId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  catalogPrice?: number | null
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  validityHours?: number | null
+  status?: $Enums.BidStatus
+  receivedAt?: Date | string
+  updatedAt?: Date | string
+  catalog: Prisma.CatalogCreateNestedOneWithoutBidsInput
+  farmer: Prisma.FarmerCreateNestedOneWithoutBidsInput
+  revises?: Prisma.BidCreateNestedOneWithoutRevisionsInput
+  orders?: Prisma.OrderCreateNestedManyWithoutBidInput
+}
+
+export type BidUncheckedCreateWithoutRevisionsInput = {
+  id?: string
+  catalogId: string
+  farmerId: string
+  transactionId?: string | null
+  messageId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  catalogPrice?: number | null
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  validityHours?: number | null
+  status?: $Enums.BidStatus
+  revisesBidId?: string | null
+  receivedAt?: Date | string
+  updatedAt?: Date | string
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutBidInput
+}
+
+export type BidCreateOrConnectWithoutRevisionsInput = {
+  where: Prisma.BidWhereUniqueInput
+  create: Prisma.XOR<Prisma.BidCreateWithoutRevisionsInput, Prisma.BidUncheckedCreateWithoutRevisionsInput>
+}
+
+export type BidCreateWithoutRevisesInput = {
+  id?: string
+  transactionId?: string | null
+  messageId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  catalogPrice?: number | null
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  validityHours?: number | null
+  status?: $Enums.BidStatus
+  receivedAt?: Date | string
+  updatedAt?: Date | string
+  catalog: Prisma.CatalogCreateNestedOneWithoutBidsInput
+  farmer: Prisma.FarmerCreateNestedOneWithoutBidsInput
+  revisions?: Prisma.BidCreateNestedManyWithoutRevisesInput
+  orders?: Prisma.OrderCreateNestedManyWithoutBidInput
+}
+
+export type BidUncheckedCreateWithoutRevisesInput = {
+  id?: string
+  catalogId: string
+  farmerId: string
+  transactionId?: string | null
+  messageId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  catalogPrice?: number | null
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  validityHours?: number | null
+  status?: $Enums.BidStatus
+  receivedAt?: Date | string
+  updatedAt?: Date | string
+  revisions?: Prisma.BidUncheckedCreateNestedManyWithoutRevisesInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutBidInput
+}
+
+export type BidCreateOrConnectWithoutRevisesInput = {
+  where: Prisma.BidWhereUniqueInput
+  create: Prisma.XOR<Prisma.BidCreateWithoutRevisesInput, Prisma.BidUncheckedCreateWithoutRevisesInput>
+}
+
+export type BidCreateManyRevisesInputEnvelope = {
+  data: Prisma.BidCreateManyRevisesInput | Prisma.BidCreateManyRevisesInput[]
+}
+
+export type BidUpsertWithoutRevisionsInput = {
+  update: Prisma.XOR<Prisma.BidUpdateWithoutRevisionsInput, Prisma.BidUncheckedUpdateWithoutRevisionsInput>
+  create: Prisma.XOR<Prisma.BidCreateWithoutRevisionsInput, Prisma.BidUncheckedCreateWithoutRevisionsInput>
+  where?: Prisma.BidWhereInput
+}
+
+export type BidUpdateToOneWithWhereWithoutRevisionsInput = {
+  where?: Prisma.BidWhereInput
+  data: Prisma.XOR<Prisma.BidUpdateWithoutRevisionsInput, Prisma.BidUncheckedUpdateWithoutRevisionsInput>
+}
+
+export type BidUpdateWithoutRevisionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  catalogPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validityHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumBidStatusFieldUpdateOperationsInput | $Enums.BidStatus
+  receivedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  catalog?: Prisma.CatalogUpdateOneRequiredWithoutBidsNestedInput
+  farmer?: Prisma.FarmerUpdateOneRequiredWithoutBidsNestedInput
+  revises?: Prisma.BidUpdateOneWithoutRevisionsNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutBidNestedInput
+}
+
+export type BidUncheckedUpdateWithoutRevisionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  catalogId?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  catalogPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validityHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumBidStatusFieldUpdateOperationsInput | $Enums.BidStatus
+  revisesBidId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  receivedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutBidNestedInput
+}
+
+export type BidUpsertWithWhereUniqueWithoutRevisesInput = {
+  where: Prisma.BidWhereUniqueInput
+  update: Prisma.XOR<Prisma.BidUpdateWithoutRevisesInput, Prisma.BidUncheckedUpdateWithoutRevisesInput>
+  create: Prisma.XOR<Prisma.BidCreateWithoutRevisesInput, Prisma.BidUncheckedCreateWithoutRevisesInput>
+}
+
+export type BidUpdateWithWhereUniqueWithoutRevisesInput = {
+  where: Prisma.BidWhereUniqueInput
+  data: Prisma.XOR<Prisma.BidUpdateWithoutRevisesInput, Prisma.BidUncheckedUpdateWithoutRevisesInput>
+}
+
+export type BidUpdateManyWithWhereWithoutRevisesInput = {
+  where: Prisma.BidScalarWhereInput
+  data: Prisma.XOR<Prisma.BidUpdateManyMutationInput, Prisma.BidUncheckedUpdateManyWithoutRevisesInput>
+}
+
+export type BidCreateWithoutOrdersInput = {
+  id?: string
+  transactionId?: string | null
+  messageId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  catalogPrice?: number | null
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  validityHours?: number | null
+  status?: $Enums.BidStatus
+  receivedAt?: Date | string
+  updatedAt?: Date | string
+  catalog: Prisma.CatalogCreateNestedOneWithoutBidsInput
+  farmer: Prisma.FarmerCreateNestedOneWithoutBidsInput
+  revises?: Prisma.BidCreateNestedOneWithoutRevisionsInput
+  revisions?: Prisma.BidCreateNestedManyWithoutRevisesInput
+}
+
+export type BidUncheckedCreateWithoutOrdersInput = {
+  id?: string
+  catalogId: string
+  farmerId: string
+  transactionId?: string | null
+  messageId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  catalogPrice?: number | null
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  validityHours?: number | null
+  status?: $Enums.BidStatus
+  revisesBidId?: string | null
+  receivedAt?: Date | string
+  updatedAt?: Date | string
+  revisions?: Prisma.BidUncheckedCreateNestedManyWithoutRevisesInput
+}
+
+export type BidCreateOrConnectWithoutOrdersInput = {
+  where: Prisma.BidWhereUniqueInput
+  create: Prisma.XOR<Prisma.BidCreateWithoutOrdersInput, Prisma.BidUncheckedCreateWithoutOrdersInput>
+}
+
+export type BidUpsertWithoutOrdersInput = {
+  update: Prisma.XOR<Prisma.BidUpdateWithoutOrdersInput, Prisma.BidUncheckedUpdateWithoutOrdersInput>
+  create: Prisma.XOR<Prisma.BidCreateWithoutOrdersInput, Prisma.BidUncheckedCreateWithoutOrdersInput>
+  where?: Prisma.BidWhereInput
+}
+
+export type BidUpdateToOneWithWhereWithoutOrdersInput = {
+  where?: Prisma.BidWhereInput
+  data: Prisma.XOR<Prisma.BidUpdateWithoutOrdersInput, Prisma.BidUncheckedUpdateWithoutOrdersInput>
+}
+
+export type BidUpdateWithoutOrdersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  catalogPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validityHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumBidStatusFieldUpdateOperationsInput | $Enums.BidStatus
+  receivedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  catalog?: Prisma.CatalogUpdateOneRequiredWithoutBidsNestedInput
+  farmer?: Prisma.FarmerUpdateOneRequiredWithoutBidsNestedInput
+  revises?: Prisma.BidUpdateOneWithoutRevisionsNestedInput
+  revisions?: Prisma.BidUpdateManyWithoutRevisesNestedInput
+}
+
+export type BidUncheckedUpdateWithoutOrdersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  catalogId?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  catalogPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validityHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumBidStatusFieldUpdateOperationsInput | $Enums.BidStatus
+  revisesBidId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  receivedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revisions?: Prisma.BidUncheckedUpdateManyWithoutRevisesNestedInput
+}
+
+export type BidCreateManyFarmerInput = {
+  id?: string
+  catalogId: string
+  transactionId?: string | null
+  messageId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  catalogPrice?: number | null
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  validityHours?: number | null
+  status?: $Enums.BidStatus
+  revisesBidId?: string | null
+  receivedAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BidUpdateWithoutFarmerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  catalogPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validityHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumBidStatusFieldUpdateOperationsInput | $Enums.BidStatus
+  receivedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  catalog?: Prisma.CatalogUpdateOneRequiredWithoutBidsNestedInput
+  revises?: Prisma.BidUpdateOneWithoutRevisionsNestedInput
+  revisions?: Prisma.BidUpdateManyWithoutRevisesNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutBidNestedInput
+}
+
+export type BidUncheckedUpdateWithoutFarmerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  catalogId?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  catalogPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validityHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumBidStatusFieldUpdateOperationsInput | $Enums.BidStatus
+  revisesBidId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  receivedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revisions?: Prisma.BidUncheckedUpdateManyWithoutRevisesNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutBidNestedInput
+}
+
+export type BidUncheckedUpdateManyWithoutFarmerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  catalogId?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  catalogPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validityHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumBidStatusFieldUpdateOperationsInput | $Enums.BidStatus
+  revisesBidId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  receivedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BidCreateManyCatalogInput = {
+  id?: string
+  farmerId: string
+  transactionId?: string | null
+  messageId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  catalogPrice?: number | null
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  validityHours?: number | null
+  status?: $Enums.BidStatus
+  revisesBidId?: string | null
+  receivedAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BidUpdateWithoutCatalogInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  catalogPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validityHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumBidStatusFieldUpdateOperationsInput | $Enums.BidStatus
+  receivedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  farmer?: Prisma.FarmerUpdateOneRequiredWithoutBidsNestedInput
+  revises?: Prisma.BidUpdateOneWithoutRevisionsNestedInput
+  revisions?: Prisma.BidUpdateManyWithoutRevisesNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutBidNestedInput
+}
+
+export type BidUncheckedUpdateWithoutCatalogInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  catalogPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validityHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumBidStatusFieldUpdateOperationsInput | $Enums.BidStatus
+  revisesBidId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  receivedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revisions?: Prisma.BidUncheckedUpdateManyWithoutRevisesNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutBidNestedInput
+}
+
+export type BidUncheckedUpdateManyWithoutCatalogInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  catalogPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validityHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumBidStatusFieldUpdateOperationsInput | $Enums.BidStatus
+  revisesBidId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  receivedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BidCreateManyRevisesInput = {
+  id?: string
+  catalogId: string
+  farmerId: string
+  transactionId?: string | null
+  messageId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  catalogPrice?: number | null
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  validityHours?: number | null
+  status?: $Enums.BidStatus
+  receivedAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BidUpdateWithoutRevisesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  catalogPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validityHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumBidStatusFieldUpdateOperationsInput | $Enums.BidStatus
+  receivedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  catalog?: Prisma.CatalogUpdateOneRequiredWithoutBidsNestedInput
+  farmer?: Prisma.FarmerUpdateOneRequiredWithoutBidsNestedInput
+  revisions?: Prisma.BidUpdateManyWithoutRevisesNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutBidNestedInput
+}
+
+export type BidUncheckedUpdateWithoutRevisesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  catalogId?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  catalogPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validityHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumBidStatusFieldUpdateOperationsInput | $Enums.BidStatus
+  receivedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revisions?: Prisma.BidUncheckedUpdateManyWithoutRevisesNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutBidNestedInput
+}
+
+export type BidUncheckedUpdateManyWithoutRevisesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  catalogId?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  catalogPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validityHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumBidStatusFieldUpdateOperationsInput | $Enums.BidStatus
+  receivedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type BidCountOutputType
+ */
+
+export type BidCountOutputType = {
+  revisions: number
+  orders: number
+}
+
+export type BidCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  revisions?: boolean | BidCountOutputTypeCountRevisionsArgs
+  orders?: boolean | BidCountOutputTypeCountOrdersArgs
+}
+
+/**
+ * BidCountOutputType without action
+ */
+export type BidCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BidCountOutputType
+   */
+  select?: Prisma.BidCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * BidCountOutputType without action
+ */
+export type BidCountOutputTypeCountRevisionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BidWhereInput
+}
+
+/**
+ * BidCountOutputType without action
+ */
+export type BidCountOutputTypeCountOrdersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OrderWhereInput
+}
+
+
+export type BidSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  catalogId?: boolean
+  farmerId?: boolean
+  transactionId?: boolean
+  messageId?: boolean
+  buyerName?: boolean
+  buyerSubscriberId?: boolean
+  pricePerUnit?: boolean
+  catalogPrice?: boolean
+  currency?: boolean
+  paymentTerms?: boolean
+  deliveryDays?: boolean
+  validityHours?: boolean
+  status?: boolean
+  revisesBidId?: boolean
+  receivedAt?: boolean
+  updatedAt?: boolean
+  catalog?: boolean | Prisma.CatalogDefaultArgs<ExtArgs>
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+  revises?: boolean | Prisma.Bid$revisesArgs<ExtArgs>
+  revisions?: boolean | Prisma.Bid$revisionsArgs<ExtArgs>
+  orders?: boolean | Prisma.Bid$ordersArgs<ExtArgs>
+  _count?: boolean | Prisma.BidCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["bid"]>
+
+export type BidSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  catalogId?: boolean
+  farmerId?: boolean
+  transactionId?: boolean
+  messageId?: boolean
+  buyerName?: boolean
+  buyerSubscriberId?: boolean
+  pricePerUnit?: boolean
+  catalogPrice?: boolean
+  currency?: boolean
+  paymentTerms?: boolean
+  deliveryDays?: boolean
+  validityHours?: boolean
+  status?: boolean
+  revisesBidId?: boolean
+  receivedAt?: boolean
+  updatedAt?: boolean
+  catalog?: boolean | Prisma.CatalogDefaultArgs<ExtArgs>
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+  revises?: boolean | Prisma.Bid$revisesArgs<ExtArgs>
+}, ExtArgs["result"]["bid"]>
+
+export type BidSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  catalogId?: boolean
+  farmerId?: boolean
+  transactionId?: boolean
+  messageId?: boolean
+  buyerName?: boolean
+  buyerSubscriberId?: boolean
+  pricePerUnit?: boolean
+  catalogPrice?: boolean
+  currency?: boolean
+  paymentTerms?: boolean
+  deliveryDays?: boolean
+  validityHours?: boolean
+  status?: boolean
+  revisesBidId?: boolean
+  receivedAt?: boolean
+  updatedAt?: boolean
+  catalog?: boolean | Prisma.CatalogDefaultArgs<ExtArgs>
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+  revises?: boolean | Prisma.Bid$revisesArgs<ExtArgs>
+}, ExtArgs["result"]["bid"]>
+
+export type BidSelectScalar = {
+  id?: boolean
+  catalogId?: boolean
+  farmerId?: boolean
+  transactionId?: boolean
+  messageId?: boolean
+  buyerName?: boolean
+  buyerSubscriberId?: boolean
+  pricePerUnit?: boolean
+  catalogPrice?: boolean
+  currency?: boolean
+  paymentTerms?: boolean
+  deliveryDays?: boolean
+  validityHours?: boolean
+  status?: boolean
+  revisesBidId?: boolean
+  receivedAt?: boolean
+  updatedAt?: boolean
+}
+
+export type BidOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "catalogId" | "farmerId" | "transactionId" | "messageId" | "buyerName" | "buyerSubscriberId" | "pricePerUnit" | "catalogPrice" | "currency" | "paymentTerms" | "deliveryDays" | "validityHours" | "status" | "revisesBidId" | "receivedAt" | "updatedAt", ExtArgs["result"]["bid"]>
+export type BidInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  catalog?: boolean | Prisma.CatalogDefaultArgs<ExtArgs>
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+  revises?: boolean | Prisma.Bid$revisesArgs<ExtArgs>
+  revisions?: boolean | Prisma.Bid$revisionsArgs<ExtArgs>
+  orders?: boolean | Prisma.Bid$ordersArgs<ExtArgs>
+  _count?: boolean | Prisma.BidCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type BidIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  catalog?: boolean | Prisma.CatalogDefaultArgs<ExtArgs>
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+  revises?: boolean | Prisma.Bid$revisesArgs<ExtArgs>
+}
+export type BidIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  catalog?: boolean | Prisma.CatalogDefaultArgs<ExtArgs>
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+  revises?: boolean | Prisma.Bid$revisesArgs<ExtArgs>
+}
+
+export type $BidPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Bid"
+  objects: {
+    catalog: Prisma.$CatalogPayload<ExtArgs>
+    farmer: Prisma.$FarmerPayload<ExtArgs>
+    revises: Prisma.$BidPayload<ExtArgs> | null
+    revisions: Prisma.$BidPayload<ExtArgs>[]
+    orders: Prisma.$OrderPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    catalogId: string
+    farmerId: string
+    transactionId: string | null
+    messageId: string | null
+    buyerName: string
+    buyerSubscriberId: string | null
+    pricePerUnit: number
+    catalogPrice: number | null
+    currency: string
+    paymentTerms: string | null
+    deliveryDays: number | null
+    validityHours: number | null
+    status: $Enums.BidStatus
+    revisesBidId: string | null
+    receivedAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["bid"]>
+  composites: {}
+}
+
+export type BidGetPayload<S extends boolean | null | undefined | BidDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$BidPayload, S>
+
+export type BidCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<BidFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: BidCountAggregateInputType | true
+  }
+
+export interface BidDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Bid'], meta: { name: 'Bid' } }
+  /**
+   * Find zero or one Bid that matches the filter.
+   * @param {BidFindUniqueArgs} args - Arguments to find a Bid
+   * @example
+   * // Get one Bid
+   * const bid = await prisma.bid.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends BidFindUniqueArgs>(args: Prisma.SelectSubset<T, BidFindUniqueArgs<ExtArgs>>): Prisma.Prisma__BidClient<runtime.Types.Result.GetResult<Prisma.$BidPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Bid that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {BidFindUniqueOrThrowArgs} args - Arguments to find a Bid
+   * @example
+   * // Get one Bid
+   * const bid = await prisma.bid.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends BidFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, BidFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__BidClient<runtime.Types.Result.GetResult<Prisma.$BidPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Bid that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BidFindFirstArgs} args - Arguments to find a Bid
+   * @example
+   * // Get one Bid
+   * const bid = await prisma.bid.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends BidFindFirstArgs>(args?: Prisma.SelectSubset<T, BidFindFirstArgs<ExtArgs>>): Prisma.Prisma__BidClient<runtime.Types.Result.GetResult<Prisma.$BidPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Bid that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BidFindFirstOrThrowArgs} args - Arguments to find a Bid
+   * @example
+   * // Get one Bid
+   * const bid = await prisma.bid.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends BidFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, BidFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__BidClient<runtime.Types.Result.GetResult<Prisma.$BidPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Bids that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BidFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Bids
+   * const bids = await prisma.bid.findMany()
+   * 
+   * // Get first 10 Bids
+   * const bids = await prisma.bid.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const bidWithIdOnly = await prisma.bid.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends BidFindManyArgs>(args?: Prisma.SelectSubset<T, BidFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BidPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Bid.
+   * @param {BidCreateArgs} args - Arguments to create a Bid.
+   * @example
+   * // Create one Bid
+   * const Bid = await prisma.bid.create({
+   *   data: {
+   *     // ... data to create a Bid
+   *   }
+   * })
+   * 
+   */
+  create<T extends BidCreateArgs>(args: Prisma.SelectSubset<T, BidCreateArgs<ExtArgs>>): Prisma.Prisma__BidClient<runtime.Types.Result.GetResult<Prisma.$BidPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Bids.
+   * @param {BidCreateManyArgs} args - Arguments to create many Bids.
+   * @example
+   * // Create many Bids
+   * const bid = await prisma.bid.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends BidCreateManyArgs>(args?: Prisma.SelectSubset<T, BidCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Bids and returns the data saved in the database.
+   * @param {BidCreateManyAndReturnArgs} args - Arguments to create many Bids.
+   * @example
+   * // Create many Bids
+   * const bid = await prisma.bid.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Bids and only return the `id`
+   * const bidWithIdOnly = await prisma.bid.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends BidCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, BidCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BidPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Bid.
+   * @param {BidDeleteArgs} args - Arguments to delete one Bid.
+   * @example
+   * // Delete one Bid
+   * const Bid = await prisma.bid.delete({
+   *   where: {
+   *     // ... filter to delete one Bid
+   *   }
+   * })
+   * 
+   */
+  delete<T extends BidDeleteArgs>(args: Prisma.SelectSubset<T, BidDeleteArgs<ExtArgs>>): Prisma.Prisma__BidClient<runtime.Types.Result.GetResult<Prisma.$BidPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Bid.
+   * @param {BidUpdateArgs} args - Arguments to update one Bid.
+   * @example
+   * // Update one Bid
+   * const bid = await prisma.bid.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends BidUpdateArgs>(args: Prisma.SelectSubset<T, BidUpdateArgs<ExtArgs>>): Prisma.Prisma__BidClient<runtime.Types.Result.GetResult<Prisma.$BidPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Bids.
+   * @param {BidDeleteManyArgs} args - Arguments to filter Bids to delete.
+   * @example
+   * // Delete a few Bids
+   * const { count } = await prisma.bid.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends BidDeleteManyArgs>(args?: Prisma.SelectSubset<T, BidDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Bids.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BidUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Bids
+   * const bid = await prisma.bid.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends BidUpdateManyArgs>(args: Prisma.SelectSubset<T, BidUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Bids and returns the data updated in the database.
+   * @param {BidUpdateManyAndReturnArgs} args - Arguments to update many Bids.
+   * @example
+   * // Update many Bids
+   * const bid = await prisma.bid.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Bids and only return the `id`
+   * const bidWithIdOnly = await prisma.bid.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends BidUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, BidUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BidPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Bid.
+   * @param {BidUpsertArgs} args - Arguments to update or create a Bid.
+   * @example
+   * // Update or create a Bid
+   * const bid = await prisma.bid.upsert({
+   *   create: {
+   *     // ... data to create a Bid
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Bid we want to update
+   *   }
+   * })
+   */
+  upsert<T extends BidUpsertArgs>(args: Prisma.SelectSubset<T, BidUpsertArgs<ExtArgs>>): Prisma.Prisma__BidClient<runtime.Types.Result.GetResult<Prisma.$BidPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Bids.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BidCountArgs} args - Arguments to filter Bids to count.
+   * @example
+   * // Count the number of Bids
+   * const count = await prisma.bid.count({
+   *   where: {
+   *     // ... the filter for the Bids we want to count
+   *   }
+   * })
+  **/
+  count<T extends BidCountArgs>(
+    args?: Prisma.Subset<T, BidCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], BidCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Bid.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BidAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends BidAggregateArgs>(args: Prisma.Subset<T, BidAggregateArgs>): Prisma.PrismaPromise<GetBidAggregateType<T>>
+
+  /**
+   * Group by Bid.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BidGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends BidGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: BidGroupByArgs['orderBy'] }
+      : { orderBy?: BidGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, BidGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetBidGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Bid model
+ */
+readonly fields: BidFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Bid.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__BidClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  catalog<T extends Prisma.CatalogDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CatalogDefaultArgs<ExtArgs>>): Prisma.Prisma__CatalogClient<runtime.Types.Result.GetResult<Prisma.$CatalogPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  farmer<T extends Prisma.FarmerDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.FarmerDefaultArgs<ExtArgs>>): Prisma.Prisma__FarmerClient<runtime.Types.Result.GetResult<Prisma.$FarmerPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  revises<T extends Prisma.Bid$revisesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Bid$revisesArgs<ExtArgs>>): Prisma.Prisma__BidClient<runtime.Types.Result.GetResult<Prisma.$BidPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  revisions<T extends Prisma.Bid$revisionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Bid$revisionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BidPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  orders<T extends Prisma.Bid$ordersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Bid$ordersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Bid model
+ */
+export interface BidFieldRefs {
+  readonly id: Prisma.FieldRef<"Bid", 'String'>
+  readonly catalogId: Prisma.FieldRef<"Bid", 'String'>
+  readonly farmerId: Prisma.FieldRef<"Bid", 'String'>
+  readonly transactionId: Prisma.FieldRef<"Bid", 'String'>
+  readonly messageId: Prisma.FieldRef<"Bid", 'String'>
+  readonly buyerName: Prisma.FieldRef<"Bid", 'String'>
+  readonly buyerSubscriberId: Prisma.FieldRef<"Bid", 'String'>
+  readonly pricePerUnit: Prisma.FieldRef<"Bid", 'Float'>
+  readonly catalogPrice: Prisma.FieldRef<"Bid", 'Float'>
+  readonly currency: Prisma.FieldRef<"Bid", 'String'>
+  readonly paymentTerms: Prisma.FieldRef<"Bid", 'String'>
+  readonly deliveryDays: Prisma.FieldRef<"Bid", 'Int'>
+  readonly validityHours: Prisma.FieldRef<"Bid", 'Int'>
+  readonly status: Prisma.FieldRef<"Bid", 'BidStatus'>
+  readonly revisesBidId: Prisma.FieldRef<"Bid", 'String'>
+  readonly receivedAt: Prisma.FieldRef<"Bid", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"Bid", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Bid findUnique
+ */
+export type BidFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Bid
+   */
+  select?: Prisma.BidSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Bid
+   */
+  omit?: Prisma.BidOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BidInclude<ExtArgs> | null
+  /**
+   * Filter, which Bid to fetch.
+   */
+  where: Prisma.BidWhereUniqueInput
+}
+
+/**
+ * Bid findUniqueOrThrow
+ */
+export type BidFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Bid
+   */
+  select?: Prisma.BidSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Bid
+   */
+  omit?: Prisma.BidOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BidInclude<ExtArgs> | null
+  /**
+   * Filter, which Bid to fetch.
+   */
+  where: Prisma.BidWhereUniqueInput
+}
+
+/**
+ * Bid findFirst
+ */
+export type BidFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Bid
+   */
+  select?: Prisma.BidSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Bid
+   */
+  omit?: Prisma.BidOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BidInclude<ExtArgs> | null
+  /**
+   * Filter, which Bid to fetch.
+   */
+  where?: Prisma.BidWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Bids to fetch.
+   */
+  orderBy?: Prisma.BidOrderByWithRelationInput | Prisma.BidOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Bids.
+   */
+  cursor?: Prisma.BidWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Bids from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Bids.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Bids.
+   */
+  distinct?: Prisma.BidScalarFieldEnum | Prisma.BidScalarFieldEnum[]
+}
+
+/**
+ * Bid findFirstOrThrow
+ */
+export type BidFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Bid
+   */
+  select?: Prisma.BidSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Bid
+   */
+  omit?: Prisma.BidOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BidInclude<ExtArgs> | null
+  /**
+   * Filter, which Bid to fetch.
+   */
+  where?: Prisma.BidWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Bids to fetch.
+   */
+  orderBy?: Prisma.BidOrderByWithRelationInput | Prisma.BidOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Bids.
+   */
+  cursor?: Prisma.BidWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Bids from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Bids.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Bids.
+   */
+  distinct?: Prisma.BidScalarFieldEnum | Prisma.BidScalarFieldEnum[]
+}
+
+/**
+ * Bid findMany
+ */
+export type BidFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Bid
+   */
+  select?: Prisma.BidSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Bid
+   */
+  omit?: Prisma.BidOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BidInclude<ExtArgs> | null
+  /**
+   * Filter, which Bids to fetch.
+   */
+  where?: Prisma.BidWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Bids to fetch.
+   */
+  orderBy?: Prisma.BidOrderByWithRelationInput | Prisma.BidOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Bids.
+   */
+  cursor?: Prisma.BidWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Bids from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Bids.
+   */
+  skip?: number
+  distinct?: Prisma.BidScalarFieldEnum | Prisma.BidScalarFieldEnum[]
+}
+
+/**
+ * Bid create
+ */
+export type BidCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Bid
+   */
+  select?: Prisma.BidSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Bid
+   */
+  omit?: Prisma.BidOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BidInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Bid.
+   */
+  data: Prisma.XOR<Prisma.BidCreateInput, Prisma.BidUncheckedCreateInput>
+}
+
+/**
+ * Bid createMany
+ */
+export type BidCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Bids.
+   */
+  data: Prisma.BidCreateManyInput | Prisma.BidCreateManyInput[]
+}
+
+/**
+ * Bid createManyAndReturn
+ */
+export type BidCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Bid
+   */
+  select?: Prisma.BidSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Bid
+   */
+  omit?: Prisma.BidOmit<ExtArgs> | null
+  /**
+   * The data used to create many Bids.
+   */
+  data: Prisma.BidCreateManyInput | Prisma.BidCreateManyInput[]
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BidIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Bid update
+ */
+export type BidUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Bid
+   */
+  select?: Prisma.BidSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Bid
+   */
+  omit?: Prisma.BidOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BidInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Bid.
+   */
+  data: Prisma.XOR<Prisma.BidUpdateInput, Prisma.BidUncheckedUpdateInput>
+  /**
+   * Choose, which Bid to update.
+   */
+  where: Prisma.BidWhereUniqueInput
+}
+
+/**
+ * Bid updateMany
+ */
+export type BidUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Bids.
+   */
+  data: Prisma.XOR<Prisma.BidUpdateManyMutationInput, Prisma.BidUncheckedUpdateManyInput>
+  /**
+   * Filter which Bids to update
+   */
+  where?: Prisma.BidWhereInput
+  /**
+   * Limit how many Bids to update.
+   */
+  limit?: number
+}
+
+/**
+ * Bid updateManyAndReturn
+ */
+export type BidUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Bid
+   */
+  select?: Prisma.BidSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Bid
+   */
+  omit?: Prisma.BidOmit<ExtArgs> | null
+  /**
+   * The data used to update Bids.
+   */
+  data: Prisma.XOR<Prisma.BidUpdateManyMutationInput, Prisma.BidUncheckedUpdateManyInput>
+  /**
+   * Filter which Bids to update
+   */
+  where?: Prisma.BidWhereInput
+  /**
+   * Limit how many Bids to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BidIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Bid upsert
+ */
+export type BidUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Bid
+   */
+  select?: Prisma.BidSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Bid
+   */
+  omit?: Prisma.BidOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BidInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Bid to update in case it exists.
+   */
+  where: Prisma.BidWhereUniqueInput
+  /**
+   * In case the Bid found by the `where` argument doesn't exist, create a new Bid with this data.
+   */
+  create: Prisma.XOR<Prisma.BidCreateInput, Prisma.BidUncheckedCreateInput>
+  /**
+   * In case the Bid was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.BidUpdateInput, Prisma.BidUncheckedUpdateInput>
+}
+
+/**
+ * Bid delete
+ */
+export type BidDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Bid
+   */
+  select?: Prisma.BidSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Bid
+   */
+  omit?: Prisma.BidOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BidInclude<ExtArgs> | null
+  /**
+   * Filter which Bid to delete.
+   */
+  where: Prisma.BidWhereUniqueInput
+}
+
+/**
+ * Bid deleteMany
+ */
+export type BidDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Bids to delete
+   */
+  where?: Prisma.BidWhereInput
+  /**
+   * Limit how many Bids to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Bid.revises
+ */
+export type Bid$revisesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Bid
+   */
+  select?: Prisma.BidSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Bid
+   */
+  omit?: Prisma.BidOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BidInclude<ExtArgs> | null
+  where?: Prisma.BidWhereInput
+}
+
+/**
+ * Bid.revisions
+ */
+export type Bid$revisionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Bid
+   */
+  select?: Prisma.BidSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Bid
+   */
+  omit?: Prisma.BidOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BidInclude<ExtArgs> | null
+  where?: Prisma.BidWhereInput
+  orderBy?: Prisma.BidOrderByWithRelationInput | Prisma.BidOrderByWithRelationInput[]
+  cursor?: Prisma.BidWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.BidScalarFieldEnum | Prisma.BidScalarFieldEnum[]
+}
+
+/**
+ * Bid.orders
+ */
+export type Bid$ordersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Order
+   */
+  select?: Prisma.OrderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Order
+   */
+  omit?: Prisma.OrderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderInclude<ExtArgs> | null
+  where?: Prisma.OrderWhereInput
+  orderBy?: Prisma.OrderOrderByWithRelationInput | Prisma.OrderOrderByWithRelationInput[]
+  cursor?: Prisma.OrderWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.OrderScalarFieldEnum | Prisma.OrderScalarFieldEnum[]
+}
+
+/**
+ * Bid without action
+ */
+export type BidDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Bid
+   */
+  select?: Prisma.BidSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Bid
+   */
+  omit?: Prisma.BidOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BidInclude<ExtArgs> | null
+}
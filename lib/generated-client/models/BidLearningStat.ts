@@ -0,0 +1,1289 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `BidLearningStat` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model BidLearningStat
+ * 
+ */
+export type BidLearningStatModel = runtime.Types.Result.DefaultSelection<Prisma.$BidLearningStatPayload>
+
+export type AggregateBidLearningStat = {
+  _count: BidLearningStatCountAggregateOutputType | null
+  _avg: BidLearningStatAvgAggregateOutputType | null
+  _sum: BidLearningStatSumAggregateOutputType | null
+  _min: BidLearningStatMinAggregateOutputType | null
+  _max: BidLearningStatMaxAggregateOutputType | null
+}
+
+export type BidLearningStatAvgAggregateOutputType = {
+  month: number | null
+  bidCount: number | null
+  ratioSum: number | null
+}
+
+export type BidLearningStatSumAggregateOutputType = {
+  month: number | null
+  bidCount: number | null
+  ratioSum: number | null
+}
+
+export type BidLearningStatMinAggregateOutputType = {
+  id: string | null
+  commodity: string | null
+  state: string | null
+  month: number | null
+  bidCount: number | null
+  ratioSum: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type BidLearningStatMaxAggregateOutputType = {
+  id: string | null
+  commodity: string | null
+  state: string | null
+  month: number | null
+  bidCount: number | null
+  ratioSum: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type BidLearningStatCountAggregateOutputType = {
+  id: number
+  commodity: number
+  state: number
+  month: number
+  bidCount: number
+  ratioSum: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type BidLearningStatAvgAggregateInputType = {
+  month?: true
+  bidCount?: true
+  ratioSum?: true
+}
+
+export type BidLearningStatSumAggregateInputType = {
+  month?: true
+  bidCount?: true
+  ratioSum?: true
+}
+
+export type BidLearningStatMinAggregateInputType = {
+  id?: true
+  commodity?: true
+  state?: true
+  month?: true
+  bidCount?: true
+  ratioSum?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type BidLearningStatMaxAggregateInputType = {
+  id?: true
+  commodity?: true
+  state?: true
+  month?: true
+  bidCount?: true
+  ratioSum?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type BidLearningStatCountAggregateInputType = {
+  id?: true
+  commodity?: true
+  state?: true
+  month?: true
+  bidCount?: true
+  ratioSum?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type BidLearningStatAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which BidLearningStat to aggregate.
+   */
+  where?: Prisma.BidLearningStatWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BidLearningStats to fetch.
+   */
+  orderBy?: Prisma.BidLearningStatOrderByWithRelationInput | Prisma.BidLearningStatOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.BidLearningStatWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BidLearningStats from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BidLearningStats.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned BidLearningStats
+  **/
+  _count?: true | BidLearningStatCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: BidLearningStatAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: BidLearningStatSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: BidLearningStatMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: BidLearningStatMaxAggregateInputType
+}
+
+export type GetBidLearningStatAggregateType<T extends BidLearningStatAggregateArgs> = {
+      [P in keyof T & keyof AggregateBidLearningStat]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateBidLearningStat[P]>
+    : Prisma.GetScalarType<T[P], AggregateBidLearningStat[P]>
+}
+
+
+
+
+export type BidLearningStatGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BidLearningStatWhereInput
+  orderBy?: Prisma.BidLearningStatOrderByWithAggregationInput | Prisma.BidLearningStatOrderByWithAggregationInput[]
+  by: Prisma.BidLearningStatScalarFieldEnum[] | Prisma.BidLearningStatScalarFieldEnum
+  having?: Prisma.BidLearningStatScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: BidLearningStatCountAggregateInputType | true
+  _avg?: BidLearningStatAvgAggregateInputType
+  _sum?: BidLearningStatSumAggregateInputType
+  _min?: BidLearningStatMinAggregateInputType
+  _max?: BidLearningStatMaxAggregateInputType
+}
+
+export type BidLearningStatGroupByOutputType = {
+  id: string
+  commodity: string
+  state: string
+  month: number
+  bidCount: number
+  ratioSum: number
+  createdAt: Date
+  updatedAt: Date
+  _count: BidLearningStatCountAggregateOutputType | null
+  _avg: BidLearningStatAvgAggregateOutputType | null
+  _sum: BidLearningStatSumAggregateOutputType | null
+  _min: BidLearningStatMinAggregateOutputType | null
+  _max: BidLearningStatMaxAggregateOutputType | null
+}
+
+type GetBidLearningStatGroupByPayload<T extends BidLearningStatGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<BidLearningStatGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof BidLearningStatGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], BidLearningStatGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], BidLearningStatGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type BidLearningStatWhereInput = {
+  AND?: Prisma.BidLearningStatWhereInput | Prisma.BidLearningStatWhereInput[]
+  OR?: Prisma.BidLearningStatWhereInput[]
+  NOT?: Prisma.BidLearningStatWhereInput | Prisma.BidLearningStatWhereInput[]
+  id?: Prisma.StringFilter<"BidLearningStat"> | string
+  commodity?: Prisma.StringFilter<"BidLearningStat"> | string
+  state?: Prisma.StringFilter<"BidLearningStat"> | string
+  month?: Prisma.IntFilter<"BidLearningStat"> | number
+  bidCount?: Prisma.IntFilter<"BidLearningStat"> | number
+  ratioSum?: Prisma.FloatFilter<"BidLearningStat"> | number
+  createdAt?: Prisma.DateTimeFilter<"BidLearningStat"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"BidLearningStat"> | Date | string
+}
+
+export type BidLearningStatOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  commodity?: Prisma.SortOrder
+  state?: Prisma.SortOrder
+  month?: Prisma.SortOrder
+  bidCount?: Prisma.SortOrder
+  ratioSum?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BidLearningStatWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  commodity_state_month?: Prisma.BidLearningStatCommodityStateMonthCompoundUniqueInput
+  AND?: Prisma.BidLearningStatWhereInput | Prisma.BidLearningStatWhereInput[]
+  OR?: Prisma.BidLearningStatWhereInput[]
+  NOT?: Prisma.BidLearningStatWhereInput | Prisma.BidLearningStatWhereInput[]
+  commodity?: Prisma.StringFilter<"BidLearningStat"> | string
+  state?: Prisma.StringFilter<"BidLearningStat"> | string
+  month?: Prisma.IntFilter<"BidLearningStat"> | number
+  bidCount?: Prisma.IntFilter<"BidLearningStat"> | number
+  ratioSum?: Prisma.FloatFilter<"BidLearningStat"> | number
+  createdAt?: Prisma.DateTimeFilter<"BidLearningStat"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"BidLearningStat"> | Date | string
+}, "id" | "commodity_state_month">
+
+export type BidLearningStatOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  commodity?: Prisma.SortOrder
+  state?: Prisma.SortOrder
+  month?: Prisma.SortOrder
+  bidCount?: Prisma.SortOrder
+  ratioSum?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.BidLearningStatCountOrderByAggregateInput
+  _avg?: Prisma.BidLearningStatAvgOrderByAggregateInput
+  _max?: Prisma.BidLearningStatMaxOrderByAggregateInput
+  _min?: Prisma.BidLearningStatMinOrderByAggregateInput
+  _sum?: Prisma.BidLearningStatSumOrderByAggregateInput
+}
+
+export type BidLearningStatScalarWhereWithAggregatesInput = {
+  AND?: Prisma.BidLearningStatScalarWhereWithAggregatesInput | Prisma.BidLearningStatScalarWhereWithAggregatesInput[]
+  OR?: Prisma.BidLearningStatScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.BidLearningStatScalarWhereWithAggregatesInput | Prisma.BidLearningStatScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"BidLearningStat"> | string
+  commodity?: Prisma.StringWithAggregatesFilter<"BidLearningStat"> | string
+  state?: Prisma.StringWithAggregatesFilter<"BidLearningStat"> | string
+  month?: Prisma.IntWithAggregatesFilter<"BidLearningStat"> | number
+  bidCount?: Prisma.IntWithAggregatesFilter<"BidLearningStat"> | number
+  ratioSum?: Prisma.FloatWithAggregatesFilter<"BidLearningStat"> | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"BidLearningStat"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"BidLearningStat"> | Date | string
+}
+
+export type BidLearningStatCreateInput = {
+  id?: string
+  commodity: string
+  state: string
+  month: number
+  bidCount?: number
+  ratioSum?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BidLearningStatUncheckedCreateInput = {
+  id?: string
+  commodity: string
+  state: string
+  month: number
+  bidCount?: number
+  ratioSum?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BidLearningStatUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  commodity?: Prisma.StringFieldUpdateOperationsInput | string
+  state?: Prisma.StringFieldUpdateOperationsInput | string
+  month?: Prisma.IntFieldUpdateOperationsInput | number
+  bidCount?: Prisma.IntFieldUpdateOperationsInput | number
+  ratioSum?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BidLearningStatUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  commodity?: Prisma.StringFieldUpdateOperationsInput | string
+  state?: Prisma.StringFieldUpdateOperationsInput | string
+  month?: Prisma.IntFieldUpdateOperationsInput | number
+  bidCount?: Prisma.IntFieldUpdateOperationsInput | number
+  ratioSum?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BidLearningStatCreateManyInput = {
+  id?: string
+  commodity: string
+  state: string
+  month: number
+  bidCount?: number
+  ratioSum?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BidLearningStatUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  commodity?: Prisma.StringFieldUpdateOperationsInput | string
+  state?: Prisma.StringFieldUpdateOperationsInput | string
+  month?: Prisma.IntFieldUpdateOperationsInput | number
+  bidCount?: Prisma.IntFieldUpdateOperationsInput | number
+  ratioSum?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BidLearningStatUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  commodity?: Prisma.StringFieldUpdateOperationsInput | string
+  state?: Prisma.StringFieldUpdateOperationsInput | string
+  month?: Prisma.IntFieldUpdateOperationsInput | number
+  bidCount?: Prisma.IntFieldUpdateOperationsInput | number
+  ratioSum?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BidLearningStatCommodityStateMonthCompoundUniqueInput = {
+  commodity: string
+  state: string
+  month: number
+}
+
+export type BidLearningStatCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  commodity?: Prisma.SortOrder
+  state?: Prisma.SortOrder
+  month?: Prisma.SortOrder
+  bidCount?: Prisma.SortOrder
+  ratioSum?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BidLearningStatAvgOrderByAggregateInput = {
+  month?: Prisma.SortOrder
+  bidCount?: Prisma.SortOrder
+  ratioSum?: Prisma.SortOrder
+}
+
+export type BidLearningStatMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  commodity?: Prisma.SortOrder
+  state?: Prisma.SortOrder
+  month?: Prisma.SortOrder
+  bidCount?: Prisma.SortOrder
+  ratioSum?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BidLearningStatMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  commodity?: Prisma.SortOrder
+  state?: Prisma.SortOrder
+  month?: Prisma.SortOrder
+  bidCount?: Prisma.SortOrder
+  ratioSum?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BidLearningStatSumOrderByAggregateInput = {
+  month?: Prisma.SortOrder
+  bidCount?: Prisma.SortOrder
+  ratioSum?: Prisma.SortOrder
+}
+
+
+
+export type BidLearningStatSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  commodity?: boolean
+  state?: boolean
+  month?: boolean
+  bidCount?: boolean
+  ratioSum?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["bidLearningStat"]>
+
+export type BidLearningStatSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  commodity?: boolean
+  state?: boolean
+  month?: boolean
+  bidCount?: boolean
+  ratioSum?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["bidLearningStat"]>
+
+export type BidLearningStatSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  commodity?: boolean
+  state?: boolean
+  month?: boolean
+  bidCount?: boolean
+  ratioSum?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["bidLearningStat"]>
+
+export type BidLearningStatSelectScalar = {
+  id?: boolean
+  commodity?: boolean
+  state?: boolean
+  month?: boolean
+  bidCount?: boolean
+  ratioSum?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type BidLearningStatOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "commodity" | "state" | "month" | "bidCount" | "ratioSum" | "createdAt" | "updatedAt", ExtArgs["result"]["bidLearningStat"]>
+
+export type $BidLearningStatPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "BidLearningStat"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    commodity: string
+    state: string
+    month: number
+    bidCount: number
+    ratioSum: number
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["bidLearningStat"]>
+  composites: {}
+}
+
+export type BidLearningStatGetPayload<S extends boolean | null | undefined | BidLearningStatDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$BidLearningStatPayload, S>
+
+export type BidLearningStatCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<BidLearningStatFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: BidLearningStatCountAggregateInputType | true
+  }
+
+export interface BidLearningStatDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['BidLearningStat'], meta: { name: 'BidLearningStat' } }
+  /**
+   * Find zero or one BidLearningStat that matches the filter.
+   * @param {BidLearningStatFindUniqueArgs} args - Arguments to find a BidLearningStat
+   * @example
+   * // Get one BidLearningStat
+   * const bidLearningStat = await prisma.bidLearningStat.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends BidLearningStatFindUniqueArgs>(args: Prisma.SelectSubset<T, BidLearningStatFindUniqueArgs<ExtArgs>>): Prisma.Prisma__BidLearningStatClient<runtime.Types.Result.GetResult<Prisma.$BidLearningStatPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one BidLearningStat that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {BidLearningStatFindUniqueOrThrowArgs} args - Arguments to find a BidLearningStat
+   * @example
+   * // Get one BidLearningStat
+   * const bidLearningStat = await prisma.bidLearningStat.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends BidLearningStatFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, BidLearningStatFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__BidLearningStatClient<runtime.Types.Result.GetResult<Prisma.$BidLearningStatPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first BidLearningStat that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BidLearningStatFindFirstArgs} args - Arguments to find a BidLearningStat
+   * @example
+   * // Get one BidLearningStat
+   * const bidLearningStat = await prisma.bidLearningStat.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends BidLearningStatFindFirstArgs>(args?: Prisma.SelectSubset<T, BidLearningStatFindFirstArgs<ExtArgs>>): Prisma.Prisma__BidLearningStatClient<runtime.Types.Result.GetResult<Prisma.$BidLearningStatPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first BidLearningStat that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BidLearningStatFindFirstOrThrowArgs} args - Arguments to find a BidLearningStat
+   * @example
+   * // Get one BidLearningStat
+   * const bidLearningStat = await prisma.bidLearningStat.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends BidLearningStatFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, BidLearningStatFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__BidLearningStatClient<runtime.Types.Result.GetResult<Prisma.$BidLearningStatPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more BidLearningStats that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BidLearningStatFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all BidLearningStats
+   * const bidLearningStats = await prisma.bidLearningStat.findMany()
+   * 
+   * // Get first 10 BidLearningStats
+   * const bidLearningStats = await prisma.bidLearningStat.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const bidLearningStatWithIdOnly = await prisma.bidLearningStat.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends BidLearningStatFindManyArgs>(args?: Prisma.SelectSubset<T, BidLearningStatFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BidLearningStatPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a BidLearningStat.
+   * @param {BidLearningStatCreateArgs} args - Arguments to create a BidLearningStat.
+   * @example
+   * // Create one BidLearningStat
+   * const BidLearningStat = await prisma.bidLearningStat.create({
+   *   data: {
+   *     // ... data to create a BidLearningStat
+   *   }
+   * })
+   * 
+   */
+  create<T extends BidLearningStatCreateArgs>(args: Prisma.SelectSubset<T, BidLearningStatCreateArgs<ExtArgs>>): Prisma.Prisma__BidLearningStatClient<runtime.Types.Result.GetResult<Prisma.$BidLearningStatPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many BidLearningStats.
+   * @param {BidLearningStatCreateManyArgs} args - Arguments to create many BidLearningStats.
+   * @example
+   * // Create many BidLearningStats
+   * const bidLearningStat = await prisma.bidLearningStat.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends BidLearningStatCreateManyArgs>(args?: Prisma.SelectSubset<T, BidLearningStatCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many BidLearningStats and returns the data saved in the database.
+   * @param {BidLearningStatCreateManyAndReturnArgs} args - Arguments to create many BidLearningStats.
+   * @example
+   * // Create many BidLearningStats
+   * const bidLearningStat = await prisma.bidLearningStat.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many BidLearningStats and only return the `id`
+   * const bidLearningStatWithIdOnly = await prisma.bidLearningStat.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends BidLearningStatCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, BidLearningStatCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BidLearningStatPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a BidLearningStat.
+   * @param {BidLearningStatDeleteArgs} args - Arguments to delete one BidLearningStat.
+   * @example
+   * // Delete one BidLearningStat
+   * const BidLearningStat = await prisma.bidLearningStat.delete({
+   *   where: {
+   *     // ... filter to delete one BidLearningStat
+   *   }
+   * })
+   * 
+   */
+  delete<T extends BidLearningStatDeleteArgs>(args: Prisma.SelectSubset<T, BidLearningStatDeleteArgs<ExtArgs>>): Prisma.Prisma__BidLearningStatClient<runtime.Types.Result.GetResult<Prisma.$BidLearningStatPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one BidLearningStat.
+   * @param {BidLearningStatUpdateArgs} args - Arguments to update one BidLearningStat.
+   * @example
+   * // Update one BidLearningStat
+   * const bidLearningStat = await prisma.bidLearningStat.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends BidLearningStatUpdateArgs>(args: Prisma.SelectSubset<T, BidLearningStatUpdateArgs<ExtArgs>>): Prisma.Prisma__BidLearningStatClient<runtime.Types.Result.GetResult<Prisma.$BidLearningStatPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more BidLearningStats.
+   * @param {BidLearningStatDeleteManyArgs} args - Arguments to filter BidLearningStats to delete.
+   * @example
+   * // Delete a few BidLearningStats
+   * const { count } = await prisma.bidLearningStat.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends BidLearningStatDeleteManyArgs>(args?: Prisma.SelectSubset<T, BidLearningStatDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more BidLearningStats.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BidLearningStatUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many BidLearningStats
+   * const bidLearningStat = await prisma.bidLearningStat.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends BidLearningStatUpdateManyArgs>(args: Prisma.SelectSubset<T, BidLearningStatUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more BidLearningStats and returns the data updated in the database.
+   * @param {BidLearningStatUpdateManyAndReturnArgs} args - Arguments to update many BidLearningStats.
+   * @example
+   * // Update many BidLearningStats
+   * const bidLearningStat = await prisma.bidLearningStat.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more BidLearningStats and only return the `id`
+   * const bidLearningStatWithIdOnly = await prisma.bidLearningStat.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends BidLearningStatUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, BidLearningStatUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BidLearningStatPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one BidLearningStat.
+   * @param {BidLearningStatUpsertArgs} args - Arguments to update or create a BidLearningStat.
+   * @example
+   * // Update or create a BidLearningStat
+   * const bidLearningStat = await prisma.bidLearningStat.upsert({
+   *   create: {
+   *     // ... data to create a BidLearningStat
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the BidLearningStat we want to update
+   *   }
+   * })
+   */
+  upsert<T extends BidLearningStatUpsertArgs>(args: Prisma.SelectSubset<T, BidLearningStatUpsertArgs<ExtArgs>>): Prisma.Prisma__BidLearningStatClient<runtime.Types.Result.GetResult<Prisma.$BidLearningStatPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of BidLearningStats.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BidLearningStatCountArgs} args - Arguments to filter BidLearningStats to count.
+   * @example
+   * // Count the number of BidLearningStats
+   * const count = await prisma.bidLearningStat.count({
+   *   where: {
+   *     // ... the filter for the BidLearningStats we want to count
+   *   }
+   * })
+  **/
+  count<T extends BidLearningStatCountArgs>(
+    args?: Prisma.Subset<T, BidLearningStatCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], BidLearningStatCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a BidLearningStat.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BidLearningStatAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends BidLearningStatAggregateArgs>(args: Prisma.Subset<T, BidLearningStatAggregateArgs>): Prisma.PrismaPromise<GetBidLearningStatAggregateType<T>>
+
+  /**
+   * Group by BidLearningStat.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BidLearningStatGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends BidLearningStatGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: BidLearningStatGroupByArgs['orderBy'] }
+      : { orderBy?: BidLearningStatGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, BidLearningStatGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetBidLearningStatGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the BidLearningStat model
+ */
+readonly fields: BidLearningStatFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for BidLearningStat.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__BidLearningStatClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the BidLearningStat model
+ */
+export interface BidLearningStatFieldRefs {
+  readonly id: Prisma.FieldRef<"BidLearningStat", 'String'>
+  readonly commodity: Prisma.FieldRef<"BidLearningStat", 'String'>
+  readonly state: Prisma.FieldRef<"BidLearningStat", 'String'>
+  readonly month: Prisma.FieldRef<"BidLearningStat", 'Int'>
+  readonly bidCount: Prisma.FieldRef<"BidLearningStat", 'Int'>
+  readonly ratioSum: Prisma.FieldRef<"BidLearningStat", 'Float'>
+  readonly createdAt: Prisma.FieldRef<"BidLearningStat", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"BidLearningStat", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * BidLearningStat findUnique
+ */
+export type BidLearningStatFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BidLearningStat
+   */
+  select?: Prisma.BidLearningStatSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BidLearningStat
+   */
+  omit?: Prisma.BidLearningStatOmit<ExtArgs> | null
+  /**
+   * Filter, which BidLearningStat to fetch.
+   */
+  where: Prisma.BidLearningStatWhereUniqueInput
+}
+
+/**
+ * BidLearningStat findUniqueOrThrow
+ */
+export type BidLearningStatFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BidLearningStat
+   */
+  select?: Prisma.BidLearningStatSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BidLearningStat
+   */
+  omit?: Prisma.BidLearningStatOmit<ExtArgs> | null
+  /**
+   * Filter, which BidLearningStat to fetch.
+   */
+  where: Prisma.BidLearningStatWhereUniqueInput
+}
+
+/**
+ * BidLearningStat findFirst
+ */
+export type BidLearningStatFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BidLearningStat
+   */
+  select?: Prisma.BidLearningStatSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BidLearningStat
+   */
+  omit?: Prisma.BidLearningStatOmit<ExtArgs> | null
+  /**
+   * Filter, which BidLearningStat to fetch.
+   */
+  where?: Prisma.BidLearningStatWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BidLearningStats to fetch.
+   */
+  orderBy?: Prisma.BidLearningStatOrderByWithRelationInput | Prisma.BidLearningStatOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for BidLearningStats.
+   */
+  cursor?: Prisma.BidLearningStatWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BidLearningStats from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BidLearningStats.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of BidLearningStats.
+   */
+  distinct?: Prisma.BidLearningStatScalarFieldEnum | Prisma.BidLearningStatScalarFieldEnum[]
+}
+
+/**
+ * BidLearningStat findFirstOrThrow
+ */
+export type BidLearningStatFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BidLearningStat
+   */
+  select?: Prisma.BidLearningStatSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BidLearningStat
+   */
+  omit?: Prisma.BidLearningStatOmit<ExtArgs> | null
+  /**
+   * Filter, which BidLearningStat to fetch.
+   */
+  where?: Prisma.BidLearningStatWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BidLearningStats to fetch.
+   */
+  orderBy?: Prisma.BidLearningStatOrderByWithRelationInput | Prisma.BidLearningStatOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for BidLearningStats.
+   */
+  cursor?: Prisma.BidLearningStatWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BidLearningStats from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BidLearningStats.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of BidLearningStats.
+   */
+  distinct?: Prisma.BidLearningStatScalarFieldEnum | Prisma.BidLearningStatScalarFieldEnum[]
+}
+
+/**
+ * BidLearningStat findMany
+ */
+export type BidLearningStatFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BidLearningStat
+   */
+  select?: Prisma.BidLearningStatSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BidLearningStat
+   */
+  omit?: Prisma.BidLearningStatOmit<ExtArgs> | null
+  /**
+   * Filter, which BidLearningStats to fetch.
+   */
+  where?: Prisma.BidLearningStatWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BidLearningStats to fetch.
+   */
+  orderBy?: Prisma.BidLearningStatOrderByWithRelationInput | Prisma.BidLearningStatOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing BidLearningStats.
+   */
+  cursor?: Prisma.BidLearningStatWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BidLearningStats from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BidLearningStats.
+   */
+  skip?: number
+  distinct?: Prisma.BidLearningStatScalarFieldEnum | Prisma.BidLearningStatScalarFieldEnum[]
+}
+
+/**
+ * BidLearningStat create
+ */
+export type BidLearningStatCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BidLearningStat
+   */
+  select?: Prisma.BidLearningStatSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BidLearningStat
+   */
+  omit?: Prisma.BidLearningStatOmit<ExtArgs> | null
+  /**
+   * The data needed to create a BidLearningStat.
+   */
+  data: Prisma.XOR<Prisma.BidLearningStatCreateInput, Prisma.BidLearningStatUncheckedCreateInput>
+}
+
+/**
+ * BidLearningStat createMany
+ */
+export type BidLearningStatCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many BidLearningStats.
+   */
+  data: Prisma.BidLearningStatCreateManyInput | Prisma.BidLearningStatCreateManyInput[]
+}
+
+/**
+ * BidLearningStat createManyAndReturn
+ */
+export type BidLearningStatCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BidLearningStat
+   */
+  select?: Prisma.BidLearningStatSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the BidLearningStat
+   */
+  omit?: Prisma.BidLearningStatOmit<ExtArgs> | null
+  /**
+   * The data used to create many BidLearningStats.
+   */
+  data: Prisma.BidLearningStatCreateManyInput | Prisma.BidLearningStatCreateManyInput[]
+}
+
+/**
+ * BidLearningStat update
+ */
+export type BidLearningStatUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BidLearningStat
+   */
+  select?: Prisma.BidLearningStatSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BidLearningStat
+   */
+  omit?: Prisma.BidLearningStatOmit<ExtArgs> | null
+  /**
+   * The data needed to update a BidLearningStat.
+   */
+  data: Prisma.XOR<Prisma.BidLearningStatUpdateInput, Prisma.BidLearningStatUncheckedUpdateInput>
+  /**
+   * Choose, which BidLearningStat to update.
+   */
+  where: Prisma.BidLearningStatWhereUniqueInput
+}
+
+/**
+ * BidLearningStat updateMany
+ */
+export type BidLearningStatUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update BidLearningStats.
+   */
+  data: Prisma.XOR<Prisma.BidLearningStatUpdateManyMutationInput, Prisma.BidLearningStatUncheckedUpdateManyInput>
+  /**
+   * Filter which BidLearningStats to update
+   */
+  where?: Prisma.BidLearningStatWhereInput
+  /**
+   * Limit how many BidLearningStats to update.
+   */
+  limit?: number
+}
+
+/**
+ * BidLearningStat updateManyAndReturn
+ */
+export type BidLearningStatUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BidLearningStat
+   */
+  select?: Prisma.BidLearningStatSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the BidLearningStat
+   */
+  omit?: Prisma.BidLearningStatOmit<ExtArgs> | null
+  /**
+   * The data used to update BidLearningStats.
+   */
+  data: Prisma.XOR<Prisma.BidLearningStatUpdateManyMutationInput, Prisma.BidLearningStatUncheckedUpdateManyInput>
+  /**
+   * Filter which BidLearningStats to update
+   */
+  where?: Prisma.BidLearningStatWhereInput
+  /**
+   * Limit how many BidLearningStats to update.
+   */
+  limit?: number
+}
+
+/**
+ * BidLearningStat upsert
+ */
+export type BidLearningStatUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BidLearningStat
+   */
+  select?: Prisma.BidLearningStatSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BidLearningStat
+   */
+  omit?: Prisma.BidLearningStatOmit<ExtArgs> | null
+  /**
+   * The filter to search for the BidLearningStat to update in case it exists.
+   */
+  where: Prisma.BidLearningStatWhereUniqueInput
+  /**
+   * In case the BidLearningStat found by the `where` argument doesn't exist, create a new BidLearningStat with this data.
+   */
+  create: Prisma.XOR<Prisma.BidLearningStatCreateInput, Prisma.BidLearningStatUncheckedCreateInput>
+  /**
+   * In case the BidLearningStat was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.BidLearningStatUpdateInput, Prisma.BidLearningStatUncheckedUpdateInput>
+}
+
+/**
+ * BidLearningStat delete
+ */
+export type BidLearningStatDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BidLearningStat
+   */
+  select?: Prisma.BidLearningStatSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BidLearningStat
+   */
+  omit?: Prisma.BidLearningStatOmit<ExtArgs> | null
+  /**
+   * Filter which BidLearningStat to delete.
+   */
+  where: Prisma.BidLearningStatWhereUniqueInput
+}
+
+/**
+ * BidLearningStat deleteMany
+ */
+export type BidLearningStatDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which BidLearningStats to delete
+   */
+  where?: Prisma.BidLearningStatWhereInput
+  /**
+   * Limit how many BidLearningStats to delete.
+   */
+  limit?: number
+}
+
+/**
+ * BidLearningStat without action
+ */
+export type BidLearningStatDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BidLearningStat
+   */
+  select?: Prisma.BidLearningStatSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BidLearningStat
+   */
+  omit?: Prisma.BidLearningStatOmit<ExtArgs> | null
+}
@@ -0,0 +1,1536 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `Buyer` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model Buyer
+ * 
+ */
+export type BuyerModel = runtime.Types.Result.DefaultSelection<Prisma.$BuyerPayload>
+
+export type AggregateBuyer = {
+  _count: BuyerCountAggregateOutputType | null
+  _avg: BuyerAvgAggregateOutputType | null
+  _sum: BuyerSumAggregateOutputType | null
+  _min: BuyerMinAggregateOutputType | null
+  _max: BuyerMaxAggregateOutputType | null
+}
+
+export type BuyerAvgAggregateOutputType = {
+  rating: number | null
+  dailyCapacity: number | null
+  avgResponseTime: number | null
+  successRate: number | null
+}
+
+export type BuyerSumAggregateOutputType = {
+  rating: number | null
+  dailyCapacity: number | null
+  avgResponseTime: number | null
+  successRate: number | null
+}
+
+export type BuyerMinAggregateOutputType = {
+  id: string | null
+  subscriberId: string | null
+  name: string | null
+  category: $Enums.BuyerCategory | null
+  logo: string | null
+  rating: number | null
+  location: string | null
+  gstin: string | null
+  dailyCapacity: number | null
+  avgResponseTime: number | null
+  successRate: number | null
+  verified: boolean | null
+  suspended: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type BuyerMaxAggregateOutputType = {
+  id: string | null
+  subscriberId: string | null
+  name: string | null
+  category: $Enums.BuyerCategory | null
+  logo: string | null
+  rating: number | null
+  location: string | null
+  gstin: string | null
+  dailyCapacity: number | null
+  avgResponseTime: number | null
+  successRate: number | null
+  verified: boolean | null
+  suspended: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type BuyerCountAggregateOutputType = {
+  id: number
+  subscriberId: number
+  name: number
+  category: number
+  logo: number
+  rating: number
+  location: number
+  gstin: number
+  operatingStates: number
+  commodityPreferences: number
+  dailyCapacity: number
+  avgResponseTime: number
+  successRate: number
+  verified: number
+  suspended: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type BuyerAvgAggregateInputType = {
+  rating?: true
+  dailyCapacity?: true
+  avgResponseTime?: true
+  successRate?: true
+}
+
+export type BuyerSumAggregateInputType = {
+  rating?: true
+  dailyCapacity?: true
+  avgResponseTime?: true
+  successRate?: true
+}
+
+export type BuyerMinAggregateInputType = {
+  id?: true
+  subscriberId?: true
+  name?: true
+  category?: true
+  logo?: true
+  rating?: true
+  location?: true
+  gstin?: true
+  dailyCapacity?: true
+  avgResponseTime?: true
+  successRate?: true
+  verified?: true
+  suspended?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type BuyerMaxAggregateInputType = {
+  id?: true
+  subscriberId?: true
+  name?: true
+  category?: true
+  logo?: true
+  rating?: true
+  location?: true
+  gstin?: true
+  dailyCapacity?: true
+  avgResponseTime?: true
+  successRate?: true
+  verified?: true
+  suspended?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type BuyerCountAggregateInputType = {
+  id?: true
+  subscriberId?: true
+  name?: true
+  category?: true
+  logo?: true
+  rating?: true
+  location?: true
+  gstin?: true
+  operatingStates?: true
+  commodityPreferences?: true
+  dailyCapacity?: true
+  avgResponseTime?: true
+  successRate?: true
+  verified?: true
+  suspended?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type BuyerAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Buyer to aggregate.
+   */
+  where?: Prisma.BuyerWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Buyers to fetch.
+   */
+  orderBy?: Prisma.BuyerOrderByWithRelationInput | Prisma.BuyerOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.BuyerWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Buyers from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Buyers.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Buyers
+  **/
+  _count?: true | BuyerCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: BuyerAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: BuyerSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: BuyerMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: BuyerMaxAggregateInputType
+}
+
+export type GetBuyerAggregateType<T extends BuyerAggregateArgs> = {
+      [P in keyof T & keyof AggregateBuyer]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateBuyer[P]>
+    : Prisma.GetScalarType<T[P], AggregateBuyer[P]>
+}
+
+
+
+
+export type BuyerGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BuyerWhereInput
+  orderBy?: Prisma.BuyerOrderByWithAggregationInput | Prisma.BuyerOrderByWithAggregationInput[]
+  by: Prisma.BuyerScalarFieldEnum[] | Prisma.BuyerScalarFieldEnum
+  having?: Prisma.BuyerScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: BuyerCountAggregateInputType | true
+  _avg?: BuyerAvgAggregateInputType
+  _sum?: BuyerSumAggregateInputType
+  _min?: BuyerMinAggregateInputType
+  _max?: BuyerMaxAggregateInputType
+}
+
+export type BuyerGroupByOutputType = {
+  id: string
+  subscriberId: string
+  name: string
+  category: $Enums.BuyerCategory
+  logo: string
+  rating: number
+  location: string
+  gstin: string
+  operatingStates: runtime.JsonValue
+  commodityPreferences: runtime.JsonValue
+  dailyCapacity: number
+  avgResponseTime: number
+  successRate: number
+  verified: boolean
+  suspended: boolean
+  createdAt: Date
+  updatedAt: Date
+  _count: BuyerCountAggregateOutputType | null
+  _avg: BuyerAvgAggregateOutputType | null
+  _sum: BuyerSumAggregateOutputType | null
+  _min: BuyerMinAggregateOutputType | null
+  _max: BuyerMaxAggregateOutputType | null
+}
+
+type GetBuyerGroupByPayload<T extends BuyerGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<BuyerGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof BuyerGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], BuyerGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], BuyerGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type BuyerWhereInput = {
+  AND?: Prisma.BuyerWhereInput | Prisma.BuyerWhereInput[]
+  OR?: Prisma.BuyerWhereInput[]
+  NOT?: Prisma.BuyerWhereInput | Prisma.BuyerWhereInput[]
+  id?: Prisma.StringFilter<"Buyer"> | string
+  subscriberId?: Prisma.StringFilter<"Buyer"> | string
+  name?: Prisma.StringFilter<"Buyer"> | string
+  category?: Prisma.EnumBuyerCategoryFilter<"Buyer"> | $Enums.BuyerCategory
+  logo?: Prisma.StringFilter<"Buyer"> | string
+  rating?: Prisma.FloatFilter<"Buyer"> | number
+  location?: Prisma.StringFilter<"Buyer"> | string
+  gstin?: Prisma.StringFilter<"Buyer"> | string
+  operatingStates?: Prisma.JsonFilter<"Buyer">
+  commodityPreferences?: Prisma.JsonFilter<"Buyer">
+  dailyCapacity?: Prisma.IntFilter<"Buyer"> | number
+  avgResponseTime?: Prisma.FloatFilter<"Buyer"> | number
+  successRate?: Prisma.FloatFilter<"Buyer"> | number
+  verified?: Prisma.BoolFilter<"Buyer"> | boolean
+  suspended?: Prisma.BoolFilter<"Buyer"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"Buyer"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Buyer"> | Date | string
+}
+
+export type BuyerOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  subscriberId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  category?: Prisma.SortOrder
+  logo?: Prisma.SortOrder
+  rating?: Prisma.SortOrder
+  location?: Prisma.SortOrder
+  gstin?: Prisma.SortOrder
+  operatingStates?: Prisma.SortOrder
+  commodityPreferences?: Prisma.SortOrder
+  dailyCapacity?: Prisma.SortOrder
+  avgResponseTime?: Prisma.SortOrder
+  successRate?: Prisma.SortOrder
+  verified?: Prisma.SortOrder
+  suspended?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BuyerWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  subscriberId?: string
+  AND?: Prisma.BuyerWhereInput | Prisma.BuyerWhereInput[]
+  OR?: Prisma.BuyerWhereInput[]
+  NOT?: Prisma.BuyerWhereInput | Prisma.BuyerWhereInput[]
+  name?: Prisma.StringFilter<"Buyer"> | string
+  category?: Prisma.EnumBuyerCategoryFilter<"Buyer"> | $Enums.BuyerCategory
+  logo?: Prisma.StringFilter<"Buyer"> | string
+  rating?: Prisma.FloatFilter<"Buyer"> | number
+  location?: Prisma.StringFilter<"Buyer"> | string
+  gstin?: Prisma.StringFilter<"Buyer"> | string
+  operatingStates?: Prisma.JsonFilter<"Buyer">
+  commodityPreferences?: Prisma.JsonFilter<"Buyer">
+  dailyCapacity?: Prisma.IntFilter<"Buyer"> | number
+  avgResponseTime?: Prisma.FloatFilter<"Buyer"> | number
+  successRate?: Prisma.FloatFilter<"Buyer"> | number
+  verified?: Prisma.BoolFilter<"Buyer"> | boolean
+  suspended?: Prisma.BoolFilter<"Buyer"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"Buyer"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Buyer"> | Date | string
+}, "id" | "subscriberId">
+
+export type BuyerOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  subscriberId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  category?: Prisma.SortOrder
+  logo?: Prisma.SortOrder
+  rating?: Prisma.SortOrder
+  location?: Prisma.SortOrder
+  gstin?: Prisma.SortOrder
+  operatingStates?: Prisma.SortOrder
+  commodityPreferences?: Prisma.SortOrder
+  dailyCapacity?: Prisma.SortOrder
+  avgResponseTime?: Prisma.SortOrder
+  successRate?: Prisma.SortOrder
+  verified?: Prisma.SortOrder
+  suspended?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.BuyerCountOrderByAggregateInput
+  _avg?: Prisma.BuyerAvgOrderByAggregateInput
+  _max?: Prisma.BuyerMaxOrderByAggregateInput
+  _min?: Prisma.BuyerMinOrderByAggregateInput
+  _sum?: Prisma.BuyerSumOrderByAggregateInput
+}
+
+export type BuyerScalarWhereWithAggregatesInput = {
+  AND?: Prisma.BuyerScalarWhereWithAggregatesInput | Prisma.BuyerScalarWhereWithAggregatesInput[]
+  OR?: Prisma.BuyerScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.BuyerScalarWhereWithAggregatesInput | Prisma.BuyerScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"Buyer"> | string
+  subscriberId?: Prisma.StringWithAggregatesFilter<"Buyer"> | string
+  name?: Prisma.StringWithAggregatesFilter<"Buyer"> | string
+  category?: Prisma.EnumBuyerCategoryWithAggregatesFilter<"Buyer"> | $Enums.BuyerCategory
+  logo?: Prisma.StringWithAggregatesFilter<"Buyer"> | string
+  rating?: Prisma.FloatWithAggregatesFilter<"Buyer"> | number
+  location?: Prisma.StringWithAggregatesFilter<"Buyer"> | string
+  gstin?: Prisma.StringWithAggregatesFilter<"Buyer"> | string
+  operatingStates?: Prisma.JsonWithAggregatesFilter<"Buyer">
+  commodityPreferences?: Prisma.JsonWithAggregatesFilter<"Buyer">
+  dailyCapacity?: Prisma.IntWithAggregatesFilter<"Buyer"> | number
+  avgResponseTime?: Prisma.FloatWithAggregatesFilter<"Buyer"> | number
+  successRate?: Prisma.FloatWithAggregatesFilter<"Buyer"> | number
+  verified?: Prisma.BoolWithAggregatesFilter<"Buyer"> | boolean
+  suspended?: Prisma.BoolWithAggregatesFilter<"Buyer"> | boolean
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"Buyer"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Buyer"> | Date | string
+}
+
+export type BuyerCreateInput = {
+  id?: string
+  subscriberId: string
+  name: string
+  category?: $Enums.BuyerCategory
+  logo: string
+  rating: number
+  location: string
+  gstin: string
+  operatingStates: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  commodityPreferences: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  dailyCapacity: number
+  avgResponseTime: number
+  successRate: number
+  verified?: boolean
+  suspended?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BuyerUncheckedCreateInput = {
+  id?: string
+  subscriberId: string
+  name: string
+  category?: $Enums.BuyerCategory
+  logo: string
+  rating: number
+  location: string
+  gstin: string
+  operatingStates: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  commodityPreferences: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  dailyCapacity: number
+  avgResponseTime: number
+  successRate: number
+  verified?: boolean
+  suspended?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BuyerUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  subscriberId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.EnumBuyerCategoryFieldUpdateOperationsInput | $Enums.BuyerCategory
+  logo?: Prisma.StringFieldUpdateOperationsInput | string
+  rating?: Prisma.FloatFieldUpdateOperationsInput | number
+  location?: Prisma.StringFieldUpdateOperationsInput | string
+  gstin?: Prisma.StringFieldUpdateOperationsInput | string
+  operatingStates?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  commodityPreferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  dailyCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  avgResponseTime?: Prisma.FloatFieldUpdateOperationsInput | number
+  successRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  suspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BuyerUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  subscriberId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.EnumBuyerCategoryFieldUpdateOperationsInput | $Enums.BuyerCategory
+  logo?: Prisma.StringFieldUpdateOperationsInput | string
+  rating?: Prisma.FloatFieldUpdateOperationsInput | number
+  location?: Prisma.StringFieldUpdateOperationsInput | string
+  gstin?: Prisma.StringFieldUpdateOperationsInput | string
+  operatingStates?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  commodityPreferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  dailyCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  avgResponseTime?: Prisma.FloatFieldUpdateOperationsInput | number
+  successRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  suspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BuyerCreateManyInput = {
+  id?: string
+  subscriberId: string
+  name: string
+  category?: $Enums.BuyerCategory
+  logo: string
+  rating: number
+  location: string
+  gstin: string
+  operatingStates: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  commodityPreferences: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  dailyCapacity: number
+  avgResponseTime: number
+  successRate: number
+  verified?: boolean
+  suspended?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BuyerUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  subscriberId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.EnumBuyerCategoryFieldUpdateOperationsInput | $Enums.BuyerCategory
+  logo?: Prisma.StringFieldUpdateOperationsInput | string
+  rating?: Prisma.FloatFieldUpdateOperationsInput | number
+  location?: Prisma.StringFieldUpdateOperationsInput | string
+  gstin?: Prisma.StringFieldUpdateOperationsInput | string
+  operatingStates?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  commodityPreferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  dailyCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  avgResponseTime?: Prisma.FloatFieldUpdateOperationsInput | number
+  successRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  suspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BuyerUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  subscriberId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.EnumBuyerCategoryFieldUpdateOperationsInput | $Enums.BuyerCategory
+  logo?: Prisma.StringFieldUpdateOperationsInput | string
+  rating?: Prisma.FloatFieldUpdateOperationsInput | number
+  location?: Prisma.StringFieldUpdateOperationsInput | string
+  gstin?: Prisma.StringFieldUpdateOperationsInput | string
+  operatingStates?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  commodityPreferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  dailyCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  avgResponseTime?: Prisma.FloatFieldUpdateOperationsInput | number
+  successRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  suspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BuyerCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  subscriberId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  category?: Prisma.SortOrder
+  logo?: Prisma.SortOrder
+  rating?: Prisma.SortOrder
+  location?: Prisma.SortOrder
+  gstin?: Prisma.SortOrder
+  operatingStates?: Prisma.SortOrder
+  commodityPreferences?: Prisma.SortOrder
+  dailyCapacity?: Prisma.SortOrder
+  avgResponseTime?: Prisma.SortOrder
+  successRate?: Prisma.SortOrder
+  verified?: Prisma.SortOrder
+  suspended?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BuyerAvgOrderByAggregateInput = {
+  rating?: Prisma.SortOrder
+  dailyCapacity?: Prisma.SortOrder
+  avgResponseTime?: Prisma.SortOrder
+  successRate?: Prisma.SortOrder
+}
+
+export type BuyerMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  subscriberId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  category?: Prisma.SortOrder
+  logo?: Prisma.SortOrder
+  rating?: Prisma.SortOrder
+  location?: Prisma.SortOrder
+  gstin?: Prisma.SortOrder
+  dailyCapacity?: Prisma.SortOrder
+  avgResponseTime?: Prisma.SortOrder
+  successRate?: Prisma.SortOrder
+  verified?: Prisma.SortOrder
+  suspended?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BuyerMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  subscriberId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  category?: Prisma.SortOrder
+  logo?: Prisma.SortOrder
+  rating?: Prisma.SortOrder
+  location?: Prisma.SortOrder
+  gstin?: Prisma.SortOrder
+  dailyCapacity?: Prisma.SortOrder
+  avgResponseTime?: Prisma.SortOrder
+  successRate?: Prisma.SortOrder
+  verified?: Prisma.SortOrder
+  suspended?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BuyerSumOrderByAggregateInput = {
+  rating?: Prisma.SortOrder
+  dailyCapacity?: Prisma.SortOrder
+  avgResponseTime?: Prisma.SortOrder
+  successRate?: Prisma.SortOrder
+}
+
+export type EnumBuyerCategoryFieldUpdateOperationsInput = {
+  set?: $Enums.BuyerCategory
+}
+
+export type BoolFieldUpdateOperationsInput = {
+  set?: boolean
+}
+
+
+
+export type BuyerSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  subscriberId?: boolean
+  name?: boolean
+  category?: boolean
+  logo?: boolean
+  rating?: boolean
+  location?: boolean
+  gstin?: boolean
+  operatingStates?: boolean
+  commodityPreferences?: boolean
+  dailyCapacity?: boolean
+  avgResponseTime?: boolean
+  successRate?: boolean
+  verified?: boolean
+  suspended?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["buyer"]>
+
+export type BuyerSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  subscriberId?: boolean
+  name?: boolean
+  category?: boolean
+  logo?: boolean
+  rating?: boolean
+  location?: boolean
+  gstin?: boolean
+  operatingStates?: boolean
+  commodityPreferences?: boolean
+  dailyCapacity?: boolean
+  avgResponseTime?: boolean
+  successRate?: boolean
+  verified?: boolean
+  suspended?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["buyer"]>
+
+export type BuyerSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  subscriberId?: boolean
+  name?: boolean
+  category?: boolean
+  logo?: boolean
+  rating?: boolean
+  location?: boolean
+  gstin?: boolean
+  operatingStates?: boolean
+  commodityPreferences?: boolean
+  dailyCapacity?: boolean
+  avgResponseTime?: boolean
+  successRate?: boolean
+  verified?: boolean
+  suspended?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["buyer"]>
+
+export type BuyerSelectScalar = {
+  id?: boolean
+  subscriberId?: boolean
+  name?: boolean
+  category?: boolean
+  logo?: boolean
+  rating?: boolean
+  location?: boolean
+  gstin?: boolean
+  operatingStates?: boolean
+  commodityPreferences?: boolean
+  dailyCapacity?: boolean
+  avgResponseTime?: boolean
+  successRate?: boolean
+  verified?: boolean
+  suspended?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type BuyerOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "subscriberId" | "name" | "category" | "logo" | "rating" | "location" | "gstin" | "operatingStates" | "commodityPreferences" | "dailyCapacity" | "avgResponseTime" | "successRate" | "verified" | "suspended" | "createdAt" | "updatedAt", ExtArgs["result"]["buyer"]>
+
+export type $BuyerPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Buyer"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    subscriberId: string
+    name: string
+    category: $Enums.BuyerCategory
+    logo: string
+    rating: number
+    location: string
+    gstin: string
+    operatingStates: runtime.JsonValue
+    commodityPreferences: runtime.JsonValue
+    dailyCapacity: number
+    avgResponseTime: number
+    successRate: number
+    verified: boolean
+    suspended: boolean
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["buyer"]>
+  composites: {}
+}
+
+export type BuyerGetPayload<S extends boolean | null | undefined | BuyerDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$BuyerPayload, S>
+
+export type BuyerCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<BuyerFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: BuyerCountAggregateInputType | true
+  }
+
+export interface BuyerDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Buyer'], meta: { name: 'Buyer' } }
+  /**
+   * Find zero or one Buyer that matches the filter.
+   * @param {BuyerFindUniqueArgs} args - Arguments to find a Buyer
+   * @example
+   * // Get one Buyer
+   * const buyer = await prisma.buyer.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends BuyerFindUniqueArgs>(args: Prisma.SelectSubset<T, BuyerFindUniqueArgs<ExtArgs>>): Prisma.Prisma__BuyerClient<runtime.Types.Result.GetResult<Prisma.$BuyerPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Buyer that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {BuyerFindUniqueOrThrowArgs} args - Arguments to find a Buyer
+   * @example
+   * // Get one Buyer
+   * const buyer = await prisma.buyer.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends BuyerFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, BuyerFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__BuyerClient<runtime.Types.Result.GetResult<Prisma.$BuyerPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Buyer that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BuyerFindFirstArgs} args - Arguments to find a Buyer
+   * @example
+   * // Get one Buyer
+   * const buyer = await prisma.buyer.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends BuyerFindFirstArgs>(args?: Prisma.SelectSubset<T, BuyerFindFirstArgs<ExtArgs>>): Prisma.Prisma__BuyerClient<runtime.Types.Result.GetResult<Prisma.$BuyerPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Buyer that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BuyerFindFirstOrThrowArgs} args - Arguments to find a Buyer
+   * @example
+   * // Get one Buyer
+   * const buyer = await prisma.buyer.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends BuyerFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, BuyerFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__BuyerClient<runtime.Types.Result.GetResult<Prisma.$BuyerPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Buyers that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BuyerFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Buyers
+   * const buyers = await prisma.buyer.findMany()
+   * 
+   * // Get first 10 Buyers
+   * const buyers = await prisma.buyer.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const buyerWithIdOnly = await prisma.buyer.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends BuyerFindManyArgs>(args?: Prisma.SelectSubset<T, BuyerFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BuyerPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Buyer.
+   * @param {BuyerCreateArgs} args - Arguments to create a Buyer.
+   * @example
+   * // Create one Buyer
+   * const Buyer = await prisma.buyer.create({
+   *   data: {
+   *     // ... data to create a Buyer
+   *   }
+   * })
+   * 
+   */
+  create<T extends BuyerCreateArgs>(args: Prisma.SelectSubset<T, BuyerCreateArgs<ExtArgs>>): Prisma.Prisma__BuyerClient<runtime.Types.Result.GetResult<Prisma.$BuyerPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Buyers.
+   * @param {BuyerCreateManyArgs} args - Arguments to create many Buyers.
+   * @example
+   * // Create many Buyers
+   * const buyer = await prisma.buyer.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends BuyerCreateManyArgs>(args?: Prisma.SelectSubset<T, BuyerCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Buyers and returns the data saved in the database.
+   * @param {BuyerCreateManyAndReturnArgs} args - Arguments to create many Buyers.
+   * @example
+   * // Create many Buyers
+   * const buyer = await prisma.buyer.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Buyers and only return the `id`
+   * const buyerWithIdOnly = await prisma.buyer.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends BuyerCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, BuyerCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BuyerPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Buyer.
+   * @param {BuyerDeleteArgs} args - Arguments to delete one Buyer.
+   * @example
+   * // Delete one Buyer
+   * const Buyer = await prisma.buyer.delete({
+   *   where: {
+   *     // ... filter to delete one Buyer
+   *   }
+   * })
+   * 
+   */
+  delete<T extends BuyerDeleteArgs>(args: Prisma.SelectSubset<T, BuyerDeleteArgs<ExtArgs>>): Prisma.Prisma__BuyerClient<runtime.Types.Result.GetResult<Prisma.$BuyerPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Buyer.
+   * @param {BuyerUpdateArgs} args - Arguments to update one Buyer.
+   * @example
+   * // Update one Buyer
+   * const buyer = await prisma.buyer.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends BuyerUpdateArgs>(args: Prisma.SelectSubset<T, BuyerUpdateArgs<ExtArgs>>): Prisma.Prisma__BuyerClient<runtime.Types.Result.GetResult<Prisma.$BuyerPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Buyers.
+   * @param {BuyerDeleteManyArgs} args - Arguments to filter Buyers to delete.
+   * @example
+   * // Delete a few Buyers
+   * const { count } = await prisma.buyer.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends BuyerDeleteManyArgs>(args?: Prisma.SelectSubset<T, BuyerDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Buyers.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BuyerUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Buyers
+   * const buyer = await prisma.buyer.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends BuyerUpdateManyArgs>(args: Prisma.SelectSubset<T, BuyerUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Buyers and returns the data updated in the database.
+   * @param {BuyerUpdateManyAndReturnArgs} args - Arguments to update many Buyers.
+   * @example
+   * // Update many Buyers
+   * const buyer = await prisma.buyer.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Buyers and only return the `id`
+   * const buyerWithIdOnly = await prisma.buyer.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends BuyerUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, BuyerUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BuyerPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Buyer.
+   * @param {BuyerUpsertArgs} args - Arguments to update or create a Buyer.
+   * @example
+   * // Update or create a Buyer
+   * const buyer = await prisma.buyer.upsert({
+   *   create: {
+   *     // ... data to create a Buyer
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Buyer we want to update
+   *   }
+   * })
+   */
+  upsert<T extends BuyerUpsertArgs>(args: Prisma.SelectSubset<T, BuyerUpsertArgs<ExtArgs>>): Prisma.Prisma__BuyerClient<runtime.Types.Result.GetResult<Prisma.$BuyerPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Buyers.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BuyerCountArgs} args - Arguments to filter Buyers to count.
+   * @example
+   * // Count the number of Buyers
+   * const count = await prisma.buyer.count({
+   *   where: {
+   *     // ... the filter for the Buyers we want to count
+   *   }
+   * })
+  **/
+  count<T extends BuyerCountArgs>(
+    args?: Prisma.Subset<T, BuyerCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], BuyerCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Buyer.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BuyerAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends BuyerAggregateArgs>(args: Prisma.Subset<T, BuyerAggregateArgs>): Prisma.PrismaPromise<GetBuyerAggregateType<T>>
+
+  /**
+   * Group by Buyer.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BuyerGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends BuyerGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: BuyerGroupByArgs['orderBy'] }
+      : { orderBy?: BuyerGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, BuyerGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetBuyerGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Buyer model
+ */
+readonly fields: BuyerFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Buyer.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__BuyerClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Buyer model
+ */
+export interface BuyerFieldRefs {
+  readonly id: Prisma.FieldRef<"Buyer", 'String'>
+  readonly subscriberId: Prisma.FieldRef<"Buyer", 'String'>
+  readonly name: Prisma.FieldRef<"Buyer", 'String'>
+  readonly category: Prisma.FieldRef<"Buyer", 'BuyerCategory'>
+  readonly logo: Prisma.FieldRef<"Buyer", 'String'>
+  readonly rating: Prisma.FieldRef<"Buyer", 'Float'>
+  readonly location: Prisma.FieldRef<"Buyer", 'String'>
+  readonly gstin: Prisma.FieldRef<"Buyer", 'String'>
+  readonly operatingStates: Prisma.FieldRef<"Buyer", 'Json'>
+  readonly commodityPreferences: Prisma.FieldRef<"Buyer", 'Json'>
+  readonly dailyCapacity: Prisma.FieldRef<"Buyer", 'Int'>
+  readonly avgResponseTime: Prisma.FieldRef<"Buyer", 'Float'>
+  readonly successRate: Prisma.FieldRef<"Buyer", 'Float'>
+  readonly verified: Prisma.FieldRef<"Buyer", 'Boolean'>
+  readonly suspended: Prisma.FieldRef<"Buyer", 'Boolean'>
+  readonly createdAt: Prisma.FieldRef<"Buyer", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"Buyer", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Buyer findUnique
+ */
+export type BuyerFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Buyer
+   */
+  select?: Prisma.BuyerSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Buyer
+   */
+  omit?: Prisma.BuyerOmit<ExtArgs> | null
+  /**
+   * Filter, which Buyer to fetch.
+   */
+  where: Prisma.BuyerWhereUniqueInput
+}
+
+/**
+ * Buyer findUniqueOrThrow
+ */
+export type BuyerFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Buyer
+   */
+  select?: Prisma.BuyerSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Buyer
+   */
+  omit?: Prisma.BuyerOmit<ExtArgs> | null
+  /**
+   * Filter, which Buyer to fetch.
+   */
+  where: Prisma.BuyerWhereUniqueInput
+}
+
+/**
+ * Buyer findFirst
+ */
+export type BuyerFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Buyer
+   */
+  select?: Prisma.BuyerSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Buyer
+   */
+  omit?: Prisma.BuyerOmit<ExtArgs> | null
+  /**
+   * Filter, which Buyer to fetch.
+   */
+  where?: Prisma.BuyerWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Buyers to fetch.
+   */
+  orderBy?: Prisma.BuyerOrderByWithRelationInput | Prisma.BuyerOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Buyers.
+   */
+  cursor?: Prisma.BuyerWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Buyers from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Buyers.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Buyers.
+   */
+  distinct?: Prisma.BuyerScalarFieldEnum | Prisma.BuyerScalarFieldEnum[]
+}
+
+/**
+ * Buyer findFirstOrThrow
+ */
+export type BuyerFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Buyer
+   */
+  select?: Prisma.BuyerSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Buyer
+   */
+  omit?: Prisma.BuyerOmit<ExtArgs> | null
+  /**
+   * Filter, which Buyer to fetch.
+   */
+  where?: Prisma.BuyerWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Buyers to fetch.
+   */
+  orderBy?: Prisma.BuyerOrderByWithRelationInput | Prisma.BuyerOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Buyers.
+   */
+  cursor?: Prisma.BuyerWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Buyers from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Buyers.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Buyers.
+   */
+  distinct?: Prisma.BuyerScalarFieldEnum | Prisma.BuyerScalarFieldEnum[]
+}
+
+/**
+ * Buyer findMany
+ */
+export type BuyerFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Buyer
+   */
+  select?: Prisma.BuyerSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Buyer
+   */
+  omit?: Prisma.BuyerOmit<ExtArgs> | null
+  /**
+   * Filter, which Buyers to fetch.
+   */
+  where?: Prisma.BuyerWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Buyers to fetch.
+   */
+  orderBy?: Prisma.BuyerOrderByWithRelationInput | Prisma.BuyerOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Buyers.
+   */
+  cursor?: Prisma.BuyerWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Buyers from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Buyers.
+   */
+  skip?: number
+  distinct?: Prisma.BuyerScalarFieldEnum | Prisma.BuyerScalarFieldEnum[]
+}
+
+/**
+ * Buyer create
+ */
+export type BuyerCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Buyer
+   */
+  select?: Prisma.BuyerSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Buyer
+   */
+  omit?: Prisma.BuyerOmit<ExtArgs> | null
+  /**
+   * The data needed to create a Buyer.
+   */
+  data: Prisma.XOR<Prisma.BuyerCreateInput, Prisma.BuyerUncheckedCreateInput>
+}
+
+/**
+ * Buyer createMany
+ */
+export type BuyerCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Buyers.
+   */
+  data: Prisma.BuyerCreateManyInput | Prisma.BuyerCreateManyInput[]
+}
+
+/**
+ * Buyer createManyAndReturn
+ */
+export type BuyerCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Buyer
+   */
+  select?: Prisma.BuyerSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Buyer
+   */
+  omit?: Prisma.BuyerOmit<ExtArgs> | null
+  /**
+   * The data used to create many Buyers.
+   */
+  data: Prisma.BuyerCreateManyInput | Prisma.BuyerCreateManyInput[]
+}
+
+/**
+ * Buyer update
+ */
+export type BuyerUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Buyer
+   */
+  select?: Prisma.BuyerSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Buyer
+   */
+  omit?: Prisma.BuyerOmit<ExtArgs> | null
+  /**
+   * The data needed to update a Buyer.
+   */
+  data: Prisma.XOR<Prisma.BuyerUpdateInput, Prisma.BuyerUncheckedUpdateInput>
+  /**
+   * Choose, which Buyer to update.
+   */
+  where: Prisma.BuyerWhereUniqueInput
+}
+
+/**
+ * Buyer updateMany
+ */
+export type BuyerUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Buyers.
+   */
+  data: Prisma.XOR<Prisma.BuyerUpdateManyMutationInput, Prisma.BuyerUncheckedUpdateManyInput>
+  /**
+   * Filter which Buyers to update
+   */
+  where?: Prisma.BuyerWhereInput
+  /**
+   * Limit how many Buyers to update.
+   */
+  limit?: number
+}
+
+/**
+ * Buyer updateManyAndReturn
+ */
+export type BuyerUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Buyer
+   */
+  select?: Prisma.BuyerSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Buyer
+   */
+  omit?: Prisma.BuyerOmit<ExtArgs> | null
+  /**
+   * The data used to update Buyers.
+   */
+  data: Prisma.XOR<Prisma.BuyerUpdateManyMutationInput, Prisma.BuyerUncheckedUpdateManyInput>
+  /**
+   * Filter which Buyers to update
+   */
+  where?: Prisma.BuyerWhereInput
+  /**
+   * Limit how many Buyers to update.
+   */
+  limit?: number
+}
+
+/**
+ * Buyer upsert
+ */
+export type BuyerUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Buyer
+   */
+  select?: Prisma.BuyerSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Buyer
+   */
+  omit?: Prisma.BuyerOmit<ExtArgs> | null
+  /**
+   * The filter to search for the Buyer to update in case it exists.
+   */
+  where: Prisma.BuyerWhereUniqueInput
+  /**
+   * In case the Buyer found by the `where` argument doesn't exist, create a new Buyer with this data.
+   */
+  create: Prisma.XOR<Prisma.BuyerCreateInput, Prisma.BuyerUncheckedCreateInput>
+  /**
+   * In case the Buyer was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.BuyerUpdateInput, Prisma.BuyerUncheckedUpdateInput>
+}
+
+/**
+ * Buyer delete
+ */
+export type BuyerDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Buyer
+   */
+  select?: Prisma.BuyerSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Buyer
+   */
+  omit?: Prisma.BuyerOmit<ExtArgs> | null
+  /**
+   * Filter which Buyer to delete.
+   */
+  where: Prisma.BuyerWhereUniqueInput
+}
+
+/**
+ * Buyer deleteMany
+ */
+export type BuyerDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Buyers to delete
+   */
+  where?: Prisma.BuyerWhereInput
+  /**
+   * Limit how many Buyers to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Buyer without action
+ */
+export type BuyerDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Buyer
+   */
+  select?: Prisma.BuyerSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Buyer
+   */
+  omit?: Prisma.BuyerOmit<ExtArgs> | null
+}
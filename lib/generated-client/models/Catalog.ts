@@ -20,14 +20,28 @@ export type CatalogModel = runtime.Types.Result.DefaultSelection<Prisma.$Catalog
 
 export type AggregateCatalog = {
   _count: CatalogCountAggregateOutputType | null
+  _avg: CatalogAvgAggregateOutputType | null
+  _sum: CatalogSumAggregateOutputType | null
   _min: CatalogMinAggregateOutputType | null
   _max: CatalogMaxAggregateOutputType | null
 }
 
+export type CatalogAvgAggregateOutputType = {
+  version: number | null
+}
+
+export type CatalogSumAggregateOutputType = {
+  version: number | null
+}
+
 export type CatalogMinAggregateOutputType = {
   id: string | null
   farmerId: string | null
   status: $Enums.CatalogStatus | null
+  version: number | null
+  expiresAt: Date | null
+  relistPromptedAt: Date | null
+  fpoId: string | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -36,6 +50,10 @@ export type CatalogMaxAggregateOutputType = {
   id: string | null
   farmerId: string | null
   status: $Enums.CatalogStatus | null
+  version: number | null
+  expiresAt: Date | null
+  relistPromptedAt: Date | null
+  fpoId: string | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -45,16 +63,32 @@ export type CatalogCountAggregateOutputType = {
   farmerId: number
   becknJson: number
   status: number
+  version: number
+  expiresAt: number
+  relistPromptedAt: number
+  fpoId: number
   createdAt: number
   updatedAt: number
   _all: number
 }
 
 
+export type CatalogAvgAggregateInputType = {
+  version?: true
+}
+
+export type CatalogSumAggregateInputType = {
+  version?: true
+}
+
 export type CatalogMinAggregateInputType = {
   id?: true
   farmerId?: true
   status?: true
+  version?: true
+  expiresAt?: true
+  relistPromptedAt?: true
+  fpoId?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -63,6 +97,10 @@ export type CatalogMaxAggregateInputType = {
   id?: true
   farmerId?: true
   status?: true
+  version?: true
+  expiresAt?: true
+  relistPromptedAt?: true
+  fpoId?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -72,6 +110,10 @@ export type CatalogCountAggregateInputType = {
   farmerId?: true
   becknJson?: true
   status?: true
+  version?: true
+  expiresAt?: true
+  relistPromptedAt?: true
+  fpoId?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -112,6 +154,18 @@ export type CatalogAggregateArgs<ExtArgs extends runtime.Types.Extensions.Intern
    * Count returned Catalogs
   **/
   _count?: true | CatalogCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: CatalogAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: CatalogSumAggregateInputType
   /**
    * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
    * 
@@ -145,6 +199,8 @@ export type CatalogGroupByArgs<ExtArgs extends runtime.Types.Extensions.Internal
   take?: number
   skip?: number
   _count?: CatalogCountAggregateInputType | true
+  _avg?: CatalogAvgAggregateInputType
+  _sum?: CatalogSumAggregateInputType
   _min?: CatalogMinAggregateInputType
   _max?: CatalogMaxAggregateInputType
 }
@@ -154,9 +210,15 @@ export type CatalogGroupByOutputType = {
   farmerId: string
   becknJson: runtime.JsonValue
   status: $Enums.CatalogStatus
+  version: number
+  expiresAt: Date | null
+  relistPromptedAt: Date | null
+  fpoId: string | null
   createdAt: Date
   updatedAt: Date
   _count: CatalogCountAggregateOutputType | null
+  _avg: CatalogAvgAggregateOutputType | null
+  _sum: CatalogSumAggregateOutputType | null
   _min: CatalogMinAggregateOutputType | null
   _max: CatalogMaxAggregateOutputType | null
 }
@@ -184,9 +246,18 @@ export type CatalogWhereInput = {
   farmerId?: Prisma.StringFilter<"Catalog"> | string
   becknJson?: Prisma.JsonFilter<"Catalog">
   status?: Prisma.EnumCatalogStatusFilter<"Catalog"> | $Enums.CatalogStatus
+  version?: Prisma.IntFilter<"Catalog"> | number
+  expiresAt?: Prisma.DateTimeNullableFilter<"Catalog"> | Date | string | null
+  relistPromptedAt?: Prisma.DateTimeNullableFilter<"Catalog"> | Date | string | null
+  fpoId?: Prisma.StringNullableFilter<"Catalog"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Catalog"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Catalog"> | Date | string
   farmer?: Prisma.XOR<Prisma.FarmerScalarRelationFilter, Prisma.FarmerWhereInput>
+  fpo?: Prisma.XOR<Prisma.FpoNullableScalarRelationFilter, Prisma.FpoWhereInput> | null
+  bids?: Prisma.BidListRelationFilter
+  orders?: Prisma.OrderListRelationFilter
+  revisions?: Prisma.CatalogRevisionListRelationFilter
+  contributions?: Prisma.PoolContributionListRelationFilter
 }
 
 export type CatalogOrderByWithRelationInput = {
@@ -194,9 +265,18 @@ export type CatalogOrderByWithRelationInput = {
   farmerId?: Prisma.SortOrder
   becknJson?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  relistPromptedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  fpoId?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   farmer?: Prisma.FarmerOrderByWithRelationInput
+  fpo?: Prisma.FpoOrderByWithRelationInput
+  bids?: Prisma.BidOrderByRelationAggregateInput
+  orders?: Prisma.OrderOrderByRelationAggregateInput
+  revisions?: Prisma.CatalogRevisionOrderByRelationAggregateInput
+  contributions?: Prisma.PoolContributionOrderByRelationAggregateInput
 }
 
 export type CatalogWhereUniqueInput = Prisma.AtLeast<{
@@ -207,9 +287,18 @@ export type CatalogWhereUniqueInput = Prisma.AtLeast<{
   farmerId?: Prisma.StringFilter<"Catalog"> | string
   becknJson?: Prisma.JsonFilter<"Catalog">
   status?: Prisma.EnumCatalogStatusFilter<"Catalog"> | $Enums.CatalogStatus
+  version?: Prisma.IntFilter<"Catalog"> | number
+  expiresAt?: Prisma.DateTimeNullableFilter<"Catalog"> | Date | string | null
+  relistPromptedAt?: Prisma.DateTimeNullableFilter<"Catalog"> | Date | string | null
+  fpoId?: Prisma.StringNullableFilter<"Catalog"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Catalog"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Catalog"> | Date | string
   farmer?: Prisma.XOR<Prisma.FarmerScalarRelationFilter, Prisma.FarmerWhereInput>
+  fpo?: Prisma.XOR<Prisma.FpoNullableScalarRelationFilter, Prisma.FpoWhereInput> | null
+  bids?: Prisma.BidListRelationFilter
+  orders?: Prisma.OrderListRelationFilter
+  revisions?: Prisma.CatalogRevisionListRelationFilter
+  contributions?: Prisma.PoolContributionListRelationFilter
 }, "id">
 
 export type CatalogOrderByWithAggregationInput = {
@@ -217,11 +306,17 @@ export type CatalogOrderByWithAggregationInput = {
   farmerId?: Prisma.SortOrder
   becknJson?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  relistPromptedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  fpoId?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.CatalogCountOrderByAggregateInput
+  _avg?: Prisma.CatalogAvgOrderByAggregateInput
   _max?: Prisma.CatalogMaxOrderByAggregateInput
   _min?: Prisma.CatalogMinOrderByAggregateInput
+  _sum?: Prisma.CatalogSumOrderByAggregateInput
 }
 
 export type CatalogScalarWhereWithAggregatesInput = {
@@ -232,6 +327,10 @@ export type CatalogScalarWhereWithAggregatesInput = {
   farmerId?: Prisma.StringWithAggregatesFilter<"Catalog"> | string
   becknJson?: Prisma.JsonWithAggregatesFilter<"Catalog">
   status?: Prisma.EnumCatalogStatusWithAggregatesFilter<"Catalog"> | $Enums.CatalogStatus
+  version?: Prisma.IntWithAggregatesFilter<"Catalog"> | number
+  expiresAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Catalog"> | Date | string | null
+  relistPromptedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Catalog"> | Date | string | null
+  fpoId?: Prisma.StringNullableWithAggregatesFilter<"Catalog"> | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Catalog"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Catalog"> | Date | string
 }
@@ -240,9 +339,17 @@ export type CatalogCreateInput = {
   id?: string
   becknJson: Prisma.JsonNullValueInput | runtime.InputJsonValue
   status?: $Enums.CatalogStatus
+  version?: number
+  expiresAt?: Date | string | null
+  relistPromptedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   farmer: Prisma.FarmerCreateNestedOneWithoutCatalogsInput
+  fpo?: Prisma.FpoCreateNestedOneWithoutCatalogsInput
+  bids?: Prisma.BidCreateNestedManyWithoutCatalogInput
+  orders?: Prisma.OrderCreateNestedManyWithoutCatalogInput
+  revisions?: Prisma.CatalogRevisionCreateNestedManyWithoutCatalogInput
+  contributions?: Prisma.PoolContributionCreateNestedManyWithoutCatalogInput
 }
 
 export type CatalogUncheckedCreateInput = {
@@ -250,17 +357,33 @@ export type CatalogUncheckedCreateInput = {
   farmerId: string
   becknJson: Prisma.JsonNullValueInput | runtime.InputJsonValue
   status?: $Enums.CatalogStatus
+  version?: number
+  expiresAt?: Date | string | null
+  relistPromptedAt?: Date | string | null
+  fpoId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  bids?: Prisma.BidUncheckedCreateNestedManyWithoutCatalogInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutCatalogInput
+  revisions?: Prisma.CatalogRevisionUncheckedCreateNestedManyWithoutCatalogInput
+  contributions?: Prisma.PoolContributionUncheckedCreateNestedManyWithoutCatalogInput
 }
 
 export type CatalogUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   becknJson?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   status?: Prisma.EnumCatalogStatusFieldUpdateOperationsInput | $Enums.CatalogStatus
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  relistPromptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   farmer?: Prisma.FarmerUpdateOneRequiredWithoutCatalogsNestedInput
+  fpo?: Prisma.FpoUpdateOneWithoutCatalogsNestedInput
+  bids?: Prisma.BidUpdateManyWithoutCatalogNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutCatalogNestedInput
+  revisions?: Prisma.CatalogRevisionUpdateManyWithoutCatalogNestedInput
+  contributions?: Prisma.PoolContributionUpdateManyWithoutCatalogNestedInput
 }
 
 export type CatalogUncheckedUpdateInput = {
@@ -268,8 +391,16 @@ export type CatalogUncheckedUpdateInput = {
   farmerId?: Prisma.StringFieldUpdateOperationsInput | string
   becknJson?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   status?: Prisma.EnumCatalogStatusFieldUpdateOperationsInput | $Enums.CatalogStatus
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  relistPromptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  fpoId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bids?: Prisma.BidUncheckedUpdateManyWithoutCatalogNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutCatalogNestedInput
+  revisions?: Prisma.CatalogRevisionUncheckedUpdateManyWithoutCatalogNestedInput
+  contributions?: Prisma.PoolContributionUncheckedUpdateManyWithoutCatalogNestedInput
 }
 
 export type CatalogCreateManyInput = {
@@ -277,6 +408,10 @@ export type CatalogCreateManyInput = {
   farmerId: string
   becknJson: Prisma.JsonNullValueInput | runtime.InputJsonValue
   status?: $Enums.CatalogStatus
+  version?: number
+  expiresAt?: Date | string | null
+  relistPromptedAt?: Date | string | null
+  fpoId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -285,6 +420,9 @@ export type CatalogUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   becknJson?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   status?: Prisma.EnumCatalogStatusFieldUpdateOperationsInput | $Enums.CatalogStatus
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  relistPromptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -294,6 +432,10 @@ export type CatalogUncheckedUpdateManyInput = {
   farmerId?: Prisma.StringFieldUpdateOperationsInput | string
   becknJson?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   status?: Prisma.EnumCatalogStatusFieldUpdateOperationsInput | $Enums.CatalogStatus
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  relistPromptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  fpoId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -313,14 +455,26 @@ export type CatalogCountOrderByAggregateInput = {
   farmerId?: Prisma.SortOrder
   becknJson?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  relistPromptedAt?: Prisma.SortOrder
+  fpoId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
+export type CatalogAvgOrderByAggregateInput = {
+  version?: Prisma.SortOrder
+}
+
 export type CatalogMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
   farmerId?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  relistPromptedAt?: Prisma.SortOrder
+  fpoId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -329,10 +483,23 @@ export type CatalogMinOrderByAggregateInput = {
   id?: Prisma.SortOrder
   farmerId?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  relistPromptedAt?: Prisma.SortOrder
+  fpoId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
+export type CatalogSumOrderByAggregateInput = {
+  version?: Prisma.SortOrder
+}
+
+export type CatalogScalarRelationFilter = {
+  is?: Prisma.CatalogWhereInput
+  isNot?: Prisma.CatalogWhereInput
+}
+
 export type CatalogCreateNestedManyWithoutFarmerInput = {
   create?: Prisma.XOR<Prisma.CatalogCreateWithoutFarmerInput, Prisma.CatalogUncheckedCreateWithoutFarmerInput> | Prisma.CatalogCreateWithoutFarmerInput[] | Prisma.CatalogUncheckedCreateWithoutFarmerInput[]
   connectOrCreate?: Prisma.CatalogCreateOrConnectWithoutFarmerInput | Prisma.CatalogCreateOrConnectWithoutFarmerInput[]
@@ -375,24 +542,138 @@ export type CatalogUncheckedUpdateManyWithoutFarmerNestedInput = {
   deleteMany?: Prisma.CatalogScalarWhereInput | Prisma.CatalogScalarWhereInput[]
 }
 
+export type CatalogCreateNestedManyWithoutFpoInput = {
+  create?: Prisma.XOR<Prisma.CatalogCreateWithoutFpoInput, Prisma.CatalogUncheckedCreateWithoutFpoInput> | Prisma.CatalogCreateWithoutFpoInput[] | Prisma.CatalogUncheckedCreateWithoutFpoInput[]
+  connectOrCreate?: Prisma.CatalogCreateOrConnectWithoutFpoInput | Prisma.CatalogCreateOrConnectWithoutFpoInput[]
+  createMany?: Prisma.CatalogCreateManyFpoInputEnvelope
+  connect?: Prisma.CatalogWhereUniqueInput | Prisma.CatalogWhereUniqueInput[]
+}
+
+export type CatalogUncheckedCreateNestedManyWithoutFpoInput = {
+  create?: Prisma.XOR<Prisma.CatalogCreateWithoutFpoInput, Prisma.CatalogUncheckedCreateWithoutFpoInput> | Prisma.CatalogCreateWithoutFpoInput[] | Prisma.CatalogUncheckedCreateWithoutFpoInput[]
+  connectOrCreate?: Prisma.CatalogCreateOrConnectWithoutFpoInput | Prisma.CatalogCreateOrConnectWithoutFpoInput[]
+  createMany?: Prisma.CatalogCreateManyFpoInputEnvelope
+  connect?: Prisma.CatalogWhereUniqueInput | Prisma.CatalogWhereUniqueInput[]
+}
+
+export type CatalogUpdateManyWithoutFpoNestedInput = {
+  create?: Prisma.XOR<Prisma.CatalogCreateWithoutFpoInput, Prisma.CatalogUncheckedCreateWithoutFpoInput> | Prisma.CatalogCreateWithoutFpoInput[] | Prisma.CatalogUncheckedCreateWithoutFpoInput[]
+  connectOrCreate?: Prisma.CatalogCreateOrConnectWithoutFpoInput | Prisma.CatalogCreateOrConnectWithoutFpoInput[]
+  upsert?: Prisma.CatalogUpsertWithWhereUniqueWithoutFpoInput | Prisma.CatalogUpsertWithWhereUniqueWithoutFpoInput[]
+  createMany?: Prisma.CatalogCreateManyFpoInputEnvelope
+  set?: Prisma.CatalogWhereUniqueInput | Prisma.CatalogWhereUniqueInput[]
+  disconnect?: Prisma.CatalogWhereUniqueInput | Prisma.CatalogWhereUniqueInput[]
+  delete?: Prisma.CatalogWhereUniqueInput | Prisma.CatalogWhereUniqueInput[]
+  connect?: Prisma.CatalogWhereUniqueInput | Prisma.CatalogWhereUniqueInput[]
+  update?: Prisma.CatalogUpdateWithWhereUniqueWithoutFpoInput | Prisma.CatalogUpdateWithWhereUniqueWithoutFpoInput[]
+  updateMany?: Prisma.CatalogUpdateManyWithWhereWithoutFpoInput | Prisma.CatalogUpdateManyWithWhereWithoutFpoInput[]
+  deleteMany?: Prisma.CatalogScalarWhereInput | Prisma.CatalogScalarWhereInput[]
+}
+
+export type CatalogUncheckedUpdateManyWithoutFpoNestedInput = {
+  create?: Prisma.XOR<Prisma.CatalogCreateWithoutFpoInput, Prisma.CatalogUncheckedCreateWithoutFpoInput> | Prisma.CatalogCreateWithoutFpoInput[] | Prisma.CatalogUncheckedCreateWithoutFpoInput[]
+  connectOrCreate?: Prisma.CatalogCreateOrConnectWithoutFpoInput | Prisma.CatalogCreateOrConnectWithoutFpoInput[]
+  upsert?: Prisma.CatalogUpsertWithWhereUniqueWithoutFpoInput | Prisma.CatalogUpsertWithWhereUniqueWithoutFpoInput[]
+  createMany?: Prisma.CatalogCreateManyFpoInputEnvelope
+  set?: Prisma.CatalogWhereUniqueInput | Prisma.CatalogWhereUniqueInput[]
+  disconnect?: Prisma.CatalogWhereUniqueInput | Prisma.CatalogWhereUniqueInput[]
+  delete?: Prisma.CatalogWhereUniqueInput | Prisma.CatalogWhereUniqueInput[]
+  connect?: Prisma.CatalogWhereUniqueInput | Prisma.CatalogWhereUniqueInput[]
+  update?: Prisma.CatalogUpdateWithWhereUniqueWithoutFpoInput | Prisma.CatalogUpdateWithWhereUniqueWithoutFpoInput[]
+  updateMany?: Prisma.CatalogUpdateManyWithWhereWithoutFpoInput | Prisma.CatalogUpdateManyWithWhereWithoutFpoInput[]
+  deleteMany?: Prisma.CatalogScalarWhereInput | Prisma.CatalogScalarWhereInput[]
+}
+
 export type EnumCatalogStatusFieldUpdateOperationsInput = {
   set?: $Enums.CatalogStatus
 }
 
+export type CatalogCreateNestedOneWithoutRevisionsInput = {
+  create?: Prisma.XOR<Prisma.CatalogCreateWithoutRevisionsInput, Prisma.CatalogUncheckedCreateWithoutRevisionsInput>
+  connectOrCreate?: Prisma.CatalogCreateOrConnectWithoutRevisionsInput
+  connect?: Prisma.CatalogWhereUniqueInput
+}
+
+export type CatalogUpdateOneRequiredWithoutRevisionsNestedInput = {
+  create?: Prisma.XOR<Prisma.CatalogCreateWithoutRevisionsInput, Prisma.CatalogUncheckedCreateWithoutRevisionsInput>
+  connectOrCreate?: Prisma.CatalogCreateOrConnectWithoutRevisionsInput
+  upsert?: Prisma.CatalogUpsertWithoutRevisionsInput
+  connect?: Prisma.CatalogWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CatalogUpdateToOneWithWhereWithoutRevisionsInput, Prisma.CatalogUpdateWithoutRevisionsInput>, Prisma.CatalogUncheckedUpdateWithoutRevisionsInput>
+}
+
+export type CatalogCreateNestedOneWithoutContributionsInput = {
+  create?: Prisma.XOR<Prisma.CatalogCreateWithoutContributionsInput, Prisma.CatalogUncheckedCreateWithoutContributionsInput>
+  connectOrCreate?: Prisma.CatalogCreateOrConnectWithoutContributionsInput
+  connect?: Prisma.CatalogWhereUniqueInput
+}
+
+export type CatalogUpdateOneRequiredWithoutContributionsNestedInput = {
+  create?: Prisma.XOR<Prisma.CatalogCreateWithoutContributionsInput, Prisma.CatalogUncheckedCreateWithoutContributionsInput>
+  connectOrCreate?: Prisma.CatalogCreateOrConnectWithoutContributionsInput
+  upsert?: Prisma.CatalogUpsertWithoutContributionsInput
+  connect?: Prisma.CatalogWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CatalogUpdateToOneWithWhereWithoutContributionsInput, Prisma.CatalogUpdateWithoutContributionsInput>, Prisma.CatalogUncheckedUpdateWithoutContributionsInput>
+}
+
+export type CatalogCreateNestedOneWithoutBidsInput = {
+  create?: Prisma.XOR<Prisma.CatalogCreateWithoutBidsInput, Prisma.CatalogUncheckedCreateWithoutBidsInput>
+  connectOrCreate?: Prisma.CatalogCreateOrConnectWithoutBidsInput
+  connect?: Prisma.CatalogWhereUniqueInput
+}
+
+export type CatalogUpdateOneRequiredWithoutBidsNestedInput = {
+  create?: Prisma.XOR<Prisma.CatalogCreateWithoutBidsInput, Prisma.CatalogUncheckedCreateWithoutBidsInput>
+  connectOrCreate?: Prisma.CatalogCreateOrConnectWithoutBidsInput
+  upsert?: Prisma.CatalogUpsertWithoutBidsInput
+  connect?: Prisma.CatalogWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CatalogUpdateToOneWithWhereWithoutBidsInput, Prisma.CatalogUpdateWithoutBidsInput>, Prisma.CatalogUncheckedUpdateWithoutBidsInput>
+}
+
+export type CatalogCreateNestedOneWithoutOrdersInput = {
+  create?: Prisma.XOR<Prisma.CatalogCreateWithoutOrdersInput, Prisma.CatalogUncheckedCreateWithoutOrdersInput>
+  connectOrCreate?: Prisma.CatalogCreateOrConnectWithoutOrdersInput
+  connect?: Prisma.CatalogWhereUniqueInput
+}
+
+export type CatalogUpdateOneRequiredWithoutOrdersNestedInput = {
+  create?: Prisma.XOR<Prisma.CatalogCreateWithoutOrdersInput, Prisma.CatalogUncheckedCreateWithoutOrdersInput>
+  connectOrCreate?: Prisma.CatalogCreateOrConnectWithoutOrdersInput
+  upsert?: Prisma.CatalogUpsertWithoutOrdersInput
+  connect?: Prisma.CatalogWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CatalogUpdateToOneWithWhereWithoutOrdersInput, Prisma.CatalogUpdateWithoutOrdersInput>, Prisma.CatalogUncheckedUpdateWithoutOrdersInput>
+}
+
 export type CatalogCreateWithoutFarmerInput = {
   id?: string
   becknJson: Prisma.JsonNullValueInput | runtime.InputJsonValue
   status?: $Enums.CatalogStatus
+  version?: number
+  expiresAt?: Date | string | null
+  relistPromptedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  fpo?: Prisma.FpoCreateNestedOneWithoutCatalogsInput
+  bids?: Prisma.BidCreateNestedManyWithoutCatalogInput
+  orders?: Prisma.OrderCreateNestedManyWithoutCatalogInput
+  revisions?: Prisma.CatalogRevisionCreateNestedManyWithoutCatalogInput
+  contributions?: Prisma.PoolContributionCreateNestedManyWithoutCatalogInput
 }
 
 export type CatalogUncheckedCreateWithoutFarmerInput = {
   id?: string
   becknJson: Prisma.JsonNullValueInput | runtime.InputJsonValue
   status?: $Enums.CatalogStatus
+  version?: number
+  expiresAt?: Date | string | null
+  relistPromptedAt?: Date | string | null
+  fpoId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  bids?: Prisma.BidUncheckedCreateNestedManyWithoutCatalogInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutCatalogInput
+  revisions?: Prisma.CatalogRevisionUncheckedCreateNestedManyWithoutCatalogInput
+  contributions?: Prisma.PoolContributionUncheckedCreateNestedManyWithoutCatalogInput
 }
 
 export type CatalogCreateOrConnectWithoutFarmerInput = {
@@ -428,14 +709,399 @@ export type CatalogScalarWhereInput = {
   farmerId?: Prisma.StringFilter<"Catalog"> | string
   becknJson?: Prisma.JsonFilter<"Catalog">
   status?: Prisma.EnumCatalogStatusFilter<"Catalog"> | $Enums.CatalogStatus
+  version?: Prisma.IntFilter<"Catalog"> | number
+  expiresAt?: Prisma.DateTimeNullableFilter<"Catalog"> | Date | string | null
+  relistPromptedAt?: Prisma.DateTimeNullableFilter<"Catalog"> | Date | string | null
+  fpoId?: Prisma.StringNullableFilter<"Catalog"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Catalog"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Catalog"> | Date | string
 }
 
+export type CatalogCreateWithoutFpoInput = {
+  id?: string
+  becknJson: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: $Enums.CatalogStatus
+  version?: number
+  expiresAt?: Date | string | null
+  relistPromptedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  farmer: Prisma.FarmerCreateNestedOneWithoutCatalogsInput
+  bids?: Prisma.BidCreateNestedManyWithoutCatalogInput
+  orders?: Prisma.OrderCreateNestedManyWithoutCatalogInput
+  revisions?: Prisma.CatalogRevisionCreateNestedManyWithoutCatalogInput
+  contributions?: Prisma.PoolContributionCreateNestedManyWithoutCatalogInput
+}
+
+export type CatalogUncheckedCreateWithoutFpoInput = {
+  id?: string
+  farmerId: string
+  becknJson: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: $Enums.CatalogStatus
+  version?: number
+  expiresAt?: Date | string | null
+  relistPromptedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  bids?: Prisma.BidUncheckedCreateNestedManyWithoutCatalogInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutCatalogInput
+  revisions?: Prisma.CatalogRevisionUncheckedCreateNestedManyWithoutCatalogInput
+  contributions?: Prisma.PoolContributionUncheckedCreateNestedManyWithoutCatalogInput
+}
+
+export type CatalogCreateOrConnectWithoutFpoInput = {
+  where: Prisma.CatalogWhereUniqueInput
+  create: Prisma.XOR<Prisma.CatalogCreateWithoutFpoInput, Prisma.CatalogUncheckedCreateWithoutFpoInput>
+}
+
+export type CatalogCreateManyFpoInputEnvelope = {
+  data: Prisma.CatalogCreateManyFpoInput | Prisma.CatalogCreateManyFpoInput[]
+}
+
+export type CatalogUpsertWithWhereUniqueWithoutFpoInput = {
+  where: Prisma.CatalogWhereUniqueInput
+  update: Prisma.XOR<Prisma.CatalogUpdateWithoutFpoInput, Prisma.CatalogUncheckedUpdateWithoutFpoInput>
+  create: Prisma.XOR<Prisma.CatalogCreateWithoutFpoInput, Prisma.CatalogUncheckedCreateWithoutFpoInput>
+}
+
+export type CatalogUpdateWithWhereUniqueWithoutFpoInput = {
+  where: Prisma.CatalogWhereUniqueInput
+  data: Prisma.XOR<Prisma.CatalogUpdateWithoutFpoInput, Prisma.CatalogUncheckedUpdateWithoutFpoInput>
+}
+
+export type CatalogUpdateManyWithWhereWithoutFpoInput = {
+  where: Prisma.CatalogScalarWhereInput
+  data: Prisma.XOR<Prisma.CatalogUpdateManyMutationInput, Prisma.CatalogUncheckedUpdateManyWithoutFpoInput>
+}
+
+export type CatalogCreateWithoutRevisionsInput = {
+  id?: string
+  becknJson: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: $Enums.CatalogStatus
+  version?: number
+  expiresAt?: Date | string | null
+  relistPromptedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  farmer: Prisma.FarmerCreateNestedOneWithoutCatalogsInput
+  fpo?: Prisma.FpoCreateNestedOneWithoutCatalogsInput
+  bids?: Prisma.BidCreateNestedManyWithoutCatalogInput
+  orders?: Prisma.OrderCreateNestedManyWithoutCatalogInput
+  contributions?: Prisma.PoolContributionCreateNestedManyWithoutCatalogInput
+}
+
+export type CatalogUncheckedCreateWithoutRevisionsInput = {
+  id?: string
+  farmerId: string
+  becknJson: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: $Enums.CatalogStatus
+  version?: number
+  expiresAt?: Date | string | null
+  relistPromptedAt?: Date | string | null
+  fpoId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  bids?: Prisma.BidUncheckedCreateNestedManyWithoutCatalogInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutCatalogInput
+  contributions?: Prisma.PoolContributionUncheckedCreateNestedManyWithoutCatalogInput
+}
+
+export type CatalogCreateOrConnectWithoutRevisionsInput = {
+  where: Prisma.CatalogWhereUniqueInput
+  create: Prisma.XOR<Prisma.CatalogCreateWithoutRevisionsInput, Prisma.CatalogUncheckedCreateWithoutRevisionsInput>
+}
+
+export type CatalogUpsertWithoutRevisionsInput = {
+  update: Prisma.XOR<Prisma.CatalogUpdateWithoutRevisionsInput, Prisma.CatalogUncheckedUpdateWithoutRevisionsInput>
+  create: Prisma.XOR<Prisma.CatalogCreateWithoutRevisionsInput, Prisma.CatalogUncheckedCreateWithoutRevisionsInput>
+  where?: Prisma.CatalogWhereInput
+}
+
+export type CatalogUpdateToOneWithWhereWithoutRevisionsInput = {
+  where?: Prisma.CatalogWhereInput
+  data: Prisma.XOR<Prisma.CatalogUpdateWithoutRevisionsInput, Prisma.CatalogUncheckedUpdateWithoutRevisionsInput>
+}
+
+export type CatalogUpdateWithoutRevisionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  becknJson?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: Prisma.EnumCatalogStatusFieldUpdateOperationsInput | $Enums.CatalogStatus
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  relistPromptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  farmer?: Prisma.FarmerUpdateOneRequiredWithoutCatalogsNestedInput
+  fpo?: Prisma.FpoUpdateOneWithoutCatalogsNestedInput
+  bids?: Prisma.BidUpdateManyWithoutCatalogNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutCatalogNestedInput
+  contributions?: Prisma.PoolContributionUpdateManyWithoutCatalogNestedInput
+}
+
+export type CatalogUncheckedUpdateWithoutRevisionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  becknJson?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: Prisma.EnumCatalogStatusFieldUpdateOperationsInput | $Enums.CatalogStatus
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  relistPromptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  fpoId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bids?: Prisma.BidUncheckedUpdateManyWithoutCatalogNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutCatalogNestedInput
+  contributions?: Prisma.PoolContributionUncheckedUpdateManyWithoutCatalogNestedInput
+}
+
+export type CatalogCreateWithoutContributionsInput = {
+  id?: string
+  becknJson: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: $Enums.CatalogStatus
+  version?: number
+  expiresAt?: Date | string | null
+  relistPromptedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  farmer: Prisma.FarmerCreateNestedOneWithoutCatalogsInput
+  fpo?: Prisma.FpoCreateNestedOneWithoutCatalogsInput
+  bids?: Prisma.BidCreateNestedManyWithoutCatalogInput
+  orders?: Prisma.OrderCreateNestedManyWithoutCatalogInput
+  revisions?: Prisma.CatalogRevisionCreateNestedManyWithoutCatalogInput
+}
+
+export type CatalogUncheckedCreateWithoutContributionsInput = {
+  id?: string
+  farmerId: string
+  becknJson: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: $Enums.CatalogStatus
+  version?: number
+  expiresAt?: Date | string | null
+  relistPromptedAt?: Date | string | null
+  fpoId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  bids?: Prisma.BidUncheckedCreateNestedManyWithoutCatalogInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutCatalogInput
+  revisions?: Prisma.CatalogRevisionUncheckedCreateNestedManyWithoutCatalogInput
+}
+
+export type CatalogCreateOrConnectWithoutContributionsInput = {
+  where: Prisma.CatalogWhereUniqueInput
+  create: Prisma.XOR<Prisma.CatalogCreateWithoutContributionsInput, Prisma.CatalogUncheckedCreateWithoutContributionsInput>
+}
+
+export type CatalogUpsertWithoutContributionsInput = {
+  update: Prisma.XOR<Prisma.CatalogUpdateWithoutContributionsInput, Prisma.CatalogUncheckedUpdateWithoutContributionsInput>
+  create: Prisma.XOR<Prisma.CatalogCreateWithoutContributionsInput, Prisma.CatalogUncheckedCreateWithoutContributionsInput>
+  where?: Prisma.CatalogWhereInput
+}
+
+export type CatalogUpdateToOneWithWhereWithoutContributionsInput = {
+  where?: Prisma.CatalogWhereInput
+  data: Prisma.XOR<Prisma.CatalogUpdateWithoutContributionsInput, Prisma.CatalogUncheckedUpdateWithoutContributionsInput>
+}
+
+export type CatalogUpdateWithoutContributionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  becknJson?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: Prisma.EnumCatalogStatusFieldUpdateOperationsInput | $Enums.CatalogStatus
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  relistPromptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  farmer?: Prisma.FarmerUpdateOneRequiredWithoutCatalogsNestedInput
+  fpo?: Prisma.FpoUpdateOneWithoutCatalogsNestedInput
+  bids?: Prisma.BidUpdateManyWithoutCatalogNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutCatalogNestedInput
+  revisions?: Prisma.CatalogRevisionUpdateManyWithoutCatalogNestedInput
+}
+
+export type CatalogUncheckedUpdateWithoutContributionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  becknJson?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: Prisma.EnumCatalogStatusFieldUpdateOperationsInput | $Enums.CatalogStatus
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  relistPromptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  fpoId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bids?: Prisma.BidUncheckedUpdateManyWithoutCatalogNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutCatalogNestedInput
+  revisions?: Prisma.CatalogRevisionUncheckedUpdateManyWithoutCatalogNestedInput
+}
+
+export type CatalogCreateWithoutBidsInput = {
+  id?: string
+  becknJson: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: $Enums.CatalogStatus
+  version?: number
+  expiresAt?: Date | string | null
+  relistPromptedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  farmer: Prisma.FarmerCreateNestedOneWithoutCatalogsInput
+  fpo?: Prisma.FpoCreateNestedOneWithoutCatalogsInput
+  orders?: Prisma.OrderCreateNestedManyWithoutCatalogInput
+  revisions?: Prisma.CatalogRevisionCreateNestedManyWithoutCatalogInput
+  contributions?: Prisma.PoolContributionCreateNestedManyWithoutCatalogInput
+}
+
+export type CatalogUncheckedCreateWithoutBidsInput = {
+  id?: string
+  farmerId: string
+  becknJson: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: $Enums.CatalogStatus
+  version?: number
+  expiresAt?: Date | string | null
+  relistPromptedAt?: Date | string | null
+  fpoId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutCatalogInput
+  revisions?: Prisma.CatalogRevisionUncheckedCreateNestedManyWithoutCatalogInput
+  contributions?: Prisma.PoolContributionUncheckedCreateNestedManyWithoutCatalogInput
+}
+
+export type CatalogCreateOrConnectWithoutBidsInput = {
+  where: Prisma.CatalogWhereUniqueInput
+  create: Prisma.XOR<Prisma.CatalogCreateWithoutBidsInput, Prisma.CatalogUncheckedCreateWithoutBidsInput>
+}
+
+export type CatalogUpsertWithoutBidsInput = {
+  update: Prisma.XOR<Prisma.CatalogUpdateWithoutBidsInput, Prisma.CatalogUncheckedUpdateWithoutBidsInput>
+  create: Prisma.XOR<Prisma.CatalogCreateWithoutBidsInput, Prisma.CatalogUncheckedCreateWithoutBidsInput>
+  where?: Prisma.CatalogWhereInput
+}
+
+export type CatalogUpdateToOneWithWhereWithoutBidsInput = {
+  where?: Prisma.CatalogWhereInput
+  data: Prisma.XOR<Prisma.CatalogUpdateWithoutBidsInput, Prisma.CatalogUncheckedUpdateWithoutBidsInput>
+}
+
+export type CatalogUpdateWithoutBidsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  becknJson?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: Prisma.EnumCatalogStatusFieldUpdateOperationsInput | $Enums.CatalogStatus
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  relistPromptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  farmer?: Prisma.FarmerUpdateOneRequiredWithoutCatalogsNestedInput
+  fpo?: Prisma.FpoUpdateOneWithoutCatalogsNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutCatalogNestedInput
+  revisions?: Prisma.CatalogRevisionUpdateManyWithoutCatalogNestedInput
+  contributions?: Prisma.PoolContributionUpdateManyWithoutCatalogNestedInput
+}
+
+export type CatalogUncheckedUpdateWithoutBidsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  becknJson?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: Prisma.EnumCatalogStatusFieldUpdateOperationsInput | $Enums.CatalogStatus
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  relistPromptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  fpoId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutCatalogNestedInput
+  revisions?: Prisma.CatalogRevisionUncheckedUpdateManyWithoutCatalogNestedInput
+  contributions?: Prisma.PoolContributionUncheckedUpdateManyWithoutCatalogNestedInput
+}
+
+export type CatalogCreateWithoutOrdersInput = {
+  id?: string
+  becknJson: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: $Enums.CatalogStatus
+  version?: number
+  expiresAt?: Date | string | null
+  relistPromptedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  farmer: Prisma.FarmerCreateNestedOneWithoutCatalogsInput
+  fpo?: Prisma.FpoCreateNestedOneWithoutCatalogsInput
+  bids?: Prisma.BidCreateNestedManyWithoutCatalogInput
+  revisions?: Prisma.CatalogRevisionCreateNestedManyWithoutCatalogInput
+  contributions?: Prisma.PoolContributionCreateNestedManyWithoutCatalogInput
+}
+
+export type CatalogUncheckedCreateWithoutOrdersInput = {
+  id?: string
+  farmerId: string
+  becknJson: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: $Enums.CatalogStatus
+  version?: number
+  expiresAt?: Date | string | null
+  relistPromptedAt?: Date | string | null
+  fpoId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  bids?: Prisma.BidUncheckedCreateNestedManyWithoutCatalogInput
+  revisions?: Prisma.CatalogRevisionUncheckedCreateNestedManyWithoutCatalogInput
+  contributions?: Prisma.PoolContributionUncheckedCreateNestedManyWithoutCatalogInput
+}
+
+export type CatalogCreateOrConnectWithoutOrdersInput = {
+  where: Prisma.CatalogWhereUniqueInput
+  create: Prisma.XOR<Prisma.CatalogCreateWithoutOrdersInput, Prisma.CatalogUncheckedCreateWithoutOrdersInput>
+}
+
+export type CatalogUpsertWithoutOrdersInput = {
+  update: Prisma.XOR<Prisma.CatalogUpdateWithoutOrdersInput, Prisma.CatalogUncheckedUpdateWithoutOrdersInput>
+  create: Prisma.XOR<Prisma.CatalogCreateWithoutOrdersInput, Prisma.CatalogUncheckedCreateWithoutOrdersInput>
+  where?: Prisma.CatalogWhereInput
+}
+
+export type CatalogUpdateToOneWithWhereWithoutOrdersInput = {
+  where?: Prisma.CatalogWhereInput
+  data: Prisma.XOR<Prisma.CatalogUpdateWithoutOrdersInput, Prisma.CatalogUncheckedUpdateWithoutOrdersInput>
+}
+
+export type CatalogUpdateWithoutOrdersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  becknJson?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: Prisma.EnumCatalogStatusFieldUpdateOperationsInput | $Enums.CatalogStatus
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  relistPromptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  farmer?: Prisma.FarmerUpdateOneRequiredWithoutCatalogsNestedInput
+  fpo?: Prisma.FpoUpdateOneWithoutCatalogsNestedInput
+  bids?: Prisma.BidUpdateManyWithoutCatalogNestedInput
+  revisions?: Prisma.CatalogRevisionUpdateManyWithoutCatalogNestedInput
+  contributions?: Prisma.PoolContributionUpdateManyWithoutCatalogNestedInput
+}
+
+export type CatalogUncheckedUpdateWithoutOrdersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  becknJson?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: Prisma.EnumCatalogStatusFieldUpdateOperationsInput | $Enums.CatalogStatus
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  relistPromptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  fpoId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bids?: Prisma.BidUncheckedUpdateManyWithoutCatalogNestedInput
+  revisions?: Prisma.CatalogRevisionUncheckedUpdateManyWithoutCatalogNestedInput
+  contributions?: Prisma.PoolContributionUncheckedUpdateManyWithoutCatalogNestedInput
+}
+
 export type CatalogCreateManyFarmerInput = {
   id?: string
   becknJson: Prisma.JsonNullValueInput | runtime.InputJsonValue
   status?: $Enums.CatalogStatus
+  version?: number
+  expiresAt?: Date | string | null
+  relistPromptedAt?: Date | string | null
+  fpoId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -444,36 +1110,178 @@ export type CatalogUpdateWithoutFarmerInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   becknJson?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   status?: Prisma.EnumCatalogStatusFieldUpdateOperationsInput | $Enums.CatalogStatus
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  relistPromptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fpo?: Prisma.FpoUpdateOneWithoutCatalogsNestedInput
+  bids?: Prisma.BidUpdateManyWithoutCatalogNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutCatalogNestedInput
+  revisions?: Prisma.CatalogRevisionUpdateManyWithoutCatalogNestedInput
+  contributions?: Prisma.PoolContributionUpdateManyWithoutCatalogNestedInput
 }
 
 export type CatalogUncheckedUpdateWithoutFarmerInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   becknJson?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   status?: Prisma.EnumCatalogStatusFieldUpdateOperationsInput | $Enums.CatalogStatus
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  relistPromptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  fpoId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bids?: Prisma.BidUncheckedUpdateManyWithoutCatalogNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutCatalogNestedInput
+  revisions?: Prisma.CatalogRevisionUncheckedUpdateManyWithoutCatalogNestedInput
+  contributions?: Prisma.PoolContributionUncheckedUpdateManyWithoutCatalogNestedInput
 }
 
 export type CatalogUncheckedUpdateManyWithoutFarmerInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   becknJson?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   status?: Prisma.EnumCatalogStatusFieldUpdateOperationsInput | $Enums.CatalogStatus
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  relistPromptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  fpoId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CatalogCreateManyFpoInput = {
+  id?: string
+  farmerId: string
+  becknJson: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: $Enums.CatalogStatus
+  version?: number
+  expiresAt?: Date | string | null
+  relistPromptedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CatalogUpdateWithoutFpoInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  becknJson?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: Prisma.EnumCatalogStatusFieldUpdateOperationsInput | $Enums.CatalogStatus
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  relistPromptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  farmer?: Prisma.FarmerUpdateOneRequiredWithoutCatalogsNestedInput
+  bids?: Prisma.BidUpdateManyWithoutCatalogNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutCatalogNestedInput
+  revisions?: Prisma.CatalogRevisionUpdateManyWithoutCatalogNestedInput
+  contributions?: Prisma.PoolContributionUpdateManyWithoutCatalogNestedInput
+}
+
+export type CatalogUncheckedUpdateWithoutFpoInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  becknJson?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: Prisma.EnumCatalogStatusFieldUpdateOperationsInput | $Enums.CatalogStatus
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  relistPromptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bids?: Prisma.BidUncheckedUpdateManyWithoutCatalogNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutCatalogNestedInput
+  revisions?: Prisma.CatalogRevisionUncheckedUpdateManyWithoutCatalogNestedInput
+  contributions?: Prisma.PoolContributionUncheckedUpdateManyWithoutCatalogNestedInput
+}
+
+export type CatalogUncheckedUpdateManyWithoutFpoInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  becknJson?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: Prisma.EnumCatalogStatusFieldUpdateOperationsInput | $Enums.CatalogStatus
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  relistPromptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 
+/**
+ * Count Type CatalogCountOutputType
+ */
+
+export type CatalogCountOutputType = {
+  bids: number
+  orders: number
+  revisions: number
+  contributions: number
+}
+
+export type CatalogCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  bids?: boolean | CatalogCountOutputTypeCountBidsArgs
+  orders?: boolean | CatalogCountOutputTypeCountOrdersArgs
+  revisions?: boolean | CatalogCountOutputTypeCountRevisionsArgs
+  contributions?: boolean | CatalogCountOutputTypeCountContributionsArgs
+}
+
+/**
+ * CatalogCountOutputType without action
+ */
+export type CatalogCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CatalogCountOutputType
+   */
+  select?: Prisma.CatalogCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * CatalogCountOutputType without action
+ */
+export type CatalogCountOutputTypeCountBidsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BidWhereInput
+}
+
+/**
+ * CatalogCountOutputType without action
+ */
+export type CatalogCountOutputTypeCountOrdersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OrderWhereInput
+}
+
+/**
+ * CatalogCountOutputType without action
+ */
+export type CatalogCountOutputTypeCountRevisionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CatalogRevisionWhereInput
+}
+
+/**
+ * CatalogCountOutputType without action
+ */
+export type CatalogCountOutputTypeCountContributionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PoolContributionWhereInput
+}
+
 
 export type CatalogSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   farmerId?: boolean
   becknJson?: boolean
   status?: boolean
+  version?: boolean
+  expiresAt?: boolean
+  relistPromptedAt?: boolean
+  fpoId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+  fpo?: boolean | Prisma.Catalog$fpoArgs<ExtArgs>
+  bids?: boolean | Prisma.Catalog$bidsArgs<ExtArgs>
+  orders?: boolean | Prisma.Catalog$ordersArgs<ExtArgs>
+  revisions?: boolean | Prisma.Catalog$revisionsArgs<ExtArgs>
+  contributions?: boolean | Prisma.Catalog$contributionsArgs<ExtArgs>
+  _count?: boolean | Prisma.CatalogCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["catalog"]>
 
 export type CatalogSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -481,9 +1289,14 @@ export type CatalogSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exten
   farmerId?: boolean
   becknJson?: boolean
   status?: boolean
+  version?: boolean
+  expiresAt?: boolean
+  relistPromptedAt?: boolean
+  fpoId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+  fpo?: boolean | Prisma.Catalog$fpoArgs<ExtArgs>
 }, ExtArgs["result"]["catalog"]>
 
 export type CatalogSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -491,9 +1304,14 @@ export type CatalogSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exten
   farmerId?: boolean
   becknJson?: boolean
   status?: boolean
+  version?: boolean
+  expiresAt?: boolean
+  relistPromptedAt?: boolean
+  fpoId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+  fpo?: boolean | Prisma.Catalog$fpoArgs<ExtArgs>
 }, ExtArgs["result"]["catalog"]>
 
 export type CatalogSelectScalar = {
@@ -501,31 +1319,52 @@ export type CatalogSelectScalar = {
   farmerId?: boolean
   becknJson?: boolean
   status?: boolean
+  version?: boolean
+  expiresAt?: boolean
+  relistPromptedAt?: boolean
+  fpoId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type CatalogOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "farmerId" | "becknJson" | "status" | "createdAt" | "updatedAt", ExtArgs["result"]["catalog"]>
+export type CatalogOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "farmerId" | "becknJson" | "status" | "version" | "expiresAt" | "relistPromptedAt" | "fpoId" | "createdAt" | "updatedAt", ExtArgs["result"]["catalog"]>
 export type CatalogInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+  fpo?: boolean | Prisma.Catalog$fpoArgs<ExtArgs>
+  bids?: boolean | Prisma.Catalog$bidsArgs<ExtArgs>
+  orders?: boolean | Prisma.Catalog$ordersArgs<ExtArgs>
+  revisions?: boolean | Prisma.Catalog$revisionsArgs<ExtArgs>
+  contributions?: boolean | Prisma.Catalog$contributionsArgs<ExtArgs>
+  _count?: boolean | Prisma.CatalogCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type CatalogIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+  fpo?: boolean | Prisma.Catalog$fpoArgs<ExtArgs>
 }
 export type CatalogIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+  fpo?: boolean | Prisma.Catalog$fpoArgs<ExtArgs>
 }
 
 export type $CatalogPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   name: "Catalog"
   objects: {
     farmer: Prisma.$FarmerPayload<ExtArgs>
+    fpo: Prisma.$FpoPayload<ExtArgs> | null
+    bids: Prisma.$BidPayload<ExtArgs>[]
+    orders: Prisma.$OrderPayload<ExtArgs>[]
+    revisions: Prisma.$CatalogRevisionPayload<ExtArgs>[]
+    contributions: Prisma.$PoolContributionPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
     farmerId: string
     becknJson: runtime.JsonValue
     status: $Enums.CatalogStatus
+    version: number
+    expiresAt: Date | null
+    relistPromptedAt: Date | null
+    fpoId: string | null
     createdAt: Date
     updatedAt: Date
   }, ExtArgs["result"]["catalog"]>
@@ -923,6 +1762,11 @@ readonly fields: CatalogFieldRefs;
 export interface Prisma__CatalogClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   farmer<T extends Prisma.FarmerDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.FarmerDefaultArgs<ExtArgs>>): Prisma.Prisma__FarmerClient<runtime.Types.Result.GetResult<Prisma.$FarmerPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  fpo<T extends Prisma.Catalog$fpoArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Catalog$fpoArgs<ExtArgs>>): Prisma.Prisma__FpoClient<runtime.Types.Result.GetResult<Prisma.$FpoPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  bids<T extends Prisma.Catalog$bidsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Catalog$bidsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BidPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  orders<T extends Prisma.Catalog$ordersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Catalog$ordersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  revisions<T extends Prisma.Catalog$revisionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Catalog$revisionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CatalogRevisionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  contributions<T extends Prisma.Catalog$contributionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Catalog$contributionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PoolContributionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -956,6 +1800,10 @@ export interface CatalogFieldRefs {
   readonly farmerId: Prisma.FieldRef<"Catalog", 'String'>
   readonly becknJson: Prisma.FieldRef<"Catalog", 'Json'>
   readonly status: Prisma.FieldRef<"Catalog", 'CatalogStatus'>
+  readonly version: Prisma.FieldRef<"Catalog", 'Int'>
+  readonly expiresAt: Prisma.FieldRef<"Catalog", 'DateTime'>
+  readonly relistPromptedAt: Prisma.FieldRef<"Catalog", 'DateTime'>
+  readonly fpoId: Prisma.FieldRef<"Catalog", 'String'>
   readonly createdAt: Prisma.FieldRef<"Catalog", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Catalog", 'DateTime'>
 }
@@ -1351,6 +2199,121 @@ export type CatalogDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.Inter
   limit?: number
 }
 
+/**
+ * Catalog.fpo
+ */
+export type Catalog$fpoArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Fpo
+   */
+  select?: Prisma.FpoSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Fpo
+   */
+  omit?: Prisma.FpoOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FpoInclude<ExtArgs> | null
+  where?: Prisma.FpoWhereInput
+}
+
+/**
+ * Catalog.bids
+ */
+export type Catalog$bidsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Bid
+   */
+  select?: Prisma.BidSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Bid
+   */
+  omit?: Prisma.BidOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BidInclude<ExtArgs> | null
+  where?: Prisma.BidWhereInput
+  orderBy?: Prisma.BidOrderByWithRelationInput | Prisma.BidOrderByWithRelationInput[]
+  cursor?: Prisma.BidWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.BidScalarFieldEnum | Prisma.BidScalarFieldEnum[]
+}
+
+/**
+ * Catalog.orders
+ */
+export type Catalog$ordersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Order
+   */
+  select?: Prisma.OrderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Order
+   */
+  omit?: Prisma.OrderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderInclude<ExtArgs> | null
+  where?: Prisma.OrderWhereInput
+  orderBy?: Prisma.OrderOrderByWithRelationInput | Prisma.OrderOrderByWithRelationInput[]
+  cursor?: Prisma.OrderWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.OrderScalarFieldEnum | Prisma.OrderScalarFieldEnum[]
+}
+
+/**
+ * Catalog.revisions
+ */
+export type Catalog$revisionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CatalogRevision
+   */
+  select?: Prisma.CatalogRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CatalogRevision
+   */
+  omit?: Prisma.CatalogRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CatalogRevisionInclude<ExtArgs> | null
+  where?: Prisma.CatalogRevisionWhereInput
+  orderBy?: Prisma.CatalogRevisionOrderByWithRelationInput | Prisma.CatalogRevisionOrderByWithRelationInput[]
+  cursor?: Prisma.CatalogRevisionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CatalogRevisionScalarFieldEnum | Prisma.CatalogRevisionScalarFieldEnum[]
+}
+
+/**
+ * Catalog.contributions
+ */
+export type Catalog$contributionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PoolContribution
+   */
+  select?: Prisma.PoolContributionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PoolContribution
+   */
+  omit?: Prisma.PoolContributionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PoolContributionInclude<ExtArgs> | null
+  where?: Prisma.PoolContributionWhereInput
+  orderBy?: Prisma.PoolContributionOrderByWithRelationInput | Prisma.PoolContributionOrderByWithRelationInput[]
+  cursor?: Prisma.PoolContributionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PoolContributionScalarFieldEnum | Prisma.PoolContributionScalarFieldEnum[]
+}
+
 /**
  * Catalog without action
  */
@@ -0,0 +1,1480 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `CatalogRevision` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model CatalogRevision
+ * 
+ */
+export type CatalogRevisionModel = runtime.Types.Result.DefaultSelection<Prisma.$CatalogRevisionPayload>
+
+export type AggregateCatalogRevision = {
+  _count: CatalogRevisionCountAggregateOutputType | null
+  _avg: CatalogRevisionAvgAggregateOutputType | null
+  _sum: CatalogRevisionSumAggregateOutputType | null
+  _min: CatalogRevisionMinAggregateOutputType | null
+  _max: CatalogRevisionMaxAggregateOutputType | null
+}
+
+export type CatalogRevisionAvgAggregateOutputType = {
+  version: number | null
+}
+
+export type CatalogRevisionSumAggregateOutputType = {
+  version: number | null
+}
+
+export type CatalogRevisionMinAggregateOutputType = {
+  id: string | null
+  catalogId: string | null
+  version: number | null
+  changedBy: string | null
+  note: string | null
+  createdAt: Date | null
+}
+
+export type CatalogRevisionMaxAggregateOutputType = {
+  id: string | null
+  catalogId: string | null
+  version: number | null
+  changedBy: string | null
+  note: string | null
+  createdAt: Date | null
+}
+
+export type CatalogRevisionCountAggregateOutputType = {
+  id: number
+  catalogId: number
+  version: number
+  becknJson: number
+  changes: number
+  changedBy: number
+  note: number
+  createdAt: number
+  _all: number
+}
+
+
+export type CatalogRevisionAvgAggregateInputType = {
+  version?: true
+}
+
+export type CatalogRevisionSumAggregateInputType = {
+  version?: true
+}
+
+export type CatalogRevisionMinAggregateInputType = {
+  id?: true
+  catalogId?: true
+  version?: true
+  changedBy?: true
+  note?: true
+  createdAt?: true
+}
+
+export type CatalogRevisionMaxAggregateInputType = {
+  id?: true
+  catalogId?: true
+  version?: true
+  changedBy?: true
+  note?: true
+  createdAt?: true
+}
+
+export type CatalogRevisionCountAggregateInputType = {
+  id?: true
+  catalogId?: true
+  version?: true
+  becknJson?: true
+  changes?: true
+  changedBy?: true
+  note?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type CatalogRevisionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CatalogRevision to aggregate.
+   */
+  where?: Prisma.CatalogRevisionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CatalogRevisions to fetch.
+   */
+  orderBy?: Prisma.CatalogRevisionOrderByWithRelationInput | Prisma.CatalogRevisionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.CatalogRevisionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CatalogRevisions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CatalogRevisions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned CatalogRevisions
+  **/
+  _count?: true | CatalogRevisionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: CatalogRevisionAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: CatalogRevisionSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: CatalogRevisionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: CatalogRevisionMaxAggregateInputType
+}
+
+export type GetCatalogRevisionAggregateType<T extends CatalogRevisionAggregateArgs> = {
+      [P in keyof T & keyof AggregateCatalogRevision]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateCatalogRevision[P]>
+    : Prisma.GetScalarType<T[P], AggregateCatalogRevision[P]>
+}
+
+
+
+
+export type CatalogRevisionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CatalogRevisionWhereInput
+  orderBy?: Prisma.CatalogRevisionOrderByWithAggregationInput | Prisma.CatalogRevisionOrderByWithAggregationInput[]
+  by: Prisma.CatalogRevisionScalarFieldEnum[] | Prisma.CatalogRevisionScalarFieldEnum
+  having?: Prisma.CatalogRevisionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: CatalogRevisionCountAggregateInputType | true
+  _avg?: CatalogRevisionAvgAggregateInputType
+  _sum?: CatalogRevisionSumAggregateInputType
+  _min?: CatalogRevisionMinAggregateInputType
+  _max?: CatalogRevisionMaxAggregateInputType
+}
+
+export type CatalogRevisionGroupByOutputType = {
+  id: string
+  catalogId: string
+  version: number
+  becknJson: runtime.JsonValue
+  changes: runtime.JsonValue
+  changedBy: string
+  note: string | null
+  createdAt: Date
+  _count: CatalogRevisionCountAggregateOutputType | null
+  _avg: CatalogRevisionAvgAggregateOutputType | null
+  _sum: CatalogRevisionSumAggregateOutputType | null
+  _min: CatalogRevisionMinAggregateOutputType | null
+  _max: CatalogRevisionMaxAggregateOutputType | null
+}
+
+type GetCatalogRevisionGroupByPayload<T extends CatalogRevisionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<CatalogRevisionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof CatalogRevisionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], CatalogRevisionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], CatalogRevisionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type CatalogRevisionWhereInput = {
+  AND?: Prisma.CatalogRevisionWhereInput | Prisma.CatalogRevisionWhereInput[]
+  OR?: Prisma.CatalogRevisionWhereInput[]
+  NOT?: Prisma.CatalogRevisionWhereInput | Prisma.CatalogRevisionWhereInput[]
+  id?: Prisma.StringFilter<"CatalogRevision"> | string
+  catalogId?: Prisma.StringFilter<"CatalogRevision"> | string
+  version?: Prisma.IntFilter<"CatalogRevision"> | number
+  becknJson?: Prisma.JsonFilter<"CatalogRevision">
+  changes?: Prisma.JsonFilter<"CatalogRevision">
+  changedBy?: Prisma.StringFilter<"CatalogRevision"> | string
+  note?: Prisma.StringNullableFilter<"CatalogRevision"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"CatalogRevision"> | Date | string
+  catalog?: Prisma.XOR<Prisma.CatalogScalarRelationFilter, Prisma.CatalogWhereInput>
+}
+
+export type CatalogRevisionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  catalogId?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  becknJson?: Prisma.SortOrder
+  changes?: Prisma.SortOrder
+  changedBy?: Prisma.SortOrder
+  note?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  catalog?: Prisma.CatalogOrderByWithRelationInput
+}
+
+export type CatalogRevisionWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  catalogId_version?: Prisma.CatalogRevisionCatalogIdVersionCompoundUniqueInput
+  AND?: Prisma.CatalogRevisionWhereInput | Prisma.CatalogRevisionWhereInput[]
+  OR?: Prisma.CatalogRevisionWhereInput[]
+  NOT?: Prisma.CatalogRevisionWhereInput | Prisma.CatalogRevisionWhereInput[]
+  catalogId?: Prisma.StringFilter<"CatalogRevision"> | string
+  version?: Prisma.IntFilter<"CatalogRevision"> | number
+  becknJson?: Prisma.JsonFilter<"CatalogRevision">
+  changes?: Prisma.JsonFilter<"CatalogRevision">
+  changedBy?: Prisma.StringFilter<"CatalogRevision"> | string
+  note?: Prisma.StringNullableFilter<"CatalogRevision"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"CatalogRevision"> | Date | string
+  catalog?: Prisma.XOR<Prisma.CatalogScalarRelationFilter, Prisma.CatalogWhereInput>
+}, "id" | "catalogId_version">
+
+export type CatalogRevisionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  catalogId?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  becknJson?: Prisma.SortOrder
+  changes?: Prisma.SortOrder
+  changedBy?: Prisma.SortOrder
+  note?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.CatalogRevisionCountOrderByAggregateInput
+  _avg?: Prisma.CatalogRevisionAvgOrderByAggregateInput
+  _max?: Prisma.CatalogRevisionMaxOrderByAggregateInput
+  _min?: Prisma.CatalogRevisionMinOrderByAggregateInput
+  _sum?: Prisma.CatalogRevisionSumOrderByAggregateInput
+}
+
+export type CatalogRevisionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.CatalogRevisionScalarWhereWithAggregatesInput | Prisma.CatalogRevisionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.CatalogRevisionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.CatalogRevisionScalarWhereWithAggregatesInput | Prisma.CatalogRevisionScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"CatalogRevision"> | string
+  catalogId?: Prisma.StringWithAggregatesFilter<"CatalogRevision"> | string
+  version?: Prisma.IntWithAggregatesFilter<"CatalogRevision"> | number
+  becknJson?: Prisma.JsonWithAggregatesFilter<"CatalogRevision">
+  changes?: Prisma.JsonWithAggregatesFilter<"CatalogRevision">
+  changedBy?: Prisma.StringWithAggregatesFilter<"CatalogRevision"> | string
+  note?: Prisma.StringNullableWithAggregatesFilter<"CatalogRevision"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"CatalogRevision"> | Date | string
+}
+
+export type CatalogRevisionCreateInput = {
+  id?: string
+  version: number
+  becknJson: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changes: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changedBy: string
+  note?: string | null
+  createdAt?: Date | string
+  catalog: Prisma.CatalogCreateNestedOneWithoutRevisionsInput
+}
+
+export type CatalogRevisionUncheckedCreateInput = {
+  id?: string
+  catalogId: string
+  version: number
+  becknJson: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changes: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changedBy: string
+  note?: string | null
+  createdAt?: Date | string
+}
+
+export type CatalogRevisionUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  becknJson?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changedBy?: Prisma.StringFieldUpdateOperationsInput | string
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  catalog?: Prisma.CatalogUpdateOneRequiredWithoutRevisionsNestedInput
+}
+
+export type CatalogRevisionUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  catalogId?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  becknJson?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changedBy?: Prisma.StringFieldUpdateOperationsInput | string
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CatalogRevisionCreateManyInput = {
+  id?: string
+  catalogId: string
+  version: number
+  becknJson: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changes: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changedBy: string
+  note?: string | null
+  createdAt?: Date | string
+}
+
+export type CatalogRevisionUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  becknJson?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changedBy?: Prisma.StringFieldUpdateOperationsInput | string
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CatalogRevisionUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  catalogId?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  becknJson?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changedBy?: Prisma.StringFieldUpdateOperationsInput | string
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CatalogRevisionListRelationFilter = {
+  every?: Prisma.CatalogRevisionWhereInput
+  some?: Prisma.CatalogRevisionWhereInput
+  none?: Prisma.CatalogRevisionWhereInput
+}
+
+export type CatalogRevisionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type CatalogRevisionCatalogIdVersionCompoundUniqueInput = {
+  catalogId: string
+  version: number
+}
+
+export type CatalogRevisionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  catalogId?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  becknJson?: Prisma.SortOrder
+  changes?: Prisma.SortOrder
+  changedBy?: Prisma.SortOrder
+  note?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type CatalogRevisionAvgOrderByAggregateInput = {
+  version?: Prisma.SortOrder
+}
+
+export type CatalogRevisionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  catalogId?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  changedBy?: Prisma.SortOrder
+  note?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type CatalogRevisionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  catalogId?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  changedBy?: Prisma.SortOrder
+  note?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type CatalogRevisionSumOrderByAggregateInput = {
+  version?: Prisma.SortOrder
+}
+
+export type CatalogRevisionCreateNestedManyWithoutCatalogInput = {
+  create?: Prisma.XOR<Prisma.CatalogRevisionCreateWithoutCatalogInput, Prisma.CatalogRevisionUncheckedCreateWithoutCatalogInput> | Prisma.CatalogRevisionCreateWithoutCatalogInput[] | Prisma.CatalogRevisionUncheckedCreateWithoutCatalogInput[]
+  connectOrCreate?: Prisma.CatalogRevisionCreateOrConnectWithoutCatalogInput | Prisma.CatalogRevisionCreateOrConnectWithoutCatalogInput[]
+  createMany?: Prisma.CatalogRevisionCreateManyCatalogInputEnvelope
+  connect?: Prisma.CatalogRevisionWhereUniqueInput | Prisma.CatalogRevisionWhereUniqueInput[]
+}
+
+export type CatalogRevisionUncheckedCreateNestedManyWithoutCatalogInput = {
+  create?: Prisma.XOR<Prisma.CatalogRevisionCreateWithoutCatalogInput, Prisma.CatalogRevisionUncheckedCreateWithoutCatalogInput> | Prisma.CatalogRevisionCreateWithoutCatalogInput[] | Prisma.CatalogRevisionUncheckedCreateWithoutCatalogInput[]
+  connectOrCreate?: Prisma.CatalogRevisionCreateOrConnectWithoutCatalogInput | Prisma.CatalogRevisionCreateOrConnectWithoutCatalogInput[]
+  createMany?: Prisma.CatalogRevisionCreateManyCatalogInputEnvelope
+  connect?: Prisma.CatalogRevisionWhereUniqueInput | Prisma.CatalogRevisionWhereUniqueInput[]
+}
+
+export type CatalogRevisionUpdateManyWithoutCatalogNestedInput = {
+  create?: Prisma.XOR<Prisma.CatalogRevisionCreateWithoutCatalogInput, Prisma.CatalogRevisionUncheckedCreateWithoutCatalogInput> | Prisma.CatalogRevisionCreateWithoutCatalogInput[] | Prisma.CatalogRevisionUncheckedCreateWithoutCatalogInput[]
+  connectOrCreate?: Prisma.CatalogRevisionCreateOrConnectWithoutCatalogInput | Prisma.CatalogRevisionCreateOrConnectWithoutCatalogInput[]
+  upsert?: Prisma.CatalogRevisionUpsertWithWhereUniqueWithoutCatalogInput | Prisma.CatalogRevisionUpsertWithWhereUniqueWithoutCatalogInput[]
+  createMany?: Prisma.CatalogRevisionCreateManyCatalogInputEnvelope
+  set?: Prisma.CatalogRevisionWhereUniqueInput | Prisma.CatalogRevisionWhereUniqueInput[]
+  disconnect?: Prisma.CatalogRevisionWhereUniqueInput | Prisma.CatalogRevisionWhereUniqueInput[]
+  delete?: Prisma.CatalogRevisionWhereUniqueInput | Prisma.CatalogRevisionWhereUniqueInput[]
+  connect?: Prisma.CatalogRevisionWhereUniqueInput | Prisma.CatalogRevisionWhereUniqueInput[]
+  update?: Prisma.CatalogRevisionUpdateWithWhereUniqueWithoutCatalogInput | Prisma.CatalogRevisionUpdateWithWhereUniqueWithoutCatalogInput[]
+  updateMany?: Prisma.CatalogRevisionUpdateManyWithWhereWithoutCatalogInput | Prisma.CatalogRevisionUpdateManyWithWhereWithoutCatalogInput[]
+  deleteMany?: Prisma.CatalogRevisionScalarWhereInput | Prisma.CatalogRevisionScalarWhereInput[]
+}
+
+export type CatalogRevisionUncheckedUpdateManyWithoutCatalogNestedInput = {
+  create?: Prisma.XOR<Prisma.CatalogRevisionCreateWithoutCatalogInput, Prisma.CatalogRevisionUncheckedCreateWithoutCatalogInput> | Prisma.CatalogRevisionCreateWithoutCatalogInput[] | Prisma.CatalogRevisionUncheckedCreateWithoutCatalogInput[]
+  connectOrCreate?: Prisma.CatalogRevisionCreateOrConnectWithoutCatalogInput | Prisma.CatalogRevisionCreateOrConnectWithoutCatalogInput[]
+  upsert?: Prisma.CatalogRevisionUpsertWithWhereUniqueWithoutCatalogInput | Prisma.CatalogRevisionUpsertWithWhereUniqueWithoutCatalogInput[]
+  createMany?: Prisma.CatalogRevisionCreateManyCatalogInputEnvelope
+  set?: Prisma.CatalogRevisionWhereUniqueInput | Prisma.CatalogRevisionWhereUniqueInput[]
+  disconnect?: Prisma.CatalogRevisionWhereUniqueInput | Prisma.CatalogRevisionWhereUniqueInput[]
+  delete?: Prisma.CatalogRevisionWhereUniqueInput | Prisma.CatalogRevisionWhereUniqueInput[]
+  connect?: Prisma.CatalogRevisionWhereUniqueInput | Prisma.CatalogRevisionWhereUniqueInput[]
+  update?: Prisma.CatalogRevisionUpdateWithWhereUniqueWithoutCatalogInput | Prisma.CatalogRevisionUpdateWithWhereUniqueWithoutCatalogInput[]
+  updateMany?: Prisma.CatalogRevisionUpdateManyWithWhereWithoutCatalogInput | Prisma.CatalogRevisionUpdateManyWithWhereWithoutCatalogInput[]
+  deleteMany?: Prisma.CatalogRevisionScalarWhereInput | Prisma.CatalogRevisionScalarWhereInput[]
+}
+
+export type CatalogRevisionCreateWithoutCatalogInput = {
+  id?: string
+  version: number
+  becknJson: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changes: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changedBy: string
+  note?: string | null
+  createdAt?: Date | string
+}
+
+export type CatalogRevisionUncheckedCreateWithoutCatalogInput = {
+  id?: string
+  version: number
+  becknJson: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changes: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changedBy: string
+  note?: string | null
+  createdAt?: Date | string
+}
+
+export type CatalogRevisionCreateOrConnectWithoutCatalogInput = {
+  where: Prisma.CatalogRevisionWhereUniqueInput
+  create: Prisma.XOR<Prisma.CatalogRevisionCreateWithoutCatalogInput, Prisma.CatalogRevisionUncheckedCreateWithoutCatalogInput>
+}
+
+export type CatalogRevisionCreateManyCatalogInputEnvelope = {
+  data: Prisma.CatalogRevisionCreateManyCatalogInput | Prisma.CatalogRevisionCreateManyCatalogInput[]
+}
+
+export type CatalogRevisionUpsertWithWhereUniqueWithoutCatalogInput = {
+  where: Prisma.CatalogRevisionWhereUniqueInput
+  update: Prisma.XOR<Prisma.CatalogRevisionUpdateWithoutCatalogInput, Prisma.CatalogRevisionUncheckedUpdateWithoutCatalogInput>
+  create: Prisma.XOR<Prisma.CatalogRevisionCreateWithoutCatalogInput, Prisma.CatalogRevisionUncheckedCreateWithoutCatalogInput>
+}
+
+export type CatalogRevisionUpdateWithWhereUniqueWithoutCatalogInput = {
+  where: Prisma.CatalogRevisionWhereUniqueInput
+  data: Prisma.XOR<Prisma.CatalogRevisionUpdateWithoutCatalogInput, Prisma.CatalogRevisionUncheckedUpdateWithoutCatalogInput>
+}
+
+export type CatalogRevisionUpdateManyWithWhereWithoutCatalogInput = {
+  where: Prisma.CatalogRevisionScalarWhereInput
+  data: Prisma.XOR<Prisma.CatalogRevisionUpdateManyMutationInput, Prisma.CatalogRevisionUncheckedUpdateManyWithoutCatalogInput>
+}
+
+export type CatalogRevisionScalarWhereInput = {
+  AND?: Prisma.CatalogRevisionScalarWhereInput | Prisma.CatalogRevisionScalarWhereInput[]
+  OR?: Prisma.CatalogRevisionScalarWhereInput[]
+  NOT?: Prisma.CatalogRevisionScalarWhereInput | Prisma.CatalogRevisionScalarWhereInput[]
+  id?: Prisma.StringFilter<"CatalogRevision"> | string
+  catalogId?: Prisma.StringFilter<"CatalogRevision"> | string
+  version?: Prisma.IntFilter<"CatalogRevision"> | number
+  becknJson?: Prisma.JsonFilter<"CatalogRevision">
+  changes?: Prisma.JsonFilter<"CatalogRevision">
+  changedBy?: Prisma.StringFilter<"CatalogRevision"> | string
+  note?: Prisma.StringNullableFilter<"CatalogRevision"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"CatalogRevision"> | Date | string
+}
+
+export type CatalogRevisionCreateManyCatalogInput = {
+  id?: string
+  version: number
+  becknJson: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changes: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changedBy: string
+  note?: string | null
+  createdAt?: Date | string
+}
+
+export type CatalogRevisionUpdateWithoutCatalogInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  becknJson?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changedBy?: Prisma.StringFieldUpdateOperationsInput | string
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CatalogRevisionUncheckedUpdateWithoutCatalogInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  becknJson?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changedBy?: Prisma.StringFieldUpdateOperationsInput | string
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CatalogRevisionUncheckedUpdateManyWithoutCatalogInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  becknJson?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  changedBy?: Prisma.StringFieldUpdateOperationsInput | string
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type CatalogRevisionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  catalogId?: boolean
+  version?: boolean
+  becknJson?: boolean
+  changes?: boolean
+  changedBy?: boolean
+  note?: boolean
+  createdAt?: boolean
+  catalog?: boolean | Prisma.CatalogDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["catalogRevision"]>
+
+export type CatalogRevisionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  catalogId?: boolean
+  version?: boolean
+  becknJson?: boolean
+  changes?: boolean
+  changedBy?: boolean
+  note?: boolean
+  createdAt?: boolean
+  catalog?: boolean | Prisma.CatalogDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["catalogRevision"]>
+
+export type CatalogRevisionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  catalogId?: boolean
+  version?: boolean
+  becknJson?: boolean
+  changes?: boolean
+  changedBy?: boolean
+  note?: boolean
+  createdAt?: boolean
+  catalog?: boolean | Prisma.CatalogDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["catalogRevision"]>
+
+export type CatalogRevisionSelectScalar = {
+  id?: boolean
+  catalogId?: boolean
+  version?: boolean
+  becknJson?: boolean
+  changes?: boolean
+  changedBy?: boolean
+  note?: boolean
+  createdAt?: boolean
+}
+
+export type CatalogRevisionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "catalogId" | "version" | "becknJson" | "changes" | "changedBy" | "note" | "createdAt", ExtArgs["result"]["catalogRevision"]>
+export type CatalogRevisionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  catalog?: boolean | Prisma.CatalogDefaultArgs<ExtArgs>
+}
+export type CatalogRevisionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  catalog?: boolean | Prisma.CatalogDefaultArgs<ExtArgs>
+}
+export type CatalogRevisionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  catalog?: boolean | Prisma.CatalogDefaultArgs<ExtArgs>
+}
+
+export type $CatalogRevisionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "CatalogRevision"
+  objects: {
+    catalog: Prisma.$CatalogPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    catalogId: string
+    version: number
+    becknJson: runtime.JsonValue
+    changes: runtime.JsonValue
+    changedBy: string
+    note: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["catalogRevision"]>
+  composites: {}
+}
+
+export type CatalogRevisionGetPayload<S extends boolean | null | undefined | CatalogRevisionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$CatalogRevisionPayload, S>
+
+export type CatalogRevisionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<CatalogRevisionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: CatalogRevisionCountAggregateInputType | true
+  }
+
+export interface CatalogRevisionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['CatalogRevision'], meta: { name: 'CatalogRevision' } }
+  /**
+   * Find zero or one CatalogRevision that matches the filter.
+   * @param {CatalogRevisionFindUniqueArgs} args - Arguments to find a CatalogRevision
+   * @example
+   * // Get one CatalogRevision
+   * const catalogRevision = await prisma.catalogRevision.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends CatalogRevisionFindUniqueArgs>(args: Prisma.SelectSubset<T, CatalogRevisionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__CatalogRevisionClient<runtime.Types.Result.GetResult<Prisma.$CatalogRevisionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one CatalogRevision that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {CatalogRevisionFindUniqueOrThrowArgs} args - Arguments to find a CatalogRevision
+   * @example
+   * // Get one CatalogRevision
+   * const catalogRevision = await prisma.catalogRevision.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends CatalogRevisionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, CatalogRevisionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__CatalogRevisionClient<runtime.Types.Result.GetResult<Prisma.$CatalogRevisionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CatalogRevision that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CatalogRevisionFindFirstArgs} args - Arguments to find a CatalogRevision
+   * @example
+   * // Get one CatalogRevision
+   * const catalogRevision = await prisma.catalogRevision.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends CatalogRevisionFindFirstArgs>(args?: Prisma.SelectSubset<T, CatalogRevisionFindFirstArgs<ExtArgs>>): Prisma.Prisma__CatalogRevisionClient<runtime.Types.Result.GetResult<Prisma.$CatalogRevisionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CatalogRevision that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CatalogRevisionFindFirstOrThrowArgs} args - Arguments to find a CatalogRevision
+   * @example
+   * // Get one CatalogRevision
+   * const catalogRevision = await prisma.catalogRevision.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends CatalogRevisionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, CatalogRevisionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__CatalogRevisionClient<runtime.Types.Result.GetResult<Prisma.$CatalogRevisionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more CatalogRevisions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CatalogRevisionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all CatalogRevisions
+   * const catalogRevisions = await prisma.catalogRevision.findMany()
+   * 
+   * // Get first 10 CatalogRevisions
+   * const catalogRevisions = await prisma.catalogRevision.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const catalogRevisionWithIdOnly = await prisma.catalogRevision.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends CatalogRevisionFindManyArgs>(args?: Prisma.SelectSubset<T, CatalogRevisionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CatalogRevisionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a CatalogRevision.
+   * @param {CatalogRevisionCreateArgs} args - Arguments to create a CatalogRevision.
+   * @example
+   * // Create one CatalogRevision
+   * const CatalogRevision = await prisma.catalogRevision.create({
+   *   data: {
+   *     // ... data to create a CatalogRevision
+   *   }
+   * })
+   * 
+   */
+  create<T extends CatalogRevisionCreateArgs>(args: Prisma.SelectSubset<T, CatalogRevisionCreateArgs<ExtArgs>>): Prisma.Prisma__CatalogRevisionClient<runtime.Types.Result.GetResult<Prisma.$CatalogRevisionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many CatalogRevisions.
+   * @param {CatalogRevisionCreateManyArgs} args - Arguments to create many CatalogRevisions.
+   * @example
+   * // Create many CatalogRevisions
+   * const catalogRevision = await prisma.catalogRevision.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends CatalogRevisionCreateManyArgs>(args?: Prisma.SelectSubset<T, CatalogRevisionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many CatalogRevisions and returns the data saved in the database.
+   * @param {CatalogRevisionCreateManyAndReturnArgs} args - Arguments to create many CatalogRevisions.
+   * @example
+   * // Create many CatalogRevisions
+   * const catalogRevision = await prisma.catalogRevision.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many CatalogRevisions and only return the `id`
+   * const catalogRevisionWithIdOnly = await prisma.catalogRevision.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends CatalogRevisionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, CatalogRevisionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CatalogRevisionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a CatalogRevision.
+   * @param {CatalogRevisionDeleteArgs} args - Arguments to delete one CatalogRevision.
+   * @example
+   * // Delete one CatalogRevision
+   * const CatalogRevision = await prisma.catalogRevision.delete({
+   *   where: {
+   *     // ... filter to delete one CatalogRevision
+   *   }
+   * })
+   * 
+   */
+  delete<T extends CatalogRevisionDeleteArgs>(args: Prisma.SelectSubset<T, CatalogRevisionDeleteArgs<ExtArgs>>): Prisma.Prisma__CatalogRevisionClient<runtime.Types.Result.GetResult<Prisma.$CatalogRevisionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one CatalogRevision.
+   * @param {CatalogRevisionUpdateArgs} args - Arguments to update one CatalogRevision.
+   * @example
+   * // Update one CatalogRevision
+   * const catalogRevision = await prisma.catalogRevision.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends CatalogRevisionUpdateArgs>(args: Prisma.SelectSubset<T, CatalogRevisionUpdateArgs<ExtArgs>>): Prisma.Prisma__CatalogRevisionClient<runtime.Types.Result.GetResult<Prisma.$CatalogRevisionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more CatalogRevisions.
+   * @param {CatalogRevisionDeleteManyArgs} args - Arguments to filter CatalogRevisions to delete.
+   * @example
+   * // Delete a few CatalogRevisions
+   * const { count } = await prisma.catalogRevision.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends CatalogRevisionDeleteManyArgs>(args?: Prisma.SelectSubset<T, CatalogRevisionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CatalogRevisions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CatalogRevisionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many CatalogRevisions
+   * const catalogRevision = await prisma.catalogRevision.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends CatalogRevisionUpdateManyArgs>(args: Prisma.SelectSubset<T, CatalogRevisionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CatalogRevisions and returns the data updated in the database.
+   * @param {CatalogRevisionUpdateManyAndReturnArgs} args - Arguments to update many CatalogRevisions.
+   * @example
+   * // Update many CatalogRevisions
+   * const catalogRevision = await prisma.catalogRevision.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more CatalogRevisions and only return the `id`
+   * const catalogRevisionWithIdOnly = await prisma.catalogRevision.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends CatalogRevisionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, CatalogRevisionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CatalogRevisionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one CatalogRevision.
+   * @param {CatalogRevisionUpsertArgs} args - Arguments to update or create a CatalogRevision.
+   * @example
+   * // Update or create a CatalogRevision
+   * const catalogRevision = await prisma.catalogRevision.upsert({
+   *   create: {
+   *     // ... data to create a CatalogRevision
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the CatalogRevision we want to update
+   *   }
+   * })
+   */
+  upsert<T extends CatalogRevisionUpsertArgs>(args: Prisma.SelectSubset<T, CatalogRevisionUpsertArgs<ExtArgs>>): Prisma.Prisma__CatalogRevisionClient<runtime.Types.Result.GetResult<Prisma.$CatalogRevisionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of CatalogRevisions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CatalogRevisionCountArgs} args - Arguments to filter CatalogRevisions to count.
+   * @example
+   * // Count the number of CatalogRevisions
+   * const count = await prisma.catalogRevision.count({
+   *   where: {
+   *     // ... the filter for the CatalogRevisions we want to count
+   *   }
+   * })
+  **/
+  count<T extends CatalogRevisionCountArgs>(
+    args?: Prisma.Subset<T, CatalogRevisionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], CatalogRevisionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a CatalogRevision.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CatalogRevisionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends CatalogRevisionAggregateArgs>(args: Prisma.Subset<T, CatalogRevisionAggregateArgs>): Prisma.PrismaPromise<GetCatalogRevisionAggregateType<T>>
+
+  /**
+   * Group by CatalogRevision.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CatalogRevisionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends CatalogRevisionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: CatalogRevisionGroupByArgs['orderBy'] }
+      : { orderBy?: CatalogRevisionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, CatalogRevisionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetCatalogRevisionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the CatalogRevision model
+ */
+readonly fields: CatalogRevisionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for CatalogRevision.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__CatalogRevisionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  catalog<T extends Prisma.CatalogDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CatalogDefaultArgs<ExtArgs>>): Prisma.Prisma__CatalogClient<runtime.Types.Result.GetResult<Prisma.$CatalogPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the CatalogRevision model
+ */
+export interface CatalogRevisionFieldRefs {
+  readonly id: Prisma.FieldRef<"CatalogRevision", 'String'>
+  readonly catalogId: Prisma.FieldRef<"CatalogRevision", 'String'>
+  readonly version: Prisma.FieldRef<"CatalogRevision", 'Int'>
+  readonly becknJson: Prisma.FieldRef<"CatalogRevision", 'Json'>
+  readonly changes: Prisma.FieldRef<"CatalogRevision", 'Json'>
+  readonly changedBy: Prisma.FieldRef<"CatalogRevision", 'String'>
+  readonly note: Prisma.FieldRef<"CatalogRevision", 'String'>
+  readonly createdAt: Prisma.FieldRef<"CatalogRevision", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * CatalogRevision findUnique
+ */
+export type CatalogRevisionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CatalogRevision
+   */
+  select?: Prisma.CatalogRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CatalogRevision
+   */
+  omit?: Prisma.CatalogRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CatalogRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which CatalogRevision to fetch.
+   */
+  where: Prisma.CatalogRevisionWhereUniqueInput
+}
+
+/**
+ * CatalogRevision findUniqueOrThrow
+ */
+export type CatalogRevisionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CatalogRevision
+   */
+  select?: Prisma.CatalogRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CatalogRevision
+   */
+  omit?: Prisma.CatalogRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CatalogRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which CatalogRevision to fetch.
+   */
+  where: Prisma.CatalogRevisionWhereUniqueInput
+}
+
+/**
+ * CatalogRevision findFirst
+ */
+export type CatalogRevisionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CatalogRevision
+   */
+  select?: Prisma.CatalogRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CatalogRevision
+   */
+  omit?: Prisma.CatalogRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CatalogRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which CatalogRevision to fetch.
+   */
+  where?: Prisma.CatalogRevisionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CatalogRevisions to fetch.
+   */
+  orderBy?: Prisma.CatalogRevisionOrderByWithRelationInput | Prisma.CatalogRevisionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CatalogRevisions.
+   */
+  cursor?: Prisma.CatalogRevisionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CatalogRevisions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CatalogRevisions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CatalogRevisions.
+   */
+  distinct?: Prisma.CatalogRevisionScalarFieldEnum | Prisma.CatalogRevisionScalarFieldEnum[]
+}
+
+/**
+ * CatalogRevision findFirstOrThrow
+ */
+export type CatalogRevisionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CatalogRevision
+   */
+  select?: Prisma.CatalogRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CatalogRevision
+   */
+  omit?: Prisma.CatalogRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CatalogRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which CatalogRevision to fetch.
+   */
+  where?: Prisma.CatalogRevisionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CatalogRevisions to fetch.
+   */
+  orderBy?: Prisma.CatalogRevisionOrderByWithRelationInput | Prisma.CatalogRevisionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CatalogRevisions.
+   */
+  cursor?: Prisma.CatalogRevisionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CatalogRevisions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CatalogRevisions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CatalogRevisions.
+   */
+  distinct?: Prisma.CatalogRevisionScalarFieldEnum | Prisma.CatalogRevisionScalarFieldEnum[]
+}
+
+/**
+ * CatalogRevision findMany
+ */
+export type CatalogRevisionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CatalogRevision
+   */
+  select?: Prisma.CatalogRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CatalogRevision
+   */
+  omit?: Prisma.CatalogRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CatalogRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which CatalogRevisions to fetch.
+   */
+  where?: Prisma.CatalogRevisionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CatalogRevisions to fetch.
+   */
+  orderBy?: Prisma.CatalogRevisionOrderByWithRelationInput | Prisma.CatalogRevisionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing CatalogRevisions.
+   */
+  cursor?: Prisma.CatalogRevisionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CatalogRevisions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CatalogRevisions.
+   */
+  skip?: number
+  distinct?: Prisma.CatalogRevisionScalarFieldEnum | Prisma.CatalogRevisionScalarFieldEnum[]
+}
+
+/**
+ * CatalogRevision create
+ */
+export type CatalogRevisionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CatalogRevision
+   */
+  select?: Prisma.CatalogRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CatalogRevision
+   */
+  omit?: Prisma.CatalogRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CatalogRevisionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a CatalogRevision.
+   */
+  data: Prisma.XOR<Prisma.CatalogRevisionCreateInput, Prisma.CatalogRevisionUncheckedCreateInput>
+}
+
+/**
+ * CatalogRevision createMany
+ */
+export type CatalogRevisionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many CatalogRevisions.
+   */
+  data: Prisma.CatalogRevisionCreateManyInput | Prisma.CatalogRevisionCreateManyInput[]
+}
+
+/**
+ * CatalogRevision createManyAndReturn
+ */
+export type CatalogRevisionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CatalogRevision
+   */
+  select?: Prisma.CatalogRevisionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CatalogRevision
+   */
+  omit?: Prisma.CatalogRevisionOmit<ExtArgs> | null
+  /**
+   * The data used to create many CatalogRevisions.
+   */
+  data: Prisma.CatalogRevisionCreateManyInput | Prisma.CatalogRevisionCreateManyInput[]
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CatalogRevisionIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CatalogRevision update
+ */
+export type CatalogRevisionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CatalogRevision
+   */
+  select?: Prisma.CatalogRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CatalogRevision
+   */
+  omit?: Prisma.CatalogRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CatalogRevisionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a CatalogRevision.
+   */
+  data: Prisma.XOR<Prisma.CatalogRevisionUpdateInput, Prisma.CatalogRevisionUncheckedUpdateInput>
+  /**
+   * Choose, which CatalogRevision to update.
+   */
+  where: Prisma.CatalogRevisionWhereUniqueInput
+}
+
+/**
+ * CatalogRevision updateMany
+ */
+export type CatalogRevisionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update CatalogRevisions.
+   */
+  data: Prisma.XOR<Prisma.CatalogRevisionUpdateManyMutationInput, Prisma.CatalogRevisionUncheckedUpdateManyInput>
+  /**
+   * Filter which CatalogRevisions to update
+   */
+  where?: Prisma.CatalogRevisionWhereInput
+  /**
+   * Limit how many CatalogRevisions to update.
+   */
+  limit?: number
+}
+
+/**
+ * CatalogRevision updateManyAndReturn
+ */
+export type CatalogRevisionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CatalogRevision
+   */
+  select?: Prisma.CatalogRevisionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CatalogRevision
+   */
+  omit?: Prisma.CatalogRevisionOmit<ExtArgs> | null
+  /**
+   * The data used to update CatalogRevisions.
+   */
+  data: Prisma.XOR<Prisma.CatalogRevisionUpdateManyMutationInput, Prisma.CatalogRevisionUncheckedUpdateManyInput>
+  /**
+   * Filter which CatalogRevisions to update
+   */
+  where?: Prisma.CatalogRevisionWhereInput
+  /**
+   * Limit how many CatalogRevisions to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CatalogRevisionIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CatalogRevision upsert
+ */
+export type CatalogRevisionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CatalogRevision
+   */
+  select?: Prisma.CatalogRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CatalogRevision
+   */
+  omit?: Prisma.CatalogRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CatalogRevisionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the CatalogRevision to update in case it exists.
+   */
+  where: Prisma.CatalogRevisionWhereUniqueInput
+  /**
+   * In case the CatalogRevision found by the `where` argument doesn't exist, create a new CatalogRevision with this data.
+   */
+  create: Prisma.XOR<Prisma.CatalogRevisionCreateInput, Prisma.CatalogRevisionUncheckedCreateInput>
+  /**
+   * In case the CatalogRevision was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.CatalogRevisionUpdateInput, Prisma.CatalogRevisionUncheckedUpdateInput>
+}
+
+/**
+ * CatalogRevision delete
+ */
+export type CatalogRevisionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CatalogRevision
+   */
+  select?: Prisma.CatalogRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CatalogRevision
+   */
+  omit?: Prisma.CatalogRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CatalogRevisionInclude<ExtArgs> | null
+  /**
+   * Filter which CatalogRevision to delete.
+   */
+  where: Prisma.CatalogRevisionWhereUniqueInput
+}
+
+/**
+ * CatalogRevision deleteMany
+ */
+export type CatalogRevisionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CatalogRevisions to delete
+   */
+  where?: Prisma.CatalogRevisionWhereInput
+  /**
+   * Limit how many CatalogRevisions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * CatalogRevision without action
+ */
+export type CatalogRevisionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CatalogRevision
+   */
+  select?: Prisma.CatalogRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CatalogRevision
+   */
+  omit?: Prisma.CatalogRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CatalogRevisionInclude<ExtArgs> | null
+}
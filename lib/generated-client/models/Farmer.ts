@@ -20,16 +20,36 @@ export type FarmerModel = runtime.Types.Result.DefaultSelection<Prisma.$FarmerPa
 
 export type AggregateFarmer = {
   _count: FarmerCountAggregateOutputType | null
+  _avg: FarmerAvgAggregateOutputType | null
+  _sum: FarmerSumAggregateOutputType | null
   _min: FarmerMinAggregateOutputType | null
   _max: FarmerMaxAggregateOutputType | null
 }
 
+export type FarmerAvgAggregateOutputType = {
+  landholdingAcres: number | null
+}
+
+export type FarmerSumAggregateOutputType = {
+  landholdingAcres: number | null
+}
+
 export type FarmerMinAggregateOutputType = {
   id: string | null
   name: string | null
+  phone: string | null
   locationLatLong: string | null
+  village: string | null
+  district: string | null
+  state: string | null
+  landholdingAcres: number | null
   languagePref: string | null
   upiId: string | null
+  bankAccountName: string | null
+  bankAccountNumber: string | null
+  bankIfsc: string | null
+  kycStatus: $Enums.KycStatus | null
+  fpoId: string | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -37,9 +57,19 @@ export type FarmerMinAggregateOutputType = {
 export type FarmerMaxAggregateOutputType = {
   id: string | null
   name: string | null
+  phone: string | null
   locationLatLong: string | null
+  village: string | null
+  district: string | null
+  state: string | null
+  landholdingAcres: number | null
   languagePref: string | null
   upiId: string | null
+  bankAccountName: string | null
+  bankAccountNumber: string | null
+  bankIfsc: string | null
+  kycStatus: $Enums.KycStatus | null
+  fpoId: string | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -47,21 +77,51 @@ export type FarmerMaxAggregateOutputType = {
 export type FarmerCountAggregateOutputType = {
   id: number
   name: number
+  phone: number
   locationLatLong: number
+  village: number
+  district: number
+  state: number
+  landholdingAcres: number
+  crops: number
+  preferredMandis: number
   languagePref: number
   upiId: number
+  bankAccountName: number
+  bankAccountNumber: number
+  bankIfsc: number
+  kycStatus: number
+  fpoId: number
   createdAt: number
   updatedAt: number
   _all: number
 }
 
 
+export type FarmerAvgAggregateInputType = {
+  landholdingAcres?: true
+}
+
+export type FarmerSumAggregateInputType = {
+  landholdingAcres?: true
+}
+
 export type FarmerMinAggregateInputType = {
   id?: true
   name?: true
+  phone?: true
   locationLatLong?: true
+  village?: true
+  district?: true
+  state?: true
+  landholdingAcres?: true
   languagePref?: true
   upiId?: true
+  bankAccountName?: true
+  bankAccountNumber?: true
+  bankIfsc?: true
+  kycStatus?: true
+  fpoId?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -69,9 +129,19 @@ export type FarmerMinAggregateInputType = {
 export type FarmerMaxAggregateInputType = {
   id?: true
   name?: true
+  phone?: true
   locationLatLong?: true
+  village?: true
+  district?: true
+  state?: true
+  landholdingAcres?: true
   languagePref?: true
   upiId?: true
+  bankAccountName?: true
+  bankAccountNumber?: true
+  bankIfsc?: true
+  kycStatus?: true
+  fpoId?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -79,9 +149,21 @@ export type FarmerMaxAggregateInputType = {
 export type FarmerCountAggregateInputType = {
   id?: true
   name?: true
+  phone?: true
   locationLatLong?: true
+  village?: true
+  district?: true
+  state?: true
+  landholdingAcres?: true
+  crops?: true
+  preferredMandis?: true
   languagePref?: true
   upiId?: true
+  bankAccountName?: true
+  bankAccountNumber?: true
+  bankIfsc?: true
+  kycStatus?: true
+  fpoId?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -122,6 +204,18 @@ export type FarmerAggregateArgs<ExtArgs extends runtime.Types.Extensions.Interna
    * Count returned Farmers
   **/
   _count?: true | FarmerCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: FarmerAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: FarmerSumAggregateInputType
   /**
    * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
    * 
@@ -155,6 +249,8 @@ export type FarmerGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalA
   take?: number
   skip?: number
   _count?: FarmerCountAggregateInputType | true
+  _avg?: FarmerAvgAggregateInputType
+  _sum?: FarmerSumAggregateInputType
   _min?: FarmerMinAggregateInputType
   _max?: FarmerMaxAggregateInputType
 }
@@ -162,12 +258,26 @@ export type FarmerGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalA
 export type FarmerGroupByOutputType = {
   id: string
   name: string
+  phone: string | null
   locationLatLong: string | null
+  village: string | null
+  district: string | null
+  state: string | null
+  landholdingAcres: number | null
+  crops: runtime.JsonValue
+  preferredMandis: runtime.JsonValue
   languagePref: string
   upiId: string | null
+  bankAccountName: string | null
+  bankAccountNumber: string | null
+  bankIfsc: string | null
+  kycStatus: $Enums.KycStatus
+  fpoId: string | null
   createdAt: Date
   updatedAt: Date
   _count: FarmerCountAggregateOutputType | null
+  _avg: FarmerAvgAggregateOutputType | null
+  _sum: FarmerSumAggregateOutputType | null
   _min: FarmerMinAggregateOutputType | null
   _max: FarmerMaxAggregateOutputType | null
 }
@@ -193,50 +303,118 @@ export type FarmerWhereInput = {
   NOT?: Prisma.FarmerWhereInput | Prisma.FarmerWhereInput[]
   id?: Prisma.StringFilter<"Farmer"> | string
   name?: Prisma.StringFilter<"Farmer"> | string
+  phone?: Prisma.StringNullableFilter<"Farmer"> | string | null
   locationLatLong?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  village?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  district?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  state?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  landholdingAcres?: Prisma.FloatNullableFilter<"Farmer"> | number | null
+  crops?: Prisma.JsonFilter<"Farmer">
+  preferredMandis?: Prisma.JsonFilter<"Farmer">
   languagePref?: Prisma.StringFilter<"Farmer"> | string
   upiId?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  bankAccountName?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  bankAccountNumber?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  bankIfsc?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  kycStatus?: Prisma.EnumKycStatusFilter<"Farmer"> | $Enums.KycStatus
+  fpoId?: Prisma.StringNullableFilter<"Farmer"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Farmer"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Farmer"> | Date | string
+  fpo?: Prisma.XOR<Prisma.FpoNullableScalarRelationFilter, Prisma.FpoWhereInput> | null
   catalogs?: Prisma.CatalogListRelationFilter
+  bids?: Prisma.BidListRelationFilter
+  orders?: Prisma.OrderListRelationFilter
+  sessions?: Prisma.FarmerSessionListRelationFilter
+  poolContributions?: Prisma.PoolContributionListRelationFilter
+  conversations?: Prisma.VoiceConversationListRelationFilter
 }
 
 export type FarmerOrderByWithRelationInput = {
   id?: Prisma.SortOrder
   name?: Prisma.SortOrder
+  phone?: Prisma.SortOrderInput | Prisma.SortOrder
   locationLatLong?: Prisma.SortOrderInput | Prisma.SortOrder
+  village?: Prisma.SortOrderInput | Prisma.SortOrder
+  district?: Prisma.SortOrderInput | Prisma.SortOrder
+  state?: Prisma.SortOrderInput | Prisma.SortOrder
+  landholdingAcres?: Prisma.SortOrderInput | Prisma.SortOrder
+  crops?: Prisma.SortOrder
+  preferredMandis?: Prisma.SortOrder
   languagePref?: Prisma.SortOrder
   upiId?: Prisma.SortOrderInput | Prisma.SortOrder
+  bankAccountName?: Prisma.SortOrderInput | Prisma.SortOrder
+  bankAccountNumber?: Prisma.SortOrderInput | Prisma.SortOrder
+  bankIfsc?: Prisma.SortOrderInput | Prisma.SortOrder
+  kycStatus?: Prisma.SortOrder
+  fpoId?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  fpo?: Prisma.FpoOrderByWithRelationInput
   catalogs?: Prisma.CatalogOrderByRelationAggregateInput
+  bids?: Prisma.BidOrderByRelationAggregateInput
+  orders?: Prisma.OrderOrderByRelationAggregateInput
+  sessions?: Prisma.FarmerSessionOrderByRelationAggregateInput
+  poolContributions?: Prisma.PoolContributionOrderByRelationAggregateInput
+  conversations?: Prisma.VoiceConversationOrderByRelationAggregateInput
 }
 
 export type FarmerWhereUniqueInput = Prisma.AtLeast<{
   id?: string
+  phone?: string
   AND?: Prisma.FarmerWhereInput | Prisma.FarmerWhereInput[]
   OR?: Prisma.FarmerWhereInput[]
   NOT?: Prisma.FarmerWhereInput | Prisma.FarmerWhereInput[]
   name?: Prisma.StringFilter<"Farmer"> | string
   locationLatLong?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  village?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  district?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  state?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  landholdingAcres?: Prisma.FloatNullableFilter<"Farmer"> | number | null
+  crops?: Prisma.JsonFilter<"Farmer">
+  preferredMandis?: Prisma.JsonFilter<"Farmer">
   languagePref?: Prisma.StringFilter<"Farmer"> | string
   upiId?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  bankAccountName?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  bankAccountNumber?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  bankIfsc?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  kycStatus?: Prisma.EnumKycStatusFilter<"Farmer"> | $Enums.KycStatus
+  fpoId?: Prisma.StringNullableFilter<"Farmer"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Farmer"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Farmer"> | Date | string
+  fpo?: Prisma.XOR<Prisma.FpoNullableScalarRelationFilter, Prisma.FpoWhereInput> | null
   catalogs?: Prisma.CatalogListRelationFilter
-}, "id">
+  bids?: Prisma.BidListRelationFilter
+  orders?: Prisma.OrderListRelationFilter
+  sessions?: Prisma.FarmerSessionListRelationFilter
+  poolContributions?: Prisma.PoolContributionListRelationFilter
+  conversations?: Prisma.VoiceConversationListRelationFilter
+}, "id" | "phone">
 
 export type FarmerOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
   name?: Prisma.SortOrder
+  phone?: Prisma.SortOrderInput | Prisma.SortOrder
   locationLatLong?: Prisma.SortOrderInput | Prisma.SortOrder
+  village?: Prisma.SortOrderInput | Prisma.SortOrder
+  district?: Prisma.SortOrderInput | Prisma.SortOrder
+  state?: Prisma.SortOrderInput | Prisma.SortOrder
+  landholdingAcres?: Prisma.SortOrderInput | Prisma.SortOrder
+  crops?: Prisma.SortOrder
+  preferredMandis?: Prisma.SortOrder
   languagePref?: Prisma.SortOrder
   upiId?: Prisma.SortOrderInput | Prisma.SortOrder
+  bankAccountName?: Prisma.SortOrderInput | Prisma.SortOrder
+  bankAccountNumber?: Prisma.SortOrderInput | Prisma.SortOrder
+  bankIfsc?: Prisma.SortOrderInput | Prisma.SortOrder
+  kycStatus?: Prisma.SortOrder
+  fpoId?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.FarmerCountOrderByAggregateInput
+  _avg?: Prisma.FarmerAvgOrderByAggregateInput
   _max?: Prisma.FarmerMaxOrderByAggregateInput
   _min?: Prisma.FarmerMinOrderByAggregateInput
+  _sum?: Prisma.FarmerSumOrderByAggregateInput
 }
 
 export type FarmerScalarWhereWithAggregatesInput = {
@@ -245,9 +423,21 @@ export type FarmerScalarWhereWithAggregatesInput = {
   NOT?: Prisma.FarmerScalarWhereWithAggregatesInput | Prisma.FarmerScalarWhereWithAggregatesInput[]
   id?: Prisma.StringWithAggregatesFilter<"Farmer"> | string
   name?: Prisma.StringWithAggregatesFilter<"Farmer"> | string
+  phone?: Prisma.StringNullableWithAggregatesFilter<"Farmer"> | string | null
   locationLatLong?: Prisma.StringNullableWithAggregatesFilter<"Farmer"> | string | null
+  village?: Prisma.StringNullableWithAggregatesFilter<"Farmer"> | string | null
+  district?: Prisma.StringNullableWithAggregatesFilter<"Farmer"> | string | null
+  state?: Prisma.StringNullableWithAggregatesFilter<"Farmer"> | string | null
+  landholdingAcres?: Prisma.FloatNullableWithAggregatesFilter<"Farmer"> | number | null
+  crops?: Prisma.JsonWithAggregatesFilter<"Farmer">
+  preferredMandis?: Prisma.JsonWithAggregatesFilter<"Farmer">
   languagePref?: Prisma.StringWithAggregatesFilter<"Farmer"> | string
   upiId?: Prisma.StringNullableWithAggregatesFilter<"Farmer"> | string | null
+  bankAccountName?: Prisma.StringNullableWithAggregatesFilter<"Farmer"> | string | null
+  bankAccountNumber?: Prisma.StringNullableWithAggregatesFilter<"Farmer"> | string | null
+  bankIfsc?: Prisma.StringNullableWithAggregatesFilter<"Farmer"> | string | null
+  kycStatus?: Prisma.EnumKycStatusWithAggregatesFilter<"Farmer"> | $Enums.KycStatus
+  fpoId?: Prisma.StringNullableWithAggregatesFilter<"Farmer"> | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Farmer"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Farmer"> | Date | string
 }
@@ -255,53 +445,133 @@ export type FarmerScalarWhereWithAggregatesInput = {
 export type FarmerCreateInput = {
   id?: string
   name: string
+  phone?: string | null
   locationLatLong?: string | null
+  village?: string | null
+  district?: string | null
+  state?: string | null
+  landholdingAcres?: number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   languagePref?: string
   upiId?: string | null
+  bankAccountName?: string | null
+  bankAccountNumber?: string | null
+  bankIfsc?: string | null
+  kycStatus?: $Enums.KycStatus
   createdAt?: Date | string
   updatedAt?: Date | string
+  fpo?: Prisma.FpoCreateNestedOneWithoutMembersInput
   catalogs?: Prisma.CatalogCreateNestedManyWithoutFarmerInput
+  bids?: Prisma.BidCreateNestedManyWithoutFarmerInput
+  orders?: Prisma.OrderCreateNestedManyWithoutFarmerInput
+  sessions?: Prisma.FarmerSessionCreateNestedManyWithoutFarmerInput
+  poolContributions?: Prisma.PoolContributionCreateNestedManyWithoutFarmerInput
+  conversations?: Prisma.VoiceConversationCreateNestedManyWithoutFarmerInput
 }
 
 export type FarmerUncheckedCreateInput = {
   id?: string
   name: string
+  phone?: string | null
   locationLatLong?: string | null
+  village?: string | null
+  district?: string | null
+  state?: string | null
+  landholdingAcres?: number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   languagePref?: string
   upiId?: string | null
+  bankAccountName?: string | null
+  bankAccountNumber?: string | null
+  bankIfsc?: string | null
+  kycStatus?: $Enums.KycStatus
+  fpoId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   catalogs?: Prisma.CatalogUncheckedCreateNestedManyWithoutFarmerInput
+  bids?: Prisma.BidUncheckedCreateNestedManyWithoutFarmerInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutFarmerInput
+  sessions?: Prisma.FarmerSessionUncheckedCreateNestedManyWithoutFarmerInput
+  poolContributions?: Prisma.PoolContributionUncheckedCreateNestedManyWithoutFarmerInput
+  conversations?: Prisma.VoiceConversationUncheckedCreateNestedManyWithoutFarmerInput
 }
 
 export type FarmerUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   locationLatLong?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  village?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  district?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  landholdingAcres?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   languagePref?: Prisma.StringFieldUpdateOperationsInput | string
   upiId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankIfsc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  kycStatus?: Prisma.EnumKycStatusFieldUpdateOperationsInput | $Enums.KycStatus
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fpo?: Prisma.FpoUpdateOneWithoutMembersNestedInput
   catalogs?: Prisma.CatalogUpdateManyWithoutFarmerNestedInput
+  bids?: Prisma.BidUpdateManyWithoutFarmerNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutFarmerNestedInput
+  sessions?: Prisma.FarmerSessionUpdateManyWithoutFarmerNestedInput
+  poolContributions?: Prisma.PoolContributionUpdateManyWithoutFarmerNestedInput
+  conversations?: Prisma.VoiceConversationUpdateManyWithoutFarmerNestedInput
 }
 
 export type FarmerUncheckedUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   locationLatLong?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  village?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  district?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  landholdingAcres?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   languagePref?: Prisma.StringFieldUpdateOperationsInput | string
   upiId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankIfsc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  kycStatus?: Prisma.EnumKycStatusFieldUpdateOperationsInput | $Enums.KycStatus
+  fpoId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   catalogs?: Prisma.CatalogUncheckedUpdateManyWithoutFarmerNestedInput
+  bids?: Prisma.BidUncheckedUpdateManyWithoutFarmerNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutFarmerNestedInput
+  sessions?: Prisma.FarmerSessionUncheckedUpdateManyWithoutFarmerNestedInput
+  poolContributions?: Prisma.PoolContributionUncheckedUpdateManyWithoutFarmerNestedInput
+  conversations?: Prisma.VoiceConversationUncheckedUpdateManyWithoutFarmerNestedInput
 }
 
 export type FarmerCreateManyInput = {
   id?: string
   name: string
+  phone?: string | null
   locationLatLong?: string | null
+  village?: string | null
+  district?: string | null
+  state?: string | null
+  landholdingAcres?: number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   languagePref?: string
   upiId?: string | null
+  bankAccountName?: string | null
+  bankAccountNumber?: string | null
+  bankIfsc?: string | null
+  kycStatus?: $Enums.KycStatus
+  fpoId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -309,9 +579,20 @@ export type FarmerCreateManyInput = {
 export type FarmerUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   locationLatLong?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  village?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  district?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  landholdingAcres?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   languagePref?: Prisma.StringFieldUpdateOperationsInput | string
   upiId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankIfsc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  kycStatus?: Prisma.EnumKycStatusFieldUpdateOperationsInput | $Enums.KycStatus
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -319,9 +600,21 @@ export type FarmerUpdateManyMutationInput = {
 export type FarmerUncheckedUpdateManyInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   locationLatLong?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  village?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  district?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  landholdingAcres?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   languagePref?: Prisma.StringFieldUpdateOperationsInput | string
   upiId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankIfsc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  kycStatus?: Prisma.EnumKycStatusFieldUpdateOperationsInput | $Enums.KycStatus
+  fpoId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -329,19 +622,45 @@ export type FarmerUncheckedUpdateManyInput = {
 export type FarmerCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   name?: Prisma.SortOrder
+  phone?: Prisma.SortOrder
   locationLatLong?: Prisma.SortOrder
+  village?: Prisma.SortOrder
+  district?: Prisma.SortOrder
+  state?: Prisma.SortOrder
+  landholdingAcres?: Prisma.SortOrder
+  crops?: Prisma.SortOrder
+  preferredMandis?: Prisma.SortOrder
   languagePref?: Prisma.SortOrder
   upiId?: Prisma.SortOrder
+  bankAccountName?: Prisma.SortOrder
+  bankAccountNumber?: Prisma.SortOrder
+  bankIfsc?: Prisma.SortOrder
+  kycStatus?: Prisma.SortOrder
+  fpoId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
+export type FarmerAvgOrderByAggregateInput = {
+  landholdingAcres?: Prisma.SortOrder
+}
+
 export type FarmerMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
   name?: Prisma.SortOrder
+  phone?: Prisma.SortOrder
   locationLatLong?: Prisma.SortOrder
+  village?: Prisma.SortOrder
+  district?: Prisma.SortOrder
+  state?: Prisma.SortOrder
+  landholdingAcres?: Prisma.SortOrder
   languagePref?: Prisma.SortOrder
   upiId?: Prisma.SortOrder
+  bankAccountName?: Prisma.SortOrder
+  bankAccountNumber?: Prisma.SortOrder
+  bankIfsc?: Prisma.SortOrder
+  kycStatus?: Prisma.SortOrder
+  fpoId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -349,13 +668,37 @@ export type FarmerMaxOrderByAggregateInput = {
 export type FarmerMinOrderByAggregateInput = {
   id?: Prisma.SortOrder
   name?: Prisma.SortOrder
+  phone?: Prisma.SortOrder
   locationLatLong?: Prisma.SortOrder
+  village?: Prisma.SortOrder
+  district?: Prisma.SortOrder
+  state?: Prisma.SortOrder
+  landholdingAcres?: Prisma.SortOrder
   languagePref?: Prisma.SortOrder
   upiId?: Prisma.SortOrder
+  bankAccountName?: Prisma.SortOrder
+  bankAccountNumber?: Prisma.SortOrder
+  bankIfsc?: Prisma.SortOrder
+  kycStatus?: Prisma.SortOrder
+  fpoId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
+export type FarmerSumOrderByAggregateInput = {
+  landholdingAcres?: Prisma.SortOrder
+}
+
+export type FarmerListRelationFilter = {
+  every?: Prisma.FarmerWhereInput
+  some?: Prisma.FarmerWhereInput
+  none?: Prisma.FarmerWhereInput
+}
+
+export type FarmerOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
 export type FarmerScalarRelationFilter = {
   is?: Prisma.FarmerWhereInput
   isNot?: Prisma.FarmerWhereInput
@@ -369,10 +712,92 @@ export type NullableStringFieldUpdateOperationsInput = {
   set?: string | null
 }
 
+export type NullableFloatFieldUpdateOperationsInput = {
+  set?: number | null
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
+export type EnumKycStatusFieldUpdateOperationsInput = {
+  set?: $Enums.KycStatus
+}
+
 export type DateTimeFieldUpdateOperationsInput = {
   set?: Date | string
 }
 
+export type FarmerCreateNestedManyWithoutFpoInput = {
+  create?: Prisma.XOR<Prisma.FarmerCreateWithoutFpoInput, Prisma.FarmerUncheckedCreateWithoutFpoInput> | Prisma.FarmerCreateWithoutFpoInput[] | Prisma.FarmerUncheckedCreateWithoutFpoInput[]
+  connectOrCreate?: Prisma.FarmerCreateOrConnectWithoutFpoInput | Prisma.FarmerCreateOrConnectWithoutFpoInput[]
+  createMany?: Prisma.FarmerCreateManyFpoInputEnvelope
+  connect?: Prisma.FarmerWhereUniqueInput | Prisma.FarmerWhereUniqueInput[]
+}
+
+export type FarmerUncheckedCreateNestedManyWithoutFpoInput = {
+  create?: Prisma.XOR<Prisma.FarmerCreateWithoutFpoInput, Prisma.FarmerUncheckedCreateWithoutFpoInput> | Prisma.FarmerCreateWithoutFpoInput[] | Prisma.FarmerUncheckedCreateWithoutFpoInput[]
+  connectOrCreate?: Prisma.FarmerCreateOrConnectWithoutFpoInput | Prisma.FarmerCreateOrConnectWithoutFpoInput[]
+  createMany?: Prisma.FarmerCreateManyFpoInputEnvelope
+  connect?: Prisma.FarmerWhereUniqueInput | Prisma.FarmerWhereUniqueInput[]
+}
+
+export type FarmerUpdateManyWithoutFpoNestedInput = {
+  create?: Prisma.XOR<Prisma.FarmerCreateWithoutFpoInput, Prisma.FarmerUncheckedCreateWithoutFpoInput> | Prisma.FarmerCreateWithoutFpoInput[] | Prisma.FarmerUncheckedCreateWithoutFpoInput[]
+  connectOrCreate?: Prisma.FarmerCreateOrConnectWithoutFpoInput | Prisma.FarmerCreateOrConnectWithoutFpoInput[]
+  upsert?: Prisma.FarmerUpsertWithWhereUniqueWithoutFpoInput | Prisma.FarmerUpsertWithWhereUniqueWithoutFpoInput[]
+  createMany?: Prisma.FarmerCreateManyFpoInputEnvelope
+  set?: Prisma.FarmerWhereUniqueInput | Prisma.FarmerWhereUniqueInput[]
+  disconnect?: Prisma.FarmerWhereUniqueInput | Prisma.FarmerWhereUniqueInput[]
+  delete?: Prisma.FarmerWhereUniqueInput | Prisma.FarmerWhereUniqueInput[]
+  connect?: Prisma.FarmerWhereUniqueInput | Prisma.FarmerWhereUniqueInput[]
+  update?: Prisma.FarmerUpdateWithWhereUniqueWithoutFpoInput | Prisma.FarmerUpdateWithWhereUniqueWithoutFpoInput[]
+  updateMany?: Prisma.FarmerUpdateManyWithWhereWithoutFpoInput | Prisma.FarmerUpdateManyWithWhereWithoutFpoInput[]
+  deleteMany?: Prisma.FarmerScalarWhereInput | Prisma.FarmerScalarWhereInput[]
+}
+
+export type FarmerUncheckedUpdateManyWithoutFpoNestedInput = {
+  create?: Prisma.XOR<Prisma.FarmerCreateWithoutFpoInput, Prisma.FarmerUncheckedCreateWithoutFpoInput> | Prisma.FarmerCreateWithoutFpoInput[] | Prisma.FarmerUncheckedCreateWithoutFpoInput[]
+  connectOrCreate?: Prisma.FarmerCreateOrConnectWithoutFpoInput | Prisma.FarmerCreateOrConnectWithoutFpoInput[]
+  upsert?: Prisma.FarmerUpsertWithWhereUniqueWithoutFpoInput | Prisma.FarmerUpsertWithWhereUniqueWithoutFpoInput[]
+  createMany?: Prisma.FarmerCreateManyFpoInputEnvelope
+  set?: Prisma.FarmerWhereUniqueInput | Prisma.FarmerWhereUniqueInput[]
+  disconnect?: Prisma.FarmerWhereUniqueInput | Prisma.FarmerWhereUniqueInput[]
+  delete?: Prisma.FarmerWhereUniqueInput | Prisma.FarmerWhereUniqueInput[]
+  connect?: Prisma.FarmerWhereUniqueInput | Prisma.FarmerWhereUniqueInput[]
+  update?: Prisma.FarmerUpdateWithWhereUniqueWithoutFpoInput | Prisma.FarmerUpdateWithWhereUniqueWithoutFpoInput[]
+  updateMany?: Prisma.FarmerUpdateManyWithWhereWithoutFpoInput | Prisma.FarmerUpdateManyWithWhereWithoutFpoInput[]
+  deleteMany?: Prisma.FarmerScalarWhereInput | Prisma.FarmerScalarWhereInput[]
+}
+
+export type FarmerCreateNestedOneWithoutSessionsInput = {
+  create?: Prisma.XOR<Prisma.FarmerCreateWithoutSessionsInput, Prisma.FarmerUncheckedCreateWithoutSessionsInput>
+  connectOrCreate?: Prisma.FarmerCreateOrConnectWithoutSessionsInput
+  connect?: Prisma.FarmerWhereUniqueInput
+}
+
+export type FarmerUpdateOneRequiredWithoutSessionsNestedInput = {
+  create?: Prisma.XOR<Prisma.FarmerCreateWithoutSessionsInput, Prisma.FarmerUncheckedCreateWithoutSessionsInput>
+  connectOrCreate?: Prisma.FarmerCreateOrConnectWithoutSessionsInput
+  upsert?: Prisma.FarmerUpsertWithoutSessionsInput
+  connect?: Prisma.FarmerWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.FarmerUpdateToOneWithWhereWithoutSessionsInput, Prisma.FarmerUpdateWithoutSessionsInput>, Prisma.FarmerUncheckedUpdateWithoutSessionsInput>
+}
+
+export type FarmerCreateNestedOneWithoutConversationsInput = {
+  create?: Prisma.XOR<Prisma.FarmerCreateWithoutConversationsInput, Prisma.FarmerUncheckedCreateWithoutConversationsInput>
+  connectOrCreate?: Prisma.FarmerCreateOrConnectWithoutConversationsInput
+  connect?: Prisma.FarmerWhereUniqueInput
+}
+
+export type FarmerUpdateOneRequiredWithoutConversationsNestedInput = {
+  create?: Prisma.XOR<Prisma.FarmerCreateWithoutConversationsInput, Prisma.FarmerUncheckedCreateWithoutConversationsInput>
+  connectOrCreate?: Prisma.FarmerCreateOrConnectWithoutConversationsInput
+  upsert?: Prisma.FarmerUpsertWithoutConversationsInput
+  connect?: Prisma.FarmerWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.FarmerUpdateToOneWithWhereWithoutConversationsInput, Prisma.FarmerUpdateWithoutConversationsInput>, Prisma.FarmerUncheckedUpdateWithoutConversationsInput>
+}
+
 export type FarmerCreateNestedOneWithoutCatalogsInput = {
   create?: Prisma.XOR<Prisma.FarmerCreateWithoutCatalogsInput, Prisma.FarmerUncheckedCreateWithoutCatalogsInput>
   connectOrCreate?: Prisma.FarmerCreateOrConnectWithoutCatalogsInput
@@ -387,24 +812,452 @@ export type FarmerUpdateOneRequiredWithoutCatalogsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.FarmerUpdateToOneWithWhereWithoutCatalogsInput, Prisma.FarmerUpdateWithoutCatalogsInput>, Prisma.FarmerUncheckedUpdateWithoutCatalogsInput>
 }
 
+export type FarmerCreateNestedOneWithoutPoolContributionsInput = {
+  create?: Prisma.XOR<Prisma.FarmerCreateWithoutPoolContributionsInput, Prisma.FarmerUncheckedCreateWithoutPoolContributionsInput>
+  connectOrCreate?: Prisma.FarmerCreateOrConnectWithoutPoolContributionsInput
+  connect?: Prisma.FarmerWhereUniqueInput
+}
+
+export type FarmerUpdateOneRequiredWithoutPoolContributionsNestedInput = {
+  create?: Prisma.XOR<Prisma.FarmerCreateWithoutPoolContributionsInput, Prisma.FarmerUncheckedCreateWithoutPoolContributionsInput>
+  connectOrCreate?: Prisma.FarmerCreateOrConnectWithoutPoolContributionsInput
+  upsert?: Prisma.FarmerUpsertWithoutPoolContributionsInput
+  connect?: Prisma.FarmerWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.FarmerUpdateToOneWithWhereWithoutPoolContributionsInput, Prisma.FarmerUpdateWithoutPoolContributionsInput>, Prisma.FarmerUncheckedUpdateWithoutPoolContributionsInput>
+}
+
+export type FarmerCreateNestedOneWithoutBidsInput = {
+  create?: Prisma.XOR<Prisma.FarmerCreateWithoutBidsInput, Prisma.FarmerUncheckedCreateWithoutBidsInput>
+  connectOrCreate?: Prisma.FarmerCreateOrConnectWithoutBidsInput
+  connect?: Prisma.FarmerWhereUniqueInput
+}
+
+export type FarmerUpdateOneRequiredWithoutBidsNestedInput = {
+  create?: Prisma.XOR<Prisma.FarmerCreateWithoutBidsInput, Prisma.FarmerUncheckedCreateWithoutBidsInput>
+  connectOrCreate?: Prisma.FarmerCreateOrConnectWithoutBidsInput
+  upsert?: Prisma.FarmerUpsertWithoutBidsInput
+  connect?: Prisma.FarmerWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.FarmerUpdateToOneWithWhereWithoutBidsInput, Prisma.FarmerUpdateWithoutBidsInput>, Prisma.FarmerUncheckedUpdateWithoutBidsInput>
+}
+
+export type FarmerCreateNestedOneWithoutOrdersInput = {
+  create?: Prisma.XOR<Prisma.FarmerCreateWithoutOrdersInput, Prisma.FarmerUncheckedCreateWithoutOrdersInput>
+  connectOrCreate?: Prisma.FarmerCreateOrConnectWithoutOrdersInput
+  connect?: Prisma.FarmerWhereUniqueInput
+}
+
+export type FarmerUpdateOneRequiredWithoutOrdersNestedInput = {
+  create?: Prisma.XOR<Prisma.FarmerCreateWithoutOrdersInput, Prisma.FarmerUncheckedCreateWithoutOrdersInput>
+  connectOrCreate?: Prisma.FarmerCreateOrConnectWithoutOrdersInput
+  upsert?: Prisma.FarmerUpsertWithoutOrdersInput
+  connect?: Prisma.FarmerWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.FarmerUpdateToOneWithWhereWithoutOrdersInput, Prisma.FarmerUpdateWithoutOrdersInput>, Prisma.FarmerUncheckedUpdateWithoutOrdersInput>
+}
+
+export type FarmerCreateWithoutFpoInput = {
+  id?: string
+  name: string
+  phone?: string | null
+  locationLatLong?: string | null
+  village?: string | null
+  district?: string | null
+  state?: string | null
+  landholdingAcres?: number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: string
+  upiId?: string | null
+  bankAccountName?: string | null
+  bankAccountNumber?: string | null
+  bankIfsc?: string | null
+  kycStatus?: $Enums.KycStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  catalogs?: Prisma.CatalogCreateNestedManyWithoutFarmerInput
+  bids?: Prisma.BidCreateNestedManyWithoutFarmerInput
+  orders?: Prisma.OrderCreateNestedManyWithoutFarmerInput
+  sessions?: Prisma.FarmerSessionCreateNestedManyWithoutFarmerInput
+  poolContributions?: Prisma.PoolContributionCreateNestedManyWithoutFarmerInput
+  conversations?: Prisma.VoiceConversationCreateNestedManyWithoutFarmerInput
+}
+
+export type FarmerUncheckedCreateWithoutFpoInput = {
+  id?: string
+  name: string
+  phone?: string | null
+  locationLatLong?: string | null
+  village?: string | null
+  district?: string | null
+  state?: string | null
+  landholdingAcres?: number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: string
+  upiId?: string | null
+  bankAccountName?: string | null
+  bankAccountNumber?: string | null
+  bankIfsc?: string | null
+  kycStatus?: $Enums.KycStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  catalogs?: Prisma.CatalogUncheckedCreateNestedManyWithoutFarmerInput
+  bids?: Prisma.BidUncheckedCreateNestedManyWithoutFarmerInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutFarmerInput
+  sessions?: Prisma.FarmerSessionUncheckedCreateNestedManyWithoutFarmerInput
+  poolContributions?: Prisma.PoolContributionUncheckedCreateNestedManyWithoutFarmerInput
+  conversations?: Prisma.VoiceConversationUncheckedCreateNestedManyWithoutFarmerInput
+}
+
+export type FarmerCreateOrConnectWithoutFpoInput = {
+  where: Prisma.FarmerWhereUniqueInput
+  create: Prisma.XOR<Prisma.FarmerCreateWithoutFpoInput, Prisma.FarmerUncheckedCreateWithoutFpoInput>
+}
+
+export type FarmerCreateManyFpoInputEnvelope = {
+  data: Prisma.FarmerCreateManyFpoInput | Prisma.FarmerCreateManyFpoInput[]
+}
+
+export type FarmerUpsertWithWhereUniqueWithoutFpoInput = {
+  where: Prisma.FarmerWhereUniqueInput
+  update: Prisma.XOR<Prisma.FarmerUpdateWithoutFpoInput, Prisma.FarmerUncheckedUpdateWithoutFpoInput>
+  create: Prisma.XOR<Prisma.FarmerCreateWithoutFpoInput, Prisma.FarmerUncheckedCreateWithoutFpoInput>
+}
+
+export type FarmerUpdateWithWhereUniqueWithoutFpoInput = {
+  where: Prisma.FarmerWhereUniqueInput
+  data: Prisma.XOR<Prisma.FarmerUpdateWithoutFpoInput, Prisma.FarmerUncheckedUpdateWithoutFpoInput>
+}
+
+export type FarmerUpdateManyWithWhereWithoutFpoInput = {
+  where: Prisma.FarmerScalarWhereInput
+  data: Prisma.XOR<Prisma.FarmerUpdateManyMutationInput, Prisma.FarmerUncheckedUpdateManyWithoutFpoInput>
+}
+
+export type FarmerScalarWhereInput = {
+  AND?: Prisma.FarmerScalarWhereInput | Prisma.FarmerScalarWhereInput[]
+  OR?: Prisma.FarmerScalarWhereInput[]
+  NOT?: Prisma.FarmerScalarWhereInput | Prisma.FarmerScalarWhereInput[]
+  id?: Prisma.StringFilter<"Farmer"> | string
+  name?: Prisma.StringFilter<"Farmer"> | string
+  phone?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  locationLatLong?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  village?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  district?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  state?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  landholdingAcres?: Prisma.FloatNullableFilter<"Farmer"> | number | null
+  crops?: Prisma.JsonFilter<"Farmer">
+  preferredMandis?: Prisma.JsonFilter<"Farmer">
+  languagePref?: Prisma.StringFilter<"Farmer"> | string
+  upiId?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  bankAccountName?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  bankAccountNumber?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  bankIfsc?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  kycStatus?: Prisma.EnumKycStatusFilter<"Farmer"> | $Enums.KycStatus
+  fpoId?: Prisma.StringNullableFilter<"Farmer"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Farmer"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Farmer"> | Date | string
+}
+
+export type FarmerCreateWithoutSessionsInput = {
+  id?: string
+  name: string
+  phone?: string | null
+  locationLatLong?: string | null
+  village?: string | null
+  district?: string | null
+  state?: string | null
+  landholdingAcres?: number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: string
+  upiId?: string | null
+  bankAccountName?: string | null
+  bankAccountNumber?: string | null
+  bankIfsc?: string | null
+  kycStatus?: $Enums.KycStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  fpo?: Prisma.FpoCreateNestedOneWithoutMembersInput
+  catalogs?: Prisma.CatalogCreateNestedManyWithoutFarmerInput
+  bids?: Prisma.BidCreateNestedManyWithoutFarmerInput
+  orders?: Prisma.OrderCreateNestedManyWithoutFarmerInput
+  poolContributions?: Prisma.PoolContributionCreateNestedManyWithoutFarmerInput
+  conversations?: Prisma.VoiceConversationCreateNestedManyWithoutFarmerInput
+}
+
+export type FarmerUncheckedCreateWithoutSessionsInput = {
+  id?: string
+  name: string
+  phone?: string | null
+  locationLatLong?: string | null
+  village?: string | null
+  district?: string | null
+  state?: string | null
+  landholdingAcres?: number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: string
+  upiId?: string | null
+  bankAccountName?: string | null
+  bankAccountNumber?: string | null
+  bankIfsc?: string | null
+  kycStatus?: $Enums.KycStatus
+  fpoId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  catalogs?: Prisma.CatalogUncheckedCreateNestedManyWithoutFarmerInput
+  bids?: Prisma.BidUncheckedCreateNestedManyWithoutFarmerInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutFarmerInput
+  poolContributions?: Prisma.PoolContributionUncheckedCreateNestedManyWithoutFarmerInput
+  conversations?: Prisma.VoiceConversationUncheckedCreateNestedManyWithoutFarmerInput
+}
+
+export type FarmerCreateOrConnectWithoutSessionsInput = {
+  where: Prisma.FarmerWhereUniqueInput
+  create: Prisma.XOR<Prisma.FarmerCreateWithoutSessionsInput, Prisma.FarmerUncheckedCreateWithoutSessionsInput>
+}
+
+export type FarmerUpsertWithoutSessionsInput = {
+  update: Prisma.XOR<Prisma.FarmerUpdateWithoutSessionsInput, Prisma.FarmerUncheckedUpdateWithoutSessionsInput>
+  create: Prisma.XOR<Prisma.FarmerCreateWithoutSessionsInput, Prisma.FarmerUncheckedCreateWithoutSessionsInput>
+  where?: Prisma.FarmerWhereInput
+}
+
+export type FarmerUpdateToOneWithWhereWithoutSessionsInput = {
+  where?: Prisma.FarmerWhereInput
+  data: Prisma.XOR<Prisma.FarmerUpdateWithoutSessionsInput, Prisma.FarmerUncheckedUpdateWithoutSessionsInput>
+}
+
+export type FarmerUpdateWithoutSessionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  locationLatLong?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  village?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  district?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  landholdingAcres?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: Prisma.StringFieldUpdateOperationsInput | string
+  upiId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankIfsc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  kycStatus?: Prisma.EnumKycStatusFieldUpdateOperationsInput | $Enums.KycStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fpo?: Prisma.FpoUpdateOneWithoutMembersNestedInput
+  catalogs?: Prisma.CatalogUpdateManyWithoutFarmerNestedInput
+  bids?: Prisma.BidUpdateManyWithoutFarmerNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutFarmerNestedInput
+  poolContributions?: Prisma.PoolContributionUpdateManyWithoutFarmerNestedInput
+  conversations?: Prisma.VoiceConversationUpdateManyWithoutFarmerNestedInput
+}
+
+export type FarmerUncheckedUpdateWithoutSessionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  locationLatLong?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  village?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  district?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  landholdingAcres?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: Prisma.StringFieldUpdateOperationsInput | string
+  upiId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankIfsc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  kycStatus?: Prisma.EnumKycStatusFieldUpdateOperationsInput | $Enums.KycStatus
+  fpoId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  catalogs?: Prisma.CatalogUncheckedUpdateManyWithoutFarmerNestedInput
+  bids?: Prisma.BidUncheckedUpdateManyWithoutFarmerNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutFarmerNestedInput
+  poolContributions?: Prisma.PoolContributionUncheckedUpdateManyWithoutFarmerNestedInput
+  conversations?: Prisma.VoiceConversationUncheckedUpdateManyWithoutFarmerNestedInput
+}
+
+export type FarmerCreateWithoutConversationsInput = {
+  id?: string
+  name: string
+  phone?: string | null
+  locationLatLong?: string | null
+  village?: string | null
+  district?: string | null
+  state?: string | null
+  landholdingAcres?: number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: string
+  upiId?: string | null
+  bankAccountName?: string | null
+  bankAccountNumber?: string | null
+  bankIfsc?: string | null
+  kycStatus?: $Enums.KycStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  fpo?: Prisma.FpoCreateNestedOneWithoutMembersInput
+  catalogs?: Prisma.CatalogCreateNestedManyWithoutFarmerInput
+  bids?: Prisma.BidCreateNestedManyWithoutFarmerInput
+  orders?: Prisma.OrderCreateNestedManyWithoutFarmerInput
+  sessions?: Prisma.FarmerSessionCreateNestedManyWithoutFarmerInput
+  poolContributions?: Prisma.PoolContributionCreateNestedManyWithoutFarmerInput
+}
+
+export type FarmerUncheckedCreateWithoutConversationsInput = {
+  id?: string
+  name: string
+  phone?: string | null
+  locationLatLong?: string | null
+  village?: string | null
+  district?: string | null
+  state?: string | null
+  landholdingAcres?: number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: string
+  upiId?: string | null
+  bankAccountName?: string | null
+  bankAccountNumber?: string | null
+  bankIfsc?: string | null
+  kycStatus?: $Enums.KycStatus
+  fpoId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  catalogs?: Prisma.CatalogUncheckedCreateNestedManyWithoutFarmerInput
+  bids?: Prisma.BidUncheckedCreateNestedManyWithoutFarmerInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutFarmerInput
+  sessions?: Prisma.FarmerSessionUncheckedCreateNestedManyWithoutFarmerInput
+  poolContributions?: Prisma.PoolContributionUncheckedCreateNestedManyWithoutFarmerInput
+}
+
+export type FarmerCreateOrConnectWithoutConversationsInput = {
+  where: Prisma.FarmerWhereUniqueInput
+  create: Prisma.XOR<Prisma.FarmerCreateWithoutConversationsInput, Prisma.FarmerUncheckedCreateWithoutConversationsInput>
+}
+
+export type FarmerUpsertWithoutConversationsInput = {
+  update: Prisma.XOR<Prisma.FarmerUpdateWithoutConversationsInput, Prisma.FarmerUncheckedUpdateWithoutConversationsInput>
+  create: Prisma.XOR<Prisma.FarmerCreateWithoutConversationsInput, Prisma.FarmerUncheckedCreateWithoutConversationsInput>
+  where?: Prisma.FarmerWhereInput
+}
+
+export type FarmerUpdateToOneWithWhereWithoutConversationsInput = {
+  where?: Prisma.FarmerWhereInput
+  data: Prisma.XOR<Prisma.FarmerUpdateWithoutConversationsInput, Prisma.FarmerUncheckedUpdateWithoutConversationsInput>
+}
+
+export type FarmerUpdateWithoutConversationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  locationLatLong?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  village?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  district?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  landholdingAcres?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: Prisma.StringFieldUpdateOperationsInput | string
+  upiId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankIfsc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  kycStatus?: Prisma.EnumKycStatusFieldUpdateOperationsInput | $Enums.KycStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fpo?: Prisma.FpoUpdateOneWithoutMembersNestedInput
+  catalogs?: Prisma.CatalogUpdateManyWithoutFarmerNestedInput
+  bids?: Prisma.BidUpdateManyWithoutFarmerNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutFarmerNestedInput
+  sessions?: Prisma.FarmerSessionUpdateManyWithoutFarmerNestedInput
+  poolContributions?: Prisma.PoolContributionUpdateManyWithoutFarmerNestedInput
+}
+
+export type FarmerUncheckedUpdateWithoutConversationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  locationLatLong?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  village?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  district?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  landholdingAcres?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: Prisma.StringFieldUpdateOperationsInput | string
+  upiId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankIfsc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  kycStatus?: Prisma.EnumKycStatusFieldUpdateOperationsInput | $Enums.KycStatus
+  fpoId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  catalogs?: Prisma.CatalogUncheckedUpdateManyWithoutFarmerNestedInput
+  bids?: Prisma.BidUncheckedUpdateManyWithoutFarmerNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutFarmerNestedInput
+  sessions?: Prisma.FarmerSessionUncheckedUpdateManyWithoutFarmerNestedInput
+  poolContributions?: Prisma.PoolContributionUncheckedUpdateManyWithoutFarmerNestedInput
+}
+
 export type FarmerCreateWithoutCatalogsInput = {
   id?: string
   name: string
+  phone?: string | null
   locationLatLong?: string | null
+  village?: string | null
+  district?: string | null
+  state?: string | null
+  landholdingAcres?: number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   languagePref?: string
   upiId?: string | null
+  bankAccountName?: string | null
+  bankAccountNumber?: string | null
+  bankIfsc?: string | null
+  kycStatus?: $Enums.KycStatus
   createdAt?: Date | string
   updatedAt?: Date | string
+  fpo?: Prisma.FpoCreateNestedOneWithoutMembersInput
+  bids?: Prisma.BidCreateNestedManyWithoutFarmerInput
+  orders?: Prisma.OrderCreateNestedManyWithoutFarmerInput
+  sessions?: Prisma.FarmerSessionCreateNestedManyWithoutFarmerInput
+  poolContributions?: Prisma.PoolContributionCreateNestedManyWithoutFarmerInput
+  conversations?: Prisma.VoiceConversationCreateNestedManyWithoutFarmerInput
 }
 
 export type FarmerUncheckedCreateWithoutCatalogsInput = {
   id?: string
   name: string
+  phone?: string | null
   locationLatLong?: string | null
+  village?: string | null
+  district?: string | null
+  state?: string | null
+  landholdingAcres?: number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   languagePref?: string
   upiId?: string | null
+  bankAccountName?: string | null
+  bankAccountNumber?: string | null
+  bankIfsc?: string | null
+  kycStatus?: $Enums.KycStatus
+  fpoId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  bids?: Prisma.BidUncheckedCreateNestedManyWithoutFarmerInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutFarmerInput
+  sessions?: Prisma.FarmerSessionUncheckedCreateNestedManyWithoutFarmerInput
+  poolContributions?: Prisma.PoolContributionUncheckedCreateNestedManyWithoutFarmerInput
+  conversations?: Prisma.VoiceConversationUncheckedCreateNestedManyWithoutFarmerInput
 }
 
 export type FarmerCreateOrConnectWithoutCatalogsInput = {
@@ -426,19 +1279,521 @@ export type FarmerUpdateToOneWithWhereWithoutCatalogsInput = {
 export type FarmerUpdateWithoutCatalogsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   locationLatLong?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  village?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  district?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  landholdingAcres?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   languagePref?: Prisma.StringFieldUpdateOperationsInput | string
   upiId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankIfsc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  kycStatus?: Prisma.EnumKycStatusFieldUpdateOperationsInput | $Enums.KycStatus
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fpo?: Prisma.FpoUpdateOneWithoutMembersNestedInput
+  bids?: Prisma.BidUpdateManyWithoutFarmerNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutFarmerNestedInput
+  sessions?: Prisma.FarmerSessionUpdateManyWithoutFarmerNestedInput
+  poolContributions?: Prisma.PoolContributionUpdateManyWithoutFarmerNestedInput
+  conversations?: Prisma.VoiceConversationUpdateManyWithoutFarmerNestedInput
 }
 
 export type FarmerUncheckedUpdateWithoutCatalogsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  locationLatLong?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  village?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  district?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  landholdingAcres?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: Prisma.StringFieldUpdateOperationsInput | string
+  upiId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankIfsc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  kycStatus?: Prisma.EnumKycStatusFieldUpdateOperationsInput | $Enums.KycStatus
+  fpoId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bids?: Prisma.BidUncheckedUpdateManyWithoutFarmerNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutFarmerNestedInput
+  sessions?: Prisma.FarmerSessionUncheckedUpdateManyWithoutFarmerNestedInput
+  poolContributions?: Prisma.PoolContributionUncheckedUpdateManyWithoutFarmerNestedInput
+  conversations?: Prisma.VoiceConversationUncheckedUpdateManyWithoutFarmerNestedInput
+}
+
+export type FarmerCreateWithoutPoolContributionsInput = {
+  id?: string
+  name: string
+  phone?: string | null
+  locationLatLong?: string | null
+  village?: string | null
+  district?: string | null
+  state?: string | null
+  landholdingAcres?: number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: string
+  upiId?: string | null
+  bankAccountName?: string | null
+  bankAccountNumber?: string | null
+  bankIfsc?: string | null
+  kycStatus?: $Enums.KycStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  fpo?: Prisma.FpoCreateNestedOneWithoutMembersInput
+  catalogs?: Prisma.CatalogCreateNestedManyWithoutFarmerInput
+  bids?: Prisma.BidCreateNestedManyWithoutFarmerInput
+  orders?: Prisma.OrderCreateNestedManyWithoutFarmerInput
+  sessions?: Prisma.FarmerSessionCreateNestedManyWithoutFarmerInput
+  conversations?: Prisma.VoiceConversationCreateNestedManyWithoutFarmerInput
+}
+
+export type FarmerUncheckedCreateWithoutPoolContributionsInput = {
+  id?: string
+  name: string
+  phone?: string | null
+  locationLatLong?: string | null
+  village?: string | null
+  district?: string | null
+  state?: string | null
+  landholdingAcres?: number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: string
+  upiId?: string | null
+  bankAccountName?: string | null
+  bankAccountNumber?: string | null
+  bankIfsc?: string | null
+  kycStatus?: $Enums.KycStatus
+  fpoId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  catalogs?: Prisma.CatalogUncheckedCreateNestedManyWithoutFarmerInput
+  bids?: Prisma.BidUncheckedCreateNestedManyWithoutFarmerInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutFarmerInput
+  sessions?: Prisma.FarmerSessionUncheckedCreateNestedManyWithoutFarmerInput
+  conversations?: Prisma.VoiceConversationUncheckedCreateNestedManyWithoutFarmerInput
+}
+
+export type FarmerCreateOrConnectWithoutPoolContributionsInput = {
+  where: Prisma.FarmerWhereUniqueInput
+  create: Prisma.XOR<Prisma.FarmerCreateWithoutPoolContributionsInput, Prisma.FarmerUncheckedCreateWithoutPoolContributionsInput>
+}
+
+export type FarmerUpsertWithoutPoolContributionsInput = {
+  update: Prisma.XOR<Prisma.FarmerUpdateWithoutPoolContributionsInput, Prisma.FarmerUncheckedUpdateWithoutPoolContributionsInput>
+  create: Prisma.XOR<Prisma.FarmerCreateWithoutPoolContributionsInput, Prisma.FarmerUncheckedCreateWithoutPoolContributionsInput>
+  where?: Prisma.FarmerWhereInput
+}
+
+export type FarmerUpdateToOneWithWhereWithoutPoolContributionsInput = {
+  where?: Prisma.FarmerWhereInput
+  data: Prisma.XOR<Prisma.FarmerUpdateWithoutPoolContributionsInput, Prisma.FarmerUncheckedUpdateWithoutPoolContributionsInput>
+}
+
+export type FarmerUpdateWithoutPoolContributionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  locationLatLong?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  village?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  district?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  landholdingAcres?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: Prisma.StringFieldUpdateOperationsInput | string
+  upiId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankIfsc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  kycStatus?: Prisma.EnumKycStatusFieldUpdateOperationsInput | $Enums.KycStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fpo?: Prisma.FpoUpdateOneWithoutMembersNestedInput
+  catalogs?: Prisma.CatalogUpdateManyWithoutFarmerNestedInput
+  bids?: Prisma.BidUpdateManyWithoutFarmerNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutFarmerNestedInput
+  sessions?: Prisma.FarmerSessionUpdateManyWithoutFarmerNestedInput
+  conversations?: Prisma.VoiceConversationUpdateManyWithoutFarmerNestedInput
+}
+
+export type FarmerUncheckedUpdateWithoutPoolContributionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   locationLatLong?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  village?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  district?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  landholdingAcres?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   languagePref?: Prisma.StringFieldUpdateOperationsInput | string
   upiId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankIfsc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  kycStatus?: Prisma.EnumKycStatusFieldUpdateOperationsInput | $Enums.KycStatus
+  fpoId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  catalogs?: Prisma.CatalogUncheckedUpdateManyWithoutFarmerNestedInput
+  bids?: Prisma.BidUncheckedUpdateManyWithoutFarmerNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutFarmerNestedInput
+  sessions?: Prisma.FarmerSessionUncheckedUpdateManyWithoutFarmerNestedInput
+  conversations?: Prisma.VoiceConversationUncheckedUpdateManyWithoutFarmerNestedInput
+}
+
+export type FarmerCreateWithoutBidsInput = {
+  id?: string
+  name: string
+  phone?: string | null
+  locationLatLong?: string | null
+  village?: string | null
+  district?: string | null
+  state?: string | null
+  landholdingAcres?: number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: string
+  upiId?: string | null
+  bankAccountName?: string | null
+  bankAccountNumber?: string | null
+  bankIfsc?: string | null
+  kycStatus?: $Enums.KycStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  fpo?: Prisma.FpoCreateNestedOneWithoutMembersInput
+  catalogs?: Prisma.CatalogCreateNestedManyWithoutFarmerInput
+  orders?: Prisma.OrderCreateNestedManyWithoutFarmerInput
+  sessions?: Prisma.FarmerSessionCreateNestedManyWithoutFarmerInput
+  poolContributions?: Prisma.PoolContributionCreateNestedManyWithoutFarmerInput
+  conversations?: Prisma.VoiceConversationCreateNestedManyWithoutFarmerInput
+}
+
+export type FarmerUncheckedCreateWithoutBidsInput = {
+  id?: string
+  name: string
+  phone?: string | null
+  locationLatLong?: string | null
+  village?: string | null
+  district?: string | null
+  state?: string | null
+  landholdingAcres?: number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: string
+  upiId?: string | null
+  bankAccountName?: string | null
+  bankAccountNumber?: string | null
+  bankIfsc?: string | null
+  kycStatus?: $Enums.KycStatus
+  fpoId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  catalogs?: Prisma.CatalogUncheckedCreateNestedManyWithoutFarmerInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutFarmerInput
+  sessions?: Prisma.FarmerSessionUncheckedCreateNestedManyWithoutFarmerInput
+  poolContributions?: Prisma.PoolContributionUncheckedCreateNestedManyWithoutFarmerInput
+  conversations?: Prisma.VoiceConversationUncheckedCreateNestedManyWithoutFarmerInput
+}
+
+export type FarmerCreateOrConnectWithoutBidsInput = {
+  where: Prisma.FarmerWhereUniqueInput
+  create: Prisma.XOR<Prisma.FarmerCreateWithoutBidsInput, Prisma.FarmerUncheckedCreateWithoutBidsInput>
+}
+
+export type FarmerUpsertWithoutBidsInput = {
+  update: Prisma.XOR<Prisma.FarmerUpdateWithoutBidsInput, Prisma.FarmerUncheckedUpdateWithoutBidsInput>
+  create: Prisma.XOR<Prisma.FarmerCreateWithoutBidsInput, Prisma.FarmerUncheckedCreateWithoutBidsInput>
+  where?: Prisma.FarmerWhereInput
+}
+
+export type FarmerUpdateToOneWithWhereWithoutBidsInput = {
+  where?: Prisma.FarmerWhereInput
+  data: Prisma.XOR<Prisma.FarmerUpdateWithoutBidsInput, Prisma.FarmerUncheckedUpdateWithoutBidsInput>
+}
+
+export type FarmerUpdateWithoutBidsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  locationLatLong?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  village?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  district?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  landholdingAcres?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: Prisma.StringFieldUpdateOperationsInput | string
+  upiId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankIfsc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  kycStatus?: Prisma.EnumKycStatusFieldUpdateOperationsInput | $Enums.KycStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fpo?: Prisma.FpoUpdateOneWithoutMembersNestedInput
+  catalogs?: Prisma.CatalogUpdateManyWithoutFarmerNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutFarmerNestedInput
+  sessions?: Prisma.FarmerSessionUpdateManyWithoutFarmerNestedInput
+  poolContributions?: Prisma.PoolContributionUpdateManyWithoutFarmerNestedInput
+  conversations?: Prisma.VoiceConversationUpdateManyWithoutFarmerNestedInput
+}
+
+export type FarmerUncheckedUpdateWithoutBidsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  locationLatLong?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  village?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  district?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  landholdingAcres?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: Prisma.StringFieldUpdateOperationsInput | string
+  upiId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankIfsc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  kycStatus?: Prisma.EnumKycStatusFieldUpdateOperationsInput | $Enums.KycStatus
+  fpoId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  catalogs?: Prisma.CatalogUncheckedUpdateManyWithoutFarmerNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutFarmerNestedInput
+  sessions?: Prisma.FarmerSessionUncheckedUpdateManyWithoutFarmerNestedInput
+  poolContributions?: Prisma.PoolContributionUncheckedUpdateManyWithoutFarmerNestedInput
+  conversations?: Prisma.VoiceConversationUncheckedUpdateManyWithoutFarmerNestedInput
+}
+
+export type FarmerCreateWithoutOrdersInput = {
+  id?: string
+  name: string
+  phone?: string | null
+  locationLatLong?: string | null
+  village?: string | null
+  district?: string | null
+  state?: string | null
+  landholdingAcres?: number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: string
+  upiId?: string | null
+  bankAccountName?: string | null
+  bankAccountNumber?: string | null
+  bankIfsc?: string | null
+  kycStatus?: $Enums.KycStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  fpo?: Prisma.FpoCreateNestedOneWithoutMembersInput
+  catalogs?: Prisma.CatalogCreateNestedManyWithoutFarmerInput
+  bids?: Prisma.BidCreateNestedManyWithoutFarmerInput
+  sessions?: Prisma.FarmerSessionCreateNestedManyWithoutFarmerInput
+  poolContributions?: Prisma.PoolContributionCreateNestedManyWithoutFarmerInput
+  conversations?: Prisma.VoiceConversationCreateNestedManyWithoutFarmerInput
+}
+
+export type FarmerUncheckedCreateWithoutOrdersInput = {
+  id?: string
+  name: string
+  phone?: string | null
+  locationLatLong?: string | null
+  village?: string | null
+  district?: string | null
+  state?: string | null
+  landholdingAcres?: number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: string
+  upiId?: string | null
+  bankAccountName?: string | null
+  bankAccountNumber?: string | null
+  bankIfsc?: string | null
+  kycStatus?: $Enums.KycStatus
+  fpoId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  catalogs?: Prisma.CatalogUncheckedCreateNestedManyWithoutFarmerInput
+  bids?: Prisma.BidUncheckedCreateNestedManyWithoutFarmerInput
+  sessions?: Prisma.FarmerSessionUncheckedCreateNestedManyWithoutFarmerInput
+  poolContributions?: Prisma.PoolContributionUncheckedCreateNestedManyWithoutFarmerInput
+  conversations?: Prisma.VoiceConversationUncheckedCreateNestedManyWithoutFarmerInput
+}
+
+export type FarmerCreateOrConnectWithoutOrdersInput = {
+  where: Prisma.FarmerWhereUniqueInput
+  create: Prisma.XOR<Prisma.FarmerCreateWithoutOrdersInput, Prisma.FarmerUncheckedCreateWithoutOrdersInput>
+}
+
+export type FarmerUpsertWithoutOrdersInput = {
+  update: Prisma.XOR<Prisma.FarmerUpdateWithoutOrdersInput, Prisma.FarmerUncheckedUpdateWithoutOrdersInput>
+  create: Prisma.XOR<Prisma.FarmerCreateWithoutOrdersInput, Prisma.FarmerUncheckedCreateWithoutOrdersInput>
+  where?: Prisma.FarmerWhereInput
+}
+
+export type FarmerUpdateToOneWithWhereWithoutOrdersInput = {
+  where?: Prisma.FarmerWhereInput
+  data: Prisma.XOR<Prisma.FarmerUpdateWithoutOrdersInput, Prisma.FarmerUncheckedUpdateWithoutOrdersInput>
+}
+
+export type FarmerUpdateWithoutOrdersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  locationLatLong?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  village?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  district?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  landholdingAcres?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: Prisma.StringFieldUpdateOperationsInput | string
+  upiId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankIfsc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  kycStatus?: Prisma.EnumKycStatusFieldUpdateOperationsInput | $Enums.KycStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fpo?: Prisma.FpoUpdateOneWithoutMembersNestedInput
+  catalogs?: Prisma.CatalogUpdateManyWithoutFarmerNestedInput
+  bids?: Prisma.BidUpdateManyWithoutFarmerNestedInput
+  sessions?: Prisma.FarmerSessionUpdateManyWithoutFarmerNestedInput
+  poolContributions?: Prisma.PoolContributionUpdateManyWithoutFarmerNestedInput
+  conversations?: Prisma.VoiceConversationUpdateManyWithoutFarmerNestedInput
+}
+
+export type FarmerUncheckedUpdateWithoutOrdersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  locationLatLong?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  village?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  district?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  landholdingAcres?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: Prisma.StringFieldUpdateOperationsInput | string
+  upiId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankIfsc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  kycStatus?: Prisma.EnumKycStatusFieldUpdateOperationsInput | $Enums.KycStatus
+  fpoId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  catalogs?: Prisma.CatalogUncheckedUpdateManyWithoutFarmerNestedInput
+  bids?: Prisma.BidUncheckedUpdateManyWithoutFarmerNestedInput
+  sessions?: Prisma.FarmerSessionUncheckedUpdateManyWithoutFarmerNestedInput
+  poolContributions?: Prisma.PoolContributionUncheckedUpdateManyWithoutFarmerNestedInput
+  conversations?: Prisma.VoiceConversationUncheckedUpdateManyWithoutFarmerNestedInput
+}
+
+export type FarmerCreateManyFpoInput = {
+  id?: string
+  name: string
+  phone?: string | null
+  locationLatLong?: string | null
+  village?: string | null
+  district?: string | null
+  state?: string | null
+  landholdingAcres?: number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: string
+  upiId?: string | null
+  bankAccountName?: string | null
+  bankAccountNumber?: string | null
+  bankIfsc?: string | null
+  kycStatus?: $Enums.KycStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type FarmerUpdateWithoutFpoInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  locationLatLong?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  village?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  district?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  landholdingAcres?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: Prisma.StringFieldUpdateOperationsInput | string
+  upiId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankIfsc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  kycStatus?: Prisma.EnumKycStatusFieldUpdateOperationsInput | $Enums.KycStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  catalogs?: Prisma.CatalogUpdateManyWithoutFarmerNestedInput
+  bids?: Prisma.BidUpdateManyWithoutFarmerNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutFarmerNestedInput
+  sessions?: Prisma.FarmerSessionUpdateManyWithoutFarmerNestedInput
+  poolContributions?: Prisma.PoolContributionUpdateManyWithoutFarmerNestedInput
+  conversations?: Prisma.VoiceConversationUpdateManyWithoutFarmerNestedInput
+}
+
+export type FarmerUncheckedUpdateWithoutFpoInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  locationLatLong?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  village?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  district?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  landholdingAcres?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: Prisma.StringFieldUpdateOperationsInput | string
+  upiId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankIfsc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  kycStatus?: Prisma.EnumKycStatusFieldUpdateOperationsInput | $Enums.KycStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  catalogs?: Prisma.CatalogUncheckedUpdateManyWithoutFarmerNestedInput
+  bids?: Prisma.BidUncheckedUpdateManyWithoutFarmerNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutFarmerNestedInput
+  sessions?: Prisma.FarmerSessionUncheckedUpdateManyWithoutFarmerNestedInput
+  poolContributions?: Prisma.PoolContributionUncheckedUpdateManyWithoutFarmerNestedInput
+  conversations?: Prisma.VoiceConversationUncheckedUpdateManyWithoutFarmerNestedInput
+}
+
+export type FarmerUncheckedUpdateManyWithoutFpoInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  locationLatLong?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  village?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  district?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  landholdingAcres?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  crops?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  preferredMandis?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  languagePref?: Prisma.StringFieldUpdateOperationsInput | string
+  upiId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankAccountNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bankIfsc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  kycStatus?: Prisma.EnumKycStatusFieldUpdateOperationsInput | $Enums.KycStatus
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -450,10 +1805,20 @@ export type FarmerUncheckedUpdateWithoutCatalogsInput = {
 
 export type FarmerCountOutputType = {
   catalogs: number
+  bids: number
+  orders: number
+  sessions: number
+  poolContributions: number
+  conversations: number
 }
 
 export type FarmerCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   catalogs?: boolean | FarmerCountOutputTypeCountCatalogsArgs
+  bids?: boolean | FarmerCountOutputTypeCountBidsArgs
+  orders?: boolean | FarmerCountOutputTypeCountOrdersArgs
+  sessions?: boolean | FarmerCountOutputTypeCountSessionsArgs
+  poolContributions?: boolean | FarmerCountOutputTypeCountPoolContributionsArgs
+  conversations?: boolean | FarmerCountOutputTypeCountConversationsArgs
 }
 
 /**
@@ -473,68 +1838,187 @@ export type FarmerCountOutputTypeCountCatalogsArgs<ExtArgs extends runtime.Types
   where?: Prisma.CatalogWhereInput
 }
 
+/**
+ * FarmerCountOutputType without action
+ */
+export type FarmerCountOutputTypeCountBidsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BidWhereInput
+}
+
+/**
+ * FarmerCountOutputType without action
+ */
+export type FarmerCountOutputTypeCountOrdersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OrderWhereInput
+}
+
+/**
+ * FarmerCountOutputType without action
+ */
+export type FarmerCountOutputTypeCountSessionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.FarmerSessionWhereInput
+}
+
+/**
+ * FarmerCountOutputType without action
+ */
+export type FarmerCountOutputTypeCountPoolContributionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PoolContributionWhereInput
+}
+
+/**
+ * FarmerCountOutputType without action
+ */
+export type FarmerCountOutputTypeCountConversationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.VoiceConversationWhereInput
+}
+
 
 export type FarmerSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   name?: boolean
+  phone?: boolean
   locationLatLong?: boolean
+  village?: boolean
+  district?: boolean
+  state?: boolean
+  landholdingAcres?: boolean
+  crops?: boolean
+  preferredMandis?: boolean
   languagePref?: boolean
   upiId?: boolean
+  bankAccountName?: boolean
+  bankAccountNumber?: boolean
+  bankIfsc?: boolean
+  kycStatus?: boolean
+  fpoId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  fpo?: boolean | Prisma.Farmer$fpoArgs<ExtArgs>
   catalogs?: boolean | Prisma.Farmer$catalogsArgs<ExtArgs>
+  bids?: boolean | Prisma.Farmer$bidsArgs<ExtArgs>
+  orders?: boolean | Prisma.Farmer$ordersArgs<ExtArgs>
+  sessions?: boolean | Prisma.Farmer$sessionsArgs<ExtArgs>
+  poolContributions?: boolean | Prisma.Farmer$poolContributionsArgs<ExtArgs>
+  conversations?: boolean | Prisma.Farmer$conversationsArgs<ExtArgs>
   _count?: boolean | Prisma.FarmerCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["farmer"]>
 
 export type FarmerSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   name?: boolean
+  phone?: boolean
   locationLatLong?: boolean
+  village?: boolean
+  district?: boolean
+  state?: boolean
+  landholdingAcres?: boolean
+  crops?: boolean
+  preferredMandis?: boolean
   languagePref?: boolean
   upiId?: boolean
+  bankAccountName?: boolean
+  bankAccountNumber?: boolean
+  bankIfsc?: boolean
+  kycStatus?: boolean
+  fpoId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  fpo?: boolean | Prisma.Farmer$fpoArgs<ExtArgs>
 }, ExtArgs["result"]["farmer"]>
 
 export type FarmerSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   name?: boolean
+  phone?: boolean
   locationLatLong?: boolean
+  village?: boolean
+  district?: boolean
+  state?: boolean
+  landholdingAcres?: boolean
+  crops?: boolean
+  preferredMandis?: boolean
   languagePref?: boolean
   upiId?: boolean
+  bankAccountName?: boolean
+  bankAccountNumber?: boolean
+  bankIfsc?: boolean
+  kycStatus?: boolean
+  fpoId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  fpo?: boolean | Prisma.Farmer$fpoArgs<ExtArgs>
 }, ExtArgs["result"]["farmer"]>
 
 export type FarmerSelectScalar = {
   id?: boolean
   name?: boolean
+  phone?: boolean
   locationLatLong?: boolean
+  village?: boolean
+  district?: boolean
+  state?: boolean
+  landholdingAcres?: boolean
+  crops?: boolean
+  preferredMandis?: boolean
   languagePref?: boolean
   upiId?: boolean
+  bankAccountName?: boolean
+  bankAccountNumber?: boolean
+  bankIfsc?: boolean
+  kycStatus?: boolean
+  fpoId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type FarmerOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "locationLatLong" | "languagePref" | "upiId" | "createdAt" | "updatedAt", ExtArgs["result"]["farmer"]>
+export type FarmerOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "phone" | "locationLatLong" | "village" | "district" | "state" | "landholdingAcres" | "crops" | "preferredMandis" | "languagePref" | "upiId" | "bankAccountName" | "bankAccountNumber" | "bankIfsc" | "kycStatus" | "fpoId" | "createdAt" | "updatedAt", ExtArgs["result"]["farmer"]>
 export type FarmerInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  fpo?: boolean | Prisma.Farmer$fpoArgs<ExtArgs>
   catalogs?: boolean | Prisma.Farmer$catalogsArgs<ExtArgs>
+  bids?: boolean | Prisma.Farmer$bidsArgs<ExtArgs>
+  orders?: boolean | Prisma.Farmer$ordersArgs<ExtArgs>
+  sessions?: boolean | Prisma.Farmer$sessionsArgs<ExtArgs>
+  poolContributions?: boolean | Prisma.Farmer$poolContributionsArgs<ExtArgs>
+  conversations?: boolean | Prisma.Farmer$conversationsArgs<ExtArgs>
   _count?: boolean | Prisma.FarmerCountOutputTypeDefaultArgs<ExtArgs>
 }
-export type FarmerIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
-export type FarmerIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+export type FarmerIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  fpo?: boolean | Prisma.Farmer$fpoArgs<ExtArgs>
+}
+export type FarmerIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  fpo?: boolean | Prisma.Farmer$fpoArgs<ExtArgs>
+}
 
 export type $FarmerPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   name: "Farmer"
   objects: {
+    fpo: Prisma.$FpoPayload<ExtArgs> | null
     catalogs: Prisma.$CatalogPayload<ExtArgs>[]
+    bids: Prisma.$BidPayload<ExtArgs>[]
+    orders: Prisma.$OrderPayload<ExtArgs>[]
+    sessions: Prisma.$FarmerSessionPayload<ExtArgs>[]
+    poolContributions: Prisma.$PoolContributionPayload<ExtArgs>[]
+    conversations: Prisma.$VoiceConversationPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
     name: string
+    phone: string | null
     locationLatLong: string | null
+    village: string | null
+    district: string | null
+    state: string | null
+    landholdingAcres: number | null
+    crops: runtime.JsonValue
+    preferredMandis: runtime.JsonValue
     languagePref: string
     upiId: string | null
+    bankAccountName: string | null
+    bankAccountNumber: string | null
+    bankIfsc: string | null
+    kycStatus: $Enums.KycStatus
+    fpoId: string | null
     createdAt: Date
     updatedAt: Date
   }, ExtArgs["result"]["farmer"]>
@@ -931,7 +2415,13 @@ readonly fields: FarmerFieldRefs;
  */
 export interface Prisma__FarmerClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
+  fpo<T extends Prisma.Farmer$fpoArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Farmer$fpoArgs<ExtArgs>>): Prisma.Prisma__FpoClient<runtime.Types.Result.GetResult<Prisma.$FpoPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   catalogs<T extends Prisma.Farmer$catalogsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Farmer$catalogsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CatalogPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  bids<T extends Prisma.Farmer$bidsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Farmer$bidsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BidPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  orders<T extends Prisma.Farmer$ordersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Farmer$ordersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  sessions<T extends Prisma.Farmer$sessionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Farmer$sessionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$FarmerSessionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  poolContributions<T extends Prisma.Farmer$poolContributionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Farmer$poolContributionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PoolContributionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  conversations<T extends Prisma.Farmer$conversationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Farmer$conversationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$VoiceConversationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -963,9 +2453,21 @@ export interface Prisma__FarmerClient<T, Null = never, ExtArgs extends runtime.T
 export interface FarmerFieldRefs {
   readonly id: Prisma.FieldRef<"Farmer", 'String'>
   readonly name: Prisma.FieldRef<"Farmer", 'String'>
+  readonly phone: Prisma.FieldRef<"Farmer", 'String'>
   readonly locationLatLong: Prisma.FieldRef<"Farmer", 'String'>
+  readonly village: Prisma.FieldRef<"Farmer", 'String'>
+  readonly district: Prisma.FieldRef<"Farmer", 'String'>
+  readonly state: Prisma.FieldRef<"Farmer", 'String'>
+  readonly landholdingAcres: Prisma.FieldRef<"Farmer", 'Float'>
+  readonly crops: Prisma.FieldRef<"Farmer", 'Json'>
+  readonly preferredMandis: Prisma.FieldRef<"Farmer", 'Json'>
   readonly languagePref: Prisma.FieldRef<"Farmer", 'String'>
   readonly upiId: Prisma.FieldRef<"Farmer", 'String'>
+  readonly bankAccountName: Prisma.FieldRef<"Farmer", 'String'>
+  readonly bankAccountNumber: Prisma.FieldRef<"Farmer", 'String'>
+  readonly bankIfsc: Prisma.FieldRef<"Farmer", 'String'>
+  readonly kycStatus: Prisma.FieldRef<"Farmer", 'KycStatus'>
+  readonly fpoId: Prisma.FieldRef<"Farmer", 'String'>
   readonly createdAt: Prisma.FieldRef<"Farmer", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Farmer", 'DateTime'>
 }
@@ -1215,6 +2717,10 @@ export type FarmerCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensio
    * The data used to create many Farmers.
    */
   data: Prisma.FarmerCreateManyInput | Prisma.FarmerCreateManyInput[]
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FarmerIncludeCreateManyAndReturn<ExtArgs> | null
 }
 
 /**
@@ -1285,6 +2791,10 @@ export type FarmerUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensio
    * Limit how many Farmers to update.
    */
   limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FarmerIncludeUpdateManyAndReturn<ExtArgs> | null
 }
 
 /**
@@ -1353,6 +2863,25 @@ export type FarmerDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.Intern
   limit?: number
 }
 
+/**
+ * Farmer.fpo
+ */
+export type Farmer$fpoArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Fpo
+   */
+  select?: Prisma.FpoSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Fpo
+   */
+  omit?: Prisma.FpoOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FpoInclude<ExtArgs> | null
+  where?: Prisma.FpoWhereInput
+}
+
 /**
  * Farmer.catalogs
  */
@@ -1377,6 +2906,126 @@ export type Farmer$catalogsArgs<ExtArgs extends runtime.Types.Extensions.Interna
   distinct?: Prisma.CatalogScalarFieldEnum | Prisma.CatalogScalarFieldEnum[]
 }
 
+/**
+ * Farmer.bids
+ */
+export type Farmer$bidsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Bid
+   */
+  select?: Prisma.BidSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Bid
+   */
+  omit?: Prisma.BidOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BidInclude<ExtArgs> | null
+  where?: Prisma.BidWhereInput
+  orderBy?: Prisma.BidOrderByWithRelationInput | Prisma.BidOrderByWithRelationInput[]
+  cursor?: Prisma.BidWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.BidScalarFieldEnum | Prisma.BidScalarFieldEnum[]
+}
+
+/**
+ * Farmer.orders
+ */
+export type Farmer$ordersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Order
+   */
+  select?: Prisma.OrderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Order
+   */
+  omit?: Prisma.OrderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderInclude<ExtArgs> | null
+  where?: Prisma.OrderWhereInput
+  orderBy?: Prisma.OrderOrderByWithRelationInput | Prisma.OrderOrderByWithRelationInput[]
+  cursor?: Prisma.OrderWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.OrderScalarFieldEnum | Prisma.OrderScalarFieldEnum[]
+}
+
+/**
+ * Farmer.sessions
+ */
+export type Farmer$sessionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FarmerSession
+   */
+  select?: Prisma.FarmerSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FarmerSession
+   */
+  omit?: Prisma.FarmerSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FarmerSessionInclude<ExtArgs> | null
+  where?: Prisma.FarmerSessionWhereInput
+  orderBy?: Prisma.FarmerSessionOrderByWithRelationInput | Prisma.FarmerSessionOrderByWithRelationInput[]
+  cursor?: Prisma.FarmerSessionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.FarmerSessionScalarFieldEnum | Prisma.FarmerSessionScalarFieldEnum[]
+}
+
+/**
+ * Farmer.poolContributions
+ */
+export type Farmer$poolContributionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PoolContribution
+   */
+  select?: Prisma.PoolContributionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PoolContribution
+   */
+  omit?: Prisma.PoolContributionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PoolContributionInclude<ExtArgs> | null
+  where?: Prisma.PoolContributionWhereInput
+  orderBy?: Prisma.PoolContributionOrderByWithRelationInput | Prisma.PoolContributionOrderByWithRelationInput[]
+  cursor?: Prisma.PoolContributionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PoolContributionScalarFieldEnum | Prisma.PoolContributionScalarFieldEnum[]
+}
+
+/**
+ * Farmer.conversations
+ */
+export type Farmer$conversationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VoiceConversation
+   */
+  select?: Prisma.VoiceConversationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VoiceConversation
+   */
+  omit?: Prisma.VoiceConversationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VoiceConversationInclude<ExtArgs> | null
+  where?: Prisma.VoiceConversationWhereInput
+  orderBy?: Prisma.VoiceConversationOrderByWithRelationInput | Prisma.VoiceConversationOrderByWithRelationInput[]
+  cursor?: Prisma.VoiceConversationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.VoiceConversationScalarFieldEnum | Prisma.VoiceConversationScalarFieldEnum[]
+}
+
 /**
  * Farmer without action
  */
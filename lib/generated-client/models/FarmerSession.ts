@@ -0,0 +1,1337 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `FarmerSession` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model FarmerSession
+ * 
+ */
+export type FarmerSessionModel = runtime.Types.Result.DefaultSelection<Prisma.$FarmerSessionPayload>
+
+export type AggregateFarmerSession = {
+  _count: FarmerSessionCountAggregateOutputType | null
+  _min: FarmerSessionMinAggregateOutputType | null
+  _max: FarmerSessionMaxAggregateOutputType | null
+}
+
+export type FarmerSessionMinAggregateOutputType = {
+  id: string | null
+  farmerId: string | null
+  tokenHash: string | null
+  expiresAt: Date | null
+  createdAt: Date | null
+}
+
+export type FarmerSessionMaxAggregateOutputType = {
+  id: string | null
+  farmerId: string | null
+  tokenHash: string | null
+  expiresAt: Date | null
+  createdAt: Date | null
+}
+
+export type FarmerSessionCountAggregateOutputType = {
+  id: number
+  farmerId: number
+  tokenHash: number
+  expiresAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type FarmerSessionMinAggregateInputType = {
+  id?: true
+  farmerId?: true
+  tokenHash?: true
+  expiresAt?: true
+  createdAt?: true
+}
+
+export type FarmerSessionMaxAggregateInputType = {
+  id?: true
+  farmerId?: true
+  tokenHash?: true
+  expiresAt?: true
+  createdAt?: true
+}
+
+export type FarmerSessionCountAggregateInputType = {
+  id?: true
+  farmerId?: true
+  tokenHash?: true
+  expiresAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type FarmerSessionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which FarmerSession to aggregate.
+   */
+  where?: Prisma.FarmerSessionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of FarmerSessions to fetch.
+   */
+  orderBy?: Prisma.FarmerSessionOrderByWithRelationInput | Prisma.FarmerSessionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.FarmerSessionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` FarmerSessions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` FarmerSessions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned FarmerSessions
+  **/
+  _count?: true | FarmerSessionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: FarmerSessionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: FarmerSessionMaxAggregateInputType
+}
+
+export type GetFarmerSessionAggregateType<T extends FarmerSessionAggregateArgs> = {
+      [P in keyof T & keyof AggregateFarmerSession]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateFarmerSession[P]>
+    : Prisma.GetScalarType<T[P], AggregateFarmerSession[P]>
+}
+
+
+
+
+export type FarmerSessionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.FarmerSessionWhereInput
+  orderBy?: Prisma.FarmerSessionOrderByWithAggregationInput | Prisma.FarmerSessionOrderByWithAggregationInput[]
+  by: Prisma.FarmerSessionScalarFieldEnum[] | Prisma.FarmerSessionScalarFieldEnum
+  having?: Prisma.FarmerSessionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: FarmerSessionCountAggregateInputType | true
+  _min?: FarmerSessionMinAggregateInputType
+  _max?: FarmerSessionMaxAggregateInputType
+}
+
+export type FarmerSessionGroupByOutputType = {
+  id: string
+  farmerId: string
+  tokenHash: string
+  expiresAt: Date
+  createdAt: Date
+  _count: FarmerSessionCountAggregateOutputType | null
+  _min: FarmerSessionMinAggregateOutputType | null
+  _max: FarmerSessionMaxAggregateOutputType | null
+}
+
+type GetFarmerSessionGroupByPayload<T extends FarmerSessionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<FarmerSessionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof FarmerSessionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], FarmerSessionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], FarmerSessionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type FarmerSessionWhereInput = {
+  AND?: Prisma.FarmerSessionWhereInput | Prisma.FarmerSessionWhereInput[]
+  OR?: Prisma.FarmerSessionWhereInput[]
+  NOT?: Prisma.FarmerSessionWhereInput | Prisma.FarmerSessionWhereInput[]
+  id?: Prisma.StringFilter<"FarmerSession"> | string
+  farmerId?: Prisma.StringFilter<"FarmerSession"> | string
+  tokenHash?: Prisma.StringFilter<"FarmerSession"> | string
+  expiresAt?: Prisma.DateTimeFilter<"FarmerSession"> | Date | string
+  createdAt?: Prisma.DateTimeFilter<"FarmerSession"> | Date | string
+  farmer?: Prisma.XOR<Prisma.FarmerScalarRelationFilter, Prisma.FarmerWhereInput>
+}
+
+export type FarmerSessionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  farmerId?: Prisma.SortOrder
+  tokenHash?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  farmer?: Prisma.FarmerOrderByWithRelationInput
+}
+
+export type FarmerSessionWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  tokenHash?: string
+  AND?: Prisma.FarmerSessionWhereInput | Prisma.FarmerSessionWhereInput[]
+  OR?: Prisma.FarmerSessionWhereInput[]
+  NOT?: Prisma.FarmerSessionWhereInput | Prisma.FarmerSessionWhereInput[]
+  farmerId?: Prisma.StringFilter<"FarmerSession"> | string
+  expiresAt?: Prisma.DateTimeFilter<"FarmerSession"> | Date | string
+  createdAt?: Prisma.DateTimeFilter<"FarmerSession"> | Date | string
+  farmer?: Prisma.XOR<Prisma.FarmerScalarRelationFilter, Prisma.FarmerWhereInput>
+}, "id" | "tokenHash">
+
+export type FarmerSessionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  farmerId?: Prisma.SortOrder
+  tokenHash?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.FarmerSessionCountOrderByAggregateInput
+  _max?: Prisma.FarmerSessionMaxOrderByAggregateInput
+  _min?: Prisma.FarmerSessionMinOrderByAggregateInput
+}
+
+export type FarmerSessionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.FarmerSessionScalarWhereWithAggregatesInput | Prisma.FarmerSessionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.FarmerSessionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.FarmerSessionScalarWhereWithAggregatesInput | Prisma.FarmerSessionScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"FarmerSession"> | string
+  farmerId?: Prisma.StringWithAggregatesFilter<"FarmerSession"> | string
+  tokenHash?: Prisma.StringWithAggregatesFilter<"FarmerSession"> | string
+  expiresAt?: Prisma.DateTimeWithAggregatesFilter<"FarmerSession"> | Date | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"FarmerSession"> | Date | string
+}
+
+export type FarmerSessionCreateInput = {
+  id?: string
+  tokenHash: string
+  expiresAt: Date | string
+  createdAt?: Date | string
+  farmer: Prisma.FarmerCreateNestedOneWithoutSessionsInput
+}
+
+export type FarmerSessionUncheckedCreateInput = {
+  id?: string
+  farmerId: string
+  tokenHash: string
+  expiresAt: Date | string
+  createdAt?: Date | string
+}
+
+export type FarmerSessionUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  farmer?: Prisma.FarmerUpdateOneRequiredWithoutSessionsNestedInput
+}
+
+export type FarmerSessionUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type FarmerSessionCreateManyInput = {
+  id?: string
+  farmerId: string
+  tokenHash: string
+  expiresAt: Date | string
+  createdAt?: Date | string
+}
+
+export type FarmerSessionUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type FarmerSessionUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type FarmerSessionListRelationFilter = {
+  every?: Prisma.FarmerSessionWhereInput
+  some?: Prisma.FarmerSessionWhereInput
+  none?: Prisma.FarmerSessionWhereInput
+}
+
+export type FarmerSessionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type FarmerSessionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  farmerId?: Prisma.SortOrder
+  tokenHash?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type FarmerSessionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  farmerId?: Prisma.SortOrder
+  tokenHash?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type FarmerSessionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  farmerId?: Prisma.SortOrder
+  tokenHash?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type FarmerSessionCreateNestedManyWithoutFarmerInput = {
+  create?: Prisma.XOR<Prisma.FarmerSessionCreateWithoutFarmerInput, Prisma.FarmerSessionUncheckedCreateWithoutFarmerInput> | Prisma.FarmerSessionCreateWithoutFarmerInput[] | Prisma.FarmerSessionUncheckedCreateWithoutFarmerInput[]
+  connectOrCreate?: Prisma.FarmerSessionCreateOrConnectWithoutFarmerInput | Prisma.FarmerSessionCreateOrConnectWithoutFarmerInput[]
+  createMany?: Prisma.FarmerSessionCreateManyFarmerInputEnvelope
+  connect?: Prisma.FarmerSessionWhereUniqueInput | Prisma.FarmerSessionWhereUniqueInput[]
+}
+
+export type FarmerSessionUncheckedCreateNestedManyWithoutFarmerInput = {
+  create?: Prisma.XOR<Prisma.FarmerSessionCreateWithoutFarmerInput, Prisma.FarmerSessionUncheckedCreateWithoutFarmerInput> | Prisma.FarmerSessionCreateWithoutFarmerInput[] | Prisma.FarmerSessionUncheckedCreateWithoutFarmerInput[]
+  connectOrCreate?: Prisma.FarmerSessionCreateOrConnectWithoutFarmerInput | Prisma.FarmerSessionCreateOrConnectWithoutFarmerInput[]
+  createMany?: Prisma.FarmerSessionCreateManyFarmerInputEnvelope
+  connect?: Prisma.FarmerSessionWhereUniqueInput | Prisma.FarmerSessionWhereUniqueInput[]
+}
+
+export type FarmerSessionUpdateManyWithoutFarmerNestedInput = {
+  create?: Prisma.XOR<Prisma.FarmerSessionCreateWithoutFarmerInput, Prisma.FarmerSessionUncheckedCreateWithoutFarmerInput> | Prisma.FarmerSessionCreateWithoutFarmerInput[] | Prisma.FarmerSessionUncheckedCreateWithoutFarmerInput[]
+  connectOrCreate?: Prisma.FarmerSessionCreateOrConnectWithoutFarmerInput | Prisma.FarmerSessionCreateOrConnectWithoutFarmerInput[]
+  upsert?: Prisma.FarmerSessionUpsertWithWhereUniqueWithoutFarmerInput | Prisma.FarmerSessionUpsertWithWhereUniqueWithoutFarmerInput[]
+  createMany?: Prisma.FarmerSessionCreateManyFarmerInputEnvelope
+  set?: Prisma.FarmerSessionWhereUniqueInput | Prisma.FarmerSessionWhereUniqueInput[]
+  disconnect?: Prisma.FarmerSessionWhereUniqueInput | Prisma.FarmerSessionWhereUniqueInput[]
+  delete?: Prisma.FarmerSessionWhereUniqueInput | Prisma.FarmerSessionWhereUniqueInput[]
+  connect?: Prisma.FarmerSessionWhereUniqueInput | Prisma.FarmerSessionWhereUniqueInput[]
+  update?: Prisma.FarmerSessionUpdateWithWhereUniqueWithoutFarmerInput | Prisma.FarmerSessionUpdateWithWhereUniqueWithoutFarmerInput[]
+  updateMany?: Prisma.FarmerSessionUpdateManyWithWhereWithoutFarmerInput | Prisma.FarmerSessionUpdateManyWithWhereWithoutFarmerInput[]
+  deleteMany?: Prisma.FarmerSessionScalarWhereInput | Prisma.FarmerSessionScalarWhereInput[]
+}
+
+export type FarmerSessionUncheckedUpdateManyWithoutFarmerNestedInput = {
+  create?: Prisma.XOR<Prisma.FarmerSessionCreateWithoutFarmerInput, Prisma.FarmerSessionUncheckedCreateWithoutFarmerInput> | Prisma.FarmerSessionCreateWithoutFarmerInput[] | Prisma.FarmerSessionUncheckedCreateWithoutFarmerInput[]
+  connectOrCreate?: Prisma.FarmerSessionCreateOrConnectWithoutFarmerInput | Prisma.FarmerSessionCreateOrConnectWithoutFarmerInput[]
+  upsert?: Prisma.FarmerSessionUpsertWithWhereUniqueWithoutFarmerInput | Prisma.FarmerSessionUpsertWithWhereUniqueWithoutFarmerInput[]
+  createMany?: Prisma.FarmerSessionCreateManyFarmerInputEnvelope
+  set?: Prisma.FarmerSessionWhereUniqueInput | Prisma.FarmerSessionWhereUniqueInput[]
+  disconnect?: Prisma.FarmerSessionWhereUniqueInput | Prisma.FarmerSessionWhereUniqueInput[]
+  delete?: Prisma.FarmerSessionWhereUniqueInput | Prisma.FarmerSessionWhereUniqueInput[]
+  connect?: Prisma.FarmerSessionWhereUniqueInput | Prisma.FarmerSessionWhereUniqueInput[]
+  update?: Prisma.FarmerSessionUpdateWithWhereUniqueWithoutFarmerInput | Prisma.FarmerSessionUpdateWithWhereUniqueWithoutFarmerInput[]
+  updateMany?: Prisma.FarmerSessionUpdateManyWithWhereWithoutFarmerInput | Prisma.FarmerSessionUpdateManyWithWhereWithoutFarmerInput[]
+  deleteMany?: Prisma.FarmerSessionScalarWhereInput | Prisma.FarmerSessionScalarWhereInput[]
+}
+
+export type FarmerSessionCreateWithoutFarmerInput = {
+  id?: string
+  tokenHash: string
+  expiresAt: Date | string
+  createdAt?: Date | string
+}
+
+export type FarmerSessionUncheckedCreateWithoutFarmerInput = {
+  id?: string
+  tokenHash: string
+  expiresAt: Date | string
+  createdAt?: Date | string
+}
+
+export type FarmerSessionCreateOrConnectWithoutFarmerInput = {
+  where: Prisma.FarmerSessionWhereUniqueInput
+  create: Prisma.XOR<Prisma.FarmerSessionCreateWithoutFarmerInput, Prisma.FarmerSessionUncheckedCreateWithoutFarmerInput>
+}
+
+export type FarmerSessionCreateManyFarmerInputEnvelope = {
+  data: Prisma.FarmerSessionCreateManyFarmerInput | Prisma.FarmerSessionCreateManyFarmerInput[]
+}
+
+export type FarmerSessionUpsertWithWhereUniqueWithoutFarmerInput = {
+  where: Prisma.FarmerSessionWhereUniqueInput
+  update: Prisma.XOR<Prisma.FarmerSessionUpdateWithoutFarmerInput, Prisma.FarmerSessionUncheckedUpdateWithoutFarmerInput>
+  create: Prisma.XOR<Prisma.FarmerSessionCreateWithoutFarmerInput, Prisma.FarmerSessionUncheckedCreateWithoutFarmerInput>
+}
+
+export type FarmerSessionUpdateWithWhereUniqueWithoutFarmerInput = {
+  where: Prisma.FarmerSessionWhereUniqueInput
+  data: Prisma.XOR<Prisma.FarmerSessionUpdateWithoutFarmerInput, Prisma.FarmerSessionUncheckedUpdateWithoutFarmerInput>
+}
+
+export type FarmerSessionUpdateManyWithWhereWithoutFarmerInput = {
+  where: Prisma.FarmerSessionScalarWhereInput
+  data: Prisma.XOR<Prisma.FarmerSessionUpdateManyMutationInput, Prisma.FarmerSessionUncheckedUpdateManyWithoutFarmerInput>
+}
+
+export type FarmerSessionScalarWhereInput = {
+  AND?: Prisma.FarmerSessionScalarWhereInput | Prisma.FarmerSessionScalarWhereInput[]
+  OR?: Prisma.FarmerSessionScalarWhereInput[]
+  NOT?: Prisma.FarmerSessionScalarWhereInput | Prisma.FarmerSessionScalarWhereInput[]
+  id?: Prisma.StringFilter<"FarmerSession"> | string
+  farmerId?: Prisma.StringFilter<"FarmerSession"> | string
+  tokenHash?: Prisma.StringFilter<"FarmerSession"> | string
+  expiresAt?: Prisma.DateTimeFilter<"FarmerSession"> | Date | string
+  createdAt?: Prisma.DateTimeFilter<"FarmerSession"> | Date | string
+}
+
+export type FarmerSessionCreateManyFarmerInput = {
+  id?: string
+  tokenHash: string
+  expiresAt: Date | string
+  createdAt?: Date | string
+}
+
+export type FarmerSessionUpdateWithoutFarmerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type FarmerSessionUncheckedUpdateWithoutFarmerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type FarmerSessionUncheckedUpdateManyWithoutFarmerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type FarmerSessionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  farmerId?: boolean
+  tokenHash?: boolean
+  expiresAt?: boolean
+  createdAt?: boolean
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["farmerSession"]>
+
+export type FarmerSessionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  farmerId?: boolean
+  tokenHash?: boolean
+  expiresAt?: boolean
+  createdAt?: boolean
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["farmerSession"]>
+
+export type FarmerSessionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  farmerId?: boolean
+  tokenHash?: boolean
+  expiresAt?: boolean
+  createdAt?: boolean
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["farmerSession"]>
+
+export type FarmerSessionSelectScalar = {
+  id?: boolean
+  farmerId?: boolean
+  tokenHash?: boolean
+  expiresAt?: boolean
+  createdAt?: boolean
+}
+
+export type FarmerSessionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "farmerId" | "tokenHash" | "expiresAt" | "createdAt", ExtArgs["result"]["farmerSession"]>
+export type FarmerSessionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+}
+export type FarmerSessionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+}
+export type FarmerSessionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+}
+
+export type $FarmerSessionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "FarmerSession"
+  objects: {
+    farmer: Prisma.$FarmerPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    farmerId: string
+    tokenHash: string
+    expiresAt: Date
+    createdAt: Date
+  }, ExtArgs["result"]["farmerSession"]>
+  composites: {}
+}
+
+export type FarmerSessionGetPayload<S extends boolean | null | undefined | FarmerSessionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$FarmerSessionPayload, S>
+
+export type FarmerSessionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<FarmerSessionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: FarmerSessionCountAggregateInputType | true
+  }
+
+export interface FarmerSessionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['FarmerSession'], meta: { name: 'FarmerSession' } }
+  /**
+   * Find zero or one FarmerSession that matches the filter.
+   * @param {FarmerSessionFindUniqueArgs} args - Arguments to find a FarmerSession
+   * @example
+   * // Get one FarmerSession
+   * const farmerSession = await prisma.farmerSession.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends FarmerSessionFindUniqueArgs>(args: Prisma.SelectSubset<T, FarmerSessionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__FarmerSessionClient<runtime.Types.Result.GetResult<Prisma.$FarmerSessionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one FarmerSession that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {FarmerSessionFindUniqueOrThrowArgs} args - Arguments to find a FarmerSession
+   * @example
+   * // Get one FarmerSession
+   * const farmerSession = await prisma.farmerSession.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends FarmerSessionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, FarmerSessionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__FarmerSessionClient<runtime.Types.Result.GetResult<Prisma.$FarmerSessionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first FarmerSession that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FarmerSessionFindFirstArgs} args - Arguments to find a FarmerSession
+   * @example
+   * // Get one FarmerSession
+   * const farmerSession = await prisma.farmerSession.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends FarmerSessionFindFirstArgs>(args?: Prisma.SelectSubset<T, FarmerSessionFindFirstArgs<ExtArgs>>): Prisma.Prisma__FarmerSessionClient<runtime.Types.Result.GetResult<Prisma.$FarmerSessionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first FarmerSession that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FarmerSessionFindFirstOrThrowArgs} args - Arguments to find a FarmerSession
+   * @example
+   * // Get one FarmerSession
+   * const farmerSession = await prisma.farmerSession.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends FarmerSessionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, FarmerSessionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__FarmerSessionClient<runtime.Types.Result.GetResult<Prisma.$FarmerSessionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more FarmerSessions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FarmerSessionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all FarmerSessions
+   * const farmerSessions = await prisma.farmerSession.findMany()
+   * 
+   * // Get first 10 FarmerSessions
+   * const farmerSessions = await prisma.farmerSession.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const farmerSessionWithIdOnly = await prisma.farmerSession.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends FarmerSessionFindManyArgs>(args?: Prisma.SelectSubset<T, FarmerSessionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$FarmerSessionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a FarmerSession.
+   * @param {FarmerSessionCreateArgs} args - Arguments to create a FarmerSession.
+   * @example
+   * // Create one FarmerSession
+   * const FarmerSession = await prisma.farmerSession.create({
+   *   data: {
+   *     // ... data to create a FarmerSession
+   *   }
+   * })
+   * 
+   */
+  create<T extends FarmerSessionCreateArgs>(args: Prisma.SelectSubset<T, FarmerSessionCreateArgs<ExtArgs>>): Prisma.Prisma__FarmerSessionClient<runtime.Types.Result.GetResult<Prisma.$FarmerSessionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many FarmerSessions.
+   * @param {FarmerSessionCreateManyArgs} args - Arguments to create many FarmerSessions.
+   * @example
+   * // Create many FarmerSessions
+   * const farmerSession = await prisma.farmerSession.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends FarmerSessionCreateManyArgs>(args?: Prisma.SelectSubset<T, FarmerSessionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many FarmerSessions and returns the data saved in the database.
+   * @param {FarmerSessionCreateManyAndReturnArgs} args - Arguments to create many FarmerSessions.
+   * @example
+   * // Create many FarmerSessions
+   * const farmerSession = await prisma.farmerSession.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many FarmerSessions and only return the `id`
+   * const farmerSessionWithIdOnly = await prisma.farmerSession.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends FarmerSessionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, FarmerSessionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$FarmerSessionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a FarmerSession.
+   * @param {FarmerSessionDeleteArgs} args - Arguments to delete one FarmerSession.
+   * @example
+   * // Delete one FarmerSession
+   * const FarmerSession = await prisma.farmerSession.delete({
+   *   where: {
+   *     // ... filter to delete one FarmerSession
+   *   }
+   * })
+   * 
+   */
+  delete<T extends FarmerSessionDeleteArgs>(args: Prisma.SelectSubset<T, FarmerSessionDeleteArgs<ExtArgs>>): Prisma.Prisma__FarmerSessionClient<runtime.Types.Result.GetResult<Prisma.$FarmerSessionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one FarmerSession.
+   * @param {FarmerSessionUpdateArgs} args - Arguments to update one FarmerSession.
+   * @example
+   * // Update one FarmerSession
+   * const farmerSession = await prisma.farmerSession.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends FarmerSessionUpdateArgs>(args: Prisma.SelectSubset<T, FarmerSessionUpdateArgs<ExtArgs>>): Prisma.Prisma__FarmerSessionClient<runtime.Types.Result.GetResult<Prisma.$FarmerSessionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more FarmerSessions.
+   * @param {FarmerSessionDeleteManyArgs} args - Arguments to filter FarmerSessions to delete.
+   * @example
+   * // Delete a few FarmerSessions
+   * const { count } = await prisma.farmerSession.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends FarmerSessionDeleteManyArgs>(args?: Prisma.SelectSubset<T, FarmerSessionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more FarmerSessions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FarmerSessionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many FarmerSessions
+   * const farmerSession = await prisma.farmerSession.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends FarmerSessionUpdateManyArgs>(args: Prisma.SelectSubset<T, FarmerSessionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more FarmerSessions and returns the data updated in the database.
+   * @param {FarmerSessionUpdateManyAndReturnArgs} args - Arguments to update many FarmerSessions.
+   * @example
+   * // Update many FarmerSessions
+   * const farmerSession = await prisma.farmerSession.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more FarmerSessions and only return the `id`
+   * const farmerSessionWithIdOnly = await prisma.farmerSession.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends FarmerSessionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, FarmerSessionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$FarmerSessionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one FarmerSession.
+   * @param {FarmerSessionUpsertArgs} args - Arguments to update or create a FarmerSession.
+   * @example
+   * // Update or create a FarmerSession
+   * const farmerSession = await prisma.farmerSession.upsert({
+   *   create: {
+   *     // ... data to create a FarmerSession
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the FarmerSession we want to update
+   *   }
+   * })
+   */
+  upsert<T extends FarmerSessionUpsertArgs>(args: Prisma.SelectSubset<T, FarmerSessionUpsertArgs<ExtArgs>>): Prisma.Prisma__FarmerSessionClient<runtime.Types.Result.GetResult<Prisma.$FarmerSessionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of FarmerSessions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FarmerSessionCountArgs} args - Arguments to filter FarmerSessions to count.
+   * @example
+   * // Count the number of FarmerSessions
+   * const count = await prisma.farmerSession.count({
+   *   where: {
+   *     // ... the filter for the FarmerSessions we want to count
+   *   }
+   * })
+  **/
+  count<T extends FarmerSessionCountArgs>(
+    args?: Prisma.Subset<T, FarmerSessionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], FarmerSessionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a FarmerSession.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FarmerSessionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends FarmerSessionAggregateArgs>(args: Prisma.Subset<T, FarmerSessionAggregateArgs>): Prisma.PrismaPromise<GetFarmerSessionAggregateType<T>>
+
+  /**
+   * Group by FarmerSession.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FarmerSessionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends FarmerSessionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: FarmerSessionGroupByArgs['orderBy'] }
+      : { orderBy?: FarmerSessionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, FarmerSessionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetFarmerSessionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the FarmerSession model
+ */
+readonly fields: FarmerSessionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for FarmerSession.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__FarmerSessionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  farmer<T extends Prisma.FarmerDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.FarmerDefaultArgs<ExtArgs>>): Prisma.Prisma__FarmerClient<runtime.Types.Result.GetResult<Prisma.$FarmerPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the FarmerSession model
+ */
+export interface FarmerSessionFieldRefs {
+  readonly id: Prisma.FieldRef<"FarmerSession", 'String'>
+  readonly farmerId: Prisma.FieldRef<"FarmerSession", 'String'>
+  readonly tokenHash: Prisma.FieldRef<"FarmerSession", 'String'>
+  readonly expiresAt: Prisma.FieldRef<"FarmerSession", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"FarmerSession", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * FarmerSession findUnique
+ */
+export type FarmerSessionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FarmerSession
+   */
+  select?: Prisma.FarmerSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FarmerSession
+   */
+  omit?: Prisma.FarmerSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FarmerSessionInclude<ExtArgs> | null
+  /**
+   * Filter, which FarmerSession to fetch.
+   */
+  where: Prisma.FarmerSessionWhereUniqueInput
+}
+
+/**
+ * FarmerSession findUniqueOrThrow
+ */
+export type FarmerSessionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FarmerSession
+   */
+  select?: Prisma.FarmerSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FarmerSession
+   */
+  omit?: Prisma.FarmerSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FarmerSessionInclude<ExtArgs> | null
+  /**
+   * Filter, which FarmerSession to fetch.
+   */
+  where: Prisma.FarmerSessionWhereUniqueInput
+}
+
+/**
+ * FarmerSession findFirst
+ */
+export type FarmerSessionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FarmerSession
+   */
+  select?: Prisma.FarmerSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FarmerSession
+   */
+  omit?: Prisma.FarmerSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FarmerSessionInclude<ExtArgs> | null
+  /**
+   * Filter, which FarmerSession to fetch.
+   */
+  where?: Prisma.FarmerSessionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of FarmerSessions to fetch.
+   */
+  orderBy?: Prisma.FarmerSessionOrderByWithRelationInput | Prisma.FarmerSessionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for FarmerSessions.
+   */
+  cursor?: Prisma.FarmerSessionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` FarmerSessions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` FarmerSessions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of FarmerSessions.
+   */
+  distinct?: Prisma.FarmerSessionScalarFieldEnum | Prisma.FarmerSessionScalarFieldEnum[]
+}
+
+/**
+ * FarmerSession findFirstOrThrow
+ */
+export type FarmerSessionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FarmerSession
+   */
+  select?: Prisma.FarmerSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FarmerSession
+   */
+  omit?: Prisma.FarmerSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FarmerSessionInclude<ExtArgs> | null
+  /**
+   * Filter, which FarmerSession to fetch.
+   */
+  where?: Prisma.FarmerSessionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of FarmerSessions to fetch.
+   */
+  orderBy?: Prisma.FarmerSessionOrderByWithRelationInput | Prisma.FarmerSessionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for FarmerSessions.
+   */
+  cursor?: Prisma.FarmerSessionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` FarmerSessions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` FarmerSessions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of FarmerSessions.
+   */
+  distinct?: Prisma.FarmerSessionScalarFieldEnum | Prisma.FarmerSessionScalarFieldEnum[]
+}
+
+/**
+ * FarmerSession findMany
+ */
+export type FarmerSessionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FarmerSession
+   */
+  select?: Prisma.FarmerSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FarmerSession
+   */
+  omit?: Prisma.FarmerSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FarmerSessionInclude<ExtArgs> | null
+  /**
+   * Filter, which FarmerSessions to fetch.
+   */
+  where?: Prisma.FarmerSessionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of FarmerSessions to fetch.
+   */
+  orderBy?: Prisma.FarmerSessionOrderByWithRelationInput | Prisma.FarmerSessionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing FarmerSessions.
+   */
+  cursor?: Prisma.FarmerSessionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` FarmerSessions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` FarmerSessions.
+   */
+  skip?: number
+  distinct?: Prisma.FarmerSessionScalarFieldEnum | Prisma.FarmerSessionScalarFieldEnum[]
+}
+
+/**
+ * FarmerSession create
+ */
+export type FarmerSessionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FarmerSession
+   */
+  select?: Prisma.FarmerSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FarmerSession
+   */
+  omit?: Prisma.FarmerSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FarmerSessionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a FarmerSession.
+   */
+  data: Prisma.XOR<Prisma.FarmerSessionCreateInput, Prisma.FarmerSessionUncheckedCreateInput>
+}
+
+/**
+ * FarmerSession createMany
+ */
+export type FarmerSessionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many FarmerSessions.
+   */
+  data: Prisma.FarmerSessionCreateManyInput | Prisma.FarmerSessionCreateManyInput[]
+}
+
+/**
+ * FarmerSession createManyAndReturn
+ */
+export type FarmerSessionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FarmerSession
+   */
+  select?: Prisma.FarmerSessionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the FarmerSession
+   */
+  omit?: Prisma.FarmerSessionOmit<ExtArgs> | null
+  /**
+   * The data used to create many FarmerSessions.
+   */
+  data: Prisma.FarmerSessionCreateManyInput | Prisma.FarmerSessionCreateManyInput[]
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FarmerSessionIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * FarmerSession update
+ */
+export type FarmerSessionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FarmerSession
+   */
+  select?: Prisma.FarmerSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FarmerSession
+   */
+  omit?: Prisma.FarmerSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FarmerSessionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a FarmerSession.
+   */
+  data: Prisma.XOR<Prisma.FarmerSessionUpdateInput, Prisma.FarmerSessionUncheckedUpdateInput>
+  /**
+   * Choose, which FarmerSession to update.
+   */
+  where: Prisma.FarmerSessionWhereUniqueInput
+}
+
+/**
+ * FarmerSession updateMany
+ */
+export type FarmerSessionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update FarmerSessions.
+   */
+  data: Prisma.XOR<Prisma.FarmerSessionUpdateManyMutationInput, Prisma.FarmerSessionUncheckedUpdateManyInput>
+  /**
+   * Filter which FarmerSessions to update
+   */
+  where?: Prisma.FarmerSessionWhereInput
+  /**
+   * Limit how many FarmerSessions to update.
+   */
+  limit?: number
+}
+
+/**
+ * FarmerSession updateManyAndReturn
+ */
+export type FarmerSessionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FarmerSession
+   */
+  select?: Prisma.FarmerSessionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the FarmerSession
+   */
+  omit?: Prisma.FarmerSessionOmit<ExtArgs> | null
+  /**
+   * The data used to update FarmerSessions.
+   */
+  data: Prisma.XOR<Prisma.FarmerSessionUpdateManyMutationInput, Prisma.FarmerSessionUncheckedUpdateManyInput>
+  /**
+   * Filter which FarmerSessions to update
+   */
+  where?: Prisma.FarmerSessionWhereInput
+  /**
+   * Limit how many FarmerSessions to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FarmerSessionIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * FarmerSession upsert
+ */
+export type FarmerSessionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FarmerSession
+   */
+  select?: Prisma.FarmerSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FarmerSession
+   */
+  omit?: Prisma.FarmerSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FarmerSessionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the FarmerSession to update in case it exists.
+   */
+  where: Prisma.FarmerSessionWhereUniqueInput
+  /**
+   * In case the FarmerSession found by the `where` argument doesn't exist, create a new FarmerSession with this data.
+   */
+  create: Prisma.XOR<Prisma.FarmerSessionCreateInput, Prisma.FarmerSessionUncheckedCreateInput>
+  /**
+   * In case the FarmerSession was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.FarmerSessionUpdateInput, Prisma.FarmerSessionUncheckedUpdateInput>
+}
+
+/**
+ * FarmerSession delete
+ */
+export type FarmerSessionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FarmerSession
+   */
+  select?: Prisma.FarmerSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FarmerSession
+   */
+  omit?: Prisma.FarmerSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FarmerSessionInclude<ExtArgs> | null
+  /**
+   * Filter which FarmerSession to delete.
+   */
+  where: Prisma.FarmerSessionWhereUniqueInput
+}
+
+/**
+ * FarmerSession deleteMany
+ */
+export type FarmerSessionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which FarmerSessions to delete
+   */
+  where?: Prisma.FarmerSessionWhereInput
+  /**
+   * Limit how many FarmerSessions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * FarmerSession without action
+ */
+export type FarmerSessionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FarmerSession
+   */
+  select?: Prisma.FarmerSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FarmerSession
+   */
+  omit?: Prisma.FarmerSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FarmerSessionInclude<ExtArgs> | null
+}
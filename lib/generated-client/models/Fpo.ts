@@ -0,0 +1,1474 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `Fpo` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model Fpo
+ * 
+ */
+export type FpoModel = runtime.Types.Result.DefaultSelection<Prisma.$FpoPayload>
+
+export type AggregateFpo = {
+  _count: FpoCountAggregateOutputType | null
+  _min: FpoMinAggregateOutputType | null
+  _max: FpoMaxAggregateOutputType | null
+}
+
+export type FpoMinAggregateOutputType = {
+  id: string | null
+  name: string | null
+  providerId: string | null
+  state: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type FpoMaxAggregateOutputType = {
+  id: string | null
+  name: string | null
+  providerId: string | null
+  state: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type FpoCountAggregateOutputType = {
+  id: number
+  name: number
+  providerId: number
+  state: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type FpoMinAggregateInputType = {
+  id?: true
+  name?: true
+  providerId?: true
+  state?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type FpoMaxAggregateInputType = {
+  id?: true
+  name?: true
+  providerId?: true
+  state?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type FpoCountAggregateInputType = {
+  id?: true
+  name?: true
+  providerId?: true
+  state?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type FpoAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Fpo to aggregate.
+   */
+  where?: Prisma.FpoWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Fpos to fetch.
+   */
+  orderBy?: Prisma.FpoOrderByWithRelationInput | Prisma.FpoOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.FpoWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Fpos from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Fpos.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Fpos
+  **/
+  _count?: true | FpoCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: FpoMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: FpoMaxAggregateInputType
+}
+
+export type GetFpoAggregateType<T extends FpoAggregateArgs> = {
+      [P in keyof T & keyof AggregateFpo]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateFpo[P]>
+    : Prisma.GetScalarType<T[P], AggregateFpo[P]>
+}
+
+
+
+
+export type FpoGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.FpoWhereInput
+  orderBy?: Prisma.FpoOrderByWithAggregationInput | Prisma.FpoOrderByWithAggregationInput[]
+  by: Prisma.FpoScalarFieldEnum[] | Prisma.FpoScalarFieldEnum
+  having?: Prisma.FpoScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: FpoCountAggregateInputType | true
+  _min?: FpoMinAggregateInputType
+  _max?: FpoMaxAggregateInputType
+}
+
+export type FpoGroupByOutputType = {
+  id: string
+  name: string
+  providerId: string
+  state: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: FpoCountAggregateOutputType | null
+  _min: FpoMinAggregateOutputType | null
+  _max: FpoMaxAggregateOutputType | null
+}
+
+type GetFpoGroupByPayload<T extends FpoGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<FpoGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof FpoGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], FpoGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], FpoGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type FpoWhereInput = {
+  AND?: Prisma.FpoWhereInput | Prisma.FpoWhereInput[]
+  OR?: Prisma.FpoWhereInput[]
+  NOT?: Prisma.FpoWhereInput | Prisma.FpoWhereInput[]
+  id?: Prisma.StringFilter<"Fpo"> | string
+  name?: Prisma.StringFilter<"Fpo"> | string
+  providerId?: Prisma.StringFilter<"Fpo"> | string
+  state?: Prisma.StringNullableFilter<"Fpo"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Fpo"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Fpo"> | Date | string
+  members?: Prisma.FarmerListRelationFilter
+  catalogs?: Prisma.CatalogListRelationFilter
+}
+
+export type FpoOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  providerId?: Prisma.SortOrder
+  state?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  members?: Prisma.FarmerOrderByRelationAggregateInput
+  catalogs?: Prisma.CatalogOrderByRelationAggregateInput
+}
+
+export type FpoWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  providerId?: string
+  AND?: Prisma.FpoWhereInput | Prisma.FpoWhereInput[]
+  OR?: Prisma.FpoWhereInput[]
+  NOT?: Prisma.FpoWhereInput | Prisma.FpoWhereInput[]
+  name?: Prisma.StringFilter<"Fpo"> | string
+  state?: Prisma.StringNullableFilter<"Fpo"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Fpo"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Fpo"> | Date | string
+  members?: Prisma.FarmerListRelationFilter
+  catalogs?: Prisma.CatalogListRelationFilter
+}, "id" | "providerId">
+
+export type FpoOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  providerId?: Prisma.SortOrder
+  state?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.FpoCountOrderByAggregateInput
+  _max?: Prisma.FpoMaxOrderByAggregateInput
+  _min?: Prisma.FpoMinOrderByAggregateInput
+}
+
+export type FpoScalarWhereWithAggregatesInput = {
+  AND?: Prisma.FpoScalarWhereWithAggregatesInput | Prisma.FpoScalarWhereWithAggregatesInput[]
+  OR?: Prisma.FpoScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.FpoScalarWhereWithAggregatesInput | Prisma.FpoScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"Fpo"> | string
+  name?: Prisma.StringWithAggregatesFilter<"Fpo"> | string
+  providerId?: Prisma.StringWithAggregatesFilter<"Fpo"> | string
+  state?: Prisma.StringNullableWithAggregatesFilter<"Fpo"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"Fpo"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Fpo"> | Date | string
+}
+
+export type FpoCreateInput = {
+  id?: string
+  name: string
+  providerId: string
+  state?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  members?: Prisma.FarmerCreateNestedManyWithoutFpoInput
+  catalogs?: Prisma.CatalogCreateNestedManyWithoutFpoInput
+}
+
+export type FpoUncheckedCreateInput = {
+  id?: string
+  name: string
+  providerId: string
+  state?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  members?: Prisma.FarmerUncheckedCreateNestedManyWithoutFpoInput
+  catalogs?: Prisma.CatalogUncheckedCreateNestedManyWithoutFpoInput
+}
+
+export type FpoUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  providerId?: Prisma.StringFieldUpdateOperationsInput | string
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  members?: Prisma.FarmerUpdateManyWithoutFpoNestedInput
+  catalogs?: Prisma.CatalogUpdateManyWithoutFpoNestedInput
+}
+
+export type FpoUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  providerId?: Prisma.StringFieldUpdateOperationsInput | string
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  members?: Prisma.FarmerUncheckedUpdateManyWithoutFpoNestedInput
+  catalogs?: Prisma.CatalogUncheckedUpdateManyWithoutFpoNestedInput
+}
+
+export type FpoCreateManyInput = {
+  id?: string
+  name: string
+  providerId: string
+  state?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type FpoUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  providerId?: Prisma.StringFieldUpdateOperationsInput | string
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type FpoUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  providerId?: Prisma.StringFieldUpdateOperationsInput | string
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type FpoNullableScalarRelationFilter = {
+  is?: Prisma.FpoWhereInput | null
+  isNot?: Prisma.FpoWhereInput | null
+}
+
+export type FpoCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  providerId?: Prisma.SortOrder
+  state?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type FpoMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  providerId?: Prisma.SortOrder
+  state?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type FpoMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  providerId?: Prisma.SortOrder
+  state?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type FpoCreateNestedOneWithoutMembersInput = {
+  create?: Prisma.XOR<Prisma.FpoCreateWithoutMembersInput, Prisma.FpoUncheckedCreateWithoutMembersInput>
+  connectOrCreate?: Prisma.FpoCreateOrConnectWithoutMembersInput
+  connect?: Prisma.FpoWhereUniqueInput
+}
+
+export type FpoUpdateOneWithoutMembersNestedInput = {
+  create?: Prisma.XOR<Prisma.FpoCreateWithoutMembersInput, Prisma.FpoUncheckedCreateWithoutMembersInput>
+  connectOrCreate?: Prisma.FpoCreateOrConnectWithoutMembersInput
+  upsert?: Prisma.FpoUpsertWithoutMembersInput
+  disconnect?: Prisma.FpoWhereInput | boolean
+  delete?: Prisma.FpoWhereInput | boolean
+  connect?: Prisma.FpoWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.FpoUpdateToOneWithWhereWithoutMembersInput, Prisma.FpoUpdateWithoutMembersInput>, Prisma.FpoUncheckedUpdateWithoutMembersInput>
+}
+
+export type FpoCreateNestedOneWithoutCatalogsInput = {
+  create?: Prisma.XOR<Prisma.FpoCreateWithoutCatalogsInput, Prisma.FpoUncheckedCreateWithoutCatalogsInput>
+  connectOrCreate?: Prisma.FpoCreateOrConnectWithoutCatalogsInput
+  connect?: Prisma.FpoWhereUniqueInput
+}
+
+export type FpoUpdateOneWithoutCatalogsNestedInput = {
+  create?: Prisma.XOR<Prisma.FpoCreateWithoutCatalogsInput, Prisma.FpoUncheckedCreateWithoutCatalogsInput>
+  connectOrCreate?: Prisma.FpoCreateOrConnectWithoutCatalogsInput
+  upsert?: Prisma.FpoUpsertWithoutCatalogsInput
+  disconnect?: Prisma.FpoWhereInput | boolean
+  delete?: Prisma.FpoWhereInput | boolean
+  connect?: Prisma.FpoWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.FpoUpdateToOneWithWhereWithoutCatalogsInput, Prisma.FpoUpdateWithoutCatalogsInput>, Prisma.FpoUncheckedUpdateWithoutCatalogsInput>
+}
+
+export type FpoCreateWithoutMembersInput = {
+  id?: string
+  name: string
+  providerId: string
+  state?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  catalogs?: Prisma.CatalogCreateNestedManyWithoutFpoInput
+}
+
+export type FpoUncheckedCreateWithoutMembersInput = {
+  id?: string
+  name: string
+  providerId: string
+  state?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  catalogs?: Prisma.CatalogUncheckedCreateNestedManyWithoutFpoInput
+}
+
+export type FpoCreateOrConnectWithoutMembersInput = {
+  where: Prisma.FpoWhereUniqueInput
+  create: Prisma.XOR<Prisma.FpoCreateWithoutMembersInput, Prisma.FpoUncheckedCreateWithoutMembersInput>
+}
+
+export type FpoUpsertWithoutMembersInput = {
+  update: Prisma.XOR<Prisma.FpoUpdateWithoutMembersInput, Prisma.FpoUncheckedUpdateWithoutMembersInput>
+  create: Prisma.XOR<Prisma.FpoCreateWithoutMembersInput, Prisma.FpoUncheckedCreateWithoutMembersInput>
+  where?: Prisma.FpoWhereInput
+}
+
+export type FpoUpdateToOneWithWhereWithoutMembersInput = {
+  where?: Prisma.FpoWhereInput
+  data: Prisma.XOR<Prisma.FpoUpdateWithoutMembersInput, Prisma.FpoUncheckedUpdateWithoutMembersInput>
+}
+
+export type FpoUpdateWithoutMembersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  providerId?: Prisma.StringFieldUpdateOperationsInput | string
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  catalogs?: Prisma.CatalogUpdateManyWithoutFpoNestedInput
+}
+
+export type FpoUncheckedUpdateWithoutMembersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  providerId?: Prisma.StringFieldUpdateOperationsInput | string
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  catalogs?: Prisma.CatalogUncheckedUpdateManyWithoutFpoNestedInput
+}
+
+export type FpoCreateWithoutCatalogsInput = {
+  id?: string
+  name: string
+  providerId: string
+  state?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  members?: Prisma.FarmerCreateNestedManyWithoutFpoInput
+}
+
+export type FpoUncheckedCreateWithoutCatalogsInput = {
+  id?: string
+  name: string
+  providerId: string
+  state?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  members?: Prisma.FarmerUncheckedCreateNestedManyWithoutFpoInput
+}
+
+export type FpoCreateOrConnectWithoutCatalogsInput = {
+  where: Prisma.FpoWhereUniqueInput
+  create: Prisma.XOR<Prisma.FpoCreateWithoutCatalogsInput, Prisma.FpoUncheckedCreateWithoutCatalogsInput>
+}
+
+export type FpoUpsertWithoutCatalogsInput = {
+  update: Prisma.XOR<Prisma.FpoUpdateWithoutCatalogsInput, Prisma.FpoUncheckedUpdateWithoutCatalogsInput>
+  create: Prisma.XOR<Prisma.FpoCreateWithoutCatalogsInput, Prisma.FpoUncheckedCreateWithoutCatalogsInput>
+  where?: Prisma.FpoWhereInput
+}
+
+export type FpoUpdateToOneWithWhereWithoutCatalogsInput = {
+  where?: Prisma.FpoWhereInput
+  data: Prisma.XOR<Prisma.FpoUpdateWithoutCatalogsInput, Prisma.FpoUncheckedUpdateWithoutCatalogsInput>
+}
+
+export type FpoUpdateWithoutCatalogsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  providerId?: Prisma.StringFieldUpdateOperationsInput | string
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  members?: Prisma.FarmerUpdateManyWithoutFpoNestedInput
+}
+
+export type FpoUncheckedUpdateWithoutCatalogsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  providerId?: Prisma.StringFieldUpdateOperationsInput | string
+  state?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  members?: Prisma.FarmerUncheckedUpdateManyWithoutFpoNestedInput
+}
+
+
+/**
+ * Count Type FpoCountOutputType
+ */
+
+export type FpoCountOutputType = {
+  members: number
+  catalogs: number
+}
+
+export type FpoCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  members?: boolean | FpoCountOutputTypeCountMembersArgs
+  catalogs?: boolean | FpoCountOutputTypeCountCatalogsArgs
+}
+
+/**
+ * FpoCountOutputType without action
+ */
+export type FpoCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FpoCountOutputType
+   */
+  select?: Prisma.FpoCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * FpoCountOutputType without action
+ */
+export type FpoCountOutputTypeCountMembersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.FarmerWhereInput
+}
+
+/**
+ * FpoCountOutputType without action
+ */
+export type FpoCountOutputTypeCountCatalogsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CatalogWhereInput
+}
+
+
+export type FpoSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  name?: boolean
+  providerId?: boolean
+  state?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  members?: boolean | Prisma.Fpo$membersArgs<ExtArgs>
+  catalogs?: boolean | Prisma.Fpo$catalogsArgs<ExtArgs>
+  _count?: boolean | Prisma.FpoCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["fpo"]>
+
+export type FpoSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  name?: boolean
+  providerId?: boolean
+  state?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["fpo"]>
+
+export type FpoSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  name?: boolean
+  providerId?: boolean
+  state?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["fpo"]>
+
+export type FpoSelectScalar = {
+  id?: boolean
+  name?: boolean
+  providerId?: boolean
+  state?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type FpoOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "providerId" | "state" | "createdAt" | "updatedAt", ExtArgs["result"]["fpo"]>
+export type FpoInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  members?: boolean | Prisma.Fpo$membersArgs<ExtArgs>
+  catalogs?: boolean | Prisma.Fpo$catalogsArgs<ExtArgs>
+  _count?: boolean | Prisma.FpoCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type FpoIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+export type FpoIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+
+export type $FpoPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Fpo"
+  objects: {
+    members: Prisma.$FarmerPayload<ExtArgs>[]
+    catalogs: Prisma.$CatalogPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    name: string
+    providerId: string
+    state: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["fpo"]>
+  composites: {}
+}
+
+export type FpoGetPayload<S extends boolean | null | undefined | FpoDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$FpoPayload, S>
+
+export type FpoCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<FpoFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: FpoCountAggregateInputType | true
+  }
+
+export interface FpoDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Fpo'], meta: { name: 'Fpo' } }
+  /**
+   * Find zero or one Fpo that matches the filter.
+   * @param {FpoFindUniqueArgs} args - Arguments to find a Fpo
+   * @example
+   * // Get one Fpo
+   * const fpo = await prisma.fpo.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends FpoFindUniqueArgs>(args: Prisma.SelectSubset<T, FpoFindUniqueArgs<ExtArgs>>): Prisma.Prisma__FpoClient<runtime.Types.Result.GetResult<Prisma.$FpoPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Fpo that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {FpoFindUniqueOrThrowArgs} args - Arguments to find a Fpo
+   * @example
+   * // Get one Fpo
+   * const fpo = await prisma.fpo.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends FpoFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, FpoFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__FpoClient<runtime.Types.Result.GetResult<Prisma.$FpoPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Fpo that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FpoFindFirstArgs} args - Arguments to find a Fpo
+   * @example
+   * // Get one Fpo
+   * const fpo = await prisma.fpo.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends FpoFindFirstArgs>(args?: Prisma.SelectSubset<T, FpoFindFirstArgs<ExtArgs>>): Prisma.Prisma__FpoClient<runtime.Types.Result.GetResult<Prisma.$FpoPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Fpo that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FpoFindFirstOrThrowArgs} args - Arguments to find a Fpo
+   * @example
+   * // Get one Fpo
+   * const fpo = await prisma.fpo.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends FpoFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, FpoFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__FpoClient<runtime.Types.Result.GetResult<Prisma.$FpoPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Fpos that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FpoFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Fpos
+   * const fpos = await prisma.fpo.findMany()
+   * 
+   * // Get first 10 Fpos
+   * const fpos = await prisma.fpo.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const fpoWithIdOnly = await prisma.fpo.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends FpoFindManyArgs>(args?: Prisma.SelectSubset<T, FpoFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$FpoPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Fpo.
+   * @param {FpoCreateArgs} args - Arguments to create a Fpo.
+   * @example
+   * // Create one Fpo
+   * const Fpo = await prisma.fpo.create({
+   *   data: {
+   *     // ... data to create a Fpo
+   *   }
+   * })
+   * 
+   */
+  create<T extends FpoCreateArgs>(args: Prisma.SelectSubset<T, FpoCreateArgs<ExtArgs>>): Prisma.Prisma__FpoClient<runtime.Types.Result.GetResult<Prisma.$FpoPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Fpos.
+   * @param {FpoCreateManyArgs} args - Arguments to create many Fpos.
+   * @example
+   * // Create many Fpos
+   * const fpo = await prisma.fpo.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends FpoCreateManyArgs>(args?: Prisma.SelectSubset<T, FpoCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Fpos and returns the data saved in the database.
+   * @param {FpoCreateManyAndReturnArgs} args - Arguments to create many Fpos.
+   * @example
+   * // Create many Fpos
+   * const fpo = await prisma.fpo.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Fpos and only return the `id`
+   * const fpoWithIdOnly = await prisma.fpo.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends FpoCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, FpoCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$FpoPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Fpo.
+   * @param {FpoDeleteArgs} args - Arguments to delete one Fpo.
+   * @example
+   * // Delete one Fpo
+   * const Fpo = await prisma.fpo.delete({
+   *   where: {
+   *     // ... filter to delete one Fpo
+   *   }
+   * })
+   * 
+   */
+  delete<T extends FpoDeleteArgs>(args: Prisma.SelectSubset<T, FpoDeleteArgs<ExtArgs>>): Prisma.Prisma__FpoClient<runtime.Types.Result.GetResult<Prisma.$FpoPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Fpo.
+   * @param {FpoUpdateArgs} args - Arguments to update one Fpo.
+   * @example
+   * // Update one Fpo
+   * const fpo = await prisma.fpo.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends FpoUpdateArgs>(args: Prisma.SelectSubset<T, FpoUpdateArgs<ExtArgs>>): Prisma.Prisma__FpoClient<runtime.Types.Result.GetResult<Prisma.$FpoPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Fpos.
+   * @param {FpoDeleteManyArgs} args - Arguments to filter Fpos to delete.
+   * @example
+   * // Delete a few Fpos
+   * const { count } = await prisma.fpo.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends FpoDeleteManyArgs>(args?: Prisma.SelectSubset<T, FpoDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Fpos.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FpoUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Fpos
+   * const fpo = await prisma.fpo.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends FpoUpdateManyArgs>(args: Prisma.SelectSubset<T, FpoUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Fpos and returns the data updated in the database.
+   * @param {FpoUpdateManyAndReturnArgs} args - Arguments to update many Fpos.
+   * @example
+   * // Update many Fpos
+   * const fpo = await prisma.fpo.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Fpos and only return the `id`
+   * const fpoWithIdOnly = await prisma.fpo.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends FpoUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, FpoUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$FpoPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Fpo.
+   * @param {FpoUpsertArgs} args - Arguments to update or create a Fpo.
+   * @example
+   * // Update or create a Fpo
+   * const fpo = await prisma.fpo.upsert({
+   *   create: {
+   *     // ... data to create a Fpo
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Fpo we want to update
+   *   }
+   * })
+   */
+  upsert<T extends FpoUpsertArgs>(args: Prisma.SelectSubset<T, FpoUpsertArgs<ExtArgs>>): Prisma.Prisma__FpoClient<runtime.Types.Result.GetResult<Prisma.$FpoPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Fpos.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FpoCountArgs} args - Arguments to filter Fpos to count.
+   * @example
+   * // Count the number of Fpos
+   * const count = await prisma.fpo.count({
+   *   where: {
+   *     // ... the filter for the Fpos we want to count
+   *   }
+   * })
+  **/
+  count<T extends FpoCountArgs>(
+    args?: Prisma.Subset<T, FpoCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], FpoCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Fpo.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FpoAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends FpoAggregateArgs>(args: Prisma.Subset<T, FpoAggregateArgs>): Prisma.PrismaPromise<GetFpoAggregateType<T>>
+
+  /**
+   * Group by Fpo.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FpoGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends FpoGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: FpoGroupByArgs['orderBy'] }
+      : { orderBy?: FpoGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, FpoGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetFpoGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Fpo model
+ */
+readonly fields: FpoFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Fpo.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__FpoClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  members<T extends Prisma.Fpo$membersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Fpo$membersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$FarmerPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  catalogs<T extends Prisma.Fpo$catalogsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Fpo$catalogsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CatalogPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Fpo model
+ */
+export interface FpoFieldRefs {
+  readonly id: Prisma.FieldRef<"Fpo", 'String'>
+  readonly name: Prisma.FieldRef<"Fpo", 'String'>
+  readonly providerId: Prisma.FieldRef<"Fpo", 'String'>
+  readonly state: Prisma.FieldRef<"Fpo", 'String'>
+  readonly createdAt: Prisma.FieldRef<"Fpo", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"Fpo", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Fpo findUnique
+ */
+export type FpoFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Fpo
+   */
+  select?: Prisma.FpoSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Fpo
+   */
+  omit?: Prisma.FpoOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FpoInclude<ExtArgs> | null
+  /**
+   * Filter, which Fpo to fetch.
+   */
+  where: Prisma.FpoWhereUniqueInput
+}
+
+/**
+ * Fpo findUniqueOrThrow
+ */
+export type FpoFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Fpo
+   */
+  select?: Prisma.FpoSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Fpo
+   */
+  omit?: Prisma.FpoOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FpoInclude<ExtArgs> | null
+  /**
+   * Filter, which Fpo to fetch.
+   */
+  where: Prisma.FpoWhereUniqueInput
+}
+
+/**
+ * Fpo findFirst
+ */
+export type FpoFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Fpo
+   */
+  select?: Prisma.FpoSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Fpo
+   */
+  omit?: Prisma.FpoOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FpoInclude<ExtArgs> | null
+  /**
+   * Filter, which Fpo to fetch.
+   */
+  where?: Prisma.FpoWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Fpos to fetch.
+   */
+  orderBy?: Prisma.FpoOrderByWithRelationInput | Prisma.FpoOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Fpos.
+   */
+  cursor?: Prisma.FpoWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Fpos from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Fpos.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Fpos.
+   */
+  distinct?: Prisma.FpoScalarFieldEnum | Prisma.FpoScalarFieldEnum[]
+}
+
+/**
+ * Fpo findFirstOrThrow
+ */
+export type FpoFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Fpo
+   */
+  select?: Prisma.FpoSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Fpo
+   */
+  omit?: Prisma.FpoOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FpoInclude<ExtArgs> | null
+  /**
+   * Filter, which Fpo to fetch.
+   */
+  where?: Prisma.FpoWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Fpos to fetch.
+   */
+  orderBy?: Prisma.FpoOrderByWithRelationInput | Prisma.FpoOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Fpos.
+   */
+  cursor?: Prisma.FpoWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Fpos from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Fpos.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Fpos.
+   */
+  distinct?: Prisma.FpoScalarFieldEnum | Prisma.FpoScalarFieldEnum[]
+}
+
+/**
+ * Fpo findMany
+ */
+export type FpoFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Fpo
+   */
+  select?: Prisma.FpoSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Fpo
+   */
+  omit?: Prisma.FpoOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FpoInclude<ExtArgs> | null
+  /**
+   * Filter, which Fpos to fetch.
+   */
+  where?: Prisma.FpoWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Fpos to fetch.
+   */
+  orderBy?: Prisma.FpoOrderByWithRelationInput | Prisma.FpoOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Fpos.
+   */
+  cursor?: Prisma.FpoWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Fpos from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Fpos.
+   */
+  skip?: number
+  distinct?: Prisma.FpoScalarFieldEnum | Prisma.FpoScalarFieldEnum[]
+}
+
+/**
+ * Fpo create
+ */
+export type FpoCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Fpo
+   */
+  select?: Prisma.FpoSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Fpo
+   */
+  omit?: Prisma.FpoOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FpoInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Fpo.
+   */
+  data: Prisma.XOR<Prisma.FpoCreateInput, Prisma.FpoUncheckedCreateInput>
+}
+
+/**
+ * Fpo createMany
+ */
+export type FpoCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Fpos.
+   */
+  data: Prisma.FpoCreateManyInput | Prisma.FpoCreateManyInput[]
+}
+
+/**
+ * Fpo createManyAndReturn
+ */
+export type FpoCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Fpo
+   */
+  select?: Prisma.FpoSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Fpo
+   */
+  omit?: Prisma.FpoOmit<ExtArgs> | null
+  /**
+   * The data used to create many Fpos.
+   */
+  data: Prisma.FpoCreateManyInput | Prisma.FpoCreateManyInput[]
+}
+
+/**
+ * Fpo update
+ */
+export type FpoUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Fpo
+   */
+  select?: Prisma.FpoSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Fpo
+   */
+  omit?: Prisma.FpoOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FpoInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Fpo.
+   */
+  data: Prisma.XOR<Prisma.FpoUpdateInput, Prisma.FpoUncheckedUpdateInput>
+  /**
+   * Choose, which Fpo to update.
+   */
+  where: Prisma.FpoWhereUniqueInput
+}
+
+/**
+ * Fpo updateMany
+ */
+export type FpoUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Fpos.
+   */
+  data: Prisma.XOR<Prisma.FpoUpdateManyMutationInput, Prisma.FpoUncheckedUpdateManyInput>
+  /**
+   * Filter which Fpos to update
+   */
+  where?: Prisma.FpoWhereInput
+  /**
+   * Limit how many Fpos to update.
+   */
+  limit?: number
+}
+
+/**
+ * Fpo updateManyAndReturn
+ */
+export type FpoUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Fpo
+   */
+  select?: Prisma.FpoSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Fpo
+   */
+  omit?: Prisma.FpoOmit<ExtArgs> | null
+  /**
+   * The data used to update Fpos.
+   */
+  data: Prisma.XOR<Prisma.FpoUpdateManyMutationInput, Prisma.FpoUncheckedUpdateManyInput>
+  /**
+   * Filter which Fpos to update
+   */
+  where?: Prisma.FpoWhereInput
+  /**
+   * Limit how many Fpos to update.
+   */
+  limit?: number
+}
+
+/**
+ * Fpo upsert
+ */
+export type FpoUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Fpo
+   */
+  select?: Prisma.FpoSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Fpo
+   */
+  omit?: Prisma.FpoOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FpoInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Fpo to update in case it exists.
+   */
+  where: Prisma.FpoWhereUniqueInput
+  /**
+   * In case the Fpo found by the `where` argument doesn't exist, create a new Fpo with this data.
+   */
+  create: Prisma.XOR<Prisma.FpoCreateInput, Prisma.FpoUncheckedCreateInput>
+  /**
+   * In case the Fpo was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.FpoUpdateInput, Prisma.FpoUncheckedUpdateInput>
+}
+
+/**
+ * Fpo delete
+ */
+export type FpoDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Fpo
+   */
+  select?: Prisma.FpoSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Fpo
+   */
+  omit?: Prisma.FpoOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FpoInclude<ExtArgs> | null
+  /**
+   * Filter which Fpo to delete.
+   */
+  where: Prisma.FpoWhereUniqueInput
+}
+
+/**
+ * Fpo deleteMany
+ */
+export type FpoDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Fpos to delete
+   */
+  where?: Prisma.FpoWhereInput
+  /**
+   * Limit how many Fpos to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Fpo.members
+ */
+export type Fpo$membersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Farmer
+   */
+  select?: Prisma.FarmerSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Farmer
+   */
+  omit?: Prisma.FarmerOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FarmerInclude<ExtArgs> | null
+  where?: Prisma.FarmerWhereInput
+  orderBy?: Prisma.FarmerOrderByWithRelationInput | Prisma.FarmerOrderByWithRelationInput[]
+  cursor?: Prisma.FarmerWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.FarmerScalarFieldEnum | Prisma.FarmerScalarFieldEnum[]
+}
+
+/**
+ * Fpo.catalogs
+ */
+export type Fpo$catalogsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Catalog
+   */
+  select?: Prisma.CatalogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Catalog
+   */
+  omit?: Prisma.CatalogOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CatalogInclude<ExtArgs> | null
+  where?: Prisma.CatalogWhereInput
+  orderBy?: Prisma.CatalogOrderByWithRelationInput | Prisma.CatalogOrderByWithRelationInput[]
+  cursor?: Prisma.CatalogWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CatalogScalarFieldEnum | Prisma.CatalogScalarFieldEnum[]
+}
+
+/**
+ * Fpo without action
+ */
+export type FpoDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Fpo
+   */
+  select?: Prisma.FpoSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Fpo
+   */
+  omit?: Prisma.FpoOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FpoInclude<ExtArgs> | null
+}
@@ -0,0 +1,1487 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `FulfillmentEvent` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model FulfillmentEvent
+ * 
+ */
+export type FulfillmentEventModel = runtime.Types.Result.DefaultSelection<Prisma.$FulfillmentEventPayload>
+
+export type AggregateFulfillmentEvent = {
+  _count: FulfillmentEventCountAggregateOutputType | null
+  _min: FulfillmentEventMinAggregateOutputType | null
+  _max: FulfillmentEventMaxAggregateOutputType | null
+}
+
+export type FulfillmentEventMinAggregateOutputType = {
+  id: string | null
+  orderId: string | null
+  state: $Enums.FulfillmentState | null
+  logisticsProvider: string | null
+  transactionId: string | null
+  messageId: string | null
+  source: string | null
+  occurredAt: Date | null
+  createdAt: Date | null
+}
+
+export type FulfillmentEventMaxAggregateOutputType = {
+  id: string | null
+  orderId: string | null
+  state: $Enums.FulfillmentState | null
+  logisticsProvider: string | null
+  transactionId: string | null
+  messageId: string | null
+  source: string | null
+  occurredAt: Date | null
+  createdAt: Date | null
+}
+
+export type FulfillmentEventCountAggregateOutputType = {
+  id: number
+  orderId: number
+  state: number
+  logisticsProvider: number
+  transactionId: number
+  messageId: number
+  source: number
+  occurredAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type FulfillmentEventMinAggregateInputType = {
+  id?: true
+  orderId?: true
+  state?: true
+  logisticsProvider?: true
+  transactionId?: true
+  messageId?: true
+  source?: true
+  occurredAt?: true
+  createdAt?: true
+}
+
+export type FulfillmentEventMaxAggregateInputType = {
+  id?: true
+  orderId?: true
+  state?: true
+  logisticsProvider?: true
+  transactionId?: true
+  messageId?: true
+  source?: true
+  occurredAt?: true
+  createdAt?: true
+}
+
+export type FulfillmentEventCountAggregateInputType = {
+  id?: true
+  orderId?: true
+  state?: true
+  logisticsProvider?: true
+  transactionId?: true
+  messageId?: true
+  source?: true
+  occurredAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type FulfillmentEventAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which FulfillmentEvent to aggregate.
+   */
+  where?: Prisma.FulfillmentEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of FulfillmentEvents to fetch.
+   */
+  orderBy?: Prisma.FulfillmentEventOrderByWithRelationInput | Prisma.FulfillmentEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.FulfillmentEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` FulfillmentEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` FulfillmentEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned FulfillmentEvents
+  **/
+  _count?: true | FulfillmentEventCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: FulfillmentEventMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: FulfillmentEventMaxAggregateInputType
+}
+
+export type GetFulfillmentEventAggregateType<T extends FulfillmentEventAggregateArgs> = {
+      [P in keyof T & keyof AggregateFulfillmentEvent]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateFulfillmentEvent[P]>
+    : Prisma.GetScalarType<T[P], AggregateFulfillmentEvent[P]>
+}
+
+
+
+
+export type FulfillmentEventGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.FulfillmentEventWhereInput
+  orderBy?: Prisma.FulfillmentEventOrderByWithAggregationInput | Prisma.FulfillmentEventOrderByWithAggregationInput[]
+  by: Prisma.FulfillmentEventScalarFieldEnum[] | Prisma.FulfillmentEventScalarFieldEnum
+  having?: Prisma.FulfillmentEventScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: FulfillmentEventCountAggregateInputType | true
+  _min?: FulfillmentEventMinAggregateInputType
+  _max?: FulfillmentEventMaxAggregateInputType
+}
+
+export type FulfillmentEventGroupByOutputType = {
+  id: string
+  orderId: string
+  state: $Enums.FulfillmentState
+  logisticsProvider: string | null
+  transactionId: string | null
+  messageId: string | null
+  source: string
+  occurredAt: Date
+  createdAt: Date
+  _count: FulfillmentEventCountAggregateOutputType | null
+  _min: FulfillmentEventMinAggregateOutputType | null
+  _max: FulfillmentEventMaxAggregateOutputType | null
+}
+
+type GetFulfillmentEventGroupByPayload<T extends FulfillmentEventGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<FulfillmentEventGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof FulfillmentEventGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], FulfillmentEventGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], FulfillmentEventGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type FulfillmentEventWhereInput = {
+  AND?: Prisma.FulfillmentEventWhereInput | Prisma.FulfillmentEventWhereInput[]
+  OR?: Prisma.FulfillmentEventWhereInput[]
+  NOT?: Prisma.FulfillmentEventWhereInput | Prisma.FulfillmentEventWhereInput[]
+  id?: Prisma.StringFilter<"FulfillmentEvent"> | string
+  orderId?: Prisma.StringFilter<"FulfillmentEvent"> | string
+  state?: Prisma.EnumFulfillmentStateFilter<"FulfillmentEvent"> | $Enums.FulfillmentState
+  logisticsProvider?: Prisma.StringNullableFilter<"FulfillmentEvent"> | string | null
+  transactionId?: Prisma.StringNullableFilter<"FulfillmentEvent"> | string | null
+  messageId?: Prisma.StringNullableFilter<"FulfillmentEvent"> | string | null
+  source?: Prisma.StringFilter<"FulfillmentEvent"> | string
+  occurredAt?: Prisma.DateTimeFilter<"FulfillmentEvent"> | Date | string
+  createdAt?: Prisma.DateTimeFilter<"FulfillmentEvent"> | Date | string
+  order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
+}
+
+export type FulfillmentEventOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  state?: Prisma.SortOrder
+  logisticsProvider?: Prisma.SortOrderInput | Prisma.SortOrder
+  transactionId?: Prisma.SortOrderInput | Prisma.SortOrder
+  messageId?: Prisma.SortOrderInput | Prisma.SortOrder
+  source?: Prisma.SortOrder
+  occurredAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  order?: Prisma.OrderOrderByWithRelationInput
+}
+
+export type FulfillmentEventWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  orderId_state?: Prisma.FulfillmentEventOrderIdStateCompoundUniqueInput
+  AND?: Prisma.FulfillmentEventWhereInput | Prisma.FulfillmentEventWhereInput[]
+  OR?: Prisma.FulfillmentEventWhereInput[]
+  NOT?: Prisma.FulfillmentEventWhereInput | Prisma.FulfillmentEventWhereInput[]
+  orderId?: Prisma.StringFilter<"FulfillmentEvent"> | string
+  state?: Prisma.EnumFulfillmentStateFilter<"FulfillmentEvent"> | $Enums.FulfillmentState
+  logisticsProvider?: Prisma.StringNullableFilter<"FulfillmentEvent"> | string | null
+  transactionId?: Prisma.StringNullableFilter<"FulfillmentEvent"> | string | null
+  messageId?: Prisma.StringNullableFilter<"FulfillmentEvent"> | string | null
+  source?: Prisma.StringFilter<"FulfillmentEvent"> | string
+  occurredAt?: Prisma.DateTimeFilter<"FulfillmentEvent"> | Date | string
+  createdAt?: Prisma.DateTimeFilter<"FulfillmentEvent"> | Date | string
+  order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
+}, "id" | "orderId_state">
+
+export type FulfillmentEventOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  state?: Prisma.SortOrder
+  logisticsProvider?: Prisma.SortOrderInput | Prisma.SortOrder
+  transactionId?: Prisma.SortOrderInput | Prisma.SortOrder
+  messageId?: Prisma.SortOrderInput | Prisma.SortOrder
+  source?: Prisma.SortOrder
+  occurredAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.FulfillmentEventCountOrderByAggregateInput
+  _max?: Prisma.FulfillmentEventMaxOrderByAggregateInput
+  _min?: Prisma.FulfillmentEventMinOrderByAggregateInput
+}
+
+export type FulfillmentEventScalarWhereWithAggregatesInput = {
+  AND?: Prisma.FulfillmentEventScalarWhereWithAggregatesInput | Prisma.FulfillmentEventScalarWhereWithAggregatesInput[]
+  OR?: Prisma.FulfillmentEventScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.FulfillmentEventScalarWhereWithAggregatesInput | Prisma.FulfillmentEventScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"FulfillmentEvent"> | string
+  orderId?: Prisma.StringWithAggregatesFilter<"FulfillmentEvent"> | string
+  state?: Prisma.EnumFulfillmentStateWithAggregatesFilter<"FulfillmentEvent"> | $Enums.FulfillmentState
+  logisticsProvider?: Prisma.StringNullableWithAggregatesFilter<"FulfillmentEvent"> | string | null
+  transactionId?: Prisma.StringNullableWithAggregatesFilter<"FulfillmentEvent"> | string | null
+  messageId?: Prisma.StringNullableWithAggregatesFilter<"FulfillmentEvent"> | string | null
+  source?: Prisma.StringWithAggregatesFilter<"FulfillmentEvent"> | string
+  occurredAt?: Prisma.DateTimeWithAggregatesFilter<"FulfillmentEvent"> | Date | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"FulfillmentEvent"> | Date | string
+}
+
+export type FulfillmentEventCreateInput = {
+  id?: string
+  state: $Enums.FulfillmentState
+  logisticsProvider?: string | null
+  transactionId?: string | null
+  messageId?: string | null
+  source: string
+  occurredAt: Date | string
+  createdAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutFulfillmentEventsInput
+}
+
+export type FulfillmentEventUncheckedCreateInput = {
+  id?: string
+  orderId: string
+  state: $Enums.FulfillmentState
+  logisticsProvider?: string | null
+  transactionId?: string | null
+  messageId?: string | null
+  source: string
+  occurredAt: Date | string
+  createdAt?: Date | string
+}
+
+export type FulfillmentEventUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  state?: Prisma.EnumFulfillmentStateFieldUpdateOperationsInput | $Enums.FulfillmentState
+  logisticsProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutFulfillmentEventsNestedInput
+}
+
+export type FulfillmentEventUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  state?: Prisma.EnumFulfillmentStateFieldUpdateOperationsInput | $Enums.FulfillmentState
+  logisticsProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type FulfillmentEventCreateManyInput = {
+  id?: string
+  orderId: string
+  state: $Enums.FulfillmentState
+  logisticsProvider?: string | null
+  transactionId?: string | null
+  messageId?: string | null
+  source: string
+  occurredAt: Date | string
+  createdAt?: Date | string
+}
+
+export type FulfillmentEventUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  state?: Prisma.EnumFulfillmentStateFieldUpdateOperationsInput | $Enums.FulfillmentState
+  logisticsProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type FulfillmentEventUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  state?: Prisma.EnumFulfillmentStateFieldUpdateOperationsInput | $Enums.FulfillmentState
+  logisticsProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type FulfillmentEventListRelationFilter = {
+  every?: Prisma.FulfillmentEventWhereInput
+  some?: Prisma.FulfillmentEventWhereInput
+  none?: Prisma.FulfillmentEventWhereInput
+}
+
+export type FulfillmentEventOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type FulfillmentEventOrderIdStateCompoundUniqueInput = {
+  orderId: string
+  state: $Enums.FulfillmentState
+}
+
+export type FulfillmentEventCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  state?: Prisma.SortOrder
+  logisticsProvider?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  messageId?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  occurredAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type FulfillmentEventMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  state?: Prisma.SortOrder
+  logisticsProvider?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  messageId?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  occurredAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type FulfillmentEventMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  state?: Prisma.SortOrder
+  logisticsProvider?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  messageId?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  occurredAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type FulfillmentEventCreateNestedManyWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.FulfillmentEventCreateWithoutOrderInput, Prisma.FulfillmentEventUncheckedCreateWithoutOrderInput> | Prisma.FulfillmentEventCreateWithoutOrderInput[] | Prisma.FulfillmentEventUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.FulfillmentEventCreateOrConnectWithoutOrderInput | Prisma.FulfillmentEventCreateOrConnectWithoutOrderInput[]
+  createMany?: Prisma.FulfillmentEventCreateManyOrderInputEnvelope
+  connect?: Prisma.FulfillmentEventWhereUniqueInput | Prisma.FulfillmentEventWhereUniqueInput[]
+}
+
+export type FulfillmentEventUncheckedCreateNestedManyWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.FulfillmentEventCreateWithoutOrderInput, Prisma.FulfillmentEventUncheckedCreateWithoutOrderInput> | Prisma.FulfillmentEventCreateWithoutOrderInput[] | Prisma.FulfillmentEventUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.FulfillmentEventCreateOrConnectWithoutOrderInput | Prisma.FulfillmentEventCreateOrConnectWithoutOrderInput[]
+  createMany?: Prisma.FulfillmentEventCreateManyOrderInputEnvelope
+  connect?: Prisma.FulfillmentEventWhereUniqueInput | Prisma.FulfillmentEventWhereUniqueInput[]
+}
+
+export type FulfillmentEventUpdateManyWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.FulfillmentEventCreateWithoutOrderInput, Prisma.FulfillmentEventUncheckedCreateWithoutOrderInput> | Prisma.FulfillmentEventCreateWithoutOrderInput[] | Prisma.FulfillmentEventUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.FulfillmentEventCreateOrConnectWithoutOrderInput | Prisma.FulfillmentEventCreateOrConnectWithoutOrderInput[]
+  upsert?: Prisma.FulfillmentEventUpsertWithWhereUniqueWithoutOrderInput | Prisma.FulfillmentEventUpsertWithWhereUniqueWithoutOrderInput[]
+  createMany?: Prisma.FulfillmentEventCreateManyOrderInputEnvelope
+  set?: Prisma.FulfillmentEventWhereUniqueInput | Prisma.FulfillmentEventWhereUniqueInput[]
+  disconnect?: Prisma.FulfillmentEventWhereUniqueInput | Prisma.FulfillmentEventWhereUniqueInput[]
+  delete?: Prisma.FulfillmentEventWhereUniqueInput | Prisma.FulfillmentEventWhereUniqueInput[]
+  connect?: Prisma.FulfillmentEventWhereUniqueInput | Prisma.FulfillmentEventWhereUniqueInput[]
+  update?: Prisma.FulfillmentEventUpdateWithWhereUniqueWithoutOrderInput | Prisma.FulfillmentEventUpdateWithWhereUniqueWithoutOrderInput[]
+  updateMany?: Prisma.FulfillmentEventUpdateManyWithWhereWithoutOrderInput | Prisma.FulfillmentEventUpdateManyWithWhereWithoutOrderInput[]
+  deleteMany?: Prisma.FulfillmentEventScalarWhereInput | Prisma.FulfillmentEventScalarWhereInput[]
+}
+
+export type FulfillmentEventUncheckedUpdateManyWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.FulfillmentEventCreateWithoutOrderInput, Prisma.FulfillmentEventUncheckedCreateWithoutOrderInput> | Prisma.FulfillmentEventCreateWithoutOrderInput[] | Prisma.FulfillmentEventUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.FulfillmentEventCreateOrConnectWithoutOrderInput | Prisma.FulfillmentEventCreateOrConnectWithoutOrderInput[]
+  upsert?: Prisma.FulfillmentEventUpsertWithWhereUniqueWithoutOrderInput | Prisma.FulfillmentEventUpsertWithWhereUniqueWithoutOrderInput[]
+  createMany?: Prisma.FulfillmentEventCreateManyOrderInputEnvelope
+  set?: Prisma.FulfillmentEventWhereUniqueInput | Prisma.FulfillmentEventWhereUniqueInput[]
+  disconnect?: Prisma.FulfillmentEventWhereUniqueInput | Prisma.FulfillmentEventWhereUniqueInput[]
+  delete?: Prisma.FulfillmentEventWhereUniqueInput | Prisma.FulfillmentEventWhereUniqueInput[]
+  connect?: Prisma.FulfillmentEventWhereUniqueInput | Prisma.FulfillmentEventWhereUniqueInput[]
+  update?: Prisma.FulfillmentEventUpdateWithWhereUniqueWithoutOrderInput | Prisma.FulfillmentEventUpdateWithWhereUniqueWithoutOrderInput[]
+  updateMany?: Prisma.FulfillmentEventUpdateManyWithWhereWithoutOrderInput | Prisma.FulfillmentEventUpdateManyWithWhereWithoutOrderInput[]
+  deleteMany?: Prisma.FulfillmentEventScalarWhereInput | Prisma.FulfillmentEventScalarWhereInput[]
+}
+
+export type EnumFulfillmentStateFieldUpdateOperationsInput = {
+  set?: $Enums.FulfillmentState
+}
+
+export type FulfillmentEventCreateWithoutOrderInput = {
+  id?: string
+  state: $Enums.FulfillmentState
+  logisticsProvider?: string | null
+  transactionId?: string | null
+  messageId?: string | null
+  source: string
+  occurredAt: Date | string
+  createdAt?: Date | string
+}
+
+export type FulfillmentEventUncheckedCreateWithoutOrderInput = {
+  id?: string
+  state: $Enums.FulfillmentState
+  logisticsProvider?: string | null
+  transactionId?: string | null
+  messageId?: string | null
+  source: string
+  occurredAt: Date | string
+  createdAt?: Date | string
+}
+
+export type FulfillmentEventCreateOrConnectWithoutOrderInput = {
+  where: Prisma.FulfillmentEventWhereUniqueInput
+  create: Prisma.XOR<Prisma.FulfillmentEventCreateWithoutOrderInput, Prisma.FulfillmentEventUncheckedCreateWithoutOrderInput>
+}
+
+export type FulfillmentEventCreateManyOrderInputEnvelope = {
+  data: Prisma.FulfillmentEventCreateManyOrderInput | Prisma.FulfillmentEventCreateManyOrderInput[]
+}
+
+export type FulfillmentEventUpsertWithWhereUniqueWithoutOrderInput = {
+  where: Prisma.FulfillmentEventWhereUniqueInput
+  update: Prisma.XOR<Prisma.FulfillmentEventUpdateWithoutOrderInput, Prisma.FulfillmentEventUncheckedUpdateWithoutOrderInput>
+  create: Prisma.XOR<Prisma.FulfillmentEventCreateWithoutOrderInput, Prisma.FulfillmentEventUncheckedCreateWithoutOrderInput>
+}
+
+export type FulfillmentEventUpdateWithWhereUniqueWithoutOrderInput = {
+  where: Prisma.FulfillmentEventWhereUniqueInput
+  data: Prisma.XOR<Prisma.FulfillmentEventUpdateWithoutOrderInput, Prisma.FulfillmentEventUncheckedUpdateWithoutOrderInput>
+}
+
+export type FulfillmentEventUpdateManyWithWhereWithoutOrderInput = {
+  where: Prisma.FulfillmentEventScalarWhereInput
+  data: Prisma.XOR<Prisma.FulfillmentEventUpdateManyMutationInput, Prisma.FulfillmentEventUncheckedUpdateManyWithoutOrderInput>
+}
+
+export type FulfillmentEventScalarWhereInput = {
+  AND?: Prisma.FulfillmentEventScalarWhereInput | Prisma.FulfillmentEventScalarWhereInput[]
+  OR?: Prisma.FulfillmentEventScalarWhereInput[]
+  NOT?: Prisma.FulfillmentEventScalarWhereInput | Prisma.FulfillmentEventScalarWhereInput[]
+  id?: Prisma.StringFilter<"FulfillmentEvent"> | string
+  orderId?: Prisma.StringFilter<"FulfillmentEvent"> | string
+  state?: Prisma.EnumFulfillmentStateFilter<"FulfillmentEvent"> | $Enums.FulfillmentState
+  logisticsProvider?: Prisma.StringNullableFilter<"FulfillmentEvent"> | string | null
+  transactionId?: Prisma.StringNullableFilter<"FulfillmentEvent"> | string | null
+  messageId?: Prisma.StringNullableFilter<"FulfillmentEvent"> | string | null
+  source?: Prisma.StringFilter<"FulfillmentEvent"> | string
+  occurredAt?: Prisma.DateTimeFilter<"FulfillmentEvent"> | Date | string
+  createdAt?: Prisma.DateTimeFilter<"FulfillmentEvent"> | Date | string
+}
+
+export type FulfillmentEventCreateManyOrderInput = {
+  id?: string
+  state: $Enums.FulfillmentState
+  logisticsProvider?: string | null
+  transactionId?: string | null
+  messageId?: string | null
+  source: string
+  occurredAt: Date | string
+  createdAt?: Date | string
+}
+
+export type FulfillmentEventUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  state?: Prisma.EnumFulfillmentStateFieldUpdateOperationsInput | $Enums.FulfillmentState
+  logisticsProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type FulfillmentEventUncheckedUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  state?: Prisma.EnumFulfillmentStateFieldUpdateOperationsInput | $Enums.FulfillmentState
+  logisticsProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type FulfillmentEventUncheckedUpdateManyWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  state?: Prisma.EnumFulfillmentStateFieldUpdateOperationsInput | $Enums.FulfillmentState
+  logisticsProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  messageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type FulfillmentEventSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  orderId?: boolean
+  state?: boolean
+  logisticsProvider?: boolean
+  transactionId?: boolean
+  messageId?: boolean
+  source?: boolean
+  occurredAt?: boolean
+  createdAt?: boolean
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["fulfillmentEvent"]>
+
+export type FulfillmentEventSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  orderId?: boolean
+  state?: boolean
+  logisticsProvider?: boolean
+  transactionId?: boolean
+  messageId?: boolean
+  source?: boolean
+  occurredAt?: boolean
+  createdAt?: boolean
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["fulfillmentEvent"]>
+
+export type FulfillmentEventSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  orderId?: boolean
+  state?: boolean
+  logisticsProvider?: boolean
+  transactionId?: boolean
+  messageId?: boolean
+  source?: boolean
+  occurredAt?: boolean
+  createdAt?: boolean
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["fulfillmentEvent"]>
+
+export type FulfillmentEventSelectScalar = {
+  id?: boolean
+  orderId?: boolean
+  state?: boolean
+  logisticsProvider?: boolean
+  transactionId?: boolean
+  messageId?: boolean
+  source?: boolean
+  occurredAt?: boolean
+  createdAt?: boolean
+}
+
+export type FulfillmentEventOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "orderId" | "state" | "logisticsProvider" | "transactionId" | "messageId" | "source" | "occurredAt" | "createdAt", ExtArgs["result"]["fulfillmentEvent"]>
+export type FulfillmentEventInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+}
+export type FulfillmentEventIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+}
+export type FulfillmentEventIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+}
+
+export type $FulfillmentEventPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "FulfillmentEvent"
+  objects: {
+    order: Prisma.$OrderPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    orderId: string
+    state: $Enums.FulfillmentState
+    logisticsProvider: string | null
+    transactionId: string | null
+    messageId: string | null
+    source: string
+    occurredAt: Date
+    createdAt: Date
+  }, ExtArgs["result"]["fulfillmentEvent"]>
+  composites: {}
+}
+
+export type FulfillmentEventGetPayload<S extends boolean | null | undefined | FulfillmentEventDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$FulfillmentEventPayload, S>
+
+export type FulfillmentEventCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<FulfillmentEventFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: FulfillmentEventCountAggregateInputType | true
+  }
+
+export interface FulfillmentEventDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['FulfillmentEvent'], meta: { name: 'FulfillmentEvent' } }
+  /**
+   * Find zero or one FulfillmentEvent that matches the filter.
+   * @param {FulfillmentEventFindUniqueArgs} args - Arguments to find a FulfillmentEvent
+   * @example
+   * // Get one FulfillmentEvent
+   * const fulfillmentEvent = await prisma.fulfillmentEvent.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends FulfillmentEventFindUniqueArgs>(args: Prisma.SelectSubset<T, FulfillmentEventFindUniqueArgs<ExtArgs>>): Prisma.Prisma__FulfillmentEventClient<runtime.Types.Result.GetResult<Prisma.$FulfillmentEventPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one FulfillmentEvent that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {FulfillmentEventFindUniqueOrThrowArgs} args - Arguments to find a FulfillmentEvent
+   * @example
+   * // Get one FulfillmentEvent
+   * const fulfillmentEvent = await prisma.fulfillmentEvent.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends FulfillmentEventFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, FulfillmentEventFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__FulfillmentEventClient<runtime.Types.Result.GetResult<Prisma.$FulfillmentEventPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first FulfillmentEvent that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FulfillmentEventFindFirstArgs} args - Arguments to find a FulfillmentEvent
+   * @example
+   * // Get one FulfillmentEvent
+   * const fulfillmentEvent = await prisma.fulfillmentEvent.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends FulfillmentEventFindFirstArgs>(args?: Prisma.SelectSubset<T, FulfillmentEventFindFirstArgs<ExtArgs>>): Prisma.Prisma__FulfillmentEventClient<runtime.Types.Result.GetResult<Prisma.$FulfillmentEventPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first FulfillmentEvent that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FulfillmentEventFindFirstOrThrowArgs} args - Arguments to find a FulfillmentEvent
+   * @example
+   * // Get one FulfillmentEvent
+   * const fulfillmentEvent = await prisma.fulfillmentEvent.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends FulfillmentEventFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, FulfillmentEventFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__FulfillmentEventClient<runtime.Types.Result.GetResult<Prisma.$FulfillmentEventPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more FulfillmentEvents that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FulfillmentEventFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all FulfillmentEvents
+   * const fulfillmentEvents = await prisma.fulfillmentEvent.findMany()
+   * 
+   * // Get first 10 FulfillmentEvents
+   * const fulfillmentEvents = await prisma.fulfillmentEvent.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const fulfillmentEventWithIdOnly = await prisma.fulfillmentEvent.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends FulfillmentEventFindManyArgs>(args?: Prisma.SelectSubset<T, FulfillmentEventFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$FulfillmentEventPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a FulfillmentEvent.
+   * @param {FulfillmentEventCreateArgs} args - Arguments to create a FulfillmentEvent.
+   * @example
+   * // Create one FulfillmentEvent
+   * const FulfillmentEvent = await prisma.fulfillmentEvent.create({
+   *   data: {
+   *     // ... data to create a FulfillmentEvent
+   *   }
+   * })
+   * 
+   */
+  create<T extends FulfillmentEventCreateArgs>(args: Prisma.SelectSubset<T, FulfillmentEventCreateArgs<ExtArgs>>): Prisma.Prisma__FulfillmentEventClient<runtime.Types.Result.GetResult<Prisma.$FulfillmentEventPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many FulfillmentEvents.
+   * @param {FulfillmentEventCreateManyArgs} args - Arguments to create many FulfillmentEvents.
+   * @example
+   * // Create many FulfillmentEvents
+   * const fulfillmentEvent = await prisma.fulfillmentEvent.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends FulfillmentEventCreateManyArgs>(args?: Prisma.SelectSubset<T, FulfillmentEventCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many FulfillmentEvents and returns the data saved in the database.
+   * @param {FulfillmentEventCreateManyAndReturnArgs} args - Arguments to create many FulfillmentEvents.
+   * @example
+   * // Create many FulfillmentEvents
+   * const fulfillmentEvent = await prisma.fulfillmentEvent.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many FulfillmentEvents and only return the `id`
+   * const fulfillmentEventWithIdOnly = await prisma.fulfillmentEvent.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends FulfillmentEventCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, FulfillmentEventCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$FulfillmentEventPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a FulfillmentEvent.
+   * @param {FulfillmentEventDeleteArgs} args - Arguments to delete one FulfillmentEvent.
+   * @example
+   * // Delete one FulfillmentEvent
+   * const FulfillmentEvent = await prisma.fulfillmentEvent.delete({
+   *   where: {
+   *     // ... filter to delete one FulfillmentEvent
+   *   }
+   * })
+   * 
+   */
+  delete<T extends FulfillmentEventDeleteArgs>(args: Prisma.SelectSubset<T, FulfillmentEventDeleteArgs<ExtArgs>>): Prisma.Prisma__FulfillmentEventClient<runtime.Types.Result.GetResult<Prisma.$FulfillmentEventPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one FulfillmentEvent.
+   * @param {FulfillmentEventUpdateArgs} args - Arguments to update one FulfillmentEvent.
+   * @example
+   * // Update one FulfillmentEvent
+   * const fulfillmentEvent = await prisma.fulfillmentEvent.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends FulfillmentEventUpdateArgs>(args: Prisma.SelectSubset<T, FulfillmentEventUpdateArgs<ExtArgs>>): Prisma.Prisma__FulfillmentEventClient<runtime.Types.Result.GetResult<Prisma.$FulfillmentEventPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more FulfillmentEvents.
+   * @param {FulfillmentEventDeleteManyArgs} args - Arguments to filter FulfillmentEvents to delete.
+   * @example
+   * // Delete a few FulfillmentEvents
+   * const { count } = await prisma.fulfillmentEvent.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends FulfillmentEventDeleteManyArgs>(args?: Prisma.SelectSubset<T, FulfillmentEventDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more FulfillmentEvents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FulfillmentEventUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many FulfillmentEvents
+   * const fulfillmentEvent = await prisma.fulfillmentEvent.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends FulfillmentEventUpdateManyArgs>(args: Prisma.SelectSubset<T, FulfillmentEventUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more FulfillmentEvents and returns the data updated in the database.
+   * @param {FulfillmentEventUpdateManyAndReturnArgs} args - Arguments to update many FulfillmentEvents.
+   * @example
+   * // Update many FulfillmentEvents
+   * const fulfillmentEvent = await prisma.fulfillmentEvent.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more FulfillmentEvents and only return the `id`
+   * const fulfillmentEventWithIdOnly = await prisma.fulfillmentEvent.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends FulfillmentEventUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, FulfillmentEventUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$FulfillmentEventPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one FulfillmentEvent.
+   * @param {FulfillmentEventUpsertArgs} args - Arguments to update or create a FulfillmentEvent.
+   * @example
+   * // Update or create a FulfillmentEvent
+   * const fulfillmentEvent = await prisma.fulfillmentEvent.upsert({
+   *   create: {
+   *     // ... data to create a FulfillmentEvent
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the FulfillmentEvent we want to update
+   *   }
+   * })
+   */
+  upsert<T extends FulfillmentEventUpsertArgs>(args: Prisma.SelectSubset<T, FulfillmentEventUpsertArgs<ExtArgs>>): Prisma.Prisma__FulfillmentEventClient<runtime.Types.Result.GetResult<Prisma.$FulfillmentEventPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of FulfillmentEvents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FulfillmentEventCountArgs} args - Arguments to filter FulfillmentEvents to count.
+   * @example
+   * // Count the number of FulfillmentEvents
+   * const count = await prisma.fulfillmentEvent.count({
+   *   where: {
+   *     // ... the filter for the FulfillmentEvents we want to count
+   *   }
+   * })
+  **/
+  count<T extends FulfillmentEventCountArgs>(
+    args?: Prisma.Subset<T, FulfillmentEventCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], FulfillmentEventCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a FulfillmentEvent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FulfillmentEventAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends FulfillmentEventAggregateArgs>(args: Prisma.Subset<T, FulfillmentEventAggregateArgs>): Prisma.PrismaPromise<GetFulfillmentEventAggregateType<T>>
+
+  /**
+   * Group by FulfillmentEvent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FulfillmentEventGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends FulfillmentEventGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: FulfillmentEventGroupByArgs['orderBy'] }
+      : { orderBy?: FulfillmentEventGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, FulfillmentEventGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetFulfillmentEventGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the FulfillmentEvent model
+ */
+readonly fields: FulfillmentEventFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for FulfillmentEvent.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__FulfillmentEventClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  order<T extends Prisma.OrderDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderDefaultArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the FulfillmentEvent model
+ */
+export interface FulfillmentEventFieldRefs {
+  readonly id: Prisma.FieldRef<"FulfillmentEvent", 'String'>
+  readonly orderId: Prisma.FieldRef<"FulfillmentEvent", 'String'>
+  readonly state: Prisma.FieldRef<"FulfillmentEvent", 'FulfillmentState'>
+  readonly logisticsProvider: Prisma.FieldRef<"FulfillmentEvent", 'String'>
+  readonly transactionId: Prisma.FieldRef<"FulfillmentEvent", 'String'>
+  readonly messageId: Prisma.FieldRef<"FulfillmentEvent", 'String'>
+  readonly source: Prisma.FieldRef<"FulfillmentEvent", 'String'>
+  readonly occurredAt: Prisma.FieldRef<"FulfillmentEvent", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"FulfillmentEvent", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * FulfillmentEvent findUnique
+ */
+export type FulfillmentEventFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FulfillmentEvent
+   */
+  select?: Prisma.FulfillmentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FulfillmentEvent
+   */
+  omit?: Prisma.FulfillmentEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FulfillmentEventInclude<ExtArgs> | null
+  /**
+   * Filter, which FulfillmentEvent to fetch.
+   */
+  where: Prisma.FulfillmentEventWhereUniqueInput
+}
+
+/**
+ * FulfillmentEvent findUniqueOrThrow
+ */
+export type FulfillmentEventFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FulfillmentEvent
+   */
+  select?: Prisma.FulfillmentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FulfillmentEvent
+   */
+  omit?: Prisma.FulfillmentEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FulfillmentEventInclude<ExtArgs> | null
+  /**
+   * Filter, which FulfillmentEvent to fetch.
+   */
+  where: Prisma.FulfillmentEventWhereUniqueInput
+}
+
+/**
+ * FulfillmentEvent findFirst
+ */
+export type FulfillmentEventFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FulfillmentEvent
+   */
+  select?: Prisma.FulfillmentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FulfillmentEvent
+   */
+  omit?: Prisma.FulfillmentEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FulfillmentEventInclude<ExtArgs> | null
+  /**
+   * Filter, which FulfillmentEvent to fetch.
+   */
+  where?: Prisma.FulfillmentEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of FulfillmentEvents to fetch.
+   */
+  orderBy?: Prisma.FulfillmentEventOrderByWithRelationInput | Prisma.FulfillmentEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for FulfillmentEvents.
+   */
+  cursor?: Prisma.FulfillmentEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` FulfillmentEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` FulfillmentEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of FulfillmentEvents.
+   */
+  distinct?: Prisma.FulfillmentEventScalarFieldEnum | Prisma.FulfillmentEventScalarFieldEnum[]
+}
+
+/**
+ * FulfillmentEvent findFirstOrThrow
+ */
+export type FulfillmentEventFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FulfillmentEvent
+   */
+  select?: Prisma.FulfillmentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FulfillmentEvent
+   */
+  omit?: Prisma.FulfillmentEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FulfillmentEventInclude<ExtArgs> | null
+  /**
+   * Filter, which FulfillmentEvent to fetch.
+   */
+  where?: Prisma.FulfillmentEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of FulfillmentEvents to fetch.
+   */
+  orderBy?: Prisma.FulfillmentEventOrderByWithRelationInput | Prisma.FulfillmentEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for FulfillmentEvents.
+   */
+  cursor?: Prisma.FulfillmentEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` FulfillmentEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` FulfillmentEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of FulfillmentEvents.
+   */
+  distinct?: Prisma.FulfillmentEventScalarFieldEnum | Prisma.FulfillmentEventScalarFieldEnum[]
+}
+
+/**
+ * FulfillmentEvent findMany
+ */
+export type FulfillmentEventFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FulfillmentEvent
+   */
+  select?: Prisma.FulfillmentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FulfillmentEvent
+   */
+  omit?: Prisma.FulfillmentEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FulfillmentEventInclude<ExtArgs> | null
+  /**
+   * Filter, which FulfillmentEvents to fetch.
+   */
+  where?: Prisma.FulfillmentEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of FulfillmentEvents to fetch.
+   */
+  orderBy?: Prisma.FulfillmentEventOrderByWithRelationInput | Prisma.FulfillmentEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing FulfillmentEvents.
+   */
+  cursor?: Prisma.FulfillmentEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` FulfillmentEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` FulfillmentEvents.
+   */
+  skip?: number
+  distinct?: Prisma.FulfillmentEventScalarFieldEnum | Prisma.FulfillmentEventScalarFieldEnum[]
+}
+
+/**
+ * FulfillmentEvent create
+ */
+export type FulfillmentEventCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FulfillmentEvent
+   */
+  select?: Prisma.FulfillmentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FulfillmentEvent
+   */
+  omit?: Prisma.FulfillmentEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FulfillmentEventInclude<ExtArgs> | null
+  /**
+   * The data needed to create a FulfillmentEvent.
+   */
+  data: Prisma.XOR<Prisma.FulfillmentEventCreateInput, Prisma.FulfillmentEventUncheckedCreateInput>
+}
+
+/**
+ * FulfillmentEvent createMany
+ */
+export type FulfillmentEventCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many FulfillmentEvents.
+   */
+  data: Prisma.FulfillmentEventCreateManyInput | Prisma.FulfillmentEventCreateManyInput[]
+}
+
+/**
+ * FulfillmentEvent createManyAndReturn
+ */
+export type FulfillmentEventCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FulfillmentEvent
+   */
+  select?: Prisma.FulfillmentEventSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the FulfillmentEvent
+   */
+  omit?: Prisma.FulfillmentEventOmit<ExtArgs> | null
+  /**
+   * The data used to create many FulfillmentEvents.
+   */
+  data: Prisma.FulfillmentEventCreateManyInput | Prisma.FulfillmentEventCreateManyInput[]
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FulfillmentEventIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * FulfillmentEvent update
+ */
+export type FulfillmentEventUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FulfillmentEvent
+   */
+  select?: Prisma.FulfillmentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FulfillmentEvent
+   */
+  omit?: Prisma.FulfillmentEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FulfillmentEventInclude<ExtArgs> | null
+  /**
+   * The data needed to update a FulfillmentEvent.
+   */
+  data: Prisma.XOR<Prisma.FulfillmentEventUpdateInput, Prisma.FulfillmentEventUncheckedUpdateInput>
+  /**
+   * Choose, which FulfillmentEvent to update.
+   */
+  where: Prisma.FulfillmentEventWhereUniqueInput
+}
+
+/**
+ * FulfillmentEvent updateMany
+ */
+export type FulfillmentEventUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update FulfillmentEvents.
+   */
+  data: Prisma.XOR<Prisma.FulfillmentEventUpdateManyMutationInput, Prisma.FulfillmentEventUncheckedUpdateManyInput>
+  /**
+   * Filter which FulfillmentEvents to update
+   */
+  where?: Prisma.FulfillmentEventWhereInput
+  /**
+   * Limit how many FulfillmentEvents to update.
+   */
+  limit?: number
+}
+
+/**
+ * FulfillmentEvent updateManyAndReturn
+ */
+export type FulfillmentEventUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FulfillmentEvent
+   */
+  select?: Prisma.FulfillmentEventSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the FulfillmentEvent
+   */
+  omit?: Prisma.FulfillmentEventOmit<ExtArgs> | null
+  /**
+   * The data used to update FulfillmentEvents.
+   */
+  data: Prisma.XOR<Prisma.FulfillmentEventUpdateManyMutationInput, Prisma.FulfillmentEventUncheckedUpdateManyInput>
+  /**
+   * Filter which FulfillmentEvents to update
+   */
+  where?: Prisma.FulfillmentEventWhereInput
+  /**
+   * Limit how many FulfillmentEvents to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FulfillmentEventIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * FulfillmentEvent upsert
+ */
+export type FulfillmentEventUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FulfillmentEvent
+   */
+  select?: Prisma.FulfillmentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FulfillmentEvent
+   */
+  omit?: Prisma.FulfillmentEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FulfillmentEventInclude<ExtArgs> | null
+  /**
+   * The filter to search for the FulfillmentEvent to update in case it exists.
+   */
+  where: Prisma.FulfillmentEventWhereUniqueInput
+  /**
+   * In case the FulfillmentEvent found by the `where` argument doesn't exist, create a new FulfillmentEvent with this data.
+   */
+  create: Prisma.XOR<Prisma.FulfillmentEventCreateInput, Prisma.FulfillmentEventUncheckedCreateInput>
+  /**
+   * In case the FulfillmentEvent was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.FulfillmentEventUpdateInput, Prisma.FulfillmentEventUncheckedUpdateInput>
+}
+
+/**
+ * FulfillmentEvent delete
+ */
+export type FulfillmentEventDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FulfillmentEvent
+   */
+  select?: Prisma.FulfillmentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FulfillmentEvent
+   */
+  omit?: Prisma.FulfillmentEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FulfillmentEventInclude<ExtArgs> | null
+  /**
+   * Filter which FulfillmentEvent to delete.
+   */
+  where: Prisma.FulfillmentEventWhereUniqueInput
+}
+
+/**
+ * FulfillmentEvent deleteMany
+ */
+export type FulfillmentEventDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which FulfillmentEvents to delete
+   */
+  where?: Prisma.FulfillmentEventWhereInput
+  /**
+   * Limit how many FulfillmentEvents to delete.
+   */
+  limit?: number
+}
+
+/**
+ * FulfillmentEvent without action
+ */
+export type FulfillmentEventDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FulfillmentEvent
+   */
+  select?: Prisma.FulfillmentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FulfillmentEvent
+   */
+  omit?: Prisma.FulfillmentEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FulfillmentEventInclude<ExtArgs> | null
+}
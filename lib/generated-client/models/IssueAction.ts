@@ -0,0 +1,1446 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `IssueAction` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model IssueAction
+ * 
+ */
+export type IssueActionModel = runtime.Types.Result.DefaultSelection<Prisma.$IssueActionPayload>
+
+export type AggregateIssueAction = {
+  _count: IssueActionCountAggregateOutputType | null
+  _min: IssueActionMinAggregateOutputType | null
+  _max: IssueActionMaxAggregateOutputType | null
+}
+
+export type IssueActionMinAggregateOutputType = {
+  id: string | null
+  issueId: string | null
+  party: $Enums.IssueParty | null
+  action: $Enums.IssueActionCode | null
+  level: $Enums.IssueLevel | null
+  shortDesc: string | null
+  source: string | null
+  createdAt: Date | null
+}
+
+export type IssueActionMaxAggregateOutputType = {
+  id: string | null
+  issueId: string | null
+  party: $Enums.IssueParty | null
+  action: $Enums.IssueActionCode | null
+  level: $Enums.IssueLevel | null
+  shortDesc: string | null
+  source: string | null
+  createdAt: Date | null
+}
+
+export type IssueActionCountAggregateOutputType = {
+  id: number
+  issueId: number
+  party: number
+  action: number
+  level: number
+  shortDesc: number
+  source: number
+  createdAt: number
+  _all: number
+}
+
+
+export type IssueActionMinAggregateInputType = {
+  id?: true
+  issueId?: true
+  party?: true
+  action?: true
+  level?: true
+  shortDesc?: true
+  source?: true
+  createdAt?: true
+}
+
+export type IssueActionMaxAggregateInputType = {
+  id?: true
+  issueId?: true
+  party?: true
+  action?: true
+  level?: true
+  shortDesc?: true
+  source?: true
+  createdAt?: true
+}
+
+export type IssueActionCountAggregateInputType = {
+  id?: true
+  issueId?: true
+  party?: true
+  action?: true
+  level?: true
+  shortDesc?: true
+  source?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type IssueActionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which IssueAction to aggregate.
+   */
+  where?: Prisma.IssueActionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of IssueActions to fetch.
+   */
+  orderBy?: Prisma.IssueActionOrderByWithRelationInput | Prisma.IssueActionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.IssueActionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` IssueActions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` IssueActions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned IssueActions
+  **/
+  _count?: true | IssueActionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: IssueActionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: IssueActionMaxAggregateInputType
+}
+
+export type GetIssueActionAggregateType<T extends IssueActionAggregateArgs> = {
+      [P in keyof T & keyof AggregateIssueAction]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateIssueAction[P]>
+    : Prisma.GetScalarType<T[P], AggregateIssueAction[P]>
+}
+
+
+
+
+export type IssueActionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.IssueActionWhereInput
+  orderBy?: Prisma.IssueActionOrderByWithAggregationInput | Prisma.IssueActionOrderByWithAggregationInput[]
+  by: Prisma.IssueActionScalarFieldEnum[] | Prisma.IssueActionScalarFieldEnum
+  having?: Prisma.IssueActionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: IssueActionCountAggregateInputType | true
+  _min?: IssueActionMinAggregateInputType
+  _max?: IssueActionMaxAggregateInputType
+}
+
+export type IssueActionGroupByOutputType = {
+  id: string
+  issueId: string
+  party: $Enums.IssueParty
+  action: $Enums.IssueActionCode
+  level: $Enums.IssueLevel
+  shortDesc: string | null
+  source: string
+  createdAt: Date
+  _count: IssueActionCountAggregateOutputType | null
+  _min: IssueActionMinAggregateOutputType | null
+  _max: IssueActionMaxAggregateOutputType | null
+}
+
+type GetIssueActionGroupByPayload<T extends IssueActionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<IssueActionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof IssueActionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], IssueActionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], IssueActionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type IssueActionWhereInput = {
+  AND?: Prisma.IssueActionWhereInput | Prisma.IssueActionWhereInput[]
+  OR?: Prisma.IssueActionWhereInput[]
+  NOT?: Prisma.IssueActionWhereInput | Prisma.IssueActionWhereInput[]
+  id?: Prisma.StringFilter<"IssueAction"> | string
+  issueId?: Prisma.StringFilter<"IssueAction"> | string
+  party?: Prisma.EnumIssuePartyFilter<"IssueAction"> | $Enums.IssueParty
+  action?: Prisma.EnumIssueActionCodeFilter<"IssueAction"> | $Enums.IssueActionCode
+  level?: Prisma.EnumIssueLevelFilter<"IssueAction"> | $Enums.IssueLevel
+  shortDesc?: Prisma.StringNullableFilter<"IssueAction"> | string | null
+  source?: Prisma.StringFilter<"IssueAction"> | string
+  createdAt?: Prisma.DateTimeFilter<"IssueAction"> | Date | string
+  issue?: Prisma.XOR<Prisma.IssueScalarRelationFilter, Prisma.IssueWhereInput>
+}
+
+export type IssueActionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  issueId?: Prisma.SortOrder
+  party?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  level?: Prisma.SortOrder
+  shortDesc?: Prisma.SortOrderInput | Prisma.SortOrder
+  source?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  issue?: Prisma.IssueOrderByWithRelationInput
+}
+
+export type IssueActionWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.IssueActionWhereInput | Prisma.IssueActionWhereInput[]
+  OR?: Prisma.IssueActionWhereInput[]
+  NOT?: Prisma.IssueActionWhereInput | Prisma.IssueActionWhereInput[]
+  issueId?: Prisma.StringFilter<"IssueAction"> | string
+  party?: Prisma.EnumIssuePartyFilter<"IssueAction"> | $Enums.IssueParty
+  action?: Prisma.EnumIssueActionCodeFilter<"IssueAction"> | $Enums.IssueActionCode
+  level?: Prisma.EnumIssueLevelFilter<"IssueAction"> | $Enums.IssueLevel
+  shortDesc?: Prisma.StringNullableFilter<"IssueAction"> | string | null
+  source?: Prisma.StringFilter<"IssueAction"> | string
+  createdAt?: Prisma.DateTimeFilter<"IssueAction"> | Date | string
+  issue?: Prisma.XOR<Prisma.IssueScalarRelationFilter, Prisma.IssueWhereInput>
+}, "id">
+
+export type IssueActionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  issueId?: Prisma.SortOrder
+  party?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  level?: Prisma.SortOrder
+  shortDesc?: Prisma.SortOrderInput | Prisma.SortOrder
+  source?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.IssueActionCountOrderByAggregateInput
+  _max?: Prisma.IssueActionMaxOrderByAggregateInput
+  _min?: Prisma.IssueActionMinOrderByAggregateInput
+}
+
+export type IssueActionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.IssueActionScalarWhereWithAggregatesInput | Prisma.IssueActionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.IssueActionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.IssueActionScalarWhereWithAggregatesInput | Prisma.IssueActionScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"IssueAction"> | string
+  issueId?: Prisma.StringWithAggregatesFilter<"IssueAction"> | string
+  party?: Prisma.EnumIssuePartyWithAggregatesFilter<"IssueAction"> | $Enums.IssueParty
+  action?: Prisma.EnumIssueActionCodeWithAggregatesFilter<"IssueAction"> | $Enums.IssueActionCode
+  level?: Prisma.EnumIssueLevelWithAggregatesFilter<"IssueAction"> | $Enums.IssueLevel
+  shortDesc?: Prisma.StringNullableWithAggregatesFilter<"IssueAction"> | string | null
+  source?: Prisma.StringWithAggregatesFilter<"IssueAction"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"IssueAction"> | Date | string
+}
+
+export type IssueActionCreateInput = {
+  id?: string
+  party: $Enums.IssueParty
+  action: $Enums.IssueActionCode
+  level: $Enums.IssueLevel
+  shortDesc?: string | null
+  source: string
+  createdAt?: Date | string
+  issue: Prisma.IssueCreateNestedOneWithoutActionsInput
+}
+
+export type IssueActionUncheckedCreateInput = {
+  id?: string
+  issueId: string
+  party: $Enums.IssueParty
+  action: $Enums.IssueActionCode
+  level: $Enums.IssueLevel
+  shortDesc?: string | null
+  source: string
+  createdAt?: Date | string
+}
+
+export type IssueActionUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  party?: Prisma.EnumIssuePartyFieldUpdateOperationsInput | $Enums.IssueParty
+  action?: Prisma.EnumIssueActionCodeFieldUpdateOperationsInput | $Enums.IssueActionCode
+  level?: Prisma.EnumIssueLevelFieldUpdateOperationsInput | $Enums.IssueLevel
+  shortDesc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  issue?: Prisma.IssueUpdateOneRequiredWithoutActionsNestedInput
+}
+
+export type IssueActionUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  issueId?: Prisma.StringFieldUpdateOperationsInput | string
+  party?: Prisma.EnumIssuePartyFieldUpdateOperationsInput | $Enums.IssueParty
+  action?: Prisma.EnumIssueActionCodeFieldUpdateOperationsInput | $Enums.IssueActionCode
+  level?: Prisma.EnumIssueLevelFieldUpdateOperationsInput | $Enums.IssueLevel
+  shortDesc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type IssueActionCreateManyInput = {
+  id?: string
+  issueId: string
+  party: $Enums.IssueParty
+  action: $Enums.IssueActionCode
+  level: $Enums.IssueLevel
+  shortDesc?: string | null
+  source: string
+  createdAt?: Date | string
+}
+
+export type IssueActionUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  party?: Prisma.EnumIssuePartyFieldUpdateOperationsInput | $Enums.IssueParty
+  action?: Prisma.EnumIssueActionCodeFieldUpdateOperationsInput | $Enums.IssueActionCode
+  level?: Prisma.EnumIssueLevelFieldUpdateOperationsInput | $Enums.IssueLevel
+  shortDesc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type IssueActionUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  issueId?: Prisma.StringFieldUpdateOperationsInput | string
+  party?: Prisma.EnumIssuePartyFieldUpdateOperationsInput | $Enums.IssueParty
+  action?: Prisma.EnumIssueActionCodeFieldUpdateOperationsInput | $Enums.IssueActionCode
+  level?: Prisma.EnumIssueLevelFieldUpdateOperationsInput | $Enums.IssueLevel
+  shortDesc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type IssueActionListRelationFilter = {
+  every?: Prisma.IssueActionWhereInput
+  some?: Prisma.IssueActionWhereInput
+  none?: Prisma.IssueActionWhereInput
+}
+
+export type IssueActionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type IssueActionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  issueId?: Prisma.SortOrder
+  party?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  level?: Prisma.SortOrder
+  shortDesc?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type IssueActionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  issueId?: Prisma.SortOrder
+  party?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  level?: Prisma.SortOrder
+  shortDesc?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type IssueActionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  issueId?: Prisma.SortOrder
+  party?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  level?: Prisma.SortOrder
+  shortDesc?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type IssueActionCreateNestedManyWithoutIssueInput = {
+  create?: Prisma.XOR<Prisma.IssueActionCreateWithoutIssueInput, Prisma.IssueActionUncheckedCreateWithoutIssueInput> | Prisma.IssueActionCreateWithoutIssueInput[] | Prisma.IssueActionUncheckedCreateWithoutIssueInput[]
+  connectOrCreate?: Prisma.IssueActionCreateOrConnectWithoutIssueInput | Prisma.IssueActionCreateOrConnectWithoutIssueInput[]
+  createMany?: Prisma.IssueActionCreateManyIssueInputEnvelope
+  connect?: Prisma.IssueActionWhereUniqueInput | Prisma.IssueActionWhereUniqueInput[]
+}
+
+export type IssueActionUncheckedCreateNestedManyWithoutIssueInput = {
+  create?: Prisma.XOR<Prisma.IssueActionCreateWithoutIssueInput, Prisma.IssueActionUncheckedCreateWithoutIssueInput> | Prisma.IssueActionCreateWithoutIssueInput[] | Prisma.IssueActionUncheckedCreateWithoutIssueInput[]
+  connectOrCreate?: Prisma.IssueActionCreateOrConnectWithoutIssueInput | Prisma.IssueActionCreateOrConnectWithoutIssueInput[]
+  createMany?: Prisma.IssueActionCreateManyIssueInputEnvelope
+  connect?: Prisma.IssueActionWhereUniqueInput | Prisma.IssueActionWhereUniqueInput[]
+}
+
+export type IssueActionUpdateManyWithoutIssueNestedInput = {
+  create?: Prisma.XOR<Prisma.IssueActionCreateWithoutIssueInput, Prisma.IssueActionUncheckedCreateWithoutIssueInput> | Prisma.IssueActionCreateWithoutIssueInput[] | Prisma.IssueActionUncheckedCreateWithoutIssueInput[]
+  connectOrCreate?: Prisma.IssueActionCreateOrConnectWithoutIssueInput | Prisma.IssueActionCreateOrConnectWithoutIssueInput[]
+  upsert?: Prisma.IssueActionUpsertWithWhereUniqueWithoutIssueInput | Prisma.IssueActionUpsertWithWhereUniqueWithoutIssueInput[]
+  createMany?: Prisma.IssueActionCreateManyIssueInputEnvelope
+  set?: Prisma.IssueActionWhereUniqueInput | Prisma.IssueActionWhereUniqueInput[]
+  disconnect?: Prisma.IssueActionWhereUniqueInput | Prisma.IssueActionWhereUniqueInput[]
+  delete?: Prisma.IssueActionWhereUniqueInput | Prisma.IssueActionWhereUniqueInput[]
+  connect?: Prisma.IssueActionWhereUniqueInput | Prisma.IssueActionWhereUniqueInput[]
+  update?: Prisma.IssueActionUpdateWithWhereUniqueWithoutIssueInput | Prisma.IssueActionUpdateWithWhereUniqueWithoutIssueInput[]
+  updateMany?: Prisma.IssueActionUpdateManyWithWhereWithoutIssueInput | Prisma.IssueActionUpdateManyWithWhereWithoutIssueInput[]
+  deleteMany?: Prisma.IssueActionScalarWhereInput | Prisma.IssueActionScalarWhereInput[]
+}
+
+export type IssueActionUncheckedUpdateManyWithoutIssueNestedInput = {
+  create?: Prisma.XOR<Prisma.IssueActionCreateWithoutIssueInput, Prisma.IssueActionUncheckedCreateWithoutIssueInput> | Prisma.IssueActionCreateWithoutIssueInput[] | Prisma.IssueActionUncheckedCreateWithoutIssueInput[]
+  connectOrCreate?: Prisma.IssueActionCreateOrConnectWithoutIssueInput | Prisma.IssueActionCreateOrConnectWithoutIssueInput[]
+  upsert?: Prisma.IssueActionUpsertWithWhereUniqueWithoutIssueInput | Prisma.IssueActionUpsertWithWhereUniqueWithoutIssueInput[]
+  createMany?: Prisma.IssueActionCreateManyIssueInputEnvelope
+  set?: Prisma.IssueActionWhereUniqueInput | Prisma.IssueActionWhereUniqueInput[]
+  disconnect?: Prisma.IssueActionWhereUniqueInput | Prisma.IssueActionWhereUniqueInput[]
+  delete?: Prisma.IssueActionWhereUniqueInput | Prisma.IssueActionWhereUniqueInput[]
+  connect?: Prisma.IssueActionWhereUniqueInput | Prisma.IssueActionWhereUniqueInput[]
+  update?: Prisma.IssueActionUpdateWithWhereUniqueWithoutIssueInput | Prisma.IssueActionUpdateWithWhereUniqueWithoutIssueInput[]
+  updateMany?: Prisma.IssueActionUpdateManyWithWhereWithoutIssueInput | Prisma.IssueActionUpdateManyWithWhereWithoutIssueInput[]
+  deleteMany?: Prisma.IssueActionScalarWhereInput | Prisma.IssueActionScalarWhereInput[]
+}
+
+export type EnumIssueActionCodeFieldUpdateOperationsInput = {
+  set?: $Enums.IssueActionCode
+}
+
+export type IssueActionCreateWithoutIssueInput = {
+  id?: string
+  party: $Enums.IssueParty
+  action: $Enums.IssueActionCode
+  level: $Enums.IssueLevel
+  shortDesc?: string | null
+  source: string
+  createdAt?: Date | string
+}
+
+export type IssueActionUncheckedCreateWithoutIssueInput = {
+  id?: string
+  party: $Enums.IssueParty
+  action: $Enums.IssueActionCode
+  level: $Enums.IssueLevel
+  shortDesc?: string | null
+  source: string
+  createdAt?: Date | string
+}
+
+export type IssueActionCreateOrConnectWithoutIssueInput = {
+  where: Prisma.IssueActionWhereUniqueInput
+  create: Prisma.XOR<Prisma.IssueActionCreateWithoutIssueInput, Prisma.IssueActionUncheckedCreateWithoutIssueInput>
+}
+
+export type IssueActionCreateManyIssueInputEnvelope = {
+  data: Prisma.IssueActionCreateManyIssueInput | Prisma.IssueActionCreateManyIssueInput[]
+}
+
+export type IssueActionUpsertWithWhereUniqueWithoutIssueInput = {
+  where: Prisma.IssueActionWhereUniqueInput
+  update: Prisma.XOR<Prisma.IssueActionUpdateWithoutIssueInput, Prisma.IssueActionUncheckedUpdateWithoutIssueInput>
+  create: Prisma.XOR<Prisma.IssueActionCreateWithoutIssueInput, Prisma.IssueActionUncheckedCreateWithoutIssueInput>
+}
+
+export type IssueActionUpdateWithWhereUniqueWithoutIssueInput = {
+  where: Prisma.IssueActionWhereUniqueInput
+  data: Prisma.XOR<Prisma.IssueActionUpdateWithoutIssueInput, Prisma.IssueActionUncheckedUpdateWithoutIssueInput>
+}
+
+export type IssueActionUpdateManyWithWhereWithoutIssueInput = {
+  where: Prisma.IssueActionScalarWhereInput
+  data: Prisma.XOR<Prisma.IssueActionUpdateManyMutationInput, Prisma.IssueActionUncheckedUpdateManyWithoutIssueInput>
+}
+
+export type IssueActionScalarWhereInput = {
+  AND?: Prisma.IssueActionScalarWhereInput | Prisma.IssueActionScalarWhereInput[]
+  OR?: Prisma.IssueActionScalarWhereInput[]
+  NOT?: Prisma.IssueActionScalarWhereInput | Prisma.IssueActionScalarWhereInput[]
+  id?: Prisma.StringFilter<"IssueAction"> | string
+  issueId?: Prisma.StringFilter<"IssueAction"> | string
+  party?: Prisma.EnumIssuePartyFilter<"IssueAction"> | $Enums.IssueParty
+  action?: Prisma.EnumIssueActionCodeFilter<"IssueAction"> | $Enums.IssueActionCode
+  level?: Prisma.EnumIssueLevelFilter<"IssueAction"> | $Enums.IssueLevel
+  shortDesc?: Prisma.StringNullableFilter<"IssueAction"> | string | null
+  source?: Prisma.StringFilter<"IssueAction"> | string
+  createdAt?: Prisma.DateTimeFilter<"IssueAction"> | Date | string
+}
+
+export type IssueActionCreateManyIssueInput = {
+  id?: string
+  party: $Enums.IssueParty
+  action: $Enums.IssueActionCode
+  level: $Enums.IssueLevel
+  shortDesc?: string | null
+  source: string
+  createdAt?: Date | string
+}
+
+export type IssueActionUpdateWithoutIssueInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  party?: Prisma.EnumIssuePartyFieldUpdateOperationsInput | $Enums.IssueParty
+  action?: Prisma.EnumIssueActionCodeFieldUpdateOperationsInput | $Enums.IssueActionCode
+  level?: Prisma.EnumIssueLevelFieldUpdateOperationsInput | $Enums.IssueLevel
+  shortDesc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type IssueActionUncheckedUpdateWithoutIssueInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  party?: Prisma.EnumIssuePartyFieldUpdateOperationsInput | $Enums.IssueParty
+  action?: Prisma.EnumIssueActionCodeFieldUpdateOperationsInput | $Enums.IssueActionCode
+  level?: Prisma.EnumIssueLevelFieldUpdateOperationsInput | $Enums.IssueLevel
+  shortDesc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type IssueActionUncheckedUpdateManyWithoutIssueInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  party?: Prisma.EnumIssuePartyFieldUpdateOperationsInput | $Enums.IssueParty
+  action?: Prisma.EnumIssueActionCodeFieldUpdateOperationsInput | $Enums.IssueActionCode
+  level?: Prisma.EnumIssueLevelFieldUpdateOperationsInput | $Enums.IssueLevel
+  shortDesc?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type IssueActionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  issueId?: boolean
+  party?: boolean
+  action?: boolean
+  level?: boolean
+  shortDesc?: boolean
+  source?: boolean
+  createdAt?: boolean
+  issue?: boolean | Prisma.IssueDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["issueAction"]>
+
+export type IssueActionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  issueId?: boolean
+  party?: boolean
+  action?: boolean
+  level?: boolean
+  shortDesc?: boolean
+  source?: boolean
+  createdAt?: boolean
+  issue?: boolean | Prisma.IssueDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["issueAction"]>
+
+export type IssueActionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  issueId?: boolean
+  party?: boolean
+  action?: boolean
+  level?: boolean
+  shortDesc?: boolean
+  source?: boolean
+  createdAt?: boolean
+  issue?: boolean | Prisma.IssueDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["issueAction"]>
+
+export type IssueActionSelectScalar = {
+  id?: boolean
+  issueId?: boolean
+  party?: boolean
+  action?: boolean
+  level?: boolean
+  shortDesc?: boolean
+  source?: boolean
+  createdAt?: boolean
+}
+
+export type IssueActionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "issueId" | "party" | "action" | "level" | "shortDesc" | "source" | "createdAt", ExtArgs["result"]["issueAction"]>
+export type IssueActionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  issue?: boolean | Prisma.IssueDefaultArgs<ExtArgs>
+}
+export type IssueActionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  issue?: boolean | Prisma.IssueDefaultArgs<ExtArgs>
+}
+export type IssueActionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  issue?: boolean | Prisma.IssueDefaultArgs<ExtArgs>
+}
+
+export type $IssueActionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "IssueAction"
+  objects: {
+    issue: Prisma.$IssuePayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    issueId: string
+    party: $Enums.IssueParty
+    action: $Enums.IssueActionCode
+    level: $Enums.IssueLevel
+    shortDesc: string | null
+    source: string
+    createdAt: Date
+  }, ExtArgs["result"]["issueAction"]>
+  composites: {}
+}
+
+export type IssueActionGetPayload<S extends boolean | null | undefined | IssueActionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$IssueActionPayload, S>
+
+export type IssueActionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<IssueActionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: IssueActionCountAggregateInputType | true
+  }
+
+export interface IssueActionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['IssueAction'], meta: { name: 'IssueAction' } }
+  /**
+   * Find zero or one IssueAction that matches the filter.
+   * @param {IssueActionFindUniqueArgs} args - Arguments to find a IssueAction
+   * @example
+   * // Get one IssueAction
+   * const issueAction = await prisma.issueAction.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends IssueActionFindUniqueArgs>(args: Prisma.SelectSubset<T, IssueActionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__IssueActionClient<runtime.Types.Result.GetResult<Prisma.$IssueActionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one IssueAction that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {IssueActionFindUniqueOrThrowArgs} args - Arguments to find a IssueAction
+   * @example
+   * // Get one IssueAction
+   * const issueAction = await prisma.issueAction.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends IssueActionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, IssueActionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__IssueActionClient<runtime.Types.Result.GetResult<Prisma.$IssueActionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first IssueAction that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IssueActionFindFirstArgs} args - Arguments to find a IssueAction
+   * @example
+   * // Get one IssueAction
+   * const issueAction = await prisma.issueAction.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends IssueActionFindFirstArgs>(args?: Prisma.SelectSubset<T, IssueActionFindFirstArgs<ExtArgs>>): Prisma.Prisma__IssueActionClient<runtime.Types.Result.GetResult<Prisma.$IssueActionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first IssueAction that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IssueActionFindFirstOrThrowArgs} args - Arguments to find a IssueAction
+   * @example
+   * // Get one IssueAction
+   * const issueAction = await prisma.issueAction.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends IssueActionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, IssueActionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__IssueActionClient<runtime.Types.Result.GetResult<Prisma.$IssueActionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more IssueActions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IssueActionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all IssueActions
+   * const issueActions = await prisma.issueAction.findMany()
+   * 
+   * // Get first 10 IssueActions
+   * const issueActions = await prisma.issueAction.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const issueActionWithIdOnly = await prisma.issueAction.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends IssueActionFindManyArgs>(args?: Prisma.SelectSubset<T, IssueActionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$IssueActionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a IssueAction.
+   * @param {IssueActionCreateArgs} args - Arguments to create a IssueAction.
+   * @example
+   * // Create one IssueAction
+   * const IssueAction = await prisma.issueAction.create({
+   *   data: {
+   *     // ... data to create a IssueAction
+   *   }
+   * })
+   * 
+   */
+  create<T extends IssueActionCreateArgs>(args: Prisma.SelectSubset<T, IssueActionCreateArgs<ExtArgs>>): Prisma.Prisma__IssueActionClient<runtime.Types.Result.GetResult<Prisma.$IssueActionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many IssueActions.
+   * @param {IssueActionCreateManyArgs} args - Arguments to create many IssueActions.
+   * @example
+   * // Create many IssueActions
+   * const issueAction = await prisma.issueAction.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends IssueActionCreateManyArgs>(args?: Prisma.SelectSubset<T, IssueActionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many IssueActions and returns the data saved in the database.
+   * @param {IssueActionCreateManyAndReturnArgs} args - Arguments to create many IssueActions.
+   * @example
+   * // Create many IssueActions
+   * const issueAction = await prisma.issueAction.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many IssueActions and only return the `id`
+   * const issueActionWithIdOnly = await prisma.issueAction.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends IssueActionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, IssueActionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$IssueActionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a IssueAction.
+   * @param {IssueActionDeleteArgs} args - Arguments to delete one IssueAction.
+   * @example
+   * // Delete one IssueAction
+   * const IssueAction = await prisma.issueAction.delete({
+   *   where: {
+   *     // ... filter to delete one IssueAction
+   *   }
+   * })
+   * 
+   */
+  delete<T extends IssueActionDeleteArgs>(args: Prisma.SelectSubset<T, IssueActionDeleteArgs<ExtArgs>>): Prisma.Prisma__IssueActionClient<runtime.Types.Result.GetResult<Prisma.$IssueActionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one IssueAction.
+   * @param {IssueActionUpdateArgs} args - Arguments to update one IssueAction.
+   * @example
+   * // Update one IssueAction
+   * const issueAction = await prisma.issueAction.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends IssueActionUpdateArgs>(args: Prisma.SelectSubset<T, IssueActionUpdateArgs<ExtArgs>>): Prisma.Prisma__IssueActionClient<runtime.Types.Result.GetResult<Prisma.$IssueActionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more IssueActions.
+   * @param {IssueActionDeleteManyArgs} args - Arguments to filter IssueActions to delete.
+   * @example
+   * // Delete a few IssueActions
+   * const { count } = await prisma.issueAction.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends IssueActionDeleteManyArgs>(args?: Prisma.SelectSubset<T, IssueActionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more IssueActions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IssueActionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many IssueActions
+   * const issueAction = await prisma.issueAction.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends IssueActionUpdateManyArgs>(args: Prisma.SelectSubset<T, IssueActionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more IssueActions and returns the data updated in the database.
+   * @param {IssueActionUpdateManyAndReturnArgs} args - Arguments to update many IssueActions.
+   * @example
+   * // Update many IssueActions
+   * const issueAction = await prisma.issueAction.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more IssueActions and only return the `id`
+   * const issueActionWithIdOnly = await prisma.issueAction.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends IssueActionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, IssueActionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$IssueActionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one IssueAction.
+   * @param {IssueActionUpsertArgs} args - Arguments to update or create a IssueAction.
+   * @example
+   * // Update or create a IssueAction
+   * const issueAction = await prisma.issueAction.upsert({
+   *   create: {
+   *     // ... data to create a IssueAction
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the IssueAction we want to update
+   *   }
+   * })
+   */
+  upsert<T extends IssueActionUpsertArgs>(args: Prisma.SelectSubset<T, IssueActionUpsertArgs<ExtArgs>>): Prisma.Prisma__IssueActionClient<runtime.Types.Result.GetResult<Prisma.$IssueActionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of IssueActions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IssueActionCountArgs} args - Arguments to filter IssueActions to count.
+   * @example
+   * // Count the number of IssueActions
+   * const count = await prisma.issueAction.count({
+   *   where: {
+   *     // ... the filter for the IssueActions we want to count
+   *   }
+   * })
+  **/
+  count<T extends IssueActionCountArgs>(
+    args?: Prisma.Subset<T, IssueActionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], IssueActionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a IssueAction.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IssueActionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends IssueActionAggregateArgs>(args: Prisma.Subset<T, IssueActionAggregateArgs>): Prisma.PrismaPromise<GetIssueActionAggregateType<T>>
+
+  /**
+   * Group by IssueAction.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IssueActionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends IssueActionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: IssueActionGroupByArgs['orderBy'] }
+      : { orderBy?: IssueActionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, IssueActionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetIssueActionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the IssueAction model
+ */
+readonly fields: IssueActionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for IssueAction.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__IssueActionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  issue<T extends Prisma.IssueDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.IssueDefaultArgs<ExtArgs>>): Prisma.Prisma__IssueClient<runtime.Types.Result.GetResult<Prisma.$IssuePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the IssueAction model
+ */
+export interface IssueActionFieldRefs {
+  readonly id: Prisma.FieldRef<"IssueAction", 'String'>
+  readonly issueId: Prisma.FieldRef<"IssueAction", 'String'>
+  readonly party: Prisma.FieldRef<"IssueAction", 'IssueParty'>
+  readonly action: Prisma.FieldRef<"IssueAction", 'IssueActionCode'>
+  readonly level: Prisma.FieldRef<"IssueAction", 'IssueLevel'>
+  readonly shortDesc: Prisma.FieldRef<"IssueAction", 'String'>
+  readonly source: Prisma.FieldRef<"IssueAction", 'String'>
+  readonly createdAt: Prisma.FieldRef<"IssueAction", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * IssueAction findUnique
+ */
+export type IssueActionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IssueAction
+   */
+  select?: Prisma.IssueActionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IssueAction
+   */
+  omit?: Prisma.IssueActionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IssueActionInclude<ExtArgs> | null
+  /**
+   * Filter, which IssueAction to fetch.
+   */
+  where: Prisma.IssueActionWhereUniqueInput
+}
+
+/**
+ * IssueAction findUniqueOrThrow
+ */
+export type IssueActionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IssueAction
+   */
+  select?: Prisma.IssueActionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IssueAction
+   */
+  omit?: Prisma.IssueActionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IssueActionInclude<ExtArgs> | null
+  /**
+   * Filter, which IssueAction to fetch.
+   */
+  where: Prisma.IssueActionWhereUniqueInput
+}
+
+/**
+ * IssueAction findFirst
+ */
+export type IssueActionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IssueAction
+   */
+  select?: Prisma.IssueActionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IssueAction
+   */
+  omit?: Prisma.IssueActionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IssueActionInclude<ExtArgs> | null
+  /**
+   * Filter, which IssueAction to fetch.
+   */
+  where?: Prisma.IssueActionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of IssueActions to fetch.
+   */
+  orderBy?: Prisma.IssueActionOrderByWithRelationInput | Prisma.IssueActionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for IssueActions.
+   */
+  cursor?: Prisma.IssueActionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` IssueActions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` IssueActions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of IssueActions.
+   */
+  distinct?: Prisma.IssueActionScalarFieldEnum | Prisma.IssueActionScalarFieldEnum[]
+}
+
+/**
+ * IssueAction findFirstOrThrow
+ */
+export type IssueActionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IssueAction
+   */
+  select?: Prisma.IssueActionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IssueAction
+   */
+  omit?: Prisma.IssueActionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IssueActionInclude<ExtArgs> | null
+  /**
+   * Filter, which IssueAction to fetch.
+   */
+  where?: Prisma.IssueActionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of IssueActions to fetch.
+   */
+  orderBy?: Prisma.IssueActionOrderByWithRelationInput | Prisma.IssueActionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for IssueActions.
+   */
+  cursor?: Prisma.IssueActionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` IssueActions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` IssueActions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of IssueActions.
+   */
+  distinct?: Prisma.IssueActionScalarFieldEnum | Prisma.IssueActionScalarFieldEnum[]
+}
+
+/**
+ * IssueAction findMany
+ */
+export type IssueActionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IssueAction
+   */
+  select?: Prisma.IssueActionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IssueAction
+   */
+  omit?: Prisma.IssueActionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IssueActionInclude<ExtArgs> | null
+  /**
+   * Filter, which IssueActions to fetch.
+   */
+  where?: Prisma.IssueActionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of IssueActions to fetch.
+   */
+  orderBy?: Prisma.IssueActionOrderByWithRelationInput | Prisma.IssueActionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing IssueActions.
+   */
+  cursor?: Prisma.IssueActionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` IssueActions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` IssueActions.
+   */
+  skip?: number
+  distinct?: Prisma.IssueActionScalarFieldEnum | Prisma.IssueActionScalarFieldEnum[]
+}
+
+/**
+ * IssueAction create
+ */
+export type IssueActionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IssueAction
+   */
+  select?: Prisma.IssueActionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IssueAction
+   */
+  omit?: Prisma.IssueActionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IssueActionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a IssueAction.
+   */
+  data: Prisma.XOR<Prisma.IssueActionCreateInput, Prisma.IssueActionUncheckedCreateInput>
+}
+
+/**
+ * IssueAction createMany
+ */
+export type IssueActionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many IssueActions.
+   */
+  data: Prisma.IssueActionCreateManyInput | Prisma.IssueActionCreateManyInput[]
+}
+
+/**
+ * IssueAction createManyAndReturn
+ */
+export type IssueActionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IssueAction
+   */
+  select?: Prisma.IssueActionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the IssueAction
+   */
+  omit?: Prisma.IssueActionOmit<ExtArgs> | null
+  /**
+   * The data used to create many IssueActions.
+   */
+  data: Prisma.IssueActionCreateManyInput | Prisma.IssueActionCreateManyInput[]
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IssueActionIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * IssueAction update
+ */
+export type IssueActionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IssueAction
+   */
+  select?: Prisma.IssueActionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IssueAction
+   */
+  omit?: Prisma.IssueActionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IssueActionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a IssueAction.
+   */
+  data: Prisma.XOR<Prisma.IssueActionUpdateInput, Prisma.IssueActionUncheckedUpdateInput>
+  /**
+   * Choose, which IssueAction to update.
+   */
+  where: Prisma.IssueActionWhereUniqueInput
+}
+
+/**
+ * IssueAction updateMany
+ */
+export type IssueActionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update IssueActions.
+   */
+  data: Prisma.XOR<Prisma.IssueActionUpdateManyMutationInput, Prisma.IssueActionUncheckedUpdateManyInput>
+  /**
+   * Filter which IssueActions to update
+   */
+  where?: Prisma.IssueActionWhereInput
+  /**
+   * Limit how many IssueActions to update.
+   */
+  limit?: number
+}
+
+/**
+ * IssueAction updateManyAndReturn
+ */
+export type IssueActionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IssueAction
+   */
+  select?: Prisma.IssueActionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the IssueAction
+   */
+  omit?: Prisma.IssueActionOmit<ExtArgs> | null
+  /**
+   * The data used to update IssueActions.
+   */
+  data: Prisma.XOR<Prisma.IssueActionUpdateManyMutationInput, Prisma.IssueActionUncheckedUpdateManyInput>
+  /**
+   * Filter which IssueActions to update
+   */
+  where?: Prisma.IssueActionWhereInput
+  /**
+   * Limit how many IssueActions to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IssueActionIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * IssueAction upsert
+ */
+export type IssueActionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IssueAction
+   */
+  select?: Prisma.IssueActionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IssueAction
+   */
+  omit?: Prisma.IssueActionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IssueActionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the IssueAction to update in case it exists.
+   */
+  where: Prisma.IssueActionWhereUniqueInput
+  /**
+   * In case the IssueAction found by the `where` argument doesn't exist, create a new IssueAction with this data.
+   */
+  create: Prisma.XOR<Prisma.IssueActionCreateInput, Prisma.IssueActionUncheckedCreateInput>
+  /**
+   * In case the IssueAction was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.IssueActionUpdateInput, Prisma.IssueActionUncheckedUpdateInput>
+}
+
+/**
+ * IssueAction delete
+ */
+export type IssueActionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IssueAction
+   */
+  select?: Prisma.IssueActionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IssueAction
+   */
+  omit?: Prisma.IssueActionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IssueActionInclude<ExtArgs> | null
+  /**
+   * Filter which IssueAction to delete.
+   */
+  where: Prisma.IssueActionWhereUniqueInput
+}
+
+/**
+ * IssueAction deleteMany
+ */
+export type IssueActionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which IssueActions to delete
+   */
+  where?: Prisma.IssueActionWhereInput
+  /**
+   * Limit how many IssueActions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * IssueAction without action
+ */
+export type IssueActionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IssueAction
+   */
+  select?: Prisma.IssueActionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IssueAction
+   */
+  omit?: Prisma.IssueActionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IssueActionInclude<ExtArgs> | null
+}
@@ -27,12 +27,16 @@ export type AggregateNetworkLog = {
 export type NetworkLogMinAggregateOutputType = {
   id: string | null
   type: $Enums.NetworkLogType | null
+  transactionId: string | null
+  catalogId: string | null
   timestamp: Date | null
 }
 
 export type NetworkLogMaxAggregateOutputType = {
   id: string | null
   type: $Enums.NetworkLogType | null
+  transactionId: string | null
+  catalogId: string | null
   timestamp: Date | null
 }
 
@@ -40,6 +44,8 @@ export type NetworkLogCountAggregateOutputType = {
   id: number
   type: number
   payload: number
+  transactionId: number
+  catalogId: number
   timestamp: number
   _all: number
 }
@@ -48,12 +54,16 @@ export type NetworkLogCountAggregateOutputType = {
 export type NetworkLogMinAggregateInputType = {
   id?: true
   type?: true
+  transactionId?: true
+  catalogId?: true
   timestamp?: true
 }
 
 export type NetworkLogMaxAggregateInputType = {
   id?: true
   type?: true
+  transactionId?: true
+  catalogId?: true
   timestamp?: true
 }
 
@@ -61,6 +71,8 @@ export type NetworkLogCountAggregateInputType = {
   id?: true
   type?: true
   payload?: true
+  transactionId?: true
+  catalogId?: true
   timestamp?: true
   _all?: true
 }
@@ -141,6 +153,8 @@ export type NetworkLogGroupByOutputType = {
   id: string
   type: $Enums.NetworkLogType
   payload: runtime.JsonValue
+  transactionId: string | null
+  catalogId: string | null
   timestamp: Date
   _count: NetworkLogCountAggregateOutputType | null
   _min: NetworkLogMinAggregateOutputType | null
@@ -169,6 +183,8 @@ export type NetworkLogWhereInput = {
   id?: Prisma.StringFilter<"NetworkLog"> | string
   type?: Prisma.EnumNetworkLogTypeFilter<"NetworkLog"> | $Enums.NetworkLogType
   payload?: Prisma.JsonFilter<"NetworkLog">
+  transactionId?: Prisma.StringNullableFilter<"NetworkLog"> | string | null
+  catalogId?: Prisma.StringNullableFilter<"NetworkLog"> | string | null
   timestamp?: Prisma.DateTimeFilter<"NetworkLog"> | Date | string
 }
 
@@ -176,6 +192,8 @@ export type NetworkLogOrderByWithRelationInput = {
   id?: Prisma.SortOrder
   type?: Prisma.SortOrder
   payload?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrderInput | Prisma.SortOrder
+  catalogId?: Prisma.SortOrderInput | Prisma.SortOrder
   timestamp?: Prisma.SortOrder
 }
 
@@ -186,6 +204,8 @@ export type NetworkLogWhereUniqueInput = Prisma.AtLeast<{
   NOT?: Prisma.NetworkLogWhereInput | Prisma.NetworkLogWhereInput[]
   type?: Prisma.EnumNetworkLogTypeFilter<"NetworkLog"> | $Enums.NetworkLogType
   payload?: Prisma.JsonFilter<"NetworkLog">
+  transactionId?: Prisma.StringNullableFilter<"NetworkLog"> | string | null
+  catalogId?: Prisma.StringNullableFilter<"NetworkLog"> | string | null
   timestamp?: Prisma.DateTimeFilter<"NetworkLog"> | Date | string
 }, "id">
 
@@ -193,6 +213,8 @@ export type NetworkLogOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
   type?: Prisma.SortOrder
   payload?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrderInput | Prisma.SortOrder
+  catalogId?: Prisma.SortOrderInput | Prisma.SortOrder
   timestamp?: Prisma.SortOrder
   _count?: Prisma.NetworkLogCountOrderByAggregateInput
   _max?: Prisma.NetworkLogMaxOrderByAggregateInput
@@ -206,6 +228,8 @@ export type NetworkLogScalarWhereWithAggregatesInput = {
   id?: Prisma.StringWithAggregatesFilter<"NetworkLog"> | string
   type?: Prisma.EnumNetworkLogTypeWithAggregatesFilter<"NetworkLog"> | $Enums.NetworkLogType
   payload?: Prisma.JsonWithAggregatesFilter<"NetworkLog">
+  transactionId?: Prisma.StringNullableWithAggregatesFilter<"NetworkLog"> | string | null
+  catalogId?: Prisma.StringNullableWithAggregatesFilter<"NetworkLog"> | string | null
   timestamp?: Prisma.DateTimeWithAggregatesFilter<"NetworkLog"> | Date | string
 }
 
@@ -213,6 +237,8 @@ export type NetworkLogCreateInput = {
   id?: string
   type: $Enums.NetworkLogType
   payload: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  transactionId?: string | null
+  catalogId?: string | null
   timestamp?: Date | string
 }
 
@@ -220,6 +246,8 @@ export type NetworkLogUncheckedCreateInput = {
   id?: string
   type: $Enums.NetworkLogType
   payload: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  transactionId?: string | null
+  catalogId?: string | null
   timestamp?: Date | string
 }
 
@@ -227,6 +255,8 @@ export type NetworkLogUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   type?: Prisma.EnumNetworkLogTypeFieldUpdateOperationsInput | $Enums.NetworkLogType
   payload?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  catalogId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   timestamp?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -234,6 +264,8 @@ export type NetworkLogUncheckedUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   type?: Prisma.EnumNetworkLogTypeFieldUpdateOperationsInput | $Enums.NetworkLogType
   payload?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  catalogId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   timestamp?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -241,6 +273,8 @@ export type NetworkLogCreateManyInput = {
   id?: string
   type: $Enums.NetworkLogType
   payload: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  transactionId?: string | null
+  catalogId?: string | null
   timestamp?: Date | string
 }
 
@@ -248,6 +282,8 @@ export type NetworkLogUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   type?: Prisma.EnumNetworkLogTypeFieldUpdateOperationsInput | $Enums.NetworkLogType
   payload?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  catalogId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   timestamp?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -255,6 +291,8 @@ export type NetworkLogUncheckedUpdateManyInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   type?: Prisma.EnumNetworkLogTypeFieldUpdateOperationsInput | $Enums.NetworkLogType
   payload?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  catalogId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   timestamp?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -262,18 +300,24 @@ export type NetworkLogCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   type?: Prisma.SortOrder
   payload?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  catalogId?: Prisma.SortOrder
   timestamp?: Prisma.SortOrder
 }
 
 export type NetworkLogMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
   type?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  catalogId?: Prisma.SortOrder
   timestamp?: Prisma.SortOrder
 }
 
 export type NetworkLogMinOrderByAggregateInput = {
   id?: Prisma.SortOrder
   type?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  catalogId?: Prisma.SortOrder
   timestamp?: Prisma.SortOrder
 }
 
@@ -287,6 +331,8 @@ export type NetworkLogSelect<ExtArgs extends runtime.Types.Extensions.InternalAr
   id?: boolean
   type?: boolean
   payload?: boolean
+  transactionId?: boolean
+  catalogId?: boolean
   timestamp?: boolean
 }, ExtArgs["result"]["networkLog"]>
 
@@ -294,6 +340,8 @@ export type NetworkLogSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Ex
   id?: boolean
   type?: boolean
   payload?: boolean
+  transactionId?: boolean
+  catalogId?: boolean
   timestamp?: boolean
 }, ExtArgs["result"]["networkLog"]>
 
@@ -301,6 +349,8 @@ export type NetworkLogSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Ex
   id?: boolean
   type?: boolean
   payload?: boolean
+  transactionId?: boolean
+  catalogId?: boolean
   timestamp?: boolean
 }, ExtArgs["result"]["networkLog"]>
 
@@ -308,10 +358,12 @@ export type NetworkLogSelectScalar = {
   id?: boolean
   type?: boolean
   payload?: boolean
+  transactionId?: boolean
+  catalogId?: boolean
   timestamp?: boolean
 }
 
-export type NetworkLogOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "type" | "payload" | "timestamp", ExtArgs["result"]["networkLog"]>
+export type NetworkLogOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "type" | "payload" | "transactionId" | "catalogId" | "timestamp", ExtArgs["result"]["networkLog"]>
 
 export type $NetworkLogPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   name: "NetworkLog"
@@ -320,6 +372,8 @@ export type $NetworkLogPayload<ExtArgs extends runtime.Types.Extensions.Internal
     id: string
     type: $Enums.NetworkLogType
     payload: runtime.JsonValue
+    transactionId: string | null
+    catalogId: string | null
     timestamp: Date
   }, ExtArgs["result"]["networkLog"]>
   composites: {}
@@ -747,6 +801,8 @@ export interface NetworkLogFieldRefs {
   readonly id: Prisma.FieldRef<"NetworkLog", 'String'>
   readonly type: Prisma.FieldRef<"NetworkLog", 'NetworkLogType'>
   readonly payload: Prisma.FieldRef<"NetworkLog", 'Json'>
+  readonly transactionId: Prisma.FieldRef<"NetworkLog", 'String'>
+  readonly catalogId: Prisma.FieldRef<"NetworkLog", 'String'>
   readonly timestamp: Prisma.FieldRef<"NetworkLog", 'DateTime'>
 }
     
@@ -0,0 +1,2851 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `Order` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model Order
+ * 
+ */
+export type OrderModel = runtime.Types.Result.DefaultSelection<Prisma.$OrderPayload>
+
+export type AggregateOrder = {
+  _count: OrderCountAggregateOutputType | null
+  _avg: OrderAvgAggregateOutputType | null
+  _sum: OrderSumAggregateOutputType | null
+  _min: OrderMinAggregateOutputType | null
+  _max: OrderMaxAggregateOutputType | null
+}
+
+export type OrderAvgAggregateOutputType = {
+  pricePerUnit: number | null
+  quantity: number | null
+  totalAmount: number | null
+  deliveryDays: number | null
+}
+
+export type OrderSumAggregateOutputType = {
+  pricePerUnit: number | null
+  quantity: number | null
+  totalAmount: number | null
+  deliveryDays: number | null
+}
+
+export type OrderMinAggregateOutputType = {
+  id: string | null
+  catalogId: string | null
+  farmerId: string | null
+  bidId: string | null
+  transactionId: string | null
+  buyerName: string | null
+  buyerSubscriberId: string | null
+  pricePerUnit: number | null
+  quantity: number | null
+  unit: string | null
+  totalAmount: number | null
+  currency: string | null
+  paymentTerms: string | null
+  deliveryDays: number | null
+  status: $Enums.OrderStatus | null
+  confirmedAt: Date | null
+  fulfilledAt: Date | null
+  cancelledAt: Date | null
+  cancellationReasonCode: string | null
+  cancelledBy: $Enums.CancellationInitiator | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type OrderMaxAggregateOutputType = {
+  id: string | null
+  catalogId: string | null
+  farmerId: string | null
+  bidId: string | null
+  transactionId: string | null
+  buyerName: string | null
+  buyerSubscriberId: string | null
+  pricePerUnit: number | null
+  quantity: number | null
+  unit: string | null
+  totalAmount: number | null
+  currency: string | null
+  paymentTerms: string | null
+  deliveryDays: number | null
+  status: $Enums.OrderStatus | null
+  confirmedAt: Date | null
+  fulfilledAt: Date | null
+  cancelledAt: Date | null
+  cancellationReasonCode: string | null
+  cancelledBy: $Enums.CancellationInitiator | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type OrderCountAggregateOutputType = {
+  id: number
+  catalogId: number
+  farmerId: number
+  bidId: number
+  transactionId: number
+  buyerName: number
+  buyerSubscriberId: number
+  pricePerUnit: number
+  quantity: number
+  unit: number
+  totalAmount: number
+  currency: number
+  paymentTerms: number
+  deliveryDays: number
+  status: number
+  confirmedAt: number
+  fulfilledAt: number
+  cancelledAt: number
+  cancellationReasonCode: number
+  cancelledBy: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type OrderAvgAggregateInputType = {
+  pricePerUnit?: true
+  quantity?: true
+  totalAmount?: true
+  deliveryDays?: true
+}
+
+export type OrderSumAggregateInputType = {
+  pricePerUnit?: true
+  quantity?: true
+  totalAmount?: true
+  deliveryDays?: true
+}
+
+export type OrderMinAggregateInputType = {
+  id?: true
+  catalogId?: true
+  farmerId?: true
+  bidId?: true
+  transactionId?: true
+  buyerName?: true
+  buyerSubscriberId?: true
+  pricePerUnit?: true
+  quantity?: true
+  unit?: true
+  totalAmount?: true
+  currency?: true
+  paymentTerms?: true
+  deliveryDays?: true
+  status?: true
+  confirmedAt?: true
+  fulfilledAt?: true
+  cancelledAt?: true
+  cancellationReasonCode?: true
+  cancelledBy?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type OrderMaxAggregateInputType = {
+  id?: true
+  catalogId?: true
+  farmerId?: true
+  bidId?: true
+  transactionId?: true
+  buyerName?: true
+  buyerSubscriberId?: true
+  pricePerUnit?: true
+  quantity?: true
+  unit?: true
+  totalAmount?: true
+  currency?: true
+  paymentTerms?: true
+  deliveryDays?: true
+  status?: true
+  confirmedAt?: true
+  fulfilledAt?: true
+  cancelledAt?: true
+  cancellationReasonCode?: true
+  cancelledBy?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type OrderCountAggregateInputType = {
+  id?: true
+  catalogId?: true
+  farmerId?: true
+  bidId?: true
+  transactionId?: true
+  buyerName?: true
+  buyerSubscriberId?: true
+  pricePerUnit?: true
+  quantity?: true
+  unit?: true
+  totalAmount?: true
+  currency?: true
+  paymentTerms?: true
+  deliveryDays?: true
+  status?: true
+  confirmedAt?: true
+  fulfilledAt?: true
+  cancelledAt?: true
+  cancellationReasonCode?: true
+  cancelledBy?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type OrderAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Order to aggregate.
+   */
+  where?: Prisma.OrderWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Orders to fetch.
+   */
+  orderBy?: Prisma.OrderOrderByWithRelationInput | Prisma.OrderOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.OrderWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Orders from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Orders.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Orders
+  **/
+  _count?: true | OrderCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: OrderAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: OrderSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: OrderMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: OrderMaxAggregateInputType
+}
+
+export type GetOrderAggregateType<T extends OrderAggregateArgs> = {
+      [P in keyof T & keyof AggregateOrder]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateOrder[P]>
+    : Prisma.GetScalarType<T[P], AggregateOrder[P]>
+}
+
+
+
+
+export type OrderGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OrderWhereInput
+  orderBy?: Prisma.OrderOrderByWithAggregationInput | Prisma.OrderOrderByWithAggregationInput[]
+  by: Prisma.OrderScalarFieldEnum[] | Prisma.OrderScalarFieldEnum
+  having?: Prisma.OrderScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: OrderCountAggregateInputType | true
+  _avg?: OrderAvgAggregateInputType
+  _sum?: OrderSumAggregateInputType
+  _min?: OrderMinAggregateInputType
+  _max?: OrderMaxAggregateInputType
+}
+
+export type OrderGroupByOutputType = {
+  id: string
+  catalogId: string
+  farmerId: string
+  bidId: string
+  transactionId: string | null
+  buyerName: string
+  buyerSubscriberId: string | null
+  pricePerUnit: number
+  quantity: number
+  unit: string
+  totalAmount: number
+  currency: string
+  paymentTerms: string | null
+  deliveryDays: number | null
+  status: $Enums.OrderStatus
+  confirmedAt: Date | null
+  fulfilledAt: Date | null
+  cancelledAt: Date | null
+  cancellationReasonCode: string | null
+  cancelledBy: $Enums.CancellationInitiator | null
+  createdAt: Date
+  updatedAt: Date
+  _count: OrderCountAggregateOutputType | null
+  _avg: OrderAvgAggregateOutputType | null
+  _sum: OrderSumAggregateOutputType | null
+  _min: OrderMinAggregateOutputType | null
+  _max: OrderMaxAggregateOutputType | null
+}
+
+type GetOrderGroupByPayload<T extends OrderGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<OrderGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof OrderGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], OrderGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], OrderGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type OrderWhereInput = {
+  AND?: Prisma.OrderWhereInput | Prisma.OrderWhereInput[]
+  OR?: Prisma.OrderWhereInput[]
+  NOT?: Prisma.OrderWhereInput | Prisma.OrderWhereInput[]
+  id?: Prisma.StringFilter<"Order"> | string
+  catalogId?: Prisma.StringFilter<"Order"> | string
+  farmerId?: Prisma.StringFilter<"Order"> | string
+  bidId?: Prisma.StringFilter<"Order"> | string
+  transactionId?: Prisma.StringNullableFilter<"Order"> | string | null
+  buyerName?: Prisma.StringFilter<"Order"> | string
+  buyerSubscriberId?: Prisma.StringNullableFilter<"Order"> | string | null
+  pricePerUnit?: Prisma.FloatFilter<"Order"> | number
+  quantity?: Prisma.FloatFilter<"Order"> | number
+  unit?: Prisma.StringFilter<"Order"> | string
+  totalAmount?: Prisma.FloatFilter<"Order"> | number
+  currency?: Prisma.StringFilter<"Order"> | string
+  paymentTerms?: Prisma.StringNullableFilter<"Order"> | string | null
+  deliveryDays?: Prisma.IntNullableFilter<"Order"> | number | null
+  status?: Prisma.EnumOrderStatusFilter<"Order"> | $Enums.OrderStatus
+  confirmedAt?: Prisma.DateTimeNullableFilter<"Order"> | Date | string | null
+  fulfilledAt?: Prisma.DateTimeNullableFilter<"Order"> | Date | string | null
+  cancelledAt?: Prisma.DateTimeNullableFilter<"Order"> | Date | string | null
+  cancellationReasonCode?: Prisma.StringNullableFilter<"Order"> | string | null
+  cancelledBy?: Prisma.EnumCancellationInitiatorNullableFilter<"Order"> | $Enums.CancellationInitiator | null
+  createdAt?: Prisma.DateTimeFilter<"Order"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Order"> | Date | string
+  catalog?: Prisma.XOR<Prisma.CatalogScalarRelationFilter, Prisma.CatalogWhereInput>
+  farmer?: Prisma.XOR<Prisma.FarmerScalarRelationFilter, Prisma.FarmerWhereInput>
+  bid?: Prisma.XOR<Prisma.BidScalarRelationFilter, Prisma.BidWhereInput>
+  fulfillmentEvents?: Prisma.FulfillmentEventListRelationFilter
+  issues?: Prisma.IssueListRelationFilter
+}
+
+export type OrderOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  catalogId?: Prisma.SortOrder
+  farmerId?: Prisma.SortOrder
+  bidId?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrderInput | Prisma.SortOrder
+  buyerName?: Prisma.SortOrder
+  buyerSubscriberId?: Prisma.SortOrderInput | Prisma.SortOrder
+  pricePerUnit?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  unit?: Prisma.SortOrder
+  totalAmount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  paymentTerms?: Prisma.SortOrderInput | Prisma.SortOrder
+  deliveryDays?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  confirmedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  fulfilledAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  cancelledAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  cancellationReasonCode?: Prisma.SortOrderInput | Prisma.SortOrder
+  cancelledBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  catalog?: Prisma.CatalogOrderByWithRelationInput
+  farmer?: Prisma.FarmerOrderByWithRelationInput
+  bid?: Prisma.BidOrderByWithRelationInput
+  fulfillmentEvents?: Prisma.FulfillmentEventOrderByRelationAggregateInput
+  issues?: Prisma.IssueOrderByRelationAggregateInput
+}
+
+export type OrderWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.OrderWhereInput | Prisma.OrderWhereInput[]
+  OR?: Prisma.OrderWhereInput[]
+  NOT?: Prisma.OrderWhereInput | Prisma.OrderWhereInput[]
+  catalogId?: Prisma.StringFilter<"Order"> | string
+  farmerId?: Prisma.StringFilter<"Order"> | string
+  bidId?: Prisma.StringFilter<"Order"> | string
+  transactionId?: Prisma.StringNullableFilter<"Order"> | string | null
+  buyerName?: Prisma.StringFilter<"Order"> | string
+  buyerSubscriberId?: Prisma.StringNullableFilter<"Order"> | string | null
+  pricePerUnit?: Prisma.FloatFilter<"Order"> | number
+  quantity?: Prisma.FloatFilter<"Order"> | number
+  unit?: Prisma.StringFilter<"Order"> | string
+  totalAmount?: Prisma.FloatFilter<"Order"> | number
+  currency?: Prisma.StringFilter<"Order"> | string
+  paymentTerms?: Prisma.StringNullableFilter<"Order"> | string | null
+  deliveryDays?: Prisma.IntNullableFilter<"Order"> | number | null
+  status?: Prisma.EnumOrderStatusFilter<"Order"> | $Enums.OrderStatus
+  confirmedAt?: Prisma.DateTimeNullableFilter<"Order"> | Date | string | null
+  fulfilledAt?: Prisma.DateTimeNullableFilter<"Order"> | Date | string | null
+  cancelledAt?: Prisma.DateTimeNullableFilter<"Order"> | Date | string | null
+  cancellationReasonCode?: Prisma.StringNullableFilter<"Order"> | string | null
+  cancelledBy?: Prisma.EnumCancellationInitiatorNullableFilter<"Order"> | $Enums.CancellationInitiator | null
+  createdAt?: Prisma.DateTimeFilter<"Order"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Order"> | Date | string
+  catalog?: Prisma.XOR<Prisma.CatalogScalarRelationFilter, Prisma.CatalogWhereInput>
+  farmer?: Prisma.XOR<Prisma.FarmerScalarRelationFilter, Prisma.FarmerWhereInput>
+  bid?: Prisma.XOR<Prisma.BidScalarRelationFilter, Prisma.BidWhereInput>
+  fulfillmentEvents?: Prisma.FulfillmentEventListRelationFilter
+  issues?: Prisma.IssueListRelationFilter
+}, "id">
+
+export type OrderOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  catalogId?: Prisma.SortOrder
+  farmerId?: Prisma.SortOrder
+  bidId?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrderInput | Prisma.SortOrder
+  buyerName?: Prisma.SortOrder
+  buyerSubscriberId?: Prisma.SortOrderInput | Prisma.SortOrder
+  pricePerUnit?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  unit?: Prisma.SortOrder
+  totalAmount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  paymentTerms?: Prisma.SortOrderInput | Prisma.SortOrder
+  deliveryDays?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  confirmedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  fulfilledAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  cancelledAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  cancellationReasonCode?: Prisma.SortOrderInput | Prisma.SortOrder
+  cancelledBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.OrderCountOrderByAggregateInput
+  _avg?: Prisma.OrderAvgOrderByAggregateInput
+  _max?: Prisma.OrderMaxOrderByAggregateInput
+  _min?: Prisma.OrderMinOrderByAggregateInput
+  _sum?: Prisma.OrderSumOrderByAggregateInput
+}
+
+export type OrderScalarWhereWithAggregatesInput = {
+  AND?: Prisma.OrderScalarWhereWithAggregatesInput | Prisma.OrderScalarWhereWithAggregatesInput[]
+  OR?: Prisma.OrderScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.OrderScalarWhereWithAggregatesInput | Prisma.OrderScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"Order"> | string
+  catalogId?: Prisma.StringWithAggregatesFilter<"Order"> | string
+  farmerId?: Prisma.StringWithAggregatesFilter<"Order"> | string
+  bidId?: Prisma.StringWithAggregatesFilter<"Order"> | string
+  transactionId?: Prisma.StringNullableWithAggregatesFilter<"Order"> | string | null
+  buyerName?: Prisma.StringWithAggregatesFilter<"Order"> | string
+  buyerSubscriberId?: Prisma.StringNullableWithAggregatesFilter<"Order"> | string | null
+  pricePerUnit?: Prisma.FloatWithAggregatesFilter<"Order"> | number
+  quantity?: Prisma.FloatWithAggregatesFilter<"Order"> | number
+  unit?: Prisma.StringWithAggregatesFilter<"Order"> | string
+  totalAmount?: Prisma.FloatWithAggregatesFilter<"Order"> | number
+  currency?: Prisma.StringWithAggregatesFilter<"Order"> | string
+  paymentTerms?: Prisma.StringNullableWithAggregatesFilter<"Order"> | string | null
+  deliveryDays?: Prisma.IntNullableWithAggregatesFilter<"Order"> | number | null
+  status?: Prisma.EnumOrderStatusWithAggregatesFilter<"Order"> | $Enums.OrderStatus
+  confirmedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Order"> | Date | string | null
+  fulfilledAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Order"> | Date | string | null
+  cancelledAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Order"> | Date | string | null
+  cancellationReasonCode?: Prisma.StringNullableWithAggregatesFilter<"Order"> | string | null
+  cancelledBy?: Prisma.EnumCancellationInitiatorNullableWithAggregatesFilter<"Order"> | $Enums.CancellationInitiator | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"Order"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Order"> | Date | string
+}
+
+export type OrderCreateInput = {
+  id?: string
+  transactionId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  quantity: number
+  unit: string
+  totalAmount: number
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  status?: $Enums.OrderStatus
+  confirmedAt?: Date | string | null
+  fulfilledAt?: Date | string | null
+  cancelledAt?: Date | string | null
+  cancellationReasonCode?: string | null
+  cancelledBy?: $Enums.CancellationInitiator | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  catalog: Prisma.CatalogCreateNestedOneWithoutOrdersInput
+  farmer: Prisma.FarmerCreateNestedOneWithoutOrdersInput
+  bid: Prisma.BidCreateNestedOneWithoutOrdersInput
+  fulfillmentEvents?: Prisma.FulfillmentEventCreateNestedManyWithoutOrderInput
+  issues?: Prisma.IssueCreateNestedManyWithoutOrderInput
+}
+
+export type OrderUncheckedCreateInput = {
+  id?: string
+  catalogId: string
+  farmerId: string
+  bidId: string
+  transactionId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  quantity: number
+  unit: string
+  totalAmount: number
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  status?: $Enums.OrderStatus
+  confirmedAt?: Date | string | null
+  fulfilledAt?: Date | string | null
+  cancelledAt?: Date | string | null
+  cancellationReasonCode?: string | null
+  cancelledBy?: $Enums.CancellationInitiator | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  fulfillmentEvents?: Prisma.FulfillmentEventUncheckedCreateNestedManyWithoutOrderInput
+  issues?: Prisma.IssueUncheckedCreateNestedManyWithoutOrderInput
+}
+
+export type OrderUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  unit?: Prisma.StringFieldUpdateOperationsInput | string
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  fulfilledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancellationReasonCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableEnumCancellationInitiatorFieldUpdateOperationsInput | $Enums.CancellationInitiator | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  catalog?: Prisma.CatalogUpdateOneRequiredWithoutOrdersNestedInput
+  farmer?: Prisma.FarmerUpdateOneRequiredWithoutOrdersNestedInput
+  bid?: Prisma.BidUpdateOneRequiredWithoutOrdersNestedInput
+  fulfillmentEvents?: Prisma.FulfillmentEventUpdateManyWithoutOrderNestedInput
+  issues?: Prisma.IssueUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  catalogId?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  bidId?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  unit?: Prisma.StringFieldUpdateOperationsInput | string
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  fulfilledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancellationReasonCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableEnumCancellationInitiatorFieldUpdateOperationsInput | $Enums.CancellationInitiator | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fulfillmentEvents?: Prisma.FulfillmentEventUncheckedUpdateManyWithoutOrderNestedInput
+  issues?: Prisma.IssueUncheckedUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderCreateManyInput = {
+  id?: string
+  catalogId: string
+  farmerId: string
+  bidId: string
+  transactionId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  quantity: number
+  unit: string
+  totalAmount: number
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  status?: $Enums.OrderStatus
+  confirmedAt?: Date | string | null
+  fulfilledAt?: Date | string | null
+  cancelledAt?: Date | string | null
+  cancellationReasonCode?: string | null
+  cancelledBy?: $Enums.CancellationInitiator | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type OrderUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  unit?: Prisma.StringFieldUpdateOperationsInput | string
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  fulfilledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancellationReasonCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableEnumCancellationInitiatorFieldUpdateOperationsInput | $Enums.CancellationInitiator | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OrderUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  catalogId?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  bidId?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  unit?: Prisma.StringFieldUpdateOperationsInput | string
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  fulfilledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancellationReasonCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableEnumCancellationInitiatorFieldUpdateOperationsInput | $Enums.CancellationInitiator | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OrderListRelationFilter = {
+  every?: Prisma.OrderWhereInput
+  some?: Prisma.OrderWhereInput
+  none?: Prisma.OrderWhereInput
+}
+
+export type OrderOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type OrderCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  catalogId?: Prisma.SortOrder
+  farmerId?: Prisma.SortOrder
+  bidId?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  buyerName?: Prisma.SortOrder
+  buyerSubscriberId?: Prisma.SortOrder
+  pricePerUnit?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  unit?: Prisma.SortOrder
+  totalAmount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  paymentTerms?: Prisma.SortOrder
+  deliveryDays?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  confirmedAt?: Prisma.SortOrder
+  fulfilledAt?: Prisma.SortOrder
+  cancelledAt?: Prisma.SortOrder
+  cancellationReasonCode?: Prisma.SortOrder
+  cancelledBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type OrderAvgOrderByAggregateInput = {
+  pricePerUnit?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  totalAmount?: Prisma.SortOrder
+  deliveryDays?: Prisma.SortOrder
+}
+
+export type OrderMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  catalogId?: Prisma.SortOrder
+  farmerId?: Prisma.SortOrder
+  bidId?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  buyerName?: Prisma.SortOrder
+  buyerSubscriberId?: Prisma.SortOrder
+  pricePerUnit?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  unit?: Prisma.SortOrder
+  totalAmount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  paymentTerms?: Prisma.SortOrder
+  deliveryDays?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  confirmedAt?: Prisma.SortOrder
+  fulfilledAt?: Prisma.SortOrder
+  cancelledAt?: Prisma.SortOrder
+  cancellationReasonCode?: Prisma.SortOrder
+  cancelledBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type OrderMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  catalogId?: Prisma.SortOrder
+  farmerId?: Prisma.SortOrder
+  bidId?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  buyerName?: Prisma.SortOrder
+  buyerSubscriberId?: Prisma.SortOrder
+  pricePerUnit?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  unit?: Prisma.SortOrder
+  totalAmount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  paymentTerms?: Prisma.SortOrder
+  deliveryDays?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  confirmedAt?: Prisma.SortOrder
+  fulfilledAt?: Prisma.SortOrder
+  cancelledAt?: Prisma.SortOrder
+  cancellationReasonCode?: Prisma.SortOrder
+  cancelledBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type OrderSumOrderByAggregateInput = {
+  pricePerUnit?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  totalAmount?: Prisma.SortOrder
+  deliveryDays?: Prisma.SortOrder
+}
+
+export type OrderScalarRelationFilter = {
+  is?: Prisma.OrderWhereInput
+  isNot?: Prisma.OrderWhereInput
+}
+
+export type OrderCreateNestedManyWithoutFarmerInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutFarmerInput, Prisma.OrderUncheckedCreateWithoutFarmerInput> | Prisma.OrderCreateWithoutFarmerInput[] | Prisma.OrderUncheckedCreateWithoutFarmerInput[]
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutFarmerInput | Prisma.OrderCreateOrConnectWithoutFarmerInput[]
+  createMany?: Prisma.OrderCreateManyFarmerInputEnvelope
+  connect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+}
+
+export type OrderUncheckedCreateNestedManyWithoutFarmerInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutFarmerInput, Prisma.OrderUncheckedCreateWithoutFarmerInput> | Prisma.OrderCreateWithoutFarmerInput[] | Prisma.OrderUncheckedCreateWithoutFarmerInput[]
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutFarmerInput | Prisma.OrderCreateOrConnectWithoutFarmerInput[]
+  createMany?: Prisma.OrderCreateManyFarmerInputEnvelope
+  connect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+}
+
+export type OrderUpdateManyWithoutFarmerNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutFarmerInput, Prisma.OrderUncheckedCreateWithoutFarmerInput> | Prisma.OrderCreateWithoutFarmerInput[] | Prisma.OrderUncheckedCreateWithoutFarmerInput[]
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutFarmerInput | Prisma.OrderCreateOrConnectWithoutFarmerInput[]
+  upsert?: Prisma.OrderUpsertWithWhereUniqueWithoutFarmerInput | Prisma.OrderUpsertWithWhereUniqueWithoutFarmerInput[]
+  createMany?: Prisma.OrderCreateManyFarmerInputEnvelope
+  set?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  disconnect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  delete?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  connect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  update?: Prisma.OrderUpdateWithWhereUniqueWithoutFarmerInput | Prisma.OrderUpdateWithWhereUniqueWithoutFarmerInput[]
+  updateMany?: Prisma.OrderUpdateManyWithWhereWithoutFarmerInput | Prisma.OrderUpdateManyWithWhereWithoutFarmerInput[]
+  deleteMany?: Prisma.OrderScalarWhereInput | Prisma.OrderScalarWhereInput[]
+}
+
+export type OrderUncheckedUpdateManyWithoutFarmerNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutFarmerInput, Prisma.OrderUncheckedCreateWithoutFarmerInput> | Prisma.OrderCreateWithoutFarmerInput[] | Prisma.OrderUncheckedCreateWithoutFarmerInput[]
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutFarmerInput | Prisma.OrderCreateOrConnectWithoutFarmerInput[]
+  upsert?: Prisma.OrderUpsertWithWhereUniqueWithoutFarmerInput | Prisma.OrderUpsertWithWhereUniqueWithoutFarmerInput[]
+  createMany?: Prisma.OrderCreateManyFarmerInputEnvelope
+  set?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  disconnect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  delete?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  connect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  update?: Prisma.OrderUpdateWithWhereUniqueWithoutFarmerInput | Prisma.OrderUpdateWithWhereUniqueWithoutFarmerInput[]
+  updateMany?: Prisma.OrderUpdateManyWithWhereWithoutFarmerInput | Prisma.OrderUpdateManyWithWhereWithoutFarmerInput[]
+  deleteMany?: Prisma.OrderScalarWhereInput | Prisma.OrderScalarWhereInput[]
+}
+
+export type OrderCreateNestedManyWithoutCatalogInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutCatalogInput, Prisma.OrderUncheckedCreateWithoutCatalogInput> | Prisma.OrderCreateWithoutCatalogInput[] | Prisma.OrderUncheckedCreateWithoutCatalogInput[]
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutCatalogInput | Prisma.OrderCreateOrConnectWithoutCatalogInput[]
+  createMany?: Prisma.OrderCreateManyCatalogInputEnvelope
+  connect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+}
+
+export type OrderUncheckedCreateNestedManyWithoutCatalogInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutCatalogInput, Prisma.OrderUncheckedCreateWithoutCatalogInput> | Prisma.OrderCreateWithoutCatalogInput[] | Prisma.OrderUncheckedCreateWithoutCatalogInput[]
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutCatalogInput | Prisma.OrderCreateOrConnectWithoutCatalogInput[]
+  createMany?: Prisma.OrderCreateManyCatalogInputEnvelope
+  connect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+}
+
+export type OrderUpdateManyWithoutCatalogNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutCatalogInput, Prisma.OrderUncheckedCreateWithoutCatalogInput> | Prisma.OrderCreateWithoutCatalogInput[] | Prisma.OrderUncheckedCreateWithoutCatalogInput[]
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutCatalogInput | Prisma.OrderCreateOrConnectWithoutCatalogInput[]
+  upsert?: Prisma.OrderUpsertWithWhereUniqueWithoutCatalogInput | Prisma.OrderUpsertWithWhereUniqueWithoutCatalogInput[]
+  createMany?: Prisma.OrderCreateManyCatalogInputEnvelope
+  set?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  disconnect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  delete?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  connect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  update?: Prisma.OrderUpdateWithWhereUniqueWithoutCatalogInput | Prisma.OrderUpdateWithWhereUniqueWithoutCatalogInput[]
+  updateMany?: Prisma.OrderUpdateManyWithWhereWithoutCatalogInput | Prisma.OrderUpdateManyWithWhereWithoutCatalogInput[]
+  deleteMany?: Prisma.OrderScalarWhereInput | Prisma.OrderScalarWhereInput[]
+}
+
+export type OrderUncheckedUpdateManyWithoutCatalogNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutCatalogInput, Prisma.OrderUncheckedCreateWithoutCatalogInput> | Prisma.OrderCreateWithoutCatalogInput[] | Prisma.OrderUncheckedCreateWithoutCatalogInput[]
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutCatalogInput | Prisma.OrderCreateOrConnectWithoutCatalogInput[]
+  upsert?: Prisma.OrderUpsertWithWhereUniqueWithoutCatalogInput | Prisma.OrderUpsertWithWhereUniqueWithoutCatalogInput[]
+  createMany?: Prisma.OrderCreateManyCatalogInputEnvelope
+  set?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  disconnect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  delete?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  connect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  update?: Prisma.OrderUpdateWithWhereUniqueWithoutCatalogInput | Prisma.OrderUpdateWithWhereUniqueWithoutCatalogInput[]
+  updateMany?: Prisma.OrderUpdateManyWithWhereWithoutCatalogInput | Prisma.OrderUpdateManyWithWhereWithoutCatalogInput[]
+  deleteMany?: Prisma.OrderScalarWhereInput | Prisma.OrderScalarWhereInput[]
+}
+
+export type OrderCreateNestedManyWithoutBidInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutBidInput, Prisma.OrderUncheckedCreateWithoutBidInput> | Prisma.OrderCreateWithoutBidInput[] | Prisma.OrderUncheckedCreateWithoutBidInput[]
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutBidInput | Prisma.OrderCreateOrConnectWithoutBidInput[]
+  createMany?: Prisma.OrderCreateManyBidInputEnvelope
+  connect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+}
+
+export type OrderUncheckedCreateNestedManyWithoutBidInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutBidInput, Prisma.OrderUncheckedCreateWithoutBidInput> | Prisma.OrderCreateWithoutBidInput[] | Prisma.OrderUncheckedCreateWithoutBidInput[]
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutBidInput | Prisma.OrderCreateOrConnectWithoutBidInput[]
+  createMany?: Prisma.OrderCreateManyBidInputEnvelope
+  connect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+}
+
+export type OrderUpdateManyWithoutBidNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutBidInput, Prisma.OrderUncheckedCreateWithoutBidInput> | Prisma.OrderCreateWithoutBidInput[] | Prisma.OrderUncheckedCreateWithoutBidInput[]
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutBidInput | Prisma.OrderCreateOrConnectWithoutBidInput[]
+  upsert?: Prisma.OrderUpsertWithWhereUniqueWithoutBidInput | Prisma.OrderUpsertWithWhereUniqueWithoutBidInput[]
+  createMany?: Prisma.OrderCreateManyBidInputEnvelope
+  set?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  disconnect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  delete?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  connect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  update?: Prisma.OrderUpdateWithWhereUniqueWithoutBidInput | Prisma.OrderUpdateWithWhereUniqueWithoutBidInput[]
+  updateMany?: Prisma.OrderUpdateManyWithWhereWithoutBidInput | Prisma.OrderUpdateManyWithWhereWithoutBidInput[]
+  deleteMany?: Prisma.OrderScalarWhereInput | Prisma.OrderScalarWhereInput[]
+}
+
+export type OrderUncheckedUpdateManyWithoutBidNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutBidInput, Prisma.OrderUncheckedCreateWithoutBidInput> | Prisma.OrderCreateWithoutBidInput[] | Prisma.OrderUncheckedCreateWithoutBidInput[]
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutBidInput | Prisma.OrderCreateOrConnectWithoutBidInput[]
+  upsert?: Prisma.OrderUpsertWithWhereUniqueWithoutBidInput | Prisma.OrderUpsertWithWhereUniqueWithoutBidInput[]
+  createMany?: Prisma.OrderCreateManyBidInputEnvelope
+  set?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  disconnect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  delete?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  connect?: Prisma.OrderWhereUniqueInput | Prisma.OrderWhereUniqueInput[]
+  update?: Prisma.OrderUpdateWithWhereUniqueWithoutBidInput | Prisma.OrderUpdateWithWhereUniqueWithoutBidInput[]
+  updateMany?: Prisma.OrderUpdateManyWithWhereWithoutBidInput | Prisma.OrderUpdateManyWithWhereWithoutBidInput[]
+  deleteMany?: Prisma.OrderScalarWhereInput | Prisma.OrderScalarWhereInput[]
+}
+
+export type EnumOrderStatusFieldUpdateOperationsInput = {
+  set?: $Enums.OrderStatus
+}
+
+export type NullableEnumCancellationInitiatorFieldUpdateOperationsInput = {
+  set?: $Enums.CancellationInitiator | null
+}
+
+export type OrderCreateNestedOneWithoutFulfillmentEventsInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutFulfillmentEventsInput, Prisma.OrderUncheckedCreateWithoutFulfillmentEventsInput>
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutFulfillmentEventsInput
+  connect?: Prisma.OrderWhereUniqueInput
+}
+
+export type OrderUpdateOneRequiredWithoutFulfillmentEventsNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutFulfillmentEventsInput, Prisma.OrderUncheckedCreateWithoutFulfillmentEventsInput>
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutFulfillmentEventsInput
+  upsert?: Prisma.OrderUpsertWithoutFulfillmentEventsInput
+  connect?: Prisma.OrderWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.OrderUpdateToOneWithWhereWithoutFulfillmentEventsInput, Prisma.OrderUpdateWithoutFulfillmentEventsInput>, Prisma.OrderUncheckedUpdateWithoutFulfillmentEventsInput>
+}
+
+export type OrderCreateNestedOneWithoutIssuesInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutIssuesInput, Prisma.OrderUncheckedCreateWithoutIssuesInput>
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutIssuesInput
+  connect?: Prisma.OrderWhereUniqueInput
+}
+
+export type OrderUpdateOneRequiredWithoutIssuesNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderCreateWithoutIssuesInput, Prisma.OrderUncheckedCreateWithoutIssuesInput>
+  connectOrCreate?: Prisma.OrderCreateOrConnectWithoutIssuesInput
+  upsert?: Prisma.OrderUpsertWithoutIssuesInput
+  connect?: Prisma.OrderWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.OrderUpdateToOneWithWhereWithoutIssuesInput, Prisma.OrderUpdateWithoutIssuesInput>, Prisma.OrderUncheckedUpdateWithoutIssuesInput>
+}
+
+export type OrderCreateWithoutFarmerInput = {
+  id?: string
+  transactionId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  quantity: number
+  unit: string
+  totalAmount: number
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  status?: $Enums.OrderStatus
+  confirmedAt?: Date | string | null
+  fulfilledAt?: Date | string | null
+  cancelledAt?: Date | string | null
+  cancellationReasonCode?: string | null
+  cancelledBy?: $Enums.CancellationInitiator | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  catalog: Prisma.CatalogCreateNestedOneWithoutOrdersInput
+  bid: Prisma.BidCreateNestedOneWithoutOrdersInput
+  fulfillmentEvents?: Prisma.FulfillmentEventCreateNestedManyWithoutOrderInput
+  issues?: Prisma.IssueCreateNestedManyWithoutOrderInput
+}
+
+export type OrderUncheckedCreateWithoutFarmerInput = {
+  id?: string
+  catalogId: string
+  bidId: string
+  transactionId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  quantity: number
+  unit: string
+  totalAmount: number
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  status?: $Enums.OrderStatus
+  confirmedAt?: Date | string | null
+  fulfilledAt?: Date | string | null
+  cancelledAt?: Date | string | null
+  cancellationReasonCode?: string | null
+  cancelledBy?: $Enums.CancellationInitiator | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  fulfillmentEvents?: Prisma.FulfillmentEventUncheckedCreateNestedManyWithoutOrderInput
+  issues?: Prisma.IssueUncheckedCreateNestedManyWithoutOrderInput
+}
+
+export type OrderCreateOrConnectWithoutFarmerInput = {
+  where: Prisma.OrderWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderCreateWithoutFarmerInput, Prisma.OrderUncheckedCreateWithoutFarmerInput>
+}
+
+export type OrderCreateManyFarmerInputEnvelope = {
+  data: Prisma.OrderCreateManyFarmerInput | Prisma.OrderCreateManyFarmerInput[]
+}
+
+export type OrderUpsertWithWhereUniqueWithoutFarmerInput = {
+  where: Prisma.OrderWhereUniqueInput
+  update: Prisma.XOR<Prisma.OrderUpdateWithoutFarmerInput, Prisma.OrderUncheckedUpdateWithoutFarmerInput>
+  create: Prisma.XOR<Prisma.OrderCreateWithoutFarmerInput, Prisma.OrderUncheckedCreateWithoutFarmerInput>
+}
+
+export type OrderUpdateWithWhereUniqueWithoutFarmerInput = {
+  where: Prisma.OrderWhereUniqueInput
+  data: Prisma.XOR<Prisma.OrderUpdateWithoutFarmerInput, Prisma.OrderUncheckedUpdateWithoutFarmerInput>
+}
+
+export type OrderUpdateManyWithWhereWithoutFarmerInput = {
+  where: Prisma.OrderScalarWhereInput
+  data: Prisma.XOR<Prisma.OrderUpdateManyMutationInput, Prisma.OrderUncheckedUpdateManyWithoutFarmerInput>
+}
+
+export type OrderScalarWhereInput = {
+  AND?: Prisma.OrderScalarWhereInput | Prisma.OrderScalarWhereInput[]
+  OR?: Prisma.OrderScalarWhereInput[]
+  NOT?: Prisma.OrderScalarWhereInput | Prisma.OrderScalarWhereInput[]
+  id?: Prisma.StringFilter<"Order"> | string
+  catalogId?: Prisma.StringFilter<"Order"> | string
+  farmerId?: Prisma.StringFilter<"Order"> | string
+  bidId?: Prisma.StringFilter<"Order"> | string
+  transactionId?: Prisma.StringNullableFilter<"Order"> | string | null
+  buyerName?: Prisma.StringFilter<"Order"> | string
+  buyerSubscriberId?: Prisma.StringNullableFilter<"Order"> | string | null
+  pricePerUnit?: Prisma.FloatFilter<"Order"> | number
+  quantity?: Prisma.FloatFilter<"Order"> | number
+  unit?: Prisma.StringFilter<"Order"> | string
+  totalAmount?: Prisma.FloatFilter<"Order"> | number
+  currency?: Prisma.StringFilter<"Order"> | string
+  paymentTerms?: Prisma.StringNullableFilter<"Order"> | string | null
+  deliveryDays?: Prisma.IntNullableFilter<"Order"> | number | null
+  status?: Prisma.EnumOrderStatusFilter<"Order"> | $Enums.OrderStatus
+  confirmedAt?: Prisma.DateTimeNullableFilter<"Order"> | Date | string | null
+  fulfilledAt?: Prisma.DateTimeNullableFilter<"Order"> | Date | string | null
+  cancelledAt?: Prisma.DateTimeNullableFilter<"Order"> | Date | string | null
+  cancellationReasonCode?: Prisma.StringNullableFilter<"Order"> | string | null
+  cancelledBy?: Prisma.EnumCancellationInitiatorNullableFilter<"Order"> | $Enums.CancellationInitiator | null
+  createdAt?: Prisma.DateTimeFilter<"Order"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Order"> | Date | string
+}
+
+export type OrderCreateWithoutCatalogInput = {
+  id?: string
+  transactionId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  quantity: number
+  unit: string
+  totalAmount: number
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  status?: $Enums.OrderStatus
+  confirmedAt?: Date | string | null
+  fulfilledAt?: Date | string | null
+  cancelledAt?: Date | string | null
+  cancellationReasonCode?: string | null
+  cancelledBy?: $Enums.CancellationInitiator | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  farmer: Prisma.FarmerCreateNestedOneWithoutOrdersInput
+  bid: Prisma.BidCreateNestedOneWithoutOrdersInput
+  fulfillmentEvents?: Prisma.FulfillmentEventCreateNestedManyWithoutOrderInput
+  issues?: Prisma.IssueCreateNestedManyWithoutOrderInput
+}
+
+export type OrderUncheckedCreateWithoutCatalogInput = {
+  id?: string
+  farmerId: string
+  bidId: string
+  transactionId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  quantity: number
+  unit: string
+  totalAmount: number
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  status?: $Enums.OrderStatus
+  confirmedAt?: Date | string | null
+  fulfilledAt?: Date | string | null
+  cancelledAt?: Date | string | null
+  cancellationReasonCode?: string | null
+  cancelledBy?: $Enums.CancellationInitiator | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  fulfillmentEvents?: Prisma.FulfillmentEventUncheckedCreateNestedManyWithoutOrderInput
+  issues?: Prisma.IssueUncheckedCreateNestedManyWithoutOrderInput
+}
+
+export type OrderCreateOrConnectWithoutCatalogInput = {
+  where: Prisma.OrderWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderCreateWithoutCatalogInput, Prisma.OrderUncheckedCreateWithoutCatalogInput>
+}
+
+export type OrderCreateManyCatalogInputEnvelope = {
+  data: Prisma.OrderCreateManyCatalogInput | Prisma.OrderCreateManyCatalogInput[]
+}
+
+export type OrderUpsertWithWhereUniqueWithoutCatalogInput = {
+  where: Prisma.OrderWhereUniqueInput
+  update: Prisma.XOR<Prisma.OrderUpdateWithoutCatalogInput, Prisma.OrderUncheckedUpdateWithoutCatalogInput>
+  create: Prisma.XOR<Prisma.OrderCreateWithoutCatalogInput, Prisma.OrderUncheckedCreateWithoutCatalogInput>
+}
+
+export type OrderUpdateWithWhereUniqueWithoutCatalogInput = {
+  where: Prisma.OrderWhereUniqueInput
+  data: Prisma.XOR<Prisma.OrderUpdateWithoutCatalogInput, Prisma.OrderUncheckedUpdateWithoutCatalogInput>
+}
+
+export type OrderUpdateManyWithWhereWithoutCatalogInput = {
+  where: Prisma.OrderScalarWhereInput
+  data: Prisma.XOR<Prisma.OrderUpdateManyMutationInput, Prisma.OrderUncheckedUpdateManyWithoutCatalogInput>
+}
+
+export type OrderCreateWithoutBidInput = {
+  id?: string
+  transactionId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  quantity: number
+  unit: string
+  totalAmount: number
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  status?: $Enums.OrderStatus
+  confirmedAt?: Date | string | null
+  fulfilledAt?: Date | string | null
+  cancelledAt?: Date | string | null
+  cancellationReasonCode?: string | null
+  cancelledBy?: $Enums.CancellationInitiator | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  catalog: Prisma.CatalogCreateNestedOneWithoutOrdersInput
+  farmer: Prisma.FarmerCreateNestedOneWithoutOrdersInput
+  fulfillmentEvents?: Prisma.FulfillmentEventCreateNestedManyWithoutOrderInput
+  issues?: Prisma.IssueCreateNestedManyWithoutOrderInput
+}
+
+export type OrderUncheckedCreateWithoutBidInput = {
+  id?: string
+  catalogId: string
+  farmerId: string
+  transactionId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  quantity: number
+  unit: string
+  totalAmount: number
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  status?: $Enums.OrderStatus
+  confirmedAt?: Date | string | null
+  fulfilledAt?: Date | string | null
+  cancelledAt?: Date | string | null
+  cancellationReasonCode?: string | null
+  cancelledBy?: $Enums.CancellationInitiator | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  fulfillmentEvents?: Prisma.FulfillmentEventUncheckedCreateNestedManyWithoutOrderInput
+  issues?: Prisma.IssueUncheckedCreateNestedManyWithoutOrderInput
+}
+
+export type OrderCreateOrConnectWithoutBidInput = {
+  where: Prisma.OrderWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderCreateWithoutBidInput, Prisma.OrderUncheckedCreateWithoutBidInput>
+}
+
+export type OrderCreateManyBidInputEnvelope = {
+  data: Prisma.OrderCreateManyBidInput | Prisma.OrderCreateManyBidInput[]
+}
+
+export type OrderUpsertWithWhereUniqueWithoutBidInput = {
+  where: Prisma.OrderWhereUniqueInput
+  update: Prisma.XOR<Prisma.OrderUpdateWithoutBidInput, Prisma.OrderUncheckedUpdateWithoutBidInput>
+  create: Prisma.XOR<Prisma.OrderCreateWithoutBidInput, Prisma.OrderUncheckedCreateWithoutBidInput>
+}
+
+export type OrderUpdateWithWhereUniqueWithoutBidInput = {
+  where: Prisma.OrderWhereUniqueInput
+  data: Prisma.XOR<Prisma.OrderUpdateWithoutBidInput, Prisma.OrderUncheckedUpdateWithoutBidInput>
+}
+
+export type OrderUpdateManyWithWhereWithoutBidInput = {
+  where: Prisma.OrderScalarWhereInput
+  data: Prisma.XOR<Prisma.OrderUpdateManyMutationInput, Prisma.OrderUncheckedUpdateManyWithoutBidInput>
+}
+
+export type OrderCreateWithoutFulfillmentEventsInput = {
+  id?: string
+  transactionId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  quantity: number
+  unit: string
+  totalAmount: number
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  status?: $Enums.OrderStatus
+  confirmedAt?: Date | string | null
+  fulfilledAt?: Date | string | null
+  cancelledAt?: Date | string | null
+  cancellationReasonCode?: string | null
+  cancelledBy?: $Enums.CancellationInitiator | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  catalog: Prisma.CatalogCreateNestedOneWithoutOrdersInput
+  farmer: Prisma.FarmerCreateNestedOneWithoutOrdersInput
+  bid: Prisma.BidCreateNestedOneWithoutOrdersInput
+  issues?: Prisma.IssueCreateNestedManyWithoutOrderInput
+}
+
+export type OrderUncheckedCreateWithoutFulfillmentEventsInput = {
+  id?: string
+  catalogId: string
+  farmerId: string
+  bidId: string
+  transactionId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  quantity: number
+  unit: string
+  totalAmount: number
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  status?: $Enums.OrderStatus
+  confirmedAt?: Date | string | null
+  fulfilledAt?: Date | string | null
+  cancelledAt?: Date | string | null
+  cancellationReasonCode?: string | null
+  cancelledBy?: $Enums.CancellationInitiator | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  issues?: Prisma.IssueUncheckedCreateNestedManyWithoutOrderInput
+}
+
+export type OrderCreateOrConnectWithoutFulfillmentEventsInput = {
+  where: Prisma.OrderWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderCreateWithoutFulfillmentEventsInput, Prisma.OrderUncheckedCreateWithoutFulfillmentEventsInput>
+}
+
+export type OrderUpsertWithoutFulfillmentEventsInput = {
+  update: Prisma.XOR<Prisma.OrderUpdateWithoutFulfillmentEventsInput, Prisma.OrderUncheckedUpdateWithoutFulfillmentEventsInput>
+  create: Prisma.XOR<Prisma.OrderCreateWithoutFulfillmentEventsInput, Prisma.OrderUncheckedCreateWithoutFulfillmentEventsInput>
+  where?: Prisma.OrderWhereInput
+}
+
+export type OrderUpdateToOneWithWhereWithoutFulfillmentEventsInput = {
+  where?: Prisma.OrderWhereInput
+  data: Prisma.XOR<Prisma.OrderUpdateWithoutFulfillmentEventsInput, Prisma.OrderUncheckedUpdateWithoutFulfillmentEventsInput>
+}
+
+export type OrderUpdateWithoutFulfillmentEventsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  unit?: Prisma.StringFieldUpdateOperationsInput | string
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  fulfilledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancellationReasonCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableEnumCancellationInitiatorFieldUpdateOperationsInput | $Enums.CancellationInitiator | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  catalog?: Prisma.CatalogUpdateOneRequiredWithoutOrdersNestedInput
+  farmer?: Prisma.FarmerUpdateOneRequiredWithoutOrdersNestedInput
+  bid?: Prisma.BidUpdateOneRequiredWithoutOrdersNestedInput
+  issues?: Prisma.IssueUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderUncheckedUpdateWithoutFulfillmentEventsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  catalogId?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  bidId?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  unit?: Prisma.StringFieldUpdateOperationsInput | string
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  fulfilledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancellationReasonCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableEnumCancellationInitiatorFieldUpdateOperationsInput | $Enums.CancellationInitiator | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  issues?: Prisma.IssueUncheckedUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderCreateWithoutIssuesInput = {
+  id?: string
+  transactionId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  quantity: number
+  unit: string
+  totalAmount: number
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  status?: $Enums.OrderStatus
+  confirmedAt?: Date | string | null
+  fulfilledAt?: Date | string | null
+  cancelledAt?: Date | string | null
+  cancellationReasonCode?: string | null
+  cancelledBy?: $Enums.CancellationInitiator | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  catalog: Prisma.CatalogCreateNestedOneWithoutOrdersInput
+  farmer: Prisma.FarmerCreateNestedOneWithoutOrdersInput
+  bid: Prisma.BidCreateNestedOneWithoutOrdersInput
+  fulfillmentEvents?: Prisma.FulfillmentEventCreateNestedManyWithoutOrderInput
+}
+
+export type OrderUncheckedCreateWithoutIssuesInput = {
+  id?: string
+  catalogId: string
+  farmerId: string
+  bidId: string
+  transactionId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  quantity: number
+  unit: string
+  totalAmount: number
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  status?: $Enums.OrderStatus
+  confirmedAt?: Date | string | null
+  fulfilledAt?: Date | string | null
+  cancelledAt?: Date | string | null
+  cancellationReasonCode?: string | null
+  cancelledBy?: $Enums.CancellationInitiator | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  fulfillmentEvents?: Prisma.FulfillmentEventUncheckedCreateNestedManyWithoutOrderInput
+}
+
+export type OrderCreateOrConnectWithoutIssuesInput = {
+  where: Prisma.OrderWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderCreateWithoutIssuesInput, Prisma.OrderUncheckedCreateWithoutIssuesInput>
+}
+
+export type OrderUpsertWithoutIssuesInput = {
+  update: Prisma.XOR<Prisma.OrderUpdateWithoutIssuesInput, Prisma.OrderUncheckedUpdateWithoutIssuesInput>
+  create: Prisma.XOR<Prisma.OrderCreateWithoutIssuesInput, Prisma.OrderUncheckedCreateWithoutIssuesInput>
+  where?: Prisma.OrderWhereInput
+}
+
+export type OrderUpdateToOneWithWhereWithoutIssuesInput = {
+  where?: Prisma.OrderWhereInput
+  data: Prisma.XOR<Prisma.OrderUpdateWithoutIssuesInput, Prisma.OrderUncheckedUpdateWithoutIssuesInput>
+}
+
+export type OrderUpdateWithoutIssuesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  unit?: Prisma.StringFieldUpdateOperationsInput | string
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  fulfilledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancellationReasonCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableEnumCancellationInitiatorFieldUpdateOperationsInput | $Enums.CancellationInitiator | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  catalog?: Prisma.CatalogUpdateOneRequiredWithoutOrdersNestedInput
+  farmer?: Prisma.FarmerUpdateOneRequiredWithoutOrdersNestedInput
+  bid?: Prisma.BidUpdateOneRequiredWithoutOrdersNestedInput
+  fulfillmentEvents?: Prisma.FulfillmentEventUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderUncheckedUpdateWithoutIssuesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  catalogId?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  bidId?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  unit?: Prisma.StringFieldUpdateOperationsInput | string
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  fulfilledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancellationReasonCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableEnumCancellationInitiatorFieldUpdateOperationsInput | $Enums.CancellationInitiator | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fulfillmentEvents?: Prisma.FulfillmentEventUncheckedUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderCreateManyFarmerInput = {
+  id?: string
+  catalogId: string
+  bidId: string
+  transactionId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  quantity: number
+  unit: string
+  totalAmount: number
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  status?: $Enums.OrderStatus
+  confirmedAt?: Date | string | null
+  fulfilledAt?: Date | string | null
+  cancelledAt?: Date | string | null
+  cancellationReasonCode?: string | null
+  cancelledBy?: $Enums.CancellationInitiator | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type OrderUpdateWithoutFarmerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  unit?: Prisma.StringFieldUpdateOperationsInput | string
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  fulfilledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancellationReasonCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableEnumCancellationInitiatorFieldUpdateOperationsInput | $Enums.CancellationInitiator | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  catalog?: Prisma.CatalogUpdateOneRequiredWithoutOrdersNestedInput
+  bid?: Prisma.BidUpdateOneRequiredWithoutOrdersNestedInput
+  fulfillmentEvents?: Prisma.FulfillmentEventUpdateManyWithoutOrderNestedInput
+  issues?: Prisma.IssueUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderUncheckedUpdateWithoutFarmerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  catalogId?: Prisma.StringFieldUpdateOperationsInput | string
+  bidId?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  unit?: Prisma.StringFieldUpdateOperationsInput | string
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  fulfilledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancellationReasonCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableEnumCancellationInitiatorFieldUpdateOperationsInput | $Enums.CancellationInitiator | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fulfillmentEvents?: Prisma.FulfillmentEventUncheckedUpdateManyWithoutOrderNestedInput
+  issues?: Prisma.IssueUncheckedUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderUncheckedUpdateManyWithoutFarmerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  catalogId?: Prisma.StringFieldUpdateOperationsInput | string
+  bidId?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  unit?: Prisma.StringFieldUpdateOperationsInput | string
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  fulfilledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancellationReasonCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableEnumCancellationInitiatorFieldUpdateOperationsInput | $Enums.CancellationInitiator | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OrderCreateManyCatalogInput = {
+  id?: string
+  farmerId: string
+  bidId: string
+  transactionId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  quantity: number
+  unit: string
+  totalAmount: number
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  status?: $Enums.OrderStatus
+  confirmedAt?: Date | string | null
+  fulfilledAt?: Date | string | null
+  cancelledAt?: Date | string | null
+  cancellationReasonCode?: string | null
+  cancelledBy?: $Enums.CancellationInitiator | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type OrderUpdateWithoutCatalogInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  unit?: Prisma.StringFieldUpdateOperationsInput | string
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  fulfilledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancellationReasonCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableEnumCancellationInitiatorFieldUpdateOperationsInput | $Enums.CancellationInitiator | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  farmer?: Prisma.FarmerUpdateOneRequiredWithoutOrdersNestedInput
+  bid?: Prisma.BidUpdateOneRequiredWithoutOrdersNestedInput
+  fulfillmentEvents?: Prisma.FulfillmentEventUpdateManyWithoutOrderNestedInput
+  issues?: Prisma.IssueUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderUncheckedUpdateWithoutCatalogInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  bidId?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  unit?: Prisma.StringFieldUpdateOperationsInput | string
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  fulfilledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancellationReasonCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableEnumCancellationInitiatorFieldUpdateOperationsInput | $Enums.CancellationInitiator | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fulfillmentEvents?: Prisma.FulfillmentEventUncheckedUpdateManyWithoutOrderNestedInput
+  issues?: Prisma.IssueUncheckedUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderUncheckedUpdateManyWithoutCatalogInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  bidId?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  unit?: Prisma.StringFieldUpdateOperationsInput | string
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  fulfilledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancellationReasonCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableEnumCancellationInitiatorFieldUpdateOperationsInput | $Enums.CancellationInitiator | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OrderCreateManyBidInput = {
+  id?: string
+  catalogId: string
+  farmerId: string
+  transactionId?: string | null
+  buyerName: string
+  buyerSubscriberId?: string | null
+  pricePerUnit: number
+  quantity: number
+  unit: string
+  totalAmount: number
+  currency?: string
+  paymentTerms?: string | null
+  deliveryDays?: number | null
+  status?: $Enums.OrderStatus
+  confirmedAt?: Date | string | null
+  fulfilledAt?: Date | string | null
+  cancelledAt?: Date | string | null
+  cancellationReasonCode?: string | null
+  cancelledBy?: $Enums.CancellationInitiator | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type OrderUpdateWithoutBidInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  unit?: Prisma.StringFieldUpdateOperationsInput | string
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  fulfilledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancellationReasonCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableEnumCancellationInitiatorFieldUpdateOperationsInput | $Enums.CancellationInitiator | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  catalog?: Prisma.CatalogUpdateOneRequiredWithoutOrdersNestedInput
+  farmer?: Prisma.FarmerUpdateOneRequiredWithoutOrdersNestedInput
+  fulfillmentEvents?: Prisma.FulfillmentEventUpdateManyWithoutOrderNestedInput
+  issues?: Prisma.IssueUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderUncheckedUpdateWithoutBidInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  catalogId?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  unit?: Prisma.StringFieldUpdateOperationsInput | string
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  fulfilledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancellationReasonCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableEnumCancellationInitiatorFieldUpdateOperationsInput | $Enums.CancellationInitiator | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fulfillmentEvents?: Prisma.FulfillmentEventUncheckedUpdateManyWithoutOrderNestedInput
+  issues?: Prisma.IssueUncheckedUpdateManyWithoutOrderNestedInput
+}
+
+export type OrderUncheckedUpdateManyWithoutBidInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  catalogId?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  buyerName?: Prisma.StringFieldUpdateOperationsInput | string
+  buyerSubscriberId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  pricePerUnit?: Prisma.FloatFieldUpdateOperationsInput | number
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  unit?: Prisma.StringFieldUpdateOperationsInput | string
+  totalAmount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentTerms?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deliveryDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  fulfilledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cancellationReasonCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableEnumCancellationInitiatorFieldUpdateOperationsInput | $Enums.CancellationInitiator | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type OrderCountOutputType
+ */
+
+export type OrderCountOutputType = {
+  fulfillmentEvents: number
+  issues: number
+}
+
+export type OrderCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  fulfillmentEvents?: boolean | OrderCountOutputTypeCountFulfillmentEventsArgs
+  issues?: boolean | OrderCountOutputTypeCountIssuesArgs
+}
+
+/**
+ * OrderCountOutputType without action
+ */
+export type OrderCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderCountOutputType
+   */
+  select?: Prisma.OrderCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * OrderCountOutputType without action
+ */
+export type OrderCountOutputTypeCountFulfillmentEventsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.FulfillmentEventWhereInput
+}
+
+/**
+ * OrderCountOutputType without action
+ */
+export type OrderCountOutputTypeCountIssuesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.IssueWhereInput
+}
+
+
+export type OrderSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  catalogId?: boolean
+  farmerId?: boolean
+  bidId?: boolean
+  transactionId?: boolean
+  buyerName?: boolean
+  buyerSubscriberId?: boolean
+  pricePerUnit?: boolean
+  quantity?: boolean
+  unit?: boolean
+  totalAmount?: boolean
+  currency?: boolean
+  paymentTerms?: boolean
+  deliveryDays?: boolean
+  status?: boolean
+  confirmedAt?: boolean
+  fulfilledAt?: boolean
+  cancelledAt?: boolean
+  cancellationReasonCode?: boolean
+  cancelledBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  catalog?: boolean | Prisma.CatalogDefaultArgs<ExtArgs>
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+  bid?: boolean | Prisma.BidDefaultArgs<ExtArgs>
+  fulfillmentEvents?: boolean | Prisma.Order$fulfillmentEventsArgs<ExtArgs>
+  issues?: boolean | Prisma.Order$issuesArgs<ExtArgs>
+  _count?: boolean | Prisma.OrderCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["order"]>
+
+export type OrderSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  catalogId?: boolean
+  farmerId?: boolean
+  bidId?: boolean
+  transactionId?: boolean
+  buyerName?: boolean
+  buyerSubscriberId?: boolean
+  pricePerUnit?: boolean
+  quantity?: boolean
+  unit?: boolean
+  totalAmount?: boolean
+  currency?: boolean
+  paymentTerms?: boolean
+  deliveryDays?: boolean
+  status?: boolean
+  confirmedAt?: boolean
+  fulfilledAt?: boolean
+  cancelledAt?: boolean
+  cancellationReasonCode?: boolean
+  cancelledBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  catalog?: boolean | Prisma.CatalogDefaultArgs<ExtArgs>
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+  bid?: boolean | Prisma.BidDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["order"]>
+
+export type OrderSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  catalogId?: boolean
+  farmerId?: boolean
+  bidId?: boolean
+  transactionId?: boolean
+  buyerName?: boolean
+  buyerSubscriberId?: boolean
+  pricePerUnit?: boolean
+  quantity?: boolean
+  unit?: boolean
+  totalAmount?: boolean
+  currency?: boolean
+  paymentTerms?: boolean
+  deliveryDays?: boolean
+  status?: boolean
+  confirmedAt?: boolean
+  fulfilledAt?: boolean
+  cancelledAt?: boolean
+  cancellationReasonCode?: boolean
+  cancelledBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  catalog?: boolean | Prisma.CatalogDefaultArgs<ExtArgs>
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+  bid?: boolean | Prisma.BidDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["order"]>
+
+export type OrderSelectScalar = {
+  id?: boolean
+  catalogId?: boolean
+  farmerId?: boolean
+  bidId?: boolean
+  transactionId?: boolean
+  buyerName?: boolean
+  buyerSubscriberId?: boolean
+  pricePerUnit?: boolean
+  quantity?: boolean
+  unit?: boolean
+  totalAmount?: boolean
+  currency?: boolean
+  paymentTerms?: boolean
+  deliveryDays?: boolean
+  status?: boolean
+  confirmedAt?: boolean
+  fulfilledAt?: boolean
+  cancelledAt?: boolean
+  cancellationReasonCode?: boolean
+  cancelledBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type OrderOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "catalogId" | "farmerId" | "bidId" | "transactionId" | "buyerName" | "buyerSubscriberId" | "pricePerUnit" | "quantity" | "unit" | "totalAmount" | "currency" | "paymentTerms" | "deliveryDays" | "status" | "confirmedAt" | "fulfilledAt" | "cancelledAt" | "cancellationReasonCode" | "cancelledBy" | "createdAt" | "updatedAt", ExtArgs["result"]["order"]>
+export type OrderInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  catalog?: boolean | Prisma.CatalogDefaultArgs<ExtArgs>
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+  bid?: boolean | Prisma.BidDefaultArgs<ExtArgs>
+  fulfillmentEvents?: boolean | Prisma.Order$fulfillmentEventsArgs<ExtArgs>
+  issues?: boolean | Prisma.Order$issuesArgs<ExtArgs>
+  _count?: boolean | Prisma.OrderCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type OrderIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  catalog?: boolean | Prisma.CatalogDefaultArgs<ExtArgs>
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+  bid?: boolean | Prisma.BidDefaultArgs<ExtArgs>
+}
+export type OrderIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  catalog?: boolean | Prisma.CatalogDefaultArgs<ExtArgs>
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+  bid?: boolean | Prisma.BidDefaultArgs<ExtArgs>
+}
+
+export type $OrderPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Order"
+  objects: {
+    catalog: Prisma.$CatalogPayload<ExtArgs>
+    farmer: Prisma.$FarmerPayload<ExtArgs>
+    bid: Prisma.$BidPayload<ExtArgs>
+    fulfillmentEvents: Prisma.$FulfillmentEventPayload<ExtArgs>[]
+    issues: Prisma.$IssuePayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    catalogId: string
+    farmerId: string
+    bidId: string
+    transactionId: string | null
+    buyerName: string
+    buyerSubscriberId: string | null
+    pricePerUnit: number
+    quantity: number
+    unit: string
+    totalAmount: number
+    currency: string
+    paymentTerms: string | null
+    deliveryDays: number | null
+    status: $Enums.OrderStatus
+    confirmedAt: Date | null
+    fulfilledAt: Date | null
+    cancelledAt: Date | null
+    cancellationReasonCode: string | null
+    cancelledBy: $Enums.CancellationInitiator | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["order"]>
+  composites: {}
+}
+
+export type OrderGetPayload<S extends boolean | null | undefined | OrderDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$OrderPayload, S>
+
+export type OrderCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<OrderFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: OrderCountAggregateInputType | true
+  }
+
+export interface OrderDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Order'], meta: { name: 'Order' } }
+  /**
+   * Find zero or one Order that matches the filter.
+   * @param {OrderFindUniqueArgs} args - Arguments to find a Order
+   * @example
+   * // Get one Order
+   * const order = await prisma.order.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends OrderFindUniqueArgs>(args: Prisma.SelectSubset<T, OrderFindUniqueArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Order that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {OrderFindUniqueOrThrowArgs} args - Arguments to find a Order
+   * @example
+   * // Get one Order
+   * const order = await prisma.order.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends OrderFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, OrderFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Order that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderFindFirstArgs} args - Arguments to find a Order
+   * @example
+   * // Get one Order
+   * const order = await prisma.order.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends OrderFindFirstArgs>(args?: Prisma.SelectSubset<T, OrderFindFirstArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Order that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderFindFirstOrThrowArgs} args - Arguments to find a Order
+   * @example
+   * // Get one Order
+   * const order = await prisma.order.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends OrderFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, OrderFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Orders that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Orders
+   * const orders = await prisma.order.findMany()
+   * 
+   * // Get first 10 Orders
+   * const orders = await prisma.order.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const orderWithIdOnly = await prisma.order.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends OrderFindManyArgs>(args?: Prisma.SelectSubset<T, OrderFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Order.
+   * @param {OrderCreateArgs} args - Arguments to create a Order.
+   * @example
+   * // Create one Order
+   * const Order = await prisma.order.create({
+   *   data: {
+   *     // ... data to create a Order
+   *   }
+   * })
+   * 
+   */
+  create<T extends OrderCreateArgs>(args: Prisma.SelectSubset<T, OrderCreateArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Orders.
+   * @param {OrderCreateManyArgs} args - Arguments to create many Orders.
+   * @example
+   * // Create many Orders
+   * const order = await prisma.order.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends OrderCreateManyArgs>(args?: Prisma.SelectSubset<T, OrderCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Orders and returns the data saved in the database.
+   * @param {OrderCreateManyAndReturnArgs} args - Arguments to create many Orders.
+   * @example
+   * // Create many Orders
+   * const order = await prisma.order.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Orders and only return the `id`
+   * const orderWithIdOnly = await prisma.order.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends OrderCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, OrderCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Order.
+   * @param {OrderDeleteArgs} args - Arguments to delete one Order.
+   * @example
+   * // Delete one Order
+   * const Order = await prisma.order.delete({
+   *   where: {
+   *     // ... filter to delete one Order
+   *   }
+   * })
+   * 
+   */
+  delete<T extends OrderDeleteArgs>(args: Prisma.SelectSubset<T, OrderDeleteArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Order.
+   * @param {OrderUpdateArgs} args - Arguments to update one Order.
+   * @example
+   * // Update one Order
+   * const order = await prisma.order.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends OrderUpdateArgs>(args: Prisma.SelectSubset<T, OrderUpdateArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Orders.
+   * @param {OrderDeleteManyArgs} args - Arguments to filter Orders to delete.
+   * @example
+   * // Delete a few Orders
+   * const { count } = await prisma.order.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends OrderDeleteManyArgs>(args?: Prisma.SelectSubset<T, OrderDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Orders.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Orders
+   * const order = await prisma.order.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends OrderUpdateManyArgs>(args: Prisma.SelectSubset<T, OrderUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Orders and returns the data updated in the database.
+   * @param {OrderUpdateManyAndReturnArgs} args - Arguments to update many Orders.
+   * @example
+   * // Update many Orders
+   * const order = await prisma.order.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Orders and only return the `id`
+   * const orderWithIdOnly = await prisma.order.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends OrderUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, OrderUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Order.
+   * @param {OrderUpsertArgs} args - Arguments to update or create a Order.
+   * @example
+   * // Update or create a Order
+   * const order = await prisma.order.upsert({
+   *   create: {
+   *     // ... data to create a Order
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Order we want to update
+   *   }
+   * })
+   */
+  upsert<T extends OrderUpsertArgs>(args: Prisma.SelectSubset<T, OrderUpsertArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Orders.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderCountArgs} args - Arguments to filter Orders to count.
+   * @example
+   * // Count the number of Orders
+   * const count = await prisma.order.count({
+   *   where: {
+   *     // ... the filter for the Orders we want to count
+   *   }
+   * })
+  **/
+  count<T extends OrderCountArgs>(
+    args?: Prisma.Subset<T, OrderCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], OrderCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Order.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends OrderAggregateArgs>(args: Prisma.Subset<T, OrderAggregateArgs>): Prisma.PrismaPromise<GetOrderAggregateType<T>>
+
+  /**
+   * Group by Order.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends OrderGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: OrderGroupByArgs['orderBy'] }
+      : { orderBy?: OrderGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, OrderGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetOrderGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Order model
+ */
+readonly fields: OrderFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Order.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__OrderClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  catalog<T extends Prisma.CatalogDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CatalogDefaultArgs<ExtArgs>>): Prisma.Prisma__CatalogClient<runtime.Types.Result.GetResult<Prisma.$CatalogPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  farmer<T extends Prisma.FarmerDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.FarmerDefaultArgs<ExtArgs>>): Prisma.Prisma__FarmerClient<runtime.Types.Result.GetResult<Prisma.$FarmerPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  bid<T extends Prisma.BidDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.BidDefaultArgs<ExtArgs>>): Prisma.Prisma__BidClient<runtime.Types.Result.GetResult<Prisma.$BidPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  fulfillmentEvents<T extends Prisma.Order$fulfillmentEventsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Order$fulfillmentEventsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$FulfillmentEventPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  issues<T extends Prisma.Order$issuesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Order$issuesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$IssuePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Order model
+ */
+export interface OrderFieldRefs {
+  readonly id: Prisma.FieldRef<"Order", 'String'>
+  readonly catalogId: Prisma.FieldRef<"Order", 'String'>
+  readonly farmerId: Prisma.FieldRef<"Order", 'String'>
+  readonly bidId: Prisma.FieldRef<"Order", 'String'>
+  readonly transactionId: Prisma.FieldRef<"Order", 'String'>
+  readonly buyerName: Prisma.FieldRef<"Order", 'String'>
+  readonly buyerSubscriberId: Prisma.FieldRef<"Order", 'String'>
+  readonly pricePerUnit: Prisma.FieldRef<"Order", 'Float'>
+  readonly quantity: Prisma.FieldRef<"Order", 'Float'>
+  readonly unit: Prisma.FieldRef<"Order", 'String'>
+  readonly totalAmount: Prisma.FieldRef<"Order", 'Float'>
+  readonly currency: Prisma.FieldRef<"Order", 'String'>
+  readonly paymentTerms: Prisma.FieldRef<"Order", 'String'>
+  readonly deliveryDays: Prisma.FieldRef<"Order", 'Int'>
+  readonly status: Prisma.FieldRef<"Order", 'OrderStatus'>
+  readonly confirmedAt: Prisma.FieldRef<"Order", 'DateTime'>
+  readonly fulfilledAt: Prisma.FieldRef<"Order", 'DateTime'>
+  readonly cancelledAt: Prisma.FieldRef<"Order", 'DateTime'>
+  readonly cancellationReasonCode: Prisma.FieldRef<"Order", 'String'>
+  readonly cancelledBy: Prisma.FieldRef<"Order", 'CancellationInitiator'>
+  readonly createdAt: Prisma.FieldRef<"Order", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"Order", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Order findUnique
+ */
+export type OrderFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Order
+   */
+  select?: Prisma.OrderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Order
+   */
+  omit?: Prisma.OrderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderInclude<ExtArgs> | null
+  /**
+   * Filter, which Order to fetch.
+   */
+  where: Prisma.OrderWhereUniqueInput
+}
+
+/**
+ * Order findUniqueOrThrow
+ */
+export type OrderFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Order
+   */
+  select?: Prisma.OrderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Order
+   */
+  omit?: Prisma.OrderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderInclude<ExtArgs> | null
+  /**
+   * Filter, which Order to fetch.
+   */
+  where: Prisma.OrderWhereUniqueInput
+}
+
+/**
+ * Order findFirst
+ */
+export type OrderFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Order
+   */
+  select?: Prisma.OrderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Order
+   */
+  omit?: Prisma.OrderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderInclude<ExtArgs> | null
+  /**
+   * Filter, which Order to fetch.
+   */
+  where?: Prisma.OrderWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Orders to fetch.
+   */
+  orderBy?: Prisma.OrderOrderByWithRelationInput | Prisma.OrderOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Orders.
+   */
+  cursor?: Prisma.OrderWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Orders from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Orders.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Orders.
+   */
+  distinct?: Prisma.OrderScalarFieldEnum | Prisma.OrderScalarFieldEnum[]
+}
+
+/**
+ * Order findFirstOrThrow
+ */
+export type OrderFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Order
+   */
+  select?: Prisma.OrderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Order
+   */
+  omit?: Prisma.OrderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderInclude<ExtArgs> | null
+  /**
+   * Filter, which Order to fetch.
+   */
+  where?: Prisma.OrderWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Orders to fetch.
+   */
+  orderBy?: Prisma.OrderOrderByWithRelationInput | Prisma.OrderOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Orders.
+   */
+  cursor?: Prisma.OrderWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Orders from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Orders.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Orders.
+   */
+  distinct?: Prisma.OrderScalarFieldEnum | Prisma.OrderScalarFieldEnum[]
+}
+
+/**
+ * Order findMany
+ */
+export type OrderFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Order
+   */
+  select?: Prisma.OrderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Order
+   */
+  omit?: Prisma.OrderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderInclude<ExtArgs> | null
+  /**
+   * Filter, which Orders to fetch.
+   */
+  where?: Prisma.OrderWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Orders to fetch.
+   */
+  orderBy?: Prisma.OrderOrderByWithRelationInput | Prisma.OrderOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Orders.
+   */
+  cursor?: Prisma.OrderWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Orders from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Orders.
+   */
+  skip?: number
+  distinct?: Prisma.OrderScalarFieldEnum | Prisma.OrderScalarFieldEnum[]
+}
+
+/**
+ * Order create
+ */
+export type OrderCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Order
+   */
+  select?: Prisma.OrderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Order
+   */
+  omit?: Prisma.OrderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Order.
+   */
+  data: Prisma.XOR<Prisma.OrderCreateInput, Prisma.OrderUncheckedCreateInput>
+}
+
+/**
+ * Order createMany
+ */
+export type OrderCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Orders.
+   */
+  data: Prisma.OrderCreateManyInput | Prisma.OrderCreateManyInput[]
+}
+
+/**
+ * Order createManyAndReturn
+ */
+export type OrderCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Order
+   */
+  select?: Prisma.OrderSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Order
+   */
+  omit?: Prisma.OrderOmit<ExtArgs> | null
+  /**
+   * The data used to create many Orders.
+   */
+  data: Prisma.OrderCreateManyInput | Prisma.OrderCreateManyInput[]
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Order update
+ */
+export type OrderUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Order
+   */
+  select?: Prisma.OrderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Order
+   */
+  omit?: Prisma.OrderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Order.
+   */
+  data: Prisma.XOR<Prisma.OrderUpdateInput, Prisma.OrderUncheckedUpdateInput>
+  /**
+   * Choose, which Order to update.
+   */
+  where: Prisma.OrderWhereUniqueInput
+}
+
+/**
+ * Order updateMany
+ */
+export type OrderUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Orders.
+   */
+  data: Prisma.XOR<Prisma.OrderUpdateManyMutationInput, Prisma.OrderUncheckedUpdateManyInput>
+  /**
+   * Filter which Orders to update
+   */
+  where?: Prisma.OrderWhereInput
+  /**
+   * Limit how many Orders to update.
+   */
+  limit?: number
+}
+
+/**
+ * Order updateManyAndReturn
+ */
+export type OrderUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Order
+   */
+  select?: Prisma.OrderSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Order
+   */
+  omit?: Prisma.OrderOmit<ExtArgs> | null
+  /**
+   * The data used to update Orders.
+   */
+  data: Prisma.XOR<Prisma.OrderUpdateManyMutationInput, Prisma.OrderUncheckedUpdateManyInput>
+  /**
+   * Filter which Orders to update
+   */
+  where?: Prisma.OrderWhereInput
+  /**
+   * Limit how many Orders to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Order upsert
+ */
+export type OrderUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Order
+   */
+  select?: Prisma.OrderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Order
+   */
+  omit?: Prisma.OrderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Order to update in case it exists.
+   */
+  where: Prisma.OrderWhereUniqueInput
+  /**
+   * In case the Order found by the `where` argument doesn't exist, create a new Order with this data.
+   */
+  create: Prisma.XOR<Prisma.OrderCreateInput, Prisma.OrderUncheckedCreateInput>
+  /**
+   * In case the Order was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.OrderUpdateInput, Prisma.OrderUncheckedUpdateInput>
+}
+
+/**
+ * Order delete
+ */
+export type OrderDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Order
+   */
+  select?: Prisma.OrderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Order
+   */
+  omit?: Prisma.OrderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderInclude<ExtArgs> | null
+  /**
+   * Filter which Order to delete.
+   */
+  where: Prisma.OrderWhereUniqueInput
+}
+
+/**
+ * Order deleteMany
+ */
+export type OrderDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Orders to delete
+   */
+  where?: Prisma.OrderWhereInput
+  /**
+   * Limit how many Orders to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Order.fulfillmentEvents
+ */
+export type Order$fulfillmentEventsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FulfillmentEvent
+   */
+  select?: Prisma.FulfillmentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FulfillmentEvent
+   */
+  omit?: Prisma.FulfillmentEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FulfillmentEventInclude<ExtArgs> | null
+  where?: Prisma.FulfillmentEventWhereInput
+  orderBy?: Prisma.FulfillmentEventOrderByWithRelationInput | Prisma.FulfillmentEventOrderByWithRelationInput[]
+  cursor?: Prisma.FulfillmentEventWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.FulfillmentEventScalarFieldEnum | Prisma.FulfillmentEventScalarFieldEnum[]
+}
+
+/**
+ * Order.issues
+ */
+export type Order$issuesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Issue
+   */
+  select?: Prisma.IssueSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Issue
+   */
+  omit?: Prisma.IssueOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IssueInclude<ExtArgs> | null
+  where?: Prisma.IssueWhereInput
+  orderBy?: Prisma.IssueOrderByWithRelationInput | Prisma.IssueOrderByWithRelationInput[]
+  cursor?: Prisma.IssueWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.IssueScalarFieldEnum | Prisma.IssueScalarFieldEnum[]
+}
+
+/**
+ * Order without action
+ */
+export type OrderDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Order
+   */
+  select?: Prisma.OrderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Order
+   */
+  omit?: Prisma.OrderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderInclude<ExtArgs> | null
+}
@@ -0,0 +1,1254 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `OtpChallenge` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model OtpChallenge
+ * 
+ */
+export type OtpChallengeModel = runtime.Types.Result.DefaultSelection<Prisma.$OtpChallengePayload>
+
+export type AggregateOtpChallenge = {
+  _count: OtpChallengeCountAggregateOutputType | null
+  _avg: OtpChallengeAvgAggregateOutputType | null
+  _sum: OtpChallengeSumAggregateOutputType | null
+  _min: OtpChallengeMinAggregateOutputType | null
+  _max: OtpChallengeMaxAggregateOutputType | null
+}
+
+export type OtpChallengeAvgAggregateOutputType = {
+  attempts: number | null
+}
+
+export type OtpChallengeSumAggregateOutputType = {
+  attempts: number | null
+}
+
+export type OtpChallengeMinAggregateOutputType = {
+  id: string | null
+  phone: string | null
+  codeHash: string | null
+  attempts: number | null
+  expiresAt: Date | null
+  consumedAt: Date | null
+  createdAt: Date | null
+}
+
+export type OtpChallengeMaxAggregateOutputType = {
+  id: string | null
+  phone: string | null
+  codeHash: string | null
+  attempts: number | null
+  expiresAt: Date | null
+  consumedAt: Date | null
+  createdAt: Date | null
+}
+
+export type OtpChallengeCountAggregateOutputType = {
+  id: number
+  phone: number
+  codeHash: number
+  attempts: number
+  expiresAt: number
+  consumedAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type OtpChallengeAvgAggregateInputType = {
+  attempts?: true
+}
+
+export type OtpChallengeSumAggregateInputType = {
+  attempts?: true
+}
+
+export type OtpChallengeMinAggregateInputType = {
+  id?: true
+  phone?: true
+  codeHash?: true
+  attempts?: true
+  expiresAt?: true
+  consumedAt?: true
+  createdAt?: true
+}
+
+export type OtpChallengeMaxAggregateInputType = {
+  id?: true
+  phone?: true
+  codeHash?: true
+  attempts?: true
+  expiresAt?: true
+  consumedAt?: true
+  createdAt?: true
+}
+
+export type OtpChallengeCountAggregateInputType = {
+  id?: true
+  phone?: true
+  codeHash?: true
+  attempts?: true
+  expiresAt?: true
+  consumedAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type OtpChallengeAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which OtpChallenge to aggregate.
+   */
+  where?: Prisma.OtpChallengeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OtpChallenges to fetch.
+   */
+  orderBy?: Prisma.OtpChallengeOrderByWithRelationInput | Prisma.OtpChallengeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.OtpChallengeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OtpChallenges from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OtpChallenges.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned OtpChallenges
+  **/
+  _count?: true | OtpChallengeCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: OtpChallengeAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: OtpChallengeSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: OtpChallengeMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: OtpChallengeMaxAggregateInputType
+}
+
+export type GetOtpChallengeAggregateType<T extends OtpChallengeAggregateArgs> = {
+      [P in keyof T & keyof AggregateOtpChallenge]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateOtpChallenge[P]>
+    : Prisma.GetScalarType<T[P], AggregateOtpChallenge[P]>
+}
+
+
+
+
+export type OtpChallengeGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OtpChallengeWhereInput
+  orderBy?: Prisma.OtpChallengeOrderByWithAggregationInput | Prisma.OtpChallengeOrderByWithAggregationInput[]
+  by: Prisma.OtpChallengeScalarFieldEnum[] | Prisma.OtpChallengeScalarFieldEnum
+  having?: Prisma.OtpChallengeScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: OtpChallengeCountAggregateInputType | true
+  _avg?: OtpChallengeAvgAggregateInputType
+  _sum?: OtpChallengeSumAggregateInputType
+  _min?: OtpChallengeMinAggregateInputType
+  _max?: OtpChallengeMaxAggregateInputType
+}
+
+export type OtpChallengeGroupByOutputType = {
+  id: string
+  phone: string
+  codeHash: string
+  attempts: number
+  expiresAt: Date
+  consumedAt: Date | null
+  createdAt: Date
+  _count: OtpChallengeCountAggregateOutputType | null
+  _avg: OtpChallengeAvgAggregateOutputType | null
+  _sum: OtpChallengeSumAggregateOutputType | null
+  _min: OtpChallengeMinAggregateOutputType | null
+  _max: OtpChallengeMaxAggregateOutputType | null
+}
+
+type GetOtpChallengeGroupByPayload<T extends OtpChallengeGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<OtpChallengeGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof OtpChallengeGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], OtpChallengeGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], OtpChallengeGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type OtpChallengeWhereInput = {
+  AND?: Prisma.OtpChallengeWhereInput | Prisma.OtpChallengeWhereInput[]
+  OR?: Prisma.OtpChallengeWhereInput[]
+  NOT?: Prisma.OtpChallengeWhereInput | Prisma.OtpChallengeWhereInput[]
+  id?: Prisma.StringFilter<"OtpChallenge"> | string
+  phone?: Prisma.StringFilter<"OtpChallenge"> | string
+  codeHash?: Prisma.StringFilter<"OtpChallenge"> | string
+  attempts?: Prisma.IntFilter<"OtpChallenge"> | number
+  expiresAt?: Prisma.DateTimeFilter<"OtpChallenge"> | Date | string
+  consumedAt?: Prisma.DateTimeNullableFilter<"OtpChallenge"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"OtpChallenge"> | Date | string
+}
+
+export type OtpChallengeOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  phone?: Prisma.SortOrder
+  codeHash?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  consumedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type OtpChallengeWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.OtpChallengeWhereInput | Prisma.OtpChallengeWhereInput[]
+  OR?: Prisma.OtpChallengeWhereInput[]
+  NOT?: Prisma.OtpChallengeWhereInput | Prisma.OtpChallengeWhereInput[]
+  phone?: Prisma.StringFilter<"OtpChallenge"> | string
+  codeHash?: Prisma.StringFilter<"OtpChallenge"> | string
+  attempts?: Prisma.IntFilter<"OtpChallenge"> | number
+  expiresAt?: Prisma.DateTimeFilter<"OtpChallenge"> | Date | string
+  consumedAt?: Prisma.DateTimeNullableFilter<"OtpChallenge"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"OtpChallenge"> | Date | string
+}, "id">
+
+export type OtpChallengeOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  phone?: Prisma.SortOrder
+  codeHash?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  consumedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.OtpChallengeCountOrderByAggregateInput
+  _avg?: Prisma.OtpChallengeAvgOrderByAggregateInput
+  _max?: Prisma.OtpChallengeMaxOrderByAggregateInput
+  _min?: Prisma.OtpChallengeMinOrderByAggregateInput
+  _sum?: Prisma.OtpChallengeSumOrderByAggregateInput
+}
+
+export type OtpChallengeScalarWhereWithAggregatesInput = {
+  AND?: Prisma.OtpChallengeScalarWhereWithAggregatesInput | Prisma.OtpChallengeScalarWhereWithAggregatesInput[]
+  OR?: Prisma.OtpChallengeScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.OtpChallengeScalarWhereWithAggregatesInput | Prisma.OtpChallengeScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"OtpChallenge"> | string
+  phone?: Prisma.StringWithAggregatesFilter<"OtpChallenge"> | string
+  codeHash?: Prisma.StringWithAggregatesFilter<"OtpChallenge"> | string
+  attempts?: Prisma.IntWithAggregatesFilter<"OtpChallenge"> | number
+  expiresAt?: Prisma.DateTimeWithAggregatesFilter<"OtpChallenge"> | Date | string
+  consumedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"OtpChallenge"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"OtpChallenge"> | Date | string
+}
+
+export type OtpChallengeCreateInput = {
+  id?: string
+  phone: string
+  codeHash: string
+  attempts?: number
+  expiresAt: Date | string
+  consumedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type OtpChallengeUncheckedCreateInput = {
+  id?: string
+  phone: string
+  codeHash: string
+  attempts?: number
+  expiresAt: Date | string
+  consumedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type OtpChallengeUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  codeHash?: Prisma.StringFieldUpdateOperationsInput | string
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  consumedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OtpChallengeUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  codeHash?: Prisma.StringFieldUpdateOperationsInput | string
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  consumedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OtpChallengeCreateManyInput = {
+  id?: string
+  phone: string
+  codeHash: string
+  attempts?: number
+  expiresAt: Date | string
+  consumedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type OtpChallengeUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  codeHash?: Prisma.StringFieldUpdateOperationsInput | string
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  consumedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OtpChallengeUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  phone?: Prisma.StringFieldUpdateOperationsInput | string
+  codeHash?: Prisma.StringFieldUpdateOperationsInput | string
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  consumedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OtpChallengeCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  phone?: Prisma.SortOrder
+  codeHash?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  consumedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type OtpChallengeAvgOrderByAggregateInput = {
+  attempts?: Prisma.SortOrder
+}
+
+export type OtpChallengeMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  phone?: Prisma.SortOrder
+  codeHash?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  consumedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type OtpChallengeMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  phone?: Prisma.SortOrder
+  codeHash?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  consumedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type OtpChallengeSumOrderByAggregateInput = {
+  attempts?: Prisma.SortOrder
+}
+
+export type IntFieldUpdateOperationsInput = {
+  set?: number
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
+export type NullableDateTimeFieldUpdateOperationsInput = {
+  set?: Date | string | null
+}
+
+
+
+export type OtpChallengeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  phone?: boolean
+  codeHash?: boolean
+  attempts?: boolean
+  expiresAt?: boolean
+  consumedAt?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["otpChallenge"]>
+
+export type OtpChallengeSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  phone?: boolean
+  codeHash?: boolean
+  attempts?: boolean
+  expiresAt?: boolean
+  consumedAt?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["otpChallenge"]>
+
+export type OtpChallengeSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  phone?: boolean
+  codeHash?: boolean
+  attempts?: boolean
+  expiresAt?: boolean
+  consumedAt?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["otpChallenge"]>
+
+export type OtpChallengeSelectScalar = {
+  id?: boolean
+  phone?: boolean
+  codeHash?: boolean
+  attempts?: boolean
+  expiresAt?: boolean
+  consumedAt?: boolean
+  createdAt?: boolean
+}
+
+export type OtpChallengeOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "phone" | "codeHash" | "attempts" | "expiresAt" | "consumedAt" | "createdAt", ExtArgs["result"]["otpChallenge"]>
+
+export type $OtpChallengePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "OtpChallenge"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    phone: string
+    codeHash: string
+    attempts: number
+    expiresAt: Date
+    consumedAt: Date | null
+    createdAt: Date
+  }, ExtArgs["result"]["otpChallenge"]>
+  composites: {}
+}
+
+export type OtpChallengeGetPayload<S extends boolean | null | undefined | OtpChallengeDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$OtpChallengePayload, S>
+
+export type OtpChallengeCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<OtpChallengeFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: OtpChallengeCountAggregateInputType | true
+  }
+
+export interface OtpChallengeDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['OtpChallenge'], meta: { name: 'OtpChallenge' } }
+  /**
+   * Find zero or one OtpChallenge that matches the filter.
+   * @param {OtpChallengeFindUniqueArgs} args - Arguments to find a OtpChallenge
+   * @example
+   * // Get one OtpChallenge
+   * const otpChallenge = await prisma.otpChallenge.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends OtpChallengeFindUniqueArgs>(args: Prisma.SelectSubset<T, OtpChallengeFindUniqueArgs<ExtArgs>>): Prisma.Prisma__OtpChallengeClient<runtime.Types.Result.GetResult<Prisma.$OtpChallengePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one OtpChallenge that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {OtpChallengeFindUniqueOrThrowArgs} args - Arguments to find a OtpChallenge
+   * @example
+   * // Get one OtpChallenge
+   * const otpChallenge = await prisma.otpChallenge.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends OtpChallengeFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, OtpChallengeFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__OtpChallengeClient<runtime.Types.Result.GetResult<Prisma.$OtpChallengePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first OtpChallenge that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OtpChallengeFindFirstArgs} args - Arguments to find a OtpChallenge
+   * @example
+   * // Get one OtpChallenge
+   * const otpChallenge = await prisma.otpChallenge.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends OtpChallengeFindFirstArgs>(args?: Prisma.SelectSubset<T, OtpChallengeFindFirstArgs<ExtArgs>>): Prisma.Prisma__OtpChallengeClient<runtime.Types.Result.GetResult<Prisma.$OtpChallengePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first OtpChallenge that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OtpChallengeFindFirstOrThrowArgs} args - Arguments to find a OtpChallenge
+   * @example
+   * // Get one OtpChallenge
+   * const otpChallenge = await prisma.otpChallenge.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends OtpChallengeFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, OtpChallengeFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__OtpChallengeClient<runtime.Types.Result.GetResult<Prisma.$OtpChallengePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more OtpChallenges that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OtpChallengeFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all OtpChallenges
+   * const otpChallenges = await prisma.otpChallenge.findMany()
+   * 
+   * // Get first 10 OtpChallenges
+   * const otpChallenges = await prisma.otpChallenge.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const otpChallengeWithIdOnly = await prisma.otpChallenge.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends OtpChallengeFindManyArgs>(args?: Prisma.SelectSubset<T, OtpChallengeFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OtpChallengePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a OtpChallenge.
+   * @param {OtpChallengeCreateArgs} args - Arguments to create a OtpChallenge.
+   * @example
+   * // Create one OtpChallenge
+   * const OtpChallenge = await prisma.otpChallenge.create({
+   *   data: {
+   *     // ... data to create a OtpChallenge
+   *   }
+   * })
+   * 
+   */
+  create<T extends OtpChallengeCreateArgs>(args: Prisma.SelectSubset<T, OtpChallengeCreateArgs<ExtArgs>>): Prisma.Prisma__OtpChallengeClient<runtime.Types.Result.GetResult<Prisma.$OtpChallengePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many OtpChallenges.
+   * @param {OtpChallengeCreateManyArgs} args - Arguments to create many OtpChallenges.
+   * @example
+   * // Create many OtpChallenges
+   * const otpChallenge = await prisma.otpChallenge.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends OtpChallengeCreateManyArgs>(args?: Prisma.SelectSubset<T, OtpChallengeCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many OtpChallenges and returns the data saved in the database.
+   * @param {OtpChallengeCreateManyAndReturnArgs} args - Arguments to create many OtpChallenges.
+   * @example
+   * // Create many OtpChallenges
+   * const otpChallenge = await prisma.otpChallenge.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many OtpChallenges and only return the `id`
+   * const otpChallengeWithIdOnly = await prisma.otpChallenge.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends OtpChallengeCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, OtpChallengeCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OtpChallengePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a OtpChallenge.
+   * @param {OtpChallengeDeleteArgs} args - Arguments to delete one OtpChallenge.
+   * @example
+   * // Delete one OtpChallenge
+   * const OtpChallenge = await prisma.otpChallenge.delete({
+   *   where: {
+   *     // ... filter to delete one OtpChallenge
+   *   }
+   * })
+   * 
+   */
+  delete<T extends OtpChallengeDeleteArgs>(args: Prisma.SelectSubset<T, OtpChallengeDeleteArgs<ExtArgs>>): Prisma.Prisma__OtpChallengeClient<runtime.Types.Result.GetResult<Prisma.$OtpChallengePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one OtpChallenge.
+   * @param {OtpChallengeUpdateArgs} args - Arguments to update one OtpChallenge.
+   * @example
+   * // Update one OtpChallenge
+   * const otpChallenge = await prisma.otpChallenge.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends OtpChallengeUpdateArgs>(args: Prisma.SelectSubset<T, OtpChallengeUpdateArgs<ExtArgs>>): Prisma.Prisma__OtpChallengeClient<runtime.Types.Result.GetResult<Prisma.$OtpChallengePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more OtpChallenges.
+   * @param {OtpChallengeDeleteManyArgs} args - Arguments to filter OtpChallenges to delete.
+   * @example
+   * // Delete a few OtpChallenges
+   * const { count } = await prisma.otpChallenge.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends OtpChallengeDeleteManyArgs>(args?: Prisma.SelectSubset<T, OtpChallengeDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more OtpChallenges.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OtpChallengeUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many OtpChallenges
+   * const otpChallenge = await prisma.otpChallenge.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends OtpChallengeUpdateManyArgs>(args: Prisma.SelectSubset<T, OtpChallengeUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more OtpChallenges and returns the data updated in the database.
+   * @param {OtpChallengeUpdateManyAndReturnArgs} args - Arguments to update many OtpChallenges.
+   * @example
+   * // Update many OtpChallenges
+   * const otpChallenge = await prisma.otpChallenge.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more OtpChallenges and only return the `id`
+   * const otpChallengeWithIdOnly = await prisma.otpChallenge.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends OtpChallengeUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, OtpChallengeUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OtpChallengePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one OtpChallenge.
+   * @param {OtpChallengeUpsertArgs} args - Arguments to update or create a OtpChallenge.
+   * @example
+   * // Update or create a OtpChallenge
+   * const otpChallenge = await prisma.otpChallenge.upsert({
+   *   create: {
+   *     // ... data to create a OtpChallenge
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the OtpChallenge we want to update
+   *   }
+   * })
+   */
+  upsert<T extends OtpChallengeUpsertArgs>(args: Prisma.SelectSubset<T, OtpChallengeUpsertArgs<ExtArgs>>): Prisma.Prisma__OtpChallengeClient<runtime.Types.Result.GetResult<Prisma.$OtpChallengePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of OtpChallenges.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OtpChallengeCountArgs} args - Arguments to filter OtpChallenges to count.
+   * @example
+   * // Count the number of OtpChallenges
+   * const count = await prisma.otpChallenge.count({
+   *   where: {
+   *     // ... the filter for the OtpChallenges we want to count
+   *   }
+   * })
+  **/
+  count<T extends OtpChallengeCountArgs>(
+    args?: Prisma.Subset<T, OtpChallengeCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], OtpChallengeCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a OtpChallenge.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OtpChallengeAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends OtpChallengeAggregateArgs>(args: Prisma.Subset<T, OtpChallengeAggregateArgs>): Prisma.PrismaPromise<GetOtpChallengeAggregateType<T>>
+
+  /**
+   * Group by OtpChallenge.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OtpChallengeGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends OtpChallengeGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: OtpChallengeGroupByArgs['orderBy'] }
+      : { orderBy?: OtpChallengeGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, OtpChallengeGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetOtpChallengeGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the OtpChallenge model
+ */
+readonly fields: OtpChallengeFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for OtpChallenge.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__OtpChallengeClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the OtpChallenge model
+ */
+export interface OtpChallengeFieldRefs {
+  readonly id: Prisma.FieldRef<"OtpChallenge", 'String'>
+  readonly phone: Prisma.FieldRef<"OtpChallenge", 'String'>
+  readonly codeHash: Prisma.FieldRef<"OtpChallenge", 'String'>
+  readonly attempts: Prisma.FieldRef<"OtpChallenge", 'Int'>
+  readonly expiresAt: Prisma.FieldRef<"OtpChallenge", 'DateTime'>
+  readonly consumedAt: Prisma.FieldRef<"OtpChallenge", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"OtpChallenge", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * OtpChallenge findUnique
+ */
+export type OtpChallengeFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OtpChallenge
+   */
+  select?: Prisma.OtpChallengeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OtpChallenge
+   */
+  omit?: Prisma.OtpChallengeOmit<ExtArgs> | null
+  /**
+   * Filter, which OtpChallenge to fetch.
+   */
+  where: Prisma.OtpChallengeWhereUniqueInput
+}
+
+/**
+ * OtpChallenge findUniqueOrThrow
+ */
+export type OtpChallengeFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OtpChallenge
+   */
+  select?: Prisma.OtpChallengeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OtpChallenge
+   */
+  omit?: Prisma.OtpChallengeOmit<ExtArgs> | null
+  /**
+   * Filter, which OtpChallenge to fetch.
+   */
+  where: Prisma.OtpChallengeWhereUniqueInput
+}
+
+/**
+ * OtpChallenge findFirst
+ */
+export type OtpChallengeFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OtpChallenge
+   */
+  select?: Prisma.OtpChallengeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OtpChallenge
+   */
+  omit?: Prisma.OtpChallengeOmit<ExtArgs> | null
+  /**
+   * Filter, which OtpChallenge to fetch.
+   */
+  where?: Prisma.OtpChallengeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OtpChallenges to fetch.
+   */
+  orderBy?: Prisma.OtpChallengeOrderByWithRelationInput | Prisma.OtpChallengeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for OtpChallenges.
+   */
+  cursor?: Prisma.OtpChallengeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OtpChallenges from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OtpChallenges.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of OtpChallenges.
+   */
+  distinct?: Prisma.OtpChallengeScalarFieldEnum | Prisma.OtpChallengeScalarFieldEnum[]
+}
+
+/**
+ * OtpChallenge findFirstOrThrow
+ */
+export type OtpChallengeFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OtpChallenge
+   */
+  select?: Prisma.OtpChallengeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OtpChallenge
+   */
+  omit?: Prisma.OtpChallengeOmit<ExtArgs> | null
+  /**
+   * Filter, which OtpChallenge to fetch.
+   */
+  where?: Prisma.OtpChallengeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OtpChallenges to fetch.
+   */
+  orderBy?: Prisma.OtpChallengeOrderByWithRelationInput | Prisma.OtpChallengeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for OtpChallenges.
+   */
+  cursor?: Prisma.OtpChallengeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OtpChallenges from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OtpChallenges.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of OtpChallenges.
+   */
+  distinct?: Prisma.OtpChallengeScalarFieldEnum | Prisma.OtpChallengeScalarFieldEnum[]
+}
+
+/**
+ * OtpChallenge findMany
+ */
+export type OtpChallengeFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OtpChallenge
+   */
+  select?: Prisma.OtpChallengeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OtpChallenge
+   */
+  omit?: Prisma.OtpChallengeOmit<ExtArgs> | null
+  /**
+   * Filter, which OtpChallenges to fetch.
+   */
+  where?: Prisma.OtpChallengeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OtpChallenges to fetch.
+   */
+  orderBy?: Prisma.OtpChallengeOrderByWithRelationInput | Prisma.OtpChallengeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing OtpChallenges.
+   */
+  cursor?: Prisma.OtpChallengeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OtpChallenges from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OtpChallenges.
+   */
+  skip?: number
+  distinct?: Prisma.OtpChallengeScalarFieldEnum | Prisma.OtpChallengeScalarFieldEnum[]
+}
+
+/**
+ * OtpChallenge create
+ */
+export type OtpChallengeCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OtpChallenge
+   */
+  select?: Prisma.OtpChallengeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OtpChallenge
+   */
+  omit?: Prisma.OtpChallengeOmit<ExtArgs> | null
+  /**
+   * The data needed to create a OtpChallenge.
+   */
+  data: Prisma.XOR<Prisma.OtpChallengeCreateInput, Prisma.OtpChallengeUncheckedCreateInput>
+}
+
+/**
+ * OtpChallenge createMany
+ */
+export type OtpChallengeCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many OtpChallenges.
+   */
+  data: Prisma.OtpChallengeCreateManyInput | Prisma.OtpChallengeCreateManyInput[]
+}
+
+/**
+ * OtpChallenge createManyAndReturn
+ */
+export type OtpChallengeCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OtpChallenge
+   */
+  select?: Prisma.OtpChallengeSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the OtpChallenge
+   */
+  omit?: Prisma.OtpChallengeOmit<ExtArgs> | null
+  /**
+   * The data used to create many OtpChallenges.
+   */
+  data: Prisma.OtpChallengeCreateManyInput | Prisma.OtpChallengeCreateManyInput[]
+}
+
+/**
+ * OtpChallenge update
+ */
+export type OtpChallengeUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OtpChallenge
+   */
+  select?: Prisma.OtpChallengeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OtpChallenge
+   */
+  omit?: Prisma.OtpChallengeOmit<ExtArgs> | null
+  /**
+   * The data needed to update a OtpChallenge.
+   */
+  data: Prisma.XOR<Prisma.OtpChallengeUpdateInput, Prisma.OtpChallengeUncheckedUpdateInput>
+  /**
+   * Choose, which OtpChallenge to update.
+   */
+  where: Prisma.OtpChallengeWhereUniqueInput
+}
+
+/**
+ * OtpChallenge updateMany
+ */
+export type OtpChallengeUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update OtpChallenges.
+   */
+  data: Prisma.XOR<Prisma.OtpChallengeUpdateManyMutationInput, Prisma.OtpChallengeUncheckedUpdateManyInput>
+  /**
+   * Filter which OtpChallenges to update
+   */
+  where?: Prisma.OtpChallengeWhereInput
+  /**
+   * Limit how many OtpChallenges to update.
+   */
+  limit?: number
+}
+
+/**
+ * OtpChallenge updateManyAndReturn
+ */
+export type OtpChallengeUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OtpChallenge
+   */
+  select?: Prisma.OtpChallengeSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the OtpChallenge
+   */
+  omit?: Prisma.OtpChallengeOmit<ExtArgs> | null
+  /**
+   * The data used to update OtpChallenges.
+   */
+  data: Prisma.XOR<Prisma.OtpChallengeUpdateManyMutationInput, Prisma.OtpChallengeUncheckedUpdateManyInput>
+  /**
+   * Filter which OtpChallenges to update
+   */
+  where?: Prisma.OtpChallengeWhereInput
+  /**
+   * Limit how many OtpChallenges to update.
+   */
+  limit?: number
+}
+
+/**
+ * OtpChallenge upsert
+ */
+export type OtpChallengeUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OtpChallenge
+   */
+  select?: Prisma.OtpChallengeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OtpChallenge
+   */
+  omit?: Prisma.OtpChallengeOmit<ExtArgs> | null
+  /**
+   * The filter to search for the OtpChallenge to update in case it exists.
+   */
+  where: Prisma.OtpChallengeWhereUniqueInput
+  /**
+   * In case the OtpChallenge found by the `where` argument doesn't exist, create a new OtpChallenge with this data.
+   */
+  create: Prisma.XOR<Prisma.OtpChallengeCreateInput, Prisma.OtpChallengeUncheckedCreateInput>
+  /**
+   * In case the OtpChallenge was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.OtpChallengeUpdateInput, Prisma.OtpChallengeUncheckedUpdateInput>
+}
+
+/**
+ * OtpChallenge delete
+ */
+export type OtpChallengeDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OtpChallenge
+   */
+  select?: Prisma.OtpChallengeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OtpChallenge
+   */
+  omit?: Prisma.OtpChallengeOmit<ExtArgs> | null
+  /**
+   * Filter which OtpChallenge to delete.
+   */
+  where: Prisma.OtpChallengeWhereUniqueInput
+}
+
+/**
+ * OtpChallenge deleteMany
+ */
+export type OtpChallengeDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which OtpChallenges to delete
+   */
+  where?: Prisma.OtpChallengeWhereInput
+  /**
+   * Limit how many OtpChallenges to delete.
+   */
+  limit?: number
+}
+
+/**
+ * OtpChallenge without action
+ */
+export type OtpChallengeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OtpChallenge
+   */
+  select?: Prisma.OtpChallengeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OtpChallenge
+   */
+  omit?: Prisma.OtpChallengeOmit<ExtArgs> | null
+}
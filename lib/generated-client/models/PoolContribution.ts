@@ -0,0 +1,1643 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `PoolContribution` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model PoolContribution
+ * 
+ */
+export type PoolContributionModel = runtime.Types.Result.DefaultSelection<Prisma.$PoolContributionPayload>
+
+export type AggregatePoolContribution = {
+  _count: PoolContributionCountAggregateOutputType | null
+  _avg: PoolContributionAvgAggregateOutputType | null
+  _sum: PoolContributionSumAggregateOutputType | null
+  _min: PoolContributionMinAggregateOutputType | null
+  _max: PoolContributionMaxAggregateOutputType | null
+}
+
+export type PoolContributionAvgAggregateOutputType = {
+  quantity: number | null
+  shareAmount: number | null
+}
+
+export type PoolContributionSumAggregateOutputType = {
+  quantity: number | null
+  shareAmount: number | null
+}
+
+export type PoolContributionMinAggregateOutputType = {
+  id: string | null
+  catalogId: string | null
+  farmerId: string | null
+  quantity: number | null
+  shareAmount: number | null
+  shareAnnouncedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type PoolContributionMaxAggregateOutputType = {
+  id: string | null
+  catalogId: string | null
+  farmerId: string | null
+  quantity: number | null
+  shareAmount: number | null
+  shareAnnouncedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type PoolContributionCountAggregateOutputType = {
+  id: number
+  catalogId: number
+  farmerId: number
+  quantity: number
+  shareAmount: number
+  shareAnnouncedAt: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type PoolContributionAvgAggregateInputType = {
+  quantity?: true
+  shareAmount?: true
+}
+
+export type PoolContributionSumAggregateInputType = {
+  quantity?: true
+  shareAmount?: true
+}
+
+export type PoolContributionMinAggregateInputType = {
+  id?: true
+  catalogId?: true
+  farmerId?: true
+  quantity?: true
+  shareAmount?: true
+  shareAnnouncedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type PoolContributionMaxAggregateInputType = {
+  id?: true
+  catalogId?: true
+  farmerId?: true
+  quantity?: true
+  shareAmount?: true
+  shareAnnouncedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type PoolContributionCountAggregateInputType = {
+  id?: true
+  catalogId?: true
+  farmerId?: true
+  quantity?: true
+  shareAmount?: true
+  shareAnnouncedAt?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type PoolContributionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PoolContribution to aggregate.
+   */
+  where?: Prisma.PoolContributionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PoolContributions to fetch.
+   */
+  orderBy?: Prisma.PoolContributionOrderByWithRelationInput | Prisma.PoolContributionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.PoolContributionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PoolContributions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PoolContributions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned PoolContributions
+  **/
+  _count?: true | PoolContributionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: PoolContributionAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: PoolContributionSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: PoolContributionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: PoolContributionMaxAggregateInputType
+}
+
+export type GetPoolContributionAggregateType<T extends PoolContributionAggregateArgs> = {
+      [P in keyof T & keyof AggregatePoolContribution]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregatePoolContribution[P]>
+    : Prisma.GetScalarType<T[P], AggregatePoolContribution[P]>
+}
+
+
+
+
+export type PoolContributionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PoolContributionWhereInput
+  orderBy?: Prisma.PoolContributionOrderByWithAggregationInput | Prisma.PoolContributionOrderByWithAggregationInput[]
+  by: Prisma.PoolContributionScalarFieldEnum[] | Prisma.PoolContributionScalarFieldEnum
+  having?: Prisma.PoolContributionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: PoolContributionCountAggregateInputType | true
+  _avg?: PoolContributionAvgAggregateInputType
+  _sum?: PoolContributionSumAggregateInputType
+  _min?: PoolContributionMinAggregateInputType
+  _max?: PoolContributionMaxAggregateInputType
+}
+
+export type PoolContributionGroupByOutputType = {
+  id: string
+  catalogId: string
+  farmerId: string
+  quantity: number
+  shareAmount: number | null
+  shareAnnouncedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  _count: PoolContributionCountAggregateOutputType | null
+  _avg: PoolContributionAvgAggregateOutputType | null
+  _sum: PoolContributionSumAggregateOutputType | null
+  _min: PoolContributionMinAggregateOutputType | null
+  _max: PoolContributionMaxAggregateOutputType | null
+}
+
+type GetPoolContributionGroupByPayload<T extends PoolContributionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<PoolContributionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof PoolContributionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], PoolContributionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], PoolContributionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type PoolContributionWhereInput = {
+  AND?: Prisma.PoolContributionWhereInput | Prisma.PoolContributionWhereInput[]
+  OR?: Prisma.PoolContributionWhereInput[]
+  NOT?: Prisma.PoolContributionWhereInput | Prisma.PoolContributionWhereInput[]
+  id?: Prisma.StringFilter<"PoolContribution"> | string
+  catalogId?: Prisma.StringFilter<"PoolContribution"> | string
+  farmerId?: Prisma.StringFilter<"PoolContribution"> | string
+  quantity?: Prisma.FloatFilter<"PoolContribution"> | number
+  shareAmount?: Prisma.FloatNullableFilter<"PoolContribution"> | number | null
+  shareAnnouncedAt?: Prisma.DateTimeNullableFilter<"PoolContribution"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"PoolContribution"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"PoolContribution"> | Date | string
+  catalog?: Prisma.XOR<Prisma.CatalogScalarRelationFilter, Prisma.CatalogWhereInput>
+  farmer?: Prisma.XOR<Prisma.FarmerScalarRelationFilter, Prisma.FarmerWhereInput>
+}
+
+export type PoolContributionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  catalogId?: Prisma.SortOrder
+  farmerId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  shareAmount?: Prisma.SortOrderInput | Prisma.SortOrder
+  shareAnnouncedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  catalog?: Prisma.CatalogOrderByWithRelationInput
+  farmer?: Prisma.FarmerOrderByWithRelationInput
+}
+
+export type PoolContributionWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  catalogId_farmerId?: Prisma.PoolContributionCatalogIdFarmerIdCompoundUniqueInput
+  AND?: Prisma.PoolContributionWhereInput | Prisma.PoolContributionWhereInput[]
+  OR?: Prisma.PoolContributionWhereInput[]
+  NOT?: Prisma.PoolContributionWhereInput | Prisma.PoolContributionWhereInput[]
+  catalogId?: Prisma.StringFilter<"PoolContribution"> | string
+  farmerId?: Prisma.StringFilter<"PoolContribution"> | string
+  quantity?: Prisma.FloatFilter<"PoolContribution"> | number
+  shareAmount?: Prisma.FloatNullableFilter<"PoolContribution"> | number | null
+  shareAnnouncedAt?: Prisma.DateTimeNullableFilter<"PoolContribution"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"PoolContribution"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"PoolContribution"> | Date | string
+  catalog?: Prisma.XOR<Prisma.CatalogScalarRelationFilter, Prisma.CatalogWhereInput>
+  farmer?: Prisma.XOR<Prisma.FarmerScalarRelationFilter, Prisma.FarmerWhereInput>
+}, "id" | "catalogId_farmerId">
+
+export type PoolContributionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  catalogId?: Prisma.SortOrder
+  farmerId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  shareAmount?: Prisma.SortOrderInput | Prisma.SortOrder
+  shareAnnouncedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.PoolContributionCountOrderByAggregateInput
+  _avg?: Prisma.PoolContributionAvgOrderByAggregateInput
+  _max?: Prisma.PoolContributionMaxOrderByAggregateInput
+  _min?: Prisma.PoolContributionMinOrderByAggregateInput
+  _sum?: Prisma.PoolContributionSumOrderByAggregateInput
+}
+
+export type PoolContributionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.PoolContributionScalarWhereWithAggregatesInput | Prisma.PoolContributionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.PoolContributionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.PoolContributionScalarWhereWithAggregatesInput | Prisma.PoolContributionScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"PoolContribution"> | string
+  catalogId?: Prisma.StringWithAggregatesFilter<"PoolContribution"> | string
+  farmerId?: Prisma.StringWithAggregatesFilter<"PoolContribution"> | string
+  quantity?: Prisma.FloatWithAggregatesFilter<"PoolContribution"> | number
+  shareAmount?: Prisma.FloatNullableWithAggregatesFilter<"PoolContribution"> | number | null
+  shareAnnouncedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"PoolContribution"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"PoolContribution"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"PoolContribution"> | Date | string
+}
+
+export type PoolContributionCreateInput = {
+  id?: string
+  quantity: number
+  shareAmount?: number | null
+  shareAnnouncedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  catalog: Prisma.CatalogCreateNestedOneWithoutContributionsInput
+  farmer: Prisma.FarmerCreateNestedOneWithoutPoolContributionsInput
+}
+
+export type PoolContributionUncheckedCreateInput = {
+  id?: string
+  catalogId: string
+  farmerId: string
+  quantity: number
+  shareAmount?: number | null
+  shareAnnouncedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PoolContributionUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  shareAmount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  shareAnnouncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  catalog?: Prisma.CatalogUpdateOneRequiredWithoutContributionsNestedInput
+  farmer?: Prisma.FarmerUpdateOneRequiredWithoutPoolContributionsNestedInput
+}
+
+export type PoolContributionUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  catalogId?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  shareAmount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  shareAnnouncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PoolContributionCreateManyInput = {
+  id?: string
+  catalogId: string
+  farmerId: string
+  quantity: number
+  shareAmount?: number | null
+  shareAnnouncedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PoolContributionUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  shareAmount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  shareAnnouncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PoolContributionUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  catalogId?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  shareAmount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  shareAnnouncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PoolContributionListRelationFilter = {
+  every?: Prisma.PoolContributionWhereInput
+  some?: Prisma.PoolContributionWhereInput
+  none?: Prisma.PoolContributionWhereInput
+}
+
+export type PoolContributionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type PoolContributionCatalogIdFarmerIdCompoundUniqueInput = {
+  catalogId: string
+  farmerId: string
+}
+
+export type PoolContributionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  catalogId?: Prisma.SortOrder
+  farmerId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  shareAmount?: Prisma.SortOrder
+  shareAnnouncedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PoolContributionAvgOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+  shareAmount?: Prisma.SortOrder
+}
+
+export type PoolContributionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  catalogId?: Prisma.SortOrder
+  farmerId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  shareAmount?: Prisma.SortOrder
+  shareAnnouncedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PoolContributionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  catalogId?: Prisma.SortOrder
+  farmerId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  shareAmount?: Prisma.SortOrder
+  shareAnnouncedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PoolContributionSumOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+  shareAmount?: Prisma.SortOrder
+}
+
+export type PoolContributionCreateNestedManyWithoutFarmerInput = {
+  create?: Prisma.XOR<Prisma.PoolContributionCreateWithoutFarmerInput, Prisma.PoolContributionUncheckedCreateWithoutFarmerInput> | Prisma.PoolContributionCreateWithoutFarmerInput[] | Prisma.PoolContributionUncheckedCreateWithoutFarmerInput[]
+  connectOrCreate?: Prisma.PoolContributionCreateOrConnectWithoutFarmerInput | Prisma.PoolContributionCreateOrConnectWithoutFarmerInput[]
+  createMany?: Prisma.PoolContributionCreateManyFarmerInputEnvelope
+  connect?: Prisma.PoolContributionWhereUniqueInput | Prisma.PoolContributionWhereUniqueInput[]
+}
+
+export type PoolContributionUncheckedCreateNestedManyWithoutFarmerInput = {
+  create?: Prisma.XOR<Prisma.PoolContributionCreateWithoutFarmerInput, Prisma.PoolContributionUncheckedCreateWithoutFarmerInput> | Prisma.PoolContributionCreateWithoutFarmerInput[] | Prisma.PoolContributionUncheckedCreateWithoutFarmerInput[]
+  connectOrCreate?: Prisma.PoolContributionCreateOrConnectWithoutFarmerInput | Prisma.PoolContributionCreateOrConnectWithoutFarmerInput[]
+  createMany?: Prisma.PoolContributionCreateManyFarmerInputEnvelope
+  connect?: Prisma.PoolContributionWhereUniqueInput | Prisma.PoolContributionWhereUniqueInput[]
+}
+
+export type PoolContributionUpdateManyWithoutFarmerNestedInput = {
+  create?: Prisma.XOR<Prisma.PoolContributionCreateWithoutFarmerInput, Prisma.PoolContributionUncheckedCreateWithoutFarmerInput> | Prisma.PoolContributionCreateWithoutFarmerInput[] | Prisma.PoolContributionUncheckedCreateWithoutFarmerInput[]
+  connectOrCreate?: Prisma.PoolContributionCreateOrConnectWithoutFarmerInput | Prisma.PoolContributionCreateOrConnectWithoutFarmerInput[]
+  upsert?: Prisma.PoolContributionUpsertWithWhereUniqueWithoutFarmerInput | Prisma.PoolContributionUpsertWithWhereUniqueWithoutFarmerInput[]
+  createMany?: Prisma.PoolContributionCreateManyFarmerInputEnvelope
+  set?: Prisma.PoolContributionWhereUniqueInput | Prisma.PoolContributionWhereUniqueInput[]
+  disconnect?: Prisma.PoolContributionWhereUniqueInput | Prisma.PoolContributionWhereUniqueInput[]
+  delete?: Prisma.PoolContributionWhereUniqueInput | Prisma.PoolContributionWhereUniqueInput[]
+  connect?: Prisma.PoolContributionWhereUniqueInput | Prisma.PoolContributionWhereUniqueInput[]
+  update?: Prisma.PoolContributionUpdateWithWhereUniqueWithoutFarmerInput | Prisma.PoolContributionUpdateWithWhereUniqueWithoutFarmerInput[]
+  updateMany?: Prisma.PoolContributionUpdateManyWithWhereWithoutFarmerInput | Prisma.PoolContributionUpdateManyWithWhereWithoutFarmerInput[]
+  deleteMany?: Prisma.PoolContributionScalarWhereInput | Prisma.PoolContributionScalarWhereInput[]
+}
+
+export type PoolContributionUncheckedUpdateManyWithoutFarmerNestedInput = {
+  create?: Prisma.XOR<Prisma.PoolContributionCreateWithoutFarmerInput, Prisma.PoolContributionUncheckedCreateWithoutFarmerInput> | Prisma.PoolContributionCreateWithoutFarmerInput[] | Prisma.PoolContributionUncheckedCreateWithoutFarmerInput[]
+  connectOrCreate?: Prisma.PoolContributionCreateOrConnectWithoutFarmerInput | Prisma.PoolContributionCreateOrConnectWithoutFarmerInput[]
+  upsert?: Prisma.PoolContributionUpsertWithWhereUniqueWithoutFarmerInput | Prisma.PoolContributionUpsertWithWhereUniqueWithoutFarmerInput[]
+  createMany?: Prisma.PoolContributionCreateManyFarmerInputEnvelope
+  set?: Prisma.PoolContributionWhereUniqueInput | Prisma.PoolContributionWhereUniqueInput[]
+  disconnect?: Prisma.PoolContributionWhereUniqueInput | Prisma.PoolContributionWhereUniqueInput[]
+  delete?: Prisma.PoolContributionWhereUniqueInput | Prisma.PoolContributionWhereUniqueInput[]
+  connect?: Prisma.PoolContributionWhereUniqueInput | Prisma.PoolContributionWhereUniqueInput[]
+  update?: Prisma.PoolContributionUpdateWithWhereUniqueWithoutFarmerInput | Prisma.PoolContributionUpdateWithWhereUniqueWithoutFarmerInput[]
+  updateMany?: Prisma.PoolContributionUpdateManyWithWhereWithoutFarmerInput | Prisma.PoolContributionUpdateManyWithWhereWithoutFarmerInput[]
+  deleteMany?: Prisma.PoolContributionScalarWhereInput | Prisma.PoolContributionScalarWhereInput[]
+}
+
+export type PoolContributionCreateNestedManyWithoutCatalogInput = {
+  create?: Prisma.XOR<Prisma.PoolContributionCreateWithoutCatalogInput, Prisma.PoolContributionUncheckedCreateWithoutCatalogInput> | Prisma.PoolContributionCreateWithoutCatalogInput[] | Prisma.PoolContributionUncheckedCreateWithoutCatalogInput[]
+  connectOrCreate?: Prisma.PoolContributionCreateOrConnectWithoutCatalogInput | Prisma.PoolContributionCreateOrConnectWithoutCatalogInput[]
+  createMany?: Prisma.PoolContributionCreateManyCatalogInputEnvelope
+  connect?: Prisma.PoolContributionWhereUniqueInput | Prisma.PoolContributionWhereUniqueInput[]
+}
+
+export type PoolContributionUncheckedCreateNestedManyWithoutCatalogInput = {
+  create?: Prisma.XOR<Prisma.PoolContributionCreateWithoutCatalogInput, Prisma.PoolContributionUncheckedCreateWithoutCatalogInput> | Prisma.PoolContributionCreateWithoutCatalogInput[] | Prisma.PoolContributionUncheckedCreateWithoutCatalogInput[]
+  connectOrCreate?: Prisma.PoolContributionCreateOrConnectWithoutCatalogInput | Prisma.PoolContributionCreateOrConnectWithoutCatalogInput[]
+  createMany?: Prisma.PoolContributionCreateManyCatalogInputEnvelope
+  connect?: Prisma.PoolContributionWhereUniqueInput | Prisma.PoolContributionWhereUniqueInput[]
+}
+
+export type PoolContributionUpdateManyWithoutCatalogNestedInput = {
+  create?: Prisma.XOR<Prisma.PoolContributionCreateWithoutCatalogInput, Prisma.PoolContributionUncheckedCreateWithoutCatalogInput> | Prisma.PoolContributionCreateWithoutCatalogInput[] | Prisma.PoolContributionUncheckedCreateWithoutCatalogInput[]
+  connectOrCreate?: Prisma.PoolContributionCreateOrConnectWithoutCatalogInput | Prisma.PoolContributionCreateOrConnectWithoutCatalogInput[]
+  upsert?: Prisma.PoolContributionUpsertWithWhereUniqueWithoutCatalogInput | Prisma.PoolContributionUpsertWithWhereUniqueWithoutCatalogInput[]
+  createMany?: Prisma.PoolContributionCreateManyCatalogInputEnvelope
+  set?: Prisma.PoolContributionWhereUniqueInput | Prisma.PoolContributionWhereUniqueInput[]
+  disconnect?: Prisma.PoolContributionWhereUniqueInput | Prisma.PoolContributionWhereUniqueInput[]
+  delete?: Prisma.PoolContributionWhereUniqueInput | Prisma.PoolContributionWhereUniqueInput[]
+  connect?: Prisma.PoolContributionWhereUniqueInput | Prisma.PoolContributionWhereUniqueInput[]
+  update?: Prisma.PoolContributionUpdateWithWhereUniqueWithoutCatalogInput | Prisma.PoolContributionUpdateWithWhereUniqueWithoutCatalogInput[]
+  updateMany?: Prisma.PoolContributionUpdateManyWithWhereWithoutCatalogInput | Prisma.PoolContributionUpdateManyWithWhereWithoutCatalogInput[]
+  deleteMany?: Prisma.PoolContributionScalarWhereInput | Prisma.PoolContributionScalarWhereInput[]
+}
+
+export type PoolContributionUncheckedUpdateManyWithoutCatalogNestedInput = {
+  create?: Prisma.XOR<Prisma.PoolContributionCreateWithoutCatalogInput, Prisma.PoolContributionUncheckedCreateWithoutCatalogInput> | Prisma.PoolContributionCreateWithoutCatalogInput[] | Prisma.PoolContributionUncheckedCreateWithoutCatalogInput[]
+  connectOrCreate?: Prisma.PoolContributionCreateOrConnectWithoutCatalogInput | Prisma.PoolContributionCreateOrConnectWithoutCatalogInput[]
+  upsert?: Prisma.PoolContributionUpsertWithWhereUniqueWithoutCatalogInput | Prisma.PoolContributionUpsertWithWhereUniqueWithoutCatalogInput[]
+  createMany?: Prisma.PoolContributionCreateManyCatalogInputEnvelope
+  set?: Prisma.PoolContributionWhereUniqueInput | Prisma.PoolContributionWhereUniqueInput[]
+  disconnect?: Prisma.PoolContributionWhereUniqueInput | Prisma.PoolContributionWhereUniqueInput[]
+  delete?: Prisma.PoolContributionWhereUniqueInput | Prisma.PoolContributionWhereUniqueInput[]
+  connect?: Prisma.PoolContributionWhereUniqueInput | Prisma.PoolContributionWhereUniqueInput[]
+  update?: Prisma.PoolContributionUpdateWithWhereUniqueWithoutCatalogInput | Prisma.PoolContributionUpdateWithWhereUniqueWithoutCatalogInput[]
+  updateMany?: Prisma.PoolContributionUpdateManyWithWhereWithoutCatalogInput | Prisma.PoolContributionUpdateManyWithWhereWithoutCatalogInput[]
+  deleteMany?: Prisma.PoolContributionScalarWhereInput | Prisma.PoolContributionScalarWhereInput[]
+}
+
+export type FloatFieldUpdateOperationsInput = {
+  set?: number
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
+export type PoolContributionCreateWithoutFarmerInput = {
+  id?: string
+  quantity: number
+  shareAmount?: number | null
+  shareAnnouncedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  catalog: Prisma.CatalogCreateNestedOneWithoutContributionsInput
+}
+
+export type PoolContributionUncheckedCreateWithoutFarmerInput = {
+  id?: string
+  catalogId: string
+  quantity: number
+  shareAmount?: number | null
+  shareAnnouncedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PoolContributionCreateOrConnectWithoutFarmerInput = {
+  where: Prisma.PoolContributionWhereUniqueInput
+  create: Prisma.XOR<Prisma.PoolContributionCreateWithoutFarmerInput, Prisma.PoolContributionUncheckedCreateWithoutFarmerInput>
+}
+
+export type PoolContributionCreateManyFarmerInputEnvelope = {
+  data: Prisma.PoolContributionCreateManyFarmerInput | Prisma.PoolContributionCreateManyFarmerInput[]
+}
+
+export type PoolContributionUpsertWithWhereUniqueWithoutFarmerInput = {
+  where: Prisma.PoolContributionWhereUniqueInput
+  update: Prisma.XOR<Prisma.PoolContributionUpdateWithoutFarmerInput, Prisma.PoolContributionUncheckedUpdateWithoutFarmerInput>
+  create: Prisma.XOR<Prisma.PoolContributionCreateWithoutFarmerInput, Prisma.PoolContributionUncheckedCreateWithoutFarmerInput>
+}
+
+export type PoolContributionUpdateWithWhereUniqueWithoutFarmerInput = {
+  where: Prisma.PoolContributionWhereUniqueInput
+  data: Prisma.XOR<Prisma.PoolContributionUpdateWithoutFarmerInput, Prisma.PoolContributionUncheckedUpdateWithoutFarmerInput>
+}
+
+export type PoolContributionUpdateManyWithWhereWithoutFarmerInput = {
+  where: Prisma.PoolContributionScalarWhereInput
+  data: Prisma.XOR<Prisma.PoolContributionUpdateManyMutationInput, Prisma.PoolContributionUncheckedUpdateManyWithoutFarmerInput>
+}
+
+export type PoolContributionScalarWhereInput = {
+  AND?: Prisma.PoolContributionScalarWhereInput | Prisma.PoolContributionScalarWhereInput[]
+  OR?: Prisma.PoolContributionScalarWhereInput[]
+  NOT?: Prisma.PoolContributionScalarWhereInput | Prisma.PoolContributionScalarWhereInput[]
+  id?: Prisma.StringFilter<"PoolContribution"> | string
+  catalogId?: Prisma.StringFilter<"PoolContribution"> | string
+  farmerId?: Prisma.StringFilter<"PoolContribution"> | string
+  quantity?: Prisma.FloatFilter<"PoolContribution"> | number
+  shareAmount?: Prisma.FloatNullableFilter<"PoolContribution"> | number | null
+  shareAnnouncedAt?: Prisma.DateTimeNullableFilter<"PoolContribution"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"PoolContribution"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"PoolContribution"> | Date | string
+}
+
+export type PoolContributionCreateWithoutCatalogInput = {
+  id?: string
+  quantity: number
+  shareAmount?: number | null
+  shareAnnouncedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  farmer: Prisma.FarmerCreateNestedOneWithoutPoolContributionsInput
+}
+
+export type PoolContributionUncheckedCreateWithoutCatalogInput = {
+  id?: string
+  farmerId: string
+  quantity: number
+  shareAmount?: number | null
+  shareAnnouncedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PoolContributionCreateOrConnectWithoutCatalogInput = {
+  where: Prisma.PoolContributionWhereUniqueInput
+  create: Prisma.XOR<Prisma.PoolContributionCreateWithoutCatalogInput, Prisma.PoolContributionUncheckedCreateWithoutCatalogInput>
+}
+
+export type PoolContributionCreateManyCatalogInputEnvelope = {
+  data: Prisma.PoolContributionCreateManyCatalogInput | Prisma.PoolContributionCreateManyCatalogInput[]
+}
+
+export type PoolContributionUpsertWithWhereUniqueWithoutCatalogInput = {
+  where: Prisma.PoolContributionWhereUniqueInput
+  update: Prisma.XOR<Prisma.PoolContributionUpdateWithoutCatalogInput, Prisma.PoolContributionUncheckedUpdateWithoutCatalogInput>
+  create: Prisma.XOR<Prisma.PoolContributionCreateWithoutCatalogInput, Prisma.PoolContributionUncheckedCreateWithoutCatalogInput>
+}
+
+export type PoolContributionUpdateWithWhereUniqueWithoutCatalogInput = {
+  where: Prisma.PoolContributionWhereUniqueInput
+  data: Prisma.XOR<Prisma.PoolContributionUpdateWithoutCatalogInput, Prisma.PoolContributionUncheckedUpdateWithoutCatalogInput>
+}
+
+export type PoolContributionUpdateManyWithWhereWithoutCatalogInput = {
+  where: Prisma.PoolContributionScalarWhereInput
+  data: Prisma.XOR<Prisma.PoolContributionUpdateManyMutationInput, Prisma.PoolContributionUncheckedUpdateManyWithoutCatalogInput>
+}
+
+export type PoolContributionCreateManyFarmerInput = {
+  id?: string
+  catalogId: string
+  quantity: number
+  shareAmount?: number | null
+  shareAnnouncedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PoolContributionUpdateWithoutFarmerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  shareAmount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  shareAnnouncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  catalog?: Prisma.CatalogUpdateOneRequiredWithoutContributionsNestedInput
+}
+
+export type PoolContributionUncheckedUpdateWithoutFarmerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  catalogId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  shareAmount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  shareAnnouncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PoolContributionUncheckedUpdateManyWithoutFarmerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  catalogId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  shareAmount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  shareAnnouncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PoolContributionCreateManyCatalogInput = {
+  id?: string
+  farmerId: string
+  quantity: number
+  shareAmount?: number | null
+  shareAnnouncedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PoolContributionUpdateWithoutCatalogInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  shareAmount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  shareAnnouncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  farmer?: Prisma.FarmerUpdateOneRequiredWithoutPoolContributionsNestedInput
+}
+
+export type PoolContributionUncheckedUpdateWithoutCatalogInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  shareAmount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  shareAnnouncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PoolContributionUncheckedUpdateManyWithoutCatalogInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  shareAmount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  shareAnnouncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type PoolContributionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  catalogId?: boolean
+  farmerId?: boolean
+  quantity?: boolean
+  shareAmount?: boolean
+  shareAnnouncedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  catalog?: boolean | Prisma.CatalogDefaultArgs<ExtArgs>
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["poolContribution"]>
+
+export type PoolContributionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  catalogId?: boolean
+  farmerId?: boolean
+  quantity?: boolean
+  shareAmount?: boolean
+  shareAnnouncedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  catalog?: boolean | Prisma.CatalogDefaultArgs<ExtArgs>
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["poolContribution"]>
+
+export type PoolContributionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  catalogId?: boolean
+  farmerId?: boolean
+  quantity?: boolean
+  shareAmount?: boolean
+  shareAnnouncedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  catalog?: boolean | Prisma.CatalogDefaultArgs<ExtArgs>
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["poolContribution"]>
+
+export type PoolContributionSelectScalar = {
+  id?: boolean
+  catalogId?: boolean
+  farmerId?: boolean
+  quantity?: boolean
+  shareAmount?: boolean
+  shareAnnouncedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type PoolContributionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "catalogId" | "farmerId" | "quantity" | "shareAmount" | "shareAnnouncedAt" | "createdAt" | "updatedAt", ExtArgs["result"]["poolContribution"]>
+export type PoolContributionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  catalog?: boolean | Prisma.CatalogDefaultArgs<ExtArgs>
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+}
+export type PoolContributionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  catalog?: boolean | Prisma.CatalogDefaultArgs<ExtArgs>
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+}
+export type PoolContributionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  catalog?: boolean | Prisma.CatalogDefaultArgs<ExtArgs>
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+}
+
+export type $PoolContributionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "PoolContribution"
+  objects: {
+    catalog: Prisma.$CatalogPayload<ExtArgs>
+    farmer: Prisma.$FarmerPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    catalogId: string
+    farmerId: string
+    quantity: number
+    shareAmount: number | null
+    shareAnnouncedAt: Date | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["poolContribution"]>
+  composites: {}
+}
+
+export type PoolContributionGetPayload<S extends boolean | null | undefined | PoolContributionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$PoolContributionPayload, S>
+
+export type PoolContributionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<PoolContributionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: PoolContributionCountAggregateInputType | true
+  }
+
+export interface PoolContributionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['PoolContribution'], meta: { name: 'PoolContribution' } }
+  /**
+   * Find zero or one PoolContribution that matches the filter.
+   * @param {PoolContributionFindUniqueArgs} args - Arguments to find a PoolContribution
+   * @example
+   * // Get one PoolContribution
+   * const poolContribution = await prisma.poolContribution.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends PoolContributionFindUniqueArgs>(args: Prisma.SelectSubset<T, PoolContributionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__PoolContributionClient<runtime.Types.Result.GetResult<Prisma.$PoolContributionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one PoolContribution that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {PoolContributionFindUniqueOrThrowArgs} args - Arguments to find a PoolContribution
+   * @example
+   * // Get one PoolContribution
+   * const poolContribution = await prisma.poolContribution.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends PoolContributionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, PoolContributionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__PoolContributionClient<runtime.Types.Result.GetResult<Prisma.$PoolContributionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PoolContribution that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PoolContributionFindFirstArgs} args - Arguments to find a PoolContribution
+   * @example
+   * // Get one PoolContribution
+   * const poolContribution = await prisma.poolContribution.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends PoolContributionFindFirstArgs>(args?: Prisma.SelectSubset<T, PoolContributionFindFirstArgs<ExtArgs>>): Prisma.Prisma__PoolContributionClient<runtime.Types.Result.GetResult<Prisma.$PoolContributionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PoolContribution that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PoolContributionFindFirstOrThrowArgs} args - Arguments to find a PoolContribution
+   * @example
+   * // Get one PoolContribution
+   * const poolContribution = await prisma.poolContribution.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends PoolContributionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, PoolContributionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__PoolContributionClient<runtime.Types.Result.GetResult<Prisma.$PoolContributionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more PoolContributions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PoolContributionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all PoolContributions
+   * const poolContributions = await prisma.poolContribution.findMany()
+   * 
+   * // Get first 10 PoolContributions
+   * const poolContributions = await prisma.poolContribution.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const poolContributionWithIdOnly = await prisma.poolContribution.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends PoolContributionFindManyArgs>(args?: Prisma.SelectSubset<T, PoolContributionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PoolContributionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a PoolContribution.
+   * @param {PoolContributionCreateArgs} args - Arguments to create a PoolContribution.
+   * @example
+   * // Create one PoolContribution
+   * const PoolContribution = await prisma.poolContribution.create({
+   *   data: {
+   *     // ... data to create a PoolContribution
+   *   }
+   * })
+   * 
+   */
+  create<T extends PoolContributionCreateArgs>(args: Prisma.SelectSubset<T, PoolContributionCreateArgs<ExtArgs>>): Prisma.Prisma__PoolContributionClient<runtime.Types.Result.GetResult<Prisma.$PoolContributionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many PoolContributions.
+   * @param {PoolContributionCreateManyArgs} args - Arguments to create many PoolContributions.
+   * @example
+   * // Create many PoolContributions
+   * const poolContribution = await prisma.poolContribution.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends PoolContributionCreateManyArgs>(args?: Prisma.SelectSubset<T, PoolContributionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many PoolContributions and returns the data saved in the database.
+   * @param {PoolContributionCreateManyAndReturnArgs} args - Arguments to create many PoolContributions.
+   * @example
+   * // Create many PoolContributions
+   * const poolContribution = await prisma.poolContribution.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many PoolContributions and only return the `id`
+   * const poolContributionWithIdOnly = await prisma.poolContribution.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends PoolContributionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, PoolContributionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PoolContributionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a PoolContribution.
+   * @param {PoolContributionDeleteArgs} args - Arguments to delete one PoolContribution.
+   * @example
+   * // Delete one PoolContribution
+   * const PoolContribution = await prisma.poolContribution.delete({
+   *   where: {
+   *     // ... filter to delete one PoolContribution
+   *   }
+   * })
+   * 
+   */
+  delete<T extends PoolContributionDeleteArgs>(args: Prisma.SelectSubset<T, PoolContributionDeleteArgs<ExtArgs>>): Prisma.Prisma__PoolContributionClient<runtime.Types.Result.GetResult<Prisma.$PoolContributionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one PoolContribution.
+   * @param {PoolContributionUpdateArgs} args - Arguments to update one PoolContribution.
+   * @example
+   * // Update one PoolContribution
+   * const poolContribution = await prisma.poolContribution.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends PoolContributionUpdateArgs>(args: Prisma.SelectSubset<T, PoolContributionUpdateArgs<ExtArgs>>): Prisma.Prisma__PoolContributionClient<runtime.Types.Result.GetResult<Prisma.$PoolContributionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more PoolContributions.
+   * @param {PoolContributionDeleteManyArgs} args - Arguments to filter PoolContributions to delete.
+   * @example
+   * // Delete a few PoolContributions
+   * const { count } = await prisma.poolContribution.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends PoolContributionDeleteManyArgs>(args?: Prisma.SelectSubset<T, PoolContributionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PoolContributions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PoolContributionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many PoolContributions
+   * const poolContribution = await prisma.poolContribution.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends PoolContributionUpdateManyArgs>(args: Prisma.SelectSubset<T, PoolContributionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PoolContributions and returns the data updated in the database.
+   * @param {PoolContributionUpdateManyAndReturnArgs} args - Arguments to update many PoolContributions.
+   * @example
+   * // Update many PoolContributions
+   * const poolContribution = await prisma.poolContribution.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more PoolContributions and only return the `id`
+   * const poolContributionWithIdOnly = await prisma.poolContribution.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends PoolContributionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, PoolContributionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PoolContributionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one PoolContribution.
+   * @param {PoolContributionUpsertArgs} args - Arguments to update or create a PoolContribution.
+   * @example
+   * // Update or create a PoolContribution
+   * const poolContribution = await prisma.poolContribution.upsert({
+   *   create: {
+   *     // ... data to create a PoolContribution
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the PoolContribution we want to update
+   *   }
+   * })
+   */
+  upsert<T extends PoolContributionUpsertArgs>(args: Prisma.SelectSubset<T, PoolContributionUpsertArgs<ExtArgs>>): Prisma.Prisma__PoolContributionClient<runtime.Types.Result.GetResult<Prisma.$PoolContributionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of PoolContributions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PoolContributionCountArgs} args - Arguments to filter PoolContributions to count.
+   * @example
+   * // Count the number of PoolContributions
+   * const count = await prisma.poolContribution.count({
+   *   where: {
+   *     // ... the filter for the PoolContributions we want to count
+   *   }
+   * })
+  **/
+  count<T extends PoolContributionCountArgs>(
+    args?: Prisma.Subset<T, PoolContributionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], PoolContributionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a PoolContribution.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PoolContributionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends PoolContributionAggregateArgs>(args: Prisma.Subset<T, PoolContributionAggregateArgs>): Prisma.PrismaPromise<GetPoolContributionAggregateType<T>>
+
+  /**
+   * Group by PoolContribution.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PoolContributionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends PoolContributionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: PoolContributionGroupByArgs['orderBy'] }
+      : { orderBy?: PoolContributionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, PoolContributionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetPoolContributionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the PoolContribution model
+ */
+readonly fields: PoolContributionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for PoolContribution.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__PoolContributionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  catalog<T extends Prisma.CatalogDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CatalogDefaultArgs<ExtArgs>>): Prisma.Prisma__CatalogClient<runtime.Types.Result.GetResult<Prisma.$CatalogPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  farmer<T extends Prisma.FarmerDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.FarmerDefaultArgs<ExtArgs>>): Prisma.Prisma__FarmerClient<runtime.Types.Result.GetResult<Prisma.$FarmerPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the PoolContribution model
+ */
+export interface PoolContributionFieldRefs {
+  readonly id: Prisma.FieldRef<"PoolContribution", 'String'>
+  readonly catalogId: Prisma.FieldRef<"PoolContribution", 'String'>
+  readonly farmerId: Prisma.FieldRef<"PoolContribution", 'String'>
+  readonly quantity: Prisma.FieldRef<"PoolContribution", 'Float'>
+  readonly shareAmount: Prisma.FieldRef<"PoolContribution", 'Float'>
+  readonly shareAnnouncedAt: Prisma.FieldRef<"PoolContribution", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"PoolContribution", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"PoolContribution", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * PoolContribution findUnique
+ */
+export type PoolContributionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PoolContribution
+   */
+  select?: Prisma.PoolContributionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PoolContribution
+   */
+  omit?: Prisma.PoolContributionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PoolContributionInclude<ExtArgs> | null
+  /**
+   * Filter, which PoolContribution to fetch.
+   */
+  where: Prisma.PoolContributionWhereUniqueInput
+}
+
+/**
+ * PoolContribution findUniqueOrThrow
+ */
+export type PoolContributionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PoolContribution
+   */
+  select?: Prisma.PoolContributionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PoolContribution
+   */
+  omit?: Prisma.PoolContributionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PoolContributionInclude<ExtArgs> | null
+  /**
+   * Filter, which PoolContribution to fetch.
+   */
+  where: Prisma.PoolContributionWhereUniqueInput
+}
+
+/**
+ * PoolContribution findFirst
+ */
+export type PoolContributionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PoolContribution
+   */
+  select?: Prisma.PoolContributionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PoolContribution
+   */
+  omit?: Prisma.PoolContributionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PoolContributionInclude<ExtArgs> | null
+  /**
+   * Filter, which PoolContribution to fetch.
+   */
+  where?: Prisma.PoolContributionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PoolContributions to fetch.
+   */
+  orderBy?: Prisma.PoolContributionOrderByWithRelationInput | Prisma.PoolContributionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PoolContributions.
+   */
+  cursor?: Prisma.PoolContributionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PoolContributions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PoolContributions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PoolContributions.
+   */
+  distinct?: Prisma.PoolContributionScalarFieldEnum | Prisma.PoolContributionScalarFieldEnum[]
+}
+
+/**
+ * PoolContribution findFirstOrThrow
+ */
+export type PoolContributionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PoolContribution
+   */
+  select?: Prisma.PoolContributionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PoolContribution
+   */
+  omit?: Prisma.PoolContributionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PoolContributionInclude<ExtArgs> | null
+  /**
+   * Filter, which PoolContribution to fetch.
+   */
+  where?: Prisma.PoolContributionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PoolContributions to fetch.
+   */
+  orderBy?: Prisma.PoolContributionOrderByWithRelationInput | Prisma.PoolContributionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PoolContributions.
+   */
+  cursor?: Prisma.PoolContributionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PoolContributions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PoolContributions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PoolContributions.
+   */
+  distinct?: Prisma.PoolContributionScalarFieldEnum | Prisma.PoolContributionScalarFieldEnum[]
+}
+
+/**
+ * PoolContribution findMany
+ */
+export type PoolContributionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PoolContribution
+   */
+  select?: Prisma.PoolContributionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PoolContribution
+   */
+  omit?: Prisma.PoolContributionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PoolContributionInclude<ExtArgs> | null
+  /**
+   * Filter, which PoolContributions to fetch.
+   */
+  where?: Prisma.PoolContributionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PoolContributions to fetch.
+   */
+  orderBy?: Prisma.PoolContributionOrderByWithRelationInput | Prisma.PoolContributionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing PoolContributions.
+   */
+  cursor?: Prisma.PoolContributionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PoolContributions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PoolContributions.
+   */
+  skip?: number
+  distinct?: Prisma.PoolContributionScalarFieldEnum | Prisma.PoolContributionScalarFieldEnum[]
+}
+
+/**
+ * PoolContribution create
+ */
+export type PoolContributionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PoolContribution
+   */
+  select?: Prisma.PoolContributionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PoolContribution
+   */
+  omit?: Prisma.PoolContributionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PoolContributionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a PoolContribution.
+   */
+  data: Prisma.XOR<Prisma.PoolContributionCreateInput, Prisma.PoolContributionUncheckedCreateInput>
+}
+
+/**
+ * PoolContribution createMany
+ */
+export type PoolContributionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many PoolContributions.
+   */
+  data: Prisma.PoolContributionCreateManyInput | Prisma.PoolContributionCreateManyInput[]
+}
+
+/**
+ * PoolContribution createManyAndReturn
+ */
+export type PoolContributionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PoolContribution
+   */
+  select?: Prisma.PoolContributionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PoolContribution
+   */
+  omit?: Prisma.PoolContributionOmit<ExtArgs> | null
+  /**
+   * The data used to create many PoolContributions.
+   */
+  data: Prisma.PoolContributionCreateManyInput | Prisma.PoolContributionCreateManyInput[]
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PoolContributionIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * PoolContribution update
+ */
+export type PoolContributionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PoolContribution
+   */
+  select?: Prisma.PoolContributionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PoolContribution
+   */
+  omit?: Prisma.PoolContributionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PoolContributionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a PoolContribution.
+   */
+  data: Prisma.XOR<Prisma.PoolContributionUpdateInput, Prisma.PoolContributionUncheckedUpdateInput>
+  /**
+   * Choose, which PoolContribution to update.
+   */
+  where: Prisma.PoolContributionWhereUniqueInput
+}
+
+/**
+ * PoolContribution updateMany
+ */
+export type PoolContributionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update PoolContributions.
+   */
+  data: Prisma.XOR<Prisma.PoolContributionUpdateManyMutationInput, Prisma.PoolContributionUncheckedUpdateManyInput>
+  /**
+   * Filter which PoolContributions to update
+   */
+  where?: Prisma.PoolContributionWhereInput
+  /**
+   * Limit how many PoolContributions to update.
+   */
+  limit?: number
+}
+
+/**
+ * PoolContribution updateManyAndReturn
+ */
+export type PoolContributionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PoolContribution
+   */
+  select?: Prisma.PoolContributionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PoolContribution
+   */
+  omit?: Prisma.PoolContributionOmit<ExtArgs> | null
+  /**
+   * The data used to update PoolContributions.
+   */
+  data: Prisma.XOR<Prisma.PoolContributionUpdateManyMutationInput, Prisma.PoolContributionUncheckedUpdateManyInput>
+  /**
+   * Filter which PoolContributions to update
+   */
+  where?: Prisma.PoolContributionWhereInput
+  /**
+   * Limit how many PoolContributions to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PoolContributionIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * PoolContribution upsert
+ */
+export type PoolContributionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PoolContribution
+   */
+  select?: Prisma.PoolContributionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PoolContribution
+   */
+  omit?: Prisma.PoolContributionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PoolContributionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the PoolContribution to update in case it exists.
+   */
+  where: Prisma.PoolContributionWhereUniqueInput
+  /**
+   * In case the PoolContribution found by the `where` argument doesn't exist, create a new PoolContribution with this data.
+   */
+  create: Prisma.XOR<Prisma.PoolContributionCreateInput, Prisma.PoolContributionUncheckedCreateInput>
+  /**
+   * In case the PoolContribution was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.PoolContributionUpdateInput, Prisma.PoolContributionUncheckedUpdateInput>
+}
+
+/**
+ * PoolContribution delete
+ */
+export type PoolContributionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PoolContribution
+   */
+  select?: Prisma.PoolContributionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PoolContribution
+   */
+  omit?: Prisma.PoolContributionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PoolContributionInclude<ExtArgs> | null
+  /**
+   * Filter which PoolContribution to delete.
+   */
+  where: Prisma.PoolContributionWhereUniqueInput
+}
+
+/**
+ * PoolContribution deleteMany
+ */
+export type PoolContributionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PoolContributions to delete
+   */
+  where?: Prisma.PoolContributionWhereInput
+  /**
+   * Limit how many PoolContributions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * PoolContribution without action
+ */
+export type PoolContributionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PoolContribution
+   */
+  select?: Prisma.PoolContributionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PoolContribution
+   */
+  omit?: Prisma.PoolContributionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PoolContributionInclude<ExtArgs> | null
+}
@@ -0,0 +1,1523 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `VoiceConversation` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model VoiceConversation
+ * 
+ */
+export type VoiceConversationModel = runtime.Types.Result.DefaultSelection<Prisma.$VoiceConversationPayload>
+
+export type AggregateVoiceConversation = {
+  _count: VoiceConversationCountAggregateOutputType | null
+  _min: VoiceConversationMinAggregateOutputType | null
+  _max: VoiceConversationMaxAggregateOutputType | null
+}
+
+export type VoiceConversationMinAggregateOutputType = {
+  id: string | null
+  farmerId: string | null
+  languageCode: string | null
+  stage: string | null
+  endedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type VoiceConversationMaxAggregateOutputType = {
+  id: string | null
+  farmerId: string | null
+  languageCode: string | null
+  stage: string | null
+  endedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type VoiceConversationCountAggregateOutputType = {
+  id: number
+  farmerId: number
+  languageCode: number
+  stage: number
+  collectedData: number
+  priceSuggestion: number
+  catalogItem: number
+  transcript: number
+  endedAt: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type VoiceConversationMinAggregateInputType = {
+  id?: true
+  farmerId?: true
+  languageCode?: true
+  stage?: true
+  endedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type VoiceConversationMaxAggregateInputType = {
+  id?: true
+  farmerId?: true
+  languageCode?: true
+  stage?: true
+  endedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type VoiceConversationCountAggregateInputType = {
+  id?: true
+  farmerId?: true
+  languageCode?: true
+  stage?: true
+  collectedData?: true
+  priceSuggestion?: true
+  catalogItem?: true
+  transcript?: true
+  endedAt?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type VoiceConversationAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which VoiceConversation to aggregate.
+   */
+  where?: Prisma.VoiceConversationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of VoiceConversations to fetch.
+   */
+  orderBy?: Prisma.VoiceConversationOrderByWithRelationInput | Prisma.VoiceConversationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.VoiceConversationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` VoiceConversations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` VoiceConversations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned VoiceConversations
+  **/
+  _count?: true | VoiceConversationCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: VoiceConversationMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: VoiceConversationMaxAggregateInputType
+}
+
+export type GetVoiceConversationAggregateType<T extends VoiceConversationAggregateArgs> = {
+      [P in keyof T & keyof AggregateVoiceConversation]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateVoiceConversation[P]>
+    : Prisma.GetScalarType<T[P], AggregateVoiceConversation[P]>
+}
+
+
+
+
+export type VoiceConversationGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.VoiceConversationWhereInput
+  orderBy?: Prisma.VoiceConversationOrderByWithAggregationInput | Prisma.VoiceConversationOrderByWithAggregationInput[]
+  by: Prisma.VoiceConversationScalarFieldEnum[] | Prisma.VoiceConversationScalarFieldEnum
+  having?: Prisma.VoiceConversationScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: VoiceConversationCountAggregateInputType | true
+  _min?: VoiceConversationMinAggregateInputType
+  _max?: VoiceConversationMaxAggregateInputType
+}
+
+export type VoiceConversationGroupByOutputType = {
+  id: string
+  farmerId: string
+  languageCode: string
+  stage: string
+  collectedData: runtime.JsonValue
+  priceSuggestion: runtime.JsonValue | null
+  catalogItem: runtime.JsonValue | null
+  transcript: runtime.JsonValue
+  endedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  _count: VoiceConversationCountAggregateOutputType | null
+  _min: VoiceConversationMinAggregateOutputType | null
+  _max: VoiceConversationMaxAggregateOutputType | null
+}
+
+type GetVoiceConversationGroupByPayload<T extends VoiceConversationGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<VoiceConversationGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof VoiceConversationGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], VoiceConversationGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], VoiceConversationGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type VoiceConversationWhereInput = {
+  AND?: Prisma.VoiceConversationWhereInput | Prisma.VoiceConversationWhereInput[]
+  OR?: Prisma.VoiceConversationWhereInput[]
+  NOT?: Prisma.VoiceConversationWhereInput | Prisma.VoiceConversationWhereInput[]
+  id?: Prisma.StringFilter<"VoiceConversation"> | string
+  farmerId?: Prisma.StringFilter<"VoiceConversation"> | string
+  languageCode?: Prisma.StringFilter<"VoiceConversation"> | string
+  stage?: Prisma.StringFilter<"VoiceConversation"> | string
+  collectedData?: Prisma.JsonFilter<"VoiceConversation">
+  priceSuggestion?: Prisma.JsonNullableFilter<"VoiceConversation">
+  catalogItem?: Prisma.JsonNullableFilter<"VoiceConversation">
+  transcript?: Prisma.JsonFilter<"VoiceConversation">
+  endedAt?: Prisma.DateTimeNullableFilter<"VoiceConversation"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"VoiceConversation"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"VoiceConversation"> | Date | string
+  farmer?: Prisma.XOR<Prisma.FarmerScalarRelationFilter, Prisma.FarmerWhereInput>
+}
+
+export type VoiceConversationOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  farmerId?: Prisma.SortOrder
+  languageCode?: Prisma.SortOrder
+  stage?: Prisma.SortOrder
+  collectedData?: Prisma.SortOrder
+  priceSuggestion?: Prisma.SortOrderInput | Prisma.SortOrder
+  catalogItem?: Prisma.SortOrderInput | Prisma.SortOrder
+  transcript?: Prisma.SortOrder
+  endedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  farmer?: Prisma.FarmerOrderByWithRelationInput
+}
+
+export type VoiceConversationWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.VoiceConversationWhereInput | Prisma.VoiceConversationWhereInput[]
+  OR?: Prisma.VoiceConversationWhereInput[]
+  NOT?: Prisma.VoiceConversationWhereInput | Prisma.VoiceConversationWhereInput[]
+  farmerId?: Prisma.StringFilter<"VoiceConversation"> | string
+  languageCode?: Prisma.StringFilter<"VoiceConversation"> | string
+  stage?: Prisma.StringFilter<"VoiceConversation"> | string
+  collectedData?: Prisma.JsonFilter<"VoiceConversation">
+  priceSuggestion?: Prisma.JsonNullableFilter<"VoiceConversation">
+  catalogItem?: Prisma.JsonNullableFilter<"VoiceConversation">
+  transcript?: Prisma.JsonFilter<"VoiceConversation">
+  endedAt?: Prisma.DateTimeNullableFilter<"VoiceConversation"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"VoiceConversation"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"VoiceConversation"> | Date | string
+  farmer?: Prisma.XOR<Prisma.FarmerScalarRelationFilter, Prisma.FarmerWhereInput>
+}, "id">
+
+export type VoiceConversationOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  farmerId?: Prisma.SortOrder
+  languageCode?: Prisma.SortOrder
+  stage?: Prisma.SortOrder
+  collectedData?: Prisma.SortOrder
+  priceSuggestion?: Prisma.SortOrderInput | Prisma.SortOrder
+  catalogItem?: Prisma.SortOrderInput | Prisma.SortOrder
+  transcript?: Prisma.SortOrder
+  endedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.VoiceConversationCountOrderByAggregateInput
+  _max?: Prisma.VoiceConversationMaxOrderByAggregateInput
+  _min?: Prisma.VoiceConversationMinOrderByAggregateInput
+}
+
+export type VoiceConversationScalarWhereWithAggregatesInput = {
+  AND?: Prisma.VoiceConversationScalarWhereWithAggregatesInput | Prisma.VoiceConversationScalarWhereWithAggregatesInput[]
+  OR?: Prisma.VoiceConversationScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.VoiceConversationScalarWhereWithAggregatesInput | Prisma.VoiceConversationScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"VoiceConversation"> | string
+  farmerId?: Prisma.StringWithAggregatesFilter<"VoiceConversation"> | string
+  languageCode?: Prisma.StringWithAggregatesFilter<"VoiceConversation"> | string
+  stage?: Prisma.StringWithAggregatesFilter<"VoiceConversation"> | string
+  collectedData?: Prisma.JsonWithAggregatesFilter<"VoiceConversation">
+  priceSuggestion?: Prisma.JsonNullableWithAggregatesFilter<"VoiceConversation">
+  catalogItem?: Prisma.JsonNullableWithAggregatesFilter<"VoiceConversation">
+  transcript?: Prisma.JsonWithAggregatesFilter<"VoiceConversation">
+  endedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"VoiceConversation"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"VoiceConversation"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"VoiceConversation"> | Date | string
+}
+
+export type VoiceConversationCreateInput = {
+  id: string
+  languageCode: string
+  stage: string
+  collectedData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  priceSuggestion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  catalogItem?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  transcript?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  endedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  farmer: Prisma.FarmerCreateNestedOneWithoutConversationsInput
+}
+
+export type VoiceConversationUncheckedCreateInput = {
+  id: string
+  farmerId: string
+  languageCode: string
+  stage: string
+  collectedData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  priceSuggestion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  catalogItem?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  transcript?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  endedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type VoiceConversationUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  languageCode?: Prisma.StringFieldUpdateOperationsInput | string
+  stage?: Prisma.StringFieldUpdateOperationsInput | string
+  collectedData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  priceSuggestion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  catalogItem?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  transcript?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  endedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  farmer?: Prisma.FarmerUpdateOneRequiredWithoutConversationsNestedInput
+}
+
+export type VoiceConversationUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  languageCode?: Prisma.StringFieldUpdateOperationsInput | string
+  stage?: Prisma.StringFieldUpdateOperationsInput | string
+  collectedData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  priceSuggestion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  catalogItem?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  transcript?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  endedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type VoiceConversationCreateManyInput = {
+  id: string
+  farmerId: string
+  languageCode: string
+  stage: string
+  collectedData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  priceSuggestion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  catalogItem?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  transcript?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  endedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type VoiceConversationUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  languageCode?: Prisma.StringFieldUpdateOperationsInput | string
+  stage?: Prisma.StringFieldUpdateOperationsInput | string
+  collectedData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  priceSuggestion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  catalogItem?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  transcript?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  endedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type VoiceConversationUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  farmerId?: Prisma.StringFieldUpdateOperationsInput | string
+  languageCode?: Prisma.StringFieldUpdateOperationsInput | string
+  stage?: Prisma.StringFieldUpdateOperationsInput | string
+  collectedData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  priceSuggestion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  catalogItem?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  transcript?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  endedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type VoiceConversationListRelationFilter = {
+  every?: Prisma.VoiceConversationWhereInput
+  some?: Prisma.VoiceConversationWhereInput
+  none?: Prisma.VoiceConversationWhereInput
+}
+
+export type VoiceConversationOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type VoiceConversationCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  farmerId?: Prisma.SortOrder
+  languageCode?: Prisma.SortOrder
+  stage?: Prisma.SortOrder
+  collectedData?: Prisma.SortOrder
+  priceSuggestion?: Prisma.SortOrder
+  catalogItem?: Prisma.SortOrder
+  transcript?: Prisma.SortOrder
+  endedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type VoiceConversationMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  farmerId?: Prisma.SortOrder
+  languageCode?: Prisma.SortOrder
+  stage?: Prisma.SortOrder
+  endedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type VoiceConversationMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  farmerId?: Prisma.SortOrder
+  languageCode?: Prisma.SortOrder
+  stage?: Prisma.SortOrder
+  endedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type VoiceConversationCreateNestedManyWithoutFarmerInput = {
+  create?: Prisma.XOR<Prisma.VoiceConversationCreateWithoutFarmerInput, Prisma.VoiceConversationUncheckedCreateWithoutFarmerInput> | Prisma.VoiceConversationCreateWithoutFarmerInput[] | Prisma.VoiceConversationUncheckedCreateWithoutFarmerInput[]
+  connectOrCreate?: Prisma.VoiceConversationCreateOrConnectWithoutFarmerInput | Prisma.VoiceConversationCreateOrConnectWithoutFarmerInput[]
+  createMany?: Prisma.VoiceConversationCreateManyFarmerInputEnvelope
+  connect?: Prisma.VoiceConversationWhereUniqueInput | Prisma.VoiceConversationWhereUniqueInput[]
+}
+
+export type VoiceConversationUncheckedCreateNestedManyWithoutFarmerInput = {
+  create?: Prisma.XOR<Prisma.VoiceConversationCreateWithoutFarmerInput, Prisma.VoiceConversationUncheckedCreateWithoutFarmerInput> | Prisma.VoiceConversationCreateWithoutFarmerInput[] | Prisma.VoiceConversationUncheckedCreateWithoutFarmerInput[]
+  connectOrCreate?: Prisma.VoiceConversationCreateOrConnectWithoutFarmerInput | Prisma.VoiceConversationCreateOrConnectWithoutFarmerInput[]
+  createMany?: Prisma.VoiceConversationCreateManyFarmerInputEnvelope
+  connect?: Prisma.VoiceConversationWhereUniqueInput | Prisma.VoiceConversationWhereUniqueInput[]
+}
+
+export type VoiceConversationUpdateManyWithoutFarmerNestedInput = {
+  create?: Prisma.XOR<Prisma.VoiceConversationCreateWithoutFarmerInput, Prisma.VoiceConversationUncheckedCreateWithoutFarmerInput> | Prisma.VoiceConversationCreateWithoutFarmerInput[] | Prisma.VoiceConversationUncheckedCreateWithoutFarmerInput[]
+  connectOrCreate?: Prisma.VoiceConversationCreateOrConnectWithoutFarmerInput | Prisma.VoiceConversationCreateOrConnectWithoutFarmerInput[]
+  upsert?: Prisma.VoiceConversationUpsertWithWhereUniqueWithoutFarmerInput | Prisma.VoiceConversationUpsertWithWhereUniqueWithoutFarmerInput[]
+  createMany?: Prisma.VoiceConversationCreateManyFarmerInputEnvelope
+  set?: Prisma.VoiceConversationWhereUniqueInput | Prisma.VoiceConversationWhereUniqueInput[]
+  disconnect?: Prisma.VoiceConversationWhereUniqueInput | Prisma.VoiceConversationWhereUniqueInput[]
+  delete?: Prisma.VoiceConversationWhereUniqueInput | Prisma.VoiceConversationWhereUniqueInput[]
+  connect?: Prisma.VoiceConversationWhereUniqueInput | Prisma.VoiceConversationWhereUniqueInput[]
+  update?: Prisma.VoiceConversationUpdateWithWhereUniqueWithoutFarmerInput | Prisma.VoiceConversationUpdateWithWhereUniqueWithoutFarmerInput[]
+  updateMany?: Prisma.VoiceConversationUpdateManyWithWhereWithoutFarmerInput | Prisma.VoiceConversationUpdateManyWithWhereWithoutFarmerInput[]
+  deleteMany?: Prisma.VoiceConversationScalarWhereInput | Prisma.VoiceConversationScalarWhereInput[]
+}
+
+export type VoiceConversationUncheckedUpdateManyWithoutFarmerNestedInput = {
+  create?: Prisma.XOR<Prisma.VoiceConversationCreateWithoutFarmerInput, Prisma.VoiceConversationUncheckedCreateWithoutFarmerInput> | Prisma.VoiceConversationCreateWithoutFarmerInput[] | Prisma.VoiceConversationUncheckedCreateWithoutFarmerInput[]
+  connectOrCreate?: Prisma.VoiceConversationCreateOrConnectWithoutFarmerInput | Prisma.VoiceConversationCreateOrConnectWithoutFarmerInput[]
+  upsert?: Prisma.VoiceConversationUpsertWithWhereUniqueWithoutFarmerInput | Prisma.VoiceConversationUpsertWithWhereUniqueWithoutFarmerInput[]
+  createMany?: Prisma.VoiceConversationCreateManyFarmerInputEnvelope
+  set?: Prisma.VoiceConversationWhereUniqueInput | Prisma.VoiceConversationWhereUniqueInput[]
+  disconnect?: Prisma.VoiceConversationWhereUniqueInput | Prisma.VoiceConversationWhereUniqueInput[]
+  delete?: Prisma.VoiceConversationWhereUniqueInput | Prisma.VoiceConversationWhereUniqueInput[]
+  connect?: Prisma.VoiceConversationWhereUniqueInput | Prisma.VoiceConversationWhereUniqueInput[]
+  update?: Prisma.VoiceConversationUpdateWithWhereUniqueWithoutFarmerInput | Prisma.VoiceConversationUpdateWithWhereUniqueWithoutFarmerInput[]
+  updateMany?: Prisma.VoiceConversationUpdateManyWithWhereWithoutFarmerInput | Prisma.VoiceConversationUpdateManyWithWhereWithoutFarmerInput[]
+  deleteMany?: Prisma.VoiceConversationScalarWhereInput | Prisma.VoiceConversationScalarWhereInput[]
+}
+
+export type VoiceConversationCreateWithoutFarmerInput = {
+  id: string
+  languageCode: string
+  stage: string
+  collectedData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  priceSuggestion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  catalogItem?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  transcript?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  endedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type VoiceConversationUncheckedCreateWithoutFarmerInput = {
+  id: string
+  languageCode: string
+  stage: string
+  collectedData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  priceSuggestion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  catalogItem?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  transcript?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  endedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type VoiceConversationCreateOrConnectWithoutFarmerInput = {
+  where: Prisma.VoiceConversationWhereUniqueInput
+  create: Prisma.XOR<Prisma.VoiceConversationCreateWithoutFarmerInput, Prisma.VoiceConversationUncheckedCreateWithoutFarmerInput>
+}
+
+export type VoiceConversationCreateManyFarmerInputEnvelope = {
+  data: Prisma.VoiceConversationCreateManyFarmerInput | Prisma.VoiceConversationCreateManyFarmerInput[]
+}
+
+export type VoiceConversationUpsertWithWhereUniqueWithoutFarmerInput = {
+  where: Prisma.VoiceConversationWhereUniqueInput
+  update: Prisma.XOR<Prisma.VoiceConversationUpdateWithoutFarmerInput, Prisma.VoiceConversationUncheckedUpdateWithoutFarmerInput>
+  create: Prisma.XOR<Prisma.VoiceConversationCreateWithoutFarmerInput, Prisma.VoiceConversationUncheckedCreateWithoutFarmerInput>
+}
+
+export type VoiceConversationUpdateWithWhereUniqueWithoutFarmerInput = {
+  where: Prisma.VoiceConversationWhereUniqueInput
+  data: Prisma.XOR<Prisma.VoiceConversationUpdateWithoutFarmerInput, Prisma.VoiceConversationUncheckedUpdateWithoutFarmerInput>
+}
+
+export type VoiceConversationUpdateManyWithWhereWithoutFarmerInput = {
+  where: Prisma.VoiceConversationScalarWhereInput
+  data: Prisma.XOR<Prisma.VoiceConversationUpdateManyMutationInput, Prisma.VoiceConversationUncheckedUpdateManyWithoutFarmerInput>
+}
+
+export type VoiceConversationScalarWhereInput = {
+  AND?: Prisma.VoiceConversationScalarWhereInput | Prisma.VoiceConversationScalarWhereInput[]
+  OR?: Prisma.VoiceConversationScalarWhereInput[]
+  NOT?: Prisma.VoiceConversationScalarWhereInput | Prisma.VoiceConversationScalarWhereInput[]
+  id?: Prisma.StringFilter<"VoiceConversation"> | string
+  farmerId?: Prisma.StringFilter<"VoiceConversation"> | string
+  languageCode?: Prisma.StringFilter<"VoiceConversation"> | string
+  stage?: Prisma.StringFilter<"VoiceConversation"> | string
+  collectedData?: Prisma.JsonFilter<"VoiceConversation">
+  priceSuggestion?: Prisma.JsonNullableFilter<"VoiceConversation">
+  catalogItem?: Prisma.JsonNullableFilter<"VoiceConversation">
+  transcript?: Prisma.JsonFilter<"VoiceConversation">
+  endedAt?: Prisma.DateTimeNullableFilter<"VoiceConversation"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"VoiceConversation"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"VoiceConversation"> | Date | string
+}
+
+export type VoiceConversationCreateManyFarmerInput = {
+  id: string
+  languageCode: string
+  stage: string
+  collectedData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  priceSuggestion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  catalogItem?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  transcript?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  endedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type VoiceConversationUpdateWithoutFarmerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  languageCode?: Prisma.StringFieldUpdateOperationsInput | string
+  stage?: Prisma.StringFieldUpdateOperationsInput | string
+  collectedData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  priceSuggestion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  catalogItem?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  transcript?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  endedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type VoiceConversationUncheckedUpdateWithoutFarmerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  languageCode?: Prisma.StringFieldUpdateOperationsInput | string
+  stage?: Prisma.StringFieldUpdateOperationsInput | string
+  collectedData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  priceSuggestion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  catalogItem?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  transcript?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  endedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type VoiceConversationUncheckedUpdateManyWithoutFarmerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  languageCode?: Prisma.StringFieldUpdateOperationsInput | string
+  stage?: Prisma.StringFieldUpdateOperationsInput | string
+  collectedData?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  priceSuggestion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  catalogItem?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  transcript?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  endedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type VoiceConversationSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  farmerId?: boolean
+  languageCode?: boolean
+  stage?: boolean
+  collectedData?: boolean
+  priceSuggestion?: boolean
+  catalogItem?: boolean
+  transcript?: boolean
+  endedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["voiceConversation"]>
+
+export type VoiceConversationSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  farmerId?: boolean
+  languageCode?: boolean
+  stage?: boolean
+  collectedData?: boolean
+  priceSuggestion?: boolean
+  catalogItem?: boolean
+  transcript?: boolean
+  endedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["voiceConversation"]>
+
+export type VoiceConversationSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  farmerId?: boolean
+  languageCode?: boolean
+  stage?: boolean
+  collectedData?: boolean
+  priceSuggestion?: boolean
+  catalogItem?: boolean
+  transcript?: boolean
+  endedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["voiceConversation"]>
+
+export type VoiceConversationSelectScalar = {
+  id?: boolean
+  farmerId?: boolean
+  languageCode?: boolean
+  stage?: boolean
+  collectedData?: boolean
+  priceSuggestion?: boolean
+  catalogItem?: boolean
+  transcript?: boolean
+  endedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type VoiceConversationOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "farmerId" | "languageCode" | "stage" | "collectedData" | "priceSuggestion" | "catalogItem" | "transcript" | "endedAt" | "createdAt" | "updatedAt", ExtArgs["result"]["voiceConversation"]>
+export type VoiceConversationInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+}
+export type VoiceConversationIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+}
+export type VoiceConversationIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  farmer?: boolean | Prisma.FarmerDefaultArgs<ExtArgs>
+}
+
+export type $VoiceConversationPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "VoiceConversation"
+  objects: {
+    farmer: Prisma.$FarmerPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    farmerId: string
+    languageCode: string
+    stage: string
+    collectedData: runtime.JsonValue
+    priceSuggestion: runtime.JsonValue | null
+    catalogItem: runtime.JsonValue | null
+    transcript: runtime.JsonValue
+    endedAt: Date | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["voiceConversation"]>
+  composites: {}
+}
+
+export type VoiceConversationGetPayload<S extends boolean | null | undefined | VoiceConversationDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$VoiceConversationPayload, S>
+
+export type VoiceConversationCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<VoiceConversationFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: VoiceConversationCountAggregateInputType | true
+  }
+
+export interface VoiceConversationDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['VoiceConversation'], meta: { name: 'VoiceConversation' } }
+  /**
+   * Find zero or one VoiceConversation that matches the filter.
+   * @param {VoiceConversationFindUniqueArgs} args - Arguments to find a VoiceConversation
+   * @example
+   * // Get one VoiceConversation
+   * const voiceConversation = await prisma.voiceConversation.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends VoiceConversationFindUniqueArgs>(args: Prisma.SelectSubset<T, VoiceConversationFindUniqueArgs<ExtArgs>>): Prisma.Prisma__VoiceConversationClient<runtime.Types.Result.GetResult<Prisma.$VoiceConversationPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one VoiceConversation that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {VoiceConversationFindUniqueOrThrowArgs} args - Arguments to find a VoiceConversation
+   * @example
+   * // Get one VoiceConversation
+   * const voiceConversation = await prisma.voiceConversation.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends VoiceConversationFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, VoiceConversationFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__VoiceConversationClient<runtime.Types.Result.GetResult<Prisma.$VoiceConversationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first VoiceConversation that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VoiceConversationFindFirstArgs} args - Arguments to find a VoiceConversation
+   * @example
+   * // Get one VoiceConversation
+   * const voiceConversation = await prisma.voiceConversation.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends VoiceConversationFindFirstArgs>(args?: Prisma.SelectSubset<T, VoiceConversationFindFirstArgs<ExtArgs>>): Prisma.Prisma__VoiceConversationClient<runtime.Types.Result.GetResult<Prisma.$VoiceConversationPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first VoiceConversation that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VoiceConversationFindFirstOrThrowArgs} args - Arguments to find a VoiceConversation
+   * @example
+   * // Get one VoiceConversation
+   * const voiceConversation = await prisma.voiceConversation.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends VoiceConversationFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, VoiceConversationFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__VoiceConversationClient<runtime.Types.Result.GetResult<Prisma.$VoiceConversationPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more VoiceConversations that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VoiceConversationFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all VoiceConversations
+   * const voiceConversations = await prisma.voiceConversation.findMany()
+   * 
+   * // Get first 10 VoiceConversations
+   * const voiceConversations = await prisma.voiceConversation.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const voiceConversationWithIdOnly = await prisma.voiceConversation.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends VoiceConversationFindManyArgs>(args?: Prisma.SelectSubset<T, VoiceConversationFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$VoiceConversationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a VoiceConversation.
+   * @param {VoiceConversationCreateArgs} args - Arguments to create a VoiceConversation.
+   * @example
+   * // Create one VoiceConversation
+   * const VoiceConversation = await prisma.voiceConversation.create({
+   *   data: {
+   *     // ... data to create a VoiceConversation
+   *   }
+   * })
+   * 
+   */
+  create<T extends VoiceConversationCreateArgs>(args: Prisma.SelectSubset<T, VoiceConversationCreateArgs<ExtArgs>>): Prisma.Prisma__VoiceConversationClient<runtime.Types.Result.GetResult<Prisma.$VoiceConversationPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many VoiceConversations.
+   * @param {VoiceConversationCreateManyArgs} args - Arguments to create many VoiceConversations.
+   * @example
+   * // Create many VoiceConversations
+   * const voiceConversation = await prisma.voiceConversation.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends VoiceConversationCreateManyArgs>(args?: Prisma.SelectSubset<T, VoiceConversationCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many VoiceConversations and returns the data saved in the database.
+   * @param {VoiceConversationCreateManyAndReturnArgs} args - Arguments to create many VoiceConversations.
+   * @example
+   * // Create many VoiceConversations
+   * const voiceConversation = await prisma.voiceConversation.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many VoiceConversations and only return the `id`
+   * const voiceConversationWithIdOnly = await prisma.voiceConversation.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends VoiceConversationCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, VoiceConversationCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$VoiceConversationPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a VoiceConversation.
+   * @param {VoiceConversationDeleteArgs} args - Arguments to delete one VoiceConversation.
+   * @example
+   * // Delete one VoiceConversation
+   * const VoiceConversation = await prisma.voiceConversation.delete({
+   *   where: {
+   *     // ... filter to delete one VoiceConversation
+   *   }
+   * })
+   * 
+   */
+  delete<T extends VoiceConversationDeleteArgs>(args: Prisma.SelectSubset<T, VoiceConversationDeleteArgs<ExtArgs>>): Prisma.Prisma__VoiceConversationClient<runtime.Types.Result.GetResult<Prisma.$VoiceConversationPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one VoiceConversation.
+   * @param {VoiceConversationUpdateArgs} args - Arguments to update one VoiceConversation.
+   * @example
+   * // Update one VoiceConversation
+   * const voiceConversation = await prisma.voiceConversation.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends VoiceConversationUpdateArgs>(args: Prisma.SelectSubset<T, VoiceConversationUpdateArgs<ExtArgs>>): Prisma.Prisma__VoiceConversationClient<runtime.Types.Result.GetResult<Prisma.$VoiceConversationPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more VoiceConversations.
+   * @param {VoiceConversationDeleteManyArgs} args - Arguments to filter VoiceConversations to delete.
+   * @example
+   * // Delete a few VoiceConversations
+   * const { count } = await prisma.voiceConversation.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends VoiceConversationDeleteManyArgs>(args?: Prisma.SelectSubset<T, VoiceConversationDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more VoiceConversations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VoiceConversationUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many VoiceConversations
+   * const voiceConversation = await prisma.voiceConversation.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends VoiceConversationUpdateManyArgs>(args: Prisma.SelectSubset<T, VoiceConversationUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more VoiceConversations and returns the data updated in the database.
+   * @param {VoiceConversationUpdateManyAndReturnArgs} args - Arguments to update many VoiceConversations.
+   * @example
+   * // Update many VoiceConversations
+   * const voiceConversation = await prisma.voiceConversation.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more VoiceConversations and only return the `id`
+   * const voiceConversationWithIdOnly = await prisma.voiceConversation.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends VoiceConversationUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, VoiceConversationUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$VoiceConversationPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one VoiceConversation.
+   * @param {VoiceConversationUpsertArgs} args - Arguments to update or create a VoiceConversation.
+   * @example
+   * // Update or create a VoiceConversation
+   * const voiceConversation = await prisma.voiceConversation.upsert({
+   *   create: {
+   *     // ... data to create a VoiceConversation
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the VoiceConversation we want to update
+   *   }
+   * })
+   */
+  upsert<T extends VoiceConversationUpsertArgs>(args: Prisma.SelectSubset<T, VoiceConversationUpsertArgs<ExtArgs>>): Prisma.Prisma__VoiceConversationClient<runtime.Types.Result.GetResult<Prisma.$VoiceConversationPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of VoiceConversations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VoiceConversationCountArgs} args - Arguments to filter VoiceConversations to count.
+   * @example
+   * // Count the number of VoiceConversations
+   * const count = await prisma.voiceConversation.count({
+   *   where: {
+   *     // ... the filter for the VoiceConversations we want to count
+   *   }
+   * })
+  **/
+  count<T extends VoiceConversationCountArgs>(
+    args?: Prisma.Subset<T, VoiceConversationCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], VoiceConversationCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a VoiceConversation.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VoiceConversationAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends VoiceConversationAggregateArgs>(args: Prisma.Subset<T, VoiceConversationAggregateArgs>): Prisma.PrismaPromise<GetVoiceConversationAggregateType<T>>
+
+  /**
+   * Group by VoiceConversation.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VoiceConversationGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends VoiceConversationGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: VoiceConversationGroupByArgs['orderBy'] }
+      : { orderBy?: VoiceConversationGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, VoiceConversationGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetVoiceConversationGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the VoiceConversation model
+ */
+readonly fields: VoiceConversationFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for VoiceConversation.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__VoiceConversationClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  farmer<T extends Prisma.FarmerDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.FarmerDefaultArgs<ExtArgs>>): Prisma.Prisma__FarmerClient<runtime.Types.Result.GetResult<Prisma.$FarmerPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the VoiceConversation model
+ */
+export interface VoiceConversationFieldRefs {
+  readonly id: Prisma.FieldRef<"VoiceConversation", 'String'>
+  readonly farmerId: Prisma.FieldRef<"VoiceConversation", 'String'>
+  readonly languageCode: Prisma.FieldRef<"VoiceConversation", 'String'>
+  readonly stage: Prisma.FieldRef<"VoiceConversation", 'String'>
+  readonly collectedData: Prisma.FieldRef<"VoiceConversation", 'Json'>
+  readonly priceSuggestion: Prisma.FieldRef<"VoiceConversation", 'Json'>
+  readonly catalogItem: Prisma.FieldRef<"VoiceConversation", 'Json'>
+  readonly transcript: Prisma.FieldRef<"VoiceConversation", 'Json'>
+  readonly endedAt: Prisma.FieldRef<"VoiceConversation", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"VoiceConversation", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"VoiceConversation", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * VoiceConversation findUnique
+ */
+export type VoiceConversationFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VoiceConversation
+   */
+  select?: Prisma.VoiceConversationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VoiceConversation
+   */
+  omit?: Prisma.VoiceConversationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VoiceConversationInclude<ExtArgs> | null
+  /**
+   * Filter, which VoiceConversation to fetch.
+   */
+  where: Prisma.VoiceConversationWhereUniqueInput
+}
+
+/**
+ * VoiceConversation findUniqueOrThrow
+ */
+export type VoiceConversationFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VoiceConversation
+   */
+  select?: Prisma.VoiceConversationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VoiceConversation
+   */
+  omit?: Prisma.VoiceConversationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VoiceConversationInclude<ExtArgs> | null
+  /**
+   * Filter, which VoiceConversation to fetch.
+   */
+  where: Prisma.VoiceConversationWhereUniqueInput
+}
+
+/**
+ * VoiceConversation findFirst
+ */
+export type VoiceConversationFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VoiceConversation
+   */
+  select?: Prisma.VoiceConversationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VoiceConversation
+   */
+  omit?: Prisma.VoiceConversationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VoiceConversationInclude<ExtArgs> | null
+  /**
+   * Filter, which VoiceConversation to fetch.
+   */
+  where?: Prisma.VoiceConversationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of VoiceConversations to fetch.
+   */
+  orderBy?: Prisma.VoiceConversationOrderByWithRelationInput | Prisma.VoiceConversationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for VoiceConversations.
+   */
+  cursor?: Prisma.VoiceConversationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` VoiceConversations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` VoiceConversations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of VoiceConversations.
+   */
+  distinct?: Prisma.VoiceConversationScalarFieldEnum | Prisma.VoiceConversationScalarFieldEnum[]
+}
+
+/**
+ * VoiceConversation findFirstOrThrow
+ */
+export type VoiceConversationFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VoiceConversation
+   */
+  select?: Prisma.VoiceConversationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VoiceConversation
+   */
+  omit?: Prisma.VoiceConversationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VoiceConversationInclude<ExtArgs> | null
+  /**
+   * Filter, which VoiceConversation to fetch.
+   */
+  where?: Prisma.VoiceConversationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of VoiceConversations to fetch.
+   */
+  orderBy?: Prisma.VoiceConversationOrderByWithRelationInput | Prisma.VoiceConversationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for VoiceConversations.
+   */
+  cursor?: Prisma.VoiceConversationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` VoiceConversations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` VoiceConversations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of VoiceConversations.
+   */
+  distinct?: Prisma.VoiceConversationScalarFieldEnum | Prisma.VoiceConversationScalarFieldEnum[]
+}
+
+/**
+ * VoiceConversation findMany
+ */
+export type VoiceConversationFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VoiceConversation
+   */
+  select?: Prisma.VoiceConversationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VoiceConversation
+   */
+  omit?: Prisma.VoiceConversationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VoiceConversationInclude<ExtArgs> | null
+  /**
+   * Filter, which VoiceConversations to fetch.
+   */
+  where?: Prisma.VoiceConversationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of VoiceConversations to fetch.
+   */
+  orderBy?: Prisma.VoiceConversationOrderByWithRelationInput | Prisma.VoiceConversationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing VoiceConversations.
+   */
+  cursor?: Prisma.VoiceConversationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` VoiceConversations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` VoiceConversations.
+   */
+  skip?: number
+  distinct?: Prisma.VoiceConversationScalarFieldEnum | Prisma.VoiceConversationScalarFieldEnum[]
+}
+
+/**
+ * VoiceConversation create
+ */
+export type VoiceConversationCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VoiceConversation
+   */
+  select?: Prisma.VoiceConversationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VoiceConversation
+   */
+  omit?: Prisma.VoiceConversationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VoiceConversationInclude<ExtArgs> | null
+  /**
+   * The data needed to create a VoiceConversation.
+   */
+  data: Prisma.XOR<Prisma.VoiceConversationCreateInput, Prisma.VoiceConversationUncheckedCreateInput>
+}
+
+/**
+ * VoiceConversation createMany
+ */
+export type VoiceConversationCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many VoiceConversations.
+   */
+  data: Prisma.VoiceConversationCreateManyInput | Prisma.VoiceConversationCreateManyInput[]
+}
+
+/**
+ * VoiceConversation createManyAndReturn
+ */
+export type VoiceConversationCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VoiceConversation
+   */
+  select?: Prisma.VoiceConversationSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the VoiceConversation
+   */
+  omit?: Prisma.VoiceConversationOmit<ExtArgs> | null
+  /**
+   * The data used to create many VoiceConversations.
+   */
+  data: Prisma.VoiceConversationCreateManyInput | Prisma.VoiceConversationCreateManyInput[]
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VoiceConversationIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * VoiceConversation update
+ */
+export type VoiceConversationUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VoiceConversation
+   */
+  select?: Prisma.VoiceConversationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VoiceConversation
+   */
+  omit?: Prisma.VoiceConversationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VoiceConversationInclude<ExtArgs> | null
+  /**
+   * The data needed to update a VoiceConversation.
+   */
+  data: Prisma.XOR<Prisma.VoiceConversationUpdateInput, Prisma.VoiceConversationUncheckedUpdateInput>
+  /**
+   * Choose, which VoiceConversation to update.
+   */
+  where: Prisma.VoiceConversationWhereUniqueInput
+}
+
+/**
+ * VoiceConversation updateMany
+ */
+export type VoiceConversationUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update VoiceConversations.
+   */
+  data: Prisma.XOR<Prisma.VoiceConversationUpdateManyMutationInput, Prisma.VoiceConversationUncheckedUpdateManyInput>
+  /**
+   * Filter which VoiceConversations to update
+   */
+  where?: Prisma.VoiceConversationWhereInput
+  /**
+   * Limit how many VoiceConversations to update.
+   */
+  limit?: number
+}
+
+/**
+ * VoiceConversation updateManyAndReturn
+ */
+export type VoiceConversationUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VoiceConversation
+   */
+  select?: Prisma.VoiceConversationSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the VoiceConversation
+   */
+  omit?: Prisma.VoiceConversationOmit<ExtArgs> | null
+  /**
+   * The data used to update VoiceConversations.
+   */
+  data: Prisma.XOR<Prisma.VoiceConversationUpdateManyMutationInput, Prisma.VoiceConversationUncheckedUpdateManyInput>
+  /**
+   * Filter which VoiceConversations to update
+   */
+  where?: Prisma.VoiceConversationWhereInput
+  /**
+   * Limit how many VoiceConversations to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VoiceConversationIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * VoiceConversation upsert
+ */
+export type VoiceConversationUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VoiceConversation
+   */
+  select?: Prisma.VoiceConversationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VoiceConversation
+   */
+  omit?: Prisma.VoiceConversationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VoiceConversationInclude<ExtArgs> | null
+  /**
+   * The filter to search for the VoiceConversation to update in case it exists.
+   */
+  where: Prisma.VoiceConversationWhereUniqueInput
+  /**
+   * In case the VoiceConversation found by the `where` argument doesn't exist, create a new VoiceConversation with this data.
+   */
+  create: Prisma.XOR<Prisma.VoiceConversationCreateInput, Prisma.VoiceConversationUncheckedCreateInput>
+  /**
+   * In case the VoiceConversation was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.VoiceConversationUpdateInput, Prisma.VoiceConversationUncheckedUpdateInput>
+}
+
+/**
+ * VoiceConversation delete
+ */
+export type VoiceConversationDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VoiceConversation
+   */
+  select?: Prisma.VoiceConversationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VoiceConversation
+   */
+  omit?: Prisma.VoiceConversationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VoiceConversationInclude<ExtArgs> | null
+  /**
+   * Filter which VoiceConversation to delete.
+   */
+  where: Prisma.VoiceConversationWhereUniqueInput
+}
+
+/**
+ * VoiceConversation deleteMany
+ */
+export type VoiceConversationDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which VoiceConversations to delete
+   */
+  where?: Prisma.VoiceConversationWhereInput
+  /**
+   * Limit how many VoiceConversations to delete.
+   */
+  limit?: number
+}
+
+/**
+ * VoiceConversation without action
+ */
+export type VoiceConversationDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VoiceConversation
+   */
+  select?: Prisma.VoiceConversationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VoiceConversation
+   */
+  omit?: Prisma.VoiceConversationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VoiceConversationInclude<ExtArgs> | null
+}
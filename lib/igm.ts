@@ -0,0 +1,323 @@
+/**
+ * IGM Module - Issue & Grievance Management for Sales
+ *
+ * Either side of a sale can raise an issue on a confirmed or fulfilled
+ * order:
+ * - the farmer: payment not received
+ * - the buyer: produce quality or short weight (simulated buyers raise
+ *   these through unsolicited on_issue callbacks)
+ *
+ * Our support team walks each issue through to closure on the farmer's
+ * behalf. Every step is recorded (see lib/issue-lifecycle) and sent to the
+ * buyer with issue; the buyer's answers arrive as on_issue and
+ * on_issue_status callbacks and are recorded by lib/ondc-callbacks.
+ *
+ * @module igm
+ */
+
+import { prisma } from './db';
+import type { Issue, IssueAction, Order, OrderStatus } from './generated-client/client';
+import { ONDC_ISSUE_KINDS, type ONDCIssueKind, type ONDCResolutionAction } from './ondc-protocol';
+import { deliverSimulatedCallback } from './ondc-callbacks';
+import { applyIssueStep, canApplyIssueStep, openIssue, type IssueStep } from './issue-lifecycle';
+import { simulateBuyerIssue, simulateIssueExchange, simulateIssueStatus } from './network-simulator';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Result of an issue operation
+ */
+export interface IssueResult {
+  success: boolean;
+  /** The issue after the operation */
+  issue?: Issue;
+  error?: string;
+}
+
+/**
+ * An issue with its history and order
+ */
+export type IssueWithActions = Issue & { actions: IssueAction[]; order: Order };
+
+/**
+ * Our answer to an issue the buyer raised
+ */
+export type IssueResponse =
+  | { action: 'PROCESSING'; note?: string }
+  | { action: 'RESOLVED'; resolution: ONDCResolutionAction; note: string; refundAmount?: number };
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+/**
+ * Order statuses an issue can be raised on
+ */
+const ISSUE_ORDER_STATUSES: readonly OrderStatus[] = ['ORDER_CONFIRMED', 'FULFILLED'];
+
+/**
+ * Get the issues on a farmer's orders, newest first
+ *
+ * @param farmerId - The farmer who sold the produce
+ */
+export async function getIssues(farmerId: string): Promise<IssueWithActions[]> {
+  return prisma.issue.findMany({
+    where: { order: { farmerId } },
+    include: {
+      actions: { orderBy: { createdAt: 'asc' } },
+      order: true
+    },
+    orderBy: { createdAt: 'desc' }
+  });
+}
+
+/**
+ * Get a farmer's orders that issues can be raised on, newest first
+ *
+ * @param farmerId - The farmer who sold the produce
+ */
+export async function getIssueOrders(farmerId: string): Promise<Order[]> {
+  return prisma.order.findMany({
+    where: { farmerId, status: { in: [...ISSUE_ORDER_STATUSES] } },
+    orderBy: { createdAt: 'desc' }
+  });
+}
+
+/**
+ * Load an order an issue may be raised on
+ *
+ * @returns The order, or an error explaining why no issue can be raised
+ */
+async function loadIssueOrder(orderId: string, kind: ONDCIssueKind): Promise<{ order?: Order; error?: string }> {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: { issues: { where: { kind, status: { not: 'CLOSED' } } } }
+  });
+
+  if (!order) {
+    return { error: `Order ${orderId} not found` };
+  }
+
+  const { issues, ...orderRecord } = order;
+
+  if (!ISSUE_ORDER_STATUSES.includes(orderRecord.status)) {
+    return { error: `Issues cannot be raised on a ${orderRecord.status.toLowerCase().replace('_', ' ')} order` };
+  }
+
+  if (issues.length > 0) {
+    return { error: `Issue ${issues[0].id} about this is still open` };
+  }
+
+  return { order: orderRecord };
+}
+
+// ============================================================================
+// RAISING ISSUES
+// ============================================================================
+
+/**
+ * Raise an issue with the buyer on the farmer's behalf
+ *
+ * @param orderId - The order the issue is about
+ * @param kind - Must be one the seller may raise
+ * @param description - What went wrong (defaults to the kind's description)
+ */
+export async function raiseIssue(orderId: string, kind: ONDCIssueKind, description?: string): Promise<IssueResult> {
+  try {
+    if (ONDC_ISSUE_KINDS[kind]?.raisedBy !== 'SELLER') {
+      return { success: false, error: `A farmer cannot raise a ${kind} issue` };
+    }
+
+    const { order, error } = await loadIssueOrder(orderId, kind);
+    if (!order) {
+      return { success: false, error };
+    }
+
+    const text = description?.trim() || ONDC_ISSUE_KINDS[kind].shortDesc;
+    const issue = await openIssue({
+      orderId,
+      transactionId: order.transactionId,
+      kind,
+      complainant: 'FARMER',
+      description: text
+    }, 'issue');
+
+    await simulateIssueExchange(order, issue, 'OPEN', text, {
+      deliverCallback: deliverSimulatedCallback
+    });
+
+    console.log(`[IGM] ${kind} issue ${issue.id} raised with ${order.buyerName}`);
+
+    return { success: true, issue: await loadIssue(issue.id) };
+
+  } catch (error) {
+    console.error('[IGM] Raising issue failed:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Could not raise issue' };
+  }
+}
+
+/**
+ * Have the buyer of an order raise an issue
+ *
+ * @param orderId - The order the buyer complains about
+ * @param kind - Must be one the buyer may raise
+ */
+export async function simulateBuyerComplaint(orderId: string, kind: ONDCIssueKind): Promise<IssueResult> {
+  try {
+    if (ONDC_ISSUE_KINDS[kind]?.raisedBy !== 'BUYER') {
+      return { success: false, error: `A buyer cannot raise a ${kind} issue` };
+    }
+
+    const { order, error } = await loadIssueOrder(orderId, kind);
+    if (!order) {
+      return { success: false, error };
+    }
+
+    const issueId = await simulateBuyerIssue(order, kind, {
+      deliverCallback: deliverSimulatedCallback
+    });
+
+    const issue = await loadIssue(issueId);
+    if (!issue) {
+      return { success: false, error: 'The buyer\'s issue was not recorded' };
+    }
+
+    return { success: true, issue };
+
+  } catch (error) {
+    console.error('[IGM] Buyer complaint failed:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Could not simulate complaint' };
+  }
+}
+
+// ============================================================================
+// WORKING ISSUES
+// ============================================================================
+
+/**
+ * Load an issue without its history
+ */
+async function loadIssue(issueId: string): Promise<Issue | undefined> {
+  return (await prisma.issue.findUnique({ where: { id: issueId } })) ?? undefined;
+}
+
+/**
+ * Take a step on an issue on the farmer's behalf and send it to the buyer
+ */
+async function takeStep(
+  issueId: string,
+  step: IssueStep,
+  shortDesc: string,
+  resolution?: { action: ONDCResolutionAction; note: string; refundAmount?: number }
+): Promise<IssueResult> {
+  try {
+    const issue = await prisma.issue.findUnique({
+      where: { id: issueId },
+      include: { order: true }
+    });
+
+    if (!issue) {
+      return { success: false, error: `Issue ${issueId} not found` };
+    }
+
+    const { order, ...issueRecord } = issue;
+
+    if (!canApplyIssueStep(issueRecord, 'FARMER', step)) {
+      return { success: false, error: `Cannot ${step.toLowerCase()} a ${issueRecord.status.toLowerCase()} ${issueRecord.level.toLowerCase()} here` };
+    }
+
+    const updated = await applyIssueStep(issueId, { party: 'FARMER', step, shortDesc, source: 'issue', resolution });
+
+    await simulateIssueExchange(order, updated, step, shortDesc, {
+      deliverCallback: deliverSimulatedCallback
+    });
+
+    return { success: true, issue: await loadIssue(issueId) };
+
+  } catch (error) {
+    console.error(`[IGM] ${step} on issue ${issueId} failed:`, error);
+    return { success: false, error: error instanceof Error ? error.message : 'Could not update issue' };
+  }
+}
+
+/**
+ * Answer an issue the buyer raised
+ *
+ * @param issueId - The buyer's issue
+ * @param response - Start processing it, or propose a resolution
+ */
+export async function respondToIssue(issueId: string, response: IssueResponse): Promise<IssueResult> {
+  if (response.action === 'PROCESSING') {
+    return takeStep(issueId, 'PROCESSING', response.note || 'Looking into the complaint');
+  }
+
+  const note = response.note.trim();
+  if (!note) {
+    return { success: false, error: 'Describe the resolution' };
+  }
+
+  if (response.resolution === 'REFUND' && !(response.refundAmount && response.refundAmount > 0)) {
+    return { success: false, error: 'A refund needs an amount' };
+  }
+
+  return takeStep(issueId, 'RESOLVED', note, {
+    action: response.resolution,
+    note,
+    refundAmount: response.resolution === 'REFUND' ? response.refundAmount : undefined
+  });
+}
+
+/**
+ * Escalate an issue the farmer raised to the next level
+ *
+ * @param issueId - The farmer's issue
+ * @param reason - Why the buyer's answer is not acceptable
+ */
+export async function escalateIssue(issueId: string, reason?: string): Promise<IssueResult> {
+  return takeStep(issueId, 'ESCALATE', reason?.trim() || 'Resolution not acceptable');
+}
+
+/**
+ * Close an issue the farmer raised
+ *
+ * @param issueId - The farmer's issue
+ */
+export async function closeIssue(issueId: string): Promise<IssueResult> {
+  return takeStep(issueId, 'CLOSE', 'Issue closed by the farmer');
+}
+
+/**
+ * Ask the buyer where an issue the farmer raised stands
+ *
+ * @param issueId - The farmer's issue
+ */
+export async function checkIssueStatus(issueId: string): Promise<IssueResult> {
+  try {
+    const issue = await prisma.issue.findUnique({
+      where: { id: issueId },
+      include: { order: true }
+    });
+
+    if (!issue) {
+      return { success: false, error: `Issue ${issueId} not found` };
+    }
+
+    const { order, ...issueRecord } = issue;
+
+    if (issueRecord.complainant !== 'FARMER') {
+      return { success: false, error: 'Only the farmer\'s own issues can be checked with the buyer' };
+    }
+
+    await simulateIssueStatus(order, issueRecord, {
+      deliverCallback: deliverSimulatedCallback
+    });
+
+    return { success: true, issue: await loadIssue(issueId) };
+
+  } catch (error) {
+    console.error(`[IGM] Status check on issue ${issueId} failed:`, error);
+    return { success: false, error: error instanceof Error ? error.message : 'Could not check issue status' };
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Issue Lifecycle Module - IGM Issue State Machine
+ *
+ * An issue is raised on an order by one side of the sale (the complainant)
+ * and answered by the other (the respondent), following ONDC Issue &
+ * Grievance Management:
+ *
+ *   OPEN -> PROCESSING -> RESOLVED -> CLOSED
+ *
+ * - the respondent takes PROCESSING and RESOLVED
+ * - the complainant may CLOSE the issue at any point, or ESCALATE it
+ *   while it is not closed: it moves up a level (ISSUE -> GRIEVANCE ->
+ *   DISPUTE) and is OPEN again for the next respondent
+ *
+ * Every step is recorded as an IssueAction. Steps are applied with a
+ * compare-and-set on the current status, as in order-lifecycle.
+ *
+ * @module issue-lifecycle
+ */
+
+import { prisma } from './db';
+import type { Issue, IssueActionCode, IssueKind, IssueLevel, IssueParty, IssueStatus, Prisma } from './generated-client/client';
+import { InvalidTransitionError } from './order-lifecycle';
+
+// ============================================================================
+// TRANSITIONS
+// ============================================================================
+
+/**
+ * Escalation levels, lowest first
+ */
+export const ISSUE_LEVELS: readonly IssueLevel[] = ['ISSUE', 'GRIEVANCE', 'DISPUTE'];
+
+/**
+ * Actions taken on an open issue
+ */
+export type IssueStep = Exclude<IssueActionCode, 'OPEN'>;
+
+/**
+ * Who may take each step, from which statuses, and where it leads
+ */
+export const ISSUE_STEPS: Record<IssueStep, { role: 'COMPLAINANT' | 'RESPONDENT'; from: readonly IssueStatus[]; to: IssueStatus }> = {
+  PROCESSING: { role: 'RESPONDENT', from: ['OPEN'], to: 'PROCESSING' },
+  RESOLVED: { role: 'RESPONDENT', from: ['OPEN', 'PROCESSING'], to: 'RESOLVED' },
+  ESCALATE: { role: 'COMPLAINANT', from: ['OPEN', 'PROCESSING', 'RESOLVED'], to: 'OPEN' },
+  CLOSE: { role: 'COMPLAINANT', from: ['OPEN', 'PROCESSING', 'RESOLVED'], to: 'CLOSED' }
+};
+
+/**
+ * The level an issue is escalated to, or null at the highest level
+ */
+export function getNextIssueLevel(level: IssueLevel): IssueLevel | null {
+  return ISSUE_LEVELS[ISSUE_LEVELS.indexOf(level) + 1] ?? null;
+}
+
+/**
+ * Whether a party raised the issue or responds to it
+ */
+export function getIssueRole(issue: Pick<Issue, 'complainant'>, party: IssueParty): 'COMPLAINANT' | 'RESPONDENT' {
+  return issue.complainant === party ? 'COMPLAINANT' : 'RESPONDENT';
+}
+
+/**
+ * Whether a party may take a step on an issue
+ */
+export function canApplyIssueStep(
+  issue: Pick<Issue, 'complainant' | 'status' | 'level'>,
+  party: IssueParty,
+  step: IssueStep
+): boolean {
+  const rule = ISSUE_STEPS[step];
+
+  return rule.role === getIssueRole(issue, party)
+    && rule.from.includes(issue.status)
+    && (step !== 'ESCALATE' || getNextIssueLevel(issue.level) !== null);
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+/**
+ * A step taken on an issue by one of the parties
+ */
+export interface IssueStepDetails {
+  party: IssueParty;
+  step: IssueStep;
+  shortDesc?: string;
+  /** ONDC message that carried the step */
+  source: string;
+  /** Proposed resolution, with RESOLVED */
+  resolution?: { action: string; note: string; refundAmount?: number };
+}
+
+/**
+ * Record a newly raised issue with its OPEN action
+ *
+ * @param issue - The issue; `id` is the ONDC issue id when raised by the buyer
+ * @param source - ONDC message that raised it
+ * @returns The created issue
+ */
+export async function openIssue(
+  issue: {
+    id?: string;
+    orderId: string;
+    transactionId?: string | null;
+    kind: IssueKind;
+    complainant: IssueParty;
+    description: string;
+  },
+  source: string
+): Promise<Issue> {
+  const created = await prisma.issue.create({
+    data: {
+      ...issue,
+      actions: {
+        create: {
+          party: issue.complainant,
+          action: 'OPEN',
+          level: 'ISSUE',
+          shortDesc: issue.description,
+          source
+        }
+      }
+    }
+  });
+
+  console.log(`[ISSUE-LIFECYCLE] Issue ${created.id} (${issue.kind}) opened by ${issue.complainant} on order ${issue.orderId}`);
+
+  return created;
+}
+
+/**
+ * Take a step on an issue
+ *
+ * Escalating moves the issue up a level and clears the rejected
+ * resolution; closing records when it was closed.
+ *
+ * @param issueId - The issue to update
+ * @param details - Who takes which step
+ * @returns The updated issue
+ * @throws InvalidTransitionError if the party may not take the step now
+ */
+export async function applyIssueStep(issueId: string, details: IssueStepDetails): Promise<Issue> {
+  const issue = await prisma.issue.findUnique({ where: { id: issueId } });
+
+  if (!issue) {
+    throw new Error(`Issue ${issueId} not found`);
+  }
+
+  const { step, party } = details;
+  if (!canApplyIssueStep(issue, party, step)) {
+    throw new InvalidTransitionError('Issue', issueId, `${issue.status} (${issue.level})`, `${step} by ${party}`);
+  }
+
+  const data: Prisma.IssueUpdateManyMutationInput = { status: ISSUE_STEPS[step].to };
+  if (step === 'ESCALATE') {
+    data.level = getNextIssueLevel(issue.level)!;
+    data.resolution = null;
+    data.resolutionNote = null;
+    data.refundAmount = null;
+  }
+  if (step === 'RESOLVED' && details.resolution) {
+    data.resolution = details.resolution.action;
+    data.resolutionNote = details.resolution.note;
+    data.refundAmount = details.resolution.refundAmount ?? null;
+  }
+  if (step === 'CLOSE') {
+    data.closedAt = new Date();
+  }
+
+  const { count } = await prisma.issue.updateMany({
+    where: { id: issueId, status: issue.status, level: issue.level },
+    data
+  });
+
+  if (count === 0) {
+    throw new InvalidTransitionError('Issue', issueId, `${issue.status} (${issue.level})`, `${step} by ${party}`);
+  }
+
+  await prisma.issueAction.create({
+    data: {
+      issueId,
+      party,
+      action: step,
+      level: issue.level,
+      shortDesc: details.shortDesc ?? details.resolution?.note,
+      source: details.source
+    }
+  });
+
+  console.log(`[ISSUE-LIFECYCLE] Issue ${issueId}: ${step} by ${party} (${issue.status} -> ${data.status})`);
+
+  return { ...issue, ...data } as Issue;
+}
@@ -0,0 +1,409 @@
+/**
+ * Listing Expiry Module - Lifecycle of Perishable Listings
+ *
+ * A broadcast listing stays open for a time set by how perishable the
+ * produce is: the listing's perishability tag, or the commodity's usual
+ * perishability when that is higher (a tomato tagged "low" still spoils
+ * in days). Bids stay open for their own validity.
+ *
+ * A sweep, run on a timer from instrumentation.ts:
+ * - marks BROADCASTED listings past their expiry EXPIRED and expires the
+ *   bids still open on them
+ * - expires RECEIVED bids whose validity has run out
+ *
+ * The farmer is asked about an expired listing at the start of their next
+ * voice session, once, and can re-list it as it was or at a lower price.
+ *
+ * @module listing-expiry
+ */
+
+import { prisma, handleDatabaseError } from './db';
+import type { Catalog } from './generated-client/client';
+import type { BecknCatalogItem } from './beckn-schema';
+import { getMaxValidityHours, identifyCommodity, type Perishability } from './catalog-rules';
+import { updateCatalog } from './catalog-revisions';
+import { startBroadcast } from './ondc-broadcast';
+import { mapCommodityName } from './translation-agent';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * What one sweep expired
+ */
+export interface ExpirySweepResult {
+  success: boolean;
+  /** Listings marked EXPIRED */
+  expiredCatalogIds: string[];
+  /** Bids whose validity ran out, plus those open on expired listings */
+  lapsedBids: number;
+  error?: string;
+}
+
+/**
+ * An expired listing the farmer has not yet been asked about
+ */
+export interface RelistPrompt {
+  catalogId: string;
+  /** Standardized commodity name, e.g. "Onions" */
+  commodity: string;
+  quantity: number;
+  unit: string;
+  /** Asking price per unit when the listing expired */
+  price: number;
+  /** Lower price to suggest: the best bid below the asking price, else 10% off */
+  suggestedPrice?: number;
+  expiredAt: Date;
+}
+
+/**
+ * Result of re-listing an expired listing
+ */
+export interface RelistResult {
+  success: boolean;
+  catalog?: Catalog;
+  /** ONDC transaction ID of the new broadcast */
+  transactionId?: string;
+  error?: string;
+}
+
+// ============================================================================
+// TIME TO LIVE
+// ============================================================================
+
+/**
+ * How long a broadcast listing stays open for each perishability
+ *
+ * Kept within the longest validity the catalog rules allow.
+ */
+const LISTING_TTL_HOURS: Record<Perishability, number> = {
+  high: 24,
+  medium: 3 * 24,
+  low: 7 * 24
+};
+
+const PERISHABILITY_ORDER: Perishability[] = ['low', 'medium', 'high'];
+
+/**
+ * Default time between sweeps
+ */
+const DEFAULT_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * How perishable a listing is: the more perishable of its tag and its
+ * commodity, or medium when neither is known
+ */
+export function getListingPerishability(item: BecknCatalogItem): Perishability {
+  const tagged = item.tags?.perishability;
+  const usual = identifyCommodity(item.descriptor?.name || '')?.perishability;
+
+  if (!tagged || !usual) {
+    return tagged ?? usual ?? 'medium';
+  }
+
+  return PERISHABILITY_ORDER.indexOf(usual) > PERISHABILITY_ORDER.indexOf(tagged) ? usual : tagged;
+}
+
+/**
+ * Hours a listing stays open once broadcast
+ */
+export function getListingTtlHours(item: BecknCatalogItem): number {
+  const perishability = getListingPerishability(item);
+  return Math.min(LISTING_TTL_HOURS[perishability], getMaxValidityHours(perishability));
+}
+
+/**
+ * When a listing broadcast now (or at `from`) expires
+ */
+export function getListingExpiry(item: BecknCatalogItem, from = new Date()): Date {
+  return new Date(from.getTime() + getListingTtlHours(item) * 3600000);
+}
+
+/**
+ * Read the time between sweeps
+ *
+ * Set LISTING_EXPIRY_SWEEP_MS to change it, or to 0 to turn the sweep off.
+ */
+export function getSweepIntervalMs(): number {
+  const configured = Number(process.env.LISTING_EXPIRY_SWEEP_MS);
+  return process.env.LISTING_EXPIRY_SWEEP_MS && Number.isFinite(configured) && configured >= 0
+    ? configured
+    : DEFAULT_SWEEP_INTERVAL_MS;
+}
+
+// ============================================================================
+// SWEEP
+// ============================================================================
+
+/**
+ * Expire broadcast listings whose time has run out, and their open bids
+ *
+ * @returns IDs of the listings expired and the number of bids expired with them
+ */
+async function expireStaleListings(now: Date): Promise<{ catalogIds: string[]; bids: number }> {
+  const stale = await prisma.catalog.findMany({
+    where: { status: 'BROADCASTED', expiresAt: { lte: now } },
+    select: { id: true }
+  });
+
+  const catalogIds: string[] = [];
+  let bids = 0;
+
+  for (const { id } of stale) {
+    // A bid accepted since the lookup has sold the listing; leave it
+    const { count } = await prisma.catalog.updateMany({
+      where: { id, status: 'BROADCASTED' },
+      data: { status: 'EXPIRED' }
+    });
+
+    if (count === 0) {
+      continue;
+    }
+
+    const expired = await prisma.bid.updateMany({
+      where: { catalogId: id, status: 'RECEIVED' },
+      data: { status: 'EXPIRED' }
+    });
+
+    catalogIds.push(id);
+    bids += expired.count;
+  }
+
+  return { catalogIds, bids };
+}
+
+/**
+ * Expire open bids whose validity has run out
+ */
+async function lapseExpiredBids(now: Date): Promise<number> {
+  const open = await prisma.bid.findMany({
+    where: { status: 'RECEIVED', validityHours: { not: null } },
+    select: { id: true, receivedAt: true, validityHours: true }
+  });
+
+  const lapsed = open
+    .filter(bid => bid.receivedAt.getTime() + (bid.validityHours ?? 0) * 3600000 < now.getTime())
+    .map(bid => bid.id);
+
+  if (lapsed.length === 0) {
+    return 0;
+  }
+
+  const { count } = await prisma.bid.updateMany({
+    where: { id: { in: lapsed }, status: 'RECEIVED' },
+    data: { status: 'EXPIRED' }
+  });
+
+  return count;
+}
+
+/**
+ * Expire stale listings and lapsed bids
+ *
+ * @param now - Time to expire against (defaults to now)
+ */
+export async function runExpirySweep(now = new Date()): Promise<ExpirySweepResult> {
+  try {
+    const listings = await expireStaleListings(now);
+    const lapsedBids = listings.bids + await lapseExpiredBids(now);
+
+    if (listings.catalogIds.length > 0 || lapsedBids > 0) {
+      console.log(`[LISTING-EXPIRY] ${listings.catalogIds.length} listings expired, ${lapsedBids} bids lapsed`);
+    }
+
+    return { success: true, expiredCatalogIds: listings.catalogIds, lapsedBids };
+
+  } catch (error) {
+    console.error('[LISTING-EXPIRY] Expiry sweep failed:', error);
+    return { success: false, expiredCatalogIds: [], lapsedBids: 0, error: handleDatabaseError(error) };
+  }
+}
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+let sweepTimer: ReturnType<typeof setInterval> | null = null;
+let sweepRunning = false;
+
+/**
+ * Run the expiry sweep on a timer
+ *
+ * Does nothing if the scheduler is already running or the interval is 0.
+ * A sweep still running when the next one falls due is not overlapped.
+ *
+ * @param intervalMs - Time between sweeps (defaults to LISTING_EXPIRY_SWEEP_MS)
+ * @returns Whether the scheduler was started
+ */
+export function startExpiryScheduler(intervalMs = getSweepIntervalMs()): boolean {
+  if (sweepTimer || intervalMs <= 0) {
+    return false;
+  }
+
+  sweepTimer = setInterval(async () => {
+    if (sweepRunning) {
+      return;
+    }
+
+    sweepRunning = true;
+    try {
+      await runExpirySweep();
+    } finally {
+      sweepRunning = false;
+    }
+  }, intervalMs);
+
+  // Do not keep the process alive just for the sweep
+  sweepTimer.unref?.();
+
+  console.log(`[LISTING-EXPIRY] Sweeping every ${Math.round(intervalMs / 1000)}s`);
+  return true;
+}
+
+/**
+ * Stop the expiry sweep timer
+ */
+export function stopExpiryScheduler(): void {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+}
+
+// ============================================================================
+// RE-LISTING
+// ============================================================================
+
+/**
+ * Find the farmer's latest expired listing they have not been asked about
+ *
+ * The listing is marked as prompted, so the farmer is only asked once.
+ *
+ * @param farmerId - The farmer starting a session
+ * @returns The listing to ask about, or null if there is none
+ */
+export async function findRelistPrompt(farmerId: string): Promise<RelistPrompt | null> {
+  const catalog = await prisma.catalog.findFirst({
+    where: { farmerId, status: 'EXPIRED', relistPromptedAt: null },
+    orderBy: { expiresAt: 'desc' }
+  });
+
+  if (!catalog) {
+    return null;
+  }
+
+  // Another session may have asked about it in the meantime
+  const { count } = await prisma.catalog.updateMany({
+    where: { id: catalog.id, relistPromptedAt: null },
+    data: { relistPromptedAt: new Date() }
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  const item = catalog.becknJson as unknown as BecknCatalogItem;
+  const name = item.descriptor?.name || 'produce';
+  const price = item.price?.value ?? 0;
+
+  const bestBid = await prisma.bid.findFirst({
+    where: { catalogId: catalog.id },
+    orderBy: { pricePerUnit: 'desc' }
+  });
+
+  const suggestedPrice = price <= 0
+    ? undefined
+    : bestBid && bestBid.pricePerUnit < price
+      ? bestBid.pricePerUnit
+      : Math.floor(price * 0.9);
+
+  return {
+    catalogId: catalog.id,
+    commodity: mapCommodityName(name) || name,
+    quantity: item.quantity?.available.count ?? 0,
+    unit: item.quantity?.unit || 'kg',
+    price,
+    suggestedPrice,
+    expiredAt: catalog.expiresAt ?? catalog.updatedAt
+  };
+}
+
+/**
+ * Broadcast an expired listing again, optionally at a new price
+ *
+ * A price change is recorded as a revision. The listing gets a fresh
+ * expiry from its perishability.
+ *
+ * @param catalogId - The expired listing
+ * @param pricePerUnit - New asking price, or undefined to keep the old one
+ */
+export async function relistListing(catalogId: string, pricePerUnit?: number): Promise<RelistResult> {
+  try {
+    let catalog = await prisma.catalog.findUnique({
+      where: { id: catalogId }
+    });
+
+    if (!catalog) {
+      return { success: false, error: `Catalog ${catalogId} not found` };
+    }
+
+    if (catalog.status !== 'EXPIRED') {
+      return { success: false, error: 'Only an expired listing can be listed again' };
+    }
+
+    let item = catalog.becknJson as unknown as BecknCatalogItem;
+
+    if (pricePerUnit !== undefined && pricePerUnit !== item.price.value) {
+      const edited = await updateCatalog(catalogId, { ...item, price: { ...item.price, value: pricePerUnit } }, {
+        note: 'Re-listed after expiry'
+      });
+
+      if (!edited.success || !edited.catalog) {
+        return { success: false, error: edited.error };
+      }
+
+      catalog = edited.catalog;
+      item = catalog.becknJson as unknown as BecknCatalogItem;
+    }
+
+    const expiresAt = getListingExpiry(item);
+    const { count } = await prisma.catalog.updateMany({
+      where: { id: catalogId, status: 'EXPIRED' },
+      data: { status: 'BROADCASTED', expiresAt }
+    });
+
+    if (count === 0) {
+      return { success: false, error: 'This listing changed while re-listing; please try again' };
+    }
+
+    await prisma.networkLog.create({
+      data: {
+        type: 'OUTGOING_CATALOG',
+        catalogId,
+        payload: {
+          catalogId,
+          farmerId: catalog.farmerId,
+          becknJson: catalog.becknJson,
+          timestamp: new Date().toISOString(),
+          source: 'relist'
+        },
+        timestamp: new Date()
+      }
+    });
+
+    const broadcast = await startBroadcast(catalogId);
+    console.log(`[LISTING-EXPIRY] Catalog ${catalogId} re-listed until ${expiresAt.toISOString()}`);
+
+    return {
+      success: broadcast.success,
+      catalog: { ...catalog, status: 'BROADCASTED', expiresAt },
+      transactionId: broadcast.transactionId,
+      error: broadcast.error
+    };
+
+  } catch (error) {
+    console.error('[LISTING-EXPIRY] Re-listing failed:', error);
+    return { success: false, error: handleDatabaseError(error) };
+  }
+}
@@ -970,6 +970,17 @@ export function formatPriceForVoice(
             rising: "বাঢ়িছে",
             falling: "কমিছে",
             stable: "স্থিৰ"
+        },
+        "en": {
+            min: "Minimum",
+            max: "maximum",
+            avg: "Average",
+            perKg: "per kg",
+            rupees: "rupees",
+            market: "market",
+            rising: "rising",
+            falling: "falling",
+            stable: "stable"
         }
     };
 
@@ -0,0 +1,460 @@
+/**
+ * Negotiation Module - Farmer Responses to Buyer Bids
+ *
+ * Once bids arrive for a broadcast, the farmer can:
+ * - accept a bid: the order is confirmed with the buyer over the ONDC
+ *   order flow, an Order is created and the catalog is marked SOLD
+ * - reject a bid: it is withdrawn from the broadcast's offers
+ * - counter-offer a price: the buyer answers with on_select; it either
+ *   takes the asking price (and the lot is sold), raises its bid, or
+ *   declines and keeps its original bid
+ *
+ * Bid and order statuses move through the state machine in
+ * order-lifecycle. Every decision is also recorded as a BID_RESPONSE
+ * NetworkLog, and revised bids from counter-offers are new Bid records
+ * that reference the bid they replace (`revisesBidId`).
+ *
+ * @module negotiation
+ */
+
+import { prisma } from './db';
+import type { Bid, Catalog, Order, Prisma } from './generated-client/client';
+import type { BecknCatalogItem } from './beckn-schema';
+import { toBuyerBid } from './ondc-broadcast';
+import { deliverSimulatedCallback } from './ondc-callbacks';
+import { InvalidTransitionError, transitionBid, transitionOrder } from './order-lifecycle';
+import { recordPoolShares } from './fpo-pool';
+import {
+  extractCommodityName,
+  simulateCounterOffer,
+  simulateOrderConfirmation,
+  updateLearningData,
+  type BuyerBid
+} from './network-simulator';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Farmer's decision on a bid
+ */
+export type BidDecision = 'ACCEPT' | 'REJECT' | 'COUNTER';
+
+/**
+ * Result of responding to a bid
+ */
+export interface BidResponseResult {
+  success: boolean;
+  /**
+   * SOLD: the order is confirmed; REJECTED: the bid is withdrawn;
+   * COUNTER_RAISED: the buyer revised its bid; COUNTER_DECLINED: the
+   * original bid stands
+   */
+  outcome?: 'SOLD' | 'REJECTED' | 'COUNTER_RAISED' | 'COUNTER_DECLINED';
+  /** The bid now on the table (the sold bid once an order is placed) */
+  bid?: BuyerBid;
+  /** The order created when the lot is sold */
+  order?: Order;
+  error?: string;
+}
+
+/**
+ * A bid the farmer can still respond to
+ */
+interface OpenBid {
+  bid: BuyerBid;
+  record: Bid;
+  catalog: Catalog & { farmer?: { state: string | null } | null };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Look up a bid and make sure it can still be answered
+ */
+async function findOpenBid(bidId: string): Promise<{ openBid?: OpenBid; error?: string }> {
+  if (!bidId || bidId.trim().length === 0) {
+    return { error: 'Bid ID is required' };
+  }
+
+  const record = await prisma.bid.findUnique({
+    where: { id: bidId },
+    include: { catalog: { include: { farmer: { select: { state: true } } } } }
+  });
+
+  if (!record) {
+    return { error: `Bid ${bidId} not found` };
+  }
+
+  const { catalog, ...bidRecord } = record;
+
+  if (catalog.status === 'SOLD') {
+    return { error: 'This produce has already been sold' };
+  }
+
+  if (catalog.status !== 'BROADCASTED') {
+    return { error: 'This catalog is not open for bids' };
+  }
+
+  if (bidRecord.status === 'EXPIRED') {
+    return { error: 'This bid has expired' };
+  }
+
+  if (bidRecord.status !== 'RECEIVED') {
+    return { error: 'This bid has already been answered' };
+  }
+
+  if (bidRecord.validityHours && bidRecord.receivedAt.getTime() + bidRecord.validityHours * 3600000 < Date.now()) {
+    await transitionBid(bidId, 'EXPIRED');
+    return { error: 'This bid has expired' };
+  }
+
+  return { openBid: { bid: toBuyerBid(bidRecord), record: bidRecord, catalog } };
+}
+
+/**
+ * Record the farmer's decision on a bid
+ */
+async function logBidResponse(
+  openBid: OpenBid,
+  decision: BidDecision,
+  details: Record<string, Prisma.InputJsonValue | undefined> = {}
+): Promise<void> {
+  const { bid, catalog } = openBid;
+
+  await prisma.networkLog.create({
+    data: {
+      type: 'BID_RESPONSE',
+      transactionId: bid.transactionId,
+      catalogId: catalog.id,
+      payload: {
+        bidId: bid.bidId,
+        catalogId: catalog.id,
+        transactionId: bid.transactionId,
+        decision,
+        buyerName: bid.buyerName,
+        buyerSubscriberId: bid.buyerSubscriberId,
+        bidAmount: bid.bidAmount,
+        ...details,
+        timestamp: new Date().toISOString()
+      },
+      timestamp: new Date()
+    }
+  });
+}
+
+/**
+ * Record the buyer's revised bid after a counter-offer
+ */
+async function recordRevisedBid(
+  openBid: OpenBid,
+  pricePerUnit: number,
+  messageId: string
+): Promise<OpenBid> {
+  const { record, catalog } = openBid;
+  const becknData = catalog.becknJson as unknown as BecknCatalogItem;
+  const catalogPrice = record.catalogPrice || 0;
+  const bidRatio = catalogPrice > 0 ? pricePerUnit / catalogPrice : 1;
+  const commodity = extractCommodityName(becknData.descriptor?.name || '');
+  const timestamp = new Date();
+
+  const revised = await prisma.bid.create({
+    data: {
+      id: `bid-${Date.now()}-${Math.random().toString(36).substring(7)}`,
+      catalogId: catalog.id,
+      farmerId: record.farmerId,
+      transactionId: record.transactionId,
+      messageId,
+      buyerName: record.buyerName,
+      buyerSubscriberId: record.buyerSubscriberId,
+      pricePerUnit,
+      catalogPrice: record.catalogPrice,
+      currency: record.currency,
+      paymentTerms: record.paymentTerms,
+      deliveryDays: record.deliveryDays,
+      validityHours: record.validityHours,
+      revisesBidId: record.id,
+      receivedAt: timestamp
+    }
+  });
+
+  await transitionBid(record.id, 'COUNTERED');
+
+  await prisma.networkLog.create({
+    data: {
+      type: 'INCOMING_BID',
+      transactionId: record.transactionId,
+      catalogId: catalog.id,
+      payload: {
+        bidId: revised.id,
+        transactionId: record.transactionId,
+        messageId,
+        buyerName: record.buyerName,
+        buyerSubscriberId: record.buyerSubscriberId,
+        bidAmount: pricePerUnit,
+        catalogId: catalog.id,
+        catalogPrice,
+        commodity,
+        bidRatio,
+        validityHours: record.validityHours,
+        deliveryDays: record.deliveryDays,
+        paymentTerms: record.paymentTerms,
+        revisesBidId: record.id,
+        timestamp: timestamp.toISOString(),
+        source: 'on_select'
+      },
+      timestamp
+    }
+  });
+
+  await updateLearningData(commodity, bidRatio, { state: catalog.farmer?.state, at: timestamp });
+
+  return { bid: toBuyerBid(revised), record: revised, catalog };
+}
+
+/**
+ * Expire the other open bids on a lot that has been sold
+ *
+ * @returns IDs of the bids expired, to reopen if the sale is rolled back
+ */
+async function closeOtherBids(catalogId: string, soldBidId: string): Promise<string[]> {
+  const open = await prisma.bid.findMany({
+    where: { catalogId, status: 'RECEIVED', id: { not: soldBidId } },
+    select: { id: true }
+  });
+  const bidIds = open.map(({ id }) => id);
+
+  if (bidIds.length > 0) {
+    await prisma.bid.updateMany({
+      where: { id: { in: bidIds }, status: 'RECEIVED' },
+      data: { status: 'EXPIRED' }
+    });
+  }
+
+  return bidIds;
+}
+
+/**
+ * Put a claimed listing back up for its other bids
+ *
+ * @param closedBidIds - Bids expired by the sale, reopened with the listing
+ */
+async function releaseCatalog(catalogId: string, closedBidIds: string[] = []): Promise<void> {
+  await prisma.catalog.updateMany({
+    where: { id: catalogId, status: 'SOLD' },
+    data: { status: 'BROADCASTED' }
+  });
+
+  if (closedBidIds.length > 0) {
+    await prisma.bid.updateMany({
+      where: { id: { in: closedBidIds }, status: 'EXPIRED' },
+      data: { status: 'RECEIVED' }
+    });
+  }
+}
+
+/**
+ * Claim the lot for a bid, then confirm the order with the buyer
+ *
+ * The catalog (BROADCASTED -> SOLD) and the bid (RECEIVED -> ACCEPTED)
+ * are moved first, each only from the status it was read in, so of two
+ * accepts at the same time only one gets past them. The lot's other open
+ * bids are then expired, so none of them can be accepted later. The
+ * order is created and sent to the buyer only after these moves; if it
+ * cannot be created, the moves are undone.
+ */
+async function sellToBidder(openBid: OpenBid): Promise<BidResponseResult> {
+  const { bid, catalog } = openBid;
+  const becknData = catalog.becknJson as unknown as BecknCatalogItem;
+
+  const claimed = await prisma.catalog.updateMany({
+    where: { id: catalog.id, status: 'BROADCASTED' },
+    data: { status: 'SOLD' }
+  });
+  if (claimed.count === 0) {
+    return { success: false, error: 'This produce has already been sold' };
+  }
+
+  try {
+    await transitionBid(bid.bidId, 'ACCEPTED');
+  } catch (error) {
+    await releaseCatalog(catalog.id);
+    if (error instanceof InvalidTransitionError) {
+      return { success: false, error: 'This bid has already been answered' };
+    }
+    throw error;
+  }
+
+  const quantity = becknData.quantity?.available?.count || 0;
+  let closedBidIds: string[] = [];
+  let order: Order;
+
+  try {
+    closedBidIds = await closeOtherBids(catalog.id, bid.bidId);
+    order = await prisma.order.create({
+      data: {
+        id: `order-${Date.now()}-${Math.random().toString(36).substring(7)}`,
+        catalogId: catalog.id,
+        farmerId: catalog.farmerId,
+        bidId: bid.bidId,
+        transactionId: bid.transactionId,
+        buyerName: bid.buyerName,
+        buyerSubscriberId: bid.buyerSubscriberId,
+        pricePerUnit: bid.bidAmount,
+        quantity,
+        unit: becknData.quantity?.unit || 'kg',
+        totalAmount: Math.round(bid.bidAmount * quantity * 100) / 100,
+        currency: becknData.price?.currency || 'INR',
+        paymentTerms: bid.paymentTerms,
+        deliveryDays: bid.deliveryDays
+      }
+    });
+  } catch (error) {
+    // Without an order nothing was sold; put the bid and the lot back
+    await prisma.bid.updateMany({
+      where: { id: bid.bidId, status: 'ACCEPTED' },
+      data: { status: 'RECEIVED' }
+    });
+    await releaseCatalog(catalog.id, closedBidIds);
+    throw error;
+  }
+
+  try {
+    await simulateOrderConfirmation(catalog.id, bid, {
+      deliverCallback: deliverSimulatedCallback,
+      orderId: order.id
+    });
+  } catch (error) {
+    // The buyer never confirmed; the other bids can still be accepted
+    await transitionOrder(order.id, 'CANCELLED');
+    await releaseCatalog(catalog.id, closedBidIds);
+    throw error;
+  }
+
+  const confirmed = await transitionOrder(order.id, 'ORDER_CONFIRMED');
+
+  if (catalog.fpoId) {
+    await recordPoolShares(catalog.id, order.totalAmount);
+  }
+
+  await logBidResponse(openBid, 'ACCEPT', { orderId: order.id });
+
+  console.log(`[NEGOTIATION] Catalog ${catalog.id} sold to ${bid.buyerName} at Rs ${bid.bidAmount}/kg (order ${order.id})`);
+
+  return { success: true, outcome: 'SOLD', bid, order: confirmed };
+}
+
+// ============================================================================
+// RESPONSES
+// ============================================================================
+
+/**
+ * Accept a buyer's bid
+ *
+ * Marks the catalog SOLD and the bid ACCEPTED, expires the other open
+ * bids, then creates the Order record and confirms it with the buyer
+ * (select, init, confirm). An order the buyer fails to confirm is
+ * cancelled and the listing goes back to its other bids. A pooled listing's total is split between the
+ * FPO members who put produce into it.
+ *
+ * @param bidId - The bid to accept
+ */
+export async function acceptBid(bidId: string): Promise<BidResponseResult> {
+  try {
+    const { openBid, error } = await findOpenBid(bidId);
+    if (!openBid) {
+      return { success: false, error };
+    }
+
+    return await sellToBidder(openBid);
+
+  } catch (error) {
+    console.error('[NEGOTIATION] Accept failed:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Could not accept bid' };
+  }
+}
+
+/**
+ * Reject a buyer's bid
+ *
+ * The bid is withdrawn from the broadcast; other bids stay open.
+ *
+ * @param bidId - The bid to reject
+ * @param reason - Optional reason recorded with the decision
+ */
+export async function rejectBid(bidId: string, reason?: string): Promise<BidResponseResult> {
+  try {
+    const { openBid, error } = await findOpenBid(bidId);
+    if (!openBid) {
+      return { success: false, error };
+    }
+
+    await transitionBid(bidId, 'REJECTED');
+    await logBidResponse(openBid, 'REJECT', { reason });
+
+    console.log(`[NEGOTIATION] Bid ${bidId} from ${openBid.bid.buyerName} rejected`);
+
+    return { success: true, outcome: 'REJECTED', bid: openBid.bid };
+
+  } catch (error) {
+    console.error('[NEGOTIATION] Reject failed:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Could not reject bid' };
+  }
+}
+
+/**
+ * Counter a buyer's bid with a higher asking price
+ *
+ * The buyer decides from what it has learned buyers pay for the commodity:
+ * - takes the asking price: the lot is sold at that price
+ * - raises its bid: the revised bid replaces the original
+ * - declines: the original bid stands
+ *
+ * @param bidId - The bid to counter
+ * @param counterPrice - The farmer's asking price per unit
+ */
+export async function counterBid(bidId: string, counterPrice: number): Promise<BidResponseResult> {
+  try {
+    const { openBid, error } = await findOpenBid(bidId);
+    if (!openBid) {
+      return { success: false, error };
+    }
+
+    if (!Number.isFinite(counterPrice) || counterPrice <= openBid.bid.bidAmount) {
+      return {
+        success: false,
+        error: `Counter-offer must be above the current bid of Rs ${openBid.bid.bidAmount}`
+      };
+    }
+
+    const counterPriceRounded = Math.round(counterPrice * 100) / 100;
+    const response = await simulateCounterOffer(openBid.catalog.id, openBid.bid, counterPriceRounded, {
+      deliverCallback: deliverSimulatedCallback
+    });
+
+    if (response.outcome === 'DECLINED') {
+      await logBidResponse(openBid, 'COUNTER', { counterPrice: counterPriceRounded, outcome: response.outcome });
+      return { success: true, outcome: 'COUNTER_DECLINED', bid: openBid.bid };
+    }
+
+    const revised = await recordRevisedBid(openBid, response.pricePerUnit, response.messageId);
+    await logBidResponse(openBid, 'COUNTER', {
+      counterPrice: counterPriceRounded,
+      outcome: response.outcome,
+      revisedBidId: revised.bid.bidId
+    });
+
+    if (response.outcome === 'ACCEPTED') {
+      return await sellToBidder(revised);
+    }
+
+    return { success: true, outcome: 'COUNTER_RAISED', bid: revised.bid };
+
+  } catch (error) {
+    console.error('[NEGOTIATION] Counter-offer failed:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Could not send counter-offer' };
+  }
+}
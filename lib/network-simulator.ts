@@ -13,17 +13,39 @@
  * PRODUCTION-GRADE SIMULATION:
  * - Realistic network latencies (12-25 seconds round-trip)
  * - Transaction ID generation (UUIDv4 format)
- * - Multi-phase ONDC flow: search -> on_search -> select -> on_select -> init -> on_init
+ * - Multi-phase ONDC flow: search -> on_search from every bidding buyer
+ * - Bid collection window: buyers operating in the farmer's state compete
+ *   with their own price, payment terms and delivery days
+ * - Full ONDC v1.2 envelopes (context + message) persisted for every message
+ * - Order flow after a sale: select, init, confirm, then on_status for
+ *   each fulfillment stage
+ * - Cancellation: cancel/on_cancel with ONDC reason codes, and buyers
+ *   cancelling a share of orders (ONDC_BUYER_CANCEL_RATE)
+ * - Issue & Grievance Management: issue/on_issue and
+ *   issue_status/on_issue_status, with buyers raising complaints and
+ *   answering the farmer's
+ * - Fault injection: phase latencies, failures and buyer response follow
+ *   the active fault profile (see lib/fault-profiles)
+ * - Reproducible runs: chance and time come from a simulation environment
+ *   (see createNetworkSimulator), so a seeded random source and a virtual
+ *   clock give the same bids, failures and timings in milliseconds
+ * - Buyer registry: buyers, their states, commodities and verification
+ *   are kept in the database (see lib/buyer-registry)
+ * - Buyer matching: a listing reaches the buyers operating in the
+ *   farmer's state that buy the commodity and have capacity left today,
+ *   with the reason for each buyer (see lib/buyer-matching)
  * - Buyer verification and rating systems
  * - Network congestion and timeout scenarios (5-10% occurrence rate)
  * - Gateway routing simulation
  * - Buyer bid competition with realistic price discovery
+ * - Bid learning: bids follow what buyers have paid per commodity, state
+ *   and month, kept in the database (see lib/bid-learning)
  * 
  * NOTE: This simulates the ONDC network behavior.
  * Real ONDC network integration requires:
  * - ONDC sandbox/production registration at https://ondc.org
  * - BAP (Buyer App) / BPP (Seller App) certification
- * - Digital signature implementation (Ed25519)
+ * - Registry entry for the Ed25519 signing key (see ondc-signing)
  * - Network participant agreements
  * - GSTIN verification integration
  * 
@@ -33,8 +55,73 @@
  */
 
 import { prisma } from './db';
-import type { Catalog, Prisma, NetworkLog } from './generated-client/client';
+import type { Catalog, Issue, Prisma, NetworkLog, Order } from './generated-client/client';
 import type { BecknCatalogItem } from './beckn-schema';
+import type { Buyer } from './buyer-pool';
+import {
+  getAuctionBuyers,
+  getBuyers,
+  loadBuyerRegistry,
+  lookupBuyer
+} from './buyer-registry';
+import { matchBuyersForListing, type BuyerMatch } from './buyer-matching';
+import {
+  createSimulationEnvironment,
+  getDefaultSimulationEnvironment,
+  type SimulationClock,
+  type SimulationEnvironment
+} from './simulation-environment';
+import {
+  getActiveFaultProfile,
+  PHASE_FAILURES,
+  type FaultProfile,
+  type PhaseFaults,
+  type SimulatedFailure,
+  type SimulatedPhase
+} from './fault-profiles';
+import {
+  getCachedLearningStats,
+  getLearnedRatio,
+  getSeasonalFactor,
+  loadBidLearning,
+  recordBidRatio
+} from './bid-learning';
+import {
+  ONDC_DOMAIN,
+  ONDC_VERSION,
+  ONDC_ISSUE_KINDS,
+  createOndcContext,
+  createCallbackContext,
+  createEnvelope,
+  getResponseDeadline,
+  toTtlDuration,
+  buildSearchMessage,
+  buildOnSearchMessage,
+  buildSelectMessage,
+  buildOnSelectMessage,
+  buildInitMessage,
+  buildOnInitMessage,
+  buildConfirmMessage,
+  buildOnConfirmMessage,
+  buildOnStatusMessage,
+  buildCancelMessage,
+  buildOnCancelMessage,
+  buildIssueMessage,
+  buildOnIssueMessage,
+  buildIssueStatusMessage,
+  getCancellationReasonCodes,
+  getSubscriberConfig,
+  type ONDCCancellationReasonCode,
+  type ONDCContext,
+  type ONDCEnvelope,
+  type ONDCFulfillmentStage,
+  type ONDCIssueAction,
+  type ONDCIssueActionCode,
+  type ONDCIssueKind,
+  type ONDCIssueResolution,
+  type ONDCIssueTerms,
+  type ONDCOrderTerms
+} from './ondc-protocol';
 
 // ============================================================================
 // ONDC PROTOCOL CONSTANTS (As per ONDC v1.2 Specification)
@@ -42,6 +129,9 @@ import type { BecknCatalogItem } from './beckn-schema';
 
 /**
  * ONDC Transaction States as per Beckn Protocol
+ *
+ * The order stages (BID_ACCEPTED onwards) are persisted on Order records;
+ * see order-lifecycle for the enforced transitions.
  */
 type ONDCTransactionState =
   | 'INITIATED'
@@ -73,50 +163,44 @@ const NETWORK_STATUS = {
 } as const;
 
 /**
- * ONDC Domain for Agriculture (as per ONDC registry)
+ * Gateway endpoints (simulated)
+ * LOCAL is the mock gateway started with `npm run ondc:mock` (see ondc-mock-network)
  */
-const ONDC_DOMAIN = 'ONDC:AGR10' as const;
+const ONDC_GATEWAY = {
+  PRODUCTION: 'gateway.ondc.org',
+  SANDBOX: 'sandbox.gateway.ondc.org',
+  STAGING: 'staging.gateway.ondc.org',
+  LOCAL: 'localhost:4010'
+} as const;
 
 /**
- * ONDC Version being simulated
+ * Default bid collection window after a search goes out
  */
-const ONDC_VERSION = '1.2.0' as const;
+const DEFAULT_AUCTION_WINDOW_MS = 30000;
 
 /**
- * Gateway endpoints (simulated)
+ * Default share of confirmed orders the buyer cancels before packing
  */
-const ONDC_GATEWAY = {
-  PRODUCTION: 'gateway.ondc.org',
-  SANDBOX: 'sandbox.gateway.ondc.org',
-  STAGING: 'staging.gateway.ondc.org'
-} as const;
+const DEFAULT_BUYER_CANCEL_RATE = 0.05;
 
-// ============================================================================
-// BUYER INTERFACES AND DATA
-// ============================================================================
+/**
+ * Most buyers that answer a single search
+ */
+const MAX_AUCTION_BIDDERS = 5;
 
 /**
- * Extended buyer information including ONDC-specific fields
+ * Error returned for each simulated network failure
  */
-interface Buyer {
-  name: string;
-  logo: string;
-  rating: number;
-  location: string;
-  verified: boolean;
-  /** ONDC BAP Subscriber ID */
-  subscriberId: string;
-  /** GSTIN for GST compliance */
-  gstin: string;
-  /** Operational states */
-  operatingStates: string[];
-  /** Maximum order capacity per day */
-  dailyCapacity: number;
-  /** Average response time in seconds */
-  avgResponseTime: number;
-  /** Success rate in percentage */
-  successRate: number;
-}
+const NETWORK_ERRORS: Record<SimulatedFailure, { code: number; message: string }> = {
+  'TIMEOUT': { code: NETWORK_STATUS.GATEWAY_TIMEOUT, message: "ONDC Gateway timeout - no buyer response within SLA" },
+  'DENIED': { code: NETWORK_STATUS.CONFLICT, message: "No buyers available for this commodity in your region" },
+  'NETWORK_ERROR': { code: NETWORK_STATUS.SERVICE_UNAVAILABLE, message: "ONDC network temporarily unavailable" },
+  'RATE_LIMITED': { code: NETWORK_STATUS.RATE_LIMITED, message: "Too many requests - please try again later" }
+};
+
+// ============================================================================
+// BUYER INTERFACES
+// ============================================================================
 
 /**
  * Enhanced buyer bid response with ONDC transaction details
@@ -130,6 +214,8 @@ export interface BuyerBid {
   buyerLocation: string;
   buyerVerified: boolean;
   bidId: string;
+  /** ONDC subscriber ID of the bidding buyer */
+  buyerSubscriberId?: string;
   /** ONDC Transaction ID (UUIDv4) */
   transactionId?: string;
   /** Message ID for this specific message */
@@ -153,7 +239,10 @@ export interface BuyerBid {
  */
 export interface BroadcastResponse {
   success: boolean;
+  /** Best bid received */
   bid?: BuyerBid;
+  /** All bids received during the auction window, best first */
+  bids?: BuyerBid[];
   error?: {
     code: number;
     message: string;
@@ -162,6 +251,8 @@ export interface BroadcastResponse {
   transactionId: string;
   processingTimeMs: number;
   networkPhases: NetworkPhase[];
+  /** Why each buyer did or didn't receive the broadcast (once matched) */
+  buyerMatches?: BuyerMatch[];
 }
 
 /**
@@ -174,312 +265,88 @@ interface NetworkPhase {
   timestamp: Date;
 }
 
-/**
- * Pool of ONDC-registered buyer platforms
- * These represent major ONDC-compliant buyer platforms in India
- * Data based on actual ONDC network participants
- */
-const BUYER_POOL: Buyer[] = [
-  {
-    name: "Reliance Retail (JioMart)",
-    logo: "/logos/jiomart.png",
-    rating: 4.6,
-    location: "Mumbai, Maharashtra",
-    verified: true,
-    subscriberId: "ondc.reliance.retail.bap",
-    gstin: "27AAACR5055K1ZK",
-    operatingStates: ["Maharashtra", "Gujarat", "Karnataka", "Tamil Nadu", "Delhi", "Uttar Pradesh"],
-    dailyCapacity: 50000,
-    avgResponseTime: 8.5,
-    successRate: 94
-  },
-  {
-    name: "BigBasket (Tata Digital)",
-    logo: "/logos/bigbasket.png",
-    rating: 4.7,
-    location: "Bengaluru, Karnataka",
-    verified: true,
-    subscriberId: "ondc.bigbasket.tata.bap",
-    gstin: "29AAACT2638R1ZH",
-    operatingStates: ["Karnataka", "Maharashtra", "Tamil Nadu", "Telangana", "Delhi", "West Bengal"],
-    dailyCapacity: 40000,
-    avgResponseTime: 7.2,
-    successRate: 96
-  },
-  {
-    name: "Paytm Mall",
-    logo: "/logos/paytm.png",
-    rating: 4.2,
-    location: "Noida, Uttar Pradesh",
-    verified: true,
-    subscriberId: "ondc.paytm.mall.bap",
-    gstin: "09AADCP8872M1ZW",
-    operatingStates: ["Uttar Pradesh", "Delhi", "Rajasthan", "Madhya Pradesh", "Bihar"],
-    dailyCapacity: 25000,
-    avgResponseTime: 9.8,
-    successRate: 89
-  },
-  {
-    name: "Flipkart Supermart",
-    logo: "/logos/flipkart.png",
-    rating: 4.5,
-    location: "Bengaluru, Karnataka",
-    verified: true,
-    subscriberId: "ondc.flipkart.supermart.bap",
-    gstin: "29AABCF8078M1ZB",
-    operatingStates: ["Karnataka", "Maharashtra", "Tamil Nadu", "Telangana", "Delhi", "Gujarat"],
-    dailyCapacity: 45000,
-    avgResponseTime: 7.8,
-    successRate: 93
-  },
-  {
-    name: "Amazon Fresh India",
-    logo: "/logos/amazon.png",
-    rating: 4.8,
-    location: "Hyderabad, Telangana",
-    verified: true,
-    subscriberId: "ondc.amazon.fresh.bap",
-    gstin: "36AABCU9603R1ZM",
-    operatingStates: ["Telangana", "Karnataka", "Tamil Nadu", "Maharashtra", "Delhi"],
-    dailyCapacity: 35000,
-    avgResponseTime: 6.5,
-    successRate: 97
-  },
-  {
-    name: "Spencers Retail",
-    logo: "/logos/spencers.png",
-    rating: 4.1,
-    location: "Kolkata, West Bengal",
-    verified: true,
-    subscriberId: "ondc.spencers.retail.bap",
-    gstin: "19AAACS9107N1ZF",
-    operatingStates: ["West Bengal", "Jharkhand", "Odisha", "Bihar", "Assam"],
-    dailyCapacity: 15000,
-    avgResponseTime: 11.2,
-    successRate: 87
-  },
-  {
-    name: "Blinkit (Zomato)",
-    logo: "/logos/blinkit.png",
-    rating: 4.4,
-    location: "Gurugram, Haryana",
-    verified: true,
-    subscriberId: "ondc.blinkit.zomato.bap",
-    gstin: "06AADCZ4886M1ZT",
-    operatingStates: ["Haryana", "Delhi", "Uttar Pradesh", "Maharashtra", "Karnataka"],
-    dailyCapacity: 30000,
-    avgResponseTime: 5.8,
-    successRate: 91
-  },
-  {
-    name: "Nature's Basket (Godrej)",
-    logo: "/logos/natures-basket.png",
-    rating: 4.3,
-    location: "Mumbai, Maharashtra",
-    verified: true,
-    subscriberId: "ondc.naturesbasket.godrej.bap",
-    gstin: "27AAACG0681D1ZN",
-    operatingStates: ["Maharashtra", "Gujarat", "Karnataka"],
-    dailyCapacity: 8000,
-    avgResponseTime: 12.5,
-    successRate: 92
-  },
-  {
-    name: "Star Bazaar (Trent)",
-    logo: "/logos/star-bazaar.png",
-    rating: 4.0,
-    location: "Mumbai, Maharashtra",
-    verified: true,
-    subscriberId: "ondc.starbazaar.trent.bap",
-    gstin: "27AAACT2103M1ZD",
-    operatingStates: ["Maharashtra", "Gujarat", "Madhya Pradesh", "Rajasthan"],
-    dailyCapacity: 12000,
-    avgResponseTime: 13.0,
-    successRate: 85
-  },
-  {
-    name: "Udaan B2B",
-    logo: "/logos/udaan.png",
-    rating: 4.4,
-    location: "Bengaluru, Karnataka",
-    verified: true,
-    subscriberId: "ondc.udaan.b2b.bap",
-    gstin: "29AADCU5789K1Z5",
-    operatingStates: ["Karnataka", "Tamil Nadu", "Maharashtra", "Delhi", "Gujarat", "Rajasthan"],
-    dailyCapacity: 60000,
-    avgResponseTime: 8.0,
-    successRate: 90
-  }
-];
-
 // ============================================================================
-// LEARNING AND CACHING SYSTEM
+// LEARNING SYSTEM
 // ============================================================================
 
-/**
- * Historical bid learning data structure
- */
-interface BidLearningData {
-  commodity: string;
-  avgBidRatio: number;
-  bidCount: number;
-  lastUpdated: Date;
-  /** Seasonal adjustment factor */
-  seasonalFactor: number;
-  /** Regional price variations */
-  regionalFactors: Record<string, number>;
-}
-
-// In-memory learning cache (persisted to database)
-let bidLearningCache: Map<string, BidLearningData> = new Map();
-
-/**
- * Load historical bid data for learning
- */
-async function loadBidLearningData(): Promise<void> {
-  try {
-    console.log("[ONDC-LEARN] Loading historical bid data for auto-learning...");
-
-    const bids = await prisma.networkLog.findMany({
-      where: { type: "INCOMING_BID" },
-      orderBy: { timestamp: 'desc' },
-      take: 1000
-    });
-
-    const commodityStats: Map<string, { totalRatio: number; count: number }> = new Map();
-
-    for (const bid of bids) {
-      const payload = bid.payload as Record<string, unknown>;
-      if (payload?.commodity && payload?.bidRatio) {
-        const commodity = String(payload.commodity);
-        const bidRatio = Number(payload.bidRatio);
-        const stats = commodityStats.get(commodity) || { totalRatio: 0, count: 0 };
-        stats.totalRatio += bidRatio;
-        stats.count += 1;
-        commodityStats.set(commodity, stats);
-      }
-    }
-
-    for (const [commodity, stats] of commodityStats) {
-      bidLearningCache.set(commodity, {
-        commodity,
-        avgBidRatio: stats.totalRatio / stats.count,
-        bidCount: stats.count,
-        lastUpdated: new Date(),
-        seasonalFactor: getSeasonalFactor(commodity),
-        regionalFactors: {}
-      });
-    }
-
-    console.log(`[ONDC-LEARN] Loaded learning data for ${bidLearningCache.size} commodities`);
-  } catch (error) {
-    console.warn("[ONDC-LEARN] Could not load historical bid data:", error);
-  }
-}
-
-/**
- * Get seasonal factor for commodity pricing
- */
-function getSeasonalFactor(commodity: string): number {
-  const month = new Date().getMonth();
-  const seasonalPatterns: Record<string, number[]> = {
-    'onion': [1.2, 1.1, 1.0, 0.9, 0.85, 0.8, 0.85, 0.9, 1.0, 1.1, 1.15, 1.2],
-    'potato': [1.0, 0.95, 0.9, 0.85, 0.9, 0.95, 1.0, 1.05, 1.1, 1.05, 1.0, 1.0],
-    'tomato': [0.9, 0.85, 0.8, 0.9, 1.1, 1.3, 1.2, 1.0, 0.9, 0.85, 0.85, 0.9],
-    'wheat': [1.0, 1.0, 0.95, 0.9, 0.9, 0.95, 1.0, 1.05, 1.1, 1.1, 1.05, 1.0],
-    'rice': [1.0, 1.0, 1.0, 0.95, 0.95, 0.9, 0.9, 0.95, 1.0, 1.1, 1.1, 1.05],
-    'mango': [0.5, 0.6, 0.8, 1.0, 1.2, 1.3, 1.2, 0.9, 0.6, 0.5, 0.5, 0.5],
-  };
-
-  const pattern = seasonalPatterns[commodity.toLowerCase()] || Array(12).fill(1.0);
-  return pattern[month];
-}
-
 /**
  * Get learned bid ratio for a commodity with production-level variability
+ *
+ * Follows what buyers bid in the farmer's state and the season (see
+ * lib/bid-learning), once the commodity has enough bids.
  */
-function getLearnedBidRatio(commodity: string): number {
-  const learningData = bidLearningCache.get(commodity.toLowerCase());
-  const seasonalFactor = getSeasonalFactor(commodity);
+function getLearnedBidRatio(commodity: string, state: string | null | undefined, env: SimulationEnvironment): number {
+  const at = new Date(env.clock.now());
+  const learned = getLearnedRatio(commodity, state, at);
 
-  if (learningData && learningData.bidCount >= 5) {
+  if (learned) {
     // Production: More variation based on buyer competition
-    const baseVariation = 0.95 + Math.random() * 0.12; // 95% to 107%
-    const competitionFactor = 0.98 + Math.random() * 0.06; // Market competition
-    return learningData.avgBidRatio * baseVariation * competitionFactor * seasonalFactor;
+    const baseVariation = 0.95 + env.random() * 0.12; // 95% to 107%
+    const competitionFactor = 0.98 + env.random() * 0.06; // Market competition
+    return learned.ratio * baseVariation * competitionFactor;
   }
 
   // Default with seasonal adjustment
-  const baseRatio = 0.92 + Math.random() * 0.13; // 92% to 105%
-  return baseRatio * seasonalFactor;
+  const baseRatio = 0.92 + env.random() * 0.13; // 92% to 105%
+  return baseRatio * getSeasonalFactor(commodity, at);
 }
 
 /**
  * Update learning data with new bid
+ *
+ * @param commodity - The commodity bid on
+ * @param bidRatio - Bid price / asking price
+ * @param context - The farmer's state and when the bid was received (now when omitted)
  */
-async function updateLearningData(commodity: string, bidRatio: number): Promise<void> {
-  try {
-    const key = commodity.toLowerCase();
-    const existing = bidLearningCache.get(key);
-
-    if (existing) {
-      const newCount = existing.bidCount + 1;
-      const newAvg = (existing.avgBidRatio * existing.bidCount + bidRatio) / newCount;
-      existing.avgBidRatio = newAvg;
-      existing.bidCount = newCount;
-      existing.lastUpdated = new Date();
-    } else {
-      bidLearningCache.set(key, {
-        commodity: key,
-        avgBidRatio: bidRatio,
-        bidCount: 1,
-        lastUpdated: new Date(),
-        seasonalFactor: getSeasonalFactor(commodity),
-        regionalFactors: {}
-      });
-    }
-  } catch (error) {
-    console.warn("[ONDC-LEARN] Could not update learning data:", error);
-  }
+export async function updateLearningData(
+  commodity: string,
+  bidRatio: number,
+  context: { state?: string | null; at?: Date } = {}
+): Promise<void> {
+  await recordBidRatio({ commodity, bidRatio, state: context.state, at: context.at ?? new Date() });
 }
 
-// ============================================================================
-// PRODUCTION NETWORK SIMULATION
-// ============================================================================
-
 /**
  * Generate ONDC-compliant Transaction ID (UUIDv4 format)
+ *
+ * @param random - Random source (defaults to the default simulation environment's)
  */
-function generateTransactionId(): string {
+export function generateTransactionId(random: () => number = getDefaultSimulationEnvironment().random): string {
   return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-    const r = Math.random() * 16 | 0;
+    const r = random() * 16 | 0;
     const v = c === 'x' ? r : (r & 0x3 | 0x8);
     return v.toString(16);
   });
 }
 
 /**
- * Generate Message ID for ONDC message tracking
+ * Generate Message ID for ONDC message tracking (UUIDv4 as required by ONDC)
  */
-function generateMessageId(): string {
-  return `msg-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+export function generateMessageId(random: () => number = getDefaultSimulationEnvironment().random): string {
+  return generateTransactionId(random);
 }
 
 /**
- * Simulate network phase with realistic timing
+ * Generate a record ID such as `bid-<time>-<random>`
+ */
+function generateRecordId(prefix: string, env: SimulationEnvironment): string {
+  return `${prefix}-${env.clock.now()}-${env.random().toString(36).substring(7)}`;
+}
+
+/**
+ * Simulate network phase with the fault profile's timing and failure chance
  */
 async function simulateNetworkPhase(
+  env: SimulationEnvironment,
   phaseName: string,
-  minMs: number,
-  maxMs: number
+  faults: PhaseFaults
 ): Promise<NetworkPhase> {
-  const duration = minMs + Math.random() * (maxMs - minMs);
-  const startTime = new Date();
+  const duration = faults.minMs + env.random() * (faults.maxMs - faults.minMs);
+  const startTime = new Date(env.clock.now());
 
-  await new Promise(resolve => setTimeout(resolve, duration));
+  await env.clock.sleep(duration);
 
-  // 2% chance of phase failure in production simulation
-  const failed = Math.random() < 0.02;
+  const failed = env.random() < faults.failureRate;
 
   return {
     phase: phaseName,
@@ -491,55 +358,374 @@ async function simulateNetworkPhase(
 
 /**
  * Check if network should simulate a failure scenario
- * Production networks have ~5-10% failure rate
+ *
+ * One draw against the fault profile's failure chances, taken in turn.
  */
-function shouldSimulateFailure(): { fail: boolean; type?: 'TIMEOUT' | 'DENIED' | 'NETWORK_ERROR' | 'RATE_LIMITED' } {
-  const random = Math.random();
-
-  if (random < 0.03) { // 3% chance of timeout
-    return { fail: true, type: 'TIMEOUT' };
-  }
-  if (random < 0.05) { // 2% chance of denial (buyer capacity/policy)
-    return { fail: true, type: 'DENIED' };
-  }
-  if (random < 0.06) { // 1% chance of network error
-    return { fail: true, type: 'NETWORK_ERROR' };
-  }
-  if (random < 0.07) { // 1% chance of rate limiting
-    return { fail: true, type: 'RATE_LIMITED' };
+function shouldSimulateFailure(
+  random: () => number,
+  failures: FaultProfile['failures']
+): { fail: boolean; type?: SimulatedFailure } {
+  const draw = random();
+  let threshold = 0;
+
+  for (const type of Object.keys(NETWORK_ERRORS) as SimulatedFailure[]) {
+    threshold += failures[type];
+    if (draw < threshold) {
+      return { fail: true, type };
+    }
   }
 
   return { fail: false };
 }
 
 /**
- * Select buyer based on commodity and region matching
+ * Read the configured bid collection window
+ *
+ * Set ONDC_AUCTION_WINDOW_MS to change how long buyers may bid after a
+ * search goes out.
+ */
+export function getAuctionWindowMs(): number {
+  const configured = Number(process.env.ONDC_AUCTION_WINDOW_MS);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_AUCTION_WINDOW_MS;
+}
+
+/**
+ * Read the configured rate of buyer-initiated cancellations
+ *
+ * Set ONDC_BUYER_CANCEL_RATE (0 to 1) to change how often a simulated
+ * buyer cancels a confirmed order before it is packed.
+ */
+export function getBuyerCancelRate(): number {
+  const configured = Number(process.env.ONDC_BUYER_CANCEL_RATE);
+  return process.env.ONDC_BUYER_CANCEL_RATE && Number.isFinite(configured) && configured >= 0 && configured <= 1
+    ? configured
+    : DEFAULT_BUYER_CANCEL_RATE;
+}
+
+/**
+ * Order bids best first
+ *
+ * Highest price wins; ties go to advance payment, then faster delivery,
+ * then the better-rated buyer.
+ */
+export function rankBids(bids: BuyerBid[]): BuyerBid[] {
+  const isAdvance = (bid: BuyerBid) => /advance/i.test(bid.paymentTerms || '') ? 1 : 0;
+
+  return [...bids].sort((a, b) =>
+    b.bidAmount - a.bidAmount
+    || isAdvance(b) - isAdvance(a)
+    || (a.deliveryDays ?? Infinity) - (b.deliveryDays ?? Infinity)
+    || b.buyerRating - a.buyerRating
+  );
+}
+
+/**
+ * Network endpoint of a buyer platform
  */
-function selectBuyerForCommodity(commodityName: string, catalogState?: string): Buyer {
-  // Filter buyers by operational state if provided
-  let eligibleBuyers = BUYER_POOL.filter(b => b.verified);
+function getBuyerSubscriberUri(buyer: Buyer): string {
+  return `https://${buyer.subscriberId}/protocol/v1`;
+}
 
-  if (catalogState) {
-    const stateMatched = eligibleBuyers.filter(b =>
-      b.operatingStates.some(s => s.toLowerCase() === catalogState.toLowerCase())
-    );
-    if (stateMatched.length > 0) {
-      eligibleBuyers = stateMatched;
+/**
+ * Persist a complete ONDC envelope to the network log
+ */
+async function logOndcMessage(
+  type: 'ONDC_REQUEST' | 'ONDC_CALLBACK',
+  envelope: ONDCEnvelope<unknown>,
+  catalogId: string
+): Promise<void> {
+  await prisma.networkLog.create({
+    data: {
+      type,
+      payload: envelope as unknown as Prisma.InputJsonValue,
+      transactionId: envelope.context.transaction_id,
+      catalogId,
+      timestamp: new Date(envelope.context.timestamp)
     }
-  }
+  });
+}
 
-  // Weight selection by success rate and rating
-  const totalWeight = eligibleBuyers.reduce((sum, b) => sum + (b.successRate * b.rating), 0);
-  let random = Math.random() * totalWeight;
+/**
+ * Delivers a buyer callback to the app
+ */
+export type CallbackDelivery = (envelope: ONDCEnvelope<unknown>) => Promise<void>;
 
-  for (const buyer of eligibleBuyers) {
-    random -= buyer.successRate * buyer.rating;
-    if (random <= 0) {
-      return buyer;
+/**
+ * Options for a simulated broadcast
+ */
+export interface BroadcastSimulationOptions {
+  /** Transaction ID reserved by the caller (generated if omitted) */
+  transactionId?: string;
+  /**
+   * Delivers buyer callbacks, e.g. to the ONDC callback handler.
+   * When set, the receiver owns bid persistence and learning; otherwise
+   * callbacks and bids are logged directly.
+   */
+  deliverCallback?: CallbackDelivery;
+  /** Bid collection window in milliseconds (defaults to getAuctionWindowMs) */
+  windowMs?: number;
+  /** Most buyers that may bid */
+  maxBidders?: number;
+  /**
+   * Randomness and time to simulate with (defaults to
+   * getDefaultSimulationEnvironment)
+   */
+  environment?: SimulationEnvironment;
+  /** Failure scenario to simulate (defaults to getActiveFaultProfile) */
+  faultProfile?: FaultProfile;
+}
+
+/**
+ * Options for a simulated exchange on an existing bid or order
+ */
+export type ExchangeSimulationOptions = Pick<BroadcastSimulationOptions, 'deliverCallback' | 'environment'>;
+
+/**
+ * Simulate one request/callback exchange with a buyer
+ *
+ * Logs the outgoing request, delivers the buyer's callback, and returns
+ * the callback context so the next exchange can reference it.
+ */
+async function exchangeWithBuyer<TRequest, TCallback>(
+  requestContext: ONDCContext,
+  requestMessage: TRequest,
+  callbackAction: 'on_search' | 'on_select' | 'on_init' | 'on_confirm' | 'on_cancel' | 'on_issue' | 'on_issue_status',
+  callbackMessage: TCallback,
+  buyer: Buyer,
+  catalogId: string,
+  deliverCallback: CallbackDelivery,
+  env: SimulationEnvironment
+): Promise<ONDCContext> {
+  await logOndcMessage('ONDC_REQUEST', createEnvelope(requestContext, requestMessage), catalogId);
+
+  const callbackContext = createCallbackContext(requestContext, callbackAction, {
+    subscriberId: buyer.subscriberId,
+    subscriberUri: getBuyerSubscriberUri(buyer)
+  }, new Date(env.clock.now()));
+  await deliverCallback(createEnvelope(callbackContext, callbackMessage));
+
+  return callbackContext;
+}
+
+/**
+ * Record a failed broadcast and build its response
+ */
+async function failBroadcast(
+  type: keyof typeof NETWORK_ERRORS,
+  catalogId: string,
+  transactionId: string,
+  startTime: number,
+  networkPhases: NetworkPhase[],
+  env: SimulationEnvironment
+): Promise<BroadcastResponse> {
+  const error = NETWORK_ERRORS[type];
+  console.log(`[ONDC-PRODUCTION] NETWORK EVENT: ${type}`);
+
+  // Log the failure to database
+  await prisma.networkLog.create({
+    data: {
+      type: "OUTGOING_CATALOG" as const,
+      transactionId,
+      catalogId,
+      payload: {
+        catalogId,
+        transactionId,
+        status: 'FAILED',
+        errorType: type,
+        errorCode: error.code,
+        errorMessage: error.message,
+        processingTimeMs: env.clock.now() - startTime,
+        phases: networkPhases.map(p => ({ ...p, timestamp: p.timestamp.toISOString() }))
+      },
+      timestamp: new Date(env.clock.now())
     }
+  });
+
+  return {
+    success: false,
+    error: {
+      code: error.code,
+      message: error.message,
+      type
+    },
+    transactionId,
+    processingTimeMs: env.clock.now() - startTime,
+    networkPhases
+  };
+}
+
+/**
+ * Record why each buyer did or didn't receive a broadcast
+ */
+async function logBuyerMatches(
+  catalogId: string,
+  transactionId: string,
+  matches: BuyerMatch[],
+  env: SimulationEnvironment
+): Promise<void> {
+  await prisma.networkLog.create({
+    data: {
+      type: "OUTGOING_CATALOG" as const,
+      transactionId,
+      catalogId,
+      payload: {
+        catalogId,
+        transactionId,
+        status: 'MATCHED',
+        buyerMatches: matches as unknown as Prisma.InputJsonValue
+      },
+      timestamp: new Date(env.clock.now())
+    }
+  });
+}
+
+/**
+ * One buyer's turn in the auction window
+ *
+ * Waits until the buyer answers (when, per the fault profile's
+ * bidResponse), then delivers its on_search offer. An answer that would
+ * come after the deadline is ignored.
+ *
+ * @returns The bid, or null when the buyer missed the window
+ */
+async function collectBuyerBid(
+  buyer: Buyer,
+  searchContext: ONDCContext,
+  catalog: Pick<Catalog, 'id' | 'farmerId'> & { farmer?: { state: string | null } | null },
+  becknData: BecknCatalogItem,
+  deliverCallback: CallbackDelivery,
+  logBidDirectly: boolean,
+  env: SimulationEnvironment,
+  bidResponse: FaultProfile['bidResponse']
+): Promise<BuyerBid | null> {
+  const remainingMs = Math.max(0, getResponseDeadline(searchContext).getTime() - env.clock.now());
+  const share = bidResponse.minShare + env.random() * (bidResponse.maxShare - bidResponse.minShare);
+
+  if (share >= 1) {
+    await env.clock.sleep(remainingMs);
+    console.log(`[ONDC-PRODUCTION] ${buyer.name} answered after the auction window closed`);
+    return null;
   }
 
-  return eligibleBuyers[Math.floor(Math.random() * eligibleBuyers.length)];
+  await env.clock.sleep(share * remainingMs);
+
+  const catalogId = catalog.id;
+  const transactionId = searchContext.transaction_id;
+  const catalogPrice = becknData.price?.value || 0;
+  const commodityName = extractCommodityName(becknData.descriptor?.name || "");
+  const basePrice = catalogPrice > 0 ? catalogPrice : 20;
+  const bidAmount = Math.round(basePrice * getLearnedBidRatio(commodityName, catalog.farmer?.state, env) * 100) / 100;
+  const bidId = generateRecordId('bid', env);
+
+  // Calculate validity and delivery terms
+  const validityHours = 24 + Math.floor(env.random() * 48); // 24-72 hours
+  const deliveryDays = 2 + Math.floor(env.random() * 5); // 2-7 days
+  const paymentTerms = env.random() > 0.5 ? "Advance Payment" : "Payment on Delivery";
+
+  const terms: ONDCOrderTerms = {
+    itemId: catalogId,
+    itemName: becknData.descriptor?.name || commodityName,
+    quantity: becknData.quantity?.available?.count || 0,
+    unit: becknData.quantity?.unit || "kg",
+    pricePerUnit: bidAmount,
+    currency: becknData.price?.currency || "INR",
+    providerId: buyer.subscriberId,
+    providerName: buyer.name,
+    paymentTerms,
+    deliveryDays,
+    validityHours,
+    logisticsProvider: becknData.tags?.logistics_provider
+  };
+
+  const timestamp = new Date(env.clock.now());
+  const onSearchContext = createCallbackContext(searchContext, 'on_search', {
+    subscriberId: buyer.subscriberId,
+    subscriberUri: getBuyerSubscriberUri(buyer)
+  }, timestamp);
+  await deliverCallback(createEnvelope(onSearchContext, buildOnSearchMessage(terms)));
+
+  const messageId = onSearchContext.message_id;
+  const bidRatio = bidAmount / basePrice;
+
+  // Bids delivered through on_search are persisted by the receiver
+  if (logBidDirectly) {
+    await prisma.bid.create({
+      data: {
+        id: bidId,
+        catalogId,
+        farmerId: catalog.farmerId,
+        transactionId,
+        messageId,
+        buyerName: buyer.name,
+        buyerSubscriberId: buyer.subscriberId,
+        pricePerUnit: bidAmount,
+        catalogPrice,
+        currency: terms.currency,
+        paymentTerms,
+        deliveryDays,
+        validityHours,
+        receivedAt: timestamp
+      }
+    });
+
+    await prisma.networkLog.create({
+      data: {
+        type: "INCOMING_BID" as const,
+        transactionId,
+        catalogId,
+        payload: {
+          bidId,
+          transactionId,
+          messageId,
+          domain: ONDC_DOMAIN,
+          protocolVersion: ONDC_VERSION,
+          gateway: ONDC_GATEWAY.PRODUCTION,
+          buyerName: buyer.name,
+          buyerSubscriberId: buyer.subscriberId,
+          buyerGstin: buyer.gstin,
+          buyerLogo: buyer.logo,
+          buyerRating: buyer.rating,
+          buyerLocation: buyer.location,
+          buyerVerified: buyer.verified,
+          bidAmount,
+          catalogId,
+          catalogPrice,
+          commodity: commodityName,
+          bidRatio,
+          validityHours,
+          deliveryDays,
+          paymentTerms,
+          timestamp: timestamp.toISOString(),
+          simulationVersion: "3.0-production",
+          autoLearningEnabled: true
+        },
+        timestamp
+      }
+    });
+
+    await updateLearningData(commodityName, bidRatio, { state: catalog.farmer?.state, at: timestamp });
+  }
+
+  console.log(`[ONDC-PRODUCTION] Bid from ${buyer.name}: Rs ${bidAmount}/kg`);
+
+  return {
+    buyerName: buyer.name,
+    bidAmount,
+    timestamp,
+    buyerLogo: buyer.logo,
+    buyerRating: buyer.rating,
+    buyerLocation: buyer.location,
+    buyerVerified: buyer.verified,
+    buyerSubscriberId: buyer.subscriberId,
+    bidId,
+    transactionId,
+    messageId,
+    domain: ONDC_DOMAIN,
+    gateway: ONDC_GATEWAY.PRODUCTION,
+    validityHours,
+    paymentTerms,
+    deliveryDays
+  };
 }
 
 /**
@@ -549,22 +735,34 @@ function selectBuyerForCommodity(commodityName: string, catalogState?: string):
  * 1. Gateway routing and authentication
  * 2. Search broadcast to BAP network
  * 3. Catalog validation and processing
- * 4. Buyer matching and bid generation
- * 5. Response aggregation and delivery
+ * 4. Matching buyers that operate in the farmer's state
+ * 5. Bid collection window: each buyer answers with its own on_search offer
  * 
  * PRODUCTION CHARACTERISTICS:
- * - Realistic 12-25 second total processing time
- * - 5-7% chance of network failures/denials
+ * - Realistic network phases followed by a configurable bid window
+ *   (ONDC_AUCTION_WINDOW_MS, carried as the search ttl)
+ * - Failures, latencies and buyer response from the fault profile
+ *   (about 7% of broadcasts fail with the default "production" profile)
  * - Multi-phase transaction tracking
  * - Buyer competition simulation
- * - Seasonal price adjustments
+ * - Learned regional and seasonal price adjustments
  * 
  * @param catalogId - The ID of the catalog being broadcasted
- * @returns Promise<BroadcastResponse> - Complete broadcast response with bid or error
+ * @param options - Optional transaction ID, callback delivery, window settings,
+ *   simulation environment and fault profile
+ * @returns Promise<BroadcastResponse> - Ranked bids, or the error
  */
-export async function simulateBroadcastProduction(catalogId: string): Promise<BroadcastResponse> {
-  const transactionId = generateTransactionId();
-  const startTime = Date.now();
+export async function simulateBroadcastProduction(
+  catalogId: string,
+  options: BroadcastSimulationOptions = {}
+): Promise<BroadcastResponse> {
+  const env = options.environment ?? getDefaultSimulationEnvironment();
+  const profile = options.faultProfile ?? getActiveFaultProfile();
+  const transactionId = options.transactionId || generateTransactionId(env.random);
+  const deliverCallback: CallbackDelivery = options.deliverCallback
+    || (envelope => logOndcMessage('ONDC_CALLBACK', envelope, catalogId));
+  const windowMs = options.windowMs ?? getAuctionWindowMs();
+  const startTime = env.clock.now();
   const networkPhases: NetworkPhase[] = [];
 
   console.log(`\n${'='.repeat(70)}`);
@@ -573,32 +771,42 @@ export async function simulateBroadcastProduction(catalogId: string): Promise<Br
   console.log(`[ONDC-PRODUCTION] Domain: ${ONDC_DOMAIN}`);
   console.log(`[ONDC-PRODUCTION] Protocol Version: ${ONDC_VERSION}`);
   console.log(`[ONDC-PRODUCTION] Gateway: ${ONDC_GATEWAY.PRODUCTION}`);
+  console.log(`[ONDC-PRODUCTION] Fault Profile: ${profile.name}`);
   console.log(`${'='.repeat(70)}\n`);
 
-  // Load learning data if not already loaded
-  if (bidLearningCache.size === 0) {
-    await loadBidLearningData();
-  }
+  await loadBidLearning();
+  await loadBuyerRegistry();
+
+  // Runs a phase with the profile's timing; a failed phase ends the broadcast
+  const runPhase = async (phase: SimulatedPhase, phaseName: string): Promise<NetworkPhase> => {
+    const result = await simulateNetworkPhase(env, phaseName, profile.phases[phase]);
+    networkPhases.push(result);
+    return result;
+  };
+  const failPhase = (phase: SimulatedPhase) =>
+    failBroadcast(PHASE_FAILURES[phase], catalogId, transactionId, startTime, networkPhases, env);
 
   try {
-    // Phase 1: Gateway Authentication (2-4 seconds)
+    // Phase 1: Gateway Authentication
     console.log("[ONDC-PRODUCTION] Phase 1: Authenticating with ONDC Gateway...");
-    const authPhase = await simulateNetworkPhase("Gateway Authentication", 2000, 4000);
-    networkPhases.push(authPhase);
+    const authPhase = await runPhase('gateway', "Gateway Authentication");
     if (authPhase.status === 'failed') {
-      throw new Error("Gateway authentication failed");
+      return failPhase('gateway');
     }
     console.log(`[ONDC-PRODUCTION] Phase 1 Complete: ${authPhase.durationMs}ms`);
 
-    // Phase 2: Catalog Validation (1-2 seconds)
+    // Phase 2: Catalog Validation
     console.log("[ONDC-PRODUCTION] Phase 2: Validating catalog against Beckn schema...");
-    const validationPhase = await simulateNetworkPhase("Schema Validation", 1000, 2000);
-    networkPhases.push(validationPhase);
+    const validationPhase = await runPhase('validation', "Schema Validation");
+    if (validationPhase.status === 'failed') {
+      return failPhase('validation');
+    }
     console.log(`[ONDC-PRODUCTION] Phase 2 Complete: ${validationPhase.durationMs}ms`);
 
     // Fetch catalog from database
     const catalog = await prisma.catalog.findUnique({
-      where: { id: catalogId }
+      where: { id: catalogId },
+      include: { farmer: true, fpo: true }
     });
 
     if (!catalog) {
@@ -610,164 +818,106 @@ export async function simulateBroadcastProduction(catalogId: string): Promise<Br
           type: 'VALIDATION_ERROR'
         },
         transactionId,
-        processingTimeMs: Date.now() - startTime,
+        processingTimeMs: env.clock.now() - startTime,
         networkPhases
       };
     }
 
     const becknData = catalog.becknJson as unknown as BecknCatalogItem;
-    const catalogPrice = becknData.price?.value || 0;
-    const commodityName = extractCommodityName(becknData.descriptor?.name || "");
+    // A pooled listing is sold by its FPO, from where the members farm
+    const { fpo } = catalog;
+    const farmerState = fpo ? fpo.state : catalog.farmer?.state;
+    const provider = fpo ? { id: fpo.providerId, name: fpo.name } : undefined;
+
+    // Build the search envelope that goes out through the gateway; its ttl
+    // is the bid collection window
+    const searchContext = createOndcContext('search', {
+      transactionId,
+      messageId: generateMessageId(env.random),
+      timestamp: new Date(env.clock.now()),
+      ttl: toTtlDuration(windowMs)
+    });
+    await logOndcMessage('ONDC_REQUEST', createEnvelope(searchContext, buildSearchMessage(catalogId, becknData, farmerState ?? undefined, provider)), catalogId);
 
-    // Phase 3: Network Broadcast (3-5 seconds)
+    // Phase 3: Network Broadcast
     console.log("[ONDC-PRODUCTION] Phase 3: Broadcasting to BAP Network...");
-    const broadcastPhase = await simulateNetworkPhase("BAP Network Broadcast", 3000, 5000);
-    networkPhases.push(broadcastPhase);
+    const broadcastPhase = await runPhase('broadcast', "BAP Network Broadcast");
+    if (broadcastPhase.status === 'failed') {
+      return failPhase('broadcast');
+    }
     console.log(`[ONDC-PRODUCTION] Phase 3 Complete: ${broadcastPhase.durationMs}ms`);
 
     // Check for network failure scenarios
-    const failureCheck = shouldSimulateFailure();
+    const failureCheck = shouldSimulateFailure(env.random, profile.failures);
     if (failureCheck.fail) {
-      const errorMessages: Record<string, { code: number; message: string }> = {
-        'TIMEOUT': { code: NETWORK_STATUS.GATEWAY_TIMEOUT, message: "ONDC Gateway timeout - no buyer response within SLA" },
-        'DENIED': { code: NETWORK_STATUS.CONFLICT, message: "No buyers available for this commodity in your region" },
-        'NETWORK_ERROR': { code: NETWORK_STATUS.SERVICE_UNAVAILABLE, message: "ONDC network temporarily unavailable" },
-        'RATE_LIMITED': { code: NETWORK_STATUS.RATE_LIMITED, message: "Too many requests - please try again later" }
-      };
-
-      const error = errorMessages[failureCheck.type!];
-      console.log(`[ONDC-PRODUCTION] NETWORK EVENT: ${failureCheck.type}`);
-
-      // Log the failure to database
-      await prisma.networkLog.create({
-        data: {
-          type: "OUTGOING_CATALOG" as const,
-          payload: {
-            catalogId,
-            transactionId,
-            status: 'FAILED',
-            errorType: failureCheck.type,
-            errorCode: error.code,
-            errorMessage: error.message,
-            processingTimeMs: Date.now() - startTime,
-            phases: networkPhases.map(p => ({ ...p, timestamp: p.timestamp.toISOString() }))
-          },
-          timestamp: new Date()
-        }
-      });
-
-      return {
-        success: false,
-        error: {
-          code: error.code,
-          message: error.message,
-          type: failureCheck.type!
-        },
-        transactionId,
-        processingTimeMs: Date.now() - startTime,
-        networkPhases
-      };
+      return failBroadcast(failureCheck.type!, catalogId, transactionId, startTime, networkPhases, env);
     }
 
-    // Phase 4: Buyer Matching (2-4 seconds)
-    console.log("[ONDC-PRODUCTION] Phase 4: Matching with registered buyers...");
-    const matchingPhase = await simulateNetworkPhase("Buyer Matching", 2000, 4000);
-    networkPhases.push(matchingPhase);
-    console.log(`[ONDC-PRODUCTION] Phase 4 Complete: ${matchingPhase.durationMs}ms`);
-
-    // Phase 5: Bid Generation (2-5 seconds)
-    console.log("[ONDC-PRODUCTION] Phase 5: Generating buyer bids...");
-    const bidPhase = await simulateNetworkPhase("Bid Generation", 2000, 5000);
-    networkPhases.push(bidPhase);
-    console.log(`[ONDC-PRODUCTION] Phase 5 Complete: ${bidPhase.durationMs}ms`);
-
-    // Select buyer and calculate bid
-    const selectedBuyer = selectBuyerForCommodity(commodityName);
-    const bidRatio = getLearnedBidRatio(commodityName);
-
-    const basePrice = catalogPrice > 0 ? catalogPrice : 20;
-    const bidAmount = Math.round(basePrice * bidRatio * 100) / 100;
-
-    const timestamp = new Date();
-    const bidId = `bid-${Date.now()}-${Math.random().toString(36).substring(7)}`;
-    const messageId = generateMessageId();
+    // Phase 4: Buyer Matching; only the profile's share of buyers responds
+    console.log(`[ONDC-PRODUCTION] Phase 4: Matching buyers operating in ${farmerState || 'any state'}...`);
+    const matchingPhase = await runPhase('matching', "Buyer Matching");
+    if (matchingPhase.status === 'failed') {
+      return failPhase('matching');
+    }
+    const { selected, matches } = await matchBuyersForListing({
+      commodity: extractCommodityName(becknData.descriptor?.name || ""),
+      state: farmerState,
+      quantity: { count: becknData.quantity?.available?.count || 0, unit: becknData.quantity?.unit || "" }
+    }, {
+      maxBidders: options.maxBidders ?? MAX_AUCTION_BIDDERS,
+      random: env.random,
+      now: new Date(env.clock.now())
+    });
+    await logBuyerMatches(catalogId, transactionId, matches, env);
+    const bidders = selected.filter(() => env.random() < profile.buyerAvailability);
+    console.log(`[ONDC-PRODUCTION] Phase 4 Complete: ${bidders.length} buyers matched in ${matchingPhase.durationMs}ms`);
 
-    // Calculate validity and delivery terms
-    const validityHours = 24 + Math.floor(Math.random() * 48); // 24-72 hours
-    const deliveryDays = 2 + Math.floor(Math.random() * 5); // 2-7 days
-    const paymentTerms = Math.random() > 0.5 ? "Advance Payment" : "Payment on Delivery";
+    if (bidders.length === 0) {
+      const denied = await failBroadcast('DENIED', catalogId, transactionId, startTime, networkPhases, env);
+      return { ...denied, buyerMatches: matches };
+    }
 
-    // Log the successful bid to database
-    await prisma.networkLog.create({
-      data: {
-        type: "INCOMING_BID" as const,
-        payload: {
-          bidId,
-          transactionId,
-          messageId,
-          domain: ONDC_DOMAIN,
-          protocolVersion: ONDC_VERSION,
-          gateway: ONDC_GATEWAY.PRODUCTION,
-          buyerName: selectedBuyer.name,
-          buyerSubscriberId: selectedBuyer.subscriberId,
-          buyerGstin: selectedBuyer.gstin,
-          buyerRating: selectedBuyer.rating,
-          buyerLocation: selectedBuyer.location,
-          buyerVerified: selectedBuyer.verified,
-          bidAmount,
-          catalogId,
-          catalogPrice,
-          commodity: commodityName,
-          bidRatio: bidAmount / (catalogPrice || basePrice),
-          validityHours,
-          deliveryDays,
-          paymentTerms,
-          processingTimeMs: Date.now() - startTime,
-          phases: networkPhases.map(p => ({ ...p, timestamp: p.timestamp.toISOString() })),
-          timestamp: timestamp.toISOString(),
-          simulationVersion: "3.0-production",
-          autoLearningEnabled: true
-        },
-        timestamp
-      }
+    // Phase 5: Bid Collection Window (until the search ttl runs out)
+    console.log(`[ONDC-PRODUCTION] Phase 5: Collecting bids until ${getResponseDeadline(searchContext).toISOString()}...`);
+    const windowStart = new Date(env.clock.now());
+    const answers = await Promise.all(bidders.map(buyer =>
+      collectBuyerBid(buyer, searchContext, catalog, becknData, deliverCallback, !options.deliverCallback, env, profile.bidResponse)
+    ));
+    const bids = rankBids(answers.filter((bid): bid is BuyerBid => bid !== null));
+    networkPhases.push({
+      phase: "Bid Collection Window",
+      status: bids.length > 0 ? 'completed' : 'failed',
+      durationMs: env.clock.now() - windowStart.getTime(),
+      timestamp: windowStart
     });
+    console.log(`[ONDC-PRODUCTION] Phase 5 Complete: ${bids.length} bids received`);
 
-    // Update learning data
-    await updateLearningData(commodityName, bidAmount / (catalogPrice || basePrice));
+    if (bids.length === 0) {
+      const timedOut = await failBroadcast('TIMEOUT', catalogId, transactionId, startTime, networkPhases, env);
+      return { ...timedOut, buyerMatches: matches };
+    }
 
-    const totalProcessingTime = Date.now() - startTime;
+    const totalProcessingTime = env.clock.now() - startTime;
+    for (const bid of bids) {
+      bid.processingTimeMs = totalProcessingTime;
+    }
+    const [bestBid] = bids;
 
     console.log(`\n${'='.repeat(70)}`);
     console.log(`[ONDC-PRODUCTION] BROADCAST SUCCESSFUL`);
-    console.log(`[ONDC-PRODUCTION] Buyer: ${selectedBuyer.name}`);
-    console.log(`[ONDC-PRODUCTION] Bid Amount: Rs ${bidAmount}/kg`);
-    console.log(`[ONDC-PRODUCTION] Validity: ${validityHours} hours`);
+    console.log(`[ONDC-PRODUCTION] Bids: ${bids.length}`);
+    console.log(`[ONDC-PRODUCTION] Best: ${bestBid.buyerName} at Rs ${bestBid.bidAmount}/kg`);
     console.log(`[ONDC-PRODUCTION] Total Processing Time: ${totalProcessingTime}ms`);
     console.log(`${'='.repeat(70)}\n`);
 
     return {
       success: true,
-      bid: {
-        buyerName: selectedBuyer.name,
-        bidAmount,
-        timestamp,
-        buyerLogo: selectedBuyer.logo,
-        buyerRating: selectedBuyer.rating,
-        buyerLocation: selectedBuyer.location,
-        buyerVerified: selectedBuyer.verified,
-        bidId,
-        transactionId,
-        messageId,
-        domain: ONDC_DOMAIN,
-        processingTimeMs: totalProcessingTime,
-        gateway: ONDC_GATEWAY.PRODUCTION,
-        validityHours,
-        paymentTerms,
-        deliveryDays
-      },
+      bid: bestBid,
+      bids,
       transactionId,
       processingTimeMs: totalProcessingTime,
-      networkPhases
+      networkPhases,
+      buyerMatches: matches
     };
 
   } catch (error) {
@@ -781,7 +931,7 @@ export async function simulateBroadcastProduction(catalogId: string): Promise<Br
         type: 'NETWORK_ERROR'
       },
       transactionId,
-      processingTimeMs: Date.now() - startTime,
+      processingTimeMs: env.clock.now() - startTime,
       networkPhases
     };
   }
@@ -806,10 +956,793 @@ export async function simulateBroadcast(catalogId: string): Promise<BuyerBid> {
   return response.bid;
 }
 
+// ============================================================================
+// ORDER NEGOTIATION
+// ============================================================================
+
+/**
+ * How a buyer answered a farmer's counter-offer
+ */
+export interface CounterOfferResponse {
+  /** ACCEPTED: buyer pays the asking price; COUNTERED: buyer raises its bid; DECLINED: bid unchanged */
+  outcome: 'ACCEPTED' | 'COUNTERED' | 'DECLINED';
+  /** Price per unit the buyer will now pay */
+  pricePerUnit: number;
+  /** Message ID of the buyer's on_select */
+  messageId: string;
+  transactionId: string;
+}
+
+/**
+ * Find the network participant behind a bid or order
+ */
+async function resolveBidBuyer(bid: Pick<BuyerBid, 'buyerName' | 'buyerSubscriberId'>): Promise<Buyer> {
+  const buyer = await lookupBuyer(bid.buyerSubscriberId, bid.buyerName);
+
+  if (!buyer) {
+    throw new Error(`Buyer ${bid.buyerName} is not a registered network participant`);
+  }
+
+  return buyer;
+}
+
+/**
+ * Order terms for a bid, as exchanged in select/init/confirm
+ */
+function buildBidTerms(
+  catalogId: string,
+  becknData: BecknCatalogItem,
+  buyer: Buyer,
+  bid: BuyerBid,
+  orderId?: string
+): ONDCOrderTerms {
+  return {
+    itemId: catalogId,
+    itemName: becknData.descriptor?.name || "Produce",
+    quantity: becknData.quantity?.available?.count || 0,
+    unit: becknData.quantity?.unit || "kg",
+    pricePerUnit: bid.bidAmount,
+    currency: becknData.price?.currency || "INR",
+    providerId: buyer.subscriberId,
+    providerName: buyer.name,
+    paymentTerms: bid.paymentTerms || "Payment on Delivery",
+    deliveryDays: bid.deliveryDays || 3,
+    validityHours: bid.validityHours || 24,
+    logisticsProvider: becknData.tags?.logistics_provider,
+    orderId
+  };
+}
+
+/**
+ * Highest price a buyer will pay for a lot
+ *
+ * Based on what buyers have historically paid relative to the asking
+ * price for this commodity in the farmer's state and season (once enough
+ * bids are learned; otherwise the asking price adjusted for the season),
+ * with a little room above it. Never below the buyer's current bid.
+ */
+function getBuyerPriceCeiling(
+  commodity: string,
+  state: string | null | undefined,
+  catalogPrice: number,
+  currentBid: number,
+  env: SimulationEnvironment
+): number {
+  const at = new Date(env.clock.now());
+  const expectedRatio = getLearnedRatio(commodity, state, at)?.ratio ?? getSeasonalFactor(commodity, at);
+  const headroom = 1.02 + env.random() * 0.06; // 2% to 8% stretch
+
+  return Math.max(currentBid, catalogPrice * expectedRatio * headroom);
+}
+
+/**
+ * Decide how a buyer answers a counter-offer
+ *
+ * - At or below the buyer's ceiling: accepted at the asking price
+ * - Within 10% above the ceiling: the buyer meets the farmer part way
+ *   by raising its bid to the ceiling
+ * - Anything higher: declined, the original bid stands
+ *
+ * @param askingPrice - The farmer's counter price per unit
+ * @param currentBid - The buyer's current bid per unit
+ * @param ceiling - The most the buyer will pay per unit
+ */
+export function evaluateCounterOffer(
+  askingPrice: number,
+  currentBid: number,
+  ceiling: number
+): Pick<CounterOfferResponse, 'outcome' | 'pricePerUnit'> {
+  if (askingPrice <= ceiling) {
+    return { outcome: 'ACCEPTED', pricePerUnit: askingPrice };
+  }
+
+  const raisedBid = Math.round(ceiling * 100) / 100;
+  if (askingPrice <= ceiling * 1.1 && raisedBid > currentBid) {
+    return { outcome: 'COUNTERED', pricePerUnit: raisedBid };
+  }
+
+  return { outcome: 'DECLINED', pricePerUnit: currentBid };
+}
+
+/**
+ * Simulate a farmer's counter-offer on a bid
+ *
+ * Sends `select` quoting the asking price to the bidding buyer, which
+ * answers `on_select` with the price it will pay.
+ *
+ * @param catalogId - The catalog the bid was made on
+ * @param bid - The buyer bid being countered
+ * @param askingPrice - The farmer's counter price per unit
+ * @param options - Optional callback delivery (defaults to logging it directly)
+ *   and simulation environment
+ * @returns The buyer's answer
+ * @throws Error if the catalog or buyer cannot be resolved
+ */
+export async function simulateCounterOffer(
+  catalogId: string,
+  bid: BuyerBid,
+  askingPrice: number,
+  options: ExchangeSimulationOptions = {}
+): Promise<CounterOfferResponse> {
+  const catalog = await prisma.catalog.findUnique({
+    where: { id: catalogId },
+    include: { farmer: { select: { state: true } } }
+  });
+
+  if (!catalog) {
+    throw new Error(`Catalog with ID ${catalogId} not found`);
+  }
+
+  await loadBidLearning();
+
+  const env = options.environment ?? getDefaultSimulationEnvironment();
+  const buyer = await resolveBidBuyer(bid);
+  const becknData = catalog.becknJson as unknown as BecknCatalogItem;
+  const transactionId = bid.transactionId || generateTransactionId(env.random);
+  const terms = buildBidTerms(catalogId, becknData, buyer, bid);
+
+  const ceiling = getBuyerPriceCeiling(
+    extractCommodityName(becknData.descriptor?.name || ""),
+    catalog.farmer?.state,
+    becknData.price?.value || bid.bidAmount,
+    bid.bidAmount,
+    env
+  );
+  const decision = evaluateCounterOffer(askingPrice, bid.bidAmount, ceiling);
+
+  const onSelectContext = await exchangeWithBuyer(
+    createOndcContext('select', {
+      transactionId,
+      messageId: generateMessageId(env.random),
+      timestamp: new Date(env.clock.now()),
+      bppId: buyer.subscriberId,
+      bppUri: getBuyerSubscriberUri(buyer)
+    }),
+    buildSelectMessage(terms, askingPrice),
+    'on_select',
+    buildOnSelectMessage({ ...terms, pricePerUnit: decision.pricePerUnit }),
+    buyer,
+    catalogId,
+    options.deliverCallback || (envelope => logOndcMessage('ONDC_CALLBACK', envelope, catalogId)),
+    env
+  );
+
+  console.log(`[ONDC-PRODUCTION] Counter of Rs ${askingPrice}/kg to ${buyer.name}: ${decision.outcome} at Rs ${decision.pricePerUnit}/kg`);
+
+  return { ...decision, messageId: onSelectContext.message_id, transactionId };
+}
+
+/**
+ * Simulate order confirmation with the buyer whose bid was accepted
+ *
+ * Runs the ONDC order flow for the bid's transaction:
+ * select/on_select (lock the quote), init/on_init (billing and payment)
+ * and confirm/on_confirm (place the order).
+ *
+ * @param catalogId - The catalog the bid was made on
+ * @param bid - The accepted buyer bid
+ * @param options - Optional callback delivery (defaults to logging it directly),
+ *   simulation environment and order ID (generated if omitted)
+ * @returns The order ID sent on confirm and the transaction ID
+ * @throws Error if the catalog or buyer cannot be resolved
+ */
+export async function simulateOrderConfirmation(
+  catalogId: string,
+  bid: BuyerBid,
+  options: ExchangeSimulationOptions & { orderId?: string } = {}
+): Promise<{ orderId: string; transactionId: string }> {
+  const catalog = await prisma.catalog.findUnique({
+    where: { id: catalogId },
+    include: { farmer: true, fpo: true }
+  });
+
+  if (!catalog) {
+    throw new Error(`Catalog with ID ${catalogId} not found`);
+  }
+
+  const env = options.environment ?? getDefaultSimulationEnvironment();
+  const buyer = await resolveBidBuyer(bid);
+  const becknData = catalog.becknJson as unknown as BecknCatalogItem;
+  const transactionId = bid.transactionId || generateTransactionId(env.random);
+  const orderId = options.orderId || generateRecordId('order', env);
+  const terms: ONDCOrderTerms = {
+    ...buildBidTerms(catalogId, becknData, buyer, bid, orderId),
+    billingName: catalog.fpo?.name ?? catalog.farmer?.name
+  };
+  const deliverCallback = options.deliverCallback
+    || (envelope => logOndcMessage('ONDC_CALLBACK', envelope, catalogId));
+  const buyerEndpoint = { bppId: buyer.subscriberId, bppUri: getBuyerSubscriberUri(buyer) };
+  const nextContext = (action: 'select' | 'init' | 'confirm') => createOndcContext(action, {
+    transactionId,
+    messageId: generateMessageId(env.random),
+    timestamp: new Date(env.clock.now()),
+    ...buyerEndpoint
+  });
+
+  await exchangeWithBuyer(
+    nextContext('select'),
+    buildSelectMessage(terms),
+    'on_select',
+    buildOnSelectMessage(terms),
+    buyer,
+    catalogId,
+    deliverCallback,
+    env
+  );
+
+  await exchangeWithBuyer(
+    nextContext('init'),
+    buildInitMessage(terms),
+    'on_init',
+    buildOnInitMessage(terms),
+    buyer,
+    catalogId,
+    deliverCallback,
+    env
+  );
+
+  await exchangeWithBuyer(
+    nextContext('confirm'),
+    buildConfirmMessage(terms),
+    'on_confirm',
+    buildOnConfirmMessage(terms),
+    buyer,
+    catalogId,
+    deliverCallback,
+    env
+  );
+
+  console.log(`[ONDC-PRODUCTION] Order ${orderId} confirmed by ${buyer.name}`);
+
+  return { orderId, transactionId };
+}
+
+// ============================================================================
+// FULFILLMENT
+// ============================================================================
+
+/**
+ * Rebuild the ONDC order terms of a placed order
+ *
+ * @throws Error if the catalog cannot be found or the order has no transaction
+ */
+async function loadOrderTerms(order: Order): Promise<{ terms: ONDCOrderTerms; buyer: Buyer; transactionId: string }> {
+  if (!order.transactionId) {
+    throw new Error(`Order ${order.id} has no ONDC transaction`);
+  }
+
+  const catalog = await prisma.catalog.findUnique({
+    where: { id: order.catalogId }
+  });
+
+  if (!catalog) {
+    throw new Error(`Catalog with ID ${order.catalogId} not found`);
+  }
+
+  const buyer = await resolveBidBuyer({
+    buyerName: order.buyerName,
+    buyerSubscriberId: order.buyerSubscriberId ?? undefined
+  });
+  const becknData = catalog.becknJson as unknown as BecknCatalogItem;
+  const terms: ONDCOrderTerms = {
+    itemId: order.catalogId,
+    itemName: becknData.descriptor?.name || "Produce",
+    quantity: order.quantity,
+    unit: order.unit,
+    pricePerUnit: order.pricePerUnit,
+    currency: order.currency,
+    providerId: buyer.subscriberId,
+    providerName: buyer.name,
+    paymentTerms: order.paymentTerms || "Payment on Delivery",
+    deliveryDays: order.deliveryDays || 3,
+    validityHours: 24,
+    logisticsProvider: becknData.tags?.logistics_provider,
+    orderId: order.id
+  };
+
+  return { terms, buyer, transactionId: order.transactionId };
+}
+
+/**
+ * Simulate the buyer reporting a fulfillment stage of an order
+ *
+ * Sends an unsolicited on_status for the order's transaction, timestamped
+ * when the stage was reached. The logistics provider is the catalog's
+ * `logistics_provider` tag, or the buyer itself when none is set.
+ *
+ * @param order - The confirmed order
+ * @param stage - The stage reached
+ * @param occurredAt - When the stage was reached
+ * @param options - Optional callback delivery (defaults to logging it directly)
+ *   and simulation environment
+ * @throws Error if the catalog or buyer cannot be resolved, or the order
+ *   has no transaction
+ */
+export async function simulateFulfillmentUpdate(
+  order: Order,
+  stage: ONDCFulfillmentStage,
+  occurredAt: Date,
+  options: ExchangeSimulationOptions = {}
+): Promise<void> {
+  const env = options.environment ?? getDefaultSimulationEnvironment();
+  const { terms, buyer, transactionId } = await loadOrderTerms(order);
+
+  const context = createOndcContext('on_status', {
+    transactionId,
+    messageId: generateMessageId(env.random),
+    timestamp: occurredAt,
+    bppId: buyer.subscriberId,
+    bppUri: getBuyerSubscriberUri(buyer)
+  });
+  const deliverCallback = options.deliverCallback
+    || (envelope => logOndcMessage('ONDC_CALLBACK', envelope, order.catalogId));
+
+  await deliverCallback(createEnvelope(context, buildOnStatusMessage(terms, stage, occurredAt)));
+
+  console.log(`[ONDC-PRODUCTION] Order ${order.id}: ${stage} reported by ${buyer.name}`);
+}
+
+// ============================================================================
+// CANCELLATION
+// ============================================================================
+
+/**
+ * Simulate the farmer cancelling an order with the buyer
+ *
+ * Sends cancel for the order's transaction; the buyer answers on_cancel
+ * naming our gateway as the cancelling participant.
+ *
+ * @param order - The order being cancelled
+ * @param reasonCode - ONDC cancellation reason code
+ * @param options - Optional callback delivery (defaults to logging it directly)
+ *   and simulation environment
+ * @throws Error if the catalog or buyer cannot be resolved, or the order
+ *   has no transaction
+ */
+export async function simulateOrderCancellation(
+  order: Order,
+  reasonCode: ONDCCancellationReasonCode,
+  options: ExchangeSimulationOptions = {}
+): Promise<void> {
+  const env = options.environment ?? getDefaultSimulationEnvironment();
+  const { terms, buyer, transactionId } = await loadOrderTerms(order);
+
+  await exchangeWithBuyer(
+    createOndcContext('cancel', {
+      transactionId,
+      messageId: generateMessageId(env.random),
+      timestamp: new Date(env.clock.now()),
+      bppId: buyer.subscriberId,
+      bppUri: getBuyerSubscriberUri(buyer)
+    }),
+    buildCancelMessage(order.id, reasonCode),
+    'on_cancel',
+    buildOnCancelMessage(terms, reasonCode, getSubscriberConfig().subscriberId),
+    buyer,
+    order.catalogId,
+    options.deliverCallback || (envelope => logOndcMessage('ONDC_CALLBACK', envelope, order.catalogId)),
+    env
+  );
+
+  console.log(`[ONDC-PRODUCTION] Order ${order.id} cancelled with ${buyer.name} (reason ${reasonCode})`);
+}
+
+/**
+ * Simulate the buyer cancelling a confirmed order
+ *
+ * Sends an unsolicited on_cancel from the buyer with one of the buyer
+ * cancellation reason codes.
+ *
+ * @param order - The confirmed order
+ * @param occurredAt - When the buyer cancelled
+ * @param options - Optional callback delivery (defaults to logging it directly)
+ *   and simulation environment
+ * @returns The reason code the buyer gave
+ * @throws Error if the catalog or buyer cannot be resolved, or the order
+ *   has no transaction
+ */
+export async function simulateBuyerCancellation(
+  order: Order,
+  occurredAt: Date,
+  options: ExchangeSimulationOptions = {}
+): Promise<ONDCCancellationReasonCode> {
+  const env = options.environment ?? getDefaultSimulationEnvironment();
+  const { terms, buyer, transactionId } = await loadOrderTerms(order);
+  const reasonCodes = getCancellationReasonCodes('BUYER');
+  const reasonCode = reasonCodes[Math.floor(env.random() * reasonCodes.length)];
+
+  const context = createOndcContext('on_cancel', {
+    transactionId,
+    messageId: generateMessageId(env.random),
+    timestamp: occurredAt,
+    bppId: buyer.subscriberId,
+    bppUri: getBuyerSubscriberUri(buyer)
+  });
+  const deliverCallback = options.deliverCallback
+    || (envelope => logOndcMessage('ONDC_CALLBACK', envelope, order.catalogId));
+
+  await deliverCallback(createEnvelope(context, buildOnCancelMessage(terms, reasonCode, buyer.subscriberId)));
+
+  console.log(`[ONDC-PRODUCTION] Order ${order.id} cancelled by ${buyer.name} (reason ${reasonCode})`);
+
+  return reasonCode;
+}
+
+// ============================================================================
+// ISSUES & GRIEVANCES
+// ============================================================================
+
+/**
+ * What a simulated buyer says when raising each kind of issue
+ */
+function describeBuyerIssue(order: Order, kind: ONDCIssueKind): string {
+  switch (kind) {
+    case 'SHORT_WEIGHT':
+      return `Received ${Math.round(order.quantity * 0.95)} ${order.unit} of the ${order.quantity} ${order.unit} ordered`;
+    case 'QUALITY':
+      return 'Part of the lot was damaged and below the agreed grade';
+    default:
+      return ONDC_ISSUE_KINDS[kind].shortDesc;
+  }
+}
+
+/**
+ * Rebuild the ONDC terms of a recorded issue
+ *
+ * The complainant is the buyer, or our gateway on behalf of the farmer.
+ */
+async function loadIssueTerms(order: Order, issue: Issue, buyer: Buyer): Promise<ONDCIssueTerms> {
+  let complainantId = buyer.subscriberId;
+  let complainantName = buyer.name;
+
+  if (issue.complainant === 'FARMER') {
+    const farmer = await prisma.farmer.findUnique({
+      where: { id: order.farmerId },
+      select: { name: true }
+    });
+    complainantId = getSubscriberConfig().subscriberId;
+    complainantName = farmer?.name || 'Farmer';
+  }
+
+  return {
+    issueId: issue.id,
+    orderId: order.id,
+    kind: issue.kind,
+    description: issue.description,
+    complainantId,
+    complainantName,
+    level: issue.level,
+    createdAt: issue.createdAt
+  };
+}
+
+/**
+ * How a simulated buyer answers a step we took on an issue
+ *
+ * - our complaint, new or escalated: the buyer starts processing it
+ * - our resolution of its complaint: accepted (closed) when it makes the
+ *   buyer whole or the issue is already a dispute, otherwise escalated
+ */
+function getBuyerIssueReaction(issue: Issue, step: ONDCIssueActionCode): ONDCIssueActionCode | null {
+  if (step === 'OPEN' || step === 'ESCALATE') {
+    return 'PROCESSING';
+  }
+
+  if (step === 'RESOLVED') {
+    const settled = issue.resolution === 'REFUND' || issue.resolution === 'REPLACEMENT';
+    return settled || issue.level === 'DISPUTE' ? 'CLOSE' : 'ESCALATE';
+  }
+
+  return null;
+}
+
+/**
+ * Simulate sending a step we took on an issue to the buyer
+ *
+ * Sends issue carrying the step; the buyer answers on_issue with its
+ * reaction (see getBuyerIssueReaction), or with no action.
+ *
+ * @param order - The order the issue is about
+ * @param issue - The issue, after our step was recorded
+ * @param step - Our step (OPEN when the farmer raised the issue)
+ * @param shortDesc - What we said with the step
+ * @param options - Optional callback delivery (defaults to logging it directly)
+ *   and simulation environment
+ * @returns The buyer's reaction, if any
+ * @throws Error if the catalog or buyer cannot be resolved, or the order
+ *   has no transaction
+ */
+export async function simulateIssueExchange(
+  order: Order,
+  issue: Issue,
+  step: ONDCIssueActionCode,
+  shortDesc: string,
+  options: ExchangeSimulationOptions = {}
+): Promise<ONDCIssueActionCode | null> {
+  const env = options.environment ?? getDefaultSimulationEnvironment();
+  const { buyer, transactionId } = await loadOrderTerms(order);
+  const terms = await loadIssueTerms(order, issue, buyer);
+  const ourId = getSubscriberConfig().subscriberId;
+  const now = new Date(env.clock.now());
+  const resolution: ONDCIssueResolution | undefined = step === 'RESOLVED' && issue.resolution
+    ? {
+      action: issue.resolution as ONDCIssueResolution['action'],
+      shortDesc: issue.resolutionNote || shortDesc,
+      refundAmount: issue.refundAmount ?? undefined
+    }
+    : undefined;
+
+  const ourAction: ONDCIssueAction = {
+    role: issue.complainant === 'FARMER' ? 'COMPLAINANT' : 'RESPONDENT',
+    code: step,
+    shortDesc,
+    updatedAt: now,
+    updatedBy: ourId
+  };
+
+  const reaction = getBuyerIssueReaction(issue, step);
+  const buyerAction: ONDCIssueAction | undefined = reaction
+    ? {
+      role: issue.complainant === 'BUYER' ? 'COMPLAINANT' : 'RESPONDENT',
+      code: reaction,
+      shortDesc: reaction === 'PROCESSING'
+        ? 'Looking into the complaint'
+        : reaction === 'CLOSE' ? 'Resolution accepted' : 'Resolution not acceptable',
+      updatedAt: now,
+      updatedBy: buyer.subscriberId
+    }
+    : undefined;
+
+  await exchangeWithBuyer(
+    createOndcContext('issue', {
+      transactionId,
+      messageId: generateMessageId(env.random),
+      timestamp: now,
+      bppId: buyer.subscriberId,
+      bppUri: getBuyerSubscriberUri(buyer)
+    }),
+    buildIssueMessage(terms, ourAction, resolution),
+    'on_issue',
+    buildOnIssueMessage(terms, buyerAction),
+    buyer,
+    order.catalogId,
+    options.deliverCallback || (envelope => logOndcMessage('ONDC_CALLBACK', envelope, order.catalogId)),
+    env
+  );
+
+  console.log(`[ONDC-PRODUCTION] Issue ${issue.id}: ${step} sent to ${buyer.name}, answered ${reaction || 'with no action'}`);
+
+  return reaction;
+}
+
+/**
+ * Simulate asking the buyer where an issue the farmer raised stands
+ *
+ * Sends issue_status; a buyer still working on the issue answers
+ * on_issue_status with its resolution (a refund of the order value for
+ * produce complaints, releasing the payment when it was held back).
+ *
+ * @param order - The order the issue is about
+ * @param issue - The farmer's issue
+ * @param options - Optional callback delivery (defaults to logging it directly)
+ *   and simulation environment
+ * @returns The buyer's step, if any
+ * @throws Error if the catalog or buyer cannot be resolved, or the order
+ *   has no transaction
+ */
+export async function simulateIssueStatus(
+  order: Order,
+  issue: Issue,
+  options: ExchangeSimulationOptions = {}
+): Promise<ONDCIssueActionCode | null> {
+  const env = options.environment ?? getDefaultSimulationEnvironment();
+  const { buyer, transactionId } = await loadOrderTerms(order);
+  const terms = await loadIssueTerms(order, issue, buyer);
+  const now = new Date(env.clock.now());
+  const resolving = issue.status === 'OPEN' || issue.status === 'PROCESSING';
+
+  const resolution: ONDCIssueResolution | undefined = resolving
+    ? issue.kind === 'PAYMENT_NOT_RECEIVED'
+      ? { action: 'NO-ACTION', shortDesc: 'Payment released to the farmer' }
+      : { action: 'REFUND', shortDesc: 'Refund issued', refundAmount: order.quantity * order.pricePerUnit }
+    : undefined;
+
+  await exchangeWithBuyer(
+    createOndcContext('issue_status', {
+      transactionId,
+      messageId: generateMessageId(env.random),
+      timestamp: now,
+      bppId: buyer.subscriberId,
+      bppUri: getBuyerSubscriberUri(buyer)
+    }),
+    buildIssueStatusMessage(issue.id),
+    'on_issue_status',
+    buildOnIssueMessage(
+      terms,
+      resolution && {
+        role: 'RESPONDENT',
+        code: 'RESOLVED',
+        shortDesc: resolution.shortDesc,
+        updatedAt: now,
+        updatedBy: buyer.subscriberId
+      },
+      resolution
+    ),
+    buyer,
+    order.catalogId,
+    options.deliverCallback || (envelope => logOndcMessage('ONDC_CALLBACK', envelope, order.catalogId)),
+    env
+  );
+
+  console.log(`[ONDC-PRODUCTION] Issue ${issue.id}: status asked of ${buyer.name}${resolution ? ', resolved' : ''}`);
+
+  return resolution ? 'RESOLVED' : null;
+}
+
+/**
+ * Simulate the buyer raising an issue on an order
+ *
+ * Sends an unsolicited on_issue from the buyer opening a new issue.
+ *
+ * @param order - The order complained about
+ * @param kind - The buyer's complaint
+ * @param options - Optional callback delivery (defaults to logging it directly)
+ *   and simulation environment
+ * @returns The ONDC issue id
+ * @throws Error if the catalog or buyer cannot be resolved, or the order
+ *   has no transaction
+ */
+export async function simulateBuyerIssue(
+  order: Order,
+  kind: ONDCIssueKind,
+  options: ExchangeSimulationOptions = {}
+): Promise<string> {
+  const env = options.environment ?? getDefaultSimulationEnvironment();
+  const { buyer, transactionId } = await loadOrderTerms(order);
+  const now = new Date(env.clock.now());
+  const description = describeBuyerIssue(order, kind);
+  const terms: ONDCIssueTerms = {
+    issueId: generateMessageId(env.random),
+    orderId: order.id,
+    kind,
+    description,
+    complainantId: buyer.subscriberId,
+    complainantName: buyer.name,
+    level: 'ISSUE',
+    createdAt: now
+  };
+
+  const context = createOndcContext('on_issue', {
+    transactionId,
+    messageId: generateMessageId(env.random),
+    timestamp: now,
+    bppId: buyer.subscriberId,
+    bppUri: getBuyerSubscriberUri(buyer)
+  });
+  const deliverCallback = options.deliverCallback
+    || (envelope => logOndcMessage('ONDC_CALLBACK', envelope, order.catalogId));
+
+  await deliverCallback(createEnvelope(context, buildOnIssueMessage(terms, {
+    role: 'COMPLAINANT',
+    code: 'OPEN',
+    shortDesc: description,
+    updatedAt: now,
+    updatedBy: buyer.subscriberId
+  })));
+
+  console.log(`[ONDC-PRODUCTION] Order ${order.id}: ${kind} issue ${terms.issueId} raised by ${buyer.name}`);
+
+  return terms.issueId;
+}
+
+// ============================================================================
+// SIMULATOR INSTANCES
+// ============================================================================
+
+/**
+ * Options for createNetworkSimulator
+ */
+export interface NetworkSimulatorOptions {
+  /** Seed for the random source; equal seeds give equal runs (Math.random when omitted) */
+  seed?: number | string;
+  /** Clock for waits and timestamps (the system clock when omitted) */
+  clock?: SimulationClock;
+  /** Failure scenario for broadcasts (the active profile when omitted) */
+  faultProfile?: FaultProfile;
+}
+
+/**
+ * A network simulator bound to one simulation environment
+ *
+ * Same functions as the module exports, drawing every random choice and
+ * timestamp from `environment`.
+ */
+export interface NetworkSimulator {
+  environment: SimulationEnvironment;
+  generateTransactionId: () => string;
+  simulateBroadcastProduction: typeof simulateBroadcastProduction;
+  simulateCounterOffer: typeof simulateCounterOffer;
+  simulateOrderConfirmation: typeof simulateOrderConfirmation;
+  simulateFulfillmentUpdate: typeof simulateFulfillmentUpdate;
+  simulateOrderCancellation: typeof simulateOrderCancellation;
+  simulateBuyerCancellation: typeof simulateBuyerCancellation;
+  simulateIssueExchange: typeof simulateIssueExchange;
+  simulateIssueStatus: typeof simulateIssueStatus;
+  simulateBuyerIssue: typeof simulateBuyerIssue;
+}
+
+/**
+ * Create a network simulator with its own random source and clock
+ *
+ * With a seed and a virtual clock (see createVirtualClock) the same calls
+ * yield the same buyers, bids, failures and timings, and auction windows
+ * pass in simulated time:
+ *
+ * ```ts
+ * const simulator = createNetworkSimulator({ seed: 42, clock: createVirtualClock(0) });
+ * const response = await simulator.simulateBroadcastProduction(catalogId);
+ * ```
+ *
+ * An environment passed in a call's options is replaced by the simulator's.
+ * Bid prices also follow the learned bid history, which is shared.
+ *
+ * @param options - Seed and clock
+ */
+export function createNetworkSimulator(options: NetworkSimulatorOptions = {}): NetworkSimulator {
+  const environment = createSimulationEnvironment(options);
+
+  return {
+    environment,
+    generateTransactionId: () => generateTransactionId(environment.random),
+    simulateBroadcastProduction: (catalogId, opts = {}) =>
+      simulateBroadcastProduction(catalogId, { faultProfile: options.faultProfile, ...opts, environment }),
+    simulateCounterOffer: (catalogId, bid, askingPrice, opts = {}) =>
+      simulateCounterOffer(catalogId, bid, askingPrice, { ...opts, environment }),
+    simulateOrderConfirmation: (catalogId, bid, opts = {}) =>
+      simulateOrderConfirmation(catalogId, bid, { ...opts, environment }),
+    simulateFulfillmentUpdate: (order, stage, occurredAt, opts = {}) =>
+      simulateFulfillmentUpdate(order, stage, occurredAt, { ...opts, environment }),
+    simulateOrderCancellation: (order, reasonCode, opts = {}) =>
+      simulateOrderCancellation(order, reasonCode, { ...opts, environment }),
+    simulateBuyerCancellation: (order, occurredAt, opts = {}) =>
+      simulateBuyerCancellation(order, occurredAt, { ...opts, environment }),
+    simulateIssueExchange: (order, issue, step, shortDesc, opts = {}) =>
+      simulateIssueExchange(order, issue, step, shortDesc, { ...opts, environment }),
+    simulateIssueStatus: (order, issue, opts = {}) =>
+      simulateIssueStatus(order, issue, { ...opts, environment }),
+    simulateBuyerIssue: (order, kind, opts = {}) =>
+      simulateBuyerIssue(order, kind, { ...opts, environment })
+  };
+}
+
+// ============================================================================
+// UTILITIES
+// ============================================================================
+
 /**
  * Extract commodity name from descriptor
  */
-function extractCommodityName(descriptor: string): string {
+export function extractCommodityName(descriptor: string): string {
   const parts = descriptor.split(' ');
   if (parts.length > 1) {
     return parts[parts.length - 1].toLowerCase();
@@ -818,20 +1751,23 @@ function extractCommodityName(descriptor: string): string {
 }
 
 /**
- * Gets the buyer pool for testing or display purposes
+ * Gets the buyers in the registry for testing or display purposes
  */
 export function getBuyerPool(): Buyer[] {
-  return [...BUYER_POOL];
+  return getBuyers();
 }
 
 /**
  * Get learning statistics for debugging/monitoring
+ *
+ * From the statistics loaded so far; see lib/bid-learning for the full
+ * regional and monthly breakdown.
  */
 export function getLearningStats(): { commodity: string; avgBidRatio: number; bidCount: number }[] {
-  return Array.from(bidLearningCache.values()).map(data => ({
-    commodity: data.commodity,
-    avgBidRatio: data.avgBidRatio,
-    bidCount: data.bidCount
+  return getCachedLearningStats().map(stats => ({
+    commodity: stats.commodity,
+    avgBidRatio: stats.avgBidRatio,
+    bidCount: stats.bidCount
   }));
 }
 
@@ -859,34 +1795,18 @@ export function validateCatalogForBroadcast(catalog: Catalog): boolean {
 /**
  * Simulate multiple competing buyer bids (production feature)
  * In real ONDC, multiple buyers can bid on the same catalog
+ *
+ * Runs one broadcast and returns every bid from its auction window.
+ *
+ * @param catalogId - The catalog to broadcast
+ * @param count - Most buyers that may bid
+ * @returns Bids sorted best first (empty if the broadcast failed)
  */
 export async function simulateMultipleBids(catalogId: string, count: number = 3): Promise<BuyerBid[]> {
-  console.log(`[ONDC-PRODUCTION] Simulating ${count} competing buyer responses...`);
-
-  const bids: BuyerBid[] = [];
-  const usedBuyers = new Set<string>();
-
-  for (let i = 0; i < count; i++) {
-    try {
-      // Stagger bid arrivals (1-3 seconds apart)
-      await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 2000));
-
-      const response = await simulateBroadcastProduction(catalogId);
-
-      if (response.success && response.bid) {
-        // Ensure we don't duplicate buyers
-        if (!usedBuyers.has(response.bid.buyerName)) {
-          usedBuyers.add(response.bid.buyerName);
-          bids.push(response.bid);
-        }
-      }
-    } catch (error) {
-      console.warn(`[ONDC-PRODUCTION] Bid ${i + 1} failed:`, error);
-    }
-  }
+  console.log(`[ONDC-PRODUCTION] Simulating up to ${count} competing buyer responses...`);
 
-  // Sort by bid amount (highest first)
-  bids.sort((a, b) => b.bidAmount - a.bidAmount);
+  const response = await simulateBroadcastProduction(catalogId, { maxBidders: count });
+  const bids = response.bids || [];
 
   console.log(`[ONDC-PRODUCTION] Received ${bids.length} valid bids`);
   return bids;
@@ -908,7 +1828,7 @@ export function getNetworkStatus(): {
     gateway: ONDC_GATEWAY.PRODUCTION,
     version: ONDC_VERSION,
     domain: ONDC_DOMAIN,
-    activeBuyers: BUYER_POOL.filter(b => b.verified).length,
-    learningDataSize: bidLearningCache.size
+    activeBuyers: getAuctionBuyers().length,
+    learningDataSize: getCachedLearningStats().length
   };
 }
@@ -0,0 +1,444 @@
+/**
+ * ONDC Broadcast Module - Asynchronous Catalog Broadcasts
+ *
+ * Starts a catalog broadcast and returns as soon as the search is on its
+ * way. Buyer bids arrive later as on_search callbacks (see ondc-callbacks)
+ * and are read back with getBroadcastStatus.
+ *
+ * Each broadcast is an auction: the search ttl is the bid collection
+ * window (ONDC_AUCTION_WINDOW_MS), during which buyers operating in the
+ * farmer's state send competing offers. Once it closes the farmer picks
+ * from the ranked bids.
+ *
+ * TRANSPORTS (ONDC_TRANSPORT):
+ * - simulated (default): the in-process network simulator runs in the
+ *   background and delivers its callbacks straight to the callback handler
+ * - http: the signed search is POSTed to ONDC_GATEWAY_URL and callbacks
+ *   arrive on the /api/ondc/on_* routes
+ *
+ * Edits to a broadcast listing go out as an ONDC update in the same
+ * transaction as its search.
+ *
+ * @module ondc-broadcast
+ */
+
+import { prisma } from './db';
+import type { Bid, Prisma } from './generated-client/client';
+import type { BecknCatalogItem } from './beckn-schema';
+import { findBuyer } from './buyer-registry';
+import type { BuyerMatch } from './buyer-matching';
+import {
+  ONDC_DOMAIN,
+  buildCatalogUpdateMessage,
+  buildSearchMessage,
+  createEnvelope,
+  createOndcContext,
+  getResponseDeadline,
+  toTtlDuration,
+  type ONDCEnvelope
+} from './ondc-protocol';
+import { sendOndcMessage } from './ondc-client';
+import { deliverSimulatedCallback } from './ondc-callbacks';
+import {
+  generateMessageId,
+  generateTransactionId,
+  getAuctionWindowMs,
+  rankBids,
+  simulateBroadcastProduction,
+  type BroadcastResponse,
+  type BuyerBid
+} from './network-simulator';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * How broadcasts reach the network
+ */
+export type ONDCTransport = 'simulated' | 'http';
+
+/**
+ * Result of starting a broadcast
+ */
+export interface StartBroadcastResult {
+  success: boolean;
+  transactionId?: string;
+  error?: string;
+}
+
+/**
+ * Progress of a broadcast
+ */
+export interface BroadcastStatus {
+  /** PENDING until the first bid or a network failure is recorded */
+  status: 'PENDING' | 'BID_RECEIVED' | 'FAILED';
+  /** Bids received so far, best first */
+  bids: BuyerBid[];
+  /** True while buyers may still bid */
+  auctionOpen: boolean;
+  /** When the bid collection window closes (once the search is out) */
+  auctionClosesAt?: Date;
+  error?: {
+    type: NonNullable<BroadcastResponse['error']>['type'];
+    message: string;
+  };
+  /** Why each buyer did or didn't receive the broadcast (once matched) */
+  buyerMatches?: BuyerMatch[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Read the configured transport
+ */
+export function getTransport(): ONDCTransport {
+  return process.env.ONDC_TRANSPORT === 'http' ? 'http' : 'simulated';
+}
+
+/**
+ * Put a catalog back to DRAFT so the farmer can retry
+ *
+ * Only from BROADCASTED: a listing sold, cancelled or expired in the
+ * meantime keeps its status.
+ */
+async function revertToDraft(catalogId: string): Promise<void> {
+  await prisma.catalog.updateMany({
+    where: { id: catalogId, status: 'BROADCASTED' },
+    data: { status: 'DRAFT' }
+  });
+}
+
+/**
+ * Make sure a failed simulated broadcast leaves a FAILED record
+ *
+ * The simulator logs network events itself; other failures (missing
+ * catalog, internal errors) are recorded here so pollers stop waiting.
+ */
+async function recordFailure(catalogId: string, response: BroadcastResponse): Promise<void> {
+  const existing = await prisma.networkLog.findFirst({
+    where: {
+      type: 'OUTGOING_CATALOG',
+      transactionId: response.transactionId,
+      payload: { path: '$.status', equals: 'FAILED' }
+    }
+  });
+
+  if (existing) {
+    return;
+  }
+
+  await prisma.networkLog.create({
+    data: {
+      type: 'OUTGOING_CATALOG',
+      transactionId: response.transactionId,
+      catalogId,
+      payload: {
+        catalogId,
+        transactionId: response.transactionId,
+        status: 'FAILED',
+        errorType: response.error?.type || 'NETWORK_ERROR',
+        errorCode: response.error?.code || 500,
+        errorMessage: response.error?.message || 'Broadcast failed',
+        processingTimeMs: response.processingTimeMs
+      },
+      timestamp: new Date()
+    }
+  });
+}
+
+/**
+ * Convert a Bid record to a BuyerBid for display
+ *
+ * Buyer branding (logo, rating, location) comes from the buyer registry.
+ */
+export function toBuyerBid(bid: Bid): BuyerBid {
+  const buyer = findBuyer(bid.buyerSubscriberId);
+
+  return {
+    buyerName: bid.buyerName,
+    bidAmount: bid.pricePerUnit,
+    timestamp: bid.receivedAt,
+    buyerLogo: buyer?.logo || '',
+    buyerRating: buyer?.rating || 0,
+    buyerLocation: buyer?.location || '',
+    buyerVerified: buyer?.verified ?? false,
+    bidId: bid.id,
+    buyerSubscriberId: bid.buyerSubscriberId ?? undefined,
+    transactionId: bid.transactionId ?? undefined,
+    messageId: bid.messageId ?? undefined,
+    domain: ONDC_DOMAIN,
+    validityHours: bid.validityHours ?? undefined,
+    paymentTerms: bid.paymentTerms ?? undefined,
+    deliveryDays: bid.deliveryDays ?? undefined
+  };
+}
+
+// ============================================================================
+// BROADCAST
+// ============================================================================
+
+/**
+ * Send the search for a catalog over HTTP
+ */
+async function startHttpBroadcast(catalogId: string, transactionId: string): Promise<StartBroadcastResult> {
+  const catalog = await prisma.catalog.findUnique({
+    where: { id: catalogId },
+    include: { farmer: true, fpo: true }
+  });
+
+  if (!catalog) {
+    return { success: false, error: `Catalog with ID ${catalogId} not found` };
+  }
+
+  // A pooled listing is sold by its FPO, from where the members farm
+  const { fpo } = catalog;
+  const sellerState = (fpo ? fpo.state : catalog.farmer?.state) ?? undefined;
+
+  const envelope = createEnvelope(
+    createOndcContext('search', {
+      transactionId,
+      messageId: generateMessageId(),
+      ttl: toTtlDuration(getAuctionWindowMs())
+    }),
+    buildSearchMessage(
+      catalogId,
+      catalog.becknJson as unknown as BecknCatalogItem,
+      sellerState,
+      fpo ? { id: fpo.providerId, name: fpo.name } : undefined
+    )
+  );
+
+  await prisma.networkLog.create({
+    data: {
+      type: 'ONDC_REQUEST',
+      payload: envelope as unknown as Prisma.InputJsonValue,
+      transactionId,
+      catalogId,
+      timestamp: new Date(envelope.context.timestamp)
+    }
+  });
+
+  const result = await sendOndcMessage(envelope);
+  if (!result.success) {
+    await revertToDraft(catalogId);
+    return { success: false, transactionId, error: `[ONDC Network] ${result.error || 'Gateway rejected search'}` };
+  }
+
+  return { success: true, transactionId };
+}
+
+/**
+ * Run the network simulator in the background
+ */
+function startSimulatedBroadcast(catalogId: string, transactionId: string): StartBroadcastResult {
+  void simulateBroadcastProduction(catalogId, {
+    transactionId,
+    deliverCallback: deliverSimulatedCallback
+  })
+    .then(async response => {
+      if (!response.success) {
+        console.warn(`[ONDC-BROADCAST] Broadcast ${transactionId} failed: ${response.error?.message}`);
+        await recordFailure(catalogId, response);
+        await revertToDraft(catalogId);
+      }
+    })
+    .catch(error => {
+      console.error(`[ONDC-BROADCAST] Broadcast ${transactionId} crashed:`, error);
+    });
+
+  return { success: true, transactionId };
+}
+
+/**
+ * Start broadcasting a catalog to the network
+ *
+ * Returns once the search has been sent; bids arrive asynchronously
+ * until the auction window closes.
+ *
+ * @param catalogId - The catalog to broadcast (already marked BROADCASTED)
+ * @returns The transaction ID to poll with getBroadcastStatus
+ */
+export async function startBroadcast(catalogId: string): Promise<StartBroadcastResult> {
+  const transactionId = generateTransactionId();
+
+  console.log(`[ONDC-BROADCAST] Starting ${getTransport()} broadcast ${transactionId} for catalog ${catalogId}`);
+
+  if (getTransport() === 'http') {
+    return startHttpBroadcast(catalogId, transactionId);
+  }
+
+  return startSimulatedBroadcast(catalogId, transactionId);
+}
+
+/**
+ * Tell buyers a broadcast listing has been edited
+ *
+ * The update goes out in the transaction of the listing's latest search so
+ * buyers can tie it to their bids. Over HTTP it is sent through the
+ * gateway; on the simulated network it is only recorded.
+ *
+ * @param catalogId - The edited catalog
+ * @param item - The listing as edited
+ * @param version - The catalog's new revision number
+ * @param changedFields - Dotted paths of the fields that changed
+ * @returns The transaction the update was sent in
+ */
+export async function broadcastCatalogUpdate(
+  catalogId: string,
+  item: BecknCatalogItem,
+  version: number,
+  changedFields: string[]
+): Promise<StartBroadcastResult> {
+  const search = await prisma.networkLog.findFirst({
+    where: {
+      type: 'ONDC_REQUEST',
+      catalogId,
+      payload: { path: '$.context.action', equals: 'search' }
+    },
+    orderBy: { timestamp: 'desc' }
+  });
+  const transactionId = search?.transactionId ?? generateTransactionId();
+
+  const envelope = createEnvelope(
+    createOndcContext('update', { transactionId, messageId: generateMessageId() }),
+    buildCatalogUpdateMessage(catalogId, item, version, changedFields)
+  );
+
+  await prisma.networkLog.create({
+    data: {
+      type: 'ONDC_REQUEST',
+      payload: envelope as unknown as Prisma.InputJsonValue,
+      transactionId,
+      catalogId,
+      timestamp: new Date(envelope.context.timestamp)
+    }
+  });
+
+  if (getTransport() === 'http') {
+    const result = await sendOndcMessage(envelope);
+    if (!result.success) {
+      return { success: false, transactionId, error: `[ONDC Network] ${result.error || 'Gateway rejected update'}` };
+    }
+  }
+
+  console.log(`[ONDC-BROADCAST] Catalog ${catalogId} v${version} update sent in ${transactionId}`);
+
+  return { success: true, transactionId };
+}
+
+/**
+ * Read the bids and failures recorded for a broadcast
+ *
+ * Only open and accepted bids are listed; bids that were rejected,
+ * countered or expired are left out. A broadcast whose
+ * window closed without a single bid is reported as a TIMEOUT failure.
+ * Simulated broadcasts also report how buyers were matched.
+ *
+ * @param catalogId - The broadcast catalog
+ * @param transactionId - Limit to one broadcast (defaults to all of the catalog's broadcasts)
+ */
+export async function getBroadcastStatus(catalogId: string, transactionId?: string): Promise<BroadcastStatus> {
+  const status = await readBroadcastStatus(catalogId, transactionId);
+
+  const matching = await prisma.networkLog.findFirst({
+    where: {
+      type: 'OUTGOING_CATALOG',
+      catalogId,
+      ...(transactionId ? { transactionId } : {}),
+      payload: { path: '$.status', equals: 'MATCHED' }
+    },
+    orderBy: { timestamp: 'desc' }
+  });
+
+  if (!matching) {
+    return status;
+  }
+
+  return {
+    ...status,
+    buyerMatches: (matching.payload as unknown as { buyerMatches: BuyerMatch[] }).buyerMatches
+  };
+}
+
+/**
+ * Work out a broadcast's status from its search, failure and bids
+ */
+async function readBroadcastStatus(catalogId: string, transactionId?: string): Promise<BroadcastStatus> {
+  const transactionFilter = transactionId ? { transactionId } : {};
+
+  const search = await prisma.networkLog.findFirst({
+    where: {
+      type: 'ONDC_REQUEST',
+      catalogId,
+      ...transactionFilter,
+      payload: { path: '$.context.action', equals: 'search' }
+    },
+    orderBy: { timestamp: 'desc' }
+  });
+  const auctionClosesAt = search
+    ? getResponseDeadline((search.payload as unknown as ONDCEnvelope).context)
+    : undefined;
+  const auctionOpen = !auctionClosesAt || auctionClosesAt.getTime() > Date.now();
+
+  const failure = await prisma.networkLog.findFirst({
+    where: {
+      type: 'OUTGOING_CATALOG',
+      catalogId,
+      ...transactionFilter,
+      payload: { path: '$.status', equals: 'FAILED' }
+    },
+    orderBy: { timestamp: 'desc' }
+  });
+
+  if (failure) {
+    const payload = failure.payload as Record<string, unknown>;
+    return {
+      status: 'FAILED',
+      bids: [],
+      auctionOpen: false,
+      auctionClosesAt,
+      error: {
+        type: payload.errorType as NonNullable<BroadcastStatus['error']>['type'],
+        message: String(payload.errorMessage)
+      }
+    };
+  }
+
+  const bidRecords = await prisma.bid.findMany({
+    where: { catalogId, ...transactionFilter },
+    orderBy: { receivedAt: 'asc' }
+  });
+
+  const bids = rankBids(bidRecords
+    .filter(bid => bid.status === 'RECEIVED' || bid.status === 'ACCEPTED')
+    .map(toBuyerBid));
+
+  if (bids.length > 0) {
+    return { status: 'BID_RECEIVED', bids, auctionOpen, auctionClosesAt };
+  }
+
+  if (!auctionOpen && bidRecords.length > 0) {
+    return {
+      status: 'FAILED',
+      bids: [],
+      auctionOpen,
+      auctionClosesAt,
+      error: { type: 'DENIED', message: 'No buyer bid is still open' }
+    };
+  }
+
+  if (!auctionOpen) {
+    return {
+      status: 'FAILED',
+      bids: [],
+      auctionOpen,
+      auctionClosesAt,
+      error: { type: 'TIMEOUT', message: 'No buyer bid before the auction window closed' }
+    };
+  }
+
+  return { status: 'PENDING', bids: [], auctionOpen, auctionClosesAt };
+}
@@ -0,0 +1,560 @@
+/**
+ * ONDC Callbacks Module - Handling of Asynchronous on_* Messages
+ *
+ * Network participants answer our requests asynchronously by POSTing
+ * on_* callbacks to `/api/ondc/{action}`. Each callback is:
+ * 1. Parsed and validated against the ONDC envelope schema
+ * 2. Checked for the expected action and domain
+ * 3. Authenticated with its Authorization header (always, unless
+ *    ONDC_VERIFY_SIGNATURES=false for local testing without keys)
+ * 4. Correlated by transaction_id to the catalog whose request started it
+ * 5. Persisted as an ONDC_CALLBACK NetworkLog
+ *
+ * Buyer offers carried by on_search are recorded as Bid records (with an
+ * INCOMING_BID log) and fed to bid learning, so bids reach the app
+ * asynchronously regardless of whether they come from the live network,
+ * the mock network or the in-process simulator. Offers arriving after the search ttl (the auction
+ * window) are logged but not recorded as bids. A buyer bids only for
+ * itself and once per transaction: offers from another provider than
+ * the sender, and repeated on_search callbacks, are not recorded.
+ *
+ * Fulfillment stages carried by on_status and on_update are recorded as
+ * FulfillmentEvents against the order; delivery fulfils the order. Only
+ * the order's buyer can report them.
+ *
+ * A buyer cancelling its order sends an unsolicited on_cancel; the order
+ * is cancelled with the buyer's reason code and the listing released.
+ * Other buyers on the transaction cannot cancel it. An
+ * on_cancel answering our own cancel is only logged, since the farmer's
+ * cancellation is recorded when it is made (see lib/cancellation).
+ *
+ * Issue & Grievance Management: on_issue and on_issue_status carry the
+ * buyer's steps on an issue - raising a complaint, escalating or closing
+ * it, or processing and resolving one the farmer raised. Only the sending
+ * buyer's own steps on its own orders are recorded; ours are recorded when
+ * taken (see lib/igm).
+ *
+ * The receiver answers with an ACK, or a NACK carrying an ONDC error.
+ *
+ * @module ondc-callbacks
+ */
+
+import { prisma } from './db';
+import type { Bid, Catalog, Prisma } from './generated-client/client';
+import type { BecknCatalogItem } from './beckn-schema';
+import { lookupBuyer } from './buyer-registry';
+import {
+  ONDC_DOMAIN,
+  ONDC_VERSION,
+  ONDC_ISSUE_KINDS,
+  ONDCEnvelopeSchema,
+  createAck,
+  createNack,
+  getResponseDeadline,
+  readIssueUpdate,
+  readOnSearchOffers,
+  readOrderCancellation,
+  readOrderFulfillment,
+  type ONDCAckResponse,
+  type ONDCCallbackAction,
+  type ONDCEnvelope
+} from './ondc-protocol';
+import { verifyAuthorizationHeader } from './ondc-signing';
+import { createRegistryKeyResolver } from './ondc-client';
+import { extractCommodityName, updateLearningData } from './network-simulator';
+import { canTransitionOrder, cancelOrder, transitionOrder } from './order-lifecycle';
+import { applyIssueStep, canApplyIssueStep, openIssue } from './issue-lifecycle';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Outcome of handling a callback
+ */
+export interface ONDCCallbackResult {
+  /** HTTP status to answer with */
+  status: number;
+  /** ACK or NACK body */
+  body: ONDCAckResponse;
+  /** Catalog the callback was correlated to */
+  catalogId?: string;
+  /** Number of bids recorded from the callback */
+  bidsRecorded?: number;
+  /** Whether the callback recorded a fulfillment stage */
+  fulfillmentRecorded?: boolean;
+  /** Whether the callback cancelled an order */
+  cancellationRecorded?: boolean;
+  /** Whether the callback recorded a step on an issue */
+  issueRecorded?: boolean;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Build a NACK result
+ */
+function nack(status: number, type: string, code: string, message: string): ONDCCallbackResult {
+  console.warn(`[ONDC-CALLBACK] NACK ${code}: ${message}`);
+  return { status, body: createNack(type, code, message) };
+}
+
+/**
+ * Whether callbacks received over HTTP must carry a valid signature
+ *
+ * On by default; ONDC_VERIFY_SIGNATURES=false turns it off.
+ */
+function signaturesRequired(): boolean {
+  return process.env.ONDC_VERIFY_SIGNATURES !== 'false';
+}
+
+/**
+ * Find the outgoing request that started a transaction
+ */
+async function findTransactionRequest(transactionId: string) {
+  return prisma.networkLog.findFirst({
+    where: {
+      transactionId,
+      type: 'ONDC_REQUEST',
+      catalogId: { not: null }
+    },
+    orderBy: { timestamp: 'asc' }
+  });
+}
+
+/**
+ * Whether a create failed on a unique constraint, i.e. the record exists
+ */
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === 'P2002';
+}
+
+/**
+ * Record the buyer offers in an on_search callback as bids
+ *
+ * Only the sender's own offers are recorded, and only from its first
+ * on_search for the transaction. Bids are unique per sender and message,
+ * so of two retries arriving together only one is recorded.
+ */
+async function recordBids(
+  envelope: ONDCEnvelope<Record<string, unknown>>,
+  catalog: Catalog & { farmer?: { state: string | null } | null }
+): Promise<number> {
+  const catalogId = catalog.id;
+  const { bpp_id: senderId, transaction_id: transactionId } = envelope.context;
+  if (!senderId) {
+    console.warn('[ONDC-CALLBACK] on_search without a bpp_id ignored');
+    return 0;
+  }
+
+  const earlierBid = await prisma.bid.findFirst({
+    where: { catalogId, transactionId, buyerSubscriberId: senderId }
+  });
+  if (earlierBid) {
+    console.warn(`[ONDC-CALLBACK] Repeated on_search from ${senderId} for ${transactionId} ignored`);
+    return 0;
+  }
+
+  const becknData = catalog.becknJson as unknown as BecknCatalogItem;
+  const offers = (readOnSearchOffers(envelope.message, catalogId) || []).filter(offer => {
+    if (offer.providerId !== senderId) {
+      console.warn(`[ONDC-CALLBACK] Offer for ${offer.providerId} sent by ${senderId} ignored`);
+      return false;
+    }
+    return true;
+  });
+  const catalogPrice = becknData.price?.value || 0;
+  const commodity = extractCommodityName(becknData.descriptor?.name || '');
+  const timestamp = new Date(envelope.context.timestamp);
+  let recorded = 0;
+
+  for (const offer of offers) {
+    const buyer = await lookupBuyer(offer.providerId);
+    const bidRatio = catalogPrice > 0 ? offer.pricePerUnit / catalogPrice : 1;
+
+    let bid: Bid;
+    try {
+      bid = await prisma.bid.create({
+        data: {
+          id: `bid-${Date.now()}-${Math.random().toString(36).substring(7)}`,
+          catalogId,
+          farmerId: catalog.farmerId,
+          transactionId: envelope.context.transaction_id,
+          messageId: envelope.context.message_id,
+          buyerName: offer.providerName,
+          buyerSubscriberId: offer.providerId,
+          pricePerUnit: offer.pricePerUnit,
+          catalogPrice,
+          currency: offer.currency,
+          paymentTerms: offer.paymentTerms,
+          deliveryDays: offer.deliveryDays,
+          validityHours: offer.validityHours,
+          receivedAt: timestamp
+        }
+      });
+    } catch (error) {
+      // A retry of the same on_search got there first
+      if (isUniqueViolation(error)) {
+        console.warn(`[ONDC-CALLBACK] Repeated on_search from ${senderId} for ${transactionId} ignored`);
+        continue;
+      }
+      throw error;
+    }
+
+    await prisma.networkLog.create({
+      data: {
+        type: 'INCOMING_BID',
+        transactionId: envelope.context.transaction_id,
+        catalogId,
+        payload: {
+          bidId: bid.id,
+          transactionId: envelope.context.transaction_id,
+          messageId: envelope.context.message_id,
+          domain: ONDC_DOMAIN,
+          protocolVersion: ONDC_VERSION,
+          buyerName: offer.providerName,
+          buyerSubscriberId: offer.providerId,
+          buyerGstin: buyer?.gstin ?? null,
+          buyerLogo: buyer?.logo ?? null,
+          buyerRating: buyer?.rating ?? null,
+          buyerLocation: buyer?.location ?? null,
+          buyerVerified: buyer?.verified ?? false,
+          bidAmount: offer.pricePerUnit,
+          catalogId,
+          catalogPrice,
+          commodity,
+          bidRatio,
+          validityHours: offer.validityHours,
+          deliveryDays: offer.deliveryDays,
+          paymentTerms: offer.paymentTerms,
+          timestamp: timestamp.toISOString(),
+          source: 'on_search'
+        },
+        timestamp
+      }
+    });
+
+    await updateLearningData(commodity, bidRatio, { state: catalog.farmer?.state, at: timestamp });
+    recorded++;
+  }
+
+  return recorded;
+}
+
+/**
+ * Record the fulfillment stage reported by an on_status or on_update
+ *
+ * Only the order's buyer can report its stages. A stage is recorded once
+ * per order; repeated reports are ignored.
+ */
+async function recordFulfillmentUpdate(
+  envelope: ONDCEnvelope<Record<string, unknown>>,
+  catalog: Catalog
+): Promise<boolean> {
+  const update = readOrderFulfillment(envelope.message);
+  if (!update?.stage) {
+    return false;
+  }
+
+  const order = await prisma.order.findUnique({
+    where: { id: update.orderId }
+  });
+
+  if (!order || order.catalogId !== catalog.id) {
+    console.warn(`[ONDC-CALLBACK] ${envelope.context.action} for unknown order ${update.orderId}`);
+    return false;
+  }
+
+  if (envelope.context.bpp_id !== order.buyerSubscriberId) {
+    console.warn(`[ONDC-CALLBACK] ${envelope.context.action} from ${envelope.context.bpp_id || 'unknown'} for another buyer's order ${order.id} ignored`);
+    return false;
+  }
+
+  if (order.status === 'CANCELLED') {
+    console.warn(`[ONDC-CALLBACK] ${envelope.context.action} for cancelled order ${order.id} ignored`);
+    return false;
+  }
+
+  await prisma.fulfillmentEvent.upsert({
+    where: { orderId_state: { orderId: order.id, state: update.stage } },
+    create: {
+      orderId: order.id,
+      state: update.stage,
+      logisticsProvider: update.logisticsProvider,
+      transactionId: envelope.context.transaction_id,
+      messageId: envelope.context.message_id,
+      source: envelope.context.action,
+      occurredAt: update.updatedAt || new Date(envelope.context.timestamp)
+    },
+    update: {}
+  });
+
+  if (update.stage === 'DELIVERED' && canTransitionOrder(order.status, 'FULFILLED')) {
+    await transitionOrder(order.id, 'FULFILLED');
+  }
+
+  return true;
+}
+
+/**
+ * Record a buyer's cancellation reported by an on_cancel
+ *
+ * Only the order's buyer can cancel it, and only cancellations made by
+ * the sending buyer are applied; an on_cancel acknowledging our own
+ * cancel has nothing left to record.
+ */
+async function recordCancellation(
+  envelope: ONDCEnvelope<Record<string, unknown>>,
+  catalog: Catalog
+): Promise<boolean> {
+  const cancellation = readOrderCancellation(envelope.message);
+  if (!cancellation || cancellation.cancelledBy !== envelope.context.bpp_id) {
+    return false;
+  }
+
+  const order = await prisma.order.findUnique({
+    where: { id: cancellation.orderId }
+  });
+
+  if (!order || order.catalogId !== catalog.id) {
+    console.warn(`[ONDC-CALLBACK] on_cancel for unknown order ${cancellation.orderId}`);
+    return false;
+  }
+
+  if (envelope.context.bpp_id !== order.buyerSubscriberId) {
+    console.warn(`[ONDC-CALLBACK] on_cancel from ${envelope.context.bpp_id || 'unknown'} for another buyer's order ${order.id} ignored`);
+    return false;
+  }
+
+  if (!canTransitionOrder(order.status, 'CANCELLED')) {
+    console.warn(`[ONDC-CALLBACK] on_cancel for ${order.status} order ${order.id} ignored`);
+    return false;
+  }
+
+  await cancelOrder(order.id, { reasonCode: cancellation.reasonCode, cancelledBy: 'BUYER' });
+
+  return true;
+}
+
+/**
+ * Record the buyer's step on an issue reported by an on_issue or on_issue_status
+ *
+ * A buyer opening an issue we do not know creates it; other steps are
+ * applied when the buyer may take them now. Messages carrying no step,
+ * echoing ours, or sent for another buyer's order have nothing to record.
+ */
+async function recordIssueUpdate(
+  envelope: ONDCEnvelope<Record<string, unknown>>,
+  catalog: Catalog
+): Promise<boolean> {
+  const update = readIssueUpdate(envelope.message);
+  const { action: source, bpp_id: buyerId } = envelope.context;
+  if (!update?.action || update.action.updatedBy !== buyerId) {
+    return false;
+  }
+
+  const { terms, action, resolution } = update;
+  const order = await prisma.order.findUnique({
+    where: { id: terms.orderId }
+  });
+
+  if (!order || order.catalogId !== catalog.id) {
+    console.warn(`[ONDC-CALLBACK] ${source} for unknown order ${terms.orderId}`);
+    return false;
+  }
+
+  if (buyerId !== order.buyerSubscriberId) {
+    console.warn(`[ONDC-CALLBACK] ${source} from ${buyerId} for another buyer's order ${order.id} ignored`);
+    return false;
+  }
+
+  const issue = await prisma.issue.findUnique({
+    where: { id: terms.issueId }
+  });
+
+  if (!issue) {
+    const raisable = action.code === 'OPEN'
+      && terms.complainantId === buyerId
+      && terms.kind !== undefined
+      && ONDC_ISSUE_KINDS[terms.kind].raisedBy === 'BUYER';
+
+    if (!raisable) {
+      console.warn(`[ONDC-CALLBACK] ${source} for unknown issue ${terms.issueId}`);
+      return false;
+    }
+
+    await openIssue({
+      id: terms.issueId,
+      orderId: order.id,
+      transactionId: envelope.context.transaction_id,
+      kind: terms.kind!,
+      complainant: 'BUYER',
+      description: terms.description
+    }, source);
+
+    return true;
+  }
+
+  if (action.code === 'OPEN' || !canApplyIssueStep(issue, 'BUYER', action.code)) {
+    console.warn(`[ONDC-CALLBACK] ${source}: ${action.code} on ${issue.status} issue ${issue.id} ignored`);
+    return false;
+  }
+
+  await applyIssueStep(issue.id, {
+    party: 'BUYER',
+    step: action.code,
+    shortDesc: action.shortDesc || undefined,
+    source,
+    resolution: resolution && {
+      action: resolution.action,
+      note: resolution.shortDesc,
+      refundAmount: resolution.refundAmount
+    }
+  });
+
+  return true;
+}
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+/**
+ * Process an already parsed callback envelope
+ *
+ * Used directly by the in-process simulator (which is trusted and does not
+ * sign), and by handleOndcCallback after the HTTP checks.
+ *
+ * @param expectedAction - The callback action of the receiving route
+ * @param body - The decoded request body
+ * @returns ACK/NACK result
+ */
+export async function processOndcCallback(
+  expectedAction: ONDCCallbackAction,
+  body: unknown
+): Promise<ONDCCallbackResult> {
+  const parsed = ONDCEnvelopeSchema.safeParse(body);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return nack(400, 'JSON-SCHEMA-ERROR', '30000', `${issue?.path.join('.') || 'body'}: ${issue?.message || 'Invalid envelope'}`);
+  }
+
+  const envelope = parsed.data as ONDCEnvelope<Record<string, unknown>>;
+  const { context } = envelope;
+
+  if (context.action !== expectedAction) {
+    return nack(400, 'CONTEXT-ERROR', '30000', `Expected action ${expectedAction}, received ${context.action}`);
+  }
+
+  if (context.domain !== ONDC_DOMAIN) {
+    return nack(400, 'CONTEXT-ERROR', '30000', `Unsupported domain: ${context.domain}`);
+  }
+
+  try {
+    const request = await findTransactionRequest(context.transaction_id);
+    const catalogId = request?.catalogId;
+    if (!request || !catalogId) {
+      return nack(400, 'CONTEXT-ERROR', '30001', `Unknown transaction: ${context.transaction_id}`);
+    }
+
+    const catalog = await prisma.catalog.findUnique({
+      where: { id: catalogId },
+      include: { farmer: { select: { state: true } } }
+    });
+    if (!catalog) {
+      return nack(400, 'CONTEXT-ERROR', '30001', `Catalog ${catalogId} no longer exists`);
+    }
+
+    await prisma.networkLog.create({
+      data: {
+        type: 'ONDC_CALLBACK',
+        payload: envelope as unknown as Prisma.InputJsonValue,
+        transactionId: context.transaction_id,
+        catalogId,
+        timestamp: new Date(context.timestamp)
+      }
+    });
+
+    const auctionClosed = context.action === 'on_search'
+      && getResponseDeadline((request.payload as unknown as ONDCEnvelope).context).getTime() < Date.now();
+    if (auctionClosed) {
+      console.warn(`[ONDC-CALLBACK] on_search from ${context.bpp_id || 'unknown'} arrived after the auction window closed`);
+    }
+
+    const bidsRecorded = context.action === 'on_search' && !auctionClosed
+      ? await recordBids(envelope, catalog)
+      : 0;
+
+    const fulfillmentRecorded = context.action === 'on_status' || context.action === 'on_update'
+      ? await recordFulfillmentUpdate(envelope, catalog)
+      : false;
+
+    const cancellationRecorded = context.action === 'on_cancel'
+      ? await recordCancellation(envelope, catalog)
+      : false;
+
+    const issueRecorded = context.action === 'on_issue' || context.action === 'on_issue_status'
+      ? await recordIssueUpdate(envelope, catalog)
+      : false;
+
+    console.log(`[ONDC-CALLBACK] ${context.action} from ${context.bpp_id || 'unknown'} for catalog ${catalogId}`);
+
+    return { status: 200, body: createAck(), catalogId, bidsRecorded, fulfillmentRecorded, cancellationRecorded, issueRecorded };
+
+  } catch (error) {
+    console.error('[ONDC-CALLBACK] Failed to process callback:', error);
+    return nack(500, 'CORE-ERROR', '50000', 'Internal error while processing callback');
+  }
+}
+
+/**
+ * Hand a simulated buyer callback to the callback handler
+ *
+ * Used as the simulator's callback delivery so simulated messages take the
+ * same path as callbacks received over HTTP.
+ *
+ * @param envelope - The on_* envelope produced by the simulator
+ */
+export async function deliverSimulatedCallback(envelope: ONDCEnvelope<unknown>): Promise<void> {
+  const result = await processOndcCallback(envelope.context.action as ONDCCallbackAction, envelope);
+  if (result.status !== 200) {
+    console.warn(`[ONDC-CALLBACK] Simulated ${envelope.context.action} rejected: ${result.body.error?.message}`);
+  }
+}
+
+/**
+ * Handle a callback received over HTTP
+ *
+ * @param expectedAction - The callback action of the receiving route
+ * @param rawBody - The raw request body (needed for signature verification)
+ * @param authorization - The Authorization header, if any
+ * @returns ACK/NACK result
+ */
+export async function handleOndcCallback(
+  expectedAction: ONDCCallbackAction,
+  rawBody: string,
+  authorization?: string | null
+): Promise<ONDCCallbackResult> {
+  let body: unknown;
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    return nack(400, 'JSON-SCHEMA-ERROR', '30000', 'Request body is not valid JSON');
+  }
+
+  if (authorization || signaturesRequired()) {
+    const verification = await verifyAuthorizationHeader(authorization, rawBody, createRegistryKeyResolver());
+    if (!verification.valid) {
+      return nack(401, 'POLICY-ERROR', '10001', verification.error || 'Invalid signature');
+    }
+
+    const senderId = (body as { context?: { bpp_id?: string } })?.context?.bpp_id;
+    if (senderId && verification.subscriberId !== senderId) {
+      return nack(401, 'POLICY-ERROR', '10001', `Signed by ${verification.subscriberId}, not ${senderId}`);
+    }
+  }
+
+  return processOndcCallback(expectedAction, body);
+}
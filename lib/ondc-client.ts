@@ -0,0 +1,212 @@
+/**
+ * ONDC Client Module - HTTP Transport and Registry Lookup
+ *
+ * Sends ONDC envelopes over HTTP and resolves network participants:
+ * - search is posted to the gateway (`{gateway}/search`)
+ * - select/init/confirm are posted to the counterparty (`{bpp_uri}/{action}`)
+ * - on_* callbacks are posted back to the requester (`{bap_uri}/{action}`)
+ *
+ * Outgoing bodies are signed with the configured Ed25519 keys (see
+ * ondc-signing) when keys are present; otherwise they are sent unsigned.
+ *
+ * Point ONDC_GATEWAY_URL and ONDC_REGISTRY_URL at the local mock network
+ * (`npm run ondc:mock`) to exercise the real HTTP path offline.
+ *
+ * @module ondc-client
+ */
+
+import { createAuthorizationHeader, getSigningKeys, type ONDCSigningKeys, type PublicKeyResolver } from './ondc-signing';
+import type { ONDCAckResponse, ONDCEnvelope } from './ondc-protocol';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Default timeout for a single HTTP exchange
+ */
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * Gateway and registry endpoints
+ */
+export interface ONDCNetworkConfig {
+  /** Base URL of the ONDC gateway (receives search) */
+  gatewayUrl: string;
+  /** Base URL of the ONDC registry (serves /lookup) */
+  registryUrl: string;
+}
+
+/**
+ * Read the gateway and registry endpoints from the environment
+ *
+ * Both default to the local mock network.
+ */
+export function getNetworkConfig(): ONDCNetworkConfig {
+  const gatewayUrl = process.env.ONDC_GATEWAY_URL || 'http://localhost:4010';
+
+  return {
+    gatewayUrl,
+    registryUrl: process.env.ONDC_REGISTRY_URL || gatewayUrl
+  };
+}
+
+// ============================================================================
+// SENDING
+// ============================================================================
+
+/**
+ * Options for sending an envelope
+ */
+export interface SendOptions {
+  /** Explicit target URL (defaults to the URL derived from the context) */
+  url?: string;
+  /** Keys to sign with (defaults to configured keys) */
+  keys?: ONDCSigningKeys;
+  /** Request timeout in milliseconds */
+  timeoutMs?: number;
+}
+
+/**
+ * Result of sending an envelope
+ */
+export interface SendResult {
+  /** True when the receiver answered with ACK */
+  success: boolean;
+  status?: number;
+  response?: ONDCAckResponse;
+  error?: string;
+}
+
+/**
+ * Work out where an envelope should be delivered
+ */
+export function getRequestUrl(envelope: ONDCEnvelope<unknown>): string {
+  const { action, bap_uri, bpp_uri } = envelope.context;
+
+  if (action.startsWith('on_')) {
+    return `${bap_uri}/${action}`;
+  }
+
+  if (action === 'search' || !bpp_uri) {
+    return `${getNetworkConfig().gatewayUrl}/${action}`;
+  }
+
+  return `${bpp_uri}/${action}`;
+}
+
+/**
+ * POST an envelope to its receiver and read the ACK/NACK
+ *
+ * Requests are signed as bap_id and callbacks as bpp_id.
+ *
+ * @param envelope - The envelope to send
+ * @param options - Optional URL, keys and timeout overrides
+ * @returns SendResult with the receiver's acknowledgement
+ */
+export async function sendOndcMessage(envelope: ONDCEnvelope<unknown>, options: SendOptions = {}): Promise<SendResult> {
+  const url = options.url || getRequestUrl(envelope);
+  const body = JSON.stringify(envelope);
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+  const keys = options.keys || getSigningKeys();
+  if (keys) {
+    const { action, bap_id, bpp_id } = envelope.context;
+    const subscriberId = action.startsWith('on_') && bpp_id ? bpp_id : bap_id;
+    headers.Authorization = createAuthorizationHeader(body, { keys, subscriberId });
+  }
+
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+    });
+
+    const response = await res.json().catch(() => undefined) as ONDCAckResponse | undefined;
+    const acked = res.ok && response?.message?.ack?.status === 'ACK';
+
+    return {
+      success: acked,
+      status: res.status,
+      response,
+      error: acked ? undefined : response?.error?.message || `HTTP ${res.status}`
+    };
+
+  } catch (error) {
+    console.warn(`[ONDC-CLIENT] Failed to send ${envelope.context.action} to ${url}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error'
+    };
+  }
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+/**
+ * Subscriber record as returned by the registry /lookup API
+ */
+export interface RegistryEntry {
+  subscriber_id: string;
+  subscriber_url: string;
+  type: 'BAP' | 'BPP' | 'BG';
+  domain: string;
+  city: string;
+  country: string;
+  signing_public_key: string;
+  ukId: string;
+  status: 'SUBSCRIBED' | 'INITIATED' | 'UNSUBSCRIBED';
+  valid_from: string;
+  valid_until: string;
+}
+
+/**
+ * Registry lookup filter (all fields optional)
+ */
+export type LookupQuery = Partial<Pick<RegistryEntry, 'subscriber_id' | 'type' | 'domain' | 'city' | 'ukId'>>;
+
+/**
+ * Query the registry for matching subscribers
+ *
+ * @returns Matching entries, or an empty list if the registry is unreachable
+ */
+export async function lookupSubscribers(
+  query: LookupQuery,
+  registryUrl: string = getNetworkConfig().registryUrl
+): Promise<RegistryEntry[]> {
+  try {
+    const res = await fetch(`${registryUrl}/lookup`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(query),
+      signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS)
+    });
+
+    if (!res.ok) {
+      console.warn(`[ONDC-CLIENT] Registry lookup failed: HTTP ${res.status}`);
+      return [];
+    }
+
+    return await res.json() as RegistryEntry[];
+
+  } catch (error) {
+    console.warn('[ONDC-CLIENT] Registry lookup failed:', error);
+    return [];
+  }
+}
+
+/**
+ * Resolve signing keys through the registry /lookup API
+ */
+export function createRegistryKeyResolver(registryUrl?: string): PublicKeyResolver {
+  return async (subscriberId, uniqueKeyId) => {
+    const entries = await lookupSubscribers({ subscriber_id: subscriberId, ukId: uniqueKeyId }, registryUrl);
+    const entry = entries.find(e => e.subscriber_id === subscriberId && e.ukId === uniqueKeyId);
+
+    return entry && entry.status === 'SUBSCRIBED' ? entry.signing_public_key : null;
+  };
+}
@@ -0,0 +1,444 @@
+/**
+ * ONDC Mock Network Module - Local Gateway and Registry Stand-in
+ *
+ * A small HTTP server that plays the roles of the ONDC gateway, the
+ * registry and every buyer platform in BUYER_POOL, so the real HTTP path
+ * can be exercised without the live network:
+ *
+ * - POST /lookup                      registry lookup (subscriber records and keys)
+ * - POST /search                      gateway: ACK, then fan out to mock buyers
+ *                                     operating in the seller's state
+ * - POST /bpp/{subscriber_id}/{action} mock buyer: select, init, confirm
+ * - GET  /health                      liveness check
+ *
+ * Every request is ACKed synchronously; the matching on_* callback is
+ * posted asynchronously to the requester's bap_uri, signed with the mock
+ * buyer's own Ed25519 key (registered in the mock registry).
+ *
+ * Start it with `npm run ondc:mock`.
+ *
+ * @module ondc-mock-network
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { BUYER_POOL, type Buyer } from './buyer-pool';
+import {
+  ONDC_DOMAIN,
+  ONDCEnvelopeSchema,
+  createAck,
+  createNack,
+  createCallbackContext,
+  createEnvelope,
+  getSubscriberConfig,
+  buildOnSearchMessage,
+  buildOnSelectMessage,
+  buildOnInitMessage,
+  buildOnConfirmMessage,
+  type ONDCContext,
+  type ONDCCallbackAction,
+  type ONDCOrderTerms
+} from './ondc-protocol';
+import {
+  generateSigningKeyPair,
+  getSigningKeys,
+  verifyAuthorizationHeader,
+  type ONDCSigningKeys
+} from './ondc-signing';
+import { sendOndcMessage, type LookupQuery, type RegistryEntry } from './ondc-client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Options for starting the mock network
+ */
+export interface MockNetworkOptions {
+  /** Port to listen on (0 picks a free port) */
+  port?: number;
+  /** Host to bind to */
+  host?: string;
+  /** Delay before each async callback is sent */
+  callbackDelayMs?: number;
+  /** Maximum number of buyers answering a search (defaults to all verified) */
+  maxResponders?: number;
+  /** NACK requests without a valid Authorization header */
+  requireSignatures?: boolean;
+  /** Extra registry entries (e.g. our own gateway) */
+  participants?: RegistryEntry[];
+}
+
+/**
+ * A mock buyer platform with its registry record and signing keys
+ */
+export interface MockParticipant {
+  buyer: Buyer;
+  entry: RegistryEntry;
+  keys: ONDCSigningKeys;
+}
+
+/**
+ * Handle to a running mock network
+ */
+export interface MockOndcNetwork {
+  /** Base URL (use as ONDC_GATEWAY_URL and ONDC_REGISTRY_URL) */
+  url: string;
+  participants: MockParticipant[];
+  /** Add or replace a registry entry */
+  register(entry: RegistryEntry): void;
+  stop(): Promise<void>;
+}
+
+/**
+ * Fields read from a search intent
+ */
+interface SearchIntent {
+  itemId: string;
+  itemName: string;
+  price: number;
+  currency: string;
+  quantity: number;
+  unit: string;
+  /** Seller's state, if the search names one */
+  sellerState?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_PORT = 4010;
+const DEFAULT_CALLBACK_DELAY_MS = 250;
+const REGISTRY_VALIDITY_MS = 365 * 24 * 60 * 60 * 1000;
+
+const PAYMENT_TERMS = ['Advance Payment', 'Payment on Delivery', '7 Days Credit'];
+
+const BPP_ACTIONS: Record<string, ONDCCallbackAction> = {
+  select: 'on_select',
+  init: 'on_init',
+  confirm: 'on_confirm'
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Read a request body as a string
+ */
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk.toString(); });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Write a JSON response
+ */
+function sendJson(res: ServerResponse, status: number, payload: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
+
+/**
+ * Build a registry record for a subscriber
+ */
+function createRegistryEntry(
+  subscriberId: string,
+  subscriberUrl: string,
+  type: RegistryEntry['type'],
+  keys: Pick<ONDCSigningKeys, 'uniqueKeyId' | 'publicKey'>
+): RegistryEntry {
+  const now = Date.now();
+
+  return {
+    subscriber_id: subscriberId,
+    subscriber_url: subscriberUrl,
+    type,
+    domain: ONDC_DOMAIN,
+    city: '*',
+    country: 'IND',
+    signing_public_key: keys.publicKey,
+    ukId: keys.uniqueKeyId,
+    status: 'SUBSCRIBED',
+    valid_from: new Date(now).toISOString(),
+    valid_until: new Date(now + REGISTRY_VALIDITY_MS).toISOString()
+  };
+}
+
+/**
+ * Pull the listed lot out of a search message
+ */
+function readSearchIntent(message: Record<string, unknown>): SearchIntent | null {
+  const intent = message.intent as { item?: Record<string, any>; fulfillment?: Record<string, any> } | undefined;
+  const item = intent?.item;
+  const price = Number(item?.price?.value);
+
+  if (!item?.id || !Number.isFinite(price)) {
+    return null;
+  }
+
+  return {
+    itemId: String(item.id),
+    itemName: item.descriptor?.name || 'Produce',
+    price,
+    currency: item.price?.currency || 'INR',
+    quantity: Number(item.quantity?.available?.count) || 0,
+    unit: item.quantity?.unitized?.measure?.unit || 'kg',
+    sellerState: intent?.fulfillment?.start?.location?.address?.state
+  };
+}
+
+/**
+ * Build a mock buyer's offer for a searched lot
+ */
+function createOffer(intent: SearchIntent, buyer: Buyer): ONDCOrderTerms {
+  // Offers land within 8% either side of the asking price
+  const ratio = 0.92 + Math.random() * 0.16;
+
+  return {
+    itemId: intent.itemId,
+    itemName: intent.itemName,
+    quantity: intent.quantity,
+    unit: intent.unit,
+    pricePerUnit: Math.round(intent.price * ratio * 100) / 100,
+    currency: intent.currency,
+    providerId: buyer.subscriberId,
+    providerName: buyer.name,
+    paymentTerms: PAYMENT_TERMS[Math.floor(Math.random() * PAYMENT_TERMS.length)],
+    deliveryDays: 1 + Math.floor(Math.random() * 5),
+    validityHours: 24 + Math.floor(Math.random() * 2) * 24
+  };
+}
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+/**
+ * Start the mock gateway, registry and buyer platforms
+ *
+ * @param options - Port, timing and registry options
+ * @returns Handle with the base URL, participants and a stop function
+ */
+export async function startMockOndcNetwork(options: MockNetworkOptions = {}): Promise<MockOndcNetwork> {
+  const host = options.host || '127.0.0.1';
+  const callbackDelayMs = options.callbackDelayMs ?? DEFAULT_CALLBACK_DELAY_MS;
+
+  const registry = new Map<string, RegistryEntry>();
+  const offers = new Map<string, ONDCOrderTerms>();
+  const timers = new Set<NodeJS.Timeout>();
+  const participants: MockParticipant[] = [];
+
+  const register = (entry: RegistryEntry) => {
+    registry.set(`${entry.subscriber_id}|${entry.ukId}`, entry);
+  };
+
+  const findParticipant = (subscriberId: string) =>
+    participants.find(p => p.buyer.subscriberId === subscriberId);
+
+  /**
+   * Send a callback after the configured delay
+   */
+  const scheduleCallback = (
+    request: ONDCContext,
+    action: ONDCCallbackAction,
+    participant: MockParticipant,
+    message: unknown
+  ) => {
+    const timer = setTimeout(async () => {
+      timers.delete(timer);
+
+      const context = createCallbackContext(request, action, {
+        subscriberId: participant.entry.subscriber_id,
+        subscriberUri: participant.entry.subscriber_url
+      });
+      const result = await sendOndcMessage(createEnvelope(context, message), { keys: participant.keys });
+
+      if (!result.success) {
+        console.warn(`[ONDC-MOCK] ${action} from ${participant.buyer.name} not acknowledged: ${result.error}`);
+      }
+    }, callbackDelayMs);
+
+    timers.add(timer);
+  };
+
+  const handleSearch = (context: ONDCContext, message: Record<string, unknown>, res: ServerResponse) => {
+    const intent = readSearchIntent(message);
+    if (!intent) {
+      sendJson(res, 400, createNack('JSON-SCHEMA-ERROR', '30000', 'Search intent must include an item with a price'));
+      return;
+    }
+
+    sendJson(res, 200, createAck());
+
+    // Buyers only answer searches from states they operate in
+    const responders = participants
+      .filter(p => p.buyer.verified)
+      .filter(p => !intent.sellerState || p.buyer.operatingStates.includes(intent.sellerState))
+      .slice(0, options.maxResponders ?? participants.length);
+
+    console.log(`[ONDC-MOCK] search ${context.transaction_id} -> ${responders.length} buyers`);
+
+    for (const participant of responders) {
+      const offer = createOffer(intent, participant.buyer);
+      offers.set(`${context.transaction_id}|${participant.buyer.subscriberId}`, offer);
+      scheduleCallback(context, 'on_search', participant, buildOnSearchMessage(offer));
+    }
+  };
+
+  const handleBppAction = (
+    subscriberId: string,
+    action: string,
+    context: ONDCContext,
+    message: Record<string, unknown>,
+    res: ServerResponse
+  ) => {
+    const participant = findParticipant(subscriberId);
+    const callbackAction = BPP_ACTIONS[action];
+
+    if (!participant || !callbackAction) {
+      sendJson(res, 404, createNack('CONTEXT-ERROR', '30001', `Unknown participant or action: ${subscriberId}/${action}`));
+      return;
+    }
+
+    const offer = offers.get(`${context.transaction_id}|${subscriberId}`);
+    if (!offer) {
+      sendJson(res, 400, createNack('CONTEXT-ERROR', '30004', 'No offer found for this transaction'));
+      return;
+    }
+
+    if (action === 'confirm') {
+      const orderId = (message.order as { id?: string } | undefined)?.id;
+      offer.orderId = orderId || `order-${Date.now()}`;
+    }
+
+    sendJson(res, 200, createAck());
+
+    const builders = {
+      on_select: buildOnSelectMessage,
+      on_init: buildOnInitMessage,
+      on_confirm: buildOnConfirmMessage
+    } as Record<ONDCCallbackAction, (terms: ONDCOrderTerms) => unknown>;
+
+    scheduleCallback(context, callbackAction, participant, builders[callbackAction](offer));
+  };
+
+  const server = createServer(async (req, res) => {
+    const path = (req.url || '/').split('?')[0];
+
+    try {
+      if (req.method === 'GET' && path === '/health') {
+        sendJson(res, 200, { status: 'ok', participants: participants.length });
+        return;
+      }
+
+      if (req.method !== 'POST') {
+        sendJson(res, 405, createNack('CONTEXT-ERROR', '30000', 'Method not allowed'));
+        return;
+      }
+
+      const rawBody = await readBody(req);
+      const body = JSON.parse(rawBody || '{}');
+
+      if (path === '/lookup') {
+        const query = body as LookupQuery;
+        const entries = [...registry.values()].filter(entry =>
+          (!query.subscriber_id || entry.subscriber_id === query.subscriber_id) &&
+          (!query.ukId || entry.ukId === query.ukId) &&
+          (!query.type || entry.type === query.type) &&
+          (!query.domain || entry.domain === query.domain)
+        );
+        sendJson(res, 200, entries);
+        return;
+      }
+
+      const parsed = ONDCEnvelopeSchema.safeParse(body);
+      if (!parsed.success) {
+        sendJson(res, 400, createNack('JSON-SCHEMA-ERROR', '30000', parsed.error.issues[0]?.message || 'Invalid envelope'));
+        return;
+      }
+
+      const authorization = req.headers.authorization;
+      if (authorization || options.requireSignatures) {
+        const verification = await verifyAuthorizationHeader(authorization, rawBody, (subscriberId, ukId) =>
+          registry.get(`${subscriberId}|${ukId}`)?.signing_public_key ?? null
+        );
+        if (!verification.valid) {
+          sendJson(res, 401, createNack('POLICY-ERROR', '10001', verification.error));
+          return;
+        }
+      }
+
+      const { context, message } = parsed.data;
+
+      if (path === '/search') {
+        handleSearch(context, message, res);
+        return;
+      }
+
+      const bppMatch = path.match(/^\/bpp\/([^/]+)\/([a-z_]+)$/);
+      if (bppMatch) {
+        handleBppAction(decodeURIComponent(bppMatch[1]), bppMatch[2], context, message, res);
+        return;
+      }
+
+      sendJson(res, 404, createNack('CONTEXT-ERROR', '30000', `Unknown endpoint: ${path}`));
+
+    } catch (error) {
+      console.error('[ONDC-MOCK] Request failed:', error);
+      sendJson(res, 500, createNack('CORE-ERROR', '50000', error instanceof Error ? error.message : 'Internal error'));
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? DEFAULT_PORT, host, () => resolve());
+  });
+
+  const { port } = server.address() as AddressInfo;
+  const baseUrl = `http://${host}:${port}`;
+
+  for (const buyer of BUYER_POOL) {
+    const keys: ONDCSigningKeys = { uniqueKeyId: 'UK-MOCK', ...generateSigningKeyPair() };
+    const entry = createRegistryEntry(
+      buyer.subscriberId,
+      `${baseUrl}/bpp/${encodeURIComponent(buyer.subscriberId)}`,
+      'BPP',
+      keys
+    );
+    participants.push({ buyer, entry, keys });
+    register(entry);
+  }
+
+  // Register our own gateway when signing keys are configured
+  const ownKeys = getSigningKeys();
+  if (ownKeys) {
+    const subscriber = getSubscriberConfig();
+    register(createRegistryEntry(subscriber.subscriberId, subscriber.subscriberUri, 'BAP', ownKeys));
+  }
+
+  for (const entry of options.participants || []) {
+    register(entry);
+  }
+
+  return {
+    url: baseUrl,
+    participants,
+    register,
+    stop: () => {
+      for (const timer of timers) {
+        clearTimeout(timer);
+      }
+      timers.clear();
+
+      return new Promise<void>((resolve, reject) => {
+        server.close(error => (error ? reject(error) : resolve()));
+      });
+    }
+  };
+}
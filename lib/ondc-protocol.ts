@@ -0,0 +1,1189 @@
+/**
+ * ONDC Protocol Module - Beckn/ONDC v1.2 Message Envelopes
+ *
+ * Builds the request and callback envelopes exchanged between network
+ * participants on the ONDC network. Every message carries a `context`
+ * block (domain, action, participant IDs, transaction and message IDs,
+ * timestamp and TTL) followed by an action-specific `message` body.
+ *
+ * TRANSACTION FLOW (as simulated by the gateway):
+ * - search     -> on_search   (catalog broadcast, buyer catalog responses)
+ * - select     -> on_select   (buyer quote for the listed lot)
+ * - init       -> on_init     (payment and fulfillment terms)
+ * - confirm    -> on_confirm  (order placed and accepted)
+ * - status     -> on_status   (order and fulfillment state; also sent
+ *                              unsolicited as the order is fulfilled)
+ * - update     -> on_update   (changes to a placed order, or to a
+ *                              broadcast listing)
+ *
+ * All builders are pure: IDs and timestamps are passed in by the caller so
+ * that the same inputs always produce the same envelope.
+ *
+ * Reference: ONDC Protocol Specification v1.2 (Agriculture domain AGR10)
+ *
+ * @module ondc-protocol
+ */
+
+import { z } from 'zod';
+import type { BecknCatalogItem, BecknTags } from './beckn-schema';
+
+// ============================================================================
+// PROTOCOL CONSTANTS
+// ============================================================================
+
+/**
+ * ONDC Domain for Agriculture (as per ONDC registry)
+ */
+export const ONDC_DOMAIN = 'ONDC:AGR10' as const;
+
+/**
+ * ONDC core protocol version
+ */
+export const ONDC_VERSION = '1.2.0' as const;
+
+/**
+ * Country code used in every context block
+ */
+export const ONDC_COUNTRY = 'IND' as const;
+
+/**
+ * Default message time-to-live (ISO 8601 duration)
+ */
+export const ONDC_DEFAULT_TTL = 'PT30S' as const;
+
+/**
+ * Actions initiated by our gateway
+ */
+export const ONDC_REQUEST_ACTIONS = ['search', 'select', 'init', 'confirm', 'status', 'update', 'cancel', 'issue', 'issue_status'] as const;
+
+/**
+ * Asynchronous callbacks sent back by counterparties
+ */
+export const ONDC_CALLBACK_ACTIONS = ['on_search', 'on_select', 'on_init', 'on_confirm', 'on_status', 'on_update', 'on_cancel', 'on_issue', 'on_issue_status'] as const;
+
+export type ONDCRequestAction = typeof ONDC_REQUEST_ACTIONS[number];
+export type ONDCCallbackAction = typeof ONDC_CALLBACK_ACTIONS[number];
+export type ONDCAction = ONDCRequestAction | ONDCCallbackAction;
+
+/**
+ * Maps each request action to the callback it expects
+ */
+export const ONDC_CALLBACK_FOR: Record<ONDCRequestAction, ONDCCallbackAction> = {
+  search: 'on_search',
+  select: 'on_select',
+  init: 'on_init',
+  confirm: 'on_confirm',
+  status: 'on_status',
+  update: 'on_update',
+  cancel: 'on_cancel',
+  issue: 'on_issue',
+  issue_status: 'on_issue_status'
+};
+
+/**
+ * ONDC fulfillment state codes for each stage of delivery, in order
+ */
+export const ONDC_FULFILLMENT_STATES = {
+  PACKED: 'Packed',
+  PICKED_UP: 'Order-picked-up',
+  IN_TRANSIT: 'In-transit',
+  DELIVERED: 'Order-delivered'
+} as const;
+
+export type ONDCFulfillmentStage = keyof typeof ONDC_FULFILLMENT_STATES;
+
+/**
+ * Who a cancellation reason is attributed to
+ */
+export type ONDCCancellationParty = 'SELLER' | 'BUYER' | 'LOGISTICS';
+
+/**
+ * ONDC cancellation reason codes used by the gateway
+ *
+ * Subset of the network's reason code list that applies to produce sales.
+ * The farmer is the seller; SELLER codes are the ones a farmer may give.
+ */
+export const ONDC_CANCELLATION_REASONS = {
+  '001': { description: 'Price of one or more items have changed due to which buyer was asked to make additional payment', initiatedBy: 'BUYER' },
+  '002': { description: 'One or more items in the Order not available', initiatedBy: 'SELLER' },
+  '003': { description: 'Product available at lower than order price', initiatedBy: 'BUYER' },
+  '005': { description: 'Merchant rejected the order', initiatedBy: 'SELLER' },
+  '006': { description: 'Order not shipped as per buyer app SLA', initiatedBy: 'BUYER' },
+  '010': { description: 'Buyer wants to modify address / other order details', initiatedBy: 'BUYER' },
+  '012': { description: 'Buyer does not want product any more', initiatedBy: 'BUYER' },
+  '017': { description: 'Delivery delayed or not possible', initiatedBy: 'LOGISTICS' },
+  '018': { description: 'Delivery pin code not serviceable', initiatedBy: 'LOGISTICS' },
+  '019': { description: 'Pickup pin code not serviceable', initiatedBy: 'LOGISTICS' }
+} as const satisfies Record<string, { description: string; initiatedBy: ONDCCancellationParty }>;
+
+export type ONDCCancellationReasonCode = keyof typeof ONDC_CANCELLATION_REASONS;
+
+/**
+ * Reason codes attributed to a party
+ */
+export function getCancellationReasonCodes(party: ONDCCancellationParty): ONDCCancellationReasonCode[] {
+  return (Object.keys(ONDC_CANCELLATION_REASONS) as ONDCCancellationReasonCode[])
+    .filter(code => ONDC_CANCELLATION_REASONS[code].initiatedBy === party);
+}
+
+/**
+ * Whether a string is a known cancellation reason code
+ */
+export function isCancellationReasonCode(code: string): code is ONDCCancellationReasonCode {
+  return Object.prototype.hasOwnProperty.call(ONDC_CANCELLATION_REASONS, code);
+}
+
+/**
+ * IGM issue categories for the complaints the gateway handles
+ *
+ * `raisedBy` is the side of the sale that may raise it; the farmer is the
+ * seller.
+ */
+export const ONDC_ISSUE_KINDS = {
+  QUALITY: { category: 'ITEM', subCategory: 'ITM04', shortDesc: 'Produce quality not as agreed', raisedBy: 'BUYER' },
+  SHORT_WEIGHT: { category: 'ITEM', subCategory: 'ITM02', shortDesc: 'Less produce delivered than ordered', raisedBy: 'BUYER' },
+  PAYMENT_NOT_RECEIVED: { category: 'PAYMENT', subCategory: 'PMT02', shortDesc: 'Payment for the order not received', raisedBy: 'SELLER' }
+} as const satisfies Record<string, { category: string; subCategory: string; shortDesc: string; raisedBy: 'SELLER' | 'BUYER' }>;
+
+export type ONDCIssueKind = keyof typeof ONDC_ISSUE_KINDS;
+
+/**
+ * IGM escalation levels (issue_type), lowest first
+ */
+export const ONDC_ISSUE_LEVELS = ['ISSUE', 'GRIEVANCE', 'DISPUTE'] as const;
+
+export type ONDCIssueLevel = typeof ONDC_ISSUE_LEVELS[number];
+
+/**
+ * IGM complainant and respondent actions used by the gateway
+ */
+export type ONDCIssueActionCode = 'OPEN' | 'ESCALATE' | 'CLOSE' | 'PROCESSING' | 'RESOLVED';
+
+/**
+ * IGM resolution actions (action_triggered)
+ */
+export type ONDCResolutionAction = 'REFUND' | 'REPLACEMENT' | 'CANCEL' | 'NO-ACTION';
+
+/**
+ * How long the respondent has to answer and to resolve an issue
+ */
+export const ONDC_ISSUE_RESPONSE_TIME = 'PT1H' as const;
+export const ONDC_ISSUE_RESOLUTION_TIME = 'P1D' as const;
+
+// ============================================================================
+// PARTICIPANT CONFIGURATION
+// ============================================================================
+
+/**
+ * Network participant identity of this gateway
+ */
+export interface ONDCSubscriberConfig {
+  /** Registered subscriber ID (FQDN) */
+  subscriberId: string;
+  /** Base URI where callbacks are received */
+  subscriberUri: string;
+  /** STD code of the operating city ("*" for all cities) */
+  cityCode: string;
+}
+
+/**
+ * Read the gateway's subscriber identity from the environment
+ */
+export function getSubscriberConfig(): ONDCSubscriberConfig {
+  return {
+    subscriberId: process.env.ONDC_SUBSCRIBER_ID || 'setu.voice.gateway',
+    subscriberUri: process.env.ONDC_SUBSCRIBER_URI || 'http://localhost:3001/api/ondc',
+    cityCode: process.env.ONDC_CITY_CODE || '*'
+  };
+}
+
+// ============================================================================
+// CONTEXT
+// ============================================================================
+
+/**
+ * ONDCContextSchema
+ *
+ * Validates the context block present on every ONDC message.
+ */
+export const ONDCContextSchema = z.object({
+  domain: z.string().min(1, "Domain is required"),
+  country: z.string().length(3, "Country must be 3-letter code"),
+  city: z.string().min(1, "City is required"),
+  action: z.string().min(1, "Action is required"),
+  core_version: z.string().min(1, "Core version is required"),
+  bap_id: z.string().min(1, "bap_id is required"),
+  bap_uri: z.string().min(1, "bap_uri is required"),
+  bpp_id: z.string().optional(),
+  bpp_uri: z.string().optional(),
+  transaction_id: z.string().min(1, "transaction_id is required"),
+  message_id: z.string().min(1, "message_id is required"),
+  timestamp: z.string().datetime({ message: "timestamp must be RFC3339" }),
+  ttl: z.string().optional()
+});
+
+export type ONDCContext = z.infer<typeof ONDCContextSchema>;
+
+/**
+ * ONDCEnvelopeSchema
+ *
+ * Validates the outer shape of any ONDC message (context + message body).
+ */
+export const ONDCEnvelopeSchema = z.object({
+  context: ONDCContextSchema,
+  message: z.record(z.string(), z.unknown()),
+  error: z.object({
+    type: z.string(),
+    code: z.string(),
+    message: z.string().optional()
+  }).optional()
+});
+
+/**
+ * Complete ONDC message envelope
+ */
+export interface ONDCEnvelope<TMessage = Record<string, unknown>> {
+  context: ONDCContext;
+  message: TMessage;
+}
+
+/**
+ * Options for building a context block
+ */
+export interface ContextOptions {
+  transactionId: string;
+  messageId: string;
+  timestamp?: Date;
+  ttl?: string;
+  /** Counterparty subscriber ID (omitted for gateway broadcasts) */
+  bppId?: string;
+  /** Counterparty callback URI */
+  bppUri?: string;
+  city?: string;
+}
+
+/**
+ * Build the context block for an outgoing request
+ */
+export function createOndcContext(action: ONDCAction, options: ContextOptions): ONDCContext {
+  const subscriber = getSubscriberConfig();
+
+  const context: ONDCContext = {
+    domain: ONDC_DOMAIN,
+    country: ONDC_COUNTRY,
+    city: options.city || subscriber.cityCode,
+    action,
+    core_version: ONDC_VERSION,
+    bap_id: subscriber.subscriberId,
+    bap_uri: subscriber.subscriberUri,
+    transaction_id: options.transactionId,
+    message_id: options.messageId,
+    timestamp: (options.timestamp || new Date()).toISOString(),
+    ttl: options.ttl || ONDC_DEFAULT_TTL
+  };
+
+  if (options.bppId) {
+    context.bpp_id = options.bppId;
+  }
+  if (options.bppUri) {
+    context.bpp_uri = options.bppUri;
+  }
+
+  return context;
+}
+
+/**
+ * Build the context block for a callback answering a request
+ *
+ * Callbacks reuse the transaction_id and message_id of the request they
+ * answer, and identify the responding participant in bpp_id/bpp_uri.
+ */
+export function createCallbackContext(
+  request: ONDCContext,
+  action: ONDCCallbackAction,
+  responder: { subscriberId: string; subscriberUri: string },
+  timestamp: Date = new Date()
+): ONDCContext {
+  return {
+    ...request,
+    action,
+    bpp_id: responder.subscriberId,
+    bpp_uri: responder.subscriberUri,
+    timestamp: timestamp.toISOString()
+  };
+}
+
+/**
+ * Wrap a message body with its context
+ */
+export function createEnvelope<TMessage>(context: ONDCContext, message: TMessage): ONDCEnvelope<TMessage> {
+  return { context, message };
+}
+
+/**
+ * Express a period in milliseconds as an ISO 8601 duration for context.ttl
+ */
+export function toTtlDuration(ms: number): string {
+  return `PT${Math.max(1, Math.round(ms / 1000))}S`;
+}
+
+/**
+ * Read an ISO 8601 duration such as PT30S, PT2M or P1DT6H in milliseconds
+ *
+ * @returns The duration, or null if it cannot be read
+ */
+export function durationToMs(duration: string | undefined): number | null {
+  const match = duration?.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+  if (!match || duration === 'P' || duration === 'PT') {
+    return null;
+  }
+
+  const [, days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  return ((Number(days) * 24 + Number(hours)) * 60 + Number(minutes)) * 60000 + Number(seconds) * 1000;
+}
+
+/**
+ * Time after which responses to a request are no longer accepted
+ *
+ * A request stays open for its ttl, counted from its timestamp.
+ */
+export function getResponseDeadline(request: ONDCContext): Date {
+  const ttlMs = durationToMs(request.ttl) ?? durationToMs(ONDC_DEFAULT_TTL)!;
+  return new Date(new Date(request.timestamp).getTime() + ttlMs);
+}
+
+// ============================================================================
+// MESSAGE BODIES
+// ============================================================================
+
+/**
+ * ONDC list-style tag group
+ */
+export interface ONDCTagGroup {
+  code: string;
+  list: { code: string; value: string }[];
+}
+
+/**
+ * Beckn price with stringified value
+ */
+export interface ONDCPrice {
+  currency: string;
+  value: string;
+}
+
+/**
+ * Commercial terms of a buyer offer, shared by every order-stage message
+ */
+export interface ONDCOrderTerms {
+  /** Catalog item ID (our catalog ID) */
+  itemId: string;
+  itemName: string;
+  quantity: number;
+  unit: string;
+  /** Offered price per unit */
+  pricePerUnit: number;
+  currency: string;
+  /** Buyer provider ID (subscriber ID) */
+  providerId: string;
+  providerName: string;
+  paymentTerms: string;
+  deliveryDays: number;
+  validityHours: number;
+  logisticsProvider?: string;
+  /** Order ID (assigned on confirm) */
+  orderId?: string;
+  /** Farmer display name for billing */
+  billingName?: string;
+}
+
+/**
+ * An issue as carried in IGM messages
+ */
+export interface ONDCIssueTerms {
+  issueId: string;
+  orderId: string;
+  kind: ONDCIssueKind;
+  description: string;
+  /** Subscriber ID of the participant that raised it */
+  complainantId: string;
+  complainantName: string;
+  level: ONDCIssueLevel;
+  createdAt: Date;
+}
+
+/**
+ * One complainant or respondent action on an issue
+ */
+export interface ONDCIssueAction {
+  role: 'COMPLAINANT' | 'RESPONDENT';
+  code: ONDCIssueActionCode;
+  shortDesc: string;
+  updatedAt: Date;
+  /** Subscriber ID of the participant that acted */
+  updatedBy: string;
+}
+
+/**
+ * Resolution proposed by the respondent
+ */
+export interface ONDCIssueResolution {
+  action: ONDCResolutionAction;
+  shortDesc: string;
+  refundAmount?: number;
+}
+
+/**
+ * Convert flat Beckn tags to ONDC tag groups
+ */
+export function toOndcTags(tags: BecknTags | undefined): ONDCTagGroup[] {
+  if (!tags) return [];
+
+  const list = Object.entries(tags)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([code, value]) => ({ code, value: String(value) }));
+
+  return list.length > 0 ? [{ code: 'attributes', list }] : [];
+}
+
+/**
+ * Format a number as a Beckn price
+ */
+function toOndcPrice(value: number, currency: string): ONDCPrice {
+  return { currency, value: value.toFixed(2) };
+}
+
+/**
+ * Express a number of days as an ISO 8601 duration
+ */
+function toDaysDuration(days: number): string {
+  return `P${days}D`;
+}
+
+/**
+ * Map free-text payment terms to ONDC payment types
+ */
+function toPaymentType(paymentTerms: string): string {
+  return /advance/i.test(paymentTerms) ? 'PRE-FULFILLMENT' : 'ON-FULFILLMENT';
+}
+
+/**
+ * The farmer's listing as carried in search and update messages
+ */
+function buildListedItem(catalogId: string, item: BecknCatalogItem) {
+  return {
+    id: catalogId,
+    descriptor: {
+      name: item.descriptor.name,
+      symbol: item.descriptor.symbol
+    },
+    price: toOndcPrice(item.price.value, item.price.currency),
+    quantity: {
+      available: {
+        count: item.quantity.available.count
+      },
+      unitized: {
+        measure: { unit: item.quantity.unit, value: String(item.quantity.available.count) }
+      }
+    },
+    tags: toOndcTags(item.tags)
+  };
+}
+
+/**
+ * search: broadcast the farmer's listing to the network
+ *
+ * The seller's state, when known, lets buyers that do not operate there
+ * skip the search. A pooled listing names the FPO selling it as the
+ * provider.
+ */
+export function buildSearchMessage(
+  catalogId: string,
+  item: BecknCatalogItem,
+  sellerState?: string,
+  provider?: { id: string; name: string }
+) {
+  return {
+    intent: {
+      ...(provider ? { provider: { id: provider.id, descriptor: { name: provider.name } } } : {}),
+      item: buildListedItem(catalogId, item),
+      fulfillment: {
+        type: 'Delivery',
+        ...(sellerState ? { start: { location: { address: { state: sellerState } } } } : {})
+      }
+    }
+  };
+}
+
+/**
+ * update: tell buyers a broadcast listing has been edited
+ *
+ * Carries the whole listing at its new revision, with the revision number
+ * and the changed fields in a "revision" tag group.
+ */
+export function buildCatalogUpdateMessage(catalogId: string, item: BecknCatalogItem, version: number, changedFields: string[]) {
+  const listed = buildListedItem(catalogId, item);
+
+  return {
+    update_target: 'item',
+    catalog: {
+      item: {
+        ...listed,
+        tags: [
+          ...listed.tags,
+          {
+            code: 'revision',
+            list: [
+              { code: 'version', value: String(version) },
+              { code: 'changed', value: changedFields.join(',') }
+            ]
+          }
+        ]
+      }
+    }
+  };
+}
+
+/**
+ * on_search: a buyer responds with its catalog entry for the listed lot
+ */
+export function buildOnSearchMessage(terms: ONDCOrderTerms) {
+  return {
+    catalog: {
+      'bpp/descriptor': {
+        name: terms.providerName
+      },
+      'bpp/providers': [
+        {
+          id: terms.providerId,
+          descriptor: { name: terms.providerName },
+          items: [
+            {
+              id: terms.itemId,
+              descriptor: { name: terms.itemName },
+              price: toOndcPrice(terms.pricePerUnit, terms.currency),
+              quantity: {
+                maximum: { count: terms.quantity },
+                unitized: {
+                  measure: { unit: terms.unit, value: String(terms.quantity) }
+                }
+              }
+            }
+          ],
+          fulfillments: [buildFulfillment(terms)],
+          payments: [{ type: toPaymentType(terms.paymentTerms) }],
+          time: {
+            range: {},
+            duration: `PT${terms.validityHours}H`
+          }
+        }
+      ]
+    }
+  };
+}
+
+/**
+ * Items section shared by order-stage messages
+ */
+function buildOrderItems(terms: ONDCOrderTerms) {
+  return [
+    {
+      id: terms.itemId,
+      quantity: { count: terms.quantity }
+    }
+  ];
+}
+
+/**
+ * Quote section shared by order-stage callbacks
+ */
+function buildQuote(terms: ONDCOrderTerms) {
+  const total = terms.pricePerUnit * terms.quantity;
+
+  return {
+    price: toOndcPrice(total, terms.currency),
+    breakup: [
+      {
+        '@ondc/org/item_id': terms.itemId,
+        '@ondc/org/item_quantity': { count: terms.quantity },
+        title: terms.itemName,
+        '@ondc/org/title_type': 'item',
+        price: toOndcPrice(total, terms.currency),
+        item: { price: toOndcPrice(terms.pricePerUnit, terms.currency) }
+      }
+    ],
+    ttl: `PT${terms.validityHours}H`
+  };
+}
+
+/**
+ * Fulfillment section shared by order-stage messages
+ */
+function buildFulfillment(terms: ONDCOrderTerms) {
+  return {
+    id: 'F1',
+    type: 'Delivery',
+    '@ondc/org/provider_name': terms.logisticsProvider || terms.providerName,
+    '@ondc/org/TAT': toDaysDuration(terms.deliveryDays)
+  };
+}
+
+/**
+ * select: choose the buyer's offer
+ *
+ * When the farmer counters, the select carries a quote at the asking
+ * price and the buyer answers on_select with the price it will pay.
+ */
+export function buildSelectMessage(terms: ONDCOrderTerms, askingPrice?: number) {
+  return {
+    order: {
+      provider: { id: terms.providerId },
+      items: buildOrderItems(terms),
+      ...(askingPrice !== undefined && { quote: buildQuote({ ...terms, pricePerUnit: askingPrice }) })
+    }
+  };
+}
+
+/**
+ * on_select: buyer quotes its price for the selected lot
+ */
+export function buildOnSelectMessage(terms: ONDCOrderTerms) {
+  return {
+    order: {
+      provider: { id: terms.providerId },
+      items: buildOrderItems(terms),
+      fulfillments: [buildFulfillment(terms)],
+      quote: buildQuote(terms)
+    }
+  };
+}
+
+/**
+ * init: propose billing, fulfillment and payment details
+ */
+export function buildInitMessage(terms: ONDCOrderTerms) {
+  return {
+    order: {
+      provider: { id: terms.providerId },
+      items: buildOrderItems(terms),
+      billing: { name: terms.billingName || 'Farmer' },
+      fulfillments: [buildFulfillment(terms)],
+      payment: { type: toPaymentType(terms.paymentTerms) }
+    }
+  };
+}
+
+/**
+ * on_init: buyer returns the final quote and payment terms
+ */
+export function buildOnInitMessage(terms: ONDCOrderTerms) {
+  return {
+    order: {
+      provider: { id: terms.providerId },
+      items: buildOrderItems(terms),
+      fulfillments: [buildFulfillment(terms)],
+      quote: buildQuote(terms),
+      payment: {
+        type: toPaymentType(terms.paymentTerms),
+        collected_by: 'BAP',
+        '@ondc/org/settlement_basis': 'delivery',
+        '@ondc/org/settlement_window': 'P1D'
+      }
+    }
+  };
+}
+
+/**
+ * confirm: place the order
+ */
+export function buildConfirmMessage(terms: ONDCOrderTerms) {
+  return {
+    order: {
+      id: terms.orderId,
+      state: 'Created',
+      provider: { id: terms.providerId },
+      items: buildOrderItems(terms),
+      billing: { name: terms.billingName || 'Farmer' },
+      fulfillments: [buildFulfillment(terms)],
+      quote: buildQuote(terms),
+      payment: {
+        type: toPaymentType(terms.paymentTerms),
+        status: 'NOT-PAID'
+      }
+    }
+  };
+}
+
+/**
+ * on_confirm: buyer accepts the order
+ */
+export function buildOnConfirmMessage(terms: ONDCOrderTerms) {
+  return {
+    order: {
+      id: terms.orderId,
+      state: 'Accepted',
+      provider: { id: terms.providerId },
+      items: buildOrderItems(terms),
+      fulfillments: [{ ...buildFulfillment(terms), state: { descriptor: { code: 'Pending' } } }],
+      quote: buildQuote(terms),
+      payment: {
+        type: toPaymentType(terms.paymentTerms),
+        status: 'NOT-PAID'
+      }
+    }
+  };
+}
+
+/**
+ * on_status: buyer reports how far the order's fulfillment has got
+ *
+ * Sent unsolicited as each stage is reached; the order completes on
+ * delivery.
+ */
+export function buildOnStatusMessage(terms: ONDCOrderTerms, stage: ONDCFulfillmentStage, updatedAt: Date) {
+  const delivered = stage === 'DELIVERED';
+
+  return {
+    order: {
+      id: terms.orderId,
+      state: delivered ? 'Completed' : 'In-progress',
+      provider: { id: terms.providerId },
+      items: buildOrderItems(terms),
+      fulfillments: [{ ...buildFulfillment(terms), state: { descriptor: { code: ONDC_FULFILLMENT_STATES[stage] } } }],
+      quote: buildQuote(terms),
+      payment: {
+        type: toPaymentType(terms.paymentTerms),
+        status: delivered ? 'PAID' : 'NOT-PAID'
+      },
+      updated_at: updatedAt.toISOString()
+    }
+  };
+}
+
+/**
+ * cancel: withdraw from a confirmed order
+ */
+export function buildCancelMessage(orderId: string, reasonCode: ONDCCancellationReasonCode) {
+  return {
+    order_id: orderId,
+    cancellation_reason_id: reasonCode,
+    descriptor: { short_desc: ONDC_CANCELLATION_REASONS[reasonCode].description }
+  };
+}
+
+/**
+ * on_cancel: the order has been cancelled
+ *
+ * Sent in answer to our cancel, or unsolicited when the buyer cancels.
+ *
+ * @param cancelledBy - Subscriber ID of the participant that cancelled
+ */
+export function buildOnCancelMessage(terms: ONDCOrderTerms, reasonCode: ONDCCancellationReasonCode, cancelledBy: string) {
+  return {
+    order: {
+      id: terms.orderId,
+      state: 'Cancelled',
+      provider: { id: terms.providerId },
+      items: buildOrderItems(terms),
+      fulfillments: [{ ...buildFulfillment(terms), state: { descriptor: { code: 'Cancelled' } } }],
+      quote: buildQuote(terms),
+      cancellation: {
+        cancelled_by: cancelledBy,
+        reason: { id: reasonCode }
+      }
+    }
+  };
+}
+
+/**
+ * Issue section shared by IGM messages
+ *
+ * Carries the action being reported, if any, in complainant_actions or
+ * respondent_actions.
+ */
+function buildIssue(terms: ONDCIssueTerms, action?: ONDCIssueAction, resolution?: ONDCIssueResolution) {
+  const { category, subCategory, shortDesc } = ONDC_ISSUE_KINDS[terms.kind];
+  const actionEntry = action && {
+    [action.role === 'COMPLAINANT' ? 'complainant_action' : 'respondent_action']: action.code,
+    short_desc: action.shortDesc,
+    updated_at: action.updatedAt.toISOString(),
+    updated_by: { org: { name: action.updatedBy } }
+  };
+
+  return {
+    id: terms.issueId,
+    category,
+    sub_category: subCategory,
+    complainant_info: {
+      person: { name: terms.complainantName },
+      subscriber_id: terms.complainantId
+    },
+    order_details: { id: terms.orderId },
+    description: { short_desc: shortDesc, long_desc: terms.description },
+    expected_response_time: { duration: ONDC_ISSUE_RESPONSE_TIME },
+    expected_resolution_time: { duration: ONDC_ISSUE_RESOLUTION_TIME },
+    status: action?.code === 'CLOSE' ? 'CLOSED' : 'OPEN',
+    issue_type: terms.level,
+    issue_actions: {
+      complainant_actions: action?.role === 'COMPLAINANT' ? [actionEntry] : [],
+      respondent_actions: action?.role === 'RESPONDENT' ? [actionEntry] : []
+    },
+    ...(resolution && {
+      resolution: {
+        short_desc: resolution.shortDesc,
+        action_triggered: resolution.action,
+        ...(resolution.refundAmount !== undefined && { refund_amount: resolution.refundAmount.toFixed(2) })
+      }
+    }),
+    created_at: terms.createdAt.toISOString(),
+    updated_at: (action?.updatedAt ?? terms.createdAt).toISOString()
+  };
+}
+
+/**
+ * issue: raise, escalate or close an issue, or report our response to one
+ */
+export function buildIssueMessage(terms: ONDCIssueTerms, action: ONDCIssueAction, resolution?: ONDCIssueResolution) {
+  return { issue: buildIssue(terms, action, resolution) };
+}
+
+/**
+ * on_issue / on_issue_status: the counterparty's view of an issue
+ *
+ * Carries the counterparty's latest action, or none when it has nothing
+ * new to report. Also sent unsolicited when a buyer raises an issue.
+ */
+export function buildOnIssueMessage(terms: ONDCIssueTerms, action?: ONDCIssueAction, resolution?: ONDCIssueResolution) {
+  return { issue: buildIssue(terms, action, resolution) };
+}
+
+/**
+ * issue_status: ask the respondent where an issue stands
+ */
+export function buildIssueStatusMessage(issueId: string) {
+  return { issue_id: issueId };
+}
+
+// ============================================================================
+// MESSAGE PARSING
+// ============================================================================
+
+/**
+ * ONDCOnSearchMessageSchema
+ *
+ * Validates the parts of an on_search catalog needed to read buyer offers.
+ */
+export const ONDCOnSearchMessageSchema = z.object({
+  catalog: z.object({
+    "bpp/providers": z.array(z.object({
+      id: z.string().min(1, "Provider id is required"),
+      descriptor: z.object({ name: z.string() }),
+      items: z.array(z.object({
+        id: z.string().min(1, "Item id is required"),
+        descriptor: z.object({ name: z.string() }),
+        price: z.object({
+          currency: z.string(),
+          value: z.string().regex(/^\d+(\.\d+)?$/, "Price must be a decimal string")
+        }),
+        quantity: z.object({
+          maximum: z.object({ count: z.number() }),
+          unitized: z.object({ measure: z.object({ unit: z.string() }) }).optional()
+        }).optional()
+      })).min(1, "Provider must list at least one item"),
+      fulfillments: z.array(z.object({ "@ondc/org/TAT": z.string().optional() })).optional(),
+      payments: z.array(z.object({ type: z.string() })).optional(),
+      time: z.object({ duration: z.string().optional() }).optional()
+    })).min(1, "Catalog must include at least one provider")
+  })
+});
+
+/**
+ * Read a whole number from an ISO 8601 duration such as P3D or PT48H
+ */
+function fromDuration(duration: string | undefined, pattern: RegExp, fallback: number): number {
+  const match = duration?.match(pattern);
+  return match ? Number(match[1]) : fallback;
+}
+
+/**
+ * Read buyer offers for an item from an on_search message
+ *
+ * Inverse of buildOnSearchMessage: each provider listing the item becomes
+ * one set of order terms.
+ *
+ * @param message - The on_search message body
+ * @param itemId - Our catalog ID (offers for other items are ignored)
+ * @returns The offers, or null if the message is malformed
+ */
+export function readOnSearchOffers(message: unknown, itemId: string): ONDCOrderTerms[] | null {
+  const parsed = ONDCOnSearchMessageSchema.safeParse(message);
+  if (!parsed.success) {
+    return null;
+  }
+
+  return parsed.data.catalog["bpp/providers"].flatMap(provider =>
+    provider.items
+      .filter(item => item.id === itemId)
+      .map(item => ({
+        itemId: item.id,
+        itemName: item.descriptor.name,
+        quantity: item.quantity?.maximum.count ?? 0,
+        unit: item.quantity?.unitized?.measure.unit || "kg",
+        pricePerUnit: Number(item.price.value),
+        currency: item.price.currency,
+        providerId: provider.id,
+        providerName: provider.descriptor.name,
+        paymentTerms: provider.payments?.[0]?.type === "PRE-FULFILLMENT" ? "Advance Payment" : "Payment on Delivery",
+        deliveryDays: fromDuration(provider.fulfillments?.[0]?.["@ondc/org/TAT"], /^P(\d+)D$/, 0),
+        validityHours: fromDuration(provider.time?.duration, /^PT(\d+)H$/, 24)
+      }))
+  );
+}
+
+/**
+ * ONDCOrderStatusMessageSchema
+ *
+ * Validates the parts of an on_status or on_update order needed to track
+ * its fulfillment.
+ */
+export const ONDCOrderStatusMessageSchema = z.object({
+  order: z.object({
+    id: z.string().min(1, "Order id is required"),
+    state: z.string().optional(),
+    fulfillments: z.array(z.object({
+      "@ondc/org/provider_name": z.string().optional(),
+      state: z.object({ descriptor: z.object({ code: z.string() }) }).optional()
+    })).optional(),
+    updated_at: z.string().optional()
+  })
+});
+
+/**
+ * Fulfillment progress reported for an order
+ */
+export interface ONDCOrderFulfillment {
+  orderId: string;
+  /** Stage reached (undefined for states before packing, e.g. Pending) */
+  stage?: ONDCFulfillmentStage;
+  logisticsProvider?: string;
+  updatedAt?: Date;
+}
+
+/**
+ * Read an order's fulfillment stage from an on_status or on_update message
+ *
+ * Inverse of buildOnStatusMessage.
+ *
+ * @param message - The on_status/on_update message body
+ * @returns The reported progress, or null if the message is malformed
+ */
+export function readOrderFulfillment(message: unknown): ONDCOrderFulfillment | null {
+  const parsed = ONDCOrderStatusMessageSchema.safeParse(message);
+  if (!parsed.success) {
+    return null;
+  }
+
+  const { order } = parsed.data;
+  const fulfillment = order.fulfillments?.[0];
+  const code = fulfillment?.state?.descriptor.code;
+  const stage = (Object.keys(ONDC_FULFILLMENT_STATES) as ONDCFulfillmentStage[])
+    .find(key => ONDC_FULFILLMENT_STATES[key] === code);
+
+  return {
+    orderId: order.id,
+    stage,
+    logisticsProvider: fulfillment?.["@ondc/org/provider_name"],
+    updatedAt: order.updated_at ? new Date(order.updated_at) : undefined
+  };
+}
+
+/**
+ * ONDCOrderCancellationMessageSchema
+ *
+ * Validates the parts of an on_cancel order needed to record the
+ * cancellation.
+ */
+export const ONDCOrderCancellationMessageSchema = z.object({
+  order: z.object({
+    id: z.string().min(1, "Order id is required"),
+    state: z.literal("Cancelled"),
+    cancellation: z.object({
+      cancelled_by: z.string().min(1, "Cancelling participant is required"),
+      reason: z.object({ id: z.string().min(1, "Reason code is required") })
+    })
+  })
+});
+
+/**
+ * Cancellation reported for an order
+ */
+export interface ONDCOrderCancellation {
+  orderId: string;
+  /** Subscriber ID of the participant that cancelled */
+  cancelledBy: string;
+  reasonCode: string;
+}
+
+/**
+ * Read a cancellation from an on_cancel message
+ *
+ * Inverse of buildOnCancelMessage.
+ *
+ * @param message - The on_cancel message body
+ * @returns The cancellation, or null if the message is malformed
+ */
+export function readOrderCancellation(message: unknown): ONDCOrderCancellation | null {
+  const parsed = ONDCOrderCancellationMessageSchema.safeParse(message);
+  if (!parsed.success) {
+    return null;
+  }
+
+  const { order } = parsed.data;
+
+  return {
+    orderId: order.id,
+    cancelledBy: order.cancellation.cancelled_by,
+    reasonCode: order.cancellation.reason.id
+  };
+}
+
+/**
+ * ONDCIssueMessageSchema
+ *
+ * Validates the parts of an on_issue or on_issue_status message needed to
+ * record an issue and its latest action.
+ */
+const ONDCIssueActionEntrySchema = z.object({
+  short_desc: z.string().optional(),
+  updated_at: z.string(),
+  updated_by: z.object({ org: z.object({ name: z.string() }) })
+});
+
+export const ONDCIssueMessageSchema = z.object({
+  issue: z.object({
+    id: z.string().min(1, "Issue id is required"),
+    sub_category: z.string(),
+    complainant_info: z.object({
+      person: z.object({ name: z.string() }),
+      subscriber_id: z.string().min(1, "Complainant is required")
+    }),
+    order_details: z.object({ id: z.string().min(1, "Order id is required") }),
+    description: z.object({ short_desc: z.string(), long_desc: z.string().optional() }),
+    issue_type: z.enum(ONDC_ISSUE_LEVELS),
+    issue_actions: z.object({
+      complainant_actions: z.array(ONDCIssueActionEntrySchema.extend({
+        complainant_action: z.enum(['OPEN', 'ESCALATE', 'CLOSE'])
+      })).optional(),
+      respondent_actions: z.array(ONDCIssueActionEntrySchema.extend({
+        respondent_action: z.enum(['PROCESSING', 'RESOLVED'])
+      })).optional()
+    }),
+    resolution: z.object({
+      short_desc: z.string(),
+      action_triggered: z.enum(['REFUND', 'REPLACEMENT', 'CANCEL', 'NO-ACTION']),
+      refund_amount: z.string().optional()
+    }).optional(),
+    created_at: z.string()
+  })
+});
+
+/**
+ * An issue read from an IGM callback
+ */
+export interface ONDCIssueUpdate {
+  terms: Omit<ONDCIssueTerms, 'kind'> & { kind?: ONDCIssueKind };
+  /** Latest action reported, if any */
+  action?: ONDCIssueAction;
+  resolution?: ONDCIssueResolution;
+}
+
+/**
+ * Read an issue and its latest action from an on_issue or on_issue_status message
+ *
+ * Inverse of buildOnIssueMessage. Issues in categories the gateway does not
+ * handle are read with no kind.
+ *
+ * @param message - The on_issue/on_issue_status message body
+ * @returns The issue, or null if the message is malformed
+ */
+export function readIssueUpdate(message: unknown): ONDCIssueUpdate | null {
+  const parsed = ONDCIssueMessageSchema.safeParse(message);
+  if (!parsed.success) {
+    return null;
+  }
+
+  const { issue } = parsed.data;
+  const kind = (Object.keys(ONDC_ISSUE_KINDS) as ONDCIssueKind[])
+    .find(key => ONDC_ISSUE_KINDS[key].subCategory === issue.sub_category);
+  const complainantAction = issue.issue_actions.complainant_actions?.at(-1);
+  const respondentAction = issue.issue_actions.respondent_actions?.at(-1);
+  const latest = complainantAction
+    ? { role: 'COMPLAINANT' as const, code: complainantAction.complainant_action, entry: complainantAction }
+    : respondentAction
+      ? { role: 'RESPONDENT' as const, code: respondentAction.respondent_action, entry: respondentAction }
+      : undefined;
+
+  return {
+    terms: {
+      issueId: issue.id,
+      orderId: issue.order_details.id,
+      kind,
+      description: issue.description.long_desc || issue.description.short_desc,
+      complainantId: issue.complainant_info.subscriber_id,
+      complainantName: issue.complainant_info.person.name,
+      level: issue.issue_type,
+      createdAt: new Date(issue.created_at)
+    },
+    action: latest && {
+      role: latest.role,
+      code: latest.code,
+      shortDesc: latest.entry.short_desc || '',
+      updatedAt: new Date(latest.entry.updated_at),
+      updatedBy: latest.entry.updated_by.org.name
+    },
+    resolution: issue.resolution && {
+      action: issue.resolution.action_triggered,
+      shortDesc: issue.resolution.short_desc,
+      refundAmount: issue.resolution.refund_amount ? Number(issue.resolution.refund_amount) : undefined
+    }
+  };
+}
+
+// ============================================================================
+// ACKNOWLEDGEMENTS
+// ============================================================================
+
+/**
+ * Synchronous response to any ONDC request or callback
+ */
+export interface ONDCAckResponse {
+  message: {
+    ack: { status: 'ACK' | 'NACK' };
+  };
+  error?: {
+    type: string;
+    code: string;
+    message?: string;
+  };
+}
+
+/**
+ * Positive acknowledgement: the message was accepted for processing
+ */
+export function createAck(): ONDCAckResponse {
+  return { message: { ack: { status: 'ACK' } } };
+}
+
+/**
+ * Negative acknowledgement with an ONDC error
+ *
+ * @param type - Error type (e.g. CONTEXT-ERROR, JSON-SCHEMA-ERROR, POLICY-ERROR)
+ * @param code - ONDC error code
+ * @param message - Human readable reason
+ */
+export function createNack(type: string, code: string, message?: string): ONDCAckResponse {
+  return {
+    message: { ack: { status: 'NACK' } },
+    error: { type, code, message }
+  };
+}
@@ -0,0 +1,361 @@
+/**
+ * ONDC Signing Module - Ed25519 Request Authentication
+ *
+ * Implements the ONDC authorization scheme used between network
+ * participants:
+ * 1. The request body is hashed with BLAKE2b-512 (the "BLAKE-512" digest)
+ * 2. A signing string is built from the created/expires timestamps and digest
+ * 3. The signing string is signed with the participant's Ed25519 private key
+ * 4. The result is sent in the `Authorization` header:
+ *
+ *    Signature keyId="{subscriber_id}|{unique_key_id}|ed25519",
+ *      algorithm="ed25519",created="...",expires="...",
+ *      headers="(created) (expires) digest",signature="..."
+ *
+ * Receivers look up the sender's public key (normally from the ONDC
+ * registry) and verify the signature before trusting a callback.
+ *
+ * Keys are raw Ed25519 keys encoded as base64, the same format the ONDC
+ * registry publishes. Generate a local pair with `npm run ondc:keygen`.
+ *
+ * @module ondc-signing
+ */
+
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  verify,
+  type KeyObject
+} from 'crypto';
+import { getSubscriberConfig } from './ondc-protocol';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Signature algorithm advertised in the header
+ */
+const SIGNING_ALGORITHM = 'ed25519' as const;
+
+/**
+ * Headers covered by the signature
+ */
+const SIGNED_HEADERS = '(created) (expires) digest' as const;
+
+/**
+ * Default validity of a signature in seconds
+ */
+const DEFAULT_SIGNATURE_TTL_SECONDS = 300;
+
+/**
+ * DER prefixes for wrapping raw Ed25519 keys (PKCS#8 and SPKI)
+ */
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+// ============================================================================
+// KEY MANAGEMENT
+// ============================================================================
+
+/**
+ * Signing keys of a network participant
+ */
+export interface ONDCSigningKeys {
+  /** Unique key ID registered with the ONDC registry */
+  uniqueKeyId: string;
+  /** Base64 raw Ed25519 private key (32-byte seed or 64-byte libsodium key) */
+  privateKey: string;
+  /** Base64 raw Ed25519 public key (32 bytes) */
+  publicKey: string;
+}
+
+/**
+ * Read the gateway's signing keys from the environment
+ *
+ * @returns The configured keys, or null if signing is not configured
+ */
+export function getSigningKeys(): ONDCSigningKeys | null {
+  const privateKey = process.env.ONDC_SIGNING_PRIVATE_KEY;
+  const publicKey = process.env.ONDC_SIGNING_PUBLIC_KEY;
+
+  if (!privateKey || !publicKey) {
+    return null;
+  }
+
+  return {
+    uniqueKeyId: process.env.ONDC_UNIQUE_KEY_ID || 'UK-1',
+    privateKey,
+    publicKey
+  };
+}
+
+/**
+ * Generate a new Ed25519 key pair in ONDC registry format
+ */
+export function generateSigningKeyPair(): { privateKey: string; publicKey: string } {
+  const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+
+  const privateDer = privateKey.export({ format: 'der', type: 'pkcs8' });
+  const publicDer = publicKey.export({ format: 'der', type: 'spki' });
+
+  return {
+    privateKey: privateDer.subarray(ED25519_PKCS8_PREFIX.length).toString('base64'),
+    publicKey: publicDer.subarray(ED25519_SPKI_PREFIX.length).toString('base64')
+  };
+}
+
+/**
+ * Import a base64 raw private key
+ */
+function importPrivateKey(base64Key: string): KeyObject {
+  const raw = Buffer.from(base64Key, 'base64');
+  // libsodium keys are seed || public key; only the seed is needed
+  const seed = raw.length === 64 ? raw.subarray(0, 32) : raw;
+
+  if (seed.length !== 32) {
+    throw new Error('Invalid Ed25519 private key length');
+  }
+
+  return createPrivateKey({
+    key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]),
+    format: 'der',
+    type: 'pkcs8'
+  });
+}
+
+/**
+ * Import a base64 raw public key
+ */
+function importPublicKey(base64Key: string): KeyObject {
+  const raw = Buffer.from(base64Key, 'base64');
+
+  if (raw.length !== 32) {
+    throw new Error('Invalid Ed25519 public key length');
+  }
+
+  return createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, raw]),
+    format: 'der',
+    type: 'spki'
+  });
+}
+
+// ============================================================================
+// SIGNING
+// ============================================================================
+
+/**
+ * Compute the BLAKE-512 digest of a request body (base64)
+ */
+export function createDigest(body: string): string {
+  return createHash('blake2b512').update(body, 'utf8').digest('base64');
+}
+
+/**
+ * Build the string that is signed for a request
+ */
+export function createSigningString(digest: string, created: number, expires: number): string {
+  return `(created): ${created}\n(expires): ${expires}\ndigest: BLAKE-512=${digest}`;
+}
+
+/**
+ * Options for signing a request body
+ */
+export interface SignOptions {
+  /** Keys to sign with (defaults to configured keys) */
+  keys?: ONDCSigningKeys;
+  /** Subscriber ID placed in keyId (defaults to configured subscriber) */
+  subscriberId?: string;
+  /** Creation time in unix seconds (defaults to now) */
+  created?: number;
+  /** Signature validity in seconds */
+  ttlSeconds?: number;
+}
+
+/**
+ * Build the ONDC Authorization header for an outgoing request body
+ *
+ * @param body - The exact JSON string that will be sent
+ * @param options - Optional keys, subscriber and timing overrides
+ * @returns The Authorization header value
+ * @throws Error if no signing keys are configured
+ */
+export function createAuthorizationHeader(body: string, options: SignOptions = {}): string {
+  const keys = options.keys || getSigningKeys();
+
+  if (!keys) {
+    throw new Error('ONDC signing keys are not configured');
+  }
+
+  const subscriberId = options.subscriberId || getSubscriberConfig().subscriberId;
+  const created = options.created ?? Math.floor(Date.now() / 1000);
+  const expires = created + (options.ttlSeconds ?? DEFAULT_SIGNATURE_TTL_SECONDS);
+
+  const signingString = createSigningString(createDigest(body), created, expires);
+  const signature = sign(null, Buffer.from(signingString, 'utf8'), importPrivateKey(keys.privateKey)).toString('base64');
+
+  return [
+    `Signature keyId="${subscriberId}|${keys.uniqueKeyId}|${SIGNING_ALGORITHM}"`,
+    `algorithm="${SIGNING_ALGORITHM}"`,
+    `created="${created}"`,
+    `expires="${expires}"`,
+    `headers="${SIGNED_HEADERS}"`,
+    `signature="${signature}"`
+  ].join(',');
+}
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+/**
+ * Parsed ONDC Authorization header
+ */
+export interface ParsedAuthorizationHeader {
+  subscriberId: string;
+  uniqueKeyId: string;
+  algorithm: string;
+  created: number;
+  expires: number;
+  headers: string;
+  signature: string;
+}
+
+/**
+ * Parse an ONDC Authorization header
+ *
+ * @returns The parsed header, or null if it is malformed
+ */
+export function parseAuthorizationHeader(header: string): ParsedAuthorizationHeader | null {
+  if (!header || !header.startsWith('Signature ')) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  const pattern = /(\w+)="([^"]*)"/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(header)) !== null) {
+    params[match[1]] = match[2];
+  }
+
+  const [subscriberId, uniqueKeyId, keyAlgorithm] = (params.keyId || '').split('|');
+  const created = Number(params.created);
+  const expires = Number(params.expires);
+
+  if (!subscriberId || !uniqueKeyId || !params.signature || !Number.isFinite(created) || !Number.isFinite(expires)) {
+    return null;
+  }
+
+  return {
+    subscriberId,
+    uniqueKeyId,
+    algorithm: params.algorithm || keyAlgorithm || '',
+    created,
+    expires,
+    headers: params.headers || SIGNED_HEADERS,
+    signature: params.signature
+  };
+}
+
+/**
+ * Looks up a participant's base64 public key (e.g. from the registry)
+ */
+export type PublicKeyResolver = (
+  subscriberId: string,
+  uniqueKeyId: string
+) => Promise<string | null> | string | null;
+
+/**
+ * Result of verifying an Authorization header
+ */
+export interface SignatureVerificationResult {
+  valid: boolean;
+  subscriberId?: string;
+  error?: string;
+}
+
+/**
+ * Verify the Authorization header of an incoming request
+ *
+ * @param header - The Authorization header value
+ * @param body - The raw request body exactly as received
+ * @param resolvePublicKey - Resolves the sender's public key
+ * @param nowSeconds - Current time in unix seconds (for testing)
+ * @returns Verification result with the authenticated subscriber ID
+ */
+export async function verifyAuthorizationHeader(
+  header: string | null | undefined,
+  body: string,
+  resolvePublicKey: PublicKeyResolver,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): Promise<SignatureVerificationResult> {
+  const parsed = header ? parseAuthorizationHeader(header) : null;
+
+  if (!parsed) {
+    return { valid: false, error: 'Missing or malformed Authorization header' };
+  }
+
+  if (parsed.algorithm !== SIGNING_ALGORITHM) {
+    return { valid: false, subscriberId: parsed.subscriberId, error: `Unsupported algorithm: ${parsed.algorithm}` };
+  }
+
+  if (parsed.created > nowSeconds + 60 || parsed.expires < nowSeconds) {
+    return { valid: false, subscriberId: parsed.subscriberId, error: 'Signature expired or not yet valid' };
+  }
+
+  try {
+    const publicKey = await resolvePublicKey(parsed.subscriberId, parsed.uniqueKeyId);
+
+    if (!publicKey) {
+      return { valid: false, subscriberId: parsed.subscriberId, error: 'Unknown subscriber or key ID' };
+    }
+
+    const signingString = createSigningString(createDigest(body), parsed.created, parsed.expires);
+    const valid = verify(
+      null,
+      Buffer.from(signingString, 'utf8'),
+      importPublicKey(publicKey),
+      Buffer.from(parsed.signature, 'base64')
+    );
+
+    return valid
+      ? { valid: true, subscriberId: parsed.subscriberId }
+      : { valid: false, subscriberId: parsed.subscriberId, error: 'Signature verification failed' };
+
+  } catch (error) {
+    console.warn('[ONDC-AUTH] Signature verification error:', error);
+    return {
+      valid: false,
+      subscriberId: parsed.subscriberId,
+      error: error instanceof Error ? error.message : 'Signature verification error'
+    };
+  }
+}
+
+/**
+ * Resolver backed by a fixed set of known participants
+ *
+ * Keys of `known` are "subscriber_id|unique_key_id". The gateway's own
+ * configured key is always included, so locally signed messages can be
+ * verified end to end without the live registry.
+ */
+export function createStaticKeyResolver(known: Record<string, string> = {}): PublicKeyResolver {
+  return (subscriberId, uniqueKeyId) => {
+    const entry = known[`${subscriberId}|${uniqueKeyId}`];
+    if (entry) {
+      return entry;
+    }
+
+    const keys = getSigningKeys();
+    if (keys && subscriberId === getSubscriberConfig().subscriberId && uniqueKeyId === keys.uniqueKeyId) {
+      return keys.publicKey;
+    }
+
+    return null;
+  };
+}
@@ -0,0 +1,203 @@
+/**
+ * Order Lifecycle Module - Bid and Order State Machines
+ *
+ * Bids and orders are persisted as first-class records so they can be
+ * queried directly. Their status only moves along legal transitions:
+ *
+ * Bid:   RECEIVED -> ACCEPTED | REJECTED | COUNTERED | EXPIRED
+ *
+ * Order: BID_ACCEPTED -> ORDER_CONFIRMED -> FULFILLED
+ *             |                |
+ *             +----------------+--> CANCELLED
+ *
+ * Every other state is terminal. Transitions are applied with a
+ * compare-and-set on the current status, so two concurrent updates
+ * cannot both succeed.
+ *
+ * @module order-lifecycle
+ */
+
+import { prisma } from './db';
+import type { Bid, BidStatus, CancellationInitiator, Order, OrderStatus, Prisma } from './generated-client/client';
+
+// ============================================================================
+// TRANSITIONS
+// ============================================================================
+
+/**
+ * Legal next states of a bid
+ */
+export const BID_TRANSITIONS: Record<BidStatus, readonly BidStatus[]> = {
+  RECEIVED: ['ACCEPTED', 'REJECTED', 'COUNTERED', 'EXPIRED'],
+  ACCEPTED: [],
+  REJECTED: [],
+  COUNTERED: [],
+  EXPIRED: []
+};
+
+/**
+ * Legal next states of an order
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  BID_ACCEPTED: ['ORDER_CONFIRMED', 'CANCELLED'],
+  ORDER_CONFIRMED: ['FULFILLED', 'CANCELLED'],
+  FULFILLED: [],
+  CANCELLED: []
+};
+
+/**
+ * Timestamp recorded when an order enters a state
+ */
+const ORDER_TIMESTAMPS: Partial<Record<OrderStatus, 'confirmedAt' | 'fulfilledAt' | 'cancelledAt'>> = {
+  ORDER_CONFIRMED: 'confirmedAt',
+  FULFILLED: 'fulfilledAt',
+  CANCELLED: 'cancelledAt'
+};
+
+/**
+ * Raised when a bid, order or issue is moved to a state it cannot reach
+ */
+export class InvalidTransitionError extends Error {
+  public readonly entity: 'Bid' | 'Order' | 'Issue';
+  public readonly entityId: string;
+  public readonly from: string;
+  public readonly to: string;
+
+  constructor(entity: 'Bid' | 'Order' | 'Issue', entityId: string, from: string, to: string) {
+    super(`${entity} ${entityId} cannot move from ${from} to ${to}`);
+
+    this.name = 'InvalidTransitionError';
+    this.entity = entity;
+    this.entityId = entityId;
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/**
+ * Whether a bid may move from one status to another
+ */
+export function canTransitionBid(from: BidStatus, to: BidStatus): boolean {
+  return BID_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Whether an order may move from one status to another
+ */
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+/**
+ * Move a bid to a new status
+ *
+ * @param bidId - The bid to update
+ * @param to - The target status
+ * @returns The updated bid
+ * @throws InvalidTransitionError if the move is not legal from the current status
+ */
+export async function transitionBid(bidId: string, to: BidStatus): Promise<Bid> {
+  const bid = await prisma.bid.findUnique({ where: { id: bidId } });
+
+  if (!bid) {
+    throw new Error(`Bid ${bidId} not found`);
+  }
+
+  if (!canTransitionBid(bid.status, to)) {
+    throw new InvalidTransitionError('Bid', bidId, bid.status, to);
+  }
+
+  const { count } = await prisma.bid.updateMany({
+    where: { id: bidId, status: bid.status },
+    data: { status: to }
+  });
+
+  // Someone else moved it first
+  if (count === 0) {
+    throw new InvalidTransitionError('Bid', bidId, bid.status, to);
+  }
+
+  console.log(`[ORDER-LIFECYCLE] Bid ${bidId}: ${bid.status} -> ${to}`);
+
+  return { ...bid, status: to };
+}
+
+/**
+ * Move an order to a new status
+ *
+ * Records confirmedAt, fulfilledAt or cancelledAt as the order enters
+ * those states.
+ *
+ * @param orderId - The order to update
+ * @param to - The target status
+ * @param details - Extra fields to record with the move (e.g. the cancellation reason)
+ * @returns The updated order
+ * @throws InvalidTransitionError if the move is not legal from the current status
+ */
+export async function transitionOrder(
+  orderId: string,
+  to: OrderStatus,
+  details: Pick<Prisma.OrderUpdateManyMutationInput, 'cancellationReasonCode' | 'cancelledBy'> = {}
+): Promise<Order> {
+  const order = await prisma.order.findUnique({ where: { id: orderId } });
+
+  if (!order) {
+    throw new Error(`Order ${orderId} not found`);
+  }
+
+  if (!canTransitionOrder(order.status, to)) {
+    throw new InvalidTransitionError('Order', orderId, order.status, to);
+  }
+
+  const timestampField = ORDER_TIMESTAMPS[to];
+  const data: Prisma.OrderUpdateManyMutationInput = { ...details, status: to };
+  if (timestampField) {
+    data[timestampField] = new Date();
+  }
+
+  const { count } = await prisma.order.updateMany({
+    where: { id: orderId, status: order.status },
+    data
+  });
+
+  if (count === 0) {
+    throw new InvalidTransitionError('Order', orderId, order.status, to);
+  }
+
+  console.log(`[ORDER-LIFECYCLE] Order ${orderId}: ${order.status} -> ${to}`);
+
+  return { ...order, ...data, status: to } as Order;
+}
+
+/**
+ * Cancel an order and release or withdraw its listing
+ *
+ * A farmer cancelling withdraws the produce, so the catalog is marked
+ * CANCELLED. When the buyer cancels, the produce is still for sale and
+ * the catalog goes back to DRAFT so it can be listed again.
+ *
+ * @param orderId - The order to cancel
+ * @param cancellation - ONDC reason code and who cancelled
+ * @returns The cancelled order
+ * @throws InvalidTransitionError if the order is already fulfilled or cancelled
+ */
+export async function cancelOrder(
+  orderId: string,
+  cancellation: { reasonCode: string; cancelledBy: CancellationInitiator }
+): Promise<Order> {
+  const order = await transitionOrder(orderId, 'CANCELLED', {
+    cancellationReasonCode: cancellation.reasonCode,
+    cancelledBy: cancellation.cancelledBy
+  });
+
+  await prisma.catalog.update({
+    where: { id: order.catalogId },
+    data: { status: cancellation.cancelledBy === 'FARMER' ? 'CANCELLED' : 'DRAFT' }
+  });
+
+  return order;
+}
@@ -0,0 +1,183 @@
+/**
+ * Simulation Environment Module - Randomness and Time for the Simulator
+ *
+ * Everything the network simulator leaves to chance (which buyers bid,
+ * their prices and terms, network failures, phase timings, generated IDs)
+ * is drawn from an environment's random source, and every wait and
+ * timestamp comes from its clock. Swapping them makes runs reproducible:
+ *
+ * - createSeededRandom: the same seed yields the same sequence of numbers
+ * - createVirtualClock: waits complete immediately in simulated time, in
+ *   the order they fall due, so a 30 second auction runs in milliseconds
+ *   without faking timers
+ *
+ * The default environment uses Math.random and the system clock, or a
+ * seeded random source when ONDC_SIMULATION_SEED is set (for repeatable
+ * demos).
+ *
+ * @module simulation-environment
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Source of time for the simulator
+ */
+export interface SimulationClock {
+  /** Current time in milliseconds since the epoch */
+  now(): number;
+  /** Resolve once the given time has passed */
+  sleep(ms: number): Promise<void>;
+}
+
+/**
+ * Clock that only moves when the simulation waits or is advanced
+ */
+export interface VirtualClock extends SimulationClock {
+  /** Move time forward without waiting */
+  advance(ms: number): void;
+}
+
+/**
+ * Randomness and time used by a simulator
+ */
+export interface SimulationEnvironment {
+  /** Uniform random number in [0, 1) */
+  random: () => number;
+  clock: SimulationClock;
+}
+
+// ============================================================================
+// RANDOMNESS
+// ============================================================================
+
+/**
+ * Hash a seed to a 32-bit state
+ */
+function hashSeed(seed: number | string): number {
+  const text = String(seed);
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a seeded random source (mulberry32)
+ *
+ * @param seed - Any number or string; equal seeds give equal sequences
+ * @returns A function returning uniform numbers in [0, 1)
+ */
+export function createSeededRandom(seed: number | string): () => number {
+  let state = hashSeed(seed);
+
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ============================================================================
+// CLOCKS
+// ============================================================================
+
+/**
+ * The real clock: waits take real time
+ */
+export const systemClock: SimulationClock = {
+  now: () => Date.now(),
+  sleep: ms => new Promise(resolve => setTimeout(resolve, Math.max(0, ms)))
+};
+
+/**
+ * Create a clock whose waits complete immediately in simulated time
+ *
+ * Pending waits are released one at a time, earliest first (ties in the
+ * order they started), and time jumps to when each falls due. Work woken
+ * by one wait runs before the next is released, so concurrent waits
+ * interleave as they would in real time.
+ *
+ * @param start - Starting time (defaults to now; pass a fixed time for
+ *   reproducible timestamps)
+ */
+export function createVirtualClock(start: Date | number = Date.now()): VirtualClock {
+  let now = typeof start === 'number' ? start : start.getTime();
+  let sequence = 0;
+  let releaseScheduled = false;
+  const pending: { dueAt: number; sequence: number; resolve: () => void }[] = [];
+
+  const releaseNext = () => {
+    releaseScheduled = false;
+    pending.sort((a, b) => a.dueAt - b.dueAt || a.sequence - b.sequence);
+
+    const next = pending.shift();
+    if (!next) {
+      return;
+    }
+
+    now = Math.max(now, next.dueAt);
+    next.resolve();
+
+    if (pending.length > 0) {
+      scheduleRelease();
+    }
+  };
+
+  const scheduleRelease = () => {
+    if (!releaseScheduled) {
+      releaseScheduled = true;
+      setTimeout(releaseNext, 0);
+    }
+  };
+
+  return {
+    now: () => now,
+    sleep: ms => new Promise(resolve => {
+      pending.push({ dueAt: now + Math.max(0, ms), sequence: sequence++, resolve });
+      scheduleRelease();
+    }),
+    advance: ms => {
+      now += Math.max(0, ms);
+    }
+  };
+}
+
+// ============================================================================
+// ENVIRONMENTS
+// ============================================================================
+
+/**
+ * Create a simulation environment
+ *
+ * @param options - Seed for the random source (Math.random when omitted)
+ *   and clock (the system clock when omitted)
+ */
+export function createSimulationEnvironment(
+  options: { seed?: number | string; clock?: SimulationClock } = {}
+): SimulationEnvironment {
+  return {
+    random: options.seed !== undefined ? createSeededRandom(options.seed) : Math.random,
+    clock: options.clock ?? systemClock
+  };
+}
+
+let defaultEnvironment: SimulationEnvironment | undefined;
+
+/**
+ * The environment used when no other is given
+ *
+ * Seeded from ONDC_SIMULATION_SEED when set; created on first use.
+ */
+export function getDefaultSimulationEnvironment(): SimulationEnvironment {
+  if (!defaultEnvironment) {
+    const seed = process.env.ONDC_SIMULATION_SEED;
+    defaultEnvironment = createSimulationEnvironment({ seed: seed || undefined });
+  }
+
+  return defaultEnvironment;
+}
@@ -0,0 +1,113 @@
+/**
+ * SMS Provider Module - Sending Login Codes
+ *
+ * Login codes go out through a pluggable SMS provider:
+ * - "console" (default) prints the message to the server log, for local
+ *   development and demos without an SMS account
+ * - "http" posts `{ to, message }` as JSON to SMS_GATEWAY_URL with
+ *   SMS_API_KEY as a bearer token, for any gateway with such an endpoint
+ *
+ * Choose one with SMS_PROVIDER, or install another with setSmsProvider.
+ *
+ * @module sms-provider
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Something that can deliver a text message to a phone
+ */
+export interface SmsProvider {
+  name: string;
+  /**
+   * Deliver a message; rejects when it could not be sent
+   *
+   * @param to - E.164 phone number
+   * @param message - Text to send
+   */
+  send(to: string, message: string): Promise<void>;
+}
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+/**
+ * Default timeout for the HTTP gateway
+ */
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * Print messages to the server log instead of sending them
+ */
+export const consoleSmsProvider: SmsProvider = {
+  name: 'console',
+  async send(to, message) {
+    console.log(`[SMS] To ${to}: ${message}`);
+  }
+};
+
+/**
+ * Send messages through an HTTP SMS gateway
+ *
+ * @param url - Endpoint that accepts `{ to, message }`
+ * @param apiKey - Sent as a bearer token when present
+ */
+export function createHttpSmsProvider(url: string, apiKey?: string): SmsProvider {
+  return {
+    name: 'http',
+    async send(to, message) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+        },
+        body: JSON.stringify({ to, message }),
+        signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS)
+      });
+
+      if (!response.ok) {
+        throw new Error(`SMS gateway answered ${response.status}`);
+      }
+    }
+  };
+}
+
+// ============================================================================
+// SELECTION
+// ============================================================================
+
+let installedProvider: SmsProvider | null = null;
+
+/**
+ * The provider login codes are sent with
+ *
+ * An installed provider wins; otherwise SMS_PROVIDER picks one.
+ *
+ * @throws Error if SMS_PROVIDER is "http" but SMS_GATEWAY_URL is not set
+ */
+export function getSmsProvider(): SmsProvider {
+  if (installedProvider) {
+    return installedProvider;
+  }
+
+  if (process.env.SMS_PROVIDER === 'http') {
+    if (!process.env.SMS_GATEWAY_URL) {
+      throw new Error('SMS_PROVIDER is http but SMS_GATEWAY_URL is not set');
+    }
+    return createHttpSmsProvider(process.env.SMS_GATEWAY_URL, process.env.SMS_API_KEY || undefined);
+  }
+
+  return consoleSmsProvider;
+}
+
+/**
+ * Install a provider (e.g. a vendor SDK wrapper), or null to go back to
+ * the configured one
+ */
+export function setSmsProvider(provider: SmsProvider | null): void {
+  installedProvider = provider;
+}
@@ -13,6 +13,8 @@ import { z } from "zod";
 import { getPriceSuggestion, formatPriceForVoice, type PriceSuggestion } from "./mandi-price-service";
 import { BecknCatalogItemSchema, type BecknCatalogItem } from "./beckn-schema";
 import { mapCommodityName } from "./translation-agent";
+import type { ProfileChange, ProfileHints } from "./farmer-profile";
+import type { CatalogRuleReport } from "./catalog-rules";
 
 /**
  * Supported Indian languages with their configurations
@@ -138,12 +140,191 @@ export type ConversationStage =
     | "showing_market_prices"
     | "confirming_listing"
     | "broadcasting"
+    | "reviewing_bids"
+    | "confirming_cancellation"
+    | "confirming_relist"
+    | "updating_profile"
+    | "confirming_profile"
+    | "confirming_resume"
     | "success"
     | "error";
 
+/**
+ * The bid the farmer is answering by voice
+ */
+export interface ReviewedBid {
+    bidId: string;
+    buyerName: string;
+    bidAmount: number;
+}
+
+/**
+ * What the farmer said about the bid under review
+ */
+export interface BidDecisionIntent {
+    decision: "accept" | "reject" | "counter";
+    /** Asking price per kg when countering */
+    counterPrice?: number;
+}
+
+/**
+ * Result of acting on a spoken bid decision
+ */
+export interface BidReviewOutcome {
+    outcome: "SOLD" | "REJECTED" | "COUNTER_RAISED" | "COUNTER_DECLINED" | "FAILED";
+    /** The sold bid, the buyer's revised bid, or the next best bid after a rejection */
+    bid?: ReviewedBid;
+    orderId?: string;
+}
+
+/**
+ * Where the farmer's latest order is, as read out by voice
+ */
+export interface OrderStatusSummary {
+    status: "NONE" | "FAILED" | "BID_ACCEPTED" | "ORDER_CONFIRMED" | "PACKED" | "PICKED_UP" | "IN_TRANSIT" | "DELIVERED" | "CANCELLED";
+    buyerName?: string;
+    logisticsProvider?: string;
+    expectedDeliveryAt?: Date;
+}
+
+/**
+ * What the farmer wants from a session, picked before any dialog flow starts
+ */
+export const VOICE_INTENTS = [
+    "sell",
+    "price_enquiry",
+    "listing_status",
+    "bid_review",
+    "payment_status",
+    "order_status",
+    "cancel",
+    "profile",
+    "help"
+] as const;
+
+export type VoiceIntent = typeof VOICE_INTENTS[number];
+
+/**
+ * The intent picked out of what the farmer said
+ */
+export interface IntentMatch {
+    intent: VoiceIntent;
+    /** Commodity named, in English */
+    commodity?: string;
+    /** Mandi, city or state named for a price enquiry */
+    location?: string;
+    /** "keywords" when Gemini was unavailable and the offline fallback was used */
+    source: "model" | "keywords";
+}
+
+/**
+ * How the farmer's latest listing is doing, as read out by voice
+ */
+export interface ListingStatusSummary {
+    status: "NONE" | "FAILED" | "DRAFT" | "BROADCASTED" | "SOLD" | "EXPIRED" | "CANCELLED";
+    commodity?: string;
+    bidCount?: number;
+    bestBid?: ReviewedBid;
+    /** True while buyers may still bid */
+    auctionOpen?: boolean;
+    /** Who bought it, once sold */
+    buyerName?: string;
+}
+
+/**
+ * When the farmer gets paid for their latest sale, as read out by voice
+ */
+export interface PaymentStatusSummary {
+    status: "NONE" | "FAILED" | "ADVANCE" | "ON_DELIVERY" | "DUE" | "CANCELLED";
+    buyerName?: string;
+    amount?: number;
+    /** When the produce should reach the buyer, for payment on delivery */
+    expectedAt?: Date;
+    /** Whether the farmer's payout details have been verified */
+    payoutVerified?: boolean;
+}
+
+/**
+ * The listing or sale the farmer asked to cancel
+ */
+export interface CancellationTarget {
+    catalogId: string;
+    commodity: string;
+    quantityKg?: number;
+    /** Set when the listing has been sold; the sale is cancelled */
+    orderId?: string;
+    buyerName?: string;
+}
+
+/**
+ * Result of carrying out a spoken cancellation
+ */
+export type CancellationOutcome = "LISTING_CANCELLED" | "SALE_CANCELLED" | "FAILED";
+
+/**
+ * An expired listing the farmer is asked to list again
+ */
+export interface RelistTarget {
+    catalogId: string;
+    commodity: string;
+    quantity: number;
+    unit: string;
+    /** Asking price per unit when it expired */
+    price: number;
+    /** Lower price offered when the farmer just says "lower" */
+    suggestedPrice?: number;
+}
+
+/**
+ * Result of carrying out a spoken re-listing
+ */
+export type RelistOutcome = "RELISTED" | "FAILED";
+
+/**
+ * An answer of the listing the farmer can change later
+ */
+export type ListingSlot = "commodity" | "quantityKg" | "quality" | "preferredPrice";
+
+/**
+ * A spoken change to an earlier answer, e.g. "no, not 50 kilo, 500 kilo"
+ */
+export interface SlotCorrection {
+    slot: ListingSlot;
+    value: string | number;
+}
+
+/**
+ * An unfinished listing from an earlier session the farmer is asked to continue
+ */
+export interface ResumeTarget {
+    sessionId: string;
+    stage: ConversationStage;
+    commodity: string;
+}
+
+/**
+ * A saved conversation picked up again
+ */
+export type ResumedConversation = Required<Pick<ConversationState, "sessionId">> &
+    Pick<ConversationState, "stage" | "collectedData" | "priceSuggestion" | "catalogItem">;
+
+/**
+ * The farmer's share of a sold FPO pool
+ */
+export interface PoolShareNotice {
+    fpoName: string;
+    commodity: string;
+    /** What the farmer put into the pool */
+    quantity: number;
+    unit: string;
+    amount: number;
+}
+
 export interface ConversationState {
     stage: ConversationStage;
     language: LanguageConfig;
+    // Saved server-side under this ID after every turn
+    sessionId?: string;
     collectedData: {
         commodity?: string;
         quantityKg?: number;
@@ -159,6 +340,22 @@ export interface ConversationState {
     };
     priceSuggestion?: PriceSuggestion;
     catalogItem?: BecknCatalogItem;
+    // Bid being answered after the auction closes
+    bidReview?: {
+        catalogId: string;
+        transactionId?: string;
+        bid: ReviewedBid;
+    };
+    // Listing or sale awaiting the farmer's go-ahead to cancel
+    cancellation?: CancellationTarget;
+    // Expired listing the farmer was asked about at the start of the session
+    relist?: RelistTarget;
+    // From the farmer's profile: usual crops and where to look up prices
+    profile?: ProfileHints;
+    // Spoken profile change awaiting the farmer's go-ahead
+    profileChange?: ProfileChange;
+    // Unfinished listing the farmer was asked about at the start of the session
+    resume?: ResumeTarget;
     error?: string;
 }
 
@@ -172,6 +369,23 @@ export interface VoiceResponse {
     options?: string[];     // Quick options if any
     catalogItem?: BecknCatalogItem;
     priceSuggestion?: PriceSuggestion;
+    bidDecision?: BidDecisionIntent;        // Spoken decision to carry out on the bid under review
+    reviewedBid?: ReviewedBid;      // Bid being answered (the buyer's bid once sold)
+    bidOutcome?: BidReviewOutcome["outcome"];
+    orderId?: string;       // Set once the produce is sold
+    orderStatusQuery?: boolean;     // Farmer asked where their order is; answered with getOrderStatusResponse
+    listingStatusQuery?: { commodity?: string };    // Farmer asked how a listing is doing; answered with getListingStatusResponse
+    bidReviewRequest?: { commodity?: string };      // Farmer asked to answer bids; started with startBidReview
+    paymentStatusQuery?: boolean;   // Farmer asked when they get paid; answered with getPaymentStatusResponse
+    cancelRequest?: { commodity?: string };     // Farmer asked to cancel; resolved and answered with startCancellation
+    cancelConfirmed?: CancellationTarget;       // Cancellation to carry out; answered with getCancellationOutcomeResponse
+    cancelledCatalogId?: string;    // Set once a listing or sale has been cancelled
+    relistConfirmed?: { catalogId: string; pricePerUnit: number };     // Re-listing to carry out; answered with getRelistOutcomeResponse
+    profileChangeConfirmed?: ProfileChange;     // Profile change to save; answered with getProfileChangeOutcomeResponse
+    resumeConfirmed?: string;       // Session to pick up again; answered with getResumeOutcomeResponse
+    resumeDeclined?: string;        // Session the farmer chose not to continue; no longer offered
+    correctedSlot?: ListingSlot;    // Earlier answer the farmer just changed
+    ruleReport?: CatalogRuleReport; // AGR10 check of the listing read back for confirmation; set by processVoiceAction
 }
 
 /**
@@ -201,7 +415,46 @@ export async function processVoiceInput(
 ): Promise<{ response: VoiceResponse; newState: ConversationState }> {
     const lang = state.language;
 
+    // "Where is my order?" can be asked at any point outside a bid review
+    if (state.stage !== "reviewing_bids" && isOrderStatusQuestion(userInput)) {
+        return {
+            response: {
+                text: getLocalizedText("order_status_checking", lang.code),
+                stage: state.stage,
+                expectsResponse: false,
+                orderStatusQuery: true
+            },
+            newState: state
+        };
+    }
+
+    // "Go back" and "no, not 50 kilo, 500 kilo" work anywhere in a listing
+    if (LISTING_STAGES.includes(state.stage)) {
+        if (isGoBackRequest(userInput)) {
+            return goBack(state);
+        }
+
+        if (mightBeCorrection(userInput)) {
+            const correction = await extractSlotCorrection(state, userInput).catch((error) => {
+                console.error("[X] Correction extraction failed:", error);
+                return null;
+            });
+            if (correction) {
+                return applySlotCorrection(state, correction);
+            }
+        }
+    }
+
     try {
+        // Between listings, "onion price in Lasalgaon", "did anyone bid on my
+        // tomatoes" or "cancel my onion listing" each go to their own flow
+        if (INTENT_STAGES.includes(state.stage)) {
+            const routed = await routeIntent(state, userInput);
+            if (routed) {
+                return routed;
+            }
+        }
+
         switch (state.stage) {
             case "greeting":
                 return handleGreeting(state, userInput);
@@ -224,6 +477,24 @@ export async function processVoiceInput(
             case "confirming_listing":
                 return await handleListingConfirmation(state, userInput);
 
+            case "reviewing_bids":
+                return await handleBidResponse(state, userInput);
+
+            case "confirming_cancellation":
+                return await handleCancellationConfirmation(state, userInput);
+
+            case "confirming_relist":
+                return await handleRelistConfirmation(state, userInput);
+
+            case "updating_profile":
+                return await handleProfileUpdate(state, userInput);
+
+            case "confirming_profile":
+                return await handleProfileConfirmation(state, userInput);
+
+            case "confirming_resume":
+                return await handleResumeConfirmation(state, userInput);
+
             default:
                 return {
                     response: {
@@ -490,6 +761,22 @@ function getTemplateKeyForStage(stage: ConversationStage): string {
     }
 }
 
+/**
+ * The question a listing stage asks, e.g. to ask it again
+ */
+function getStageQuestion(
+    lang: LanguageConfig,
+    stage: ConversationStage,
+    collectedData: ConversationState['collectedData']
+): string {
+    return getLocalizedText(getTemplateKeyForStage(stage), lang.code, {
+        commodity: collectedData.commodity || "crop",
+        quantity: (collectedData.quantityKg || 0).toString(),
+        price: (collectedData.preferredPrice || 0).toString(),
+        quality: collectedData.quality || "Standard"
+    });
+}
+
 /**
  * Determine next stage based on what info we still need
  */
@@ -511,6 +798,23 @@ async function handleCommodity(
     userInput: string
 ): Promise<{ response: VoiceResponse; newState: ConversationState }> {
     const lang = state.language;
+    const usualCrop = state.profile?.crops[0];
+
+    // "Haan" to "Selling onions today?" keeps the crop from the profile
+    if (usualCrop && isPlainYes(userInput)) {
+        return {
+            response: {
+                text: getLocalizedText("ask_quantity", lang.code, { commodity: usualCrop }),
+                stage: "asking_quantity",
+                expectsResponse: true
+            },
+            newState: {
+                ...state,
+                stage: "asking_quantity",
+                collectedData: { ...state.collectedData, commodity: usualCrop }
+            }
+        };
+    }
 
     try {
         // STEP 1: Try dynamic extraction first - this can parse everything in one go
@@ -522,8 +826,9 @@ async function handleCommodity(
             // Build collected data from extracted info
             const newCollectedData: ConversationState['collectedData'] = {
                 ...state.collectedData,
-                // Commodity
-                commodity: extracted.commodityEnglish || extracted.commodity,
+                // Commodity; details given without one are for the usual crop
+                commodity: extracted.commodityEnglish || extracted.commodity ||
+                    (extracted.quantity || extracted.price ? usualCrop : undefined),
                 // Quantity (convert to kg if needed)
                 quantityKg: extracted.quantityKg || (extracted.quantity ?
                     (extracted.quantityUnit === 'quintal' || extracted.quantityUnit === 'quintals' ? extracted.quantity * 100 :
@@ -567,7 +872,7 @@ async function handleCommodity(
                 // Skip directly to showing market prices for comparison
                 newState.stage = "showing_market_prices";
 
-                const commodity = extracted.commodity || extracted.commodityEnglish || "produce";
+                const commodity = extracted.commodity || extracted.commodityEnglish || newCollectedData.commodity || "produce";
                 const quantityKg = newCollectedData.quantityKg;
                 const pricePerKg = newCollectedData.preferredPrice;
 
@@ -1118,27 +1423,7 @@ Be generous in understanding - if the user seems agreeable, set confirmed=true.`
 
 
         // Build catalog item
-        const catalogItem: BecknCatalogItem = {
-            descriptor: {
-                name: `${state.collectedData.location || ""} ${state.collectedData.commodity || "Produce"}`.trim(),
-                symbol: "/icons/default.png"
-            },
-            price: {
-                value: finalPrice,
-                currency: "INR"
-            },
-            quantity: {
-                available: {
-                    count: state.collectedData.quantityKg || 0
-                },
-                unit: "kg"
-            },
-            tags: {
-                grade: state.collectedData.quality,
-                perishability: "medium",
-                logistics_provider: "India Post"
-            }
-        };
+        const catalogItem = buildListingItem({ ...state.collectedData, preferredPrice: finalPrice });
 
         const newState: ConversationState = {
             ...state,
@@ -1180,6 +1465,33 @@ Be generous in understanding - if the user seems agreeable, set confirmed=true.`
     }
 }
 
+/**
+ * Build the listing the farmer is asked to confirm from what they said
+ */
+function buildListingItem(collectedData: ConversationState['collectedData']): BecknCatalogItem {
+    return {
+        descriptor: {
+            name: `${collectedData.location || ""} ${collectedData.commodity || "Produce"}`.trim(),
+            symbol: "/icons/default.png"
+        },
+        price: {
+            value: collectedData.preferredPrice || 0,
+            currency: "INR"
+        },
+        quantity: {
+            available: {
+                count: collectedData.quantityKg || 0
+            },
+            unit: "kg"
+        },
+        tags: {
+            grade: collectedData.quality,
+            perishability: "medium",
+            logistics_provider: "India Post"
+        }
+    };
+}
+
 /**
  * Handle listing confirmation
  */
@@ -1261,10 +1573,1485 @@ Be generous - if user seems to agree, set confirmed=true.`
 }
 
 /**
- * Generate success message after broadcast
+ * Start answering bids by voice once the auction has closed
+ *
+ * Reads out the given bid (normally the best one) and waits for
+ * "accept", "reject" or a request for a higher price.
  */
-export function getSuccessMessage(lang: LanguageConfig, buyerName: string, bidAmount: number): string {
-    return getLocalizedText("success", lang.code, {
+export function startBidReview(
+    state: ConversationState,
+    catalogId: string,
+    transactionId: string | undefined,
+    bid: ReviewedBid
+): { response: VoiceResponse; newState: ConversationState } {
+    const lang = state.language;
+
+    return {
+        response: {
+            text: getLocalizedText("bid_review_prompt", lang.code, {
+                buyer: bid.buyerName,
+                amount: bid.bidAmount.toString()
+            }),
+            stage: "reviewing_bids",
+            expectsResponse: true,
+            reviewedBid: bid
+        },
+        newState: {
+            ...state,
+            stage: "reviewing_bids",
+            bidReview: { catalogId, transactionId, bid }
+        }
+    };
+}
+
+/**
+ * Handle the farmer's spoken answer to a bid
+ *
+ * Only interprets the answer; the caller carries out the returned
+ * bidDecision and reports back with getBidOutcomeResponse.
+ */
+async function handleBidResponse(
+    state: ConversationState,
+    userInput: string
+): Promise<{ response: VoiceResponse; newState: ConversationState }> {
+    const lang = state.language;
+    const review = state.bidReview;
+
+    if (!review) {
+        return {
+            response: {
+                text: getLocalizedText("error_general", lang.code),
+                stage: "error",
+                expectsResponse: false
+            },
+            newState: { ...state, stage: "error" }
+        };
+    }
+
+    const notUnderstood = {
+        response: {
+            text: getLocalizedText("bid_not_understood", lang.code, {
+                buyer: review.bid.buyerName,
+                amount: review.bid.bidAmount.toString()
+            }),
+            stage: "reviewing_bids" as const,
+            expectsResponse: true
+        },
+        newState: state
+    };
+
+    try {
+        const result = await generateObject({
+            model: google("gemini-3-flash-preview"),
+            schema: z.object({
+                decision: z.enum(["accept", "reject", "counter", "unclear"]),
+                counterPrice: z.number().optional().describe("Full price per kg the farmer asks for"),
+                increaseBy: z.number().optional().describe("Rupees per kg to add to the current bid")
+            }),
+            prompt: `A buyer offered ${review.bid.bidAmount} rupees per kg. What did the farmer decide?
+
+User said: "${userInput}"
+
+- ACCEPT: "haan", "yes", "theek hai", "de do", "bech do", "manzoor", "ok"
+- REJECT: "nahi", "no", "mat do", "nahi chahiye", "reject"
+- COUNTER: asking for a better price
+  - "2 rupaye aur chahiye", "ask for 5 more" -> increaseBy: 2 / 5
+  - "45 rupaye kilo chahiye", "I want 45" -> counterPrice: 45
+- Anything else -> unclear
+
+Convert number words in any language to digits.`
+        });
+
+        const { decision, counterPrice, increaseBy } = result.object;
+        console.log(`[BID-REVIEW] Decision: ${decision} (counterPrice=${counterPrice}, increaseBy=${increaseBy})`);
+
+        if (decision === "unclear") {
+            return notUnderstood;
+        }
+
+        let bidDecision: BidDecisionIntent = { decision };
+        if (decision === "counter") {
+            const askingPrice = counterPrice ?? (increaseBy !== undefined ? review.bid.bidAmount + increaseBy : undefined);
+            if (!askingPrice || askingPrice <= review.bid.bidAmount) {
+                return notUnderstood;
+            }
+            bidDecision = { decision, counterPrice: askingPrice };
+        }
+
+        return {
+            response: {
+                text: getLocalizedText("bid_processing", lang.code),
+                stage: "reviewing_bids",
+                expectsResponse: false,
+                bidDecision
+            },
+            newState: state
+        };
+
+    } catch (error) {
+        return {
+            response: {
+                text: getLocalizedText("error_retry", lang.code),
+                stage: "reviewing_bids",
+                expectsResponse: true
+            },
+            newState: state
+        };
+    }
+}
+
+/**
+ * Tell the farmer how their answer to a bid turned out
+ *
+ * Keeps the review going on the revised, unchanged or next best bid, and
+ * ends it once the produce is sold or no bids are left.
+ */
+export function getBidOutcomeResponse(
+    state: ConversationState,
+    result: BidReviewOutcome
+): { response: VoiceResponse; newState: ConversationState } {
+    const lang = state.language;
+    const review = state.bidReview;
+    const bid = result.bid ?? review?.bid;
+    const variables = bid ? { buyer: bid.buyerName, amount: bid.bidAmount.toString() } : undefined;
+
+    const textKeys: Record<BidReviewOutcome["outcome"], string> = {
+        SOLD: "bid_sold",
+        REJECTED: result.bid ? "bid_rejected_next" : "bid_rejected_none",
+        COUNTER_RAISED: "counter_raised",
+        COUNTER_DECLINED: "counter_declined",
+        FAILED: "bid_response_failed"
+    };
+    const reviewEnded = result.outcome === "SOLD" || (result.outcome === "REJECTED" && !result.bid);
+    const stage: ConversationStage = reviewEnded ? "success" : "reviewing_bids";
+
+    return {
+        response: {
+            text: getLocalizedText(textKeys[result.outcome], lang.code, variables),
+            stage,
+            expectsResponse: !reviewEnded,
+            reviewedBid: bid,
+            bidOutcome: result.outcome,
+            orderId: result.orderId
+        },
+        newState: {
+            ...state,
+            stage,
+            bidReview: reviewEnded || !review || !bid ? undefined : { ...review, bid }
+        }
+    };
+}
+
+/**
+ * Words for an order or delivery, and for asking where or how it is
+ */
+const ORDER_WORDS = /\b(order|delivery|parcel|maal)\b|ऑर्डर|आर्डर|डिलीवरी|डिलिव्हरी|माल|ஆர்டர்|டெலிவரி|ఆర్డర్|డెలివరీ/i;
+const STATUS_WORDS = /\b(where|status|track|kahan|kaha|kab|pahuncha)\b|कहां|कहाँ|कब|पहुंचा|पहुँचा|स्थिति|कुठे|कधी|எங்கே|எப்போது|நிலை|ఎక్కడ|ఎప్పుడు|స్థితి/i;
+
+/**
+ * Whether the farmer is asking where their order is
+ *
+ * e.g. "where is my order", "मेरा ऑर्डर कहां है", "माझी ऑर्डर कुठे आहे"
+ */
+export function isOrderStatusQuestion(userInput: string): boolean {
+    return ORDER_WORDS.test(userInput) && STATUS_WORDS.test(userInput);
+}
+
+/**
+ * Tell the farmer where their latest order is
+ *
+ * The conversation carries on where it was.
+ */
+export function getOrderStatusResponse(
+    state: ConversationState,
+    summary: OrderStatusSummary
+): { response: VoiceResponse; newState: ConversationState } {
+    const lang = state.language;
+    const resumes = !["success", "error", "broadcasting"].includes(state.stage);
+
+    return {
+        response: {
+            text: getLocalizedText(`order_status_${summary.status.toLowerCase()}`, lang.code, {
+                buyer: summary.buyerName || "",
+                logistics: summary.logisticsProvider || summary.buyerName || "",
+                date: summary.expectedDeliveryAt
+                    ? summary.expectedDeliveryAt.toLocaleDateString(lang.speechCode, { day: "numeric", month: "long" })
+                    : ""
+            }),
+            stage: state.stage,
+            expectsResponse: resumes
+        },
+        newState: state
+    };
+}
+
+/**
+ * Words for cancelling or withdrawing
+ */
+const CANCEL_WORDS = /\b(cancel|radd|withdraw|hata do|wapas lo)\b|रद्द|कैंसल|कॅन्सल|ரத்து|కాన్సిల్|రద్దు/i;
+
+/**
+ * Whether the farmer is asking to cancel a listing or sale
+ *
+ * e.g. "cancel my onion listing", "प्याज़ की लिस्टिंग रद्द करो"
+ */
+export function isCancelRequest(userInput: string): boolean {
+    return CANCEL_WORDS.test(userInput);
+}
+
+/**
+ * Ask the farmer to confirm cancelling the listing or sale found for them
+ *
+ * When nothing matches, the farmer is told so and the conversation
+ * carries on where it was.
+ */
+export function startCancellation(
+    state: ConversationState,
+    target: CancellationTarget | null,
+    commodity?: string
+): { response: VoiceResponse; newState: ConversationState } {
+    const lang = state.language;
+
+    if (!target) {
+        return {
+            response: {
+                text: getLocalizedText("cancel_not_found", lang.code, { commodity: commodity || "produce" }),
+                stage: state.stage,
+                expectsResponse: state.stage !== "success"
+            },
+            newState: state
+        };
+    }
+
+    return {
+        response: {
+            text: getLocalizedText(target.orderId ? "cancel_confirm_sale" : "cancel_confirm_listing", lang.code, {
+                commodity: target.commodity,
+                quantity: target.quantityKg?.toString() || "",
+                buyer: target.buyerName || ""
+            }),
+            stage: "confirming_cancellation",
+            expectsResponse: true
+        },
+        newState: { ...state, stage: "confirming_cancellation", cancellation: target }
+    };
+}
+
+/**
+ * Handle the farmer's go-ahead to cancel
+ *
+ * Only interprets the answer; the caller carries out the returned
+ * cancelConfirmed and reports back with getCancellationOutcomeResponse.
+ */
+async function handleCancellationConfirmation(
+    state: ConversationState,
+    userInput: string
+): Promise<{ response: VoiceResponse; newState: ConversationState }> {
+    const lang = state.language;
+    const target = state.cancellation;
+
+    if (!target) {
+        return {
+            response: {
+                text: getLocalizedText("error_general", lang.code),
+                stage: "error",
+                expectsResponse: false
+            },
+            newState: { ...state, stage: "error" }
+        };
+    }
+
+    try {
+        const result = await generateObject({
+            model: google("gemini-3-flash-preview"),
+            schema: z.object({
+                confirmed: z.boolean(),
+                understood: z.boolean()
+            }),
+            prompt: `Did the farmer confirm cancelling their ${target.orderId ? "sale" : "listing"} of ${target.commodity}?
+
+User said: "${userInput}"
+
+- CONFIRM: "haan", "yes", "radd karo", "cancel karo", "kar do", "ok"
+- KEEP IT: "nahi", "no", "rehne do", "mat karo", "ruko"
+- Anything else -> understood: false`
+        });
+
+        if (!result.object.understood) {
+            return startCancellation(state, target);
+        }
+
+        if (!result.object.confirmed) {
+            return {
+                response: {
+                    text: getLocalizedText("cancel_kept", lang.code, { commodity: target.commodity }),
+                    stage: "greeting",
+                    expectsResponse: false
+                },
+                newState: { ...state, stage: "greeting", cancellation: undefined }
+            };
+        }
+
+        return {
+            response: {
+                text: getLocalizedText("cancel_processing", lang.code),
+                stage: "confirming_cancellation",
+                expectsResponse: false,
+                cancelConfirmed: target
+            },
+            newState: state
+        };
+
+    } catch (error) {
+        return {
+            response: {
+                text: getLocalizedText("error_retry", lang.code),
+                stage: "confirming_cancellation",
+                expectsResponse: true
+            },
+            newState: state
+        };
+    }
+}
+
+/**
+ * Tell the farmer how their cancellation turned out
+ */
+export function getCancellationOutcomeResponse(
+    state: ConversationState,
+    outcome: CancellationOutcome
+): { response: VoiceResponse; newState: ConversationState } {
+    const lang = state.language;
+    const textKeys: Record<CancellationOutcome, string> = {
+        LISTING_CANCELLED: "cancel_listing_done",
+        SALE_CANCELLED: "cancel_sale_done",
+        FAILED: "cancel_failed"
+    };
+
+    return {
+        response: {
+            text: getLocalizedText(textKeys[outcome], lang.code, {
+                commodity: state.cancellation?.commodity || "",
+                buyer: state.cancellation?.buyerName || ""
+            }),
+            stage: "greeting",
+            expectsResponse: false,
+            cancelledCatalogId: outcome === "FAILED" ? undefined : state.cancellation?.catalogId
+        },
+        newState: { ...state, stage: "greeting", cancellation: undefined }
+    };
+}
+
+/**
+ * Ask the farmer about a listing that expired unsold
+ *
+ * Spoken after the greeting at the start of the session; the answer is
+ * handled in the confirming_relist stage.
+ */
+export function getRelistPromptText(lang: LanguageConfig, target: RelistTarget): string {
+    return getLocalizedText(target.suggestedPrice ? "relist_prompt" : "relist_prompt_same", lang.code, {
+        quantity: target.quantity.toString(),
+        unit: target.unit,
+        commodity: target.commodity,
+        price: target.price.toString(),
+        suggested: target.suggestedPrice?.toString() || ""
+    });
+}
+
+/**
+ * Tell the farmer what they earned from sold FPO pools
+ *
+ * Spoken after the greeting, in the farmer's own language.
+ */
+export function getPoolShareText(lang: LanguageConfig, shares: PoolShareNotice[]): string {
+    return shares.map(share => getLocalizedText("pool_share", lang.code, {
+        fpo: share.fpoName,
+        commodity: share.commodity,
+        quantity: share.quantity.toString(),
+        unit: share.unit,
+        amount: share.amount.toString()
+    })).join(" ");
+}
+
+/**
+ * Handle the farmer's answer about an expired listing
+ *
+ * Only interprets the answer; the caller carries out the returned
+ * relistConfirmed and reports back with getRelistOutcomeResponse.
+ */
+async function handleRelistConfirmation(
+    state: ConversationState,
+    userInput: string
+): Promise<{ response: VoiceResponse; newState: ConversationState }> {
+    const lang = state.language;
+    const target = state.relist;
+
+    if (!target) {
+        return handleGreeting(state, userInput);
+    }
+
+    try {
+        const result = await generateObject({
+            model: google("gemini-3-flash-preview"),
+            schema: z.object({
+                decision: z.enum(["relist", "lower", "decline"]),
+                price: z.number().optional().describe("New price per unit if the farmer named one"),
+                understood: z.boolean()
+            }),
+            prompt: `The farmer's listing of ${target.commodity} at ${target.price} rupees per ${target.unit} expired unsold. They were asked whether to list it again${target.suggestedPrice ? ` or at ${target.suggestedPrice} rupees` : ""}.
+
+User said: "${userInput}"
+
+- RELIST AS IT WAS: "haan", "yes", "phir se daalo", "wahi daam", "same price"
+- LOWER PRICE: "kam karo", "lower", "${target.suggestedPrice ?? 30} mein daalo", "35 rupaye" (set price if a number is said)
+- DECLINE: "nahi", "no", "rehne do", "mat daalo"
+- Anything else -> understood: false`
+        });
+
+        if (!result.object.understood) {
+            return {
+                response: {
+                    text: getRelistPromptText(lang, target),
+                    stage: "confirming_relist",
+                    expectsResponse: true
+                },
+                newState: state
+            };
+        }
+
+        if (result.object.decision === "decline") {
+            return {
+                response: {
+                    text: getLocalizedText("relist_declined", lang.code, { commodity: target.commodity }) + " " +
+                        getLocalizedText("ask_commodity", lang.code),
+                    stage: "asking_commodity",
+                    expectsResponse: true
+                },
+                newState: { ...state, stage: "asking_commodity", relist: undefined }
+            };
+        }
+
+        const pricePerUnit = result.object.decision === "lower"
+            ? result.object.price ?? target.suggestedPrice ?? target.price
+            : result.object.price ?? target.price;
+
+        return {
+            response: {
+                text: getLocalizedText("relist_processing", lang.code),
+                stage: "confirming_relist",
+                expectsResponse: false,
+                relistConfirmed: { catalogId: target.catalogId, pricePerUnit }
+            },
+            newState: state
+        };
+
+    } catch (error) {
+        return {
+            response: {
+                text: getLocalizedText("error_retry", lang.code),
+                stage: "confirming_relist",
+                expectsResponse: true
+            },
+            newState: state
+        };
+    }
+}
+
+/**
+ * Tell the farmer how their re-listing turned out
+ */
+export function getRelistOutcomeResponse(
+    state: ConversationState,
+    outcome: RelistOutcome,
+    pricePerUnit: number
+): { response: VoiceResponse; newState: ConversationState } {
+    const lang = state.language;
+
+    return {
+        response: {
+            text: getLocalizedText(outcome === "RELISTED" ? "relist_done" : "relist_failed", lang.code, {
+                commodity: state.relist?.commodity || "",
+                price: pricePerUnit.toString(),
+                unit: state.relist?.unit || "kg"
+            }),
+            stage: "greeting",
+            expectsResponse: false
+        },
+        newState: { ...state, stage: "greeting", relist: undefined }
+    };
+}
+
+/**
+ * Words that make up a plain "yes" with nothing else said
+ */
+const YES_ANSWER = /^(yes|haan|han|haa|ha|ho|hoy|ji|ji haan|ok|okay|theek hai|हां|हाँ|हा|हो|होय|जी|जी हां|ठीक है|ஆம்|ஆமாம்|சரி|అవును|సరే)[\s.!।]*$/i;
+
+/**
+ * Whether the farmer just said yes
+ */
+function isPlainYes(userInput: string): boolean {
+    return YES_ANSWER.test(userInput.trim());
+}
+
+/**
+ * First question of a session for a farmer whose profile lists crops
+ *
+ * Offers their usual crop; a plain yes lists it (see handleCommodity).
+ */
+export function getUsualCropQuestion(lang: LanguageConfig, crop: string): string {
+    return getLocalizedText("ask_commodity_usual", lang.code, { commodity: crop });
+}
+
+/**
+ * Words for the farmer's profile or details
+ */
+const PROFILE_WORDS = /\b(profile|my details|update my|change my)\b|प्रोफाइल|प्रोफ़ाइल|प्रोफाईल|சுயவிவர|ప్రొఫైల్/i;
+
+/**
+ * Whether the farmer is asking to change their profile
+ *
+ * e.g. "update my profile", "मेरी प्रोफाइल बदलो"
+ */
+export function isProfileRequest(userInput: string): boolean {
+    return PROFILE_WORDS.test(userInput);
+}
+
+/**
+ * Pick out profile changes from what the farmer said
+ *
+ * @returns The change, or null when nothing was understood
+ */
+async function extractProfileChange(userInput: string, lang: LanguageConfig): Promise<ProfileChange | null> {
+    const result = await generateObject({
+        model: google("gemini-3-flash-preview"),
+        schema: z.object({
+            village: z.string().optional().describe("Village the farmer lives or farms in"),
+            district: z.string().optional(),
+            state: z.string().optional().describe("Indian state, in English"),
+            landholdingAcres: z.number().optional().describe("Land farmed, in acres"),
+            addCrops: z.array(z.string()).optional().describe("Crops they now grow, English names"),
+            removeCrops: z.array(z.string()).optional().describe("Crops they no longer grow, English names"),
+            preferredMandi: z.string().optional().describe("Mandi they usually sell at"),
+            upiId: z.string().optional().describe("UPI ID, e.g. ramesh@okaxis"),
+            understood: z.boolean()
+        }),
+        prompt: `A farmer speaking ${lang.englishName} wants to update their profile.
+
+User said: "${userInput}"
+
+Extract only what they said:
+- Place: "main Niphad gaon se hoon" -> village "Niphad"; district and state if named
+- Land: "5 acre zameen" -> 5; convert hectares to acres (1 hectare = 2.47 acres); leave it out for local units like bigha
+- Crops: "ab gehun bhi ugata hoon" -> addCrops ["Wheat"]; "tamatar band kar diya" -> removeCrops ["Tomato"]
+- Mandi: "Lasalgaon mandi mein bechta hoon" -> preferredMandi "Lasalgaon"
+- UPI ID: "ramesh at okaxis" -> "ramesh@okaxis"
+- Nothing of the above -> understood: false`
+    });
+
+    const { understood, ...change } = result.object;
+    const hasChange = Object.values(change).some(value => Array.isArray(value) ? value.length > 0 : value !== undefined);
+
+    return understood && hasChange ? change : null;
+}
+
+/**
+ * Read back a profile change, e.g. "5 acres of land, add Wheat"
+ */
+function describeProfileChange(lang: LanguageConfig, change: ProfileChange): string {
+    const place = [change.village, change.district, change.state].filter(Boolean).join(", ");
+    const parts = [
+        place && getLocalizedText("profile_part_place", lang.code, { place }),
+        change.landholdingAcres !== undefined &&
+            getLocalizedText("profile_part_land", lang.code, { acres: change.landholdingAcres.toString() }),
+        change.addCrops?.length && getLocalizedText("profile_part_add_crops", lang.code, { crops: change.addCrops.join(", ") }),
+        change.removeCrops?.length && getLocalizedText("profile_part_remove_crops", lang.code, { crops: change.removeCrops.join(", ") }),
+        change.preferredMandi && getLocalizedText("profile_part_mandi", lang.code, { mandi: change.preferredMandi }),
+        change.upiId && getLocalizedText("profile_part_upi", lang.code, { upi: change.upiId })
+    ];
+
+    return parts.filter(Boolean).join(", ");
+}
+
+/**
+ * Ask the farmer to confirm a profile change before saving it
+ */
+function confirmProfileChange(
+    state: ConversationState,
+    change: ProfileChange
+): { response: VoiceResponse; newState: ConversationState } {
+    return {
+        response: {
+            text: getLocalizedText("profile_confirm", state.language.code, {
+                changes: describeProfileChange(state.language, change)
+            }),
+            stage: "confirming_profile",
+            expectsResponse: true
+        },
+        newState: { ...state, stage: "confirming_profile", profileChange: change }
+    };
+}
+
+/**
+ * Start a spoken profile update
+ *
+ * Changes said along with the request ("update my profile, I farm 5
+ * acres") are read back straight away; otherwise the farmer is asked
+ * what to change.
+ */
+async function startProfileUpdate(
+    state: ConversationState,
+    userInput: string
+): Promise<{ response: VoiceResponse; newState: ConversationState }> {
+    try {
+        const change = await extractProfileChange(userInput, state.language);
+        if (change) {
+            return confirmProfileChange(state, change);
+        }
+    } catch (error) {
+        console.error("[X] Profile change extraction failed:", error);
+    }
+
+    return {
+        response: {
+            text: getLocalizedText("profile_ask", state.language.code),
+            stage: "updating_profile",
+            expectsResponse: true
+        },
+        newState: { ...state, stage: "updating_profile" }
+    };
+}
+
+/**
+ * Handle the farmer saying what to change in their profile
+ */
+async function handleProfileUpdate(
+    state: ConversationState,
+    userInput: string
+): Promise<{ response: VoiceResponse; newState: ConversationState }> {
+    const lang = state.language;
+
+    try {
+        const change = await extractProfileChange(userInput, lang);
+
+        if (!change) {
+            return {
+                response: {
+                    text: getLocalizedText("profile_not_understood", lang.code),
+                    stage: "updating_profile",
+                    expectsResponse: true
+                },
+                newState: state
+            };
+        }
+
+        return confirmProfileChange(state, change);
+
+    } catch (error) {
+        return {
+            response: {
+                text: getLocalizedText("error_retry", lang.code),
+                stage: "updating_profile",
+                expectsResponse: true
+            },
+            newState: state
+        };
+    }
+}
+
+/**
+ * Handle the farmer's go-ahead to save a profile change
+ *
+ * Only interprets the answer; the caller saves the returned
+ * profileChangeConfirmed and reports back with
+ * getProfileChangeOutcomeResponse.
+ */
+async function handleProfileConfirmation(
+    state: ConversationState,
+    userInput: string
+): Promise<{ response: VoiceResponse; newState: ConversationState }> {
+    const lang = state.language;
+    const change = state.profileChange;
+
+    if (!change) {
+        return handleGreeting(state, userInput);
+    }
+
+    try {
+        const result = await generateObject({
+            model: google("gemini-3-flash-preview"),
+            schema: z.object({
+                confirmed: z.boolean(),
+                understood: z.boolean()
+            }),
+            prompt: `The farmer was asked whether to save these profile changes: ${describeProfileChange(lang, change)}.
+
+User said: "${userInput}"
+
+- SAVE: "haan", "yes", "save karo", "theek hai", "ok"
+- DON'T SAVE: "nahi", "no", "rehne do", "galat hai"
+- Anything else -> understood: false`
+        });
+
+        if (!result.object.understood) {
+            return confirmProfileChange(state, change);
+        }
+
+        if (!result.object.confirmed) {
+            return {
+                response: {
+                    text: getLocalizedText("profile_kept", lang.code),
+                    stage: "greeting",
+                    expectsResponse: false
+                },
+                newState: { ...state, stage: "greeting", profileChange: undefined }
+            };
+        }
+
+        return {
+            response: {
+                text: getLocalizedText("profile_saving", lang.code),
+                stage: "confirming_profile",
+                expectsResponse: false,
+                profileChangeConfirmed: change
+            },
+            newState: state
+        };
+
+    } catch (error) {
+        return {
+            response: {
+                text: getLocalizedText("error_retry", lang.code),
+                stage: "confirming_profile",
+                expectsResponse: true
+            },
+            newState: state
+        };
+    }
+}
+
+/**
+ * Tell the farmer whether their profile change was saved
+ *
+ * @param hints - Pre-fills from the saved profile, or null if saving failed
+ */
+export function getProfileChangeOutcomeResponse(
+    state: ConversationState,
+    hints: ProfileHints | null
+): { response: VoiceResponse; newState: ConversationState } {
+    const lang = state.language;
+
+    return {
+        response: {
+            text: getLocalizedText(hints ? "profile_saved" : "profile_failed", lang.code),
+            stage: "greeting",
+            expectsResponse: false
+        },
+        newState: {
+            ...state,
+            stage: "greeting",
+            profileChange: undefined,
+            profile: hints ?? state.profile,
+            collectedData: {
+                ...state.collectedData,
+                location: state.collectedData.location ?? hints?.location
+            }
+        }
+    };
+}
+
+/**
+ * Stages of a listing being built, where earlier answers can be corrected
+ */
+const LISTING_STAGES: ConversationStage[] = [
+    "asking_quantity",
+    "asking_quality",
+    "asking_price_preference",
+    "showing_market_prices",
+    "confirming_listing"
+];
+
+/**
+ * Where "go back" leads from each listing stage, and the answer it takes back
+ */
+const PREVIOUS_STEPS: Partial<Record<ConversationStage, { stage: ConversationStage; slot: ListingSlot }>> = {
+    asking_quantity: { stage: "asking_commodity", slot: "commodity" },
+    asking_quality: { stage: "asking_quantity", slot: "quantityKg" },
+    asking_price_preference: { stage: "asking_quality", slot: "quality" },
+    showing_market_prices: { stage: "asking_price_preference", slot: "preferredPrice" },
+    confirming_listing: { stage: "asking_price_preference", slot: "preferredPrice" }
+};
+
+/**
+ * What the farmer is asked for in each listing stage
+ */
+const STAGE_SLOTS: Partial<Record<ConversationStage, ListingSlot>> = {
+    asking_commodity: "commodity",
+    asking_quantity: "quantityKg",
+    asking_quality: "quality",
+    asking_price_preference: "preferredPrice"
+};
+
+/**
+ * Words for going back a question
+ */
+const GO_BACK_WORDS = /\b(go back|previous question|undo|peeche jao|pichhe jao|wapas jao|wapas chalo)\b|पीछे|वापस जा|वापस चल|पिछला सवाल|मागे जा|मागे चला|பின்னால் போ|முந்தைய கேள்வி|వెనక్కి|మునుపటి ప్రశ్న/i;
+
+/**
+ * Whether the farmer is asking to go back to the previous question
+ *
+ * e.g. "go back", "पीछे जाओ"
+ */
+export function isGoBackRequest(userInput: string): boolean {
+    return GO_BACK_WORDS.test(userInput);
+}
+
+/**
+ * Words that start taking back an earlier answer
+ */
+const CORRECTION_WORDS = /\b(actually|sorry|wrong|change|correct|instead|make it|galat|galti|badlo|badal)\b|गलत|ग़लत|गलती|बदल|चुकी|चूक|बदला|தவறு|மாற்று|తప్పు|మార్చు/i;
+
+/**
+ * Words that say "not"; a correction only when they come with a new answer
+ */
+const NEGATION_WORDS = /\b(not|no|nahi|nahin)\b|नहीं|नही|नाही|இல்லை|కాదు/gi;
+
+/**
+ * Whether what the farmer said might take back an earlier answer
+ *
+ * e.g. "actually, 500 kilo" or "no, not 50 kilo, 500 kilo"; a bare "no"
+ * or "नहीं" just answers the question. Only a cue, the answer is checked
+ * with extractSlotCorrection.
+ */
+export function mightBeCorrection(userInput: string): boolean {
+    if (CORRECTION_WORDS.test(userInput)) {
+        return true;
+    }
+
+    const rest = userInput.replace(NEGATION_WORDS, " ");
+    if (rest === userInput) {
+        return false;
+    }
+
+    // "not X, Y": a number or a few words beside the "not"
+    const words = rest.split(/[\s,.!?।]+/).filter(Boolean);
+    return /\d/.test(rest) || words.length >= 2;
+}
+
+/**
+ * Go back to the previous question of the listing, taking back its answer
+ */
+function goBack(state: ConversationState): { response: VoiceResponse; newState: ConversationState } {
+    const lang = state.language;
+    const previous = PREVIOUS_STEPS[state.stage];
+
+    if (!previous) {
+        return {
+            response: {
+                text: getStageQuestion(lang, state.stage, state.collectedData),
+                stage: state.stage,
+                expectsResponse: true
+            },
+            newState: state
+        };
+    }
+
+    const collectedData = { ...state.collectedData, [previous.slot]: undefined };
+
+    return {
+        response: {
+            text: getLocalizedText("going_back", lang.code) + " " + getStageQuestion(lang, previous.stage, collectedData),
+            stage: previous.stage,
+            expectsResponse: true
+        },
+        newState: {
+            ...state,
+            stage: previous.stage,
+            collectedData,
+            // Prices and the listing are worked out again from the new answer
+            ...(previous.slot === "preferredPrice" ? { priceSuggestion: undefined, catalogItem: undefined } : {})
+        }
+    };
+}
+
+/**
+ * Pick out a change to an earlier answer from what the farmer said
+ *
+ * @returns The correction, or null when the farmer is just answering the
+ * question or nothing was understood
+ */
+async function extractSlotCorrection(
+    state: ConversationState,
+    userInput: string
+): Promise<SlotCorrection | null> {
+    const { collectedData } = state;
+
+    const result = await generateObject({
+        model: google("gemini-3-flash-preview"),
+        schema: z.object({
+            slot: z.enum(["commodity", "quantity", "quality", "price", "none"]),
+            commodityEnglish: z.string().optional().describe("English name of the corrected commodity"),
+            quantityKg: z.number().optional().describe("Corrected quantity converted to kilograms"),
+            quality: z.enum(["Premium", "A", "B", "Standard", "Mixed"]).optional(),
+            pricePerKg: z.number().optional().describe("Corrected price converted to per kg")
+        }),
+        prompt: `A farmer is listing produce. So far: commodity ${collectedData.commodity ?? "-"}, quantity ${collectedData.quantityKg ?? "-"} kg, quality ${collectedData.quality ?? "-"}, price ${collectedData.preferredPrice ?? "-"} rupees per kg.
+They were just asked: "${getStageQuestion(state.language, state.stage, collectedData)}"
+
+User said: "${userInput}"
+
+Is the farmer changing one of their EARLIER answers?
+- "nahi, 50 nahi 500 kilo", "no, not 50 kilo, 500 kilo" -> quantity, quantityKg: 500
+- "galti ho gayi, tamatar nahi pyaaz" -> commodity, commodityEnglish: "onion"
+- "quality A hai, B nahi" -> quality
+- "daam 30 rupaye karo" -> price, pricePerKg: 30 (1 quintal = 100 kg)
+- Just answering the question, saying no, or anything else -> slot: none`
+    });
+
+    const { slot, commodityEnglish, quantityKg, quality, pricePerKg } = result.object;
+    const correction: SlotCorrection | null =
+        slot === "commodity" && commodityEnglish ? { slot: "commodity", value: commodityEnglish.toLowerCase() } :
+        slot === "quantity" && quantityKg && quantityKg > 0 ? { slot: "quantityKg", value: quantityKg } :
+        slot === "quality" && quality ? { slot: "quality", value: quality } :
+        slot === "price" && pricePerKg && pricePerKg > 0 ? { slot: "preferredPrice", value: pricePerKg } :
+        null;
+
+    // Only an answer already given can be corrected; the one being asked is just answered
+    if (!correction || collectedData[correction.slot] === undefined || STAGE_SLOTS[state.stage] === correction.slot) {
+        return null;
+    }
+    const current = String(collectedData[correction.slot]).toLowerCase();
+    return current === String(correction.value).toLowerCase() ? null : correction;
+}
+
+/**
+ * Stages that already hold prices of the commodity being listed
+ */
+const PRICED_STAGES: ConversationStage[] = ["showing_market_prices", "confirming_listing"];
+
+/**
+ * Change an earlier answer and ask the current question again
+ *
+ * Only the changed answer is read back. A listing awaiting the go-ahead
+ * is rebuilt with it. A different commodity takes back the price and
+ * asks for it again, so its market prices are looked up afresh.
+ */
+function applySlotCorrection(
+    state: ConversationState,
+    correction: SlotCorrection
+): { response: VoiceResponse; newState: ConversationState } {
+    const lang = state.language;
+    const reprice = correction.slot === "commodity" && PRICED_STAGES.includes(state.stage);
+    const collectedData = {
+        ...state.collectedData,
+        [correction.slot]: correction.value,
+        ...(reprice ? { preferredPrice: undefined } : {})
+    };
+    const stage: ConversationStage = reprice ? "asking_price_preference" : state.stage;
+
+    const newState: ConversationState = {
+        ...state,
+        stage,
+        collectedData,
+        priceSuggestion: reprice ? undefined : state.priceSuggestion,
+        catalogItem: reprice ? undefined : state.catalogItem && buildListingItem(collectedData)
+    };
+
+    const readBack = getLocalizedText(CORRECTION_TEXT_KEYS[correction.slot], lang.code, {
+        commodity: collectedData.commodity || "",
+        quantity: (collectedData.quantityKg || 0).toString(),
+        quality: collectedData.quality || "",
+        price: (collectedData.preferredPrice || 0).toString()
+    });
+
+    console.log(`[CORRECTION] ${correction.slot} changed to ${correction.value} in ${state.stage}`);
+
+    return {
+        response: {
+            text: readBack + " " + getStageQuestion(lang, stage, collectedData),
+            stage,
+            expectsResponse: true,
+            catalogItem: newState.catalogItem,
+            correctedSlot: correction.slot
+        },
+        newState
+    };
+}
+
+/**
+ * How a changed answer is read back
+ */
+const CORRECTION_TEXT_KEYS: Record<ListingSlot, string> = {
+    commodity: "corrected_commodity",
+    quantityKg: "corrected_quantity",
+    quality: "corrected_quality",
+    preferredPrice: "corrected_price"
+};
+
+/**
+ * Ask the farmer whether to continue an unfinished listing
+ *
+ * Spoken after the greeting when an earlier session can be resumed; the
+ * answer is handled in the confirming_resume stage.
+ */
+export function getResumePromptText(lang: LanguageConfig, target: ResumeTarget): string {
+    return getLocalizedText("resume_prompt", lang.code, { commodity: target.commodity });
+}
+
+/**
+ * First question of a listing started afresh
+ */
+function getFreshStartQuestion(state: ConversationState): string {
+    const usualCrop = state.profile?.crops[0];
+    return usualCrop
+        ? getUsualCropQuestion(state.language, usualCrop)
+        : getLocalizedText("ask_commodity", state.language.code);
+}
+
+/**
+ * Handle the farmer's answer about continuing an earlier session
+ *
+ * Only interprets the answer; the caller loads the returned
+ * resumeConfirmed session and reports back with getResumeOutcomeResponse.
+ */
+async function handleResumeConfirmation(
+    state: ConversationState,
+    userInput: string
+): Promise<{ response: VoiceResponse; newState: ConversationState }> {
+    const lang = state.language;
+    const target = state.resume;
+
+    if (!target) {
+        return handleGreeting(state, userInput);
+    }
+
+    try {
+        // A plain "haan" needs no model call on a slow connection
+        const confirmed = isPlainYes(userInput) || await (async () => {
+            const result = await generateObject({
+                model: google("gemini-3-flash-preview"),
+                schema: z.object({
+                    confirmed: z.boolean(),
+                    understood: z.boolean()
+                }),
+                prompt: `The farmer was listing ${target.commodity} in an earlier session and was asked whether to continue where they left off.
+
+User said: "${userInput}"
+
+- CONTINUE: "haan", "yes", "aage badho", "wahi se", "continue"
+- START AFRESH: "nahi", "no", "naya", "shuru se", "rehne do"
+- Anything else -> understood: false`
+            });
+            return result.object.understood ? result.object.confirmed : null;
+        })();
+
+        if (confirmed === null) {
+            return {
+                response: {
+                    text: getResumePromptText(lang, target),
+                    stage: "confirming_resume",
+                    expectsResponse: true
+                },
+                newState: state
+            };
+        }
+
+        if (!confirmed) {
+            return {
+                response: {
+                    text: getLocalizedText("resume_declined", lang.code) + " " + getFreshStartQuestion(state),
+                    stage: "asking_commodity",
+                    expectsResponse: true,
+                    resumeDeclined: target.sessionId
+                },
+                newState: { ...state, stage: "asking_commodity", resume: undefined }
+            };
+        }
+
+        return {
+            response: {
+                text: getLocalizedText("resume_continue", lang.code),
+                stage: "confirming_resume",
+                expectsResponse: false,
+                resumeConfirmed: target.sessionId
+            },
+            newState: state
+        };
+
+    } catch (error) {
+        return {
+            response: {
+                text: getLocalizedText("error_retry", lang.code),
+                stage: "confirming_resume",
+                expectsResponse: true
+            },
+            newState: state
+        };
+    }
+}
+
+/**
+ * Pick up a saved conversation and ask its question again
+ *
+ * @param saved - The saved conversation, or null if it could not be loaded
+ */
+export function getResumeOutcomeResponse(
+    state: ConversationState,
+    saved: ResumedConversation | null
+): { response: VoiceResponse; newState: ConversationState } {
+    const lang = state.language;
+
+    if (!saved) {
+        return {
+            response: {
+                text: getLocalizedText("resume_failed", lang.code) + " " + getFreshStartQuestion(state),
+                stage: "asking_commodity",
+                expectsResponse: true
+            },
+            newState: { ...state, stage: "asking_commodity", resume: undefined }
+        };
+    }
+
+    const { collectedData } = saved;
+
+    return {
+        response: {
+            text: getLocalizedText("resume_continue", lang.code) + " " + getStageQuestion(lang, saved.stage, collectedData),
+            stage: saved.stage,
+            expectsResponse: true,
+            priceSuggestion: saved.priceSuggestion,
+            catalogItem: saved.catalogItem
+        },
+        newState: {
+            ...state,
+            ...saved,
+            collectedData: { ...collectedData, location: collectedData.location ?? state.collectedData.location },
+            resume: undefined
+        }
+    };
+}
+
+/**
+ * Stages between listings where the farmer can ask for something else
+ */
+const INTENT_STAGES: ConversationStage[] = ["greeting", "asking_commodity", "success"];
+
+/**
+ * Words for payment, bids, listings, prices, selling and help
+ *
+ * A bare "pay" is left out: "I'll pay for transport" is not a question
+ * about being paid.
+ */
+const PAYMENT_WORDS = /\b(paid|payment|paisa|paise|bhugtan|bhugtaan)\b|पैसा|पैसे|भुगतान|पेमेंट|பணம்|பேமெண்ட்|డబ్బు|చెల్లింపు|పేమెంట్/i;
+const BID_WORDS = /\b(bid|bids|offer|offers|boli|buyer|buyers|kharidar|kharidaar)\b|बोली|खरीदार|ऑफर|खरेदीदार|ஏலம்|வாங்குபவர்|వేలం|కొనుగోలుదారు/i;
+const REVIEW_WORDS = /\b(review|answer|reply|sunao|dikhao|jawab)\b|सुनाओ|दिखाओ|जवाब|दाखवा|ऐकवा|காட்டு|பதில்|చూపించు|జవాబు/i;
+const LISTING_WORDS = /\b(listing|listings)\b|लिस्टिंग|பட்டியல்|లిస్టింగ్/i;
+const PRICE_WORDS = /\b(price|prices|rate|rates|bhav|bhaav|daam)\b|भाव|दाम|रेट|कीमत|किंमत|விலை|ధర/i;
+const SELL_WORDS = /\b(sell|selling|bech|bechna|bechni|vikna|vikaycha)\b|बेच|विक|விற்|అమ్మ/i;
+const HELP_WORDS = /\b(help|madad|sahayata|what can you do)\b|मदद|सहायता|मदत|உதவி|సహాయం/i;
+
+/**
+ * A mandi, city or state named in a price enquiry, e.g. "Lasalgaon mandi"
+ * or "in Lasalgaon"
+ */
+const PLACE_BEFORE_MARKET = /([^\s\d,.]+)\s+(?:mandi|market|मंडी|मार्केट|बाजार|बाज़ार|சந்தை|మార్కెట్)/i;
+const PLACE_AFTER_IN = /\b(?:in|at)\s+([A-Z][a-z]+)/;
+const NOT_A_PLACE = /^(the|this|that|my|local|nearby|today|की|का|के|मेरी|मेरा)$/i;
+
+/**
+ * Pick the farmer's intent from keywords alone
+ *
+ * Tried before classifyIntent, and its fallback. A price asked about without
+ * any word for selling is an enquiry; anything not recognised is taken
+ * as the start of a listing, as before intents were routed.
+ */
+export function classifyIntentOffline(userInput: string): IntentMatch {
+    const commodity = mapCommodityName(userInput) ?? undefined;
+    const place = (userInput.match(PLACE_BEFORE_MARKET) ?? userInput.match(PLACE_AFTER_IN))?.[1];
+
+    const intent: VoiceIntent =
+        isCancelRequest(userInput) ? "cancel" :
+        isProfileRequest(userInput) ? "profile" :
+        PAYMENT_WORDS.test(userInput) ? "payment_status" :
+        isOrderStatusQuestion(userInput) ? "order_status" :
+        BID_WORDS.test(userInput) && REVIEW_WORDS.test(userInput) ? "bid_review" :
+        BID_WORDS.test(userInput) || (LISTING_WORDS.test(userInput) && STATUS_WORDS.test(userInput)) ? "listing_status" :
+        PRICE_WORDS.test(userInput) && !SELL_WORDS.test(userInput) ? "price_enquiry" :
+        HELP_WORDS.test(userInput) ? "help" :
+        "sell";
+
+    return {
+        intent,
+        commodity,
+        location: intent === "price_enquiry" && place && !NOT_A_PLACE.test(place) ? place : undefined,
+        source: "keywords"
+    };
+}
+
+/**
+ * Pick what the farmer wants from a session
+ *
+ * Asks Gemini, and falls back to classifyIntentOffline when there is no
+ * API key or the call fails, so a farmer on a bad connection still gets
+ * their answer.
+ */
+export async function classifyIntent(userInput: string, lang: LanguageConfig): Promise<IntentMatch> {
+    if (!process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
+        return classifyIntentOffline(userInput);
+    }
+
+    try {
+        const result = await generateObject({
+            model: google("gemini-3-flash-preview"),
+            schema: z.object({
+                intent: z.enum(VOICE_INTENTS),
+                commodityEnglish: z.string().optional().describe("English name of the crop named, if any"),
+                location: z.string().optional().describe("Mandi, city or state named for a price, if any")
+            }),
+            prompt: `A farmer speaking ${lang.englishName} is talking to a voice assistant that sells their produce.
+
+User said: "${userInput}"
+
+What do they want?
+- sell: list produce for sale ("200 kilo pyaaz bechna hai", "tamatar", or just naming a crop)
+- price_enquiry: only know today's mandi price ("Lasalgaon mein pyaaz ka bhav kya hai") -> location "Lasalgaon"
+- listing_status: how their listing is doing ("kisi ne mere tamatar pe boli lagayi?")
+- bid_review: answer the bids they got ("boli sunao", "let me answer the offers")
+- payment_status: when or whether they get paid ("paisa kab milega")
+- order_status: where their sold produce is ("mera order kahan hai")
+- cancel: cancel a listing or sale
+- profile: change their profile or details
+- help: what the assistant can do`
+        });
+
+        const { intent, commodityEnglish, location } = result.object;
+        return { intent, commodity: commodityEnglish, location, source: "model" };
+    } catch (error) {
+        console.error("[X] Intent classification failed, using keywords:", error);
+        return classifyIntentOffline(userInput);
+    }
+}
+
+/**
+ * Send what the farmer said between listings to its dialog flow
+ *
+ * Keywords settle most turns; Gemini is asked only when they find
+ * neither an intent nor a crop. Lookups are left to the caller through
+ * the returned flags, as for orders and cancellations; prices and help
+ * are answered here.
+ *
+ * @returns The reply, or null to carry on with the listing
+ */
+async function routeIntent(
+    state: ConversationState,
+    userInput: string
+): Promise<{ response: VoiceResponse; newState: ConversationState } | null> {
+    // A plain yes takes up the usual crop or the question just asked
+    if (isPlainYes(userInput)) {
+        return null;
+    }
+
+    const lang = state.language;
+    const offline = classifyIntentOffline(userInput);
+    const match = offline.intent === "sell" && !offline.commodity
+        ? await classifyIntent(userInput, lang)
+        : offline;
+    console.log(`[INTENT] ${match.intent} (${match.source})`);
+
+    const commodity = (match.commodity && mapCommodityName(match.commodity)) || mapCommodityName(userInput) || undefined;
+    const lookup = (textKey: string, flags: Partial<VoiceResponse>) => ({
+        response: {
+            text: getLocalizedText(textKey, lang.code),
+            stage: state.stage,
+            expectsResponse: false,
+            ...flags
+        },
+        newState: state
+    });
+
+    switch (match.intent) {
+        case "price_enquiry":
+            return await answerPriceEnquiry(state, match);
+
+        case "listing_status":
+            return lookup("status_checking", { listingStatusQuery: { commodity } });
+
+        case "bid_review":
+            return lookup("status_checking", { bidReviewRequest: { commodity } });
+
+        case "payment_status":
+            return lookup("status_checking", { paymentStatusQuery: true });
+
+        case "order_status":
+            return lookup("order_status_checking", { orderStatusQuery: true });
+
+        case "cancel":
+            return lookup("cancel_checking", { cancelRequest: { commodity } });
+
+        case "profile":
+            return await startProfileUpdate(state, userInput);
+
+        case "help":
+            return {
+                response: {
+                    text: getLocalizedText("help", lang.code),
+                    stage: state.stage,
+                    expectsResponse: state.stage !== "success"
+                },
+                newState: state
+            };
+
+        default:
+            return null;
+    }
+}
+
+/**
+ * Read out today's mandi price without starting a listing
+ *
+ * Uses the farmer's usual crop and mandi when none are named.
+ */
+async function answerPriceEnquiry(
+    state: ConversationState,
+    match: IntentMatch
+): Promise<{ response: VoiceResponse; newState: ConversationState }> {
+    const lang = state.language;
+    const commodity = match.commodity || state.profile?.crops[0];
+    const expectsResponse = state.stage !== "success";
+
+    if (!commodity) {
+        return {
+            response: { text: getLocalizedText("price_enquiry_ask", lang.code), stage: state.stage, expectsResponse },
+            newState: state
+        };
+    }
+
+    try {
+        const priceSuggestion = await getPriceSuggestion(
+            commodity,
+            match.location || state.profile?.location || state.collectedData.location
+        );
+
+        return {
+            response: {
+                text: formatPriceForVoice(priceSuggestion, lang.code).trim(),
+                stage: state.stage,
+                expectsResponse,
+                priceSuggestion
+            },
+            newState: state
+        };
+    } catch (error) {
+        console.error("[X] Price enquiry failed:", error);
+        return {
+            response: { text: getLocalizedText("price_enquiry_failed", lang.code), stage: state.stage, expectsResponse },
+            newState: state
+        };
+    }
+}
+
+/**
+ * Tell the farmer how their latest listing is doing
+ *
+ * The conversation carries on where it was.
+ */
+export function getListingStatusResponse(
+    state: ConversationState,
+    summary: ListingStatusSummary
+): { response: VoiceResponse; newState: ConversationState } {
+    const lang = state.language;
+    const textKey = summary.status === "BROADCASTED" && summary.bestBid
+        ? (summary.auctionOpen ? "listing_status_bids_open" : "listing_status_bids_closed")
+        : `listing_status_${summary.status.toLowerCase()}`;
+
+    return {
+        response: {
+            text: getLocalizedText(textKey, lang.code, {
+                commodity: summary.commodity || "produce",
+                count: (summary.bidCount ?? 0).toString(),
+                buyer: summary.bestBid?.buyerName || summary.buyerName || "",
+                amount: summary.bestBid?.bidAmount.toString() || ""
+            }),
+            stage: state.stage,
+            expectsResponse: state.stage !== "success"
+        },
+        newState: state
+    };
+}
+
+/**
+ * Tell the farmer there is no bid to answer yet
+ *
+ * @param openCommodity - Listing still taking bids, if any
+ */
+export function getNoBidToReviewResponse(
+    state: ConversationState,
+    openCommodity?: string
+): { response: VoiceResponse; newState: ConversationState } {
+    const lang = state.language;
+
+    return {
+        response: {
+            text: openCommodity
+                ? getLocalizedText("bid_review_still_open", lang.code, { commodity: openCommodity })
+                : getLocalizedText("bid_review_none", lang.code),
+            stage: state.stage,
+            expectsResponse: state.stage !== "success"
+        },
+        newState: state
+    };
+}
+
+/**
+ * Tell the farmer when they get paid for their latest sale
+ *
+ * Reminds them to verify their payout details when they have not yet.
+ */
+export function getPaymentStatusResponse(
+    state: ConversationState,
+    summary: PaymentStatusSummary
+): { response: VoiceResponse; newState: ConversationState } {
+    const lang = state.language;
+    const variables = {
+        buyer: summary.buyerName || "",
+        amount: summary.amount?.toString() || "",
+        date: summary.expectedAt
+            ? summary.expectedAt.toLocaleDateString(lang.speechCode, { day: "numeric", month: "long" })
+            : ""
+    };
+    const owed = ["ADVANCE", "ON_DELIVERY", "DUE"].includes(summary.status);
+
+    const text = [
+        getLocalizedText(`payment_status_${summary.status.toLowerCase()}`, lang.code, variables),
+        summary.status === "ON_DELIVERY" && summary.expectedAt && getLocalizedText("payment_expected", lang.code, variables),
+        owed && !summary.payoutVerified && getLocalizedText("payment_kyc_pending", lang.code)
+    ].filter(Boolean).join(" ");
+
+    return {
+        response: {
+            text,
+            stage: state.stage,
+            expectsResponse: state.stage !== "success"
+        },
+        newState: state
+    };
+}
+
+/**
+ * Generate success message after broadcast
+ */
+export function getSuccessMessage(lang: LanguageConfig, buyerName: string, bidAmount: number): string {
+    return getLocalizedText("success", lang.code, {
+        buyer: buyerName,
+        amount: bidAmount.toString()
+    });
+}
+
+/**
+ * Generate the summary spoken when the bid collection window closes
+ */
+export function getAuctionSummaryMessage(lang: LanguageConfig, bidCount: number, buyerName: string, bidAmount: number): string {
+    return getLocalizedText("auction_summary", lang.code, {
+        count: bidCount.toString(),
         buyer: buyerName,
         amount: bidAmount.toString()
     });
@@ -1286,6 +3073,88 @@ const LOCALIZED_TEXTS: Record<string, Record<string, string>> = {
         confirm_broadcast: "क्या मैं खरीदारों को भेजूं?",
         broadcasting: "ठीक है। खरीदारों को भेज रहा हूं। कृपया प्रतीक्षा करें...",
         success: "बधाई हो! {buyer} ने {amount} रुपये प्रति किलो का ऑफर दिया है!",
+        auction_summary: "{count} खरीदारों ने बोली लगाई है। सबसे अच्छा ऑफर {buyer} का है, {amount} रुपये प्रति किलो। सभी ऑफर स्क्रीन पर देखें।",
+        bid_review_prompt: "{buyer} का {amount} रुपये प्रति किलो का ऑफर है। क्या आप इसे स्वीकार करना चाहते हैं, मना करना चाहते हैं, या ज़्यादा दाम मांगना चाहते हैं? जैसे 'दो रुपये और चाहिए'।",
+        bid_not_understood: "माफ़ कीजिए, समझ नहीं आया। {buyer} का ऑफर {amount} रुपये प्रति किलो है। 'हां', 'नहीं', या 'दो रुपये और चाहिए' बोलिए।",
+        bid_processing: "ठीक है, खरीदार को बता रहा हूं...",
+        bid_sold: "बधाई हो! आपकी फसल {buyer} को {amount} रुपये प्रति किलो में बिक गई। ऑर्डर पक्का हो गया है।",
+        bid_rejected_next: "ठीक है, वह ऑफर मना कर दिया। अगला ऑफर {buyer} का है, {amount} रुपये प्रति किलो। क्या आप इसे स्वीकार करेंगे?",
+        bid_rejected_none: "ठीक है, ऑफर मना कर दिया। अभी और कोई ऑफर नहीं है।",
+        counter_raised: "{buyer} ने अपना ऑफर बढ़ाकर {amount} रुपये प्रति किलो कर दिया है। क्या आप इसे स्वीकार करेंगे?",
+        counter_declined: "{buyer} ने आपका दाम नहीं माना। उनका ऑफर अब भी {amount} रुपये प्रति किलो है। स्वीकार करें, मना करें, या दूसरा दाम बताएं?",
+        bid_response_failed: "माफ़ कीजिए, खरीदार तक आपका जवाब नहीं पहुंचा। कृपया दोबारा बोलें।",
+        order_status_checking: "आपका ऑर्डर देख रहा हूं...",
+        order_status_none: "अभी आपका कोई ऑर्डर नहीं है। फसल बिकने के बाद मैं उसकी जानकारी दूंगा।",
+        order_status_failed: "माफ़ कीजिए, अभी ऑर्डर की जानकारी नहीं मिल पाई। कृपया थोड़ी देर बाद पूछें।",
+        order_status_bid_accepted: "{buyer} के साथ आपका सौदा पक्का किया जा रहा है।",
+        order_status_order_confirmed: "{buyer} के साथ आपका ऑर्डर पक्का है। माल जल्द पैक होगा। {date} तक पहुंचने की उम्मीद है।",
+        order_status_packed: "{buyer} के लिए आपका माल पैक हो गया है और {logistics} के आने का इंतज़ार है।",
+        order_status_picked_up: "{logistics} ने {buyer} के लिए आपका माल उठा लिया है। {date} तक पहुंचने की उम्मीद है।",
+        order_status_in_transit: "आपका माल {logistics} के साथ {buyer} के पास जा रहा है। {date} तक पहुंचने की उम्मीद है।",
+        order_status_delivered: "आपका माल {buyer} तक पहुंच गया है।",
+        order_status_cancelled: "{buyer} के साथ आपका ऑर्डर रद्द हो गया है।",
+        cancel_checking: "एक पल, आपकी लिस्टिंग देख रहा हूं...",
+        cancel_confirm_listing: "आपकी {quantity} किलो {commodity} की लिस्टिंग रद्द करूं? हां या ना बोलिए।",
+        cancel_confirm_sale: "{buyer} को बेचा गया {quantity} किलो {commodity} का सौदा रद्द करूं? हां या ना बोलिए।",
+        cancel_not_found: "रद्द करने के लिए {commodity} की कोई लिस्टिंग नहीं मिली।",
+        cancel_kept: "ठीक है, {commodity} की लिस्टिंग बनी रहेगी।",
+        cancel_processing: "रद्द कर रहा हूं...",
+        cancel_listing_done: "आपकी {commodity} की लिस्टिंग रद्द हो गई है।",
+        cancel_sale_done: "{buyer} के साथ {commodity} का सौदा रद्द हो गया है। खरीदार को बता दिया गया है।",
+        cancel_failed: "माफ़ कीजिए, यह रद्द नहीं हो सका।",
+        relist_prompt: "आपकी {quantity} {unit} {commodity} की {price} रुपये वाली लिस्टिंग बिना बिके खत्म हो गई। क्या इसे फिर से {price} रुपये में डालूं, या {suggested} रुपये में? नहीं चाहिए तो ना बोलिए।",
+        relist_prompt_same: "आपकी {quantity} {unit} {commodity} की लिस्टिंग बिना बिके खत्म हो गई। क्या इसे फिर से डालूं? हां या ना बोलिए।",
+        relist_declined: "ठीक है, {commodity} की लिस्टिंग बंद रहेगी।",
+        relist_processing: "फिर से डाल रहा हूं...",
+        relist_done: "आपका {commodity} फिर से {price} रुपये प्रति {unit} में डाल दिया गया है। ऑफर स्क्रीन पर दिखेंगे।",
+        relist_failed: "माफ़ कीजिए, लिस्टिंग फिर से नहीं भेजी जा सकी। कृपया स्क्रीन से कोशिश करें।",
+        resume_prompt: "पिछली बार आप {commodity} बेच रहे थे। क्या वहीं से आगे बढ़ें?",
+        resume_continue: "ठीक है, वहीं से आगे बढ़ते हैं।",
+        resume_declined: "ठीक है, नए सिरे से शुरू करते हैं।",
+        resume_failed: "माफ़ कीजिए, पिछली बातचीत नहीं खुल सकी। नए सिरे से शुरू करते हैं।",
+        corrected_commodity: "ठीक है, {commodity}।",
+        corrected_quantity: "ठीक है, {quantity} किलो।",
+        corrected_quality: "ठीक है, क्वालिटी {quality}।",
+        corrected_price: "ठीक है, {price} रुपये प्रति किलो।",
+        going_back: "ठीक है, पिछले सवाल पर चलते हैं।",
+        status_checking: "एक पल, देख रहा हूं...",
+        help: "आप ऐसे बोल सकते हैं: '200 किलो प्याज़ बेचना है', 'लासलगांव में प्याज़ का भाव क्या है', 'किसी ने मेरे टमाटर पर बोली लगाई?', 'पैसा कब मिलेगा', 'मेरा ऑर्डर कहां है', 'मेरी लिस्टिंग रद्द करो' या 'मेरी प्रोफाइल बदलो'।",
+        price_enquiry_ask: "किस फसल का भाव जानना है? जैसे बोलिए 'लासलगांव में प्याज़ का भाव'।",
+        price_enquiry_failed: "माफ़ कीजिए, अभी आज का भाव नहीं मिल पाया। कृपया थोड़ी देर बाद पूछें।",
+        listing_status_none: "अभी आपकी कोई लिस्टिंग नहीं है।",
+        listing_status_failed: "माफ़ कीजिए, अभी लिस्टिंग की जानकारी नहीं मिल पाई। कृपया थोड़ी देर बाद पूछें।",
+        listing_status_draft: "आपकी {commodity} की लिस्टिंग अभी खरीदारों को नहीं भेजी गई है।",
+        listing_status_broadcasted: "आपकी {commodity} की लिस्टिंग खरीदारों के पास है। अभी तक कोई बोली नहीं आई।",
+        listing_status_bids_open: "आपकी {commodity} पर अब तक {count} बोलियां आई हैं। सबसे अच्छी {buyer} की {amount} रुपये प्रति किलो है। खरीदार अभी भी बोली लगा सकते हैं।",
+        listing_status_bids_closed: "आपकी {commodity} पर {count} बोलियां आई हैं। सबसे अच्छी {buyer} की {amount} रुपये प्रति किलो है। जवाब देने के लिए बोलिए 'बोली सुनाओ'।",
+        listing_status_sold: "आपकी {commodity} {buyer} को बिक गई है।",
+        listing_status_expired: "आपकी {commodity} की लिस्टिंग बिना बिके ख़त्म हो गई।",
+        listing_status_cancelled: "आपकी {commodity} की लिस्टिंग रद्द हो गई थी।",
+        bid_review_none: "अभी जवाब देने के लिए कोई बोली नहीं है।",
+        bid_review_still_open: "खरीदार अभी भी आपकी {commodity} पर बोली लगा रहे हैं। बोली बंद होने के बाद फिर पूछिए।",
+        payment_status_none: "अभी आपकी कोई बिक्री नहीं है जिसका पैसा आना हो।",
+        payment_status_failed: "माफ़ कीजिए, अभी पैसे की जानकारी नहीं मिल पाई। कृपया थोड़ी देर बाद पूछें।",
+        payment_status_advance: "{buyer} माल भेजने से पहले {amount} रुपये एडवांस देंगे।",
+        payment_status_on_delivery: "{buyer} माल पहुंचने पर {amount} रुपये देंगे।",
+        payment_expected: "माल {date} तक पहुंचने की उम्मीद है।",
+        payment_status_due: "आपका माल {buyer} तक पहुंच गया है। उनके {amount} रुपये अब देय हैं।",
+        payment_status_cancelled: "{buyer} के साथ आपकी पिछली बिक्री रद्द हो गई थी, इसलिए कोई पैसा नहीं आना है।",
+        payment_kyc_pending: "आपके पैसे पाने की जानकारी अभी सत्यापित नहीं हुई है। कृपया अपनी प्रोफाइल में देख लें।",
+        pool_share: "{fpo} ने साझा {commodity} बेच दिया। आपके {quantity} {unit} के हिस्से के {amount} रुपये हैं।",
+        ask_commodity_usual: "क्या आज {commodity} बेचना है? हां बोलिए, या कोई दूसरी फसल बताइए।",
+        profile_ask: "अपनी प्रोफाइल में क्या बदलना है? जैसे गांव, ज़मीन कितने एकड़, कौन सी फसलें, कौन सी मंडी, या UPI आईडी।",
+        profile_not_understood: "माफ़ कीजिए, समझ नहीं आया। जैसे बोलिए 'मेरे पास 5 एकड़ ज़मीन है' या 'मैं लासलगांव मंडी में बेचता हूं'।",
+        profile_confirm: "मैं यह सेव करूं: {changes}? हां या ना बोलिए।",
+        profile_kept: "ठीक है, प्रोफाइल नहीं बदली।",
+        profile_saving: "सेव कर रहा हूं...",
+        profile_saved: "आपकी प्रोफाइल अपडेट हो गई है।",
+        profile_failed: "माफ़ कीजिए, प्रोफाइल सेव नहीं हो सकी। कृपया स्क्रीन से कोशिश करें।",
+        profile_part_place: "जगह {place}",
+        profile_part_land: "{acres} एकड़ ज़मीन",
+        profile_part_add_crops: "फसलों में {crops} जोड़ें",
+        profile_part_remove_crops: "फसलों से {crops} हटाएं",
+        profile_part_mandi: "मंडी {mandi}",
+        profile_part_upi: "UPI आईडी {upi}",
         cancelled: "कोई बात नहीं। जब चाहें फिर से बोलें।",
         not_understood_commodity: "माफ़ कीजिए, समझ नहीं आया। कौन सी फसल बेचनी है?",
         not_understood_quantity: "कितना किलो या क्विंटल है? कृपया दोबारा बताइए।",
@@ -1305,6 +3174,88 @@ const LOCALIZED_TEXTS: Record<string, Record<string, string>> = {
         confirm_broadcast: "खरेदीदारांना पाठवू का?",
         broadcasting: "ठीक आहे. खरेदीदारांना पाठवत आहे. कृपया वाट पहा...",
         success: "अभिनंदन! {buyer} यांनी प्रति किलो {amount} रुपयांची ऑफर दिली आहे!",
+        auction_summary: "{count} खरेदीदारांनी बोली लावली आहे. सर्वोत्तम ऑफर {buyer} यांची आहे, प्रति किलो {amount} रुपये. सर्व ऑफर स्क्रीनवर पहा.",
+        bid_review_prompt: "{buyer} यांची प्रति किलो {amount} रुपयांची ऑफर आहे. ही ऑफर स्वीकारायची, नाकारायची, की जास्त भाव मागायचा? जसे 'दोन रुपये अजून हवे'.",
+        bid_not_understood: "माफ करा, समजले नाही. {buyer} यांची ऑफर प्रति किलो {amount} रुपये आहे. 'हो', 'नाही', किंवा 'दोन रुपये अजून हवे' असे सांगा.",
+        bid_processing: "ठीक आहे, खरेदीदाराला कळवत आहे...",
+        bid_sold: "अभिनंदन! तुमचे पीक {buyer} यांना प्रति किलो {amount} रुपयांना विकले गेले. ऑर्डर पक्की झाली आहे.",
+        bid_rejected_next: "ठीक आहे, ती ऑफर नाकारली. पुढची ऑफर {buyer} यांची आहे, प्रति किलो {amount} रुपये. ही स्वीकारायची का?",
+        bid_rejected_none: "ठीक आहे, ऑफर नाकारली. सध्या दुसरी कोणतीही ऑफर नाही.",
+        counter_raised: "{buyer} यांनी त्यांची ऑफर वाढवून प्रति किलो {amount} रुपये केली आहे. ही स्वीकारायची का?",
+        counter_declined: "{buyer} यांनी तुमचा भाव मान्य केला नाही. त्यांची ऑफर अजूनही प्रति किलो {amount} रुपये आहे. स्वीकारायची, नाकारायची, की दुसरा भाव सांगायचा?",
+        bid_response_failed: "माफ करा, तुमचे उत्तर खरेदीदारापर्यंत पोहोचले नाही. कृपया पुन्हा बोला.",
+        order_status_checking: "तुमची ऑर्डर पाहत आहे...",
+        order_status_none: "सध्या तुमची कोणतीही ऑर्डर नाही. पीक विकल्यावर मी त्याची माहिती देईन.",
+        order_status_failed: "माफ करा, आत्ता ऑर्डरची माहिती मिळाली नाही. कृपया थोड्या वेळाने विचारा.",
+        order_status_bid_accepted: "{buyer} सोबत तुमचा सौदा पक्का केला जात आहे.",
+        order_status_order_confirmed: "{buyer} सोबत तुमची ऑर्डर पक्की आहे. माल लवकरच पॅक होईल. {date} पर्यंत पोहोचण्याची अपेक्षा आहे.",
+        order_status_packed: "{buyer} साठी तुमचा माल पॅक झाला आहे आणि {logistics} ची वाट पाहत आहे.",
+        order_status_picked_up: "{logistics} ने {buyer} साठी तुमचा माल उचलला आहे. {date} पर्यंत पोहोचण्याची अपेक्षा आहे.",
+        order_status_in_transit: "तुमचा माल {logistics} सोबत {buyer} कडे जात आहे. {date} पर्यंत पोहोचण्याची अपेक्षा आहे.",
+        order_status_delivered: "तुमचा माल {buyer} पर्यंत पोहोचला आहे.",
+        order_status_cancelled: "{buyer} सोबतची तुमची ऑर्डर रद्द झाली आहे.",
+        cancel_checking: "एक क्षण, तुमची लिस्टिंग पाहतो...",
+        cancel_confirm_listing: "तुमची {quantity} किलो {commodity} ची लिस्टिंग रद्द करू का? हो किंवा नाही सांगा.",
+        cancel_confirm_sale: "{buyer} ला विकलेला {quantity} किलो {commodity} चा सौदा रद्द करू का? हो किंवा नाही सांगा.",
+        cancel_not_found: "रद्द करण्यासाठी {commodity} ची कोणतीही लिस्टिंग सापडली नाही.",
+        cancel_kept: "ठीक आहे, {commodity} ची लिस्टिंग तशीच राहील.",
+        cancel_processing: "रद्द करत आहे...",
+        cancel_listing_done: "तुमची {commodity} ची लिस्टिंग रद्द झाली आहे.",
+        cancel_sale_done: "{buyer} सोबतचा {commodity} चा सौदा रद्द झाला आहे. खरेदीदाराला कळवले आहे.",
+        cancel_failed: "माफ करा, हे रद्द करता आले नाही.",
+        relist_prompt: "तुमची {quantity} {unit} {commodity} ची {price} रुपयांची लिस्टिंग न विकता संपली. ती पुन्हा {price} रुपयांना टाकू, की {suggested} रुपयांना? नको असल्यास नाही सांगा.",
+        relist_prompt_same: "तुमची {quantity} {unit} {commodity} ची लिस्टिंग न विकता संपली. ती पुन्हा टाकू का? हो किंवा नाही सांगा.",
+        relist_declined: "ठीक आहे, {commodity} ची लिस्टिंग बंद राहील.",
+        relist_processing: "पुन्हा टाकत आहे...",
+        relist_done: "तुमचा {commodity} पुन्हा {price} रुपये प्रति {unit} ने टाकला आहे. ऑफर स्क्रीनवर दिसतील.",
+        relist_failed: "माफ करा, लिस्टिंग पुन्हा पाठवता आली नाही. कृपया स्क्रीनवरून प्रयत्न करा.",
+        resume_prompt: "मागच्या वेळी तुम्ही {commodity} विकत होता. तिथूनच पुढे जाऊया का?",
+        resume_continue: "ठीक आहे, तिथूनच पुढे जाऊया.",
+        resume_declined: "ठीक आहे, नव्याने सुरू करूया.",
+        resume_failed: "माफ करा, मागचे संभाषण उघडता आले नाही. नव्याने सुरू करूया.",
+        corrected_commodity: "ठीक आहे, {commodity}.",
+        corrected_quantity: "ठीक आहे, {quantity} किलो.",
+        corrected_quality: "ठीक आहे, गुणवत्ता {quality}.",
+        corrected_price: "ठीक आहे, {price} रुपये प्रति किलो.",
+        going_back: "ठीक आहे, मागच्या प्रश्नावर जाऊया.",
+        status_checking: "एक क्षण, पाहतो...",
+        help: "तुम्ही असे बोलू शकता: '200 किलो कांदा विकायचा आहे', 'लासलगावला कांद्याचा भाव काय आहे', 'माझ्या टोमॅटोवर कोणी बोली लावली का?', 'पैसे कधी मिळतील', 'माझी ऑर्डर कुठे आहे', 'माझी लिस्टिंग रद्द करा' किंवा 'माझी प्रोफाइल बदला'.",
+        price_enquiry_ask: "कोणत्या पिकाचा भाव हवा आहे? जसे बोला 'लासलगावला कांद्याचा भाव'.",
+        price_enquiry_failed: "माफ करा, आत्ता आजचा भाव मिळाला नाही. कृपया थोड्या वेळाने विचारा.",
+        listing_status_none: "सध्या तुमची कोणतीही लिस्टिंग नाही.",
+        listing_status_failed: "माफ करा, आत्ता लिस्टिंगची माहिती मिळाली नाही. कृपया थोड्या वेळाने विचारा.",
+        listing_status_draft: "तुमची {commodity} ची लिस्टिंग अजून खरेदीदारांना पाठवलेली नाही.",
+        listing_status_broadcasted: "तुमची {commodity} ची लिस्टिंग खरेदीदारांकडे आहे. अजून कोणतीही बोली आलेली नाही.",
+        listing_status_bids_open: "तुमच्या {commodity} वर आतापर्यंत {count} बोली आल्या आहेत. सर्वात चांगली {buyer} यांची प्रति किलो {amount} रुपये आहे. खरेदीदार अजूनही बोली लावू शकतात.",
+        listing_status_bids_closed: "तुमच्या {commodity} वर {count} बोली आल्या आहेत. सर्वात चांगली {buyer} यांची प्रति किलो {amount} रुपये आहे. उत्तर देण्यासाठी बोला 'बोली ऐकवा'.",
+        listing_status_sold: "तुमचा {commodity} {buyer} यांना विकला गेला आहे.",
+        listing_status_expired: "तुमची {commodity} ची लिस्टिंग न विकता संपली.",
+        listing_status_cancelled: "तुमची {commodity} ची लिस्टिंग रद्द झाली होती.",
+        bid_review_none: "सध्या उत्तर देण्यासाठी कोणतीही बोली नाही.",
+        bid_review_still_open: "खरेदीदार अजूनही तुमच्या {commodity} वर बोली लावत आहेत. बोली बंद झाल्यावर पुन्हा विचारा.",
+        payment_status_none: "सध्या पैसे येणे असलेली तुमची कोणतीही विक्री नाही.",
+        payment_status_failed: "माफ करा, आत्ता पैशांची माहिती मिळाली नाही. कृपया थोड्या वेळाने विचारा.",
+        payment_status_advance: "{buyer} माल पाठवण्यापूर्वी {amount} रुपये आगाऊ देतील.",
+        payment_status_on_delivery: "{buyer} माल पोहोचल्यावर {amount} रुपये देतील.",
+        payment_expected: "माल {date} पर्यंत पोहोचण्याची अपेक्षा आहे.",
+        payment_status_due: "तुमचा माल {buyer} पर्यंत पोहोचला आहे. त्यांचे {amount} रुपये आता देय आहेत.",
+        payment_status_cancelled: "{buyer} सोबतची तुमची मागची विक्री रद्द झाली होती, त्यामुळे कोणतेही पैसे येणे नाहीत.",
+        payment_kyc_pending: "तुमची पैसे मिळवण्याची माहिती अजून पडताळलेली नाही. कृपया तुमची प्रोफाइल तपासा.",
+        pool_share: "{fpo} ने एकत्रित {commodity} विकला. तुमच्या {quantity} {unit} च्या वाट्याचे {amount} रुपये आहेत.",
+        ask_commodity_usual: "आज {commodity} विकायचा आहे का? हो म्हणा, किंवा दुसरे पीक सांगा.",
+        profile_ask: "तुमच्या प्रोफाइलमध्ये काय बदलायचे आहे? जसे गाव, किती एकर जमीन, कोणती पिके, कोणती मंडी, किंवा UPI आयडी.",
+        profile_not_understood: "माफ करा, समजले नाही. जसे सांगा 'माझ्याकडे 5 एकर जमीन आहे' किंवा 'मी लासलगाव मंडीत विकतो'.",
+        profile_confirm: "हे सेव्ह करू का: {changes}? हो किंवा नाही सांगा.",
+        profile_kept: "ठीक आहे, प्रोफाइल बदलली नाही.",
+        profile_saving: "सेव्ह करत आहे...",
+        profile_saved: "तुमची प्रोफाइल अपडेट झाली आहे.",
+        profile_failed: "माफ करा, प्रोफाइल सेव्ह होऊ शकली नाही. कृपया स्क्रीनवरून प्रयत्न करा.",
+        profile_part_place: "ठिकाण {place}",
+        profile_part_land: "{acres} एकर जमीन",
+        profile_part_add_crops: "पिकांमध्ये {crops} जोडा",
+        profile_part_remove_crops: "पिकांमधून {crops} काढा",
+        profile_part_mandi: "मंडी {mandi}",
+        profile_part_upi: "UPI आयडी {upi}",
         cancelled: "काही हरकत नाही. पुन्हा केव्हाही बोला.",
         not_understood_commodity: "माफ करा, समजले नाही. कोणते पीक विकायचे आहे?",
         not_understood_quantity: "किती किलो किंवा क्विंटल आहे? कृपया पुन्हा सांगा.",
@@ -1324,6 +3275,88 @@ const LOCALIZED_TEXTS: Record<string, Record<string, string>> = {
         confirm_broadcast: "வாங்குபவர்களுக்கு அனுப்பட்டுமா?",
         broadcasting: "சரி. வாங்குபவர்களுக்கு அனுப்புகிறேன். தயவுசெய்து காத்திருங்கள்...",
         success: "வாழ்த்துக்கள்! {buyer} கிலோவுக்கு {amount} ரூபாய் கொடுக்க முன்வந்துள்ளார்!",
+        auction_summary: "{count} வாங்குபவர்கள் ஏலம் கேட்டுள்ளனர். சிறந்த சலுகை {buyer}, கிலோவுக்கு {amount} ரூபாய். எல்லா சலுகைகளையும் திரையில் பாருங்கள்.",
+        bid_review_prompt: "{buyer} கிலோவுக்கு {amount} ரூபாய் சலுகை தருகிறார். ஏற்கிறீர்களா, மறுக்கிறீர்களா, அல்லது அதிக விலை கேட்கிறீர்களா? எ.கா. 'இன்னும் இரண்டு ரூபாய் வேண்டும்'.",
+        bid_not_understood: "மன்னிக்கவும், புரியவில்லை. {buyer} சலுகை கிலோவுக்கு {amount} ரூபாய். 'ஆம்', 'இல்லை', அல்லது 'இன்னும் இரண்டு ரூபாய் வேண்டும்' என்று சொல்லுங்கள்.",
+        bid_processing: "சரி, வாங்குபவருக்குத் தெரிவிக்கிறேன்...",
+        bid_sold: "வாழ்த்துக்கள்! உங்கள் பயிர் {buyer}க்கு கிலோவுக்கு {amount} ரூபாய்க்கு விற்கப்பட்டது. ஆர்டர் உறுதியானது.",
+        bid_rejected_next: "சரி, அந்த சலுகை மறுக்கப்பட்டது. அடுத்த சலுகை {buyer}, கிலோவுக்கு {amount} ரூபாய். ஏற்கிறீர்களா?",
+        bid_rejected_none: "சரி, சலுகை மறுக்கப்பட்டது. இப்போது வேறு சலுகைகள் இல்லை.",
+        counter_raised: "{buyer} தனது சலுகையை கிலோவுக்கு {amount} ரூபாயாக உயர்த்தியுள்ளார். ஏற்கிறீர்களா?",
+        counter_declined: "{buyer} உங்கள் விலையை ஏற்கவில்லை. அவரது சலுகை இன்னும் கிலோவுக்கு {amount} ரூபாய். ஏற்கவா, மறுக்கவா, அல்லது வேறு விலை சொல்லவா?",
+        bid_response_failed: "மன்னிக்கவும், உங்கள் பதில் வாங்குபவருக்குச் சேரவில்லை. மீண்டும் பேசுங்கள்.",
+        order_status_checking: "உங்கள் ஆர்டரைப் பார்க்கிறேன்...",
+        order_status_none: "இப்போது உங்களுக்கு எந்த ஆர்டரும் இல்லை. விளைபொருள் விற்ற பிறகு அதன் நிலையைச் சொல்வேன்.",
+        order_status_failed: "மன்னிக்கவும், இப்போது ஆர்டர் நிலையைப் பார்க்க முடியவில்லை. சிறிது நேரம் கழித்து கேளுங்கள்.",
+        order_status_bid_accepted: "{buyer} உடனான உங்கள் விற்பனை உறுதி செய்யப்படுகிறது.",
+        order_status_order_confirmed: "{buyer} உடனான உங்கள் ஆர்டர் உறுதியாகிவிட்டது. விரைவில் பேக் செய்யப்படும். {date} க்குள் சேரும் என எதிர்பார்க்கப்படுகிறது.",
+        order_status_packed: "{buyer} க்கான உங்கள் விளைபொருள் பேக் செய்யப்பட்டு {logistics} க்காகக் காத்திருக்கிறது.",
+        order_status_picked_up: "{logistics} உங்கள் விளைபொருளை {buyer} க்காக எடுத்துச் சென்றுள்ளது. {date} க்குள் சேரும் என எதிர்பார்க்கப்படுகிறது.",
+        order_status_in_transit: "உங்கள் விளைபொருள் {logistics} மூலம் {buyer} க்குச் சென்றுகொண்டிருக்கிறது. {date} க்குள் சேரும் என எதிர்பார்க்கப்படுகிறது.",
+        order_status_delivered: "உங்கள் விளைபொருள் {buyer} க்குச் சேர்ந்துவிட்டது.",
+        order_status_cancelled: "{buyer} உடனான உங்கள் ஆர்டர் ரத்து செய்யப்பட்டது.",
+        cancel_checking: "ஒரு நிமிடம், உங்கள் பட்டியலைப் பார்க்கிறேன்...",
+        cancel_confirm_listing: "உங்கள் {quantity} கிலோ {commodity} பட்டியலை ரத்து செய்யவா? ஆம் அல்லது இல்லை சொல்லுங்கள்.",
+        cancel_confirm_sale: "{buyer} க்கு விற்ற {quantity} கிலோ {commodity} விற்பனையை ரத்து செய்யவா? ஆம் அல்லது இல்லை சொல்லுங்கள்.",
+        cancel_not_found: "ரத்து செய்ய {commodity} பட்டியல் எதுவும் இல்லை.",
+        cancel_kept: "சரி, {commodity} பட்டியல் அப்படியே இருக்கும்.",
+        cancel_processing: "ரத்து செய்கிறேன்...",
+        cancel_listing_done: "உங்கள் {commodity} பட்டியல் ரத்து செய்யப்பட்டது.",
+        cancel_sale_done: "{buyer} உடனான {commodity} விற்பனை ரத்து செய்யப்பட்டது. வாங்குபவருக்குத் தெரிவிக்கப்பட்டது.",
+        cancel_failed: "மன்னிக்கவும், இதை ரத்து செய்ய முடியவில்லை.",
+        relist_prompt: "உங்கள் {quantity} {unit} {commodity} பட்டியல் ({price} ரூபாய்) விற்காமல் காலாவதியானது. மீண்டும் {price} ரூபாய்க்கு பட்டியலிடவா, அல்லது {suggested} ரூபாய்க்கா? வேண்டாம் என்றால் இல்லை என்று சொல்லுங்கள்.",
+        relist_prompt_same: "உங்கள் {quantity} {unit} {commodity} பட்டியல் விற்காமல் காலாவதியானது. மீண்டும் பட்டியலிடவா? ஆம் அல்லது இல்லை என்று சொல்லுங்கள்.",
+        relist_declined: "சரி, {commodity} பட்டியல் மூடியே இருக்கும்.",
+        relist_processing: "மீண்டும் பட்டியலிடுகிறேன்...",
+        relist_done: "உங்கள் {commodity} மீண்டும் ஒரு {unit} {price} ரூபாய்க்கு பட்டியலிடப்பட்டது. சலுகைகள் திரையில் தெரியும்.",
+        relist_failed: "மன்னிக்கவும், பட்டியலை மீண்டும் அனுப்ப முடியவில்லை. திரையிலிருந்து முயற்சிக்கவும்.",
+        resume_prompt: "கடந்த முறை நீங்கள் {commodity} விற்றுக்கொண்டிருந்தீர்கள். அங்கிருந்தே தொடரலாமா?",
+        resume_continue: "சரி, அங்கிருந்தே தொடரலாம்.",
+        resume_declined: "சரி, புதிதாகத் தொடங்கலாம்.",
+        resume_failed: "மன்னிக்கவும், முந்தைய உரையாடலைத் திறக்க முடியவில்லை. புதிதாகத் தொடங்கலாம்.",
+        corrected_commodity: "சரி, {commodity}.",
+        corrected_quantity: "சரி, {quantity} கிலோ.",
+        corrected_quality: "சரி, தரம் {quality}.",
+        corrected_price: "சரி, கிலோவுக்கு {price} ரூபாய்.",
+        going_back: "சரி, முந்தைய கேள்விக்குச் செல்லலாம்.",
+        status_checking: "ஒரு நிமிடம், பார்க்கிறேன்...",
+        help: "நீங்கள் இப்படிச் சொல்லலாம்: '200 கிலோ வெங்காயம் விற்க வேண்டும்', 'லாசல்காவில் வெங்காய விலை என்ன', 'என் தக்காளிக்கு யாராவது ஏலம் கேட்டார்களா?', 'பணம் எப்போது வரும்', 'என் ஆர்டர் எங்கே', 'என் பட்டியலை ரத்து செய்' அல்லது 'என் சுயவிவரத்தை மாற்று'.",
+        price_enquiry_ask: "எந்த பயிரின் விலை தெரிய வேண்டும்? எ.கா. 'லாசல்காவில் வெங்காய விலை' என்று சொல்லுங்கள்.",
+        price_enquiry_failed: "மன்னிக்கவும், இப்போது இன்றைய விலை கிடைக்கவில்லை. சிறிது நேரம் கழித்து கேளுங்கள்.",
+        listing_status_none: "இப்போது உங்களுக்கு எந்த பட்டியலும் இல்லை.",
+        listing_status_failed: "மன்னிக்கவும், இப்போது பட்டியல் நிலையைப் பார்க்க முடியவில்லை. சிறிது நேரம் கழித்து கேளுங்கள்.",
+        listing_status_draft: "உங்கள் {commodity} பட்டியல் இன்னும் வாங்குபவர்களுக்கு அனுப்பப்படவில்லை.",
+        listing_status_broadcasted: "உங்கள் {commodity} பட்டியல் வாங்குபவர்களிடம் உள்ளது. இன்னும் ஏலம் எதுவும் வரவில்லை.",
+        listing_status_bids_open: "உங்கள் {commodity} க்கு இதுவரை வந்த ஏலங்கள்: {count}. சிறந்தது {buyer}, கிலோவுக்கு {amount} ரூபாய். வாங்குபவர்கள் இன்னும் ஏலம் கேட்கலாம்.",
+        listing_status_bids_closed: "உங்கள் {commodity} க்கு வந்த ஏலங்கள்: {count}. சிறந்தது {buyer}, கிலோவுக்கு {amount} ரூபாய். பதில் சொல்ல 'ஏலத்தைக் காட்டு' என்று சொல்லுங்கள்.",
+        listing_status_sold: "உங்கள் {commodity} {buyer} க்கு விற்கப்பட்டது.",
+        listing_status_expired: "உங்கள் {commodity} பட்டியல் விற்கப்படாமல் காலாவதியானது.",
+        listing_status_cancelled: "உங்கள் {commodity} பட்டியல் ரத்து செய்யப்பட்டது.",
+        bid_review_none: "இப்போது பதில் சொல்ல எந்த ஏலமும் இல்லை.",
+        bid_review_still_open: "வாங்குபவர்கள் இன்னும் உங்கள் {commodity} க்கு ஏலம் கேட்கிறார்கள். ஏலம் முடிந்ததும் மீண்டும் கேளுங்கள்.",
+        payment_status_none: "பணம் வர வேண்டிய விற்பனை எதுவும் இப்போது இல்லை.",
+        payment_status_failed: "மன்னிக்கவும், இப்போது பண நிலையைப் பார்க்க முடியவில்லை. சிறிது நேரம் கழித்து கேளுங்கள்.",
+        payment_status_advance: "{buyer} விளைபொருள் அனுப்பும் முன் {amount} ரூபாய் முன்பணமாகத் தருவார்.",
+        payment_status_on_delivery: "{buyer} விளைபொருள் சேர்ந்ததும் {amount} ரூபாய் தருவார்.",
+        payment_expected: "{date} க்குள் சேரும் என எதிர்பார்க்கப்படுகிறது.",
+        payment_status_due: "உங்கள் விளைபொருள் {buyer} க்குச் சேர்ந்துவிட்டது. அவர் தர வேண்டிய {amount} ரூபாய் இப்போது செலுத்த வேண்டியது.",
+        payment_status_cancelled: "{buyer} உடனான உங்கள் கடைசி விற்பனை ரத்து செய்யப்பட்டது, எனவே பணம் எதுவும் வர வேண்டியதில்லை.",
+        payment_kyc_pending: "உங்கள் பணம் பெறும் விவரங்கள் இன்னும் சரிபார்க்கப்படவில்லை. உங்கள் சுயவிவரத்தைப் பாருங்கள்.",
+        pool_share: "{fpo} கூட்டு {commodity} விற்றது. உங்கள் {quantity} {unit} பங்குக்கு {amount} ரூபாய்.",
+        ask_commodity_usual: "இன்று {commodity} விற்கிறீர்களா? ஆம் என்று சொல்லுங்கள், அல்லது வேறு பயிரைச் சொல்லுங்கள்.",
+        profile_ask: "உங்கள் சுயவிவரத்தில் எதை மாற்ற வேண்டும்? கிராமம், எத்தனை ஏக்கர் நிலம், என்ன பயிர்கள், எந்த மண்டி, அல்லது UPI ஐடி.",
+        profile_not_understood: "மன்னிக்கவும், புரியவில்லை. 'எனக்கு 5 ஏக்கர் நிலம் உள்ளது' அல்லது 'நான் லாசல்காவ் மண்டியில் விற்கிறேன்' என்று சொல்லுங்கள்.",
+        profile_confirm: "இதைச் சேமிக்கவா: {changes}? ஆம் அல்லது இல்லை என்று சொல்லுங்கள்.",
+        profile_kept: "சரி, சுயவிவரம் மாற்றப்படவில்லை.",
+        profile_saving: "சேமிக்கிறேன்...",
+        profile_saved: "உங்கள் சுயவிவரம் புதுப்பிக்கப்பட்டது.",
+        profile_failed: "மன்னிக்கவும், சுயவிவரத்தைச் சேமிக்க முடியவில்லை. திரையிலிருந்து முயற்சிக்கவும்.",
+        profile_part_place: "இடம் {place}",
+        profile_part_land: "{acres} ஏக்கர் நிலம்",
+        profile_part_add_crops: "பயிர்களில் {crops} சேர்க்க",
+        profile_part_remove_crops: "பயிர்களிலிருந்து {crops} நீக்க",
+        profile_part_mandi: "மண்டி {mandi}",
+        profile_part_upi: "UPI ஐடி {upi}",
         cancelled: "பரவாயில்லை. எப்போது வேண்டுமானாலும் மீண்டும் பேசுங்கள்.",
         not_understood_commodity: "மன்னிக்கவும், புரியவில்லை. எந்த பயிரை விற்க வேண்டும்?",
         not_understood_quantity: "எத்தனை கிலோ அல்லது குவிண்டால்? மீண்டும் சொல்லுங்கள்.",
@@ -1343,6 +3376,88 @@ const LOCALIZED_TEXTS: Record<string, Record<string, string>> = {
         confirm_broadcast: "కొనుగోలుదారులకు పంపమంటారా?",
         broadcasting: "సరే. కొనుగోలుదారులకు పంపుతున్నాను. దయచేసి వేచి ఉండండి...",
         success: "అభినందనలు! {buyer} కిలోకు {amount} రూపాయలు ఆఫర్ చేశారు!",
+        auction_summary: "{count} కొనుగోలుదారులు బిడ్ చేశారు. ఉత్తమ ఆఫర్ {buyer}, కిలోకు {amount} రూపాయలు. అన్ని ఆఫర్లను స్క్రీన్‌పై చూడండి.",
+        bid_review_prompt: "{buyer} కిలోకు {amount} రూపాయలు ఆఫర్ చేశారు. ఒప్పుకుంటారా, తిరస్కరిస్తారా, లేదా ఎక్కువ ధర అడుగుతారా? ఉదా. 'ఇంకా రెండు రూపాయలు కావాలి'.",
+        bid_not_understood: "క్షమించండి, అర్థం కాలేదు. {buyer} ఆఫర్ కిలోకు {amount} రూపాయలు. 'అవును', 'వద్దు', లేదా 'ఇంకా రెండు రూపాయలు కావాలి' అని చెప్పండి.",
+        bid_processing: "సరే, కొనుగోలుదారుకు తెలియజేస్తున్నాను...",
+        bid_sold: "అభినందనలు! మీ పంట {buyer}కు కిలోకు {amount} రూపాయలకు అమ్ముడైంది. ఆర్డర్ ఖరారైంది.",
+        bid_rejected_next: "సరే, ఆ ఆఫర్ తిరస్కరించబడింది. తదుపరి ఆఫర్ {buyer}, కిలోకు {amount} రూపాయలు. ఒప్పుకుంటారా?",
+        bid_rejected_none: "సరే, ఆఫర్ తిరస్కరించబడింది. ప్రస్తుతం వేరే ఆఫర్లు లేవు.",
+        counter_raised: "{buyer} తమ ఆఫర్‌ను కిలోకు {amount} రూపాయలకు పెంచారు. ఒప్పుకుంటారా?",
+        counter_declined: "{buyer} మీ ధరను అంగీకరించలేదు. వారి ఆఫర్ ఇంకా కిలోకు {amount} రూపాయలు. ఒప్పుకుంటారా, తిరస్కరిస్తారా, లేదా వేరే ధర చెబుతారా?",
+        bid_response_failed: "క్షమించండి, మీ సమాధానం కొనుగోలుదారుకు చేరలేదు. దయచేసి మళ్ళీ చెప్పండి.",
+        order_status_checking: "మీ ఆర్డర్ చూస్తున్నాను...",
+        order_status_none: "ప్రస్తుతం మీకు ఏ ఆర్డర్ లేదు. పంట అమ్మిన తర్వాత దాని వివరాలు చెబుతాను.",
+        order_status_failed: "క్షమించండి, ఇప్పుడు ఆర్డర్ వివరాలు తెలుసుకోలేకపోయాను. కొంచెం సేపటి తర్వాత అడగండి.",
+        order_status_bid_accepted: "{buyer} తో మీ అమ్మకం ఖరారు అవుతోంది.",
+        order_status_order_confirmed: "{buyer} తో మీ ఆర్డర్ ఖరారైంది. సరుకు త్వరలో ప్యాక్ అవుతుంది. {date} లోపు చేరుతుందని అంచనా.",
+        order_status_packed: "{buyer} కోసం మీ సరుకు ప్యాక్ అయింది, {logistics} కోసం ఎదురుచూస్తోంది.",
+        order_status_picked_up: "{logistics} మీ సరుకును {buyer} కోసం తీసుకెళ్లింది. {date} లోపు చేరుతుందని అంచనా.",
+        order_status_in_transit: "మీ సరుకు {logistics} ద్వారా {buyer} దగ్గరికి వెళ్తోంది. {date} లోపు చేరుతుందని అంచనా.",
+        order_status_delivered: "మీ సరుకు {buyer} కు చేరింది.",
+        order_status_cancelled: "{buyer} తో మీ ఆర్డర్ రద్దయింది.",
+        cancel_checking: "ఒక్క క్షణం, మీ లిస్టింగ్ చూస్తున్నాను...",
+        cancel_confirm_listing: "మీ {quantity} కిలోల {commodity} లిస్టింగ్ రద్దు చేయనా? అవును లేదా కాదు చెప్పండి.",
+        cancel_confirm_sale: "{buyer} కి అమ్మిన {quantity} కిలోల {commodity} అమ్మకం రద్దు చేయనా? అవును లేదా కాదు చెప్పండి.",
+        cancel_not_found: "రద్దు చేయడానికి {commodity} లిస్టింగ్ ఏదీ లేదు.",
+        cancel_kept: "సరే, {commodity} లిస్టింగ్ అలాగే ఉంటుంది.",
+        cancel_processing: "రద్దు చేస్తున్నాను...",
+        cancel_listing_done: "మీ {commodity} లిస్టింగ్ రద్దయింది.",
+        cancel_sale_done: "{buyer} తో {commodity} అమ్మకం రద్దయింది. కొనుగోలుదారుకు తెలియజేశాం.",
+        cancel_failed: "క్షమించండి, దీన్ని రద్దు చేయలేకపోయాను.",
+        relist_prompt: "మీ {quantity} {unit} {commodity} లిస్టింగ్ ({price} రూపాయలు) అమ్ముడుపోకుండా గడువు ముగిసింది. మళ్ళీ {price} రూపాయలకు పెట్టనా, లేక {suggested} రూపాయలకా? వద్దనుకుంటే కాదు అని చెప్పండి.",
+        relist_prompt_same: "మీ {quantity} {unit} {commodity} లిస్టింగ్ అమ్ముడుపోకుండా గడువు ముగిసింది. మళ్ళీ పెట్టనా? అవును లేదా కాదు అని చెప్పండి.",
+        relist_declined: "సరే, {commodity} లిస్టింగ్ మూసే ఉంటుంది.",
+        relist_processing: "మళ్ళీ పెడుతున్నాను...",
+        relist_done: "మీ {commodity} మళ్ళీ {unit}కి {price} రూపాయలకు పెట్టబడింది. ఆఫర్లు స్క్రీన్‌పై కనిపిస్తాయి.",
+        relist_failed: "క్షమించండి, లిస్టింగ్‌ను మళ్ళీ పంపలేకపోయాను. దయచేసి స్క్రీన్ నుండి ప్రయత్నించండి.",
+        resume_prompt: "గత సారి మీరు {commodity} అమ్ముతున్నారు. అక్కడి నుండే కొనసాగిద్దామా?",
+        resume_continue: "సరే, అక్కడి నుండే కొనసాగిద్దాం.",
+        resume_declined: "సరే, కొత్తగా మొదలుపెడదాం.",
+        resume_failed: "క్షమించండి, మునుపటి సంభాషణను తెరవలేకపోయాను. కొత్తగా మొదలుపెడదాం.",
+        corrected_commodity: "సరే, {commodity}.",
+        corrected_quantity: "సరే, {quantity} కిలోలు.",
+        corrected_quality: "సరే, నాణ్యత {quality}.",
+        corrected_price: "సరే, కిలోకు {price} రూపాయలు.",
+        going_back: "సరే, మునుపటి ప్రశ్నకు వెళ్దాం.",
+        status_checking: "ఒక్క క్షణం, చూస్తున్నాను...",
+        help: "మీరు ఇలా చెప్పవచ్చు: '200 కిలోల ఉల్లిపాయలు అమ్మాలి', 'లాసల్‌గావ్‌లో ఉల్లిపాయ ధర ఎంత', 'నా టమాటాలపై ఎవరైనా వేలం వేశారా?', 'డబ్బు ఎప్పుడు వస్తుంది', 'నా ఆర్డర్ ఎక్కడ ఉంది', 'నా లిస్టింగ్ రద్దు చేయి' లేదా 'నా ప్రొఫైల్ మార్చు'.",
+        price_enquiry_ask: "ఏ పంట ధర తెలుసుకోవాలి? ఉదా. 'లాసల్‌గావ్‌లో ఉల్లిపాయ ధర' అని చెప్పండి.",
+        price_enquiry_failed: "క్షమించండి, ఇప్పుడు ఈరోజు ధర తెలుసుకోలేకపోయాను. కొంచెం సేపటి తర్వాత అడగండి.",
+        listing_status_none: "ప్రస్తుతం మీకు ఏ లిస్టింగ్ లేదు.",
+        listing_status_failed: "క్షమించండి, ఇప్పుడు లిస్టింగ్ వివరాలు తెలుసుకోలేకపోయాను. కొంచెం సేపటి తర్వాత అడగండి.",
+        listing_status_draft: "మీ {commodity} లిస్టింగ్ ఇంకా కొనుగోలుదారులకు పంపలేదు.",
+        listing_status_broadcasted: "మీ {commodity} లిస్టింగ్ కొనుగోలుదారుల దగ్గర ఉంది. ఇంకా వేలం ఏదీ రాలేదు.",
+        listing_status_bids_open: "మీ {commodity} పై ఇప్పటివరకు వచ్చిన వేలాలు: {count}. అత్యుత్తమం {buyer}, కిలోకు {amount} రూపాయలు. కొనుగోలుదారులు ఇంకా వేలం వేయవచ్చు.",
+        listing_status_bids_closed: "మీ {commodity} పై వచ్చిన వేలాలు: {count}. అత్యుత్తమం {buyer}, కిలోకు {amount} రూపాయలు. జవాబు ఇవ్వడానికి 'వేలం చూపించు' అని చెప్పండి.",
+        listing_status_sold: "మీ {commodity} {buyer} కు అమ్ముడైంది.",
+        listing_status_expired: "మీ {commodity} లిస్టింగ్ అమ్ముడవకుండానే ముగిసింది.",
+        listing_status_cancelled: "మీ {commodity} లిస్టింగ్ రద్దయింది.",
+        bid_review_none: "ప్రస్తుతం జవాబు ఇవ్వడానికి ఏ వేలం లేదు.",
+        bid_review_still_open: "కొనుగోలుదారులు ఇంకా మీ {commodity} పై వేలం వేస్తున్నారు. వేలం ముగిసిన తర్వాత మళ్లీ అడగండి.",
+        payment_status_none: "డబ్బు రావాల్సిన అమ్మకం ఏదీ ప్రస్తుతం లేదు.",
+        payment_status_failed: "క్షమించండి, ఇప్పుడు డబ్బు వివరాలు తెలుసుకోలేకపోయాను. కొంచెం సేపటి తర్వాత అడగండి.",
+        payment_status_advance: "{buyer} సరుకు పంపే ముందు {amount} రూపాయలు అడ్వాన్స్‌గా ఇస్తారు.",
+        payment_status_on_delivery: "{buyer} సరుకు చేరగానే {amount} రూపాయలు ఇస్తారు.",
+        payment_expected: "{date} లోపు చేరుతుందని అంచనా.",
+        payment_status_due: "మీ సరుకు {buyer} కు చేరింది. వారి {amount} రూపాయలు ఇప్పుడు చెల్లించాల్సి ఉంది.",
+        payment_status_cancelled: "{buyer} తో మీ చివరి అమ్మకం రద్దయింది, కాబట్టి డబ్బు ఏదీ రావాల్సి లేదు.",
+        payment_kyc_pending: "మీ డబ్బు అందుకునే వివరాలు ఇంకా ధృవీకరించబడలేదు. దయచేసి మీ ప్రొఫైల్ చూడండి.",
+        pool_share: "{fpo} ఉమ్మడి {commodity} అమ్మింది. మీ {quantity} {unit} వాటాకు {amount} రూపాయలు.",
+        ask_commodity_usual: "ఈరోజు {commodity} అమ్ముతున్నారా? అవును అని చెప్పండి, లేదా వేరే పంట చెప్పండి.",
+        profile_ask: "మీ ప్రొఫైల్‌లో ఏమి మార్చాలి? గ్రామం, ఎన్ని ఎకరాల భూమి, ఏ పంటలు, ఏ మండి, లేదా UPI ఐడి.",
+        profile_not_understood: "క్షమించండి, అర్థం కాలేదు. 'నాకు 5 ఎకరాల భూమి ఉంది' లేదా 'నేను లాసల్‌గావ్ మండిలో అమ్ముతాను' అని చెప్పండి.",
+        profile_confirm: "ఇది సేవ్ చేయనా: {changes}? అవును లేదా కాదు అని చెప్పండి.",
+        profile_kept: "సరే, ప్రొఫైల్ మార్చలేదు.",
+        profile_saving: "సేవ్ చేస్తున్నాను...",
+        profile_saved: "మీ ప్రొఫైల్ అప్‌డేట్ అయింది.",
+        profile_failed: "క్షమించండి, ప్రొఫైల్ సేవ్ కాలేదు. దయచేసి స్క్రీన్ నుండి ప్రయత్నించండి.",
+        profile_part_place: "ప్రదేశం {place}",
+        profile_part_land: "{acres} ఎకరాల భూమి",
+        profile_part_add_crops: "పంటల్లో {crops} చేర్చండి",
+        profile_part_remove_crops: "పంటల నుండి {crops} తీసివేయండి",
+        profile_part_mandi: "మండి {mandi}",
+        profile_part_upi: "UPI ఐడి {upi}",
         cancelled: "పర్వాలేదు. ఎప్పుడైనా మళ్ళీ మాట్లాడండి.",
         not_understood_commodity: "క్షమించండి, అర్థం కాలేదు. ఏ పంట అమ్మాలనుకుంటున్నారు?",
         not_understood_quantity: "ఎన్ని కిలోలు లేదా క్వింటాళ్లు? దయచేసి మళ్ళీ చెప్పండి.",
@@ -1362,6 +3477,88 @@ const LOCALIZED_TEXTS: Record<string, Record<string, string>> = {
         confirm_broadcast: "Should I send to buyers?",
         broadcasting: "Okay. Sending to buyers. Please wait...",
         success: "Congratulations! {buyer} has offered {amount} rupees per kg!",
+        auction_summary: "{count} buyers have bid. The best offer is from {buyer} at {amount} rupees per kg. Compare all offers on the screen.",
+        bid_review_prompt: "{buyer} offers {amount} rupees per kg. Do you want to accept, reject, or ask for more? For example, 'two rupees more'.",
+        bid_not_understood: "Sorry, I didn't understand. {buyer} offers {amount} rupees per kg. Say 'yes', 'no', or 'two rupees more'.",
+        bid_processing: "Okay, letting the buyer know...",
+        bid_sold: "Congratulations! Your crop is sold to {buyer} at {amount} rupees per kg. The order is confirmed.",
+        bid_rejected_next: "Okay, that offer is rejected. The next offer is from {buyer} at {amount} rupees per kg. Do you accept?",
+        bid_rejected_none: "Okay, the offer is rejected. There are no other offers right now.",
+        counter_raised: "{buyer} has raised the offer to {amount} rupees per kg. Do you accept?",
+        counter_declined: "{buyer} did not agree to your price. The offer is still {amount} rupees per kg. Accept, reject, or name another price?",
+        bid_response_failed: "Sorry, your answer could not reach the buyer. Please speak again.",
+        order_status_checking: "Let me check your order...",
+        order_status_none: "You have no orders yet. Once your produce is sold I can tell you where it is.",
+        order_status_failed: "Sorry, I could not check your order right now. Please ask again in a little while.",
+        order_status_bid_accepted: "Your sale to {buyer} is being confirmed.",
+        order_status_order_confirmed: "Your order with {buyer} is confirmed. Your produce will be packed soon and should arrive by {date}.",
+        order_status_packed: "Your produce for {buyer} is packed and waiting for {logistics} to pick it up.",
+        order_status_picked_up: "{logistics} has picked up your produce for {buyer}. It should arrive by {date}.",
+        order_status_in_transit: "Your produce is on its way to {buyer} with {logistics}. It should arrive by {date}.",
+        order_status_delivered: "Your produce has been delivered to {buyer}.",
+        order_status_cancelled: "Your order with {buyer} was cancelled.",
+        cancel_checking: "One moment, finding your listing...",
+        cancel_confirm_listing: "Cancel your listing of {quantity} kg {commodity}? Please say yes or no.",
+        cancel_confirm_sale: "Cancel the sale of {quantity} kg {commodity} to {buyer}? Please say yes or no.",
+        cancel_not_found: "I could not find a {commodity} listing to cancel.",
+        cancel_kept: "Okay, your {commodity} listing stays as it is.",
+        cancel_processing: "Cancelling...",
+        cancel_listing_done: "Your {commodity} listing has been cancelled.",
+        cancel_sale_done: "Your {commodity} sale to {buyer} has been cancelled. The buyer has been told.",
+        cancel_failed: "Sorry, this could not be cancelled.",
+        relist_prompt: "Your listing of {quantity} {unit} {commodity} at {price} rupees expired without a sale. Should I list it again at {price} rupees, or lower at {suggested} rupees? Say no to leave it.",
+        relist_prompt_same: "Your listing of {quantity} {unit} {commodity} expired without a sale. Should I list it again? Please say yes or no.",
+        relist_declined: "Okay, your {commodity} listing stays closed.",
+        relist_processing: "Listing it again...",
+        relist_done: "Your {commodity} is listed again at {price} rupees per {unit}. Offers will show on the screen.",
+        relist_failed: "Sorry, the listing could not be sent again. Please try from the screen.",
+        resume_prompt: "Last time you were selling {commodity}. Shall we continue where you left off?",
+        resume_continue: "Okay, let's continue from there.",
+        resume_declined: "Okay, let's start afresh.",
+        resume_failed: "Sorry, the last conversation could not be opened. Let's start afresh.",
+        corrected_commodity: "Okay, {commodity}.",
+        corrected_quantity: "Okay, {quantity} kg.",
+        corrected_quality: "Okay, quality {quality}.",
+        corrected_price: "Okay, {price} rupees per kg.",
+        going_back: "Okay, let's go back to the previous question.",
+        status_checking: "One moment, let me check...",
+        help: "You can say: 'sell 200 kilo onion', 'onion price in Lasalgaon', 'did anyone bid on my tomatoes?', 'when will I be paid', 'where is my order', 'cancel my listing' or 'update my profile'.",
+        price_enquiry_ask: "Which crop's price do you want to know? For example, say 'onion price in Lasalgaon'.",
+        price_enquiry_failed: "Sorry, I could not get today's prices right now. Please ask again in a little while.",
+        listing_status_none: "You have no listings right now.",
+        listing_status_failed: "Sorry, I could not check your listings right now. Please ask again in a little while.",
+        listing_status_draft: "Your {commodity} listing has not been sent to buyers yet.",
+        listing_status_broadcasted: "Your {commodity} listing is with buyers. No bids yet.",
+        listing_status_bids_open: "Bids on your {commodity} so far: {count}. The best is from {buyer} at {amount} rupees per kg. Buyers can still bid.",
+        listing_status_bids_closed: "Bids on your {commodity}: {count}. The best is from {buyer} at {amount} rupees per kg. Say 'answer the bids' to reply.",
+        listing_status_sold: "Your {commodity} has been sold to {buyer}.",
+        listing_status_expired: "Your {commodity} listing expired without a sale.",
+        listing_status_cancelled: "Your {commodity} listing was cancelled.",
+        bid_review_none: "There are no bids to answer right now.",
+        bid_review_still_open: "Buyers are still bidding on your {commodity}. Ask again once bidding closes.",
+        payment_status_none: "You have no sales waiting to be paid.",
+        payment_status_failed: "Sorry, I could not check your payment right now. Please ask again in a little while.",
+        payment_status_advance: "{buyer} pays {amount} rupees in advance, before your produce is sent.",
+        payment_status_on_delivery: "{buyer} pays {amount} rupees when your produce is delivered.",
+        payment_expected: "It should arrive by {date}.",
+        payment_status_due: "Your produce has reached {buyer}. Their payment of {amount} rupees is due now.",
+        payment_status_cancelled: "Your last sale to {buyer} was cancelled, so no payment is due.",
+        payment_kyc_pending: "Your payout details are not verified yet. Please check your profile.",
+        pool_share: "{fpo} sold the pooled {commodity}. Your share for {quantity} {unit} is {amount} rupees.",
+        ask_commodity_usual: "Are you selling {commodity} today? Say yes, or tell me another crop.",
+        profile_ask: "What would you like to change in your profile? For example your village, how many acres you farm, your crops, your mandi, or your UPI ID.",
+        profile_not_understood: "Sorry, I didn't understand. Say something like 'I farm 5 acres' or 'I sell at Lasalgaon mandi'.",
+        profile_confirm: "Should I save this: {changes}? Please say yes or no.",
+        profile_kept: "Okay, your profile is unchanged.",
+        profile_saving: "Saving...",
+        profile_saved: "Your profile has been updated.",
+        profile_failed: "Sorry, your profile could not be saved. Please try from the screen.",
+        profile_part_place: "place {place}",
+        profile_part_land: "{acres} acres of land",
+        profile_part_add_crops: "add {crops} to your crops",
+        profile_part_remove_crops: "remove {crops} from your crops",
+        profile_part_mandi: "mandi {mandi}",
+        profile_part_upi: "UPI ID {upi}",
         cancelled: "No problem. Talk again whenever you want.",
         not_understood_commodity: "Sorry, I didn't understand. What crop do you want to sell?",
         not_understood_quantity: "How many kg or quintals? Please tell again.",
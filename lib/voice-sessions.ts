@@ -0,0 +1,233 @@
+/**
+ * Voice Sessions Module - Saved, Resumable Voice Conversations
+ *
+ * A voice conversation used to live only in the browser, so a refresh or
+ * a dropped 2G connection lost the listing half-way through. Every turn
+ * is now saved under the session ID from startConversationAction: the
+ * stage, what has been collected, the price suggestion, the listing
+ * awaiting a go-ahead and a transcript of what was said.
+ *
+ * When the farmer comes back within the resume window with a listing
+ * still being built, the greeting asks whether to continue where they
+ * left off.
+ *
+ * @module voice-sessions
+ */
+
+import { prisma } from './db';
+import { Prisma, type VoiceConversation } from './generated-client/client';
+import type { ConversationStage, ConversationState } from './voice-conversation-agent';
+import type { PriceSuggestion } from './mandi-price-service';
+import type { BecknCatalogItem } from './beckn-schema';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * One thing said in a conversation
+ */
+export interface TranscriptTurn {
+  speaker: 'FARMER' | 'AGENT';
+  text: string;
+  /** Stage the conversation was in after the turn */
+  stage: ConversationStage;
+  /** ISO timestamp */
+  at: string;
+}
+
+/**
+ * A saved conversation, as far as it can be picked up again
+ */
+export interface SavedConversation {
+  sessionId: string;
+  languageCode: string;
+  stage: ConversationStage;
+  collectedData: ConversationState['collectedData'];
+  priceSuggestion?: PriceSuggestion;
+  catalogItem?: BecknCatalogItem;
+  transcript: TranscriptTurn[];
+  updatedAt: Date;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Stages of a listing still being built; only these are offered back
+ *
+ * Bids, cancellations, re-listings and profile changes are asked about
+ * afresh at the start of every session.
+ */
+export const RESUMABLE_STAGES: ConversationStage[] = [
+  'asking_quantity',
+  'asking_quality',
+  'asking_price_preference',
+  'showing_market_prices',
+  'confirming_listing'
+];
+
+/**
+ * Most turns kept per conversation; older ones are dropped
+ */
+export const MAX_TRANSCRIPT_TURNS = 200;
+
+/**
+ * Default time a conversation can be picked up again: 30 minutes
+ */
+const DEFAULT_RESUME_WINDOW_MS = 30 * 60 * 1000;
+
+/**
+ * Read how long after its last turn a conversation can be resumed
+ *
+ * Set VOICE_SESSION_RESUME_WINDOW_MS to change it, or to 0 to never offer it.
+ */
+export function getResumeWindowMs(): number {
+  const configured = Number(process.env.VOICE_SESSION_RESUME_WINDOW_MS);
+  return process.env.VOICE_SESSION_RESUME_WINDOW_MS && Number.isFinite(configured) && configured >= 0
+    ? configured
+    : DEFAULT_RESUME_WINDOW_MS;
+}
+
+// ============================================================================
+// SAVING
+// ============================================================================
+
+/**
+ * Convert a stored conversation to its saved state
+ */
+function toSavedConversation(conversation: VoiceConversation): SavedConversation {
+  return {
+    sessionId: conversation.id,
+    languageCode: conversation.languageCode,
+    stage: conversation.stage as ConversationStage,
+    collectedData: conversation.collectedData as ConversationState['collectedData'],
+    priceSuggestion: (conversation.priceSuggestion as unknown as PriceSuggestion | null) ?? undefined,
+    catalogItem: (conversation.catalogItem as unknown as BecknCatalogItem | null) ?? undefined,
+    transcript: conversation.transcript as unknown as TranscriptTurn[],
+    updatedAt: conversation.updatedAt
+  };
+}
+
+/**
+ * Save a conversation after a turn
+ *
+ * Creates the conversation on its first turn. A session ID that belongs
+ * to another farmer is not touched.
+ *
+ * @param farmerId - The logged-in farmer
+ * @param state - The conversation after the turn; saved under state.sessionId
+ * @param farmerText - What the farmer said
+ * @param agentText - What was said back
+ * @returns Whether the turn was saved
+ */
+export async function saveConversationTurn(
+  farmerId: string,
+  state: ConversationState,
+  farmerText: string,
+  agentText: string
+): Promise<boolean> {
+  const sessionId = state.sessionId;
+  if (!sessionId) {
+    return false;
+  }
+
+  const existing = await prisma.voiceConversation.findUnique({ where: { id: sessionId } });
+  if (existing && existing.farmerId !== farmerId) {
+    console.warn(`[VOICE-SESSION] Session ${sessionId} is not this farmer's`);
+    return false;
+  }
+
+  const at = new Date().toISOString();
+  const turns: TranscriptTurn[] = [
+    { speaker: 'FARMER', text: farmerText, stage: state.stage, at },
+    { speaker: 'AGENT', text: agentText, stage: state.stage, at }
+  ];
+  const earlier = (existing?.transcript as unknown as TranscriptTurn[] | undefined) ?? [];
+  const transcript = [...earlier, ...turns].slice(-MAX_TRANSCRIPT_TURNS);
+
+  const data = {
+    languageCode: state.language.code,
+    stage: state.stage,
+    collectedData: state.collectedData as Prisma.InputJsonValue,
+    // Cleared when the farmer starts a different listing
+    priceSuggestion: state.priceSuggestion ? state.priceSuggestion as unknown as Prisma.InputJsonValue : Prisma.DbNull,
+    catalogItem: state.catalogItem ? state.catalogItem as unknown as Prisma.InputJsonValue : Prisma.DbNull,
+    transcript: transcript as unknown as Prisma.InputJsonValue
+  };
+
+  await prisma.voiceConversation.upsert({
+    where: { id: sessionId },
+    create: { id: sessionId, farmerId, ...data },
+    update: data
+  });
+
+  return true;
+}
+
+// ============================================================================
+// RESUMING
+// ============================================================================
+
+/**
+ * The farmer's latest conversation that can be picked up again
+ *
+ * A listing still being built, last spoken to within the resume window
+ * and not turned down before.
+ *
+ * @param farmerId - The logged-in farmer
+ * @param now - Current time (for testing)
+ */
+export async function findResumableConversation(
+  farmerId: string,
+  now = new Date()
+): Promise<SavedConversation | null> {
+  const windowMs = getResumeWindowMs();
+  if (windowMs === 0) {
+    return null;
+  }
+
+  const conversation = await prisma.voiceConversation.findFirst({
+    where: {
+      farmerId,
+      endedAt: null,
+      stage: { in: RESUMABLE_STAGES },
+      updatedAt: { gte: new Date(now.getTime() - windowMs) }
+    },
+    orderBy: { updatedAt: 'desc' }
+  });
+
+  return conversation && toSavedConversation(conversation);
+}
+
+/**
+ * One of the farmer's saved conversations
+ *
+ * @returns The conversation, or null when it is missing, another farmer's
+ * or has ended
+ */
+export async function getSavedConversation(farmerId: string, sessionId: string): Promise<SavedConversation | null> {
+  const conversation = await prisma.voiceConversation.findFirst({
+    where: { id: sessionId, farmerId, endedAt: null }
+  });
+
+  return conversation && toSavedConversation(conversation);
+}
+
+/**
+ * Stop offering a conversation back, e.g. when the farmer starts afresh
+ *
+ * @returns Whether the conversation was open
+ */
+export async function endConversation(farmerId: string, sessionId: string): Promise<boolean> {
+  const { count } = await prisma.voiceConversation.updateMany({
+    where: { id: sessionId, farmerId, endedAt: null },
+    data: { endedAt: new Date() }
+  });
+
+  if (count > 0) {
+    console.log(`[VOICE-SESSION] Farmer ${farmerId} ended session ${sessionId}`);
+  }
+  return count > 0;
+}
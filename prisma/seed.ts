@@ -2,6 +2,7 @@
 import 'dotenv/config';
 import { PrismaClient } from '../lib/generated-client/client';
 import { PrismaBetterSqlite3 } from '@prisma/adapter-better-sqlite3';
+import { BUYER_POOL } from '../lib/buyer-pool';
 
 const adapter = new PrismaBetterSqlite3({
     url: process.env.DATABASE_URL || 'file:./dev.db'
@@ -12,28 +13,60 @@ const prisma = new PrismaClient({ adapter });
 async function main() {
     console.log(' Starting database seed...');
 
+    // Create a sample FPO; both farmers pool produce through it
+    const fpo = await prisma.fpo.upsert({
+        where: { providerId: 'nashik-kisan-fpo' },
+        update: {},
+        create: {
+            id: 'fpo-1',
+            name: 'Nashik Kisan Producer Company',
+            providerId: 'nashik-kisan-fpo',
+            state: 'Maharashtra',
+        },
+    });
+
+    console.log('[OK] Created FPO:', fpo.name);
+
     // Create sample farmers
     const farmer1 = await prisma.farmer.upsert({
         where: { id: 'farmer-1' },
-        update: {},
+        update: { phone: '+919876543210', fpoId: fpo.id },
         create: {
             id: 'farmer-1',
             name: 'Rajesh Patil',
+            phone: '+919876543210', // Log in with this number; the code is printed to the server log
             locationLatLong: '19.0760,72.8777', // Mumbai coordinates
+            state: 'Maharashtra',
             languagePref: 'hi',
+            village: 'Niphad',
+            district: 'Nashik',
+            landholdingAcres: 5,
+            crops: ['Onion', 'Wheat'],
+            preferredMandis: ['Lasalgaon'],
             upiId: 'rajesh.patil@paytm',
+            kycStatus: 'VERIFIED',
+            fpoId: fpo.id,
         },
     });
 
     const farmer2 = await prisma.farmer.upsert({
         where: { id: 'farmer-2' },
-        update: {},
+        update: { phone: '+919876543211', fpoId: fpo.id },
         create: {
             id: 'farmer-2',
             name: 'Sunita Deshmukh',
+            phone: '+919876543211', // Log in with this number; the code is printed to the server log
             locationLatLong: '18.5204,73.8567', // Pune coordinates
+            state: 'Maharashtra',
             languagePref: 'mr',
+            village: 'Junnar',
+            district: 'Pune',
+            landholdingAcres: 3.5,
+            crops: ['Tomato'],
+            preferredMandis: ['Pune'],
             upiId: 'sunita.deshmukh@upi',
+            kycStatus: 'VERIFIED',
+            fpoId: fpo.id,
         },
     });
 
@@ -104,6 +137,20 @@ async function main() {
 
     console.log('[OK] Created catalogs:', catalog1.id, catalog2.id);
 
+    // Register the built-in buyer platforms; edits made since are kept
+    for (const buyer of BUYER_POOL) {
+        await prisma.buyer.upsert({
+            where: { subscriberId: buyer.subscriberId },
+            update: {},
+            create: {
+                ...buyer,
+                commodityPreferences: buyer.commodityPreferences ?? [],
+            },
+        });
+    }
+
+    console.log('[OK] Registered buyers:', BUYER_POOL.length);
+
     // Create sample network logs
     const log1 = await prisma.networkLog.create({
         data: {
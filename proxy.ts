@@ -0,0 +1,27 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+/**
+ * Login Redirect
+ *
+ * Sends visitors without a session cookie to /login. Only the cookie's
+ * presence is checked here; the server actions resolve it to a farmer
+ * and refuse expired or unknown sessions, and the admin actions refuse
+ * farmers who are not admins.
+ */
+
+// Same name as SESSION_COOKIE in lib/farmer-session
+const SESSION_COOKIE = "setu_session";
+
+export function proxy(request: NextRequest) {
+  if (request.cookies.has(SESSION_COOKIE)) {
+    return NextResponse.next();
+  }
+
+  const loginUrl = new URL("/login", request.url);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  // The farmer-facing pages; /login, the ONDC callbacks and assets stay open
+  matcher: ["/", "/profile/:path*", "/debug/:path*", "/admin/:path*"]
+};
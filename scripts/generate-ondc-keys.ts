@@ -0,0 +1,34 @@
+/**
+ * ONDC Signing Key Generator
+ * 
+ * Generates an Ed25519 key pair in ONDC registry format and prints the
+ * environment variables needed to sign and verify ONDC messages locally.
+ * 
+ * Usage: npm run ondc:keygen [unique-key-id]
+ */
+
+import { generateSigningKeyPair, createAuthorizationHeader, verifyAuthorizationHeader } from '../lib/ondc-signing';
+
+async function main() {
+  const uniqueKeyId = process.argv[2] || `UK-${Date.now()}`;
+  const keys = generateSigningKeyPair();
+
+  // Self-check: sign a sample body and verify it with the new public key
+  const body = JSON.stringify({ context: { action: 'search' }, message: {} });
+  const header = createAuthorizationHeader(body, { keys: { ...keys, uniqueKeyId } });
+  const result = await verifyAuthorizationHeader(header, body, () => keys.publicKey);
+
+  if (!result.valid) {
+    console.error('[X] Generated key pair failed self-check:', result.error);
+    process.exit(1);
+  }
+
+  console.log('[OK] Generated Ed25519 signing key pair\n');
+  console.log('# Add these to your .env file');
+  console.log(`ONDC_UNIQUE_KEY_ID=${uniqueKeyId}`);
+  console.log(`ONDC_SIGNING_PRIVATE_KEY=${keys.privateKey}`);
+  console.log(`ONDC_SIGNING_PUBLIC_KEY=${keys.publicKey}`);
+  console.log('\n[!] Keep the private key secret. Register only the public key.');
+}
+
+main();
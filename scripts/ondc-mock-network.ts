@@ -0,0 +1,42 @@
+/**
+ * Local ONDC Mock Network
+ * 
+ * Runs a stand-in ONDC gateway and registry with mock buyer platforms
+ * built from BUYER_POOL. Point the app at it with:
+ * 
+ *   ONDC_GATEWAY_URL=http://localhost:4010
+ *   ONDC_REGISTRY_URL=http://localhost:4010
+ * 
+ * Usage: npm run ondc:mock
+ */
+
+import { startMockOndcNetwork } from '../lib/ondc-mock-network';
+
+async function main() {
+  const network = await startMockOndcNetwork({
+    port: Number(process.env.ONDC_MOCK_PORT) || 4010,
+    callbackDelayMs: Number(process.env.ONDC_MOCK_CALLBACK_DELAY_MS) || undefined,
+    requireSignatures: process.env.ONDC_MOCK_REQUIRE_SIGNATURES === 'true'
+  });
+
+  console.log(`[OK] ONDC mock network listening on ${network.url}\n`);
+  console.log('Registered buyer platforms:');
+  for (const participant of network.participants) {
+    console.log(`  - ${participant.buyer.name} (${participant.entry.subscriber_id})`);
+  }
+  console.log('\nEndpoints: POST /search, POST /lookup, POST /bpp/{subscriber_id}/{select|init|confirm}');
+
+  const shutdown = async () => {
+    console.log('\nStopping ONDC mock network...');
+    await network.stop();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('[X] Failed to start ONDC mock network:', error);
+  process.exit(1);
+});
@@ -1,4 +1,4 @@
-import { Farmer, Catalog, NetworkLog, CatalogStatus, NetworkLogType } from '@/lib/generated-client/client';
+import { Farmer, Catalog, NetworkLog, CatalogStatus, KycStatus, NetworkLogType } from '@/lib/generated-client/client';
 import { SAMPLE_ONION_CATALOG, SAMPLE_MANGO_CATALOG } from './beckn-catalog';
 
 /**
@@ -8,9 +8,21 @@ import { SAMPLE_ONION_CATALOG, SAMPLE_MANGO_CATALOG } from './beckn-catalog';
 export const MOCK_FARMER: Farmer = {
   id: 'farmer-1',
   name: 'Ramesh Kumar',
+  phone: '+919876543210',
   locationLatLong: '19.9975,73.7898',
+  village: null,
+  district: null,
+  state: 'Maharashtra',
+  landholdingAcres: null,
+  crops: [],
+  preferredMandis: [],
   languagePref: 'hi',
   upiId: 'ramesh@paytm',
+  bankAccountName: null,
+  bankAccountNumber: null,
+  bankIfsc: null,
+  kycStatus: KycStatus.PENDING,
+  fpoId: null,
   createdAt: new Date('2024-01-01T00:00:00Z'),
   updatedAt: new Date('2024-01-01T00:00:00Z'),
 };
@@ -20,6 +32,10 @@ export const MOCK_CATALOG_DRAFT: Catalog = {
   farmerId: 'farmer-1',
   becknJson: SAMPLE_ONION_CATALOG as any,
   status: CatalogStatus.DRAFT,
+  version: 1,
+  expiresAt: null,
+  relistPromptedAt: null,
+  fpoId: null,
   createdAt: new Date('2024-01-01T10:00:00Z'),
   updatedAt: new Date('2024-01-01T10:00:00Z'),
 };
@@ -29,6 +45,10 @@ export const MOCK_CATALOG_BROADCASTED: Catalog = {
   farmerId: 'farmer-1',
   becknJson: SAMPLE_MANGO_CATALOG as any,
   status: CatalogStatus.BROADCASTED,
+  version: 1,
+  expiresAt: null,
+  relistPromptedAt: null,
+  fpoId: null,
   createdAt: new Date('2024-01-01T11:00:00Z'),
   updatedAt: new Date('2024-01-01T11:00:00Z'),
 };
@@ -40,6 +60,8 @@ export const MOCK_NETWORK_LOG_OUTGOING: NetworkLog = {
     catalogId: 'catalog-2',
     catalog: SAMPLE_MANGO_CATALOG,
   } as any,
+  transactionId: null,
+  catalogId: 'catalog-2',
   timestamp: new Date('2024-01-01T11:00:00Z'),
 };
 
@@ -51,6 +73,8 @@ export const MOCK_NETWORK_LOG_INCOMING: NetworkLog = {
     bidAmount: 115,
     catalogId: 'catalog-2',
   } as any,
+  transactionId: null,
+  catalogId: 'catalog-2',
   timestamp: new Date('2024-01-01T11:00:08Z'),
 };
 
@@ -0,0 +1,186 @@
+/**
+ * ONDC Mock Network - Integration Tests
+ * 
+ * Exercises the real HTTP path (signed requests, gateway fan-out, registry
+ * lookup and async callbacks) against the local mock network.
+ * No external services are required.
+ * 
+ * @module tests/integration/ondc-mock-network
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { startMockOndcNetwork, type MockOndcNetwork } from '@/lib/ondc-mock-network';
+import { sendOndcMessage, lookupSubscribers, createRegistryKeyResolver } from '@/lib/ondc-client';
+import { generateSigningKeyPair, verifyAuthorizationHeader } from '@/lib/ondc-signing';
+import {
+    createOndcContext,
+    createEnvelope,
+    createAck,
+    buildSearchMessage,
+    buildSelectMessage,
+    type ONDCEnvelope,
+    type ONDCOrderTerms
+} from '@/lib/ondc-protocol';
+import { SAMPLE_ONION_CATALOG } from '@/tests/fixtures/beckn-catalog';
+
+const RESPONDERS = 3;
+
+interface ReceivedCallback {
+    envelope: ONDCEnvelope<any>;
+    signatureValid: boolean;
+}
+
+describe('ONDC Mock Network - Integration Tests', () => {
+
+    let network: MockOndcNetwork;
+    let app: Server;
+    const received: ReceivedCallback[] = [];
+
+    /**
+     * Wait until the app has received `count` callbacks of an action
+     */
+    const waitForCallbacks = async (action: string, count: number, timeoutMs = 5000) => {
+        const deadline = Date.now() + timeoutMs;
+        while (Date.now() < deadline) {
+            const matches = received.filter(r => r.envelope.context.action === action);
+            if (matches.length >= count) return matches;
+            await new Promise(resolve => setTimeout(resolve, 25));
+        }
+        throw new Error(`Timed out waiting for ${count} ${action} callbacks`);
+    };
+
+    beforeAll(async () => {
+        // Stand-in for our app's callback routes
+        app = createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => { body += chunk.toString(); });
+            req.on('end', async () => {
+                const verification = await verifyAuthorizationHeader(
+                    req.headers.authorization,
+                    body,
+                    createRegistryKeyResolver(network.url)
+                );
+                received.push({ envelope: JSON.parse(body), signatureValid: verification.valid });
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify(createAck()));
+            });
+        });
+        await new Promise<void>(resolve => app.listen(0, '127.0.0.1', () => resolve()));
+
+        const keys = generateSigningKeyPair();
+        process.env.ONDC_SIGNING_PRIVATE_KEY = keys.privateKey;
+        process.env.ONDC_SIGNING_PUBLIC_KEY = keys.publicKey;
+        process.env.ONDC_UNIQUE_KEY_ID = 'UK-INTEGRATION';
+        process.env.ONDC_SUBSCRIBER_URI = `http://127.0.0.1:${(app.address() as AddressInfo).port}`;
+
+        network = await startMockOndcNetwork({
+            port: 0,
+            callbackDelayMs: 10,
+            maxResponders: RESPONDERS,
+            requireSignatures: true
+        });
+        process.env.ONDC_GATEWAY_URL = network.url;
+        process.env.ONDC_REGISTRY_URL = network.url;
+    });
+
+    afterAll(async () => {
+        await network?.stop();
+        await new Promise<void>(resolve => app.close(() => resolve()));
+
+        delete process.env.ONDC_SIGNING_PRIVATE_KEY;
+        delete process.env.ONDC_SIGNING_PUBLIC_KEY;
+        delete process.env.ONDC_UNIQUE_KEY_ID;
+        delete process.env.ONDC_SUBSCRIBER_URI;
+        delete process.env.ONDC_GATEWAY_URL;
+        delete process.env.ONDC_REGISTRY_URL;
+    });
+
+    it('should serve registry lookups for mock buyers and our gateway', async () => {
+        const buyer = network.participants[0];
+
+        const entries = await lookupSubscribers({ subscriber_id: buyer.entry.subscriber_id });
+        expect(entries).toHaveLength(1);
+        expect(entries[0].signing_public_key).toBe(buyer.keys.publicKey);
+
+        const own = await lookupSubscribers({ type: 'BAP' });
+        expect(own.map(e => e.subscriber_id)).toContain('setu.voice.gateway');
+    });
+
+    it('should NACK requests signed with an unregistered key', async () => {
+        const context = createOndcContext('search', { transactionId: 'txn-unsigned', messageId: 'msg-unsigned' });
+
+        const result = await sendOndcMessage(createEnvelope(context, buildSearchMessage('catalog-1', SAMPLE_ONION_CATALOG)), {
+            keys: { uniqueKeyId: 'UK-UNKNOWN', ...generateSigningKeyPair() }
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.status).toBe(401);
+    });
+
+    it('should fan out a signed search and deliver signed on_search callbacks', async () => {
+        const context = createOndcContext('search', { transactionId: 'txn-search', messageId: 'msg-search' });
+
+        const result = await sendOndcMessage(createEnvelope(context, buildSearchMessage('catalog-1', SAMPLE_ONION_CATALOG)));
+        expect(result.success).toBe(true);
+
+        const callbacks = await waitForCallbacks('on_search', RESPONDERS);
+        for (const callback of callbacks) {
+            expect(callback.signatureValid).toBe(true);
+            expect(callback.envelope.context.transaction_id).toBe('txn-search');
+            expect(callback.envelope.message.catalog['bpp/providers'][0].items[0].id).toBe('catalog-1');
+        }
+    });
+
+    it('should only fan out a search to buyers operating in the seller state', async () => {
+        const context = createOndcContext('search', { transactionId: 'txn-state', messageId: 'msg-state' });
+
+        const result = await sendOndcMessage(createEnvelope(context, buildSearchMessage('catalog-1', SAMPLE_ONION_CATALOG, 'West Bengal')));
+        expect(result.success).toBe(true);
+
+        await new Promise(resolve => setTimeout(resolve, 500));
+        const callbacks = received.filter(r => r.envelope.context.transaction_id === 'txn-state');
+
+        // Only two buyers in the pool operate in West Bengal
+        expect(callbacks).toHaveLength(2);
+        for (const callback of callbacks) {
+            const participant = network.participants.find(p => p.buyer.subscriberId === callback.envelope.context.bpp_id);
+            expect(participant?.buyer.operatingStates).toContain('West Bengal');
+        }
+    });
+
+    it('should answer select on the buyer URI with on_select', async () => {
+        const [onSearch] = await waitForCallbacks('on_search', 1);
+        const provider = onSearch.envelope.message.catalog['bpp/providers'][0];
+        const item = provider.items[0];
+
+        const terms: ONDCOrderTerms = {
+            itemId: item.id,
+            itemName: item.descriptor.name,
+            quantity: item.quantity.maximum.count,
+            unit: 'kg',
+            pricePerUnit: Number(item.price.value),
+            currency: 'INR',
+            providerId: provider.id,
+            providerName: provider.descriptor.name,
+            paymentTerms: 'Advance Payment',
+            deliveryDays: 3,
+            validityHours: 24
+        };
+        const context = createOndcContext('select', {
+            transactionId: 'txn-search',
+            messageId: 'msg-select',
+            bppId: onSearch.envelope.context.bpp_id,
+            bppUri: onSearch.envelope.context.bpp_uri
+        });
+
+        const result = await sendOndcMessage(createEnvelope(context, buildSelectMessage(terms)));
+        expect(result.success).toBe(true);
+
+        const [onSelect] = await waitForCallbacks('on_select', 1);
+        expect(onSelect.signatureValid).toBe(true);
+        expect(onSelect.envelope.context.bpp_id).toBe(provider.id);
+        expect(onSelect.envelope.message.order.quote.price.value).toBeDefined();
+    });
+});
@@ -2,6 +2,8 @@
  * Manual Test Script for Server Actions
  * 
  * This script tests all the server actions to ensure they work correctly.
+ * Catalog actions act for the logged-in farmer, so they need a request
+ * with a session cookie.
  * Run with: npx tsx test-actions.ts
  */
 
@@ -36,7 +38,7 @@ async function testActions() {
   // Test 2: Save Catalog Action
   console.log("=== Test 2: Save Catalog Action ===");
   if (translationResult.success && translationResult.catalog) {
-    const saveResult = await saveCatalogAction("farmer-1", translationResult.catalog);
+    const saveResult = await saveCatalogAction(translationResult.catalog);
 
     if (saveResult.success && saveResult.catalogId) {
       console.log("[OK] Catalog saved successfully");
@@ -78,7 +80,7 @@ async function testActions() {
 
   // Test 5: Get Catalogs by Farmer Action
   console.log("=== Test 5: Get Catalogs by Farmer Action ===");
-  const catalogsResult = await getCatalogsByFarmerAction("farmer-1");
+  const catalogsResult = await getCatalogsByFarmerAction();
 
   if (catalogsResult.success && catalogsResult.catalogs) {
     console.log("[OK] Catalogs fetched successfully");